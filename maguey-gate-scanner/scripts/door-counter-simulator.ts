@@ -0,0 +1,167 @@
+/**
+ * Door Counter Simulator
+ *
+ * Replays a realistic night of counts from a fake beam counter into
+ * door-counter-ingest, so Door Counter Management, unified capacity and
+ * discrepancy alerts can be tested without hardware. Register a counter on
+ * the Door Counters page first and use its device ID and API key.
+ *
+ *   npm run door-counter-sim
+ *
+ * Environment:
+ *   SUPABASE_URL                  Project URL (or VITE_SUPABASE_URL)
+ *   DOOR_COUNTER_API_KEY          The counter's API key (or DOOR_COUNTER_BRIDGE_TOKEN for mqtt)
+ *   DOOR_COUNTER_DEVICE_ID        The counter's device ID (used in the MQTT topic)
+ *   DOOR_COUNTER_SIM_FORMAT       json | csv | mqtt (default json)
+ *   DOOR_COUNTER_SIM_MODE         delta | cumulative; must match the counter (default delta)
+ *   DOOR_COUNTER_SIM_GUESTS       Arrivals over the night (default 600)
+ *   DOOR_COUNTER_SIM_HOURS        Length of the night (default 6)
+ *   DOOR_COUNTER_SIM_UNTIL        Stop this many minutes into the night, with people
+ *                                 still inside (default: the whole night, until close)
+ *   DOOR_COUNTER_SIM_SPEED        Replay speed-up; 0 sends everything at once (default 60)
+ *   DOOR_COUNTER_SIM_BATCH        Readings per request (default 1)
+ *   DOOR_COUNTER_SIM_DUPLICATES   Share of readings sent twice, e.g. 0.05
+ *   DOOR_COUNTER_SIM_LATE         Share of readings delivered late, e.g. 0.05
+ *   DOOR_COUNTER_SIM_RESET_AT     Minute the device power-cycles (cumulative mode)
+ *   DOOR_COUNTER_SIM_ROLLOVER     Highest total before wrapping, e.g. 65535 (cumulative mode)
+ *   DOOR_COUNTER_SIM_START_TOTAL  Cumulative total before doors open, to force a rollover
+ *   DOOR_COUNTER_SIM_SEED         Replays the same night (default 1)
+ *   DOOR_COUNTER_SIM_EVENT_ID     Run detect_count_discrepancy for this event afterwards
+ *   DOOR_COUNTER_SIM_OUTPUT       csv | json: print the night instead of sending it,
+ *                                 e.g. for the upload button on the Door Counters page
+ *
+ * The physical count the dashboard should show is printed at the end;
+ * ticket scans for the event make up the digital side of the discrepancy.
+ */
+
+import {
+  planDeliveries,
+  simulateNight,
+  toCsv,
+  toJsonBatch,
+  toMqttBridgeMessage,
+  type SimulatedCountMode,
+  type SimulatedReading,
+} from '../src/lib/door-counter-simulation';
+
+const env = process.env;
+const SUPABASE_URL = env.SUPABASE_URL || env.VITE_SUPABASE_URL || '';
+const API_KEY = env.DOOR_COUNTER_API_KEY || env.DOOR_COUNTER_BRIDGE_TOKEN || '';
+const DEVICE_ID = env.DOOR_COUNTER_DEVICE_ID || 'SIM-COUNTER';
+const FORMAT = env.DOOR_COUNTER_SIM_FORMAT || 'json';
+const MODE = (env.DOOR_COUNTER_SIM_MODE || 'delta') as SimulatedCountMode;
+const HOURS = parseFloat(env.DOOR_COUNTER_SIM_HOURS || '6');
+const SPEED = parseFloat(env.DOOR_COUNTER_SIM_SPEED || '60');
+const EVENT_ID = env.DOOR_COUNTER_SIM_EVENT_ID;
+const OUTPUT = env.DOOR_COUNTER_SIM_OUTPUT;
+
+const optionalNumber = (value: string | undefined) => (value ? parseFloat(value) : undefined);
+
+function encode(readings: SimulatedReading[]): { body: string; contentType: string } {
+  switch (FORMAT) {
+    case 'csv':
+      return { body: toCsv(readings), contentType: 'text/csv' };
+    case 'mqtt':
+      return { body: toMqttBridgeMessage(DEVICE_ID, readings), contentType: 'application/json' };
+    default:
+      return { body: toJsonBatch(readings), contentType: 'application/json' };
+  }
+}
+
+async function send(readings: SimulatedReading[]) {
+  const { body, contentType } = encode(readings);
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/door-counter-ingest?format=${FORMAT}`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${API_KEY}`, 'Content-Type': contentType },
+    body,
+  });
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(`door-counter-ingest answered ${response.status}: ${result.error || response.statusText}`);
+  }
+  return result as { accepted: number; duplicates: number; stale: number; resets: number; rollovers: number };
+}
+
+async function detectDiscrepancy(eventId: string) {
+  const key = env.SUPABASE_SERVICE_ROLE_KEY || env.VITE_SUPABASE_ANON_KEY || '';
+  const response = await fetch(`${SUPABASE_URL}/rest/v1/rpc/detect_count_discrepancy`, {
+    method: 'POST',
+    headers: { apikey: key, Authorization: `Bearer ${key}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ event_id_param: eventId, threshold_param: 5 }),
+  });
+  const discrepancyId = await response.json();
+  console.log(
+    discrepancyId
+      ? `🚨 Discrepancy logged (${discrepancyId}); see Discrepancy Alerts on the dashboard`
+      : '✅ Physical and digital counts are within the threshold'
+  );
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function main() {
+  const durationMinutes = Math.round(HOURS * 60);
+  const untilMinutes = Math.min(durationMinutes, optionalNumber(env.DOOR_COUNTER_SIM_UNTIL) ?? durationMinutes);
+  const startTotal = optionalNumber(env.DOOR_COUNTER_SIM_START_TOTAL);
+  // The replayed part of the night ends now, so every reading counts as current
+  const night = simulateNight({
+    start: new Date(Date.now() - untilMinutes * 60000),
+    durationMinutes,
+    expectedGuests: parseInt(env.DOOR_COUNTER_SIM_GUESTS || '600', 10),
+    mode: MODE,
+    startTotals: startTotal !== undefined ? { entries: startTotal, exits: startTotal } : undefined,
+    rolloverAt: optionalNumber(env.DOOR_COUNTER_SIM_ROLLOVER),
+    resetAtMinute: optionalNumber(env.DOOR_COUNTER_SIM_RESET_AT),
+    seed: parseInt(env.DOOR_COUNTER_SIM_SEED || '1', 10),
+    untilMinutes,
+  });
+
+  if (OUTPUT) {
+    process.stdout.write(OUTPUT === 'csv' ? toCsv(night.readings) : JSON.stringify(night.readings, null, 2) + '\n');
+    return;
+  }
+
+  if (!SUPABASE_URL || !API_KEY) {
+    console.error('Set SUPABASE_URL and DOOR_COUNTER_API_KEY (see the header of this script)');
+    process.exit(1);
+  }
+
+  const batches = planDeliveries(night.readings, {
+    batchSize: parseInt(env.DOOR_COUNTER_SIM_BATCH || '1', 10),
+    duplicateRate: optionalNumber(env.DOOR_COUNTER_SIM_DUPLICATES),
+    lateRate: optionalNumber(env.DOOR_COUNTER_SIM_LATE),
+    seed: parseInt(env.DOOR_COUNTER_SIM_SEED || '1', 10),
+  });
+  const readingsPerBatch = night.readings.length / batches.length;
+  const delayMs = SPEED > 0 ? (readingsPerBatch * 60000) / SPEED : 0;
+
+  console.log(`\n🚪 Replaying ${night.readings.length} ${MODE} readings from ${DEVICE_ID} as ${FORMAT} in ${batches.length} requests`);
+
+  const totals = { accepted: 0, duplicates: 0, stale: 0, resets: 0, rollovers: 0 };
+  for (const [index, batch] of batches.entries()) {
+    const result = await send(batch);
+    for (const key of Object.keys(totals) as Array<keyof typeof totals>) {
+      totals[key] += result[key] || 0;
+    }
+    if (result.resets || result.rollovers) {
+      console.log(`[door-counter-sim] Request ${index + 1}: ${result.resets} reset(s), ${result.rollovers} rollover(s) detected`);
+    }
+    if (delayMs) await sleep(delayMs);
+  }
+
+  console.log(`\n✅ Accepted ${totals.accepted}, skipped ${totals.duplicates} replays and ${totals.stale} stale totals`);
+  console.log(`   Resets detected: ${totals.resets}, rollovers: ${totals.rollovers}`);
+  console.log(`   Night: ${night.entries} entries, ${night.exits} exits, ${night.occupancy} inside now (peak ${night.peakOccupancy} at ${night.peakAt})`);
+  if (MODE === 'cumulative') {
+    console.log('   The first cumulative reading is the baseline, so its counts are not included');
+  }
+
+  if (EVENT_ID) {
+    await detectDiscrepancy(EVENT_ID);
+  }
+}
+
+main().catch((error) => {
+  console.error('[door-counter-sim] Failed:', error.message || error);
+  process.exit(1);
+});
@@ -0,0 +1,172 @@
+/**
+ * Booth Scan Relay
+ *
+ * Small LAN relay that lets gate devices share offline scans with each
+ * other while the venue's upstream internet is down. Run it on a laptop in
+ * the booth and point each scanner at it with VITE_SCAN_RELAY_URL.
+ *
+ *   npm run scan-relay
+ *
+ * Environment:
+ *   SCAN_RELAY_PORT       Port to listen on (default 8787)
+ *   SCAN_RELAY_TOKEN      Shared secret; scanners send it as VITE_SCAN_RELAY_TOKEN
+ *   SCAN_RELAY_TLS_CERT   Path to TLS certificate (needed when the scanner is served over HTTPS)
+ *   SCAN_RELAY_TLS_KEY    Path to TLS private key
+ *
+ * Scans are held in memory only. Each device still syncs its own scans to
+ * Supabase via resolveOfflineConflicts() once connectivity returns.
+ */
+
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from 'http';
+import { createServer as createHttpsServer } from 'https';
+import { readFileSync } from 'fs';
+import { PeerScanRelayHub, parsePeerScan, type PeerScan } from '../src/lib/peer-scan-relay';
+
+const PORT = parseInt(process.env.SCAN_RELAY_PORT || '8787', 10);
+const TOKEN = process.env.SCAN_RELAY_TOKEN || '';
+const TLS_CERT = process.env.SCAN_RELAY_TLS_CERT;
+const TLS_KEY = process.env.SCAN_RELAY_TLS_KEY;
+const KEEPALIVE_MS = 15000;
+const MAX_BODY_BYTES = 256 * 1024;
+
+const hub = new PeerScanRelayHub();
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+function handleStream(req: IncomingMessage, res: ServerResponse, eventId: string, deviceId: string) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.write('retry: 2000\n\n');
+
+  const unsubscribe = hub.subscribe(eventId, deviceId, (scan) => {
+    res.write(`data: ${JSON.stringify(scan)}\n\n`);
+  });
+  const keepalive = setInterval(() => res.write(': keepalive\n\n'), KEEPALIVE_MS);
+
+  console.log(`[scan-relay] ${deviceId} joined event ${eventId}`);
+
+  req.on('close', () => {
+    clearInterval(keepalive);
+    unsubscribe();
+    console.log(`[scan-relay] ${deviceId} left event ${eventId}`);
+  });
+}
+
+async function handlePublish(req: IncomingMessage, res: ServerResponse, eventId: string) {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(await readBody(req));
+  } catch {
+    sendJson(res, 400, { error: 'Invalid JSON body' });
+    return;
+  }
+
+  const rawScans = (payload as { scans?: unknown })?.scans;
+  if (!Array.isArray(rawScans)) {
+    sendJson(res, 400, { error: 'Expected { scans: [...] }' });
+    return;
+  }
+
+  const winners: PeerScan[] = [];
+  for (const raw of rawScans) {
+    const scan = parsePeerScan(raw);
+    if (!scan || scan.eventId !== eventId) continue;
+
+    const result = hub.publish(scan);
+    winners.push(result.winner);
+    if (!result.accepted) {
+      console.log(
+        `[scan-relay] Duplicate ticket ${scan.ticketId} from ${scan.deviceId}; first scanned by ${result.winner.deviceId}`
+      );
+    }
+  }
+
+  sendJson(res, 200, { winners });
+}
+
+async function handleRequest(req: IncomingMessage, res: ServerResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const url = new URL(req.url || '/', 'http://relay.local');
+
+  if (req.method === 'GET' && url.pathname === '/health') {
+    sendJson(res, 200, { ok: true, ...hub.getStats() });
+    return;
+  }
+
+  if (TOKEN && url.searchParams.get('token') !== TOKEN) {
+    sendJson(res, 401, { error: 'Invalid relay token' });
+    return;
+  }
+
+  const match = url.pathname.match(/^\/events\/([^/]+)\/(stream|scans)$/);
+  const deviceId = url.searchParams.get('deviceId');
+  if (!match || !deviceId) {
+    sendJson(res, 404, { error: 'Not found' });
+    return;
+  }
+
+  const eventId = decodeURIComponent(match[1]);
+
+  if (req.method === 'GET' && match[2] === 'stream') {
+    handleStream(req, res, eventId, deviceId);
+    return;
+  }
+
+  if (req.method === 'POST' && match[2] === 'scans') {
+    await handlePublish(req, res, eventId);
+    return;
+  }
+
+  sendJson(res, 405, { error: 'Method not allowed' });
+}
+
+const onRequest = (req: IncomingMessage, res: ServerResponse) => {
+  handleRequest(req, res).catch((error) => {
+    console.error('[scan-relay] Request failed:', error);
+    if (!res.headersSent) sendJson(res, 500, { error: 'Internal error' });
+  });
+};
+
+const server =
+  TLS_CERT && TLS_KEY
+    ? createHttpsServer({ cert: readFileSync(TLS_CERT), key: readFileSync(TLS_KEY) }, onRequest)
+    : createHttpServer(onRequest);
+
+server.listen(PORT, '0.0.0.0', () => {
+  const scheme = TLS_CERT && TLS_KEY ? 'https' : 'http';
+  console.log(`\n📡 Scan relay listening on ${scheme}://0.0.0.0:${PORT}`);
+  console.log(TOKEN ? '🔒 Token required' : '⚠️  No SCAN_RELAY_TOKEN set - any device on the LAN can publish');
+});
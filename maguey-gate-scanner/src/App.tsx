@@ -19,6 +19,9 @@ import Dashboard from "./pages/Dashboard";
 import EventManagement from "./pages/EventManagement";
 import AdvancedAnalytics from "./pages/AdvancedAnalytics";
 import AuditLog from "./pages/AuditLog";
+import BannedGuests from "./pages/BannedGuests";
+import IncidentReports from "./pages/IncidentReports";
+import Campaigns from "./pages/Campaigns";
 import SecuritySettings from "./pages/SecuritySettings";
 import StaffScheduling from "./pages/StaffScheduling";
 import TeamManagement from "./pages/TeamManagement";
@@ -36,7 +39,12 @@ import CustomerManagement from "./pages/CustomerManagement";
 import WaitlistManagement from "./pages/WaitlistManagement";
 import NotFound from "./pages/NotFound";
 import CrewSettings from "./pages/crew/CrewSettings";
+import CrewIncidents from "./pages/crew/CrewIncidents";
 import VipTablesManagement from "./pages/VipTablesManagement";
+import RestaurantMenuManagement from "./pages/RestaurantMenuManagement";
+import KitchenBoard from "./pages/KitchenBoard";
+import BottleServiceBoard from "./pages/BottleServiceBoard";
+import BottleMenuManagement from "./pages/BottleMenuManagement";
 import { GuestListCheckIn } from "./pages/GuestListCheckIn";
 import VipScannerPage from "./pages/VipScannerPage";
 import Orders from "./pages/Orders";
@@ -61,36 +69,44 @@ const AppContent = () => {
         <Route path="/auth" element={<Auth />} />
         <Route path="/auth/owner" element={<OwnerLogin />} />
         <Route path="/auth/employee" element={<EmployeeLogin />} />
+        <Route path="/queue-status/:eventId" element={<QueueStatus />} />
 
         {/* EMPLOYEE ROUTES - Auth required, any role */}
         <Route path="/scanner" element={<ProtectedRoute><Scanner /></ProtectedRoute>} />
         <Route path="/guest-list" element={<ProtectedRoute><GuestListCheckIn /></ProtectedRoute>} />
+        <Route path="/kitchen" element={<ProtectedRoute><KitchenBoard /></ProtectedRoute>} />
+        <Route path="/bottle-service" element={<ProtectedRoute><BottleServiceBoard /></ProtectedRoute>} />
+        <Route path="/crew/incidents" element={<ProtectedRoute><CrewIncidents /></ProtectedRoute>} />
         <Route path="/scan/vip" element={<ProtectedRoute><VipScannerPage /></ProtectedRoute>} />
         <Route path="/scan/vip/:eventId" element={<ProtectedRoute><VipScannerPage /></ProtectedRoute>} />
 
         {/* OWNER ROUTES - Auth required + owner/promoter role */}
         <Route path="/dashboard" element={<ProtectedRoute allowedRoles={['owner', 'promoter']}><OwnerDashboard /></ProtectedRoute>} />
-        <Route path="/events" element={<ProtectedRoute allowedRoles={['owner', 'promoter']}><EventManagement /></ProtectedRoute>} />
-        <Route path="/analytics" element={<ProtectedRoute allowedRoles={['owner', 'promoter']}><AdvancedAnalytics /></ProtectedRoute>} />
+        <Route path="/events" element={<ProtectedRoute permission="manage_events"><EventManagement /></ProtectedRoute>} />
+        <Route path="/analytics" element={<ProtectedRoute permission="view_revenue"><AdvancedAnalytics /></ProtectedRoute>} />
         <Route path="/audit-log" element={<ProtectedRoute allowedRoles={['owner', 'promoter']}><AuditLog /></ProtectedRoute>} />
+        <Route path="/banned-guests" element={<ProtectedRoute allowedRoles={['owner']}><BannedGuests /></ProtectedRoute>} />
+        <Route path="/incidents" element={<ProtectedRoute allowedRoles={['owner']}><IncidentReports /></ProtectedRoute>} />
         <Route path="/security" element={<ProtectedRoute allowedRoles={['owner', 'promoter']}><SecuritySettings /></ProtectedRoute>} />
         <Route path="/staff-scheduling" element={<ProtectedRoute allowedRoles={['owner', 'promoter']}><StaffScheduling /></ProtectedRoute>} />
-        <Route path="/team" element={<ProtectedRoute allowedRoles={['owner', 'promoter']}><TeamManagement /></ProtectedRoute>} />
+        <Route path="/team" element={<ProtectedRoute permission="manage_team"><TeamManagement /></ProtectedRoute>} />
         <Route path="/devices" element={<ProtectedRoute allowedRoles={['owner', 'promoter']}><DeviceManagement /></ProtectedRoute>} />
         <Route path="/door-counters" element={<ProtectedRoute allowedRoles={['owner', 'promoter']}><DoorCounterManagement /></ProtectedRoute>} />
         <Route path="/branding" element={<ProtectedRoute allowedRoles={['owner', 'promoter']}><Branding /></ProtectedRoute>} />
         <Route path="/fraud-investigation" element={<ProtectedRoute allowedRoles={['owner', 'promoter']}><FraudInvestigation /></ProtectedRoute>} />
         <Route path="/queue" element={<ProtectedRoute allowedRoles={['owner', 'promoter']}><QueueManagement /></ProtectedRoute>} />
-        <Route path="/queue-status/:eventId" element={<ProtectedRoute allowedRoles={['owner', 'promoter']}><QueueStatus /></ProtectedRoute>} />
         <Route path="/notifications/preferences" element={<ProtectedRoute allowedRoles={['owner', 'promoter']}><NotificationPreferences /></ProtectedRoute>} />
         <Route path="/notifications/rules" element={<ProtectedRoute allowedRoles={['owner', 'promoter']}><NotificationRules /></ProtectedRoute>} />
         <Route path="/notifications/analytics" element={<ProtectedRoute allowedRoles={['owner', 'promoter']}><NotificationAnalytics /></ProtectedRoute>} />
         <Route path="/sites" element={<ProtectedRoute allowedRoles={['owner', 'promoter']}><SiteManagement /></ProtectedRoute>} />
         <Route path="/customers" element={<ProtectedRoute allowedRoles={['owner', 'promoter']}><CustomerManagement /></ProtectedRoute>} />
+        <Route path="/campaigns" element={<ProtectedRoute permission="manage_marketing"><Campaigns /></ProtectedRoute>} />
         <Route path="/waitlist" element={<ProtectedRoute allowedRoles={['owner', 'promoter']}><WaitlistManagement /></ProtectedRoute>} />
         <Route path="/crew/settings" element={<ProtectedRoute allowedRoles={['owner', 'promoter']}><CrewSettings /></ProtectedRoute>} />
-        <Route path="/vip-tables" element={<ProtectedRoute allowedRoles={['owner', 'promoter']}><VipTablesManagement /></ProtectedRoute>} />
-        <Route path="/orders" element={<ProtectedRoute allowedRoles={['owner', 'promoter']}><Orders /></ProtectedRoute>} />
+        <Route path="/vip-tables" element={<ProtectedRoute permission="manage_vip"><VipTablesManagement /></ProtectedRoute>} />
+        <Route path="/restaurant-menu" element={<ProtectedRoute allowedRoles={['owner']}><RestaurantMenuManagement /></ProtectedRoute>} />
+        <Route path="/bottle-menu" element={<ProtectedRoute allowedRoles={['owner']}><BottleMenuManagement /></ProtectedRoute>} />
+        <Route path="/orders" element={<ProtectedRoute permission="view_revenue"><Orders /></ProtectedRoute>} />
         <Route path="/promoter-dashboard" element={<ProtectedRoute allowedRoles={['owner', 'promoter']}><PromoterDashboard /></ProtectedRoute>} />
 
         {/* DEV-ONLY ROUTES - Blocked in production + owner role required */}
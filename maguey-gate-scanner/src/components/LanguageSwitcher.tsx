@@ -0,0 +1,41 @@
+import { Globe } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { LOCALE_LABELS, SUPPORTED_LOCALES } from "@/lib/i18n";
+import { useLocale } from "@/hooks/use-locale";
+
+interface LanguageSwitcherProps {
+  className?: string;
+}
+
+/**
+ * EN / ES toggle. The choice is saved and applies across the app.
+ */
+export function LanguageSwitcher({ className }: LanguageSwitcherProps) {
+  const { locale, setLocale, t } = useLocale();
+
+  return (
+    <div
+      role="group"
+      aria-label={t("common.language")}
+      className={cn("inline-flex items-center gap-1 text-xs font-mono uppercase tracking-wider", className)}
+    >
+      <Globe className="w-3.5 h-3.5 opacity-70" aria-hidden="true" />
+      {SUPPORTED_LOCALES.map((option) => (
+        <button
+          key={option}
+          type="button"
+          lang={option}
+          title={LOCALE_LABELS[option]}
+          aria-pressed={locale === option}
+          onClick={() => setLocale(option)}
+          className={cn(
+            "px-1.5 py-0.5 rounded-sm transition-colors",
+            locale === option ? "opacity-100 underline underline-offset-4" : "opacity-50 hover:opacity-100"
+          )}
+        >
+          {option}
+        </button>
+      ))}
+    </div>
+  );
+}
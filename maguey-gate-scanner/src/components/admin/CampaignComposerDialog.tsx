@@ -0,0 +1,460 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  MERGE_FIELDS,
+  MERGE_FIELD_LABELS,
+  SMS_OPT_OUT_LINE,
+  countSmsSegments,
+  describeSegmentRules,
+  renderMergeFields,
+  validateCampaignDraft,
+  type CampaignChannel,
+  type MergeField,
+} from "@/lib/crm-segments";
+import {
+  previewSegment,
+  saveCampaign,
+  saveTemplate,
+  sendCampaignNow,
+  type AudiencePreview,
+  type CampaignEventOption,
+  type MarketingCampaign,
+  type MarketingSegment,
+  type MarketingTemplate,
+} from "@/lib/crm-campaign-service";
+
+interface CampaignComposerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** A draft or scheduled campaign to edit */
+  campaign: MarketingCampaign | null;
+  segments: MarketingSegment[];
+  templates: MarketingTemplate[];
+  events: CampaignEventOption[];
+  actorId: string;
+  onSaved: () => void;
+  onTemplatesChanged: () => void;
+}
+
+const NO_EVENT = "none";
+
+const toLocalInput = (iso: string | null) => (iso ? format(new Date(iso), "yyyy-MM-dd'T'HH:mm") : "");
+
+export const CampaignComposerDialog = ({
+  open,
+  onOpenChange,
+  campaign,
+  segments,
+  templates,
+  events,
+  actorId,
+  onSaved,
+  onTemplatesChanged,
+}: CampaignComposerDialogProps) => {
+  const { toast } = useToast();
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  const [name, setName] = useState("");
+  const [channel, setChannel] = useState<CampaignChannel>("email");
+  const [segmentId, setSegmentId] = useState("");
+  const [eventId, setEventId] = useState(NO_EVENT);
+  const [subject, setSubject] = useState("");
+  const [body, setBody] = useState("");
+  const [scheduleAt, setScheduleAt] = useState("");
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [audience, setAudience] = useState<AudiencePreview | null>(null);
+  const [confirmSend, setConfirmSend] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(campaign?.name ?? "");
+    setChannel(campaign?.channel ?? "email");
+    setSegmentId(campaign?.segment_id ?? "");
+    setEventId(campaign?.event_id ?? NO_EVENT);
+    setSubject(campaign?.subject ?? "");
+    setBody(campaign?.body ?? "");
+    setScheduleAt(toLocalInput(campaign?.scheduled_at ?? null));
+    setErrors([]);
+  }, [open, campaign]);
+
+  const segment = segments.find((s) => s.id === segmentId) ?? null;
+
+  useEffect(() => {
+    if (!open || !segment) {
+      setAudience(null);
+      return;
+    }
+    let cancelled = false;
+    previewSegment(segment.rules)
+      .then((result) => {
+        if (!cancelled) setAudience(result);
+      })
+      .catch(() => {
+        if (!cancelled) setAudience(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, segment]);
+
+  const reachable = audience ? (channel === "email" ? audience.emailable : audience.textable) : null;
+  const event = events.find((e) => e.id === eventId) ?? null;
+
+  // Filled in with the first person in the segment so the preview reads like the real thing
+  const preview = useMemo(() => {
+    const sampleName = audience?.sample[0]?.name?.trim() || "Ana Lopez";
+    const values: Record<MergeField, string> = {
+      first_name: sampleName.split(/\s+/)[0],
+      name: sampleName,
+      event_name: event?.name ?? "our next event",
+      event_date: event ? format(new Date(`${event.event_date}T00:00:00`), "EEEE, MMMM d") : "",
+      ticket_link: event ? `tickets.magueynightclub.com/event/${event.id}` : "tickets.magueynightclub.com/events",
+      events_attended: String(audience?.sample[0]?.events_attended ?? 3),
+    };
+    const text = renderMergeFields(body, values);
+    return {
+      subject: renderMergeFields(subject, values),
+      body: channel === "sms" && text.trim() && !/\bSTOP\b/.test(text) ? `${text.trim()}\n${SMS_OPT_OUT_LINE}` : text,
+    };
+  }, [audience, body, channel, event, subject]);
+
+  const channelTemplates = templates.filter((template) => template.channel === channel);
+
+  const applyTemplate = (templateId: string) => {
+    const template = templates.find((t) => t.id === templateId);
+    if (!template) return;
+    if (template.subject) setSubject(template.subject);
+    setBody(template.body);
+  };
+
+  const insertField = (field: MergeField) => {
+    const token = `{{${field}}}`;
+    const textarea = bodyRef.current;
+    if (!textarea) {
+      setBody((current) => current + token);
+      return;
+    }
+    const start = textarea.selectionStart ?? body.length;
+    const end = textarea.selectionEnd ?? body.length;
+    setBody(body.slice(0, start) + token + body.slice(end));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const buildDraft = (withSchedule: boolean) => ({
+    name,
+    channel,
+    segmentId: segmentId || null,
+    eventId: eventId === NO_EVENT ? null : eventId,
+    subject,
+    body,
+    scheduledAt: withSchedule && scheduleAt ? new Date(scheduleAt) : null,
+  });
+
+  const save = async (mode: "draft" | "schedule" | "send") => {
+    const draft = buildDraft(mode === "schedule");
+    const validationErrors = validateCampaignDraft(draft);
+    if (mode === "schedule" && !scheduleAt) validationErrors.push("Choose when to send it");
+    setErrors(validationErrors);
+    if (validationErrors.length > 0 || !segment) return;
+
+    setSaving(true);
+    try {
+      const saved = await saveCampaign(draft, segment, actorId, campaign);
+      if (mode === "send") {
+        const result = await sendCampaignNow(saved, actorId);
+        toast({
+          title: "Campaign Sent",
+          description: `Sent to ${result.sent} ${result.sent === 1 ? "person" : "people"}${
+            result.failed > 0 ? `, ${result.failed} failed` : ""
+          }${result.skipped > 0 ? `, ${result.skipped} skipped without consent` : ""}.`,
+        });
+      } else {
+        toast({
+          title: mode === "schedule" ? "Campaign Scheduled" : "Draft Saved",
+          description:
+            mode === "schedule"
+              ? `${saved.name} will go out ${format(new Date(saved.scheduled_at!), "EEE MMM d 'at' h:mm a")}.`
+              : `${saved.name} has been saved.`,
+        });
+      }
+      onOpenChange(false);
+      onSaved();
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to save campaign.",
+      });
+      // A send that failed after saving leaves a draft to retry
+      onSaved();
+    } finally {
+      setSaving(false);
+      setConfirmSend(false);
+    }
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!name.trim() || !body.trim()) {
+      setErrors(["Name the campaign and write a message to save it as a template"]);
+      return;
+    }
+    try {
+      await saveTemplate({ name, channel, subject, body });
+      toast({ title: "Template Saved", description: `${name.trim()} is now a template.` });
+      onTemplatesChanged();
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to save template.",
+      });
+    }
+  };
+
+  const smsLength = countSmsSegments(preview.body);
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{campaign ? `Edit ${campaign.name}` : "New Campaign"}</DialogTitle>
+            <DialogDescription>
+              Only people who agreed to hear from us by {channel === "email" ? "email" : "text"} will get it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-6 md:grid-cols-2">
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="campaign-name">Name</Label>
+                <Input
+                  id="campaign-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Reggaeton Fridays win-back"
+                />
+              </div>
+              <div className="grid gap-3 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label>Channel</Label>
+                  <Select value={channel} onValueChange={(value) => setChannel(value as CampaignChannel)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="email">Email</SelectItem>
+                      <SelectItem value="sms">SMS</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Template</Label>
+                  <Select value="" onValueChange={applyTemplate}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Start from..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {channelTemplates.map((template) => (
+                        <SelectItem key={template.id} value={template.id}>
+                          {template.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Send to</Label>
+                <Select value={segmentId} onValueChange={setSegmentId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a segment" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {segments.map((s) => (
+                      <SelectItem key={s.id} value={s.id}>
+                        {s.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {segment && (
+                  <p className="text-xs text-muted-foreground" data-cy="campaign-reach">
+                    {describeSegmentRules(segment.rules)}
+                    {audience
+                      ? ` · ${audience.total} customers, ${reachable} can get ${channel === "email" ? "emails" : "texts"}`
+                      : " · counting..."}
+                  </p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label>Event</Label>
+                <Select value={eventId} onValueChange={setEventId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_EVENT}>No event (link to all events)</SelectItem>
+                    {events.map((e) => (
+                      <SelectItem key={e.id} value={e.id}>
+                        {e.name} ({e.event_date})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {channel === "email" && (
+                <div className="space-y-2">
+                  <Label htmlFor="campaign-subject">Subject</Label>
+                  <Input id="campaign-subject" value={subject} onChange={(e) => setSubject(e.target.value)} />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="campaign-body">Message</Label>
+                <div className="flex flex-wrap gap-1">
+                  {MERGE_FIELDS.map((field) => (
+                    <Button
+                      key={field}
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      className="h-7 text-xs"
+                      onClick={() => insertField(field)}
+                    >
+                      {MERGE_FIELD_LABELS[field]}
+                    </Button>
+                  ))}
+                </div>
+                <Textarea
+                  id="campaign-body"
+                  ref={bodyRef}
+                  value={body}
+                  onChange={(e) => setBody(e.target.value)}
+                  rows={channel === "sms" ? 4 : 8}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="campaign-schedule">Send at</Label>
+                <Input
+                  id="campaign-schedule"
+                  type="datetime-local"
+                  value={scheduleAt}
+                  onChange={(e) => setScheduleAt(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">Leave empty to save a draft or send now.</p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Preview</Label>
+                {channel === "sms" && (
+                  <Badge variant={smsLength > 2 ? "destructive" : "secondary"}>
+                    {smsLength} text{smsLength === 1 ? "" : "s"} per person
+                  </Badge>
+                )}
+              </div>
+              <div className="rounded-lg border p-4 text-sm space-y-3 bg-black/20" data-cy="campaign-preview">
+                {channel === "email" && (
+                  <div className="font-semibold border-b border-white/10 pb-2">{preview.subject || "No subject"}</div>
+                )}
+                <div className="whitespace-pre-wrap text-muted-foreground">{preview.body || "Write a message"}</div>
+                {channel === "email" && (
+                  <div className="text-xs text-muted-foreground border-t border-white/10 pt-2">
+                    Every email ends with a Get Tickets button and an unsubscribe link.
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="text-sm text-destructive list-disc list-inside">
+              {errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+
+          <DialogFooter className="flex-wrap gap-2">
+            <Button variant="ghost" onClick={handleSaveTemplate} disabled={saving}>
+              Save as Template
+            </Button>
+            <Button variant="outline" onClick={() => save("draft")} disabled={saving}>
+              Save Draft
+            </Button>
+            <Button variant="outline" onClick={() => save("schedule")} disabled={saving || !scheduleAt}>
+              Schedule
+            </Button>
+            <Button
+              onClick={() => {
+                const validationErrors = validateCampaignDraft(buildDraft(false));
+                setErrors(validationErrors);
+                if (validationErrors.length === 0) setConfirmSend(true);
+              }}
+              disabled={saving}
+              className="bg-gradient-green hover:shadow-glow-green"
+            >
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Send Now
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={confirmSend} onOpenChange={setConfirmSend}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Send Now</AlertDialogTitle>
+            <AlertDialogDescription>
+              Send <strong>{name.trim()}</strong> by {channel === "email" ? "email" : "text"} to{" "}
+              {reachable === null ? "everyone in the segment who agreed to it" : `${reachable} people`}? This can't be
+              undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={saving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => save("send")} disabled={saving}>
+              {saving ? "Sending..." : "Send"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
@@ -1,7 +1,8 @@
 /**
  * Metrics Dashboard Component
  *
- * Displays real-time metrics and system health for the scanner platform.
+ * Displays real-time metrics and system health for the scanner platform,
+ * with history across all devices below.
  */
 
 import React, { useState, useEffect, useCallback } from 'react';
@@ -29,6 +30,7 @@ import {
   calculateScanSuccessRate,
 } from '@/lib/monitoring';
 import { alertManager, AlertSeverity, type Alert } from '@/lib/alerts';
+import { MetricsHistory } from './MetricsHistory';
 
 // ============================================
 // TYPES
@@ -339,6 +341,9 @@ export function MetricsDashboard() {
         {/* Alerts */}
         <AlertsPanel alerts={alerts} />
       </div>
+
+      {/* History across all devices */}
+      <MetricsHistory />
     </div>
   );
 }
@@ -0,0 +1,262 @@
+/**
+ * Metrics History Component
+ *
+ * Historical charts of the metrics every device flushed to the server,
+ * with a selectable time range.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { Area, AreaChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { History, Loader2 } from 'lucide-react';
+import {
+  METRIC_TIME_RANGES,
+  getMetricHistory,
+  resolveTimeRange,
+  toHistoryPoints,
+  type MetricHistoryPoint,
+  type MetricTimeRange,
+} from '@/lib/metrics-history-service';
+
+// ============================================
+// CHART DEFINITIONS
+// ============================================
+
+/** monitoring.ts metric name -> chart data key */
+const SCAN_KEYS: Record<string, string> = {
+  'ticket.scans.valid': 'valid',
+  'ticket.scans.invalid': 'invalid',
+  'ticket.scans.already_scanned': 'alreadyScanned',
+  'ticket.scans.error': 'error',
+};
+
+const SCAN_TIME_KEYS: Record<string, string> = {
+  'ticket.scan.duration': 'scanTime',
+};
+
+const ORDER_KEYS: Record<string, string> = {
+  'orders.created': 'created',
+  'orders.failed': 'failed',
+};
+
+const scanConfig: ChartConfig = {
+  valid: { label: 'Valid', color: 'hsl(142 76% 36%)' },
+  alreadyScanned: { label: 'Already scanned', color: 'hsl(45 93% 47%)' },
+  invalid: { label: 'Invalid', color: 'hsl(0 84% 60%)' },
+  error: { label: 'Error', color: 'hsl(271 81% 56%)' },
+};
+
+const scanTimeConfig: ChartConfig = {
+  scanTime: { label: 'Avg scan time (ms)', color: 'hsl(25 95% 53%)' },
+};
+
+const orderConfig: ChartConfig = {
+  created: { label: 'Orders', color: 'hsl(217 91% 60%)' },
+  failed: { label: 'Failed orders', color: 'hsl(0 84% 60%)' },
+};
+
+function formatBucket(time: number, range: MetricTimeRange): string {
+  const date = new Date(time);
+  if (range === '7d' || range === '30d') {
+    return date.toLocaleDateString([], { month: 'short', day: 'numeric', hour: range === '7d' ? 'numeric' : undefined });
+  }
+  return date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+}
+
+// ============================================
+// CHART CARD COMPONENT
+// ============================================
+
+function HistoryChartCard({
+  title,
+  description,
+  config,
+  data,
+  range,
+  stacked = false,
+}: {
+  title: string;
+  description: string;
+  config: ChartConfig;
+  data: MetricHistoryPoint[];
+  range: MetricTimeRange;
+  stacked?: boolean;
+}) {
+  const keys = Object.keys(config);
+  const axes = (
+    <>
+      <CartesianGrid strokeDasharray="3 3" vertical={false} className="stroke-white/10" />
+      <XAxis
+        dataKey="time"
+        tickLine={false}
+        axisLine={false}
+        minTickGap={32}
+        tickFormatter={(value) => formatBucket(Number(value), range)}
+      />
+      <YAxis tickLine={false} axisLine={false} width={40} allowDecimals={false} />
+      <ChartTooltip
+        content={<ChartTooltipContent labelFormatter={(_, payload) => formatBucket(Number(payload?.[0]?.payload?.time), range)} />}
+      />
+      <ChartLegend content={<ChartLegendContent />} />
+    </>
+  );
+
+  return (
+    <Card className="bg-white/5 border-white/10">
+      <CardHeader>
+        <CardTitle className="text-white">{title}</CardTitle>
+        <CardDescription className="text-slate-400">{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={config} className="h-[240px] w-full">
+          {stacked ? (
+            <AreaChart data={data} margin={{ top: 10, left: 0, right: 0, bottom: 0 }}>
+              {axes}
+              {keys.map((key) => (
+                <Area
+                  key={key}
+                  type="monotone"
+                  dataKey={key}
+                  stackId="1"
+                  stroke={`var(--color-${key})`}
+                  fill={`var(--color-${key})`}
+                  fillOpacity={0.3}
+                />
+              ))}
+            </AreaChart>
+          ) : (
+            <LineChart data={data} margin={{ top: 10, left: 0, right: 0, bottom: 0 }}>
+              {axes}
+              {keys.map((key) => (
+                <Line
+                  key={key}
+                  type="monotone"
+                  dataKey={key}
+                  stroke={`var(--color-${key})`}
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls={false}
+                />
+              ))}
+            </LineChart>
+          )}
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+}
+
+// ============================================
+// MAIN HISTORY COMPONENT
+// ============================================
+
+export function MetricsHistory() {
+  const [range, setRange] = useState<MetricTimeRange>('24h');
+  const [scans, setScans] = useState<MetricHistoryPoint[]>([]);
+  const [scanTimes, setScanTimes] = useState<MetricHistoryPoint[]>([]);
+  const [orders, setOrders] = useState<MetricHistoryPoint[]>([]);
+  const [devices, setDevices] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const timeRange = resolveTimeRange(range);
+      const rows = await getMetricHistory(
+        [...Object.keys(SCAN_KEYS), ...Object.keys(SCAN_TIME_KEYS), ...Object.keys(ORDER_KEYS)],
+        timeRange
+      );
+
+      setScans(toHistoryPoints(rows, timeRange, SCAN_KEYS));
+      setScanTimes(toHistoryPoints(rows, timeRange, SCAN_TIME_KEYS));
+      setOrders(toHistoryPoints(rows, timeRange, ORDER_KEYS));
+      setDevices(rows.reduce((max, row) => Math.max(max, row.devices), 0));
+      setLoadError(null);
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : 'Failed to load metric history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [range]);
+
+  // Reload on range change and every minute (devices flush once a minute)
+  useEffect(() => {
+    loadHistory();
+    const interval = setInterval(loadHistory, 60000);
+    return () => clearInterval(interval);
+  }, [loadHistory]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="flex items-center gap-2 text-xl font-semibold text-white">
+            <History className="w-5 h-5" />
+            History
+            {isLoading && <Loader2 className="w-4 h-4 animate-spin text-slate-400" />}
+          </h2>
+          <p className="text-sm text-slate-400">
+            {loadError
+              ? loadError
+              : `All devices · up to ${devices} reporting per interval`}
+          </p>
+        </div>
+        <Select value={range} onValueChange={(value) => setRange(value as MetricTimeRange)}>
+          <SelectTrigger className="w-[160px] border-white/10 bg-white/5 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(METRIC_TIME_RANGES) as MetricTimeRange[]).map((key) => (
+              <SelectItem key={key} value={key}>
+                {METRIC_TIME_RANGES[key].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <HistoryChartCard
+          title="Ticket Scans"
+          description="Scans per interval by result"
+          config={scanConfig}
+          data={scans}
+          range={range}
+          stacked
+        />
+        <HistoryChartCard
+          title="Scan Time"
+          description="Average time to validate a ticket"
+          config={scanTimeConfig}
+          data={scanTimes}
+          range={range}
+        />
+      </div>
+      <HistoryChartCard
+        title="Orders"
+        description="Ticket site orders per interval"
+        config={orderConfig}
+        data={orders}
+        range={range}
+      />
+    </div>
+  );
+}
+
+export default MetricsHistory;
@@ -0,0 +1,373 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Pencil, Plus, Trash2, UsersRound } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  cleanSegmentRules,
+  describeSegmentRules,
+  validateSegmentDraft,
+  type SegmentRules,
+} from "@/lib/crm-segments";
+import {
+  deleteSegment,
+  previewSegment,
+  saveSegment,
+  type AudiencePreview,
+  type MarketingSegment,
+} from "@/lib/crm-campaign-service";
+
+interface SegmentsCardProps {
+  segments: MarketingSegment[];
+  genres: string[];
+  onChanged: () => void;
+}
+
+type NumberField = Exclude<keyof SegmentRules, "genre">;
+
+const NUMBER_FIELDS: { key: NumberField; label: string; prefix?: string; suffix?: string }[] = [
+  { key: "min_events", label: "At least this many events" },
+  { key: "min_orders", label: "At least this many orders" },
+  { key: "min_total_spent", label: "Spent on tickets", prefix: "$" },
+  { key: "min_vip_spent", label: "Spent on VIP tables", prefix: "$" },
+  { key: "visited_within_days", label: "Came in the last", suffix: "days" },
+  { key: "not_visited_days", label: "Hasn't come in the last", suffix: "days" },
+];
+
+const ANY_GENRE = "any";
+
+// Wait for typing to stop before counting the audience
+const PREVIEW_DELAY_MS = 400;
+
+export const SegmentsCard = ({ segments, genres, onChanged }: SegmentsCardProps) => {
+  const { toast } = useToast();
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingSegment, setEditingSegment] = useState<MarketingSegment | null>(null);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [rules, setRules] = useState<SegmentRules>({});
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [preview, setPreview] = useState<AudiencePreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [segmentToDelete, setSegmentToDelete] = useState<MarketingSegment | null>(null);
+
+  useEffect(() => {
+    if (!editorOpen) return;
+
+    let cancelled = false;
+    setPreviewing(true);
+    const timer = setTimeout(async () => {
+      try {
+        const result = await previewSegment(rules);
+        if (!cancelled) setPreview(result);
+      } catch (error: any) {
+        if (!cancelled) {
+          setPreview(null);
+          toast({
+            variant: "destructive",
+            title: "Error",
+            description: error.message || "Failed to count audience.",
+          });
+        }
+      } finally {
+        if (!cancelled) setPreviewing(false);
+      }
+    }, PREVIEW_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [editorOpen, rules, toast]);
+
+  const openEditor = (segment: MarketingSegment | null) => {
+    setEditingSegment(segment);
+    setName(segment?.name ?? "");
+    setDescription(segment?.description ?? "");
+    setRules(segment?.rules ?? {});
+    setErrors([]);
+    setPreview(null);
+    setEditorOpen(true);
+  };
+
+  const setNumberRule = (key: NumberField, value: string) => {
+    setRules((current) => {
+      const next = { ...current };
+      if (value === "") {
+        delete next[key];
+      } else {
+        next[key] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    const draft = { name, description, rules: cleanSegmentRules(rules) };
+    const otherNames = segments.filter((segment) => segment.id !== editingSegment?.id).map((segment) => segment.name);
+    const validationErrors = validateSegmentDraft(draft, otherNames);
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) return;
+
+    setSaving(true);
+    try {
+      await saveSegment(draft, editingSegment);
+      toast({
+        title: editingSegment ? "Segment Updated" : "Segment Created",
+        description: `${name.trim()} has been saved.`,
+      });
+      setEditorOpen(false);
+      onChanged();
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to save segment.",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!segmentToDelete) return;
+    try {
+      await deleteSegment(segmentToDelete);
+      toast({
+        title: "Segment Deleted",
+        description: `${segmentToDelete.name} has been removed. Campaigns already sent to it are kept.`,
+      });
+      onChanged();
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to delete segment.",
+      });
+    } finally {
+      setSegmentToDelete(null);
+    }
+  };
+
+  return (
+    <Card className="rounded-3xl border border-white/10 bg-gradient-to-br from-[#161d45] via-[#0b132f] to-[#050915] shadow-[0_45px_90px_rgba(3,7,23,0.7)]">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <UsersRound className="h-5 w-5" />
+              Segments
+            </CardTitle>
+            <CardDescription>
+              Saved groups of customers, built from what they've been to and spent.
+            </CardDescription>
+          </div>
+          <Button
+            onClick={() => openEditor(null)}
+            className="bg-gradient-to-r from-indigo-500 to-purple-600 hover:from-indigo-600 hover:to-purple-700 text-white border-0"
+            data-cy="create-segment-button"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Segment
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {segments.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <UsersRound className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No segments yet.</p>
+          </div>
+        ) : (
+          <div className="space-y-2" data-cy="segments-list">
+            {segments.map((segment) => (
+              <div key={segment.id} className="flex items-start justify-between gap-4 p-3 border rounded-lg">
+                <div className="flex-1">
+                  <div className="font-medium">{segment.name}</div>
+                  <p className="text-xs text-muted-foreground">{describeSegmentRules(segment.rules)}</p>
+                  {segment.description && (
+                    <p className="text-xs text-muted-foreground mt-1">{segment.description}</p>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => openEditor(segment)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setSegmentToDelete(segment)}
+                    className="border-destructive/20 text-destructive hover:bg-destructive/10"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Segment Builder Dialog */}
+      <Dialog open={editorOpen} onOpenChange={setEditorOpen}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingSegment ? `Edit ${editingSegment.name}` : "New Segment"}</DialogTitle>
+            <DialogDescription>
+              Customers who match every rule. Leave a rule empty to ignore it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="segment-name">Name</Label>
+              <Input
+                id="segment-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Lapsed reggaeton regulars"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="segment-description">Description</Label>
+              <Textarea
+                id="segment-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={2}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Genre</Label>
+              <Select
+                value={rules.genre ?? ANY_GENRE}
+                onValueChange={(value) =>
+                  setRules((current) => ({ ...current, genre: value === ANY_GENRE ? undefined : value }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_GENRE}>Any genre</SelectItem>
+                  {genres.map((genre) => (
+                    <SelectItem key={genre} value={genre}>
+                      {genre}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">With a genre, only those nights count towards events.</p>
+            </div>
+            <div className="grid gap-3 sm:grid-cols-2">
+              {NUMBER_FIELDS.map((field) => (
+                <div key={field.key} className="space-y-2">
+                  <Label htmlFor={`segment-${field.key}`}>
+                    {field.label}
+                    {field.suffix ? ` (${field.suffix})` : ""}
+                  </Label>
+                  <Input
+                    id={`segment-${field.key}`}
+                    type="number"
+                    min={0}
+                    value={rules[field.key] ?? ""}
+                    onChange={(e) => setNumberRule(field.key, e.target.value)}
+                    placeholder={field.prefix ? `${field.prefix}0` : "Any"}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="rounded-lg border p-3 text-sm" data-cy="segment-audience">
+              <div className="flex items-center gap-2 font-medium">
+                {previewing && <Loader2 className="h-4 w-4 animate-spin" />}
+                {preview ? `${preview.total} customers` : "Counting..."}
+              </div>
+              {preview && (
+                <>
+                  <p className="text-xs text-muted-foreground">
+                    {preview.emailable} can be emailed, {preview.textable} can be texted
+                  </p>
+                  {preview.sample.length > 0 && (
+                    <ul className="mt-2 space-y-1 text-xs text-muted-foreground">
+                      {preview.sample.map((member) => (
+                        <li key={member.email}>
+                          {member.name || member.email}: {member.events_attended} events, $
+                          {Number(member.total_spent).toFixed(0)} tickets, ${Number(member.vip_spent).toFixed(0)} VIP
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </>
+              )}
+            </div>
+
+            {errors.length > 0 && (
+              <ul className="text-sm text-destructive list-disc list-inside">
+                {errors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditorOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving} className="bg-gradient-green hover:shadow-glow-green">
+              {saving ? "Saving..." : "Save Segment"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Segment Confirmation */}
+      <AlertDialog open={Boolean(segmentToDelete)} onOpenChange={(open) => !open && setSegmentToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Segment</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete <strong>{segmentToDelete?.name}</strong>? Scheduled campaigns keep their audience.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteConfirm} className="bg-destructive hover:bg-destructive/90">
+              Delete Segment
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
@@ -0,0 +1,305 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { KeyRound, Lock, Pencil, Plus, Trash2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  PERMISSIONS,
+  PERMISSION_DESCRIPTIONS,
+  PERMISSION_LABELS,
+  validateRoleDraft,
+  type Permission,
+} from "@/lib/permissions";
+import {
+  createStaffRole,
+  deleteStaffRole,
+  updateStaffRole,
+  type StaffRole,
+} from "@/lib/permission-service";
+
+interface StaffRolesCardProps {
+  roles: StaffRole[];
+  actorId: string;
+  isOwner: boolean;
+  onChanged: () => void;
+}
+
+export const StaffRolesCard = ({ roles, actorId, isOwner, onChanged }: StaffRolesCardProps) => {
+  const { toast } = useToast();
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingRole, setEditingRole] = useState<StaffRole | null>(null);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [roleToDelete, setRoleToDelete] = useState<StaffRole | null>(null);
+
+  const openEditor = (role: StaffRole | null) => {
+    setEditingRole(role);
+    setName(role?.name ?? "");
+    setDescription(role?.description ?? "");
+    setPermissions(role?.permissions ?? []);
+    setErrors([]);
+    setEditorOpen(true);
+  };
+
+  const togglePermission = (permission: Permission, checked: boolean) => {
+    setPermissions((current) =>
+      checked
+        ? PERMISSIONS.filter((p) => p === permission || current.includes(p))
+        : current.filter((p) => p !== permission)
+    );
+  };
+
+  const handleSave = async () => {
+    const draft = { name, description, permissions };
+    const otherNames = roles.filter((role) => role.id !== editingRole?.id).map((role) => role.name);
+    const validationErrors = validateRoleDraft(draft, otherNames, isOwner);
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) return;
+
+    setSaving(true);
+    try {
+      if (editingRole) {
+        await updateStaffRole(editingRole, draft, actorId);
+      } else {
+        await createStaffRole(draft, actorId);
+      }
+      toast({
+        title: editingRole ? "Role Updated" : "Role Created",
+        description: `${name.trim()} has been saved.`,
+      });
+      setEditorOpen(false);
+      onChanged();
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to save role.",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!roleToDelete) return;
+    try {
+      await deleteStaffRole(roleToDelete, actorId);
+      toast({
+        title: "Role Deleted",
+        description: `${roleToDelete.name} has been removed from everyone who had it.`,
+      });
+      onChanged();
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to delete role.",
+      });
+    } finally {
+      setRoleToDelete(null);
+    }
+  };
+
+  return (
+    <Card className="rounded-3xl border border-white/10 bg-gradient-to-br from-[#161d45] via-[#0b132f] to-[#050915] shadow-[0_45px_90px_rgba(3,7,23,0.7)] mb-6">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              Roles & Permissions
+            </CardTitle>
+            <CardDescription>
+              What each role can do. Give staff extra roles everywhere, at one venue or for one event.
+            </CardDescription>
+          </div>
+          <Button
+            onClick={() => openEditor(null)}
+            className="bg-gradient-to-r from-indigo-500 to-purple-600 hover:from-indigo-600 hover:to-purple-700 text-white border-0"
+            data-cy="create-role-button"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Role
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {roles.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <KeyRound className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No roles yet.</p>
+          </div>
+        ) : (
+          <div className="space-y-2" data-cy="roles-list">
+            {roles.map((role) => {
+              // Only owners can change roles that include Manage team
+              const locked = role.legacy_role === "owner" || (!isOwner && role.permissions.includes("manage_team"));
+              return (
+                <div key={role.id} className="flex items-start justify-between gap-4 p-3 border rounded-lg">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="font-medium">{role.name}</span>
+                      {role.legacy_role && (
+                        <Badge variant="outline" className="text-xs">Base role</Badge>
+                      )}
+                    </div>
+                    {role.description && (
+                      <p className="text-xs text-muted-foreground mb-2">{role.description}</p>
+                    )}
+                    <div className="flex flex-wrap gap-1">
+                      {role.permissions.map((permission) => (
+                        <Badge key={permission} variant="secondary" className="text-xs">
+                          {PERMISSION_LABELS[permission] ?? permission}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    {locked ? (
+                      <Lock
+                        className="h-4 w-4 text-muted-foreground"
+                        aria-label={
+                          role.legacy_role === "owner"
+                            ? "Owners always have every permission"
+                            : "Only owners can change this role"
+                        }
+                      />
+                    ) : (
+                      <Button size="sm" variant="outline" onClick={() => openEditor(role)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {!role.legacy_role && !locked && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setRoleToDelete(role)}
+                        className="border-destructive/20 text-destructive hover:bg-destructive/10"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Role Editor Dialog */}
+      <Dialog open={editorOpen} onOpenChange={setEditorOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingRole ? `Edit ${editingRole.name}` : "New Role"}</DialogTitle>
+            <DialogDescription>
+              {editingRole?.legacy_role
+                ? "Changes apply to everyone with this base role."
+                : "Changes apply to everyone who has this role."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="role-name">Name</Label>
+              <Input
+                id="role-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                disabled={Boolean(editingRole?.legacy_role)}
+                placeholder="Door manager"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="role-description">Description</Label>
+              <Textarea
+                id="role-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={2}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Permissions</Label>
+              <div className="space-y-3">
+                {PERMISSIONS.map((permission) => (
+                  <div key={permission} className="flex items-start gap-3">
+                    <Checkbox
+                      id={`permission-${permission}`}
+                      checked={permissions.includes(permission)}
+                      onCheckedChange={(checked) => togglePermission(permission, checked === true)}
+                    />
+                    <div className="grid gap-0.5 leading-none">
+                      <Label htmlFor={`permission-${permission}`}>{PERMISSION_LABELS[permission]}</Label>
+                      <p className="text-xs text-muted-foreground">{PERMISSION_DESCRIPTIONS[permission]}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+            {errors.length > 0 && (
+              <ul className="text-sm text-destructive list-disc list-inside">
+                {errors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditorOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving} className="bg-gradient-green hover:shadow-glow-green">
+              {saving ? "Saving..." : "Save Role"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Role Confirmation */}
+      <AlertDialog open={Boolean(roleToDelete)} onOpenChange={(open) => !open && setRoleToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Role</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete <strong>{roleToDelete?.name}</strong>? Everyone who has it will lose its permissions.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteConfirm} className="bg-destructive hover:bg-destructive/90">
+              Delete Role
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
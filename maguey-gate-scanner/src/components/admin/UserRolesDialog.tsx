@@ -0,0 +1,267 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { type UserProfile } from "@/hooks/useUserManagement";
+import { KeyRound, Loader2, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PERMISSION_LABELS } from "@/lib/permissions";
+import {
+  assignRole,
+  getRoleAssignments,
+  getScopeOptions,
+  revokeRoleAssignment,
+  type RoleAssignment,
+  type ScopeOption,
+  type StaffRole,
+} from "@/lib/permission-service";
+
+interface UserRolesDialogProps {
+  user: UserProfile | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  roles: StaffRole[];
+  actorId: string;
+  isOwner: boolean;
+  onChanged: () => void;
+}
+
+// Scope select values: "all", "venue:<id>" or "event:<id>"
+const parseScope = (value: string) => {
+  const [kind, id] = value.split(":");
+  return {
+    venueId: kind === "venue" ? id : null,
+    eventId: kind === "event" ? id : null,
+  };
+};
+
+const describeAssignmentScope = (assignment: RoleAssignment) => {
+  if (assignment.events) return `For ${assignment.events.name} (${assignment.events.event_date})`;
+  if (assignment.venues) return `At ${assignment.venues.name}`;
+  return "Everywhere";
+};
+
+export const UserRolesDialog = ({
+  user,
+  open,
+  onOpenChange,
+  roles,
+  actorId,
+  isOwner,
+  onChanged,
+}: UserRolesDialogProps) => {
+  const { toast } = useToast();
+  const [assignments, setAssignments] = useState<RoleAssignment[]>([]);
+  const [venues, setVenues] = useState<ScopeOption[]>([]);
+  const [events, setEvents] = useState<ScopeOption[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [roleId, setRoleId] = useState("");
+  const [scope, setScope] = useState("all");
+
+  const userId = user?.id;
+
+  const loadAssignments = useCallback(async () => {
+    if (!userId) return;
+    setLoading(true);
+    try {
+      const [userAssignments, options] = await Promise.all([getRoleAssignments(userId), getScopeOptions()]);
+      setAssignments(userAssignments);
+      setVenues(options.venues);
+      setEvents(options.events);
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to load roles.",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, toast]);
+
+  useEffect(() => {
+    if (open) {
+      setRoleId("");
+      setScope("all");
+      loadAssignments();
+    }
+  }, [open, loadAssignments]);
+
+  if (!user) return null;
+
+  // Base roles come from promote/demote; only owners hand out Manage team
+  // or give themselves roles
+  const canAssignTo = isOwner || user.id !== actorId;
+  const assignableRoles = roles.filter(
+    (role) => !role.legacy_role && (isOwner || !role.permissions.includes("manage_team"))
+  );
+
+  const handleAssign = async () => {
+    const role = assignableRoles.find((r) => r.id === roleId);
+    if (!role) return;
+
+    setSaving(true);
+    try {
+      await assignRole(user.id, role, parseScope(scope), actorId);
+      toast({
+        title: "Role Given",
+        description: `${user.email} now has ${role.name}.`,
+      });
+      setRoleId("");
+      setScope("all");
+      await loadAssignments();
+      onChanged();
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to give role.",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (assignment: RoleAssignment) => {
+    try {
+      await revokeRoleAssignment(assignment, actorId);
+      toast({
+        title: "Role Removed",
+        description: `${assignment.staff_roles?.name || "Role"} removed from ${user.email}.`,
+      });
+      await loadAssignments();
+      onChanged();
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to remove role.",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Roles
+          </DialogTitle>
+          <DialogDescription>
+            {user.email} is {user.role === "employee" ? "an" : "a"} {user.role}. Extra roles add to what that allows.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : assignments.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-2">No extra roles.</p>
+          ) : (
+            <div className="space-y-2" data-cy="user-role-assignments">
+              {assignments.map((assignment) => {
+                const locked = !isOwner && (assignment.staff_roles?.permissions || []).includes("manage_team");
+                return (
+                  <div key={assignment.id} className="flex items-start justify-between gap-3 p-3 border rounded-lg">
+                    <div className="flex-1">
+                      <div className="font-medium">{assignment.staff_roles?.name || "Role"}</div>
+                      <div className="text-xs text-muted-foreground mb-1">{describeAssignmentScope(assignment)}</div>
+                      <div className="flex flex-wrap gap-1">
+                        {(assignment.staff_roles?.permissions || []).map((permission) => (
+                          <Badge key={permission} variant="secondary" className="text-xs">
+                            {PERMISSION_LABELS[permission] ?? permission}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                    {!locked && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRevoke(assignment)}
+                        className="border-destructive/20 text-destructive hover:bg-destructive/10"
+                        aria-label={`Remove ${assignment.staff_roles?.name || "role"}`}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {canAssignTo ? (
+            <div className="space-y-3 border-t border-white/10 pt-4">
+              <div className="space-y-2">
+                <Label>Give a role</Label>
+                <Select value={roleId} onValueChange={setRoleId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a role" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {assignableRoles.map((role) => (
+                      <SelectItem key={role.id} value={role.id}>
+                        {role.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Where</Label>
+                <Select value={scope} onValueChange={setScope}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Everywhere</SelectItem>
+                    {venues.map((venue) => (
+                      <SelectItem key={venue.id} value={`venue:${venue.id}`}>
+                        Venue: {venue.name}
+                      </SelectItem>
+                    ))}
+                    {events.map((event) => (
+                      <SelectItem key={event.id} value={`event:${event.id}`}>
+                        Event: {event.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                onClick={handleAssign}
+                disabled={!roleId || saving}
+                className="w-full bg-gradient-to-r from-indigo-500 to-purple-600 hover:from-indigo-600 hover:to-purple-700 text-white border-0"
+              >
+                {saving ? "Saving..." : "Give Role"}
+              </Button>
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground border-t border-white/10 pt-4">
+              Ask an owner to change your own roles.
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
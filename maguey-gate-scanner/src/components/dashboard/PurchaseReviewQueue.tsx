@@ -0,0 +1,262 @@
+/**
+ * Purchase Review Queue
+ *
+ * Ticket orders held by purchase risk scoring. Their tickets are voided at
+ * the door until an owner approves (tickets restored and emailed) or
+ * rejects (payment refunded) the order.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { CheckCircle2, Clock, Loader2, ShieldCheck, XCircle } from 'lucide-react';
+import {
+  getPurchaseReviews,
+  getRiskSignalLabel,
+  resolvePurchaseReview,
+  sortRiskSignals,
+  type PurchaseReview,
+  type PurchaseReviewDecision,
+  type PurchaseReviewStatus,
+} from '@/lib/purchase-review-service';
+
+const getRiskColor = (score: number): string => {
+  if (score >= 80) return 'text-red-600 bg-red-500/10 border-red-500/30';
+  if (score >= 50) return 'text-orange-600 bg-orange-500/10 border-orange-500/30';
+  if (score >= 30) return 'text-yellow-600 bg-yellow-500/10 border-yellow-500/30';
+  return 'text-green-600 bg-green-500/10 border-green-500/30';
+};
+
+export function PurchaseReviewQueue() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<PurchaseReviewStatus>('pending');
+  const [reviews, setReviews] = useState<PurchaseReview[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [reviewing, setReviewing] = useState<{ review: PurchaseReview; decision: PurchaseReviewDecision } | null>(null);
+  const [notes, setNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadReviews = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const data = await getPurchaseReviews(status);
+      setReviews(data);
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to load purchase reviews',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status, toast]);
+
+  useEffect(() => {
+    loadReviews();
+  }, [loadReviews]);
+
+  const openReview = (review: PurchaseReview, decision: PurchaseReviewDecision) => {
+    setNotes('');
+    setReviewing({ review, decision });
+  };
+
+  const handleResolve = async () => {
+    if (!reviewing) return;
+
+    try {
+      setIsSubmitting(true);
+      const { warning } = await resolvePurchaseReview(reviewing.review.order_id, reviewing.decision, notes);
+      toast({
+        variant: warning ? 'destructive' : 'default',
+        title: reviewing.decision === 'approved' ? 'Order approved' : 'Order rejected',
+        description: warning || (reviewing.decision === 'approved'
+          ? `Tickets released and emailed to ${reviewing.review.purchaser_email}`
+          : 'Payment refunded and tickets voided'),
+      });
+      setReviewing(null);
+      await loadReviews();
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to review purchase',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="border-primary/20">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle>Purchase Reviews</CardTitle>
+          <CardDescription>
+            Orders held by purchase risk scoring. Their tickets are voided at the door until reviewed.
+          </CardDescription>
+        </div>
+        <Select value={status} onValueChange={(value) => setStatus(value as PurchaseReviewStatus)}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="pending">Awaiting review</SelectItem>
+            <SelectItem value="approved">Approved</SelectItem>
+            <SelectItem value="rejected">Rejected</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">
+            Loading purchase reviews...
+          </div>
+        ) : reviews.length === 0 ? (
+          <div className="text-center py-8">
+            <ShieldCheck className="h-12 w-12 text-muted-foreground mx-auto mb-2" />
+            <p className="text-muted-foreground">
+              {status === 'pending' ? 'No orders awaiting review' : `No ${status} orders`}
+            </p>
+          </div>
+        ) : (
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Purchaser</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Order</TableHead>
+                  <TableHead>Risk Score</TableHead>
+                  <TableHead>Signals</TableHead>
+                  <TableHead>{status === 'pending' ? 'Actions' : 'Review'}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reviews.map((review) => {
+                  const signals = sortRiskSignals(review.risk_signals);
+                  return (
+                    <TableRow key={review.order_id}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Clock className="h-3 w-3 text-muted-foreground" />
+                          {new Date(review.created_at).toLocaleString()}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{review.purchaser_name || 'Guest'}</div>
+                        <div className="text-xs text-muted-foreground">{review.purchaser_email}</div>
+                        {review.client_ip && (
+                          <div className="font-mono text-xs text-muted-foreground">{review.client_ip}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>{review.event_name || review.event_id}</TableCell>
+                      <TableCell>
+                        <div>${Number(review.total).toFixed(2)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {review.ticket_count} ticket{review.ticket_count !== 1 ? 's' : ''}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={getRiskColor(review.risk_score ?? 0)}>
+                          {review.risk_score ?? '—'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1 max-w-xs">
+                          {signals.map((signal) => (
+                            <Badge key={signal.type} variant="outline" className="text-xs" title={signal.description}>
+                              {getRiskSignalLabel(signal.type)} +{signal.score}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {review.review_status === 'pending' ? (
+                          <div className="flex gap-2">
+                            <Button variant="outline" size="sm" onClick={() => openReview(review, 'approved')}>
+                              Approve
+                            </Button>
+                            <Button variant="destructive" size="sm" onClick={() => openReview(review, 'rejected')}>
+                              Reject
+                            </Button>
+                          </div>
+                        ) : (
+                          <div className="space-y-1">
+                            {review.review_status === 'approved' ? (
+                              <Badge variant="outline" className="bg-green-500/10 text-green-600 border-green-500/30">
+                                <CheckCircle2 className="h-3 w-3 mr-1" />
+                                Approved
+                              </Badge>
+                            ) : (
+                              <Badge variant="destructive">
+                                <XCircle className="h-3 w-3 mr-1" />
+                                Rejected
+                              </Badge>
+                            )}
+                            {review.review_notes && (
+                              <p className="text-xs text-muted-foreground max-w-[200px]">{review.review_notes}</p>
+                            )}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!reviewing} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {reviewing?.decision === 'approved' ? 'Approve order' : 'Reject order'}
+            </DialogTitle>
+            <DialogDescription>
+              {reviewing?.decision === 'approved'
+                ? `${reviewing.review.purchaser_email} gets their tickets by email and can use them at the door.`
+                : `The payment is refunded in full and ${reviewing?.review.purchaser_email}'s tickets stay void. Future purchases from this email, device or card are scored higher.`}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder="Notes (optional)"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewing(null)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button
+              variant={reviewing?.decision === 'rejected' ? 'destructive' : 'default'}
+              onClick={handleResolve}
+              disabled={isSubmitting}
+            >
+              {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {reviewing?.decision === 'approved' ? 'Approve' : 'Reject and refund'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+export default PurchaseReviewQueue;
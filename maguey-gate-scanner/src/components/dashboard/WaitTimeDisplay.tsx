@@ -22,6 +22,7 @@ export const WaitTimeDisplay = ({
   const [waitTime, setWaitTime] = useState<number | null>(null);
   const [queueDepth, setQueueDepth] = useState<number>(0);
   const [confidence, setConfidence] = useState<number>(0);
+  const [predictedAt, setPredictedAt] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [loadBalanceInfo, setLoadBalanceInfo] = useState<Array<{
     entry_point_id: string;
@@ -45,9 +46,11 @@ export const WaitTimeDisplay = ({
       if (prediction) {
         setWaitTime(prediction.predicted_wait_minutes);
         setConfidence(prediction.confidence_score);
+        setPredictedAt(prediction.prediction_time);
       } else {
         setWaitTime(0);
         setConfidence(0);
+        setPredictedAt(null);
       }
 
       setQueueDepth(depth);
@@ -130,9 +133,16 @@ export const WaitTimeDisplay = ({
                 getWaitTimeLabel(waitTime || 0)
               )}
             </div>
-            {confidence > 0 && (
-              <div className="flex items-center justify-center gap-2">
-                <Badge variant="secondary">Confidence: {confidence.toFixed(0)}%</Badge>
+            {(confidence > 0 || predictedAt) && (
+              <div className="flex flex-wrap items-center justify-center gap-2">
+                {confidence > 0 && (
+                  <Badge variant="secondary">Confidence: {confidence.toFixed(0)}%</Badge>
+                )}
+                {predictedAt && (
+                  <span className="text-sm text-muted-foreground">
+                    Updated {new Date(predictedAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                  </span>
+                )}
               </div>
             )}
             <div className="flex flex-wrap items-center justify-center gap-4 pt-4 text-sm">
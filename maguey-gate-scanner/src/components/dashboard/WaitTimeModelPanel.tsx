@@ -0,0 +1,305 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Brain, RefreshCw, RotateCcw, CheckCircle2 } from "lucide-react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend
+} from "recharts";
+import {
+  activateWaitTimeModel,
+  getWaitTimeModels,
+  rollbackWaitTimeModel,
+  trainWaitTimeModelVersion,
+  type WaitTimeModel
+} from "@/lib/wait-time-model-service";
+import { useToast } from "@/hooks/use-toast";
+
+const formatMae = (mae: number | null | undefined) =>
+  mae === null || mae === undefined ? '—' : `${mae.toFixed(1)} min`;
+
+export const WaitTimeModelPanel = () => {
+  const { toast } = useToast();
+  const [models, setModels] = useState<WaitTimeModel[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [daysBack, setDaysBack] = useState("180");
+  const [notes, setNotes] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isTraining, setIsTraining] = useState(false);
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  const loadModels = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setModels(await getWaitTimeModels());
+    } catch (error) {
+      console.error('Error loading wait time models:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to load wait time models",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadModels();
+  }, [loadModels]);
+
+  const activeModel = models.find((model) => model.is_active) || null;
+  const selectedModel = models.find((model) => model.id === selectedId) || activeModel || models[0] || null;
+
+  const trainModel = async () => {
+    try {
+      setIsTraining(true);
+      const model = await trainWaitTimeModelVersion({ daysBack: parseInt(daysBack, 10), notes });
+      setNotes("");
+      setSelectedId(model.id);
+      await loadModels();
+      toast({
+        title: `Version ${model.version} trained`,
+        description: model.backtest?.mae !== null && model.backtest?.mae !== undefined
+          ? `Backtest MAE ${formatMae(model.backtest.mae)} vs ${formatMae(model.backtest.baseline_mae)} for queue ÷ scan rate. Activate it to use it for predictions.`
+          : "Not enough past nights to backtest yet. Activate it to use it for predictions.",
+      });
+    } catch (error: any) {
+      console.error('Error training wait time model:', error);
+      toast({
+        variant: "destructive",
+        title: "Training failed",
+        description: error.message || "Failed to train a new model",
+      });
+    } finally {
+      setIsTraining(false);
+    }
+  };
+
+  const activateModel = async (model: WaitTimeModel) => {
+    try {
+      setIsSwitching(true);
+      await activateWaitTimeModel(model.id);
+      await loadModels();
+      toast({
+        title: "Model activated",
+        description: `Wait times are now predicted by version ${model.version}`,
+      });
+    } catch (error: any) {
+      console.error('Error activating wait time model:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to activate model",
+      });
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  const rollbackModel = async () => {
+    try {
+      setIsSwitching(true);
+      const restored = await rollbackWaitTimeModel();
+      await loadModels();
+      toast({
+        title: "Rolled back",
+        description: restored
+          ? `Wait times are predicted by version ${restored.version} again`
+          : "No trained model is active; wait times use the built-in formula",
+      });
+    } catch (error: any) {
+      console.error('Error rolling back wait time model:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to roll back",
+      });
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  const backtestChartData = (selectedModel?.backtest?.nights || []).map((night) => ({
+    night: night.night,
+    model: Number(night.mae.toFixed(2)),
+    baseline: Number(night.baseline_mae.toFixed(2)),
+  }));
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <RefreshCw className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Active Model */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Brain className="h-5 w-5" />
+            Wait Time Model
+          </CardTitle>
+          <CardDescription>
+            {activeModel
+              ? `Version ${activeModel.version} is predicting wait times (backtest MAE ${formatMae(activeModel.backtest?.mae)})`
+              : "No trained model is active; wait times use the built-in time-of-day formula"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Training learns how long queues took to clear on past nights, per venue, entry point and
+            event type, then replays each night against a model trained only on the nights before it.
+          </p>
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="w-40">
+              <label className="text-sm font-medium mb-2 block">Train on</label>
+              <Select value={daysBack} onValueChange={setDaysBack}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="90">Last 90 days</SelectItem>
+                  <SelectItem value="180">Last 180 days</SelectItem>
+                  <SelectItem value="365">Last year</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex-1 min-w-[200px]">
+              <label className="text-sm font-medium mb-2 block">Notes (optional)</label>
+              <Textarea
+                rows={1}
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="e.g. after adding the side door"
+              />
+            </div>
+            <Button onClick={trainModel} disabled={isTraining || isSwitching}>
+              {isTraining ? (
+                <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Brain className="h-4 w-4 mr-2" />
+              )}
+              Train New Version
+            </Button>
+            <Button variant="outline" onClick={rollbackModel} disabled={!activeModel || isSwitching || isTraining}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Roll Back
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Versions */}
+      {models.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Versions</CardTitle>
+            <CardDescription>Select a version to see its backtest</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Trained</TableHead>
+                  <TableHead>Nights</TableHead>
+                  <TableHead>Segments</TableHead>
+                  <TableHead>Backtest MAE</TableHead>
+                  <TableHead>Queue ÷ Scan Rate</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {models.map((model) => (
+                  <TableRow
+                    key={model.id}
+                    className={`cursor-pointer ${model.id === selectedModel?.id ? 'bg-muted/50' : ''}`}
+                    onClick={() => setSelectedId(model.id)}
+                  >
+                    <TableCell>
+                      <div className="font-medium">v{model.version}</div>
+                      {model.notes && <div className="text-xs text-muted-foreground">{model.notes}</div>}
+                    </TableCell>
+                    <TableCell>{new Date(model.trained_at).toLocaleString()}</TableCell>
+                    <TableCell>
+                      {model.training_summary.nights}
+                      <span className="text-xs text-muted-foreground"> ({model.training_summary.samples} samples)</span>
+                    </TableCell>
+                    <TableCell>{model.training_summary.segments}</TableCell>
+                    <TableCell>{formatMae(model.backtest?.mae)}</TableCell>
+                    <TableCell>{formatMae(model.backtest?.baseline_mae)}</TableCell>
+                    <TableCell className="text-right">
+                      {model.is_active ? (
+                        <Badge>
+                          <CheckCircle2 className="h-3 w-3 mr-1" />
+                          Active
+                        </Badge>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={isSwitching || isTraining}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            activateModel(model);
+                          }}
+                        >
+                          Activate
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Backtest */}
+      {selectedModel && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Backtest: v{selectedModel.version}</CardTitle>
+            <CardDescription>
+              Mean absolute error per past night, predicted by a model trained only on earlier nights
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {backtestChartData.length > 0 ? (
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={backtestChartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="night" />
+                  <YAxis unit=" min" />
+                  <Tooltip />
+                  <Legend />
+                  <Line type="monotone" dataKey="model" stroke="#8884d8" name="Model" strokeWidth={2} />
+                  <Line type="monotone" dataKey="baseline" stroke="#ffc658" name="Queue ÷ Scan Rate" strokeWidth={2} />
+                </LineChart>
+              </ResponsiveContainer>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Backtesting needs at least four past nights with scan velocity metrics.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
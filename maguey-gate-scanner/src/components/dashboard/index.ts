@@ -25,3 +25,4 @@ export { SyncDetailsPanel } from "./SyncDetailsPanel";
 export { SyncStatusIndicator } from "./SyncStatusIndicator";
 export { UnifiedCapacityDisplay } from "./UnifiedCapacityDisplay";
 export { WaitTimeDisplay } from "./WaitTimeDisplay";
+export { WaitTimeModelPanel } from "./WaitTimeModelPanel";
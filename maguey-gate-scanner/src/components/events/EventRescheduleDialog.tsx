@@ -0,0 +1,299 @@
+import { useState, useEffect, useCallback } from "react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { CalendarClock, Loader2, AlertTriangle } from "lucide-react";
+import {
+  defaultRefundDeadline,
+  eventStart,
+  summarizeRescheduleResponses,
+  validateReschedule,
+} from "@/lib/event-reschedule";
+import {
+  getEventReschedules,
+  rescheduleEvent,
+  type EventReschedule,
+} from "@/lib/event-reschedule-service";
+
+interface RescheduleEvent {
+  id: string;
+  name: string;
+  event_date: string;
+  event_time: string | null;
+}
+
+interface EventRescheduleDialogProps {
+  event: RescheduleEvent | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRescheduled: () => void;
+  /** Prefill the new date and time, e.g. from the edit form */
+  initialDate?: string;
+  initialTime?: string;
+}
+
+const formatStart = (date: string, time: string | null) =>
+  format(eventStart(date, time), "EEE, MMM d, yyyy 'at' h:mm a");
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+export const EventRescheduleDialog = ({
+  event,
+  open,
+  onOpenChange,
+  onRescheduled,
+  initialDate,
+  initialTime,
+}: EventRescheduleDialogProps) => {
+  const { toast } = useToast();
+  const [newDate, setNewDate] = useState("");
+  const [newTime, setNewTime] = useState("");
+  const [refundDeadline, setRefundDeadline] = useState("");
+  const [reason, setReason] = useState("");
+  const [reschedules, setReschedules] = useState<EventReschedule[]>([]);
+  const [loadingReport, setLoadingReport] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const loadReport = useCallback(async (eventId: string) => {
+    try {
+      setLoadingReport(true);
+      setReschedules(await getEventReschedules(eventId));
+    } catch (error) {
+      console.error("Error loading reschedules:", error);
+    } finally {
+      setLoadingReport(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!open || !event) return;
+    setNewDate(initialDate || "");
+    setNewTime(initialTime || (event.event_time || "22:00").slice(0, 5));
+    setRefundDeadline("");
+    setReason("");
+    loadReport(event.id);
+  }, [open, event, initialDate, initialTime, loadReport]);
+
+  // Suggest a deadline once the new date is known; the owner can change it
+  useEffect(() => {
+    if (!newDate || !newTime || refundDeadline) return;
+    setRefundDeadline(format(defaultRefundDeadline(eventStart(newDate, newTime)), "yyyy-MM-dd'T'HH:mm"));
+  }, [newDate, newTime, refundDeadline]);
+
+  const handleReschedule = async () => {
+    if (!event) return;
+
+    const input = { newDate, newTime, refundDeadline };
+    const validationError = validateReschedule(input, event);
+    if (validationError) {
+      toast({
+        variant: "destructive",
+        title: "Validation Error",
+        description: validationError,
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const result = await rescheduleEvent(event.id, { ...input, reason: reason.trim() || undefined });
+      toast({
+        title: "Event Rescheduled",
+        description: [
+          `${result.emailsQueued} of ${result.holders} holder${result.holders === 1 ? "" : "s"} emailed a keep-or-refund link.`,
+          result.splitTablesSkipped > 0
+            ? `${result.splitTablesSkipped} split VIP table${result.splitTablesSkipped === 1 ? " needs" : "s need"} to be handled by hand.`
+            : "",
+        ].filter(Boolean).join(" "),
+      });
+      onRescheduled();
+      await loadReport(event.id);
+      setNewDate("");
+      setRefundDeadline("");
+      setReason("");
+    } catch (error: any) {
+      console.error("Error rescheduling event:", error);
+      toast({
+        variant: "destructive",
+        title: "Reschedule Failed",
+        description: error.message || "Failed to reschedule event",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5 text-amber-500" />
+            Reschedule Event
+          </DialogTitle>
+          <DialogDescription>
+            Tickets and VIP tables move to the new date. Every paid holder is emailed a link to keep
+            them or get a full refund before the deadline; anyone who doesn't answer keeps theirs.
+            Reminder emails are sent again for the new date.
+          </DialogDescription>
+        </DialogHeader>
+
+        {event && (
+          <div className="space-y-6 py-2">
+            <div className="p-4 bg-muted/50 rounded-lg">
+              <h4 className="font-semibold">{event.name}</h4>
+              <p className="text-sm text-muted-foreground">
+                Currently {formatStart(event.event_date, event.event_time)}
+              </p>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="reschedule-date">New Date</Label>
+                <Input
+                  id="reschedule-date"
+                  type="date"
+                  value={newDate}
+                  onChange={(e) => {
+                    setNewDate(e.target.value);
+                    setRefundDeadline("");
+                  }}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reschedule-time">New Time</Label>
+                <Input
+                  id="reschedule-time"
+                  type="time"
+                  value={newTime}
+                  onChange={(e) => {
+                    setNewTime(e.target.value);
+                    setRefundDeadline("");
+                  }}
+                />
+              </div>
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="reschedule-deadline">Refund Deadline</Label>
+                <Input
+                  id="reschedule-deadline"
+                  type="datetime-local"
+                  value={refundDeadline}
+                  onChange={(e) => setRefundDeadline(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Holders can ask for a refund until this time. It must be before the new start.
+                </p>
+              </div>
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="reschedule-reason">Message to Holders (Optional)</Label>
+                <Textarea
+                  id="reschedule-reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="e.g. The headliner's flight was cancelled"
+                  rows={2}
+                />
+              </div>
+            </div>
+
+            {/* Kept vs refunded report */}
+            <div className="space-y-3">
+              <h4 className="font-semibold">Previous Reschedules</h4>
+              {loadingReport ? (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Loading...
+                </div>
+              ) : reschedules.length === 0 ? (
+                <p className="text-sm text-muted-foreground">This event hasn't been rescheduled.</p>
+              ) : (
+                reschedules.map((reschedule) => {
+                  const summary = summarizeRescheduleResponses(reschedule.responses, reschedule.refund_deadline);
+                  const failed = reschedule.responses.filter((response) => response.refund_status === "failed");
+                  const deadlinePassed = new Date(reschedule.refund_deadline) <= new Date();
+
+                  return (
+                    <div key={reschedule.id} className="rounded-lg border p-4 space-y-2">
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <div className="text-sm">
+                          <span className="text-muted-foreground line-through">
+                            {formatStart(reschedule.previous_date, reschedule.previous_time)}
+                          </span>
+                          {" → "}
+                          <span className="font-medium">{formatStart(reschedule.new_date, reschedule.new_time)}</span>
+                        </div>
+                        <Badge variant={deadlinePassed ? "secondary" : "outline"}>
+                          {deadlinePassed ? "Closed" : `Refunds until ${format(new Date(reschedule.refund_deadline), "MMM d, h:mm a")}`}
+                        </Badge>
+                      </div>
+                      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-center">
+                        <div className="rounded bg-emerald-500/10 p-2">
+                          <div className="text-lg font-semibold">{summary.kept}</div>
+                          <div className="text-xs text-muted-foreground">Kept</div>
+                        </div>
+                        <div className="rounded bg-red-500/10 p-2">
+                          <div className="text-lg font-semibold">{summary.refunded}</div>
+                          <div className="text-xs text-muted-foreground">
+                            Refunded ({formatCents(summary.refundedCents)})
+                          </div>
+                        </div>
+                        <div className="rounded bg-muted p-2">
+                          <div className="text-lg font-semibold">{summary.awaiting}</div>
+                          <div className="text-xs text-muted-foreground">Undecided</div>
+                        </div>
+                        <div className="rounded bg-amber-500/10 p-2">
+                          <div className="text-lg font-semibold">{summary.refundPending}</div>
+                          <div className="text-xs text-muted-foreground">Refund Pending</div>
+                        </div>
+                      </div>
+                      {failed.length > 0 && (
+                        <div className="flex items-start gap-2 text-sm text-amber-600">
+                          <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                          <span>
+                            Refund failed for {failed.map((response) => response.holder_email).join(", ")}.
+                            They can try again from their link, or refund them from Stripe.
+                          </span>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Close
+          </Button>
+          <Button onClick={handleReschedule} disabled={saving || !newDate || !newTime}>
+            {saving ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Rescheduling...
+              </>
+            ) : (
+              <>
+                <CalendarClock className="mr-2 h-4 w-4" />
+                Reschedule
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
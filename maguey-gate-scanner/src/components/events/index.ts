@@ -1,3 +1,4 @@
 // Event management components
 export { EventBulkImport } from "./EventBulkImport";
 export { AssetUpload } from "./AssetUpload";
+export { EventRescheduleDialog } from "./EventRescheduleDialog";
@@ -6,7 +6,8 @@ import { localStorageService } from "@/lib/localStorage";
 import { logAuditEvent } from "@/lib/audit-service";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
-import { Menu, QrCode, ListChecks, Settings, LogOut, X } from "lucide-react";
+import { Menu, QrCode, ListChecks, ChefHat, Martini, ShieldAlert, Settings, LogOut, Wine, X } from "lucide-react";
+import type { Permission } from "@/lib/permissions";
 import RoleSwitcher from "./RoleSwitcher";
 
 interface EmployeePortalLayoutProps {
@@ -18,9 +19,14 @@ interface EmployeePortalLayoutProps {
   children: ReactNode;
 }
 
-const mobileNavItems = [
+// permission: only shown to crew given that permission by a custom role
+const mobileNavItems: { title: string; path: string; icon: typeof QrCode; permission?: Permission }[] = [
   { title: "Scanner", path: "/scanner", icon: QrCode },
   { title: "Guest List", path: "/guest-list", icon: ListChecks },
+  { title: "Kitchen", path: "/kitchen", icon: ChefHat },
+  { title: "Bottles", path: "/bottle-service", icon: Martini },
+  { title: "VIP Tables", path: "/vip-tables", icon: Wine, permission: "manage_vip" },
+  { title: "Incidents", path: "/crew/incidents", icon: ShieldAlert },
   { title: "Settings", path: "/crew/settings", icon: Settings },
 ];
 
@@ -32,11 +38,13 @@ export const EmployeePortalLayout = ({
   hero,
   children,
 }: EmployeePortalLayoutProps) => {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const location = useLocation();
   const navigate = useNavigate();
   const [menuOpen, setMenuOpen] = useState(false);
 
+  const navItems = mobileNavItems.filter((item) => !item.permission || can(item.permission));
+
   const initials = useMemo(() => {
     if (!user?.email) return "ST";
     return user.email
@@ -90,7 +98,7 @@ export const EmployeePortalLayout = ({
         </Button>
       </div>
       <nav className="space-y-2">
-        {mobileNavItems.map((item) => {
+        {navItems.map((item) => {
           const Icon = item.icon;
           const isActive = location.pathname.startsWith(item.path.replace(/\/$/, ""));
           return (
@@ -182,7 +190,7 @@ export const EmployeePortalLayout = ({
       {/* Mobile bottom navigation */}
       <div className="fixed inset-x-0 bottom-0 z-30 border-t border-border-dark bg-sidebar pb-[max(0.75rem,_env(safe-area-inset-bottom))] backdrop-blur-xl lg:hidden">
         <div className="mx-auto flex max-w-md items-center justify-around px-6 py-3">
-          {mobileNavItems.map((item) => {
+          {navItems.map((item) => {
             const Icon = item.icon;
             const isActive = location.pathname.startsWith(item.path.replace(/\/$/, ""));
             return (
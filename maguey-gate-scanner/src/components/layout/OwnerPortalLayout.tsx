@@ -4,6 +4,7 @@ import { isSupabaseConfigured, supabase } from "@/integrations/supabase/client";
 import { localStorageService } from "@/lib/localStorage";
 import { logAuditEvent } from "@/lib/audit-service";
 import { useAuth, useRole } from "@/contexts/AuthContext";
+import type { Permission } from "@/lib/permissions";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
@@ -11,22 +12,29 @@ import RoleSwitcher from "./RoleSwitcher";
 import {
   Activity,
   AlertTriangle,
+  Ban,
   BarChart3,
   Bell,
   Calendar,
+  ChefHat,
   Database,
   FileText,
   HeartPulse,
   LayoutDashboard,
   Link2,
   LogOut,
+  Martini,
+  Megaphone,
   Menu,
   Shield,
+  ShieldAlert,
   ShoppingCart,
   Users,
+  UtensilsCrossed,
   Wine,
   X,
   Zap,
+  type LucideIcon,
 } from "lucide-react";
 
 interface OwnerPortalLayoutProps {
@@ -40,30 +48,52 @@ interface OwnerPortalLayoutProps {
 
 // Navigation items with role-based access control
 // ownerOnly: true = only visible to owners
+// permission: only visible to staff with that permission somewhere
 // All items visible to owners, filtered items visible to promoters
-const sidebarSections = [
+interface SidebarItem {
+  title: string;
+  path: string;
+  icon: LucideIcon;
+  ownerOnly?: boolean;
+  permission?: Permission;
+}
+
+interface SidebarSection {
+  title: string;
+  ownerOnly?: boolean;
+  devOnly?: boolean;
+  items: SidebarItem[];
+}
+
+const sidebarSections: SidebarSection[] = [
   {
     title: "MAIN",
     items: [
       { title: "Dashboard", path: "/dashboard", icon: LayoutDashboard },
-      { title: "Events", path: "/events", icon: Calendar },
+      { title: "Events", path: "/events", icon: Calendar, permission: "manage_events" },
     ],
   },
   {
     title: "SALES",
     items: [
-      { title: "Ticket Sales", path: "/orders", icon: ShoppingCart },
-      { title: "VIP Tables", path: "/vip-tables", icon: Wine },
-      { title: "Analytics", path: "/analytics", icon: BarChart3 },
+      { title: "Ticket Sales", path: "/orders", icon: ShoppingCart, permission: "view_revenue" },
+      { title: "VIP Tables", path: "/vip-tables", icon: Wine, permission: "manage_vip" },
+      { title: "Bottle Service", path: "/bottle-service", icon: Martini },
+      { title: "Bottle Menu", path: "/bottle-menu", icon: Wine, ownerOnly: true },
+      { title: "Kitchen", path: "/kitchen", icon: ChefHat },
+      { title: "Restaurant Menu", path: "/restaurant-menu", icon: UtensilsCrossed, ownerOnly: true },
+      { title: "Analytics", path: "/analytics", icon: BarChart3, permission: "view_revenue" },
+      { title: "Campaigns", path: "/campaigns", icon: Megaphone, permission: "manage_marketing" },
       { title: "My Referrals", path: "/promoter-dashboard", icon: Link2 },
     ],
   },
   {
     title: "TEAM",
-    ownerOnly: true, // Hide entire section for promoters
     items: [
-      { title: "Staff", path: "/team", icon: Users, ownerOnly: true },
+      { title: "Staff", path: "/team", icon: Users, permission: "manage_team" },
       { title: "Audit Log", path: "/audit-log", icon: FileText, ownerOnly: true },
+      { title: "Banned Guests", path: "/banned-guests", icon: Ban, ownerOnly: true },
+      { title: "Incidents", path: "/incidents", icon: ShieldAlert, ownerOnly: true },
     ],
   },
   {
@@ -92,7 +122,7 @@ const sidebarSections = [
 export const OwnerPortalLayout = ({ title, subtitle, description, actions, hero, children }: OwnerPortalLayoutProps) => {
   const navigate = useNavigate();
   const location = useLocation();
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const role = useRole();
   const [sidebarOpen, setSidebarOpen] = useState(false);
 
@@ -128,13 +158,16 @@ export const OwnerPortalLayout = ({ title, subtitle, description, actions, hero,
     }
   };
 
-  // Filter sections based on user role and dev mode
+  // Filter sections based on user role, permissions and dev mode
   const filteredSections = sidebarSections
-    .filter((section) => !(section as any).devOnly || import.meta.env.DEV)
+    .filter((section) => !section.devOnly || import.meta.env.DEV)
     .filter((section) => !section.ownerOnly || role === 'owner')
     .map((section) => ({
       ...section,
-      items: section.items.filter((item) => !(item as any).ownerOnly || role === 'owner'),
+      items: section.items.filter((item) => {
+        if (item.ownerOnly && role !== 'owner') return false;
+        return !item.permission || can(item.permission);
+      }),
     }))
     .filter((section) => section.items.length > 0);
 
@@ -7,12 +7,14 @@
  * - Loading spinner while auth state resolves
  * - Redirects unauthenticated users to /auth with state.from preserved
  * - Role-based authorization with 403 page for wrong roles
+ * - Permission-based authorization (a grant at any venue or event counts)
  * - DEV-only route protection (blocks access in production builds)
  */
 
 import { Navigate, useLocation } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { type UserRole } from "@/lib/auth";
+import { type Permission } from "@/lib/permissions";
 import { Loader2 } from "lucide-react";
 import Unauthorized from "@/pages/Unauthorized";
 
@@ -20,14 +22,15 @@ interface ProtectedRouteProps {
   children: React.ReactNode;
   allowedRoles?: UserRole[];  // Optional: omit = any authenticated user
   requireDev?: boolean;       // Optional: gate behind import.meta.env.DEV
+  permission?: Permission;    // Optional: required permission, checked after allowedRoles
 }
 
-export function ProtectedRoute({ children, allowedRoles, requireDev }: ProtectedRouteProps) {
-  const { user, role, loading } = useAuth();
+export function ProtectedRoute({ children, allowedRoles, requireDev, permission }: ProtectedRouteProps) {
+  const { user, role, loading, permissionsLoading, can } = useAuth();
   const location = useLocation();
 
   // 1. Loading check - show spinner while auth state resolves
-  if (loading) {
+  if (loading || (permission && user && permissionsLoading)) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
         <Loader2 className="w-8 h-8 animate-spin text-primary" />
@@ -52,6 +55,11 @@ export function ProtectedRoute({ children, allowedRoles, requireDev }: Protected
     return <Unauthorized />;
   }
 
-  // 5. All checks pass - render children
+  // 5. Permission check - show 403 if none of the user's roles grant it
+  if (permission && !can(permission)) {
+    return <Unauthorized />;
+  }
+
+  // 6. All checks pass - render children
   return <>{children}</>;
 }
@@ -0,0 +1,234 @@
+/**
+ * Door Sale Modal
+ * Sell tickets to walk-in guests at the door price
+ */
+
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { DollarSign, Loader2, Minus, Plus } from "lucide-react";
+import { DOOR_PAYMENT_METHOD_LABELS, type DoorPaymentMethod } from "@/lib/ticket-upgrade-service";
+import { getDoorSaleOptions, sellDoorTickets, type DoorSaleOption } from "@/lib/door-sale-service";
+
+const MAX_QUANTITY = 20;
+
+interface DoorSaleModalProps {
+  /** Event to sell for; null closes the modal */
+  eventId: string | null;
+  eventName?: string;
+  onClose: () => void;
+  onSold?: () => void;
+}
+
+export const DoorSaleModal = ({ eventId, eventName, onClose, onSold }: DoorSaleModalProps) => {
+  const { toast } = useToast();
+  const [options, setOptions] = useState<DoorSaleOption[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [quantity, setQuantity] = useState(1);
+  const [guestName, setGuestName] = useState("");
+  const [guestEmail, setGuestEmail] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState<DoorPaymentMethod>("cash");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!eventId) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setSelectedId(null);
+    setQuantity(1);
+    setGuestName("");
+    setGuestEmail("");
+    setPaymentMethod("cash");
+    getDoorSaleOptions(eventId)
+      .then((result) => {
+        if (cancelled) return;
+        setOptions(result);
+        setSelectedId(result[0]?.ticket_type_id ?? null);
+      })
+      .catch((error: any) => {
+        if (cancelled) return;
+        setOptions([]);
+        toast({ variant: "destructive", title: "Could not load door prices", description: error.message });
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [eventId, toast]);
+
+  const selected = options.find((option) => option.ticket_type_id === selectedId);
+  const maxQuantity = Math.min(MAX_QUANTITY, selected?.remaining ?? MAX_QUANTITY);
+  const total = selected && paymentMethod !== "comp" ? selected.price * quantity : 0;
+
+  const handleConfirm = async () => {
+    if (!selected) return;
+
+    setIsSubmitting(true);
+    try {
+      const sale = await sellDoorTickets(selected.ticket_type_id, quantity, paymentMethod, {
+        name: guestName.trim(),
+        email: guestEmail.trim(),
+      });
+      toast({
+        title: `Sold ${sale.quantity} × ${sale.ticket_type_name}`,
+        description: paymentMethod === "comp"
+          ? "Comped. Guests are checked in."
+          : `Collected $${sale.total.toFixed(2)}. Guests are checked in.`,
+      });
+      onSold?.();
+      onClose();
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Sale failed", description: error.message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={eventId !== null} onOpenChange={(open) => !open && !isSubmitting && onClose()}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <DollarSign className="h-5 w-5 text-green-500" />
+            Walk-in Sale
+          </DialogTitle>
+          <DialogDescription>{eventName || "Tonight's event"}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : options.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            No tickets are available for this event.
+          </p>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              {options.map((option) => (
+                <button
+                  key={option.ticket_type_id}
+                  type="button"
+                  onClick={() => {
+                    setSelectedId(option.ticket_type_id);
+                    setQuantity(1);
+                  }}
+                  disabled={isSubmitting}
+                  className={cn(
+                    "w-full rounded-lg border p-3 text-left transition-colors",
+                    selectedId === option.ticket_type_id
+                      ? "border-green-500 bg-green-500/10"
+                      : "border-border hover:border-green-500/50"
+                  )}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">{option.name}</span>
+                    <span className="font-semibold">${option.price.toFixed(2)}</span>
+                  </div>
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    {option.tier_name || "Base price"}
+                    {option.remaining !== null && ` · ${option.remaining} left`}
+                  </p>
+                </button>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label>Quantity</Label>
+              <div className="flex items-center gap-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  onClick={() => setQuantity((q) => Math.max(1, q - 1))}
+                  disabled={isSubmitting || quantity <= 1}
+                >
+                  <Minus className="h-4 w-4" />
+                </Button>
+                <span className="w-6 text-center font-semibold">{quantity}</span>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  onClick={() => setQuantity((q) => Math.min(maxQuantity, q + 1))}
+                  disabled={isSubmitting || quantity >= maxQuantity}
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="door-sale-name">Name (optional)</Label>
+                <Input
+                  id="door-sale-name"
+                  value={guestName}
+                  onChange={(e) => setGuestName(e.target.value)}
+                  disabled={isSubmitting}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="door-sale-email">Email (optional)</Label>
+                <Input
+                  id="door-sale-email"
+                  type="email"
+                  value={guestEmail}
+                  onChange={(e) => setGuestEmail(e.target.value)}
+                  disabled={isSubmitting}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Payment</Label>
+              <div className="flex gap-2">
+                {(Object.keys(DOOR_PAYMENT_METHOD_LABELS) as DoorPaymentMethod[]).map((method) => (
+                  <Button
+                    key={method}
+                    type="button"
+                    variant={paymentMethod === method ? "default" : "outline"}
+                    className="flex-1"
+                    onClick={() => setPaymentMethod(method)}
+                    disabled={isSubmitting}
+                  >
+                    {DOOR_PAYMENT_METHOD_LABELS[method]}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={!selected || isSubmitting}
+            className="bg-green-600 hover:bg-green-500"
+          >
+            {isSubmitting ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : paymentMethod === "comp" ? (
+              "Comp & Check In"
+            ) : (
+              `Collect $${total.toFixed(2)} & Check In`
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
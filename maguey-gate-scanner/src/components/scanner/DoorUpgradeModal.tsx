@@ -0,0 +1,175 @@
+/**
+ * Door Upgrade Modal
+ * Upsell a scanned guest to a higher ticket type (e.g. GA → VIP) at the gate
+ */
+
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { ArrowUpCircle, Loader2 } from "lucide-react";
+import {
+  DOOR_PAYMENT_METHOD_LABELS,
+  getTicketUpgradeOptions,
+  upgradeTicketAtDoor,
+  type DoorPaymentMethod,
+  type TicketUpgradeOption,
+} from "@/lib/ticket-upgrade-service";
+
+interface DoorUpgradeModalProps {
+  /** tickets.id (UUID) plus display fields; null closes the modal */
+  ticket: { id: string; guest_name: string | null; ticket_type: string } | null;
+  onClose: () => void;
+  onUpgraded?: () => void;
+}
+
+export const DoorUpgradeModal = ({ ticket, onClose, onUpgraded }: DoorUpgradeModalProps) => {
+  const { toast } = useToast();
+  const [options, setOptions] = useState<TicketUpgradeOption[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [paymentMethod, setPaymentMethod] = useState<DoorPaymentMethod>("cash");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!ticket) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setSelectedId(null);
+    setPaymentMethod("cash");
+    getTicketUpgradeOptions(ticket.id)
+      .then((result) => {
+        if (cancelled) return;
+        setOptions(result);
+        setSelectedId(result[0]?.ticket_type_id ?? null);
+      })
+      .catch((error: any) => {
+        if (cancelled) return;
+        setOptions([]);
+        toast({ variant: "destructive", title: "Could not load upgrades", description: error.message });
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ticket, toast]);
+
+  const selected = options.find((option) => option.ticket_type_id === selectedId);
+
+  const handleConfirm = async () => {
+    if (!ticket || !selected) return;
+
+    setIsSubmitting(true);
+    try {
+      const upgrade = await upgradeTicketAtDoor(ticket.id, selected.ticket_type_id, paymentMethod);
+      toast({
+        title: `Upgraded to ${upgrade.to_ticket_type_name || selected.name}`,
+        description: paymentMethod === "comp"
+          ? "Comped. A new QR code was emailed to the guest."
+          : `Collect $${upgrade.price_difference.toFixed(2)}. A new QR code was emailed to the guest.`,
+      });
+      onUpgraded?.();
+      onClose();
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Upgrade failed", description: error.message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={ticket !== null} onOpenChange={(open) => !open && !isSubmitting && onClose()}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ArrowUpCircle className="h-5 w-5 text-purple-500" />
+            Upgrade Ticket
+          </DialogTitle>
+          <DialogDescription>
+            {ticket?.guest_name || "Guest"} · {ticket?.ticket_type}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : options.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            No higher ticket types are available for this event.
+          </p>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              {options.map((option) => (
+                <button
+                  key={option.ticket_type_id}
+                  type="button"
+                  onClick={() => setSelectedId(option.ticket_type_id)}
+                  disabled={isSubmitting}
+                  className={cn(
+                    "w-full rounded-lg border p-3 text-left transition-colors",
+                    selectedId === option.ticket_type_id
+                      ? "border-purple-500 bg-purple-500/10"
+                      : "border-border hover:border-purple-500/50"
+                  )}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">{option.name}</span>
+                    <span className="font-semibold">+${option.price_difference.toFixed(2)}</span>
+                  </div>
+                  {option.remaining !== null && (
+                    <p className="mt-1 text-xs text-muted-foreground">{option.remaining} left</p>
+                  )}
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Payment</Label>
+              <div className="flex gap-2">
+                {(Object.keys(DOOR_PAYMENT_METHOD_LABELS) as DoorPaymentMethod[]).map((method) => (
+                  <Button
+                    key={method}
+                    type="button"
+                    variant={paymentMethod === method ? "default" : "outline"}
+                    className="flex-1"
+                    onClick={() => setPaymentMethod(method)}
+                    disabled={isSubmitting}
+                  >
+                    {DOOR_PAYMENT_METHOD_LABELS[method]}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={!selected || isSubmitting}
+            className="bg-purple-600 hover:bg-purple-500"
+          >
+            {isSubmitting ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : selected && paymentMethod !== "comp" ? (
+              `Collect $${selected.price_difference.toFixed(2)} & Upgrade`
+            ) : (
+              "Upgrade"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
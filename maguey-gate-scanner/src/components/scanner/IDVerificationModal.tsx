@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useCallback, useState } from "react";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,8 +7,18 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { createIDVerification, skipIDVerification, type VerificationType } from "@/lib/id-verification-service";
-import { Camera, CheckCircle2, XCircle, AlertCircle } from "lucide-react";
+import {
+  checkLicenseScan,
+  createIDVerification,
+  skipIDVerification,
+  type LicenseScan,
+  type VerificationType,
+} from "@/lib/id-verification-service";
+import { checkLicense, verificationTypeFor, type NameMatch } from "@/lib/aamva-license";
+import { findBannedGuest, recordBanMatch } from "@/lib/banned-guest-service";
+import type { BanMatch } from "@/lib/banned-guests";
+import { LicenseBarcodeScanner } from "./LicenseBarcodeScanner";
+import { Camera, CheckCircle2, XCircle, AlertCircle, ScanLine, Loader2, Ban } from "lucide-react";
 
 interface IDVerificationModalProps {
   open: boolean;
@@ -16,23 +26,93 @@ interface IDVerificationModalProps {
   ticketId: string;
   ticketTypeName?: string;
   attendeeName?: string;
+  /** Ticket object, used to look up the current holder after transfers */
+  ticket?: any;
+  /** The event's age restriction, e.g. '21+' */
+  ageRestriction?: string | null;
   onVerified: () => void;
 }
 
+const NAME_MATCH_LABELS: Record<NameMatch, string> = {
+  match: "Name matches ticket",
+  partial: "Name partly matches",
+  mismatch: "Name doesn't match ticket",
+  unknown: "No name on ticket",
+};
+
+const initialVerificationType = (ageRestriction: string | null | undefined): VerificationType =>
+  ageRestriction ? verificationTypeFor(ageRestriction) : '21+';
+
 export const IDVerificationModal = ({
   open,
   onClose,
   ticketId,
   ticketTypeName,
   attendeeName,
+  ticket,
+  ageRestriction,
   onVerified,
 }: IDVerificationModalProps) => {
   const { toast } = useToast();
-  const [verificationType, setVerificationType] = useState<VerificationType>('21+');
+  const [verificationType, setVerificationType] = useState<VerificationType>(
+    initialVerificationType(ageRestriction)
+  );
   const [idNumber, setIdNumber] = useState('');
   const [notes, setNotes] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [photoUrl, setPhotoUrl] = useState<string | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [isCheckingScan, setIsCheckingScan] = useState(false);
+  const [scan, setScan] = useState<LicenseScan | null>(null);
+  const [banMatch, setBanMatch] = useState<BanMatch | null>(null);
+
+  // A custom type checks against the event's own restriction, e.g. 19+
+  const restriction = verificationType === 'custom' ? ageRestriction : verificationType;
+  const scanCheck = scan
+    ? checkLicense(scan.license, { ageRestriction: restriction, holderName: scan.holderName })
+    : null;
+  // A confirmed ban fails the check; a name-only match needs a note to pass
+  const scanPassed = scanCheck ? scanCheck.passed && !banMatch?.confirmed : true;
+  const needsNote =
+    (scanCheck?.nameMatch === 'mismatch' || (!!banMatch && !banMatch.confirmed)) && !notes.trim();
+
+  const handleBarcode = useCallback(async (rawBarcode: string) => {
+    setIsScanning(false);
+    setIsCheckingScan(true);
+
+    try {
+      const result = await checkLicenseScan(
+        rawBarcode,
+        ticket ?? { id: ticketId, guest_name: attendeeName },
+        restriction
+      );
+
+      if (!result) {
+        toast({
+          title: "Not a License Barcode",
+          description: "Scan the wide barcode on the back of a US or Canadian license, or check the ID by hand.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setScan(result);
+
+      const { license } = result;
+      setBanMatch(await findBannedGuest({
+        name: `${license.firstName} ${license.lastName}`,
+        dateOfBirth: license.dateOfBirth,
+      }));
+    } catch (error: any) {
+      toast({
+        title: "Scan Failed",
+        description: error.message || "Failed to read the license barcode",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCheckingScan(false);
+    }
+  }, [ticket, ticketId, attendeeName, restriction, toast]);
 
   const handleVerify = async () => {
     if (!ticketId) {
@@ -44,8 +124,16 @@ export const IDVerificationModal = ({
       return;
     }
 
+    const passed = scanPassed;
     setIsSubmitting(true);
 
+    if (banMatch) {
+      recordBanMatch(banMatch, 'id_check', passed ? 'cleared' : 'rejected', {
+        ticketId,
+        eventId: ticket?.event_id ?? null,
+      });
+    }
+
     try {
       await createIDVerification({
         ticketId,
@@ -53,15 +141,26 @@ export const IDVerificationModal = ({
         idNumber: idNumber || undefined,
         photoUrl: photoUrl || undefined,
         notes: notes || undefined,
-        isVerified: true,
+        isVerified: passed,
+        scan: scan?.result,
       });
 
-      toast({
-        title: "ID Verified",
-        description: "ID verification recorded successfully",
-      });
+      if (passed) {
+        toast({
+          title: "ID Verified",
+          description: "ID verification recorded successfully",
+        });
+        onVerified();
+      } else {
+        toast({
+          title: "ID Rejected",
+          description: banMatch?.confirmed
+            ? "Guest is on the banned list"
+            : scanCheck?.expired ? "This ID has expired" : `Guest is under ${scanCheck?.minimumAge}`,
+          variant: "destructive",
+        });
+      }
 
-      onVerified();
       handleClose();
     } catch (error: any) {
       toast({
@@ -112,7 +211,10 @@ export const IDVerificationModal = ({
     setIdNumber('');
     setNotes('');
     setPhotoUrl(null);
-    setVerificationType('21+');
+    setScan(null);
+    setBanMatch(null);
+    setIsScanning(false);
+    setVerificationType(initialVerificationType(ageRestriction));
     onClose();
   };
 
@@ -167,6 +269,97 @@ export const IDVerificationModal = ({
             </Select>
           </div>
 
+          {/* License Barcode */}
+          <div className="space-y-2">
+            <Label>License Barcode</Label>
+            {isScanning ? (
+              <LicenseBarcodeScanner onScan={handleBarcode} onCancel={() => setIsScanning(false)} />
+            ) : isCheckingScan ? (
+              <div className="flex items-center justify-center gap-2 rounded-lg border p-4 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Checking ID...
+              </div>
+            ) : scan && scanCheck ? (
+              <div
+                className={`rounded-lg border p-4 space-y-2 ${
+                  scanPassed ? "border-green-500/40 bg-green-500/5" : "border-red-500/40 bg-red-500/5"
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div>
+                    <p className="font-semibold">
+                      {scan.license.firstName} {scan.license.lastName}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {scan.license.issuingState} · Age {scanCheck.age} · Expires {scan.license.expiresOn}
+                    </p>
+                  </div>
+                  {scanPassed ? (
+                    <CheckCircle2 className="h-6 w-6 text-green-600 flex-shrink-0" />
+                  ) : (
+                    <XCircle className="h-6 w-6 text-red-600 flex-shrink-0" />
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {scanCheck.minimumAge !== null && (
+                    <Badge variant={scanCheck.meetsAge ? "outline" : "destructive"}>
+                      {scanCheck.meetsAge ? `${scanCheck.minimumAge}+ OK` : `Under ${scanCheck.minimumAge}`}
+                    </Badge>
+                  )}
+                  <Badge variant={scanCheck.expired ? "destructive" : "outline"}>
+                    {scanCheck.expired ? "Expired" : "Not expired"}
+                  </Badge>
+                  <Badge variant={scanCheck.nameMatch === 'match' ? "outline" : "secondary"}>
+                    {NAME_MATCH_LABELS[scanCheck.nameMatch]}
+                  </Badge>
+                </div>
+                {scanCheck.nameMatch === 'mismatch' && scan.holderName && (
+                  <p className="text-xs text-amber-600">
+                    Ticket is for {scan.holderName}. Ask for another ID or note why this one is OK.
+                  </p>
+                )}
+                {banMatch && (
+                  <div
+                    className={`flex items-start gap-2 rounded-md p-2 text-xs ${
+                      banMatch.confirmed ? "bg-red-600 text-white" : "bg-amber-500/10 text-amber-700"
+                    }`}
+                  >
+                    <Ban className="h-4 w-4 flex-shrink-0" />
+                    <span>
+                      {banMatch.confirmed
+                        ? `Banned guest: ${banMatch.reason}. Do not admit.`
+                        : `Name matches banned guest ${banMatch.fullName}. Compare the ID with their photo and note why they're OK to admit.`}
+                    </span>
+                  </div>
+                )}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="w-full"
+                  onClick={() => {
+                    setScan(null);
+                    setBanMatch(null);
+                    setIsScanning(true);
+                  }}
+                >
+                  <ScanLine className="h-4 w-4 mr-2" />
+                  Scan Again
+                </Button>
+              </div>
+            ) : (
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={() => setIsScanning(true)}
+              >
+                <ScanLine className="h-4 w-4 mr-2" />
+                Scan Back of License
+              </Button>
+            )}
+          </div>
+
           {/* ID Number */}
           <div className="space-y-2">
             <Label htmlFor="id-number">ID Number (Optional)</Label>
@@ -220,11 +413,17 @@ export const IDVerificationModal = ({
           <Button
             type="button"
             onClick={handleVerify}
-            disabled={isSubmitting}
-            className="w-full sm:w-auto bg-green-600 hover:bg-green-700"
+            disabled={isSubmitting || isScanning || isCheckingScan || needsNote}
+            className={`w-full sm:w-auto ${
+              !scanPassed ? "bg-red-600 hover:bg-red-700" : "bg-green-600 hover:bg-green-700"
+            }`}
           >
-            <CheckCircle2 className="h-4 w-4 mr-2" />
-            {isSubmitting ? "Verifying..." : "Verify ID"}
+            {!scanPassed ? (
+              <XCircle className="h-4 w-4 mr-2" />
+            ) : (
+              <CheckCircle2 className="h-4 w-4 mr-2" />
+            )}
+            {isSubmitting ? "Verifying..." : !scanPassed ? "Record Rejection" : "Verify ID"}
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -0,0 +1,101 @@
+import { useEffect, useRef, useState } from "react";
+import { Html5Qrcode, Html5QrcodeSupportedFormats } from "html5-qrcode";
+import { Button } from "@/components/ui/button";
+import { Camera, RefreshCw } from "lucide-react";
+
+interface LicenseBarcodeScannerProps {
+  onScan: (rawBarcode: string) => void;
+  onCancel: () => void;
+}
+
+const READER_ID = "license-barcode-reader";
+
+/** Camera view that reads the PDF417 barcode on the back of a license */
+export const LicenseBarcodeScanner = ({ onScan, onCancel }: LicenseBarcodeScannerProps) => {
+  const scannerRef = useRef<Html5Qrcode | null>(null);
+  const scannedRef = useRef(false);
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    scannedRef.current = false;
+    setError(null);
+
+    const scanner = new Html5Qrcode(READER_ID, {
+      formatsToSupport: [Html5QrcodeSupportedFormats.PDF_417],
+      useBarCodeDetectorIfSupported: true,
+      verbose: false,
+    });
+    scannerRef.current = scanner;
+
+    scanner
+      .start(
+        { facingMode: "environment" },
+        {
+          fps: 10,
+          // PDF417 barcodes are wide and short
+          qrbox: (width, height) => ({
+            width: Math.floor(width * 0.9),
+            height: Math.floor(Math.min(height * 0.5, width * 0.35)),
+          }),
+          videoConstraints: {
+            facingMode: "environment",
+            width: { ideal: 1920 },
+            height: { ideal: 1080 },
+          },
+        },
+        (decodedText) => {
+          if (cancelled || scannedRef.current) return;
+          scannedRef.current = true;
+          onScan(decodedText);
+        },
+        () => {
+          // No barcode in this frame
+        }
+      )
+      .catch((err: any) => {
+        console.error("License scanner initialization error:", err);
+        if (!cancelled) {
+          setError(err?.message || String(err));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      scanner
+        .stop()
+        .then(() => scanner.clear())
+        .catch(() => {
+          // Scanner may not have started
+        });
+    };
+  }, [attempt, onScan]);
+
+  return (
+    <div className="space-y-3">
+      {error && (
+        <div className="flex flex-col items-center gap-3 rounded-lg border border-destructive/30 p-6 text-center">
+          <Camera className="h-8 w-8 text-destructive" />
+          <p className="text-sm text-muted-foreground">
+            Couldn't start the camera: {error}
+          </p>
+          <Button type="button" variant="outline" size="sm" onClick={() => setAttempt((n) => n + 1)}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Try Again
+          </Button>
+        </div>
+      )}
+      {/* Stays mounted so a retry can attach to it */}
+      <div className={`relative overflow-hidden rounded-lg bg-black ${error ? "hidden" : ""}`}>
+        <div id={READER_ID} className="w-full min-h-[240px]" />
+      </div>
+      <p className="text-xs text-muted-foreground text-center">
+        Hold the back of the license flat, with the wide barcode filling the box. The barcode is read on this device and never uploaded.
+      </p>
+      <Button type="button" variant="ghost" className="w-full" onClick={onCancel}>
+        Cancel Scan
+      </Button>
+    </div>
+  );
+};
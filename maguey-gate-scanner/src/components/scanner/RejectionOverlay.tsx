@@ -6,9 +6,10 @@
  */
 
 import { useEffect } from 'react';
-import { XCircle } from 'lucide-react';
+import { Ban, XCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { playError } from '@/lib/audio-feedback-service';
+import type { BanMatch } from '@/lib/banned-guests';
 
 export type RejectionReason =
   | 'already_used'
@@ -17,7 +18,9 @@ export type RejectionReason =
   | 'expired'
   | 'tampered'
   | 'not_found'
-  | 'offline_unknown';
+  | 'offline_unknown'
+  | 'voided'
+  | 'banned';
 
 export interface RejectionOverlayProps {
   reason: RejectionReason;
@@ -25,8 +28,12 @@ export interface RejectionOverlayProps {
     previousScan?: { staff: string; gate: string; time: string };
     wrongEventDate?: string;
     message?: string;
+    bannedGuest?: BanMatch;
   };
   onDismiss: () => void;
+  /** Shown for a possible (name only) ban match once staff have checked the ID */
+  onClearBan?: () => void;
+  dismissLabel?: string;
 }
 
 /**
@@ -75,6 +82,26 @@ const getErrorContent = (
         subtitle: details.message || 'Ticket does not exist',
       };
 
+    case 'voided':
+      return {
+        title: 'VOIDED',
+        subtitle: details.message || 'This ticket was refunded or its payment is disputed',
+      };
+
+    case 'banned':
+      if (details.bannedGuest && !details.bannedGuest.confirmed) {
+        return {
+          title: 'POSSIBLE BANNED GUEST',
+          subtitle: `Name matches ${details.bannedGuest.fullName}. Check their ID and photo before admitting.`,
+        };
+      }
+      return {
+        title: 'BANNED GUEST',
+        subtitle: details.bannedGuest
+          ? `${details.bannedGuest.fullName} is banned from the venue. Do not admit.`
+          : details.message || 'This guest is banned from the venue',
+      };
+
     case 'offline_unknown':
       return {
         title: 'NOT IN CACHE',
@@ -94,8 +121,11 @@ export const RejectionOverlay = ({
   reason,
   details,
   onDismiss,
+  onClearBan,
+  dismissLabel = 'Scan Next',
 }: RejectionOverlayProps) => {
   const { title, subtitle } = getErrorContent(reason, details);
+  const bannedGuest = reason === 'banned' ? details.bannedGuest : undefined;
 
   // Play error audio and haptic on mount
   useEffect(() => {
@@ -110,6 +140,59 @@ export const RejectionOverlay = ({
     // NO auto-dismiss - staff needs to acknowledge rejection
   }, []);
 
+  if (reason === 'banned') {
+    return (
+      <div data-cy="rejection-overlay" className="fixed inset-0 z-[100] bg-zinc-950 border-[12px] border-red-600 flex flex-col items-center justify-center overflow-y-auto py-8 animate-in fade-in duration-200">
+        {bannedGuest?.photoUrl ? (
+          <img
+            src={bannedGuest.photoUrl}
+            alt={bannedGuest.fullName}
+            className="mb-6 h-48 w-48 rounded-2xl object-cover border-4 border-red-600"
+          />
+        ) : (
+          <div className="mb-6">
+            <Ban className="h-32 w-32 text-red-500" strokeWidth={1.5} />
+          </div>
+        )}
+
+        <div className="text-center text-white space-y-3 px-6 mb-10">
+          <h2 className="text-4xl font-black uppercase tracking-tight text-red-500">{title}</h2>
+          <p className="text-lg opacity-90 max-w-sm mx-auto">{subtitle}</p>
+          {bannedGuest && (
+            <p className="text-base max-w-sm mx-auto rounded-xl bg-white/10 px-4 py-3">
+              <span className="font-semibold">Reason:</span> {bannedGuest.reason}
+            </p>
+          )}
+          {bannedGuest?.expiresAt && (
+            <p className="text-sm opacity-70">
+              Ban ends {new Date(bannedGuest.expiresAt).toLocaleDateString()}
+            </p>
+          )}
+        </div>
+
+        <div className="flex flex-col gap-3 w-full max-w-xs px-6">
+          <Button
+            onClick={onDismiss}
+            data-cy="dismiss"
+            className="bg-red-600 hover:bg-red-700 text-white text-lg font-bold px-8 py-6 h-auto rounded-2xl"
+          >
+            {bannedGuest && !bannedGuest.confirmed ? 'Deny Entry' : dismissLabel}
+          </Button>
+          {bannedGuest && !bannedGuest.confirmed && onClearBan && (
+            <Button
+              onClick={onClearBan}
+              data-cy="clear-ban"
+              variant="outline"
+              className="bg-transparent text-white text-lg px-8 py-6 h-auto rounded-2xl border-white/40 hover:bg-white/10 hover:text-white"
+            >
+              Not Them - Admit
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div data-cy="rejection-overlay" className="fixed inset-0 z-[100] bg-red-600 flex flex-col items-center justify-center animate-in fade-in duration-200">
       {/* Large X icon */}
@@ -129,7 +212,7 @@ export const RejectionOverlay = ({
         data-cy="dismiss"
         className="bg-white/20 hover:bg-white/30 text-white text-lg font-bold px-8 py-6 h-auto rounded-2xl border border-white/30"
       >
-        Scan Next
+        {dismissLabel}
       </Button>
     </div>
   );
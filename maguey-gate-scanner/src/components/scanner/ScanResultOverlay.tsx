@@ -1,5 +1,6 @@
 import { Button } from "@/components/ui/button";
 import { AlertTriangle, XCircle, CheckCircle, Crown } from "lucide-react";
+import { useLocale } from "@/hooks/use-locale";
 
 interface ScanResultOverlayProps {
   status: "valid" | "used" | "invalid" | "vip";
@@ -22,39 +23,41 @@ export function ScanResultOverlay({
   onReset,
   overrideUsed,
 }: ScanResultOverlayProps) {
+  const { t } = useLocale();
+
   const getStatusConfig = () => {
     switch (status) {
       case "valid":
         return {
           bg: "bg-green-600",
           icon: CheckCircle,
-          title: "VALID",
+          title: t("scanner.valid"),
         };
       case "vip":
         return {
           bg: "bg-gradient-to-br from-amber-500 to-yellow-600",
           icon: Crown,
-          title: "VIP ENTRY",
+          title: t("scanner.vipEntry"),
         };
       case "used":
         return {
           bg: "bg-yellow-600",
           icon: AlertTriangle,
-          title: "ALREADY USED",
+          title: t("scanner.alreadyUsed"),
         };
       case "invalid":
       default:
         return {
           bg: "bg-red-600",
           icon: XCircle,
-          title: "INVALID",
+          title: t("scanner.invalid"),
         };
     }
   };
 
   const config = getStatusConfig();
   const Icon = config.icon;
-  const guestName = ticket?.guest_name || ticket?.attendee_name || "Guest";
+  const guestName = ticket?.guest_name || ticket?.attendee_name || t("common.guest");
 
   return (
     <div
@@ -72,7 +75,7 @@ export function ScanResultOverlay({
         {/* Override Badge */}
         {overrideUsed && (
           <div className="inline-block px-3 py-1 mb-3 rounded-full bg-white/20 text-sm">
-            Override Used
+            {t("scanner.overrideUsed")}
           </div>
         )}
 
@@ -91,7 +94,7 @@ export function ScanResultOverlay({
             )}
             {ticket.table_number && (
               <p className="text-sm opacity-80 mt-1">
-                Table {ticket.table_number}
+                {t("common.table", { number: ticket.table_number })}
               </p>
             )}
           </div>
@@ -102,7 +105,7 @@ export function ScanResultOverlay({
           onClick={onReset}
           className="bg-white text-black hover:bg-gray-100 rounded-full px-8 h-12 text-base font-semibold"
         >
-          Scan Next
+          {t("scanner.scanNext")}
         </Button>
       </div>
     </div>
@@ -10,8 +10,11 @@ import {
   Vibrate,
   AlertTriangle,
   Ticket,
+  Languages,
 } from "lucide-react";
 import { ManualEntry } from "./ManualEntry";
+import { LanguageSwitcher } from "@/components/LanguageSwitcher";
+import { useLocale } from "@/hooks/use-locale";
 
 interface ScannerSettingsPanelProps {
   open: boolean;
@@ -71,6 +74,8 @@ export function ScannerSettingsPanel({
   onDeactivateOverride,
   capacityStatus,
 }: ScannerSettingsPanelProps) {
+  const { t } = useLocale();
+
   if (!open) return null;
 
   return (
@@ -209,6 +214,18 @@ export function ScannerSettingsPanel({
             <Switch checked={hapticEnabled} onCheckedChange={onHapticChange} />
           </div>
 
+          {/* Language */}
+          <div className="flex items-center justify-between py-4 border-b border-gray-700">
+            <div className="flex items-center gap-3">
+              <Languages className="h-5 w-5 text-primary" />
+              <div>
+                <Label className="text-white">{t("common.language")}</Label>
+                <p className="text-xs text-gray-400">{t("scanner.languageDescription")}</p>
+              </div>
+            </div>
+            <LanguageSwitcher className="text-white" />
+          </div>
+
           {/* Override Mode (Owner Only) */}
           {isOwner && (
             <div className="py-4 border-b border-gray-700">
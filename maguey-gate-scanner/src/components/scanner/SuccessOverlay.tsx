@@ -9,6 +9,7 @@ import { useEffect, useState } from 'react';
 import { CheckCircle2 } from 'lucide-react';
 import { playSuccess, playTierSuccess } from '@/lib/audio-feedback-service';
 import { supabase, isSupabaseConfigured } from '@/integrations/supabase/client';
+import type { LoyaltyPerks } from '@/lib/simple-scanner';
 
 export interface SuccessOverlayProps {
   ticketType: 'ga' | 'vip_reservation' | 'vip_guest';
@@ -22,7 +23,9 @@ export interface SuccessOverlayProps {
     holderName: string;
   };
   groupCheckIn?: { current: number; total: number };
-  isReentry?: boolean; // Flag for VIP-linked re-entry
+  /** Purchaser's loyalty tier perks; skip_line shows a badge so staff wave them through */
+  loyaltyPerks?: LoyaltyPerks;
+  isReentry?: boolean; // Flag for VIP-linked or loyalty re-entry
   lastEntryTime?: string; // Time of last entry (for re-entry display)
   onDismiss: () => void;
 }
@@ -33,6 +36,7 @@ export const SuccessOverlay = ({
   attendeeEmail,
   vipDetails,
   groupCheckIn,
+  loyaltyPerks,
   isReentry = false,
   lastEntryTime,
   onDismiss,
@@ -138,6 +142,20 @@ export const SuccessOverlay = ({
         </div>
       )}
 
+      {/* Loyalty tier: skip-the-line members get a badge staff can't miss */}
+      {loyaltyPerks?.tier && (
+        <div
+          data-cy="loyalty-badge"
+          className={
+            loyaltyPerks.skip_line
+              ? 'mt-6 bg-black text-yellow-400 px-6 py-3 rounded-full text-xl font-black uppercase tracking-tight'
+              : 'mt-6 text-white/90 text-lg font-semibold uppercase'
+          }
+        >
+          {loyaltyPerks.skip_line ? `Skip the line · ${loyaltyPerks.tier}` : `${loyaltyPerks.tier} member`}
+        </div>
+      )}
+
       {/* Group check-in count (shown below main content if present) */}
       {groupCheckIn && groupCheckIn.total > 1 && (
         <div className="mt-6 text-white/80 text-lg">
@@ -1,6 +1,7 @@
 // Scanner UI components
 export { BatteryIndicator } from "./BatteryIndicator";
 export { CheckInCounter } from "./CheckInCounter";
+export { DoorUpgradeModal } from "./DoorUpgradeModal";
 export { OfflineAcknowledgeModal } from "./OfflineAcknowledgeModal";
 export { OfflineBanner } from "./OfflineBanner";
 export { RejectionOverlay } from "./RejectionOverlay";
@@ -12,6 +13,7 @@ export { VipSuccessOverlay } from "./VipSuccessOverlay";
 export { ManualEntry } from "./ManualEntry";
 export { BatchQueue } from "./BatchQueue";
 export { QrScanner } from "./QrScanner";
+export { LicenseBarcodeScanner } from "./LicenseBarcodeScanner";
 export { NFCScanner } from "./NFCScanner";
 export { ScanErrorDisplay } from "./ScanErrorDisplay";
 export { RiskIndicatorBadge } from "./RiskIndicatorBadge";
@@ -3,6 +3,7 @@
  * Displays VIP table guest info when scanning a table guest pass
  */
 
+import { useEffect, useState } from 'react';
 import { CardContent, CardHeader } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -17,9 +18,23 @@ import {
   Phone,
   Calendar,
   RefreshCw,
+  CreditCard,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import type { TableGuestPass, TableReservation } from '@/lib/vip-tables-admin-service';
+import {
+  getReservationPaymentShares,
+  type TableGuestPass,
+  type TableReservation,
+  type VipPaymentShare,
+} from '@/lib/vip-tables-admin-service';
+
+const SHARE_STATUS_LABELS: Record<VipPaymentShare['status'], string> = {
+  pending: 'Not paid',
+  paid: 'Paid',
+  covered_by_host: 'Host paid',
+  cancelled: 'Cancelled',
+  refunded: 'Refunded',
+};
 
 interface VipTableGuestResultProps {
   result: {
@@ -38,6 +53,19 @@ export const VipTableGuestResult = ({ result, onReset }: VipTableGuestResultProp
   const isUsed = result.status === 'used';
   const isReentry = result.reentry === true;
   const { pass, reservation } = result;
+  const [shares, setShares] = useState<VipPaymentShare[]>([]);
+
+  // Split-payment tables: show door staff who paid their share
+  useEffect(() => {
+    if (!reservation?.id) return;
+    let cancelled = false;
+    getReservationPaymentShares(reservation.id).then((rows) => {
+      if (!cancelled) setShares(rows);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [reservation?.id]);
 
   // Linked guests have guest_number === 0
   const isLinkedGuest = pass?.guest_number === 0;
@@ -247,6 +275,36 @@ export const VipTableGuestResult = ({ result, onReset }: VipTableGuestResultProp
             </div>
           </div>
 
+          {/* Split Payment */}
+          {shares.length > 0 && (
+            <div className="pt-4 border-t border-primary/10">
+              <div className="flex items-center gap-2 mb-2">
+                <CreditCard className="h-4 w-4 text-primary" />
+                <span className="text-sm text-muted-foreground">Split Payment</span>
+              </div>
+              <div className="space-y-1">
+                {shares.map((share) => (
+                  <div key={share.id} className="flex items-center justify-between text-sm">
+                    <span className={cn('truncate', pass?.guest_name && share.payer_name === pass.guest_name && 'font-bold')}>
+                      {share.payer_name || share.payer_email}
+                      {share.is_host && <span className="text-muted-foreground"> (host)</span>}
+                    </span>
+                    <Badge
+                      variant="outline"
+                      className={cn(
+                        share.status === 'paid' || share.status === 'covered_by_host'
+                          ? 'border-emerald-500/50 text-emerald-400'
+                          : 'border-red-500/50 text-red-400'
+                      )}
+                    >
+                      {SHARE_STATUS_LABELS[share.status]}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Bottle Service */}
           {reservation.vip_table?.bottle_service_description && (
             <div className="pt-4 border-t border-primary/10">
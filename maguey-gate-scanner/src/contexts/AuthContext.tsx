@@ -1,7 +1,9 @@
-import { createContext, useContext, useEffect, useState, useCallback, ReactNode } from 'react';
+import { createContext, useContext, useEffect, useRef, useState, useCallback, ReactNode } from 'react';
 import { supabase } from '@/lib/supabase';
 import { isSupabaseConfigured } from '@/lib/supabase-config';
-import { getUserRole, type UserRole } from '@/lib/auth';
+import { getAppMetadataRole, getUserRole, type UserRole } from '@/lib/auth';
+import { getPermissionGrants } from '@/lib/permission-service';
+import { grantsPermission, type Permission, type PermissionGrant, type PermissionScope } from '@/lib/permissions';
 import { localStorageService } from '@/lib/localStorage';
 import { getSecuritySettings } from '@/lib/security-service';
 import { useIdleTimeout } from '@/hooks/useIdleTimeout';
@@ -11,7 +13,12 @@ interface AuthContextType {
   user: any;
   role: UserRole;
   loading: boolean;
+  /** Everything the user can do, and where */
+  permissions: PermissionGrant[];
+  permissionsLoading: boolean;
+  can: (permission: Permission, scope?: PermissionScope) => boolean;
   refreshRole: () => Promise<void>;
+  refreshPermissions: () => Promise<void>;
   resetIdleTimer?: () => void;
 }
 
@@ -30,6 +37,15 @@ export const useRole = () => {
   return role;
 };
 
+/**
+ * Whether the signed-in user has a permission. Without a scope, a grant
+ * at any venue or event counts.
+ */
+export const usePermission = (permission: Permission, scope?: PermissionScope) => {
+  const { can } = useAuth();
+  return can(permission, scope);
+};
+
 interface AuthProviderProps {
   children: ReactNode;
 }
@@ -38,6 +54,9 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
   const [user, setUser] = useState<any>(null);
   const [role, setRole] = useState<UserRole>('employee');
   const [loading, setLoading] = useState(true);
+  const [permissions, setPermissions] = useState<PermissionGrant[]>([]);
+  const [permissionsLoading, setPermissionsLoading] = useState(true);
+  const [loadedGrantsKey, setLoadedGrantsKey] = useState<string | null>(null);
   const [timeoutMinutes, setTimeoutMinutes] = useState(30);
 
   // Load session timeout from security settings
@@ -59,6 +78,45 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     }
   }, []);
 
+  const userId = user?.id as string | undefined;
+  // Grants follow app_metadata.role like RLS does; local dev users only have a role
+  const grantRole = user?.app_metadata ? getAppMetadataRole(user) : role;
+
+  // Grants count as loading until they are loaded for the current user, so
+  // routes never check the previous user's grants right after sign-in
+  const grantsKey = `${userId ?? ''}:${grantRole}`;
+  const currentGrantsKey = useRef(grantsKey);
+  currentGrantsKey.current = grantsKey;
+
+  const refreshPermissions = useCallback(async () => {
+    if (!userId) {
+      setPermissions([]);
+      setLoadedGrantsKey(grantsKey);
+      setPermissionsLoading(false);
+      return;
+    }
+    setPermissionsLoading(true);
+    try {
+      const grants = await getPermissionGrants(userId, grantRole);
+      // A newer user or role may have started loading meanwhile
+      if (currentGrantsKey.current !== grantsKey) return;
+      setPermissions(grants);
+      setLoadedGrantsKey(grantsKey);
+    } finally {
+      setPermissionsLoading(false);
+    }
+  }, [userId, grantRole, grantsKey]);
+
+  useEffect(() => {
+    if (loading) return;
+    refreshPermissions();
+  }, [loading, refreshPermissions]);
+
+  const can = useCallback(
+    (permission: Permission, scope?: PermissionScope) => grantsPermission(permissions, permission, scope),
+    [permissions]
+  );
+
   const { resetTimer, dismissWarning, isWarningShown, remainingSeconds } = useIdleTimeout({
     timeoutMinutes,
     warningMinutes: 5,
@@ -200,7 +258,19 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
   }, []);
 
   return (
-    <AuthContext.Provider value={{ user, role, loading, refreshRole, resetIdleTimer: resetTimer }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        role,
+        loading,
+        permissions,
+        permissionsLoading: permissionsLoading || loadedGrantsKey !== grantsKey,
+        can,
+        refreshRole,
+        refreshPermissions,
+        resetIdleTimer: resetTimer,
+      }}
+    >
       {children}
       <IdleWarningDialog
         open={isWarningShown}
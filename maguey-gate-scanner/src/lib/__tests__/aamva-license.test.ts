@@ -0,0 +1,201 @@
+import { describe, expect, it } from 'vitest'
+import {
+  ageOn,
+  checkLicense,
+  compareNames,
+  hashLicenseBarcode,
+  isLicenseExpired,
+  minimumAgeFor,
+  parseAamvaBarcode,
+  verificationTypeFor,
+} from '../aamva-license'
+
+const NOW = new Date('2026-05-01T23:00:00')
+
+// Version 9 New York license: the first element shares the header line
+const NY_LICENSE = [
+  '@',
+  '\x1e\rANSI 636001090002DL00410248ZN02890017DLDCAD',
+  'DCBNONE',
+  'DCDNONE',
+  'DBA05152030',
+  'DCSMARTINEZ',
+  'DACMARIA',
+  'DADELENA',
+  'DBD05152022',
+  'DBB03141998',
+  'DBC2',
+  'DAYBRO',
+  'DAU064 IN',
+  'DAG123 MAIN ST',
+  'DAIBROOKLYN',
+  'DAJNY',
+  'DAK112010000  ',
+  'DAQ123456789',
+  'DCF0123456789',
+  'DCGUSA',
+  'DDEN',
+  'DDFN',
+  'DDGN',
+  'ZNZNAN',
+  '',
+].join('\n')
+
+// Version 3 Ontario license: CCYYMMDD dates and first/middle names in DCT
+const ON_LICENSE = [
+  '@',
+  '\x1e\rANSI 636012030001DL00310180DLDCAG',
+  'DCSTREMBLAY',
+  'DCTJEAN LUC',
+  'DBA20250630',
+  'DBB20080701',
+  'DAJON',
+  'DAQT1234-56789-80701',
+  'DCGCAN',
+  '',
+].join('\n')
+
+// Version 1 license with the full name in DAA
+const V1_LICENSE = [
+  '@',
+  '\x1e\rANSI 636014010101DL00290150DLDAAJOHNSON,ROBERT,JAMES',
+  'DBA20301231',
+  'DBB19850220',
+  'DAJCA',
+  '',
+].join('\n')
+
+// ============================================
+// PARSING
+// ============================================
+
+describe('parseAamvaBarcode', () => {
+  it('reads a current US license', () => {
+    expect(parseAamvaBarcode(NY_LICENSE)).toEqual({
+      firstName: 'MARIA',
+      middleName: 'ELENA',
+      lastName: 'MARTINEZ',
+      dateOfBirth: '1998-03-14',
+      expiresOn: '2030-05-15',
+      issuingState: 'NY',
+      country: 'USA',
+      version: 9,
+    })
+  })
+
+  it('reads year-first dates and combined first names on Canadian cards', () => {
+    const license = parseAamvaBarcode(ON_LICENSE)
+    expect(license).toMatchObject({
+      firstName: 'JEAN',
+      middleName: 'LUC',
+      lastName: 'TREMBLAY',
+      dateOfBirth: '2008-07-01',
+      expiresOn: '2025-06-30',
+      issuingState: 'ON',
+      country: 'CAN',
+    })
+  })
+
+  it('reads the full name element on version 1 cards', () => {
+    expect(parseAamvaBarcode(V1_LICENSE)).toMatchObject({
+      firstName: 'ROBERT',
+      middleName: 'JAMES',
+      lastName: 'JOHNSON',
+      dateOfBirth: '1985-02-20',
+      issuingState: 'CA',
+    })
+  })
+
+  it('falls back to the other date order when the expected one is not a date', () => {
+    const license = parseAamvaBarcode(NY_LICENSE.replace('DBB03141998', 'DBB19980314'))
+    expect(license?.dateOfBirth).toBe('1998-03-14')
+  })
+
+  it('rejects ticket QR codes and incomplete barcodes', () => {
+    expect(parseAamvaBarcode('MGY-1234-ABCD')).toBeNull()
+    expect(parseAamvaBarcode(NY_LICENSE.replace('DBB03141998', 'DBB'))).toBeNull()
+    expect(parseAamvaBarcode(NY_LICENSE.replace('DAJNY', 'DAJ'))).toBeNull()
+  })
+})
+
+// ============================================
+// CHECKS
+// ============================================
+
+describe('age and expiry', () => {
+  it('counts the birthday itself', () => {
+    expect(ageOn('2005-05-01', NOW)).toBe(21)
+    expect(ageOn('2005-05-02', NOW)).toBe(20)
+  })
+
+  it('treats the card as valid through its expiry date', () => {
+    expect(isLicenseExpired('2026-05-01', NOW)).toBe(false)
+    expect(isLicenseExpired('2026-04-30', NOW)).toBe(true)
+  })
+
+  it('reads the minimum age from a restriction', () => {
+    expect(minimumAgeFor('21+')).toBe(21)
+    expect(minimumAgeFor('19+')).toBe(19)
+    expect(minimumAgeFor(null)).toBeNull()
+    expect(verificationTypeFor('18+')).toBe('18+')
+    expect(verificationTypeFor('19+')).toBe('custom')
+    expect(verificationTypeFor(undefined)).toBe('none')
+  })
+})
+
+describe('compareNames', () => {
+  const license = { firstName: 'MARIA', middleName: 'ELENA', lastName: 'MARTINEZ' }
+
+  it('matches regardless of case, accents and small typos', () => {
+    expect(compareNames(license, 'María Martínez')).toBe('match')
+    expect(compareNames(license, 'Maria Martinex')).toBe('match')
+    expect(compareNames(license, 'Elena Martinez')).toBe('match')
+  })
+
+  it('flags a partial match when only one name lines up', () => {
+    expect(compareNames(license, 'Maria Lopez')).toBe('partial')
+    expect(compareNames(license, 'Maria')).toBe('partial')
+  })
+
+  it('accepts a shortened first name', () => {
+    expect(compareNames({ firstName: 'ALEXANDER', middleName: null, lastName: 'KIM' }, 'Alex Kim')).toBe('match')
+  })
+
+  it('rejects a different person and reports a missing holder name', () => {
+    expect(compareNames(license, 'John Smith')).toBe('mismatch')
+    expect(compareNames(license, null)).toBe('unknown')
+  })
+})
+
+describe('checkLicense', () => {
+  const license = parseAamvaBarcode(NY_LICENSE)!
+
+  it('passes an adult with a valid card', () => {
+    expect(checkLicense(license, { ageRestriction: '21+', holderName: 'Maria Martinez', now: NOW })).toEqual({
+      age: 28,
+      minimumAge: 21,
+      meetsAge: true,
+      expired: false,
+      nameMatch: 'match',
+      passed: true,
+    })
+  })
+
+  it('fails an underage or expired card', () => {
+    const minor = parseAamvaBarcode(ON_LICENSE)!
+    const check = checkLicense(minor, { ageRestriction: '19+', now: NOW })
+    expect(check.age).toBe(17)
+    expect(check.meetsAge).toBe(false)
+    expect(check.expired).toBe(true)
+    expect(check.passed).toBe(false)
+  })
+})
+
+describe('hashLicenseBarcode', () => {
+  it('hashes the barcode so it never has to be stored', async () => {
+    const hash = await hashLicenseBarcode(NY_LICENSE)
+    expect(hash).toMatch(/^[0-9a-f]{64}$/)
+    expect(await hashLicenseBarcode(NY_LICENSE)).toBe(hash)
+    expect(await hashLicenseBarcode(ON_LICENSE)).not.toBe(hash)
+  })
+})
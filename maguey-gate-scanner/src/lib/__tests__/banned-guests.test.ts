@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest'
+import {
+  banMatchMessage,
+  banNameKey,
+  firstBanMatch,
+  isBanActive,
+  matchBannedGuests,
+  type MatchableBan,
+} from '../banned-guests'
+
+const NOW = new Date('2026-05-01T23:00:00Z')
+
+function ban(overrides: Partial<MatchableBan> = {}): MatchableBan {
+  return {
+    id: 'ban-1',
+    full_name: 'Jonathan Q. Doe',
+    name_key: 'jonathan doe',
+    date_of_birth: '1994-07-02',
+    email: 'Jon.Doe@Example.com',
+    phone: '+1 (555) 201-3344',
+    photo_path: 'ban-1/photo.jpg',
+    reason: 'Fight at the bar',
+    expires_at: null,
+    lifted_at: null,
+    ...overrides,
+  }
+}
+
+// ============================================
+// banNameKey
+// ============================================
+
+describe('banNameKey', () => {
+  it('keeps first and last name without middle names', () => {
+    expect(banNameKey('Jonathan Q. Doe')).toBe('jonathan doe')
+  })
+
+  it('drops accents, case and punctuation', () => {
+    expect(banNameKey('  JOSÉ  O\'Brien-Núñez ')).toBe('jose obriennunez')
+  })
+
+  it('handles single names and empty input', () => {
+    expect(banNameKey('Cher')).toBe('cher')
+    expect(banNameKey('')).toBe('')
+    expect(banNameKey(null)).toBe('')
+  })
+})
+
+// ============================================
+// isBanActive
+// ============================================
+
+describe('isBanActive', () => {
+  it('is active until lifted or expired', () => {
+    expect(isBanActive(ban(), NOW)).toBe(true)
+    expect(isBanActive(ban({ expires_at: '2026-06-01T00:00:00Z' }), NOW)).toBe(true)
+    expect(isBanActive(ban({ expires_at: '2026-04-01T00:00:00Z' }), NOW)).toBe(false)
+    expect(isBanActive(ban({ lifted_at: '2026-04-20T00:00:00Z' }), NOW)).toBe(false)
+  })
+})
+
+// ============================================
+// matchBannedGuests
+// ============================================
+
+describe('matchBannedGuests', () => {
+  it('confirms a match on email regardless of case', () => {
+    const [match] = matchBannedGuests({ email: ' jon.doe@example.COM ' }, [ban()], NOW)
+    expect(match.matchedOn).toBe('email')
+    expect(match.confirmed).toBe(true)
+  })
+
+  it('confirms a match on the last ten phone digits', () => {
+    const [match] = matchBannedGuests({ phone: '555.201.3344' }, [ban()], NOW)
+    expect(match.matchedOn).toBe('phone')
+    expect(match.confirmed).toBe(true)
+  })
+
+  it('confirms a name with the same date of birth', () => {
+    const [match] = matchBannedGuests(
+      { name: 'JONATHAN DOE', dateOfBirth: '1994-07-02' },
+      [ban()],
+      NOW
+    )
+    expect(match.matchedOn).toBe('name_dob')
+    expect(match.confirmed).toBe(true)
+  })
+
+  it('treats a name alone as a possible match', () => {
+    const [match] = matchBannedGuests({ name: 'Jonathan Doe' }, [ban()], NOW)
+    expect(match.matchedOn).toBe('name')
+    expect(match.confirmed).toBe(false)
+  })
+
+  it('does not match a name with a different date of birth', () => {
+    expect(
+      matchBannedGuests({ name: 'Jonathan Doe', dateOfBirth: '2001-01-01' }, [ban()], NOW)
+    ).toEqual([])
+  })
+
+  it('ignores lifted and expired bans', () => {
+    const bans = [
+      ban({ lifted_at: '2026-04-20T00:00:00Z' }),
+      ban({ id: 'ban-2', expires_at: '2026-04-01T00:00:00Z' }),
+    ]
+    expect(matchBannedGuests({ email: 'jon.doe@example.com' }, bans, NOW)).toEqual([])
+  })
+
+  it('puts the strongest match first', () => {
+    const bans = [
+      ban({ id: 'name-only', email: null, phone: null }),
+      ban({ id: 'by-email', name_key: 'someone else' }),
+    ]
+    const matches = matchBannedGuests(
+      { name: 'Jonathan Doe', email: 'jon.doe@example.com' },
+      bans,
+      NOW
+    )
+    expect(matches.map((m) => m.banId)).toEqual(['by-email', 'name-only'])
+  })
+})
+
+// ============================================
+// firstBanMatch
+// ============================================
+
+describe('firstBanMatch', () => {
+  const possible = matchBannedGuests({ name: 'Jonathan Doe' }, [ban()], NOW)
+  const confirmed = matchBannedGuests({ email: 'jon.doe@example.com' }, [ban()], NOW)
+
+  it('skips possible matches staff cleared', () => {
+    expect(firstBanMatch(possible)).not.toBeNull()
+    expect(firstBanMatch(possible, ['ban-1'])).toBeNull()
+  })
+
+  it('never skips a confirmed match', () => {
+    expect(firstBanMatch(confirmed, ['ban-1'])?.banId).toBe('ban-1')
+  })
+})
+
+// ============================================
+// banMatchMessage
+// ============================================
+
+describe('banMatchMessage', () => {
+  it('tells staff to refuse a confirmed match and check ID on a possible one', () => {
+    const [confirmed] = matchBannedGuests({ email: 'jon.doe@example.com' }, [ban()], NOW)
+    const [possible] = matchBannedGuests({ name: 'Jonathan Doe' }, [ban()], NOW)
+    expect(banMatchMessage(confirmed)).toContain('Fight at the bar')
+    expect(banMatchMessage(possible)).toContain('Check their ID')
+  })
+})
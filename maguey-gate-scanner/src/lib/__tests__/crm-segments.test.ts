@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest'
+import {
+  cleanSegmentRules,
+  countSmsSegments,
+  describeSegmentRules,
+  findUnknownMergeFields,
+  renderMergeFields,
+  validateCampaignDraft,
+  validateSegmentDraft,
+  type CampaignDraft,
+} from '../crm-segments'
+
+// ============================================
+// Segment rules
+// ============================================
+
+describe('describeSegmentRules', () => {
+  it('describes genre nights and lapsed guests', () => {
+    expect(describeSegmentRules({ genre: 'reggaeton', min_events: 3, not_visited_days: 60 })).toBe(
+      '3+ reggaeton events, not in the last 60 days'
+    )
+  })
+
+  it('describes VIP spenders', () => {
+    expect(describeSegmentRules({ min_vip_spent: 500 })).toBe('spent $500+ on VIP')
+  })
+
+  it('calls an empty segment everyone', () => {
+    expect(describeSegmentRules({})).toBe('Everyone')
+  })
+})
+
+describe('cleanSegmentRules', () => {
+  it('drops blank rules and trims the genre', () => {
+    expect(
+      cleanSegmentRules({ genre: ' Reggaeton ', min_events: 3, min_orders: undefined, min_vip_spent: Number('') || undefined })
+    ).toEqual({ genre: 'Reggaeton', min_events: 3 })
+    expect(cleanSegmentRules({ genre: '  ', min_total_spent: NaN })).toEqual({})
+  })
+})
+
+describe('validateSegmentDraft', () => {
+  it('accepts a named segment', () => {
+    expect(validateSegmentDraft({ name: 'VIP spenders', rules: { min_vip_spent: 500 } })).toEqual([])
+  })
+
+  it('requires a unique name', () => {
+    expect(validateSegmentDraft({ name: ' ', rules: {} })).toEqual(['Enter a segment name'])
+    expect(validateSegmentDraft({ name: 'vip spenders', rules: {} }, ['VIP spenders'])).toEqual([
+      'A segment with this name already exists',
+    ])
+  })
+
+  it('rejects negative numbers and impossible visit windows', () => {
+    expect(validateSegmentDraft({ name: 'Odd', rules: { min_events: -1 } })).toEqual(['Numbers must be zero or more'])
+    expect(
+      validateSegmentDraft({ name: 'Odd', rules: { visited_within_days: 30, not_visited_days: 60 } })
+    ).toEqual(['"Came in the last" must be longer than "not in the last"'])
+  })
+})
+
+// ============================================
+// Merge fields
+// ============================================
+
+describe('renderMergeFields', () => {
+  it('fills in known fields and leaves others as written', () => {
+    expect(renderMergeFields('Hi {{ first_name }}, {{nickname}}', { first_name: 'Ana' })).toBe('Hi Ana, {{nickname}}')
+  })
+
+  it('finds fields that will not be filled in', () => {
+    expect(findUnknownMergeFields('{{first_name}} {{nickname}} {{nickname}} {{venue}}')).toEqual(['nickname', 'venue'])
+  })
+})
+
+describe('countSmsSegments', () => {
+  it('counts plain texts in 160 character parts', () => {
+    expect(countSmsSegments('')).toBe(0)
+    expect(countSmsSegments('a'.repeat(160))).toBe(1)
+    expect(countSmsSegments('a'.repeat(161))).toBe(2)
+  })
+
+  it('counts texts with emoji in 70 character parts', () => {
+    expect(countSmsSegments('🔥'.repeat(35))).toBe(1)
+    expect(countSmsSegments('🔥'.repeat(36))).toBe(2)
+  })
+
+  it('counts extension characters twice', () => {
+    expect(countSmsSegments('€'.repeat(80))).toBe(1)
+    expect(countSmsSegments('€'.repeat(81))).toBe(2)
+  })
+})
+
+// ============================================
+// validateCampaignDraft
+// ============================================
+
+describe('validateCampaignDraft', () => {
+  const now = new Date('2026-10-19T12:00:00Z')
+  const draft: CampaignDraft = {
+    name: 'Lapsed reggaeton',
+    channel: 'email',
+    segmentId: 'segment-1',
+    subject: 'We miss you, {{first_name}}',
+    body: 'Come back for {{event_name}}: {{ticket_link}}',
+  }
+
+  it('accepts a complete email', () => {
+    expect(validateCampaignDraft(draft, now)).toEqual([])
+  })
+
+  it('needs a subject for email but not for SMS', () => {
+    expect(validateCampaignDraft({ ...draft, subject: '' }, now)).toEqual(['Enter a subject'])
+    expect(validateCampaignDraft({ ...draft, channel: 'sms', subject: '' }, now)).toEqual([])
+  })
+
+  it('flags unknown merge fields', () => {
+    expect(validateCampaignDraft({ ...draft, body: 'Hi {{nick}}' }, now)).toEqual(['Unknown merge field: {{nick}}'])
+  })
+
+  it('only schedules in the future', () => {
+    expect(validateCampaignDraft({ ...draft, scheduledAt: new Date('2026-10-19T11:00:00Z') }, now)).toEqual([
+      'Schedule it for a time in the future',
+    ])
+    expect(validateCampaignDraft({ ...draft, scheduledAt: new Date('2026-10-20T18:00:00Z') }, now)).toEqual([])
+  })
+})
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest'
+import {
+  planDeliveries,
+  simulateNight,
+  toCsv,
+  toMqttBridgeMessage,
+} from '../door-counter-simulation'
+
+const START = new Date('2026-10-17T22:00:00Z')
+
+// ============================================
+// NIGHT
+// ============================================
+
+describe('simulateNight', () => {
+  it('replays the same night for the same seed', () => {
+    expect(simulateNight({ start: START, seed: 7 })).toEqual(simulateNight({ start: START, seed: 7 }))
+    expect(simulateNight({ start: START, seed: 7 })).not.toEqual(simulateNight({ start: START, seed: 8 }))
+  })
+
+  it('fills up before midnight and empties at close', () => {
+    const night = simulateNight({ start: START, expectedGuests: 600 })
+
+    expect(night.readings).toHaveLength(360)
+    expect(night.entries).toBe(night.exits)
+    expect(night.occupancy).toBe(0)
+    expect(night.peakOccupancy).toBeGreaterThan(250)
+    const peakHour = new Date(night.peakAt).getUTCHours()
+    expect(peakHour === 23 || peakHour <= 1).toBe(true)
+
+    let inside = 0
+    for (const reading of night.readings) {
+      inside += reading.entry_count - reading.exit_count
+      expect(inside).toBeGreaterThanOrEqual(0)
+    }
+  })
+
+  it('can stop partway through the night with people inside', () => {
+    const night = simulateNight({ start: START, untilMinutes: 120 })
+    const net = night.readings.reduce((sum, r) => sum + r.entry_count - r.exit_count, 0)
+
+    expect(night.readings).toHaveLength(120)
+    expect(night.occupancy).toBeGreaterThan(0)
+    expect(net).toBe(night.occupancy)
+  })
+
+  it('reports running totals that only drop at a reset', () => {
+    const { readings } = simulateNight({
+      start: START,
+      mode: 'cumulative',
+      startTotals: { entries: 1000, exits: 1000 },
+      resetAtMinute: 90,
+    })
+
+    const drops = readings.filter((reading, i) => i > 0 && reading.entry_count < readings[i - 1].entry_count)
+    expect(drops).toHaveLength(1)
+    expect(drops[0].reading_id).toBe('90')
+    expect(readings[0].entry_count).toBeGreaterThanOrEqual(1000)
+  })
+
+  it('wraps running totals past the rollover value', () => {
+    const { readings } = simulateNight({
+      start: START,
+      mode: 'cumulative',
+      startTotals: { entries: 65400, exits: 65400 },
+      rolloverAt: 65535,
+    })
+
+    expect(readings.every((reading) => reading.entry_count <= 65535)).toBe(true)
+    expect(readings[readings.length - 1].entry_count).toBeLessThan(readings[0].entry_count)
+  })
+})
+
+// ============================================
+// DELIVERY
+// ============================================
+
+describe('planDeliveries', () => {
+  const { readings } = simulateNight({ start: START, untilMinutes: 200 })
+
+  it('batches readings in order on a clean uplink', () => {
+    const batches = planDeliveries(readings, { batchSize: 10 })
+
+    expect(batches).toHaveLength(20)
+    expect(batches.flat()).toEqual(readings)
+  })
+
+  it('delivers every reading despite duplicates and late arrivals', () => {
+    const batches = planDeliveries(readings, { batchSize: 5, duplicateRate: 0.1, lateRate: 0.1, seed: 3 })
+    const delivered = batches.flat()
+    const ids = delivered.map((reading) => Number(reading.reading_id))
+
+    expect(new Set(ids).size).toBe(readings.length)
+    expect(delivered.length).toBeGreaterThan(readings.length)
+    expect(ids.some((id, i) => i > 0 && id < ids[i - 1])).toBe(true)
+  })
+})
+
+// ============================================
+// WIRE FORMATS
+// ============================================
+
+describe('wire formats', () => {
+  const readings = [
+    { reading_id: '1', count_time: '2026-10-17T22:01:00.000Z', entry_count: 3, exit_count: 0 },
+    { reading_id: '2', count_time: '2026-10-17T22:02:00.000Z', entry_count: 5, exit_count: 1 },
+  ]
+
+  it('writes CSV with a header row', () => {
+    expect(toCsv(readings)).toBe(
+      'count_time,entry_count,exit_count,reading_id\n' +
+        '2026-10-17T22:01:00.000Z,3,0,1\n' +
+        '2026-10-17T22:02:00.000Z,5,1,2\n'
+    )
+  })
+
+  it('puts the device ID in the MQTT topic', () => {
+    const message = JSON.parse(toMqttBridgeMessage('COUNTER-001', readings))
+
+    expect(message.topic).toBe('maguey/door-counters/COUNTER-001/counts')
+    expect(JSON.parse(message.payload)).toEqual({ readings })
+  })
+})
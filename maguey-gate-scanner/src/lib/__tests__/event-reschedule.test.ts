@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import {
+  defaultRefundDeadline,
+  eventStart,
+  summarizeRescheduleResponses,
+  validateReschedule,
+} from '../event-reschedule'
+
+const NOW = new Date('2026-05-01T12:00:00')
+const CURRENT = { event_date: '2026-05-02', event_time: '22:00:00' }
+
+// ============================================
+// VALIDATION
+// ============================================
+
+describe('validateReschedule', () => {
+  const input = { newDate: '2026-05-09', newTime: '22:00', refundDeadline: '2026-05-06T12:00' }
+
+  it('accepts a later date with a deadline before it', () => {
+    expect(validateReschedule(input, CURRENT, NOW)).toBeNull()
+  })
+
+  it('rejects past, unchanged and started events', () => {
+    expect(validateReschedule({ ...input, newDate: '2026-04-30' }, CURRENT, NOW)).toMatch(/future/)
+    expect(validateReschedule({ ...input, newDate: '2026-05-02' }, CURRENT, NOW)).toMatch(/same as the current/)
+    expect(validateReschedule(input, CURRENT, new Date('2026-05-02T23:00:00'))).toMatch(/already started/)
+  })
+
+  it('keeps the refund deadline between now and the new start', () => {
+    expect(validateReschedule({ ...input, refundDeadline: '2026-05-10T00:00' }, CURRENT, NOW)).toMatch(/refund deadline/)
+    expect(validateReschedule({ ...input, refundDeadline: '2026-04-30T00:00' }, CURRENT, NOW)).toMatch(/refund deadline/)
+    expect(validateReschedule({ ...input, refundDeadline: '' }, CURRENT, NOW)).toMatch(/Pick a refund deadline/)
+  })
+})
+
+describe('defaultRefundDeadline', () => {
+  it('gives a week when the new date is far away', () => {
+    expect(defaultRefundDeadline(eventStart('2026-06-01', '22:00'), NOW)).toEqual(new Date('2026-05-08T12:00:00'))
+  })
+
+  it('closes a day before a sooner new date', () => {
+    expect(defaultRefundDeadline(eventStart('2026-05-04', '22:00'), NOW)).toEqual(new Date('2026-05-03T22:00:00'))
+  })
+
+  it('runs to the start when that is less than a day away', () => {
+    const start = new Date('2026-05-01T20:00:00')
+    expect(defaultRefundDeadline(start, NOW)).toEqual(start)
+  })
+})
+
+// ============================================
+// REPORT
+// ============================================
+
+describe('summarizeRescheduleResponses', () => {
+  const responses = [
+    { choice: 'keep' as const, refund_status: null, amount_cents: 5000 },
+    { choice: 'refund' as const, refund_status: 'refunded' as const, amount_cents: 2500 },
+    { choice: 'refund' as const, refund_status: 'failed' as const, amount_cents: 2500 },
+    { choice: 'pending' as const, refund_status: null, amount_cents: 10000 },
+    { choice: 'superseded' as const, refund_status: null, amount_cents: 9999 },
+  ]
+
+  it('counts kept, refunded and undecided holders before the deadline', () => {
+    expect(summarizeRescheduleResponses(responses, '2026-05-06T12:00:00', NOW)).toEqual({
+      holders: 4,
+      kept: 1,
+      refunded: 1,
+      awaiting: 1,
+      refundPending: 1,
+      refundFailed: 1,
+      refundedCents: 2500,
+      keptCents: 5000,
+    })
+  })
+
+  it('counts holders who never answered as kept after the deadline', () => {
+    const summary = summarizeRescheduleResponses(responses, '2026-04-30T12:00:00', NOW)
+    expect(summary.kept).toBe(2)
+    expect(summary.awaiting).toBe(0)
+    expect(summary.keptCents).toBe(15000)
+  })
+})
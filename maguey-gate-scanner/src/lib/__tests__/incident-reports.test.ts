@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest'
+import {
+  canMoveIncident,
+  isIncidentOpen,
+  nextIncidentStatuses,
+  summarizeIncidentCounts,
+  validateIncidentDraft,
+  type IncidentDraft,
+} from '../incident-reports'
+
+const NOW = new Date('2026-05-02T02:00:00Z')
+
+function draft(overrides: Partial<IncidentDraft> = {}): IncidentDraft {
+  return {
+    eventId: 'event-1',
+    incidentType: 'fight',
+    severity: 'high',
+    location: 'Main bar',
+    occurredAt: '2026-05-02T01:30:00Z',
+    description: 'Two guests started swinging at the bar.',
+    policeCalled: false,
+    ambulanceCalled: false,
+    people: [{ role: 'aggressor', name: 'Guest in red jacket' }],
+    witnesses: [],
+    ...overrides,
+  }
+}
+
+// ============================================
+// validateIncidentDraft
+// ============================================
+
+describe('validateIncidentDraft', () => {
+  it('accepts a complete report', () => {
+    expect(validateIncidentDraft(draft(), NOW)).toEqual([])
+  })
+
+  it('requires type, severity, location and description', () => {
+    const errors = validateIncidentDraft(
+      draft({ incidentType: '', severity: '', location: ' ', description: '' }),
+      NOW
+    )
+    expect(errors).toHaveLength(4)
+  })
+
+  it('rejects a missing or future time', () => {
+    expect(validateIncidentDraft(draft({ occurredAt: '' }), NOW)).toContain('Enter when it happened')
+    expect(validateIncidentDraft(draft({ occurredAt: '2026-05-02T03:00:00Z' }), NOW)).toContain(
+      'The time it happened is in the future'
+    )
+  })
+
+  it('needs something to identify each person', () => {
+    const errors = validateIncidentDraft(draft({ people: [{ role: 'victim', name: '  ' }] }), NOW)
+    expect(errors).toContain('Give each person a name, a description or a linked ticket')
+    expect(validateIncidentDraft(draft({ people: [{ role: 'victim', ticketId: 't-1' }] }), NOW)).toEqual([])
+  })
+
+  it('needs the ejected guest on an ejection', () => {
+    expect(validateIncidentDraft(draft({ incidentType: 'ejection' }), NOW)).toContain(
+      'Add the guest who was ejected'
+    )
+    expect(
+      validateIncidentDraft(draft({ incidentType: 'ejection', people: [{ role: 'ejected', name: 'Sam' }] }), NOW)
+    ).toEqual([])
+  })
+})
+
+// ============================================
+// Status transitions
+// ============================================
+
+describe('incident status transitions', () => {
+  it('moves new reports into review or closes them', () => {
+    expect(nextIncidentStatuses('submitted')).toEqual(['under_review', 'closed'])
+    expect(canMoveIncident('submitted', 'resolved')).toBe(false)
+  })
+
+  it('allows reopening a closed report', () => {
+    expect(canMoveIncident('closed', 'under_review')).toBe(true)
+    expect(canMoveIncident('closed', 'resolved')).toBe(false)
+  })
+
+  it('counts resolved and closed reports as done', () => {
+    expect(isIncidentOpen('action_required')).toBe(true)
+    expect(isIncidentOpen('resolved')).toBe(false)
+    expect(isIncidentOpen('closed')).toBe(false)
+  })
+})
+
+// ============================================
+// summarizeIncidentCounts
+// ============================================
+
+describe('summarizeIncidentCounts', () => {
+  it('adds up counts across events, including counts sent as strings', () => {
+    const rows = [
+      { event_id: 'a', event_name: 'A', event_date: '2026-05-01', total: 3, open_count: 1, serious_count: 2 },
+      { event_id: 'b', event_name: 'B', event_date: '2026-04-24', total: '2', open_count: '0', serious_count: '1' },
+    ] as never[]
+    expect(summarizeIncidentCounts(rows)).toEqual({ total: 5, open: 1, serious: 3 })
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, expect, it, vi } from 'vitest'
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { rpc: vi.fn() },
+}))
+
+import {
+  resolveTimeRange,
+  toHistoryPoints,
+  type MetricHistoryRow,
+} from '../metrics-history-service'
+
+// ============================================
+// TIME RANGES
+// ============================================
+
+describe('resolveTimeRange', () => {
+  const now = Date.parse('2026-04-18T03:07:30Z')
+
+  it('starts on a bucket boundary and ends now', () => {
+    const range = resolveTimeRange('1h', now)
+
+    expect(range.from.toISOString()).toBe('2026-04-18T02:07:00.000Z')
+    expect(range.to.getTime()).toBe(now)
+    expect(range.bucketSeconds).toBe(60)
+  })
+
+  it('uses coarser buckets for longer ranges', () => {
+    const range = resolveTimeRange('7d', now)
+
+    expect(range.from.toISOString()).toBe('2026-04-11T02:00:00.000Z')
+    expect(range.bucketSeconds).toBe(7200)
+  })
+})
+
+// ============================================
+// CHART POINTS
+// ============================================
+
+describe('toHistoryPoints', () => {
+  const range = {
+    from: new Date('2026-04-18T02:00:00Z'),
+    to: new Date('2026-04-18T02:03:00Z'),
+    bucketSeconds: 60,
+  }
+
+  const row = (overrides: Partial<MetricHistoryRow>): MetricHistoryRow => ({
+    bucket_start: '2026-04-18T02:01:00Z',
+    metric_name: 'ticket.scans.valid',
+    metric_type: 'counter',
+    total: 0,
+    observations: 0,
+    devices: 1,
+    ...overrides,
+  })
+
+  it('fills every bucket and maps metric names to chart keys', () => {
+    const points = toHistoryPoints(
+      [row({ total: 12, devices: 3 }), row({ metric_name: 'ticket.scans.invalid', total: 2 })],
+      range,
+      { 'ticket.scans.valid': 'valid', 'ticket.scans.invalid': 'invalid' }
+    )
+
+    expect(points.map((point) => point.time)).toEqual([
+      Date.parse('2026-04-18T02:00:00Z'),
+      Date.parse('2026-04-18T02:01:00Z'),
+      Date.parse('2026-04-18T02:02:00Z'),
+    ])
+    expect(points[0]).toMatchObject({ valid: 0, invalid: 0, devices: 0 })
+    expect(points[1]).toMatchObject({ valid: 12, invalid: 2, devices: 3 })
+  })
+
+  it('plots histogram means and leaves empty buckets as gaps', () => {
+    const points = toHistoryPoints(
+      [row({ metric_name: 'ticket.scan.duration', metric_type: 'histogram', total: 900, observations: 6 })],
+      range,
+      { 'ticket.scan.duration': 'scanTime' }
+    )
+
+    expect(points.map((point) => point.scanTime)).toEqual([null, 150, null])
+  })
+})
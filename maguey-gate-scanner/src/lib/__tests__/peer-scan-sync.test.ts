@@ -0,0 +1,273 @@
+import { describe, expect, it, beforeEach } from 'vitest'
+import {
+  PeerScanRelayHub,
+  isEarlierScan,
+  parsePeerScan,
+  type PeerScan,
+} from '../peer-scan-relay'
+import {
+  PeerScanSync,
+  type PeerScanStore,
+  type PeerScanTransport,
+} from '../peer-scan-sync'
+import type { OfflineScanRecord } from '../offline-ticket-cache'
+import { delay } from './test-utils'
+
+// ============================================
+// SIMULATED GATE DEVICES
+// ============================================
+
+const EVENT_ID = 'event-1'
+
+interface SimTicket {
+  status: 'valid' | 'scanned'
+  scannedAt?: string
+  scannedByDevice?: string
+}
+
+/**
+ * One gate device: an in-memory ticket cache using the same first-scan-wins
+ * rule as offline-ticket-cache, connected to the relay hub via PeerScanSync
+ */
+class SimulatedDevice {
+  tickets = new Map<string, SimTicket>()
+  pending: OfflineScanRecord[] = []
+  sync: PeerScanSync
+  relayUp = true
+
+  constructor(public deviceId: string, hub: PeerScanRelayHub, ticketIds: string[]) {
+    ticketIds.forEach((id) => this.tickets.set(id, { status: 'valid' }))
+
+    const store: PeerScanStore = {
+      applyPeerScan: async (eventId, scan) => {
+        const ticket = this.tickets.get(scan.ticketId)
+        if (!ticket || eventId !== EVENT_ID) return 'not_in_cache'
+        if (
+          ticket.status === 'scanned' &&
+          ticket.scannedAt &&
+          !isEarlierScan(scan, { scannedAt: ticket.scannedAt, deviceId: ticket.scannedByDevice! })
+        ) {
+          return 'ignored'
+        }
+        this.tickets.set(scan.ticketId, {
+          status: 'scanned',
+          scannedAt: scan.scannedAt,
+          scannedByDevice: scan.deviceId,
+        })
+        return 'applied'
+      },
+    }
+
+    const transport: PeerScanTransport = {
+      publish: async (scans) => {
+        if (!this.relayUp) throw new Error('Relay unreachable')
+        return scans.map((s) => hub.publish(s).winner)
+      },
+      subscribe: (onScan, onConnected) => {
+        const unsubscribe = hub.subscribe(EVENT_ID, this.deviceId, onScan)
+        onConnected?.()
+        return unsubscribe
+      },
+    }
+
+    this.sync = new PeerScanSync({
+      eventId: EVENT_ID,
+      deviceId,
+      transport,
+      store,
+      getBacklog: async () => this.pending,
+    })
+  }
+
+  /** Mirror of scanTicketOffline(): admit if valid, record, gossip */
+  async scan(ticketId: string, scannedAt: string): Promise<'admitted' | 'rejected'> {
+    const ticket = this.tickets.get(ticketId)
+    if (!ticket || ticket.status === 'scanned') return 'rejected'
+
+    this.tickets.set(ticketId, { status: 'scanned', scannedAt, scannedByDevice: this.deviceId })
+    const record: OfflineScanRecord = {
+      ticketId,
+      qrToken: `token-${ticketId}`,
+      scannedAt,
+      deviceId: this.deviceId,
+      syncStatus: 'pending',
+    }
+    this.pending.push(record)
+    await this.sync.publish([record])
+    return 'admitted'
+  }
+}
+
+const at = (seconds: number) => new Date(Date.UTC(2026, 0, 1, 23, 0, seconds)).toISOString()
+
+// ============================================
+// FIRST-SCAN-WINS
+// ============================================
+
+describe('isEarlierScan', () => {
+  it('should prefer the earlier timestamp', () => {
+    expect(isEarlierScan({ scannedAt: at(1), deviceId: 'b' }, { scannedAt: at(2), deviceId: 'a' })).toBe(true)
+    expect(isEarlierScan({ scannedAt: at(2), deviceId: 'a' }, { scannedAt: at(1), deviceId: 'b' })).toBe(false)
+  })
+
+  it('should break ties by device ID', () => {
+    expect(isEarlierScan({ scannedAt: at(1), deviceId: 'a' }, { scannedAt: at(1), deviceId: 'b' })).toBe(true)
+    expect(isEarlierScan({ scannedAt: at(1), deviceId: 'b' }, { scannedAt: at(1), deviceId: 'a' })).toBe(false)
+  })
+})
+
+describe('parsePeerScan', () => {
+  it('should accept a well-formed scan', () => {
+    const scan = parsePeerScan({ eventId: 'e', ticketId: 't', scannedAt: at(0), deviceId: 'd' })
+    expect(scan).toEqual({ eventId: 'e', ticketId: 't', scannedAt: at(0), scannedBy: undefined, deviceId: 'd' })
+  })
+
+  it('should reject malformed payloads', () => {
+    expect(parsePeerScan(null)).toBeNull()
+    expect(parsePeerScan({ eventId: 'e', ticketId: 't', deviceId: 'd' })).toBeNull()
+    expect(parsePeerScan({ eventId: 'e', ticketId: 't', scannedAt: 'not-a-date', deviceId: 'd' })).toBeNull()
+    expect(parsePeerScan({ eventId: 'e', ticketId: 't', scannedAt: at(0), deviceId: 'd', scannedBy: 42 })).toBeNull()
+  })
+})
+
+// ============================================
+// RELAY HUB
+// ============================================
+
+describe('PeerScanRelayHub', () => {
+  let hub: PeerScanRelayHub
+
+  beforeEach(() => {
+    hub = new PeerScanRelayHub()
+  })
+
+  it('should broadcast a new scan to other devices only', () => {
+    const receivedA: PeerScan[] = []
+    const receivedB: PeerScan[] = []
+    hub.subscribe(EVENT_ID, 'door-a', (s) => receivedA.push(s))
+    hub.subscribe(EVENT_ID, 'door-b', (s) => receivedB.push(s))
+
+    const scan = { eventId: EVENT_ID, ticketId: 't1', scannedAt: at(0), deviceId: 'door-a' }
+    expect(hub.publish(scan).accepted).toBe(true)
+
+    expect(receivedA).toHaveLength(0)
+    expect(receivedB).toEqual([scan])
+  })
+
+  it('should return the existing winner for a later duplicate', () => {
+    const first = { eventId: EVENT_ID, ticketId: 't1', scannedAt: at(0), deviceId: 'door-a' }
+    const second = { eventId: EVENT_ID, ticketId: 't1', scannedAt: at(5), deviceId: 'door-b' }
+
+    hub.publish(first)
+    const result = hub.publish(second)
+
+    expect(result.accepted).toBe(false)
+    expect(result.winner).toEqual(first)
+  })
+
+  it('should treat a republished scan as accepted', () => {
+    const scan = { eventId: EVENT_ID, ticketId: 't1', scannedAt: at(0), deviceId: 'door-a' }
+    hub.publish(scan)
+    expect(hub.publish({ ...scan }).accepted).toBe(true)
+  })
+
+  it('should replay known scans to a device that joins late', () => {
+    hub.publish({ eventId: EVENT_ID, ticketId: 't1', scannedAt: at(0), deviceId: 'door-a' })
+    hub.publish({ eventId: 'other-event', ticketId: 't9', scannedAt: at(0), deviceId: 'door-a' })
+
+    const received: PeerScan[] = []
+    hub.subscribe(EVENT_ID, 'door-c', (s) => received.push(s))
+
+    expect(received.map((s) => s.ticketId)).toEqual(['t1'])
+    expect(hub.getStats()).toEqual({ events: 2, devices: 1, scans: 2 })
+  })
+})
+
+// ============================================
+// MULTI-DEVICE SIMULATION
+// ============================================
+
+describe('PeerScanSync across gate devices', () => {
+  let hub: PeerScanRelayHub
+  let doorA: SimulatedDevice
+  let doorB: SimulatedDevice
+
+  beforeEach(() => {
+    hub = new PeerScanRelayHub()
+    doorA = new SimulatedDevice('door-a', hub, ['t1', 't2'])
+    doorB = new SimulatedDevice('door-b', hub, ['t1', 't2'])
+    doorA.sync.start()
+    doorB.sync.start()
+  })
+
+  it('should reject a ticket at door B after door A admits it', async () => {
+    expect(await doorA.scan('t1', at(0))).toBe('admitted')
+    await delay(0)
+
+    expect(doorB.tickets.get('t1')).toMatchObject({ status: 'scanned', scannedByDevice: 'door-a' })
+    expect(await doorB.scan('t1', at(3))).toBe('rejected')
+    expect(await doorB.scan('t2', at(4))).toBe('admitted')
+  })
+
+  it('should converge on the earliest scan when both doors admit before gossip arrives', async () => {
+    doorA.relayUp = false
+    doorB.relayUp = false
+    expect(await doorA.scan('t1', at(2))).toBe('admitted')
+    expect(await doorB.scan('t1', at(1))).toBe('admitted')
+
+    // Relay comes back: B publishes first, then A learns it lost
+    doorB.relayUp = true
+    doorA.relayUp = true
+    await doorB.sync.publish(doorB.pending)
+    await doorA.sync.publish(doorA.pending)
+    await delay(0)
+
+    expect(doorA.tickets.get('t1')?.scannedByDevice).toBe('door-b')
+    expect(doorB.tickets.get('t1')?.scannedByDevice).toBe('door-b')
+  })
+
+  it('should bring a late-joining device up to date', async () => {
+    await doorA.scan('t1', at(0))
+    await doorB.scan('t2', at(1))
+
+    const doorC = new SimulatedDevice('door-c', hub, ['t1', 't2'])
+    doorC.sync.start()
+    await delay(0)
+
+    expect(await doorC.scan('t1', at(5))).toBe('rejected')
+    expect(await doorC.scan('t2', at(6))).toBe('rejected')
+  })
+
+  it('should flush unsent scans when the relay connection is re-established', async () => {
+    doorA.relayUp = false
+    await doorA.scan('t1', at(0))
+    expect(doorB.tickets.get('t1')?.status).toBe('valid')
+
+    // Simulate EventSource reconnect
+    doorA.relayUp = true
+    doorA.sync.stop()
+    doorA.sync.start()
+    await delay(0)
+
+    expect(doorB.tickets.get('t1')?.status).toBe('scanned')
+  })
+
+  it('should ignore scans for other events', async () => {
+    hub.publish({ eventId: 'other-event', ticketId: 't1', scannedAt: at(0), deviceId: 'door-z' })
+    await delay(0)
+
+    expect(doorA.tickets.get('t1')?.status).toBe('valid')
+  })
+
+  it('should notify listeners only when the local cache changes', async () => {
+    const seen: string[] = []
+    doorB.sync.onPeerScan((scan) => seen.push(scan.ticketId))
+
+    await doorA.scan('t1', at(0))
+    await delay(0)
+    hub.publish({ eventId: EVENT_ID, ticketId: 't1', scannedAt: at(0), deviceId: 'door-a' })
+    await delay(0)
+
+    expect(seen).toEqual(['t1'])
+  })
+})
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_BASE_ROLE_PERMISSIONS,
+  PERMISSIONS,
+  diffPermissions,
+  globalGrants,
+  grantsPermission,
+  validateRoleDraft,
+  type PermissionGrant,
+} from '../permissions'
+import { getAppMetadataRole } from '../auth'
+
+const grants: PermissionGrant[] = [
+  { permission: 'scan', venueId: null, eventId: null },
+  { permission: 'override', venueId: 'venue-1', eventId: null },
+  { permission: 'manage_vip', venueId: null, eventId: 'event-1' },
+]
+
+// ============================================
+// grantsPermission
+// ============================================
+
+describe('grantsPermission', () => {
+  it('matches a grant anywhere when no scope is given', () => {
+    expect(grantsPermission(grants, 'override')).toBe(true)
+    expect(grantsPermission(grants, 'manage_vip')).toBe(true)
+    expect(grantsPermission(grants, 'refund')).toBe(false)
+  })
+
+  it('applies grants without a venue or event everywhere', () => {
+    expect(grantsPermission(grants, 'scan', { eventId: 'event-9', venueId: 'venue-9' })).toBe(true)
+  })
+
+  it('limits venue grants to that venue', () => {
+    expect(grantsPermission(grants, 'override', { eventId: 'event-2', venueId: 'venue-1' })).toBe(true)
+    expect(grantsPermission(grants, 'override', { eventId: 'event-2', venueId: 'venue-2' })).toBe(false)
+    expect(grantsPermission(grants, 'override', { eventId: 'event-2' })).toBe(false)
+  })
+
+  it('limits event grants to that event', () => {
+    expect(grantsPermission(grants, 'manage_vip', { eventId: 'event-1', venueId: 'venue-1' })).toBe(true)
+    expect(grantsPermission(grants, 'manage_vip', { eventId: 'event-2', venueId: 'venue-1' })).toBe(false)
+  })
+})
+
+// ============================================
+// Base roles
+// ============================================
+
+describe('base role permissions', () => {
+  it('gives owners every permission', () => {
+    expect(DEFAULT_BASE_ROLE_PERMISSIONS.owner).toEqual(PERMISSIONS)
+  })
+
+  it('keeps team management with owners', () => {
+    expect(DEFAULT_BASE_ROLE_PERMISSIONS.promoter).not.toContain('manage_team')
+    expect(DEFAULT_BASE_ROLE_PERMISSIONS.employee).toEqual(['scan', 'override'])
+  })
+
+  it('reads the base role from app_metadata only', () => {
+    expect(getAppMetadataRole({ app_metadata: { role: 'promoter' } })).toBe('promoter')
+    expect(getAppMetadataRole({ app_metadata: {}, user_metadata: { role: 'owner' } })).toBeNull()
+  })
+
+  it('gives customers and unknown roles no base role', () => {
+    expect(getAppMetadataRole({ app_metadata: {} })).toBeNull()
+    expect(getAppMetadataRole({ app_metadata: { role: 'scanner' } })).toBeNull()
+    expect(getAppMetadataRole(null)).toBeNull()
+  })
+
+  it('drops unknown permissions when building grants', () => {
+    expect(globalGrants(['scan', 'teleport'])).toEqual([{ permission: 'scan', venueId: null, eventId: null }])
+  })
+})
+
+// ============================================
+// validateRoleDraft
+// ============================================
+
+describe('validateRoleDraft', () => {
+  it('accepts a named role with permissions', () => {
+    expect(validateRoleDraft({ name: 'Door manager', permissions: ['scan', 'override'] })).toEqual([])
+  })
+
+  it('requires a unique name and at least one permission', () => {
+    expect(validateRoleDraft({ name: ' ', permissions: [] })).toEqual([
+      'Enter a role name',
+      'Choose at least one permission',
+    ])
+    expect(validateRoleDraft({ name: 'vip host', permissions: ['manage_vip'] }, ['VIP host'])).toContain(
+      'A role with this name already exists'
+    )
+  })
+
+  it('only lets owners give out team management', () => {
+    const draft = { name: 'Ops lead', permissions: ['manage_team' as const] }
+    expect(validateRoleDraft(draft)).toContain('Only owners can give out Manage team')
+    expect(validateRoleDraft(draft, [], true)).toEqual([])
+  })
+})
+
+describe('diffPermissions', () => {
+  it('lists what was added and removed', () => {
+    expect(diffPermissions(['scan', 'override'], ['scan', 'refund'])).toEqual({
+      added: ['refund'],
+      removed: ['override'],
+    })
+  })
+})
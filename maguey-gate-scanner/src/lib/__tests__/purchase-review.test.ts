@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+const invoke = vi.fn()
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    rpc: vi.fn(),
+    functions: { invoke: (...args: unknown[]) => invoke(...args) },
+  },
+}))
+
+import {
+  getRiskSignalLabel,
+  resolvePurchaseReview,
+  sortRiskSignals,
+} from '../purchase-review-service'
+
+// ============================================
+// SIGNALS
+// ============================================
+
+describe('risk signals', () => {
+  it('labels known signals and humanizes unknown ones', () => {
+    expect(getRiskSignalLabel('card_testing')).toBe('Card testing')
+    expect(getRiskSignalLabel('new_signal_type')).toBe('new signal type')
+  })
+
+  it('sorts the strongest signals first without mutating the order', () => {
+    const signals = [
+      { type: 'name_mismatch', score: 20, description: '' },
+      { type: 'device_velocity', score: 30, description: '' },
+    ]
+
+    expect(sortRiskSignals(signals).map((signal) => signal.type)).toEqual(['device_velocity', 'name_mismatch'])
+    expect(signals[0].type).toBe('name_mismatch')
+    expect(sortRiskSignals(null)).toEqual([])
+  })
+})
+
+// ============================================
+// REVIEWS
+// ============================================
+
+describe('resolvePurchaseReview', () => {
+  beforeEach(() => {
+    invoke.mockReset()
+  })
+
+  it('sends the decision to review-purchase and returns its warning', async () => {
+    invoke.mockResolvedValue({ data: { warning: 'Order rejected but the refund failed' }, error: null })
+
+    await expect(resolvePurchaseReview('order-1', 'rejected', 'Stolen card')).resolves.toEqual({
+      warning: 'Order rejected but the refund failed',
+    })
+    expect(invoke).toHaveBeenCalledWith('review-purchase', {
+      body: { orderId: 'order-1', decision: 'rejected', notes: 'Stolen card' },
+    })
+  })
+
+  it("surfaces the function's error message", async () => {
+    invoke.mockResolvedValue({
+      data: null,
+      error: {
+        message: 'Edge Function returned a non-2xx status code',
+        context: { json: () => Promise.resolve({ error: 'This order has already been reviewed' }) },
+      },
+    })
+
+    await expect(resolvePurchaseReview('order-1', 'approved')).rejects.toThrow('This order has already been reviewed')
+  })
+})
@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest'
+import {
+  backtestWaitTimeModel,
+  baselineWaitMinutes,
+  buildTrainingSamples,
+  predictWithModel,
+  realisedWaitMinutes,
+  segmentFallbacks,
+  trainWaitTimeModel,
+  type VelocityPeriod,
+  type WaitTimeSample,
+} from '../wait-time-model'
+
+const period = (minute: number, scans: number, queue: number, entryPointId: string | null = null): VelocityPeriod => ({
+  period_start: new Date(Date.UTC(2026, 9, 17, 23, minute)).toISOString(),
+  period_end: new Date(Date.UTC(2026, 9, 17, 23, minute + 1)).toISOString(),
+  scan_count: scans,
+  scans_per_minute: scans,
+  active_scanners: 2,
+  estimated_queue_depth: queue,
+  entry_point_id: entryPointId,
+})
+
+/**
+ * Nights where the real wait is a fixed multiple of queue ÷ scan rate, so a
+ * trained model should beat the baseline and learn each venue's multiple
+ */
+function makeNights(count: number, venues: Record<string, number>): WaitTimeSample[] {
+  const samples: WaitTimeSample[] = []
+  for (let night = 0; night < count; night++) {
+    const date = new Date(Date.UTC(2026, 8, 1 + night)).toISOString().split('T')[0]
+    for (const [venue, multiple] of Object.entries(venues)) {
+      for (let i = 0; i < 20; i++) {
+        const features = {
+          queue_depth: 10 + ((i * 7 + night * 3) % 60),
+          scans_per_minute: 4 + (i % 5),
+          active_scanners: 1 + (i % 3),
+          observed_at: new Date(Date.UTC(2026, 8, 1 + night, 22, i * 5)).toISOString(),
+        }
+        samples.push({
+          event_id: `${venue}-${night}`,
+          night: date,
+          venue,
+          entry_point: 'Main Door',
+          event_type: 'club',
+          features,
+          actual_wait_minutes: baselineWaitMinutes(features) * multiple + 2,
+        })
+      }
+    }
+  }
+  return samples
+}
+
+// ============================================
+// ACTUAL WAITS
+// ============================================
+
+describe('realisedWaitMinutes', () => {
+  it('is the time until later scans covered the queue', () => {
+    const periods = [period(0, 5, 15), period(1, 10, 10), period(2, 10, 5)]
+
+    // 10 scanned in the first minute after, the last 5 halfway through the next
+    expect(realisedWaitMinutes(periods, 0)).toBeCloseTo(1.5)
+    expect(realisedWaitMinutes(periods, 2)).toBeNull()
+  })
+
+  it('is zero with no queue and unknown across a metrics gap', () => {
+    expect(realisedWaitMinutes([period(0, 5, 0)], 0)).toBe(0)
+    expect(realisedWaitMinutes([period(0, 5, 10), period(30, 20, 0)], 0)).toBeNull()
+  })
+})
+
+describe('buildTrainingSamples', () => {
+  it('prefers recorded actual waits and names entry points', () => {
+    const metrics = [period(0, 5, 10, 'ep-1'), period(1, 20, 0, 'ep-1')]
+    const samples = buildTrainingSamples([{
+      event_id: 'event-1',
+      night: '2026-10-17',
+      venue: 'Maguey',
+      event_type: 'club',
+      metrics,
+      recorded_waits: [{ prediction_time: metrics[0].period_start, entry_point_id: 'ep-1', actual_wait_minutes: 12 }],
+      entry_point_names: { 'ep-1': 'Side Door' },
+    }])
+
+    expect(samples.map((s) => s.actual_wait_minutes)).toEqual([12, 0])
+    expect(samples[0].entry_point).toBe('Side Door')
+    expect(samples[0].features.observed_at).toBe(metrics[0].period_end)
+  })
+})
+
+// ============================================
+// TRAINING AND PREDICTION
+// ============================================
+
+describe('segmentFallbacks', () => {
+  it('goes from the exact segment to all nights without repeats', () => {
+    expect(segmentFallbacks({ venue: 'Maguey', entry_point: 'VIP', event_type: 'club' })).toEqual([
+      'Maguey|VIP|club',
+      'Maguey|VIP|*',
+      'Maguey|*|club',
+      'Maguey|*|*',
+      '*|*|club',
+      '*|*|*',
+    ])
+    expect(segmentFallbacks({ venue: null, entry_point: null, event_type: null })).toEqual(['*|*|*'])
+  })
+})
+
+describe('trainWaitTimeModel', () => {
+  const samples = makeNights(6, { Maguey: 2, Annex: 0.5 })
+  const params = trainWaitTimeModel(samples)
+  const features = { queue_depth: 40, scans_per_minute: 5, active_scanners: 2, observed_at: '2026-10-18T23:00:00Z' }
+
+  it('learns each venue separately', () => {
+    const maguey = predictWithModel(params, { venue: 'Maguey', entry_point: 'Main Door', event_type: 'club' }, features)
+    const annex = predictWithModel(params, { venue: 'Annex', entry_point: 'Main Door', event_type: 'club' }, features)
+
+    expect(maguey.segment).toBe('Maguey|Main Door|club')
+    expect(maguey.predicted_wait_minutes).toBeGreaterThanOrEqual(16)
+    expect(maguey.predicted_wait_minutes).toBeLessThanOrEqual(20)
+    expect(annex.predicted_wait_minutes).toBeGreaterThanOrEqual(4)
+    expect(annex.predicted_wait_minutes).toBeLessThanOrEqual(8)
+    expect(maguey.confidence_score).toBeGreaterThan(0)
+  })
+
+  it('falls back to coarser segments and then to the baseline', () => {
+    const unknownVenue = predictWithModel(params, { venue: 'Rooftop', entry_point: null, event_type: 'club' }, features)
+    expect(unknownVenue.segment).toBe('*|*|club')
+
+    const untrained = predictWithModel({ features: [], segments: {} }, { venue: 'Maguey', entry_point: null, event_type: null }, features)
+    expect(untrained).toEqual({ predicted_wait_minutes: 8, confidence_score: 0, segment: 'baseline' })
+  })
+})
+
+// ============================================
+// BACKTESTING
+// ============================================
+
+describe('backtestWaitTimeModel', () => {
+  it('replays only nights with enough earlier nights and beats the baseline', () => {
+    const result = backtestWaitTimeModel(makeNights(6, { Maguey: 2 }))
+
+    expect(result.nights.map((night) => night.night)).toEqual(['2026-09-04', '2026-09-05', '2026-09-06'])
+    expect(result.samples).toBe(60)
+    expect(result.mae!).toBeLessThan(1)
+    expect(result.baseline_mae!).toBeGreaterThan(5)
+  })
+
+  it('reports no MAE without enough history', () => {
+    const result = backtestWaitTimeModel(makeNights(2, { Maguey: 2 }))
+
+    expect(result.nights).toEqual([])
+    expect(result.mae).toBeNull()
+  })
+})
@@ -0,0 +1,296 @@
+/**
+ * AAMVA License Barcode
+ *
+ * Reads the PDF417 barcode on the back of US and Canadian driver's licenses
+ * and ID cards (AAMVA DL/ID Card Design Standard, versions 1-10) entirely on
+ * the device. Only the check result and a SHA-256 hash of the barcode are
+ * ever stored; the parsed name and date of birth stay in memory.
+ */
+
+import type { VerificationType } from './id-verification-service';
+
+export interface AamvaLicense {
+  firstName: string;
+  middleName: string | null;
+  lastName: string;
+  /** YYYY-MM-DD */
+  dateOfBirth: string;
+  /** YYYY-MM-DD; the card is valid through this day */
+  expiresOn: string;
+  /** Jurisdiction code, e.g. 'NY' or 'ON' */
+  issuingState: string;
+  country: 'USA' | 'CAN';
+  /** AAMVA standard version from the header */
+  version: number;
+}
+
+export type NameMatch = 'match' | 'partial' | 'mismatch' | 'unknown';
+
+export interface LicenseCheck {
+  age: number;
+  minimumAge: number | null;
+  meetsAge: boolean;
+  expired: boolean;
+  nameMatch: NameMatch;
+  /** Age and expiry passed; a name mismatch is left to the staff member */
+  passed: boolean;
+}
+
+// Separates the header from the subfile directory
+const RECORD_SEPARATOR = '\x1e';
+
+const HEADER_PATTERN = /ANSI ?(\d{6})(\d{2})/;
+const SUBFILE_START_PATTERN = /^(?:DL|ID)(D[A-Z]{2})(.*)$/;
+const HEADER_SUBFILE_PATTERN = /(?:DL|ID)(D[A-Z]{2})(.*)$/;
+const ELEMENT_PATTERN = /^(D[A-Z]{2})(.*)$/;
+
+const CANADIAN_JURISDICTIONS = new Set([
+  'AB', 'BC', 'MB', 'NB', 'NL', 'NS', 'NT', 'NU', 'ON', 'PE', 'QC', 'SK', 'YT',
+]);
+
+// Placeholders AAMVA uses for a missing name part
+const EMPTY_NAME_VALUES = new Set(['NONE', 'UNAVL', 'UNKNOWN']);
+
+// ============================================
+// PARSING
+// ============================================
+
+/** Data element codes (DAQ, DCS, ...) to their values */
+function readElements(raw: string): Map<string, string> {
+  const elements = new Map<string, string>();
+
+  raw.split(RECORD_SEPARATOR).join('\n').split(/[\n\r]+/).forEach((segment, index) => {
+    // A subfile's first element shares its line with the subfile type, and
+    // the very first one also with the rest of the file header
+    const match =
+      segment.match(SUBFILE_START_PATTERN) ??
+      segment.match(ELEMENT_PATTERN) ??
+      (index === 0 ? segment.match(HEADER_SUBFILE_PATTERN) : null);
+    if (!match) return;
+
+    const [, code, value] = match;
+    if (!elements.has(code)) {
+      elements.set(code, value.trim());
+    }
+  });
+
+  return elements;
+}
+
+/** YYYY-MM-DD for a valid calendar date, otherwise null */
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * US cards write dates MMDDCCYY, Canadian cards and version 1 cards
+ * CCYYMMDD. Falls back to the other order when the expected one isn't a
+ * real date, since some issuers don't follow the standard.
+ */
+function parseAamvaDate(value: string | undefined, yearFirst: boolean): string | null {
+  const digits = (value || '').replace(/\D/g, '');
+  if (digits.length !== 8) return null;
+
+  const n = (start: number, end: number) => parseInt(digits.slice(start, end), 10);
+  const monthFirst = toIsoDate(n(4, 8), n(0, 2), n(2, 4));
+  const yearFirstDate = toIsoDate(n(0, 4), n(4, 6), n(6, 8));
+  return yearFirst ? yearFirstDate ?? monthFirst : monthFirst ?? yearFirstDate;
+}
+
+function cleanNamePart(value: string | undefined): string | null {
+  const part = (value || '').replace(/\s+/g, ' ').trim();
+  return part && !EMPTY_NAME_VALUES.has(part.toUpperCase()) ? part : null;
+}
+
+/** First, middle and last name across the element sets used by each version */
+function readName(elements: Map<string, string>) {
+  let lastName = cleanNamePart(elements.get('DCS') ?? elements.get('DAB'));
+  let firstName = cleanNamePart(elements.get('DAC') ?? elements.get('DCT'));
+  let middleName = cleanNamePart(elements.get('DAD'));
+
+  // Version 2-3 cards put first and middle names together in DCT
+  if (firstName && !elements.has('DAC') && !middleName) {
+    const [first, ...rest] = firstName.split(/[ ,]+/);
+    firstName = first;
+    middleName = rest.length > 0 ? rest.join(' ') : null;
+  }
+
+  // Version 1 cards may only carry the full name as LAST,FIRST,MIDDLE
+  if ((!lastName || !firstName) && elements.has('DAA')) {
+    const [last, first, ...middle] = elements.get('DAA')!.split(',').map((part) => part.trim());
+    lastName = lastName || cleanNamePart(last);
+    firstName = firstName || cleanNamePart(first);
+    middleName = middleName || cleanNamePart(middle.join(' '));
+  }
+
+  return { firstName, middleName, lastName };
+}
+
+/**
+ * Parse a scanned AAMVA barcode. Returns null when the text isn't an
+ * AAMVA license or is missing the name, date of birth, expiry or issuer.
+ */
+export function parseAamvaBarcode(raw: string): AamvaLicense | null {
+  const header = raw.match(HEADER_PATTERN);
+  if (!header) return null;
+
+  const version = parseInt(header[2], 10);
+  const elements = readElements(raw.slice(header.index! + header[0].length));
+
+  const issuingState = (elements.get('DAJ') || '').toUpperCase();
+  const countryCode = (elements.get('DCG') || '').toUpperCase();
+  const country = countryCode === 'CAN' || (!countryCode && CANADIAN_JURISDICTIONS.has(issuingState))
+    ? 'CAN'
+    : 'USA';
+
+  const yearFirst = country === 'CAN' || version === 1;
+  const dateOfBirth = parseAamvaDate(elements.get('DBB'), yearFirst);
+  const expiresOn = parseAamvaDate(elements.get('DBA'), yearFirst);
+  const { firstName, middleName, lastName } = readName(elements);
+
+  if (!issuingState || !dateOfBirth || !expiresOn || !firstName || !lastName) {
+    return null;
+  }
+
+  return { firstName, middleName, lastName, dateOfBirth, expiresOn, issuingState, country, version };
+}
+
+// ============================================
+// CHECKS
+// ============================================
+
+/** Local YYYY-MM-DD for a date, so checks follow the door's calendar */
+function localIsoDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/** Age in whole years on the given day */
+export function ageOn(dateOfBirth: string, now: Date = new Date()): number {
+  const [year, month, day] = dateOfBirth.split('-').map(Number);
+  const today = localIsoDate(now);
+  const [currentYear] = today.split('-').map(Number);
+  const birthdayThisYear = `${currentYear}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  return currentYear - year - (today < birthdayThisYear ? 1 : 0);
+}
+
+/** The card is good through its expiry date */
+export function isLicenseExpired(expiresOn: string, now: Date = new Date()): boolean {
+  return localIsoDate(now) > expiresOn;
+}
+
+/** Minimum age for an event restriction or verification type such as '21+' */
+export function minimumAgeFor(restriction: string | null | undefined): number | null {
+  const match = (restriction || '').match(/(\d+)\s*\+/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/** The verification type a scanned age satisfies for the restriction */
+export function verificationTypeFor(restriction: string | null | undefined): VerificationType {
+  const minimumAge = minimumAgeFor(restriction);
+  if (minimumAge === 21) return '21+';
+  if (minimumAge === 18) return '18+';
+  return minimumAge === null ? 'none' : 'custom';
+}
+
+function nameTokens(name: string): string[] {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z\s'-]/g, ' ')
+    .replace(/['-]/g, '')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Same name allowing for a typo (one edit, two for longer names) or a
+ * shortened form such as Alex for Alexander
+ */
+function tokensMatch(a: string, b: string): boolean {
+  if (a === b) return true;
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  if (shorter.length >= 3 && longer.startsWith(shorter)) return true;
+  return editDistance(a, b) <= (shorter.length >= 7 ? 2 : shorter.length >= 4 ? 1 : 0);
+}
+
+/**
+ * Compare the name on the ID with the ticket holder's name. 'match' when
+ * both the holder's first and last names are on the ID, 'partial' when
+ * only one is (a nickname or a married name), 'unknown' without a holder
+ * name.
+ */
+export function compareNames(
+  license: Pick<AamvaLicense, 'firstName' | 'middleName' | 'lastName'>,
+  holderName: string | null | undefined
+): NameMatch {
+  const holder = nameTokens(holderName || '');
+  if (holder.length === 0) return 'unknown';
+
+  const firstNames = nameTokens(`${license.firstName} ${license.middleName || ''}`);
+  const lastNames = nameTokens(license.lastName);
+  const onId = (token: string, candidates: string[]) =>
+    candidates.some((candidate) => tokensMatch(token, candidate));
+
+  const holderFirst = holder[0];
+  const holderLast = holder[holder.length - 1];
+  const firstMatches = onId(holderFirst, firstNames) || onId(holderFirst, lastNames);
+  const lastMatches = holder.length > 1 && (onId(holderLast, lastNames) || onId(holderLast, firstNames));
+
+  if (holder.length === 1) return firstMatches ? 'partial' : 'mismatch';
+  if (firstMatches && lastMatches) return 'match';
+  return firstMatches || lastMatches ? 'partial' : 'mismatch';
+}
+
+/** Age, expiry and name checks for a scanned license */
+export function checkLicense(
+  license: AamvaLicense,
+  options: { ageRestriction?: string | null; holderName?: string | null; now?: Date } = {}
+): LicenseCheck {
+  const now = options.now ?? new Date();
+  const age = ageOn(license.dateOfBirth, now);
+  const minimumAge = minimumAgeFor(options.ageRestriction);
+  const meetsAge = minimumAge === null || age >= minimumAge;
+  const expired = isLicenseExpired(license.expiresOn, now);
+
+  return {
+    age,
+    minimumAge,
+    meetsAge,
+    expired,
+    nameMatch: compareNames(license, options.holderName),
+    passed: meetsAge && !expired,
+  };
+}
+
+/** Hex SHA-256 of the raw barcode, stored instead of the barcode itself */
+export async function hashLicenseBarcode(raw: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(raw));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
@@ -19,8 +19,19 @@ export type AuditAction =
   | 'user_updated'
   | 'user_deleted'
   | 'user_role_changed'
+  | 'role_created'
+  | 'role_updated'
+  | 'role_deleted'
+  | 'permission_granted'
+  | 'permission_revoked'
   | 'override_used'
   | 'capacity_override'
+  | 'incident_reported'
+  | 'incident_updated'
+  | 'campaign_scheduled'
+  | 'campaign_sent'
+  | 'campaign_cancelled'
+  | 'marketing_consent_changed'
   | 'settings_changed'
   | 'export_generated'
   | 'login'
@@ -161,6 +172,50 @@ export const getAuditLogs = async (
   }
 };
 
+export const PERMISSION_AUDIT_ACTIONS: AuditAction[] = [
+  'user_role_changed',
+  'role_created',
+  'role_updated',
+  'role_deleted',
+  'permission_granted',
+  'permission_revoked',
+];
+
+/**
+ * Get the trail of role and permission changes, newest first
+ */
+export const getPermissionAuditTrail = async (
+  filters: { userId?: string; limit?: number } = {}
+): Promise<AuditLog[]> => {
+  if (!isSupabaseConfigured()) {
+    return [];
+  }
+
+  try {
+    // Type assertion needed since audit_logs is not in the generated types
+    let query = (supabase as any)
+      .from('audit_logs')
+      .select('*')
+      .in('action', PERMISSION_AUDIT_ACTIONS)
+      .order('created_at', { ascending: false })
+      .limit(filters.limit || 100);
+
+    // Changes made to this user, or by them
+    if (filters.userId) {
+      query = query.or(`resource_id.eq.${filters.userId},user_id.eq.${filters.userId}`);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+
+    return (data || []) as AuditLog[];
+  } catch (error) {
+    console.error('Error fetching permission audit trail:', error);
+    return [];
+  }
+};
+
 /**
  * Get user activity summary
  */
@@ -1,6 +1,7 @@
 import { supabase } from '@/integrations/supabase/client';
 import { isSupabaseConfigured } from '@/integrations/supabase/client';
 import { localStorageService } from '@/lib/localStorage';
+import { DEFAULT_BASE_ROLE_PERMISSIONS, type Permission } from '@/lib/permissions';
 
 export type UserRole = 'owner' | 'promoter' | 'employee';
 
@@ -34,6 +35,18 @@ export const getUserRole = (user: any): UserRole => {
   return DEFAULT_ROLE;
 };
 
+/**
+ * Get user role from app_metadata only, as RLS and user_has_permission read it.
+ * Users can edit their own user_metadata, so use this for anything the
+ * database also enforces.
+ * @param user - Supabase user object
+ * @returns User role, or null when app_metadata has no known role (customers)
+ */
+export const getAppMetadataRole = (user: any): UserRole | null => {
+  const role = user?.app_metadata?.role;
+  return VALID_ROLES.includes(role) ? (role as UserRole) : null;
+};
+
 /**
  * Set user role in Supabase user metadata
  * @param role - Role to assign ('owner' | 'promoter' | 'employee')
@@ -71,27 +84,15 @@ export const setUserRole = async (role: UserRole): Promise<void> => {
 };
 
 /**
- * Check if user has permission for a specific action
+ * Check if a base role has a permission by default.
+ * For the signed-in user use `can` from useAuth, which also counts
+ * assigned roles and changes owners made to the base roles.
  * @param role - User's role
  * @param permission - Permission to check
- * @returns true if user has permission
+ * @returns true if the role has the permission
  */
-export const hasPermission = (
-  role: UserRole,
-  permission: 'view_analytics' | 'view_events' | 'view_orders' | 'manage_tickets' | 'manage_events' | 'manage_staff'
-): boolean => {
-  if (role === 'owner') {
-    return true; // Owners have all permissions
-  }
-
-  if (role === 'promoter') {
-    // Promoters can view but not manage
-    const promoterPermissions = ['view_analytics', 'view_events', 'view_orders'];
-    return promoterPermissions.includes(permission);
-  }
-
-  // Employees have scanner access only (no special permissions)
-  return false;
+export const hasPermission = (role: UserRole, permission: Permission): boolean => {
+  return DEFAULT_BASE_ROLE_PERMISSIONS[role].includes(permission);
 };
 
 /**
@@ -0,0 +1,251 @@
+/**
+ * Banned Guest Service
+ * Venue-wide ban list: owner management and door checks
+ *
+ * Owners add and lift bans from the Banned Guests page. Scans, guest list
+ * check-ins and ID checks look the guest up with match_banned_guest, or in
+ * the offline copy kept by offline-ticket-cache when the device is offline.
+ * Every match is recorded in banned_guest_matches.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase as defaultClient } from './supabase';
+import { getCachedBannedGuests } from './offline-ticket-cache';
+import {
+  banNameKey,
+  firstBanMatch,
+  matchBannedGuests,
+  toBanMatch,
+  type BanCandidate,
+  type BanMatch,
+  type BanMatchContext,
+  type BanMatchedOn,
+  type BannedGuest,
+} from './banned-guests';
+
+export const BAN_PHOTO_BUCKET = 'banned-guest-photos';
+
+// Long enough for staff to look at the photo on the overlay
+const PHOTO_URL_TTL_SECONDS = 10 * 60;
+
+/** A guest list check-in refused because the guest matched a ban */
+export class BannedGuestError extends Error {
+  constructor(public readonly match: BanMatch) {
+    super(match.confirmed ? 'Guest is on the banned list' : 'Guest may be on the banned list');
+    this.name = 'BannedGuestError';
+  }
+}
+
+export interface BannedGuestInput {
+  full_name: string;
+  date_of_birth?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  photo_path?: string | null;
+  reason: string;
+  expires_at?: string | null;
+  block_purchases?: boolean;
+}
+
+interface MatchRow {
+  id: string;
+  full_name: string;
+  reason: string;
+  photo_path: string | null;
+  expires_at: string | null;
+  matched_on: BanMatchedOn;
+}
+
+function toRow(input: BannedGuestInput) {
+  return {
+    full_name: input.full_name.trim(),
+    name_key: banNameKey(input.full_name),
+    date_of_birth: input.date_of_birth || null,
+    email: input.email?.trim() || null,
+    phone: input.phone?.trim() || null,
+    photo_path: input.photo_path ?? null,
+    reason: input.reason.trim(),
+    expires_at: input.expires_at || null,
+    block_purchases: input.block_purchases ?? false,
+  };
+}
+
+/**
+ * All bans, newest first. Lifted bans are included unless activeOnly.
+ */
+export async function getBannedGuests(
+  options: { activeOnly?: boolean } = {}
+): Promise<BannedGuest[]> {
+  let query = (defaultClient as any)
+    .from('banned_guests')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (options.activeOnly) {
+    query = query.is('lifted_at', null);
+  }
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to load banned guests: ${error.message}`);
+  return (data || []) as BannedGuest[];
+}
+
+export async function createBannedGuest(
+  input: BannedGuestInput,
+  addedBy: string
+): Promise<BannedGuest> {
+  const row = toRow(input);
+  if (!row.name_key) throw new Error('Enter the guest\'s name');
+
+  const { data, error } = await (defaultClient as any)
+    .from('banned_guests')
+    .insert({ ...row, added_by: addedBy })
+    .select()
+    .single();
+
+  if (error) throw new Error(`Failed to add ban: ${error.message}`);
+  return data as BannedGuest;
+}
+
+export async function updateBannedGuest(
+  id: string,
+  input: BannedGuestInput
+): Promise<BannedGuest> {
+  const row = toRow(input);
+  if (!row.name_key) throw new Error('Enter the guest\'s name');
+
+  const { data, error } = await (defaultClient as any)
+    .from('banned_guests')
+    .update(row)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) throw new Error(`Failed to update ban: ${error.message}`);
+  return data as BannedGuest;
+}
+
+/** End a ban early; the row stays for the history */
+export async function liftBan(id: string, liftedBy: string, reason: string): Promise<void> {
+  const { error } = await (defaultClient as any)
+    .from('banned_guests')
+    .update({
+      lifted_at: new Date().toISOString(),
+      lifted_by: liftedBy,
+      lift_reason: reason.trim() || null,
+    })
+    .eq('id', id);
+
+  if (error) throw new Error(`Failed to lift ban: ${error.message}`);
+}
+
+/** Upload a ban photo and return its storage path */
+export async function uploadBanPhoto(file: File): Promise<string> {
+  const extension = file.type === 'image/png' ? 'png' : file.type === 'image/webp' ? 'webp' : 'jpg';
+  const path = `${crypto.randomUUID()}.${extension}`;
+
+  const { error } = await defaultClient.storage
+    .from(BAN_PHOTO_BUCKET)
+    .upload(path, file, { contentType: file.type, upsert: false });
+
+  if (error) throw new Error(`Failed to upload photo: ${error.message}`);
+  return path;
+}
+
+export async function getBanPhotoUrl(
+  path: string,
+  client: SupabaseClient = defaultClient
+): Promise<string | null> {
+  const { data, error } = await client.storage
+    .from(BAN_PHOTO_BUCKET)
+    .createSignedUrl(path, PHOTO_URL_TTL_SECONDS);
+  if (error) return null;
+  return data.signedUrl;
+}
+
+async function findInCache(candidate: BanCandidate): Promise<BanMatch[]> {
+  const bans = await getCachedBannedGuests();
+  const photoUrls = new Map(bans.map((ban) => [ban.id, ban.photoUrl]));
+  return matchBannedGuests(candidate, bans).map((match) => ({
+    ...match,
+    photoUrl: photoUrls.get(match.banId) ?? null,
+  }));
+}
+
+async function findOnline(candidate: BanCandidate, client: SupabaseClient): Promise<BanMatch[]> {
+  const { data, error } = await client.rpc('match_banned_guest' as any, {
+    p_email: candidate.email || null,
+    p_phone: candidate.phone || null,
+    p_name_key: banNameKey(candidate.name) || null,
+    p_date_of_birth: candidate.dateOfBirth || null,
+  });
+  if (error) throw error;
+  return ((data || []) as MatchRow[]).map((row) => toBanMatch(row, row.matched_on));
+}
+
+/**
+ * The ban to act on for this guest, or null. Possible matches in
+ * clearedBanIds were already checked by staff and are skipped. Falls back
+ * to the offline copy when offline or when the lookup fails, so a network
+ * problem never lets a banned guest through unchecked.
+ */
+export async function findBannedGuest(
+  candidate: BanCandidate,
+  options: { clearedBanIds?: string[]; client?: SupabaseClient; offline?: boolean } = {}
+): Promise<BanMatch | null> {
+  const client = options.client ?? defaultClient;
+  const offline = options.offline ?? (typeof navigator !== 'undefined' && !navigator.onLine);
+
+  if (!candidate.name && !candidate.email && !candidate.phone) return null;
+
+  let matches: BanMatch[];
+  if (offline) {
+    matches = await findInCache(candidate);
+  } else {
+    try {
+      matches = await findOnline(candidate, client);
+    } catch (error) {
+      console.warn('[banned-guest-service] Ban lookup failed, using offline list:', error);
+      matches = await findInCache(candidate).catch(() => []);
+    }
+  }
+
+  const match = firstBanMatch(matches, options.clearedBanIds);
+  if (!match) return null;
+
+  if (match.photoPath && !match.photoUrl && !offline) {
+    return { ...match, photoUrl: await getBanPhotoUrl(match.photoPath, client) };
+  }
+  return match;
+}
+
+/**
+ * Record a ban match. Logging never blocks the door, and offline matches
+ * are only kept on the device's scan log.
+ */
+export async function recordBanMatch(
+  match: BanMatch,
+  context: BanMatchContext,
+  outcome: 'rejected' | 'cleared',
+  details: {
+    ticketId?: string | null;
+    guestListEntryId?: string | null;
+    eventId?: string | null;
+    staffUserId?: string | null;
+  } = {},
+  client: SupabaseClient = defaultClient
+): Promise<void> {
+  const { error } = await (client as any).from('banned_guest_matches').insert({
+    banned_guest_id: match.banId,
+    context,
+    matched_on: match.matchedOn,
+    outcome,
+    ticket_id: details.ticketId ?? null,
+    guest_list_entry_id: details.guestListEntryId ?? null,
+    event_id: details.eventId ?? null,
+    staff_user_id: details.staffUserId ?? null,
+  });
+  if (error) {
+    console.error('[banned-guest-service] Failed to record ban match:', error.message);
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Banned Guests
+ *
+ * Matching rules for the venue-wide ban list (banned_guests, see
+ * maguey-pass-lounge's 20260422000000_banned_guests.sql). Online checks go
+ * through match_banned_guest; these rules mirror it for the offline copy
+ * of the list and must stay in step with it.
+ *
+ * Email, phone, or name with the same date of birth is a confirmed match
+ * and the guest is turned away. A name alone is only a possible match:
+ * staff compare the photo and ID and can clear it.
+ */
+
+export type BanMatchedOn = 'email' | 'phone' | 'name_dob' | 'name';
+
+export type BanMatchContext = 'scan' | 'guest_list' | 'id_check' | 'checkout';
+
+/** A banned_guests row */
+export interface BannedGuest {
+  id: string;
+  full_name: string;
+  name_key: string;
+  date_of_birth: string | null;
+  email: string | null;
+  phone: string | null;
+  photo_path: string | null;
+  reason: string;
+  expires_at: string | null;
+  block_purchases: boolean;
+  added_by: string | null;
+  created_at: string;
+  updated_at: string;
+  lifted_at: string | null;
+  lifted_by: string | null;
+  lift_reason: string | null;
+}
+
+export type MatchableBan = Pick<
+  BannedGuest,
+  'id' | 'full_name' | 'name_key' | 'date_of_birth' | 'email' | 'phone' | 'photo_path' | 'reason' | 'expires_at' | 'lifted_at'
+>;
+
+/** Who is at the door or on the list */
+export interface BanCandidate {
+  name?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  /** YYYY-MM-DD, from a scanned ID */
+  dateOfBirth?: string | null;
+}
+
+export interface BanMatch {
+  banId: string;
+  fullName: string;
+  reason: string;
+  photoPath: string | null;
+  /** Signed photo URL, when one has been fetched */
+  photoUrl?: string | null;
+  expiresAt: string | null;
+  matchedOn: BanMatchedOn;
+  /** Email, phone or name and date of birth; a name alone needs an ID check */
+  confirmed: boolean;
+}
+
+const MATCH_ORDER: BanMatchedOn[] = ['email', 'phone', 'name_dob', 'name'];
+
+/** First and last name, lowercased without accents or punctuation */
+export function banNameKey(name: string | null | undefined): string {
+  const tokens = (name || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['\u2019-]/g, '')
+    .replace(/[^a-z]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+  if (tokens.length <= 1) return tokens.join('');
+  return `${tokens[0]} ${tokens[tokens.length - 1]}`;
+}
+
+function emailKey(email: string | null | undefined): string | null {
+  const key = (email || '').trim().toLowerCase();
+  return key || null;
+}
+
+/** Last ten digits, so +1 and formatting don't matter */
+function phoneKey(phone: string | null | undefined): string | null {
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits.length >= 7 ? digits.slice(-10) : null;
+}
+
+export function isBanActive(
+  ban: Pick<BannedGuest, 'lifted_at' | 'expires_at'>,
+  now: Date = new Date()
+): boolean {
+  return !ban.lifted_at && (!ban.expires_at || new Date(ban.expires_at) > now);
+}
+
+export function isConfirmedBanMatch(matchedOn: BanMatchedOn): boolean {
+  return matchedOn !== 'name';
+}
+
+function matchedOn(candidate: BanCandidate, ban: MatchableBan): BanMatchedOn | null {
+  const email = emailKey(candidate.email);
+  if (email && email === emailKey(ban.email)) return 'email';
+
+  const phone = phoneKey(candidate.phone);
+  if (phone && phone === phoneKey(ban.phone)) return 'phone';
+
+  const nameKey = banNameKey(candidate.name);
+  if (!nameKey || nameKey !== ban.name_key) return null;
+  if (candidate.dateOfBirth && ban.date_of_birth) {
+    return candidate.dateOfBirth === ban.date_of_birth ? 'name_dob' : null;
+  }
+  return 'name';
+}
+
+export function toBanMatch(
+  ban: Pick<MatchableBan, 'id' | 'full_name' | 'reason' | 'photo_path' | 'expires_at'>,
+  on: BanMatchedOn
+): BanMatch {
+  return {
+    banId: ban.id,
+    fullName: ban.full_name,
+    reason: ban.reason,
+    photoPath: ban.photo_path,
+    expiresAt: ban.expires_at,
+    matchedOn: on,
+    confirmed: isConfirmedBanMatch(on),
+  };
+}
+
+/** Active bans matching the candidate, strongest match first */
+export function matchBannedGuests(
+  candidate: BanCandidate,
+  bans: MatchableBan[],
+  now: Date = new Date()
+): BanMatch[] {
+  return bans
+    .filter((ban) => isBanActive(ban, now))
+    .map((ban) => ({ ban, on: matchedOn(candidate, ban) }))
+    .filter((match): match is { ban: MatchableBan; on: BanMatchedOn } => match.on !== null)
+    .sort((a, b) => MATCH_ORDER.indexOf(a.on) - MATCH_ORDER.indexOf(b.on))
+    .map(({ ban, on }) => toBanMatch(ban, on));
+}
+
+/**
+ * The match to act on, skipping possible matches staff already cleared.
+ * A confirmed match can't be cleared.
+ */
+export function firstBanMatch(matches: BanMatch[], clearedBanIds: string[] = []): BanMatch | null {
+  return matches.find((match) => match.confirmed || !clearedBanIds.includes(match.banId)) ?? null;
+}
+
+/** Entry-denied message for the rejection overlay and scan log */
+export function banMatchMessage(match: BanMatch): string {
+  return match.confirmed
+    ? `Banned guest - ${match.reason}. Do not admit.`
+    : `Name matches a banned guest (${match.fullName}). Check their ID before admitting.`;
+}
@@ -0,0 +1,342 @@
+/**
+ * Bottle Service
+ * In-night bottle ordering for VIP tables and end-of-night tab settlement
+ *
+ * - vip_bottle_menu_items (per-event menu, owner-edited at /bottle-menu)
+ * - event_vip_tables.minimum_spend_cents (per-table minimum spend)
+ * - vip_bottle_orders / vip_bottle_order_items (placed from the guest dashboard)
+ * - vip_table_tabs (one running tab per reservation)
+ *
+ * Settlement goes through the settle-vip-tab Edge Function so the card on
+ * file is charged and the host is emailed a receipt.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+
+// Type assertion needed since the bottle service tables are not in the
+// generated types yet
+const bottleDb = supabase as any;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type BottleOrderStatus = 'placed' | 'preparing' | 'delivered' | 'cancelled';
+
+export type VipTabStatus = 'open' | 'settling' | 'settled' | 'failed';
+
+export type TabSettlementMethod = 'card' | 'venue';
+
+export type BottleMenuCategory = 'bottle' | 'champagne' | 'mixer' | 'food' | 'other';
+
+export interface BottleMenuItem {
+  id: string;
+  event_id: string;
+  category: BottleMenuCategory;
+  name: string;
+  description: string;
+  price_cents: number;
+  is_available: boolean;
+  sort_order: number;
+}
+
+export interface BottleOrderItem {
+  id: string;
+  name: string;
+  unit_price_cents: number;
+  quantity: number;
+  line_total_cents: number;
+}
+
+export interface BottleOrder {
+  id: string;
+  order_number: string;
+  reservation_id: string;
+  status: BottleOrderStatus;
+  placed_by_name: string | null;
+  notes: string | null;
+  subtotal_cents: number;
+  placed_at: string;
+  table_number: number | null;
+  purchaser_name: string;
+  items: BottleOrderItem[];
+}
+
+/** A row of get_event_vip_tabs */
+export interface VipTableTab {
+  reservation_id: string;
+  table_number: number | null;
+  purchaser_name: string;
+  purchaser_email: string;
+  reservation_status: string;
+  minimum_spend_cents: number;
+  delivered_cents: number;
+  pending_cents: number;
+  open_orders: number;
+  tab_status: VipTabStatus;
+  charged_cents: number | null;
+  settlement_method: 'card' | 'venue' | 'none' | null;
+  failure_reason: string | null;
+  settled_at: string | null;
+  has_card: boolean;
+}
+
+export interface VipTableMinimum {
+  id: string;
+  table_number: number;
+  table_name: string | null;
+  tier: string | null;
+  minimum_spend_cents: number;
+}
+
+export const BOTTLE_MENU_CATEGORIES: Array<{ value: BottleMenuCategory; label: string }> = [
+  { value: 'bottle', label: 'Bottles' },
+  { value: 'champagne', label: 'Champagne' },
+  { value: 'mixer', label: 'Mixers' },
+  { value: 'food', label: 'Food' },
+  { value: 'other', label: 'Other' },
+];
+
+/** Orders shown on the bottle service board */
+export const OPEN_BOTTLE_ORDER_STATUSES: BottleOrderStatus[] = ['placed', 'preparing'];
+
+/** Next step for each open status (mirrors update_vip_bottle_order_status) */
+export const NEXT_BOTTLE_ORDER_STATUS: Partial<Record<BottleOrderStatus, BottleOrderStatus>> = {
+  placed: 'preparing',
+  preparing: 'delivered',
+};
+
+/** What a table owes in cents: delivered orders, topped up to the minimum */
+export function tabAmountDueCents(tab: Pick<VipTableTab, 'delivered_cents' | 'minimum_spend_cents'>): number {
+  return Math.max(tab.delivered_cents, tab.minimum_spend_cents, 0);
+}
+
+export function formatCents(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+// ============================================================================
+// Menu
+// ============================================================================
+
+export async function getBottleMenu(eventId: string): Promise<BottleMenuItem[]> {
+  const { data, error } = await bottleDb
+    .from('vip_bottle_menu_items')
+    .select('*')
+    .eq('event_id', eventId)
+    .order('category', { ascending: true })
+    .order('sort_order', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching bottle menu:', error);
+    throw error;
+  }
+
+  return (data || []) as BottleMenuItem[];
+}
+
+export async function createBottleMenuItem(
+  item: Omit<BottleMenuItem, 'id'>
+): Promise<BottleMenuItem> {
+  const { data, error } = await bottleDb
+    .from('vip_bottle_menu_items')
+    .insert(item)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating bottle menu item:', error);
+    throw error;
+  }
+
+  return data as BottleMenuItem;
+}
+
+export async function updateBottleMenuItem(
+  itemId: string,
+  updates: Partial<Omit<BottleMenuItem, 'id' | 'event_id'>>
+): Promise<void> {
+  const { error } = await bottleDb
+    .from('vip_bottle_menu_items')
+    .update(updates)
+    .eq('id', itemId);
+
+  if (error) {
+    console.error('Error updating bottle menu item:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a menu item. Past orders keep their name/price snapshot.
+ */
+export async function deleteBottleMenuItem(itemId: string): Promise<void> {
+  const { error } = await bottleDb
+    .from('vip_bottle_menu_items')
+    .delete()
+    .eq('id', itemId);
+
+  if (error) {
+    console.error('Error deleting bottle menu item:', error);
+    throw error;
+  }
+}
+
+/**
+ * Copy another event's menu into this one. Returns how many items were
+ * added; items already on the menu (by name) are skipped.
+ */
+export async function copyBottleMenu(fromEventId: string, toEventId: string): Promise<number> {
+  const { data, error } = await bottleDb.rpc('copy_vip_bottle_menu', {
+    p_from_event_id: fromEventId,
+    p_to_event_id: toEventId,
+  });
+
+  if (error) {
+    console.error('Error copying bottle menu:', error);
+    throw error;
+  }
+
+  return (data as number) || 0;
+}
+
+// ============================================================================
+// Minimum spend
+// ============================================================================
+
+export async function getTableMinimums(eventId: string): Promise<VipTableMinimum[]> {
+  const { data, error } = await bottleDb
+    .from('event_vip_tables')
+    .select('id, table_number, table_name, tier, minimum_spend_cents')
+    .eq('event_id', eventId)
+    .order('table_number', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching table minimums:', error);
+    throw error;
+  }
+
+  return (data || []) as VipTableMinimum[];
+}
+
+/**
+ * Set a table's minimum spend. Tabs already open keep the minimum they
+ * opened with.
+ */
+export async function updateTableMinimum(tableId: string, minimumSpendCents: number): Promise<void> {
+  const { error } = await bottleDb
+    .from('event_vip_tables')
+    .update({ minimum_spend_cents: minimumSpendCents })
+    .eq('id', tableId);
+
+  if (error) {
+    console.error('Error updating table minimum:', error);
+    throw error;
+  }
+}
+
+// ============================================================================
+// Orders
+// ============================================================================
+
+/**
+ * Orders servers still have to bring to the table, oldest first
+ */
+export async function getOpenBottleOrders(eventId: string): Promise<BottleOrder[]> {
+  const { data, error } = await bottleDb
+    .from('vip_bottle_orders')
+    .select(`
+      *,
+      items:vip_bottle_order_items (id, name, unit_price_cents, quantity, line_total_cents),
+      reservation:vip_reservations (purchaser_name, table_number, event_vip_tables (table_number))
+    `)
+    .eq('event_id', eventId)
+    .in('status', OPEN_BOTTLE_ORDER_STATUSES)
+    .order('placed_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching bottle orders:', error);
+    throw error;
+  }
+
+  return (data || []).map(({ reservation, ...order }: any) => ({
+    ...order,
+    purchaser_name: reservation?.purchaser_name || 'Guest',
+    table_number: reservation?.event_vip_tables?.table_number ?? reservation?.table_number ?? null,
+  })) as BottleOrder[];
+}
+
+export async function updateBottleOrderStatus(orderId: string, status: BottleOrderStatus): Promise<void> {
+  const { error } = await bottleDb.rpc('update_vip_bottle_order_status', {
+    p_order_id: orderId,
+    p_status: status,
+  });
+
+  if (error) {
+    console.error('Error updating bottle order:', error);
+    throw new Error(error.message);
+  }
+}
+
+/**
+ * Subscribe to order and tab changes for the bottle service board
+ * Returns unsubscribe function
+ */
+export function subscribeToBottleService(onChange: () => void): () => void {
+  const channel = supabase
+    .channel('vip-bottle-service-board')
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'vip_bottle_orders' },
+      () => onChange()
+    )
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'vip_table_tabs' },
+      () => onChange()
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+// ============================================================================
+// Tabs
+// ============================================================================
+
+/**
+ * Every checked-in table's tab for the event, by table number
+ */
+export async function getEventTabs(eventId: string): Promise<VipTableTab[]> {
+  const { data, error } = await bottleDb.rpc('get_event_vip_tabs', { p_event_id: eventId });
+
+  if (error) {
+    console.error('Error fetching tabs:', error);
+    throw error;
+  }
+
+  return (data || []) as VipTableTab[];
+}
+
+/**
+ * Close a table's tab: charge the card on file, or record that it was paid
+ * at the venue. A declined card throws with the Edge Function's message and
+ * leaves the tab failed so it can be settled at the venue.
+ */
+export async function settleTab(
+  reservationId: string,
+  method: TabSettlementMethod
+): Promise<{ chargedCents: number }> {
+  const { data, error } = await supabase.functions.invoke('settle-vip-tab', {
+    body: { reservationId, method },
+  });
+
+  if (error) {
+    const body = await (error as any).context?.json?.().catch(() => null);
+    throw new Error(body?.error || error.message || 'Failed to settle tab');
+  }
+
+  return { chargedCents: data?.chargedCents ?? 0 };
+}
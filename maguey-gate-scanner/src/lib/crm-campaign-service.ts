@@ -0,0 +1,397 @@
+/**
+ * CRM Campaign Service
+ * Saved segments, message templates, email/SMS campaigns and marketing consent
+ *
+ * Campaigns are saved here as drafts or scheduled; send-campaign sends
+ * them (now, or from cron when they are due) and records who got what.
+ * Sales are credited to a campaign when the buyer came from its ticket
+ * link (orders.campaign_id).
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { logAuditEvent } from './audit-service';
+import {
+  cleanSegmentRules,
+  describeSegmentRules,
+  type CampaignChannel,
+  type CampaignDraft,
+  type SegmentDraft,
+  type SegmentRules,
+} from './crm-segments';
+
+// Type assertion needed since the marketing tables are not in the
+// generated types yet
+const marketingDb = supabase as any;
+
+export type CampaignStatus = 'draft' | 'scheduled' | 'sending' | 'sent' | 'cancelled' | 'failed';
+
+export interface MarketingSegment {
+  id: string;
+  name: string;
+  description: string | null;
+  rules: SegmentRules;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MarketingTemplate {
+  id: string;
+  name: string;
+  channel: CampaignChannel;
+  subject: string | null;
+  body: string;
+}
+
+export interface CampaignResults {
+  attributed_orders: number;
+  attributed_tickets: number;
+  attributed_revenue: number;
+  converted_recipients: number;
+  unsubscribes: number;
+}
+
+export interface MarketingCampaign {
+  id: string;
+  name: string;
+  channel: CampaignChannel;
+  segment_id: string | null;
+  segment_rules: SegmentRules;
+  event_id: string | null;
+  subject: string | null;
+  body: string;
+  status: CampaignStatus;
+  scheduled_at: string | null;
+  sent_at: string | null;
+  recipient_count: number;
+  sent_count: number;
+  failed_count: number;
+  skipped_count: number;
+  created_at: string;
+  marketing_segments?: { name: string } | null;
+  events?: { name: string; event_date: string } | null;
+  results?: CampaignResults;
+}
+
+/** One person in a segment, from get_segment_audience */
+export interface AudienceMember {
+  email: string;
+  name: string | null;
+  phone: string | null;
+  total_orders: number;
+  total_spent: number;
+  vip_spent: number;
+  events_attended: number;
+  last_visit: string | null;
+  days_since_last_visit: number | null;
+  email_consent: boolean;
+  sms_consent: boolean;
+}
+
+export interface AudiencePreview {
+  total: number;
+  emailable: number;
+  textable: number;
+  /** Top spenders, for a look at who is in it */
+  sample: AudienceMember[];
+}
+
+export interface MarketingConsent {
+  email: string;
+  phone: string | null;
+  /** null follows the newsletter subscription */
+  email_opt_in: boolean | null;
+  sms_opt_in: boolean;
+  email_unsubscribed_at: string | null;
+  sms_unsubscribed_at: string | null;
+  updated_at: string;
+}
+
+export interface CampaignEventOption {
+  id: string;
+  name: string;
+  event_date: string;
+}
+
+export const CAMPAIGN_STATUS_LABELS: Record<CampaignStatus, string> = {
+  draft: 'Draft',
+  scheduled: 'Scheduled',
+  sending: 'Sending',
+  sent: 'Sent',
+  cancelled: 'Cancelled',
+  failed: 'Failed',
+};
+
+const AUDIENCE_SAMPLE_SIZE = 5;
+
+// ============================================
+// Segments
+// ============================================
+
+export async function getSegments(): Promise<MarketingSegment[]> {
+  const { data, error } = await marketingDb.from('marketing_segments').select('*').order('name');
+  if (error) throw new Error(`Failed to load segments: ${error.message}`);
+  return (data || []) as MarketingSegment[];
+}
+
+export async function saveSegment(
+  draft: SegmentDraft & { description?: string },
+  existing?: MarketingSegment | null
+): Promise<MarketingSegment> {
+  const row = {
+    name: draft.name.trim(),
+    description: draft.description?.trim() || null,
+    rules: cleanSegmentRules(draft.rules),
+  };
+
+  const query = existing
+    ? marketingDb.from('marketing_segments').update(row).eq('id', existing.id)
+    : marketingDb.from('marketing_segments').insert(row);
+  const { data, error } = await query.select().single();
+
+  if (error) {
+    if (error.code === '23505') throw new Error('A segment with this name already exists');
+    throw new Error(`Failed to save segment: ${error.message}`);
+  }
+  return data as MarketingSegment;
+}
+
+/** Campaigns keep their own copy of the rules, so deleting is safe */
+export async function deleteSegment(segment: MarketingSegment): Promise<void> {
+  const { error } = await marketingDb.from('marketing_segments').delete().eq('id', segment.id);
+  if (error) throw new Error(`Failed to delete segment: ${error.message}`);
+}
+
+export async function previewSegment(rules: SegmentRules): Promise<AudiencePreview> {
+  const { data, error } = await marketingDb.rpc('get_segment_audience', { p_rules: cleanSegmentRules(rules) });
+  if (error) throw new Error(`Failed to build audience: ${error.message}`);
+
+  const audience = (data || []) as AudienceMember[];
+  return {
+    total: audience.length,
+    emailable: audience.filter((member) => member.email_consent).length,
+    textable: audience.filter((member) => member.sms_consent).length,
+    sample: audience.slice(0, AUDIENCE_SAMPLE_SIZE),
+  };
+}
+
+/** Genres used on events, for segment rules */
+export async function getEventGenres(): Promise<string[]> {
+  const { data, error } = await supabase.from('events').select('genre').not('genre', 'is', null);
+  if (error) throw new Error(`Failed to load genres: ${error.message}`);
+  const genres = new Set((data || []).map((event) => event.genre.trim()).filter(Boolean));
+  return [...genres].sort((a, b) => a.localeCompare(b));
+}
+
+// ============================================
+// Templates
+// ============================================
+
+export async function getTemplates(): Promise<MarketingTemplate[]> {
+  const { data, error } = await marketingDb
+    .from('marketing_templates')
+    .select('id, name, channel, subject, body')
+    .order('name');
+  if (error) throw new Error(`Failed to load templates: ${error.message}`);
+  return (data || []) as MarketingTemplate[];
+}
+
+export async function saveTemplate(
+  template: Omit<MarketingTemplate, 'id'>
+): Promise<MarketingTemplate> {
+  const { data, error } = await marketingDb
+    .from('marketing_templates')
+    .insert({
+      name: template.name.trim(),
+      channel: template.channel,
+      subject: template.channel === 'email' ? template.subject?.trim() || null : null,
+      body: template.body,
+    })
+    .select('id, name, channel, subject, body')
+    .single();
+
+  if (error) {
+    if (error.code === '23505') throw new Error('A template with this name already exists');
+    throw new Error(`Failed to save template: ${error.message}`);
+  }
+  return data as MarketingTemplate;
+}
+
+// ============================================
+// Campaigns
+// ============================================
+
+const CAMPAIGN_SELECT = '*, marketing_segments(name), events(name, event_date)';
+
+/** Newest first, with the sales each one brought in */
+export async function getCampaigns(): Promise<MarketingCampaign[]> {
+  const [campaignResult, resultsResult] = await Promise.all([
+    marketingDb.from('marketing_campaigns').select(CAMPAIGN_SELECT).order('created_at', { ascending: false }),
+    marketingDb.rpc('get_marketing_campaign_results'),
+  ]);
+
+  if (campaignResult.error) throw new Error(`Failed to load campaigns: ${campaignResult.error.message}`);
+  if (resultsResult.error) throw new Error(`Failed to load campaign results: ${resultsResult.error.message}`);
+
+  const results = new Map<string, CampaignResults>(
+    (resultsResult.data || []).map((row: CampaignResults & { campaign_id: string }) => [row.campaign_id, row])
+  );
+  return ((campaignResult.data || []) as MarketingCampaign[]).map((campaign) => ({
+    ...campaign,
+    results: results.get(campaign.id),
+  }));
+}
+
+/**
+ * Save a campaign as a draft, or scheduled when it has a send time. The
+ * segment's rules are copied so later edits to the segment don't change
+ * who it goes to.
+ */
+export async function saveCampaign(
+  draft: CampaignDraft,
+  segment: MarketingSegment,
+  actorId: string,
+  existing?: MarketingCampaign | null
+): Promise<MarketingCampaign> {
+  const scheduledAt = draft.scheduledAt ? draft.scheduledAt.toISOString() : null;
+  const row = {
+    name: draft.name.trim(),
+    channel: draft.channel,
+    segment_id: segment.id,
+    segment_rules: cleanSegmentRules(segment.rules),
+    event_id: draft.eventId || null,
+    subject: draft.channel === 'email' ? draft.subject?.trim() || null : null,
+    body: draft.body,
+    status: scheduledAt ? 'scheduled' : 'draft',
+    scheduled_at: scheduledAt,
+  };
+
+  const query = existing
+    ? marketingDb.from('marketing_campaigns').update(row).eq('id', existing.id)
+    : marketingDb.from('marketing_campaigns').insert(row);
+  const { data, error } = await query.select(CAMPAIGN_SELECT).single();
+
+  if (error) throw new Error(`Failed to save campaign: ${error.message}`);
+
+  if (scheduledAt) {
+    await logAuditEvent('campaign_scheduled', 'marketing_campaign', `Scheduled ${draft.channel} campaign ${row.name}`, {
+      userId: actorId,
+      resourceId: data.id,
+      metadata: {
+        scheduledAt,
+        segment: segment.name,
+        audience: describeSegmentRules(segment.rules),
+      },
+    });
+  }
+
+  return data as MarketingCampaign;
+}
+
+export async function cancelCampaign(campaign: MarketingCampaign, actorId: string): Promise<void> {
+  const { error } = await marketingDb
+    .from('marketing_campaigns')
+    .update({ status: 'cancelled' })
+    .eq('id', campaign.id)
+    .in('status', ['draft', 'scheduled']);
+  if (error) throw new Error(`Failed to cancel campaign: ${error.message}`);
+
+  await logAuditEvent('campaign_cancelled', 'marketing_campaign', `Cancelled campaign ${campaign.name}`, {
+    userId: actorId,
+    resourceId: campaign.id,
+    metadata: { previousStatus: campaign.status, scheduledAt: campaign.scheduled_at },
+  });
+}
+
+export async function deleteCampaign(campaign: MarketingCampaign): Promise<void> {
+  const { error } = await marketingDb.from('marketing_campaigns').delete().eq('id', campaign.id);
+  if (error) throw new Error(`Failed to delete campaign: ${error.message}`);
+}
+
+/** Send a draft now; returns how many it went to */
+export async function sendCampaignNow(
+  campaign: MarketingCampaign,
+  actorId: string
+): Promise<{ sent: number; failed: number; skipped: number }> {
+  const { data, error } = await supabase.functions.invoke('send-campaign', {
+    body: { campaignId: campaign.id },
+  });
+  if (error) throw new Error(data?.error || error.message || 'Failed to send campaign');
+
+  const result = data?.results?.[0];
+  if (!result || result.error) throw new Error(result?.error || 'Failed to send campaign');
+
+  await logAuditEvent('campaign_sent', 'marketing_campaign', `Sent ${campaign.channel} campaign ${campaign.name}`, {
+    userId: actorId,
+    resourceId: campaign.id,
+    severity: result.failed > 0 ? 'warning' : 'info',
+    metadata: { sent: result.sent, failed: result.failed, skipped: result.skipped },
+  });
+
+  return { sent: result.sent ?? 0, failed: result.failed ?? 0, skipped: result.skipped ?? 0 };
+}
+
+/** Upcoming events a campaign can promote */
+export async function getCampaignEventOptions(): Promise<CampaignEventOption[]> {
+  const today = new Date().toISOString().split('T')[0];
+  const { data, error } = await supabase
+    .from('events')
+    .select('id, name, event_date')
+    .gte('event_date', today)
+    .order('event_date', { ascending: true })
+    .limit(50);
+  if (error) throw new Error(`Failed to load events: ${error.message}`);
+  return (data || []) as CampaignEventOption[];
+}
+
+// ============================================
+// Consent
+// ============================================
+
+export async function getMarketingConsent(email: string): Promise<MarketingConsent | null> {
+  const { data, error } = await marketingDb
+    .from('marketing_consents')
+    .select('*')
+    .eq('email', email.trim().toLowerCase())
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load consent: ${error.message}`);
+  return data as MarketingConsent | null;
+}
+
+/**
+ * Record what a customer agreed to. Someone who unsubscribed can only be
+ * opted back in by doing it themselves, so that is refused here.
+ */
+export async function setMarketingConsent(
+  email: string,
+  changes: { emailOptIn?: boolean; smsOptIn?: boolean; phone?: string | null },
+  actorId: string
+): Promise<MarketingConsent> {
+  const normalized = email.trim().toLowerCase();
+  const current = await getMarketingConsent(normalized);
+
+  if (changes.emailOptIn && current?.email_unsubscribed_at) {
+    throw new Error('They unsubscribed from emails and have to sign up again themselves');
+  }
+  if (changes.smsOptIn && current?.sms_unsubscribed_at) {
+    throw new Error('They opted out of texts and have to sign up again themselves');
+  }
+
+  const row: Record<string, unknown> = { email: normalized, source: 'staff', updated_by: actorId };
+  if (changes.emailOptIn !== undefined) row.email_opt_in = changes.emailOptIn;
+  if (changes.smsOptIn !== undefined) row.sms_opt_in = changes.smsOptIn;
+  if (changes.phone !== undefined) row.phone = changes.phone?.trim() || null;
+
+  const { data, error } = await marketingDb
+    .from('marketing_consents')
+    .upsert(row, { onConflict: 'email' })
+    .select()
+    .single();
+  if (error) throw new Error(`Failed to save consent: ${error.message}`);
+
+  await logAuditEvent('marketing_consent_changed', 'customer', `Changed marketing consent for ${normalized}`, {
+    userId: actorId,
+    metadata: { emailOptIn: changes.emailOptIn, smsOptIn: changes.smsOptIn },
+  });
+
+  return data as MarketingConsent;
+}
@@ -0,0 +1,199 @@
+/**
+ * CRM Segments
+ *
+ * Audience rules and campaign copy (see 20260425000000_marketing_campaigns.sql).
+ * A segment is a set of rules over the customer stats, e.g. "3+ reggaeton
+ * nights, not in the last 60 days"; get_segment_audience applies them.
+ * Campaign copy uses {{merge_fields}}, filled in per recipient by
+ * send-campaign (supabase/functions/_shared/campaigns.ts), keep the two in
+ * step.
+ */
+
+export type CampaignChannel = 'email' | 'sms';
+
+/** All rules are optional; an empty segment is everyone */
+export interface SegmentRules {
+  /** Only count events of this genre for min_events */
+  genre?: string;
+  min_events?: number;
+  min_orders?: number;
+  min_total_spent?: number;
+  min_vip_spent?: number;
+  /** Came to an event in the last N days */
+  visited_within_days?: number;
+  /** Hasn't come to an event in the last N days */
+  not_visited_days?: number;
+}
+
+type NumericRule = Exclude<keyof SegmentRules, 'genre'>;
+
+const NUMERIC_RULES: NumericRule[] = [
+  'min_events',
+  'min_orders',
+  'min_total_spent',
+  'min_vip_spent',
+  'visited_within_days',
+  'not_visited_days',
+];
+
+export const MERGE_FIELDS = [
+  'first_name',
+  'name',
+  'event_name',
+  'event_date',
+  'ticket_link',
+  'events_attended',
+] as const;
+
+export type MergeField = typeof MERGE_FIELDS[number];
+
+export const MERGE_FIELD_LABELS: Record<MergeField, string> = {
+  first_name: 'First name',
+  name: 'Full name',
+  event_name: 'Event name',
+  event_date: 'Event date',
+  ticket_link: 'Ticket link',
+  events_attended: 'Events attended',
+};
+
+/** Added to every text by send-campaign unless the copy already says STOP */
+export const SMS_OPT_OUT_LINE = 'Reply STOP to opt out';
+
+const MERGE_FIELD_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+// GSM-7 characters; anything else sends the whole text as UCS-2
+const GSM_PATTERN = /^[A-Za-z0-9 \n\r@£$¥èéùìòÇØøÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ!"#¤%&'()*+,\-./:;<=>?¡ÄÖÑÜ§¿äöñüà^{}\\[~\]|€]*$/;
+const GSM_EXTENDED_PATTERN = /[\^{}\\[~\]|€]/g;
+
+function isMergeField(value: string): value is MergeField {
+  return (MERGE_FIELDS as readonly string[]).includes(value);
+}
+
+/** Drop blank and non-numeric rules so they aren't saved */
+export function cleanSegmentRules(rules: SegmentRules): SegmentRules {
+  const cleaned: SegmentRules = {};
+  const genre = rules.genre?.trim();
+  if (genre) cleaned.genre = genre;
+  for (const key of NUMERIC_RULES) {
+    const value = rules[key];
+    if (value === undefined || value === null || Number.isNaN(Number(value))) continue;
+    cleaned[key] = Number(value);
+  }
+  return cleaned;
+}
+
+/** "3+ reggaeton events, not in the last 60 days" */
+export function describeSegmentRules(rules: SegmentRules): string {
+  const parts: string[] = [];
+  const genre = rules.genre?.trim();
+
+  if (rules.min_events !== undefined) {
+    parts.push(`${rules.min_events}+ ${genre ? `${genre} ` : ''}event${rules.min_events === 1 ? '' : 's'}`);
+  } else if (genre) {
+    parts.push(`been to ${genre}`);
+  }
+  if (rules.min_orders !== undefined) parts.push(`${rules.min_orders}+ orders`);
+  if (rules.min_total_spent !== undefined) parts.push(`spent $${rules.min_total_spent}+ on tickets`);
+  if (rules.min_vip_spent !== undefined) parts.push(`spent $${rules.min_vip_spent}+ on VIP`);
+  if (rules.visited_within_days !== undefined) parts.push(`came in the last ${rules.visited_within_days} days`);
+  if (rules.not_visited_days !== undefined) parts.push(`not in the last ${rules.not_visited_days} days`);
+
+  return parts.length > 0 ? parts.join(', ') : 'Everyone';
+}
+
+export interface SegmentDraft {
+  name: string;
+  rules: SegmentRules;
+}
+
+/** What's wrong with a segment before it is saved. Empty when it's ready. */
+export function validateSegmentDraft(draft: SegmentDraft, existingNames: readonly string[] = []): string[] {
+  const errors: string[] = [];
+  const name = draft.name.trim();
+
+  if (!name) {
+    errors.push('Enter a segment name');
+  } else if (existingNames.some((existing) => existing.trim().toLowerCase() === name.toLowerCase())) {
+    errors.push('A segment with this name already exists');
+  }
+
+  for (const key of NUMERIC_RULES) {
+    const value = draft.rules[key];
+    if (value !== undefined && (!Number.isFinite(value) || value < 0)) {
+      errors.push('Numbers must be zero or more');
+      break;
+    }
+  }
+
+  const { visited_within_days: within, not_visited_days: notWithin } = draft.rules;
+  if (within !== undefined && notWithin !== undefined && within <= notWithin) {
+    errors.push('"Came in the last" must be longer than "not in the last"');
+  }
+
+  return errors;
+}
+
+/** Fill in {{field}}s; unknown fields are left as written */
+export function renderMergeFields(template: string, values: Partial<Record<MergeField, string>>): string {
+  return template.replace(MERGE_FIELD_PATTERN, (match, field: string) => {
+    const value = isMergeField(field) ? values[field] : undefined;
+    return value === undefined ? match : value;
+  });
+}
+
+/** {{fields}} in the copy that won't be filled in */
+export function findUnknownMergeFields(template: string): string[] {
+  const unknown = new Set<string>();
+  for (const match of template.matchAll(MERGE_FIELD_PATTERN)) {
+    if (!isMergeField(match[1])) unknown.add(match[1]);
+  }
+  return [...unknown];
+}
+
+/** How many texts a message is billed as */
+export function countSmsSegments(message: string): number {
+  if (!message) return 0;
+  const gsm = GSM_PATTERN.test(message);
+  const single = gsm ? 160 : 70;
+  const multi = gsm ? 153 : 67;
+  // Extension characters take two GSM-7 slots, emoji two UCS-2 ones
+  const length = gsm ? message.length + (message.match(GSM_EXTENDED_PATTERN)?.length ?? 0) : message.length;
+  return length <= single ? 1 : Math.ceil(length / multi);
+}
+
+export interface CampaignDraft {
+  name: string;
+  channel: CampaignChannel;
+  segmentId: string | null;
+  /** The event {{event_name}} and the ticket link point at */
+  eventId?: string | null;
+  subject?: string;
+  body: string;
+  /** Omit to keep it a draft or send now */
+  scheduledAt?: Date | null;
+}
+
+/** What's wrong with a campaign before it is saved. Empty when it's ready. */
+export function validateCampaignDraft(draft: CampaignDraft, now: Date = new Date()): string[] {
+  const errors: string[] = [];
+
+  if (!draft.name.trim()) errors.push('Enter a campaign name');
+  if (!draft.segmentId) errors.push('Choose who to send it to');
+  if (draft.channel === 'email' && !draft.subject?.trim()) errors.push('Enter a subject');
+  if (!draft.body.trim()) errors.push('Write a message');
+
+  const unknown = findUnknownMergeFields(`${draft.subject ?? ''} ${draft.body}`);
+  if (unknown.length > 0) {
+    errors.push(`Unknown merge field${unknown.length === 1 ? '' : 's'}: ${unknown.map((field) => `{{${field}}}`).join(', ')}`);
+  }
+
+  if (draft.scheduledAt) {
+    if (Number.isNaN(draft.scheduledAt.getTime())) {
+      errors.push('Choose a valid send time');
+    } else if (draft.scheduledAt <= now) {
+      errors.push('Schedule it for a time in the future');
+    }
+  }
+
+  return errors;
+}
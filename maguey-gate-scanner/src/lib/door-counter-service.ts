@@ -1,5 +1,7 @@
 import { supabase } from "@/integrations/supabase/client";
 
+export type CounterCountMode = 'delta' | 'cumulative';
+
 export interface DoorCounter {
   id: string;
   device_id: string;
@@ -10,10 +12,26 @@ export interface DoorCounter {
   api_key: string | null;
   is_active: boolean;
   last_heartbeat: string | null;
+  count_mode: CounterCountMode;
+  rollover_at: number | null;
+  poll_enabled: boolean;
+  last_entry_total: number | null;
+  last_exit_total: number | null;
+  last_reading_at: string | null;
+  reset_count: number;
+  last_reset_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
+/** Counter state kept by ingest_door_counter_readings */
+export type DoorCounterIngestState =
+  | 'last_entry_total'
+  | 'last_exit_total'
+  | 'last_reading_at'
+  | 'reset_count'
+  | 'last_reset_at';
+
 export interface PhysicalCount {
   id: string;
   counter_id: string;
@@ -21,9 +39,25 @@ export interface PhysicalCount {
   entry_count: number;
   exit_count: number;
   net_count: number;
+  reading_key: string | null;
+  raw_entry_total: number | null;
+  raw_exit_total: number | null;
+  adjustment: 'baseline' | 'reset' | 'rollover' | null;
+  source: 'json' | 'csv' | 'mqtt' | 'poll' | 'calibration';
   created_at: string;
 }
 
+/** Returned by door-counter-ingest */
+export interface CounterIngestResult {
+  accepted: number;
+  duplicates: number;
+  stale: number;
+  resets: number;
+  rollovers: number;
+  entries: number;
+  exits: number;
+}
+
 export interface CountDiscrepancy {
   id: string;
   event_id: string;
@@ -105,7 +139,7 @@ export async function getDoorCounterById(id: string): Promise<DoorCounter | null
  * Create a new door counter
  */
 export async function createDoorCounter(
-  counter: Omit<DoorCounter, 'id' | 'created_at' | 'updated_at' | 'last_heartbeat'>
+  counter: Omit<DoorCounter, 'id' | 'created_at' | 'updated_at' | 'last_heartbeat' | DoorCounterIngestState>
 ): Promise<DoorCounter> {
   const { data, error } = await supabase
     .from('door_counters')
@@ -117,6 +151,9 @@ export async function createDoorCounter(
       api_endpoint: counter.api_endpoint,
       api_key: counter.api_key,
       is_active: counter.is_active,
+      count_mode: counter.count_mode,
+      rollover_at: counter.rollover_at,
+      poll_enabled: counter.poll_enabled,
     })
     .select()
     .single();
@@ -130,7 +167,7 @@ export async function createDoorCounter(
  */
 export async function updateDoorCounter(
   id: string,
-  updates: Partial<Omit<DoorCounter, 'id' | 'created_at' | 'updated_at'>>
+  updates: Partial<Omit<DoorCounter, 'id' | 'created_at' | 'updated_at' | DoorCounterIngestState>>
 ): Promise<DoorCounter> {
   const { data, error } = await supabase
     .from('door_counters')
@@ -213,6 +250,37 @@ export async function ingestCounterData(
   return data;
 }
 
+/**
+ * Upload a counter's exported readings (CSV or JSON) through
+ * door-counter-ingest, as the device itself would. Replayed readings are
+ * skipped, so re-uploading an export is safe.
+ */
+export async function uploadCounterReadings(
+  counter: Pick<DoorCounter, 'api_key'>,
+  fileContents: string,
+  contentType: string
+): Promise<CounterIngestResult> {
+  if (!counter.api_key) {
+    throw new Error('Set an API key on this counter before uploading readings');
+  }
+
+  const { data, error } = await supabase.functions.invoke('door-counter-ingest', {
+    body: fileContents,
+    headers: {
+      Authorization: `Bearer ${counter.api_key}`,
+      'Content-Type': contentType,
+    },
+  });
+
+  if (error) {
+    // Surface the Edge Function's message (e.g. the bad line in a CSV)
+    const body = await (error as any).context?.json?.().catch(() => null);
+    throw new Error(body?.error || error.message || 'Failed to upload readings');
+  }
+
+  return data as CounterIngestResult;
+}
+
 /**
  * Get physical counts for a counter within a time range
  */
@@ -340,18 +408,15 @@ export async function getCounterHealthStatus(counterId: string): Promise<Counter
 }
 
 /**
- * Calibrate/reset a counter (sets entry/exit counts to 0)
+ * Calibrate/reset a counter. Cumulative counters take their next reading
+ * as the new baseline.
  */
 export async function calibrateCounter(counterId: string): Promise<void> {
-  // Insert a reset count (0, 0) to effectively reset the counter
-  const { error } = await supabase
-    .from('physical_counts')
-    .insert({
-      counter_id: counterId,
-      entry_count: 0,
-      exit_count: 0,
-      count_time: new Date().toISOString(),
-    });
+  // Type assertion needed since calibrate_door_counter
+  // is not in the generated types yet
+  const { error } = await (supabase as any).rpc('calibrate_door_counter', {
+    p_counter_id: counterId,
+  });
 
   if (error) throw error;
 }
@@ -0,0 +1,253 @@
+/**
+ * Door Counter Simulation
+ *
+ * Generates a realistic night of beam-counter readings so door-counter-ingest,
+ * DoorCounterManagement and discrepancy alerts can be tested without
+ * hardware. Arrivals build to a peak before midnight, people step out and
+ * back in through the night, and the room empties at close.
+ *
+ * Readings come out the way a device would report them (per-reading counts
+ * or running totals, with optional resets and rollovers), and
+ * planDeliveries() replays them the way a flaky network would (batched,
+ * duplicated and late). Used by scripts/door-counter-simulator.ts.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SimulatedCountMode = 'delta' | 'cumulative';
+
+export interface SimulatedReading {
+  reading_id: string;
+  count_time: string; // ISO timestamp
+  entry_count: number;
+  exit_count: number;
+}
+
+export interface DoorCounterSimulationOptions {
+  start: Date;
+  durationMinutes?: number; // Doors open to close (default 360)
+  intervalMinutes?: number; // Minutes between readings (default 1)
+  expectedGuests?: number; // Arrivals over the night (default 600)
+  reentryRate?: number; // Share of guests who step out and back in (default 0.25)
+  mode?: SimulatedCountMode;
+  startTotals?: { entries: number; exits: number }; // Cumulative totals before doors open
+  rolloverAt?: number; // Highest cumulative total before it wraps to 0
+  resetAtMinute?: number; // Device power-cycles and counts from 0 again
+  untilMinutes?: number; // Stop partway through the night (default: until close)
+  seed?: number;
+}
+
+export interface SimulatedNight {
+  readings: SimulatedReading[];
+  entries: number; // People through the door, however the device reported them
+  exits: number;
+  occupancy: number; // Inside after the last reading
+  peakOccupancy: number;
+  peakAt: string;
+}
+
+export interface DeliveryOptions {
+  batchSize?: number; // Readings per request (default 1)
+  duplicateRate?: number; // Share of readings sent twice (default 0)
+  lateRate?: number; // Share of readings held back a few batches (default 0)
+  seed?: number;
+}
+
+// ============================================================================
+// Randomness
+// ============================================================================
+
+/** Deterministic PRNG (mulberry32) so a seed replays the same night */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function poisson(mean: number, random: () => number): number {
+  if (mean <= 0) return 0;
+  // Knuth is fine for the per-minute rates of a single door
+  const limit = Math.exp(-mean);
+  let count = 0;
+  let product = random();
+  while (product > limit) {
+    count++;
+    product *= random();
+  }
+  return count;
+}
+
+function bell(x: number, center: number, width: number): number {
+  return Math.exp(-((x - center) ** 2) / (2 * width ** 2));
+}
+
+/** Share of the night's arrivals expected at a point in the night (0..1) */
+export function arrivalWeight(progress: number): number {
+  return bell(progress, 0.35, 0.15) + 0.15 * bell(progress, 0.05, 0.05);
+}
+
+/** Share of the night's departures expected at a point in the night (0..1) */
+export function departureWeight(progress: number): number {
+  return bell(progress, 0.88, 0.1) + 0.1 * bell(progress, 0.55, 0.2);
+}
+
+// ============================================================================
+// Simulation
+// ============================================================================
+
+export function simulateNight(options: DoorCounterSimulationOptions): SimulatedNight {
+  const durationMinutes = options.durationMinutes ?? 360;
+  const intervalMinutes = options.intervalMinutes ?? 1;
+  const expectedGuests = options.expectedGuests ?? 600;
+  const reentryRate = options.reentryRate ?? 0.25;
+  const mode = options.mode ?? 'delta';
+  const random = createRandom(options.seed ?? 1);
+
+  const steps = Math.max(1, Math.round(durationMinutes / intervalMinutes));
+  const progressAt = (step: number) => (step + 0.5) / steps;
+
+  let arrivalTotal = 0;
+  let departureTotal = 0;
+  for (let step = 0; step < steps; step++) {
+    arrivalTotal += arrivalWeight(progressAt(step));
+    departureTotal += departureWeight(progressAt(step));
+  }
+
+  let occupancy = 0;
+  let entries = 0;
+  let exits = 0;
+  let peakOccupancy = 0;
+  let peakAt = options.start.toISOString();
+  let deviceEntries = options.startTotals?.entries ?? 0;
+  let deviceExits = options.startTotals?.exits ?? 0;
+  const wrap = (total: number) =>
+    options.rolloverAt ? total % (options.rolloverAt + 1) : total;
+
+  const lastStep = options.untilMinutes !== undefined
+    ? Math.min(steps, Math.ceil(options.untilMinutes / intervalMinutes))
+    : steps;
+
+  const readings: SimulatedReading[] = [];
+  for (let step = 0; step < lastStep; step++) {
+    const progress = progressAt(step);
+    const time = new Date(options.start.getTime() + (step + 1) * intervalMinutes * 60000);
+    const isLast = step === steps - 1;
+
+    // Smokers and phone calls: out and straight back in
+    const stepOuts = Math.min(
+      occupancy,
+      poisson((expectedGuests * reentryRate * intervalMinutes) / durationMinutes * (occupancy > 0 ? 1 : 0), random)
+    );
+    const arrivals = poisson((expectedGuests * arrivalWeight(progress)) / arrivalTotal, random);
+    const inside = occupancy + arrivals;
+    const departures = isLast
+      ? inside // Lights on: everyone leaves
+      : Math.min(inside, poisson((expectedGuests * departureWeight(progress)) / departureTotal, random));
+
+    const stepEntries = arrivals + stepOuts;
+    const stepExits = departures + stepOuts;
+    occupancy = inside - departures;
+    entries += stepEntries;
+    exits += stepExits;
+
+    if (occupancy > peakOccupancy) {
+      peakOccupancy = occupancy;
+      peakAt = time.toISOString();
+    }
+
+    if (options.resetAtMinute !== undefined
+      && options.resetAtMinute > step * intervalMinutes
+      && options.resetAtMinute <= (step + 1) * intervalMinutes) {
+      deviceEntries = 0;
+      deviceExits = 0;
+    }
+    deviceEntries += stepEntries;
+    deviceExits += stepExits;
+
+    readings.push({
+      reading_id: String(step + 1),
+      count_time: time.toISOString(),
+      entry_count: mode === 'cumulative' ? wrap(deviceEntries) : stepEntries,
+      exit_count: mode === 'cumulative' ? wrap(deviceExits) : stepExits,
+    });
+  }
+
+  return { readings, entries, exits, occupancy, peakOccupancy, peakAt };
+}
+
+/**
+ * Groups readings into requests the way an unreliable uplink delivers them:
+ * some readings are sent twice, some arrive a few batches late.
+ */
+export function planDeliveries(
+  readings: SimulatedReading[],
+  options: DeliveryOptions = {}
+): SimulatedReading[][] {
+  const batchSize = Math.max(1, options.batchSize ?? 1);
+  const duplicateRate = options.duplicateRate ?? 0;
+  const lateRate = options.lateRate ?? 0;
+  const random = createRandom(options.seed ?? 2);
+
+  const batches: SimulatedReading[][] = [];
+  const held: Array<{ reading: SimulatedReading; releaseAt: number }> = [];
+  let current: SimulatedReading[] = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+    batches.push(current);
+    current = [];
+    for (let i = held.length - 1; i >= 0; i--) {
+      if (held[i].releaseAt <= batches.length) {
+        current.push(held[i].reading);
+        held.splice(i, 1);
+      }
+    }
+  };
+
+  for (const reading of readings) {
+    if (random() < lateRate) {
+      held.push({ reading, releaseAt: batches.length + 2 + Math.floor(random() * 3) });
+    } else {
+      current.push(reading);
+    }
+    if (random() < duplicateRate) {
+      current.push(reading);
+    }
+    if (current.length >= batchSize) flush();
+  }
+
+  current.push(...held.map((entry) => entry.reading));
+  flush();
+  while (current.length > 0) flush();
+  return batches;
+}
+
+// ============================================================================
+// Wire formats (see supabase/functions/_shared/door-counter-adapters.ts)
+// ============================================================================
+
+export function toCsv(readings: SimulatedReading[]): string {
+  const rows = readings.map((reading) =>
+    [reading.count_time, reading.entry_count, reading.exit_count, reading.reading_id].join(',')
+  );
+  return ['count_time,entry_count,exit_count,reading_id', ...rows].join('\n') + '\n';
+}
+
+export function toJsonBatch(readings: SimulatedReading[]): string {
+  return JSON.stringify({ readings });
+}
+
+/** What an MQTT broker's HTTP bridge forwards for a device's message */
+export function toMqttBridgeMessage(deviceId: string, readings: SimulatedReading[]): string {
+  return JSON.stringify({
+    topic: `maguey/door-counters/${deviceId}/counts`,
+    payload: JSON.stringify({ readings }),
+  });
+}
@@ -0,0 +1,103 @@
+/**
+ * Door Sale Service
+ * Walk-in ticket sales at the gate
+ *
+ * Prices come from the ticket type's door tier (see the pass-lounge pricing
+ * page) while it has tickets left, otherwise the current online price. The
+ * sell_door_tickets RPC creates the order and issues the tickets already
+ * scanned, since the guest is standing at the door.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { DoorPaymentMethod } from '@/lib/ticket-upgrade-service';
+
+export interface DoorSaleOption {
+  ticket_type_id: string;
+  name: string;
+  price: number;
+  /** Door tier (or active online tier) the sale is charged at; null = base price */
+  tier_name: string | null;
+  /** Tickets left for the ticket type; null = unlimited */
+  remaining: number | null;
+}
+
+export interface CompletedDoorSale {
+  order_id: string;
+  ticket_type_name: string;
+  tier_name: string | null;
+  unit_price: number;
+  total: number;
+  quantity: number;
+  payment_method: DoorPaymentMethod;
+  ticket_ids: string[];
+}
+
+/**
+ * Ticket types for an event with their door price, cheapest first.
+ * Sold-out types are left out.
+ */
+export async function getDoorSaleOptions(eventId: string): Promise<DoorSaleOption[]> {
+  const { data: ticketTypes, error } = await supabase
+    .from('ticket_types')
+    .select('id, name, total_inventory, tickets_sold')
+    .eq('event_id', eventId);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const options = await Promise.all(
+    (ticketTypes || []).map(async (ticketType: any): Promise<DoorSaleOption | null> => {
+      const remaining = ticketType.total_inventory === null
+        ? null
+        : Math.max(0, ticketType.total_inventory - (ticketType.tickets_sold || 0));
+      if (remaining === 0) return null;
+
+      const { data: priceRows, error: priceError } = await (supabase as any).rpc('get_door_price', {
+        p_ticket_type_id: ticketType.id,
+      });
+      if (priceError) {
+        throw new Error(priceError.message);
+      }
+
+      const price = (priceRows as any[] | null)?.[0];
+      return {
+        ticket_type_id: ticketType.id,
+        name: ticketType.name,
+        price: Number(price?.price ?? 0),
+        tier_name: price?.tier_name ?? null,
+        remaining,
+      };
+    })
+  );
+
+  return options
+    .filter((option): option is DoorSaleOption => option !== null)
+    .sort((a, b) => a.price - b.price);
+}
+
+/**
+ * Sell walk-in tickets. Cash and card terminal payments are taken by staff
+ * before confirming; comps are recorded at no charge.
+ */
+export async function sellDoorTickets(
+  ticketTypeId: string,
+  quantity: number,
+  paymentMethod: DoorPaymentMethod,
+  attendee: { name?: string; email?: string } = {}
+): Promise<CompletedDoorSale> {
+  const { data, error } = await (supabase as any).rpc('sell_door_tickets', {
+    p_ticket_type_id: ticketTypeId,
+    p_quantity: quantity,
+    p_payment_method: paymentMethod,
+    p_attendee_name: attendee.name || null,
+    p_attendee_email: attendee.email || null,
+  });
+
+  if (error) {
+    throw new Error(error.message || 'Door sale failed');
+  }
+
+  const sale = data as CompletedDoorSale;
+  return { ...sale, unit_price: Number(sale.unit_price), total: Number(sale.total) };
+}
@@ -0,0 +1,82 @@
+/**
+ * Event Reschedule Service
+ * Moves an event to a new date and reports how many holders kept their
+ * tickets or took a refund
+ *
+ * - event_reschedules (one row per date change)
+ * - event_reschedule_responses (one per paid order / VIP reservation)
+ *
+ * Rescheduling goes through the reschedule-event Edge Function so holders
+ * are emailed their keep-or-refund link; refunds are issued from that link
+ * by respond-to-reschedule.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { RescheduleInput, RescheduleResponseRow } from './event-reschedule';
+
+export interface EventReschedule {
+  id: string;
+  event_id: string;
+  previous_date: string;
+  previous_time: string | null;
+  new_date: string;
+  new_time: string | null;
+  refund_deadline: string;
+  reason: string | null;
+  created_at: string;
+  responses: RescheduleResponseRow[];
+}
+
+export interface RescheduleResult {
+  rescheduleId: string;
+  holders: number;
+  emailsQueued: number;
+  remindersReset: number;
+  splitTablesSkipped: number;
+}
+
+/**
+ * Move the event and email every paid holder. Throws with the Edge
+ * Function's message when the reschedule is refused.
+ */
+export async function rescheduleEvent(
+  eventId: string,
+  input: RescheduleInput & { reason?: string }
+): Promise<RescheduleResult> {
+  const { data, error } = await supabase.functions.invoke('reschedule-event', {
+    body: {
+      eventId,
+      newDate: input.newDate,
+      newTime: input.newTime,
+      refundDeadline: new Date(input.refundDeadline).toISOString(),
+      reason: input.reason,
+    },
+  });
+
+  if (error) {
+    const body = await (error as any).context?.json?.().catch(() => null);
+    throw new Error(body?.error || error.message || 'Failed to reschedule event');
+  }
+
+  return data as RescheduleResult;
+}
+
+/** Every reschedule of an event with its holders' responses, newest first */
+export async function getEventReschedules(eventId: string): Promise<EventReschedule[]> {
+  // Type assertion needed since event_reschedules
+  // is not in the generated types yet
+  const { data, error } = await (supabase as any)
+    .from('event_reschedules')
+    .select(`
+      id, event_id, previous_date, previous_time, new_date, new_time, refund_deadline, reason, created_at,
+      responses:event_reschedule_responses (
+        id, order_id, vip_reservation_id, holder_email, holder_name, amount_cents,
+        choice, refund_status, responded_at, refunded_at
+      )
+    `)
+    .eq('event_id', eventId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as EventReschedule[];
+}
@@ -0,0 +1,142 @@
+/**
+ * Event Reschedule
+ *
+ * Rules for the Reschedule dialog in Event Management. The reschedule-event
+ * Edge Function moves the event and emails every paid holder a link to keep
+ * their tickets or ask for a refund before the refund deadline; the database
+ * enforces the same checks (see maguey-pass-lounge's
+ * 20260420000000_event_reschedules.sql).
+ */
+
+export type RescheduleResponseChoice = 'pending' | 'keep' | 'refund' | 'superseded';
+
+export type RescheduleRefundStatus = 'processing' | 'refunded' | 'failed';
+
+/** An event_reschedule_responses row */
+export interface RescheduleResponseRow {
+  id: string;
+  order_id: string | null;
+  vip_reservation_id: string | null;
+  holder_email: string;
+  holder_name: string | null;
+  amount_cents: number;
+  choice: RescheduleResponseChoice;
+  refund_status: RescheduleRefundStatus | null;
+  responded_at: string | null;
+  refunded_at: string | null;
+}
+
+export interface RescheduleSummary {
+  holders: number;
+  /** Chose to keep, or let the deadline pass */
+  kept: number;
+  refunded: number;
+  /** Still deciding; always 0 once the deadline has passed */
+  awaiting: number;
+  /** Asked for a refund that hasn't gone through yet, or failed */
+  refundPending: number;
+  refundFailed: number;
+  refundedCents: number;
+  keptCents: number;
+}
+
+export interface RescheduleInput {
+  newDate: string;
+  newTime: string;
+  refundDeadline: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Local Date for a YYYY-MM-DD date and HH:MM[:SS] time */
+export function eventStart(date: string, time: string | null): Date {
+  return new Date(`${date}T${(time || '00:00').slice(0, 5)}:00`);
+}
+
+/**
+ * Error message for a reschedule reschedule-event would reject, or null
+ * when it is fine
+ */
+export function validateReschedule(
+  input: RescheduleInput,
+  current: { event_date: string; event_time: string | null },
+  now: Date = new Date()
+): string | null {
+  if (!input.newDate || !input.newTime) {
+    return 'Pick the new date and time';
+  }
+  if (!input.refundDeadline) {
+    return 'Pick a refund deadline';
+  }
+
+  const oldStart = eventStart(current.event_date, current.event_time);
+  const newStart = eventStart(input.newDate, input.newTime);
+  const deadline = new Date(input.refundDeadline);
+
+  if (oldStart <= now) {
+    return 'This event has already started';
+  }
+  if (newStart <= now) {
+    return 'The new date must be in the future';
+  }
+  if (newStart.getTime() === oldStart.getTime()) {
+    return 'The new date is the same as the current date';
+  }
+  if (isNaN(deadline.getTime()) || deadline <= now || deadline > newStart) {
+    return 'The refund deadline must be between now and the new start time';
+  }
+  return null;
+}
+
+/**
+ * A week to decide, but no later than a day before the new start (or the
+ * new start itself when that is sooner than a day away)
+ */
+export function defaultRefundDeadline(newStart: Date, now: Date = new Date()): Date {
+  const weekFromNow = now.getTime() + 7 * DAY_MS;
+  const dayBefore = newStart.getTime() - DAY_MS;
+  const latest = dayBefore > now.getTime() ? dayBefore : newStart.getTime();
+  return new Date(Math.min(weekFromNow, latest));
+}
+
+/**
+ * Kept vs refunded for one reschedule. Holders who haven't answered count
+ * as kept once the deadline passes.
+ */
+export function summarizeRescheduleResponses(
+  responses: Pick<RescheduleResponseRow, 'choice' | 'refund_status' | 'amount_cents'>[],
+  refundDeadline: string,
+  now: Date = new Date()
+): RescheduleSummary {
+  const deadlinePassed = new Date(refundDeadline) <= now;
+  const summary: RescheduleSummary = {
+    holders: 0,
+    kept: 0,
+    refunded: 0,
+    awaiting: 0,
+    refundPending: 0,
+    refundFailed: 0,
+    refundedCents: 0,
+    keptCents: 0,
+  };
+
+  for (const response of responses) {
+    if (response.choice === 'superseded') continue;
+    summary.holders++;
+
+    if (response.refund_status === 'refunded') {
+      summary.refunded++;
+      summary.refundedCents += response.amount_cents;
+    } else if (response.choice === 'refund') {
+      summary.refundPending++;
+      if (response.refund_status === 'failed') summary.refundFailed++;
+    } else if (response.choice === 'keep' || deadlinePassed) {
+      summary.kept++;
+      summary.keptCents += response.amount_cents;
+    } else {
+      summary.awaiting++;
+    }
+  }
+
+  return summary;
+}
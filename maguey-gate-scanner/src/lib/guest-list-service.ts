@@ -6,6 +6,7 @@
 
 import { supabase } from './supabase';
 import { Result, ok, err } from './result';
+import { BannedGuestError, findBannedGuest, recordBanMatch } from './banned-guest-service';
 
 export interface GuestSearchResult {
   id: string;
@@ -61,14 +62,37 @@ export async function searchGuests(
 }
 
 /**
- * Check in a guest
+ * Check in a guest. Fails with a BannedGuestError when the guest matches
+ * the banned list, unless staff already cleared that possible match.
  */
 export async function checkInGuest(
   entryId: string,
   scannerId: string,
-  actualPlusOnes?: number
+  actualPlusOnes?: number,
+  options: { clearedBanIds?: string[] } = {}
 ): Promise<Result<GuestSearchResult, Error>> {
   try {
+    // Guests on the banned list are refused before they're checked in
+    const { data: guest } = await supabase
+      .from('guest_list_entries')
+      .select('guest_name, guest_email, guest_phone')
+      .eq('id', entryId)
+      .maybeSingle();
+
+    if (guest) {
+      const banMatch = await findBannedGuest(
+        { name: guest.guest_name, email: guest.guest_email, phone: guest.guest_phone },
+        { clearedBanIds: options.clearedBanIds }
+      );
+      if (banMatch) {
+        recordBanMatch(banMatch, 'guest_list', 'rejected', {
+          guestListEntryId: entryId,
+          staffUserId: scannerId,
+        });
+        return err(new BannedGuestError(banMatch));
+      }
+    }
+
     const { data: entry, error } = await supabase.rpc('check_in_guest', {
       p_entry_id: entryId,
       p_checked_in_by: scannerId,
@@ -0,0 +1,202 @@
+/**
+ * Internationalization (English / Spanish)
+ *
+ * Shared by maguey-pass-lounge, maguey-nights and maguey-gate-scanner —
+ * keep the copies in each app's src/lib identical.
+ *
+ * Usage:
+ *   const { t, locale } = useLocale();
+ *   t('checkout.orderSummary');
+ *   t('event.onlyLeft', { count: 3 });
+ *   formatCurrency(45, locale); // "$45.00" (USD in both languages)
+ *
+ * Locale is detected once from ?lang=, localStorage, then the browser
+ * languages, and persisted when the guest picks one in the switcher.
+ */
+
+import { translations, type TranslationCatalog } from './translations';
+
+// ============================================
+// LOCALES
+// ============================================
+
+export type Locale = 'en' | 'es';
+
+export const SUPPORTED_LOCALES: Locale[] = ['en', 'es'];
+export const DEFAULT_LOCALE: Locale = 'en';
+export const LOCALE_STORAGE_KEY = 'maguey-locale';
+
+export const LOCALE_LABELS: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+};
+
+/** BCP 47 tags used with Intl — prices are always USD */
+const INTL_LOCALES: Record<Locale, string> = {
+  en: 'en-US',
+  es: 'es-US',
+};
+
+/**
+ * Map any language tag ("es-MX", "ES", "en_GB") to a supported locale
+ */
+export function resolveLocale(value: string | null | undefined): Locale | null {
+  if (!value) return null;
+  const language = value.toLowerCase().split(/[-_]/)[0];
+  return SUPPORTED_LOCALES.includes(language as Locale) ? (language as Locale) : null;
+}
+
+/**
+ * Pick the initial locale: ?lang= query, saved choice, browser, default
+ */
+export function detectLocale(): Locale {
+  if (typeof window === 'undefined') return DEFAULT_LOCALE;
+
+  const fromQuery = resolveLocale(new URLSearchParams(window.location.search).get('lang'));
+  if (fromQuery) return fromQuery;
+
+  try {
+    const saved = resolveLocale(window.localStorage.getItem(LOCALE_STORAGE_KEY));
+    if (saved) return saved;
+  } catch {
+    // Storage unavailable (private mode) — fall through to the browser
+  }
+
+  const languages = window.navigator?.languages?.length
+    ? window.navigator.languages
+    : [window.navigator?.language];
+  for (const language of languages) {
+    const locale = resolveLocale(language);
+    if (locale) return locale;
+  }
+
+  return DEFAULT_LOCALE;
+}
+
+// ============================================
+// CURRENT LOCALE STORE
+// ============================================
+
+let currentLocale: Locale | null = null;
+const listeners = new Set<() => void>();
+
+export function getLocale(): Locale {
+  if (!currentLocale) {
+    currentLocale = detectLocale();
+  }
+  return currentLocale;
+}
+
+/**
+ * Change the locale, remember it and re-render subscribers
+ */
+export function setLocale(locale: Locale): void {
+  currentLocale = locale;
+
+  if (typeof window !== 'undefined') {
+    try {
+      window.localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+    } catch {
+      // Ignore — the choice still applies for this page view
+    }
+    document.documentElement.lang = locale;
+  }
+
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeToLocale(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// ============================================
+// TRANSLATION
+// ============================================
+
+export type TranslationParams = Record<string, string | number>;
+
+function lookup(catalog: TranslationCatalog, key: string): string | undefined {
+  let value: unknown = catalog;
+  for (const part of key.split('.')) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Translate a dotted key, falling back to English and then to the key itself.
+ * "{name}" placeholders are replaced from params.
+ */
+export function translate(locale: Locale, key: string, params?: TranslationParams): string {
+  const template = lookup(translations[locale], key) ?? lookup(translations[DEFAULT_LOCALE], key) ?? key;
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+}
+
+/**
+ * Translate using the current locale (for code outside React components)
+ */
+export function t(key: string, params?: TranslationParams): string {
+  return translate(getLocale(), key, params);
+}
+
+// ============================================
+// FORMATTING
+// ============================================
+
+export function getIntlLocale(locale: Locale = getLocale()): string {
+  return INTL_LOCALES[locale];
+}
+
+/** Pass to formatCurrency for "$600" instead of "$600.00" */
+export const WHOLE_DOLLARS: Intl.NumberFormatOptions = {
+  minimumFractionDigits: 0,
+  maximumFractionDigits: 0,
+};
+
+export function formatCurrency(
+  amount: number,
+  locale: Locale = getLocale(),
+  options: Intl.NumberFormatOptions = {}
+): string {
+  return new Intl.NumberFormat(getIntlLocale(locale), {
+    style: 'currency',
+    currency: 'USD',
+    ...options,
+  }).format(amount);
+}
+
+/**
+ * Format a date. Date-only strings ("2026-05-01") are read as local dates
+ * so they don't shift a day back in US timezones.
+ */
+export function formatDate(
+  value: string | Date,
+  options: Intl.DateTimeFormatOptions = { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' },
+  locale: Locale = getLocale()
+): string {
+  const date = typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? new Date(`${value}T00:00:00`)
+    : new Date(value);
+  if (isNaN(date.getTime())) return typeof value === 'string' ? value : '';
+  return new Intl.DateTimeFormat(getIntlLocale(locale), options).format(date);
+}
+
+/**
+ * Format a "HH:MM" time of day ("21:30" -> "9:30 PM" / "9:30 p. m.")
+ */
+export function formatTime(time: string, locale: Locale = getLocale()): string {
+  if (!time) return '';
+  const [hourStr, minuteStr] = time.split(':');
+  if (!hourStr || !minuteStr) return time;
+  const date = new Date();
+  date.setHours(Number(hourStr), Number(minuteStr), 0, 0);
+  if (isNaN(date.getTime())) return time;
+  return date.toLocaleTimeString(getIntlLocale(locale), { hour: 'numeric', minute: '2-digit' });
+}
@@ -4,9 +4,20 @@
  */
 
 import { supabase } from '@/integrations/supabase/client';
+import { checkNameMatch } from './transfer-service';
+import {
+  checkLicense,
+  hashLicenseBarcode,
+  parseAamvaBarcode,
+  type AamvaLicense,
+  type LicenseCheck,
+  type NameMatch,
+} from './aamva-license';
 
 export type VerificationType = '18+' | '21+' | 'custom' | 'none';
 
+export type VerificationMethod = 'manual' | 'barcode';
+
 export interface IDVerification {
   id: string;
   ticket_id: string;
@@ -18,9 +29,32 @@ export interface IDVerification {
   notes: string | null;
   is_verified: boolean;
   skipped: boolean;
+  method: VerificationMethod;
+  barcode_hash: string | null;
+  issuing_state: string | null;
+  age_at_scan: number | null;
+  id_expired: boolean | null;
+  name_match: NameMatch | null;
   created_at: string;
 }
 
+/** What a license barcode scan found; never the barcode or the name */
+export interface BarcodeScanResult {
+  barcodeHash: string;
+  issuingState: string;
+  age: number;
+  expired: boolean;
+  nameMatch: NameMatch;
+}
+
+export interface LicenseScan {
+  license: AamvaLicense;
+  check: LicenseCheck;
+  /** The ticket holder the ID was compared with */
+  holderName: string | null;
+  result: BarcodeScanResult;
+}
+
 export interface IDVerificationInput {
   ticketId: string;
   verificationType: VerificationType;
@@ -30,6 +64,7 @@ export interface IDVerificationInput {
   notes?: string;
   isVerified?: boolean;
   skipped?: boolean;
+  scan?: BarcodeScanResult;
 }
 
 /**
@@ -96,6 +131,40 @@ export function checkIDRequirementByName(ticketTypeName: string | null | undefin
          name.includes('drink');
 }
 
+/**
+ * Check a scanned license barcode against the event's age restriction and
+ * the ticket holder's name. Everything runs on the device.
+ * @param rawBarcode - Text decoded from the PDF417 barcode
+ * @param ticket - Ticket object, for the current holder's name
+ * @param ageRestriction - Event age restriction, e.g. '21+'
+ * @returns Promise<LicenseScan | null> - null when the barcode isn't a license
+ */
+export async function checkLicenseScan(
+  rawBarcode: string,
+  ticket: any,
+  ageRestriction: string | null | undefined
+): Promise<LicenseScan | null> {
+  const license = parseAamvaBarcode(rawBarcode);
+  if (!license) return null;
+
+  const { currentName } = await checkNameMatch(ticket);
+  const holderName = currentName || null;
+  const check = checkLicense(license, { ageRestriction, holderName });
+
+  return {
+    license,
+    check,
+    holderName,
+    result: {
+      barcodeHash: await hashLicenseBarcode(rawBarcode),
+      issuingState: license.issuingState,
+      age: check.age,
+      expired: check.expired,
+      nameMatch: check.nameMatch,
+    },
+  };
+}
+
 /**
  * Create an ID verification record
  * @param input - Verification input data
@@ -114,6 +183,12 @@ export async function createIDVerification(input: IDVerificationInput): Promise<
     notes: input.notes || null,
     is_verified: input.isVerified !== undefined ? input.isVerified : true,
     skipped: input.skipped || false,
+    method: input.scan ? 'barcode' : 'manual',
+    barcode_hash: input.scan?.barcodeHash ?? null,
+    issuing_state: input.scan?.issuingState ?? null,
+    age_at_scan: input.scan?.age ?? null,
+    id_expired: input.scan?.expired ?? null,
+    name_match: input.scan?.nameMatch ?? null,
   };
 
   const { data, error } = await supabase
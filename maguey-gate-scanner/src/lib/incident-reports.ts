@@ -0,0 +1,182 @@
+/**
+ * Incident Reports
+ *
+ * Types and rules for security incident reports (see
+ * 20260423000000_incident_reports.sql): labels, what a report needs before
+ * it can be filed, and how owners move it through review.
+ */
+
+export type IncidentType =
+  | 'fight'
+  | 'ejection'
+  | 'medical'
+  | 'property_damage'
+  | 'theft'
+  | 'harassment'
+  | 'intoxication'
+  | 'other';
+
+export type IncidentSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export type IncidentStatus = 'submitted' | 'under_review' | 'action_required' | 'resolved' | 'closed';
+
+export type IncidentPersonRole = 'aggressor' | 'victim' | 'ejected' | 'patient' | 'witness' | 'other';
+
+export type IncidentActionType =
+  | 'ban_guest'
+  | 'police_follow_up'
+  | 'insurance_claim'
+  | 'staff_follow_up'
+  | 'repair'
+  | 'other';
+
+export const INCIDENT_TYPE_LABELS: Record<IncidentType, string> = {
+  fight: 'Fight',
+  ejection: 'Ejection',
+  medical: 'Medical',
+  property_damage: 'Property damage',
+  theft: 'Theft',
+  harassment: 'Harassment',
+  intoxication: 'Intoxication',
+  other: 'Other',
+};
+
+export const INCIDENT_SEVERITY_LABELS: Record<IncidentSeverity, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  critical: 'Critical',
+};
+
+export const INCIDENT_STATUS_LABELS: Record<IncidentStatus, string> = {
+  submitted: 'Submitted',
+  under_review: 'Under review',
+  action_required: 'Action required',
+  resolved: 'Resolved',
+  closed: 'Closed',
+};
+
+export const INCIDENT_PERSON_ROLE_LABELS: Record<IncidentPersonRole, string> = {
+  aggressor: 'Aggressor',
+  victim: 'Victim',
+  ejected: 'Ejected',
+  patient: 'Patient',
+  witness: 'Witness',
+  other: 'Other',
+};
+
+export const INCIDENT_ACTION_LABELS: Record<IncidentActionType, string> = {
+  ban_guest: 'Ban guest',
+  police_follow_up: 'Police follow-up',
+  insurance_claim: 'Insurance claim',
+  staff_follow_up: 'Staff follow-up',
+  repair: 'Repair',
+  other: 'Other',
+};
+
+/** Where a report can go next; closed reports can be reopened */
+const STATUS_TRANSITIONS: Record<IncidentStatus, IncidentStatus[]> = {
+  submitted: ['under_review', 'closed'],
+  under_review: ['action_required', 'resolved', 'closed'],
+  action_required: ['under_review', 'resolved'],
+  resolved: ['under_review', 'closed'],
+  closed: ['under_review'],
+};
+
+export function nextIncidentStatuses(status: IncidentStatus): IncidentStatus[] {
+  return STATUS_TRANSITIONS[status];
+}
+
+export function canMoveIncident(from: IncidentStatus, to: IncidentStatus): boolean {
+  return STATUS_TRANSITIONS[from].includes(to);
+}
+
+export function isIncidentOpen(status: IncidentStatus): boolean {
+  return status !== 'resolved' && status !== 'closed';
+}
+
+/** A person involved, before the report is filed */
+export interface IncidentPersonDraft {
+  role: IncidentPersonRole;
+  name?: string;
+  description?: string;
+  ticketId?: string | null;
+  guestListEntryId?: string | null;
+}
+
+export interface IncidentWitnessDraft {
+  staffUserId: string;
+  statement?: string;
+}
+
+export interface IncidentDraft {
+  eventId: string | null;
+  incidentType: IncidentType | '';
+  severity: IncidentSeverity | '';
+  location: string;
+  /** ISO timestamp */
+  occurredAt: string;
+  description: string;
+  policeCalled: boolean;
+  policeReportNumber?: string;
+  ambulanceCalled: boolean;
+  people: IncidentPersonDraft[];
+  witnesses: IncidentWitnessDraft[];
+}
+
+function isPersonIdentified(person: IncidentPersonDraft): boolean {
+  return !!(person.name?.trim() || person.description?.trim() || person.ticketId || person.guestListEntryId);
+}
+
+/**
+ * What's missing before a report can be filed. Empty when it's ready.
+ */
+export function validateIncidentDraft(draft: IncidentDraft, now: Date = new Date()): string[] {
+  const errors: string[] = [];
+
+  if (!draft.incidentType) errors.push('Choose what happened');
+  if (!draft.severity) errors.push('Choose a severity');
+  if (!draft.location.trim()) errors.push('Enter where it happened');
+  if (!draft.description.trim()) errors.push('Describe what happened');
+
+  const occurredAt = new Date(draft.occurredAt);
+  if (Number.isNaN(occurredAt.getTime())) {
+    errors.push('Enter when it happened');
+  } else if (occurredAt.getTime() > now.getTime() + 5 * 60 * 1000) {
+    errors.push('The time it happened is in the future');
+  }
+
+  if (draft.people.some((person) => !isPersonIdentified(person))) {
+    errors.push('Give each person a name, a description or a linked ticket');
+  }
+  if (draft.incidentType === 'ejection' && !draft.people.some((person) => person.role === 'ejected')) {
+    errors.push('Add the guest who was ejected');
+  }
+
+  return errors;
+}
+
+export interface IncidentCountRow {
+  event_id: string;
+  event_name: string;
+  event_date: string;
+  total: number;
+  open_count: number;
+  serious_count: number;
+}
+
+/** Totals across events for the dashboard headline */
+export function summarizeIncidentCounts(rows: IncidentCountRow[]): {
+  total: number;
+  open: number;
+  serious: number;
+} {
+  return rows.reduce(
+    (acc, row) => ({
+      total: acc.total + Number(row.total),
+      open: acc.open + Number(row.open_count),
+      serious: acc.serious + Number(row.serious_count),
+    }),
+    { total: 0, open: 0, serious: 0 }
+  );
+}
@@ -0,0 +1,408 @@
+/**
+ * Incident Service
+ * Security incident reports from door and floor staff, and owner review
+ *
+ * Staff file a report with the people involved, staff witnesses and photos
+ * (fileIncidentReport). Owners review it, add follow-up actions such as
+ * banning a guest, and move it through to resolved or closed.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { compressImage } from './photo-capture-service';
+import { resolveStaffNames } from './staff-name-service';
+import { createBannedGuest, type BannedGuestInput } from './banned-guest-service';
+import { logAuditEvent } from './audit-service';
+import {
+  canMoveIncident,
+  INCIDENT_STATUS_LABELS,
+  type IncidentActionType,
+  type IncidentCountRow,
+  type IncidentDraft,
+  type IncidentPersonRole,
+  type IncidentSeverity,
+  type IncidentStatus,
+  type IncidentType,
+} from './incident-reports';
+
+// Type assertion needed since the incident tables and staff_shifts are not in
+// the generated types yet
+const incidentDb = supabase as any;
+
+export const INCIDENT_PHOTO_BUCKET = 'incident-photos';
+
+const PHOTO_URL_TTL_SECONDS = 60 * 60;
+
+export interface IncidentReport {
+  id: string;
+  event_id: string | null;
+  incident_type: IncidentType;
+  severity: IncidentSeverity;
+  location: string;
+  occurred_at: string;
+  description: string;
+  police_called: boolean;
+  police_report_number: string | null;
+  ambulance_called: boolean;
+  status: IncidentStatus;
+  reported_by: string;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_notes: string | null;
+  created_at: string;
+  updated_at: string;
+  events?: { name: string; event_date: string } | null;
+}
+
+export interface IncidentPerson {
+  id: string;
+  incident_id: string;
+  role: IncidentPersonRole;
+  name: string | null;
+  description: string | null;
+  ticket_id: string | null;
+  guest_list_entry_id: string | null;
+  banned_guest_id: string | null;
+}
+
+export interface IncidentWitness {
+  incident_id: string;
+  staff_user_id: string;
+  statement: string | null;
+  staffName?: string;
+}
+
+export interface IncidentPhoto {
+  id: string;
+  incident_id: string;
+  storage_path: string;
+  caption: string | null;
+  uploaded_by: string;
+  created_at: string;
+  url?: string | null;
+}
+
+export interface IncidentAction {
+  id: string;
+  incident_id: string;
+  action_type: IncidentActionType;
+  description: string;
+  status: 'open' | 'done';
+  banned_guest_id: string | null;
+  created_by: string | null;
+  created_at: string;
+  completed_by: string | null;
+  completed_at: string | null;
+}
+
+export interface IncidentDetail {
+  report: IncidentReport;
+  reporterName: string;
+  people: IncidentPerson[];
+  witnesses: IncidentWitness[];
+  photos: IncidentPhoto[];
+  actions: IncidentAction[];
+}
+
+export interface IncidentPhotoUpload {
+  file: File;
+  caption?: string;
+}
+
+export interface EventStaffMember {
+  userId: string;
+  name: string;
+}
+
+const REPORT_SELECT = '*, events(name, event_date)';
+
+async function uploadIncidentPhoto(incidentId: string, photo: IncidentPhotoUpload): Promise<void> {
+  const compressed = await compressImage(photo.file);
+  const path = `${incidentId}/${crypto.randomUUID()}.jpg`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(INCIDENT_PHOTO_BUCKET)
+    .upload(path, compressed, { contentType: 'image/jpeg', upsert: false });
+  if (uploadError) throw new Error(`Failed to upload photo: ${uploadError.message}`);
+
+  const { error } = await incidentDb.from('incident_photos').insert({
+    incident_id: incidentId,
+    storage_path: path,
+    caption: photo.caption?.trim() || null,
+  });
+  if (error) throw new Error(`Failed to save photo: ${error.message}`);
+}
+
+/**
+ * File a report with its people, witnesses and photos. The report is kept
+ * if a photo fails to upload; the error says how many didn't make it.
+ */
+export async function fileIncidentReport(
+  draft: IncidentDraft,
+  photos: IncidentPhotoUpload[],
+  reporterId: string
+): Promise<IncidentReport> {
+  const { data: report, error } = await incidentDb
+    .from('incident_reports')
+    .insert({
+      event_id: draft.eventId,
+      incident_type: draft.incidentType,
+      severity: draft.severity,
+      location: draft.location.trim(),
+      occurred_at: new Date(draft.occurredAt).toISOString(),
+      description: draft.description.trim(),
+      police_called: draft.policeCalled,
+      police_report_number: draft.policeReportNumber?.trim() || null,
+      ambulance_called: draft.ambulanceCalled,
+      reported_by: reporterId,
+    })
+    .select(REPORT_SELECT)
+    .single();
+
+  if (error) throw new Error(`Failed to file incident report: ${error.message}`);
+
+  if (draft.people.length > 0) {
+    const { error: peopleError } = await incidentDb.from('incident_people').insert(
+      draft.people.map((person) => ({
+        incident_id: report.id,
+        role: person.role,
+        name: person.name?.trim() || null,
+        description: person.description?.trim() || null,
+        ticket_id: person.ticketId || null,
+        guest_list_entry_id: person.guestListEntryId || null,
+      }))
+    );
+    if (peopleError) throw new Error(`Failed to save people involved: ${peopleError.message}`);
+  }
+
+  if (draft.witnesses.length > 0) {
+    const { error: witnessError } = await incidentDb.from('incident_witnesses').insert(
+      draft.witnesses.map((witness) => ({
+        incident_id: report.id,
+        staff_user_id: witness.staffUserId,
+        statement: witness.statement?.trim() || null,
+      }))
+    );
+    if (witnessError) throw new Error(`Failed to save witnesses: ${witnessError.message}`);
+  }
+
+  const uploads = await Promise.allSettled(photos.map((photo) => uploadIncidentPhoto(report.id, photo)));
+
+  await logAuditEvent('incident_reported', 'incident_report', `Filed ${draft.incidentType} incident report`, {
+    userId: reporterId,
+    resourceId: report.id,
+    severity: draft.severity === 'high' || draft.severity === 'critical' ? 'warning' : 'info',
+    metadata: { eventId: draft.eventId, incidentType: draft.incidentType, incidentSeverity: draft.severity },
+  });
+
+  const failedUploads = uploads.filter((upload) => upload.status === 'rejected').length;
+  if (failedUploads > 0) {
+    throw new Error(
+      `Report filed, but ${failedUploads} of ${photos.length} photos failed to upload. Ask an owner to add them.`
+    );
+  }
+
+  return report as IncidentReport;
+}
+
+/** Reports filed by this staff member, newest first */
+export async function getMyIncidentReports(userId: string, limit: number = 20): Promise<IncidentReport[]> {
+  const { data, error } = await incidentDb
+    .from('incident_reports')
+    .select(REPORT_SELECT)
+    .eq('reported_by', userId)
+    .order('occurred_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw new Error(`Failed to load your reports: ${error.message}`);
+  return (data || []) as IncidentReport[];
+}
+
+export async function getIncidentReports(
+  filters: { eventId?: string; status?: IncidentStatus | 'open' } = {}
+): Promise<IncidentReport[]> {
+  let query = incidentDb
+    .from('incident_reports')
+    .select(REPORT_SELECT)
+    .order('occurred_at', { ascending: false });
+
+  if (filters.eventId) query = query.eq('event_id', filters.eventId);
+  if (filters.status === 'open') {
+    query = query.not('status', 'in', '(resolved,closed)');
+  } else if (filters.status) {
+    query = query.eq('status', filters.status);
+  }
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to load incident reports: ${error.message}`);
+  return (data || []) as IncidentReport[];
+}
+
+/** A report with everything attached, photo URLs signed and staff names resolved */
+export async function getIncidentDetail(incidentId: string): Promise<IncidentDetail> {
+  const [reportResult, peopleResult, witnessResult, photoResult, actionResult] = await Promise.all([
+    incidentDb.from('incident_reports').select(REPORT_SELECT).eq('id', incidentId).single(),
+    incidentDb.from('incident_people').select('*').eq('incident_id', incidentId).order('created_at'),
+    incidentDb.from('incident_witnesses').select('*').eq('incident_id', incidentId).order('created_at'),
+    incidentDb.from('incident_photos').select('*').eq('incident_id', incidentId).order('created_at'),
+    incidentDb.from('incident_actions').select('*').eq('incident_id', incidentId).order('created_at'),
+  ]);
+
+  if (reportResult.error) throw new Error(`Failed to load incident report: ${reportResult.error.message}`);
+
+  const report = reportResult.data as IncidentReport;
+  const witnesses = (witnessResult.data || []) as IncidentWitness[];
+  const names = await resolveStaffNames([report.reported_by, ...witnesses.map((w) => w.staff_user_id)]);
+
+  const photos = (photoResult.data || []) as IncidentPhoto[];
+  if (photos.length > 0) {
+    const { data: signed } = await supabase.storage
+      .from(INCIDENT_PHOTO_BUCKET)
+      .createSignedUrls(photos.map((photo) => photo.storage_path), PHOTO_URL_TTL_SECONDS);
+    const urls = new Map((signed || []).map((entry) => [entry.path, entry.signedUrl]));
+    photos.forEach((photo) => {
+      photo.url = urls.get(photo.storage_path) ?? null;
+    });
+  }
+
+  return {
+    report,
+    reporterName: names.get(report.reported_by) || 'Unknown Staff',
+    people: (peopleResult.data || []) as IncidentPerson[],
+    witnesses: witnesses.map((witness) => ({
+      ...witness,
+      staffName: names.get(witness.staff_user_id),
+    })),
+    photos,
+    // Actions are only visible to owners and promoters
+    actions: (actionResult.data || []) as IncidentAction[],
+  };
+}
+
+/** Move a report along the review workflow */
+export async function updateIncidentStatus(
+  report: Pick<IncidentReport, 'id' | 'status'>,
+  status: IncidentStatus,
+  reviewerId: string,
+  reviewNotes?: string
+): Promise<IncidentReport> {
+  if (!canMoveIncident(report.status, status)) {
+    throw new Error(
+      `A report that is ${INCIDENT_STATUS_LABELS[report.status].toLowerCase()} can't be moved to ${INCIDENT_STATUS_LABELS[status].toLowerCase()}`
+    );
+  }
+
+  const update: Record<string, unknown> = {
+    status,
+    reviewed_by: reviewerId,
+    reviewed_at: new Date().toISOString(),
+  };
+  if (reviewNotes !== undefined) update.review_notes = reviewNotes.trim() || null;
+
+  const { data, error } = await incidentDb
+    .from('incident_reports')
+    .update(update)
+    .eq('id', report.id)
+    .select(REPORT_SELECT)
+    .single();
+
+  if (error) throw new Error(`Failed to update incident report: ${error.message}`);
+
+  await logAuditEvent('incident_updated', 'incident_report', `Moved incident report to ${INCIDENT_STATUS_LABELS[status]}`, {
+    userId: reviewerId,
+    resourceId: report.id,
+    metadata: { from: report.status, to: status },
+  });
+
+  return data as IncidentReport;
+}
+
+export async function addIncidentAction(
+  incidentId: string,
+  actionType: IncidentActionType,
+  description: string,
+  createdBy: string,
+  options: { bannedGuestId?: string; done?: boolean } = {}
+): Promise<IncidentAction> {
+  const now = new Date().toISOString();
+  const { data, error } = await incidentDb
+    .from('incident_actions')
+    .insert({
+      incident_id: incidentId,
+      action_type: actionType,
+      description: description.trim(),
+      banned_guest_id: options.bannedGuestId ?? null,
+      created_by: createdBy,
+      status: options.done ? 'done' : 'open',
+      completed_by: options.done ? createdBy : null,
+      completed_at: options.done ? now : null,
+    })
+    .select()
+    .single();
+
+  if (error) throw new Error(`Failed to add follow-up: ${error.message}`);
+  return data as IncidentAction;
+}
+
+export async function completeIncidentAction(actionId: string, completedBy: string): Promise<void> {
+  const { error } = await incidentDb
+    .from('incident_actions')
+    .update({ status: 'done', completed_by: completedBy, completed_at: new Date().toISOString() })
+    .eq('id', actionId);
+
+  if (error) throw new Error(`Failed to complete follow-up: ${error.message}`);
+}
+
+/**
+ * Ban a person involved in an incident. The ban is linked to the person
+ * and recorded as a completed follow-up.
+ */
+export async function banIncidentPerson(
+  person: IncidentPerson,
+  input: BannedGuestInput,
+  ownerId: string
+): Promise<void> {
+  const ban = await createBannedGuest(input, ownerId);
+
+  const { error } = await incidentDb
+    .from('incident_people')
+    .update({ banned_guest_id: ban.id })
+    .eq('id', person.id);
+  if (error) throw new Error(`Guest banned, but linking the ban failed: ${error.message}`);
+
+  await addIncidentAction(person.incident_id, 'ban_guest', `Banned ${ban.full_name}: ${ban.reason}`, ownerId, {
+    bannedGuestId: ban.id,
+    done: true,
+  });
+
+  await logAuditEvent('settings_changed', 'banned_guest', `Banned ${ban.full_name} after an incident`, {
+    userId: ownerId,
+    resourceId: ban.id,
+    severity: 'warning',
+    metadata: { incidentId: person.incident_id, reason: ban.reason },
+  });
+}
+
+/** Incident totals per event since the given time (default 30 days) */
+export async function getEventIncidentCounts(since?: Date): Promise<IncidentCountRow[]> {
+  const { data, error } = await incidentDb.rpc('get_event_incident_counts', since ? { p_since: since.toISOString() } : {});
+  if (error) throw new Error(`Failed to load incident counts: ${error.message}`);
+  return (data || []) as IncidentCountRow[];
+}
+
+/** Staff with a shift at the event, for picking witnesses */
+export async function getEventStaff(eventId: string): Promise<EventStaffMember[]> {
+  const { data, error } = await incidentDb
+    .from('staff_shifts')
+    .select('user_id')
+    .eq('event_id', eventId);
+
+  if (error) throw new Error(`Failed to load event staff: ${error.message}`);
+
+  const userIds = [...new Set<string>((data || []).map((shift: { user_id: string | null }) => shift.user_id).filter(Boolean))];
+  if (userIds.length === 0) return [];
+
+  const names = await resolveStaffNames(userIds);
+  return userIds
+    .map((userId) => ({ userId, name: names.get(userId) || userId }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,131 @@
+/**
+ * Metrics History Service
+ *
+ * Reads the time-series that metrics-sync.ts builds in metric_samples
+ * (get_metric_history) for the monitoring pages. Each point is one time
+ * bucket summed across every device that flushed metrics in it:
+ * counters give the increase, histograms the mean observation (ms), and
+ * gauges the average reported value.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+
+// ============================================================================
+// TIME RANGES
+// ============================================================================
+
+export type MetricTimeRange = '1h' | '6h' | '24h' | '7d' | '30d';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+export const METRIC_TIME_RANGES: Record<MetricTimeRange, { label: string; durationMs: number; bucketSeconds: number }> = {
+  '1h': { label: 'Last hour', durationMs: HOUR_MS, bucketSeconds: 60 },
+  '6h': { label: 'Last 6 hours', durationMs: 6 * HOUR_MS, bucketSeconds: 5 * 60 },
+  '24h': { label: 'Last 24 hours', durationMs: 24 * HOUR_MS, bucketSeconds: 15 * 60 },
+  '7d': { label: 'Last 7 days', durationMs: 7 * 24 * HOUR_MS, bucketSeconds: 2 * 60 * 60 },
+  '30d': { label: 'Last 30 days', durationMs: 30 * 24 * HOUR_MS, bucketSeconds: 6 * 60 * 60 },
+};
+
+export interface ResolvedTimeRange {
+  from: Date;
+  to: Date;
+  bucketSeconds: number;
+}
+
+/**
+ * The window for a range ending now, starting on a bucket boundary so
+ * refreshes keep the same buckets
+ */
+export function resolveTimeRange(range: MetricTimeRange, now: number = Date.now()): ResolvedTimeRange {
+  const { durationMs, bucketSeconds } = METRIC_TIME_RANGES[range];
+  const bucketMs = bucketSeconds * 1000;
+  const from = Math.floor((now - durationMs) / bucketMs) * bucketMs;
+  return { from: new Date(from), to: new Date(now), bucketSeconds };
+}
+
+// ============================================================================
+// HISTORY
+// ============================================================================
+
+/** Row returned by get_metric_history */
+export interface MetricHistoryRow {
+  bucket_start: string;
+  metric_name: string;
+  metric_type: 'counter' | 'gauge' | 'histogram';
+  total: number;
+  observations: number;
+  devices: number;
+}
+
+/**
+ * One chart point: the bucket start plus a value per requested data key
+ * (null where a histogram or gauge has no data)
+ */
+export type MetricHistoryPoint = { time: number; devices: number } & Record<string, number | null>;
+
+/**
+ * Load bucketed history for a set of metrics (monitoring.ts names)
+ */
+export async function getMetricHistory(
+  metricNames: string[],
+  range: ResolvedTimeRange
+): Promise<MetricHistoryRow[]> {
+  // Type assertion needed since get_metric_history
+  // is not in the generated types yet
+  const { data, error } = await (supabase as any).rpc('get_metric_history', {
+    p_names: metricNames,
+    p_from: range.from.toISOString(),
+    p_to: range.to.toISOString(),
+    p_bucket_seconds: range.bucketSeconds,
+  });
+
+  if (error) {
+    console.error('Error loading metric history:', error);
+    throw error;
+  }
+
+  return (data ?? []) as MetricHistoryRow[];
+}
+
+function pointValue(row: MetricHistoryRow): number | null {
+  if (row.metric_type === 'histogram') {
+    return row.observations > 0 ? row.total / row.observations : null;
+  }
+  return row.total;
+}
+
+/**
+ * Pivot history rows into one point per bucket for recharts. `dataKeys`
+ * maps metric names to chart keys (metric names contain dots, which
+ * recharts reads as nested paths). Buckets with no samples get 0 for
+ * counters and null otherwise, so lines show gaps instead of dips.
+ */
+export function toHistoryPoints(
+  rows: MetricHistoryRow[],
+  range: ResolvedTimeRange,
+  dataKeys: Record<string, string>
+): MetricHistoryPoint[] {
+  const bucketMs = range.bucketSeconds * 1000;
+  const types = new Map(rows.map((row) => [row.metric_name, row.metric_type]));
+  const points = new Map<number, MetricHistoryPoint>();
+
+  for (let time = range.from.getTime(); time < range.to.getTime(); time += bucketMs) {
+    const point = { time, devices: 0 } as MetricHistoryPoint;
+    for (const [metric, key] of Object.entries(dataKeys)) {
+      point[key] = (types.get(metric) ?? 'counter') === 'counter' ? 0 : null;
+    }
+    points.set(time, point);
+  }
+
+  for (const row of rows) {
+    const key = dataKeys[row.metric_name];
+    const point = points.get(new Date(row.bucket_start).getTime());
+    if (!key || !point) continue;
+
+    point[key] = pointValue(row);
+    point.devices = Math.max(point.devices, row.devices);
+  }
+
+  return [...points.values()];
+}
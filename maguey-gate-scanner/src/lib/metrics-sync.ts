@@ -0,0 +1,115 @@
+/**
+ * Metrics Sync
+ *
+ * Periodically flushes what the in-memory metrics registry recorded since
+ * the last flush to the metric_samples table (record_metric_samples), so
+ * the monitoring pages and the health-check /metrics endpoint see every
+ * scanner device instead of one session. A failed flush is retried with
+ * the next one; nothing is lost until the page closes.
+ *
+ * @example
+ * // main.tsx
+ * startMetricsSync();
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { metrics } from './monitoring';
+
+const APP_NAME = 'gate-scanner';
+/** Shared with battery-monitoring-service so a device has one ID everywhere */
+const DEVICE_ID_KEY = 'scanner_device_id';
+const DEFAULT_FLUSH_INTERVAL_MS = 60_000;
+
+/** Samples per request, the limit record_metric_samples accepts */
+const MAX_SAMPLES_PER_FLUSH = 500;
+
+let flushInFlight: Promise<number> | null = null;
+let stopSync: (() => void) | null = null;
+
+/**
+ * This scanner's device ID, so history can count reporting devices
+ */
+export function getMetricsDeviceId(): string {
+  try {
+    let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+    if (!deviceId) {
+      deviceId = `device-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+      localStorage.setItem(DEVICE_ID_KEY, deviceId);
+    }
+    return deviceId;
+  } catch {
+    // Storage blocked (private mode): report as a one-off device
+    return 'ephemeral';
+  }
+}
+
+/**
+ * Send everything recorded since the last flush
+ * @returns Number of samples stored
+ */
+export function flushMetrics(): Promise<number> {
+  // Overlapping flushes would send the same deltas twice
+  if (!flushInFlight) {
+    flushInFlight = sendDeltas().finally(() => {
+      flushInFlight = null;
+    });
+  }
+  return flushInFlight;
+}
+
+async function sendDeltas(): Promise<number> {
+  const samples = metrics.collectDeltas();
+  let recorded = 0;
+
+  for (let i = 0; i < samples.length; i += MAX_SAMPLES_PER_FLUSH) {
+    const batch = samples.slice(i, i + MAX_SAMPLES_PER_FLUSH);
+    // Type assertion needed since record_metric_samples
+    // is not in the generated types yet
+    const { data, error } = await (supabase as any).rpc('record_metric_samples', {
+      p_app: APP_NAME,
+      p_device_id: getMetricsDeviceId(),
+      p_samples: batch,
+    });
+
+    if (error) {
+      console.error('[metrics-sync] Failed to flush metrics:', error);
+      throw error;
+    }
+
+    metrics.markFlushed(batch);
+    recorded += typeof data === 'number' ? data : batch.length;
+  }
+
+  return recorded;
+}
+
+/**
+ * Flush on an interval and when the page is hidden (tab switched, phone
+ * locked, navigating away)
+ * @returns A function that stops syncing
+ */
+export function startMetricsSync(intervalMs: number = DEFAULT_FLUSH_INTERVAL_MS): () => void {
+  if (stopSync) return stopSync;
+  if (typeof window === 'undefined') return () => {};
+
+  const flush = () => {
+    flushMetrics().catch(() => {
+      // Logged in sendDeltas; retried with the next flush
+    });
+  };
+  const onVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') flush();
+  };
+
+  const interval = setInterval(flush, intervalMs);
+  document.addEventListener('visibilitychange', onVisibilityChange);
+  window.addEventListener('pagehide', flush);
+
+  stopSync = () => {
+    clearInterval(interval);
+    document.removeEventListener('visibilitychange', onVisibilityChange);
+    window.removeEventListener('pagehide', flush);
+    stopSync = null;
+  };
+  return stopSync;
+}
@@ -2,7 +2,8 @@
  * Metrics and Monitoring System
  *
  * Simple in-memory metrics collection for the ticketing system.
- * Can be replaced with Prometheus, DataDog, or other providers later.
+ * metrics-sync.ts flushes it to the metric_samples table, where the
+ * monitoring pages and the health-check /metrics endpoint read it.
  *
  * @example
  * import { metrics, trackOrderCreation, trackTicketScan } from './monitoring';
@@ -52,6 +53,23 @@ export interface GaugeData {
   tags: Map<string, number>;
 }
 
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/**
+ * What one labelled series recorded since the last flush: a counter's
+ * increase, a gauge's latest value, or a histogram's new observations
+ */
+export interface MetricSample {
+  name: string;
+  type: MetricType;
+  labels: MetricTags;
+  value: number; // counter delta, gauge value or histogram sum delta
+  count?: number; // histogram observations
+  buckets?: Record<number, number>; // histogram bucket threshold -> new observations
+}
+
+type HistogramTotals = Pick<HistogramData, 'count' | 'sum' | 'buckets'>;
+
 // Histogram bucket boundaries (in ms for timing)
 const DEFAULT_BUCKETS = [10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
 
@@ -63,6 +81,11 @@ class MetricsRegistry {
   private counters: Map<string, CounterData> = new Map();
   private gauges: Map<string, GaugeData> = new Map();
   private histograms: Map<string, HistogramData> = new Map();
+  private histogramSeries: Map<string, Map<string, HistogramData>> = new Map(); // name -> serialized tags -> data
+  private seriesLabels: Map<string, MetricTags> = new Map(); // series key -> tags
+  private flushedCounters: Map<string, number> = new Map(); // series key -> value already flushed
+  private flushedHistograms: Map<string, HistogramTotals> = new Map();
+  private unflushedGauges: Set<string> = new Set();
   private recentMetrics: MetricEntry[] = [];
   private maxRecentMetrics = 1000;
   private logger = createLogger({ module: 'metrics' });
@@ -87,6 +110,7 @@ class MetricsRegistry {
     // Track by tags too
     const currentTagValue = counter.tags.get(tagKey) || 0;
     counter.tags.set(tagKey, currentTagValue + value);
+    this.seriesLabels.set(this.seriesKey(name, tagKey), tags || {});
 
     this.addRecentMetric(name, value, tags);
     this.logger.debug(`Counter incremented: ${name}`, { value, tags });
@@ -124,6 +148,8 @@ class MetricsRegistry {
     const gauge = this.gauges.get(name)!;
     gauge.value = value;
     gauge.tags.set(tagKey, value);
+    this.seriesLabels.set(this.seriesKey(name, tagKey), tags || {});
+    this.unflushedGauges.add(this.seriesKey(name, tagKey));
 
     this.addRecentMetric(name, value, tags);
     this.logger.debug(`Gauge set: ${name}`, { value, tags });
@@ -152,29 +178,23 @@ class MetricsRegistry {
    * Record a timing/duration value
    */
   timing(name: string, durationMs: number, tags?: MetricTags): void {
+    const tagKey = this.serializeTags(tags);
+
     if (!this.histograms.has(name)) {
-      this.histograms.set(name, {
-        count: 0,
-        sum: 0,
-        min: Infinity,
-        max: -Infinity,
-        buckets: DEFAULT_BUCKETS.reduce((acc, b) => ({ ...acc, [b]: 0 }), {}),
-      });
+      this.histograms.set(name, this.createHistogram());
+      this.histogramSeries.set(name, new Map());
     }
 
-    const histogram = this.histograms.get(name)!;
-    histogram.count++;
-    histogram.sum += durationMs;
-    histogram.min = Math.min(histogram.min, durationMs);
-    histogram.max = Math.max(histogram.max, durationMs);
-
-    // Update buckets
-    for (const bucket of DEFAULT_BUCKETS) {
-      if (durationMs <= bucket) {
-        histogram.buckets[bucket]++;
-      }
+    const series = this.histogramSeries.get(name)!;
+    if (!series.has(tagKey)) {
+      series.set(tagKey, this.createHistogram());
+      this.seriesLabels.set(this.seriesKey(name, tagKey), tags || {});
     }
 
+    // Overall and per-tag statistics
+    this.observe(this.histograms.get(name)!, durationMs);
+    this.observe(series.get(tagKey)!, durationMs);
+
     this.addRecentMetric(name, durationMs, tags);
     this.logger.debug(`Timing recorded: ${name}`, { durationMs, tags });
   }
@@ -268,12 +288,17 @@ class MetricsRegistry {
     this.counters.clear();
     this.gauges.clear();
     this.histograms.clear();
+    this.histogramSeries.clear();
+    this.seriesLabels.clear();
+    this.flushedCounters.clear();
+    this.flushedHistograms.clear();
+    this.unflushedGauges.clear();
     this.recentMetrics = [];
     this.logger.info('Metrics reset');
   }
 
   /**
-   * Export metrics in Prometheus format
+   * Export metrics in Prometheus text format, one line per tag set
    */
   toPrometheusFormat(): string {
     const lines: string[] = [];
@@ -282,33 +307,122 @@ class MetricsRegistry {
     for (const [name, data] of this.counters) {
       const metricName = this.toPrometheusName(name);
       lines.push(`# TYPE ${metricName} counter`);
-      lines.push(`${metricName} ${data.value}`);
+      for (const [tagKey, value] of data.tags) {
+        lines.push(`${metricName}${this.toPrometheusLabels(this.labelsFor(name, tagKey))} ${value}`);
+      }
     }
 
     // Gauges
     for (const [name, data] of this.gauges) {
       const metricName = this.toPrometheusName(name);
       lines.push(`# TYPE ${metricName} gauge`);
-      lines.push(`${metricName} ${data.value}`);
+      for (const [tagKey, value] of data.tags) {
+        lines.push(`${metricName}${this.toPrometheusLabels(this.labelsFor(name, tagKey))} ${value}`);
+      }
     }
 
     // Histograms
-    for (const [name, data] of this.histograms) {
+    for (const [name, series] of this.histogramSeries) {
       const metricName = this.toPrometheusName(name);
       lines.push(`# TYPE ${metricName} histogram`);
 
-      // Buckets
-      for (const [bucket, count] of Object.entries(data.buckets)) {
-        lines.push(`${metricName}_bucket{le="${bucket}"} ${count}`);
+      for (const [tagKey, data] of series) {
+        const labels = this.labelsFor(name, tagKey);
+        for (const [bucket, count] of Object.entries(data.buckets)) {
+          lines.push(`${metricName}_bucket${this.toPrometheusLabels({ ...labels, le: bucket })} ${count}`);
+        }
+        lines.push(`${metricName}_bucket${this.toPrometheusLabels({ ...labels, le: '+Inf' })} ${data.count}`);
+        lines.push(`${metricName}_sum${this.toPrometheusLabels(labels)} ${data.sum}`);
+        lines.push(`${metricName}_count${this.toPrometheusLabels(labels)} ${data.count}`);
       }
-      lines.push(`${metricName}_bucket{le="+Inf"} ${data.count}`);
-      lines.push(`${metricName}_sum ${data.sum}`);
-      lines.push(`${metricName}_count ${data.count}`);
     }
 
     return lines.join('\n');
   }
 
+  // ============================================
+  // FLUSHING
+  // ============================================
+
+  /**
+   * Everything recorded since the last markFlushed(), one sample per
+   * series. Nothing is consumed until markFlushed() confirms the samples
+   * were stored, so a failed flush is retried with the next one.
+   */
+  collectDeltas(): MetricSample[] {
+    const samples: MetricSample[] = [];
+
+    for (const [name, data] of this.counters) {
+      for (const [tagKey, value] of data.tags) {
+        const delta = value - (this.flushedCounters.get(this.seriesKey(name, tagKey)) || 0);
+        if (delta !== 0) {
+          samples.push({ name, type: 'counter', labels: this.labelsFor(name, tagKey), value: delta });
+        }
+      }
+    }
+
+    for (const [name, data] of this.gauges) {
+      for (const [tagKey, value] of data.tags) {
+        if (this.unflushedGauges.has(this.seriesKey(name, tagKey))) {
+          samples.push({ name, type: 'gauge', labels: this.labelsFor(name, tagKey), value });
+        }
+      }
+    }
+
+    for (const [name, series] of this.histogramSeries) {
+      for (const [tagKey, data] of series) {
+        const flushed = this.flushedHistograms.get(this.seriesKey(name, tagKey));
+        const count = data.count - (flushed?.count || 0);
+        if (count === 0) continue;
+
+        const buckets: Record<number, number> = {};
+        for (const bucket of DEFAULT_BUCKETS) {
+          buckets[bucket] = data.buckets[bucket] - (flushed?.buckets[bucket] || 0);
+        }
+        samples.push({
+          name,
+          type: 'histogram',
+          labels: this.labelsFor(name, tagKey),
+          value: data.sum - (flushed?.sum || 0),
+          count,
+          buckets,
+        });
+      }
+    }
+
+    return samples;
+  }
+
+  /**
+   * Record that samples from collectDeltas() were stored server-side
+   */
+  markFlushed(samples: MetricSample[]): void {
+    for (const sample of samples) {
+      const key = this.seriesKey(sample.name, this.serializeTags(sample.labels));
+
+      if (sample.type === 'counter') {
+        this.flushedCounters.set(key, (this.flushedCounters.get(key) || 0) + sample.value);
+      } else if (sample.type === 'gauge') {
+        // A gauge set again while the flush was in flight still needs sending
+        const current = this.gauges.get(sample.name)?.tags.get(this.serializeTags(sample.labels));
+        if (current === sample.value) {
+          this.unflushedGauges.delete(key);
+        }
+      } else {
+        const flushed = this.flushedHistograms.get(key) || { count: 0, sum: 0, buckets: {} };
+        const buckets: Record<number, number> = {};
+        for (const bucket of DEFAULT_BUCKETS) {
+          buckets[bucket] = (flushed.buckets[bucket] || 0) + (sample.buckets?.[bucket] || 0);
+        }
+        this.flushedHistograms.set(key, {
+          count: flushed.count + (sample.count || 0),
+          sum: flushed.sum + sample.value,
+          buckets,
+        });
+      }
+    }
+  }
+
   // ============================================
   // UTILITIES
   // ============================================
@@ -321,6 +435,37 @@ class MetricsRegistry {
       .join(',');
   }
 
+  private seriesKey(name: string, tagKey: string): string {
+    return `${name}|${tagKey}`;
+  }
+
+  private labelsFor(name: string, tagKey: string): MetricTags {
+    return this.seriesLabels.get(this.seriesKey(name, tagKey)) || {};
+  }
+
+  private createHistogram(): HistogramData {
+    return {
+      count: 0,
+      sum: 0,
+      min: Infinity,
+      max: -Infinity,
+      buckets: DEFAULT_BUCKETS.reduce((acc, b) => ({ ...acc, [b]: 0 }), {}),
+    };
+  }
+
+  private observe(histogram: HistogramData, durationMs: number): void {
+    histogram.count++;
+    histogram.sum += durationMs;
+    histogram.min = Math.min(histogram.min, durationMs);
+    histogram.max = Math.max(histogram.max, durationMs);
+
+    for (const bucket of DEFAULT_BUCKETS) {
+      if (durationMs <= bucket) {
+        histogram.buckets[bucket]++;
+      }
+    }
+  }
+
   private addRecentMetric(name: string, value: number, tags?: MetricTags): void {
     this.recentMetrics.push({
       name,
@@ -338,6 +483,14 @@ class MetricsRegistry {
   private toPrometheusName(name: string): string {
     return name.replace(/[.-]/g, '_').toLowerCase();
   }
+
+  private toPrometheusLabels(labels: MetricTags): string {
+    const pairs = Object.entries(labels).map(([key, value]) => {
+      const escaped = value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+      return `${key.replace(/[^a-zA-Z0-9_]/g, '_')}="${escaped}"`;
+    });
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+  }
 }
 
 // ============================================
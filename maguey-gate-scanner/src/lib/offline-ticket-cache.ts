@@ -8,6 +8,8 @@
 
 import Dexie, { Table } from 'dexie';
 import { supabase } from './supabase';
+import { isEarlierScan } from './peer-scan-relay';
+import { isBanActive, type MatchableBan } from './banned-guests';
 
 // ============================================================================
 // Types
@@ -19,11 +21,17 @@ export interface CachedTicket {
   qrToken: string; // For lookup during scan
   qrSignature?: string;
   status: 'valid' | 'scanned';
+  /** Refunded, or voided while the payment is disputed; never admitted */
+  voided?: boolean;
   guestName?: string;
+  /** For matching the banned guest list offline */
+  guestEmail?: string;
+  guestPhone?: string;
   ticketType: string;
   scannedAt?: string;
   scannedBy?: string; // User ID who scanned
   scannedByName?: string; // Display name for UI
+  scannedByDevice?: string; // Device that admitted the ticket (set for peer scans)
   syncedAt: string; // When this cache entry was updated
 }
 
@@ -51,6 +59,12 @@ export interface OfflineScanRecord {
   };
 }
 
+/** Offline copy of an active ban, with a photo URL signed at sync time */
+export interface CachedBannedGuest extends MatchableBan {
+  photoUrl?: string;
+  syncedAt: string;
+}
+
 export interface DeviceMeta {
   key: string;   // PK, always 'deviceId'
   value: string;
@@ -65,6 +79,7 @@ class TicketCacheDatabase extends Dexie {
   cacheMetadata!: Table<CacheMetadata, string>;
   offlineScans!: Table<OfflineScanRecord, number>;
   deviceMeta!: Table<DeviceMeta, string>;
+  bannedGuests!: Table<CachedBannedGuest, string>;
 
   constructor() {
     super('TicketCacheDatabase');
@@ -79,6 +94,13 @@ class TicketCacheDatabase extends Dexie {
       offlineScans: '++id, ticketId, syncStatus, scannedAt',
       deviceMeta: 'key',
     });
+    this.version(3).stores({
+      cachedTickets: 'ticketId, eventId, qrToken, status',
+      cacheMetadata: 'eventId',
+      offlineScans: '++id, ticketId, syncStatus, scannedAt',
+      deviceMeta: 'key',
+      bannedGuests: 'id, name_key',
+    });
   }
 }
 
@@ -138,6 +160,22 @@ export function subscribeToCacheUpdates(listener: CacheListener): () => void {
   };
 }
 
+type OfflineScanListener = (eventId: string, record: OfflineScanRecord) => void;
+const scanListeners: OfflineScanListener[] = [];
+
+/**
+ * Subscribe to scans recorded on this device while offline
+ * Used by peer-scan-sync to gossip new scans to other gate devices
+ * @returns Unsubscribe function
+ */
+export function subscribeToOfflineScans(listener: OfflineScanListener): () => void {
+  scanListeners.push(listener);
+  return () => {
+    const index = scanListeners.indexOf(listener);
+    if (index > -1) scanListeners.splice(index, 1);
+  };
+}
+
 // ============================================================================
 // Core Cache Functions
 // ============================================================================
@@ -173,7 +211,10 @@ export async function syncTicketCache(eventId: string): Promise<{
         qr_signature,
         status,
         is_used,
+        refund_status,
         guest_name,
+        guest_email,
+        guest_phone,
         attendee_name,
         ticket_type,
         scanned_at,
@@ -200,7 +241,10 @@ export async function syncTicketCache(eventId: string): Promise<{
       qrToken: t.qr_token || t.qr_code_data || t.ticket_id,
       qrSignature: t.qr_signature || undefined,
       status: t.is_used || t.status === 'scanned' ? 'scanned' : 'valid',
+      voided: t.refund_status === 'refunded' || t.refund_status === 'voided' || undefined,
       guestName: t.guest_name || t.attendee_name || undefined,
+      guestEmail: t.guest_email || undefined,
+      guestPhone: t.guest_phone || undefined,
       ticketType: t.ticket_type || 'General',
       scannedAt: t.scanned_at || undefined,
       scannedBy: t.scanned_by || undefined,
@@ -209,6 +253,12 @@ export async function syncTicketCache(eventId: string): Promise<{
 
     await db.cachedTickets.bulkPut(cacheEntries);
 
+    // The ban list is venue-wide; a failure keeps the previous copy
+    const banSync = await syncBannedGuestCache();
+    if (!banSync.success) {
+      console.warn('[offline-ticket-cache] Banned guest sync failed:', banSync.error);
+    }
+
     // Update metadata
     await db.cacheMetadata.put({
       eventId,
@@ -238,6 +288,65 @@ export async function syncTicketCache(eventId: string): Promise<{
   }
 }
 
+// How long ban photo links stay valid offline; a night at the door
+const BAN_PHOTO_URL_TTL_SECONDS = 12 * 60 * 60;
+
+/**
+ * Replace the offline copy of the banned guest list with the active bans
+ */
+export async function syncBannedGuestCache(): Promise<{
+  success: boolean;
+  banCount: number;
+  error?: string;
+}> {
+  try {
+    const { data, error } = await (supabase as any)
+      .from('banned_guests')
+      .select('id, full_name, name_key, date_of_birth, email, phone, photo_path, reason, expires_at, lifted_at')
+      .is('lifted_at', null);
+
+    if (error) throw error;
+
+    const bans = ((data || []) as MatchableBan[]).filter((ban) => isBanActive(ban));
+    const photoPaths = bans.map((ban) => ban.photo_path).filter((path): path is string => !!path);
+    const photoUrls = new Map<string, string>();
+    if (photoPaths.length > 0) {
+      const { data: signed } = await supabase.storage
+        .from('banned-guest-photos')
+        .createSignedUrls(photoPaths, BAN_PHOTO_URL_TTL_SECONDS);
+      for (const entry of signed || []) {
+        if (entry.path && entry.signedUrl) photoUrls.set(entry.path, entry.signedUrl);
+      }
+    }
+
+    const now = new Date().toISOString();
+    await db.transaction('rw', db.bannedGuests, async () => {
+      await db.bannedGuests.clear();
+      await db.bannedGuests.bulkPut(
+        bans.map((ban) => ({
+          ...ban,
+          photoUrl: ban.photo_path ? photoUrls.get(ban.photo_path) : undefined,
+          syncedAt: now,
+        }))
+      );
+    });
+
+    return { success: true, banCount: bans.length };
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return { success: false, banCount: 0, error: errorMessage };
+  }
+}
+
+/**
+ * Active bans from the offline copy
+ */
+export async function getCachedBannedGuests(): Promise<CachedBannedGuest[]> {
+  const bans = await db.bannedGuests.toArray();
+  return bans.filter((ban) => isBanActive(ban));
+}
+
 /**
  * Validate a ticket offline against the local cache
  * @param qrToken The QR code token to look up
@@ -288,14 +397,16 @@ export async function markAsScannedOffline(
     });
 
     // Record offline scan for later sync with conflict resolution
-    await db.offlineScans.add({
+    const record: OfflineScanRecord = {
       ticketId,
       qrToken: ticket.qrToken,
       scannedAt: now,
       scannedBy,
       deviceId: await getOrInitDeviceId(),
       syncStatus: 'pending',
-    });
+    };
+    record.id = await db.offlineScans.add(record);
+    scanListeners.forEach((l) => l(ticket.eventId, record));
 
     // Update scanned count in metadata
     const metadata = await db.cacheMetadata.get(ticket.eventId);
@@ -316,6 +427,60 @@ export async function markAsScannedOffline(
   }
 }
 
+/**
+ * Apply a scan gossiped by another gate device on the local network
+ * First-scan-wins: the earliest scannedAt is kept (device ID breaks ties),
+ * so every device converges on the same admission without the server.
+ * The peer's own device remains responsible for syncing its scan upstream.
+ */
+export async function applyPeerScan(
+  eventId: string,
+  scan: Pick<OfflineScanRecord, 'ticketId' | 'scannedAt' | 'scannedBy' | 'deviceId'>
+): Promise<'applied' | 'ignored' | 'not_in_cache'> {
+  try {
+    const ticket = await db.cachedTickets.get(scan.ticketId);
+
+    if (!ticket || ticket.eventId !== eventId) return 'not_in_cache';
+
+    const wasValid = ticket.status === 'valid';
+    if (!wasValid && ticket.scannedAt) {
+      const current = {
+        scannedAt: ticket.scannedAt,
+        deviceId: ticket.scannedByDevice || (await getOrInitDeviceId()),
+      };
+      if (!isEarlierScan(scan, current)) return 'ignored';
+    }
+
+    await db.cachedTickets.update(scan.ticketId, {
+      status: 'scanned',
+      scannedAt: scan.scannedAt,
+      scannedBy: scan.scannedBy,
+      scannedByName: undefined,
+      scannedByDevice: scan.deviceId,
+      syncedAt: new Date().toISOString(),
+    });
+
+    // Only a newly admitted ticket changes the check-in count
+    if (wasValid) {
+      const metadata = await db.cacheMetadata.get(eventId);
+      if (metadata) {
+        await db.cacheMetadata.update(eventId, {
+          scannedCount: metadata.scannedCount + 1,
+        });
+        notifyListeners(eventId, {
+          ...metadata,
+          scannedCount: metadata.scannedCount + 1,
+        });
+      }
+    }
+
+    return 'applied';
+  } catch (error) {
+    console.error('[offline-ticket-cache] Failed to apply peer scan:', error);
+    return 'ignored';
+  }
+}
+
 // ============================================================================
 // Conflict Resolution
 // ============================================================================
@@ -0,0 +1,155 @@
+/**
+ * Peer Scan Relay Hub
+ *
+ * Transport-agnostic core of the venue LAN relay that gate devices use to
+ * gossip offline scans to each other while the upstream internet is down.
+ * Keeps the winning (earliest) scan per ticket per event and fans new
+ * winners out to every connected device.
+ *
+ * Shared by the booth relay process (scripts/scan-relay.ts) and the browser
+ * client (peer-scan-sync.ts) so both apply the same first-scan-wins rule.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PeerScan {
+  eventId: string;
+  ticketId: string;
+  scannedAt: string; // ISO timestamp of the offline scan
+  scannedBy?: string; // Staff user ID
+  deviceId: string; // getOrInitDeviceId() of the admitting device
+}
+
+export type PeerScanSubscriber = (scan: PeerScan) => void;
+
+export interface PeerScanPublishResult {
+  accepted: boolean; // True if this scan is (still) the first scan for the ticket
+  winner: PeerScan;
+}
+
+interface Subscription {
+  deviceId: string;
+  send: PeerScanSubscriber;
+}
+
+// ============================================================================
+// First-Scan-Wins
+// ============================================================================
+
+/**
+ * True if scan `a` happened before scan `b`.
+ * Equal timestamps are broken by device ID so every device picks the same winner.
+ */
+export function isEarlierScan(
+  a: Pick<PeerScan, 'scannedAt' | 'deviceId'>,
+  b: Pick<PeerScan, 'scannedAt' | 'deviceId'>
+): boolean {
+  const aTime = new Date(a.scannedAt).getTime();
+  const bTime = new Date(b.scannedAt).getTime();
+  if (aTime !== bTime) return aTime < bTime;
+  return a.deviceId < b.deviceId;
+}
+
+/**
+ * Validate an untrusted payload received over the network
+ */
+export function parsePeerScan(value: unknown): PeerScan | null {
+  if (!value || typeof value !== 'object') return null;
+  const v = value as Record<string, unknown>;
+
+  if (
+    typeof v.eventId !== 'string' || !v.eventId ||
+    typeof v.ticketId !== 'string' || !v.ticketId ||
+    typeof v.deviceId !== 'string' || !v.deviceId ||
+    typeof v.scannedAt !== 'string' ||
+    Number.isNaN(new Date(v.scannedAt).getTime())
+  ) {
+    return null;
+  }
+
+  if (v.scannedBy !== undefined && v.scannedBy !== null && typeof v.scannedBy !== 'string') {
+    return null;
+  }
+
+  return {
+    eventId: v.eventId,
+    ticketId: v.ticketId,
+    scannedAt: v.scannedAt,
+    scannedBy: (v.scannedBy as string | null) || undefined,
+    deviceId: v.deviceId,
+  };
+}
+
+// ============================================================================
+// Relay Hub
+// ============================================================================
+
+export class PeerScanRelayHub {
+  private winners = new Map<string, Map<string, PeerScan>>();
+  private subscriptions = new Map<string, Set<Subscription>>();
+
+  /**
+   * Register a device for an event. Every known winning scan is replayed
+   * immediately so a device joining mid-outage catches up.
+   * @returns Unsubscribe function
+   */
+  subscribe(eventId: string, deviceId: string, send: PeerScanSubscriber): () => void {
+    const subscription: Subscription = { deviceId, send };
+    let subs = this.subscriptions.get(eventId);
+    if (!subs) {
+      subs = new Set();
+      this.subscriptions.set(eventId, subs);
+    }
+    subs.add(subscription);
+
+    this.winners.get(eventId)?.forEach((scan) => send(scan));
+
+    return () => {
+      subs!.delete(subscription);
+      if (subs!.size === 0) this.subscriptions.delete(eventId);
+    };
+  }
+
+  /**
+   * Record a scan from a device. New winners are broadcast to all other
+   * devices on the event; a losing scan gets the existing winner back.
+   */
+  publish(scan: PeerScan): PeerScanPublishResult {
+    let eventWinners = this.winners.get(scan.eventId);
+    if (!eventWinners) {
+      eventWinners = new Map();
+      this.winners.set(scan.eventId, eventWinners);
+    }
+
+    const current = eventWinners.get(scan.ticketId);
+    if (current && !isEarlierScan(scan, current)) {
+      const isSameScan =
+        current.deviceId === scan.deviceId && current.scannedAt === scan.scannedAt;
+      return { accepted: isSameScan, winner: current };
+    }
+
+    eventWinners.set(scan.ticketId, scan);
+    this.subscriptions.get(scan.eventId)?.forEach((sub) => {
+      if (sub.deviceId !== scan.deviceId) sub.send(scan);
+    });
+
+    return { accepted: true, winner: scan };
+  }
+
+  /**
+   * Connected devices and known scans, for the relay health endpoint
+   */
+  getStats(): { events: number; devices: number; scans: number } {
+    const devices = new Set<string>();
+    this.subscriptions.forEach((subs) => subs.forEach((s) => devices.add(s.deviceId)));
+
+    let scans = 0;
+    this.winners.forEach((eventWinners) => {
+      scans += eventWinners.size;
+    });
+
+    return { events: this.winners.size, devices: devices.size, scans };
+  }
+}
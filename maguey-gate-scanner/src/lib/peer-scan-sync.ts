@@ -0,0 +1,266 @@
+/**
+ * Peer Scan Sync Service
+ *
+ * Gossips offline scans between gate devices over the venue LAN through the
+ * booth relay (scripts/scan-relay.ts), so a ticket admitted at door A is
+ * rejected at door B within seconds even while the upstream internet is down.
+ * Server-side first-scan-wins resolution via resolveOfflineConflicts() still
+ * runs once connectivity returns; this only closes the window before that.
+ */
+
+import {
+  applyPeerScan,
+  getOrInitDeviceId,
+  getPendingOfflineScans,
+  getTicketFromCache,
+  subscribeToOfflineScans,
+  type OfflineScanRecord,
+} from './offline-ticket-cache';
+import { parsePeerScan, type PeerScan } from './peer-scan-relay';
+import { createLogger } from './logger';
+
+const logger = createLogger({ module: 'peer-scan-sync' });
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PeerScanTransport {
+  /**
+   * Send scans to the relay
+   * @returns The winning scan for each ticket, as decided by the relay
+   */
+  publish(scans: PeerScan[]): Promise<PeerScan[]>;
+  /**
+   * Receive scans from other devices. `onConnected` fires on every
+   * (re)connect so unsent scans can be flushed.
+   * @returns Unsubscribe function
+   */
+  subscribe(onScan: (scan: PeerScan) => void, onConnected?: () => void): () => void;
+}
+
+export interface PeerScanStore {
+  applyPeerScan(
+    eventId: string,
+    scan: Omit<PeerScan, 'eventId'>
+  ): Promise<'applied' | 'ignored' | 'not_in_cache'>;
+}
+
+export interface PeerScanSyncOptions {
+  eventId: string;
+  deviceId: string;
+  transport: PeerScanTransport;
+  store: PeerScanStore;
+  /** Scans recorded on this device that peers may not have seen yet */
+  getBacklog?: () => Promise<OfflineScanRecord[]>;
+}
+
+type PeerScanListener = (scan: PeerScan) => void;
+
+// ============================================================================
+// Relay Transport (Server-Sent Events + HTTP POST)
+// ============================================================================
+
+/**
+ * Get the booth relay URL, or null if peer sync is not configured
+ */
+export function getScanRelayUrl(): string | null {
+  const url = import.meta.env?.VITE_SCAN_RELAY_URL as string | undefined;
+  return url ? url.replace(/\/+$/, '') : null;
+}
+
+/**
+ * Create a transport that talks to the booth relay over HTTP.
+ * EventSource reconnects on its own when the relay restarts.
+ */
+export function createRelayTransport(
+  relayUrl: string,
+  eventId: string,
+  deviceId: string,
+  token?: string
+): PeerScanTransport {
+  const base = `${relayUrl}/events/${encodeURIComponent(eventId)}`;
+  const authQuery = token ? `&token=${encodeURIComponent(token)}` : '';
+
+  return {
+    async publish(scans) {
+      const response = await fetch(`${base}/scans?deviceId=${encodeURIComponent(deviceId)}${authQuery}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scans }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Relay rejected scans: ${response.status}`);
+      }
+
+      const body = await response.json();
+      return ((body?.winners as unknown[]) || [])
+        .map(parsePeerScan)
+        .filter((s): s is PeerScan => s !== null);
+    },
+
+    subscribe(onScan, onConnected) {
+      const source = new EventSource(
+        `${base}/stream?deviceId=${encodeURIComponent(deviceId)}${authQuery}`
+      );
+
+      source.onopen = () => onConnected?.();
+      source.onmessage = (message) => {
+        try {
+          const scan = parsePeerScan(JSON.parse(message.data));
+          if (scan) onScan(scan);
+        } catch {
+          logger.warn('Ignoring malformed relay message');
+        }
+      };
+      source.onerror = () => {
+        logger.warn('Relay connection lost, retrying');
+      };
+
+      return () => source.close();
+    },
+  };
+}
+
+// ============================================================================
+// Peer Scan Sync
+// ============================================================================
+
+export class PeerScanSync {
+  private options: PeerScanSyncOptions;
+  private unsubscribe: (() => void) | null = null;
+  private listeners: PeerScanListener[] = [];
+
+  constructor(options: PeerScanSyncOptions) {
+    this.options = options;
+  }
+
+  start(): void {
+    if (this.unsubscribe) return;
+    this.unsubscribe = this.options.transport.subscribe(
+      (scan) => {
+        void this.handleIncoming(scan);
+      },
+      () => {
+        void this.flushBacklog();
+      }
+    );
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * Subscribe to peer scans that changed the local cache
+   * @returns Unsubscribe function
+   */
+  onPeerScan(listener: PeerScanListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) this.listeners.splice(index, 1);
+    };
+  }
+
+  /**
+   * Gossip scans made on this device. Never throws: if the relay is
+   * unreachable the scans are resent from the backlog on reconnect.
+   */
+  async publish(records: OfflineScanRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    const scans: PeerScan[] = records.map((r) => ({
+      eventId: this.options.eventId,
+      ticketId: r.ticketId,
+      scannedAt: r.scannedAt,
+      scannedBy: r.scannedBy,
+      deviceId: r.deviceId,
+    }));
+
+    try {
+      const winners = await this.options.transport.publish(scans);
+      // A losing scan means another door admitted the ticket first
+      for (const winner of winners) {
+        await this.handleIncoming(winner);
+      }
+    } catch (error) {
+      logger.warn('Failed to publish scans', { error: String(error) });
+    }
+  }
+
+  private async flushBacklog(): Promise<void> {
+    if (!this.options.getBacklog) return;
+    try {
+      await this.publish(await this.options.getBacklog());
+    } catch (error) {
+      logger.warn('Failed to read scan backlog', { error: String(error) });
+    }
+  }
+
+  private async handleIncoming(scan: PeerScan): Promise<void> {
+    if (scan.deviceId === this.options.deviceId) return;
+    if (scan.eventId !== this.options.eventId) return;
+
+    const { eventId, ...rest } = scan;
+    const result = await this.options.store.applyPeerScan(eventId, rest);
+    if (result === 'applied') {
+      this.listeners.forEach((l) => l(scan));
+    }
+  }
+}
+
+// ============================================================================
+// App Wiring
+// ============================================================================
+
+/**
+ * Start gossiping this device's offline scans for an event.
+ * No-op unless VITE_SCAN_RELAY_URL is configured.
+ * @returns Stop function
+ */
+export async function startPeerScanSync(
+  eventId: string,
+  onPeerScan?: PeerScanListener
+): Promise<() => void> {
+  const relayUrl = getScanRelayUrl();
+  if (!relayUrl) return () => {};
+
+  const deviceId = await getOrInitDeviceId();
+  const sync = new PeerScanSync({
+    eventId,
+    deviceId,
+    transport: createRelayTransport(
+      relayUrl,
+      eventId,
+      deviceId,
+      import.meta.env?.VITE_SCAN_RELAY_TOKEN as string | undefined
+    ),
+    store: { applyPeerScan },
+    getBacklog: async () => {
+      const pending = await getPendingOfflineScans();
+      const forEvent: OfflineScanRecord[] = [];
+      for (const record of pending) {
+        const ticket = await getTicketFromCache(record.ticketId);
+        if (ticket?.eventId === eventId) forEvent.push(record);
+      }
+      return forEvent;
+    },
+  });
+
+  const stopListening = onPeerScan ? sync.onPeerScan(onPeerScan) : () => {};
+  const stopGossip = subscribeToOfflineScans((scanEventId, record) => {
+    if (scanEventId === eventId) void sync.publish([record]);
+  });
+
+  sync.start();
+  logger.debug('Started peer scan sync', { eventId, relayUrl });
+
+  return () => {
+    stopGossip();
+    stopListening();
+    sync.stop();
+  };
+}
@@ -0,0 +1,287 @@
+/**
+ * Permission Service
+ * Staff roles, role assignments and the signed-in user's permissions
+ *
+ * Every role change is written to the audit trail (see
+ * getPermissionAuditTrail in audit-service). RLS decides who can change
+ * what; the checks here only give a clearer error first.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { isSupabaseConfigured } from '@/integrations/supabase/client';
+import type { UserRole } from './auth';
+import { logAuditEvent } from './audit-service';
+import {
+  DEFAULT_BASE_ROLE_PERMISSIONS,
+  diffPermissions,
+  globalGrants,
+  isPermission,
+  PERMISSION_LABELS,
+  type Permission,
+  type PermissionGrant,
+  type RoleDraft,
+} from './permissions';
+
+// Type assertion needed since the role tables are not in the generated
+// types yet
+const rolesDb = supabase as any;
+
+export interface StaffRole {
+  id: string;
+  name: string;
+  description: string | null;
+  permissions: Permission[];
+  /** Set on the three base roles */
+  legacy_role: UserRole | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RoleAssignment {
+  id: string;
+  user_id: string;
+  role_id: string;
+  venue_id: string | null;
+  event_id: string | null;
+  assigned_by: string | null;
+  created_at: string;
+  staff_roles?: Pick<StaffRole, 'name' | 'permissions'> | null;
+  venues?: { name: string } | null;
+  events?: { name: string; event_date: string } | null;
+}
+
+export interface AssignmentScope {
+  venueId?: string | null;
+  eventId?: string | null;
+}
+
+export interface ScopeOption {
+  id: string;
+  name: string;
+}
+
+function describeScope(assignment: Pick<RoleAssignment, 'venues' | 'events'>): string {
+  if (assignment.events) return `for ${assignment.events.name}`;
+  if (assignment.venues) return `at ${assignment.venues.name}`;
+  return 'everywhere';
+}
+
+function permissionList(permissions: readonly Permission[]): string {
+  return permissions.map((permission) => PERMISSION_LABELS[permission]).join(', ') || 'none';
+}
+
+/**
+ * Everything the user can do: their base role's permissions everywhere,
+ * plus assigned roles in their scope. Falls back to the default base role
+ * permissions when the tables can't be read, so scanners keep working
+ * offline.
+ */
+export async function getPermissionGrants(userId: string, role: UserRole | null): Promise<PermissionGrant[]> {
+  if (role === 'owner') return globalGrants(DEFAULT_BASE_ROLE_PERMISSIONS.owner);
+  // Without a base role only assigned roles count, as in user_has_permission
+  const basePermissions = role ? DEFAULT_BASE_ROLE_PERMISSIONS[role] : [];
+  if (!isSupabaseConfigured()) return globalGrants(basePermissions);
+
+  try {
+    const [baseResult, assignmentResult] = await Promise.all([
+      role
+        ? rolesDb.from('staff_roles').select('permissions').eq('legacy_role', role).maybeSingle()
+        : Promise.resolve({ data: null, error: null }),
+      rolesDb
+        .from('staff_role_assignments')
+        .select('venue_id, event_id, staff_roles(permissions)')
+        .eq('user_id', userId),
+    ]);
+
+    if (baseResult.error) throw baseResult.error;
+    if (assignmentResult.error) throw assignmentResult.error;
+
+    const grants = globalGrants(baseResult.data?.permissions ?? basePermissions);
+    for (const assignment of assignmentResult.data || []) {
+      for (const permission of assignment.staff_roles?.permissions || []) {
+        if (!isPermission(permission)) continue;
+        grants.push({ permission, venueId: assignment.venue_id, eventId: assignment.event_id });
+      }
+    }
+    return grants;
+  } catch (error) {
+    console.warn('[permission-service] Could not load permissions, using base role defaults:', error);
+    return globalGrants(basePermissions);
+  }
+}
+
+/** All roles, base roles first */
+export async function getStaffRoles(): Promise<StaffRole[]> {
+  const { data, error } = await rolesDb
+    .from('staff_roles')
+    .select('*')
+    .order('legacy_role', { ascending: true, nullsFirst: false })
+    .order('name');
+
+  if (error) throw new Error(`Failed to load roles: ${error.message}`);
+  return (data || []) as StaffRole[];
+}
+
+export async function createStaffRole(draft: RoleDraft, actorId: string): Promise<StaffRole> {
+  const { data, error } = await rolesDb
+    .from('staff_roles')
+    .insert({
+      name: draft.name.trim(),
+      description: draft.description?.trim() || null,
+      permissions: draft.permissions,
+    })
+    .select()
+    .single();
+
+  if (error) throw new Error(`Failed to create role: ${error.message}`);
+
+  await logAuditEvent('role_created', 'staff_role', `Created role ${data.name}`, {
+    userId: actorId,
+    resourceId: data.id,
+    metadata: { permissions: draft.permissions },
+  });
+
+  return data as StaffRole;
+}
+
+export async function updateStaffRole(role: StaffRole, draft: RoleDraft, actorId: string): Promise<StaffRole> {
+  if (role.legacy_role === 'owner') throw new Error('The owner role always has every permission');
+
+  const { data, error } = await rolesDb
+    .from('staff_roles')
+    .update({
+      // Base role names are fixed
+      name: role.legacy_role ? role.name : draft.name.trim(),
+      description: draft.description?.trim() || null,
+      permissions: draft.permissions,
+    })
+    .eq('id', role.id)
+    .select()
+    .single();
+
+  if (error) throw new Error(`Failed to update role: ${error.message}`);
+
+  const { added, removed } = diffPermissions(role.permissions, draft.permissions);
+  await logAuditEvent(
+    'role_updated',
+    'staff_role',
+    `Updated role ${data.name}: added ${permissionList(added)}; removed ${permissionList(removed)}`,
+    {
+      userId: actorId,
+      resourceId: role.id,
+      severity: added.includes('manage_team') || added.includes('refund') ? 'warning' : 'info',
+      metadata: { added, removed, permissions: draft.permissions, previousName: role.name },
+    }
+  );
+
+  return data as StaffRole;
+}
+
+/** Delete a custom role; everyone who had it loses it */
+export async function deleteStaffRole(role: StaffRole, actorId: string): Promise<void> {
+  if (role.legacy_role) throw new Error('Base roles can\'t be deleted');
+
+  const { error } = await rolesDb.from('staff_roles').delete().eq('id', role.id);
+  if (error) throw new Error(`Failed to delete role: ${error.message}`);
+
+  await logAuditEvent('role_deleted', 'staff_role', `Deleted role ${role.name}`, {
+    userId: actorId,
+    resourceId: role.id,
+    severity: 'warning',
+    metadata: { permissions: role.permissions },
+  });
+}
+
+const ASSIGNMENT_SELECT = '*, staff_roles(name, permissions), venues(name), events(name, event_date)';
+
+export async function getRoleAssignments(userId?: string): Promise<RoleAssignment[]> {
+  let query = rolesDb.from('staff_role_assignments').select(ASSIGNMENT_SELECT).order('created_at');
+  if (userId) query = query.eq('user_id', userId);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to load role assignments: ${error.message}`);
+  return (data || []) as RoleAssignment[];
+}
+
+export async function assignRole(
+  userId: string,
+  role: StaffRole,
+  scope: AssignmentScope,
+  actorId: string
+): Promise<RoleAssignment> {
+  if (role.legacy_role) throw new Error('Base roles are changed with promote and demote');
+  if (scope.venueId && scope.eventId) throw new Error('Choose a venue or an event, not both');
+
+  const { data, error } = await rolesDb
+    .from('staff_role_assignments')
+    .insert({
+      user_id: userId,
+      role_id: role.id,
+      venue_id: scope.venueId || null,
+      event_id: scope.eventId || null,
+    })
+    .select(ASSIGNMENT_SELECT)
+    .single();
+
+  if (error) {
+    if (error.code === '23505') throw new Error(`They already have ${role.name} there`);
+    throw new Error(`Failed to assign role: ${error.message}`);
+  }
+
+  await logAuditEvent('permission_granted', 'user', `Gave ${role.name} ${describeScope(data)}`, {
+    userId: actorId,
+    resourceId: userId,
+    severity: role.permissions.includes('manage_team') ? 'warning' : 'info',
+    metadata: {
+      roleId: role.id,
+      roleName: role.name,
+      permissions: role.permissions,
+      venueId: data.venue_id,
+      eventId: data.event_id,
+    },
+  });
+
+  return data as RoleAssignment;
+}
+
+export async function revokeRoleAssignment(assignment: RoleAssignment, actorId: string): Promise<void> {
+  const { error } = await rolesDb.from('staff_role_assignments').delete().eq('id', assignment.id);
+  if (error) throw new Error(`Failed to remove role: ${error.message}`);
+
+  const roleName = assignment.staff_roles?.name || 'role';
+  await logAuditEvent('permission_revoked', 'user', `Removed ${roleName} ${describeScope(assignment)}`, {
+    userId: actorId,
+    resourceId: assignment.user_id,
+    metadata: {
+      roleId: assignment.role_id,
+      roleName,
+      venueId: assignment.venue_id,
+      eventId: assignment.event_id,
+    },
+  });
+}
+
+/** Venues and upcoming events a role can be limited to */
+export async function getScopeOptions(): Promise<{ venues: ScopeOption[]; events: ScopeOption[] }> {
+  const today = new Date().toISOString().split('T')[0];
+  const [venueResult, eventResult] = await Promise.all([
+    supabase.from('venues').select('id, name').eq('is_active', true).order('name'),
+    supabase
+      .from('events')
+      .select('id, name, event_date')
+      .gte('event_date', today)
+      .order('event_date', { ascending: true })
+      .limit(50),
+  ]);
+
+  if (venueResult.error) throw new Error(`Failed to load venues: ${venueResult.error.message}`);
+  if (eventResult.error) throw new Error(`Failed to load events: ${eventResult.error.message}`);
+
+  return {
+    venues: (venueResult.data || []) as ScopeOption[],
+    events: (eventResult.data || []).map((event) => ({
+      id: event.id,
+      name: `${event.name} (${event.event_date})`,
+    })),
+  };
+}
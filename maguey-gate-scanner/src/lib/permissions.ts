@@ -0,0 +1,150 @@
+/**
+ * Permissions
+ *
+ * What staff can do, and where (see 20260424000000_staff_permissions.sql).
+ * Permissions are grouped into roles; a user gets their base role's
+ * permissions everywhere plus any roles assigned to them, either
+ * everywhere, at one venue or for one event. This mirrors
+ * user_has_permission in the database, which has the final say.
+ */
+
+import type { UserRole } from './auth';
+
+export type Permission =
+  | 'scan'
+  | 'override'
+  | 'refund'
+  | 'manage_events'
+  | 'view_revenue'
+  | 'manage_vip'
+  | 'manage_team'
+  | 'export_data'
+  | 'manage_marketing';
+
+export const PERMISSIONS: Permission[] = [
+  'scan',
+  'override',
+  'refund',
+  'manage_events',
+  'view_revenue',
+  'manage_vip',
+  'manage_team',
+  'export_data',
+  'manage_marketing',
+];
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  scan: 'Scan tickets',
+  override: 'Override scans',
+  refund: 'Refund tickets',
+  manage_events: 'Manage events',
+  view_revenue: 'View revenue',
+  manage_vip: 'Manage VIP',
+  manage_team: 'Manage team',
+  export_data: 'Export data',
+  manage_marketing: 'Manage marketing',
+};
+
+export const PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
+  scan: 'Scan tickets and check in guests',
+  override: 'Let a guest in when a scan is rejected',
+  refund: 'Refund tickets, including when an event is rescheduled',
+  manage_events: 'Create, edit and cancel events',
+  view_revenue: 'See sales, orders and analytics',
+  manage_vip: 'Manage VIP tables and bottle service',
+  manage_team: 'Invite staff and edit roles',
+  export_data: 'Download reports and exports',
+  manage_marketing: 'See the customer list, build segments and send campaigns',
+};
+
+/**
+ * Base role permissions when the roles table can't be read (offline or
+ * local dev). Owners always have everything.
+ */
+export const DEFAULT_BASE_ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  owner: [...PERMISSIONS],
+  promoter: ['manage_events', 'view_revenue', 'manage_vip', 'export_data'],
+  employee: ['scan', 'override'],
+};
+
+/** One permission held by the user, and where it applies */
+export interface PermissionGrant {
+  permission: Permission;
+  /** Both null means everywhere */
+  venueId: string | null;
+  eventId: string | null;
+}
+
+export interface PermissionScope {
+  eventId?: string | null;
+  venueId?: string | null;
+}
+
+export function isPermission(value: string): value is Permission {
+  return (PERMISSIONS as string[]).includes(value);
+}
+
+/** Grants that apply everywhere for a set of permissions */
+export function globalGrants(permissions: readonly string[]): PermissionGrant[] {
+  return permissions.filter(isPermission).map((permission) => ({ permission, venueId: null, eventId: null }));
+}
+
+/**
+ * Whether the grants allow a permission. Without a scope, a grant for any
+ * venue or event counts, which is what page access needs. With an event,
+ * pass the event's venue too so venue-wide grants match.
+ */
+export function grantsPermission(
+  grants: readonly PermissionGrant[],
+  permission: Permission,
+  scope?: PermissionScope
+): boolean {
+  return grants.some((grant) => {
+    if (grant.permission !== permission) return false;
+    if (!scope) return true;
+    if (!grant.venueId && !grant.eventId) return true;
+    if (grant.eventId) return !!scope.eventId && grant.eventId === scope.eventId;
+    return !!scope.venueId && grant.venueId === scope.venueId;
+  });
+}
+
+export interface RoleDraft {
+  name: string;
+  description?: string;
+  permissions: Permission[];
+}
+
+/**
+ * What's wrong with a role before it is saved. Empty when it's ready.
+ */
+export function validateRoleDraft(
+  draft: RoleDraft,
+  existingNames: readonly string[] = [],
+  isOwner: boolean = false
+): string[] {
+  const errors: string[] = [];
+  const name = draft.name.trim();
+
+  if (!name) {
+    errors.push('Enter a role name');
+  } else if (existingNames.some((existing) => existing.trim().toLowerCase() === name.toLowerCase())) {
+    errors.push('A role with this name already exists');
+  }
+  if (draft.permissions.length === 0) errors.push('Choose at least one permission');
+  if (draft.permissions.includes('manage_team') && !isOwner) {
+    errors.push('Only owners can give out Manage team');
+  }
+
+  return errors;
+}
+
+/** Permissions added and removed between two versions of a role, for the audit trail */
+export function diffPermissions(
+  before: readonly Permission[],
+  after: readonly Permission[]
+): { added: Permission[]; removed: Permission[] } {
+  return {
+    added: after.filter((permission) => !before.includes(permission)),
+    removed: before.filter((permission) => !after.includes(permission)),
+  };
+}
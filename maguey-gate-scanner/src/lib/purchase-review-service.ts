@@ -0,0 +1,112 @@
+/**
+ * Purchase Review Service
+ * Owner queue for ticket orders held by purchase risk scoring
+ *
+ * create-checkout-session scores every purchase (email, device, IP and card
+ * velocity, declined payments, disposable emails, name mismatches, bulk buys
+ * near sell-out) and stripe-webhook re-scores it once paid. Held orders have
+ * their tickets voided until an owner approves them (tickets restored and
+ * emailed) or rejects them (refunded) through the review-purchase Edge
+ * Function.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+
+export type PurchaseRiskAction = 'allow' | 'require_login' | 'require_3ds' | 'hold_for_review' | 'block';
+export type PurchaseReviewStatus = 'pending' | 'approved' | 'rejected';
+export type PurchaseReviewDecision = Exclude<PurchaseReviewStatus, 'pending'>;
+
+export interface PurchaseRiskSignal {
+  type: string;
+  score: number;
+  description: string;
+}
+
+/** Row returned by get_purchase_reviews */
+export interface PurchaseReview {
+  order_id: string;
+  created_at: string;
+  event_id: string;
+  event_name: string | null;
+  purchaser_email: string;
+  purchaser_name: string | null;
+  total: number | string;
+  ticket_count: number;
+  risk_score: number | null;
+  risk_action: PurchaseRiskAction | null;
+  risk_signals: PurchaseRiskSignal[] | null;
+  device_id: string | null;
+  client_ip: string | null;
+  card_fingerprint: string | null;
+  review_status: PurchaseReviewStatus;
+  reviewed_at: string | null;
+  review_notes: string | null;
+}
+
+export const RISK_SIGNAL_LABELS: Record<string, string> = {
+  disposable_email: 'Disposable email',
+  email_velocity: 'Email velocity',
+  device_velocity: 'Shared device',
+  ip_velocity: 'Shared IP',
+  card_velocity: 'Shared card',
+  failed_payments: 'Declined payments',
+  card_testing: 'Card testing',
+  name_mismatch: 'Name mismatch',
+  bulk_near_sellout: 'Bulk near sell-out',
+  prior_rejection: 'Previously rejected',
+};
+
+export function getRiskSignalLabel(type: string): string {
+  return RISK_SIGNAL_LABELS[type] || type.replace(/_/g, ' ');
+}
+
+/**
+ * Strongest signals first, so the queue can show the top few
+ */
+export function sortRiskSignals(signals: PurchaseRiskSignal[] | null | undefined): PurchaseRiskSignal[] {
+  return [...(signals || [])].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Held orders, oldest first; reviewed orders, most recent first
+ */
+export async function getPurchaseReviews(
+  status: PurchaseReviewStatus = 'pending',
+  limit: number = 100
+): Promise<PurchaseReview[]> {
+  // Type assertion needed since get_purchase_reviews
+  // is not in the generated types yet
+  const { data, error } = await (supabase as any).rpc('get_purchase_reviews', {
+    p_status: status,
+    p_limit: limit,
+  });
+
+  if (error) {
+    console.error('[purchase-review] Error loading purchase reviews:', error);
+    throw error;
+  }
+
+  return (data || []) as PurchaseReview[];
+}
+
+/**
+ * Approve or reject a held order. Returns a warning when the review was
+ * recorded but the refund failed.
+ */
+export async function resolvePurchaseReview(
+  orderId: string,
+  decision: PurchaseReviewDecision,
+  notes?: string
+): Promise<{ warning?: string }> {
+  const { data, error } = await supabase.functions.invoke('review-purchase', {
+    body: { orderId, decision, notes },
+  });
+
+  if (error) {
+    // Surface the Edge Function's message (e.g. already reviewed on another device)
+    const body = await (error as any).context?.json?.().catch(() => null);
+    throw new Error(body?.error || error.message || 'Failed to review purchase');
+  }
+
+  return { warning: data?.warning };
+}
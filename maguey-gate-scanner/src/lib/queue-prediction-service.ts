@@ -1,5 +1,7 @@
 import { supabase } from './supabase';
 import { calculateCurrentScanVelocity, estimateQueueDepth, getHistoricalVelocityPatterns } from './queue-metrics-service';
+import { predictWithModel } from './wait-time-model';
+import { getActiveWaitTimeModel } from './wait-time-model-service';
 
 export interface WaitTimePrediction {
   id: string;
@@ -16,9 +18,12 @@ export interface WaitTimePrediction {
     historical_avg_velocity?: number;
     time_of_day_factor?: number;
     day_of_week_factor?: number;
+    model_version?: number;
+    model_segment?: string;
     entry_point_id?: string;
   };
   entry_point_id: string | null;
+  model_version: number | null; // null when predict_wait_time made the prediction
   created_at: string;
 }
 
@@ -33,34 +38,120 @@ export interface PredictionFactors {
   entry_point_id?: string;
 }
 
+type NewPrediction = {
+  predicted_wait_minutes: number;
+  confidence_score: number;
+  factors: WaitTimePrediction['factors'];
+  model_version: number | null;
+};
+
 /**
- * Predict wait time for an event using ML model
+ * Predict with the active trained model (see wait-time-model.ts);
+ * null when no model is active so the caller can fall back to the RPC
  */
-export const predictWaitTime = async (
+const predictWithActiveModel = async (
   eventId: string,
   entryPointId?: string
-): Promise<WaitTimePrediction | null> => {
+): Promise<NewPrediction | null> => {
+  let model;
   try {
-    const { data, error } = await supabase.rpc('predict_wait_time', {
-      event_id_param: eventId,
-      entry_point_id_param: entryPointId || null,
-    });
+    model = await getActiveWaitTimeModel();
+  } catch (error) {
+    console.error('Error loading wait time model:', error);
+    return null;
+  }
 
-    if (error) {
-      console.error('Error predicting wait time:', error);
-      return null;
+  if (!model) {
+    return null;
+  }
+
+  const [velocity, queueDepth, { data: event }, { data: entryPoint }] = await Promise.all([
+    calculateCurrentScanVelocity(eventId, 5, entryPointId),
+    estimateQueueDepth(eventId, entryPointId),
+    supabase.from('events').select('venue_name, event_category').eq('id', eventId).maybeSingle(),
+    entryPointId
+      ? supabase.from('entry_points').select('name').eq('id', entryPointId).maybeSingle()
+      : Promise.resolve({ data: null }),
+  ]);
+
+  if (!velocity) {
+    return null;
+  }
+
+  const result = predictWithModel(
+    model.params,
+    {
+      venue: event?.venue_name || null,
+      entry_point: entryPoint?.name || null,
+      event_type: event?.event_category || null,
+    },
+    {
+      queue_depth: queueDepth,
+      scans_per_minute: Number(velocity.scans_per_minute),
+      active_scanners: velocity.active_scanners,
+      observed_at: new Date().toISOString(),
     }
+  );
+
+  return {
+    predicted_wait_minutes: result.predicted_wait_minutes,
+    confidence_score: result.confidence_score,
+    factors: {
+      current_velocity: Number(velocity.scans_per_minute),
+      avg_scan_duration_ms: velocity.avg_scan_duration_ms ?? undefined,
+      active_scanners: velocity.active_scanners,
+      queue_depth: queueDepth,
+      model_version: model.version,
+      model_segment: result.segment,
+      entry_point_id: entryPointId,
+    },
+    model_version: model.version,
+  };
+};
 
-    if (!data || data.length === 0) {
+const predictWithRpc = async (
+  eventId: string,
+  entryPointId?: string
+): Promise<NewPrediction | null> => {
+  const { data, error } = await supabase.rpc('predict_wait_time', {
+    event_id_param: eventId,
+    entry_point_id_param: entryPointId || null,
+  });
+
+  if (error) {
+    console.error('Error predicting wait time:', error);
+    return null;
+  }
+
+  if (!data || data.length === 0) {
+    return null;
+  }
+
+  const prediction = data[0] as {
+    predicted_wait_minutes: number;
+    confidence_score: number;
+    factors: PredictionFactors;
+  };
+
+  return { ...prediction, model_version: null };
+};
+
+/**
+ * Predict wait time for an event with the active trained model, or the
+ * predict_wait_time RPC when no model has been activated
+ */
+export const predictWaitTime = async (
+  eventId: string,
+  entryPointId?: string
+): Promise<WaitTimePrediction | null> => {
+  try {
+    const prediction = (await predictWithActiveModel(eventId, entryPointId))
+      ?? (await predictWithRpc(eventId, entryPointId));
+
+    if (!prediction) {
       return null;
     }
 
-    const prediction = data[0] as {
-      predicted_wait_minutes: number;
-      confidence_score: number;
-      factors: PredictionFactors;
-    };
-
     // Save prediction to database
     const { data: savedPrediction, error: saveError } = await supabase
       .from('wait_time_predictions')
@@ -71,6 +162,7 @@ export const predictWaitTime = async (
         confidence_score: prediction.confidence_score,
         factors: prediction.factors,
         entry_point_id: entryPointId || null,
+        model_version: prediction.model_version,
       })
       .select()
       .single();
@@ -87,6 +179,7 @@ export const predictWaitTime = async (
         confidence_score: prediction.confidence_score,
         factors: prediction.factors,
         entry_point_id: entryPointId || null,
+        model_version: prediction.model_version,
         created_at: new Date().toISOString(),
       };
     }
@@ -138,6 +231,32 @@ export const getLatestWaitTimePrediction = async (
   }
 };
 
+/**
+ * Check whether a ticket for an event is still waiting to get in;
+ * works without signing in, for the public queue status page
+ */
+export const getTicketQueueStatus = async (
+  eventId: string,
+  ticketCode: string
+): Promise<'not_found' | 'waiting' | 'scanned' | null> => {
+  try {
+    const { data, error } = await supabase.rpc('get_ticket_queue_status', {
+      p_event_id: eventId,
+      p_ticket_code: ticketCode.trim(),
+    });
+
+    if (error) {
+      console.error('Error looking up ticket queue status:', error);
+      return null;
+    }
+
+    return data as 'not_found' | 'waiting' | 'scanned';
+  } catch (error) {
+    console.error('Exception looking up ticket queue status:', error);
+    return null;
+  }
+};
+
 /**
  * Update prediction with actual wait time for accuracy tracking
  */
@@ -4,6 +4,14 @@ import * as XLSX from 'xlsx';
 import { format } from 'date-fns';
 import { supabase } from '@/integrations/supabase/client';
 import { isSupabaseConfigured } from '@/integrations/supabase/client';
+import type { IncidentDetail } from './incident-service';
+import {
+  INCIDENT_ACTION_LABELS,
+  INCIDENT_PERSON_ROLE_LABELS,
+  INCIDENT_SEVERITY_LABELS,
+  INCIDENT_STATUS_LABELS,
+  INCIDENT_TYPE_LABELS,
+} from './incident-reports';
 
 export interface ReportFilters {
   startDate?: Date;
@@ -989,3 +997,174 @@ const downloadFile = (content: string, mimeType: string, filename: string): void
 };
 
 
+
+const loadImageDataUrl = async (url: string): Promise<string | null> => {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    return await new Promise((resolve) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => resolve(null);
+      reader.readAsDataURL(blob);
+    });
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Export a single incident report to PDF, for insurers or the police.
+ * Photos are embedded from their signed URLs; any that fail to load are listed by caption.
+ */
+export const exportIncidentReportPDF = async (
+  detail: IncidentDetail,
+  filename?: string
+): Promise<void> => {
+  const { report, people, witnesses, photos, actions } = detail;
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 10;
+  const lineHeight = 7;
+  const textWidth = pageWidth - margin * 2;
+  let yPos = margin + 10;
+
+  const ensureSpace = (height: number) => {
+    if (yPos + height > pageHeight - margin - 10) {
+      doc.addPage();
+      yPos = margin + 10;
+    }
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(lineHeight * 2);
+    yPos += 3;
+    doc.setFontSize(12);
+    doc.setFont(undefined, 'bold');
+    doc.text(text, margin, yPos);
+    doc.setFont(undefined, 'normal');
+    doc.setFontSize(10);
+    yPos += lineHeight;
+  };
+
+  const paragraph = (text: string) => {
+    const lines = doc.splitTextToSize(text, textWidth);
+    lines.forEach((line: string) => {
+      ensureSpace(5);
+      doc.text(line, margin, yPos);
+      yPos += 5;
+    });
+  };
+
+  const field = (label: string, value: string) => {
+    ensureSpace(lineHeight);
+    doc.setFont(undefined, 'bold');
+    doc.text(`${label}:`, margin, yPos);
+    doc.setFont(undefined, 'normal');
+    const lines = doc.splitTextToSize(value, textWidth - 45);
+    lines.forEach((line: string, index: number) => {
+      if (index > 0) ensureSpace(5);
+      doc.text(line, margin + 45, yPos);
+      yPos += index === lines.length - 1 ? lineHeight - 1 : 5;
+    });
+  };
+
+  // Title
+  doc.setFontSize(18);
+  doc.text("Incident Report", margin, yPos);
+  yPos += 8;
+  doc.setFontSize(10);
+  doc.setTextColor(100, 100, 100);
+  doc.text(`Reference: ${report.id}`, margin, yPos);
+  yPos += 10;
+  doc.setTextColor(0, 0, 0);
+
+  heading("Summary");
+  field("Event", report.events ? `${report.events.name} (${format(new Date(report.events.event_date), 'MMM d, yyyy')})` : "-");
+  field("Type", INCIDENT_TYPE_LABELS[report.incident_type]);
+  field("Severity", INCIDENT_SEVERITY_LABELS[report.severity]);
+  field("Occurred", format(new Date(report.occurred_at), 'MMM d, yyyy HH:mm'));
+  field("Location", report.location);
+  field("Reported by", `${detail.reporterName} on ${format(new Date(report.created_at), 'MMM d, yyyy HH:mm')}`);
+  field("Status", INCIDENT_STATUS_LABELS[report.status]);
+  field("Police called", report.police_called ? `Yes${report.police_report_number ? ` (report no. ${report.police_report_number})` : ""}` : "No");
+  field("Ambulance called", report.ambulance_called ? "Yes" : "No");
+
+  heading("What happened");
+  paragraph(report.description);
+
+  if (people.length > 0) {
+    heading("People involved");
+    people.forEach((person) => {
+      const identity = [person.name, person.description].filter(Boolean).join(" - ") || "Unnamed";
+      const links = [
+        person.ticket_id ? `ticket ${person.ticket_id}` : null,
+        person.guest_list_entry_id ? "guest list entry" : null,
+        person.banned_guest_id ? "banned" : null,
+      ].filter(Boolean);
+      paragraph(`${INCIDENT_PERSON_ROLE_LABELS[person.role]}: ${identity}${links.length ? ` (${links.join(", ")})` : ""}`);
+    });
+  }
+
+  if (witnesses.length > 0) {
+    heading("Staff witnesses");
+    witnesses.forEach((witness) => {
+      paragraph(`${witness.staffName || witness.staff_user_id}${witness.statement ? `: "${witness.statement}"` : ""}`);
+    });
+  }
+
+  if (report.review_notes || actions.length > 0) {
+    heading("Review and follow-up");
+    if (report.review_notes) field("Review notes", report.review_notes);
+    actions.forEach((action) => {
+      const done = action.completed_at ? `done ${format(new Date(action.completed_at), 'MMM d, yyyy')}` : "open";
+      paragraph(`${INCIDENT_ACTION_LABELS[action.action_type]} (${done}): ${action.description}`);
+    });
+  }
+
+  if (photos.length > 0) {
+    heading(`Photos (${photos.length})`);
+    const imageWidth = 90;
+    for (const photo of photos) {
+      const dataUrl = photo.url ? await loadImageDataUrl(photo.url) : null;
+      if (!dataUrl) {
+        paragraph(`Photo could not be loaded: ${photo.caption || photo.storage_path}`);
+        continue;
+      }
+      const { width, height } = doc.getImageProperties(dataUrl);
+      const imageHeight = Math.min((height / width) * imageWidth, 120);
+      ensureSpace(imageHeight + lineHeight);
+      doc.addImage(dataUrl, 'JPEG', margin, yPos, (width / height) * imageHeight, imageHeight);
+      yPos += imageHeight + 5;
+      if (photo.caption) paragraph(photo.caption);
+      yPos += 2;
+    }
+  }
+
+  // Signature lines
+  ensureSpace(30);
+  yPos += 15;
+  doc.line(margin, yPos, margin + 80, yPos);
+  doc.line(pageWidth - margin - 80, yPos, pageWidth - margin, yPos);
+  yPos += 5;
+  doc.setFontSize(8);
+  doc.text("Reporting staff signature / date", margin, yPos);
+  doc.text("Manager signature / date", pageWidth - margin - 80, yPos);
+
+  // Footer
+  const totalPages = doc.getNumberOfPages();
+  for (let i = 1; i <= totalPages; i++) {
+    doc.setPage(i);
+    doc.setFontSize(8);
+    doc.setTextColor(100, 100, 100);
+    doc.text(
+      `Incident ${report.id.slice(0, 8)} | Page ${i} of ${totalPages} | Generated ${format(new Date(), 'MMM d, yyyy HH:mm')}`,
+      margin,
+      pageHeight - 5
+    );
+  }
+
+  doc.save(filename || `incident-${format(new Date(report.occurred_at), 'yyyy-MM-dd')}-${report.id.slice(0, 8)}.pdf`);
+};
@@ -0,0 +1,246 @@
+/**
+ * Restaurant Service
+ * Menu management and the kitchen order board for maguey-nights online orders
+ *
+ * - restaurant_menu_categories / restaurant_menu_items (public menu, owner-edited)
+ * - restaurant_orders / restaurant_order_items (created by create-restaurant-checkout)
+ *
+ * Status changes go through the restaurant-order-status Edge Function so the
+ * guest is emailed/texted and cancelled orders are refunded.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+
+// Type assertion needed since the restaurant tables are not in the
+// generated types yet
+const restaurantDb = supabase as any;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RestaurantOrderStatus =
+  | 'pending_payment'
+  | 'received'
+  | 'preparing'
+  | 'ready'
+  | 'completed'
+  | 'cancelled';
+
+export interface RestaurantMenuCategory {
+  id: string;
+  name: string;
+  sort_order: number;
+  is_active: boolean;
+}
+
+export interface RestaurantMenuItem {
+  id: string;
+  category_id: string;
+  name: string;
+  description: string | null;
+  price: number;
+  sale_price: number | null;
+  is_available: boolean;
+  sort_order: number;
+}
+
+export interface RestaurantOrderItem {
+  id: string;
+  name: string;
+  unit_price: number;
+  quantity: number;
+  line_total: number;
+}
+
+export interface RestaurantOrder {
+  id: string;
+  order_number: string;
+  status: RestaurantOrderStatus;
+  order_type: 'pickup' | 'delivery';
+  customer_name: string;
+  customer_email: string;
+  customer_phone: string;
+  delivery_address: string | null;
+  special_instructions: string | null;
+  subtotal: number;
+  delivery_fee: number;
+  total: number;
+  created_at: string;
+  paid_at: string | null;
+  ready_at: string | null;
+  items: RestaurantOrderItem[];
+}
+
+/** Orders shown on the kitchen board */
+export const OPEN_ORDER_STATUSES: RestaurantOrderStatus[] = ['received', 'preparing', 'ready'];
+
+/** Next step for each open status (mirrors RESTAURANT_STATUS_TRANSITIONS in the Edge Function) */
+export const NEXT_ORDER_STATUS: Partial<Record<RestaurantOrderStatus, RestaurantOrderStatus>> = {
+  received: 'preparing',
+  preparing: 'ready',
+  ready: 'completed',
+};
+
+// ============================================================================
+// Menu
+// ============================================================================
+
+export async function getMenuCategories(): Promise<RestaurantMenuCategory[]> {
+  const { data, error } = await restaurantDb
+    .from('restaurant_menu_categories')
+    .select('*')
+    .order('sort_order', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching menu categories:', error);
+    throw error;
+  }
+
+  return (data || []) as RestaurantMenuCategory[];
+}
+
+export async function updateMenuCategory(
+  categoryId: string,
+  updates: Partial<Omit<RestaurantMenuCategory, 'id'>>
+): Promise<void> {
+  const { error } = await restaurantDb
+    .from('restaurant_menu_categories')
+    .update(updates)
+    .eq('id', categoryId);
+
+  if (error) {
+    console.error('Error updating menu category:', error);
+    throw error;
+  }
+}
+
+export async function getMenuItems(): Promise<RestaurantMenuItem[]> {
+  const { data, error } = await restaurantDb
+    .from('restaurant_menu_items')
+    .select('*')
+    .order('sort_order', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching menu items:', error);
+    throw error;
+  }
+
+  return (data || []).map((item: any) => ({
+    ...item,
+    price: Number(item.price),
+    sale_price: item.sale_price === null ? null : Number(item.sale_price),
+  }));
+}
+
+export async function createMenuItem(
+  item: Omit<RestaurantMenuItem, 'id'>
+): Promise<RestaurantMenuItem> {
+  const { data, error } = await restaurantDb
+    .from('restaurant_menu_items')
+    .insert(item)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating menu item:', error);
+    throw error;
+  }
+
+  return data as RestaurantMenuItem;
+}
+
+export async function updateMenuItem(
+  itemId: string,
+  updates: Partial<Omit<RestaurantMenuItem, 'id'>>
+): Promise<void> {
+  const { error } = await restaurantDb
+    .from('restaurant_menu_items')
+    .update(updates)
+    .eq('id', itemId);
+
+  if (error) {
+    console.error('Error updating menu item:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a menu item. Past orders keep their name/price snapshot.
+ */
+export async function deleteMenuItem(itemId: string): Promise<void> {
+  const { error } = await restaurantDb
+    .from('restaurant_menu_items')
+    .delete()
+    .eq('id', itemId);
+
+  if (error) {
+    console.error('Error deleting menu item:', error);
+    throw error;
+  }
+}
+
+// ============================================================================
+// Orders
+// ============================================================================
+
+/**
+ * Paid orders the kitchen still has to finish, oldest first
+ */
+export async function getOpenOrders(): Promise<RestaurantOrder[]> {
+  const { data, error } = await restaurantDb
+    .from('restaurant_orders')
+    .select(`
+      *,
+      items:restaurant_order_items (id, name, unit_price, quantity, line_total)
+    `)
+    .in('status', OPEN_ORDER_STATUSES)
+    .order('paid_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching restaurant orders:', error);
+    throw error;
+  }
+
+  return (data || []) as RestaurantOrder[];
+}
+
+/**
+ * Move an order to its next status (or cancel it). Returns a warning when
+ * the status changed but a side effect (refund) failed.
+ */
+export async function updateRestaurantOrderStatus(
+  orderId: string,
+  status: RestaurantOrderStatus
+): Promise<{ warning?: string }> {
+  const { data, error } = await supabase.functions.invoke('restaurant-order-status', {
+    body: { orderId, status },
+  });
+
+  if (error) {
+    // Surface the Edge Function's message (e.g. another device already moved the order)
+    const body = await (error as any).context?.json?.().catch(() => null);
+    throw new Error(body?.error || error.message || 'Failed to update order');
+  }
+
+  return { warning: data?.warning };
+}
+
+/**
+ * Subscribe to order changes for the kitchen board
+ * Returns unsubscribe function
+ */
+export function subscribeToRestaurantOrders(onChange: () => void): () => void {
+  const channel = supabase
+    .channel('restaurant-orders-board')
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'restaurant_orders' },
+      () => onChange()
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
@@ -7,10 +7,16 @@ import {
   type VipReservation,
 } from '@/lib/vip-tables-admin-service';
 import { resolveStaffNames } from './staff-name-service';
+import { findBannedGuest, recordBanMatch } from './banned-guest-service';
+import { banMatchMessage, type BanMatch } from './banned-guests';
+import { tracer, parseTraceparent } from './tracing';
+import { createScanSpan } from './tracing/scan-spans';
+import { startTimer, trackTicketScan } from './monitoring';
 
 export interface ScanContext {
   staffUserId?: string;   // current user's auth UUID
   deviceLabel?: string;   // human-readable device name or ID
+  clearedBanIds?: string[]; // possible ban matches staff checked and cleared
 }
 
 export interface ScanResult {
@@ -23,7 +29,7 @@ export interface ScanResult {
   entryType?: 'first_entry' | 'reentry';
 
   // Detailed rejection info
-  rejectionReason?: 'already_used' | 'wrong_event' | 'invalid' | 'expired' | 'tampered' | 'not_found' | 'offline_unknown';
+  rejectionReason?: 'already_used' | 'wrong_event' | 'invalid' | 'expired' | 'tampered' | 'not_found' | 'offline_unknown' | 'voided' | 'banned';
   rejectionDetails?: {
     previousScan?: {
       staff: string;      // Display name or "Unknown Staff"
@@ -32,6 +38,7 @@ export interface ScanResult {
     };
     wrongEventDate?: string;  // "Saturday Feb 1st"
     wrongEventName?: string;  // Event name for context
+    bannedGuest?: BanMatch;   // Matching entry on the banned guest list
   };
 
   // VIP-linked ticket info (for re-entry and display)
@@ -41,6 +48,9 @@ export interface ScanResult {
     reservationId: string;
   };
 
+  // Purchaser's loyalty tier perks (skip-the-line badge, free re-entry)
+  loyaltyPerks?: LoyaltyPerks;
+
   // Offline mode fields
   offlineValidated?: boolean;  // True if validated against cache (not server)
   offlineWarning?: string;     // Warning message for unknown tickets in offline mode
@@ -86,6 +96,15 @@ interface VipLinkCheckResult {
   error?: string;
 }
 
+// Loyalty perks of a ticket's purchaser (from get_ticket_loyalty_perks)
+export interface LoyaltyPerks {
+  tier: 'bronze' | 'silver' | 'gold' | 'platinum' | null;
+  free_reentry: boolean;
+  skip_line: boolean;
+}
+
+const NO_LOYALTY_PERKS: LoyaltyPerks = { tier: null, free_reentry: false, skip_line: false };
+
 // QR code signature verification
 interface QrPayload {
   token: string;
@@ -205,10 +224,45 @@ async function checkVipLinkedTicket(ticketId: string, client: SupabaseClient = d
   }
 }
 
+/**
+ * Look up the purchaser's loyalty tier perks (free re-entry, skip the line)
+ */
+async function getTicketLoyaltyPerks(ticketId: string, client: SupabaseClient = defaultClient): Promise<LoyaltyPerks> {
+  try {
+    const { data, error } = await client.rpc('get_ticket_loyalty_perks', {
+      p_ticket_id: ticketId
+    });
+
+    if (error || !data) {
+      if (error) console.error('[simple-scanner] Error checking loyalty perks:', error);
+      return NO_LOYALTY_PERKS;
+    }
+
+    return data as LoyaltyPerks;
+  } catch (error) {
+    console.error('[simple-scanner] Exception checking loyalty perks:', error);
+    return NO_LOYALTY_PERKS;
+  }
+}
+
 /**
  * Find a ticket by ID, QR code data, or NFC tag
  * Searches multiple columns to find a match
  */
+/**
+ * Entry-denied message for a refunded or voided ticket, or null when the
+ * ticket is good. Tickets are voided while their payment is disputed.
+ */
+export function getVoidedTicketMessage(ticket: Pick<Ticket, 'refund_status' | 'refund_reason'>): string | null {
+  if (ticket.refund_status === 'voided') {
+    return `Ticket voided${ticket.refund_reason ? ` - ${ticket.refund_reason}` : ''}. Send the guest to the box office.`;
+  }
+  if (ticket.refund_status === 'refunded') {
+    return 'This ticket has been refunded. Entry denied.';
+  }
+  return null;
+}
+
 export async function findTicket(input: string, client: SupabaseClient = defaultClient): Promise<Ticket | null> {
   const trimmedInput = input.trim();
 
@@ -297,6 +351,41 @@ export async function scanTicket(
   method: 'manual' | 'qr' | 'nfc' = 'manual',
   client: SupabaseClient = defaultClient,
   context?: ScanContext
+): Promise<ScanResult> {
+  const stopTimer = startTimer();
+  const metadata = { scannerId: context?.deviceLabel };
+
+  try {
+    const result = await admitTicket(input, userId, method, client, context);
+    trackTicketScan(result.ticket?.id || '', stopTimer(), getScanMetricResult(result), {
+      ...metadata,
+      eventId: result.ticket?.event_id,
+    });
+    return result;
+  } catch (error) {
+    trackTicketScan('', stopTimer(), 'error', metadata);
+    throw error;
+  }
+}
+
+/**
+ * How a scan counts in the ticket.scans.* metrics
+ */
+function getScanMetricResult(result: ScanResult): 'valid' | 'invalid' | 'already_scanned' | 'error' {
+  if (result.success) return 'valid';
+  if (result.alreadyScanned) return 'already_scanned';
+  return result.rejectionReason ? 'invalid' : 'error';
+}
+
+/**
+ * The scan itself; scanTicket times it and records the result
+ */
+async function admitTicket(
+  input: string,
+  userId: string | undefined,
+  method: 'manual' | 'qr' | 'nfc',
+  client: SupabaseClient,
+  context?: ScanContext
 ): Promise<ScanResult> {
   // Parse input - handles both QR JSON payloads and plain ticket IDs
   const parsed = await parseQrInput(input);
@@ -380,9 +469,49 @@ export async function scanTicket(
     };
   }
 
-  // Check if ticket is linked to VIP reservation (for re-entry privilege)
-  const vipLinkCheck = await checkVipLinkedTicket(ticket.id, client);
+  // Refunded tickets and tickets voided by a payment dispute never get in
+  const voidedMessage = getVoidedTicketMessage(ticket);
+  if (voidedMessage) {
+    logFailedScan('voided', method, { ticketId: ticket.id, errorMessage: voidedMessage }, userId, client);
+
+    return {
+      success: false,
+      ticket,
+      message: voidedMessage,
+      rejectionReason: 'voided',
+    };
+  }
+
+  // Banned guests are turned away whatever ticket they hold
+  const banMatch = await findBannedGuest(
+    { name: ticket.guest_name, email: ticket.guest_email, phone: ticket.guest_phone },
+    { clearedBanIds: context?.clearedBanIds, client }
+  );
+  if (banMatch) {
+    const banMessage = banMatchMessage(banMatch);
+    logFailedScan('banned', method, { ticketId: ticket.id, errorMessage: banMessage }, userId, client);
+    recordBanMatch(banMatch, 'scan', 'rejected', {
+      ticketId: ticket.id,
+      eventId: ticket.event_id,
+      staffUserId: context?.staffUserId,
+    }, client);
+
+    return {
+      success: false,
+      ticket,
+      message: banMessage,
+      rejectionReason: 'banned',
+      rejectionDetails: { bannedGuest: banMatch },
+    };
+  }
+
+  // Check if ticket is linked to VIP reservation or a loyalty tier (for re-entry privilege)
+  const [vipLinkCheck, loyaltyPerks] = await Promise.all([
+    checkVipLinkedTicket(ticket.id, client),
+    getTicketLoyaltyPerks(ticket.id, client),
+  ]);
   const isVipLinked = vipLinkCheck.is_vip_linked && vipLinkCheck.allow_reentry;
+  const hasLoyaltyPerks = loyaltyPerks.free_reentry || loyaltyPerks.skip_line;
 
   // Check if already scanned - check both is_used and status for robustness
   const isAlreadyScanned = ticket.is_used === true || ticket.status === 'scanned';
@@ -410,6 +539,28 @@ export async function scanTicket(
           tableNumber: vipLinkCheck.table_number || '',
           reservationId: vipLinkCheck.vip_reservation_id || '',
         },
+        ...(hasLoyaltyPerks && { loyaltyPerks }),
+      };
+    }
+
+    // Loyalty tiers with free re-entry
+    if (loyaltyPerks.free_reentry) {
+      console.log('[simple-scanner] Loyalty re-entry granted:', loyaltyPerks.tier);
+
+      const scannedTime = ticket.scanned_at
+        ? new Date(ticket.scanned_at).toLocaleTimeString('en-US', {
+          hour: 'numeric',
+          minute: '2-digit',
+          hour12: true
+        })
+        : 'unknown time';
+
+      return {
+        success: true,
+        ticket,
+        message: `Re-entry granted (${loyaltyPerks.tier} member) - Last entry at ${scannedTime}`,
+        entryType: 'reentry',
+        loyaltyPerks,
       };
     }
 
@@ -452,6 +603,15 @@ export async function scanTicket(
     };
   }
 
+  // Admission closes the purchase trace the ticket was issued under
+  const scanSpan = createScanSpan(
+    ticket.id,
+    userId || 'unknown',
+    ticket.event_id || '',
+    (ticket.traceparent && parseTraceparent(ticket.traceparent)) || undefined
+  );
+  scanSpan.setAttribute('scanner.scan_method', method);
+
   // Mark as scanned - update both is_used and status for schema consistency
   const now = new Date().toISOString();
   console.log('[simple-scanner] Marking ticket as scanned:', ticket.id);
@@ -470,6 +630,8 @@ export async function scanTicket(
     console.error('[simple-scanner] Error updating ticket:', updateError);
     console.error('[simple-scanner] Error code:', updateError.code);
     console.error('[simple-scanner] Error message:', updateError.message);
+    scanSpan.setError(updateError.message);
+    await tracer.endSpan(scanSpan);
     return {
       success: false,
       ticket,
@@ -482,6 +644,8 @@ export async function scanTicket(
   // Check if update actually happened (RLS might silently block)
   if (!updateData || updateData.length === 0) {
     console.error('[simple-scanner] Update returned no data - possibly RLS blocked');
+    scanSpan.setError('Update blocked');
+    await tracer.endSpan(scanSpan);
     return {
       success: false,
       ticket,
@@ -530,6 +694,13 @@ export async function scanTicket(
     };
   }
 
+  if (hasLoyaltyPerks) {
+    result.loyaltyPerks = loyaltyPerks;
+  }
+
+  scanSpan.setAttribute('scanner.vip_linked', isVipLinked);
+  await tracer.endSpan(scanSpan);
+
   return result;
 }
 
@@ -878,6 +1049,37 @@ export async function scanTicketOffline(
     };
   }
 
+  if (cacheResult.ticket?.voided) {
+    return {
+      success: false,
+      ticket: convertCachedToTicket(cacheResult.ticket),
+      message: 'This ticket was refunded or voided. Entry denied.',
+      rejectionReason: 'voided',
+      offlineValidated: true,
+    };
+  }
+
+  if (cacheResult.ticket) {
+    const banMatch = await findBannedGuest(
+      {
+        name: cacheResult.ticket.guestName,
+        email: cacheResult.ticket.guestEmail,
+        phone: cacheResult.ticket.guestPhone,
+      },
+      { clearedBanIds: context?.clearedBanIds, offline: true }
+    );
+    if (banMatch) {
+      return {
+        success: false,
+        ticket: convertCachedToTicket(cacheResult.ticket),
+        message: banMatchMessage(banMatch),
+        rejectionReason: 'banned',
+        rejectionDetails: { bannedGuest: banMatch },
+        offlineValidated: true,
+      };
+    }
+  }
+
   if (cacheResult.status === 'scanned') {
     // Already scanned - show cached scan info
     const cachedTicket = cacheResult.ticket!;
@@ -898,7 +1100,7 @@ export async function scanTicketOffline(
       rejectionDetails: {
         previousScan: {
           staff: cachedTicket.scannedByName || 'Staff',
-          gate: context?.deviceLabel || 'This device',
+          gate: cachedTicket.scannedByDevice || context?.deviceLabel || 'This device',
           time: scannedTime,
         },
       },
@@ -37,6 +37,12 @@ export interface Ticket {
   purchase_date: string | null;
   price_paid: number | null;
   metadata: Record<string, unknown> | null;
+  /** none | refunded | voided (payment disputed) | partial_refund */
+  refund_status?: string | null;
+  refund_reason?: string | null;
+  event_id?: string | null;
+  /** W3C traceparent of the purchase that issued the ticket */
+  traceparent?: string | null;
 }
 
 export interface Event {
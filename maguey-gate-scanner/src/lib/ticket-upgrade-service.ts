@@ -0,0 +1,84 @@
+/**
+ * Ticket Upgrade Service
+ * Door upsell: move a scanned guest to a higher ticket type (e.g. GA → VIP)
+ *
+ * Goes through the upgrade-ticket Edge Function, which prices the upgrade
+ * from the current (tier-aware) ticket type prices, moves inventory, re-issues
+ * the QR code and records the TicketUpgraded event.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+
+export type DoorPaymentMethod = 'cash' | 'card_terminal' | 'comp';
+
+export const DOOR_PAYMENT_METHOD_LABELS: Record<DoorPaymentMethod, string> = {
+  cash: 'Cash',
+  card_terminal: 'Card',
+  comp: 'Comp',
+};
+
+export interface TicketUpgradeOption {
+  ticket_type_id: string;
+  name: string;
+  category: string;
+  description: string | null;
+  current_price: number;
+  tier_name: string | null;
+  price_difference: number;
+  remaining: number | null;
+}
+
+export interface CompletedDoorUpgrade {
+  upgrade_id: string;
+  ticket_id: string;
+  to_ticket_type_name: string | null;
+  price_difference: number;
+}
+
+async function invokeUpgradeTicket<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('upgrade-ticket', { body });
+
+  if (error) {
+    // Surface the Edge Function's message (e.g. sold out, already upgraded)
+    const errorBody = await (error as any).context?.json?.().catch(() => null);
+    throw new Error(errorBody?.error || error.message || 'Upgrade failed');
+  }
+
+  return data as T;
+}
+
+/**
+ * Higher-priced ticket types for the ticket's event, cheapest first
+ * @param ticketId - tickets.id (UUID)
+ */
+export async function getTicketUpgradeOptions(ticketId: string): Promise<TicketUpgradeOption[]> {
+  const { options } = await invokeUpgradeTicket<{ options: TicketUpgradeOption[] }>({
+    action: 'options',
+    ticketId,
+  });
+
+  return (options || []).map((option) => ({
+    ...option,
+    current_price: Number(option.current_price),
+    price_difference: Number(option.price_difference),
+  }));
+}
+
+/**
+ * Apply an upgrade paid at the door (or comped). The guest's old QR code
+ * stops working; the new one is emailed to them.
+ */
+export async function upgradeTicketAtDoor(
+  ticketId: string,
+  toTicketTypeId: string,
+  paymentMethod: DoorPaymentMethod
+): Promise<CompletedDoorUpgrade> {
+  const { upgrade } = await invokeUpgradeTicket<{ upgrade: CompletedDoorUpgrade }>({
+    action: 'door',
+    ticketId,
+    toTicketTypeId,
+    paymentMethod,
+  });
+
+  return { ...upgrade, price_difference: Number(upgrade.price_difference) };
+}
@@ -9,6 +9,7 @@ export * from './span';
 export * from './tracer';
 export * from './exporters/console-exporter';
 export * from './exporters/supabase-exporter';
+export * from './exporters/otlp-exporter';
 
 import { tracer } from './tracer';
 import { SpanBuilder, SpanAttributes } from './span';
@@ -22,6 +22,7 @@ export interface Span {
   traceId: string;
   spanId: string;
   parentSpanId?: string;
+  traceFlags?: number;
   name: string;
   kind: SpanKind;
   startTime: number;
@@ -43,6 +44,7 @@ export class SpanBuilder {
       traceId: context.traceId,
       spanId: context.spanId,
       parentSpanId: context.parentSpanId,
+      traceFlags: context.traceFlags,
       name,
       kind,
       startTime: Date.now(),
@@ -134,6 +136,18 @@ export class SpanBuilder {
     return { ...this.span };
   }
 
+  /**
+   * Get the span's trace context (for propagating to downstream calls)
+   */
+  getContext(): TraceContext {
+    return {
+      traceId: this.span.traceId,
+      spanId: this.span.spanId,
+      parentSpanId: this.span.parentSpanId,
+      traceFlags: this.span.traceFlags ?? 0x01,
+    };
+  }
+
   /**
    * Get the current span (for inspection before ending)
    */
@@ -5,6 +5,7 @@
 import { TraceContext, createRootContext, createChildContext, shouldSample, isSampled, generateTraceId, parseTraceparent, formatTraceparent } from './trace-context';
 import { Span, SpanBuilder, SpanKind, SpanAttributes } from './span';
 import { SpanExporter } from './exporters/console-exporter';
+import { OtlpHttpExporter, otlpTracesUrl, parseOtlpHeaders } from './exporters/otlp-exporter';
 
 export interface TracerConfig {
   serviceName: string;
@@ -16,6 +17,8 @@ export interface TracerConfig {
 
 export interface SpanExporter {
   export(spans: Span[]): Promise<void>;
+  /** Send anything the exporter is still holding (batching exporters) */
+  forceFlush?(): Promise<void>;
 }
 
 /**
@@ -28,6 +31,7 @@ export class Tracer {
     exporters: SpanExporter[];
   };
   private activeSpans: Map<string, SpanBuilder>;
+  private previousContexts: Map<string, TraceContext | null>;
   private completedSpans: Span[];
   private currentContext: TraceContext | null;
   private flushInterval: number | null;
@@ -41,19 +45,29 @@ export class Tracer {
       exporters: config.exporters || [],
     };
     this.activeSpans = new Map();
+    this.previousContexts = new Map();
     this.completedSpans = [];
     this.currentContext = null;
     this.flushInterval = null;
 
     // Auto-flush completed spans periodically (every 5 seconds)
-    if (typeof window === 'undefined') {
-      // Only in Node.js environment
+    if (typeof window === 'undefined' || this.config.exporters.length > 0) {
+      // In the browser only when something will receive the spans
       this.flushInterval = setInterval(() => {
         this.flush().catch(err => {
           console.error('[Tracer] Error flushing spans:', err);
         });
       }, 5000) as unknown as number;
     }
+
+    // Checkout navigates away to Stripe; send what we have before the page goes
+    if (typeof window !== 'undefined' && this.config.exporters.length > 0) {
+      window.addEventListener('pagehide', () => {
+        this.forceFlush().catch(err => {
+          console.error('[Tracer] Error flushing spans on pagehide:', err);
+        });
+      });
+    }
   }
 
   /**
@@ -88,6 +102,7 @@ export class Tracer {
     }
 
     // Update current context
+    this.previousContexts.set(context.spanId, this.currentContext);
     this.currentContext = context;
 
     const builder = new SpanBuilder(name, context, options?.kind || 'internal');
@@ -119,7 +134,7 @@ export class Tracer {
   async withSpan<T>(
     name: string,
     fn: (span: SpanBuilder) => Promise<T>,
-    options?: { kind?: SpanKind; attributes?: SpanAttributes }
+    options?: { kind?: SpanKind; parentContext?: TraceContext; attributes?: SpanAttributes }
   ): Promise<T> {
     const span = this.startSpan(name, options);
     
@@ -131,17 +146,31 @@ export class Tracer {
       span.setError(error instanceof Error ? error : String(error));
       throw error;
     } finally {
-      const completedSpan = span.end();
-      this.activeSpans.delete(completedSpan.spanId);
-      this.completedSpans.push(completedSpan);
-      
-      // Auto-flush if we have many spans
-      if (this.completedSpans.length >= 100) {
-        await this.flush();
-      }
+      await this.endSpan(span);
     }
   }
 
+  /**
+   * End a span started with startSpan() and queue it for export
+   */
+  async endSpan(span: SpanBuilder): Promise<Span> {
+    const completedSpan = span.end();
+    this.activeSpans.delete(completedSpan.spanId);
+    this.completedSpans.push(completedSpan);
+
+    // Later spans parent to whatever was current before this one started
+    if (this.currentContext?.spanId === completedSpan.spanId) {
+      this.currentContext = this.previousContexts.get(completedSpan.spanId) ?? null;
+    }
+    this.previousContexts.delete(completedSpan.spanId);
+
+    // Auto-flush if we have many spans
+    if (this.completedSpans.length >= 100) {
+      await this.flush();
+    }
+    return completedSpan;
+  }
+
   /**
    * Extract trace context from HTTP headers
    */
@@ -201,6 +230,16 @@ export class Tracer {
     await Promise.allSettled(exportPromises);
   }
 
+  /**
+   * Flush completed spans and make batching exporters send them now
+   */
+  async forceFlush(): Promise<void> {
+    await this.flush();
+    await Promise.allSettled(
+      this.config.exporters.map(exporter => exporter.forceFlush?.())
+    );
+  }
+
   /**
    * Cleanup resources
    */
@@ -222,9 +261,21 @@ const env =
   (typeof import.meta !== 'undefined' && (import.meta as any).env) ??
   (typeof process !== 'undefined' ? process.env : {});
 
+const otlpEndpoint = env.VITE_OTEL_EXPORTER_OTLP_ENDPOINT;
+const samplerArg = env.VITE_OTEL_TRACES_SAMPLER_ARG;
+
 export const tracer = new Tracer({
   serviceName: 'maguey-gate-scanner',
   serviceVersion: '1.0.0',
   environment: env.MODE || env.NODE_ENV || 'development',
-  sampleRate: env.MODE === 'production' ? 0.1 : 1.0, // Sample 10% in prod, 100% in dev
+  // Sample 10% in prod, 100% in dev, unless VITE_OTEL_TRACES_SAMPLER_ARG says otherwise
+  sampleRate: samplerArg !== undefined && samplerArg !== '' && !isNaN(Number(samplerArg))
+    ? Number(samplerArg)
+    : env.MODE === 'production' ? 0.1 : 1.0,
+  exporters: otlpEndpoint
+    ? [new OtlpHttpExporter({
+      endpoint: otlpTracesUrl(otlpEndpoint),
+      headers: parseOtlpHeaders(env.VITE_OTEL_EXPORTER_OTLP_HEADERS),
+    })]
+    : [],
 });
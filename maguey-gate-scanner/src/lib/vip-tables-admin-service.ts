@@ -1155,6 +1155,40 @@ export async function generateInviteCode(reservationId: string): Promise<{ code:
   return { code };
 }
 
+// ============================================================================
+// Split Payment
+// ============================================================================
+
+export interface VipPaymentShare {
+  id: string;
+  payer_email: string;
+  payer_name: string | null;
+  is_host: boolean;
+  amount_cents: number;
+  status: 'pending' | 'paid' | 'covered_by_host' | 'cancelled' | 'refunded';
+  paid_at: string | null;
+}
+
+/**
+ * Get who has paid their share of a split-payment table, host first.
+ * Empty for tables paid in full.
+ */
+export async function getReservationPaymentShares(reservationId: string): Promise<VipPaymentShare[]> {
+  const { data, error } = await (supabase as any)
+    .from('vip_payment_shares')
+    .select('id, payer_email, payer_name, is_host, amount_cents, status, paid_at')
+    .eq('reservation_id', reservationId)
+    .order('is_host', { ascending: false })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching payment shares:', error);
+    return [];
+  }
+
+  return (data || []) as VipPaymentShare[];
+}
+
 // ============================================================================
 // Legacy Compatibility
 // ============================================================================
@@ -0,0 +1,209 @@
+import { supabase } from './supabase';
+import {
+  backtestWaitTimeModel,
+  buildTrainingSamples,
+  trainWaitTimeModel,
+  type BacktestResult,
+  type PastNight,
+  type RecordedWait,
+  type VelocityPeriod,
+  type WaitTimeModelParams,
+} from './wait-time-model';
+
+export interface WaitTimeModel {
+  id: string;
+  version: number;
+  params: WaitTimeModelParams;
+  training_summary: {
+    nights: number;
+    samples: number;
+    segments: number;
+    from: string | null;
+    to: string | null;
+  };
+  backtest: BacktestResult | null;
+  notes: string | null;
+  is_active: boolean;
+  previous_model_id: string | null;
+  trained_by: string | null;
+  trained_at: string;
+  activated_at: string | null;
+}
+
+const PAGE_SIZE = 1000;
+const ACTIVE_MODEL_TTL_MS = 5 * 60 * 1000;
+
+let activeModelCache: { model: WaitTimeModel | null; loadedAt: number } | null = null;
+
+/**
+ * Page through a query; PostgREST caps a single response at 1000 rows and
+ * a season of minute-by-minute metrics is far more than that
+ */
+async function fetchAllRows<T>(
+  buildQuery: () => { range: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }> }
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await buildQuery().range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Load every event in the last `daysBack` days (not tonight) with its scan
+ * velocity metrics, entry point names and recorded actual waits
+ */
+export const loadPastNights = async (daysBack: number = 180): Promise<PastNight[]> => {
+  const today = new Date().toISOString().split('T')[0];
+  const since = new Date(Date.now() - daysBack * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+  const { data: events, error } = await supabase
+    .from('events')
+    .select('id, event_date, venue_name, event_category')
+    .gte('event_date', since)
+    .lt('event_date', today);
+
+  if (error) throw error;
+  if (!events || events.length === 0) return [];
+
+  const eventIds = events.map((event) => event.id);
+
+  const [metrics, entryPoints, recorded] = await Promise.all([
+    fetchAllRows<VelocityPeriod & { event_id: string }>(() =>
+      supabase
+        .from('scan_velocity_metrics')
+        .select('event_id, period_start, period_end, scan_count, scans_per_minute, active_scanners, estimated_queue_depth, entry_point_id')
+        .in('event_id', eventIds)
+        .order('period_start', { ascending: true })
+    ),
+    fetchAllRows<{ id: string; name: string; event_id: string }>(() =>
+      supabase.from('entry_points').select('id, name, event_id').in('event_id', eventIds)
+    ),
+    fetchAllRows<RecordedWait & { event_id: string }>(() =>
+      supabase
+        .from('wait_time_predictions')
+        .select('event_id, prediction_time, entry_point_id, actual_wait_minutes')
+        .in('event_id', eventIds)
+        .not('actual_wait_minutes', 'is', null)
+    ),
+  ]);
+
+  return events.map((event) => ({
+    event_id: event.id,
+    night: event.event_date,
+    venue: event.venue_name || null,
+    event_type: event.event_category || null,
+    metrics: metrics.filter((m) => m.event_id === event.id),
+    recorded_waits: recorded.filter((r) => r.event_id === event.id),
+    entry_point_names: Object.fromEntries(
+      entryPoints.filter((p) => p.event_id === event.id).map((p) => [p.id, p.name])
+    ),
+  }));
+};
+
+/**
+ * Backtest on past nights, train on all of them and save the result as a
+ * new (inactive) version
+ */
+export const trainWaitTimeModelVersion = async (
+  options: { daysBack?: number; notes?: string } = {}
+): Promise<WaitTimeModel> => {
+  const nights = await loadPastNights(options.daysBack);
+  const samples = buildTrainingSamples(nights);
+
+  if (samples.length === 0) {
+    throw new Error('No past nights with scan velocity metrics to train on');
+  }
+
+  const backtest = backtestWaitTimeModel(samples);
+  const params = trainWaitTimeModel(samples);
+  const sampleNights = [...new Set(samples.map((sample) => sample.night))].sort();
+
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const { data, error } = await supabase
+    .from('wait_time_models')
+    .insert({
+      params,
+      backtest,
+      notes: options.notes || null,
+      trained_by: user?.id || null,
+      training_summary: {
+        nights: new Set(samples.map((sample) => `${sample.night}|${sample.event_id}`)).size,
+        samples: samples.length,
+        segments: Object.keys(params.segments).length,
+        from: sampleNights[0] || null,
+        to: sampleNights[sampleNights.length - 1] || null,
+      },
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as WaitTimeModel;
+};
+
+/**
+ * Get trained versions, newest first
+ */
+export const getWaitTimeModels = async (limit: number = 20): Promise<WaitTimeModel[]> => {
+  const { data, error } = await supabase
+    .from('wait_time_models')
+    .select('*')
+    .order('version', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data || []) as WaitTimeModel[];
+};
+
+/**
+ * Get the version predictWaitTime uses, cached for a few minutes;
+ * null means predictions come from predict_wait_time
+ */
+export const getActiveWaitTimeModel = async (): Promise<WaitTimeModel | null> => {
+  if (activeModelCache && Date.now() - activeModelCache.loadedAt < ACTIVE_MODEL_TTL_MS) {
+    return activeModelCache.model;
+  }
+
+  const { data, error } = await supabase
+    .from('wait_time_models')
+    .select('*')
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  activeModelCache = { model: (data as WaitTimeModel) || null, loadedAt: Date.now() };
+  return activeModelCache.model;
+};
+
+/**
+ * Make a trained version the active one
+ */
+export const activateWaitTimeModel = async (modelId: string): Promise<WaitTimeModel> => {
+  const { data, error } = await supabase.rpc('activate_wait_time_model', {
+    p_model_id: modelId,
+  });
+
+  if (error) throw error;
+
+  activeModelCache = null;
+  return data as WaitTimeModel;
+};
+
+/**
+ * Go back to the version the active one replaced; returns null when that
+ * leaves no trained model active
+ */
+export const rollbackWaitTimeModel = async (): Promise<WaitTimeModel | null> => {
+  const { data, error } = await supabase.rpc('rollback_wait_time_model');
+
+  if (error) throw error;
+
+  activeModelCache = null;
+  // A composite NULL comes back as a row of nulls
+  return data?.id ? (data as WaitTimeModel) : null;
+};
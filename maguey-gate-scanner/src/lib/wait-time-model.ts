@@ -0,0 +1,448 @@
+/**
+ * Wait Time Model
+ *
+ * Learns how long the entry queue actually takes to clear from past nights'
+ * scan velocity metrics, instead of the fixed time-of-day and day-of-week
+ * factors in predict_wait_time. Each sample is one metrics period: what the
+ * door looked like (queue depth, scan rate, scanners on, time of night) and
+ * how long the people queueing then ended up waiting.
+ *
+ * The actual wait is the recorded actual_wait_minutes of a prediction made
+ * in that period when there is one, otherwise the time until the following
+ * periods' scans had worked through that queue (realisedWaitMinutes).
+ *
+ * A ridge regression is trained for every venue / entry point / event type
+ * combination with enough samples, with coarser segments down to all nights
+ * as fallbacks. backtestWaitTimeModel() replays each past night against a
+ * model trained only on the nights before it and reports the MAE next to a
+ * plain queue ÷ scan rate estimate. Storing, activating and rolling back
+ * versions is in wait-time-model-service.ts.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface WaitTimeSegment {
+  venue: string | null;
+  entry_point: string | null; // Entry point name; IDs are per event
+  event_type: string | null;
+}
+
+export interface WaitTimeFeatures {
+  queue_depth: number;
+  scans_per_minute: number;
+  active_scanners: number;
+  observed_at: string; // ISO timestamp
+}
+
+export interface WaitTimeSample extends WaitTimeSegment {
+  event_id: string;
+  night: string; // Event date (YYYY-MM-DD)
+  features: WaitTimeFeatures;
+  actual_wait_minutes: number;
+}
+
+export interface VelocityPeriod {
+  period_start: string;
+  period_end: string;
+  scan_count: number;
+  scans_per_minute: number;
+  active_scanners: number;
+  estimated_queue_depth: number;
+  entry_point_id: string | null;
+}
+
+export interface RecordedWait {
+  prediction_time: string;
+  entry_point_id: string | null;
+  actual_wait_minutes: number;
+}
+
+export interface PastNight {
+  event_id: string;
+  night: string;
+  venue: string | null;
+  event_type: string | null;
+  metrics: VelocityPeriod[];
+  recorded_waits?: RecordedWait[];
+  entry_point_names?: Record<string, string>; // entry_point_id -> name
+}
+
+export interface TrainedSegment {
+  coefficients: number[];
+  samples: number;
+  mae: number; // On its own training samples
+}
+
+export interface WaitTimeModelParams {
+  features: string[];
+  segments: Record<string, TrainedSegment>;
+}
+
+export interface WaitTimeModelPrediction {
+  predicted_wait_minutes: number;
+  confidence_score: number; // 0-100
+  segment: string; // Segment key, or 'baseline' when no segment was trained
+}
+
+export interface TrainOptions {
+  minSegmentSamples?: number; // Below this a segment falls back to a coarser one (default 30)
+  ridge?: number; // L2 penalty on everything but the intercept (default 1)
+}
+
+export interface BacktestNight {
+  event_id: string;
+  night: string;
+  venue: string | null;
+  event_type: string | null;
+  samples: number;
+  mae: number;
+  baseline_mae: number;
+}
+
+export interface BacktestResult {
+  nights: BacktestNight[];
+  samples: number;
+  mae: number | null; // null when no night had enough earlier nights to train on
+  baseline_mae: number | null;
+}
+
+// ============================================================================
+// Features
+// ============================================================================
+
+export const WAIT_TIME_FEATURES = [
+  'intercept',
+  'queue_over_scan_rate',
+  'queue_depth',
+  'scans_per_minute',
+  'active_scanners',
+  'hours_after_six_pm',
+];
+
+/** Waits above this are treated as "the queue is not moving" */
+const MAX_WAIT_MINUTES = 180;
+
+/** Metrics gaps longer than this mean collection stopped, not that the queue cleared */
+const MAX_PERIOD_GAP_MINUTES = 15;
+
+const MINUTE_MS = 60000;
+
+/** The queue divided by how fast it is being scanned, in minutes */
+export function baselineWaitMinutes(features: WaitTimeFeatures): number {
+  if (features.queue_depth <= 0) return 0;
+  return Math.min(MAX_WAIT_MINUTES, features.queue_depth / Math.max(features.scans_per_minute, 0.5));
+}
+
+export function toFeatureVector(features: WaitTimeFeatures): number[] {
+  const hour = new Date(features.observed_at).getHours();
+  return [
+    1,
+    baselineWaitMinutes(features),
+    features.queue_depth / 100,
+    features.scans_per_minute,
+    features.active_scanners,
+    (hour + 6) % 24, // 6pm -> 0, 2am -> 8
+  ];
+}
+
+// ============================================================================
+// Segments
+// ============================================================================
+
+const ANY = '*';
+
+export function segmentKey(segment: WaitTimeSegment): string {
+  return [segment.venue ?? ANY, segment.entry_point ?? ANY, segment.event_type ?? ANY].join('|');
+}
+
+/** Most specific first: the segment itself, then coarser ones down to all nights */
+export function segmentFallbacks(segment: WaitTimeSegment): string[] {
+  const { venue, entry_point, event_type } = segment;
+  const keys = [
+    segmentKey({ venue, entry_point, event_type }),
+    segmentKey({ venue, entry_point, event_type: null }),
+    segmentKey({ venue, entry_point: null, event_type }),
+    segmentKey({ venue, entry_point: null, event_type: null }),
+    segmentKey({ venue: null, entry_point: null, event_type }),
+    segmentKey({ venue: null, entry_point: null, event_type: null }),
+  ];
+  return keys.filter((key, index) => keys.indexOf(key) === index);
+}
+
+// ============================================================================
+// Training samples
+// ============================================================================
+
+/**
+ * Minutes until the scans after `index` had covered the queue measured at
+ * `index`, i.e. how long the last person in that queue waited. null when the
+ * metrics stop (or gap) before the queue cleared.
+ */
+export function realisedWaitMinutes(periods: VelocityPeriod[], index: number): number | null {
+  const queue = periods[index].estimated_queue_depth;
+  if (queue <= 0) return 0;
+
+  const from = new Date(periods[index].period_end).getTime();
+  let previousEnd = from;
+  let scanned = 0;
+
+  for (let i = index + 1; i < periods.length; i++) {
+    const start = new Date(periods[i].period_start).getTime();
+    const end = new Date(periods[i].period_end).getTime();
+    if ((start - previousEnd) / MINUTE_MS > MAX_PERIOD_GAP_MINUTES) return null;
+    if ((start - from) / MINUTE_MS > MAX_WAIT_MINUTES) return null;
+    previousEnd = end;
+
+    const remaining = queue - scanned;
+    if (periods[i].scan_count >= remaining) {
+      const share = remaining / periods[i].scan_count;
+      return (start - from + share * (end - start)) / MINUTE_MS;
+    }
+    scanned += periods[i].scan_count;
+  }
+
+  return null;
+}
+
+function findRecordedWait(
+  recorded: RecordedWait[],
+  period: VelocityPeriod
+): number | null {
+  const start = new Date(period.period_start).getTime();
+  const end = new Date(period.period_end).getTime();
+  const match = recorded.find((wait) => {
+    const at = new Date(wait.prediction_time).getTime();
+    return (wait.entry_point_id ?? null) === (period.entry_point_id ?? null) && at >= start && at < end;
+  });
+  return match ? match.actual_wait_minutes : null;
+}
+
+/** One sample per metrics period whose actual wait is known */
+export function buildTrainingSamples(nights: PastNight[]): WaitTimeSample[] {
+  const samples: WaitTimeSample[] = [];
+
+  for (const night of nights) {
+    const byEntryPoint = new Map<string | null, VelocityPeriod[]>();
+    for (const period of night.metrics) {
+      const key = period.entry_point_id ?? null;
+      if (!byEntryPoint.has(key)) byEntryPoint.set(key, []);
+      byEntryPoint.get(key)!.push(period);
+    }
+
+    for (const [entryPointId, unsorted] of byEntryPoint) {
+      const periods = [...unsorted].sort((a, b) => a.period_start.localeCompare(b.period_start));
+      const entryPoint = entryPointId ? night.entry_point_names?.[entryPointId] ?? null : null;
+
+      periods.forEach((period, index) => {
+        const actual = findRecordedWait(night.recorded_waits ?? [], period)
+          ?? realisedWaitMinutes(periods, index);
+        if (actual === null) return;
+
+        samples.push({
+          event_id: night.event_id,
+          night: night.night,
+          venue: night.venue,
+          entry_point: entryPoint,
+          event_type: night.event_type,
+          features: {
+            queue_depth: period.estimated_queue_depth,
+            scans_per_minute: Number(period.scans_per_minute),
+            active_scanners: period.active_scanners,
+            observed_at: period.period_end,
+          },
+          actual_wait_minutes: actual,
+        });
+      });
+    }
+  }
+
+  return samples;
+}
+
+// ============================================================================
+// Training
+// ============================================================================
+
+/** Gaussian elimination with partial pivoting; null if the system is singular */
+function solve(matrix: number[][], vector: number[]): number[] | null {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-9) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+}
+
+function applyCoefficients(coefficients: number[], features: WaitTimeFeatures): number {
+  const x = toFeatureVector(features);
+  const minutes = coefficients.reduce((sum, c, i) => sum + c * x[i], 0);
+  return Math.min(MAX_WAIT_MINUTES, Math.max(0, minutes));
+}
+
+function fitSegment(samples: WaitTimeSample[], ridge: number): TrainedSegment | null {
+  const size = WAIT_TIME_FEATURES.length;
+  const xtx = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+  const xty = new Array<number>(size).fill(0);
+
+  for (const sample of samples) {
+    const x = toFeatureVector(sample.features);
+    for (let i = 0; i < size; i++) {
+      xty[i] += x[i] * sample.actual_wait_minutes;
+      for (let j = 0; j < size; j++) xtx[i][j] += x[i] * x[j];
+    }
+  }
+  for (let i = 1; i < size; i++) xtx[i][i] += ridge;
+
+  const coefficients = solve(xtx, xty);
+  if (!coefficients) return null;
+
+  const error = samples.reduce(
+    (sum, sample) => sum + Math.abs(applyCoefficients(coefficients, sample.features) - sample.actual_wait_minutes),
+    0
+  );
+  return { coefficients, samples: samples.length, mae: error / samples.length };
+}
+
+export function trainWaitTimeModel(
+  samples: WaitTimeSample[],
+  options: TrainOptions = {}
+): WaitTimeModelParams {
+  const minSegmentSamples = options.minSegmentSamples ?? 30;
+  const ridge = options.ridge ?? 1;
+
+  const bySegment = new Map<string, WaitTimeSample[]>();
+  for (const sample of samples) {
+    for (const key of segmentFallbacks(sample)) {
+      if (!bySegment.has(key)) bySegment.set(key, []);
+      bySegment.get(key)!.push(sample);
+    }
+  }
+
+  const segments: Record<string, TrainedSegment> = {};
+  for (const [key, segmentSamples] of bySegment) {
+    if (segmentSamples.length < minSegmentSamples) continue;
+    const trained = fitSegment(segmentSamples, ridge);
+    if (trained) segments[key] = trained;
+  }
+
+  return { features: WAIT_TIME_FEATURES, segments };
+}
+
+// ============================================================================
+// Prediction
+// ============================================================================
+
+/** More samples and a smaller training error mean more confidence */
+function confidenceFor(segment: TrainedSegment): number {
+  const coverage = segment.samples / (segment.samples + 100);
+  const fit = 1 / (1 + segment.mae / 10);
+  return Math.round(100 * coverage * fit);
+}
+
+export function predictWithModel(
+  params: WaitTimeModelParams,
+  segment: WaitTimeSegment,
+  features: WaitTimeFeatures
+): WaitTimeModelPrediction {
+  const compatible = params.features.join(',') === WAIT_TIME_FEATURES.join(',');
+  const key = compatible ? segmentFallbacks(segment).find((candidate) => params.segments[candidate]) : undefined;
+
+  if (!key) {
+    return {
+      predicted_wait_minutes: Math.round(baselineWaitMinutes(features)),
+      confidence_score: 0,
+      segment: 'baseline',
+    };
+  }
+
+  const trained = params.segments[key];
+  return {
+    predicted_wait_minutes: Math.round(applyCoefficients(trained.coefficients, features)),
+    confidence_score: confidenceFor(trained),
+    segment: key,
+  };
+}
+
+// ============================================================================
+// Backtesting
+// ============================================================================
+
+/**
+ * Replays every past night against a model trained only on earlier nights
+ * (events on the same date are never in each other's training data).
+ */
+export function backtestWaitTimeModel(
+  samples: WaitTimeSample[],
+  options: TrainOptions & { minTrainingNights?: number } = {}
+): BacktestResult {
+  const minTrainingNights = options.minTrainingNights ?? 3;
+
+  const nights = new Map<string, WaitTimeSample[]>();
+  for (const sample of samples) {
+    const key = `${sample.night}|${sample.event_id}`;
+    if (!nights.has(key)) nights.set(key, []);
+    nights.get(key)!.push(sample);
+  }
+  const ordered = [...nights.entries()].sort(([a], [b]) => a.localeCompare(b));
+
+  const results: BacktestNight[] = [];
+  let totalError = 0;
+  let totalBaselineError = 0;
+  let totalSamples = 0;
+
+  for (const [, nightSamples] of ordered) {
+    const { night, event_id, venue, event_type } = nightSamples[0];
+    const training = samples.filter((sample) => sample.night < night);
+    const trainingNights = new Set(training.map((sample) => `${sample.night}|${sample.event_id}`)).size;
+    if (trainingNights < minTrainingNights) continue;
+
+    const params = trainWaitTimeModel(training, options);
+    let error = 0;
+    let baselineError = 0;
+    for (const sample of nightSamples) {
+      const predicted = predictWithModel(params, sample, sample.features).predicted_wait_minutes;
+      error += Math.abs(predicted - sample.actual_wait_minutes);
+      baselineError += Math.abs(Math.round(baselineWaitMinutes(sample.features)) - sample.actual_wait_minutes);
+    }
+
+    results.push({
+      event_id,
+      night,
+      venue,
+      event_type,
+      samples: nightSamples.length,
+      mae: error / nightSamples.length,
+      baseline_mae: baselineError / nightSamples.length,
+    });
+    totalError += error;
+    totalBaselineError += baselineError;
+    totalSamples += nightSamples.length;
+  }
+
+  return {
+    nights: results,
+    samples: totalSamples,
+    mae: totalSamples > 0 ? totalError / totalSamples : null,
+    baseline_mae: totalSamples > 0 ? totalBaselineError / totalSamples : null,
+  };
+}
@@ -2,6 +2,7 @@ import { createRoot } from "react-dom/client";
 import * as Sentry from "@sentry/react";
 import App from "./App.tsx";
 import "./index.css";
+import { getLocale } from "./lib/i18n";
 
 // Initialize Sentry first (before any errors can occur)
 const sentryDsn = import.meta.env.VITE_SENTRY_DSN;
@@ -35,6 +36,18 @@ setTimeout(() => {
   });
 }, 0);
 
+// Flush scan metrics to the server for the monitoring history (non-critical)
+setTimeout(() => {
+  import("./lib/metrics-sync").then(({ startMetricsSync }) => {
+    startMetricsSync();
+  }).catch(() => {
+    // Metrics sync setup failed (non-critical)
+  });
+}, 0);
+
+// Apply the detected language (?lang=, saved choice or browser) before first render
+document.documentElement.lang = getLocale();
+
 const rootElement = document.getElementById("root");
 
 if (!rootElement) {
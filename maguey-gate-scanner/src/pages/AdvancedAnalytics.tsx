@@ -2,7 +2,7 @@ import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { isSupabaseConfigured } from "@/integrations/supabase/client";
-import { useAuth, useRole } from "@/contexts/AuthContext";
+import { useAuth, usePermission, useRole } from "@/contexts/AuthContext";
 import { resolveStaffNames } from "@/lib/staff-name-service";
 import OwnerPortalLayout from "@/components/layout/OwnerPortalLayout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -120,6 +120,7 @@ const AdvancedAnalytics = () => {
   const { toast } = useToast();
   const { user } = useAuth();
   const role = useRole();
+  const canViewRevenue = usePermission('view_revenue');
 
   const [isLoading, setIsLoading] = useState(true);
   const [timeRange, setTimeRange] = useState<'7d' | '30d' | '90d' | 'custom'>('30d');
@@ -145,20 +146,20 @@ const AdvancedAnalytics = () => {
   const [comparisonData, setComparisonData] = useState<any[]>([]);
   const [promoterStats, setPromoterStats] = useState<PromoterStat[]>([]);
 
-  // Redirect employees (allow owners and promoters)
+  // Redirect staff without view_revenue
   useEffect(() => {
-    if (role !== 'owner' && role !== 'promoter') {
+    if (!canViewRevenue) {
       navigate('/scanner');
     }
-  }, [role, navigate]);
+  }, [canViewRevenue, navigate]);
 
   useEffect(() => {
-    if (role === 'owner' || role === 'promoter') {
+    if (canViewRevenue) {
       loadEvents();
       loadAnalytics();
       if (role === 'owner') loadPromoterStats();
     }
-  }, [role, timeRange, startDate, endDate, selectedEvent]);
+  }, [role, canViewRevenue, timeRange, startDate, endDate, selectedEvent]);
 
   const loadEvents = async () => {
     if (!isSupabaseConfigured()) return;
@@ -637,8 +638,8 @@ const AdvancedAnalytics = () => {
     );
   }
 
-  // Redirect non-owners/promoters (handled by useEffect, but show nothing while redirecting)
-  if (role !== 'owner' && role !== 'promoter') {
+  // Staff without view_revenue are redirected by the useEffect; show nothing meanwhile
+  if (!canViewRevenue) {
     return null;
   }
 
@@ -0,0 +1,513 @@
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useRole, useAuth } from '@/contexts/AuthContext';
+import OwnerPortalLayout from '@/components/layout/OwnerPortalLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Ban, Plus, RefreshCw, Settings, Search, Upload, Undo2, ImageOff } from 'lucide-react';
+import {
+  getBannedGuests,
+  createBannedGuest,
+  updateBannedGuest,
+  liftBan,
+  uploadBanPhoto,
+  getBanPhotoUrl,
+  type BannedGuestInput,
+} from '@/lib/banned-guest-service';
+import { isBanActive, type BannedGuest } from '@/lib/banned-guests';
+import { logAuditEvent } from '@/lib/audit-service';
+import { format } from 'date-fns';
+
+const EMPTY_FORM = {
+  full_name: '',
+  date_of_birth: '',
+  email: '',
+  phone: '',
+  reason: '',
+  expires_at: '',
+  block_purchases: false,
+};
+
+const BannedGuests = () => {
+  const navigate = useNavigate();
+  const role = useRole();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(true);
+  const [bans, setBans] = useState<BannedGuest[]>([]);
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+  const [search, setSearch] = useState('');
+  const [showLifted, setShowLifted] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [selectedBan, setSelectedBan] = useState<BannedGuest | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [photoFile, setPhotoFile] = useState<File | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [liftingBan, setLiftingBan] = useState<BannedGuest | null>(null);
+  const [liftReason, setLiftReason] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Redirect non-owners
+  useEffect(() => {
+    if (role !== 'owner') {
+      toast({
+        variant: 'destructive',
+        title: 'Access Denied',
+        description: 'The banned guest list is only available to owners.',
+      });
+      navigate('/scanner');
+    }
+  }, [role, navigate, toast]);
+
+  const loadBans = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const allBans = await getBannedGuests();
+      setBans(allBans);
+
+      const urls = await Promise.all(
+        allBans
+          .filter((ban) => ban.photo_path)
+          .map(async (ban) => [ban.id, await getBanPhotoUrl(ban.photo_path!)] as const)
+      );
+      setPhotoUrls(Object.fromEntries(urls.filter(([, url]) => url)) as Record<string, string>);
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error loading banned guests',
+        description: error.message,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (role === 'owner') {
+      loadBans();
+    }
+  }, [role, loadBans]);
+
+  const visibleBans = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return bans.filter((ban) => {
+      if (!showLifted && !isBanActive(ban)) return false;
+      if (!term) return true;
+      return [ban.full_name, ban.email, ban.phone, ban.reason]
+        .some((value) => value?.toLowerCase().includes(term));
+    });
+  }, [bans, search, showLifted]);
+
+  const handleOpenDialog = (ban?: BannedGuest) => {
+    setSelectedBan(ban ?? null);
+    setFormData(ban ? {
+      full_name: ban.full_name,
+      date_of_birth: ban.date_of_birth || '',
+      email: ban.email || '',
+      phone: ban.phone || '',
+      reason: ban.reason,
+      expires_at: ban.expires_at ? format(new Date(ban.expires_at), 'yyyy-MM-dd') : '',
+      block_purchases: ban.block_purchases,
+    } : EMPTY_FORM);
+    setPhotoFile(null);
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async () => {
+    if (!user) return;
+    if (!formData.full_name.trim() || !formData.reason.trim()) {
+      toast({
+        variant: 'destructive',
+        title: 'Missing details',
+        description: 'Name and reason are required.',
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const input: BannedGuestInput = {
+        ...formData,
+        photo_path: photoFile ? await uploadBanPhoto(photoFile) : selectedBan?.photo_path ?? null,
+        // The ban runs to the end of the chosen day
+        expires_at: formData.expires_at ? new Date(`${formData.expires_at}T23:59:59`).toISOString() : null,
+      };
+
+      if (selectedBan) {
+        const ban = await updateBannedGuest(selectedBan.id, input);
+        await logAuditEvent('settings_changed', 'banned_guest', `Updated ban for ${ban.full_name}`, {
+          userId: user.id,
+          resourceId: ban.id,
+          metadata: { reason: ban.reason, expires_at: ban.expires_at, block_purchases: ban.block_purchases },
+        });
+        toast({ title: 'Ban updated', description: `${ban.full_name}'s ban has been updated.` });
+      } else {
+        const ban = await createBannedGuest(input, user.id);
+        await logAuditEvent('settings_changed', 'banned_guest', `Banned ${ban.full_name}`, {
+          userId: user.id,
+          resourceId: ban.id,
+          severity: 'warning',
+          metadata: { reason: ban.reason, expires_at: ban.expires_at, block_purchases: ban.block_purchases },
+        });
+        toast({ title: 'Guest banned', description: `${ban.full_name} will be refused at every door.` });
+      }
+      setIsDialogOpen(false);
+      loadBans();
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleLift = async () => {
+    if (!user || !liftingBan) return;
+
+    setIsSaving(true);
+    try {
+      await liftBan(liftingBan.id, user.id, liftReason);
+      await logAuditEvent('settings_changed', 'banned_guest', `Lifted ban for ${liftingBan.full_name}`, {
+        userId: user.id,
+        resourceId: liftingBan.id,
+        metadata: { lift_reason: liftReason.trim() || null },
+      });
+      toast({ title: 'Ban lifted', description: `${liftingBan.full_name} can be admitted again.` });
+      setLiftingBan(null);
+      setLiftReason('');
+      loadBans();
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const getStatusBadge = (ban: BannedGuest) => {
+    if (ban.lifted_at) return <Badge variant="secondary">Lifted</Badge>;
+    if (!isBanActive(ban)) return <Badge variant="outline">Expired</Badge>;
+    return <Badge variant="destructive">Active</Badge>;
+  };
+
+  if (role !== 'owner') {
+    return null;
+  }
+
+  if (isLoading && bans.length === 0) {
+    return (
+      <OwnerPortalLayout title="Banned Guests">
+          <div className="flex items-center justify-center py-12">
+            <div className="text-center space-y-4">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+              <p className="text-muted-foreground">Loading banned guests...</p>
+            </div>
+          </div>
+      </OwnerPortalLayout>
+    );
+  }
+
+  const headerActions = (
+          <div className="flex gap-2">
+            <Button onClick={loadBans} variant="outline" size="sm">
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+            <Button onClick={() => handleOpenDialog()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Ban Guest
+            </Button>
+          </div>
+  );
+
+  return (
+    <OwnerPortalLayout
+      title="Banned Guests"
+      description="Guests refused at every door, guest list and ID check"
+      actions={headerActions}
+    >
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Ban className="h-5 w-5" />
+              Banned Guests ({visibleBans.length})
+            </CardTitle>
+            <CardDescription>
+              Scanners keep a copy of the active list for offline use. Email, phone, or name with a matching date of birth
+              turns a guest away; a name alone asks door staff to check their ID.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-col sm:flex-row gap-3 sm:items-center">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search by name, email, phone or reason"
+                  className="pl-9"
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="show_lifted" checked={showLifted} onCheckedChange={setShowLifted} />
+                <Label htmlFor="show_lifted">Show lifted and expired</Label>
+              </div>
+            </div>
+
+            {visibleBans.length === 0 ? (
+              <div className="text-center text-muted-foreground py-8">
+                {bans.length === 0 ? 'No banned guests. Click "Ban Guest" to add one.' : 'No bans match your search.'}
+              </div>
+            ) : (
+              <div className="border rounded-lg overflow-hidden">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Guest</TableHead>
+                      <TableHead>Contact</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead>Until</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleBans.map((ban) => (
+                      <TableRow key={ban.id}>
+                        <TableCell>
+                          <div className="flex items-center gap-3">
+                            {photoUrls[ban.id] ? (
+                              <img
+                                src={photoUrls[ban.id]}
+                                alt={ban.full_name}
+                                className="h-10 w-10 rounded-md object-cover"
+                              />
+                            ) : (
+                              <div className="h-10 w-10 rounded-md bg-muted flex items-center justify-center">
+                                <ImageOff className="h-4 w-4 text-muted-foreground" />
+                              </div>
+                            )}
+                            <div className="space-y-1">
+                              <div className="font-medium">{ban.full_name}</div>
+                              {ban.date_of_birth && (
+                                <div className="text-xs text-muted-foreground">
+                                  Born {format(new Date(`${ban.date_of_birth}T00:00:00`), 'MMM d, yyyy')}
+                                </div>
+                              )}
+                            </div>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="space-y-1 text-sm">
+                            {ban.email && <div>{ban.email}</div>}
+                            {ban.phone && <div className="text-muted-foreground">{ban.phone}</div>}
+                            {!ban.email && !ban.phone && <span className="text-muted-foreground">-</span>}
+                          </div>
+                        </TableCell>
+                        <TableCell className="max-w-xs">
+                          <div className="text-sm">{ban.reason}</div>
+                          {ban.block_purchases && (
+                            <Badge variant="outline" className="mt-1">Purchases blocked</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {ban.expires_at ? format(new Date(ban.expires_at), 'MMM d, yyyy') : 'Permanent'}
+                        </TableCell>
+                        <TableCell>
+                          {getStatusBadge(ban)}
+                          {ban.lift_reason && (
+                            <div className="text-xs text-muted-foreground mt-1">{ban.lift_reason}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {!ban.lifted_at && (
+                            <div className="flex items-center gap-2">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleOpenDialog(ban)}
+                              >
+                                <Settings className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setLiftingBan(ban)}
+                                title="Lift ban"
+                              >
+                                <Undo2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Add / edit ban */}
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>{selectedBan ? 'Edit Ban' : 'Ban a Guest'}</DialogTitle>
+              <DialogDescription>
+                Add as many details as you have. Email and phone match exactly; a name needs a date of birth to be certain.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-4 py-4">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="grid gap-2">
+                  <Label htmlFor="full_name">Full Name *</Label>
+                  <Input
+                    id="full_name"
+                    value={formData.full_name}
+                    onChange={(e) => setFormData({ ...formData, full_name: e.target.value })}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="date_of_birth">Date of Birth</Label>
+                  <Input
+                    id="date_of_birth"
+                    type="date"
+                    value={formData.date_of_birth}
+                    onChange={(e) => setFormData({ ...formData, date_of_birth: e.target.value })}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    value={formData.email}
+                    onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="phone">Phone</Label>
+                  <Input
+                    id="phone"
+                    type="tel"
+                    value={formData.phone}
+                    onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="reason">Reason *</Label>
+                <Textarea
+                  id="reason"
+                  value={formData.reason}
+                  onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+                  placeholder="Shown to door staff when the guest is turned away"
+                  rows={3}
+                />
+              </div>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="grid gap-2">
+                  <Label htmlFor="expires_at">Banned Until</Label>
+                  <Input
+                    id="expires_at"
+                    type="date"
+                    value={formData.expires_at}
+                    onChange={(e) => setFormData({ ...formData, expires_at: e.target.value })}
+                  />
+                  <p className="text-xs text-muted-foreground">Leave empty for a permanent ban</p>
+                </div>
+                <div className="grid gap-2">
+                  <Label>Photo</Label>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="image/jpeg,image/png,image/webp"
+                    className="hidden"
+                    onChange={(e) => setPhotoFile(e.target.files?.[0] ?? null)}
+                  />
+                  <Button type="button" variant="outline" onClick={() => fileInputRef.current?.click()}>
+                    <Upload className="h-4 w-4 mr-2" />
+                    {photoFile ? photoFile.name : selectedBan?.photo_path ? 'Replace Photo' : 'Upload Photo'}
+                  </Button>
+                </div>
+              </div>
+              <div className="flex items-center justify-between rounded-lg border p-3">
+                <div>
+                  <Label htmlFor="block_purchases">Block ticket purchases</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Refuse checkout for this guest's email or name on the ticket site
+                  </p>
+                </div>
+                <Switch
+                  id="block_purchases"
+                  checked={formData.block_purchases}
+                  onCheckedChange={(checked) => setFormData({ ...formData, block_purchases: checked })}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSubmit} disabled={isSaving}>
+                {isSaving ? 'Saving...' : selectedBan ? 'Save Changes' : 'Ban Guest'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {/* Lift ban */}
+        <Dialog open={!!liftingBan} onOpenChange={(open) => !open && setLiftingBan(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Lift Ban</DialogTitle>
+              <DialogDescription>
+                {liftingBan?.full_name} will be admitted again. The ban stays in the history.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-2 py-2">
+              <Label htmlFor="lift_reason">Reason</Label>
+              <Textarea
+                id="lift_reason"
+                value={liftReason}
+                onChange={(e) => setLiftReason(e.target.value)}
+                rows={3}
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setLiftingBan(null)}>
+                Cancel
+              </Button>
+              <Button variant="destructive" onClick={handleLift} disabled={isSaving}>
+                {isSaving ? 'Lifting...' : 'Lift Ban'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+    </OwnerPortalLayout>
+  );
+};
+
+export default BannedGuests;
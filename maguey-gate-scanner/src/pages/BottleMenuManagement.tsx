@@ -0,0 +1,521 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import OwnerPortalLayout from '@/components/layout/OwnerPortalLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Copy, Plus, RefreshCw, Settings, Trash2, Wine } from 'lucide-react';
+import {
+  getBottleMenu,
+  createBottleMenuItem,
+  updateBottleMenuItem,
+  deleteBottleMenuItem,
+  copyBottleMenu,
+  getTableMinimums,
+  updateTableMinimum,
+  formatCents,
+  BOTTLE_MENU_CATEGORIES,
+  type BottleMenuCategory,
+  type BottleMenuItem,
+  type VipTableMinimum,
+} from '@/lib/bottle-service';
+
+interface EventOption {
+  id: string;
+  name: string;
+  event_date: string;
+}
+
+const EMPTY_FORM = {
+  category: 'bottle' as BottleMenuCategory,
+  name: '',
+  description: '',
+  price: '',
+  is_available: true,
+  sort_order: '0',
+};
+
+const BottleMenuManagement = () => {
+  const { toast } = useToast();
+  const [events, setEvents] = useState<EventOption[]>([]);
+  const [selectedEventId, setSelectedEventId] = useState('');
+  const [copyFromEventId, setCopyFromEventId] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [items, setItems] = useState<BottleMenuItem[]>([]);
+  const [tables, setTables] = useState<VipTableMinimum[]>([]);
+  const [minimumDrafts, setMinimumDrafts] = useState<Record<string, string>>({});
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [selectedItem, setSelectedItem] = useState<BottleMenuItem | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    const loadEvents = async () => {
+      const { data, error } = await supabase
+        .from('events')
+        .select('id, name, event_date')
+        .order('event_date', { ascending: false })
+        .limit(30);
+
+      if (error) {
+        toast({ variant: 'destructive', title: 'Error loading events', description: error.message });
+        setIsLoading(false);
+        return;
+      }
+      const today = new Date().toISOString().split('T')[0];
+      const upcoming = (data || []).filter((event) => event.event_date >= today);
+      setEvents(data || []);
+      // Default to the next upcoming event
+      const next = upcoming[upcoming.length - 1] || data?.[0];
+      if (next) {
+        setSelectedEventId(next.id);
+      } else {
+        setIsLoading(false);
+      }
+    };
+    loadEvents();
+  }, [toast]);
+
+  const loadMenu = useCallback(async () => {
+    if (!selectedEventId) return;
+    setIsLoading(true);
+    try {
+      const [menu, eventTables] = await Promise.all([
+        getBottleMenu(selectedEventId),
+        getTableMinimums(selectedEventId),
+      ]);
+      setItems(menu);
+      setTables(eventTables);
+      setMinimumDrafts(
+        Object.fromEntries(eventTables.map((table) => [table.id, (table.minimum_spend_cents / 100).toFixed(2)]))
+      );
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error loading bottle menu',
+        description: error.message,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [selectedEventId, toast]);
+
+  useEffect(() => {
+    loadMenu();
+  }, [loadMenu]);
+
+  const handleOpenDialog = (item?: BottleMenuItem) => {
+    if (item) {
+      setSelectedItem(item);
+      setFormData({
+        category: item.category,
+        name: item.name,
+        description: item.description,
+        price: (item.price_cents / 100).toFixed(2),
+        is_available: item.is_available,
+        sort_order: String(item.sort_order),
+      });
+    } else {
+      setSelectedItem(null);
+      setFormData(EMPTY_FORM);
+    }
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async () => {
+    const price = parseFloat(formData.price);
+
+    if (!formData.name.trim() || isNaN(price) || price < 0) {
+      toast({
+        variant: 'destructive',
+        title: 'Missing information',
+        description: 'Name and a valid price are required.',
+      });
+      return;
+    }
+
+    const values = {
+      category: formData.category,
+      name: formData.name.trim(),
+      description: formData.description.trim(),
+      price_cents: Math.round(price * 100),
+      is_available: formData.is_available,
+      sort_order: parseInt(formData.sort_order, 10) || 0,
+    };
+
+    try {
+      if (selectedItem) {
+        await updateBottleMenuItem(selectedItem.id, values);
+        toast({ title: 'Item updated', description: `${values.name} has been updated.` });
+      } else {
+        await createBottleMenuItem({ ...values, event_id: selectedEventId });
+        toast({ title: 'Item added', description: `${values.name} is now on the bottle menu.` });
+      }
+      setIsDialogOpen(false);
+      loadMenu();
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+    }
+  };
+
+  const handleToggleAvailable = async (item: BottleMenuItem) => {
+    try {
+      await updateBottleMenuItem(item.id, { is_available: !item.is_available });
+      setItems((prev) =>
+        prev.map((i) => (i.id === item.id ? { ...i, is_available: !item.is_available } : i))
+      );
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+    }
+  };
+
+  const handleDelete = async (item: BottleMenuItem) => {
+    if (!confirm(`Remove "${item.name}" from the bottle menu?`)) {
+      return;
+    }
+
+    try {
+      await deleteBottleMenuItem(item.id);
+      toast({ title: 'Item removed', description: `${item.name} has been removed.` });
+      loadMenu();
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+    }
+  };
+
+  const handleCopyMenu = async () => {
+    if (!copyFromEventId) return;
+    try {
+      const copied = await copyBottleMenu(copyFromEventId, selectedEventId);
+      toast({ title: 'Menu copied', description: `${copied} item${copied === 1 ? '' : 's'} added.` });
+      setCopyFromEventId('');
+      loadMenu();
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+    }
+  };
+
+  const handleSaveMinimum = async (table: VipTableMinimum) => {
+    const minimum = parseFloat(minimumDrafts[table.id] || '0');
+    if (isNaN(minimum) || minimum < 0) {
+      toast({ variant: 'destructive', title: 'Invalid minimum', description: 'Enter 0 for no minimum spend.' });
+      return;
+    }
+
+    const cents = Math.round(minimum * 100);
+    if (cents === table.minimum_spend_cents) return;
+
+    try {
+      await updateTableMinimum(table.id, cents);
+      setTables((prev) => prev.map((t) => (t.id === table.id ? { ...t, minimum_spend_cents: cents } : t)));
+      toast({ title: 'Minimum saved', description: `Table ${table.table_number}: ${cents > 0 ? formatCents(cents) : 'no minimum'}` });
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+    }
+  };
+
+  const headerActions = (
+    <div className="flex gap-2">
+      <Select value={selectedEventId} onValueChange={setSelectedEventId}>
+        <SelectTrigger className="w-56">
+          <SelectValue placeholder="Select event" />
+        </SelectTrigger>
+        <SelectContent>
+          {events.map((event) => (
+            <SelectItem key={event.id} value={event.id}>
+              {event.name} · {event.event_date}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button onClick={loadMenu} variant="outline" size="sm">
+        <RefreshCw className="h-4 w-4 mr-2" />
+        Refresh
+      </Button>
+      <Button onClick={() => handleOpenDialog()} disabled={!selectedEventId}>
+        <Plus className="h-4 w-4 mr-2" />
+        Add Item
+      </Button>
+    </div>
+  );
+
+  return (
+    <OwnerPortalLayout
+      title="Bottle Menu"
+      description="What VIP tables can order during the night, and each table's minimum spend"
+      actions={headerActions}
+    >
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="text-center space-y-4">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+            <p className="text-muted-foreground">Loading bottle menu...</p>
+          </div>
+        </div>
+      ) : (
+        <>
+          <Card className="mb-6">
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <Wine className="h-5 w-5" />
+                    Menu
+                  </CardTitle>
+                  <CardDescription>{items.length} items</CardDescription>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Select value={copyFromEventId} onValueChange={setCopyFromEventId}>
+                    <SelectTrigger className="w-56">
+                      <SelectValue placeholder="Copy menu from..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {events.filter((event) => event.id !== selectedEventId).map((event) => (
+                        <SelectItem key={event.id} value={event.id}>
+                          {event.name} · {event.event_date}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" size="sm" onClick={handleCopyMenu} disabled={!copyFromEventId}>
+                    <Copy className="h-4 w-4 mr-2" />
+                    Copy
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {items.length === 0 ? (
+                <div className="text-center text-muted-foreground py-4">No items on this event's bottle menu.</div>
+              ) : (
+                <div className="border rounded-lg overflow-hidden">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Item</TableHead>
+                        <TableHead>Category</TableHead>
+                        <TableHead>Price</TableHead>
+                        <TableHead>Available</TableHead>
+                        <TableHead>Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {items.map((item) => (
+                        <TableRow key={item.id}>
+                          <TableCell>
+                            <div className="space-y-1">
+                              <div className="font-medium">{item.name}</div>
+                              {item.description && (
+                                <div className="text-xs text-muted-foreground">{item.description}</div>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            {BOTTLE_MENU_CATEGORIES.find((category) => category.value === item.category)?.label}
+                          </TableCell>
+                          <TableCell>
+                            <span className="font-medium">{formatCents(item.price_cents)}</span>
+                          </TableCell>
+                          <TableCell>
+                            <Switch
+                              checked={item.is_available}
+                              onCheckedChange={() => handleToggleAvailable(item)}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              <Button variant="ghost" size="sm" onClick={() => handleOpenDialog(item)}>
+                                <Settings className="h-4 w-4" />
+                              </Button>
+                              <Button variant="ghost" size="sm" onClick={() => handleDelete(item)}>
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Minimum Spend</CardTitle>
+              <CardDescription>
+                Charged at the end of the night when a table's delivered orders come to less. Bottles included
+                with the table price don't count. Tables that have already ordered keep the minimum they started with.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {tables.length === 0 ? (
+                <div className="text-center text-muted-foreground py-4">This event has no VIP tables.</div>
+              ) : (
+                <div className="border rounded-lg overflow-hidden">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Table</TableHead>
+                        <TableHead>Minimum Spend</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {tables.map((table) => (
+                        <TableRow key={table.id}>
+                          <TableCell>
+                            <div className="font-medium">Table {table.table_number}</div>
+                            {table.table_name && (
+                              <div className="text-xs text-muted-foreground">{table.table_name}</div>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="1"
+                              className="w-32"
+                              value={minimumDrafts[table.id] ?? ''}
+                              onChange={(e) => setMinimumDrafts({ ...minimumDrafts, [table.id]: e.target.value })}
+                              onBlur={() => handleSaveMinimum(table)}
+                            />
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{selectedItem ? 'Edit Bottle' : 'Add Bottle'}</DialogTitle>
+            <DialogDescription>
+              Tables see changes on their dashboard right away. Orders are always charged the price saved here.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="category">Category *</Label>
+              <Select
+                value={formData.category}
+                onValueChange={(value) => setFormData({ ...formData, category: value as BottleMenuCategory })}
+              >
+                <SelectTrigger id="category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BOTTLE_MENU_CATEGORIES.map((category) => (
+                    <SelectItem key={category.value} value={category.value}>
+                      {category.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="name">Name *</Label>
+              <Input
+                id="name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g., Don Julio 1942"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="description">Description</Label>
+              <Textarea
+                id="description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="price">Price *</Label>
+                <Input
+                  id="price"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.price}
+                  onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="sort_order">Sort Order</Label>
+                <Input
+                  id="sort_order"
+                  type="number"
+                  value={formData.sort_order}
+                  onChange={(e) => setFormData({ ...formData, sort_order: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="is_available"
+                checked={formData.is_available}
+                onCheckedChange={(checked) => setFormData({ ...formData, is_available: checked })}
+              />
+              <Label htmlFor="is_available">Available</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit}>{selectedItem ? 'Update' : 'Add'}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </OwnerPortalLayout>
+  );
+};
+
+export default BottleMenuManagement;
@@ -0,0 +1,401 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useRole } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import OwnerPortalLayout from '@/components/layout/OwnerPortalLayout';
+import EmployeePortalLayout from '@/components/layout/EmployeePortalLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Banknote, Clock, CreditCard, Loader2, RefreshCw, Truck, Wine, XCircle } from 'lucide-react';
+import {
+  getEventTabs,
+  getOpenBottleOrders,
+  settleTab,
+  subscribeToBottleService,
+  tabAmountDueCents,
+  formatCents,
+  updateBottleOrderStatus,
+  NEXT_BOTTLE_ORDER_STATUS,
+  OPEN_BOTTLE_ORDER_STATUSES,
+  type BottleOrder,
+  type BottleOrderStatus,
+  type TabSettlementMethod,
+  type VipTableTab,
+} from '@/lib/bottle-service';
+import { formatDistanceToNow } from 'date-fns';
+
+interface EventOption {
+  id: string;
+  name: string;
+  event_date: string;
+}
+
+const COLUMN_LABELS: Record<string, string> = {
+  placed: 'New',
+  preparing: 'On the Way',
+};
+
+const ACTION_LABELS: Partial<Record<BottleOrderStatus, string>> = {
+  preparing: 'Take to Table',
+  delivered: 'Mark Delivered',
+};
+
+const TAB_STATUS_BADGES: Record<VipTableTab['tab_status'], { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  open: { label: 'Open', variant: 'outline' },
+  settling: { label: 'Closing', variant: 'secondary' },
+  settled: { label: 'Settled', variant: 'default' },
+  failed: { label: 'Card Declined', variant: 'destructive' },
+};
+
+const BottleServiceBoard = () => {
+  const role = useRole();
+  const { toast } = useToast();
+  const [events, setEvents] = useState<EventOption[]>([]);
+  const [selectedEventId, setSelectedEventId] = useState('');
+  const [orders, setOrders] = useState<BottleOrder[]>([]);
+  const [tabs, setTabs] = useState<VipTableTab[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  // Tonight's event can have started yesterday
+  useEffect(() => {
+    const loadEvents = async () => {
+      const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+      const { data, error } = await supabase
+        .from('events')
+        .select('id, name, event_date')
+        .gte('event_date', since)
+        .order('event_date', { ascending: true })
+        .limit(20);
+
+      if (error) {
+        toast({ variant: 'destructive', title: 'Error loading events', description: error.message });
+        setIsLoading(false);
+        return;
+      }
+      setEvents(data || []);
+      if (data && data.length > 0) {
+        setSelectedEventId(data[0].id);
+      } else {
+        setIsLoading(false);
+      }
+    };
+    loadEvents();
+  }, [toast]);
+
+  const loadBoard = useCallback(async () => {
+    if (!selectedEventId) return;
+    try {
+      const [openOrders, eventTabs] = await Promise.all([
+        getOpenBottleOrders(selectedEventId),
+        getEventTabs(selectedEventId),
+      ]);
+      setOrders(openOrders);
+      setTabs(eventTabs);
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error loading bottle service',
+        description: error.message,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [selectedEventId, toast]);
+
+  useEffect(() => {
+    loadBoard();
+    return subscribeToBottleService(loadBoard);
+  }, [loadBoard]);
+
+  const handleUpdateStatus = async (order: BottleOrder, status: BottleOrderStatus) => {
+    if (status === 'cancelled' && !confirm(`Cancel order #${order.order_number}? It will not be charged to the table.`)) {
+      return;
+    }
+
+    setUpdatingId(order.id);
+    try {
+      await updateBottleOrderStatus(order.id, status);
+      toast({ title: `Order #${order.order_number} updated` });
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not update order',
+        description: error.message,
+      });
+    } finally {
+      setUpdatingId(null);
+      loadBoard();
+    }
+  };
+
+  const handleSettle = async (tab: VipTableTab, method: TabSettlementMethod) => {
+    const amount = formatCents(tabAmountDueCents(tab));
+    const prompt = method === 'card'
+      ? `Charge ${amount} to the card on file for Table ${tab.table_number}?`
+      : `Record ${amount} as paid at the venue for Table ${tab.table_number}?`;
+    if (!confirm(prompt)) {
+      return;
+    }
+
+    setUpdatingId(tab.reservation_id);
+    try {
+      const { chargedCents } = await settleTab(tab.reservation_id, method);
+      toast({
+        title: `Table ${tab.table_number} settled`,
+        description: `${formatCents(chargedCents)} ${method === 'card' ? 'charged to the card on file' : 'paid at the venue'}. A receipt has been emailed.`,
+      });
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not settle tab',
+        description: error.message,
+      });
+    } finally {
+      setUpdatingId(null);
+      loadBoard();
+    }
+  };
+
+  const Layout = role === 'employee' ? EmployeePortalLayout : OwnerPortalLayout;
+
+  const headerActions = (
+    <div className="flex gap-2">
+      <Select value={selectedEventId} onValueChange={setSelectedEventId}>
+        <SelectTrigger className="w-56">
+          <SelectValue placeholder="Select event" />
+        </SelectTrigger>
+        <SelectContent>
+          {events.map((event) => (
+            <SelectItem key={event.id} value={event.id}>
+              {event.name} · {event.event_date}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button onClick={loadBoard} variant="outline" size="sm">
+        <RefreshCw className="h-4 w-4 mr-2" />
+        Refresh
+      </Button>
+    </div>
+  );
+
+  return (
+    <Layout
+      title="Bottle Service"
+      description="Orders from checked-in VIP tables, and each table's tab against its minimum spend."
+      actions={headerActions}
+    >
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : !selectedEventId ? (
+        <div className="rounded-lg border border-dashed py-12 text-center text-sm text-muted-foreground">
+          No upcoming events
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid gap-4 lg:grid-cols-2">
+            {OPEN_BOTTLE_ORDER_STATUSES.map((status) => {
+              const columnOrders = orders.filter((order) => order.status === status);
+              return (
+                <div key={status} className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <h2 className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">
+                      {COLUMN_LABELS[status]}
+                    </h2>
+                    <Badge variant="secondary">{columnOrders.length}</Badge>
+                  </div>
+
+                  {columnOrders.length === 0 && (
+                    <div className="rounded-lg border border-dashed py-8 text-center text-sm text-muted-foreground">
+                      No orders
+                    </div>
+                  )}
+
+                  {columnOrders.map((order) => {
+                    const nextStatus = NEXT_BOTTLE_ORDER_STATUS[order.status];
+                    const isUpdating = updatingId === order.id;
+                    return (
+                      <Card key={order.id}>
+                        <CardHeader className="pb-3">
+                          <CardTitle className="flex items-center justify-between text-base">
+                            <span>Table {order.table_number ?? '—'}</span>
+                            <span className="font-mono text-sm text-muted-foreground">#{order.order_number}</span>
+                          </CardTitle>
+                          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                            <Clock className="h-3 w-3" />
+                            {formatDistanceToNow(new Date(order.placed_at), { addSuffix: true })}
+                            <span>· {order.placed_by_name || order.purchaser_name}</span>
+                          </div>
+                        </CardHeader>
+                        <CardContent className="space-y-3">
+                          <ul className="space-y-1 text-sm">
+                            {order.items.map((item) => (
+                              <li key={item.id}>
+                                <span className="font-semibold">{item.quantity}×</span> {item.name}
+                              </li>
+                            ))}
+                          </ul>
+
+                          {order.notes && (
+                            <p className="rounded-md bg-yellow-500/10 p-2 text-xs text-yellow-600 dark:text-yellow-400">
+                              {order.notes}
+                            </p>
+                          )}
+
+                          <div className="flex items-center justify-end text-sm">
+                            <span className="font-semibold">{formatCents(order.subtotal_cents)}</span>
+                          </div>
+
+                          <div className="flex gap-2">
+                            {nextStatus && (
+                              <Button
+                                className="flex-1"
+                                size="sm"
+                                disabled={isUpdating}
+                                onClick={() => handleUpdateStatus(order, nextStatus)}
+                              >
+                                {isUpdating ? (
+                                  <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                  <>
+                                    {nextStatus === 'preparing' ? (
+                                      <Truck className="h-4 w-4 mr-2" />
+                                    ) : (
+                                      <Wine className="h-4 w-4 mr-2" />
+                                    )}
+                                    {ACTION_LABELS[nextStatus]}
+                                  </>
+                                )}
+                              </Button>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              disabled={isUpdating}
+                              onClick={() => handleUpdateStatus(order, 'cancelled')}
+                              title="Cancel order"
+                            >
+                              <XCircle className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </div>
+                        </CardContent>
+                      </Card>
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Table Tabs</CardTitle>
+              <CardDescription>
+                Tables owe their delivered orders or their minimum spend, whichever is higher. Settle at the end of the night.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {tabs.length === 0 ? (
+                <div className="text-center text-muted-foreground py-4">No tables have checked in yet.</div>
+              ) : (
+                <div className="border rounded-lg overflow-hidden">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Table</TableHead>
+                        <TableHead>Orders</TableHead>
+                        <TableHead>Minimum</TableHead>
+                        <TableHead>Due</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Settle</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {tabs.map((tab) => {
+                        const badge = TAB_STATUS_BADGES[tab.tab_status];
+                        const isSettled = tab.tab_status === 'settled';
+                        const isUpdating = updatingId === tab.reservation_id;
+                        return (
+                          <TableRow key={tab.reservation_id}>
+                            <TableCell>
+                              <div className="font-medium">Table {tab.table_number ?? '—'}</div>
+                              <div className="text-xs text-muted-foreground">{tab.purchaser_name}</div>
+                            </TableCell>
+                            <TableCell>
+                              {formatCents(tab.delivered_cents)}
+                              {tab.open_orders > 0 && (
+                                <div className="text-xs text-muted-foreground">
+                                  {tab.open_orders} open ({formatCents(tab.pending_cents)})
+                                </div>
+                              )}
+                            </TableCell>
+                            <TableCell>{tab.minimum_spend_cents > 0 ? formatCents(tab.minimum_spend_cents) : '—'}</TableCell>
+                            <TableCell className="font-semibold">
+                              {isSettled && tab.charged_cents !== null
+                                ? formatCents(tab.charged_cents)
+                                : formatCents(tabAmountDueCents(tab))}
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant={badge.variant}>{badge.label}</Badge>
+                              {tab.tab_status === 'failed' && tab.failure_reason && (
+                                <div className="text-xs text-muted-foreground mt-1">{tab.failure_reason}</div>
+                              )}
+                              {isSettled && tab.settlement_method && (
+                                <div className="text-xs text-muted-foreground mt-1">
+                                  {tab.settlement_method === 'card' ? 'Card on file' : tab.settlement_method === 'venue' ? 'Paid at venue' : 'Nothing owed'}
+                                </div>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              {!isSettled && (
+                                <div className="flex items-center gap-2">
+                                  <Button
+                                    size="sm"
+                                    disabled={isUpdating || tab.open_orders > 0 || !tab.has_card || tab.tab_status === 'failed'}
+                                    onClick={() => handleSettle(tab, 'card')}
+                                    title={!tab.has_card ? 'No card on file' : 'Charge the card on file'}
+                                  >
+                                    {isUpdating ? <Loader2 className="h-4 w-4 animate-spin" /> : <CreditCard className="h-4 w-4 mr-2" />}
+                                    Card
+                                  </Button>
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    disabled={isUpdating || tab.open_orders > 0}
+                                    onClick={() => handleSettle(tab, 'venue')}
+                                    title="Paid at the venue"
+                                  >
+                                    <Banknote className="h-4 w-4 mr-2" />
+                                    Venue
+                                  </Button>
+                                </div>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </Layout>
+  );
+};
+
+export default BottleServiceBoard;
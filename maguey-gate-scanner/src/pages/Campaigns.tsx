@@ -0,0 +1,377 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth, usePermission } from '@/contexts/AuthContext';
+import OwnerPortalLayout from '@/components/layout/OwnerPortalLayout';
+import { SegmentsCard } from '@/components/admin/SegmentsCard';
+import { CampaignComposerDialog } from '@/components/admin/CampaignComposerDialog';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Ban, Mail, Megaphone, MessageSquare, Pencil, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import {
+  CAMPAIGN_STATUS_LABELS,
+  cancelCampaign,
+  deleteCampaign,
+  getCampaignEventOptions,
+  getCampaigns,
+  getEventGenres,
+  getSegments,
+  getTemplates,
+  type CampaignEventOption,
+  type CampaignStatus,
+  type MarketingCampaign,
+  type MarketingSegment,
+  type MarketingTemplate,
+} from '@/lib/crm-campaign-service';
+import { describeSegmentRules } from '@/lib/crm-segments';
+import { format } from 'date-fns';
+
+const STATUS_VARIANTS: Record<CampaignStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  draft: 'outline',
+  scheduled: 'secondary',
+  sending: 'secondary',
+  sent: 'default',
+  cancelled: 'outline',
+  failed: 'destructive',
+};
+
+const formatMoney = (amount: number) =>
+  `$${Number(amount || 0).toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+
+const Campaigns = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const canManageMarketing = usePermission('manage_marketing');
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(true);
+  const [campaigns, setCampaigns] = useState<MarketingCampaign[]>([]);
+  const [segments, setSegments] = useState<MarketingSegment[]>([]);
+  const [templates, setTemplates] = useState<MarketingTemplate[]>([]);
+  const [events, setEvents] = useState<CampaignEventOption[]>([]);
+  const [genres, setGenres] = useState<string[]>([]);
+  const [composerOpen, setComposerOpen] = useState(false);
+  const [editingCampaign, setEditingCampaign] = useState<MarketingCampaign | null>(null);
+  const [cancellingCampaign, setCancellingCampaign] = useState<MarketingCampaign | null>(null);
+
+  // Redirect staff without manage_marketing
+  useEffect(() => {
+    if (!canManageMarketing) {
+      toast({
+        variant: 'destructive',
+        title: 'Access Denied',
+        description: 'Campaigns are only available to staff who can manage marketing.',
+      });
+      navigate('/dashboard');
+    }
+  }, [canManageMarketing, navigate, toast]);
+
+  const loadCampaigns = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [allCampaigns, allSegments, allTemplates, upcomingEvents, eventGenres] = await Promise.all([
+        getCampaigns(),
+        getSegments(),
+        getTemplates(),
+        getCampaignEventOptions(),
+        getEventGenres(),
+      ]);
+      setCampaigns(allCampaigns);
+      setSegments(allSegments);
+      setTemplates(allTemplates);
+      setEvents(upcomingEvents);
+      setGenres(eventGenres);
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error loading campaigns',
+        description: error.message,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  const loadSegments = useCallback(async () => {
+    try {
+      setSegments(await getSegments());
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error loading segments', description: error.message });
+    }
+  }, [toast]);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      setTemplates(await getTemplates());
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error loading templates', description: error.message });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (canManageMarketing) {
+      loadCampaigns();
+    }
+  }, [canManageMarketing, loadCampaigns]);
+
+  const openComposer = (campaign: MarketingCampaign | null) => {
+    setEditingCampaign(campaign);
+    setComposerOpen(true);
+  };
+
+  const handleCancel = async () => {
+    if (!user || !cancellingCampaign) return;
+    try {
+      await cancelCampaign(cancellingCampaign, user.id);
+      toast({ title: 'Campaign cancelled', description: `${cancellingCampaign.name} won't be sent.` });
+      loadCampaigns();
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    } finally {
+      setCancellingCampaign(null);
+    }
+  };
+
+  const handleDelete = async (campaign: MarketingCampaign) => {
+    try {
+      await deleteCampaign(campaign);
+      toast({ title: 'Campaign deleted', description: `${campaign.name} has been removed.` });
+      loadCampaigns();
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    }
+  };
+
+  const describeTiming = (campaign: MarketingCampaign) => {
+    if (campaign.sent_at) return `Sent ${format(new Date(campaign.sent_at), 'MMM d, h:mm a')}`;
+    if (campaign.status === 'scheduled' && campaign.scheduled_at) {
+      return `Goes out ${format(new Date(campaign.scheduled_at), 'MMM d, h:mm a')}`;
+    }
+    return `Created ${format(new Date(campaign.created_at), 'MMM d')}`;
+  };
+
+  if (!canManageMarketing) {
+    return null;
+  }
+
+  if (isLoading && campaigns.length === 0 && segments.length === 0) {
+    return (
+      <OwnerPortalLayout title="Campaigns">
+          <div className="flex items-center justify-center py-12">
+            <div className="text-center space-y-4">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+              <p className="text-muted-foreground">Loading campaigns...</p>
+            </div>
+          </div>
+      </OwnerPortalLayout>
+    );
+  }
+
+  const sentCampaigns = campaigns.filter((campaign) => campaign.status === 'sent');
+  const totalRevenue = sentCampaigns.reduce((sum, campaign) => sum + Number(campaign.results?.attributed_revenue || 0), 0);
+  const totalTickets = sentCampaigns.reduce((sum, campaign) => sum + (campaign.results?.attributed_tickets || 0), 0);
+
+  const headerActions = (
+          <div className="flex gap-2">
+            <Button onClick={loadCampaigns} variant="outline" size="sm">
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+            <Button onClick={() => openComposer(null)} disabled={segments.length === 0}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Campaign
+            </Button>
+          </div>
+  );
+
+  return (
+    <OwnerPortalLayout
+      title="Campaigns"
+      description="Targeted emails and texts to customer segments, and the ticket sales they bring in"
+      actions={headerActions}
+    >
+      <div className="space-y-6">
+        <SegmentsCard segments={segments} genres={genres} onChanged={loadSegments} />
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Megaphone className="h-5 w-5" />
+              Campaigns ({campaigns.length})
+            </CardTitle>
+            <CardDescription>
+              {sentCampaigns.length > 0
+                ? `${totalTickets} tickets and ${formatMoney(totalRevenue)} in sales from campaign links so far. `
+                : ''}
+              Sales count when the buyer came from the campaign's ticket link. "Bought within 7 days" counts any
+              purchase by a recipient in the week after it was sent.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {campaigns.length === 0 ? (
+              <div className="text-center text-muted-foreground py-8">
+                {segments.length === 0
+                  ? 'Create a segment first, then send it a campaign.'
+                  : 'No campaigns yet. Click "New Campaign" to write one.'}
+              </div>
+            ) : (
+              <div className="border rounded-lg overflow-hidden">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Campaign</TableHead>
+                      <TableHead>Audience</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Delivered</TableHead>
+                      <TableHead>Sales</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {campaigns.map((campaign) => {
+                      const editable = campaign.status === 'draft' || campaign.status === 'scheduled';
+                      const results = campaign.results;
+                      return (
+                        <TableRow key={campaign.id}>
+                          <TableCell>
+                            <div className="flex items-center gap-2 font-medium">
+                              {campaign.channel === 'email' ? (
+                                <Mail className="h-4 w-4 text-muted-foreground" />
+                              ) : (
+                                <MessageSquare className="h-4 w-4 text-muted-foreground" />
+                              )}
+                              {campaign.name}
+                            </div>
+                            {campaign.events && (
+                              <div className="text-xs text-muted-foreground">
+                                For {campaign.events.name} ({campaign.events.event_date})
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell className="max-w-xs">
+                            <div className="text-sm">{campaign.marketing_segments?.name || 'Deleted segment'}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {describeSegmentRules(campaign.segment_rules)}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={STATUS_VARIANTS[campaign.status]}>
+                              {CAMPAIGN_STATUS_LABELS[campaign.status]}
+                            </Badge>
+                            <div className="text-xs text-muted-foreground mt-1">{describeTiming(campaign)}</div>
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {campaign.sent_at ? (
+                              <div className="space-y-1">
+                                <div>{campaign.sent_count} sent</div>
+                                <div className="text-xs text-muted-foreground">
+                                  {campaign.failed_count} failed · {campaign.skipped_count} no consent
+                                  {results?.unsubscribes ? ` · ${results.unsubscribes} unsubscribed` : ''}
+                                </div>
+                              </div>
+                            ) : (
+                              <span className="text-muted-foreground">-</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {campaign.sent_at && results ? (
+                              <div className="space-y-1">
+                                <div>
+                                  {results.attributed_tickets} tickets · {formatMoney(results.attributed_revenue)}
+                                </div>
+                                <div className="text-xs text-muted-foreground">
+                                  {results.attributed_orders} orders from the link · {results.converted_recipients} bought
+                                  within 7 days
+                                </div>
+                              </div>
+                            ) : (
+                              <span className="text-muted-foreground">-</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              {editable && (
+                                <>
+                                  <Button variant="ghost" size="sm" onClick={() => openComposer(campaign)}>
+                                    <Pencil className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => setCancellingCampaign(campaign)}
+                                    title="Cancel campaign"
+                                  >
+                                    <Ban className="h-4 w-4" />
+                                  </Button>
+                                </>
+                              )}
+                              {(campaign.status === 'draft' || campaign.status === 'cancelled') && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleDelete(campaign)}
+                                  title="Delete campaign"
+                                  className="text-destructive"
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {user && (
+        <CampaignComposerDialog
+          open={composerOpen}
+          onOpenChange={setComposerOpen}
+          campaign={editingCampaign}
+          segments={segments}
+          templates={templates}
+          events={events}
+          actorId={user.id}
+          onSaved={loadCampaigns}
+          onTemplatesChanged={loadTemplates}
+        />
+      )}
+
+      <AlertDialog open={!!cancellingCampaign} onOpenChange={(open) => !open && setCancellingCampaign(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel Campaign</AlertDialogTitle>
+            <AlertDialogDescription>
+              {cancellingCampaign?.name} won't be sent. You can delete it afterwards.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep It</AlertDialogCancel>
+            <AlertDialogAction onClick={handleCancel} className="bg-destructive hover:bg-destructive/90">
+              Cancel Campaign
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </OwnerPortalLayout>
+  );
+};
+
+export default Campaigns;
@@ -8,6 +8,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import {
   Table,
@@ -24,8 +26,13 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { Search, User, Phone, DollarSign, Ticket } from "lucide-react";
+import { Search, User, Phone, DollarSign, Ticket, Megaphone } from "lucide-react";
 import { format } from "date-fns";
+import {
+  getMarketingConsent,
+  setMarketingConsent,
+  type MarketingConsent,
+} from "@/lib/crm-campaign-service";
 
 interface Customer {
   email: string;
@@ -54,6 +61,8 @@ const CustomerManagement = () => {
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
   const [customerOrders, setCustomerOrders] = useState<any[]>([]);
   const [customerTickets, setCustomerTickets] = useState<any[]>([]);
+  const [customerConsent, setCustomerConsent] = useState<MarketingConsent | null>(null);
+  const [isSavingConsent, setIsSavingConsent] = useState(false);
 
   useEffect(() => {
     if (role !== 'owner') {
@@ -147,7 +156,7 @@ const CustomerManagement = () => {
       const emailFilter = `purchaser_email.ilike.${customer.email},customer_email.ilike.${customer.email}`;
       const ticketEmailFilter = `guest_email.ilike.${customer.email},attendee_email.ilike.${customer.email}`;
 
-      const [ordersResult, ticketsResult] = await Promise.all([
+      const [ordersResult, ticketsResult, consent] = await Promise.all([
         supabase
           .from("orders")
           .select("id, created_at, total, status, event_id")
@@ -159,6 +168,7 @@ const CustomerManagement = () => {
           .select("id, created_at, status, scanned_at, ticket_type_id, event_id")
           .or(ticketEmailFilter)
           .order("created_at", { ascending: false }),
+        getMarketingConsent(customer.email),
       ]);
 
       if (ordersResult.error) throw ordersResult.error;
@@ -166,6 +176,7 @@ const CustomerManagement = () => {
 
       setCustomerOrders(ordersResult.data || []);
       setCustomerTickets(ticketsResult.data || []);
+      setCustomerConsent(consent);
       setSelectedCustomer(customer);
     } catch (error: any) {
       toast({
@@ -176,6 +187,29 @@ const CustomerManagement = () => {
     }
   };
 
+  const handleConsentChange = async (changes: { emailOptIn?: boolean; smsOptIn?: boolean }) => {
+    if (!selectedCustomer || !user) return;
+
+    setIsSavingConsent(true);
+    try {
+      const consent = await setMarketingConsent(
+        selectedCustomer.email,
+        // Texts need a number; use the one from their orders
+        { ...changes, ...(changes.smsOptIn && !customerConsent?.phone ? { phone: selectedCustomer.phone } : {}) },
+        user.id
+      );
+      setCustomerConsent(consent);
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to update consent",
+      });
+    } finally {
+      setIsSavingConsent(false);
+    }
+  };
+
   const currencyFormatter = new Intl.NumberFormat("en-US", {
     style: "currency",
     currency: "USD",
@@ -197,6 +231,10 @@ const CustomerManagement = () => {
               Manage and search your customer base
             </p>
           </div>
+          <Button variant="outline" onClick={() => navigate("/campaigns")}>
+            <Megaphone className="h-4 w-4 mr-2" />
+            Campaigns
+          </Button>
         </div>
 
         {/* Search Bar */}
@@ -385,6 +423,57 @@ const CustomerManagement = () => {
                   </div>
                 )}
 
+                {/* Marketing consent */}
+                <div>
+                  <h3 className="font-semibold mb-3">Marketing</h3>
+                  <div className="grid gap-3 sm:grid-cols-2">
+                    <div className="flex items-center justify-between rounded-lg border p-3">
+                      <div>
+                        <Label htmlFor="consent_email">Campaign emails</Label>
+                        <p className="text-xs text-muted-foreground">
+                          {customerConsent?.email_unsubscribed_at
+                            ? `Unsubscribed ${format(new Date(customerConsent.email_unsubscribed_at), "MMM d, yyyy")}`
+                            : customerConsent?.email_opt_in == null
+                            ? "Follows their newsletter signup"
+                            : customerConsent.email_opt_in
+                            ? "Agreed to emails"
+                            : "Doesn't want emails"}
+                        </p>
+                      </div>
+                      <Switch
+                        id="consent_email"
+                        checked={customerConsent?.email_opt_in === true}
+                        disabled={isSavingConsent || !!customerConsent?.email_unsubscribed_at}
+                        onCheckedChange={(checked) => handleConsentChange({ emailOptIn: checked })}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between rounded-lg border p-3">
+                      <div>
+                        <Label htmlFor="consent_sms">Campaign texts</Label>
+                        <p className="text-xs text-muted-foreground">
+                          {customerConsent?.sms_unsubscribed_at
+                            ? `Opted out ${format(new Date(customerConsent.sms_unsubscribed_at), "MMM d, yyyy")}`
+                            : !customerConsent?.phone && !selectedCustomer.phone
+                            ? "No phone number on file"
+                            : customerConsent?.sms_opt_in
+                            ? `Agreed to texts at ${customerConsent.phone || selectedCustomer.phone}`
+                            : "Only with their OK"}
+                        </p>
+                      </div>
+                      <Switch
+                        id="consent_sms"
+                        checked={customerConsent?.sms_opt_in === true}
+                        disabled={
+                          isSavingConsent ||
+                          !!customerConsent?.sms_unsubscribed_at ||
+                          (!customerConsent?.phone && !selectedCustomer.phone)
+                        }
+                        onCheckedChange={(checked) => handleConsentChange({ smsOptIn: checked })}
+                      />
+                    </div>
+                  </div>
+                </div>
+
                 {/* Orders */}
                 <div>
                   <h3 className="font-semibold mb-3">Order History</h3>
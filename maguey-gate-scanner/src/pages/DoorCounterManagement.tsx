@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useRole, useAuth } from '@/contexts/AuthContext';
 import OwnerPortalLayout from '@/components/layout/OwnerPortalLayout';
@@ -38,6 +38,7 @@ import {
   CheckCircle2,
   Clock,
   Activity,
+  Upload,
 } from 'lucide-react';
 import {
   getAllDoorCounters,
@@ -47,7 +48,9 @@ import {
   deleteDoorCounter,
   getCounterHealthStatus,
   calibrateCounter,
+  uploadCounterReadings,
   type DoorCounter,
+  type CounterCountMode,
   type CounterHealthStatus,
 } from '@/lib/door-counter-service';
 import { formatDistanceToNow } from 'date-fns';
@@ -63,6 +66,8 @@ const DoorCounterManagement = () => {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isEditMode, setIsEditMode] = useState(false);
   const [selectedCounter, setSelectedCounter] = useState<DoorCounter | null>(null);
+  const [uploadCounter, setUploadCounter] = useState<DoorCounter | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [formData, setFormData] = useState({
     device_id: '',
     device_name: '',
@@ -71,6 +76,9 @@ const DoorCounterManagement = () => {
     api_endpoint: '',
     api_key: '',
     is_active: true,
+    count_mode: 'delta' as CounterCountMode,
+    rollover_at: '',
+    poll_enabled: false,
   });
 
   // Redirect non-owners
@@ -130,6 +138,9 @@ const DoorCounterManagement = () => {
         api_endpoint: counter.api_endpoint || '',
         api_key: counter.api_key || '',
         is_active: counter.is_active,
+        count_mode: counter.count_mode,
+        rollover_at: counter.rollover_at ? String(counter.rollover_at) : '',
+        poll_enabled: counter.poll_enabled,
       });
     } else {
       setIsEditMode(false);
@@ -142,21 +153,31 @@ const DoorCounterManagement = () => {
         api_endpoint: '',
         api_key: '',
         is_active: true,
+        count_mode: 'delta',
+        rollover_at: '',
+        poll_enabled: false,
       });
     }
     setIsDialogOpen(true);
   };
 
   const handleSubmit = async () => {
+    const counterData = {
+      ...formData,
+      rollover_at: formData.count_mode === 'cumulative' && formData.rollover_at
+        ? parseInt(formData.rollover_at, 10)
+        : null,
+    };
+
     try {
       if (isEditMode && selectedCounter) {
-        await updateDoorCounter(selectedCounter.id, formData);
+        await updateDoorCounter(selectedCounter.id, counterData);
         toast({
           title: 'Counter updated',
           description: 'Door counter has been updated successfully.',
         });
       } else {
-        await createDoorCounter(formData);
+        await createDoorCounter(counterData);
         toast({
           title: 'Counter created',
           description: 'Door counter has been registered successfully.',
@@ -214,6 +235,45 @@ const DoorCounterManagement = () => {
     }
   };
 
+  const handleUploadClick = (counter: DoorCounter) => {
+    setUploadCounter(counter);
+    fileInputRef.current?.click();
+  };
+
+  const handleUploadFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !uploadCounter) return;
+
+    try {
+      const isJson = file.name.toLowerCase().endsWith('.json');
+      const result = await uploadCounterReadings(
+        uploadCounter,
+        await file.text(),
+        isJson ? 'application/json' : 'text/csv'
+      );
+      const skipped = result.duplicates + result.stale;
+      toast({
+        title: `${result.accepted} readings imported`,
+        description: [
+          `${result.entries} entries, ${result.exits} exits`,
+          skipped > 0 ? `${skipped} already imported or out of date` : null,
+          result.resets > 0 ? `${result.resets} counter reset${result.resets === 1 ? '' : 's'} detected` : null,
+          result.rollovers > 0 ? `${result.rollovers} rollover${result.rollovers === 1 ? '' : 's'}` : null,
+        ].filter(Boolean).join(' · '),
+      });
+      loadCounters();
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Upload failed',
+        description: error.message,
+      });
+    } finally {
+      setUploadCounter(null);
+    }
+  };
+
   const getHealthBadge = (counter: DoorCounter) => {
     const health = healthStatuses[counter.id];
     if (!health) {
@@ -327,6 +387,34 @@ const DoorCounterManagement = () => {
                       placeholder="e.g., Main Entrance, Side Door"
                     />
                   </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="count_mode">Counts Reported As</Label>
+                    <Select
+                      value={formData.count_mode}
+                      onValueChange={(value: CounterCountMode) => setFormData({ ...formData, count_mode: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="delta">Counts since the last reading</SelectItem>
+                        <SelectItem value="cumulative">Running totals</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {formData.count_mode === 'cumulative' && (
+                    <div className="grid gap-2">
+                      <Label htmlFor="rollover_at">Rollover Value</Label>
+                      <Input
+                        id="rollover_at"
+                        type="number"
+                        min={1}
+                        value={formData.rollover_at}
+                        onChange={(e) => setFormData({ ...formData, rollover_at: e.target.value })}
+                        placeholder="e.g., 65535 (leave empty if totals never wrap)"
+                      />
+                    </div>
+                  )}
                   <div className="grid gap-2">
                     <Label htmlFor="api_endpoint">API Endpoint</Label>
                     <Input
@@ -346,6 +434,17 @@ const DoorCounterManagement = () => {
                       placeholder="API authentication key"
                     />
                   </div>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      id="poll_enabled"
+                      checked={formData.poll_enabled}
+                      onChange={(e) => setFormData({ ...formData, poll_enabled: e.target.checked })}
+                      className="rounded"
+                      disabled={!formData.api_endpoint}
+                    />
+                    <Label htmlFor="poll_enabled">Poll the API endpoint every minute</Label>
+                  </div>
                   <div className="flex items-center gap-2">
                     <input
                       type="checkbox"
@@ -376,6 +475,13 @@ const DoorCounterManagement = () => {
       description="Register and manage physical door counter devices"
       actions={headerActions}
     >
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          className="hidden"
+          onChange={handleUploadFile}
+        />
 
         {/* Counters Table */}
         <Card>
@@ -401,6 +507,7 @@ const DoorCounterManagement = () => {
                       <TableHead>Device</TableHead>
                       <TableHead>Type</TableHead>
                       <TableHead>Location</TableHead>
+                      <TableHead>Counting</TableHead>
                       <TableHead>Status</TableHead>
                       <TableHead>Health</TableHead>
                       <TableHead>Last Heartbeat</TableHead>
@@ -429,6 +536,23 @@ const DoorCounterManagement = () => {
                           <TableCell>
                             {counter.location || <span className="text-muted-foreground">-</span>}
                           </TableCell>
+                          <TableCell>
+                            <div className="space-y-1">
+                              <div className="text-sm">
+                                {counter.count_mode === 'cumulative' ? 'Running totals' : 'Per reading'}
+                                {counter.poll_enabled && <span className="text-muted-foreground"> · polled</span>}
+                              </div>
+                              {counter.reset_count > 0 && (
+                                <div
+                                  className="flex items-center gap-1 text-xs text-yellow-600"
+                                  title={counter.last_reset_at ? `Last reset ${new Date(counter.last_reset_at).toLocaleString()}` : undefined}
+                                >
+                                  <AlertTriangle className="h-3 w-3" />
+                                  {counter.reset_count} reset{counter.reset_count === 1 ? '' : 's'} detected
+                                </div>
+                              )}
+                            </div>
+                          </TableCell>
                           <TableCell>
                             <Badge variant={counter.is_active ? 'default' : 'secondary'}>
                               {counter.is_active ? 'Active' : 'Inactive'}
@@ -461,6 +585,14 @@ const DoorCounterManagement = () => {
                               >
                                 <Settings className="h-4 w-4" />
                               </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleUploadClick(counter)}
+                                title="Upload readings (CSV or JSON)"
+                              >
+                                <Upload className="h-4 w-4" />
+                              </Button>
                               <Button
                                 variant="ghost"
                                 size="sm"
@@ -2,7 +2,7 @@ import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { isSupabaseConfigured } from "@/integrations/supabase/client";
-import { useAuth, useRole } from "@/contexts/AuthContext";
+import { useAuth, usePermission } from "@/contexts/AuthContext";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
@@ -30,6 +30,8 @@ import {
   Crown,
   Copy,
   ShieldCheck,
+  Clock,
+  CalendarClock,
 } from "lucide-react";
 import {
   AlertDialog,
@@ -54,6 +56,7 @@ import { Upload, X, Image as ImageIcon, Wand2, Settings } from "lucide-react";
 import { generateTicketTypeCode } from "@/lib/ticket-type-utils";
 import { uploadEventImage, validateImageFile } from "@/lib/event-image-service";
 import { EventBulkImport } from "@/components/events/EventBulkImport";
+import { EventRescheduleDialog } from "@/components/events/EventRescheduleDialog";
 import OwnerPortalLayout from "@/components/layout/OwnerPortalLayout";
 import { syncEvent } from "@/lib/cross-site-sync";
 import {
@@ -97,13 +100,22 @@ interface Event {
   newsletter_sent_count: number;
   vip_enabled: boolean;
   age_restriction: string | null;
+  on_sale_at: string | null;
 }
 
+/** ISO timestamp -> value for a datetime-local input (local time, no seconds) */
+const toDateTimeLocalValue = (iso: string) => {
+  const date = new Date(iso);
+  date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
+  return date.toISOString().slice(0, 16);
+};
+
 const EventManagement = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const { user } = useAuth();
-  const role = useRole();
+  const canManageEvents = usePermission("manage_events");
+  const canRefund = usePermission("refund");
 
   const [events, setEvents] = useState<Event[]>([]);
   const [filteredEvents, setFilteredEvents] = useState<Event[]>([]);
@@ -144,6 +156,7 @@ const EventManagement = () => {
   const [categoriesInput, setCategoriesInput] = useState("");
   const [tagsInput, setTagsInput] = useState("");
   const [ageRestriction, setAgeRestriction] = useState<string>("none");
+  const [onSaleAt, setOnSaleAt] = useState("");
 
   // Settings state
   const [settingsDialogOpen, setSettingsDialogOpen] = useState(false);
@@ -157,6 +170,11 @@ const EventManagement = () => {
   const [sendingNotification, setSendingNotification] = useState(false);
   const [subscriberCount, setSubscriberCount] = useState<number | null>(null);
 
+  // Reschedule state
+  const [rescheduleDialogOpen, setRescheduleDialogOpen] = useState(false);
+  const [eventToReschedule, setEventToReschedule] = useState<Event | null>(null);
+  const [reschedulePrefill, setReschedulePrefill] = useState<{ date: string; time: string } | null>(null);
+
   // VIP section state for new events
   const [enableVipOnCreate, setEnableVipOnCreate] = useState(false);
 
@@ -241,6 +259,12 @@ const EventManagement = () => {
     }
   };
 
+  const handleOpenRescheduleDialog = (event: Event, prefill: { date: string; time: string } | null = null) => {
+    setEventToReschedule(event);
+    setReschedulePrefill(prefill);
+    setRescheduleDialogOpen(true);
+  };
+
   const handleSendNotification = async () => {
     if (!eventToNotify) return;
 
@@ -274,24 +298,24 @@ const EventManagement = () => {
     }
   };
 
-  // Redirect employees (allow owners and promoters)
+  // Redirect staff without manage_events
   useEffect(() => {
-    if (role !== 'owner' && role !== 'promoter') {
+    if (!canManageEvents) {
       toast({
         variant: "destructive",
         title: "Access Denied",
-        description: "Event management is only available to owners and promoters.",
+        description: "Event management is only available to staff who can manage events.",
       });
       navigate("/scanner");
     }
-  }, [role, navigate, toast]);
+  }, [canManageEvents, navigate, toast]);
 
   // Load events
   useEffect(() => {
-    if (role === 'owner' || role === 'promoter') {
+    if (canManageEvents) {
       loadEvents();
     }
-  }, [role]);
+  }, [canManageEvents]);
 
   // Filter events based on search
   useEffect(() => {
@@ -324,7 +348,7 @@ const EventManagement = () => {
       // Query events with new fields
       const { data: eventsData, error: eventsError } = await supabase
         .from("events")
-        .select("id, name, description, event_date, event_time, venue_name, venue_address, city, image_url, status, published_at, categories, tags, created_at, updated_at, newsletter_sent_at, newsletter_sent_count, vip_enabled, age_restriction")
+        .select("id, name, description, event_date, event_time, venue_name, venue_address, city, image_url, status, published_at, categories, tags, created_at, updated_at, newsletter_sent_at, newsletter_sent_count, vip_enabled, age_restriction, on_sale_at")
         .order("event_date", { ascending: false });
 
       if (eventsError) throw eventsError;
@@ -347,6 +371,7 @@ const EventManagement = () => {
         newsletter_sent_count: (event as any).newsletter_sent_count || 0,
         vip_enabled: !!(event as any).vip_enabled,
         age_restriction: (event as any).age_restriction || null,
+        on_sale_at: (event as any).on_sale_at || null,
         ticket_types: (ticketTypesData || [])
           .filter(tt => tt.event_id === event.id)
           .map(tt => ({
@@ -389,6 +414,7 @@ const EventManagement = () => {
     setCategoriesInput("");
     setTagsInput("");
     setAgeRestriction("none");
+    setOnSaleAt("");
     setEnableVipOnCreate(false);
     setEarlyAccessEnabled(false);
     // Reset wizard state for new event creation
@@ -422,6 +448,7 @@ const EventManagement = () => {
     setCategoriesInput((event.categories || []).join(", "));
     setTagsInput((event.tags || []).join(", "));
     setAgeRestriction(event.age_restriction || "none");
+    setOnSaleAt("");
     setEnableVipOnCreate(event.vip_enabled);
     setEarlyAccessEnabled(false);
     setWizardStep(1);
@@ -446,6 +473,7 @@ const EventManagement = () => {
     setTicketTypes(event.ticket_types || []);
     setEventStatus(event.status || 'draft');
     setAgeRestriction(event.age_restriction || "none");
+    setOnSaleAt(event.on_sale_at ? toDateTimeLocalValue(event.on_sale_at) : "");
     setCategories(event.categories || []);
     setTags(event.tags || []);
     setCategoriesInput((event.categories || []).join(", "));
@@ -643,6 +671,24 @@ const EventManagement = () => {
       return;
     }
 
+    // Moving an event people have paid for goes through Reschedule, so
+    // holders are told and can get a refund
+    if (editingEvent) {
+      const originalDate = new Date(editingEvent.event_date).toISOString().split('T')[0];
+      const originalTime = (editingEvent.event_time || "20:00").slice(0, 5);
+      if (eventDate !== originalDate || eventTime.slice(0, 5) !== originalTime) {
+        const { totalTickets } = await getEventStats(editingEvent.id);
+        if (totalTickets > 0) {
+          toast({
+            title: "Use Reschedule to Move This Event",
+            description: `${totalTickets} ticket${totalTickets === 1 ? " has" : "s have"} been sold, so holders need to be told and offered a refund. Your other changes have not been saved yet.`,
+          });
+          handleOpenRescheduleDialog(editingEvent, { date: eventDate, time: eventTime.slice(0, 5) });
+          return;
+        }
+      }
+    }
+
     // Validate event day of week matches event name pattern
     const dayValidation = validateEventDayOfWeek(eventName, eventDateTime);
     if (!dayValidation.isValid) {
@@ -702,6 +748,7 @@ const EventManagement = () => {
         categories: parsedCategories,
         tags: parsedTags,
         age_restriction: ageRestriction === "none" ? null : ageRestriction,
+        on_sale_at: onSaleAt ? new Date(onSaleAt).toISOString() : null,
       };
 
       let eventId: string;
@@ -1026,7 +1073,7 @@ const EventManagement = () => {
     }
   };
 
-  if (role !== 'owner' && role !== 'promoter') {
+  if (!canManageEvents) {
     return null;
   }
 
@@ -1111,6 +1158,7 @@ const EventManagement = () => {
                           setDeleteDialogOpen(true);
                         }}
                         onNotify={handleOpenNotifyDialog}
+                        onReschedule={canRefund ? (e) => handleOpenRescheduleDialog(e) : undefined}
                         getStats={(eventId) => getEventStats(eventId)}
                       />
                     ))}
@@ -1260,6 +1308,21 @@ const EventManagement = () => {
                   <p className="text-xs text-slate-500">Customers must acknowledge age requirement at checkout</p>
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="on-sale-at" className="text-slate-300 font-medium tracking-wide flex items-center gap-2">
+                    <Clock className="w-4 h-4 text-indigo-400" />
+                    On-Sale Date & Time
+                  </Label>
+                  <Input
+                    id="on-sale-at"
+                    type="datetime-local"
+                    value={onSaleAt}
+                    onChange={(e) => setOnSaleAt(e.target.value)}
+                    className="bg-white/5 border-white/10 text-white h-11 rounded-xl focus:border-indigo-500/50 focus:ring-indigo-500/20 w-64"
+                  />
+                  <p className="text-xs text-slate-500">Leave empty to sell right away. Loyalty tiers with early access can buy before this.</p>
+                </div>
+
                 <div className="space-y-4">
                   <Label className="text-slate-300 font-medium tracking-wide">Event Image / Flyer</Label>
                   <div className="space-y-4">
@@ -1502,6 +1565,21 @@ const EventManagement = () => {
                       <p className="text-xs text-slate-500">Customers must acknowledge age requirement at checkout</p>
                     </div>
 
+                    <div className="space-y-2">
+                      <Label htmlFor="on-sale-at-new" className="text-slate-300 font-medium tracking-wide flex items-center gap-2">
+                        <Clock className="w-4 h-4 text-indigo-400" />
+                        On-Sale Date & Time
+                      </Label>
+                      <Input
+                        id="on-sale-at-new"
+                        type="datetime-local"
+                        value={onSaleAt}
+                        onChange={(e) => setOnSaleAt(e.target.value)}
+                        className="bg-white/5 border-white/10 text-white h-11 rounded-xl focus:border-indigo-500/50 focus:ring-indigo-500/20 w-64"
+                      />
+                      <p className="text-xs text-slate-500">Leave empty to sell right away. Loyalty tiers with early access can buy before this.</p>
+                    </div>
+
                     <div className="space-y-4">
                       <Label className="text-slate-300 font-medium tracking-wide">Event Image / Flyer</Label>
                       <div className="space-y-4">
@@ -1976,6 +2054,26 @@ const EventManagement = () => {
         </Dialog>
 
         {/* Newsletter Notification Dialog */}
+        <EventRescheduleDialog
+          event={eventToReschedule}
+          open={rescheduleDialogOpen}
+          onOpenChange={setRescheduleDialogOpen}
+          onRescheduled={() => {
+            if (eventToReschedule) {
+              logAuditEvent('event_updated', 'event', `Event rescheduled: ${eventToReschedule.name}`, {
+                userId: user?.id,
+                resourceId: eventToReschedule.id,
+                severity: 'warning',
+                metadata: { rescheduled: true, previousDate: eventToReschedule.event_date },
+              }).catch(() => {});
+            }
+            setEditDialogOpen(false);
+            loadEvents();
+          }}
+          initialDate={reschedulePrefill?.date}
+          initialTime={reschedulePrefill?.time}
+        />
+
         <Dialog open={notifyDialogOpen} onOpenChange={setNotifyDialogOpen}>
           <DialogContent className="max-w-lg">
             <DialogHeader>
@@ -2089,10 +2187,11 @@ interface EventRowProps {
   onClone: (event: Event) => void;
   onDelete: (event: Event) => void;
   onNotify: (event: Event) => void;
+  onReschedule?: (event: Event) => void;
   getStats: (eventId: string) => Promise<{ totalTickets: number; scannedTickets: number; revenue: number }>;
 }
 
-const EventRow = ({ event, onEdit, onClone, onDelete, onNotify, getStats }: EventRowProps) => {
+const EventRow = ({ event, onEdit, onClone, onDelete, onNotify, onReschedule, getStats }: EventRowProps) => {
   const [stats, setStats] = useState<{ totalTickets: number; scannedTickets: number; revenue: number } | null>(null);
   const [loadingStats, setLoadingStats] = useState(false);
 
@@ -2186,6 +2285,16 @@ const EventRow = ({ event, onEdit, onClone, onDelete, onNotify, getStats }: Even
           >
             <Copy className="h-4 w-4" />
           </Button>
+          {onReschedule && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onReschedule(event)}
+              title="Reschedule event"
+            >
+              <CalendarClock className="h-4 w-4" />
+            </Button>
+          )}
           <Button
             variant="ghost"
             size="sm"
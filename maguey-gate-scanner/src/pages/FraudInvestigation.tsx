@@ -15,6 +15,7 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
 import {
@@ -31,6 +32,7 @@ import {
   Clock,
 } from 'lucide-react';
 import { FraudAnalysisModal } from '@/components/dashboard/FraudAnalysisModal';
+import { PurchaseReviewQueue } from '@/components/dashboard/PurchaseReviewQueue';
 import { confirmFraud, whitelistFraudDetection, getHighRiskAlerts } from '@/lib/fraud-detection-service';
 
 interface FraudLog {
@@ -295,9 +297,19 @@ const FraudInvestigation = () => {
     <OwnerPortalLayout
       title="Security Alerts"
       subtitle="SECURITY"
-      description="Review flagged scan attempts and fraud indicators"
+      description="Review flagged scan attempts and ticket purchases held for review"
     >
-      <div className="space-y-6">
+      <Tabs defaultValue={searchParams.get('tab') === 'purchases' ? 'purchases' : 'scans'} className="space-y-6">
+        <TabsList>
+          <TabsTrigger value="scans">Scan Alerts</TabsTrigger>
+          <TabsTrigger value="purchases">Purchase Reviews</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="purchases">
+          <PurchaseReviewQueue />
+        </TabsContent>
+
+        <TabsContent value="scans" className="space-y-6">
 
         {/* Filters */}
         <Card className="mb-6 border-primary/20">
@@ -567,7 +579,8 @@ const FraudInvestigation = () => {
             onOpenChange={setIsModalOpen}
           />
         )}
-      </div>
+        </TabsContent>
+      </Tabs>
     </OwnerPortalLayout>
   );
 };
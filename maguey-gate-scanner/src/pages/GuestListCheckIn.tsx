@@ -22,6 +22,11 @@ import {
   type GuestSearchResult,
 } from '@/lib/guest-list-service';
 import { isOk } from '@/lib/result';
+import { BannedGuestError, recordBanMatch } from '@/lib/banned-guest-service';
+import type { BanMatch } from '@/lib/banned-guests';
+import { logAuditEvent } from '@/lib/audit-service';
+import { RejectionOverlay } from '@/components/scanner/RejectionOverlay';
+import { usePermission } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
 import { toast } from 'sonner';
 import { Users, CheckCircle2, Clock, Download, Loader2, ArrowLeft } from 'lucide-react';
@@ -30,11 +35,18 @@ import { Button } from '@/components/ui/button';
 
 export function GuestListCheckIn() {
   const navigate = useNavigate();
+  const canOverride = usePermission('override');
   const [selectedEventId, setSelectedEventId] = useState<string>('');
   const [searchTerm, setSearchTerm] = useState('');
   const [checkingInId, setCheckingInId] = useState<string | null>(null);
   const [scannerId, setScannerId] = useState<string>('');
   const [isExporting, setIsExporting] = useState(false);
+  const [bannedCheckIn, setBannedCheckIn] = useState<{
+    guest: GuestSearchResult;
+    actualPlusOnes: number;
+    match: BanMatch;
+    clearedBanIds: string[];
+  } | null>(null);
   const queryClient = useQueryClient();
 
   // Get current user for scanner ID
@@ -151,7 +163,7 @@ export function GuestListCheckIn() {
   });
 
   const handleCheckIn = useCallback(
-    async (guest: GuestSearchResult, actualPlusOnes: number) => {
+    async (guest: GuestSearchResult, actualPlusOnes: number, clearedBanIds: string[] = []) => {
       if (!scannerId) {
         toast.error('Scanner ID not available');
         return;
@@ -160,7 +172,7 @@ export function GuestListCheckIn() {
       setCheckingInId(guest.id);
 
       try {
-        const result = await checkInGuest(guest.id, scannerId, actualPlusOnes);
+        const result = await checkInGuest(guest.id, scannerId, actualPlusOnes, { clearedBanIds });
         if (isOk(result)) {
           toast.success(`${guest.guestName} checked in`, {
             description: actualPlusOnes > 0 ? `+${actualPlusOnes} guests` : undefined,
@@ -178,6 +190,8 @@ export function GuestListCheckIn() {
               input.focus();
             }
           }, 100);
+        } else if (result.error instanceof BannedGuestError) {
+          setBannedCheckIn({ guest, actualPlusOnes, match: result.error.match, clearedBanIds });
         } else {
           toast.error(result.error.message);
         }
@@ -190,6 +204,27 @@ export function GuestListCheckIn() {
     [scannerId, selectedEventId, queryClient]
   );
 
+  // Staff checked the ID of a possible banned guest and it's someone else
+  const handleClearBan = useCallback(() => {
+    if (!bannedCheckIn) return;
+    const { guest, actualPlusOnes, match, clearedBanIds } = bannedCheckIn;
+    setBannedCheckIn(null);
+
+    recordBanMatch(match, 'guest_list', 'cleared', {
+      guestListEntryId: guest.id,
+      eventId: selectedEventId || null,
+      staffUserId: scannerId,
+    });
+    logAuditEvent('override_used', 'banned_guest', `Cleared possible banned guest match for ${match.fullName}`, {
+      userId: scannerId,
+      resourceId: match.banId,
+      severity: 'warning',
+      metadata: { context: 'guest_list', matchedOn: match.matchedOn, guestListEntryId: guest.id },
+    });
+
+    handleCheckIn(guest, actualPlusOnes, [...clearedBanIds, match.banId]);
+  }, [bannedCheckIn, selectedEventId, scannerId, handleCheckIn]);
+
   return (
     <div className="min-h-screen bg-background p-4 lg:p-6">
       <div className="max-w-7xl mx-auto">
@@ -342,6 +377,16 @@ export function GuestListCheckIn() {
           </Card>
         )}
       </div>
+
+      {bannedCheckIn && (
+        <RejectionOverlay
+          reason="banned"
+          details={{ bannedGuest: bannedCheckIn.match }}
+          onDismiss={() => setBannedCheckIn(null)}
+          onClearBan={canOverride ? handleClearBan : undefined}
+          dismissLabel="Back to List"
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,617 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useRole, useAuth } from '@/contexts/AuthContext';
+import OwnerPortalLayout from '@/components/layout/OwnerPortalLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Ban, Check, Download, Eye, Plus, RefreshCw, ShieldAlert } from 'lucide-react';
+import {
+  addIncidentAction,
+  banIncidentPerson,
+  completeIncidentAction,
+  getIncidentDetail,
+  getIncidentReports,
+  updateIncidentStatus,
+  type IncidentDetail,
+  type IncidentPerson,
+  type IncidentReport,
+} from '@/lib/incident-service';
+import {
+  INCIDENT_ACTION_LABELS,
+  INCIDENT_PERSON_ROLE_LABELS,
+  INCIDENT_SEVERITY_LABELS,
+  INCIDENT_STATUS_LABELS,
+  INCIDENT_TYPE_LABELS,
+  nextIncidentStatuses,
+  type IncidentActionType,
+  type IncidentSeverity,
+  type IncidentStatus,
+} from '@/lib/incident-reports';
+import { exportIncidentReportPDF } from '@/lib/report-service';
+import { format } from 'date-fns';
+
+const ALL_EVENTS = 'all';
+
+const SEVERITY_VARIANTS: Record<IncidentSeverity, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  low: 'outline',
+  medium: 'secondary',
+  high: 'default',
+  critical: 'destructive',
+};
+
+const EMPTY_BAN_FORM = {
+  full_name: '',
+  reason: '',
+  expires_at: '',
+  block_purchases: true,
+};
+
+const IncidentReports = () => {
+  const navigate = useNavigate();
+  const role = useRole();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [searchParams] = useSearchParams();
+  const [isLoading, setIsLoading] = useState(true);
+  const [reports, setReports] = useState<IncidentReport[]>([]);
+  const [statusFilter, setStatusFilter] = useState<IncidentStatus | 'open' | 'all'>('open');
+  const [eventFilter, setEventFilter] = useState(searchParams.get('event') || ALL_EVENTS);
+  const [detail, setDetail] = useState<IncidentDetail | null>(null);
+  const [reviewNotes, setReviewNotes] = useState('');
+  const [actionType, setActionType] = useState<IncidentActionType>('police_follow_up');
+  const [actionDescription, setActionDescription] = useState('');
+  const [banningPerson, setBanningPerson] = useState<IncidentPerson | null>(null);
+  const [banForm, setBanForm] = useState(EMPTY_BAN_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Redirect non-owners
+  useEffect(() => {
+    if (role !== 'owner') {
+      toast({
+        variant: 'destructive',
+        title: 'Access Denied',
+        description: 'Incident reports are only available to owners.',
+      });
+      navigate('/scanner');
+    }
+  }, [role, navigate, toast]);
+
+  const loadReports = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setReports(await getIncidentReports({ status: statusFilter === 'all' ? undefined : statusFilter }));
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error loading incident reports',
+        description: error.message,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [statusFilter, toast]);
+
+  useEffect(() => {
+    if (role === 'owner') {
+      loadReports();
+    }
+  }, [role, loadReports]);
+
+  const eventOptions = useMemo(() => {
+    const events = new Map<string, string>();
+    reports.forEach((report) => {
+      if (report.event_id && report.events) events.set(report.event_id, report.events.name);
+    });
+    return [...events.entries()];
+  }, [reports]);
+
+  const visibleReports = useMemo(
+    () => reports.filter((report) => eventFilter === ALL_EVENTS || report.event_id === eventFilter),
+    [reports, eventFilter]
+  );
+
+  const openDetail = async (reportId: string) => {
+    try {
+      const loaded = await getIncidentDetail(reportId);
+      setDetail(loaded);
+      setReviewNotes(loaded.report.review_notes || '');
+      setActionDescription('');
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+    }
+  };
+
+  const refreshDetail = async () => {
+    if (!detail) return;
+    await openDetail(detail.report.id);
+    loadReports();
+  };
+
+  const handleStatusChange = async (status: IncidentStatus) => {
+    if (!user || !detail) return;
+
+    setIsSaving(true);
+    try {
+      await updateIncidentStatus(detail.report, status, user.id, reviewNotes);
+      toast({ title: 'Report updated', description: `Moved to ${INCIDENT_STATUS_LABELS[status].toLowerCase()}.` });
+      await refreshDetail();
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddAction = async () => {
+    if (!user || !detail || !actionDescription.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await addIncidentAction(detail.report.id, actionType, actionDescription, user.id);
+      setActionDescription('');
+      await refreshDetail();
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCompleteAction = async (actionId: string) => {
+    if (!user) return;
+    try {
+      await completeIncidentAction(actionId, user.id);
+      await refreshDetail();
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+    }
+  };
+
+  const handleOpenBan = (person: IncidentPerson) => {
+    if (!detail) return;
+    const { report } = detail;
+    setBanningPerson(person);
+    setBanForm({
+      ...EMPTY_BAN_FORM,
+      full_name: person.name || '',
+      reason: `${INCIDENT_TYPE_LABELS[report.incident_type]} at ${report.location} on ${format(new Date(report.occurred_at), 'MMM d, yyyy')}`,
+    });
+  };
+
+  const handleBan = async () => {
+    if (!user || !banningPerson) return;
+    if (!banForm.full_name.trim() || !banForm.reason.trim()) {
+      toast({
+        variant: 'destructive',
+        title: 'Missing details',
+        description: 'Name and reason are required.',
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await banIncidentPerson(
+        banningPerson,
+        {
+          full_name: banForm.full_name,
+          reason: banForm.reason,
+          // The ban runs to the end of the chosen day
+          expires_at: banForm.expires_at ? new Date(`${banForm.expires_at}T23:59:59`).toISOString() : null,
+          block_purchases: banForm.block_purchases,
+        },
+        user.id
+      );
+      toast({ title: 'Guest banned', description: `${banForm.full_name.trim()} will be refused at every door.` });
+      setBanningPerson(null);
+      await refreshDetail();
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!detail) return;
+    setIsExporting(true);
+    try {
+      await exportIncidentReportPDF(detail);
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Export failed',
+        description: error.message,
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (role !== 'owner') {
+    return null;
+  }
+
+  const headerActions = (
+          <Button onClick={loadReports} variant="outline" size="sm">
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+  );
+
+  return (
+    <OwnerPortalLayout
+      title="Incident Reports"
+      description="Fights, ejections, medical calls and damage reported by door and floor staff"
+      actions={headerActions}
+    >
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldAlert className="h-5 w-5" />
+              Incident Reports ({visibleReports.length})
+            </CardTitle>
+            <CardDescription>
+              Staff file reports from the crew suite. Review each one, record what was done, and export a PDF for
+              insurers or the police.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-col sm:flex-row gap-3">
+              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as typeof statusFilter)}>
+                <SelectTrigger className="sm:w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="open">Open</SelectItem>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  {Object.entries(INCIDENT_STATUS_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={eventFilter} onValueChange={setEventFilter}>
+                <SelectTrigger className="sm:w-64">
+                  <SelectValue placeholder="All events" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_EVENTS}>All events</SelectItem>
+                  {eventOptions.map(([id, name]) => (
+                    <SelectItem key={id} value={id}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {isLoading ? (
+              <div className="text-center text-muted-foreground py-8">Loading incident reports...</div>
+            ) : visibleReports.length === 0 ? (
+              <div className="text-center text-muted-foreground py-8">No incident reports match these filters.</div>
+            ) : (
+              <div className="border rounded-lg overflow-hidden">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>When</TableHead>
+                      <TableHead>Event</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Severity</TableHead>
+                      <TableHead>Location</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleReports.map((report) => (
+                      <TableRow key={report.id}>
+                        <TableCell className="text-sm">
+                          {format(new Date(report.occurred_at), 'MMM d, h:mm a')}
+                        </TableCell>
+                        <TableCell className="text-sm">{report.events?.name || '-'}</TableCell>
+                        <TableCell>
+                          <div className="font-medium">{INCIDENT_TYPE_LABELS[report.incident_type]}</div>
+                          <div className="flex gap-1 mt-1">
+                            {report.police_called && <Badge variant="outline">Police</Badge>}
+                            {report.ambulance_called && <Badge variant="outline">Ambulance</Badge>}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={SEVERITY_VARIANTS[report.severity]}>
+                            {INCIDENT_SEVERITY_LABELS[report.severity]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-sm max-w-xs">{report.location}</TableCell>
+                        <TableCell>
+                          <Badge variant="secondary">{INCIDENT_STATUS_LABELS[report.status]}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          <Button variant="ghost" size="sm" onClick={() => openDetail(report.id)}>
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Report detail and review */}
+        <Dialog open={!!detail} onOpenChange={(open) => !open && setDetail(null)}>
+          <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+            {detail && (
+              <>
+                <DialogHeader>
+                  <DialogTitle className="flex items-center gap-2">
+                    {INCIDENT_TYPE_LABELS[detail.report.incident_type]}
+                    <Badge variant={SEVERITY_VARIANTS[detail.report.severity]}>
+                      {INCIDENT_SEVERITY_LABELS[detail.report.severity]}
+                    </Badge>
+                    <Badge variant="secondary">{INCIDENT_STATUS_LABELS[detail.report.status]}</Badge>
+                  </DialogTitle>
+                  <DialogDescription>
+                    {detail.report.location} • {format(new Date(detail.report.occurred_at), 'MMM d, yyyy h:mm a')}
+                    {detail.report.events?.name && ` • ${detail.report.events.name}`} • Reported by {detail.reporterName}
+                  </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-6 py-2">
+                  <div className="space-y-2">
+                    <p className="whitespace-pre-wrap text-sm">{detail.report.description}</p>
+                    <div className="flex flex-wrap gap-2">
+                      {detail.report.police_called && (
+                        <Badge variant="outline">
+                          Police called{detail.report.police_report_number && ` • ${detail.report.police_report_number}`}
+                        </Badge>
+                      )}
+                      {detail.report.ambulance_called && <Badge variant="outline">Ambulance called</Badge>}
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <h3 className="font-semibold text-sm">People involved</h3>
+                    {detail.people.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">None recorded.</p>
+                    ) : (
+                      detail.people.map((person) => (
+                        <div key={person.id} className="flex items-center justify-between rounded-lg border p-3">
+                          <div className="text-sm">
+                            <div className="font-medium">
+                              {INCIDENT_PERSON_ROLE_LABELS[person.role]}: {person.name || 'Unnamed'}
+                            </div>
+                            {person.description && (
+                              <div className="text-muted-foreground">{person.description}</div>
+                            )}
+                            <div className="text-xs text-muted-foreground">
+                              {person.ticket_id && 'Linked ticket'}
+                              {person.guest_list_entry_id && 'Linked guest list entry'}
+                            </div>
+                          </div>
+                          {person.banned_guest_id ? (
+                            <Badge variant="destructive">Banned</Badge>
+                          ) : (
+                            <Button variant="outline" size="sm" onClick={() => handleOpenBan(person)}>
+                              <Ban className="h-4 w-4 mr-2" />
+                              Ban
+                            </Button>
+                          )}
+                        </div>
+                      ))
+                    )}
+                  </div>
+
+                  {detail.witnesses.length > 0 && (
+                    <div className="space-y-2">
+                      <h3 className="font-semibold text-sm">Staff witnesses</h3>
+                      {detail.witnesses.map((witness) => (
+                        <div key={witness.staff_user_id} className="text-sm">
+                          <span className="font-medium">{witness.staffName || 'Unknown Staff'}</span>
+                          {witness.statement && <span className="text-muted-foreground">: {witness.statement}</span>}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {detail.photos.length > 0 && (
+                    <div className="space-y-2">
+                      <h3 className="font-semibold text-sm">Photos</h3>
+                      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                        {detail.photos.map((photo) => (
+                          <a key={photo.id} href={photo.url || undefined} target="_blank" rel="noreferrer">
+                            {photo.url ? (
+                              <img
+                                src={photo.url}
+                                alt={photo.caption || 'Incident photo'}
+                                className="h-32 w-full rounded-md object-cover"
+                              />
+                            ) : (
+                              <div className="h-32 rounded-md bg-muted" />
+                            )}
+                            {photo.caption && <div className="text-xs text-muted-foreground mt-1">{photo.caption}</div>}
+                          </a>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="space-y-2">
+                    <h3 className="font-semibold text-sm">Follow-up</h3>
+                    {detail.actions.map((action) => (
+                      <div key={action.id} className="flex items-center justify-between rounded-lg border p-3 text-sm">
+                        <div>
+                          <div className="font-medium">{INCIDENT_ACTION_LABELS[action.action_type]}</div>
+                          <div className="text-muted-foreground">{action.description}</div>
+                        </div>
+                        {action.status === 'done' ? (
+                          <Badge variant="outline">
+                            Done {action.completed_at && format(new Date(action.completed_at), 'MMM d')}
+                          </Badge>
+                        ) : (
+                          <Button variant="ghost" size="sm" onClick={() => handleCompleteAction(action.id)}>
+                            <Check className="h-4 w-4 mr-2" />
+                            Done
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                    <div className="flex flex-col sm:flex-row gap-2">
+                      <Select value={actionType} onValueChange={(value) => setActionType(value as IncidentActionType)}>
+                        <SelectTrigger className="sm:w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(INCIDENT_ACTION_LABELS)
+                            .filter(([value]) => value !== 'ban_guest')
+                            .map(([value, label]) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        value={actionDescription}
+                        onChange={(e) => setActionDescription(e.target.value)}
+                        placeholder="What needs doing"
+                      />
+                      <Button
+                        variant="outline"
+                        onClick={handleAddAction}
+                        disabled={isSaving || !actionDescription.trim()}
+                      >
+                        <Plus className="h-4 w-4 mr-2" />
+                        Add
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="grid gap-2">
+                    <Label htmlFor="review_notes">Review notes</Label>
+                    <Textarea
+                      id="review_notes"
+                      value={reviewNotes}
+                      onChange={(e) => setReviewNotes(e.target.value)}
+                      placeholder="Saved with the next status change"
+                    />
+                  </div>
+                </div>
+
+                <DialogFooter className="flex-wrap gap-2">
+                  <Button variant="outline" onClick={handleExport} disabled={isExporting}>
+                    <Download className="h-4 w-4 mr-2" />
+                    {isExporting ? 'Exporting...' : 'Export PDF'}
+                  </Button>
+                  {nextIncidentStatuses(detail.report.status).map((status) => (
+                    <Button key={status} onClick={() => handleStatusChange(status)} disabled={isSaving}>
+                      {INCIDENT_STATUS_LABELS[status]}
+                    </Button>
+                  ))}
+                </DialogFooter>
+              </>
+            )}
+          </DialogContent>
+        </Dialog>
+
+        {/* Ban a person from the report */}
+        <Dialog open={!!banningPerson} onOpenChange={(open) => !open && setBanningPerson(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Ban Guest</DialogTitle>
+              <DialogDescription>
+                Adds this person to the banned guest list and records it as a follow-up on the report.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-4 py-4">
+              <div className="grid gap-2">
+                <Label htmlFor="ban_full_name">Full Name *</Label>
+                <Input
+                  id="ban_full_name"
+                  value={banForm.full_name}
+                  onChange={(e) => setBanForm({ ...banForm, full_name: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="ban_reason">Reason *</Label>
+                <Textarea
+                  id="ban_reason"
+                  value={banForm.reason}
+                  onChange={(e) => setBanForm({ ...banForm, reason: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="ban_expires_at">Banned Until</Label>
+                <Input
+                  id="ban_expires_at"
+                  type="date"
+                  value={banForm.expires_at}
+                  onChange={(e) => setBanForm({ ...banForm, expires_at: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">Leave empty for a permanent ban.</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="ban_block_purchases"
+                  checked={banForm.block_purchases}
+                  onCheckedChange={(checked) => setBanForm({ ...banForm, block_purchases: checked })}
+                />
+                <Label htmlFor="ban_block_purchases">Block ticket purchases</Label>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setBanningPerson(null)}>
+                Cancel
+              </Button>
+              <Button variant="destructive" onClick={handleBan} disabled={isSaving}>
+                {isSaving ? 'Banning...' : 'Ban Guest'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+    </OwnerPortalLayout>
+  );
+};
+
+export default IncidentReports;
@@ -0,0 +1,212 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useRole } from '@/contexts/AuthContext';
+import OwnerPortalLayout from '@/components/layout/OwnerPortalLayout';
+import EmployeePortalLayout from '@/components/layout/EmployeePortalLayout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { ChefHat, Clock, Loader2, MapPin, RefreshCw, ShoppingBag, XCircle } from 'lucide-react';
+import {
+  getOpenOrders,
+  updateRestaurantOrderStatus,
+  subscribeToRestaurantOrders,
+  NEXT_ORDER_STATUS,
+  OPEN_ORDER_STATUSES,
+  type RestaurantOrder,
+  type RestaurantOrderStatus,
+} from '@/lib/restaurant-service';
+import { formatDistanceToNow } from 'date-fns';
+
+const COLUMN_LABELS: Record<string, string> = {
+  received: 'New',
+  preparing: 'Preparing',
+  ready: 'Ready',
+};
+
+const ACTION_LABELS: Partial<Record<RestaurantOrderStatus, string>> = {
+  preparing: 'Start Preparing',
+  ready: 'Mark Ready',
+  completed: 'Picked Up / Delivered',
+};
+
+const KitchenBoard = () => {
+  const role = useRole();
+  const { toast } = useToast();
+  const [orders, setOrders] = useState<RestaurantOrder[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const loadOrders = useCallback(async () => {
+    try {
+      setOrders(await getOpenOrders());
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error loading orders',
+        description: error.message,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadOrders();
+    return subscribeToRestaurantOrders(loadOrders);
+  }, [loadOrders]);
+
+  const handleUpdateStatus = async (order: RestaurantOrder, status: RestaurantOrderStatus) => {
+    if (status === 'cancelled' && !confirm(`Cancel order #${order.order_number} and refund the guest?`)) {
+      return;
+    }
+
+    setUpdatingId(order.id);
+    try {
+      const { warning } = await updateRestaurantOrderStatus(order.id, status);
+      if (warning) {
+        toast({ variant: 'destructive', title: 'Order updated with a problem', description: warning });
+      } else {
+        toast({ title: `Order #${order.order_number} updated` });
+      }
+      loadOrders();
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not update order',
+        description: error.message,
+      });
+      loadOrders();
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const Layout = role === 'employee' ? EmployeePortalLayout : OwnerPortalLayout;
+
+  const headerActions = (
+    <Button onClick={loadOrders} variant="outline" size="sm">
+      <RefreshCw className="h-4 w-4 mr-2" />
+      Refresh
+    </Button>
+  );
+
+  return (
+    <Layout
+      title="Kitchen"
+      description="Online restaurant orders from the website. Guests are notified on every change."
+      actions={headerActions}
+    >
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <div className="grid gap-4 lg:grid-cols-3">
+          {OPEN_ORDER_STATUSES.map((status) => {
+            const columnOrders = orders.filter((order) => order.status === status);
+            return (
+              <div key={status} className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h2 className="text-sm font-semibold uppercase tracking-wider text-muted-foreground">
+                    {COLUMN_LABELS[status]}
+                  </h2>
+                  <Badge variant="secondary">{columnOrders.length}</Badge>
+                </div>
+
+                {columnOrders.length === 0 && (
+                  <div className="rounded-lg border border-dashed py-8 text-center text-sm text-muted-foreground">
+                    No orders
+                  </div>
+                )}
+
+                {columnOrders.map((order) => {
+                  const nextStatus = NEXT_ORDER_STATUS[order.status];
+                  const isUpdating = updatingId === order.id;
+                  return (
+                    <Card key={order.id}>
+                      <CardHeader className="pb-3">
+                        <CardTitle className="flex items-center justify-between text-base">
+                          <span className="font-mono">#{order.order_number}</span>
+                          <Badge variant={order.order_type === 'delivery' ? 'default' : 'outline'}>
+                            {order.order_type === 'delivery' ? 'Delivery' : 'Pickup'}
+                          </Badge>
+                        </CardTitle>
+                        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                          <Clock className="h-3 w-3" />
+                          {formatDistanceToNow(new Date(order.paid_at || order.created_at), { addSuffix: true })}
+                          <span>· {order.customer_name}</span>
+                        </div>
+                      </CardHeader>
+                      <CardContent className="space-y-3">
+                        <ul className="space-y-1 text-sm">
+                          {order.items.map((item) => (
+                            <li key={item.id}>
+                              <span className="font-semibold">{item.quantity}×</span> {item.name}
+                            </li>
+                          ))}
+                        </ul>
+
+                        {order.special_instructions && (
+                          <p className="rounded-md bg-yellow-500/10 p-2 text-xs text-yellow-600 dark:text-yellow-400">
+                            {order.special_instructions}
+                          </p>
+                        )}
+                        {order.order_type === 'delivery' && order.delivery_address && (
+                          <p className="flex items-start gap-1 text-xs text-muted-foreground">
+                            <MapPin className="mt-0.5 h-3 w-3 shrink-0" />
+                            {order.delivery_address}
+                          </p>
+                        )}
+
+                        <div className="flex items-center justify-between text-sm">
+                          <span className="text-muted-foreground">{order.customer_phone}</span>
+                          <span className="font-semibold">${Number(order.total).toFixed(2)}</span>
+                        </div>
+
+                        <div className="flex gap-2">
+                          {nextStatus && (
+                            <Button
+                              className="flex-1"
+                              size="sm"
+                              disabled={isUpdating}
+                              onClick={() => handleUpdateStatus(order, nextStatus)}
+                            >
+                              {isUpdating ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <>
+                                  {nextStatus === 'preparing' ? (
+                                    <ChefHat className="h-4 w-4 mr-2" />
+                                  ) : (
+                                    <ShoppingBag className="h-4 w-4 mr-2" />
+                                  )}
+                                  {ACTION_LABELS[nextStatus]}
+                                </>
+                              )}
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={isUpdating}
+                            onClick={() => handleUpdateStatus(order, 'cancelled')}
+                            title="Cancel and refund"
+                          >
+                            <XCircle className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Layout>
+  );
+};
+
+export default KitchenBoard;
@@ -7,7 +7,7 @@ import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { isSupabaseConfigured } from "@/integrations/supabase/client";
-import { useAuth, useRole } from "@/contexts/AuthContext";
+import { useAuth, usePermission } from "@/contexts/AuthContext";
 import OwnerPortalLayout from "@/components/layout/OwnerPortalLayout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
@@ -87,7 +87,7 @@ const Orders = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const { user } = useAuth();
-  const role = useRole();
+  const canViewRevenue = usePermission("view_revenue");
 
   const [orders, setOrders] = useState<Order[]>([]);
   const [filteredOrders, setFilteredOrders] = useState<Order[]>([]);
@@ -110,27 +110,27 @@ const Orders = () => {
   const [showDetailDialog, setShowDetailDialog] = useState(false);
   const [loadingTickets, setLoadingTickets] = useState(false);
 
-  // Redirect employees (allow owners and promoters)
+  // Redirect staff without view_revenue
   useEffect(() => {
-    if (role !== 'owner' && role !== 'promoter') {
+    if (!canViewRevenue) {
       toast({
         variant: "destructive",
         title: "Access Denied",
-        description: "Orders is only available to owners and promoters.",
+        description: "Orders is only available to staff who can view revenue.",
       });
       navigate("/scanner");
     }
-  }, [role, navigate, toast]);
+  }, [canViewRevenue, navigate, toast]);
 
   // Load orders
   useEffect(() => {
-    if (role === 'owner' || role === 'promoter') {
+    if (canViewRevenue) {
       loadOrders();
       loadEvents();
       const cleanup = setupRealtimeSubscription();
       return cleanup;
     }
-  }, [role]);
+  }, [canViewRevenue]);
 
   // Filter orders when filters change
   useEffect(() => {
@@ -357,7 +357,7 @@ const Orders = () => {
     );
   };
 
-  if (role !== 'owner' && role !== 'promoter') return null;
+  if (!canViewRevenue) return null;
 
   return (
     <OwnerPortalLayout
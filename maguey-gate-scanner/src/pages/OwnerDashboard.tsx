@@ -13,6 +13,8 @@ import {
   EmailQueueStatus
 } from "@/lib/email-status-service";
 import { getScannerStatuses, ScannerStatus } from "@/lib/scanner-status-service";
+import { getEventIncidentCounts } from "@/lib/incident-service";
+import { summarizeIncidentCounts, type IncidentCountRow } from "@/lib/incident-reports";
 import { useDashboardRealtime } from "@/hooks/useDashboardRealtime";
 import { CheckInProgress } from "@/components/dashboard/CheckInProgress";
 import { UpcomingEventsCard } from "@/components/dashboard/UpcomingEventsCard";
@@ -38,6 +40,7 @@ import {
   Mail,
   RefreshCw,
   Shield,
+  ShieldAlert,
   Smartphone,
   Sparkles,
   Users,
@@ -151,6 +154,7 @@ const OwnerDashboard = () => {
   const [emailStatusList, setEmailStatusList] = useState<EmailQueueStatus[]>([]);
   const [isRetrying, setIsRetrying] = useState<string | null>(null);
   const [scannerStatuses, setScannerStatuses] = useState<ScannerStatus[]>([]);
+  const [incidentCounts, setIncidentCounts] = useState<IncidentCountRow[]>([]);
 
   useEffect(() => {
     if (authLoading) {
@@ -249,6 +253,14 @@ const OwnerDashboard = () => {
     }
   };
 
+  const fetchIncidentCounts = async () => {
+    try {
+      setIncidentCounts(await getEventIncidentCounts());
+    } catch (error) {
+      console.error('Error fetching incident counts:', error);
+    }
+  };
+
   // ========== RAW DATA FETCH FUNCTIONS (COMPOUND PATTERN) ==========
 
   const fetchTicketsData = async () => {
@@ -651,9 +663,10 @@ const OwnerDashboard = () => {
         fetchRecentOrders(),
         fetchUpcomingEvents(),
       ]);
-      // Non-blocking: email and scanner
+      // Non-blocking: email, scanner and incidents
       fetchEmailStatuses();
       fetchScannerStatuses();
+      fetchIncidentCounts();
     } catch (error: any) {
       console.error("Error loading dashboard data:", error);
       toast({
@@ -689,6 +702,8 @@ const OwnerDashboard = () => {
     );
   }, [user]);
 
+  const incidentSummary = useMemo(() => summarizeIncidentCounts(incidentCounts), [incidentCounts]);
+
   const navigationItems = [
     {
       title: "Site Management",
@@ -1062,6 +1077,57 @@ const OwnerDashboard = () => {
                 <p className="text-xs text-slate-500 mt-2">No active scanners</p>
               )}
             </div>
+
+            {/* Incident Reports Section */}
+            <div className="rounded-2xl border border-white/5 bg-white/5 p-4 transition-all hover:bg-white/10" data-cy="incident-counts">
+              <div className="flex items-center gap-4 mb-3">
+                <div className="rounded-full bg-gradient-to-br from-red-500/20 to-orange-500/20 p-3 text-red-300 shadow-[0_0_15px_rgba(239,68,68,0.2)]">
+                  <ShieldAlert className="h-4 w-4" />
+                </div>
+                <div className="flex-1 space-y-1">
+                  <p className="text-sm font-medium leading-none text-white">Incidents (30 days)</p>
+                  <div className="flex items-center gap-2 text-xs text-slate-400">
+                    <span className="text-white font-semibold">{incidentSummary.total} reported</span>
+                    <span className="text-slate-600">|</span>
+                    <span className="text-yellow-400">{incidentSummary.open} open</span>
+                    <span className="text-slate-600">|</span>
+                    <span className="text-red-400">{incidentSummary.serious} high or critical</span>
+                  </div>
+                </div>
+              </div>
+
+              {/* Per-event counts */}
+              {incidentCounts.length > 0 ? (
+                <div className="mt-3 space-y-2 max-h-40 overflow-y-auto">
+                  {incidentCounts.map((row) => (
+                    <button
+                      key={row.event_id}
+                      onClick={() => role === "owner" && navigate(`/incidents?event=${row.event_id}`)}
+                      className="flex w-full items-center justify-between text-xs bg-white/5 rounded-lg px-3 py-2 text-left"
+                    >
+                      <span className="text-slate-300 truncate max-w-[160px]">
+                        {row.event_name} • {format(parseISO(row.event_date), "MMM d")}
+                      </span>
+                      <div className="flex items-center gap-2">
+                        <span className="text-slate-400">{row.total} total</span>
+                        {Number(row.open_count) > 0 && (
+                          <span className="px-1.5 py-0.5 rounded-full text-[10px] font-medium bg-yellow-500/20 text-yellow-400">
+                            {row.open_count} open
+                          </span>
+                        )}
+                        {Number(row.serious_count) > 0 && (
+                          <span className="px-1.5 py-0.5 rounded-full text-[10px] font-medium bg-red-500/20 text-red-400">
+                            {row.serious_count} serious
+                          </span>
+                        )}
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-xs text-slate-500 mt-2">No incidents reported</p>
+              )}
+            </div>
           </CardContent>
         </Card>
       </section>
@@ -4,6 +4,7 @@ import OwnerPortalLayout from "@/components/layout/OwnerPortalLayout";
 import { QueueDashboard } from "@/components/dashboard/QueueDashboard";
 import { QueueAnalytics } from "@/components/dashboard/QueueAnalytics";
 import { StaffingRecommendations } from "@/components/dashboard/StaffingRecommendations";
+import { WaitTimeModelPanel } from "@/components/dashboard/WaitTimeModelPanel";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -163,6 +164,7 @@ export const QueueManagement = () => {
             <TabsTrigger value="dashboard">Dashboard</TabsTrigger>
             <TabsTrigger value="analytics">Analytics</TabsTrigger>
             <TabsTrigger value="staffing">Staffing</TabsTrigger>
+            <TabsTrigger value="model">Prediction Model</TabsTrigger>
           </TabsList>
 
           <TabsContent value="dashboard" className="space-y-6">
@@ -196,6 +198,10 @@ export const QueueManagement = () => {
               }}
             />
           </TabsContent>
+
+          <TabsContent value="model" className="space-y-6">
+            <WaitTimeModelPanel />
+          </TabsContent>
         </Tabs>
       </div>
     </OwnerPortalLayout>
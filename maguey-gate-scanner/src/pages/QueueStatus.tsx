@@ -6,8 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { QrCode, Search, RefreshCw } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
-import { getLatestWaitTimePrediction } from "@/lib/queue-prediction-service";
-import { estimateQueueDepth } from "@/lib/queue-metrics-service";
+import { getLatestWaitTimePrediction, getTicketQueueStatus } from "@/lib/queue-prediction-service";
 
 export const QueueStatus = () => {
   const { eventId } = useParams<{ eventId: string }>();
@@ -18,6 +17,7 @@ export const QueueStatus = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [ticketId, setTicketId] = useState("");
   const [ticketWaitTime, setTicketWaitTime] = useState<number | null>(null);
+  const [ticketStatus, setTicketStatus] = useState<'not_found' | 'waiting' | 'scanned' | null>(null);
   const [isSearching, setIsSearching] = useState(false);
 
   useEffect(() => {
@@ -44,32 +44,20 @@ export const QueueStatus = () => {
   }, [eventId]);
 
   const lookupTicketWaitTime = async () => {
-    if (!ticketId.trim()) return;
+    if (!ticketId.trim() || !eventId) return;
 
     setIsSearching(true);
     try {
-      // Get ticket's event
-      const { data: ticket, error } = await supabase
-        .from('tickets')
-        .select('event_id, status')
-        .or(`ticket_id.eq.${ticketId},qr_token.eq.${ticketId}`)
-        .maybeSingle();
+      const status = await getTicketQueueStatus(eventId, ticketId);
+      setTicketStatus(status);
 
-      if (error) throw error;
-
-      if (!ticket) {
-        setTicketWaitTime(null);
-        return;
-      }
-
-      // If already scanned, no wait time
-      if (ticket.status === 'scanned') {
-        setTicketWaitTime(0);
+      if (status !== 'waiting') {
+        setTicketWaitTime(status === 'scanned' ? 0 : null);
         return;
       }
 
       // Get wait time for this event
-      const prediction = await getLatestWaitTimePrediction(ticket.event_id, entryPointId);
+      const prediction = await getLatestWaitTimePrediction(eventId, entryPointId);
       setTicketWaitTime(prediction?.predicted_wait_minutes || 0);
     } catch (error) {
       console.error('Error looking up ticket:', error);
@@ -138,10 +126,15 @@ export const QueueStatus = () => {
               <div className="mt-4 p-4 bg-muted rounded-lg">
                 <p className="text-sm text-muted-foreground mb-1">Your Estimated Wait Time</p>
                 <p className="text-2xl font-bold">
-                  {ticketWaitTime === 0 ? 'No wait - already scanned!' : `${ticketWaitTime} minutes`}
+                  {ticketStatus === 'scanned' ? 'No wait - already scanned!' : `${ticketWaitTime} minutes`}
                 </p>
               </div>
             )}
+            {ticketStatus === 'not_found' && (
+              <p className="mt-4 text-sm text-muted-foreground">
+                We couldn't find that ticket for this event. Check the ID on your ticket email.
+              </p>
+            )}
           </CardContent>
         </Card>
 
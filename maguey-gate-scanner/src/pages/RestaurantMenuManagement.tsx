@@ -0,0 +1,419 @@
+import { useCallback, useEffect, useState } from 'react';
+import OwnerPortalLayout from '@/components/layout/OwnerPortalLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Plus, RefreshCw, Settings, Trash2, UtensilsCrossed } from 'lucide-react';
+import {
+  getMenuCategories,
+  getMenuItems,
+  createMenuItem,
+  updateMenuItem,
+  deleteMenuItem,
+  updateMenuCategory,
+  type RestaurantMenuCategory,
+  type RestaurantMenuItem,
+} from '@/lib/restaurant-service';
+
+const EMPTY_FORM = {
+  category_id: '',
+  name: '',
+  description: '',
+  price: '',
+  sale_price: '',
+  is_available: true,
+  sort_order: '0',
+};
+
+const RestaurantMenuManagement = () => {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(true);
+  const [categories, setCategories] = useState<RestaurantMenuCategory[]>([]);
+  const [items, setItems] = useState<RestaurantMenuItem[]>([]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [selectedItem, setSelectedItem] = useState<RestaurantMenuItem | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  const loadMenu = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [allCategories, allItems] = await Promise.all([getMenuCategories(), getMenuItems()]);
+      setCategories(allCategories);
+      setItems(allItems);
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error loading menu',
+        description: error.message,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadMenu();
+  }, [loadMenu]);
+
+  const handleOpenDialog = (item?: RestaurantMenuItem) => {
+    if (item) {
+      setSelectedItem(item);
+      setFormData({
+        category_id: item.category_id,
+        name: item.name,
+        description: item.description || '',
+        price: item.price.toFixed(2),
+        sale_price: item.sale_price === null ? '' : item.sale_price.toFixed(2),
+        is_available: item.is_available,
+        sort_order: String(item.sort_order),
+      });
+    } else {
+      setSelectedItem(null);
+      setFormData({ ...EMPTY_FORM, category_id: categories[0]?.id || '' });
+    }
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async () => {
+    const price = parseFloat(formData.price);
+    const salePrice = formData.sale_price.trim() === '' ? null : parseFloat(formData.sale_price);
+
+    if (!formData.name.trim() || !formData.category_id || isNaN(price) || price < 0) {
+      toast({
+        variant: 'destructive',
+        title: 'Missing information',
+        description: 'Name, category and a valid price are required.',
+      });
+      return;
+    }
+    if (salePrice !== null && (isNaN(salePrice) || salePrice < 0)) {
+      toast({
+        variant: 'destructive',
+        title: 'Invalid sale price',
+        description: 'Leave the sale price empty to charge the regular price.',
+      });
+      return;
+    }
+
+    const values = {
+      category_id: formData.category_id,
+      name: formData.name.trim(),
+      description: formData.description.trim() || null,
+      price,
+      sale_price: salePrice,
+      is_available: formData.is_available,
+      sort_order: parseInt(formData.sort_order, 10) || 0,
+    };
+
+    try {
+      if (selectedItem) {
+        await updateMenuItem(selectedItem.id, values);
+        toast({ title: 'Item updated', description: `${values.name} has been updated.` });
+      } else {
+        await createMenuItem(values);
+        toast({ title: 'Item added', description: `${values.name} is now on the menu.` });
+      }
+      setIsDialogOpen(false);
+      loadMenu();
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+    }
+  };
+
+  const handleToggleAvailable = async (item: RestaurantMenuItem) => {
+    try {
+      await updateMenuItem(item.id, { is_available: !item.is_available });
+      setItems((prev) =>
+        prev.map((i) => (i.id === item.id ? { ...i, is_available: !item.is_available } : i))
+      );
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+    }
+  };
+
+  const handleToggleCategory = async (category: RestaurantMenuCategory) => {
+    try {
+      await updateMenuCategory(category.id, { is_active: !category.is_active });
+      setCategories((prev) =>
+        prev.map((c) => (c.id === category.id ? { ...c, is_active: !category.is_active } : c))
+      );
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+    }
+  };
+
+  const handleDelete = async (item: RestaurantMenuItem) => {
+    if (!confirm(`Remove "${item.name}" from the menu?`)) {
+      return;
+    }
+
+    try {
+      await deleteMenuItem(item.id);
+      toast({ title: 'Item removed', description: `${item.name} has been removed.` });
+      loadMenu();
+    } catch (error: any) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message,
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <OwnerPortalLayout title="Restaurant Menu">
+        <div className="flex items-center justify-center py-12">
+          <div className="text-center space-y-4">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+            <p className="text-muted-foreground">Loading menu...</p>
+          </div>
+        </div>
+      </OwnerPortalLayout>
+    );
+  }
+
+  const headerActions = (
+    <div className="flex gap-2">
+      <Button onClick={loadMenu} variant="outline" size="sm">
+        <RefreshCw className="h-4 w-4 mr-2" />
+        Refresh
+      </Button>
+      <Button onClick={() => handleOpenDialog()} disabled={categories.length === 0}>
+        <Plus className="h-4 w-4 mr-2" />
+        Add Item
+      </Button>
+    </div>
+  );
+
+  return (
+    <OwnerPortalLayout
+      title="Restaurant Menu"
+      description="Items, prices and availability for online ordering on the website"
+      actions={headerActions}
+    >
+      {categories.map((category) => {
+        const categoryItems = items.filter((item) => item.category_id === category.id);
+        return (
+          <Card key={category.id} className="mb-6">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <UtensilsCrossed className="h-5 w-5" />
+                    {category.name}
+                  </CardTitle>
+                  <CardDescription>{categoryItems.length} items</CardDescription>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Label htmlFor={`category-${category.id}`} className="text-sm text-muted-foreground">
+                    Shown on website
+                  </Label>
+                  <Switch
+                    id={`category-${category.id}`}
+                    checked={category.is_active}
+                    onCheckedChange={() => handleToggleCategory(category)}
+                  />
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {categoryItems.length === 0 ? (
+                <div className="text-center text-muted-foreground py-4">No items in this category.</div>
+              ) : (
+                <div className="border rounded-lg overflow-hidden">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Item</TableHead>
+                        <TableHead>Price</TableHead>
+                        <TableHead>Available</TableHead>
+                        <TableHead>Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {categoryItems.map((item) => (
+                        <TableRow key={item.id}>
+                          <TableCell>
+                            <div className="space-y-1">
+                              <div className="font-medium">{item.name}</div>
+                              {item.description && (
+                                <div className="text-xs text-muted-foreground">{item.description}</div>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            {item.sale_price !== null ? (
+                              <div className="flex items-center gap-2">
+                                <span className="font-medium">${item.sale_price.toFixed(2)}</span>
+                                <span className="text-xs text-muted-foreground line-through">
+                                  ${item.price.toFixed(2)}
+                                </span>
+                                <Badge variant="secondary">Special</Badge>
+                              </div>
+                            ) : (
+                              <span className="font-medium">${item.price.toFixed(2)}</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <Switch
+                              checked={item.is_available}
+                              onCheckedChange={() => handleToggleAvailable(item)}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              <Button variant="ghost" size="sm" onClick={() => handleOpenDialog(item)}>
+                                <Settings className="h-4 w-4" />
+                              </Button>
+                              <Button variant="ghost" size="sm" onClick={() => handleDelete(item)}>
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{selectedItem ? 'Edit Menu Item' : 'Add Menu Item'}</DialogTitle>
+            <DialogDescription>
+              Changes show on the website right away. Orders are always charged the price saved here.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="category_id">Category *</Label>
+              <Select
+                value={formData.category_id}
+                onValueChange={(value) => setFormData({ ...formData, category_id: value })}
+              >
+                <SelectTrigger id="category_id">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="name">Name *</Label>
+              <Input
+                id="name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g., Tacos Al Pastor"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="description">Description</Label>
+              <Textarea
+                id="description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="price">Price *</Label>
+                <Input
+                  id="price"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.price}
+                  onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="sale_price">Special Price</Label>
+                <Input
+                  id="sale_price"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.sale_price}
+                  onChange={(e) => setFormData({ ...formData, sale_price: e.target.value })}
+                  placeholder="Charged instead of price"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="sort_order">Sort Order</Label>
+                <Input
+                  id="sort_order"
+                  type="number"
+                  value={formData.sort_order}
+                  onChange={(e) => setFormData({ ...formData, sort_order: e.target.value })}
+                />
+              </div>
+              <div className="flex items-center gap-2 pt-6">
+                <Switch
+                  id="is_available"
+                  checked={formData.is_available}
+                  onCheckedChange={(checked) => setFormData({ ...formData, is_available: checked })}
+                />
+                <Label htmlFor="is_available">Available</Label>
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit}>{selectedItem ? 'Update' : 'Add'}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </OwnerPortalLayout>
+  );
+};
+
+export default RestaurantMenuManagement;
@@ -21,6 +21,8 @@ import {
   ListChecks,
   Settings,
   Ticket,
+  ArrowUpCircle,
+  DollarSign,
 } from "lucide-react";
 import { SuccessOverlay } from "@/components/scanner/SuccessOverlay";
 import { VipSuccessOverlay } from "@/components/scanner/VipSuccessOverlay";
@@ -32,6 +34,8 @@ import { OfflineAcknowledgeModal } from "@/components/scanner/OfflineAcknowledge
 import { BatteryIndicator } from "@/components/scanner/BatteryIndicator";
 import { QrScanner } from "@/components/scanner/QrScanner";
 import { NFCScanner } from "@/components/scanner/NFCScanner";
+import { DoorUpgradeModal } from "@/components/scanner/DoorUpgradeModal";
+import { DoorSaleModal } from "@/components/scanner/DoorSaleModal";
 import {
   scanTicket,
   scanTicketOffline,
@@ -39,7 +43,11 @@ import {
   type ScanResult,
 } from "@/lib/simple-scanner";
 import { getStaffDisplayName } from "@/lib/staff-name-service";
+import { recordBanMatch } from "@/lib/banned-guest-service";
+import type { BanMatch } from "@/lib/banned-guests";
+import { logAuditEvent } from "@/lib/audit-service";
 import { ensureCacheIsFresh, getOrInitDeviceId } from "@/lib/offline-ticket-cache";
+import { startPeerScanSync } from "@/lib/peer-scan-sync";
 import {
   queueScan,
   syncPendingScans,
@@ -80,12 +88,15 @@ interface ScanState {
   rejectionDetails?: {
     previousScan?: { staff: string; gate: string; time: string };
     wrongEventDate?: string;
+    bannedGuest?: BanMatch;
   };
   vipInfo?: {
     tableName: string;
     tableNumber: string;
     reservationId: string;
   };
+  // Purchaser's loyalty tier perks (skip-the-line badge)
+  loyaltyPerks?: ScanResult['loyaltyPerks'];
   // Unified scanner: VIP guest pass data
   scanType?: 'ga_ticket' | 'vip_guest_pass';
   vipGuestPassData?: ScanResult['vipGuestPassData'];
@@ -113,7 +124,7 @@ const determineTicketType = (
 const SCAN_COOLDOWN = 2500;
 
 const Scanner = () => {
-  const { user, resetIdleTimer } = useAuth();
+  const { user, resetIdleTimer, can } = useAuth();
   const role = useRole();
   const { toast } = useToast();
   const navigate = useNavigate();
@@ -147,6 +158,9 @@ const Scanner = () => {
   const lastScannedRef = useRef<string>("");
   const lastScanTimeRef = useRef<number>(0);
 
+  // Last scan, so a possible banned guest match can be cleared and re-scanned
+  const lastScanRef = useRef<{ input: string; method: ScanMode; clearedBanIds: string[] } | null>(null);
+
   // Track component mount state to prevent setState after unmount
   const mountedRef = useRef(true);
 
@@ -166,6 +180,12 @@ const Scanner = () => {
 
   // Scan history state
   const [scanHistory, setScanHistory] = useState<ScanHistoryEntry[]>([]);
+
+  // Door upsell: last GA guest let in online, and the ticket being upgraded
+  const [upsellTicket, setUpsellTicket] = useState<TicketType | null>(null);
+  const [upgradingTicket, setUpgradingTicket] = useState<TicketType | null>(null);
+  // Walk-in sale at the door price
+  const [doorSaleOpen, setDoorSaleOpen] = useState(false);
   const MAX_HISTORY_ENTRIES = 10;
 
   // Selected event ID for counter (separate from name for API queries)
@@ -336,6 +356,25 @@ const Scanner = () => {
     }
   }, [selectedEventId]);
 
+  // Share offline scans with other gate devices via the booth relay (LAN only)
+  useEffect(() => {
+    if (!selectedEventId) return;
+    let stop: (() => void) | null = null;
+    let cancelled = false;
+
+    startPeerScanSync(selectedEventId).then(stopSync => {
+      if (cancelled) stopSync();
+      else stop = stopSync;
+    }).catch(err => {
+      console.error('[Scanner] Failed to start peer scan sync:', err);
+    });
+
+    return () => {
+      cancelled = true;
+      stop?.();
+    };
+  }, [selectedEventId]);
+
   // Send heartbeat every 30 seconds
   useEffect(() => {
     const sendStatus = async () => {
@@ -396,11 +435,14 @@ const Scanner = () => {
   };
 
   // Process a scan input (from manual, QR, or NFC)
-  const processScan = async (input: string, method: ScanMode) => {
+  const processScan = async (input: string, method: ScanMode, clearedBanIds: string[] = []) => {
     if (!input.trim() || isProcessing) return;
 
+    lastScanRef.current = { input: input.trim(), method, clearedBanIds };
+
     setIsProcessing(true);
     setScanState({ status: "scanning", ticket: null, message: "Looking up ticket..." });
+    setUpsellTicket(null);
 
     try {
       // If offline, use local cache validation
@@ -411,6 +453,7 @@ const Scanner = () => {
         const result = await scanTicketOffline(input.trim(), user?.id, selectedEventId || undefined, {
           staffUserId: user?.id,
           deviceLabel: deviceId,
+          clearedBanIds,
         });
 
         // Guard: Don't update state if component unmounted
@@ -492,6 +535,7 @@ const Scanner = () => {
       const result = await scanTicket(input.trim(), user?.id, method, supabase, {
         staffUserId: user?.id,
         deviceLabel: deviceId,
+        clearedBanIds,
       });
       resetIdleTimer?.();
 
@@ -646,6 +690,7 @@ const Scanner = () => {
           ticket: result.ticket,
           message: result.message,
           vipInfo: result.vipInfo,
+          loyaltyPerks: result.loyaltyPerks,
         });
 
         // Check if this ticket is linked to a VIP reservation (for display)
@@ -669,6 +714,11 @@ const Scanner = () => {
           }
         }
 
+        // Offer an upgrade for GA guests (VIP-linked guests are already at a table)
+        const isVipTicket = ticketVipInfo.isVipGuest || !!result.vipInfo
+          || !!result.ticket?.ticket_type?.toLowerCase().includes('vip');
+        setUpsellTicket(result.ticket && !isVipTicket ? result.ticket : null);
+
         // Haptic feedback based on scan type
         if (isReentry) {
           hapticReentry(); // Double pulse for re-entry
@@ -724,7 +774,9 @@ const Scanner = () => {
       } else {
         // Determine reason based on message content
         let rejectionReason: RejectionReason = 'invalid';
-        if (result.message?.toLowerCase().includes('not found') ||
+        if (result.rejectionReason === 'voided' || result.rejectionReason === 'banned') {
+          rejectionReason = result.rejectionReason;
+        } else if (result.message?.toLowerCase().includes('not found') ||
           result.message?.toLowerCase().includes('does not exist')) {
           rejectionReason = 'not_found';
         } else if (result.message?.toLowerCase().includes('expired')) {
@@ -733,9 +785,10 @@ const Scanner = () => {
 
         setScanState({
           status: "error",
-          ticket: null,
+          ticket: rejectionReason === 'banned' ? result.ticket : null,
           message: result.message,
           rejectionReason,
+          rejectionDetails: result.rejectionDetails,
         });
 
         // Haptic feedback for other rejection types
@@ -861,6 +914,28 @@ const Scanner = () => {
     setIsSyncing(false);
   };
 
+  // Staff checked the ID of a possible banned guest and it's someone else
+  const handleClearBan = () => {
+    const match = scanState.rejectionDetails?.bannedGuest;
+    const lastScan = lastScanRef.current;
+    if (!match || !lastScan) return;
+
+    recordBanMatch(match, 'scan', 'cleared', {
+      ticketId: scanState.ticket?.id,
+      eventId: selectedEventId || null,
+      staffUserId: user?.id,
+    });
+    logAuditEvent('override_used', 'banned_guest', `Cleared possible banned guest match for ${match.fullName}`, {
+      userId: user?.id,
+      resourceId: match.banId,
+      severity: 'warning',
+      metadata: { context: 'scan', matchedOn: match.matchedOn, ticketId: scanState.ticket?.id },
+    });
+
+    handleScanAnother();
+    processScan(lastScan.input, lastScan.method, [...lastScan.clearedBanIds, match.banId]);
+  };
+
   // Reset to scan another
   const handleScanAnother = () => {
     setScanState({ status: "idle", ticket: null, message: "", rejectionReason: undefined, rejectionDetails: undefined, scanType: undefined, vipGuestPassData: undefined });
@@ -949,6 +1024,20 @@ const Scanner = () => {
                   {item.title}
                 </Button>
               ))}
+              {selectedEventId && (
+                <Button
+                  variant="ghost"
+                  className="w-full justify-start text-lg h-14 gap-4 text-white/80 hover:text-white hover:bg-white/5 rounded-xl"
+                  disabled={!isOnline}
+                  onClick={() => {
+                    setDoorSaleOpen(true);
+                    setMenuOpen(false);
+                  }}
+                >
+                  <DollarSign className="h-5 w-5" />
+                  Walk-in Sale
+                </Button>
+              )}
             </div>
 
             {/* Ticket Type Filter */}
@@ -1185,16 +1274,39 @@ const Scanner = () => {
       </div>
 
       {/* Scan History - above bottom nav, below scanner */}
-      {scanHistory.length > 0 && scanState.status === 'idle' && (
-        <div className="fixed bottom-24 left-0 right-0 z-[40] px-4 pb-2">
-          <ScanHistory
-            entries={scanHistory}
-            maxVisible={5}
-            onToggleExpand={toggleHistoryExpand}
-          />
+      {(scanHistory.length > 0 || upsellTicket) && scanState.status === 'idle' && (
+        <div className="fixed bottom-24 left-0 right-0 z-[40] px-4 pb-2 space-y-2">
+          {upsellTicket && isOnline && (
+            <Button
+              onClick={() => setUpgradingTicket(upsellTicket)}
+              className="w-full h-12 rounded-2xl bg-purple-600/90 hover:bg-purple-500 backdrop-blur-md"
+            >
+              <ArrowUpCircle className="h-5 w-5 mr-2" />
+              Upgrade {upsellTicket.guest_name || 'last guest'}
+            </Button>
+          )}
+          {scanHistory.length > 0 && (
+            <ScanHistory
+              entries={scanHistory}
+              maxVisible={5}
+              onToggleExpand={toggleHistoryExpand}
+            />
+          )}
         </div>
       )}
 
+      <DoorUpgradeModal
+        ticket={upgradingTicket}
+        onClose={() => setUpgradingTicket(null)}
+        onUpgraded={() => setUpsellTicket(null)}
+      />
+
+      <DoorSaleModal
+        eventId={doorSaleOpen ? selectedEventId : null}
+        eventName={events.find((e) => e.id === selectedEventId)?.name}
+        onClose={() => setDoorSaleOpen(false)}
+      />
+
       {/* Bottom Navigation Bar */}
       <div className="pt-2 pb-8 px-8 bg-black/80 backdrop-blur-2xl border-t border-white/5 z-50 flex items-end justify-between gap-6 fixed bottom-0 left-0 right-0">
         <button
@@ -1253,6 +1365,7 @@ const Scanner = () => {
               holderName: vipLinkInfo.purchaserName || 'VIP Host'
             } : undefined
           }
+          loyaltyPerks={scanState.loyaltyPerks}
           isReentry={scanState.status === "reentry"}
           lastEntryTime={
             scanState.status === "reentry" && scanState.ticket?.scanned_at
@@ -1287,9 +1400,11 @@ const Scanner = () => {
           details={{
             previousScan: scanState.rejectionDetails?.previousScan,
             wrongEventDate: scanState.rejectionDetails?.wrongEventDate,
+            bannedGuest: scanState.rejectionDetails?.bannedGuest,
             message: scanState.message
           }}
           onDismiss={handleScanAnother}
+          onClearBan={can('override') ? handleClearBan : undefined}
         />
       )}
 
@@ -1,6 +1,6 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useNavigate } from "react-router-dom";
-import { useAuth, useRole } from "@/contexts/AuthContext";
+import { useAuth, usePermission, useRole } from "@/contexts/AuthContext";
 import { useUserManagement, type UserProfile } from "@/hooks/useUserManagement";
 import OwnerPortalLayout from "@/components/layout/OwnerPortalLayout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -27,6 +27,8 @@ import {
   CheckCircle2,
   XCircle,
   RefreshCw,
+  KeyRound,
+  History,
 } from "lucide-react";
 import {
   AlertDialog,
@@ -53,7 +55,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { logAuditEvent } from "@/lib/audit-service";
+import { getPermissionAuditTrail, logAuditEvent, type AuditLog } from "@/lib/audit-service";
+import { getStaffRoles, type StaffRole } from "@/lib/permission-service";
 import {
   createInvitation,
   getInvitationsByUser,
@@ -62,12 +65,16 @@ import {
   type Invitation,
 } from "@/lib/invitation-service";
 import { UserDetailsModal } from "@/components/admin/UserDetailsModal";
+import { StaffRolesCard } from "@/components/admin/StaffRolesCard";
+import { UserRolesDialog } from "@/components/admin/UserRolesDialog";
 
 const TeamManagement = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { user } = useAuth();
+  const { user, refreshPermissions } = useAuth();
   const role = useRole();
+  const canManageTeam = usePermission("manage_team");
+  const isOwner = role === 'owner';
   const { getAllUsers, promoteToOwner, setRoleToPromoter, demoteToEmployee, deleteUser, loading } = useUserManagement();
   
   const [users, setUsers] = useState<UserProfile[]>([]);
@@ -89,17 +96,35 @@ const TeamManagement = () => {
   const [userDetailsOpen, setUserDetailsOpen] = useState(false);
   const [selectedUser, setSelectedUser] = useState<UserProfile | null>(null);
 
-  // Redirect employees
+  // Roles and permissions state
+  const [staffRoles, setStaffRoles] = useState<StaffRole[]>([]);
+  const [permissionTrail, setPermissionTrail] = useState<AuditLog[]>([]);
+  const [rolesDialogOpen, setRolesDialogOpen] = useState(false);
+  const [rolesUser, setRolesUser] = useState<UserProfile | null>(null);
+
+  // Redirect staff without manage_team
   useEffect(() => {
-    if (role !== 'owner') {
+    if (!canManageTeam) {
       toast({
         variant: "destructive",
         title: "Access Denied",
-        description: "Team management is only available to owners.",
+        description: "Team management is only available to staff who can manage the team.",
       });
       navigate("/scanner");
     }
-  }, [role, navigate, toast]);
+  }, [canManageTeam, navigate, toast]);
+
+  const loadRoles = useCallback(async () => {
+    try {
+      setStaffRoles(await getStaffRoles());
+    } catch (error) {
+      console.error('Error loading roles:', error);
+    }
+  }, []);
+
+  const loadPermissionTrail = useCallback(async () => {
+    setPermissionTrail(await getPermissionAuditTrail({ limit: 25 }));
+  }, []);
 
   // Load users and invitations
   useEffect(() => {
@@ -107,6 +132,18 @@ const TeamManagement = () => {
     loadInvitations();
   }, []);
 
+  // Load roles and the permission change trail
+  useEffect(() => {
+    loadRoles();
+    loadPermissionTrail();
+  }, [loadRoles, loadPermissionTrail]);
+
+  const handlePermissionsChanged = () => {
+    loadRoles();
+    loadPermissionTrail();
+    refreshPermissions();
+  };
+
   // Filter users based on search
   useEffect(() => {
     if (!searchQuery.trim()) {
@@ -248,6 +285,11 @@ const TeamManagement = () => {
     setUserDetailsOpen(true);
   };
 
+  const handleOpenRoles = (userProfile: UserProfile) => {
+    setRolesUser(userProfile);
+    setRolesDialogOpen(true);
+  };
+
   const handlePromoteToPromoter = async (userId: string) => {
     const success = await setRoleToPromoter(userId);
     if (success) {
@@ -341,7 +383,7 @@ const TeamManagement = () => {
     });
   };
 
-  if (role !== 'owner') {
+  if (!canManageTeam) {
     return null; // Will redirect via useEffect
   }
 
@@ -352,7 +394,7 @@ const TeamManagement = () => {
   const headerActions = (
     <div className="flex items-center gap-2">
       <Button
-        onClick={() => { loadUsers(); loadInvitations(); }}
+        onClick={() => { loadUsers(); loadInvitations(); loadRoles(); loadPermissionTrail(); }}
         variant="outline"
         className="border-indigo-500/30 bg-indigo-500/10 hover:bg-indigo-500/20"
       >
@@ -595,8 +637,23 @@ const TeamManagement = () => {
                         </TableCell>
                         <TableCell className="text-right" onClick={(e) => e.stopPropagation()}>
                           <div className="flex justify-end gap-2">
+                            {/* Extra roles, scoped to a venue or event */}
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleOpenRoles(userProfile);
+                              }}
+                              className="border-indigo-500/30 text-indigo-300 hover:bg-indigo-500/10"
+                              data-cy="user-roles-button"
+                            >
+                              <KeyRound className="h-4 w-4 mr-1" />
+                              Roles
+                            </Button>
+                            {/* Base roles are changed by owners only */}
                             {/* Employee: Can promote to Promoter */}
-                            {userProfile.role === 'employee' && (
+                            {isOwner && userProfile.role === 'employee' && (
                               <Button
                                 size="sm"
                                 variant="outline"
@@ -612,7 +669,7 @@ const TeamManagement = () => {
                               </Button>
                             )}
                             {/* Promoter: Can promote to Owner or demote to Employee */}
-                            {userProfile.role === 'promoter' && (
+                            {isOwner && userProfile.role === 'promoter' && (
                               <>
                                 <Button
                                   size="sm"
@@ -643,7 +700,7 @@ const TeamManagement = () => {
                               </>
                             )}
                             {/* Owner (not self): Can demote to Promoter */}
-                            {userProfile.role === 'owner' && userProfile.id !== user?.id && (
+                            {isOwner && userProfile.role === 'owner' && userProfile.id !== user?.id && (
                               <Button
                                 size="sm"
                                 variant="outline"
@@ -659,7 +716,7 @@ const TeamManagement = () => {
                               </Button>
                             )}
                             {/* Delete button (not self) */}
-                            {userProfile.id !== user?.id && (
+                            {isOwner && userProfile.id !== user?.id && (
                               <Button
                                 size="sm"
                                 variant="outline"
@@ -684,6 +741,56 @@ const TeamManagement = () => {
           </CardContent>
         </Card>
 
+        {/* Roles & Permissions */}
+        <StaffRolesCard
+          roles={staffRoles}
+          actorId={user?.id}
+          isOwner={isOwner}
+          onChanged={handlePermissionsChanged}
+        />
+
+        {/* Permission Change Trail */}
+        <Card className="rounded-3xl border border-white/10 bg-gradient-to-br from-[#161d45] via-[#0b132f] to-[#050915] shadow-[0_45px_90px_rgba(3,7,23,0.7)] mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Permission Changes
+            </CardTitle>
+            <CardDescription>Who changed which roles, and when</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {permissionTrail.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <History className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                <p>No permission changes yet.</p>
+              </div>
+            ) : (
+              <div className="space-y-2" data-cy="permission-trail">
+                {permissionTrail.map((entry) => {
+                  const actor = users.find((u) => u.id === entry.user_id);
+                  const target = entry.resource_type === 'user' ? users.find((u) => u.id === entry.resource_id) : undefined;
+                  return (
+                    <div key={entry.id} className="flex items-start justify-between gap-4 p-3 border rounded-lg">
+                      <div className="flex-1">
+                        <div className="text-sm">
+                          {entry.description}
+                          {target && <span className="text-muted-foreground"> ({target.email})</span>}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          By {actor?.email || 'unknown'} • {entry.created_at ? new Date(entry.created_at).toLocaleString() : ''}
+                        </div>
+                      </div>
+                      <Badge variant={entry.severity === 'warning' ? 'destructive' : 'secondary'}>
+                        {entry.action.replace(/_/g, ' ')}
+                      </Badge>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Delete Confirmation Dialog */}
         <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
           <AlertDialogContent>
@@ -713,6 +820,17 @@ const TeamManagement = () => {
           onOpenChange={setUserDetailsOpen}
         />
 
+        {/* User Roles Dialog */}
+        <UserRolesDialog
+          user={rolesUser}
+          open={rolesDialogOpen}
+          onOpenChange={setRolesDialogOpen}
+          roles={staffRoles}
+          actorId={user?.id}
+          isOwner={isOwner}
+          onChanged={handlePermissionsChanged}
+        />
+
         {/* Invitation Creation Dialog */}
         <Dialog open={inviteDialogOpen} onOpenChange={setInviteDialogOpen}>
           <DialogContent className="sm:max-w-md">
@@ -769,18 +887,23 @@ const TeamManagement = () => {
                           Employee - Scanner access only
                         </div>
                       </SelectItem>
-                      <SelectItem value="promoter" className="text-white hover:bg-indigo-500/20 focus:bg-indigo-500/20">
-                        <div className="flex items-center gap-2">
-                          <UserPlus className="h-4 w-4" />
-                          Promoter - Scanner + view analytics
-                        </div>
-                      </SelectItem>
-                      <SelectItem value="owner" className="text-white hover:bg-indigo-500/20 focus:bg-indigo-500/20">
-                        <div className="flex items-center gap-2">
-                          <Shield className="h-4 w-4" />
-                          Owner - Full admin access
-                        </div>
-                      </SelectItem>
+                      {/* Only owners can invite promoters and owners */}
+                      {isOwner && (
+                        <>
+                          <SelectItem value="promoter" className="text-white hover:bg-indigo-500/20 focus:bg-indigo-500/20">
+                            <div className="flex items-center gap-2">
+                              <UserPlus className="h-4 w-4" />
+                              Promoter - Scanner + view analytics
+                            </div>
+                          </SelectItem>
+                          <SelectItem value="owner" className="text-white hover:bg-indigo-500/20 focus:bg-indigo-500/20">
+                            <div className="flex items-center gap-2">
+                              <Shield className="h-4 w-4" />
+                              Owner - Full admin access
+                            </div>
+                          </SelectItem>
+                        </>
+                      )}
                     </SelectContent>
                   </Select>
                   <p className="text-xs text-muted-foreground">
@@ -5,7 +5,7 @@
 
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useAuth, useRole } from '@/contexts/AuthContext';
+import { useAuth, usePermission } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import OwnerPortalLayout from '@/components/layout/OwnerPortalLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -86,7 +86,7 @@ const VipTablesManagement = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const { user } = useAuth();
-  const role = useRole();
+  const canManageVip = usePermission('manage_vip');
 
   // State
   const [events, setEvents] = useState<Event[]>([]);
@@ -185,17 +185,17 @@ const VipTablesManagement = () => {
     fetchLinkedTickets();
   }, [selectedReservation]);
 
-  // Redirect if not owner or promoter
+  // Redirect staff without manage_vip
   useEffect(() => {
-    if (role !== 'owner' && role !== 'promoter') {
+    if (!canManageVip) {
       toast({
         variant: 'destructive',
         title: 'Access Denied',
-        description: 'VIP Tables is only available to owners and promoters.',
+        description: 'VIP Tables is only available to staff who can manage VIP.',
       });
       navigate('/scanner');
     }
-  }, [role, navigate, toast]);
+  }, [canManageVip, navigate, toast]);
 
   // Load events
   useEffect(() => {
@@ -589,7 +589,7 @@ const VipTablesManagement = () => {
     return <Badge className={variant.className}>{variant.label}</Badge>;
   };
 
-  if (role !== 'owner' && role !== 'promoter') return null;
+  if (!canManageVip) return null;
 
   const selectedEvent = events.find((e) => e.id === selectedEventId);
 
@@ -0,0 +1,694 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import EmployeePortalLayout from "@/components/layout/EmployeePortalLayout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { findTicket } from "@/lib/simple-scanner";
+import { searchGuests, type GuestSearchResult } from "@/lib/guest-list-service";
+import { isOk } from "@/lib/result";
+import {
+  fileIncidentReport,
+  getEventStaff,
+  getMyIncidentReports,
+  type EventStaffMember,
+  type IncidentPhotoUpload,
+  type IncidentReport,
+} from "@/lib/incident-service";
+import {
+  INCIDENT_PERSON_ROLE_LABELS,
+  INCIDENT_SEVERITY_LABELS,
+  INCIDENT_STATUS_LABELS,
+  INCIDENT_TYPE_LABELS,
+  validateIncidentDraft,
+  type IncidentDraft,
+  type IncidentPersonDraft,
+  type IncidentPersonRole,
+  type IncidentSeverity,
+  type IncidentType,
+} from "@/lib/incident-reports";
+import { format } from "date-fns";
+import {
+  AlertTriangle,
+  Camera,
+  FileText,
+  Link2,
+  Plus,
+  RefreshCw,
+  ShieldAlert,
+  Trash2,
+  UserPlus,
+  Users,
+} from "lucide-react";
+
+interface EventOption {
+  id: string;
+  name: string;
+  event_date: string;
+}
+
+/** A person row in the form, with what their ticket or guest list link shows as */
+interface PersonRow extends IncidentPersonDraft {
+  key: string;
+  linkLabel?: string;
+  lookup: string;
+  guestMatches: GuestSearchResult[];
+}
+
+const SEVERITY_BADGE: Record<IncidentSeverity, string> = {
+  low: "border-slate-400/40 text-slate-200",
+  medium: "border-amber-400/40 text-amber-200",
+  high: "border-orange-500/50 text-orange-200",
+  critical: "border-red-500/60 bg-red-500/20 text-red-100",
+};
+
+const nowInputValue = () => format(new Date(), "yyyy-MM-dd'T'HH:mm");
+
+const newPerson = (): PersonRow => ({
+  key: crypto.randomUUID(),
+  role: "aggressor",
+  name: "",
+  description: "",
+  lookup: "",
+  guestMatches: [],
+});
+
+const CrewIncidents = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user, loading: authLoading } = useAuth();
+
+  const [events, setEvents] = useState<EventOption[]>([]);
+  const [eventId, setEventId] = useState<string>("");
+  const [incidentType, setIncidentType] = useState<IncidentType | "">("");
+  const [severity, setSeverity] = useState<IncidentSeverity | "">("");
+  const [location, setLocation] = useState("");
+  const [occurredAt, setOccurredAt] = useState(nowInputValue);
+  const [description, setDescription] = useState("");
+  const [policeCalled, setPoliceCalled] = useState(false);
+  const [policeReportNumber, setPoliceReportNumber] = useState("");
+  const [ambulanceCalled, setAmbulanceCalled] = useState(false);
+  const [people, setPeople] = useState<PersonRow[]>([]);
+  const [eventStaff, setEventStaff] = useState<EventStaffMember[]>([]);
+  const [witnessStatements, setWitnessStatements] = useState<Record<string, string>>({});
+  const [photos, setPhotos] = useState<IncidentPhotoUpload[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [myReports, setMyReports] = useState<IncidentReport[]>([]);
+  const [reportsLoading, setReportsLoading] = useState(true);
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!user) navigate("/auth");
+  }, [authLoading, user, navigate]);
+
+  // Tonight's events plus last night's, since reports are often written after close
+  useEffect(() => {
+    const loadEvents = async () => {
+      const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().split("T")[0];
+      const { data, error } = await supabase
+        .from("events")
+        .select("id, name, event_date")
+        .gte("event_date", since)
+        .eq("is_active", true)
+        .order("event_date", { ascending: true })
+        .limit(10);
+
+      if (error) {
+        console.error("[CrewIncidents] Failed to load events:", error);
+        return;
+      }
+      setEvents(data || []);
+      if (data && data.length > 0) setEventId((current) => current || data[0].id);
+    };
+    loadEvents();
+  }, []);
+
+  useEffect(() => {
+    if (!eventId) {
+      setEventStaff([]);
+      return;
+    }
+    setWitnessStatements({});
+    getEventStaff(eventId)
+      .then((staff) => setEventStaff(staff.filter((member) => member.userId !== user?.id)))
+      .catch((error) => console.error("[CrewIncidents] Failed to load event staff:", error));
+  }, [eventId, user?.id]);
+
+  const loadMyReports = useCallback(async () => {
+    if (!user?.id) return;
+    setReportsLoading(true);
+    try {
+      setMyReports(await getMyIncidentReports(user.id));
+    } catch (error) {
+      console.error("[CrewIncidents] Failed to load reports:", error);
+    } finally {
+      setReportsLoading(false);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    loadMyReports();
+  }, [loadMyReports]);
+
+  const updatePerson = (key: string, changes: Partial<PersonRow>) => {
+    setPeople((rows) => rows.map((row) => (row.key === key ? { ...row, ...changes } : row)));
+  };
+
+  // Try the scanned code or ticket ID first, then fall back to a guest list name search
+  const linkPerson = async (person: PersonRow) => {
+    const lookup = person.lookup.trim();
+    if (!lookup) return;
+
+    try {
+      const ticket = await findTicket(lookup);
+      if (ticket) {
+        updatePerson(person.key, {
+          ticketId: ticket.id,
+          guestListEntryId: null,
+          name: person.name || ticket.guest_name || "",
+          linkLabel: `Ticket ${ticket.ticket_id} (${ticket.ticket_type})`,
+          guestMatches: [],
+        });
+        return;
+      }
+
+      if (eventId) {
+        const result = await searchGuests(eventId, lookup);
+        if (isOk(result) && result.data.length > 0) {
+          updatePerson(person.key, { guestMatches: result.data.slice(0, 5) });
+          return;
+        }
+      }
+
+      toast({
+        variant: "destructive",
+        title: "No match",
+        description: "No ticket or guest list entry matched. Describe the person instead.",
+      });
+    } catch (error) {
+      console.error("[CrewIncidents] Lookup failed:", error);
+      toast({ variant: "destructive", title: "Lookup failed", description: "Please try again." });
+    }
+  };
+
+  const linkGuest = (person: PersonRow, guest: GuestSearchResult) => {
+    updatePerson(person.key, {
+      guestListEntryId: guest.id,
+      ticketId: null,
+      name: person.name || guest.guestName,
+      linkLabel: `Guest list: ${guest.guestName} (${guest.listName})`,
+      guestMatches: [],
+    });
+  };
+
+  const handlePhotos = (files: FileList | null) => {
+    if (!files) return;
+    setPhotos((current) => [...current, ...Array.from(files).map((file) => ({ file, caption: "" }))]);
+  };
+
+  const draft: IncidentDraft = useMemo(
+    () => ({
+      eventId: eventId || null,
+      incidentType,
+      severity,
+      location,
+      occurredAt,
+      description,
+      policeCalled,
+      policeReportNumber,
+      ambulanceCalled,
+      people: people.map(({ role, name, description: personDescription, ticketId, guestListEntryId }) => ({
+        role,
+        name,
+        description: personDescription,
+        ticketId,
+        guestListEntryId,
+      })),
+      witnesses: Object.entries(witnessStatements).map(([staffUserId, statement]) => ({
+        staffUserId,
+        statement,
+      })),
+    }),
+    [
+      eventId,
+      incidentType,
+      severity,
+      location,
+      occurredAt,
+      description,
+      policeCalled,
+      policeReportNumber,
+      ambulanceCalled,
+      people,
+      witnessStatements,
+    ]
+  );
+
+  const resetForm = () => {
+    setIncidentType("");
+    setSeverity("");
+    setLocation("");
+    setOccurredAt(nowInputValue());
+    setDescription("");
+    setPoliceCalled(false);
+    setPoliceReportNumber("");
+    setAmbulanceCalled(false);
+    setPeople([]);
+    setWitnessStatements({});
+    setPhotos([]);
+    setErrors([]);
+  };
+
+  const handleSubmit = async () => {
+    if (!user?.id) return;
+    const problems = validateIncidentDraft(draft);
+    setErrors(problems);
+    if (problems.length > 0) return;
+
+    setIsSubmitting(true);
+    try {
+      await fileIncidentReport(draft, photos, user.id);
+      toast({ title: "Report filed", description: "A manager will review it." });
+      resetForm();
+    } catch (error) {
+      console.error("[CrewIncidents] Failed to file report:", error);
+      toast({
+        variant: "destructive",
+        title: "Report not filed",
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsSubmitting(false);
+      loadMyReports();
+    }
+  };
+
+  const headerActions = (
+    <Button
+      size="sm"
+      variant="outline"
+      className="w-full border-white/30 text-white hover:bg-white/10 sm:w-auto"
+      onClick={loadMyReports}
+    >
+      <RefreshCw className="mr-2 h-4 w-4" />
+      Refresh
+    </Button>
+  );
+
+  return (
+    <EmployeePortalLayout
+      title="Incidents"
+      subtitle="Crew suite • Security"
+      description="Write up fights, ejections, medical calls and damage while it's fresh."
+      actions={headerActions}
+    >
+      <div className="space-y-6">
+        <Card className="border-white/10 bg-white/5 text-white">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-white">
+              <ShieldAlert className="h-4 w-4" />
+              New incident report
+            </CardTitle>
+            <CardDescription className="text-purple-100/70">
+              Stick to what you saw. A manager reviews every report.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Event</Label>
+                <Select value={eventId} onValueChange={setEventId}>
+                  <SelectTrigger className="border-white/20 bg-transparent">
+                    <SelectValue placeholder="Select event" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {events.map((event) => (
+                      <SelectItem key={event.id} value={event.id}>
+                        {event.name} • {format(new Date(event.event_date), "MMM d")}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="incident-time">When</Label>
+                <Input
+                  id="incident-time"
+                  type="datetime-local"
+                  value={occurredAt}
+                  onChange={(e) => setOccurredAt(e.target.value)}
+                  className="border-white/20 bg-transparent"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>What happened</Label>
+                <Select value={incidentType} onValueChange={(value) => setIncidentType(value as IncidentType)}>
+                  <SelectTrigger className="border-white/20 bg-transparent">
+                    <SelectValue placeholder="Incident type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(INCIDENT_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Severity</Label>
+                <Select value={severity} onValueChange={(value) => setSeverity(value as IncidentSeverity)}>
+                  <SelectTrigger className="border-white/20 bg-transparent">
+                    <SelectValue placeholder="How serious" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(INCIDENT_SEVERITY_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="incident-location">Where</Label>
+                <Input
+                  id="incident-location"
+                  placeholder="Main bar, front door, smoking area..."
+                  value={location}
+                  onChange={(e) => setLocation(e.target.value)}
+                  className="border-white/20 bg-transparent"
+                />
+              </div>
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="incident-description">Description</Label>
+                <Textarea
+                  id="incident-description"
+                  rows={5}
+                  placeholder="What led up to it, what happened, and how it ended."
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  className="border-white/20 bg-transparent"
+                />
+              </div>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="flex items-center justify-between rounded-xl border border-white/10 bg-white/5 p-3">
+                <Label htmlFor="police-called">Police called</Label>
+                <Switch id="police-called" checked={policeCalled} onCheckedChange={setPoliceCalled} />
+              </div>
+              <div className="flex items-center justify-between rounded-xl border border-white/10 bg-white/5 p-3">
+                <Label htmlFor="ambulance-called">Ambulance called</Label>
+                <Switch id="ambulance-called" checked={ambulanceCalled} onCheckedChange={setAmbulanceCalled} />
+              </div>
+              {policeCalled && (
+                <Input
+                  placeholder="Police report number"
+                  value={policeReportNumber}
+                  onChange={(e) => setPoliceReportNumber(e.target.value)}
+                  className="border-white/20 bg-transparent"
+                />
+              )}
+            </div>
+
+            {/* People involved */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <p className="flex items-center gap-2 text-sm font-semibold">
+                  <Users className="h-4 w-4" />
+                  People involved
+                </p>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="border-white/20 bg-transparent text-white hover:bg-white/10"
+                  onClick={() => setPeople((rows) => [...rows, newPerson()])}
+                >
+                  <UserPlus className="mr-2 h-4 w-4" />
+                  Add person
+                </Button>
+              </div>
+              {people.length === 0 && (
+                <p className="text-sm text-purple-100/70">No guests added.</p>
+              )}
+              {people.map((person) => (
+                <div key={person.key} className="space-y-3 rounded-xl border border-white/10 bg-white/5 p-3">
+                  <div className="grid gap-3 sm:grid-cols-[160px_1fr_auto]">
+                    <Select
+                      value={person.role}
+                      onValueChange={(value) => updatePerson(person.key, { role: value as IncidentPersonRole })}
+                    >
+                      <SelectTrigger className="border-white/20 bg-transparent">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(INCIDENT_PERSON_ROLE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      placeholder="Name, if known"
+                      value={person.name}
+                      onChange={(e) => updatePerson(person.key, { name: e.target.value })}
+                      className="border-white/20 bg-transparent"
+                    />
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="text-red-300 hover:bg-red-500/10"
+                      onClick={() => setPeople((rows) => rows.filter((row) => row.key !== person.key))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <Input
+                    placeholder="Description (clothing, build, tattoos)"
+                    value={person.description}
+                    onChange={(e) => updatePerson(person.key, { description: e.target.value })}
+                    className="border-white/20 bg-transparent"
+                  />
+                  {person.linkLabel ? (
+                    <div className="flex items-center justify-between text-xs text-emerald-200">
+                      <span className="flex items-center gap-2">
+                        <Link2 className="h-3 w-3" />
+                        {person.linkLabel}
+                      </span>
+                      <button
+                        className="text-purple-100/70 underline"
+                        onClick={() =>
+                          updatePerson(person.key, { ticketId: null, guestListEntryId: null, linkLabel: undefined })
+                        }
+                      >
+                        Unlink
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder="Ticket ID, QR code or guest list name"
+                        value={person.lookup}
+                        onChange={(e) => updatePerson(person.key, { lookup: e.target.value })}
+                        className="border-white/20 bg-transparent"
+                      />
+                      <Button
+                        variant="outline"
+                        className="border-white/20 bg-transparent text-white hover:bg-white/10"
+                        onClick={() => linkPerson(person)}
+                      >
+                        <Link2 className="mr-2 h-4 w-4" />
+                        Link
+                      </Button>
+                    </div>
+                  )}
+                  {person.guestMatches.length > 0 && (
+                    <div className="space-y-1">
+                      {person.guestMatches.map((guest) => (
+                        <button
+                          key={guest.id}
+                          className="flex w-full items-center justify-between rounded-lg border border-white/10 px-3 py-2 text-left text-sm hover:bg-white/10"
+                          onClick={() => linkGuest(person, guest)}
+                        >
+                          <span>{guest.guestName}</span>
+                          <span className="text-xs text-purple-100/70">{guest.listName}</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {/* Staff witnesses */}
+            <div className="space-y-3">
+              <p className="flex items-center gap-2 text-sm font-semibold">
+                <Users className="h-4 w-4" />
+                Staff who saw it
+              </p>
+              {eventStaff.length === 0 ? (
+                <p className="text-sm text-purple-100/70">No other staff on shift for this event.</p>
+              ) : (
+                eventStaff.map((member) => {
+                  const checked = member.userId in witnessStatements;
+                  return (
+                    <div key={member.userId} className="space-y-2">
+                      <label className="flex items-center gap-3 text-sm">
+                        <Checkbox
+                          checked={checked}
+                          onCheckedChange={(value) =>
+                            setWitnessStatements((current) => {
+                              const next = { ...current };
+                              if (value) next[member.userId] = "";
+                              else delete next[member.userId];
+                              return next;
+                            })
+                          }
+                        />
+                        {member.name}
+                      </label>
+                      {checked && (
+                        <Input
+                          placeholder="What they saw (optional)"
+                          value={witnessStatements[member.userId]}
+                          onChange={(e) =>
+                            setWitnessStatements((current) => ({ ...current, [member.userId]: e.target.value }))
+                          }
+                          className="border-white/20 bg-transparent"
+                        />
+                      )}
+                    </div>
+                  );
+                })
+              )}
+            </div>
+
+            {/* Photos */}
+            <div className="space-y-3">
+              <Label
+                htmlFor="incident-photos"
+                className="flex w-fit cursor-pointer items-center gap-2 rounded-xl border border-white/20 px-3 py-2 text-sm hover:bg-white/10"
+              >
+                <Camera className="h-4 w-4" />
+                Add photos
+              </Label>
+              <input
+                id="incident-photos"
+                type="file"
+                accept="image/*"
+                capture="environment"
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  handlePhotos(e.target.files);
+                  e.target.value = "";
+                }}
+              />
+              {photos.map((photo, index) => (
+                <div key={`${photo.file.name}-${index}`} className="flex items-center gap-2">
+                  <span className="w-32 truncate text-xs text-purple-100/70">{photo.file.name}</span>
+                  <Input
+                    placeholder="Caption"
+                    value={photo.caption}
+                    onChange={(e) =>
+                      setPhotos((current) =>
+                        current.map((p, i) => (i === index ? { ...p, caption: e.target.value } : p))
+                      )
+                    }
+                    className="border-white/20 bg-transparent"
+                  />
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="text-red-300 hover:bg-red-500/10"
+                    onClick={() => setPhotos((current) => current.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            {errors.length > 0 && (
+              <div className="rounded-xl border border-red-500/40 bg-red-500/10 p-3 text-sm text-red-100">
+                {errors.map((error) => (
+                  <p key={error} className="flex items-center gap-2">
+                    <AlertTriangle className="h-4 w-4" />
+                    {error}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            <Button className="w-full" disabled={isSubmitting} onClick={handleSubmit}>
+              <Plus className="mr-2 h-4 w-4" />
+              {isSubmitting ? "Filing report..." : "File report"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="border-white/10 bg-white/5 text-white">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-white">
+              <FileText className="h-4 w-4" />
+              My reports
+            </CardTitle>
+            <CardDescription className="text-purple-100/70">
+              Reports you&apos;ve filed and where they are in review.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {reportsLoading ? (
+              <p className="text-sm text-purple-100/80">Loading reports...</p>
+            ) : myReports.length === 0 ? (
+              <p className="text-sm text-purple-100/80">You haven&apos;t filed any reports.</p>
+            ) : (
+              myReports.map((report) => (
+                <div
+                  key={report.id}
+                  className="flex items-start justify-between rounded-xl border border-white/10 bg-white/5 p-3"
+                >
+                  <div>
+                    <p className="font-semibold">
+                      {INCIDENT_TYPE_LABELS[report.incident_type]} • {report.location}
+                    </p>
+                    <p className="text-xs text-purple-100/70">
+                      {report.events?.name ? `${report.events.name} • ` : ""}
+                      {format(new Date(report.occurred_at), "MMM d, h:mm a")}
+                    </p>
+                  </div>
+                  <div className="flex flex-col items-end gap-1">
+                    <Badge variant="outline" className={SEVERITY_BADGE[report.severity]}>
+                      {INCIDENT_SEVERITY_LABELS[report.severity]}
+                    </Badge>
+                    <span className="text-xs text-purple-100/70">{INCIDENT_STATUS_LABELS[report.status]}</span>
+                  </div>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </EmployeePortalLayout>
+  );
+};
+
+export default CrewIncidents;
@@ -35,7 +35,7 @@ const MetricsPage = () => {
     <OwnerPortalLayout
       subtitle="MONITORING"
       title="System Metrics"
-      description="Real-time performance metrics and system health"
+      description="Real-time performance metrics, history and system health"
     >
       <MetricsDashboard />
     </OwnerPortalLayout>
@@ -0,0 +1,106 @@
+/**
+ * Marketing Campaign Tests
+ *
+ * Covers merge fields, ticket and unsubscribe links, email bodies and SMS
+ * opt-out handling.
+ *
+ * To run: deno test --allow-net --allow-env campaigns.test.ts
+ */
+
+import {
+  assertEquals,
+  assertStringIncludes,
+} from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  buildCampaignEmail,
+  buildMergeValues,
+  buildSmsBody,
+  buildTicketLink,
+  buildUnsubscribeLink,
+  isSmsOptOutError,
+  renderMergeFields,
+  textToHtml,
+} from "./campaigns.ts";
+
+// ============================================
+// Fixtures
+// ============================================
+
+const SITE = "https://tickets.example.com/";
+
+const EVENT = {
+  id: "event-1",
+  name: "Reggaeton Fridays",
+  event_date: "2026-11-06",
+  event_time: "22:00:00",
+};
+
+// ============================================
+// Links
+// ============================================
+
+Deno.test("ticket links point at the event and carry the campaign", () => {
+  assertEquals(
+    buildTicketLink(SITE, { id: "cmp-1", event_id: "event-1" }),
+    "https://tickets.example.com/event/event-1?cmp=cmp-1",
+  );
+  assertEquals(
+    buildTicketLink(SITE, { id: "cmp-1", event_id: null }),
+    "https://tickets.example.com/events?cmp=cmp-1",
+  );
+});
+
+Deno.test("unsubscribe links use the recipient token", () => {
+  assertEquals(buildUnsubscribeLink(SITE, "abc123"), "https://tickets.example.com/unsubscribe/abc123");
+});
+
+// ============================================
+// Merge fields
+// ============================================
+
+Deno.test("merge fields are filled in per recipient", () => {
+  const values = buildMergeValues({ name: "Ana Lopez", events_attended: 4 }, EVENT, "https://t/x");
+  assertEquals(
+    renderMergeFields("Hi {{first_name}}, {{ event_name }} on {{event_date}} ({{events_attended}})", values),
+    "Hi Ana, Reggaeton Fridays on Friday, November 6 (4)",
+  );
+});
+
+Deno.test("missing names fall back to a greeting", () => {
+  const values = buildMergeValues({ name: null, events_attended: 0 }, null, "https://t/x");
+  assertEquals(renderMergeFields("Hi {{first_name}}, see {{event_name}}", values), "Hi there, see our next event");
+});
+
+Deno.test("unknown merge fields are left as written", () => {
+  assertEquals(renderMergeFields("{{nickname}} {{name}}", { name: "Ana" }), "{{nickname}} Ana");
+});
+
+// ============================================
+// Email
+// ============================================
+
+Deno.test("email bodies are escaped and links are clickable", () => {
+  const html = textToHtml("<b>Hi</b>\n\nTickets: https://t.example.com/e?cmp=1");
+  assertStringIncludes(html, "&lt;b&gt;Hi&lt;/b&gt;");
+  assertStringIncludes(html, '<a href="https://t.example.com/e?cmp=1"');
+});
+
+Deno.test("every email has an unsubscribe link", () => {
+  const html = buildCampaignEmail("Hello", "https://t/e", "https://t/unsubscribe/tok");
+  assertStringIncludes(html, 'href="https://t/unsubscribe/tok"');
+});
+
+// ============================================
+// SMS
+// ============================================
+
+Deno.test("texts get the STOP line once", () => {
+  assertEquals(buildSmsBody("Doors at 10"), "Doors at 10\nReply STOP to opt out");
+  assertEquals(buildSmsBody("Doors at 10. Text STOP to quit"), "Doors at 10. Text STOP to quit");
+});
+
+Deno.test("carrier opt-outs are recognised", () => {
+  assertEquals(isSmsOptOutError('{"code":21610,"message":"Attempt to send to unsubscribed recipient"}'), true);
+  assertEquals(isSmsOptOutError('{"code":21211}'), false);
+  assertEquals(isSmsOptOutError(undefined), false);
+});
@@ -0,0 +1,187 @@
+/**
+ * Marketing Campaigns
+ *
+ * Message rendering for send-campaign (see
+ * 20260425000000_marketing_campaigns.sql):
+ *   merge fields -> {{first_name}}, {{event_name}}, ... filled in per
+ *                   recipient. The composer previews with the same fields
+ *                   (src/lib/crm-segments.ts), keep the two in step.
+ *   email        -> the body as paragraphs in the Maguey email layout,
+ *                   with an unsubscribe link to the ticket site
+ *   sms          -> the body plus the STOP line carriers require
+ *
+ * Ticket links carry ?cmp=<campaign id>; checkout stores it on the order
+ * so sales are credited to the campaign.
+ */
+
+export type CampaignChannel = 'email' | 'sms';
+
+export interface Campaign {
+  id: string;
+  name: string;
+  channel: CampaignChannel;
+  event_id: string | null;
+  subject: string | null;
+  body: string;
+}
+
+export interface CampaignRecipient {
+  id: string;
+  email: string;
+  name: string | null;
+  phone: string | null;
+  events_attended: number;
+  token: string;
+}
+
+export interface CampaignEvent {
+  id: string;
+  name: string;
+  event_date: string;
+  event_time: string | null;
+}
+
+export const MERGE_FIELDS = [
+  'first_name',
+  'name',
+  'event_name',
+  'event_date',
+  'ticket_link',
+  'events_attended',
+] as const;
+
+export type MergeField = typeof MERGE_FIELDS[number];
+export type MergeValues = Record<MergeField, string>;
+
+export const DEFAULT_TICKET_SITE_URL = 'https://tickets.magueynightclub.com';
+export const SMS_OPT_OUT_LINE = 'Reply STOP to opt out';
+
+/** Twilio: the number has replied STOP */
+const TWILIO_UNSUBSCRIBED_CODE = '21610';
+
+const MERGE_FIELD_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+export function formatCampaignDate(event: Pick<CampaignEvent, 'event_date' | 'event_time'>): string {
+  const date = new Date(`${event.event_date}T${event.event_time || '21:00:00'}`);
+  return date.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' });
+}
+
+/** Event page when the campaign is about one event, otherwise the events list */
+export function buildTicketLink(siteUrl: string, campaign: Pick<Campaign, 'id' | 'event_id'>): string {
+  const base = siteUrl.replace(/\/+$/, '');
+  const path = campaign.event_id ? `/event/${campaign.event_id}` : '/events';
+  return `${base}${path}?cmp=${encodeURIComponent(campaign.id)}`;
+}
+
+export function buildUnsubscribeLink(siteUrl: string, token: string): string {
+  return `${siteUrl.replace(/\/+$/, '')}/unsubscribe/${encodeURIComponent(token)}`;
+}
+
+export function buildMergeValues(
+  recipient: Pick<CampaignRecipient, 'name' | 'events_attended'>,
+  event: CampaignEvent | null,
+  ticketLink: string,
+): MergeValues {
+  const name = recipient.name?.trim() || '';
+  return {
+    first_name: name.split(/\s+/)[0] || 'there',
+    name: name || 'there',
+    event_name: event?.name || 'our next event',
+    event_date: event ? formatCampaignDate(event) : '',
+    ticket_link: ticketLink,
+    events_attended: String(recipient.events_attended ?? 0),
+  };
+}
+
+/** Fill in {{field}}s; unknown fields are left as written */
+export function renderMergeFields(template: string, values: Partial<MergeValues>): string {
+  return template.replace(MERGE_FIELD_PATTERN, (match, field: string) => {
+    const value = values[field as MergeField];
+    return value === undefined ? match : value;
+  });
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/** Plain text to paragraphs, with links made clickable */
+export function textToHtml(text: string): string {
+  return text
+    .trim()
+    .split(/\n{2,}/)
+    .map((paragraph) => {
+      const html = escapeHtml(paragraph)
+        .replace(/https?:\/\/[^\s<]+/g, (url) => `<a href="${url}" style="color: #39B54A;">${url}</a>`)
+        .replace(/\n/g, '<br>');
+      return `<p style="margin: 0 0 16px 0; color: #cccccc; font-size: 15px; line-height: 1.6;">${html}</p>`;
+    })
+    .join('\n');
+}
+
+export function buildCampaignEmail(body: string, ticketLink: string, unsubscribeLink: string): string {
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="margin: 0; padding: 0; background-color: #000000; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;">
+  <table role="presentation" style="width: 100%; border-collapse: collapse;">
+    <tr>
+      <td align="center" style="padding: 40px 20px;">
+        <table role="presentation" style="max-width: 600px; width: 100%; border-collapse: collapse;">
+          <tr>
+            <td align="center" style="padding-bottom: 30px;">
+              <h1 style="margin: 0; font-size: 36px; font-weight: bold; color: #39B54A; letter-spacing: 4px;">MAGUEY</h1>
+            </td>
+          </tr>
+          <tr>
+            <td style="background: linear-gradient(135deg, #111111 0%, #1a1a1a 100%); border-radius: 16px; padding: 40px 30px; border: 1px solid rgba(57, 181, 74, 0.2);">
+              ${textToHtml(body)}
+              <table role="presentation" style="width: 100%; margin-top: 10px;">
+                <tr>
+                  <td align="center">
+                    <a href="${escapeHtml(ticketLink)}" style="display: inline-block; padding: 18px 50px; background-color: #39B54A; color: #000000; text-decoration: none; font-weight: bold; font-size: 14px; letter-spacing: 2px; border-radius: 8px; text-transform: uppercase;">
+                      GET TICKETS
+                    </a>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+          <tr>
+            <td align="center" style="padding-top: 30px;">
+              <p style="margin: 0 0 10px 0; font-size: 12px; color: #666666;">
+                Maguey Nightclub • 3320 Old Capitol Trl, Wilmington, DE
+              </p>
+              <p style="margin: 0; font-size: 11px; color: #444444;">
+                You're receiving this because you're on the Maguey list.<br>
+                <a href="${escapeHtml(unsubscribeLink)}" style="color: #666666;">Unsubscribe</a>
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+`;
+}
+
+export function buildSmsBody(message: string): string {
+  const text = message.trim();
+  return /\bSTOP\b/.test(text) ? text : `${text}\n${SMS_OPT_OUT_LINE}`;
+}
+
+/** Whether send-sms failed because the number has opted out with the carrier */
+export function isSmsOptOutError(error: string | undefined | null): boolean {
+  return Boolean(error && error.includes(TWILIO_UNSUBSCRIBED_CODE));
+}
@@ -0,0 +1,160 @@
+/**
+ * Door Counter Adapter Tests
+ *
+ * Covers the JSON, CSV and MQTT bridge adapters, adapter detection, reading
+ * keys and time parsing.
+ *
+ * To run: deno test --allow-net --allow-env door-counter-adapters.test.ts
+ */
+
+import {
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  DoorCounterIngestError,
+  deviceIdFromTopic,
+  parseReadings,
+  toDoorCounterIngestError,
+  toIsoTime,
+} from "./door-counter-adapters.ts";
+
+// ============================================
+// Fixtures
+// ============================================
+
+const RECEIVED_AT = new Date("2026-10-18T01:00:00Z");
+
+const parse = (body: string, contentType = "", format?: string) =>
+  parseReadings(body, contentType, { format, receivedAt: RECEIVED_AT });
+
+// ============================================
+// JSON
+// ============================================
+
+Deno.test("a legacy single reading is keyed by its time", () => {
+  const parsed = parse(
+    JSON.stringify({ entry_count: 10, exit_count: 2, count_time: "2026-10-18T00:00:00Z" }),
+    "application/json",
+  );
+  assertEquals(parsed.format, "json");
+  assertEquals(parsed.readings, [{
+    reading_key: "2026-10-18T00:00:00.000Z",
+    count_time: "2026-10-18T00:00:00.000Z",
+    entry_count: 10,
+    exit_count: 2,
+  }]);
+});
+
+Deno.test("a reading without a time is stamped when received", () => {
+  const parsed = parse(JSON.stringify({ entry_count: 1, exit_count: 0, api_key: "key-1" }));
+  assertEquals(parsed.readings[0].count_time, RECEIVED_AT.toISOString());
+  assertEquals(parsed.apiKey, "key-1");
+});
+
+Deno.test("batches use the device's sequence number as the key", () => {
+  const parsed = parse(JSON.stringify({
+    readings: [
+      { seq: 41, ts: 1760745600, in: 3, out: 1 },
+      { seq: 42, ts: 1760745660000, in: 4, out: 0 },
+    ],
+  }));
+  assertEquals(parsed.readings.map((reading) => reading.reading_key), ["41", "42"]);
+  assertEquals(parsed.readings[1].count_time, "2025-10-18T00:01:00.000Z");
+});
+
+Deno.test("a bare array is a batch", () => {
+  assertEquals(parse('[{"entry_count":1,"exit_count":1}]').readings.length, 1);
+});
+
+Deno.test("negative or fractional counts are rejected with the reading number", () => {
+  const error = assertThrows(
+    () => parse(JSON.stringify({ readings: [{ entry_count: 1, exit_count: 0 }, { entry_count: -1, exit_count: 0 }] })),
+    DoorCounterIngestError,
+  );
+  assertEquals(error.message.startsWith("reading 2:"), true);
+  assertThrows(() => parse('{"entry_count":1.5,"exit_count":0}'), DoorCounterIngestError);
+});
+
+// ============================================
+// CSV
+// ============================================
+
+Deno.test("CSV with a header maps aliased columns", () => {
+  const parsed = parse(
+    "Timestamp,In,Out,Seq\n2026-10-18T00:00:00Z,5,1,100\n2026-10-18T00:01:00Z,7,2,101\n",
+    "text/csv",
+  );
+  assertEquals(parsed.format, "csv");
+  assertEquals(parsed.readings.map((reading) => [reading.reading_key, reading.entry_count, reading.exit_count]), [
+    ["100", 5, 1],
+    ["101", 7, 2],
+  ]);
+});
+
+Deno.test("CSV without a header uses the default column order", () => {
+  const parsed = parse("# exported by counter\n2026-10-18T00:00:00Z,5,1\n");
+  assertEquals(parsed.format, "csv");
+  assertEquals(parsed.readings[0].reading_key, "2026-10-18T00:00:00.000Z");
+});
+
+Deno.test("CSV errors name the line", () => {
+  const error = assertThrows(
+    () => parse("count_time,entry_count,exit_count\n2026-10-18T00:00:00Z,5,1\nyesterday,5,1\n", "text/csv"),
+    DoorCounterIngestError,
+  );
+  assertEquals(error.message.startsWith("line 3:"), true);
+});
+
+// ============================================
+// MQTT bridge
+// ============================================
+
+Deno.test("MQTT bridge messages take the device ID from the topic", () => {
+  const parsed = parse(JSON.stringify({
+    topic: "maguey/door-counters/COUNTER-001/counts",
+    payload: JSON.stringify({ entry_count: 2, exit_count: 0, seq: 9 }),
+  }), "application/json");
+  assertEquals(parsed.format, "mqtt");
+  assertEquals(parsed.deviceId, "COUNTER-001");
+  assertEquals(parsed.readings[0].reading_key, "9");
+});
+
+Deno.test("base64 MQTT payloads are decoded", () => {
+  const parsed = parse(JSON.stringify({
+    topic: "counters/SIDE-DOOR/counts",
+    payload: btoa(JSON.stringify({ readings: [{ entry_count: 1, exit_count: 1 }] })),
+    payload_encoding: "base64",
+  }));
+  assertEquals(parsed.deviceId, "SIDE-DOOR");
+  assertEquals(parsed.readings.length, 1);
+});
+
+Deno.test("deviceIdFromTopic takes the segment before the suffix", () => {
+  assertEquals(deviceIdFromTopic("maguey/door-counters/COUNTER-001/counts"), "COUNTER-001");
+  assertEquals(deviceIdFromTopic("COUNTER-001"), "COUNTER-001");
+  assertEquals(deviceIdFromTopic(""), undefined);
+});
+
+// ============================================
+// Detection and errors
+// ============================================
+
+Deno.test("?format= overrides detection", () => {
+  assertThrows(() => parse('{"entry_count":1,"exit_count":0}', "application/json", "csv"), DoorCounterIngestError);
+  const error = assertThrows(() => parse("", "", "xml"), DoorCounterIngestError);
+  assertEquals(error.status, 415);
+});
+
+Deno.test("toIsoTime accepts ISO strings and Unix seconds or milliseconds", () => {
+  assertEquals(toIsoTime("2026-10-18T00:00:00+02:00"), "2026-10-17T22:00:00.000Z");
+  assertEquals(toIsoTime(1760745600), "2025-10-18T00:00:00.000Z");
+  assertEquals(toIsoTime("1760745600000"), "2025-10-18T00:00:00.000Z");
+  assertEquals(toIsoTime("not a time"), null);
+});
+
+Deno.test("toDoorCounterIngestError maps ingest RPC errors", () => {
+  assertEquals(toDoorCounterIngestError("Invalid door counter reading: {...}")?.status, 400);
+  assertEquals(toDoorCounterIngestError("Door counter 123 not found")?.status, 404);
+  assertEquals(toDoorCounterIngestError("connection reset"), null);
+});
@@ -0,0 +1,340 @@
+/**
+ * Door Counter Ingest Adapters
+ *
+ * Turns what door counters send into readings for
+ * ingest_door_counter_readings (20260418000000_door_counter_ingest_adapters.sql):
+ *   json -> one reading {entry_count, exit_count, count_time}, a batch
+ *           {readings: [...]} or a bare array
+ *   csv  -> a CSV export, with or without a header row
+ *   mqtt -> a message forwarded by an MQTT broker's HTTP bridge
+ *           {topic, payload}; the device ID is taken from the topic
+ *
+ * door-counter-ingest picks the adapter from the request, door-counter-poll
+ * uses the same adapters for what a counter's api_endpoint returns.
+ *
+ * Every reading gets a reading_key (the device's sequence number or reading
+ * ID, otherwise its time) so a replayed reading is ignored instead of
+ * counted twice.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export type IngestFormat = 'json' | 'csv' | 'mqtt';
+export type IngestSource = IngestFormat | 'poll';
+
+export interface DoorCounterReading {
+  reading_key: string;
+  count_time: string;
+  entry_count: number;
+  exit_count: number;
+}
+
+export interface ParsedReadings {
+  format: IngestFormat;
+  readings: DoorCounterReading[];
+  /** Device ID from an MQTT topic */
+  deviceId?: string;
+  /** Legacy devices send their API key in the body */
+  apiKey?: string;
+}
+
+/** Returned by ingest_door_counter_readings */
+export interface IngestResult {
+  accepted: number;
+  duplicates: number;
+  stale: number;
+  resets: number;
+  rollovers: number;
+  entries: number;
+  exits: number;
+}
+
+export interface IngestAdapter {
+  format: IngestFormat;
+  /** Whether this adapter understands the request */
+  matches: (contentType: string, body: string) => boolean;
+  parse: (body: string, receivedAt: Date) => ParsedReadings;
+}
+
+/** A night at one reading a minute is ~600; bigger exports are split */
+export const MAX_READINGS_PER_REQUEST = 5000;
+
+export class DoorCounterIngestError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'DoorCounterIngestError';
+  }
+}
+
+// ============================================
+// Field normalization
+// ============================================
+
+const TIME_FIELDS = ['count_time', 'timestamp', 'time', 'datetime', 'ts'];
+const ENTRY_FIELDS = ['entry_count', 'entries', 'in', 'enter', 'count_in'];
+const EXIT_FIELDS = ['exit_count', 'exits', 'out', 'exit', 'count_out'];
+const KEY_FIELDS = ['reading_id', 'seq', 'sequence', 'id'];
+
+function pick(record: Record<string, unknown>, fields: string[]): unknown {
+  for (const field of fields) {
+    if (record[field] !== undefined && record[field] !== null && record[field] !== '') {
+      return record[field];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * ISO strings, or Unix time in seconds or milliseconds
+ */
+export function toIsoTime(value: unknown): string | null {
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d+(\.\d+)?$/.test(value.trim()))) {
+    const epoch = Number(value);
+    const date = new Date(epoch < 1e12 ? epoch * 1000 : epoch);
+    return isNaN(date.getTime()) ? null : date.toISOString();
+  }
+  if (typeof value === 'string') {
+    const date = new Date(value.trim());
+    return isNaN(date.getTime()) ? null : date.toISOString();
+  }
+  return null;
+}
+
+function toCount(value: unknown): number | null {
+  const count = typeof value === 'string' ? Number(value.trim()) : value;
+  return typeof count === 'number' && Number.isInteger(count) && count >= 0 ? count : null;
+}
+
+/**
+ * One device record to a reading. `where` names the record in errors
+ * (e.g. "reading 3", "line 12").
+ */
+export function normalizeReading(
+  record: Record<string, unknown>,
+  receivedAt: Date,
+  where: string
+): DoorCounterReading {
+  const entryCount = toCount(pick(record, ENTRY_FIELDS));
+  const exitCount = toCount(pick(record, EXIT_FIELDS));
+  if (entryCount === null || exitCount === null) {
+    throw new DoorCounterIngestError(`${where}: entry_count and exit_count must be non-negative integers`);
+  }
+
+  const rawTime = pick(record, TIME_FIELDS);
+  const countTime = rawTime === undefined ? receivedAt.toISOString() : toIsoTime(rawTime);
+  if (!countTime) {
+    throw new DoorCounterIngestError(`${where}: invalid count_time "${rawTime}"`);
+  }
+
+  const key = pick(record, KEY_FIELDS);
+  return {
+    reading_key: key === undefined ? countTime : String(key).trim(),
+    count_time: countTime,
+    entry_count: entryCount,
+    exit_count: exitCount,
+  };
+}
+
+function normalizeBatch(records: unknown[], receivedAt: Date): DoorCounterReading[] {
+  if (records.length === 0) {
+    throw new DoorCounterIngestError('No readings in request');
+  }
+  if (records.length > MAX_READINGS_PER_REQUEST) {
+    throw new DoorCounterIngestError(
+      `Too many readings (${records.length}); send at most ${MAX_READINGS_PER_REQUEST} per request`,
+      413
+    );
+  }
+  return records.map((record, index) => {
+    if (!record || typeof record !== 'object') {
+      throw new DoorCounterIngestError(`reading ${index + 1}: expected an object`);
+    }
+    return normalizeReading(record as Record<string, unknown>, receivedAt, `reading ${index + 1}`);
+  });
+}
+
+function parseJsonBody(body: string): unknown {
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new DoorCounterIngestError('Request body is not valid JSON');
+  }
+}
+
+// ============================================
+// Adapters
+// ============================================
+
+export const jsonAdapter: IngestAdapter = {
+  format: 'json',
+  matches: (contentType, body) =>
+    contentType.includes('json') || /^\s*[[{]/.test(body),
+  parse: (body, receivedAt) => {
+    const parsed = parseJsonBody(body);
+    if (Array.isArray(parsed)) {
+      return { format: 'json', readings: normalizeBatch(parsed, receivedAt) };
+    }
+    if (!parsed || typeof parsed !== 'object') {
+      throw new DoorCounterIngestError('Expected a reading, {readings: [...]} or an array of readings');
+    }
+
+    const record = parsed as Record<string, unknown>;
+    const apiKey = typeof record.api_key === 'string' ? record.api_key : undefined;
+    const readings = Array.isArray(record.readings)
+      ? normalizeBatch(record.readings, receivedAt)
+      : [normalizeReading(record, receivedAt, 'reading')];
+    return { format: 'json', readings, apiKey };
+  },
+};
+
+/**
+ * Header names are matched case-insensitively against the same aliases as
+ * JSON fields. Without a header the columns are
+ * count_time,entry_count,exit_count[,reading_id]. Anything that is not JSON
+ * is read as CSV.
+ */
+export const csvAdapter: IngestAdapter = {
+  format: 'csv',
+  matches: (contentType, body) => contentType.includes('csv') || !/^\s*[[{]/.test(body),
+  parse: (body, receivedAt) => {
+    const lines = body
+      .split(/\r?\n/)
+      .map((line, index) => ({ number: index + 1, text: line.trim() }))
+      .filter((line) => line.text && !line.text.startsWith('#'));
+    if (lines.length === 0) {
+      throw new DoorCounterIngestError('No readings in request');
+    }
+
+    const split = (text: string) => text.split(',').map((cell) => cell.trim().replace(/^"(.*)"$/, '$1'));
+    const firstRow = split(lines[0].text);
+    const hasHeader = firstRow.some((cell) => /[a-z]/i.test(cell) && !toIsoTime(cell));
+    const columns = hasHeader
+      ? firstRow.map((cell) => cell.toLowerCase())
+      : ['count_time', 'entry_count', 'exit_count', 'reading_id'];
+    const rows = hasHeader ? lines.slice(1) : lines;
+
+    if (rows.length > MAX_READINGS_PER_REQUEST) {
+      throw new DoorCounterIngestError(
+        `Too many readings (${rows.length}); send at most ${MAX_READINGS_PER_REQUEST} per request`,
+        413
+      );
+    }
+
+    const readings = rows.map((row) => {
+      const cells = split(row.text);
+      const record: Record<string, unknown> = {};
+      columns.forEach((column, index) => {
+        record[column] = cells[index];
+      });
+      return normalizeReading(record, receivedAt, `line ${row.number}`);
+    });
+    if (readings.length === 0) {
+      throw new DoorCounterIngestError('No readings in request');
+    }
+    return { format: 'csv', readings };
+  },
+};
+
+/** `maguey/door-counters/<device_id>/counts` or any topic ending in `<device_id>/<suffix>` */
+export function deviceIdFromTopic(topic: string): string | undefined {
+  const segments = topic.split('/').filter(Boolean);
+  return segments.length >= 2 ? segments[segments.length - 2] : segments[0];
+}
+
+function decodeMqttPayload(payload: unknown, encoding: unknown): unknown {
+  if (typeof payload !== 'string') return payload;
+  if (encoding === 'base64') {
+    try {
+      return parseJsonBody(atob(payload));
+    } catch {
+      throw new DoorCounterIngestError('MQTT payload is not valid base64 JSON');
+    }
+  }
+  return parseJsonBody(payload);
+}
+
+/**
+ * Broker HTTP bridges (EMQX rule webhooks, Mosquitto/HiveMQ bridge scripts)
+ * forward {topic, payload, payload_encoding?}; the payload is any JSON shape
+ * the json adapter accepts.
+ */
+export const mqttAdapter: IngestAdapter = {
+  format: 'mqtt',
+  matches: (contentType, body) =>
+    (contentType.includes('json') || /^\s*\{/.test(body)) && /"topic"\s*:/.test(body) && /"payload"\s*:/.test(body),
+  parse: (body, receivedAt) => {
+    const message = parseJsonBody(body) as Record<string, unknown>;
+    if (typeof message?.topic !== 'string' || message.payload === undefined) {
+      throw new DoorCounterIngestError('MQTT bridge messages need a topic and a payload');
+    }
+
+    const payload = decodeMqttPayload(message.payload, message.payload_encoding ?? message.encoding);
+    const { readings } = jsonAdapter.parse(JSON.stringify(payload), receivedAt);
+    return { format: 'mqtt', readings, deviceId: deviceIdFromTopic(message.topic) };
+  },
+};
+
+/** Checked in order; the first match wins */
+export const INGEST_ADAPTERS: IngestAdapter[] = [mqttAdapter, jsonAdapter, csvAdapter];
+
+/**
+ * Parses a request body with the adapter named by `?format=` or, without
+ * one, the first adapter that matches the content type and body.
+ */
+export function parseReadings(
+  body: string,
+  contentType: string,
+  options: { format?: string | null; receivedAt?: Date } = {}
+): ParsedReadings {
+  const receivedAt = options.receivedAt ?? new Date();
+  const type = contentType.toLowerCase();
+
+  const adapter = options.format
+    ? INGEST_ADAPTERS.find((candidate) => candidate.format === options.format)
+    : INGEST_ADAPTERS.find((candidate) => candidate.matches(type, body));
+  if (!adapter) {
+    throw new DoorCounterIngestError(
+      options.format
+        ? `Unknown format "${options.format}"; use ${INGEST_ADAPTERS.map((candidate) => candidate.format).join(', ')}`
+        : 'Unrecognized body; send JSON or CSV',
+      415
+    );
+  }
+  return adapter.parse(body, receivedAt);
+}
+
+/**
+ * Maps ingest_door_counter_readings errors to a client error, or null for
+ * an unexpected failure
+ */
+export function toDoorCounterIngestError(message: string): DoorCounterIngestError | null {
+  if (message.includes('Invalid door counter reading')) {
+    return new DoorCounterIngestError(message, 400);
+  }
+  if (message.includes('not found')) {
+    return new DoorCounterIngestError('Door counter not found', 404);
+  }
+  return null;
+}
+
+/**
+ * Stores readings for a counter; replays, stale totals, resets and
+ * rollovers are handled by the database function
+ */
+export async function ingestReadings(
+  supabase: SupabaseClient,
+  counterId: string,
+  readings: DoorCounterReading[],
+  source: IngestSource
+): Promise<IngestResult> {
+  const { data, error } = await supabase.rpc('ingest_door_counter_readings', {
+    p_counter_id: counterId,
+    p_readings: readings,
+    p_source: source,
+  });
+
+  if (error) {
+    throw toDoorCounterIngestError(error.message) ?? new Error(error.message);
+  }
+  return data as IngestResult;
+}
@@ -44,29 +44,15 @@ serve(async (req) => {
       );
     }
 
-    // Insert calibration count (0, 0) to reset
-    const { error: insertError } = await supabase
-      .from('physical_counts')
-      .insert({
-        counter_id: counter.id,
-        entry_count: 0,
-        exit_count: 0,
-        count_time: new Date().toISOString(),
-      });
+    // Record the calibration; a cumulative counter's next reading becomes the new baseline
+    const { error: calibrateError } = await supabase.rpc('calibrate_door_counter', {
+      p_counter_id: counter.id,
+    });
 
-    if (insertError) {
-      throw insertError;
+    if (calibrateError) {
+      throw calibrateError;
     }
 
-    // Update heartbeat
-    await supabase
-      .from('door_counters')
-      .update({
-        last_heartbeat: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', counter.id);
-
     return new Response(
       JSON.stringify({
         success: true,
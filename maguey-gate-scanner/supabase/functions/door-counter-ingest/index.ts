@@ -1,5 +1,26 @@
+/**
+ * Door Counter Ingest
+ *
+ * POST /door-counter-ingest[?format=json|csv|mqtt]
+ *   Authorization: Bearer <counter API key>
+ *   -> { success, accepted, duplicates, stale, resets, rollovers, entries, exits }
+ *
+ * Takes one reading, a batch, a CSV export or an MQTT bridge message (see
+ * _shared/door-counter-adapters.ts). Without ?format= the adapter is picked
+ * from the Content-Type and body.
+ *
+ * An MQTT bridge forwards every counter's messages with one credential, so
+ * it authenticates with DOOR_COUNTER_BRIDGE_TOKEN and the counter is looked
+ * up by the device ID in the topic.
+ */
+
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  DoorCounterIngestError,
+  ingestReadings,
+  parseReadings,
+} from '../_shared/door-counter-adapters.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,87 +33,69 @@ serve(async (req) => {
     return new Response('ok', { headers: corsHeaders });
   }
 
+  const json = (body: unknown, status: number) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    const parsed = parseReadings(await req.text(), req.headers.get('Content-Type') || '', {
+      format: new URL(req.url).searchParams.get('format'),
+    });
+
     // Get API key from request header or body
     const authHeader = req.headers.get('Authorization');
-    const apiKey = authHeader?.replace('Bearer ', '') || 
-                   (await req.json()).api_key;
+    const apiKey = authHeader?.replace(/^Bearer\s+/i, '') || parsed.apiKey;
 
     if (!apiKey) {
-      return new Response(
-        JSON.stringify({ error: 'API key required' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      return json({ error: 'API key required' }, 401);
+    }
+
+    const bridgeToken = Deno.env.get('DOOR_COUNTER_BRIDGE_TOKEN');
+    const viaBridge = !!bridgeToken && apiKey === bridgeToken && parsed.format === 'mqtt';
+    if (viaBridge && !parsed.deviceId) {
+      return json({ error: 'MQTT topic does not name a device' }, 400);
     }
 
-    // Verify API key and get counter
-    const { data: counter, error: counterError } = await supabase
+    // Verify API key (or the bridge's device) and get counter
+    const counterQuery = supabase
       .from('door_counters')
       .select('id, device_id, is_active')
-      .eq('api_key', apiKey)
-      .eq('is_active', true)
-      .single();
+      .eq('is_active', true);
+    const { data: counter, error: counterError } = await (viaBridge
+      ? counterQuery.eq('device_id', parsed.deviceId)
+      : counterQuery.eq('api_key', apiKey)
+    ).single();
 
     if (counterError || !counter) {
-      return new Response(
-        JSON.stringify({ error: 'Invalid API key or counter inactive' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      return json({ error: 'Invalid API key or counter inactive' }, 401);
     }
 
-    // Parse request body
-    const body = await req.json();
-    const { entry_count, exit_count, count_time } = body;
-
-    if (typeof entry_count !== 'number' || typeof exit_count !== 'number') {
-      return new Response(
-        JSON.stringify({ error: 'entry_count and exit_count must be numbers' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+    if (parsed.deviceId && parsed.deviceId !== counter.device_id) {
+      return json({ error: `Topic is for ${parsed.deviceId}, not this counter` }, 403);
     }
 
-    // Update heartbeat
-    await supabase
-      .from('door_counters')
-      .update({
-        last_heartbeat: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', counter.id);
-
-    // Insert count data
-    const { data: countData, error: insertError } = await supabase
-      .from('physical_counts')
-      .insert({
-        counter_id: counter.id,
-        entry_count: entry_count,
-        exit_count: exit_count,
-        count_time: count_time || new Date().toISOString(),
-      })
-      .select()
-      .single();
+    const result = await ingestReadings(supabase, counter.id, parsed.readings, parsed.format);
 
-    if (insertError) {
-      throw insertError;
+    if (result.resets > 0 || result.rollovers > 0) {
+      console.warn('[door-counter-ingest] Counter adjusted', {
+        device_id: counter.device_id,
+        resets: result.resets,
+        rollovers: result.rollovers,
+      });
     }
 
-    return new Response(
-      JSON.stringify({
-        success: true,
-        count_id: countData.id,
-        message: 'Count data ingested successfully',
-      }),
-      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return json({ success: true, format: parsed.format, ...result }, 200);
   } catch (error: any) {
-    return new Response(
-      JSON.stringify({ error: error.message || 'Internal server error' }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    if (error instanceof DoorCounterIngestError) {
+      return json({ error: error.message }, error.status);
+    }
+    console.error('[door-counter-ingest] Error:', error);
+    return json({ error: error.message || 'Internal server error' }, 500);
   }
 });
-
@@ -0,0 +1,79 @@
+/**
+ * Door Counter Poll
+ *
+ * Cron worker (every minute, see 20260418000000_door_counter_ingest_adapters.sql)
+ * for counters that only answer HTTP requests. Fetches the api_endpoint of
+ * every active counter with poll_enabled and ingests the response with the
+ * same adapters as door-counter-ingest (JSON or CSV, picked from the
+ * response's Content-Type and body).
+ *
+ * Polling the same totals twice is harmless: readings are keyed, and a
+ * cumulative total no newer than the last one is ignored.
+ *
+ * -> { polled, failed, results: [{ device_id, ...IngestResult | error }] }
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { ingestReadings, parseReadings } from '../_shared/door-counter-adapters.ts';
+
+const POLL_TIMEOUT_MS = 10000;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: counters, error: countersError } = await supabase
+      .from('door_counters')
+      .select('id, device_id, api_endpoint')
+      .eq('is_active', true)
+      .eq('poll_enabled', true)
+      .not('api_endpoint', 'is', null);
+
+    if (countersError) {
+      throw countersError;
+    }
+
+    const results = await Promise.all((counters || []).map(async (counter) => {
+      try {
+        const response = await fetch(counter.api_endpoint, {
+          signal: AbortSignal.timeout(POLL_TIMEOUT_MS),
+        });
+        if (!response.ok) {
+          throw new Error(`${counter.api_endpoint} answered ${response.status}`);
+        }
+
+        const parsed = parseReadings(await response.text(), response.headers.get('Content-Type') || '');
+        const result = await ingestReadings(supabase, counter.id, parsed.readings, 'poll');
+        return { device_id: counter.device_id, ...result };
+      } catch (error: any) {
+        console.error(`[door-counter-poll] ${counter.device_id}:`, error);
+        return { device_id: counter.device_id, error: error.message || 'Poll failed' };
+      }
+    }));
+
+    const failed = results.filter((result) => 'error' in result).length;
+    return new Response(
+      JSON.stringify({ polled: results.length - failed, failed, results }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error: any) {
+    console.error('[door-counter-poll] Error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message || 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
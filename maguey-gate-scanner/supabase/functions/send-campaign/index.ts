@@ -0,0 +1,267 @@
+/**
+ * Send Campaign
+ *
+ * POST /send-campaign
+ *   { campaignId } with a staff token        -> sends that draft now
+ *                                               (needs manage_marketing)
+ *   {} with the service role key (cron)      -> sends every scheduled
+ *                                               campaign that is due
+ *   -> { results: [{ campaignId, status, sent, failed, skipped } | { campaignId, error }] }
+ *
+ * Each campaign is claimed first (claim_marketing_campaign), so a cron run
+ * and a staff click can't send it twice. The segment is turned into one
+ * recipient row per person (prepare_marketing_campaign); people without
+ * consent for the channel are recorded as skipped. Emails go through
+ * Resend with an unsubscribe link, texts through send-sms. A number that
+ * has replied STOP is opted out of SMS for good.
+ *
+ * See 20260425000000_marketing_campaigns.sql for the cron schedule.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  DEFAULT_TICKET_SITE_URL,
+  buildCampaignEmail,
+  buildMergeValues,
+  buildSmsBody,
+  buildTicketLink,
+  buildUnsubscribeLink,
+  isSmsOptOutError,
+  renderMergeFields,
+  type Campaign,
+  type CampaignEvent,
+  type CampaignRecipient,
+} from '../_shared/campaigns.ts';
+
+const RESEND_API_KEY = Deno.env.get('RESEND_API_KEY');
+const EMAIL_FROM = Deno.env.get('EMAIL_FROM_ADDRESS') || 'Maguey Nightclub <noreply@magueynightclub.com>';
+const TICKET_SITE_URL = Deno.env.get('TICKET_SITE_URL') || DEFAULT_TICKET_SITE_URL;
+
+/** Recipients loaded per round while sending */
+const RECIPIENT_PAGE_SIZE = 200;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface SendResult {
+  campaignId: string;
+  status?: string;
+  sent?: number;
+  failed?: number;
+  skipped?: number;
+  error?: string;
+}
+
+async function sendEmail(to: string, subject: string, html: string): Promise<string | null> {
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${RESEND_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ from: EMAIL_FROM, to: [to], subject, html }),
+  });
+  return response.ok ? null : await response.text();
+}
+
+async function sendSms(supabase: SupabaseClient, to: string, message: string): Promise<string | null> {
+  const { data, error } = await supabase.functions.invoke('send-sms', {
+    body: { to: [to], message },
+  });
+  if (error) return error.message || 'SMS failed';
+  const result = data?.results?.[0];
+  return result?.success ? null : (result?.error || data?.error || 'SMS failed');
+}
+
+async function sendCampaign(supabase: SupabaseClient, campaignId: string): Promise<SendResult> {
+  const { data: claimed, error: claimError } = await supabase.rpc('claim_marketing_campaign', {
+    p_campaign_id: campaignId,
+  });
+  if (claimError) throw claimError;
+
+  const campaign = (claimed as Campaign[] | null)?.[0];
+  if (!campaign) {
+    return { campaignId, error: 'Campaign is not a draft or due, or is already sending' };
+  }
+
+  const { error: prepareError } = await supabase.rpc('prepare_marketing_campaign', {
+    p_campaign_id: campaign.id,
+  });
+  if (prepareError) throw prepareError;
+
+  let event: CampaignEvent | null = null;
+  if (campaign.event_id) {
+    const { data } = await supabase
+      .from('events')
+      .select('id, name, event_date, event_time')
+      .eq('id', campaign.event_id)
+      .maybeSingle();
+    event = data as CampaignEvent | null;
+  }
+
+  const ticketLink = buildTicketLink(TICKET_SITE_URL, campaign);
+
+  // Every recipient leaves pending (sent or failed), so each round picks up
+  // where the last one stopped
+  while (true) {
+    const { data: recipients, error: recipientsError } = await supabase
+      .from('marketing_campaign_recipients')
+      .select('id, email, name, phone, events_attended, token')
+      .eq('campaign_id', campaign.id)
+      .eq('status', 'pending')
+      .limit(RECIPIENT_PAGE_SIZE);
+    if (recipientsError) throw recipientsError;
+    if (!recipients || recipients.length === 0) break;
+
+    for (const recipient of recipients as CampaignRecipient[]) {
+      const values = buildMergeValues(recipient, event, ticketLink);
+      let error: string | null;
+
+      try {
+        if (campaign.channel === 'email') {
+          const subject = renderMergeFields(campaign.subject || campaign.name, values);
+          const html = buildCampaignEmail(
+            renderMergeFields(campaign.body, values),
+            ticketLink,
+            buildUnsubscribeLink(TICKET_SITE_URL, recipient.token),
+          );
+          error = await sendEmail(recipient.email, subject, html);
+        } else {
+          error = await sendSms(supabase, recipient.phone || '', buildSmsBody(renderMergeFields(campaign.body, values)));
+        }
+      } catch (sendError: any) {
+        error = sendError.message || 'Send failed';
+      }
+
+      await supabase
+        .from('marketing_campaign_recipients')
+        .update(error
+          ? { status: 'failed', error: error.slice(0, 500) }
+          : { status: 'sent', sent_at: new Date().toISOString() })
+        .eq('id', recipient.id);
+
+      if (campaign.channel === 'sms' && isSmsOptOutError(error)) {
+        await supabase
+          .from('marketing_consents')
+          .upsert({
+            email: recipient.email,
+            sms_opt_in: false,
+            sms_unsubscribed_at: new Date().toISOString(),
+            source: 'carrier_stop',
+            updated_by: null,
+          }, { onConflict: 'email' });
+      }
+    }
+  }
+
+  const { data: finished, error: finishError } = await supabase.rpc('finish_marketing_campaign', {
+    p_campaign_id: campaign.id,
+  });
+  if (finishError) throw finishError;
+
+  console.log('[send-campaign] Sent', {
+    campaignId: campaign.id,
+    channel: campaign.channel,
+    status: finished.status,
+    sent: finished.sent_count,
+    failed: finished.failed_count,
+    skipped: finished.skipped_count,
+  });
+
+  return {
+    campaignId: campaign.id,
+    status: finished.status,
+    sent: finished.sent_count,
+    failed: finished.failed_count,
+    skipped: finished.skipped_count,
+  };
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const json = (body: unknown, status: number) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const token = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+    const isCron = Boolean(supabaseServiceKey) && token === supabaseServiceKey;
+
+    if (!isCron) {
+      const { data: { user } } = await supabase.auth.getUser(token);
+      if (!user) {
+        return json({ error: 'Sign in required' }, 401);
+      }
+      const { data: canSend, error: permissionError } = await supabase.rpc('user_has_permission', {
+        p_user_id: user.id,
+        p_permission: 'manage_marketing',
+      });
+      if (permissionError) throw permissionError;
+      if (!canSend) {
+        return json({ error: 'Only staff who manage marketing can send campaigns' }, 403);
+      }
+    }
+
+    const body = await req.json().catch(() => ({})) as { campaignId?: string };
+
+    let campaignIds: string[];
+    if (body.campaignId) {
+      campaignIds = [body.campaignId];
+    } else if (isCron) {
+      const { data: due, error: dueError } = await supabase
+        .from('marketing_campaigns')
+        .select('id')
+        .eq('status', 'scheduled')
+        .lte('scheduled_at', new Date().toISOString())
+        .order('scheduled_at');
+      if (dueError) throw dueError;
+      campaignIds = (due || []).map((campaign: { id: string }) => campaign.id);
+    } else {
+      return json({ error: 'Missing required field: campaignId' }, 400);
+    }
+
+    if (campaignIds.length > 0 && !RESEND_API_KEY) {
+      const { data: channels } = await supabase
+        .from('marketing_campaigns')
+        .select('channel')
+        .in('id', campaignIds)
+        .eq('channel', 'email');
+      if ((channels || []).length > 0) {
+        return json({ error: 'Email service not configured' }, 500);
+      }
+    }
+
+    const results: SendResult[] = [];
+    for (const campaignId of campaignIds) {
+      try {
+        results.push(await sendCampaign(supabase, campaignId));
+      } catch (error: any) {
+        console.error(`[send-campaign] ${campaignId}:`, error);
+        // Leave it counted rather than stuck in sending
+        await supabase.rpc('finish_marketing_campaign', { p_campaign_id: campaignId });
+        results.push({ campaignId, error: error.message || 'Send failed' });
+      }
+    }
+
+    if (body.campaignId && results[0]?.error) {
+      return json({ results, error: results[0].error }, 409);
+    }
+    return json({ results }, 200);
+  } catch (error: any) {
+    console.error('[send-campaign] Error:', error);
+    return json({ error: error.message || 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,288 @@
+-- Migration: door counter ingest adapters
+-- door-counter-ingest only took one JSON reading per request and inserted it
+-- as-is, so replayed readings were double counted and counters that report
+-- running totals could not be used. Readings from every adapter (batched
+-- JSON, CSV upload, MQTT bridge, HTTP polling; see
+-- supabase/functions/_shared/door-counter-adapters.ts) now go through one
+-- function:
+--   • door_counters: whether the device reports counts since its last
+--     reading ('delta') or running totals ('cumulative'), where its totals
+--     roll over, the last totals seen, and whether door-counter-poll fetches
+--     its api_endpoint
+--   • physical_counts: a reading key per counter so replays are ignored,
+--     the raw totals of cumulative readings and whether a reset or rollover
+--     was detected
+--   • ingest_door_counter_readings: applies a batch in time order and
+--     returns what was accepted, duplicated, stale, reset or rolled over
+--   • calibrate_door_counter (owners only): the next cumulative reading
+--     becomes the new baseline
+--
+-- physical_counts still holds entries and exits since the previous reading,
+-- so get_unified_capacity and detect_count_discrepancy are unchanged.
+
+BEGIN;
+
+-- ============================================
+-- 1. COUNTER MODE AND STATE
+-- ============================================
+
+ALTER TABLE public.door_counters
+  ADD COLUMN IF NOT EXISTS count_mode TEXT NOT NULL DEFAULT 'delta'
+    CHECK (count_mode IN ('delta', 'cumulative')),
+  ADD COLUMN IF NOT EXISTS rollover_at INTEGER CHECK (rollover_at > 0),
+  ADD COLUMN IF NOT EXISTS last_entry_total INTEGER,
+  ADD COLUMN IF NOT EXISTS last_exit_total INTEGER,
+  ADD COLUMN IF NOT EXISTS last_reading_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS reset_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_reset_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS poll_enabled BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.door_counters.count_mode IS
+  'delta: each reading is entries/exits since the previous one; cumulative: running totals since the device was reset';
+COMMENT ON COLUMN public.door_counters.rollover_at IS
+  'Highest total a cumulative counter reports before wrapping to 0 (e.g. 65535); NULL if it never wraps';
+
+-- ============================================
+-- 2. READING KEYS AND ADJUSTMENTS
+-- ============================================
+
+ALTER TABLE public.physical_counts
+  ADD COLUMN IF NOT EXISTS reading_key TEXT,
+  ADD COLUMN IF NOT EXISTS raw_entry_total INTEGER,
+  ADD COLUMN IF NOT EXISTS raw_exit_total INTEGER,
+  ADD COLUMN IF NOT EXISTS adjustment TEXT CHECK (adjustment IN ('baseline', 'reset', 'rollover')),
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'json'
+    CHECK (source IN ('json', 'csv', 'mqtt', 'poll', 'calibration'));
+
+COMMENT ON COLUMN public.physical_counts.reading_key IS
+  'Device sequence number or reading time; a reading already stored under the same key is a replay';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_physical_counts_reading_key
+  ON public.physical_counts(counter_id, reading_key);
+
+-- ============================================
+-- 3. INGEST
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.ingest_door_counter_readings(
+  p_counter_id UUID,
+  p_readings JSONB,
+  p_source TEXT DEFAULT 'json'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_counter public.door_counters%ROWTYPE;
+  v_reading RECORD;
+  v_entries INTEGER;
+  v_exits INTEGER;
+  v_adjustment TEXT;
+  v_entry_rolled BOOLEAN;
+  v_exit_rolled BOOLEAN;
+  v_accepted INTEGER := 0;
+  v_duplicates INTEGER := 0;
+  v_stale INTEGER := 0;
+  v_resets INTEGER := 0;
+  v_rollovers INTEGER := 0;
+  v_total_entries INTEGER := 0;
+  v_total_exits INTEGER := 0;
+BEGIN
+  SELECT * INTO v_counter
+  FROM public.door_counters
+  WHERE id = p_counter_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Door counter % not found', p_counter_id;
+  END IF;
+
+  FOR v_reading IN
+    SELECT r.reading_key, r.count_time, r.entry_count, r.exit_count
+    FROM jsonb_to_recordset(p_readings)
+      AS r(reading_key TEXT, count_time TIMESTAMPTZ, entry_count INTEGER, exit_count INTEGER)
+    ORDER BY r.count_time, r.reading_key
+  LOOP
+    IF v_reading.reading_key IS NULL OR v_reading.count_time IS NULL
+       OR v_reading.entry_count IS NULL OR v_reading.exit_count IS NULL
+       OR v_reading.entry_count < 0 OR v_reading.exit_count < 0 THEN
+      RAISE EXCEPTION 'Invalid door counter reading: %', row_to_json(v_reading);
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.physical_counts
+      WHERE counter_id = p_counter_id AND reading_key = v_reading.reading_key
+    ) THEN
+      v_duplicates := v_duplicates + 1;
+      CONTINUE;
+    END IF;
+
+    v_adjustment := NULL;
+
+    IF v_counter.count_mode = 'delta' THEN
+      -- Deltas add up in any order, so late readings are simply stored
+      v_entries := v_reading.entry_count;
+      v_exits := v_reading.exit_count;
+    ELSE
+      -- A later total already includes everything an older one counted
+      IF v_counter.last_reading_at IS NOT NULL AND v_reading.count_time <= v_counter.last_reading_at THEN
+        v_stale := v_stale + 1;
+        CONTINUE;
+      END IF;
+
+      IF v_counter.last_entry_total IS NULL THEN
+        -- First reading (or first after calibration): totals before it are not tonight's
+        v_entries := 0;
+        v_exits := 0;
+        v_adjustment := 'baseline';
+      ELSE
+        -- A total only goes down when it wraps past rollover_at or the device was reset.
+        -- A wrap leaves the previous total in the top tenth of the range.
+        v_entry_rolled := v_reading.entry_count < v_counter.last_entry_total
+          AND v_counter.rollover_at IS NOT NULL
+          AND v_counter.last_entry_total >= v_counter.rollover_at * 0.9;
+        v_exit_rolled := v_reading.exit_count < v_counter.last_exit_total
+          AND v_counter.rollover_at IS NOT NULL
+          AND v_counter.last_exit_total >= v_counter.rollover_at * 0.9;
+
+        IF (v_reading.entry_count < v_counter.last_entry_total AND NOT v_entry_rolled)
+           OR (v_reading.exit_count < v_counter.last_exit_total AND NOT v_exit_rolled) THEN
+          -- Power cycle or reset on the device: it counted from zero since
+          v_entries := v_reading.entry_count;
+          v_exits := v_reading.exit_count;
+          v_adjustment := 'reset';
+          v_resets := v_resets + 1;
+          v_counter.reset_count := v_counter.reset_count + 1;
+          v_counter.last_reset_at := v_reading.count_time;
+        ELSE
+          v_entries := CASE WHEN v_entry_rolled
+            THEN v_counter.rollover_at - v_counter.last_entry_total + 1 + v_reading.entry_count
+            ELSE v_reading.entry_count - v_counter.last_entry_total END;
+          v_exits := CASE WHEN v_exit_rolled
+            THEN v_counter.rollover_at - v_counter.last_exit_total + 1 + v_reading.exit_count
+            ELSE v_reading.exit_count - v_counter.last_exit_total END;
+          IF v_entry_rolled OR v_exit_rolled THEN
+            v_adjustment := 'rollover';
+            v_rollovers := v_rollovers + 1;
+          END IF;
+        END IF;
+      END IF;
+
+      v_counter.last_entry_total := v_reading.entry_count;
+      v_counter.last_exit_total := v_reading.exit_count;
+    END IF;
+
+    INSERT INTO public.physical_counts (
+      counter_id, count_time, entry_count, exit_count,
+      reading_key, raw_entry_total, raw_exit_total, adjustment, source
+    ) VALUES (
+      p_counter_id, v_reading.count_time, v_entries, v_exits,
+      v_reading.reading_key,
+      CASE WHEN v_counter.count_mode = 'cumulative' THEN v_reading.entry_count END,
+      CASE WHEN v_counter.count_mode = 'cumulative' THEN v_reading.exit_count END,
+      v_adjustment, p_source
+    );
+
+    v_counter.last_reading_at := GREATEST(v_counter.last_reading_at, v_reading.count_time);
+    v_accepted := v_accepted + 1;
+    v_total_entries := v_total_entries + v_entries;
+    v_total_exits := v_total_exits + v_exits;
+  END LOOP;
+
+  UPDATE public.door_counters
+  SET last_entry_total = v_counter.last_entry_total,
+      last_exit_total = v_counter.last_exit_total,
+      last_reading_at = v_counter.last_reading_at,
+      reset_count = v_counter.reset_count,
+      last_reset_at = v_counter.last_reset_at,
+      last_heartbeat = now(),
+      updated_at = now()
+  WHERE id = p_counter_id;
+
+  RETURN jsonb_build_object(
+    'accepted', v_accepted,
+    'duplicates', v_duplicates,
+    'stale', v_stale,
+    'resets', v_resets,
+    'rollovers', v_rollovers,
+    'entries', v_total_entries,
+    'exits', v_total_exits
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.ingest_door_counter_readings IS
+  'Stores a batch of door counter readings idempotently, turning cumulative totals into entries/exits since the previous reading';
+
+-- ============================================
+-- 4. CALIBRATION
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.calibrate_door_counter(p_counter_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() <> 'service_role'
+     AND COALESCE(auth.jwt() -> 'app_metadata' ->> 'role', '') <> 'owner' THEN
+    RAISE EXCEPTION 'Only owners can calibrate door counters' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.physical_counts (counter_id, count_time, entry_count, exit_count, source)
+  VALUES (p_counter_id, now(), 0, 0, 'calibration');
+
+  UPDATE public.door_counters
+  SET last_entry_total = NULL,
+      last_exit_total = NULL,
+      last_heartbeat = now(),
+      updated_at = now()
+  WHERE id = p_counter_id;
+END;
+$$;
+
+COMMENT ON FUNCTION public.calibrate_door_counter IS
+  'Records a calibration and makes the next cumulative reading the new baseline';
+
+-- ============================================
+-- 5. GRANTS
+-- ============================================
+
+REVOKE ALL ON FUNCTION public.ingest_door_counter_readings(UUID, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.calibrate_door_counter(UUID) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.ingest_door_counter_readings(UUID, JSONB, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.calibrate_door_counter(UUID) TO authenticated, service_role;
+
+COMMIT;
+
+-- =========================================================
+-- pg_cron setup — run manually in Supabase Dashboard > SQL Editor
+-- =========================================================
+--
+-- Requires: pg_cron and pg_net extensions enabled
+-- Schedule: Every minute (* * * * *)
+-- This calls door-counter-poll, which fetches the api_endpoint of every
+-- active counter with poll_enabled.
+--
+-- SELECT cron.schedule(
+--   'door-counter-poll',
+--   '* * * * *',
+--   $$
+--   SELECT net.http_post(
+--     url     := current_setting('app.supabase_url') || '/functions/v1/door-counter-poll',
+--     headers := jsonb_build_object(
+--       'Content-Type',  'application/json',
+--       'Authorization', 'Bearer ' || current_setting('app.service_role_key')
+--     ),
+--     body    := '{}'::jsonb
+--   );
+--   $$
+-- );
+--
+-- Verify: SELECT jobid, schedule, command, active FROM cron.job;
+-- Remove: SELECT cron.unschedule('door-counter-poll');
+-- =========================================================
@@ -0,0 +1,219 @@
+-- Migration: trained wait-time models
+-- predict_wait_time scales the current queue by fixed time-of-day and
+-- day-of-week factors. Owners can now train a model on past nights from
+-- Queue Management (see src/lib/wait-time-model.ts), check its backtest
+-- against the nights it was not trained on, and switch versions:
+--   • wait_time_models: every trained version with its coefficients,
+--     training summary and backtest; at most one is active
+--   • wait_time_predictions.model_version: which version made a prediction
+--     (NULL for predict_wait_time)
+--   • activate_wait_time_model / rollback_wait_time_model: switch the active
+--     version; rolling back past the first version goes back to
+--     predict_wait_time
+--   • get_ticket_queue_status: lets the public queue status page check a
+--     ticket without reading the tickets table
+
+BEGIN;
+
+-- ============================================
+-- 1. MODEL VERSIONS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.wait_time_models (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  version INTEGER GENERATED BY DEFAULT AS IDENTITY UNIQUE,
+  params JSONB NOT NULL,
+  training_summary JSONB NOT NULL DEFAULT '{}'::jsonb,
+  backtest JSONB,
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  previous_model_id UUID REFERENCES public.wait_time_models(id) ON DELETE SET NULL,
+  trained_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  trained_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  activated_at TIMESTAMPTZ
+);
+
+COMMENT ON COLUMN public.wait_time_models.params IS
+  'Regression coefficients per venue / entry point / event type segment (WaitTimeModelParams)';
+COMMENT ON COLUMN public.wait_time_models.backtest IS
+  'Per-night MAE of the model and of the queue ÷ scan rate baseline on nights it was not trained on';
+COMMENT ON COLUMN public.wait_time_models.previous_model_id IS
+  'The version that was active when this one was activated; rollback_wait_time_model returns to it';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_wait_time_models_active
+  ON public.wait_time_models(is_active) WHERE is_active;
+
+ALTER TABLE public.wait_time_predictions
+  ADD COLUMN IF NOT EXISTS model_version INTEGER;
+
+-- ============================================
+-- 2. RLS
+-- ============================================
+
+ALTER TABLE public.wait_time_models ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view wait time models"
+  ON public.wait_time_models FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- New versions are always inactive; switching goes through the functions below
+CREATE POLICY "Owners can save wait time models"
+  ON public.wait_time_models FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    NOT is_active
+    AND (
+      (current_setting('request.jwt.claims', true)::json->'app_metadata'->>'role' IN ('owner', 'admin'))
+      OR
+      (current_setting('request.jwt.claims', true)::json->'user_metadata'->>'role' IN ('owner', 'admin'))
+    )
+  );
+
+-- ============================================
+-- 3. ACTIVATION AND ROLLBACK
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.is_wait_time_model_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT auth.role() = 'service_role'
+    OR (current_setting('request.jwt.claims', true)::json->'app_metadata'->>'role' IN ('owner', 'admin'))
+    OR (current_setting('request.jwt.claims', true)::json->'user_metadata'->>'role' IN ('owner', 'admin'));
+$$;
+
+CREATE OR REPLACE FUNCTION public.activate_wait_time_model(p_model_id UUID)
+RETURNS public.wait_time_models
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current_id UUID;
+  v_model public.wait_time_models%ROWTYPE;
+BEGIN
+  IF NOT public.is_wait_time_model_admin() THEN
+    RAISE EXCEPTION 'Only owners can change the wait time model';
+  END IF;
+
+  SELECT id INTO v_current_id
+  FROM public.wait_time_models
+  WHERE is_active
+  FOR UPDATE;
+
+  IF v_current_id = p_model_id THEN
+    SELECT * INTO v_model FROM public.wait_time_models WHERE id = p_model_id;
+    RETURN v_model;
+  END IF;
+
+  UPDATE public.wait_time_models SET is_active = false WHERE id = v_current_id;
+
+  UPDATE public.wait_time_models
+  SET is_active = true,
+      activated_at = now(),
+      previous_model_id = v_current_id
+  WHERE id = p_model_id
+  RETURNING * INTO v_model;
+
+  IF v_model.id IS NULL THEN
+    RAISE EXCEPTION 'Wait time model % not found', p_model_id;
+  END IF;
+
+  RETURN v_model;
+END;
+$$;
+
+COMMENT ON FUNCTION public.activate_wait_time_model IS
+  'Makes a trained version the one predictWaitTime uses and remembers the version it replaced';
+
+CREATE OR REPLACE FUNCTION public.rollback_wait_time_model()
+RETURNS public.wait_time_models
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current public.wait_time_models%ROWTYPE;
+  v_model public.wait_time_models%ROWTYPE;
+BEGIN
+  IF NOT public.is_wait_time_model_admin() THEN
+    RAISE EXCEPTION 'Only owners can change the wait time model';
+  END IF;
+
+  SELECT * INTO v_current
+  FROM public.wait_time_models
+  WHERE is_active
+  FOR UPDATE;
+
+  IF v_current.id IS NULL THEN
+    RAISE EXCEPTION 'No wait time model is active';
+  END IF;
+
+  UPDATE public.wait_time_models SET is_active = false WHERE id = v_current.id;
+
+  -- The restored version keeps its own previous_model_id, so rolling back
+  -- again keeps walking back through the history
+  UPDATE public.wait_time_models
+  SET is_active = true,
+      activated_at = now()
+  WHERE id = v_current.previous_model_id
+  RETURNING * INTO v_model;
+
+  -- NULL when there was nothing before: predictions fall back to predict_wait_time
+  RETURN v_model;
+END;
+$$;
+
+COMMENT ON FUNCTION public.rollback_wait_time_model IS
+  'Reactivates the version the active model replaced, or deactivates it if it was the first';
+
+-- ============================================
+-- 4. PUBLIC TICKET LOOKUP
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.get_ticket_queue_status(
+  p_event_id UUID,
+  p_ticket_code TEXT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  SELECT status INTO v_status
+  FROM public.tickets
+  WHERE event_id = p_event_id
+    AND (ticket_id = p_ticket_code OR qr_token = p_ticket_code)
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN 'not_found';
+  END IF;
+
+  RETURN CASE WHEN v_status = 'scanned' THEN 'scanned' ELSE 'waiting' END;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_ticket_queue_status IS
+  'not_found, waiting or scanned for a ticket ID or QR token at an event; used by the public queue status page';
+
+-- ============================================
+-- 5. GRANTS
+-- ============================================
+
+REVOKE ALL ON FUNCTION public.activate_wait_time_model(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.rollback_wait_time_model() FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_ticket_queue_status(UUID, TEXT) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION public.activate_wait_time_model(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.rollback_wait_time_model() TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_ticket_queue_status(UUID, TEXT) TO anon, authenticated, service_role;
+
+COMMIT;
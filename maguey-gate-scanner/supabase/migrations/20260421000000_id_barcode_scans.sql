@@ -0,0 +1,52 @@
+-- Migration: ID barcode scans
+-- Staff can now scan the PDF417 barcode on the back of a US or Canadian
+-- license from the ID Verification dialog. The barcode is parsed on the
+-- device (see src/lib/aamva-license.ts); only the outcome is recorded:
+--   • id_verifications.method: 'manual' (staff checked the card) or
+--     'barcode'
+--   • barcode_hash: SHA-256 of the raw barcode, so a card used for more
+--     than one ticket can be spotted without keeping the barcode
+--   • issuing_state, age_at_scan, id_expired, name_match: what the scan
+--     found. Name and date of birth are never stored.
+
+BEGIN;
+
+-- ============================================
+-- 1. SCAN RESULT COLUMNS
+-- ============================================
+
+ALTER TABLE public.id_verifications
+  ADD COLUMN IF NOT EXISTS method TEXT NOT NULL DEFAULT 'manual'
+    CHECK (method IN ('manual', 'barcode')),
+  ADD COLUMN IF NOT EXISTS barcode_hash TEXT
+    CHECK (barcode_hash IS NULL OR barcode_hash ~ '^[0-9a-f]{64}$'),
+  ADD COLUMN IF NOT EXISTS issuing_state TEXT,
+  ADD COLUMN IF NOT EXISTS age_at_scan INTEGER CHECK (age_at_scan IS NULL OR age_at_scan >= 0),
+  ADD COLUMN IF NOT EXISTS id_expired BOOLEAN,
+  ADD COLUMN IF NOT EXISTS name_match TEXT
+    CHECK (name_match IS NULL OR name_match IN ('match', 'partial', 'mismatch', 'unknown'));
+
+ALTER TABLE public.id_verifications
+  DROP CONSTRAINT IF EXISTS id_verifications_barcode_fields_check;
+ALTER TABLE public.id_verifications
+  ADD CONSTRAINT id_verifications_barcode_fields_check
+  CHECK (method = 'manual' OR (barcode_hash IS NOT NULL AND age_at_scan IS NOT NULL AND id_expired IS NOT NULL));
+
+COMMENT ON COLUMN public.id_verifications.method IS
+  'How the ID was checked: manual (staff looked at the card) or barcode (PDF417 scan)';
+COMMENT ON COLUMN public.id_verifications.barcode_hash IS
+  'SHA-256 of the scanned barcode; the barcode itself is never stored';
+COMMENT ON COLUMN public.id_verifications.age_at_scan IS
+  'Age in whole years on the day of the scan';
+COMMENT ON COLUMN public.id_verifications.name_match IS
+  'Name on the ID compared with the ticket holder: match, partial, mismatch or unknown (no holder name)';
+
+-- ============================================
+-- 2. INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_id_verifications_barcode_hash
+  ON public.id_verifications(barcode_hash)
+  WHERE barcode_hash IS NOT NULL;
+
+COMMIT;
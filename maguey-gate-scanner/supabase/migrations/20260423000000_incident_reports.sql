@@ -0,0 +1,347 @@
+-- Migration: security incident reports
+-- Fights, ejections, medical calls and property damage were only written
+-- up on paper. Door and floor staff now file reports from the crew suite
+-- (Incidents) and owners review them from the owner portal:
+--   • incident_reports: type, severity, location, time, what happened,
+--     police/ambulance details and the review status
+--   • incident_people: guests involved, optionally linked to their ticket
+--     or guest list entry, and to the ban added as a follow-up
+--   • incident_witnesses: staff who saw it, with their statement
+--   • incident_photos: photos in the private incident-photos bucket
+--   • incident_actions: owner follow-ups (ban the guest, police or
+--     insurance follow-up, repairs) and whether they are done
+--   • get_event_incident_counts: per event totals for the owner dashboard
+--
+-- Staff see the reports they filed; owners and promoters see all of them.
+-- Only owners review, so only owners update a report once it is filed.
+
+BEGIN;
+
+-- ============================================
+-- 1. INCIDENT REPORTS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.incident_reports (
+  id                   UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id             UUID        REFERENCES public.events(id) ON DELETE SET NULL,
+  incident_type        TEXT        NOT NULL CHECK (incident_type IN (
+                         'fight', 'ejection', 'medical', 'property_damage',
+                         'theft', 'harassment', 'intoxication', 'other'
+                       )),
+  severity             TEXT        NOT NULL CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+  location             TEXT        NOT NULL CHECK (btrim(location) <> ''),
+  occurred_at          TIMESTAMPTZ NOT NULL,
+  description          TEXT        NOT NULL CHECK (btrim(description) <> ''),
+  police_called        BOOLEAN     NOT NULL DEFAULT false,
+  police_report_number TEXT,
+  ambulance_called     BOOLEAN     NOT NULL DEFAULT false,
+  status               TEXT        NOT NULL DEFAULT 'submitted' CHECK (status IN (
+                         'submitted', 'under_review', 'action_required', 'resolved', 'closed'
+                       )),
+  reported_by          UUID        NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE RESTRICT,
+  reviewed_by          UUID        REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at          TIMESTAMPTZ,
+  review_notes         TEXT,
+  created_at           TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at           TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.incident_reports.status IS
+  'submitted (new), under_review, action_required (follow-ups open), resolved, closed';
+COMMENT ON COLUMN public.incident_reports.police_report_number IS
+  'Case or report number given by the police, for insurance claims';
+
+CREATE INDEX IF NOT EXISTS idx_incident_reports_event
+  ON public.incident_reports (event_id, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_incident_reports_status
+  ON public.incident_reports (status) WHERE status NOT IN ('resolved', 'closed');
+CREATE INDEX IF NOT EXISTS idx_incident_reports_reported_by
+  ON public.incident_reports (reported_by, created_at DESC);
+
+CREATE OR REPLACE FUNCTION public.touch_incident_report()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_touch_incident_report ON public.incident_reports;
+CREATE TRIGGER trg_touch_incident_report
+  BEFORE UPDATE ON public.incident_reports
+  FOR EACH ROW EXECUTE FUNCTION public.touch_incident_report();
+
+-- ============================================
+-- 2. PEOPLE, WITNESSES, PHOTOS AND FOLLOW-UPS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.incident_people (
+  id                  UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  incident_id         UUID        NOT NULL REFERENCES public.incident_reports(id) ON DELETE CASCADE,
+  role                TEXT        NOT NULL CHECK (role IN ('aggressor', 'victim', 'ejected', 'patient', 'witness', 'other')),
+  name                TEXT,
+  description         TEXT,
+  ticket_id           UUID,
+  guest_list_entry_id UUID,
+  banned_guest_id     UUID        REFERENCES public.banned_guests(id) ON DELETE SET NULL,
+  created_at          TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (name IS NOT NULL OR description IS NOT NULL OR ticket_id IS NOT NULL OR guest_list_entry_id IS NOT NULL)
+);
+
+COMMENT ON COLUMN public.incident_people.description IS
+  'What they looked like or did, when the name is not known';
+
+CREATE INDEX IF NOT EXISTS idx_incident_people_incident
+  ON public.incident_people (incident_id);
+CREATE INDEX IF NOT EXISTS idx_incident_people_ticket
+  ON public.incident_people (ticket_id) WHERE ticket_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.incident_witnesses (
+  incident_id    UUID        NOT NULL REFERENCES public.incident_reports(id) ON DELETE CASCADE,
+  staff_user_id  UUID        NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  statement      TEXT,
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (incident_id, staff_user_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.incident_photos (
+  id            UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  incident_id   UUID        NOT NULL REFERENCES public.incident_reports(id) ON DELETE CASCADE,
+  storage_path  TEXT        NOT NULL,
+  caption       TEXT,
+  uploaded_by   UUID        NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE RESTRICT,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_incident_photos_incident
+  ON public.incident_photos (incident_id);
+
+CREATE TABLE IF NOT EXISTS public.incident_actions (
+  id               UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  incident_id      UUID        NOT NULL REFERENCES public.incident_reports(id) ON DELETE CASCADE,
+  action_type      TEXT        NOT NULL CHECK (action_type IN (
+                     'ban_guest', 'police_follow_up', 'insurance_claim', 'staff_follow_up', 'repair', 'other'
+                   )),
+  description      TEXT        NOT NULL CHECK (btrim(description) <> ''),
+  status           TEXT        NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'done')),
+  banned_guest_id  UUID        REFERENCES public.banned_guests(id) ON DELETE SET NULL,
+  created_by       UUID        REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_by     UUID        REFERENCES auth.users(id) ON DELETE SET NULL,
+  completed_at     TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_incident_actions_incident
+  ON public.incident_actions (incident_id);
+
+-- ============================================
+-- 3. RLS
+-- ============================================
+-- Child rows follow their report: whoever can see the report sees its
+-- people, witnesses and photos. The reporter adds them while filing.
+
+ALTER TABLE public.incident_reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.incident_people ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.incident_witnesses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.incident_photos ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.incident_actions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view their incident reports" ON public.incident_reports;
+CREATE POLICY "Staff can view their incident reports"
+  ON public.incident_reports
+  FOR SELECT
+  TO authenticated
+  USING (
+    reported_by = auth.uid()
+    OR auth.jwt() -> 'app_metadata' ->> 'role' IN ('owner', 'promoter')
+  );
+
+DROP POLICY IF EXISTS "Staff can file incident reports" ON public.incident_reports;
+CREATE POLICY "Staff can file incident reports"
+  ON public.incident_reports
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    reported_by = auth.uid()
+    AND status = 'submitted'
+    AND auth.jwt() -> 'app_metadata' ->> 'role' IN ('owner', 'promoter', 'employee')
+  );
+
+DROP POLICY IF EXISTS "Owners can review incident reports" ON public.incident_reports;
+CREATE POLICY "Owners can review incident reports"
+  ON public.incident_reports
+  FOR UPDATE
+  TO authenticated
+  USING (auth.jwt() -> 'app_metadata' ->> 'role' = 'owner')
+  WITH CHECK (auth.jwt() -> 'app_metadata' ->> 'role' = 'owner');
+
+DROP POLICY IF EXISTS "Staff can view incident people" ON public.incident_people;
+CREATE POLICY "Staff can view incident people"
+  ON public.incident_people
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.incident_reports r WHERE r.id = incident_id));
+
+DROP POLICY IF EXISTS "Reporters can add incident people" ON public.incident_people;
+CREATE POLICY "Reporters can add incident people"
+  ON public.incident_people
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.incident_reports r
+    WHERE r.id = incident_id AND r.reported_by = auth.uid()
+  ));
+
+DROP POLICY IF EXISTS "Owners can update incident people" ON public.incident_people;
+CREATE POLICY "Owners can update incident people"
+  ON public.incident_people
+  FOR UPDATE
+  TO authenticated
+  USING (auth.jwt() -> 'app_metadata' ->> 'role' = 'owner')
+  WITH CHECK (auth.jwt() -> 'app_metadata' ->> 'role' = 'owner');
+
+DROP POLICY IF EXISTS "Staff can view incident witnesses" ON public.incident_witnesses;
+CREATE POLICY "Staff can view incident witnesses"
+  ON public.incident_witnesses
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.incident_reports r WHERE r.id = incident_id));
+
+DROP POLICY IF EXISTS "Reporters can add incident witnesses" ON public.incident_witnesses;
+CREATE POLICY "Reporters can add incident witnesses"
+  ON public.incident_witnesses
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.incident_reports r
+    WHERE r.id = incident_id AND r.reported_by = auth.uid()
+  ));
+
+DROP POLICY IF EXISTS "Staff can view incident photos" ON public.incident_photos;
+CREATE POLICY "Staff can view incident photos"
+  ON public.incident_photos
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.incident_reports r WHERE r.id = incident_id));
+
+DROP POLICY IF EXISTS "Reporters can add incident photos" ON public.incident_photos;
+CREATE POLICY "Reporters can add incident photos"
+  ON public.incident_photos
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    uploaded_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.incident_reports r
+      WHERE r.id = incident_id
+        AND (r.reported_by = auth.uid() OR auth.jwt() -> 'app_metadata' ->> 'role' = 'owner')
+    )
+  );
+
+DROP POLICY IF EXISTS "Owners and promoters can view incident actions" ON public.incident_actions;
+CREATE POLICY "Owners and promoters can view incident actions"
+  ON public.incident_actions
+  FOR SELECT
+  TO authenticated
+  USING (auth.jwt() -> 'app_metadata' ->> 'role' IN ('owner', 'promoter'));
+
+DROP POLICY IF EXISTS "Owners can add incident actions" ON public.incident_actions;
+CREATE POLICY "Owners can add incident actions"
+  ON public.incident_actions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.jwt() -> 'app_metadata' ->> 'role' = 'owner');
+
+DROP POLICY IF EXISTS "Owners can update incident actions" ON public.incident_actions;
+CREATE POLICY "Owners can update incident actions"
+  ON public.incident_actions
+  FOR UPDATE
+  TO authenticated
+  USING (auth.jwt() -> 'app_metadata' ->> 'role' = 'owner')
+  WITH CHECK (auth.jwt() -> 'app_metadata' ->> 'role' = 'owner');
+
+-- ============================================
+-- 4. PHOTO BUCKET
+-- ============================================
+-- Objects are stored as <incident id>/<file>. Injury photos are sensitive:
+-- owners and promoters read all of them, other staff only their own.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'incident-photos',
+  'incident-photos',
+  false,
+  10485760,
+  ARRAY['image/jpeg', 'image/png', 'image/webp']
+)
+ON CONFLICT (id) DO UPDATE SET
+  public = false,
+  file_size_limit = 10485760,
+  allowed_mime_types = ARRAY['image/jpeg', 'image/png', 'image/webp'];
+
+DROP POLICY IF EXISTS "incident_photos_read" ON storage.objects;
+CREATE POLICY "incident_photos_read"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'incident-photos'
+    AND (
+      owner = auth.uid()
+      OR auth.jwt() -> 'app_metadata' ->> 'role' IN ('owner', 'promoter')
+    )
+  );
+
+DROP POLICY IF EXISTS "incident_photos_write" ON storage.objects;
+CREATE POLICY "incident_photos_write"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'incident-photos'
+    AND auth.jwt() -> 'app_metadata' ->> 'role' IN ('owner', 'promoter', 'employee')
+  );
+
+-- ============================================
+-- 5. GET_EVENT_INCIDENT_COUNTS
+-- ============================================
+-- Runs with the caller's rights, so staff only count their own reports.
+
+CREATE OR REPLACE FUNCTION public.get_event_incident_counts(
+  p_since TIMESTAMPTZ DEFAULT now() - INTERVAL '30 days'
+)
+RETURNS TABLE (
+  event_id UUID,
+  event_name TEXT,
+  event_date DATE,
+  total BIGINT,
+  open_count BIGINT,
+  serious_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    r.event_id,
+    e.name,
+    e.event_date::date,
+    count(*),
+    count(*) FILTER (WHERE r.status NOT IN ('resolved', 'closed')),
+    count(*) FILTER (WHERE r.severity IN ('high', 'critical'))
+  FROM incident_reports r
+  JOIN events e ON e.id = r.event_id
+  WHERE r.occurred_at >= p_since
+  GROUP BY r.event_id, e.name, e.event_date
+  ORDER BY e.event_date DESC;
+$$;
+
+-- ============================================
+-- 6. GRANTS
+-- ============================================
+
+REVOKE ALL ON FUNCTION public.get_event_incident_counts(TIMESTAMPTZ) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION public.get_event_incident_counts(TIMESTAMPTZ) TO authenticated;
+
+COMMIT;
@@ -0,0 +1,346 @@
+-- Migration: permission-based staff roles
+-- Access was decided by three roles (owner, promoter, employee) and every
+-- page and policy checked the role name. Access is now a set of
+-- permissions grouped into roles that owners edit from Team Management:
+--   • staff_roles: named permission sets. The three base roles are rows too
+--     (legacy_role), so owners can change what promoters and employees can
+--     do. The owner row is fixed and always has every permission.
+--   • staff_role_assignments: extra roles given to a user (door manager,
+--     VIP host, bar lead...), everywhere, at one venue or for one event
+--   • events.venue_id: the venue an event belongs to, for venue scoping
+--   • user_has_permission / has_permission: the single check used by RLS,
+--     the edge functions and the app
+--   • events, tickets, scan_logs and emergency_override_logs writes now
+--     need manage_events, scan and override instead of any signed-in user
+--
+-- The base role is read from app_metadata only; user_metadata can be
+-- changed by the user.
+-- Only owners can grant manage_team, and nobody but an owner can give
+-- themselves a role, so a team manager can't raise their own access.
+
+BEGIN;
+
+-- ============================================
+-- 1. VENUE ON EVENTS
+-- ============================================
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS venue_id UUID
+    REFERENCES public.venues(id) ON DELETE SET NULL
+    DEFAULT '00000000-0000-0000-0000-000000000001';
+
+UPDATE public.events
+SET venue_id = '00000000-0000-0000-0000-000000000001'
+WHERE venue_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_events_venue ON public.events (venue_id);
+
+-- ============================================
+-- 2. ROLES AND ASSIGNMENTS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.staff_roles (
+  id           UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  name         TEXT        NOT NULL UNIQUE CHECK (btrim(name) <> ''),
+  description  TEXT,
+  permissions  TEXT[]      NOT NULL DEFAULT '{}' CHECK (permissions <@ ARRAY[
+                 'scan', 'override', 'refund', 'manage_events', 'view_revenue',
+                 'manage_vip', 'manage_team', 'export_data'
+               ]::TEXT[]),
+  legacy_role  TEXT        UNIQUE CHECK (legacy_role IN ('owner', 'promoter', 'employee')),
+  created_by   UUID        REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at   TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE OR REPLACE FUNCTION public.touch_staff_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_touch_staff_role ON public.staff_roles;
+CREATE TRIGGER trg_touch_staff_role
+  BEFORE UPDATE ON public.staff_roles
+  FOR EACH ROW EXECUTE FUNCTION public.touch_staff_role();
+
+-- Base roles keep today's access; the presets are starting points
+INSERT INTO public.staff_roles (name, description, permissions, legacy_role, created_by) VALUES
+  ('Owner', 'Full access to every venue',
+    ARRAY['scan', 'override', 'refund', 'manage_events', 'view_revenue', 'manage_vip', 'manage_team', 'export_data'],
+    'owner', NULL),
+  ('Promoter', 'Base role for promoters',
+    ARRAY['manage_events', 'view_revenue', 'manage_vip', 'export_data'], 'promoter', NULL),
+  ('Employee', 'Base role for door and floor staff',
+    ARRAY['scan', 'override'], 'employee', NULL),
+  ('Door manager', 'Runs the door: scans, overrides and exports the night''s scans',
+    ARRAY['scan', 'override', 'export_data'], NULL, NULL),
+  ('VIP host', 'Looks after tables and bottle service',
+    ARRAY['scan', 'manage_vip'], NULL, NULL),
+  ('Bar lead', 'Runs the bar and sees the night''s takings',
+    ARRAY['manage_vip', 'view_revenue'], NULL, NULL)
+ON CONFLICT (name) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.staff_role_assignments (
+  id           UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id      UUID        NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role_id      UUID        NOT NULL REFERENCES public.staff_roles(id) ON DELETE CASCADE,
+  venue_id     UUID        REFERENCES public.venues(id) ON DELETE CASCADE,
+  event_id     UUID        REFERENCES public.events(id) ON DELETE CASCADE,
+  assigned_by  UUID        REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- No venue or event means everywhere
+  CHECK (venue_id IS NULL OR event_id IS NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_staff_role_assignments_unique
+  ON public.staff_role_assignments (
+    user_id,
+    role_id,
+    COALESCE(venue_id, '00000000-0000-0000-0000-000000000000'),
+    COALESCE(event_id, '00000000-0000-0000-0000-000000000000')
+  );
+
+CREATE INDEX IF NOT EXISTS idx_staff_role_assignments_role
+  ON public.staff_role_assignments (role_id);
+
+-- Older accounts may still carry the scanner or admin roles the early RLS
+-- policies accepted. Scanners become employees; admins become promoters
+-- with Door manager everywhere, so both keep the access they had.
+INSERT INTO public.staff_role_assignments (user_id, role_id, assigned_by)
+SELECT u.id, r.id, NULL
+FROM auth.users u
+CROSS JOIN public.staff_roles r
+WHERE u.raw_app_meta_data ->> 'role' = 'admin'
+  AND r.name = 'Door manager'
+ON CONFLICT DO NOTHING;
+
+UPDATE auth.users
+SET raw_app_meta_data = raw_app_meta_data || jsonb_build_object(
+  'role',
+  CASE raw_app_meta_data ->> 'role' WHEN 'scanner' THEN 'employee' ELSE 'promoter' END
+)
+WHERE raw_app_meta_data ->> 'role' IN ('scanner', 'admin');
+
+-- ============================================
+-- 3. PERMISSION CHECK
+-- ============================================
+
+-- Owners have every permission. Everyone else gets their base role's
+-- permissions everywhere, plus assigned roles within their scope.
+-- No base role, or one we don't know, adds nothing, so customers and
+-- other signed-in users only have what they are assigned.
+-- With an event, venue-scoped roles match through the event's venue.
+CREATE OR REPLACE FUNCTION public.user_has_permission(
+  p_user_id UUID,
+  p_permission TEXT,
+  p_event_id UUID DEFAULT NULL,
+  p_venue_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH base AS (
+    SELECT raw_app_meta_data ->> 'role' AS legacy_role
+    FROM auth.users
+    WHERE id = p_user_id
+  ),
+  scope AS (
+    SELECT COALESCE(p_venue_id, (SELECT venue_id FROM public.events WHERE id = p_event_id)) AS venue_id
+  )
+  SELECT EXISTS (SELECT 1 FROM base WHERE legacy_role = 'owner')
+    OR EXISTS (
+      SELECT 1
+      FROM public.staff_roles r
+      JOIN base ON base.legacy_role = r.legacy_role
+      WHERE p_permission = ANY (r.permissions)
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM public.staff_role_assignments a
+      JOIN public.staff_roles r ON r.id = a.role_id
+      CROSS JOIN scope
+      WHERE a.user_id = p_user_id
+        AND p_permission = ANY (r.permissions)
+        AND (
+          (a.venue_id IS NULL AND a.event_id IS NULL)
+          OR a.event_id = p_event_id
+          OR a.venue_id = scope.venue_id
+        )
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_permission(
+  p_permission TEXT,
+  p_event_id UUID DEFAULT NULL,
+  p_venue_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT auth.role() = 'service_role'
+    OR (auth.uid() IS NOT NULL AND public.user_has_permission(auth.uid(), p_permission, p_event_id, p_venue_id));
+$$;
+
+-- ============================================
+-- 4. RLS FOR ROLES
+-- ============================================
+
+ALTER TABLE public.staff_roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.staff_role_assignments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can read roles" ON public.staff_roles;
+CREATE POLICY "Staff can read roles"
+  ON public.staff_roles FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Team managers can create roles" ON public.staff_roles;
+CREATE POLICY "Team managers can create roles"
+  ON public.staff_roles FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.has_permission('manage_team')
+    AND legacy_role IS NULL
+    AND (NOT 'manage_team' = ANY (permissions) OR (auth.jwt() -> 'app_metadata' ->> 'role') = 'owner')
+  );
+
+DROP POLICY IF EXISTS "Team managers can edit roles" ON public.staff_roles;
+CREATE POLICY "Team managers can edit roles"
+  ON public.staff_roles FOR UPDATE
+  TO authenticated
+  USING (
+    public.has_permission('manage_team')
+    AND legacy_role IS DISTINCT FROM 'owner'
+    AND (NOT 'manage_team' = ANY (permissions) OR (auth.jwt() -> 'app_metadata' ->> 'role') = 'owner')
+  )
+  WITH CHECK (
+    legacy_role IS DISTINCT FROM 'owner'
+    AND (NOT 'manage_team' = ANY (permissions) OR (auth.jwt() -> 'app_metadata' ->> 'role') = 'owner')
+  );
+
+DROP POLICY IF EXISTS "Team managers can delete roles" ON public.staff_roles;
+CREATE POLICY "Team managers can delete roles"
+  ON public.staff_roles FOR DELETE
+  TO authenticated
+  USING (
+    public.has_permission('manage_team')
+    AND legacy_role IS NULL
+    AND (NOT 'manage_team' = ANY (permissions) OR (auth.jwt() -> 'app_metadata' ->> 'role') = 'owner')
+  );
+
+DROP POLICY IF EXISTS "Staff can read their assignments" ON public.staff_role_assignments;
+CREATE POLICY "Staff can read their assignments"
+  ON public.staff_role_assignments FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR public.has_permission('manage_team'));
+
+DROP POLICY IF EXISTS "Team managers can assign roles" ON public.staff_role_assignments;
+CREATE POLICY "Team managers can assign roles"
+  ON public.staff_role_assignments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.has_permission('manage_team')
+    AND (user_id <> auth.uid() OR (auth.jwt() -> 'app_metadata' ->> 'role') = 'owner')
+    AND EXISTS (
+      SELECT 1 FROM public.staff_roles r
+      WHERE r.id = role_id
+        AND r.legacy_role IS NULL
+        AND (NOT 'manage_team' = ANY (r.permissions) OR (auth.jwt() -> 'app_metadata' ->> 'role') = 'owner')
+    )
+  );
+
+DROP POLICY IF EXISTS "Team managers can remove roles" ON public.staff_role_assignments;
+CREATE POLICY "Team managers can remove roles"
+  ON public.staff_role_assignments FOR DELETE
+  TO authenticated
+  USING (
+    public.has_permission('manage_team')
+    AND EXISTS (
+      SELECT 1 FROM public.staff_roles r
+      WHERE r.id = role_id
+        AND (NOT 'manage_team' = ANY (r.permissions) OR (auth.jwt() -> 'app_metadata' ->> 'role') = 'owner')
+    )
+  );
+
+-- ============================================
+-- 5. PERMISSION-BASED WRITES
+-- ============================================
+
+-- Events: any signed-in user could create, edit and delete events
+DROP POLICY IF EXISTS "Authenticated users can insert events" ON public.events;
+DROP POLICY IF EXISTS "Authenticated users can update events" ON public.events;
+DROP POLICY IF EXISTS "Authenticated users can delete events" ON public.events;
+DROP POLICY IF EXISTS "Events can be created by authenticated users" ON public.events;
+DROP POLICY IF EXISTS "Events can be updated by authenticated users" ON public.events;
+
+CREATE POLICY "Event managers can create events"
+  ON public.events FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_permission('manage_events', NULL, venue_id));
+
+CREATE POLICY "Event managers can update events"
+  ON public.events FOR UPDATE
+  TO authenticated
+  USING (public.has_permission('manage_events', id))
+  WITH CHECK (public.has_permission('manage_events', id, venue_id));
+
+CREATE POLICY "Event managers can delete events"
+  ON public.events FOR DELETE
+  TO authenticated
+  USING (public.has_permission('manage_events', id));
+
+-- Tickets: scanning marks them used
+DROP POLICY IF EXISTS "Staff can update tickets" ON public.tickets;
+DROP POLICY IF EXISTS "Staff can update ticket status" ON public.tickets;
+
+CREATE POLICY "Scanning staff can update tickets"
+  ON public.tickets FOR UPDATE
+  TO authenticated
+  USING (public.has_permission('scan', event_id))
+  WITH CHECK (public.has_permission('scan', event_id));
+
+-- Scan logs: an override scan also needs override
+DROP POLICY IF EXISTS "Staff can insert scan logs" ON public.scan_logs;
+
+CREATE POLICY "Scanning staff can log scans"
+  ON public.scan_logs FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.has_permission('scan', (SELECT t.event_id FROM public.tickets t WHERE t.id = ticket_id))
+    AND (
+      NOT COALESCE(override_used, false)
+      OR public.has_permission('override', (SELECT t.event_id FROM public.tickets t WHERE t.id = ticket_id))
+    )
+  );
+
+DROP POLICY IF EXISTS "Override logs can be created by authenticated users" ON public.emergency_override_logs;
+
+CREATE POLICY "Staff with override can log overrides"
+  ON public.emergency_override_logs FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.has_permission('override', (SELECT t.event_id FROM public.tickets t WHERE t.id = ticket_id))
+  );
+
+-- ============================================
+-- 6. GRANTS
+-- ============================================
+
+REVOKE ALL ON FUNCTION public.user_has_permission(UUID, TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.has_permission(TEXT, UUID, UUID) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.user_has_permission(UUID, TEXT, UUID, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.has_permission(TEXT, UUID, UUID) TO authenticated, service_role;
+
+COMMIT;
@@ -0,0 +1,603 @@
+-- Migration: CRM segments and email/SMS campaigns
+-- send-event-announcement emails every newsletter subscriber the same
+-- announcement. Owners can now target who hears about what:
+--   • marketing_consents: per-email marketing consent and unsubscribes.
+--     Email follows the newsletter subscription unless set here; SMS needs
+--     an explicit opt-in. Unsubscribes always win.
+--   • get_segment_audience: customers matching a set of rules, built from
+--     customer_stats plus per-genre event counts and VIP spend
+--   • marketing_segments: saved rules ("3+ reggaeton nights, not in the
+--     last 60 days", "VIP spend over $500")
+--   • marketing_templates: reusable email and SMS copy with merge fields
+--   • marketing_campaigns / marketing_campaign_recipients: a message sent
+--     now or at a set time to a segment, one row per person with their
+--     unsubscribe token and delivery status (see send-campaign)
+--   • orders.campaign_id: set at checkout when the buyer came from a
+--     campaign link (?cmp=), for per-campaign ticket sales
+--
+-- Everything here needs the new manage_marketing permission (owners
+-- always have it; other staff get it through a role).
+
+BEGIN;
+
+-- ============================================
+-- 1. PERMISSION
+-- ============================================
+
+ALTER TABLE public.staff_roles DROP CONSTRAINT IF EXISTS staff_roles_permissions_check;
+ALTER TABLE public.staff_roles ADD CONSTRAINT staff_roles_permissions_check CHECK (permissions <@ ARRAY[
+  'scan', 'override', 'refund', 'manage_events', 'view_revenue',
+  'manage_vip', 'manage_team', 'export_data', 'manage_marketing'
+]::TEXT[]);
+
+UPDATE public.staff_roles
+SET permissions = array_append(permissions, 'manage_marketing')
+WHERE legacy_role = 'owner'
+  AND NOT 'manage_marketing' = ANY (permissions);
+
+-- ============================================
+-- 2. CONSENT
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.marketing_consents (
+  email                  TEXT        PRIMARY KEY CHECK (email = lower(btrim(email)) AND email <> ''),
+  phone                  TEXT,
+  -- NULL follows the newsletter subscription
+  email_opt_in           BOOLEAN,
+  sms_opt_in             BOOLEAN     NOT NULL DEFAULT false,
+  source                 TEXT,
+  email_unsubscribed_at  TIMESTAMPTZ,
+  sms_unsubscribed_at    TIMESTAMPTZ,
+  updated_by             UUID        REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  updated_at             TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- Staff can't opt someone back in after they unsubscribed
+  CHECK (NOT (email_opt_in IS TRUE AND email_unsubscribed_at IS NOT NULL)),
+  CHECK (NOT (sms_opt_in AND sms_unsubscribed_at IS NOT NULL))
+);
+
+CREATE OR REPLACE FUNCTION public.touch_marketing_row()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS marketing_consents_touch ON public.marketing_consents;
+CREATE TRIGGER marketing_consents_touch
+  BEFORE UPDATE ON public.marketing_consents
+  FOR EACH ROW EXECUTE FUNCTION public.touch_marketing_row();
+
+-- ============================================
+-- 3. SEGMENTS AND TEMPLATES
+-- ============================================
+
+-- rules keys (all optional): genre, min_events, min_orders,
+-- min_total_spent, min_vip_spent, visited_within_days, not_visited_days.
+-- min_events counts events of the genre when one is set.
+CREATE TABLE IF NOT EXISTS public.marketing_segments (
+  id           UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  name         TEXT        NOT NULL UNIQUE CHECK (btrim(name) <> ''),
+  description  TEXT,
+  rules        JSONB       NOT NULL DEFAULT '{}'::JSONB CHECK (jsonb_typeof(rules) = 'object'),
+  created_by   UUID        REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at   TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+DROP TRIGGER IF EXISTS marketing_segments_touch ON public.marketing_segments;
+CREATE TRIGGER marketing_segments_touch
+  BEFORE UPDATE ON public.marketing_segments
+  FOR EACH ROW EXECUTE FUNCTION public.touch_marketing_row();
+
+CREATE TABLE IF NOT EXISTS public.marketing_templates (
+  id          UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  name        TEXT        NOT NULL UNIQUE CHECK (btrim(name) <> ''),
+  channel     TEXT        NOT NULL CHECK (channel IN ('email', 'sms')),
+  subject     TEXT,
+  body        TEXT        NOT NULL CHECK (btrim(body) <> ''),
+  created_by  UUID        REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (channel = 'sms' OR btrim(COALESCE(subject, '')) <> '')
+);
+
+DROP TRIGGER IF EXISTS marketing_templates_touch ON public.marketing_templates;
+CREATE TRIGGER marketing_templates_touch
+  BEFORE UPDATE ON public.marketing_templates
+  FOR EACH ROW EXECUTE FUNCTION public.touch_marketing_row();
+
+INSERT INTO public.marketing_templates (name, channel, subject, body, created_by)
+VALUES
+  ('New event', 'email', '{{event_name}} is on sale',
+    E'Hi {{first_name}},\n\n{{event_name}} is coming to Maguey on {{event_date}}. Tickets are on sale now and go fast.\n\n{{ticket_link}}', NULL),
+  ('We miss you', 'email', 'It''s been a while, {{first_name}}',
+    E'Hi {{first_name}},\n\nWe haven''t seen you in a while. {{event_name}} on {{event_date}} is the night to come back.\n\n{{ticket_link}}', NULL),
+  ('VIP invite', 'email', 'A table for you at {{event_name}}',
+    E'Hi {{first_name}},\n\nAs one of our VIP guests, you get first pick of tables for {{event_name}} on {{event_date}}.\n\n{{ticket_link}}', NULL),
+  ('Last call (SMS)', 'sms', NULL,
+    'Maguey: {{event_name}} {{event_date}}. Last tickets: {{ticket_link}}', NULL)
+ON CONFLICT (name) DO NOTHING;
+
+-- ============================================
+-- 4. CAMPAIGNS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.marketing_campaigns (
+  id              UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  name            TEXT        NOT NULL CHECK (btrim(name) <> ''),
+  channel         TEXT        NOT NULL CHECK (channel IN ('email', 'sms')),
+  segment_id      UUID        REFERENCES public.marketing_segments(id) ON DELETE SET NULL,
+  -- Copied from the segment when the campaign is saved, so later edits to
+  -- the segment don't change who a scheduled campaign goes to
+  segment_rules   JSONB       NOT NULL DEFAULT '{}'::JSONB CHECK (jsonb_typeof(segment_rules) = 'object'),
+  event_id        UUID        REFERENCES public.events(id) ON DELETE SET NULL,
+  subject         TEXT,
+  body            TEXT        NOT NULL CHECK (btrim(body) <> ''),
+  status          TEXT        NOT NULL DEFAULT 'draft'
+                    CHECK (status IN ('draft', 'scheduled', 'sending', 'sent', 'cancelled', 'failed')),
+  scheduled_at    TIMESTAMPTZ,
+  started_at      TIMESTAMPTZ,
+  sent_at         TIMESTAMPTZ,
+  recipient_count INTEGER     NOT NULL DEFAULT 0,
+  sent_count      INTEGER     NOT NULL DEFAULT 0,
+  failed_count    INTEGER     NOT NULL DEFAULT 0,
+  skipped_count   INTEGER     NOT NULL DEFAULT 0,
+  created_by      UUID        REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at      TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (channel = 'sms' OR btrim(COALESCE(subject, '')) <> ''),
+  CHECK (status <> 'scheduled' OR scheduled_at IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_marketing_campaigns_due
+  ON public.marketing_campaigns (scheduled_at)
+  WHERE status = 'scheduled';
+
+DROP TRIGGER IF EXISTS marketing_campaigns_touch ON public.marketing_campaigns;
+CREATE TRIGGER marketing_campaigns_touch
+  BEFORE UPDATE ON public.marketing_campaigns
+  FOR EACH ROW EXECUTE FUNCTION public.touch_marketing_row();
+
+CREATE TABLE IF NOT EXISTS public.marketing_campaign_recipients (
+  id               UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id      UUID        NOT NULL REFERENCES public.marketing_campaigns(id) ON DELETE CASCADE,
+  email            TEXT        NOT NULL,
+  name             TEXT,
+  phone            TEXT,
+  -- Merge fields available to the message
+  events_attended  INTEGER     NOT NULL DEFAULT 0,
+  token            TEXT        NOT NULL UNIQUE DEFAULT encode(gen_random_bytes(16), 'hex'),
+  status           TEXT        NOT NULL DEFAULT 'pending'
+                     CHECK (status IN ('pending', 'sent', 'failed', 'skipped')),
+  error            TEXT,
+  sent_at          TIMESTAMPTZ,
+  unsubscribed_at  TIMESTAMPTZ,
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (campaign_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_marketing_campaign_recipients_pending
+  ON public.marketing_campaign_recipients (campaign_id)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_marketing_campaign_recipients_email
+  ON public.marketing_campaign_recipients (email);
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS campaign_id UUID
+    REFERENCES public.marketing_campaigns(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_orders_campaign
+  ON public.orders (campaign_id)
+  WHERE campaign_id IS NOT NULL;
+
+-- ============================================
+-- 5. AUDIENCE
+-- ============================================
+
+-- Everyone we know about (buyers, newsletter subscribers, consent rows)
+-- who matches the rules, with whether they can be emailed or texted.
+CREATE OR REPLACE FUNCTION public.get_segment_audience(p_rules JSONB DEFAULT '{}'::JSONB)
+RETURNS TABLE (
+  email                  TEXT,
+  name                   TEXT,
+  phone                  TEXT,
+  total_orders           INTEGER,
+  total_spent            NUMERIC,
+  vip_spent              NUMERIC,
+  events_attended        INTEGER,
+  last_visit             TIMESTAMPTZ,
+  days_since_last_visit  INTEGER,
+  email_consent          BOOLEAN,
+  sms_consent            BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_genre TEXT := NULLIF(btrim(p_rules ->> 'genre'), '');
+BEGIN
+  IF NOT public.has_permission('manage_marketing') THEN
+    RAISE EXCEPTION 'Only staff who manage marketing can build audiences' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH events_attended AS (
+    SELECT
+      lower(COALESCE(o.purchaser_email, o.customer_email)) AS email,
+      count(DISTINCT o.event_id)::INTEGER AS events
+    FROM orders o
+    JOIN events e ON e.id::TEXT = o.event_id::TEXT
+    WHERE o.status IN ('paid', 'completed')
+      AND COALESCE(o.purchaser_email, o.customer_email) IS NOT NULL
+      AND (v_genre IS NULL OR lower(e.genre) = lower(v_genre))
+    GROUP BY 1
+  ),
+  vip AS (
+    SELECT lower(v.purchaser_email) AS email, round(sum(v.amount_paid_cents) / 100.0, 2) AS spent
+    FROM vip_reservations v
+    WHERE v.status IN ('confirmed', 'checked_in', 'completed')
+    GROUP BY 1
+  ),
+  contacts AS (
+    SELECT cs.email::TEXT AS email FROM customer_stats cs
+    UNION
+    SELECT lower(ns.email) FROM newsletter_subscribers ns
+    UNION
+    SELECT mc.email FROM marketing_consents mc
+  ),
+  audience AS (
+    SELECT
+      c.email,
+      cs.name::TEXT AS name,
+      COALESCE(mc.phone, cs.phone)::TEXT AS phone,
+      COALESCE(cs.total_orders, 0)::INTEGER AS total_orders,
+      COALESCE(cs.total_spent, 0)::NUMERIC AS total_spent,
+      COALESCE(vip.spent, 0)::NUMERIC AS vip_spent,
+      COALESCE(ea.events, 0)::INTEGER AS events_attended,
+      cs.last_visit::TIMESTAMPTZ AS last_visit,
+      cs.days_since_last_visit::INTEGER AS days_since_last_visit,
+      (mc.email_unsubscribed_at IS NULL AND COALESCE(mc.email_opt_in, ns.is_active, false)) AS email_consent,
+      (
+        mc.sms_unsubscribed_at IS NULL
+        AND COALESCE(mc.sms_opt_in, false)
+        AND COALESCE(mc.phone, cs.phone) IS NOT NULL
+      ) AS sms_consent
+    FROM contacts c
+    LEFT JOIN customer_stats cs ON cs.email = c.email
+    LEFT JOIN LATERAL (
+      SELECT bool_or(n.is_active) AS is_active
+      FROM newsletter_subscribers n
+      WHERE lower(n.email) = c.email
+    ) ns ON true
+    LEFT JOIN marketing_consents mc ON mc.email = c.email
+    LEFT JOIN events_attended ea ON ea.email = c.email
+    LEFT JOIN vip ON vip.email = c.email
+  )
+  SELECT a.*
+  FROM audience a
+  WHERE (p_rules ->> 'min_events' IS NULL OR a.events_attended >= (p_rules ->> 'min_events')::INTEGER)
+    AND (p_rules ->> 'min_orders' IS NULL OR a.total_orders >= (p_rules ->> 'min_orders')::INTEGER)
+    AND (p_rules ->> 'min_total_spent' IS NULL OR a.total_spent >= (p_rules ->> 'min_total_spent')::NUMERIC)
+    AND (p_rules ->> 'min_vip_spent' IS NULL OR a.vip_spent >= (p_rules ->> 'min_vip_spent')::NUMERIC)
+    AND (
+      p_rules ->> 'visited_within_days' IS NULL
+      OR a.last_visit >= now() - make_interval(days => (p_rules ->> 'visited_within_days')::INTEGER)
+    )
+    AND (
+      p_rules ->> 'not_visited_days' IS NULL
+      OR a.last_visit IS NULL
+      OR a.last_visit < now() - make_interval(days => (p_rules ->> 'not_visited_days')::INTEGER)
+    )
+  ORDER BY a.total_spent DESC, a.email;
+END;
+$$;
+
+-- ============================================
+-- 6. SENDING
+-- ============================================
+
+-- Move a draft or due campaign to sending. Returns nothing when it is
+-- already being sent, so two callers can't send it twice.
+CREATE OR REPLACE FUNCTION public.claim_marketing_campaign(p_campaign_id UUID)
+RETURNS SETOF public.marketing_campaigns
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE marketing_campaigns
+  SET status = 'sending', started_at = now()
+  WHERE id = p_campaign_id
+    AND (status = 'draft' OR (status = 'scheduled' AND scheduled_at <= now()))
+  RETURNING *;
+$$;
+
+-- One recipient row per audience member. People without consent for the
+-- channel are kept as skipped so the campaign shows who was left out.
+CREATE OR REPLACE FUNCTION public.prepare_marketing_campaign(p_campaign_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_campaign marketing_campaigns%ROWTYPE;
+  v_count INTEGER;
+BEGIN
+  SELECT * INTO v_campaign FROM marketing_campaigns WHERE id = p_campaign_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Campaign not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO marketing_campaign_recipients (campaign_id, email, name, phone, events_attended, status, error)
+  SELECT
+    p_campaign_id,
+    a.email,
+    a.name,
+    a.phone,
+    a.events_attended,
+    CASE
+      WHEN v_campaign.channel = 'email' AND a.email_consent THEN 'pending'
+      WHEN v_campaign.channel = 'sms' AND a.sms_consent THEN 'pending'
+      ELSE 'skipped'
+    END,
+    CASE
+      WHEN v_campaign.channel = 'email' AND NOT a.email_consent THEN 'No email consent'
+      WHEN v_campaign.channel = 'sms' AND NOT a.sms_consent THEN 'No SMS consent'
+    END
+  FROM get_segment_audience(v_campaign.segment_rules) a
+  ON CONFLICT (campaign_id, email) DO NOTHING;
+
+  SELECT count(*) INTO v_count FROM marketing_campaign_recipients WHERE campaign_id = p_campaign_id;
+  UPDATE marketing_campaigns SET recipient_count = v_count WHERE id = p_campaign_id;
+  RETURN v_count;
+END;
+$$;
+
+-- Roll the recipient statuses up onto a campaign that is sending
+CREATE OR REPLACE FUNCTION public.finish_marketing_campaign(p_campaign_id UUID)
+RETURNS public.marketing_campaigns
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH counts AS (
+    SELECT
+      count(*) FILTER (WHERE status = 'sent')::INTEGER AS sent,
+      count(*) FILTER (WHERE status = 'failed')::INTEGER AS failed,
+      count(*) FILTER (WHERE status = 'skipped')::INTEGER AS skipped,
+      count(*)::INTEGER AS total
+    FROM marketing_campaign_recipients
+    WHERE campaign_id = p_campaign_id
+  )
+  UPDATE marketing_campaigns c
+  SET status = CASE WHEN counts.sent = 0 AND counts.failed > 0 THEN 'failed' ELSE 'sent' END,
+      sent_at = now(),
+      recipient_count = counts.total,
+      sent_count = counts.sent,
+      failed_count = counts.failed,
+      skipped_count = counts.skipped
+  FROM counts
+  WHERE c.id = p_campaign_id
+    AND c.status = 'sending'
+  RETURNING c.*;
+$$;
+
+-- Sales per campaign: orders placed from a campaign link, and recipients
+-- who bought anything within 7 days of the send
+CREATE OR REPLACE FUNCTION public.get_marketing_campaign_results()
+RETURNS TABLE (
+  campaign_id           UUID,
+  attributed_orders     INTEGER,
+  attributed_tickets    INTEGER,
+  attributed_revenue    NUMERIC,
+  converted_recipients  INTEGER,
+  unsubscribes          INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF NOT public.has_permission('manage_marketing') THEN
+    RAISE EXCEPTION 'Only staff who manage marketing can see campaign results' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    c.id,
+    (
+      SELECT count(*)::INTEGER FROM orders o
+      WHERE o.campaign_id = c.id AND o.status IN ('paid', 'completed')
+    ),
+    (
+      SELECT count(*)::INTEGER FROM tickets t
+      JOIN orders o ON o.id = t.order_id
+      WHERE o.campaign_id = c.id AND o.status IN ('paid', 'completed')
+    ),
+    (
+      SELECT COALESCE(round(sum(o.total)::NUMERIC, 2), 0) FROM orders o
+      WHERE o.campaign_id = c.id AND o.status IN ('paid', 'completed')
+    ),
+    (
+      SELECT count(DISTINCT r.email)::INTEGER
+      FROM marketing_campaign_recipients r
+      JOIN orders o ON lower(COALESCE(o.purchaser_email, o.customer_email)) = r.email
+      WHERE r.campaign_id = c.id
+        AND r.status = 'sent'
+        AND o.status IN ('paid', 'completed')
+        AND o.created_at BETWEEN r.sent_at AND r.sent_at + INTERVAL '7 days'
+    ),
+    (
+      SELECT count(*)::INTEGER FROM marketing_campaign_recipients r
+      WHERE r.campaign_id = c.id AND r.unsubscribed_at IS NOT NULL
+    )
+  FROM marketing_campaigns c;
+END;
+$$;
+
+-- ============================================
+-- 7. UNSUBSCRIBE
+-- ============================================
+
+-- Called from the unsubscribe link in a campaign (/unsubscribe/:token).
+-- Stops that channel for the person everywhere, not just this campaign.
+CREATE OR REPLACE FUNCTION public.marketing_unsubscribe(p_token TEXT)
+RETURNS TABLE (email TEXT, channel TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_email TEXT;
+  v_channel TEXT;
+BEGIN
+  SELECT r.email, c.channel INTO v_email, v_channel
+  FROM marketing_campaign_recipients r
+  JOIN marketing_campaigns c ON c.id = r.campaign_id
+  WHERE r.token = p_token;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE marketing_campaign_recipients
+  SET unsubscribed_at = COALESCE(unsubscribed_at, now())
+  WHERE token = p_token;
+
+  IF v_channel = 'email' THEN
+    INSERT INTO marketing_consents (email, email_opt_in, email_unsubscribed_at, source, updated_by)
+    VALUES (v_email, false, now(), 'unsubscribe_link', NULL)
+    ON CONFLICT (email) DO UPDATE
+      SET email_opt_in = false,
+          email_unsubscribed_at = COALESCE(marketing_consents.email_unsubscribed_at, now()),
+          updated_by = NULL;
+
+    UPDATE newsletter_subscribers SET is_active = false WHERE lower(email) = v_email;
+  ELSE
+    INSERT INTO marketing_consents (email, sms_opt_in, sms_unsubscribed_at, source, updated_by)
+    VALUES (v_email, false, now(), 'unsubscribe_link', NULL)
+    ON CONFLICT (email) DO UPDATE
+      SET sms_opt_in = false,
+          sms_unsubscribed_at = COALESCE(marketing_consents.sms_unsubscribed_at, now()),
+          updated_by = NULL;
+  END IF;
+
+  RETURN QUERY SELECT v_email, v_channel;
+END;
+$$;
+
+-- ============================================
+-- 8. RLS
+-- ============================================
+
+ALTER TABLE public.marketing_consents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.marketing_segments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.marketing_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.marketing_campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.marketing_campaign_recipients ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Marketers manage marketing consent" ON public.marketing_consents;
+CREATE POLICY "Marketers manage marketing consent"
+  ON public.marketing_consents FOR ALL
+  TO authenticated
+  USING (public.has_permission('manage_marketing'))
+  WITH CHECK (public.has_permission('manage_marketing'));
+
+DROP POLICY IF EXISTS "Marketers manage segments" ON public.marketing_segments;
+CREATE POLICY "Marketers manage segments"
+  ON public.marketing_segments FOR ALL
+  TO authenticated
+  USING (public.has_permission('manage_marketing'))
+  WITH CHECK (public.has_permission('manage_marketing'));
+
+DROP POLICY IF EXISTS "Marketers manage templates" ON public.marketing_templates;
+CREATE POLICY "Marketers manage templates"
+  ON public.marketing_templates FOR ALL
+  TO authenticated
+  USING (public.has_permission('manage_marketing'))
+  WITH CHECK (public.has_permission('manage_marketing'));
+
+DROP POLICY IF EXISTS "Marketers can view campaigns" ON public.marketing_campaigns;
+CREATE POLICY "Marketers can view campaigns"
+  ON public.marketing_campaigns FOR SELECT
+  TO authenticated
+  USING (public.has_permission('manage_marketing'));
+
+DROP POLICY IF EXISTS "Marketers can create campaigns" ON public.marketing_campaigns;
+CREATE POLICY "Marketers can create campaigns"
+  ON public.marketing_campaigns FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.has_permission('manage_marketing')
+    AND status IN ('draft', 'scheduled')
+  );
+
+-- Sending, sent and failed are set by send-campaign only
+DROP POLICY IF EXISTS "Marketers can edit unsent campaigns" ON public.marketing_campaigns;
+CREATE POLICY "Marketers can edit unsent campaigns"
+  ON public.marketing_campaigns FOR UPDATE
+  TO authenticated
+  USING (
+    public.has_permission('manage_marketing')
+    AND status IN ('draft', 'scheduled')
+  )
+  WITH CHECK (
+    public.has_permission('manage_marketing')
+    AND status IN ('draft', 'scheduled', 'cancelled')
+  );
+
+DROP POLICY IF EXISTS "Marketers can delete drafts" ON public.marketing_campaigns;
+CREATE POLICY "Marketers can delete drafts"
+  ON public.marketing_campaigns FOR DELETE
+  TO authenticated
+  USING (
+    public.has_permission('manage_marketing')
+    AND status IN ('draft', 'cancelled')
+  );
+
+DROP POLICY IF EXISTS "Marketers can view campaign recipients" ON public.marketing_campaign_recipients;
+CREATE POLICY "Marketers can view campaign recipients"
+  ON public.marketing_campaign_recipients FOR SELECT
+  TO authenticated
+  USING (public.has_permission('manage_marketing'));
+
+-- ============================================
+-- 9. GRANTS
+-- ============================================
+
+REVOKE ALL ON FUNCTION public.get_segment_audience(JSONB) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.claim_marketing_campaign(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.prepare_marketing_campaign(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.finish_marketing_campaign(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.get_marketing_campaign_results() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.marketing_unsubscribe(TEXT) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION public.get_segment_audience(JSONB) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.claim_marketing_campaign(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.prepare_marketing_campaign(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.finish_marketing_campaign(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_marketing_campaign_results() TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.marketing_unsubscribe(TEXT) TO anon, authenticated;
+
+-- Scheduled campaigns are sent by send-campaign, called every 5 minutes:
+-- SELECT cron.schedule(
+--   'send-due-campaigns',
+--   '*/5 * * * *',
+--   $$ SELECT net.http_post(
+--        url := '<SUPABASE_URL>/functions/v1/send-campaign',
+--        headers := '{"Authorization": "Bearer <SERVICE_ROLE_KEY>"}'::jsonb,
+--        body := '{}'::jsonb
+--      ) $$
+-- );
+
+COMMIT;
@@ -1,9 +1,9 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
-const securityHeaders: Record<string, string> = {
+const buildSecurityHeaders = (scanRelayUrl?: string): Record<string, string> => ({
   "Content-Security-Policy": [
     "default-src 'self'",
     "script-src 'self' 'unsafe-inline' 'unsafe-eval'",
@@ -11,7 +11,8 @@ const securityHeaders: Record<string, string> = {
     "font-src 'self' https://fonts.gstatic.com data:",
     "img-src 'self' data: blob: https:",
     "media-src 'self' blob:",
-    "connect-src 'self' https://*.supabase.co wss://*.supabase.co",
+    // Booth scan relay (peer scan sync) lives on the venue LAN
+    `connect-src 'self' https://*.supabase.co wss://*.supabase.co${scanRelayUrl ? ` ${new URL(scanRelayUrl).origin}` : ""}`,
     "object-src 'none'",
     "base-uri 'self'",
     "form-action 'self'",
@@ -37,14 +38,14 @@ const securityHeaders: Record<string, string> = {
   "X-XSS-Protection": "1; mode=block",
   "Cross-Origin-Opener-Policy": "same-origin",
   "Cross-Origin-Resource-Policy": "same-origin",
-};
+});
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 3015,
-    headers: securityHeaders,
+    headers: buildSecurityHeaders(loadEnv(mode, process.cwd(), "VITE_").VITE_SCAN_RELAY_URL),
   },
   plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
   resolve: {
@@ -16,6 +16,7 @@ const Gallery = lazy(() => import("./pages/Gallery"));
 const Restaurant = lazy(() => import("./pages/Restaurant"));
 const RestaurantMenu = lazy(() => import("./pages/RestaurantMenu"));
 const RestaurantCheckout = lazy(() => import("./pages/RestaurantCheckout"));
+const RestaurantOrderStatus = lazy(() => import("./pages/RestaurantOrderStatus"));
 const AboutUs = lazy(() => import("./pages/AboutUs"));
 const Policies = lazy(() => import("./pages/Policies"));
 const FAQ = lazy(() => import("./pages/FAQ"));
@@ -60,6 +61,7 @@ const AppContent = () => {
           <Route path="/restaurant" element={<Restaurant />} />
           <Route path="/restaurant/menu" element={<RestaurantMenu />} />
           <Route path="/restaurant/checkout" element={<RestaurantCheckout />} />
+          <Route path="/restaurant/order/:orderId" element={<RestaurantOrderStatus />} />
           <Route path="/about-us" element={<AboutUs />} />
           <Route path="/policies" element={<Policies />} />
           <Route path="/faq" element={<FAQ />} />
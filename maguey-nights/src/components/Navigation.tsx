@@ -5,6 +5,8 @@ import { Button } from "@/components/ui/button";
 import { throttle } from "lodash-es";
 import magueyLogo from "@/Pictures/maguey.jpg";
 import { getPurchaseSiteBaseUrl } from "@/lib/purchaseSiteConfig";
+import { LanguageSwitcher } from "@/components/LanguageSwitcher";
+import { useLocale } from "@/hooks/use-locale";
 
 interface MenuItem {
   label: string;
@@ -25,6 +27,7 @@ const Navigation = ({ transparent = false, variant }: NavigationProps) => {
   const [isOpen, setIsOpen] = useState(false);
   const [openDropdown, setOpenDropdown] = useState<string | null>(null);
   const [isScrolled, setIsScrolled] = useState(false);
+  const { locale, t } = useLocale();
 
   useEffect(() => {
     const handleScroll = throttle(() => {
@@ -42,20 +45,24 @@ const Navigation = ({ transparent = false, variant }: NavigationProps) => {
 
   // Different menu items for restaurant vs nightclub
   const defaultMenuItems: MenuItem[] = [
-    { label: "Events", url: "/events" },
-    { label: "Restaurant", url: "/restaurant" },
-    { label: "Gallery", url: "/gallery" },
-    { label: "Contact", url: "/contact" }
+    { label: t("nav.events"), url: "/events" },
+    { label: t("nav.restaurant"), url: "/restaurant" },
+    { label: t("nav.gallery"), url: "/gallery" },
+    { label: t("nav.contact"), url: "/contact" }
   ];
 
   const restaurantMenuItems: MenuItem[] = [
-    { label: "Nightclub", url: "/" },
-    { label: "Restaurant", url: "/restaurant" },
-    { label: "About Us", url: "/about-us" }
+    { label: t("nav.nightclub"), url: "/" },
+    { label: t("nav.restaurant"), url: "/restaurant" },
+    { label: t("nav.aboutUs"), url: "/about-us" }
   ];
 
   const menuItems = restaurantMode ? restaurantMenuItems : defaultMenuItems;
 
+  // Carry the language over to the ticket site (different origin, separate storage)
+  const purchaseSiteBaseUrl = getPurchaseSiteBaseUrl();
+  const purchaseSiteUrl = purchaseSiteBaseUrl ? `${purchaseSiteBaseUrl}?lang=${locale}` : purchaseSiteBaseUrl;
+
   // Determine the current styling based on scroll position and transparent prop
   const getNavStyling = () => {
     if (transparent && !isScrolled) {
@@ -132,6 +139,8 @@ const Navigation = ({ transparent = false, variant }: NavigationProps) => {
 
       {/* CTA Button */}
       <div className="hidden sm:flex items-center gap-4">
+        <LanguageSwitcher className="text-zinc-300" />
+
         {/* Socials for Nightclub only */}
         {!restaurantMode && (
           <div className="hidden xl:flex items-center gap-3 mr-2">
@@ -143,13 +152,13 @@ const Navigation = ({ transparent = false, variant }: NavigationProps) => {
         {restaurantMode ? (
           <Link to="/restaurant/menu">
             <button className="hover:from-green-500 hover:to-green-600 hover:shadow-[0_0_30px_rgba(34,197,94,0.5)] transition-all flex text-sm font-medium text-white bg-gradient-to-b from-green-600 to-green-700 rounded-full py-2.5 px-6 shadow-[0px_0px_0px_1px_rgba(22,163,74,1),inset_0_1px_0_rgba(255,255,255,0.2)] backdrop-blur-sm relative" style={{ '--border-gradient': 'linear-gradient(180deg, rgba(255, 255, 255, 0.2), rgba(255, 255, 255, 0), rgba(255, 255, 255, 0.1))', '--border-radius-before': '9999px' } as any}>
-              ORDER ONLINE
+              {t("nav.orderOnline").toUpperCase()}
             </button>
           </Link>
         ) : (
-          <a href={getPurchaseSiteBaseUrl()} target="_self">
+          <a href={purchaseSiteUrl} target="_self">
             <button className="hover:from-green-500 hover:to-green-600 hover:shadow-[0_0_30px_rgba(34,197,94,0.5)] transition-all flex text-sm font-medium text-white bg-gradient-to-b from-green-600 to-green-700 rounded-full py-2.5 px-6 shadow-[0px_0px_0px_1px_rgba(22,163,74,1),inset_0_1px_0_rgba(255,255,255,0.2)] backdrop-blur-sm relative items-center gap-2" style={{ '--border-gradient': 'linear-gradient(180deg, rgba(255, 255, 255, 0.2), rgba(255, 255, 255, 0), rgba(255, 255, 255, 0.1))', '--border-radius-before': '9999px' } as any}>
-              <span className="tracking-tight">BUY TICKETS</span>
+              <span className="tracking-tight">{t("nav.buyTickets").toUpperCase()}</span>
               <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="lucide lucide-arrow-right text-green-100"><path d="M5 12h14"></path><path d="m12 5 7 7-7 7"></path></svg>
             </button>
           </a>
@@ -185,14 +194,15 @@ const Navigation = ({ transparent = false, variant }: NavigationProps) => {
               )}
             </div>
           ))}
+          <LanguageSwitcher className="px-4 py-2 text-zinc-300" />
           <div className="mt-4 pt-4 border-t border-white/10">
             {restaurantMode ? (
               <Link to="/restaurant/menu" onClick={() => setIsOpen(false)}>
-                <button className="w-full py-4 bg-[#39B54A] text-white font-bold rounded-xl uppercase tracking-wider">Order Online</button>
+                <button className="w-full py-4 bg-[#39B54A] text-white font-bold rounded-xl uppercase tracking-wider">{t("nav.orderOnline")}</button>
               </Link>
             ) : (
-              <a href={getPurchaseSiteBaseUrl()} onClick={() => setIsOpen(false)}>
-                <button className="w-full py-4 bg-[#39B54A] text-white font-bold rounded-xl uppercase tracking-wider">Buy Tickets</button>
+              <a href={purchaseSiteUrl} onClick={() => setIsOpen(false)}>
+                <button className="w-full py-4 bg-[#39B54A] text-white font-bold rounded-xl uppercase tracking-wider">{t("nav.buyTickets")}</button>
               </a>
             )}
           </div>
@@ -0,0 +1,23 @@
+import { useCallback, useSyncExternalStore } from "react";
+import {
+  getLocale,
+  setLocale,
+  subscribeToLocale,
+  translate,
+  type TranslationParams,
+} from "@/lib/i18n";
+
+/**
+ * Current locale plus a bound translate function.
+ * Components re-render when the guest switches language.
+ */
+export function useLocale() {
+  const locale = useSyncExternalStore(subscribeToLocale, getLocale, getLocale);
+
+  const t = useCallback(
+    (key: string, params?: TranslationParams) => translate(locale, key, params),
+    [locale]
+  );
+
+  return { locale, setLocale, t };
+}
@@ -0,0 +1,51 @@
+import { useState, useEffect } from 'react'
+import { fetchRestaurantMenu, MenuCategory, MenuItem } from '@/services/restaurantService'
+import { supabase } from '@/lib/supabase'
+
+export const useRestaurantMenu = () => {
+  const [categories, setCategories] = useState<MenuCategory[]>([])
+  const [items, setItems] = useState<MenuItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadMenu = async () => {
+      try {
+        setError(null)
+        const data = await fetchRestaurantMenu()
+        setCategories(data.categories)
+        setItems(data.items)
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to load menu'
+        setError(errorMessage)
+        console.error('Error loading restaurant menu:', err)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    // Initial load
+    loadMenu()
+
+    // Prices and availability are edited live from the scanner admin
+    const channel = supabase
+      .channel('restaurant-menu-changes')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'restaurant_menu_items' },
+        () => loadMenu()
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'restaurant_menu_categories' },
+        () => loadMenu()
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [])
+
+  return { categories, items, loading, error }
+}
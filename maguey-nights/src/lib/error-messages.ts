@@ -1,6 +1,8 @@
 import { toast } from "sonner";
+import { t } from "./i18n";
 
 // Error message catalog - professional/formal tone (per context decision)
+// English source copy; the toast shown to guests comes from errors.* in translations.ts
 export const ERROR_MESSAGES = {
   // Network errors
   network_offline: "Unable to connect. Please check your internet connection.",
@@ -47,7 +49,7 @@ export function showError(
   type: ErrorType | string,
   options: ShowErrorOptions = {}
 ) {
-  const message = ERROR_MESSAGES[type as ErrorType] || ERROR_MESSAGES.generic;
+  const message = t(`errors.${type in ERROR_MESSAGES ? type : "generic"}`);
   const { onRetry, supportEmail = "support@maguey.com" } = options;
 
   toast.error(message, {
@@ -55,11 +57,11 @@ export function showError(
     closeButton: true,
     action: onRetry
       ? {
-          label: "Try Again",
+          label: t("common.tryAgain"),
           onClick: onRetry,
         }
       : {
-          label: "Contact Support",
+          label: t("common.contactSupport"),
           onClick: () => window.location.href = `mailto:${supportEmail}`,
         },
   });
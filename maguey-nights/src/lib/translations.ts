@@ -0,0 +1,836 @@
+/**
+ * Translation Catalog (English / Spanish)
+ *
+ * Shared by maguey-pass-lounge, maguey-nights and maguey-gate-scanner —
+ * keep the copies in each app's src/lib identical. The edge functions use
+ * the email strings from supabase/functions/_shared/translations.ts.
+ *
+ * `es` is typed against `en`, so a key missing from either catalog is a
+ * type error. Placeholders use {name} syntax (see translate() in i18n.ts).
+ */
+
+const en = {
+  common: {
+    language: 'Language',
+    backToEvents: 'Back to Events',
+    soldOut: 'Sold Out',
+    buyTickets: 'Buy Tickets',
+    reserveYourTable: 'Reserve Your Table',
+    total: 'Total',
+    guest: 'Guest',
+    table: 'Table {number}',
+    tryAgain: 'Try Again',
+    contactSupport: 'Contact Support',
+    processing: 'Processing...',
+    allRightsReserved: 'All rights reserved.',
+  },
+
+  nav: {
+    events: 'Events',
+    restaurant: 'Restaurant',
+    gallery: 'Gallery',
+    contact: 'Contact',
+    nightclub: 'Nightclub',
+    aboutUs: 'About Us',
+    orderOnline: 'Order Online',
+    buyTickets: 'Buy Tickets',
+  },
+
+  errors: {
+    network_offline: 'Unable to connect. Please check your internet connection.',
+    network_timeout: 'The request timed out. Please try again.',
+    network_error: 'A connection error occurred. Please try again.',
+    payment_failed: 'Payment could not be processed. Please check your card details and try again.',
+    payment_declined: 'Your card was declined. Please try a different payment method.',
+    payment_expired: 'Your session has expired. Please start again.',
+    purchase_login_required: 'Please sign in to complete this purchase.',
+    purchase_blocked: "We couldn't process this purchase. Please contact support.",
+    validation_error: 'Please review the form for errors.',
+    invalid_input: 'The information provided is invalid. Please check and try again.',
+    auth_failed: 'Sign in failed. Please check your credentials.',
+    session_expired: 'Your session has expired. Please sign in again.',
+    scan_failed: 'Unable to process scan. Please try again.',
+    ticket_not_found: 'Ticket not found. Please verify the code.',
+    generic: 'An error occurred. Please contact support if this persists.',
+  },
+
+  event: {
+    startTime: 'Start Time @ {time}',
+    ageOnly: '{age} ONLY',
+    locationType: 'Location Type',
+    categoryVip: 'VIP',
+    categoryService: 'Service',
+    categorySections: 'Sections',
+    categorySection: 'Section',
+    categoryGeneral: 'General Admission',
+    categoryGeneralShort: 'General',
+    option: '{count} option',
+    options: '{count} options',
+    onlyLeft: 'Only {count} left at this price!',
+    priceEndsIn: 'Price ends in {time}',
+    nextTierPrice: 'then {price}',
+    vipBottleService: 'VIP Bottle Service',
+    vipBottleServiceDescription: 'Reserve a premium table with bottle service for your group • Starting at {price}',
+    tableNoEntry: 'Table reservation does not include event entry. All guests must purchase GA tickets.',
+    ageNotice: 'All guests must be at least {age} years of age with a valid government issued ID to be presented at the time of check-in.',
+    shareText: '{name} at {venue} — {date}',
+    faq: 'Frequently Asked Questions',
+    policies: 'Policies',
+    aboutThisEvent: 'About This Event',
+    femaleGeneralAdmission: 'Female - General Admission',
+    maleGeneralAdmission: 'Male - General Admission',
+    expeditedEntry: 'Expedited Entry Admission',
+    vipGeneralAdmission: 'VIP - General Admission',
+  },
+
+  checkout: {
+    title: 'Checkout',
+    stepTickets: 'Tickets',
+    stepDetails: 'Details',
+    stepPayment: 'Payment',
+    firstNameMin: 'First name must be at least 2 characters',
+    lastNameMin: 'Last name must be at least 2 characters',
+    emailInvalid: 'Please enter a valid email address',
+    noEventSelected: 'No event selected',
+    eventNotFound: 'Event not found',
+    eventNotFoundTitle: 'Event Not Found',
+    eventNotFoundDescription: "The event you're looking for doesn't exist",
+    failedToLoadEvent: 'Failed to load event',
+    promoInvalid: 'This promo code is invalid or expired.',
+    promoApplied: 'Promo {code} applied.',
+    promoValidateFailed: 'Failed to validate promo code.',
+    promoNotStarted: "This promo code isn't active yet.",
+    promoExpired: 'This promo code has expired.',
+    promoOutsideHours: 'This promo is only valid during its happy-hour window.',
+    promoNotForEvent: "This promo code isn't valid for this event.",
+    promoNotForTickets: "This promo code doesn't apply to the selected tickets.",
+    promoMinQuantity: 'Add at least {count} eligible tickets to use this promo code.',
+    promoMinSubtotal: 'Spend at least {amount} on eligible tickets to use this promo code.',
+    promoUsedUp: 'This promo code has reached its usage limit.',
+    promoCustomerLimit: "You've already used this promo code.",
+    promoCodeUsed: 'This promo code has already been redeemed.',
+    promoNoDiscount: "This promo code doesn't lower the price of your order.",
+    promoNotCombinable: "This promo code can't be combined with the better offer already applied.",
+    loyaltyCredit: 'Loyalty credit',
+    useLoyaltyCredit: 'Use my {amount} loyalty credit',
+    notOnSaleYet: 'Tickets go on sale {date}.',
+    earlyAccess: 'Early access for {tier} members',
+    loyaltyTier: {
+      bronze: 'Bronze',
+      silver: 'Silver',
+      gold: 'Gold',
+      platinum: 'Platinum',
+    },
+    selectTicket: 'Please select at least one ticket',
+    confirmAge: 'Please confirm age verification to continue',
+    ticketsUnavailable: 'Tickets are no longer available',
+    checkoutFailed: 'Failed to process checkout',
+    vipInvite: "You're invited to {name}'s VIP Table!",
+    vipInviteGuests: 'Table {table} • {linked}/{capacity} guests confirmed',
+    vipInviteCta: 'Purchase your ticket to join the party!',
+    welcomeBack: 'Welcome back! Your details have been remembered.',
+    dateAtTime: '{date} at {time}',
+    atVenue: 'at {venue}',
+    ageEventBadge: '{age} Event — Valid ID Required',
+    includesFees: '(Includes fees & taxes)',
+    soldCount: '• {sold}/{total} sold',
+    addTicket: 'Add {name}',
+    removeTicket: 'Remove {name}',
+    vipExperience: 'VIP Experience',
+    premium: 'Premium',
+    vipExperienceDescription: 'Elevate your night with bottle service • Tables from {price}',
+    guestInformation: 'Guest Information',
+    firstName: 'First Name',
+    firstNamePlaceholder: 'Enter your first name',
+    lastName: 'Last Name',
+    lastNamePlaceholder: 'Enter your last name',
+    email: 'Email Address',
+    emailPlaceholder: 'Enter your email',
+    emailHint: 'Your tickets will be sent to this email',
+    ageVerificationRequired: 'Age Verification Required',
+    ageConfirmation: 'I confirm that I am {age}+ years of age and will present valid government-issued photo ID at the venue upon entry.',
+    backToTickets: 'Back to Tickets',
+    continueToPayment: 'Continue to Payment',
+    orderSummary: 'Order Summary',
+    preparingPayment: 'Preparing Payment',
+    preparingPaymentDescription: 'Please wait while we set up your secure checkout...',
+    totalDue: 'Total due',
+    subtotal: 'Subtotal',
+    fees: 'Fees',
+    promo: 'Promo ({code})',
+    promoPlaceholder: 'Promo code',
+    checking: 'Checking...',
+    apply: 'Apply',
+    clear: 'Clear',
+    continueToDetails: 'Continue to Details',
+    moreEvents: 'More',
+    moreEventsHighlight: 'Events',
+    live: 'Live',
+    moreEventsDescription: 'Discover more experiences tailored for you',
+    viewAll: 'View All',
+    viewEvent: 'View Event',
+    tagline: "Wilmington's Premier Latin Nightlife Experience",
+    company: 'Company',
+    about: 'About',
+    blog: 'Blog',
+    discover: 'Discover',
+    fanSupport: 'Fan Support',
+    legal: 'Legal',
+    privacyPolicy: 'Privacy Policy',
+    terms: 'Terms',
+    cookiePolicy: 'Cookie Policy',
+    manageCookies: 'Manage Cookies',
+    resaleTitle: 'Resale Tickets',
+    resaleDescription: "Tickets from other guests at or below face value. The seller's QR code is replaced when you buy.",
+    resaleFaceValue: 'Face value {price}',
+    resaleBuy: 'Buy',
+    resaleSignIn: 'Sign in to buy a resale ticket.',
+    resaleFailed: 'Could not start the resale checkout.',
+    resaleCanceled: 'Purchase canceled. You have not been charged.',
+  },
+
+  scanner: {
+    valid: 'VALID',
+    vipEntry: 'VIP ENTRY',
+    alreadyUsed: 'ALREADY USED',
+    invalid: 'INVALID',
+    overrideUsed: 'Override Used',
+    scanNext: 'Scan Next',
+    languageDescription: 'Scanner screen language',
+  },
+
+  email: {
+    ticket: {
+      subjectOne: 'Your ticket for {eventName}',
+      subjectMany: 'Your tickets for {eventName}',
+      title: 'Your Tickets - {eventName}',
+      paymentSuccessful: 'Payment Successful! Your tickets are confirmed.',
+      greeting: 'Hi {name},',
+      intro: 'Thank you for your purchase! Your digital tickets for {eventName} are ready.',
+      ticketType: 'Ticket Type',
+      ticketHolder: 'Ticket Holder',
+      venue: 'Venue',
+      address: 'Address',
+      price: 'Price',
+      presentQr: 'Present this QR code at the entrance',
+      qrAlt: 'QR Code for {ticketId}',
+      ticketId: 'Ticket ID',
+      importantInformation: 'Important Information',
+      idRequired: 'Valid government-issued ID required at entrance',
+      arriveEarly: 'Arrive 30 minutes before event time',
+      screenshot: 'Screenshot or download this email for offline access',
+      doNotShare: 'Do not share your QR code with anyone',
+      nonRefundable: 'Tickets are non-transferable and non-refundable',
+      viewMyTickets: 'View My Tickets',
+      orderId: 'Order ID',
+      questions: 'If you have any questions, please contact us at {email}',
+      automated: 'This is an automated email. Please do not reply to this message.',
+      textThanks: 'Thank you for your purchase, {name}!',
+      textConfirmed: 'Your tickets for {eventName} are confirmed.',
+      textTickets: 'TICKETS',
+      textTicket: 'Ticket {number}',
+      textEvent: 'Event',
+      textEventId: 'Event ID',
+      textDate: 'Date',
+      textAt: '{date} at {time}',
+      textQrCode: 'QR Code',
+      textImportant: 'IMPORTANT INFORMATION',
+      textViewOnline: 'View your tickets online: {url}',
+      orderConfirmedSubject: 'Your Maguey Tickets - Order Confirmed',
+      ticketHeading: 'Ticket {number}: {type}',
+      event: 'Event',
+      date: 'Date',
+      time: 'Time',
+      presentAtVenue: 'Present this ticket at the venue. A QR code will be available in your account.',
+      qrInAccount: 'Your QR code will be in your account dashboard',
+    },
+    vip: {
+      subject: 'VIP Table Confirmed - {eventName}',
+      title: 'VIP Table Reservation - {eventName}',
+      heading: 'VIP TABLE RESERVATION',
+      subheading: 'Your exclusive table is confirmed',
+      paymentSuccessful: 'Payment Successful - Your VIP Table is Reserved!',
+      greeting: 'Dear {name},',
+      intro: 'Thank you for your VIP table reservation! Your exclusive table for {eventName} is confirmed.',
+      reservationNumber: 'Reservation Number',
+      tierTable: '{tier} Table',
+      tierPremium: 'Premium',
+      tierStandard: 'Standard',
+      tierRegular: 'Regular',
+      event: 'Event',
+      date: 'Date',
+      time: 'Time',
+      table: 'Table',
+      defaultTable: 'VIP Table',
+      location: 'Location',
+      defaultLocation: 'VIP Section',
+      guests: 'Guests',
+      people: '{count} people',
+      bottleService: 'Bottle Service',
+      included: 'Included',
+      bottleChoice: 'Your Bottle Choice',
+      totalPaid: 'Total Paid',
+      guestPasses: 'Guest Entry Passes',
+      guestPassesInstruction: 'Each guest needs their own QR code to enter. Share these with your guests or show them from your phone at the door.',
+      guestNumber: 'Guest {number}',
+      guestQrAlt: 'Guest {number} QR Code',
+      importantInformation: 'Important Information',
+      arriveEarly: 'Arrive 30 minutes early for table setup and VIP check-in',
+      idRequired: 'Valid government-issued ID required for all guests',
+      ownQr: 'Each guest scans their own QR code at entry',
+      screenshot: 'Screenshot the QR codes for offline access',
+      tableHeld: 'Your table will be held for 1 hour after doors open',
+      noRefunds: 'No Refunds',
+      noRefundsDescription: 'All VIP table reservations are final and non-refundable.',
+      viewOnline: 'View Reservation Online',
+      venue: 'Venue',
+      contactPhone: 'Contact Phone',
+      questions: 'If you have any questions, please contact us at {email}',
+      automated: 'This is an automated email. Please do not reply to this message.',
+      textConfirmed: 'VIP TABLE RESERVATION CONFIRMED',
+      textTableConfirmed: 'Your VIP table for {eventName} is confirmed!',
+      textDetails: 'RESERVATION DETAILS',
+      textGuestPasses: 'GUEST ENTRY PASSES',
+      textImportant: 'IMPORTANT INFORMATION',
+      textNoRefunds: 'NO REFUNDS: All VIP table reservations are final.',
+      textViewOnline: 'View your reservation online: {url}',
+      textVenue: 'VENUE',
+      tierFrontRow: 'Front Row',
+      presentCode: 'Present this code at entry',
+      scanAtEntry: 'Scan QR code at entry',
+      viewPass: 'View Pass Online',
+      inviteHeading: 'Invite Your Guests',
+      inviteDescription: 'Share this link with your guests so they can purchase their GA tickets and be linked to your VIP table.',
+      tableCapacity: 'Table capacity: {count} guests',
+      doorsAt: 'Doors at 9 PM',
+      bottlesIncluded: 'Bottles Included',
+      bottles: '{count} bottle(s)',
+      ownPass: 'Each guest presents their own pass at entry',
+      guestPassesShare: 'Each guest needs their own pass to enter. Share these with your guests or show them from your phone at the door.',
+    },
+    restaurant: {
+      subjectReceived: 'Order #{orderNumber} received - Maguey Restaurant',
+      subjectPreparing: 'Order #{orderNumber} is being prepared',
+      subjectReady: 'Order #{orderNumber} is ready',
+      subjectCancelled: 'Order #{orderNumber} was cancelled',
+      greeting: 'Hi {name},',
+      received: 'We received your order #{orderNumber} and sent it to the kitchen.',
+      preparing: 'The kitchen is preparing your order #{orderNumber}.',
+      readyPickup: 'Your order #{orderNumber} is ready for pickup at Maguey.',
+      readyDelivery: 'Your order #{orderNumber} is ready and on its way.',
+      cancelled: 'Your order #{orderNumber} was cancelled. Any payment will be refunded to your card.',
+      yourOrder: 'Your Order',
+      total: 'Total',
+      trackOrder: 'Track Your Order',
+      automated: 'This is an automated email. Please do not reply to this message.',
+      sms: 'Maguey Restaurant: {message} {url}',
+    },
+    upgrade: {
+      subject: 'Your ticket for {eventName} was upgraded to {ticketType}',
+      heading: 'Ticket Upgraded',
+      greeting: 'Hi {name},',
+      intro: 'Your ticket for {eventName} is now {ticketType}.',
+      from: 'Previous Ticket Type',
+      to: 'New Ticket Type',
+      paid: 'Upgrade Paid',
+      newQr: 'Your ticket has a new QR code. The old one no longer works, so use the ticket in your account at the door.',
+      viewTicket: 'View My Ticket',
+      automated: 'This is an automated email. Please do not reply to this message.',
+    },
+    resale: {
+      purchasedSubject: 'Your resale ticket for {eventName}',
+      purchasedHeading: 'Ticket Purchased',
+      greeting: 'Hi {name},',
+      purchasedIntro: 'You bought a {ticketType} ticket for {eventName} on resale.',
+      paid: 'Paid',
+      purchasedQr: 'The ticket is in your account with a new QR code. Show it at the door.',
+      viewTicket: 'View My Ticket',
+      soldSubject: 'Your ticket for {eventName} sold',
+      soldHeading: 'Ticket Sold',
+      soldIntro: 'Your {ticketType} ticket for {eventName} sold on resale.',
+      salePrice: 'Sale Price',
+      fee: 'Resale Fee',
+      proceeds: 'You Receive',
+      proceedsRefund: 'This amount is being refunded to the card you paid with and can take 5-10 business days to appear.',
+      proceedsCredit: 'This amount has been added to your loyalty credits for your next purchase.',
+      soldQr: 'Your QR code for this ticket no longer works.',
+      automated: 'This is an automated email. Please do not reply to this message.',
+    },
+    vipSplit: {
+      greeting: "Hi {name},",
+      inviteSubject: "{hostName} invited you to split a VIP table for {eventName}",
+      inviteHeading: "Your Share of the Table",
+      inviteIntro: "{hostName} booked Table {tableNumber} for {eventName} and is splitting the bill with you.",
+      yourShare: "Your Share",
+      payBy: "Pay By",
+      inviteNote: "Once you pay, you get your own guest pass for the table.",
+      payShare: "Pay My Share",
+      passSubject: "Your VIP guest pass for {eventName}",
+      passHeading: "You're on the Table",
+      passIntro: "Thanks for paying your share of Table {tableNumber} for {eventName}.",
+      paid: "Paid",
+      passNote: "Show this pass at the VIP entrance. The table is confirmed once everyone has paid or the payment deadline passes.",
+      viewPass: "View My Pass",
+      settledSubject: "Your VIP table for {eventName} is confirmed",
+      settledHeading: "Table Confirmed",
+      collectedIntro: "Everyone has paid their share of Table {tableNumber} for {eventName}.",
+      chargedIntro: "Not every share of Table {tableNumber} for {eventName} was paid by the deadline, so the remaining {amount} was charged to your card.",
+      hostPasses: "Passes for the remaining spots at your table:",
+      viewDashboard: "View Guest List",
+      releasedSubject: "Your VIP table for {eventName} was released",
+      releasedHeading: "Table Released",
+      releasedIntro: "Not every share of Table {tableNumber} for {eventName} was paid by the deadline, so the table was released.",
+      releasedRefund: "Your payment of {amount} for the table is being refunded and can take 5-10 business days to appear.",
+      releasedNoCharge: "You have not been charged.",
+      releasedTicketKept: "Your entry ticket is still valid.",
+      automated: "This is an automated email. Please do not reply to this message.",
+    },
+    vipTab: {
+      greeting: "Hi {name},",
+      receiptSubject: "Your VIP table receipt for {eventName}",
+      receiptHeading: "Table Receipt",
+      receiptIntro: "Thanks for celebrating with us at Table {tableNumber} for {eventName}. Here is your bottle service tab.",
+      orders: "Bottle Orders",
+      minimumSpend: "Table Minimum",
+      minimumBalance: "Minimum Spend Balance",
+      total: "Total",
+      chargedCard: "This amount was charged to the card you booked with.",
+      paidVenue: "This tab was paid at the venue.",
+      nothingOwed: "Nothing was owed on this tab.",
+      automated: "This is an automated email. Please do not reply to this message.",
+    },
+    reschedule: {
+      greeting: 'Hi {name},',
+      subject: '{eventName} has moved to a new date',
+      heading: 'Event Rescheduled',
+      intro: '{eventName} has moved to a new date. Your tickets carry over to the new date, so there is nothing you need to do to keep them.',
+      previousDate: 'Was',
+      newDate: 'Now',
+      venueNote: 'Note from the venue',
+      refundOffer: "If you can't make the new date, you can ask for a full refund of {amount} until {deadline}.",
+      keepByDefault: "If you don't answer by then, you keep your tickets.",
+      choose: 'Keep or Refund',
+      refundedSubject: 'Your refund for {eventName}',
+      refundedHeading: 'Refund Issued',
+      refundedIntro: 'As you asked, your order for {eventName} has been refunded after the date change.',
+      refundedAmount: 'Refund',
+      refundedNote: 'The refund goes back to the card you paid with and can take 5-10 business days to appear. Your tickets for this event no longer work.',
+      automated: 'This is an automated email. Please do not reply to this message.',
+    },
+  },
+};
+
+export type TranslationCatalog = typeof en;
+
+const es: TranslationCatalog = {
+  common: {
+    language: 'Idioma',
+    backToEvents: 'Volver a eventos',
+    soldOut: 'Agotado',
+    buyTickets: 'Comprar boletos',
+    reserveYourTable: 'Reserva tu mesa',
+    total: 'Total',
+    guest: 'Invitado',
+    table: 'Mesa {number}',
+    tryAgain: 'Intentar de nuevo',
+    contactSupport: 'Contactar a soporte',
+    processing: 'Procesando...',
+    allRightsReserved: 'Todos los derechos reservados.',
+  },
+
+  nav: {
+    events: 'Eventos',
+    restaurant: 'Restaurante',
+    gallery: 'Galería',
+    contact: 'Contacto',
+    nightclub: 'Club nocturno',
+    aboutUs: 'Nosotros',
+    orderOnline: 'Ordenar en línea',
+    buyTickets: 'Comprar boletos',
+  },
+
+  errors: {
+    network_offline: 'No se pudo conectar. Por favor revisa tu conexión a internet.',
+    network_timeout: 'La solicitud tardó demasiado. Por favor intenta de nuevo.',
+    network_error: 'Ocurrió un error de conexión. Por favor intenta de nuevo.',
+    payment_failed: 'No se pudo procesar el pago. Por favor revisa los datos de tu tarjeta e intenta de nuevo.',
+    payment_declined: 'Tu tarjeta fue rechazada. Por favor usa otro método de pago.',
+    payment_expired: 'Tu sesión expiró. Por favor comienza de nuevo.',
+    purchase_login_required: 'Por favor inicia sesión para completar esta compra.',
+    purchase_blocked: 'No pudimos procesar esta compra. Por favor contacta a soporte.',
+    validation_error: 'Por favor revisa los errores del formulario.',
+    invalid_input: 'La información proporcionada no es válida. Por favor revísala e intenta de nuevo.',
+    auth_failed: 'No se pudo iniciar sesión. Por favor revisa tus credenciales.',
+    session_expired: 'Tu sesión expiró. Por favor inicia sesión de nuevo.',
+    scan_failed: 'No se pudo procesar el escaneo. Por favor intenta de nuevo.',
+    ticket_not_found: 'Boleto no encontrado. Por favor verifica el código.',
+    generic: 'Ocurrió un error. Si el problema continúa, por favor contacta a soporte.',
+  },
+
+  event: {
+    startTime: 'Hora de inicio @ {time}',
+    ageOnly: 'SOLO {age}',
+    locationType: 'Tipo de ubicación',
+    categoryVip: 'VIP',
+    categoryService: 'Servicio',
+    categorySections: 'Secciones',
+    categorySection: 'Sección',
+    categoryGeneral: 'Admisión general',
+    categoryGeneralShort: 'General',
+    option: '{count} opción',
+    options: '{count} opciones',
+    onlyLeft: '¡Solo quedan {count} a este precio!',
+    priceEndsIn: 'Este precio termina en {time}',
+    nextTierPrice: 'después {price}',
+    vipBottleService: 'Servicio de botella VIP',
+    vipBottleServiceDescription: 'Reserva una mesa premium con servicio de botella para tu grupo • Desde {price}',
+    tableNoEntry: 'La reservación de mesa no incluye la entrada al evento. Todos los invitados deben comprar boletos de admisión general.',
+    ageNotice: 'Todos los invitados deben tener al menos {age} años y presentar una identificación oficial vigente al momento del registro.',
+    shareText: '{name} en {venue} — {date}',
+    faq: 'Preguntas frecuentes',
+    policies: 'Políticas',
+    aboutThisEvent: 'Acerca de este evento',
+    femaleGeneralAdmission: 'Mujer - Admisión general',
+    maleGeneralAdmission: 'Hombre - Admisión general',
+    expeditedEntry: 'Admisión con entrada rápida',
+    vipGeneralAdmission: 'VIP - Admisión general',
+  },
+
+  checkout: {
+    title: 'Pago',
+    stepTickets: 'Boletos',
+    stepDetails: 'Datos',
+    stepPayment: 'Pago',
+    firstNameMin: 'El nombre debe tener al menos 2 caracteres',
+    lastNameMin: 'El apellido debe tener al menos 2 caracteres',
+    emailInvalid: 'Por favor ingresa un correo electrónico válido',
+    noEventSelected: 'No se seleccionó ningún evento',
+    eventNotFound: 'Evento no encontrado',
+    eventNotFoundTitle: 'Evento no encontrado',
+    eventNotFoundDescription: 'El evento que buscas no existe',
+    failedToLoadEvent: 'No se pudo cargar el evento',
+    promoInvalid: 'Este código promocional no es válido o ya expiró.',
+    promoApplied: 'Código {code} aplicado.',
+    promoValidateFailed: 'No se pudo validar el código promocional.',
+    promoNotStarted: 'Este código promocional aún no está activo.',
+    promoExpired: 'Este código promocional ya expiró.',
+    promoOutsideHours: 'Esta promoción solo es válida durante su horario de happy hour.',
+    promoNotForEvent: 'Este código promocional no es válido para este evento.',
+    promoNotForTickets: 'Este código promocional no aplica a los boletos seleccionados.',
+    promoMinQuantity: 'Agrega al menos {count} boletos elegibles para usar este código.',
+    promoMinSubtotal: 'Gasta al menos {amount} en boletos elegibles para usar este código.',
+    promoUsedUp: 'Este código promocional alcanzó su límite de usos.',
+    promoCustomerLimit: 'Ya usaste este código promocional.',
+    promoCodeUsed: 'Este código promocional ya fue canjeado.',
+    promoNoDiscount: 'Este código promocional no reduce el precio de tu pedido.',
+    promoNotCombinable: 'Este código no se puede combinar con la mejor oferta ya aplicada.',
+    loyaltyCredit: 'Crédito de lealtad',
+    useLoyaltyCredit: 'Usar mi crédito de lealtad de {amount}',
+    notOnSaleYet: 'Los boletos salen a la venta el {date}.',
+    earlyAccess: 'Acceso anticipado para miembros {tier}',
+    loyaltyTier: {
+      bronze: 'Bronce',
+      silver: 'Plata',
+      gold: 'Oro',
+      platinum: 'Platino',
+    },
+    selectTicket: 'Por favor selecciona al menos un boleto',
+    confirmAge: 'Por favor confirma la verificación de edad para continuar',
+    ticketsUnavailable: 'Los boletos ya no están disponibles',
+    checkoutFailed: 'No se pudo procesar la compra',
+    vipInvite: '¡Estás invitado a la mesa VIP de {name}!',
+    vipInviteGuests: 'Mesa {table} • {linked}/{capacity} invitados confirmados',
+    vipInviteCta: '¡Compra tu boleto para unirte a la fiesta!',
+    welcomeBack: '¡Bienvenido de nuevo! Recordamos tus datos.',
+    dateAtTime: '{date} a las {time}',
+    atVenue: 'en {venue}',
+    ageEventBadge: 'Evento {age} — Se requiere identificación válida',
+    includesFees: '(Incluye cargos e impuestos)',
+    soldCount: '• {sold}/{total} vendidos',
+    addTicket: 'Agregar {name}',
+    removeTicket: 'Quitar {name}',
+    vipExperience: 'Experiencia VIP',
+    premium: 'Premium',
+    vipExperienceDescription: 'Eleva tu noche con servicio de botella • Mesas desde {price}',
+    guestInformation: 'Información del invitado',
+    firstName: 'Nombre',
+    firstNamePlaceholder: 'Ingresa tu nombre',
+    lastName: 'Apellido',
+    lastNamePlaceholder: 'Ingresa tu apellido',
+    email: 'Correo electrónico',
+    emailPlaceholder: 'Ingresa tu correo',
+    emailHint: 'Tus boletos se enviarán a este correo',
+    ageVerificationRequired: 'Se requiere verificación de edad',
+    ageConfirmation: 'Confirmo que tengo {age}+ años y presentaré una identificación oficial vigente con foto al ingresar al lugar.',
+    backToTickets: 'Volver a boletos',
+    continueToPayment: 'Continuar al pago',
+    orderSummary: 'Resumen del pedido',
+    preparingPayment: 'Preparando el pago',
+    preparingPaymentDescription: 'Espera un momento mientras preparamos tu pago seguro...',
+    totalDue: 'Total a pagar',
+    subtotal: 'Subtotal',
+    fees: 'Cargos',
+    promo: 'Promoción ({code})',
+    promoPlaceholder: 'Código promocional',
+    checking: 'Verificando...',
+    apply: 'Aplicar',
+    clear: 'Quitar',
+    continueToDetails: 'Continuar a datos',
+    moreEvents: 'Más',
+    moreEventsHighlight: 'eventos',
+    live: 'En vivo',
+    moreEventsDescription: 'Descubre más experiencias para ti',
+    viewAll: 'Ver todos',
+    viewEvent: 'Ver evento',
+    tagline: 'La mejor experiencia de vida nocturna latina en Wilmington',
+    company: 'Empresa',
+    about: 'Nosotros',
+    blog: 'Blog',
+    discover: 'Descubrir',
+    fanSupport: 'Atención a fans',
+    legal: 'Legal',
+    privacyPolicy: 'Política de privacidad',
+    terms: 'Términos',
+    cookiePolicy: 'Política de cookies',
+    manageCookies: 'Administrar cookies',
+    resaleTitle: 'Boletos de reventa',
+    resaleDescription: 'Boletos de otros invitados a precio original o menos. El código QR del vendedor se reemplaza al comprar.',
+    resaleFaceValue: 'Precio original {price}',
+    resaleBuy: 'Comprar',
+    resaleSignIn: 'Inicia sesión para comprar un boleto de reventa.',
+    resaleFailed: 'No se pudo iniciar el pago de la reventa.',
+    resaleCanceled: 'Compra cancelada. No se te ha cobrado.',
+  },
+
+  scanner: {
+    valid: 'VÁLIDO',
+    vipEntry: 'ENTRADA VIP',
+    alreadyUsed: 'YA USADO',
+    invalid: 'INVÁLIDO',
+    overrideUsed: 'Anulación usada',
+    scanNext: 'Escanear siguiente',
+    languageDescription: 'Idioma de la pantalla del escáner',
+  },
+
+  email: {
+    ticket: {
+      subjectOne: 'Tu boleto para {eventName}',
+      subjectMany: 'Tus boletos para {eventName}',
+      title: 'Tus boletos - {eventName}',
+      paymentSuccessful: '¡Pago exitoso! Tus boletos están confirmados.',
+      greeting: 'Hola {name},',
+      intro: '¡Gracias por tu compra! Tus boletos digitales para {eventName} están listos.',
+      ticketType: 'Tipo de boleto',
+      ticketHolder: 'Titular del boleto',
+      venue: 'Lugar',
+      address: 'Dirección',
+      price: 'Precio',
+      presentQr: 'Presenta este código QR en la entrada',
+      qrAlt: 'Código QR para {ticketId}',
+      ticketId: 'ID del boleto',
+      importantInformation: 'Información importante',
+      idRequired: 'Se requiere identificación oficial vigente en la entrada',
+      arriveEarly: 'Llega 30 minutos antes de la hora del evento',
+      screenshot: 'Toma captura o descarga este correo para tenerlo sin conexión',
+      doNotShare: 'No compartas tu código QR con nadie',
+      nonRefundable: 'Los boletos no son transferibles ni reembolsables',
+      viewMyTickets: 'Ver mis boletos',
+      orderId: 'ID del pedido',
+      questions: 'Si tienes alguna pregunta, contáctanos en {email}',
+      automated: 'Este es un correo automático. Por favor no respondas a este mensaje.',
+      textThanks: '¡Gracias por tu compra, {name}!',
+      textConfirmed: 'Tus boletos para {eventName} están confirmados.',
+      textTickets: 'BOLETOS',
+      textTicket: 'Boleto {number}',
+      textEvent: 'Evento',
+      textEventId: 'ID del evento',
+      textDate: 'Fecha',
+      textAt: '{date} a las {time}',
+      textQrCode: 'Código QR',
+      textImportant: 'INFORMACIÓN IMPORTANTE',
+      textViewOnline: 'Ve tus boletos en línea: {url}',
+      orderConfirmedSubject: 'Tus boletos de Maguey - Pedido confirmado',
+      ticketHeading: 'Boleto {number}: {type}',
+      event: 'Evento',
+      date: 'Fecha',
+      time: 'Hora',
+      presentAtVenue: 'Presenta este boleto en el lugar. Tu código QR estará disponible en tu cuenta.',
+      qrInAccount: 'Tu código QR estará en el panel de tu cuenta',
+    },
+    vip: {
+      subject: 'Mesa VIP confirmada - {eventName}',
+      title: 'Reservación de mesa VIP - {eventName}',
+      heading: 'RESERVACIÓN DE MESA VIP',
+      subheading: 'Tu mesa exclusiva está confirmada',
+      paymentSuccessful: '¡Pago exitoso! Tu mesa VIP está reservada',
+      greeting: 'Estimado/a {name},',
+      intro: '¡Gracias por tu reservación de mesa VIP! Tu mesa exclusiva para {eventName} está confirmada.',
+      reservationNumber: 'Número de reservación',
+      tierTable: 'Mesa {tier}',
+      tierPremium: 'Premium',
+      tierStandard: 'Estándar',
+      tierRegular: 'Regular',
+      event: 'Evento',
+      date: 'Fecha',
+      time: 'Hora',
+      table: 'Mesa',
+      defaultTable: 'Mesa VIP',
+      location: 'Ubicación',
+      defaultLocation: 'Sección VIP',
+      guests: 'Invitados',
+      people: '{count} personas',
+      bottleService: 'Servicio de botella',
+      included: 'Incluido',
+      bottleChoice: 'Tu elección de botella',
+      totalPaid: 'Total pagado',
+      guestPasses: 'Pases de entrada para invitados',
+      guestPassesInstruction: 'Cada invitado necesita su propio código QR para entrar. Compártelos con tus invitados o muéstralos desde tu teléfono en la puerta.',
+      guestNumber: 'Invitado {number}',
+      guestQrAlt: 'Código QR del invitado {number}',
+      importantInformation: 'Información importante',
+      arriveEarly: 'Llega 30 minutos antes para preparar tu mesa y hacer el registro VIP',
+      idRequired: 'Se requiere identificación oficial vigente para todos los invitados',
+      ownQr: 'Cada invitado escanea su propio código QR al entrar',
+      screenshot: 'Toma captura de los códigos QR para tenerlos sin conexión',
+      tableHeld: 'Tu mesa se guardará por 1 hora después de abrir las puertas',
+      noRefunds: 'Sin reembolsos',
+      noRefundsDescription: 'Todas las reservaciones de mesa VIP son finales y no reembolsables.',
+      viewOnline: 'Ver reservación en línea',
+      venue: 'Lugar',
+      contactPhone: 'Teléfono de contacto',
+      questions: 'Si tienes alguna pregunta, contáctanos en {email}',
+      automated: 'Este es un correo automático. Por favor no respondas a este mensaje.',
+      textConfirmed: 'RESERVACIÓN DE MESA VIP CONFIRMADA',
+      textTableConfirmed: '¡Tu mesa VIP para {eventName} está confirmada!',
+      textDetails: 'DETALLES DE LA RESERVACIÓN',
+      textGuestPasses: 'PASES DE ENTRADA',
+      textImportant: 'INFORMACIÓN IMPORTANTE',
+      textNoRefunds: 'SIN REEMBOLSOS: Todas las reservaciones de mesa VIP son finales.',
+      textViewOnline: 'Ve tu reservación en línea: {url}',
+      textVenue: 'LUGAR',
+      tierFrontRow: 'Primera fila',
+      presentCode: 'Presenta este código en la entrada',
+      scanAtEntry: 'Escanea el código QR en la entrada',
+      viewPass: 'Ver pase en línea',
+      inviteHeading: 'Invita a tus invitados',
+      inviteDescription: 'Comparte este enlace con tus invitados para que compren sus boletos GA y queden vinculados a tu mesa VIP.',
+      tableCapacity: 'Capacidad de la mesa: {count} invitados',
+      doorsAt: 'Puertas a las 9 PM',
+      bottlesIncluded: 'Botellas incluidas',
+      bottles: '{count} botella(s)',
+      ownPass: 'Cada invitado presenta su propio pase al entrar',
+      guestPassesShare: 'Cada invitado necesita su propio pase para entrar. Compártelos con tus invitados o muéstralos desde tu teléfono en la puerta.',
+    },
+    restaurant: {
+      subjectReceived: 'Pedido #{orderNumber} recibido - Maguey Restaurant',
+      subjectPreparing: 'Tu pedido #{orderNumber} se está preparando',
+      subjectReady: 'Tu pedido #{orderNumber} está listo',
+      subjectCancelled: 'Tu pedido #{orderNumber} fue cancelado',
+      greeting: 'Hola {name},',
+      received: 'Recibimos tu pedido #{orderNumber} y lo enviamos a la cocina.',
+      preparing: 'La cocina está preparando tu pedido #{orderNumber}.',
+      readyPickup: 'Tu pedido #{orderNumber} está listo para recoger en Maguey.',
+      readyDelivery: 'Tu pedido #{orderNumber} está listo y va en camino.',
+      cancelled: 'Tu pedido #{orderNumber} fue cancelado. Cualquier pago será reembolsado a tu tarjeta.',
+      yourOrder: 'Tu pedido',
+      total: 'Total',
+      trackOrder: 'Sigue tu pedido',
+      automated: 'Este es un correo automático. Por favor no respondas a este mensaje.',
+      sms: 'Maguey Restaurant: {message} {url}',
+    },
+    upgrade: {
+      subject: 'Tu boleto para {eventName} fue mejorado a {ticketType}',
+      heading: 'Boleto mejorado',
+      greeting: 'Hola {name},',
+      intro: 'Tu boleto para {eventName} ahora es {ticketType}.',
+      from: 'Tipo de boleto anterior',
+      to: 'Nuevo tipo de boleto',
+      paid: 'Pago de la mejora',
+      newQr: 'Tu boleto tiene un nuevo código QR. El anterior ya no funciona, así que usa el boleto de tu cuenta en la puerta.',
+      viewTicket: 'Ver mi boleto',
+      automated: 'Este es un correo automático. Por favor no respondas a este mensaje.',
+    },
+    resale: {
+      purchasedSubject: 'Tu boleto de reventa para {eventName}',
+      purchasedHeading: 'Boleto comprado',
+      greeting: 'Hola {name},',
+      purchasedIntro: 'Compraste un boleto {ticketType} para {eventName} en reventa.',
+      paid: 'Pagado',
+      purchasedQr: 'El boleto está en tu cuenta con un nuevo código QR. Muéstralo en la puerta.',
+      viewTicket: 'Ver mi boleto',
+      soldSubject: 'Tu boleto para {eventName} se vendió',
+      soldHeading: 'Boleto vendido',
+      soldIntro: 'Tu boleto {ticketType} para {eventName} se vendió en reventa.',
+      salePrice: 'Precio de venta',
+      fee: 'Comisión de reventa',
+      proceeds: 'Recibes',
+      proceedsRefund: 'Este monto se reembolsará a la tarjeta con la que pagaste y puede tardar de 5 a 10 días hábiles en aparecer.',
+      proceedsCredit: 'Este monto se agregó a tus créditos de lealtad para tu próxima compra.',
+      soldQr: 'Tu código QR para este boleto ya no funciona.',
+      automated: 'Este es un correo automático. Por favor no respondas a este mensaje.',
+    },
+    vipSplit: {
+      greeting: "Hola {name},",
+      inviteSubject: "{hostName} te invitó a dividir una mesa VIP para {eventName}",
+      inviteHeading: "Tu parte de la mesa",
+      inviteIntro: "{hostName} reservó la Mesa {tableNumber} para {eventName} y está dividiendo la cuenta contigo.",
+      yourShare: "Tu parte",
+      payBy: "Paga antes de",
+      inviteNote: "Cuando pagues, recibirás tu propio pase de invitado para la mesa.",
+      payShare: "Pagar mi parte",
+      passSubject: "Tu pase de invitado VIP para {eventName}",
+      passHeading: "Estás en la mesa",
+      passIntro: "Gracias por pagar tu parte de la Mesa {tableNumber} para {eventName}.",
+      paid: "Pagado",
+      passNote: "Muestra este pase en la entrada VIP. La mesa se confirma cuando todos hayan pagado o pase la fecha límite de pago.",
+      viewPass: "Ver mi pase",
+      settledSubject: "Tu mesa VIP para {eventName} está confirmada",
+      settledHeading: "Mesa confirmada",
+      collectedIntro: "Todos pagaron su parte de la Mesa {tableNumber} para {eventName}.",
+      chargedIntro: "No todas las partes de la Mesa {tableNumber} para {eventName} se pagaron a tiempo, así que el resto de {amount} se cargó a tu tarjeta.",
+      hostPasses: "Pases para los lugares restantes de tu mesa:",
+      viewDashboard: "Ver lista de invitados",
+      releasedSubject: "Tu mesa VIP para {eventName} fue liberada",
+      releasedHeading: "Mesa liberada",
+      releasedIntro: "No todas las partes de la Mesa {tableNumber} para {eventName} se pagaron a tiempo, así que la mesa fue liberada.",
+      releasedRefund: "Tu pago de {amount} por la mesa se está reembolsando y puede tardar de 5 a 10 días hábiles en aparecer.",
+      releasedNoCharge: "No se te ha cobrado nada.",
+      releasedTicketKept: "Tu boleto de entrada sigue siendo válido.",
+      automated: "Este es un correo automático. Por favor no respondas a este mensaje.",
+    },
+    vipTab: {
+      greeting: "Hola {name},",
+      receiptSubject: "Tu recibo de mesa VIP para {eventName}",
+      receiptHeading: "Recibo de la mesa",
+      receiptIntro: "Gracias por celebrar con nosotros en la Mesa {tableNumber} para {eventName}. Aquí está la cuenta de tu servicio de botellas.",
+      orders: "Pedidos de botellas",
+      minimumSpend: "Consumo mínimo de la mesa",
+      minimumBalance: "Saldo del consumo mínimo",
+      total: "Total",
+      chargedCard: "Este monto se cargó a la tarjeta con la que reservaste.",
+      paidVenue: "Esta cuenta se pagó en el lugar.",
+      nothingOwed: "No se debía nada en esta cuenta.",
+      automated: "Este es un correo automático. Por favor no respondas a este mensaje.",
+    },
+    reschedule: {
+      greeting: 'Hola {name},',
+      subject: '{eventName} cambió de fecha',
+      heading: 'Evento reprogramado',
+      intro: '{eventName} cambió de fecha. Tus boletos siguen siendo válidos para la nueva fecha, así que no tienes que hacer nada para conservarlos.',
+      previousDate: 'Antes',
+      newDate: 'Ahora',
+      venueNote: 'Mensaje del lugar',
+      refundOffer: 'Si no puedes asistir en la nueva fecha, puedes pedir el reembolso completo de {amount} hasta el {deadline}.',
+      keepByDefault: 'Si no respondes antes de esa fecha, conservas tus boletos.',
+      choose: 'Conservar o reembolsar',
+      refundedSubject: 'Tu reembolso para {eventName}',
+      refundedHeading: 'Reembolso emitido',
+      refundedIntro: 'Como lo pediste, tu orden para {eventName} fue reembolsada tras el cambio de fecha.',
+      refundedAmount: 'Reembolso',
+      refundedNote: 'El reembolso se hace a la tarjeta con la que pagaste y puede tardar de 5 a 10 días hábiles en aparecer. Tus boletos para este evento ya no funcionan.',
+      automated: 'Este es un correo automático. Por favor no respondas a este mensaje.',
+    },
+  },
+};
+
+export const translations: Record<'en' | 'es', TranslationCatalog> = { en, es };
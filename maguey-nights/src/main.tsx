@@ -2,6 +2,7 @@ import { createRoot } from "react-dom/client";
 import * as Sentry from "@sentry/react";
 import App from "./App.tsx";
 import "./index.css";
+import { getLocale } from "./lib/i18n";
 import { setupErrorHandlers } from "./lib/errors";
 
 // Initialize Sentry first (before any errors can occur)
@@ -30,6 +31,9 @@ if (sentryDsn) {
 // Initialize error tracking
 setupErrorHandlers();
 
+// Apply the detected language (?lang=, saved choice or browser) before first render
+document.documentElement.lang = getLocale();
+
 const rootElement = document.getElementById("root");
 if (!rootElement) {
   console.error('Root element not found');
@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
 import Navigation from "@/components/Navigation";
 import Footer from "@/components/Footer";
 import { Button } from "@/components/ui/button";
@@ -10,6 +11,15 @@ import { Accordion, AccordionItem, AccordionTrigger, AccordionContent } from "@/
 import { Plus, Minus, ShoppingCart, Clock, MapPin, Phone, Mail, UtensilsCrossed, ChefHat, Users } from "lucide-react";
 import { motion } from "framer-motion";
 import { useStaticJsonLd, buildFAQSchema } from "@/lib/json-ld";
+import { useRestaurantMenu } from "@/hooks/useRestaurantMenu";
+import {
+  RESTAURANT_CART_KEY,
+  RESTAURANT_CUSTOMER_KEY,
+  getCartTotal,
+  type CartItem,
+  type MenuItem,
+  type RestaurantOrderType,
+} from "@/services/restaurantService";
 
 // Import images for gallery
 import venuePatio from "@/Pictures/venue-patio.jpg";
@@ -19,78 +29,6 @@ import social1 from "@/Pictures/social-1.jpg";
 import social2 from "@/Pictures/social-2.jpg";
 import social3 from "@/Pictures/social-3.jpg";
 
-interface MenuItem {
-  id: string;
-  name: string;
-  description: string;
-  price: number;
-  category: string;
-  salePrice?: number; // For seafood items with Sunday special pricing
-}
-
-interface CartItem extends MenuItem {
-  quantity: number;
-}
-
-const menuItems: MenuItem[] = [
-  // TACOS
-  { id: "t1", name: "Tacos Al Pastor", description: "Split grilled pork marinated in red sauce", price: 1.00, category: "tacos" },
-  { id: "t2", name: "Tacos De Asada", description: "Sliced grilled steak", price: 1.00, category: "tacos" },
-  { id: "t3", name: "Tacos De Carnitas", description: "Seasoned fried pork", price: 1.00, category: "tacos" },
-  { id: "t4", name: "Tacos Campechanos", description: "Mixed pastor and grilled steak (asada)", price: 1.00, category: "tacos" },
-  { id: "t5", name: "Tacos De Lengua", description: "Beef tongue tacos - a classic Mexican recipe", price: 2.50, category: "tacos" },
-  { id: "t6", name: "Tacos De Chorizo", description: "Pork sausage seasoned with traditional spices", price: 2.50, category: "tacos" },
-  { id: "t7", name: "Pollo A La Plancha", description: "Seasoned and grilled chicken tacos", price: 2.50, category: "tacos" },
-  { id: "t8", name: "Tacos Marisqueros (3)", description: "Fish or shrimp tacos", price: 11.99, salePrice: 17.99, category: "tacos" },
-  
-  // APPETIZERS
-  { id: "a1", name: "Tres Carnes Nachos", description: "Best Nachos In Town! Chorizo, beef & chicken", price: 14.00, category: "appetizers" },
-  
-  // PLATTERS (All served with rice and beans)
-  { id: "p1", name: "El Maguey Carne Asada", description: "Grilled beef steak - served with rice and beans", price: 14.00, category: "platters" },
-  { id: "p2", name: "Bistec A La Mexicana", description: "Mexican style beef steak - served with rice and beans", price: 14.00, category: "platters" },
-  { id: "p3", name: "Pechuga A La Plancha", description: "Grilled chicken breast - served with rice and beans", price: 13.00, category: "platters" },
-  { id: "p4", name: "Auténtico Mole Poblano", description: "Our authentic mole poblano sauce with chicken - served with rice and beans", price: 13.00, category: "platters" },
-  { id: "p5", name: "El Maguey Chilaquiles Verdes O Rojos", description: "Green or red chilaquiles con pollo y huevo (grilled chicken and eggs) - served with rice and beans", price: 13.00, category: "platters" },
-  { id: "p6", name: "Carne Asada", description: "Grilled beef - served with rice and beans", price: 14.00, category: "platters" },
-  
-  // FAJITAS
-  { id: "f1", name: "Fajitas De Camarón", description: "Shrimp fajitas", price: 15.00, category: "fajitas" },
-  { id: "f2", name: "Fajitas De Pollo", description: "Chicken fajitas", price: 12.00, category: "fajitas" },
-  { id: "f3", name: "Fajitas De Res", description: "Beef fajitas", price: 13.00, category: "fajitas" },
-  { id: "f4", name: "Fajitas Mixtas", description: "Pollo, Res Y Camarón - Chicken, beef and shrimp", price: 16.99, category: "fajitas" },
-  
-  // ANTOJITOS
-  { id: "an1", name: "Quesadilla Casera", description: "Steak, chicken or chorizo - served with rice and beans", price: 11.00, category: "antojitos" },
-  { id: "an2", name: "Cemita Cholula", description: "Steak, chicken or chorizo", price: 10.00, category: "antojitos" },
-  { id: "an3", name: "Torta", description: "Steak, chicken or chorizo", price: 9.00, category: "antojitos" },
-  { id: "an4", name: "Torta Cubana", description: "Cuban style torta", price: 12.00, category: "antojitos" },
-  { id: "an5", name: "El Burrito Diablito", description: "Our signature burrito", price: 10.00, category: "antojitos" },
-  { id: "an6", name: "Pancita De Res (Menudo)", description: "Beef stomach soup", price: 12.00, category: "antojitos" },
-  { id: "an7", name: "Cazuela El Maguey", description: "House specialties mix", price: 35.00, category: "antojitos" },
-  
-  // DOMINGOS MARISQUEROS (Seafood Sundays)
-  { id: "s1", name: "Sea Fries", description: "Crispy seafood fries", price: 4.99, category: "seafood" },
-  { id: "s2", name: "Aguachile", description: "House specialty shrimps", price: 16.99, salePrice: 22.99, category: "seafood" },
-  { id: "s3", name: "Cóctel De Camarón", description: "Shrimp cocktail", price: 12.99, salePrice: 18.99, category: "seafood" },
-  { id: "s4", name: "Caldo De Camarón", description: "Shrimp and vegetables soup", price: 12.99, salePrice: 18.99, category: "seafood" },
-  { id: "s5", name: "Camarones A La Mexicana", description: "Mexican style shrimps", price: 13.99, salePrice: 21.99, category: "seafood" },
-  { id: "s6", name: "Camarones Enchipotlados", description: "Shrimps seasoned with chipotle sauce", price: 13.99, salePrice: 21.99, category: "seafood" },
-  { id: "s7", name: "El Plebe", description: "A La Diabla (very spicy) or chipotle seasoned shrimps", price: 18.99, salePrice: 22.99, category: "seafood" },
-  { id: "s8", name: "La Mamalona", description: "Un six bien preparado con Pepino, Jicama, Piña, Tajín y 16 Camarones Jumbo", price: 38.99, salePrice: 58.99, category: "seafood" },
-  { id: "s9", name: "Caldo Siete Mares", description: "Seafood mix soup", price: 13.99, salePrice: 21.99, category: "seafood" },
-  
-  // KID'S MENU
-  { id: "k1", name: "Kid's Hot Dogs Con Papas", description: "2 hot dogs with french fries", price: 5.00, category: "kids" },
-  { id: "k2", name: "Kid's Chicken Quesadilla", description: "With french fries and rice", price: 5.00, category: "kids" },
-  { id: "k3", name: "Kid's Cheeseburger Con Papas", description: "With french fries", price: 5.00, category: "kids" },
-  
-  // BEBIDAS (Drinks)
-  { id: "d1", name: "Pina Colada", description: "Must be 21+ (Please show ID)", price: 8.00, category: "drinks" },
-  { id: "d2", name: "Margarita", description: "Must be 21+ (Please show ID)", price: 8.00, category: "drinks" },
-  { id: "d3", name: "El Jarrito Diablito", description: "Must be 21+ (Please show ID)", price: 10.00, category: "drinks" },
-];
-
 const restaurantFaqData = [
   {
     question: "What makes Maguey Delaware unique?",
@@ -111,9 +49,11 @@ const restaurantFaqData = [
 ];
 
 const Restaurant = () => {
+  const navigate = useNavigate();
+  const { categories: menuCategories, items: menuItems } = useRestaurantMenu();
   const [cart, setCart] = useState<CartItem[]>([]);
   const [isCartOpen, setIsCartOpen] = useState(false);
-  const [orderType, setOrderType] = useState<"pickup" | "delivery">("pickup");
+  const [orderType, setOrderType] = useState<RestaurantOrderType>("pickup");
   const [activeCategory, setActiveCategory] = useState("tacos");
   const [customerInfo, setCustomerInfo] = useState({
     name: "",
@@ -167,36 +107,21 @@ const Restaurant = () => {
     });
   };
 
-  const getTotalPrice = () => {
-    return cart.reduce((total, item) => {
-      const itemPrice = item.salePrice || item.price;
-      return total + itemPrice * item.quantity;
-    }, 0);
-  };
+  const getTotalPrice = () => getCartTotal(cart);
 
   const getTotalItems = () => {
     return cart.reduce((total, item) => total + item.quantity, 0);
   };
 
+  // Payment (and the delivery address) are collected on the checkout page
   const handleSubmitOrder = (e: React.FormEvent) => {
     e.preventDefault();
-    alert("Thank you for your order! We'll contact you shortly to confirm.");
-    setCart([]);
-    setCustomerInfo({ name: "", phone: "", email: "", specialInstructions: "" });
+    sessionStorage.setItem(RESTAURANT_CART_KEY, JSON.stringify(cart));
+    sessionStorage.setItem(RESTAURANT_CUSTOMER_KEY, JSON.stringify({ ...customerInfo, orderType }));
     setIsCartOpen(false);
+    navigate("/restaurant/checkout");
   };
 
-  const menuCategories = [
-    { id: "tacos", name: "🌮 TACOS" },
-    { id: "appetizers", name: "🧀 APPETIZERS (Aperitivos)" },
-    { id: "platters", name: "🍽️ PLATTERS (Platillos)" },
-    { id: "fajitas", name: "🌶️ FAJITAS" },
-    { id: "antojitos", name: "🫔 ANTOJITOS (Traditional Mexican)" },
-    { id: "seafood", name: "🦐 DOMINGOS MARISQUEROS (Seafood Sundays)" },
-    { id: "kids", name: "👶 KID'S MENU" },
-    { id: "drinks", name: "🍹 BEBIDAS (Drinks)" },
-  ];
-
   const getItemsByCategory = (category: string) => {
     return menuItems.filter((item) => item.category === category);
   };
@@ -749,7 +674,7 @@ const Restaurant = () => {
                       type="submit"
                       className="w-full bg-[#8B0000] hover:bg-[#A52A2A] text-white font-bold py-3"
                     >
-                      Place Order
+                      Continue to Payment
                     </Button>
                   </form>
                 </div>
@@ -1,27 +1,30 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import Navigation from "@/components/Navigation";
 import Footer from "@/components/Footer";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Plus, Minus, Trash2 } from "lucide-react";
+import { Plus, Minus, Trash2, Loader2 } from "lucide-react";
 import { motion } from "framer-motion";
-
-interface CartItem {
-  id: string;
-  name: string;
-  description: string;
-  price: number;
-  salePrice?: number;
-  quantity: number;
-}
+import { toast } from "@/hooks/use-toast";
+import {
+  RESTAURANT_CART_KEY,
+  RESTAURANT_CUSTOMER_KEY,
+  RESTAURANT_DELIVERY_FEE,
+  createRestaurantCheckout,
+  getCartTotal,
+  type CartItem,
+  type RestaurantOrderType,
+} from "@/services/restaurantService";
 
 const RestaurantCheckout = () => {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const [cart, setCart] = useState<CartItem[]>([]);
-  const [orderType, setOrderType] = useState<"pickup" | "delivery">("pickup");
+  const [orderType, setOrderType] = useState<RestaurantOrderType>("pickup");
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const [customerInfo, setCustomerInfo] = useState({
     name: "",
     phone: "",
@@ -33,21 +36,38 @@ const RestaurantCheckout = () => {
   useEffect(() => {
     window.scrollTo(0, 0);
     // Load cart from sessionStorage
-    const savedCart = sessionStorage.getItem("restaurantCart");
+    const savedCart = sessionStorage.getItem(RESTAURANT_CART_KEY);
     if (savedCart) {
       setCart(JSON.parse(savedCart));
     } else {
       // If no cart, redirect to menu
       navigate("/restaurant/menu");
     }
+
+    // Details entered in the Restaurant page cart sheet
+    const savedCustomer = sessionStorage.getItem(RESTAURANT_CUSTOMER_KEY);
+    if (savedCustomer) {
+      const { orderType: savedOrderType, ...info } = JSON.parse(savedCustomer);
+      setCustomerInfo((prev) => ({ ...prev, ...info }));
+      if (savedOrderType) setOrderType(savedOrderType);
+    }
   }, [navigate]);
 
+  useEffect(() => {
+    if (searchParams.get("canceled") === "true") {
+      toast({
+        title: "Payment cancelled",
+        description: "Your order was not placed. You can try again below.",
+      });
+    }
+  }, [searchParams]);
+
   const updateQuantity = (itemId: string, delta: number) => {
     setCart((prevCart) => {
       const updatedCart = prevCart.map((item) =>
         item.id === itemId ? { ...item, quantity: item.quantity + delta } : item
       ).filter((item) => item.quantity > 0);
-      sessionStorage.setItem("restaurantCart", JSON.stringify(updatedCart));
+      sessionStorage.setItem(RESTAURANT_CART_KEY, JSON.stringify(updatedCart));
       return updatedCart;
     });
   };
@@ -55,44 +75,40 @@ const RestaurantCheckout = () => {
   const removeFromCart = (itemId: string) => {
     setCart((prevCart) => {
       const updatedCart = prevCart.filter((item) => item.id !== itemId);
-      sessionStorage.setItem("restaurantCart", JSON.stringify(updatedCart));
+      sessionStorage.setItem(RESTAURANT_CART_KEY, JSON.stringify(updatedCart));
       return updatedCart;
     });
   };
 
-  const getTotalPrice = () => {
-    return cart.reduce((total, item) => {
-      const itemPrice = item.salePrice || item.price;
-      return total + itemPrice * item.quantity;
-    }, 0);
-  };
+  const getTotalPrice = () => getCartTotal(cart);
+  const deliveryFee = orderType === "delivery" ? RESTAURANT_DELIVERY_FEE : 0;
 
-  const handleSubmitOrder = (e: React.FormEvent) => {
+  const handleSubmitOrder = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (cart.length === 0) {
-      alert("Your cart is empty!");
-      return;
-    }
 
     if (!customerInfo.name || !customerInfo.phone || !customerInfo.email) {
-      alert("Please fill in your name, phone, and email.");
+      toast({ title: "Please fill in your name, phone, and email.", variant: "destructive" });
       return;
     }
 
     if (orderType === "delivery" && !customerInfo.address) {
-      alert("Please provide a delivery address.");
+      toast({ title: "Please provide a delivery address.", variant: "destructive" });
       return;
     }
 
-    const deliveryFee = orderType === "delivery" ? 5.00 : 0;
-    const total = getTotalPrice() + deliveryFee;
-    
-    // Here you would typically send the order to your backend
-    // Clear cart and redirect
-    sessionStorage.removeItem("restaurantCart");
-    alert("Thank you for your order! We'll contact you shortly to confirm.");
-    navigate("/restaurant");
+    setIsSubmitting(true);
+    try {
+      // Prices are recalculated server-side; the cart is cleared on the order status page
+      const { url } = await createRestaurantCheckout(cart, orderType, customerInfo);
+      window.location.href = url;
+    } catch (error) {
+      toast({
+        title: "Could not place order",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+      setIsSubmitting(false);
+    }
   };
 
   if (cart.length === 0) {
@@ -278,9 +294,17 @@ const RestaurantCheckout = () => {
                     />
                     <Button
                       type="submit"
+                      disabled={isSubmitting}
                       className="w-full bg-[#8B0000] hover:bg-[#A52A2A] text-white font-bold py-3"
                     >
-                      Place Order
+                      {isSubmitting ? (
+                        <>
+                          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                          Redirecting to payment...
+                        </>
+                      ) : (
+                        `Pay $${(getTotalPrice() + deliveryFee).toFixed(2)}`
+                      )}
                     </Button>
                   </form>
                 </CardContent>
@@ -315,13 +339,13 @@ const RestaurantCheckout = () => {
                     {orderType === "delivery" && (
                       <div className="flex justify-between items-center mb-2">
                         <span className="text-white/70">Delivery Fee</span>
-                        <span className="text-white">$5.00</span>
+                        <span className="text-white">${deliveryFee.toFixed(2)}</span>
                       </div>
                     )}
                     <div className="flex justify-between items-center pt-4 border-t border-white/10">
                       <span className="text-white text-lg font-bold">Total</span>
                       <span className="text-[#FFD700] text-xl font-black">
-                        ${(getTotalPrice() + (orderType === "delivery" ? 5.00 : 0)).toFixed(2)}
+                        ${(getTotalPrice() + deliveryFee).toFixed(2)}
                       </span>
                     </div>
                   </div>
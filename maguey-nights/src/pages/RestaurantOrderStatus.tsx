@@ -0,0 +1,227 @@
+import { useState, useEffect } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import Navigation from "@/components/Navigation";
+import Footer from "@/components/Footer";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CheckCircle2, ChefHat, Clock, Loader2, ShoppingBag, XCircle } from "lucide-react";
+import { motion } from "framer-motion";
+import {
+  RESTAURANT_CART_KEY,
+  RESTAURANT_CUSTOMER_KEY,
+  fetchRestaurantOrderStatus,
+  type RestaurantOrderStatus as OrderStatus,
+  type RestaurantOrderSummary,
+} from "@/services/restaurantService";
+
+const POLL_INTERVAL_MS = 15000;
+
+const steps: { status: OrderStatus; label: string; icon: typeof Clock }[] = [
+  { status: "received", label: "Received", icon: Clock },
+  { status: "preparing", label: "Preparing", icon: ChefHat },
+  { status: "ready", label: "Ready", icon: ShoppingBag },
+];
+
+const stepIndex = (status: OrderStatus) => {
+  if (status === "completed") return steps.length - 1;
+  return steps.findIndex((step) => step.status === status);
+};
+
+const RestaurantOrderStatus = () => {
+  const { orderId } = useParams<{ orderId: string }>();
+  const navigate = useNavigate();
+  const [order, setOrder] = useState<RestaurantOrderSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    window.scrollTo(0, 0);
+    // Landing here means Stripe accepted the payment
+    sessionStorage.removeItem(RESTAURANT_CART_KEY);
+    sessionStorage.removeItem(RESTAURANT_CUSTOMER_KEY);
+  }, []);
+
+  useEffect(() => {
+    if (!orderId) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+
+    const loadOrder = async () => {
+      try {
+        const data = await fetchRestaurantOrderStatus(orderId);
+        if (cancelled) return;
+        setOrder(data);
+        setError(data ? null : "We couldn't find this order.");
+
+        // Keep polling until the kitchen is done with it
+        if (data && !["ready", "completed", "cancelled"].includes(data.status)) {
+          timer = setTimeout(loadOrder, POLL_INTERVAL_MS);
+        }
+      } catch (err) {
+        if (cancelled) return;
+        console.error("Error loading restaurant order:", err);
+        setError("We couldn't load your order. Please refresh the page.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadOrder();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [orderId]);
+
+  const renderStatus = (current: RestaurantOrderSummary) => {
+    if (current.status === "pending_payment") {
+      return (
+        <div className="flex items-center justify-center gap-3 text-white/70 py-6">
+          <Loader2 className="w-5 h-5 animate-spin" />
+          Confirming your payment...
+        </div>
+      );
+    }
+
+    if (current.status === "cancelled") {
+      return (
+        <div className="text-center py-6">
+          <XCircle className="w-12 h-12 text-red-400 mx-auto mb-3" />
+          <p className="text-white font-semibold">This order was cancelled.</p>
+          <p className="text-white/60 text-sm mt-1">Any payment has been refunded to your card.</p>
+        </div>
+      );
+    }
+
+    const activeIndex = stepIndex(current.status);
+    return (
+      <div className="flex justify-between gap-2 py-6">
+        {steps.map((step, index) => {
+          const Icon = step.icon;
+          const reached = index <= activeIndex;
+          return (
+            <div key={step.status} className="flex-1 text-center">
+              <div
+                className={`w-12 h-12 rounded-full mx-auto mb-2 flex items-center justify-center ${
+                  reached ? "bg-[#8B0000] text-white" : "bg-white/10 text-white/40"
+                }`}
+              >
+                <Icon className="w-6 h-6" />
+              </div>
+              <p className={reached ? "text-white font-semibold" : "text-white/40"}>{step.label}</p>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-black">
+      <Navigation />
+
+      <section className="relative pt-32 pb-8 px-4 bg-black">
+        <div className="container mx-auto max-w-2xl text-center">
+          <motion.h1
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.6 }}
+            className="text-4xl md:text-5xl font-black text-white mb-4"
+          >
+            {order ? `ORDER #${order.order_number}` : "YOUR ORDER"}
+          </motion.h1>
+          {order && order.status !== "cancelled" && (
+            <p className="text-white/70 text-lg">
+              Thanks, {order.customer_name}! We'll email and text you as your order moves along.
+            </p>
+          )}
+        </div>
+      </section>
+
+      <section className="py-8 px-4 bg-black">
+        <div className="container mx-auto max-w-2xl">
+          {loading && (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-8 h-8 text-[#FFD700] animate-spin" />
+            </div>
+          )}
+
+          {!loading && error && (
+            <div className="text-center py-12">
+              <p className="text-white/70 mb-6">{error}</p>
+              <Button onClick={() => navigate("/restaurant/menu")} className="bg-[#8B0000] hover:bg-[#A52A2A] text-white">
+                Return to Menu
+              </Button>
+            </div>
+          )}
+
+          {!loading && order && (
+            <div className="space-y-6">
+              <Card className="bg-white/5 border-white/10">
+                <CardContent className="pt-6">
+                  {renderStatus(order)}
+                  {order.status === "ready" && (
+                    <p className="text-center text-[#FFD700] font-semibold">
+                      {order.order_type === "delivery"
+                        ? "Your order is on its way!"
+                        : "Your order is ready for pickup at Maguey."}
+                    </p>
+                  )}
+                  {order.status === "completed" && (
+                    <p className="text-center text-white/70 flex items-center justify-center gap-2">
+                      <CheckCircle2 className="w-4 h-4 text-green-400" />
+                      Enjoy your meal!
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card className="bg-white/5 border-white/10">
+                <CardHeader>
+                  <CardTitle className="text-white">
+                    {order.order_type === "delivery" ? "Delivery" : "Pickup"} Order
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    {order.items.map((item, index) => (
+                      <div key={index} className="flex justify-between text-sm">
+                        <span className="text-white/70">
+                          {item.name} x{item.quantity}
+                        </span>
+                        <span className="text-white">${Number(item.line_total).toFixed(2)}</span>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="border-t border-white/10 pt-4">
+                    <div className="flex justify-between items-center mb-2">
+                      <span className="text-white/70">Subtotal</span>
+                      <span className="text-white">${Number(order.subtotal).toFixed(2)}</span>
+                    </div>
+                    {Number(order.delivery_fee) > 0 && (
+                      <div className="flex justify-between items-center mb-2">
+                        <span className="text-white/70">Delivery Fee</span>
+                        <span className="text-white">${Number(order.delivery_fee).toFixed(2)}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between items-center pt-4 border-t border-white/10">
+                      <span className="text-white text-lg font-bold">Total</span>
+                      <span className="text-[#FFD700] text-xl font-black">${Number(order.total).toFixed(2)}</span>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </div>
+      </section>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default RestaurantOrderStatus;
@@ -0,0 +1,168 @@
+import { supabase } from '@/lib/supabase';
+import { getLocale } from '@/lib/i18n';
+
+/**
+ * Restaurant online ordering
+ *
+ * Menu is read from restaurant_menu_categories / restaurant_menu_items
+ * (edited in the scanner admin at /restaurant-menu). Orders are priced and
+ * paid through the create-restaurant-checkout Edge Function (Stripe
+ * Checkout), then tracked with get_restaurant_order_status.
+ */
+
+export const RESTAURANT_CART_KEY = 'restaurantCart';
+export const RESTAURANT_CUSTOMER_KEY = 'restaurantCustomer';
+
+/** Mirrors DELIVERY_FEE in supabase/functions/_shared/restaurant-orders.ts */
+export const RESTAURANT_DELIVERY_FEE = 5;
+
+export interface MenuCategory {
+  id: string;
+  name: string;
+}
+
+export interface MenuItem {
+  id: string;
+  name: string;
+  description: string;
+  price: number;
+  category: string;
+  salePrice?: number;
+}
+
+export interface CartItem extends MenuItem {
+  quantity: number;
+}
+
+export type RestaurantOrderType = 'pickup' | 'delivery';
+
+export type RestaurantOrderStatus =
+  | 'pending_payment'
+  | 'received'
+  | 'preparing'
+  | 'ready'
+  | 'completed'
+  | 'cancelled';
+
+export interface RestaurantOrderSummary {
+  id: string;
+  order_number: string;
+  status: RestaurantOrderStatus;
+  order_type: RestaurantOrderType;
+  /** First name only */
+  customer_name: string;
+  subtotal: number;
+  delivery_fee: number;
+  total: number;
+  created_at: string;
+  paid_at: string | null;
+  ready_at: string | null;
+  items: Array<{ name: string; quantity: number; line_total: number }>;
+}
+
+export interface RestaurantCustomerInfo {
+  name: string;
+  phone: string;
+  email: string;
+  address: string;
+  specialInstructions: string;
+}
+
+/**
+ * Fetch active categories and available items, in menu order
+ */
+export async function fetchRestaurantMenu(): Promise<{ categories: MenuCategory[]; items: MenuItem[] }> {
+  const [categoriesResult, itemsResult] = await Promise.all([
+    supabase
+      .from('restaurant_menu_categories')
+      .select('id, name')
+      .eq('is_active', true)
+      .order('sort_order', { ascending: true }),
+    supabase
+      .from('restaurant_menu_items')
+      .select('id, category_id, name, description, price, sale_price')
+      .eq('is_available', true)
+      .order('sort_order', { ascending: true }),
+  ]);
+
+  if (categoriesResult.error) {
+    throw new Error(`Failed to load menu: ${categoriesResult.error.message}`);
+  }
+  if (itemsResult.error) {
+    throw new Error(`Failed to load menu: ${itemsResult.error.message}`);
+  }
+
+  const items = (itemsResult.data || []).map((row) => ({
+    id: row.id,
+    name: row.name,
+    description: row.description || '',
+    price: Number(row.price),
+    category: row.category_id,
+    ...(row.sale_price !== null && { salePrice: Number(row.sale_price) }),
+  }));
+
+  return { categories: categoriesResult.data || [], items };
+}
+
+export function getCartTotal(cart: CartItem[]): number {
+  return cart.reduce((total, item) => total + (item.salePrice || item.price) * item.quantity, 0);
+}
+
+/**
+ * Create the order and a Stripe Checkout session. Returns the Stripe URL to redirect to.
+ */
+export async function createRestaurantCheckout(
+  cart: CartItem[],
+  orderType: RestaurantOrderType,
+  customer: RestaurantCustomerInfo
+): Promise<{ url: string; orderId: string }> {
+  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+  const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error('Online ordering is not configured');
+  }
+
+  const origin = window.location.origin;
+  let response: Response;
+  try {
+    response = await fetch(`${supabaseUrl}/functions/v1/create-restaurant-checkout`, {
+      method: 'POST',
+      headers: {
+        'apikey': supabaseAnonKey,
+        'Authorization': `Bearer ${supabaseAnonKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        items: cart.map((item) => ({ menuItemId: item.id, quantity: item.quantity })),
+        orderType,
+        customer,
+        // :orderId is filled in by the Edge Function
+        successUrl: `${origin}/restaurant/order/:orderId`,
+        cancelUrl: `${origin}/restaurant/checkout`,
+        locale: getLocale(),
+      }),
+    });
+  } catch {
+    throw new Error('Network error — please check your connection');
+  }
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.url) {
+    throw new Error(data.error || 'Could not start checkout');
+  }
+
+  return { url: data.url, orderId: data.orderId };
+}
+
+/**
+ * Public order status for the tracking page
+ */
+export async function fetchRestaurantOrderStatus(orderId: string): Promise<RestaurantOrderSummary | null> {
+  const { data, error } = await supabase.rpc('get_restaurant_order_status', { p_order_id: orderId });
+
+  if (error) {
+    throw new Error(`Failed to load order: ${error.message}`);
+  }
+  return (data as RestaurantOrderSummary) || null;
+}
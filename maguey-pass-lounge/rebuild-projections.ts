@@ -0,0 +1,126 @@
+// rebuild-projections.ts
+// Catch up, rebuild or verify the ticket event projections (src/lib/projections)
+// Needs SUPABASE_SERVICE_ROLE_KEY in .env
+//
+// Run with:
+//   npm run projections -- status
+//   npm run projections -- catch-up [projection]
+//   npm run projections -- rebuild <projection|all>
+//   npm run projections -- check <event-id>
+//   npm run projections -- follow
+
+import { createClient } from '@supabase/supabase-js';
+import { config } from 'dotenv';
+import { resolve, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import {
+  ProjectionRunner,
+  checkProjectionConsistency,
+  defaultProjections,
+  type CatchUpResult,
+} from './src/lib/projections';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+config({ path: resolve(__dirname, '.env') });
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceKey) {
+  console.error('❌ Missing Supabase credentials (need SERVICE_ROLE_KEY in .env)');
+  process.exit(1);
+}
+
+const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+});
+
+const runner = new ProjectionRunner(defaultProjections, { client: supabaseAdmin });
+
+function printResult(result: CatchUpResult) {
+  console.log(
+    `✅ ${result.projection}: ${result.eventsApplied} events applied, ` +
+    `position ${result.lastPosition} (${result.durationMs}ms)`
+  );
+}
+
+async function main() {
+  const [command = 'status', arg] = process.argv.slice(2);
+
+  switch (command) {
+    case 'status': {
+      const checkpoints = await runner.getCheckpoints();
+      for (const checkpoint of checkpoints) {
+        console.log(
+          `${checkpoint.projection_name.padEnd(20)} ${checkpoint.status.padEnd(10)} ` +
+          `position ${checkpoint.last_position}, ${checkpoint.events_applied} events` +
+          (checkpoint.last_error ? `\n   ❌ ${checkpoint.last_error}` : '')
+        );
+      }
+      break;
+    }
+
+    case 'catch-up': {
+      const results = await runner.catchUp(arg);
+      results.forEach(printResult);
+      break;
+    }
+
+    case 'rebuild': {
+      if (!arg) {
+        console.error(`Usage: rebuild <${runner.names.join('|')}|all>`);
+        process.exit(1);
+      }
+      const names = arg === 'all' ? runner.names : [arg];
+      for (const name of names) {
+        console.log(`🔄 Rebuilding ${name} from position 0...`);
+        printResult(await runner.rebuild(name));
+      }
+      break;
+    }
+
+    case 'check': {
+      if (!arg) {
+        console.error('Usage: check <event-id>');
+        process.exit(1);
+      }
+      await runner.catchUp();
+      const report = await checkProjectionConsistency(arg, supabaseAdmin);
+      console.log(`🔍 ${report.ticketsChecked} tickets checked for ${report.eventId}`);
+      if (report.consistent) {
+        console.log('✅ Projections match the tickets table');
+        break;
+      }
+      for (const issue of report.issues) {
+        const subject = issue.ticketId ?? issue.metric;
+        console.log(`❌ ${issue.kind} ${subject}: projected ${issue.projected}, tickets table ${issue.actual}`);
+      }
+      process.exit(2);
+      break;
+    }
+
+    case 'follow': {
+      console.log('👀 Following ticket_events (Ctrl+C to stop)...');
+      const stop = runner.start();
+      process.on('SIGINT', () => {
+        stop();
+        process.exit(0);
+      });
+      return;
+    }
+
+    default:
+      console.error(`Unknown command: ${command}`);
+      process.exit(1);
+  }
+}
+
+main().catch((error: unknown) => {
+  console.error('❌ Error:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
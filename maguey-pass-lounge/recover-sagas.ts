@@ -0,0 +1,92 @@
+// recover-sagas.ts
+// Resume or roll back saga executions whose runner died (src/lib/sagas/saga-recovery.ts)
+// Needs SUPABASE_SERVICE_ROLE_KEY in .env
+//
+// Run with:
+//   npm run sagas:recover                    (one pass over stalled sagas)
+//   npm run sagas:recover -- follow          (poll every minute)
+//   npm run sagas:recover -- retry <saga-id>
+//   npm run sagas:recover -- compensate <saga-id>
+
+import { createClient } from '@supabase/supabase-js';
+import { config } from 'dotenv';
+import { resolve, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { hostname } from 'os';
+import { SagaRecoveryWorker, type RecoveryOutcome } from './src/lib/sagas/saga-recovery';
+import { orderSagaDefinition } from './src/lib/sagas/order-saga';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+config({ path: resolve(__dirname, '.env') });
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceKey) {
+  console.error('❌ Missing Supabase credentials (need SERVICE_ROLE_KEY in .env)');
+  process.exit(1);
+}
+
+const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+});
+
+const worker = new SagaRecoveryWorker([orderSagaDefinition], {
+  client: supabaseAdmin,
+  workerId: `cli:${hostname()}:${process.pid}`,
+});
+
+function printOutcome(outcome: RecoveryOutcome) {
+  const icon = outcome.success ? '✅' : outcome.action === 'skipped' ? '⏭️ ' : '❌';
+  console.log(`${icon} ${outcome.sagaId} (${outcome.sagaName}) ${outcome.action}: ${outcome.reason}`);
+  if (outcome.error) console.log(`   ${outcome.error}`);
+  if (outcome.needsReview) console.log('   ⚠️  Needs manual review');
+}
+
+async function main() {
+  const [command = 'once', arg] = process.argv.slice(2);
+
+  switch (command) {
+    case 'once': {
+      const outcomes = await worker.recoverStalled();
+      if (!outcomes.length) console.log('✅ No stalled sagas');
+      outcomes.forEach(printOutcome);
+      if (outcomes.some((outcome) => outcome.needsReview)) process.exit(2);
+      break;
+    }
+
+    case 'retry':
+    case 'compensate': {
+      if (!arg) {
+        console.error(`Usage: ${command} <saga-id>`);
+        process.exit(1);
+      }
+      printOutcome(command === 'retry' ? await worker.retry(arg) : await worker.compensate(arg));
+      break;
+    }
+
+    case 'follow': {
+      console.log('👀 Recovering stalled sagas every minute (Ctrl+C to stop)...');
+      const stop = worker.start();
+      process.on('SIGINT', () => {
+        stop();
+        process.exit(0);
+      });
+      return;
+    }
+
+    default:
+      console.error(`Unknown command: ${command}`);
+      process.exit(1);
+  }
+}
+
+main().catch((error: unknown) => {
+  console.error('❌ Error:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -34,7 +34,10 @@ import VipPayment from "./pages/VipPayment";
 import VipCheckoutSuccess from "./pages/VipCheckoutSuccess";
 import OwnerLogin from "./pages/auth/OwnerLogin";
 import VIPPassView from "./pages/VIPPassView";
+import VIPSharePayment from "./pages/VIPSharePayment";
 import VIPGuestDashboard from "./pages/VIPGuestDashboard";
+import RescheduleResponse from "./pages/RescheduleResponse";
+import Unsubscribe from "./pages/Unsubscribe";
 
 // Redirect component for old EventDetail route - redirects to checkout with event ID
 const EventDetailRedirect = () => {
@@ -83,7 +86,10 @@ const App = () => {
               <Route path="/vip-confirmation" element={<VipTableConfirmation />} />
               <Route path="/vip-checkout-success" element={<VipCheckoutSuccess />} />
               <Route path="/vip-pass/:token" element={<VIPPassView />} />
+              <Route path="/vip-share/:token" element={<VIPSharePayment />} />
               <Route path="/vip/dashboard/:reservationId" element={<VIPGuestDashboard />} />
+              <Route path="/reschedule/:token" element={<RescheduleResponse />} />
+              <Route path="/unsubscribe/:token" element={<Unsubscribe />} />
               <Route
                 path="/account"
                 element={
@@ -9,7 +9,11 @@ const navItems = [
   { to: "/admin/guest-lists", label: "Guest Lists" },
   { to: "/admin/vip-tables", label: "🍾 VIP Tables" },
   { to: "/admin/events", label: "💲 Pricing Tiers" },
+  { to: "/admin/promotions", label: "🏷️ Promotions" },
   { to: "/admin/reports", label: "Reports" },
+  { to: "/admin/sagas", label: "Stuck Sagas" },
+  { to: "/admin/disputes", label: "Disputes" },
+  { to: "/admin/resale", label: "Resale" },
 ];
 
 export function AdminSidebar() {
@@ -7,11 +7,12 @@ import {
   BreadcrumbSeparator,
 } from "@/components/ui/breadcrumb";
 import { Check } from "lucide-react";
+import { useLocale } from "@/hooks/use-locale";
 
 const CHECKOUT_STEPS = [
-  { id: 1, label: "Tickets" },
-  { id: 2, label: "Details" },
-  { id: 3, label: "Payment" },
+  { id: 1, label: "Tickets", labelKey: "checkout.stepTickets" },
+  { id: 2, label: "Details", labelKey: "checkout.stepDetails" },
+  { id: 3, label: "Payment", labelKey: "checkout.stepPayment" },
 ] as const;
 
 interface CheckoutStepperProps {
@@ -24,6 +25,8 @@ interface CheckoutStepperProps {
  * Per context decision: "Breadcrumb trail progress indicator (Tickets > Details > Payment)"
  */
 export function CheckoutStepper({ currentStep, onStepClick }: CheckoutStepperProps) {
+  const { t } = useLocale();
+
   return (
     <Breadcrumb className="mb-6">
       <BreadcrumbList>
@@ -43,14 +46,14 @@ export function CheckoutStepper({ currentStep, onStepClick }: CheckoutStepperPro
                   className="flex items-center gap-1 text-green-600 hover:text-green-500"
                 >
                   <Check className="h-4 w-4" />
-                  {step.label}
+                  {t(step.labelKey)}
                 </BreadcrumbLink>
               ) : isCurrent ? (
                 <BreadcrumbPage className="font-semibold">
-                  {step.label}
+                  {t(step.labelKey)}
                 </BreadcrumbPage>
               ) : (
-                <span className="text-muted-foreground">{step.label}</span>
+                <span className="text-muted-foreground">{t(step.labelKey)}</span>
               )}
               {index < CHECKOUT_STEPS.length - 1 && <BreadcrumbSeparator />}
             </BreadcrumbItem>
@@ -0,0 +1,103 @@
+import { useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Loader2, Tag } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { useLocale } from "@/hooks/use-locale";
+import { formatCurrency } from "@/lib/i18n";
+import type { PublicResaleListing } from "@/lib/resale";
+import { getEventResaleListings, startResaleCheckout } from "@/lib/resale-service";
+
+interface ResaleListingsProps {
+  eventId: string;
+}
+
+/**
+ * Tickets other guests have put up for resale, shown under the ticket
+ * selection. Renders nothing when none are on sale.
+ */
+export function ResaleListings({ eventId }: ResaleListingsProps) {
+  const { user } = useAuth();
+  const { locale, t } = useLocale();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [listings, setListings] = useState<PublicResaleListing[]>([]);
+  const [buyingId, setBuyingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getEventResaleListings(eventId)
+      .then((result) => {
+        if (!cancelled) setListings(result);
+      })
+      .catch((error) => console.error("Error loading resale listings:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [eventId]);
+
+  // Returning from a cancelled resale Stripe Checkout
+  useEffect(() => {
+    if (searchParams.get("resale_canceled") !== "true") return;
+    toast.info(t("checkout.resaleCanceled"));
+    const next = new URLSearchParams(searchParams);
+    next.delete("resale_canceled");
+    setSearchParams(next, { replace: true });
+  }, [searchParams, setSearchParams, t]);
+
+  const handleBuy = async (listingId: string) => {
+    setBuyingId(listingId);
+    try {
+      await startResaleCheckout(listingId, locale);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t("checkout.resaleFailed"));
+      setBuyingId(null);
+    }
+  };
+
+  if (listings.length === 0) return null;
+
+  return (
+    <div className="mt-6 glass-panel rounded-sm border border-white/10 p-6">
+      <div className="flex items-center gap-3 mb-2">
+        <Tag className="w-5 h-5 text-copper-400" />
+        <h3 className="font-serif text-lg text-stone-100">{t("checkout.resaleTitle")}</h3>
+      </div>
+      <p className="text-stone-400 text-sm mb-4">{t("checkout.resaleDescription")}</p>
+
+      <div className="divide-y divide-white/10">
+        {listings.map((listing) => (
+          <div key={listing.listing_id} className="flex items-center justify-between gap-4 py-3">
+            <div className="min-w-0">
+              <p className="text-stone-100 font-medium">{listing.ticket_type_name}</p>
+              <p className="text-stone-500 text-xs">
+                {t("checkout.resaleFaceValue", { price: formatCurrency(listing.face_value, locale) })}
+              </p>
+            </div>
+            <div className="flex items-center gap-3 shrink-0">
+              <span className="text-copper-400 font-semibold">{formatCurrency(listing.price, locale)}</span>
+              {user && (
+                <button
+                  type="button"
+                  onClick={() => handleBuy(listing.listing_id)}
+                  disabled={buyingId !== null}
+                  className="inline-flex items-center justify-center gap-2 py-2 px-4 bg-copper-400 hover:bg-copper-500 text-forest-950 text-sm font-semibold rounded-sm transition-all duration-200 disabled:opacity-50"
+                >
+                  {buyingId === listing.listing_id && <Loader2 className="w-4 h-4 animate-spin" />}
+                  {t("checkout.resaleBuy")}
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {!user && (
+        <p className="mt-4 text-stone-500 text-xs text-center border-t border-white/5 pt-4">
+          <Link to="/login" className="text-copper-400 hover:underline">
+            {t("checkout.resaleSignIn")}
+          </Link>
+        </p>
+      )}
+    </div>
+  );
+}
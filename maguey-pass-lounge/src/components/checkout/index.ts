@@ -1,2 +1,3 @@
 export { CheckoutStepper, CHECKOUT_STEPS } from "./CheckoutStepper";
 export { FadeTransition, AnimatedStep } from "./FadeTransition";
+export { ResaleListings } from "./ResaleListings";
@@ -0,0 +1,217 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Award, Coins, Loader2, Sparkles, Zap, DoorOpen, Clock } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  convertPointsToCredits,
+  getLoyaltyLedger,
+  getLoyaltyStatus,
+  getLoyaltyTiers,
+  getNextTierProgress,
+  POINTS_PER_CREDIT,
+  type LoyaltyLedgerEntry,
+  type LoyaltyLedgerEntryType,
+  type LoyaltyTierRule,
+  type UserLoyalty,
+} from '@/lib/loyalty-service';
+
+const TIER_BADGE_CLASSES: Record<UserLoyalty['membership_tier'], string> = {
+  bronze: 'bg-amber-700/20 text-amber-600 border-amber-700/40',
+  silver: 'bg-slate-400/20 text-slate-300 border-slate-400/40',
+  gold: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/40',
+  platinum: 'bg-cyan-400/20 text-cyan-300 border-cyan-400/40',
+};
+
+const ENTRY_LABELS: Record<LoyaltyLedgerEntryType, string> = {
+  earn: 'Earned',
+  reverse: 'Refund',
+  redeem: 'Redeemed',
+  release: 'Returned',
+  convert: 'Converted',
+  tier_change: 'Tier',
+  adjust: 'Adjustment',
+};
+
+const formatTier = (tier: string) => tier.charAt(0).toUpperCase() + tier.slice(1);
+
+function TierPerks({ rule }: { rule: LoyaltyTierRule }) {
+  const perks = [
+    rule.points_multiplier > 1 && { icon: Sparkles, label: `${rule.points_multiplier}× points on every order` },
+    rule.early_access_hours > 0 && { icon: Clock, label: `Tickets ${rule.early_access_hours}h before general sale` },
+    rule.free_reentry && { icon: DoorOpen, label: 'Free re-entry at the door' },
+    rule.skip_line && { icon: Zap, label: 'Skip the line' },
+  ].filter(Boolean) as { icon: typeof Sparkles; label: string }[];
+
+  if (perks.length === 0) {
+    return <p className="text-sm text-muted-foreground">1 point for every $1 spent</p>;
+  }
+
+  return (
+    <ul className="space-y-1">
+      {perks.map(({ icon: Icon, label }) => (
+        <li key={label} className="flex items-center gap-2 text-sm">
+          <Icon className="w-4 h-4 text-primary" />
+          {label}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function LoyaltySection({ userId, email }: { userId: string | null; email: string }) {
+  const [loyalty, setLoyalty] = useState<UserLoyalty | null>(null);
+  const [tiers, setTiers] = useState<LoyaltyTierRule[]>([]);
+  const [ledger, setLedger] = useState<LoyaltyLedgerEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [converting, setConverting] = useState(false);
+
+  const loadLoyalty = useCallback(async () => {
+    const [status, tierRules] = await Promise.all([getLoyaltyStatus(userId, email), getLoyaltyTiers()]);
+    setLoyalty(status);
+    setTiers(tierRules);
+    setLedger(status ? await getLoyaltyLedger(status.id) : []);
+    setLoading(false);
+  }, [userId, email]);
+
+  useEffect(() => {
+    if (!email) return;
+    loadLoyalty();
+  }, [email, loadLoyalty]);
+
+  const convertiblePoints = loyalty
+    ? Math.floor(loyalty.points / POINTS_PER_CREDIT) * POINTS_PER_CREDIT
+    : 0;
+
+  const handleConvert = async () => {
+    setConverting(true);
+    try {
+      await convertPointsToCredits(convertiblePoints);
+      toast.success(`Converted ${convertiblePoints} points to $${(convertiblePoints / POINTS_PER_CREDIT).toFixed(2)} credit`);
+      await loadLoyalty();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to convert points');
+    } finally {
+      setConverting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card className="p-8 border-border/50 bg-card text-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary mx-auto" />
+      </Card>
+    );
+  }
+
+  const currentRule = tiers.find((rule) => rule.tier === (loyalty?.membership_tier ?? 'bronze'));
+  const next = loyalty ? getNextTierProgress(loyalty, tiers) : null;
+  const spendProgress = next && next.tier.min_spent > 0
+    ? Math.min(100, (Number(loyalty?.total_spent) / next.tier.min_spent) * 100)
+    : 100;
+
+  return (
+    <Card className="p-6 border-border/50 bg-card" data-cy="loyalty-section">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <Award className="w-6 h-6 text-primary" />
+          <h2 className="text-2xl font-bold">Maguey Rewards</h2>
+        </div>
+        <Badge variant="outline" className={TIER_BADGE_CLASSES[loyalty?.membership_tier ?? 'bronze']}>
+          {formatTier(loyalty?.membership_tier ?? 'bronze')}
+        </Badge>
+      </div>
+
+      {!loyalty ? (
+        <p className="text-muted-foreground">
+          Earn 1 point for every $1 you spend on tickets. {POINTS_PER_CREDIT} points = $1 credit you can use at checkout.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-4 mb-6">
+            <div>
+              <p className="text-xs text-muted-foreground uppercase">Points</p>
+              <p className="text-2xl font-bold">{loyalty.points.toLocaleString()}</p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground uppercase">Credit</p>
+              <p className="text-2xl font-bold">${Number(loyalty.credits).toFixed(2)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground uppercase">Lifetime spend</p>
+              <p className="text-2xl font-bold">${Number(loyalty.total_spent).toFixed(2)}</p>
+            </div>
+          </div>
+
+          {next && (
+            <div className="mb-6">
+              <div className="flex justify-between text-sm mb-2">
+                <span>Next: {formatTier(next.tier.tier)}</span>
+                <span className="text-muted-foreground">
+                  {[
+                    next.spendRemaining > 0 && `$${next.spendRemaining.toFixed(2)} to go`,
+                    next.ordersRemaining > 0 && `${next.ordersRemaining} more ${next.ordersRemaining === 1 ? 'order' : 'orders'}`,
+                  ].filter(Boolean).join(' · ') || 'Unlocks with your next order'}
+                </span>
+              </div>
+              <Progress value={spendProgress} />
+            </div>
+          )}
+
+          <Button
+            variant="outline"
+            size="sm"
+            className="mb-6"
+            onClick={handleConvert}
+            disabled={converting || convertiblePoints === 0}
+          >
+            {converting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Coins className="w-4 h-4 mr-2" />}
+            {convertiblePoints > 0
+              ? `Convert ${convertiblePoints} points to $${(convertiblePoints / POINTS_PER_CREDIT).toFixed(2)} credit`
+              : `Convert points (${POINTS_PER_CREDIT} minimum)`}
+          </Button>
+        </>
+      )}
+
+      {currentRule && (
+        <div className="mb-6">
+          <p className="text-sm font-medium mb-2">Your perks</p>
+          <TierPerks rule={currentRule} />
+        </div>
+      )}
+
+      {ledger.length > 0 && (
+        <div>
+          <p className="text-sm font-medium mb-2">Points history</p>
+          <div className="divide-y divide-border/50" data-cy="loyalty-ledger">
+            {ledger.map((entry) => (
+              <div key={entry.id} className="flex items-center justify-between py-2 text-sm">
+                <div>
+                  <span className="font-medium">{ENTRY_LABELS[entry.entry_type]}</span>
+                  {entry.description && <span className="text-muted-foreground"> · {entry.description}</span>}
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(entry.created_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                  </p>
+                </div>
+                <div className="text-right">
+                  {entry.points !== 0 && (
+                    <p className={entry.points > 0 ? 'text-green-500' : 'text-red-500'}>
+                      {entry.points > 0 ? '+' : ''}{entry.points} pts
+                    </p>
+                  )}
+                  {entry.credits !== 0 && (
+                    <p className={entry.credits > 0 ? 'text-green-500' : 'text-red-500'}>
+                      {entry.credits > 0 ? '+' : '-'}${Math.abs(entry.credits).toFixed(2)}
+                    </p>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
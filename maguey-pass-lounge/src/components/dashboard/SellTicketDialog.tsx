@@ -0,0 +1,180 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Tag } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { formatCurrency } from '@/lib/i18n';
+import {
+  canListForResale,
+  maxResalePrice,
+  resaleClosesAt,
+  resaleFee,
+  sellerProceeds,
+  validateResalePrice,
+  type EventResaleSettings,
+} from '@/lib/resale';
+import { createResaleListing, getEventResaleSettings } from '@/lib/resale-service';
+
+interface SellTicketDialogProps {
+  /** tickets.id (UUID) plus display fields; null keeps the dialog empty */
+  ticket: {
+    id: string;
+    event_id: string;
+    event_name: string;
+    event_date: string;
+    event_time: string | null;
+    ticket_type_name: string;
+    price: number;
+  } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onListed: () => void;
+}
+
+/**
+ * Lets a ticket holder list a ticket for resale at up to the event's cap.
+ * The ticket stays usable until it sells.
+ */
+export function SellTicketDialog({ ticket, open, onOpenChange, onListed }: SellTicketDialogProps) {
+  const [settings, setSettings] = useState<EventResaleSettings | null>(null);
+  const [price, setPrice] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open || !ticket) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setPrice(ticket.price.toFixed(2));
+    getEventResaleSettings(ticket.event_id)
+      .then((result) => {
+        if (!cancelled) setSettings(result);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error('Error loading resale settings:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to load resale settings');
+        setSettings(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, ticket]);
+
+  const available = !!ticket && canListForResale(settings, ticket.event_date, ticket.event_time);
+  const maxPrice = ticket && settings ? maxResalePrice(ticket.price, settings.resale_price_cap_percent) : 0;
+  const amount = Number(price);
+  const priceError = ticket && settings
+    ? validateResalePrice(amount, ticket.price, settings.resale_price_cap_percent)
+    : null;
+
+  const handleList = async () => {
+    if (!ticket || priceError) return;
+    setSubmitting(true);
+    try {
+      await createResaleListing(ticket.id, amount);
+      toast.success('Ticket listed for resale');
+      onListed();
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Listing failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Tag className="w-5 h-5" />
+            Sell Ticket
+          </DialogTitle>
+          {ticket && (
+            <DialogDescription>
+              {ticket.event_name} • {ticket.ticket_type_name} • Paid {formatCurrency(ticket.price)}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : !available || !settings || !ticket ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">
+            Resale isn't open for this event right now.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="resale-price">Your price</Label>
+              <Input
+                id="resale-price"
+                type="number"
+                inputMode="decimal"
+                min="0.01"
+                max={maxPrice}
+                step="0.01"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+                disabled={submitting}
+              />
+              <p className={priceError ? 'text-xs text-destructive' : 'text-xs text-muted-foreground'}>
+                {priceError ?? `Up to ${formatCurrency(maxPrice)} (${settings.resale_price_cap_percent}% of face value)`}
+              </p>
+            </div>
+
+            {!priceError && (
+              <div className="rounded-lg border border-border p-3 space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Buyer pays</span>
+                  <span>{formatCurrency(amount)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Resale fee ({settings.resale_fee_percent}%)</span>
+                  <span>-{formatCurrency(resaleFee(amount, settings.resale_fee_percent))}</span>
+                </div>
+                <div className="flex justify-between font-semibold pt-1 border-t border-border">
+                  <span>You receive</span>
+                  <span>{formatCurrency(sellerProceeds(amount, settings.resale_fee_percent))}</span>
+                </div>
+              </div>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              Your ticket keeps working until someone buys it. When it sells, the buyer gets a new QR
+              code and you're refunded to your original card (or paid in loyalty credits). Unsold
+              listings close{' '}
+              {resaleClosesAt(ticket.event_date, ticket.event_time, settings.resale_cutoff_hours).toLocaleString()}.
+            </p>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleList} disabled={!available || !!priceError || loading || submitting}>
+            {submitting ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Listing...
+              </>
+            ) : (
+              'List for Sale'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react';
+import { ArrowUpCircle, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { formatCurrency, getLocale } from '@/lib/i18n';
+import { cn } from '@/lib/utils';
+import {
+  getTicketUpgradeOptions,
+  startTicketUpgradeCheckout,
+  type TicketUpgradeOption,
+} from '@/lib/ticket-upgrade-service';
+
+interface UpgradeTicketDialogProps {
+  /** tickets.id (UUID) plus display fields; null keeps the dialog empty */
+  ticket: { id: string; event_name: string; ticket_type_name: string } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Lets a ticket holder move to a higher ticket type (e.g. GA → VIP), paying
+ * only the difference through Stripe Checkout.
+ */
+export function UpgradeTicketDialog({ ticket, open, onOpenChange }: UpgradeTicketDialogProps) {
+  const [options, setOptions] = useState<TicketUpgradeOption[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [redirecting, setRedirecting] = useState(false);
+
+  useEffect(() => {
+    if (!open || !ticket) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setSelectedId(null);
+    getTicketUpgradeOptions(ticket.id)
+      .then((result) => {
+        if (cancelled) return;
+        setOptions(result);
+        setSelectedId(result[0]?.ticket_type_id ?? null);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error('Error loading upgrade options:', error);
+        toast.error(error instanceof Error ? error.message : 'Failed to load upgrade options');
+        setOptions([]);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, ticket]);
+
+  const selected = options.find((option) => option.ticket_type_id === selectedId);
+
+  const handleUpgrade = async () => {
+    if (!ticket || !selected) return;
+    setRedirecting(true);
+    try {
+      await startTicketUpgradeCheckout(ticket.id, selected.ticket_type_id, getLocale());
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Upgrade failed');
+      setRedirecting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ArrowUpCircle className="w-5 h-5" />
+            Upgrade Ticket
+          </DialogTitle>
+          {ticket && (
+            <DialogDescription>
+              {ticket.event_name} • Currently {ticket.ticket_type_name}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : options.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">
+            No upgrades are available for this ticket right now.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {options.map((option) => (
+              <button
+                key={option.ticket_type_id}
+                type="button"
+                onClick={() => setSelectedId(option.ticket_type_id)}
+                disabled={redirecting}
+                className={cn(
+                  'w-full text-left rounded-lg border p-3 transition-colors',
+                  selectedId === option.ticket_type_id
+                    ? 'border-primary bg-primary/10'
+                    : 'border-border hover:border-primary/50'
+                )}
+              >
+                <div className="flex items-center justify-between gap-3">
+                  <div>
+                    <p className="font-medium">{option.name}</p>
+                    {option.description && (
+                      <p className="text-xs text-muted-foreground mt-0.5">{option.description}</p>
+                    )}
+                  </div>
+                  <div className="text-right shrink-0">
+                    <p className="font-semibold">+{formatCurrency(option.price_difference)}</p>
+                    {option.tier_name && (
+                      <Badge variant="outline" className="text-[10px] mt-1">{option.tier_name}</Badge>
+                    )}
+                  </div>
+                </div>
+                {option.remaining !== null && option.remaining <= 10 && (
+                  <p className="text-xs text-yellow-600 mt-1">Only {option.remaining} left</p>
+                )}
+              </button>
+            ))}
+            <p className="text-xs text-muted-foreground pt-2">
+              You only pay the difference from your current ticket. Your QR code is replaced once the
+              payment goes through, so use the updated ticket at the door.
+            </p>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={redirecting}>
+            Cancel
+          </Button>
+          <Button onClick={handleUpgrade} disabled={!selected || redirecting}>
+            {redirecting ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Redirecting...
+              </>
+            ) : selected ? (
+              `Pay ${formatCurrency(selected.price_difference)}`
+            ) : (
+              'Upgrade'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,2 +1,7 @@
 export { VIPReservationsSection } from './VIPReservationsSection';
 
+export { UpgradeTicketDialog } from './UpgradeTicketDialog';
+
+export { LoyaltySection } from './LoyaltySection';
+
+export { SellTicketDialog } from './SellTicketDialog';
@@ -0,0 +1,240 @@
+// Bottle service on the VIP guest dashboard: order from the event's menu once
+// the table has checked in, and follow the running tab against the minimum
+import { useState, useEffect, useCallback } from 'react';
+import { Wine, Minus, Plus, Loader2, Receipt, Send } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  canOrder,
+  cartItemCount,
+  cartTotalCents,
+  formatBottleOrderStatus,
+  formatCents,
+  formatTabStatus,
+  MENU_CATEGORIES,
+  setCartQuantity,
+  summarizeTab,
+  type BottleMenuItem,
+  type CartLine,
+  type VipTab,
+} from '@/lib/bottle-service';
+import { getBottleMenu, getVipTab, placeBottleOrder } from '@/lib/bottle-orders-service';
+
+const REFRESH_INTERVAL_MS = 30_000;
+
+interface BottleServicePanelProps {
+  reservationId: string;
+  reservationStatus: string;
+  eventId: string;
+}
+
+export default function BottleServicePanel({ reservationId, reservationStatus, eventId }: BottleServicePanelProps) {
+  const [menu, setMenu] = useState<BottleMenuItem[]>([]);
+  const [tab, setTab] = useState<VipTab | null>(null);
+  const [cart, setCart] = useState<CartLine[]>([]);
+  const [notes, setNotes] = useState('');
+  const [placedBy, setPlacedBy] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadTab = useCallback(async () => {
+    try {
+      setTab(await getVipTab(reservationId));
+    } catch (err) {
+      console.error('Error loading tab:', err);
+    }
+  }, [reservationId]);
+
+  useEffect(() => {
+    getBottleMenu(eventId).then(setMenu).catch((err) => console.error('Error loading bottle menu:', err));
+    loadTab();
+  }, [eventId, loadTab]);
+
+  // Follow deliveries while the table is in the venue
+  useEffect(() => {
+    if (reservationStatus !== 'checked_in') return;
+    const interval = setInterval(loadTab, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [reservationStatus, loadTab]);
+
+  const ordering = canOrder(reservationStatus, tab);
+  const progress = tab ? summarizeTab(tab) : null;
+  const cartTotal = cartTotalCents(cart, menu);
+  const quantityOf = (menuItemId: string) => cart.find((line) => line.menuItemId === menuItemId)?.quantity ?? 0;
+
+  // Nothing to show before the night if the event has no menu and no minimum
+  if (menu.length === 0 && !tab?.minimum_spend_cents && !tab?.orders.length) {
+    return null;
+  }
+
+  const handlePlaceOrder = async () => {
+    if (cart.length === 0) return;
+    setSubmitting(true);
+    try {
+      const order = await placeBottleOrder(reservationId, cart, { notes, placedBy });
+      toast.success(`Order ${order.order_number} sent — ${formatCents(order.subtotal_cents)}`);
+      setCart([]);
+      setNotes('');
+      await loadTab();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not place order');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white/[0.02] backdrop-blur-sm rounded-sm border border-white/5 mb-6">
+      <div className="p-4 border-b border-white/5 flex items-center justify-between">
+        <h3 className="text-stone-200 font-medium flex items-center gap-2">
+          <Wine className="w-5 h-5 text-copper-400" />
+          Bottle Service
+        </h3>
+        {tab && tab.status !== 'open' && (
+          <span className="px-2 py-1 rounded-full text-xs bg-stone-500/20 text-stone-400">
+            Tab {formatTabStatus(tab.status).toLowerCase()}
+          </span>
+        )}
+      </div>
+
+      {/* Running tab */}
+      {tab && progress && (
+        <div className="p-4 border-b border-white/5">
+          <div className="flex items-center justify-between mb-2 text-sm">
+            <span className="text-stone-400 flex items-center gap-2">
+              <Receipt className="w-4 h-4 text-copper-400" />
+              Your tab: <span className="text-stone-200">${progress.spent.toFixed(2)}</span>
+              {tab.pending_cents > 0 && (
+                <span className="text-stone-500">(+{formatCents(tab.pending_cents)} on its way)</span>
+              )}
+            </span>
+            {progress.minimum > 0 && (
+              <span className="text-stone-500">Minimum ${progress.minimum.toFixed(2)}</span>
+            )}
+          </div>
+          {progress.minimum > 0 && (
+            <>
+              <div className="h-2 bg-forest-900 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-gradient-to-r from-copper-400 to-copper-500 rounded-full transition-all duration-500"
+                  style={{ width: `${progress.percent}%` }}
+                />
+              </div>
+              <p className="text-xs text-stone-500 mt-2">
+                {progress.remainingToMinimum > 0
+                  ? `$${progress.remainingToMinimum.toFixed(2)} left to reach your table minimum. The minimum is charged at the end of the night even if it is not reached.`
+                  : 'Table minimum reached.'}
+              </p>
+            </>
+          )}
+          {tab.status === 'settled' && tab.charged_cents !== null && (
+            <p className="text-xs text-green-400 mt-2">
+              Settled: {formatCents(tab.charged_cents)}
+              {tab.settlement_method === 'card' ? ' charged to your card' : tab.settlement_method === 'venue' ? ' paid at the venue' : ''}
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Menu */}
+      {ordering ? (
+        <div className="p-4 space-y-4">
+          {MENU_CATEGORIES.filter((category) => menu.some((item) => item.category === category.value)).map((category) => (
+            <div key={category.value}>
+              <p className="font-mono text-[10px] uppercase tracking-[0.2em] text-stone-500 mb-2">{category.label}</p>
+              <div className="divide-y divide-white/5">
+                {menu.filter((item) => item.category === category.value).map((item) => (
+                  <div key={item.id} className="py-2 flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="text-stone-200 truncate">{item.name}</p>
+                      {item.description && <p className="text-xs text-stone-500 truncate">{item.description}</p>}
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span className="text-sm text-stone-400">{formatCents(item.price_cents)}</span>
+                      <button
+                        onClick={() => setCart(setCartQuantity(cart, item.id, quantityOf(item.id) - 1))}
+                        disabled={quantityOf(item.id) === 0}
+                        className="p-1 rounded-sm border border-white/10 text-stone-400 hover:text-copper-400 disabled:opacity-30"
+                        aria-label={`Remove ${item.name}`}
+                      >
+                        <Minus className="w-3 h-3" />
+                      </button>
+                      <span className="w-4 text-center text-stone-200">{quantityOf(item.id)}</span>
+                      <button
+                        onClick={() => setCart(setCartQuantity(cart, item.id, quantityOf(item.id) + 1))}
+                        className="p-1 rounded-sm border border-white/10 text-stone-400 hover:text-copper-400"
+                        aria-label={`Add ${item.name}`}
+                      >
+                        <Plus className="w-3 h-3" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          {cart.length > 0 && (
+            <div className="space-y-3 pt-2">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <input
+                  type="text"
+                  value={placedBy}
+                  onChange={(e) => setPlacedBy(e.target.value)}
+                  placeholder="Your name (optional)"
+                  className="bg-forest-900 border border-white/10 rounded-sm px-3 py-2 text-sm text-stone-300"
+                />
+                <input
+                  type="text"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="Notes for your server (optional)"
+                  className="bg-forest-900 border border-white/10 rounded-sm px-3 py-2 text-sm text-stone-300"
+                />
+              </div>
+              <button
+                onClick={handlePlaceOrder}
+                disabled={submitting}
+                className="w-full bg-copper-400 hover:bg-copper-500 text-forest-950 font-semibold py-3 rounded-sm transition-all flex items-center justify-center gap-2 disabled:opacity-60"
+              >
+                {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                Order {cartItemCount(cart)} item{cartItemCount(cart) !== 1 ? 's' : ''} · {formatCents(cartTotal)}
+              </button>
+            </div>
+          )}
+        </div>
+      ) : (
+        reservationStatus !== 'checked_in' && (!tab || tab.status === 'open') && (
+          <p className="p-4 text-sm text-stone-500">
+            Order bottles to your table from here once your table has checked in.
+          </p>
+        )
+      )}
+
+      {/* Orders */}
+      {tab && tab.orders.length > 0 && (
+        <div className="divide-y divide-white/5 border-t border-white/5">
+          {tab.orders.map((order) => (
+            <div key={order.id} className="p-4 flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-stone-200 font-mono text-sm">#{order.order_number}</p>
+                <p className="text-xs text-stone-500">
+                  {(order.items || []).map((item) => `${item.quantity} × ${item.name}`).join(', ')}
+                </p>
+              </div>
+              <div className="text-right">
+                <p className="text-sm text-stone-300">{formatCents(order.subtotal_cents)}</p>
+                <span className={`text-xs ${order.status === 'delivered'
+                  ? 'text-green-400'
+                  : order.status === 'cancelled'
+                    ? 'text-stone-500'
+                    : 'text-copper-400'
+                  }`}>
+                  {formatBottleOrderStatus(order.status)}
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
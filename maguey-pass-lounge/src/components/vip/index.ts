@@ -8,5 +8,6 @@ export { VIPTableFloorPlan } from './VIPTableFloorPlan';
 export { VipProgressIndicator } from './VipProgressIndicator';
 export { default as BookingPanel } from './BookingPanel';
 export { default as Legend } from './Legend';
+export { default as BottleServicePanel } from './BottleServicePanel';
 export type { VipStep } from './VipProgressIndicator';
 export type { VIPTable } from './types';
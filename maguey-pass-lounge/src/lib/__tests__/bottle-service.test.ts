@@ -0,0 +1,103 @@
+/**
+ * VIP Bottle Service Tests
+ *
+ * Tests for the dashboard cart, the running tab against the table's
+ * minimum spend and the order/tab labels
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  setCartQuantity,
+  cartTotalCents,
+  cartItemCount,
+  tabAmountDueCents,
+  summarizeTab,
+  canOrder,
+  formatCents,
+  formatBottleOrderStatus,
+  formatTabStatus,
+  MAX_ITEM_QUANTITY,
+} from '../bottle-service';
+
+const MENU = [
+  { id: 'don-julio', price_cents: 65000 },
+  { id: 'red-bull', price_cents: 1000 },
+];
+
+describe('setCartQuantity', () => {
+  it('adds, updates and removes lines', () => {
+    let cart = setCartQuantity([], 'don-julio', 1);
+    cart = setCartQuantity(cart, 'red-bull', 4);
+    cart = setCartQuantity(cart, 'don-julio', 2);
+    expect(cart).toEqual([
+      { menuItemId: 'don-julio', quantity: 2 },
+      { menuItemId: 'red-bull', quantity: 4 },
+    ]);
+    expect(setCartQuantity(cart, 'red-bull', 0)).toEqual([{ menuItemId: 'don-julio', quantity: 2 }]);
+  });
+
+  it('caps the quantity per item', () => {
+    expect(setCartQuantity([], 'red-bull', 50)).toEqual([{ menuItemId: 'red-bull', quantity: MAX_ITEM_QUANTITY }]);
+  });
+});
+
+describe('cart totals', () => {
+  const cart = [
+    { menuItemId: 'don-julio', quantity: 1 },
+    { menuItemId: 'red-bull', quantity: 4 },
+    { menuItemId: 'removed-from-menu', quantity: 1 },
+  ];
+
+  it('prices the cart from the menu', () => {
+    expect(cartTotalCents(cart, MENU)).toBe(69000);
+  });
+
+  it('counts items', () => {
+    expect(cartItemCount(cart)).toBe(6);
+  });
+});
+
+describe('tabAmountDueCents', () => {
+  it('tops the orders up to the minimum spend', () => {
+    expect(tabAmountDueCents(69000, 100000)).toBe(100000);
+  });
+
+  it('charges the orders once past the minimum', () => {
+    expect(tabAmountDueCents(125000, 100000)).toBe(125000);
+    expect(tabAmountDueCents(4000, 0)).toBe(4000);
+  });
+});
+
+describe('summarizeTab', () => {
+  it('tracks progress toward the minimum', () => {
+    expect(summarizeTab({ delivered_cents: 69000, minimum_spend_cents: 100000 })).toEqual({
+      spent: 690,
+      minimum: 1000,
+      remainingToMinimum: 310,
+      percent: 69,
+      amountDue: 1000,
+    });
+  });
+
+  it('is full once the minimum is met, or without a minimum', () => {
+    expect(summarizeTab({ delivered_cents: 125000, minimum_spend_cents: 100000 }).percent).toBe(100);
+    expect(summarizeTab({ delivered_cents: 0, minimum_spend_cents: 0 })).toMatchObject({ percent: 100, remainingToMinimum: 0 });
+  });
+});
+
+describe('canOrder', () => {
+  it('needs a checked-in table with an open tab', () => {
+    expect(canOrder('checked_in', null)).toBe(true);
+    expect(canOrder('checked_in', { status: 'open' })).toBe(true);
+    expect(canOrder('confirmed', null)).toBe(false);
+    expect(canOrder('checked_in', { status: 'settled' })).toBe(false);
+  });
+});
+
+describe('labels', () => {
+  it('formats amounts and statuses', () => {
+    expect(formatCents(65000)).toBe('$650.00');
+    expect(formatBottleOrderStatus('preparing')).toBe('On its way');
+    expect(formatTabStatus('failed')).toBe('Payment failed');
+  });
+});
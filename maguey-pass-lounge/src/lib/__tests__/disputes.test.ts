@@ -0,0 +1,160 @@
+/**
+ * Payment Dispute Tests
+ *
+ * Tests for dispute status labels, the evidence deadline and the evidence
+ * timeline exported from the admin disputes page
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildEvidenceTimeline,
+  daysUntilDue,
+  formatDisputeStatus,
+  isDisputeOpen,
+  needsResponse,
+  type DisputeEvidence,
+} from '../disputes';
+
+const NOW = new Date('2026-06-01T12:00:00Z');
+
+function evidence(overrides: Partial<DisputeEvidence> = {}): DisputeEvidence {
+  return {
+    dispute: {
+      id: 'dispute-1',
+      stripe_dispute_id: 'dp_123',
+      stripe_charge_id: 'ch_123',
+      stripe_payment_intent_id: 'pi_123',
+      order_id: 'order-1',
+      vip_reservation_id: null,
+      event_id: 'event-1',
+      amount: 60,
+      currency: 'usd',
+      reason: 'fraudulent',
+      status: 'needs_response',
+      evidence_due_by: '2026-06-10T23:59:59Z',
+      closed_at: null,
+      alerted_at: null,
+      created_at: '2026-06-01T10:00:00Z',
+      updated_at: '2026-06-01T10:00:00Z',
+    },
+    event: { id: 'event-1', name: 'Reggaeton Night' },
+    order: {
+      id: 'order-1',
+      customer_email: 'ana@example.com',
+      created_at: '2026-05-01T18:00:00Z',
+      paid_at: '2026-05-01T18:01:00Z',
+    },
+    vip_reservation: null,
+    tickets: [{ id: 'ticket-1', ticket_id: 'MGY-001' }, { id: 'ticket-2', ticket_id: 'MGY-002' }],
+    emails: [
+      {
+        id: 'email-1',
+        email_type: 'ga_ticket',
+        recipient_email: 'ana@example.com',
+        subject: 'Your tickets',
+        status: 'delivered',
+        attempt_count: 1,
+        last_error: null,
+        created_at: '2026-05-01T18:02:00Z',
+        updated_at: '2026-05-01T18:03:00Z',
+        delivery_events: [{ event_type: 'email.delivered', created_at: '2026-05-01T18:03:00Z' }],
+      },
+    ],
+    scans: [
+      {
+        ticket_id: 'ticket-1',
+        scan_result: 'valid',
+        scanned_at: '2026-05-15T23:10:00Z',
+        scanned_by: 'staff-1',
+        metadata: null,
+      },
+    ],
+    vip_scans: [],
+    id_verifications: [
+      {
+        ticket_id: 'ticket-1',
+        verification_type: '21+',
+        is_verified: true,
+        skipped: false,
+        verified_by: 'staff-1',
+        verified_at: '2026-05-15T23:09:00Z',
+        has_photo: true,
+        notes: null,
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe('dispute status', () => {
+  it('treats won, lost and closed inquiries as closed', () => {
+    expect(isDisputeOpen('needs_response')).toBe(true);
+    expect(isDisputeOpen('under_review')).toBe(true);
+    expect(isDisputeOpen('won')).toBe(false);
+    expect(isDisputeOpen('lost')).toBe(false);
+    expect(isDisputeOpen('warning_closed')).toBe(false);
+  });
+
+  it('flags disputes waiting on evidence', () => {
+    expect(needsResponse('warning_needs_response')).toBe(true);
+    expect(needsResponse('under_review')).toBe(false);
+  });
+
+  it('labels inquiries separately from chargebacks', () => {
+    expect(formatDisputeStatus('needs_response')).toBe('Needs response');
+    expect(formatDisputeStatus('warning_needs_response')).toBe('Inquiry: needs response');
+  });
+});
+
+describe('daysUntilDue', () => {
+  it('counts whole days to the deadline and goes negative once missed', () => {
+    expect(daysUntilDue('2026-06-04T18:00:00Z', NOW)).toBe(3);
+    expect(daysUntilDue('2026-05-31T12:00:00Z', NOW)).toBe(-1);
+    expect(daysUntilDue(null, NOW)).toBeNull();
+  });
+});
+
+describe('buildEvidenceTimeline', () => {
+  it('orders purchase, emails, ID checks and scans by time', () => {
+    const timeline = buildEvidenceTimeline(evidence());
+
+    expect(timeline.map((entry) => entry.kind)).toEqual(['purchase', 'email', 'email', 'id_check', 'scan']);
+    expect(timeline[0]).toMatchObject({
+      at: '2026-05-01T18:01:00Z',
+      description: 'Order paid: 2 ticket(s)',
+      subject: 'ana@example.com',
+    });
+    expect(timeline[2].description).toBe('Email delivered');
+  });
+
+  it('refers to tickets by their ticket code', () => {
+    const timeline = buildEvidenceTimeline(evidence());
+
+    expect(timeline[3]).toMatchObject({ subject: 'MGY-001', description: 'ID check (21+) verified, photo on file' });
+    expect(timeline[4]).toMatchObject({ subject: 'MGY-001', description: 'Scanned: valid' });
+  });
+
+  it('uses the VIP reservation when there is no order', () => {
+    const timeline = buildEvidenceTimeline(
+      evidence({
+        order: null,
+        vip_reservation: { purchaser_email: 'vip@example.com', created_at: '2026-05-02T10:00:00Z' },
+        tickets: [],
+        emails: [],
+        scans: [],
+        id_verifications: [],
+        vip_scans: [{ pass_id: 'pass-1', scan_type: 'entry', scanned_at: '2026-05-15T23:30:00Z', scanned_by: null }],
+      })
+    );
+
+    expect(timeline).toEqual([
+      {
+        at: '2026-05-02T10:00:00Z',
+        kind: 'purchase',
+        description: 'VIP table reservation paid',
+        subject: 'vip@example.com',
+      },
+      { at: '2026-05-15T23:30:00Z', kind: 'scan', description: 'VIP pass entry', subject: 'pass-1' },
+    ]);
+  });
+});
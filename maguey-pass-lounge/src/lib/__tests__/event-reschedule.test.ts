@@ -0,0 +1,45 @@
+/**
+ * Event Reschedule Tests
+ *
+ * Tests for what the keep-or-refund page offers a holder and how it shows
+ * the old and new dates
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatEventStart, getRescheduleResponseState } from '../event-reschedule';
+
+const NOW = new Date('2026-05-03T12:00:00Z');
+const OPEN = { choice: 'pending' as const, refund_status: null, refund_deadline: '2026-05-05T04:00:00Z' };
+
+describe('getRescheduleResponseState', () => {
+  it('is open until the deadline, whatever was chosen', () => {
+    expect(getRescheduleResponseState(OPEN, NOW)).toBe('open');
+    expect(getRescheduleResponseState({ ...OPEN, choice: 'keep' }, NOW)).toBe('open');
+    expect(getRescheduleResponseState({ ...OPEN, choice: 'refund', refund_status: 'failed' }, NOW)).toBe('open');
+  });
+
+  it('closes at the deadline', () => {
+    expect(getRescheduleResponseState(OPEN, new Date('2026-05-05T04:00:00Z'))).toBe('closed');
+  });
+
+  it('shows refunds in progress and issued, even after the deadline', () => {
+    const late = new Date('2026-06-01T00:00:00Z');
+    expect(getRescheduleResponseState({ ...OPEN, choice: 'refund', refund_status: 'processing' }, late)).toBe('processing');
+    expect(getRescheduleResponseState({ ...OPEN, choice: 'refund', refund_status: 'refunded' }, late)).toBe('refunded');
+  });
+
+  it('sends holders of an older reschedule to their newer link', () => {
+    expect(getRescheduleResponseState({ ...OPEN, choice: 'superseded' }, NOW)).toBe('superseded');
+  });
+});
+
+describe('formatEventStart', () => {
+  it('formats the date and 12-hour time', () => {
+    expect(formatEventStart('2026-05-08', '21:30:00')).toBe('Fri, May 8, 2026 · 9:30 PM');
+    expect(formatEventStart('2026-05-08', '00:00')).toBe('Fri, May 8, 2026 · 12:00 AM');
+  });
+
+  it('shows just the date without a time', () => {
+    expect(formatEventStart('2026-05-08', null)).toBe('Fri, May 8, 2026');
+  });
+});
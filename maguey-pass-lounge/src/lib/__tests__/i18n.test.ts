@@ -0,0 +1,137 @@
+/**
+ * i18n Tests
+ *
+ * Tests for locale resolution, translation lookup and formatting, and that
+ * the Spanish catalog (and the edge function email copy) stay in sync with English
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  resolveLocale,
+  detectLocale,
+  getLocale,
+  setLocale,
+  subscribeToLocale,
+  translate,
+  formatCurrency,
+  formatDate,
+  formatTime,
+  LOCALE_STORAGE_KEY,
+  WHOLE_DOLLARS,
+} from '../i18n';
+import { translations } from '../translations';
+import { emailTranslations } from '../../../supabase/functions/_shared/translations';
+
+function collectKeys(value: unknown, prefix = ''): string[] {
+  if (typeof value !== 'object' || value === null) return [prefix];
+  return Object.entries(value).flatMap(([key, child]) =>
+    collectKeys(child, prefix ? `${prefix}.${key}` : key)
+  );
+}
+
+describe('i18n', () => {
+  describe('catalogs', () => {
+    it('should have a Spanish string for every English key', () => {
+      expect(collectKeys(translations.es).sort()).toEqual(collectKeys(translations.en).sort());
+    });
+
+    it('should keep the same placeholders in both languages', () => {
+      const placeholders = (text: string) => (text.match(/\{\w+\}/g) || []).sort();
+      for (const key of collectKeys(translations.en)) {
+        expect(placeholders(translate('es', key)), key).toEqual(placeholders(translate('en', key)));
+      }
+    });
+
+    it('should match the email copy used by the edge functions', () => {
+      expect(emailTranslations.en).toEqual(translations.en.email);
+      expect(emailTranslations.es).toEqual(translations.es.email);
+    });
+  });
+
+  describe('resolveLocale', () => {
+    it('should map language tags to supported locales', () => {
+      expect(resolveLocale('es')).toBe('es');
+      expect(resolveLocale('es-MX')).toBe('es');
+      expect(resolveLocale('EN_gb')).toBe('en');
+    });
+
+    it('should return null for unsupported or empty values', () => {
+      expect(resolveLocale('fr-FR')).toBeNull();
+      expect(resolveLocale('')).toBeNull();
+      expect(resolveLocale(null)).toBeNull();
+    });
+  });
+
+  describe('detectLocale', () => {
+    beforeEach(() => {
+      localStorage.clear();
+      window.history.replaceState({}, '', '/');
+    });
+
+    it('should prefer the ?lang= query parameter', () => {
+      localStorage.setItem(LOCALE_STORAGE_KEY, 'en');
+      window.history.replaceState({}, '', '/?lang=es');
+      expect(detectLocale()).toBe('es');
+    });
+
+    it('should use the saved choice when there is no query parameter', () => {
+      localStorage.setItem(LOCALE_STORAGE_KEY, 'es');
+      expect(detectLocale()).toBe('es');
+    });
+  });
+
+  describe('setLocale', () => {
+    beforeEach(() => {
+      setLocale('en');
+    });
+
+    it('should persist the choice, update <html lang> and notify subscribers', () => {
+      let calls = 0;
+      const unsubscribe = subscribeToLocale(() => {
+        calls++;
+      });
+
+      setLocale('es');
+      unsubscribe();
+      setLocale('en');
+
+      expect(calls).toBe(1);
+      expect(localStorage.getItem(LOCALE_STORAGE_KEY)).toBe('en');
+      expect(document.documentElement.lang).toBe('en');
+      expect(getLocale()).toBe('en');
+    });
+  });
+
+  describe('translate', () => {
+    it('should interpolate params', () => {
+      expect(translate('en', 'event.onlyLeft', { count: 3 })).toBe('Only 3 left at this price!');
+      expect(translate('es', 'common.table', { number: 4 })).toBe('Mesa 4');
+    });
+
+    it('should leave unknown placeholders untouched', () => {
+      expect(translate('en', 'common.table')).toBe('Table {number}');
+    });
+
+    it('should fall back to the key when it does not exist', () => {
+      expect(translate('es', 'missing.key')).toBe('missing.key');
+    });
+  });
+
+  describe('formatting', () => {
+    it('should format USD prices for each locale', () => {
+      expect(formatCurrency(45, 'en')).toBe('$45.00');
+      expect(formatCurrency(600, 'en', WHOLE_DOLLARS)).toBe('$600');
+      expect(formatCurrency(45, 'es')).toContain('45.00');
+    });
+
+    it('should read date-only strings as local dates', () => {
+      expect(formatDate('2026-05-01', { month: 'long', day: 'numeric' }, 'en')).toBe('May 1');
+      expect(formatDate('2026-05-01', { month: 'long', day: 'numeric' }, 'es')).toBe('1 de mayo');
+    });
+
+    it('should format times of day', () => {
+      expect(formatTime('21:30', 'en')).toBe('9:30 PM');
+      expect(formatTime('', 'en')).toBe('');
+    });
+  });
+});
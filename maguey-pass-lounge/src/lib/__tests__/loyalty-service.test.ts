@@ -0,0 +1,85 @@
+/**
+ * Loyalty Service Tests
+ *
+ * Tests for tier progress, early on-sale access and how many credits a
+ * checkout can redeem
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getNextTierProgress,
+  hasOnSaleAccess,
+  loyaltyCreditsToApply,
+  type LoyaltyTierRule,
+} from '../loyalty-service';
+
+const TIERS: LoyaltyTierRule[] = [
+  { tier: 'bronze', rank: 0, min_spent: 0, min_orders: 0, points_multiplier: 1, early_access_hours: 0, free_reentry: false, skip_line: false },
+  { tier: 'silver', rank: 1, min_spent: 200, min_orders: 2, points_multiplier: 1.25, early_access_hours: 0, free_reentry: false, skip_line: false },
+  { tier: 'gold', rank: 2, min_spent: 500, min_orders: 4, points_multiplier: 1.5, early_access_hours: 24, free_reentry: true, skip_line: false },
+  { tier: 'platinum', rank: 3, min_spent: 1000, min_orders: 8, points_multiplier: 2, early_access_hours: 48, free_reentry: true, skip_line: true },
+];
+
+describe('getNextTierProgress', () => {
+  it('reports the spend and orders still needed for the next tier', () => {
+    const progress = getNextTierProgress(
+      { membership_tier: 'silver', total_spent: 320, total_orders: 3 },
+      TIERS
+    );
+
+    expect(progress?.tier.tier).toBe('gold');
+    expect(progress?.spendRemaining).toBe(180);
+    expect(progress?.ordersRemaining).toBe(1);
+  });
+
+  it('never reports negative remaining amounts', () => {
+    const progress = getNextTierProgress(
+      { membership_tier: 'bronze', total_spent: 250, total_orders: 1 },
+      TIERS
+    );
+
+    expect(progress?.tier.tier).toBe('silver');
+    expect(progress?.spendRemaining).toBe(0);
+    expect(progress?.ordersRemaining).toBe(1);
+  });
+
+  it('returns null at the top tier', () => {
+    expect(
+      getNextTierProgress({ membership_tier: 'platinum', total_spent: 1500, total_orders: 12 }, TIERS)
+    ).toBeNull();
+  });
+});
+
+describe('hasOnSaleAccess', () => {
+  const onSaleAt = '2026-05-01T15:00:00.000Z';
+
+  it('is open when the event has no on-sale time', () => {
+    expect(hasOnSaleAccess(null, 0)).toBe(true);
+  });
+
+  it('lets early access tiers in before the general on-sale', () => {
+    const dayBefore = new Date('2026-04-30T16:00:00.000Z');
+
+    expect(hasOnSaleAccess(onSaleAt, 0, dayBefore)).toBe(false);
+    expect(hasOnSaleAccess(onSaleAt, 24, dayBefore)).toBe(true);
+    expect(hasOnSaleAccess(onSaleAt, 0, new Date('2026-05-01T15:00:00.000Z'))).toBe(true);
+  });
+});
+
+describe('loyaltyCreditsToApply', () => {
+  it('caps credits by balance and by the amount still owed', () => {
+    expect(loyaltyCreditsToApply(10, 25, 80)).toBe(10);
+    expect(loyaltyCreditsToApply(50, 25, 80)).toBe(25);
+    expect(loyaltyCreditsToApply(50, 25, 12.5)).toBe(12.5);
+  });
+
+  it('redeems nothing for missing or negative requests', () => {
+    expect(loyaltyCreditsToApply(undefined, 25, 80)).toBe(0);
+    expect(loyaltyCreditsToApply(-5, 25, 80)).toBe(0);
+  });
+
+  it('rounds down to whole cents', () => {
+    expect(loyaltyCreditsToApply(0.29, 25, 80)).toBe(0.29);
+    expect(loyaltyCreditsToApply(3.337, 25, 80)).toBe(3.33);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Metrics Sync Tests
+ *
+ * Tests for flushing registry deltas to record_metric_samples.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+const rpc = vi.fn();
+
+vi.mock('../supabase', () => ({
+  supabase: { rpc: (...args: unknown[]) => rpc(...args) },
+}));
+
+import { metrics } from '../monitoring';
+import { flushMetrics, getMetricsDeviceId } from '../metrics-sync';
+
+describe('flushMetrics()', () => {
+  beforeEach(() => {
+    metrics.reset();
+    rpc.mockReset();
+  });
+
+  it('should send new samples once with the app and device', async () => {
+    rpc.mockResolvedValue({ data: 1, error: null });
+    metrics.increment('orders.created', 2, { success: 'true' });
+
+    await expect(flushMetrics()).resolves.toBe(1);
+    await expect(flushMetrics()).resolves.toBe(0);
+
+    expect(rpc).toHaveBeenCalledTimes(1);
+    expect(rpc).toHaveBeenCalledWith('record_metric_samples', {
+      p_app: 'pass-lounge',
+      p_device_id: getMetricsDeviceId(),
+      p_samples: [{ name: 'orders.created', type: 'counter', labels: { success: 'true' }, value: 2 }],
+    });
+  });
+
+  it('should resend samples after a failed flush', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    rpc.mockResolvedValueOnce({ data: null, error: { message: 'network down' } });
+    metrics.increment('orders.created');
+
+    await expect(flushMetrics()).rejects.toEqual({ message: 'network down' });
+
+    rpc.mockResolvedValueOnce({ data: 1, error: null });
+    metrics.increment('orders.created');
+    await flushMetrics();
+
+    expect(rpc.mock.calls[1][1].p_samples[0].value).toBe(2);
+    consoleError.mockRestore();
+  });
+
+  it('should not send the same deltas from overlapping flushes', async () => {
+    rpc.mockResolvedValue({ data: 1, error: null });
+    metrics.increment('orders.created');
+
+    await Promise.all([flushMetrics(), flushMetrics()]);
+
+    expect(rpc).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the same device ID across flushes', () => {
+    expect(getMetricsDeviceId()).toBe(getMetricsDeviceId());
+  });
+});
@@ -194,6 +194,86 @@ describe('Metrics Registry', () => {
       expect(output).toContain('# TYPE active_users gauge');
       expect(output).toContain('active_users 50');
     });
+
+    it('should export one series per tag set with escaped labels', () => {
+      metrics.increment('ticket.scans.total', 3, { result: 'valid' });
+      metrics.increment('ticket.scans.total', 1, { result: 'invalid' });
+      metrics.timing('ticket.scan.duration', 40, { result: 'valid' });
+      metrics.gauge('queue.depth', 2, { queue: 'say "hi"' });
+
+      const output = metrics.toPrometheusFormat();
+
+      expect(output).toContain('ticket_scans_total{result="valid"} 3');
+      expect(output).toContain('ticket_scans_total{result="invalid"} 1');
+      expect(output).toContain('ticket_scan_duration_bucket{result="valid",le="50"} 1');
+      expect(output).toContain('ticket_scan_duration_bucket{result="valid",le="+Inf"} 1');
+      expect(output).toContain('ticket_scan_duration_count{result="valid"} 1');
+      expect(output).toContain('queue_depth{queue="say \\"hi\\""} 2');
+    });
+  });
+
+  describe('collectDeltas()', () => {
+    it('should return counter increases per tag set', () => {
+      metrics.increment('orders.created', 2, { success: 'true' });
+      metrics.increment('orders.created', 1, { success: 'false' });
+
+      expect(metrics.collectDeltas()).toEqual([
+        { name: 'orders.created', type: 'counter', labels: { success: 'true' }, value: 2 },
+        { name: 'orders.created', type: 'counter', labels: { success: 'false' }, value: 1 },
+      ]);
+    });
+
+    it('should only return what changed since markFlushed()', () => {
+      metrics.increment('orders.created', 2);
+      metrics.gauge('active_users', 5);
+      metrics.markFlushed(metrics.collectDeltas());
+
+      expect(metrics.collectDeltas()).toEqual([]);
+
+      metrics.increment('orders.created', 3);
+      expect(metrics.collectDeltas()).toEqual([
+        { name: 'orders.created', type: 'counter', labels: {}, value: 3 },
+      ]);
+    });
+
+    it('should keep unflushed samples when a flush fails', () => {
+      metrics.increment('orders.created');
+      metrics.collectDeltas(); // flush attempt that never called markFlushed()
+      metrics.increment('orders.created');
+
+      expect(metrics.collectDeltas()[0].value).toBe(2);
+    });
+
+    it('should resend a gauge that changed while its flush was in flight', () => {
+      metrics.gauge('active_users', 5);
+      const samples = metrics.collectDeltas();
+      metrics.gauge('active_users', 7);
+      metrics.markFlushed(samples);
+
+      expect(metrics.collectDeltas()).toEqual([
+        { name: 'active_users', type: 'gauge', labels: {}, value: 7 },
+      ]);
+    });
+
+    it('should return new histogram observations with bucket counts', () => {
+      metrics.timing('ticket.scan.duration', 40, { result: 'valid' });
+      metrics.markFlushed(metrics.collectDeltas());
+      metrics.timing('ticket.scan.duration', 200, { result: 'valid' });
+      metrics.timing('ticket.scan.duration', 800, { result: 'valid' });
+
+      const [sample] = metrics.collectDeltas();
+
+      expect(sample).toMatchObject({
+        name: 'ticket.scan.duration',
+        type: 'histogram',
+        labels: { result: 'valid' },
+        value: 1000,
+        count: 2,
+      });
+      expect(sample.buckets?.[50]).toBe(0);
+      expect(sample.buckets?.[250]).toBe(1);
+      expect(sample.buckets?.[1000]).toBe(2);
+    });
   });
 });
 
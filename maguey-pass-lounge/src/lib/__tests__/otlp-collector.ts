@@ -0,0 +1,97 @@
+/**
+ * OTLP Collector Stand-in
+ *
+ * Accepts OTLP/HTTP JSON the way a collector's /v1/traces endpoint does and
+ * keeps the spans in memory, so tests can follow one trace across the site,
+ * the Edge Functions and the scanner without running Jaeger or Tempo.
+ * Pass `collector.fetch` to OtlpHttpExporter / EdgeTracer.
+ */
+
+export const COLLECTOR_URL = 'http://localhost:4318/v1/traces'
+
+export interface CollectedSpan {
+  service: string
+  traceId: string
+  spanId: string
+  parentSpanId?: string
+  name: string
+  kind: number
+  attributes: Record<string, unknown>
+  status: { code: number; message?: string }
+}
+
+interface OtlpValue {
+  stringValue?: string
+  intValue?: string
+  doubleValue?: number
+  boolValue?: boolean
+  arrayValue?: { values: OtlpValue[] }
+}
+
+function fromOtlpValue(value: OtlpValue): unknown {
+  if (value.arrayValue) return value.arrayValue.values.map(fromOtlpValue)
+  if (value.intValue !== undefined) return Number(value.intValue)
+  return value.stringValue ?? value.doubleValue ?? value.boolValue
+}
+
+function fromKeyValues(attributes: Array<{ key: string; value: OtlpValue }> = []): Record<string, unknown> {
+  return Object.fromEntries(attributes.map(({ key, value }) => [key, fromOtlpValue(value)]))
+}
+
+export interface OtlpCollector {
+  /** fetch() stand-in for the exporters */
+  fetch: typeof fetch
+  /** Raw request bodies, in arrival order */
+  requests: unknown[]
+  spans(): CollectedSpan[]
+  /** Spans of one trace, in arrival order */
+  trace(traceId: string): CollectedSpan[]
+  /** Answer the next `count` requests with `status` (e.g. 503) instead of accepting them */
+  failNext(count: number, status: number): void
+}
+
+export function createOtlpCollector(): OtlpCollector {
+  const requests: unknown[] = []
+  const collected: CollectedSpan[] = []
+  let failures: { remaining: number; status: number } = { remaining: 0, status: 503 }
+
+  const collectorFetch = (async (_input: RequestInfo | URL, init?: RequestInit) => {
+    const payload = JSON.parse(String(init?.body))
+    requests.push(payload)
+
+    if (failures.remaining > 0) {
+      failures.remaining--
+      return new Response(null, { status: failures.status })
+    }
+
+    for (const resourceSpans of payload.resourceSpans ?? []) {
+      const resource = fromKeyValues(resourceSpans.resource?.attributes)
+      for (const scopeSpans of resourceSpans.scopeSpans ?? []) {
+        for (const span of scopeSpans.spans ?? []) {
+          collected.push({
+            service: String(resource['service.name']),
+            traceId: span.traceId,
+            spanId: span.spanId,
+            parentSpanId: span.parentSpanId,
+            name: span.name,
+            kind: span.kind,
+            attributes: fromKeyValues(span.attributes),
+            status: span.status,
+          })
+        }
+      }
+    }
+
+    return new Response('{}', { status: 200 })
+  }) as typeof fetch
+
+  return {
+    fetch: collectorFetch,
+    requests,
+    spans: () => [...collected],
+    trace: (traceId) => collected.filter((span) => span.traceId === traceId),
+    failNext: (count, status) => {
+      failures = { remaining: count, status }
+    },
+  }
+}
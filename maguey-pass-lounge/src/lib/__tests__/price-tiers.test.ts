@@ -0,0 +1,127 @@
+/**
+ * Price Tier Tests
+ *
+ * Tests for tier validation on the admin pricing page and the countdown
+ * shown on the event page
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  validatePriceTiers,
+  getCountdown,
+  formatCountdown,
+  toPriceTierDraft,
+  type PriceTierDraft,
+} from '../price-tiers';
+
+const NOW = new Date('2026-06-01T12:00:00Z');
+
+function tier(overrides: Partial<PriceTierDraft> = {}): PriceTierDraft {
+  return {
+    tier_name: 'Early Bird',
+    price: 20,
+    tickets_available: 50,
+    tickets_sold: 0,
+    sort_order: 0,
+    is_active: false,
+    starts_at: null,
+    ends_at: null,
+    is_door_tier: false,
+    ...overrides,
+  };
+}
+
+describe('validatePriceTiers', () => {
+  it('accepts an early bird → standard → door setup', () => {
+    const tiers = [
+      tier({ is_active: true, ends_at: '2026-06-05T04:00:00Z' }),
+      tier({ tier_name: 'Standard', price: 30, sort_order: 1, starts_at: '2026-06-05T04:00:00Z' }),
+      tier({ tier_name: 'Door', price: 40, sort_order: 2, is_door_tier: true }),
+    ];
+
+    expect(validatePriceTiers(tiers, NOW)).toBeNull();
+  });
+
+  it('allows no active tier while the first one is scheduled', () => {
+    expect(validatePriceTiers([tier({ starts_at: '2026-06-02T00:00:00Z' })], NOW)).toBeNull();
+  });
+
+  it('rejects an end date before the start date', () => {
+    const error = validatePriceTiers(
+      [tier({ starts_at: '2026-06-03T00:00:00Z', ends_at: '2026-06-02T00:00:00Z' })],
+      NOW
+    );
+
+    expect(error).toContain('end date must be after the start date');
+  });
+
+  it('rejects activating a tier before its start date', () => {
+    const error = validatePriceTiers([tier({ is_active: true, starts_at: '2026-06-02T00:00:00Z' })], NOW);
+
+    expect(error).toContain('cannot be active before its start date');
+  });
+
+  it('rejects more than one door tier and an active door tier', () => {
+    expect(
+      validatePriceTiers([tier({ is_door_tier: true }), tier({ tier_name: 'Late door', is_door_tier: true })], NOW)
+    ).toBe('Only one tier can be the door price.');
+    expect(validatePriceTiers([tier({ is_door_tier: true, is_active: true })], NOW)).toContain(
+      'door tier cannot be the active online tier'
+    );
+  });
+
+  it('rejects duplicate online tier names, since sales are attributed by name', () => {
+    const error = validatePriceTiers([tier(), tier({ tier_name: 'early bird ', sort_order: 1 })], NOW);
+
+    expect(error).toContain('must be unique');
+  });
+
+  it('rejects lowering tickets available below tickets sold', () => {
+    expect(validatePriceTiers([tier({ tickets_available: 10, tickets_sold: 12 })], NOW)).toContain(
+      'cannot be lower than the 12 already sold'
+    );
+  });
+});
+
+describe('getCountdown', () => {
+  it('splits the remaining time into days, hours, minutes and seconds', () => {
+    expect(getCountdown(new Date('2026-06-03T15:04:05Z'), NOW)).toEqual({
+      days: 2,
+      hours: 3,
+      minutes: 4,
+      seconds: 5,
+    });
+  });
+
+  it('returns null once the time has passed', () => {
+    expect(getCountdown(NOW, NOW)).toBeNull();
+  });
+});
+
+describe('formatCountdown', () => {
+  it('shows the two most significant units', () => {
+    expect(formatCountdown({ days: 2, hours: 3, minutes: 4, seconds: 5 })).toBe('2d 3h');
+    expect(formatCountdown({ days: 0, hours: 3, minutes: 4, seconds: 5 })).toBe('3h 4m');
+    expect(formatCountdown({ days: 0, hours: 0, minutes: 4, seconds: 5 })).toBe('4:05');
+  });
+});
+
+describe('toPriceTierDraft', () => {
+  it('converts numeric strings and defaults the door flag', () => {
+    const draft = toPriceTierDraft({
+      id: 'tier-1',
+      ticket_type_id: 'tt-1',
+      tier_name: 'Standard',
+      price: '30.00',
+      tickets_available: 100,
+      tickets_sold: 5,
+      sort_order: 1,
+      is_active: true,
+      starts_at: null,
+      ends_at: null,
+      is_door_tier: null,
+    });
+
+    expect(draft).toMatchObject({ price: 30, is_door_tier: false });
+  });
+});
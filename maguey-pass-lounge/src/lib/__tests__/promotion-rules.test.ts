@@ -0,0 +1,249 @@
+/**
+ * Promotion Rules Tests
+ *
+ * Tests for promotion eligibility, discount calculation and stacking, and that
+ * the edge function copy of the evaluator stays identical to the app copy
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  evaluatePromotions,
+  checkPromotionEligibility,
+  calculatePromotionDiscount,
+  toPromotionRule,
+  type PromotionRule,
+  type PromotionCart,
+} from '../promotion-rules';
+import appSource from '../promotion-rules.ts?raw';
+import edgeSource from '../../../supabase/functions/_shared/promotion-rules.ts?raw';
+
+// Friday 2026-06-05 21:30 in New York (EDT, UTC-4)
+const FRIDAY_NIGHT = new Date('2026-06-06T01:30:00Z');
+
+function rule(overrides: Partial<PromotionRule> = {}): PromotionRule {
+  return {
+    id: 'promo-1',
+    name: 'Test promo',
+    code: null,
+    promotionCodeId: null,
+    discountType: 'percent',
+    amount: 10,
+    autoApply: true,
+    eventIds: null,
+    ticketTypeIds: null,
+    minQuantity: null,
+    minSubtotal: null,
+    buyQuantity: null,
+    getQuantity: null,
+    validFrom: null,
+    validTo: null,
+    happyHourStart: null,
+    happyHourEnd: null,
+    daysOfWeek: null,
+    stackable: false,
+    priority: 0,
+    usageLimit: null,
+    usageCount: 0,
+    perCustomerLimit: null,
+    customerUsageCount: 0,
+    codeUsesRemaining: null,
+    ...overrides,
+  };
+}
+
+const cart: PromotionCart = {
+  eventId: 'event-1',
+  lines: [
+    { ticketTypeId: 'ga', quantity: 3, unitPrice: 20, unitFee: 5 },
+    { ticketTypeId: 'vip', quantity: 1, unitPrice: 60, unitFee: 10 },
+  ],
+};
+
+describe('promotion-rules', () => {
+  it('should keep the edge function copy identical to the app copy', () => {
+    expect(edgeSource).toBe(appSource);
+  });
+
+  describe('calculatePromotionDiscount', () => {
+    it('should take a percent off eligible tickets including fees', () => {
+      expect(calculatePromotionDiscount(rule(), cart)).toBe(14.5);
+      expect(calculatePromotionDiscount(rule({ ticketTypeIds: ['vip'] }), cart)).toBe(7);
+    });
+
+    it('should cap a fixed amount at the eligible subtotal', () => {
+      expect(calculatePromotionDiscount(rule({ discountType: 'amount', amount: 15 }), cart)).toBe(15);
+      expect(
+        calculatePromotionDiscount(rule({ discountType: 'amount', amount: 500, ticketTypeIds: ['vip'] }), cart)
+      ).toBe(70);
+    });
+
+    it('should make the cheapest tickets free for buy-X-get-Y', () => {
+      const bogo = rule({ discountType: 'buy_x_get_y', amount: 100, buyQuantity: 1, getQuantity: 1 });
+      // 4 tickets → 2 free: the two cheapest (GA at $25)
+      expect(calculatePromotionDiscount(bogo, cart)).toBe(50);
+      // Buy 2 get 1 half off, GA only: 3 GA → 1 at 50%
+      expect(
+        calculatePromotionDiscount({ ...bogo, amount: 50, buyQuantity: 2, ticketTypeIds: ['ga'] }, cart)
+      ).toBe(12.5);
+    });
+  });
+
+  describe('checkPromotionEligibility', () => {
+    it('should enforce the validity window', () => {
+      expect(checkPromotionEligibility(rule({ validFrom: '2026-07-01T00:00:00Z' }), cart, FRIDAY_NIGHT)).toBe('not_started');
+      expect(checkPromotionEligibility(rule({ validTo: '2026-06-01T00:00:00Z' }), cart, FRIDAY_NIGHT)).toBe('expired');
+    });
+
+    it('should evaluate happy hour in venue time', () => {
+      expect(checkPromotionEligibility(rule({ happyHourStart: '21:00', happyHourEnd: '22:00' }), cart, FRIDAY_NIGHT)).toBeNull();
+      expect(checkPromotionEligibility(rule({ happyHourStart: '17:00', happyHourEnd: '19:00' }), cart, FRIDAY_NIGHT)).toBe('outside_hours');
+      expect(checkPromotionEligibility(rule({ daysOfWeek: [5] }), cart, FRIDAY_NIGHT)).toBeNull();
+      expect(checkPromotionEligibility(rule({ daysOfWeek: [6] }), cart, FRIDAY_NIGHT)).toBe('outside_hours');
+    });
+
+    it('should count the small hours toward the previous night for windows crossing midnight', () => {
+      // Saturday 01:00 in New York is still Friday's 22:00–02:00 window
+      const saturdayEarly = new Date('2026-06-06T05:00:00Z');
+      const lateNight = rule({ happyHourStart: '22:00', happyHourEnd: '02:00', daysOfWeek: [5] });
+      expect(checkPromotionEligibility(lateNight, cart, saturdayEarly)).toBeNull();
+      expect(checkPromotionEligibility(lateNight, cart, FRIDAY_NIGHT)).toBe('outside_hours');
+    });
+
+    it('should enforce scoping and minimums', () => {
+      expect(checkPromotionEligibility(rule({ eventIds: ['event-2'] }), cart, FRIDAY_NIGHT)).toBe('not_for_event');
+      expect(checkPromotionEligibility(rule({ ticketTypeIds: ['table'] }), cart, FRIDAY_NIGHT)).toBe('not_for_ticket_type');
+      expect(checkPromotionEligibility(rule({ minQuantity: 5 }), cart, FRIDAY_NIGHT)).toBe('min_quantity');
+      expect(checkPromotionEligibility(rule({ minSubtotal: 200 }), cart, FRIDAY_NIGHT)).toBe('min_subtotal');
+    });
+
+    it('should enforce usage limits', () => {
+      expect(checkPromotionEligibility(rule({ usageLimit: 10, usageCount: 10 }), cart, FRIDAY_NIGHT)).toBe('usage_limit');
+      expect(checkPromotionEligibility(rule({ perCustomerLimit: 1, customerUsageCount: 1 }), cart, FRIDAY_NIGHT)).toBe('customer_limit');
+      expect(checkPromotionEligibility(rule({ codeUsesRemaining: 0 }), cart, FRIDAY_NIGHT)).toBe('code_used');
+    });
+  });
+
+  describe('evaluatePromotions', () => {
+    it('should only apply code promotions when their code is entered', () => {
+      const coded = rule({ autoApply: false, code: 'SAVE10' });
+      expect(evaluatePromotions(cart, [coded], { now: FRIDAY_NIGHT }).discount).toBe(0);
+
+      const result = evaluatePromotions(cart, [coded], { code: ' save10 ', now: FRIDAY_NIGHT });
+      expect(result.discount).toBe(14.5);
+      expect(result.applied[0].code).toBe('SAVE10');
+      expect(result.codeRejection).toBeNull();
+    });
+
+    it('should explain why an entered code did not apply', () => {
+      expect(evaluatePromotions(cart, [], { code: 'NOPE', now: FRIDAY_NIGHT }).codeRejection).toBe('not_found');
+      expect(
+        evaluatePromotions(cart, [rule({ autoApply: false, code: 'BIG', minQuantity: 10 })], { code: 'BIG', now: FRIDAY_NIGHT })
+          .codeRejection
+      ).toBe('min_quantity');
+    });
+
+    it('should stack stackable promotions in priority order', () => {
+      const result = evaluatePromotions(
+        cart,
+        [
+          rule({ id: 'a', stackable: true, priority: 1, discountType: 'amount', amount: 5 }),
+          rule({ id: 'b', stackable: true, priority: 2 }),
+        ],
+        { now: FRIDAY_NIGHT }
+      );
+      expect(result.applied.map((applied) => applied.promotionId)).toEqual(['b', 'a']);
+      expect(result.discount).toBe(19.5);
+    });
+
+    it('should not combine a non-stackable promotion with anything', () => {
+      const stackables = [
+        rule({ id: 'a', stackable: true, discountType: 'amount', amount: 5 }),
+        rule({ id: 'b', stackable: true, discountType: 'amount', amount: 5 }),
+      ];
+
+      const exclusiveWins = evaluatePromotions(
+        cart,
+        [...stackables, rule({ id: 'c', autoApply: false, code: 'HALF', amount: 50 })],
+        { code: 'HALF', now: FRIDAY_NIGHT }
+      );
+      expect(exclusiveWins.applied.map((applied) => applied.promotionId)).toEqual(['c']);
+
+      const stackWins = evaluatePromotions(
+        cart,
+        [...stackables, rule({ id: 'c', autoApply: false, code: 'SMALL', discountType: 'amount', amount: 8 })],
+        { code: 'SMALL', now: FRIDAY_NIGHT }
+      );
+      expect(stackWins.discount).toBe(10);
+      expect(stackWins.codeRejection).toBe('not_combinable');
+    });
+
+    it('should prefer the higher priority option when savings tie', () => {
+      const result = evaluatePromotions(
+        cart,
+        [
+          rule({ id: 'a', stackable: true, priority: 1, discountType: 'amount', amount: 10 }),
+          rule({ id: 'b', priority: 5, discountType: 'amount', amount: 10 }),
+        ],
+        { now: FRIDAY_NIGHT }
+      );
+      expect(result.applied.map((applied) => applied.promotionId)).toEqual(['b']);
+    });
+
+    it('should never discount more than the cart total', () => {
+      const result = evaluatePromotions(
+        cart,
+        [
+          rule({ id: 'a', stackable: true, discountType: 'amount', amount: 100 }),
+          rule({ id: 'b', stackable: true, discountType: 'amount', amount: 100 }),
+        ],
+        { now: FRIDAY_NIGHT }
+      );
+      expect(result.discount).toBe(145);
+      expect(result.applied[1].discount).toBe(45);
+    });
+  });
+
+  describe('toPromotionRule', () => {
+    it('should map RPC rows with string numerics and time columns', () => {
+      const mapped = toPromotionRule({
+        id: 'promo-1',
+        name: null,
+        code: 'HAPPY',
+        matched_code: 'HAPPY',
+        promotion_code_id: null,
+        discount_type: 'percent',
+        amount: '15.00',
+        auto_apply: false,
+        event_ids: null,
+        ticket_type_ids: null,
+        min_quantity: null,
+        min_subtotal: '50.00',
+        buy_quantity: null,
+        get_quantity: null,
+        valid_from: null,
+        valid_to: null,
+        happy_hour_start: '18:00:00',
+        happy_hour_end: '20:00:00',
+        days_of_week: [4, 5],
+        stackable: false,
+        priority: null,
+        usage_limit: 100,
+        usage_count: '3',
+        per_customer_limit: null,
+        customer_usage_count: '0',
+        code_uses_remaining: null,
+      });
+
+      expect(mapped).toMatchObject({
+        name: 'HAPPY',
+        code: 'HAPPY',
+        amount: 15,
+        minSubtotal: 50,
+        happyHourStart: '18:00',
+        happyHourEnd: '20:00',
+        priority: 0,
+        usageCount: 3,
+      });
+    });
+  });
+});
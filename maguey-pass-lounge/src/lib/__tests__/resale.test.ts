@@ -0,0 +1,142 @@
+/**
+ * Resale Tests
+ *
+ * Tests for the price cap, fee and payout shown when listing a ticket, the
+ * resale cutoff and the admin report totals
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  maxResalePrice,
+  resaleFee,
+  sellerProceeds,
+  validateResalePrice,
+  canListForResale,
+  formatListingStatus,
+  totalResaleReport,
+  averagePriceToFace,
+  DEFAULT_RESALE_SETTINGS,
+  type ResaleReportRow,
+} from '../resale';
+
+function reportRow(overrides: Partial<ResaleReportRow> = {}): ResaleReportRow {
+  return {
+    event_id: 'event-1',
+    event_name: 'Reggaeton Night',
+    event_date: '2026-06-05',
+    listings: 4,
+    active_listings: 1,
+    sold: 2,
+    withdrawn: 1,
+    cancelled: 0,
+    gross_sales: 70,
+    face_value_sold: 80,
+    fees: 7,
+    seller_payouts: 63,
+    payouts_pending: 0,
+    ...overrides,
+  };
+}
+
+describe('maxResalePrice', () => {
+  it('is face value at a 100% cap', () => {
+    expect(maxResalePrice(40, 100)).toBe(40);
+  });
+
+  it('rounds down to the cent so the cap is never exceeded', () => {
+    expect(maxResalePrice(33.33, 110)).toBe(36.66);
+    expect(maxResalePrice(25, 90)).toBe(22.5);
+  });
+});
+
+describe('resaleFee and sellerProceeds', () => {
+  it('splits the price into fee and payout', () => {
+    expect(resaleFee(35, 10)).toBe(3.5);
+    expect(sellerProceeds(35, 10)).toBe(31.5);
+  });
+
+  it('keeps fee + payout equal to the price after rounding', () => {
+    const price = 19.99;
+    expect(resaleFee(price, 7.5) + sellerProceeds(price, 7.5)).toBeCloseTo(price, 2);
+  });
+
+  it('pays the seller everything with no fee', () => {
+    expect(sellerProceeds(40, 0)).toBe(40);
+  });
+});
+
+describe('validateResalePrice', () => {
+  it('accepts prices up to the cap', () => {
+    expect(validateResalePrice(40, 40, 100)).toBeNull();
+    expect(validateResalePrice(0.5, 40, 100)).toBeNull();
+  });
+
+  it('rejects zero, negative and non-numeric prices', () => {
+    expect(validateResalePrice(0, 40, 100)).toBe('Enter a price above $0');
+    expect(validateResalePrice(-5, 40, 100)).toBe('Enter a price above $0');
+    expect(validateResalePrice(Number.NaN, 40, 100)).toBe('Enter a price above $0');
+  });
+
+  it('rejects prices above the cap with the cap in the message', () => {
+    expect(validateResalePrice(40.01, 40, 100)).toBe("Price can't be more than $40.00");
+  });
+});
+
+describe('canListForResale', () => {
+  const enabled = { ...DEFAULT_RESALE_SETTINGS, resale_enabled: true };
+
+  it('is closed when the owner has not enabled resale', () => {
+    expect(canListForResale(DEFAULT_RESALE_SETTINGS, '2026-06-05', '22:00', new Date('2026-06-01T12:00:00'))).toBe(false);
+    expect(canListForResale(null, '2026-06-05', '22:00', new Date('2026-06-01T12:00:00'))).toBe(false);
+  });
+
+  it('closes the cutoff hours before the event starts', () => {
+    expect(canListForResale(enabled, '2026-06-05', '22:00', new Date('2026-06-05T19:59:00'))).toBe(true);
+    expect(canListForResale(enabled, '2026-06-05', '22:00', new Date('2026-06-05T20:00:00'))).toBe(false);
+  });
+});
+
+describe('formatListingStatus', () => {
+  it('explains why a listing was withdrawn', () => {
+    expect(formatListingStatus({ status: 'withdrawn', withdrawn_reason: 'ticket_scanned' })).toBe(
+      'Withdrawn: ticket was scanned'
+    );
+    expect(formatListingStatus({ status: 'withdrawn', withdrawn_reason: 'sale_failed: Ticket not found' })).toBe(
+      'Withdrawn: sale could not be completed'
+    );
+    expect(formatListingStatus({ status: 'withdrawn', withdrawn_reason: null })).toBe('Withdrawn');
+  });
+
+  it('labels open listings', () => {
+    expect(formatListingStatus({ status: 'active', withdrawn_reason: null })).toBe('Listed');
+    expect(formatListingStatus({ status: 'pending_payment', withdrawn_reason: null })).toBe('Buyer checking out');
+  });
+});
+
+describe('totalResaleReport', () => {
+  it('sums every event', () => {
+    const totals = totalResaleReport([
+      reportRow(),
+      reportRow({ event_id: 'event-2', sold: 1, gross_sales: 30.1, fees: 3.01, seller_payouts: 27.09 }),
+    ]);
+    expect(totals.sold).toBe(3);
+    expect(totals.listings).toBe(8);
+    expect(totals.gross_sales).toBe(100.1);
+    expect(totals.fees).toBe(10.01);
+    expect(totals.seller_payouts).toBe(90.09);
+  });
+
+  it('is all zeros with no events', () => {
+    expect(totalResaleReport([]).gross_sales).toBe(0);
+  });
+});
+
+describe('averagePriceToFace', () => {
+  it('is the sale price as a percentage of face value', () => {
+    expect(averagePriceToFace(reportRow())).toBe(88);
+  });
+
+  it('is null before anything sells', () => {
+    expect(averagePriceToFace(reportRow({ gross_sales: 0, face_value_sold: 0 }))).toBeNull();
+  });
+});
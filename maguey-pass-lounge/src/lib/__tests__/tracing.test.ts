@@ -0,0 +1,276 @@
+/**
+ * Distributed Tracing Tests
+ *
+ * Tests for the OTLP/HTTP exporter (encoding, batching, retries, sampling)
+ * and for following one purchase trace from checkout through the Stripe
+ * webhook and the email queue to the door scan, using the collector stand-in
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { Tracer } from '../tracing/tracer';
+import { SpanBuilder, type Span } from '../tracing/span';
+import { createRootContext, parseTraceparent } from '../tracing/trace-context';
+import {
+  OtlpHttpExporter,
+  otlpTracesUrl,
+  parseOtlpHeaders,
+  toOtlpPayload,
+} from '../tracing/exporters/otlp-exporter';
+import { EdgeTracer, traceHandler } from '../../../supabase/functions/_shared/tracing';
+import { COLLECTOR_URL, createOtlpCollector } from './otlp-collector';
+
+function makeSpan(overrides: Partial<Span> = {}): Span {
+  const builder = new SpanBuilder('test.span', createRootContext(), 'client');
+  builder.setAttributes({ 'service.name': 'maguey-pass-lounge', 'service.version': '1.0.0', 'order.count': 2 });
+  return { ...builder.end(), ...overrides };
+}
+
+describe('toOtlpPayload', () => {
+  it('encodes spans as OTLP JSON with the service as the resource', () => {
+    const span = makeSpan({
+      startTime: 1_700_000_000_000,
+      endTime: 1_700_000_000_250,
+      status: 'error',
+      statusMessage: 'Card declined',
+      attributes: {
+        'service.name': 'maguey-pass-lounge',
+        'service.environment': 'production',
+        'order.count': 2,
+        'order.total': 42.5,
+        'order.paid': false,
+        'order.tiers': ['ga', 'vip'],
+      },
+    });
+
+    const payload = toOtlpPayload([span]);
+    const [resourceSpans] = payload.resourceSpans;
+    const [encoded] = resourceSpans.scopeSpans[0].spans;
+
+    expect(resourceSpans.resource.attributes).toEqual([
+      { key: 'service.name', value: { stringValue: 'maguey-pass-lounge' } },
+      { key: 'deployment.environment', value: { stringValue: 'production' } },
+    ]);
+    expect(encoded).toMatchObject({
+      traceId: span.traceId,
+      spanId: span.spanId,
+      flags: 1,
+      kind: 3,
+      startTimeUnixNano: '1700000000000000000',
+      endTimeUnixNano: '1700000000250000000',
+      status: { code: 2, message: 'Card declined' },
+    });
+    expect(encoded.attributes).toEqual([
+      { key: 'order.count', value: { intValue: '2' } },
+      { key: 'order.total', value: { doubleValue: 42.5 } },
+      { key: 'order.paid', value: { boolValue: false } },
+      { key: 'order.tiers', value: { arrayValue: { values: [{ stringValue: 'ga' }, { stringValue: 'vip' }] } } },
+    ]);
+  });
+
+  it('groups spans from different services into separate resources', () => {
+    const payload = toOtlpPayload([
+      makeSpan(),
+      makeSpan({ attributes: { 'service.name': 'maguey-gate-scanner' } }),
+      makeSpan(),
+    ]);
+
+    expect(payload.resourceSpans).toHaveLength(2);
+    expect(payload.resourceSpans[0].scopeSpans[0].spans).toHaveLength(2);
+  });
+});
+
+describe('exporter configuration', () => {
+  it('parses OTEL_EXPORTER_OTLP_HEADERS', () => {
+    expect(parseOtlpHeaders('x-honeycomb-team=abc123, x-dataset = web%20traces')).toEqual({
+      'x-honeycomb-team': 'abc123',
+      'x-dataset': 'web traces',
+    });
+    expect(parseOtlpHeaders(undefined)).toEqual({});
+  });
+
+  it('appends /v1/traces to a collector base URL once', () => {
+    expect(otlpTracesUrl('http://localhost:4318/')).toBe('http://localhost:4318/v1/traces');
+    expect(otlpTracesUrl('https://otel.example.com/v1/traces')).toBe('https://otel.example.com/v1/traces');
+  });
+});
+
+describe('OtlpHttpExporter', () => {
+  it('sends full batches straight away and the rest on flush', async () => {
+    const collector = createOtlpCollector();
+    const exporter = new OtlpHttpExporter({ endpoint: COLLECTOR_URL, fetch: collector.fetch, maxBatchSize: 2 });
+
+    await exporter.export([makeSpan(), makeSpan(), makeSpan()]);
+    expect(collector.spans()).toHaveLength(2);
+
+    await exporter.forceFlush();
+    expect(collector.requests).toHaveLength(2);
+    expect(collector.spans()).toHaveLength(3);
+  });
+
+  it('retries when the collector asks it to', async () => {
+    const collector = createOtlpCollector();
+    const exporter = new OtlpHttpExporter({ endpoint: COLLECTOR_URL, fetch: collector.fetch, retryDelayMs: 0 });
+    collector.failNext(2, 503);
+
+    await exporter.export([makeSpan()]);
+    await exporter.forceFlush();
+
+    expect(collector.requests).toHaveLength(3);
+    expect(collector.spans()).toHaveLength(1);
+    expect(exporter.getDroppedSpanCount()).toBe(0);
+  });
+
+  it('gives up on rejected batches and after the last retry', async () => {
+    const collector = createOtlpCollector();
+    const exporter = new OtlpHttpExporter({ endpoint: COLLECTOR_URL, fetch: collector.fetch, retryDelayMs: 0, maxRetries: 1 });
+
+    collector.failNext(1, 400);
+    await exporter.export([makeSpan()]);
+    await exporter.forceFlush();
+    expect(collector.requests).toHaveLength(1);
+
+    collector.failNext(5, 503);
+    await exporter.export([makeSpan()]);
+    await exporter.forceFlush();
+    expect(collector.requests).toHaveLength(3);
+    expect(exporter.getDroppedSpanCount()).toBe(2);
+  });
+
+  it('drops the oldest spans when the queue is full', async () => {
+    const collector = createOtlpCollector();
+    const exporter = new OtlpHttpExporter({ endpoint: COLLECTOR_URL, fetch: collector.fetch, maxQueueSize: 2 });
+    const spans = [makeSpan(), makeSpan(), makeSpan()];
+
+    await exporter.export(spans);
+    await exporter.forceFlush();
+
+    expect(collector.spans().map((span) => span.spanId)).toEqual([spans[1].spanId, spans[2].spanId]);
+    expect(exporter.getDroppedSpanCount()).toBe(1);
+  });
+
+  it('skips traces that were not sampled upstream or by its own rate', async () => {
+    const collector = createOtlpCollector();
+    const unsampled = new OtlpHttpExporter({ endpoint: COLLECTOR_URL, fetch: collector.fetch });
+    const sampledOut = new OtlpHttpExporter({ endpoint: COLLECTOR_URL, fetch: collector.fetch, sampleRate: 0 });
+
+    await unsampled.export([makeSpan({ traceFlags: 0 })]);
+    await sampledOut.export([makeSpan()]);
+    await unsampled.forceFlush();
+    await sampledOut.forceFlush();
+
+    expect(collector.requests).toHaveLength(0);
+  });
+});
+
+describe('purchase trace', () => {
+  let tracers: Tracer[] = [];
+
+  afterEach(() => {
+    tracers.forEach((tracer) => tracer.destroy());
+    tracers = [];
+  });
+
+  it('follows purchase → webhook → email → scan as one trace', async () => {
+    const collector = createOtlpCollector();
+    const exporter = () => new OtlpHttpExporter({ endpoint: COLLECTOR_URL, fetch: collector.fetch });
+    const site = new Tracer({ serviceName: 'maguey-pass-lounge', exporters: [exporter()] });
+    const scanner = new Tracer({ serviceName: 'maguey-gate-scanner', exporters: [exporter()] });
+    const edge = new EdgeTracer({ serviceName: 'maguey-edge-functions', endpoint: COLLECTOR_URL, fetch: collector.fetch });
+    tracers = [site, scanner];
+
+    // What each hop stores for the next one
+    let sessionMetadata: Record<string, string> = {};
+    let queuedEmail = { traceparent: '' };
+    let issuedTicket = { traceparent: '' };
+
+    // 1. Checkout: the site calls create-checkout-session with a traceparent header
+    const createCheckoutSession = traceHandler('create-checkout-session', async (_req, span) => {
+      sessionMetadata = { orderId: 'order-1', traceparent: span.traceparent };
+      return new Response('{}');
+    }, edge);
+
+    const purchaseTraceId = await site.withSpan('checkout.createSession', async (span) => {
+      const headers: Record<string, string> = {};
+      site.injectContext(headers, span.getContext());
+      await createCheckoutSession(new Request('http://localhost/functions/v1/create-checkout-session', { method: 'POST', headers }));
+      return span.getContext().traceId;
+    }, { kind: 'client' });
+
+    // 2. Stripe webhook: no traceparent header, the session metadata carries it
+    const stripeWebhook = traceHandler('stripe-webhook', async (req, span) => {
+      const event = await req.json();
+      span.adoptParent(event.data.object.metadata.traceparent);
+      issuedTicket = { traceparent: span.traceparent };
+      queuedEmail = { traceparent: span.traceparent };
+      return new Response('{}');
+    }, edge);
+
+    await stripeWebhook(new Request('http://localhost/functions/v1/stripe-webhook', {
+      method: 'POST',
+      body: JSON.stringify({ type: 'checkout.session.completed', data: { object: { metadata: sessionMetadata } } }),
+    }));
+
+    // 3. Email queue: each email continues the trace it was queued from
+    const processEmailQueue = traceHandler('process-email-queue', async (_req, span) => {
+      edge.startSpan('email.send', { kind: 'consumer', parent: queuedEmail.traceparent || span }).end();
+      return new Response('{}');
+    }, edge);
+
+    await processEmailQueue(new Request('http://localhost/functions/v1/process-email-queue', { method: 'POST' }));
+
+    // 4. Door scan: the scanner reads the ticket's traceparent
+    const scanSpan = scanner.startSpan('scanner.scanTicket', {
+      kind: 'server',
+      parentContext: parseTraceparent(issuedTicket.traceparent) ?? undefined,
+    });
+    await scanner.endSpan(scanSpan);
+
+    await site.forceFlush();
+    await scanner.forceFlush();
+
+    const trace = collector.trace(purchaseTraceId);
+    const byName = Object.fromEntries(trace.map((span) => [span.name, span]));
+
+    expect(trace.map((span) => span.name).sort()).toEqual([
+      'POST create-checkout-session',
+      'POST stripe-webhook',
+      'checkout.createSession',
+      'email.send',
+      'scanner.scanTicket',
+    ]);
+    expect(byName['checkout.createSession'].parentSpanId).toBeUndefined();
+    expect(byName['POST create-checkout-session'].parentSpanId).toBe(byName['checkout.createSession'].spanId);
+    expect(byName['POST stripe-webhook'].parentSpanId).toBe(byName['POST create-checkout-session'].spanId);
+    expect(byName['email.send'].parentSpanId).toBe(byName['POST stripe-webhook'].spanId);
+    expect(byName['scanner.scanTicket'].parentSpanId).toBe(byName['POST stripe-webhook'].spanId);
+    expect(new Set(trace.map((span) => span.service))).toEqual(
+      new Set(['maguey-pass-lounge', 'maguey-edge-functions', 'maguey-gate-scanner'])
+    );
+
+    // The queue run itself is its own trace
+    const queueRun = collector.spans().find((span) => span.name === 'POST process-email-queue');
+    expect(queueRun?.traceId).not.toBe(purchaseTraceId);
+  });
+
+  it('keeps an unsampled purchase out of the collector end to end', async () => {
+    const collector = createOtlpCollector();
+    const site = new Tracer({
+      serviceName: 'maguey-pass-lounge',
+      sampleRate: 0,
+      exporters: [new OtlpHttpExporter({ endpoint: COLLECTOR_URL, fetch: collector.fetch })],
+    });
+    const edge = new EdgeTracer({ serviceName: 'maguey-edge-functions', endpoint: COLLECTOR_URL, fetch: collector.fetch });
+    tracers = [site];
+
+    await site.withSpan('checkout.createSession', async (span) => {
+      const headers: Record<string, string> = {};
+      site.injectContext(headers, span.getContext());
+      await traceHandler('create-checkout-session', async () => new Response('{}'), edge)(
+        new Request('http://localhost/functions/v1/create-checkout-session', { method: 'POST', headers })
+      );
+    });
+    await site.forceFlush();
+
+    expect(collector.requests).toHaveLength(0);
+  });
+});
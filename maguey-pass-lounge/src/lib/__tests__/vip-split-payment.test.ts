@@ -0,0 +1,100 @@
+/**
+ * VIP Split Payment Tests
+ *
+ * Tests for the per-payer amounts shown when splitting a table, invitee
+ * validation and the paid/outstanding summary on the guest dashboard
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  splitTableAmount,
+  splitSharesInDollars,
+  validateInvitees,
+  summarizeShares,
+  isSharePayable,
+  formatShareStatus,
+  sharePayLink,
+} from '../vip-split-payment';
+
+describe('splitTableAmount', () => {
+  it('splits evenly', () => {
+    expect(splitTableAmount(60000, 4)).toEqual([15000, 15000, 15000, 15000]);
+  });
+
+  it('gives leftover cents to the host', () => {
+    const shares = splitTableAmount(50000, 3);
+    expect(shares).toEqual([16668, 16666, 16666]);
+    expect(shares.reduce((sum, cents) => sum + cents, 0)).toBe(50000);
+  });
+
+  it('returns no shares without payers', () => {
+    expect(splitTableAmount(50000, 0)).toEqual([]);
+  });
+});
+
+describe('splitSharesInDollars', () => {
+  it('converts the shares back to dollars', () => {
+    expect(splitSharesInDollars(500, 3)).toEqual([166.68, 166.66, 166.66]);
+  });
+});
+
+describe('validateInvitees', () => {
+  const luis = { name: 'Luis', email: 'luis@example.com' };
+
+  it('accepts a valid list', () => {
+    expect(validateInvitees([luis], 'ana@example.com', 5)).toBeNull();
+  });
+
+  it('requires at least one guest', () => {
+    expect(validateInvitees([], 'ana@example.com', 5)).toMatch(/at least one guest/);
+  });
+
+  it('caps the list at the table capacity', () => {
+    expect(validateInvitees([luis, { name: '', email: 'b@example.com' }], 'ana@example.com', 1)).toMatch(/at most 1 guest$/);
+  });
+
+  it('rejects invalid emails, the host and duplicates', () => {
+    expect(validateInvitees([{ name: '', email: 'luis' }], 'ana@example.com', 5)).toBe('Invalid email: luis');
+    expect(validateInvitees([{ name: '', email: 'ANA@example.com' }], 'ana@example.com', 5)).toMatch(/invite yourself/);
+    expect(validateInvitees([luis, { name: '', email: 'LUIS@example.com ' }], 'ana@example.com', 5)).toMatch(/more than once/);
+  });
+});
+
+describe('summarizeShares', () => {
+  it('counts covered shares as paid and ignores cancelled ones', () => {
+    expect(
+      summarizeShares([
+        { amount: 166.68, status: 'paid' },
+        { amount: 166.66, status: 'pending' },
+        { amount: 166.66, status: 'covered_by_host' },
+        { amount: 100, status: 'cancelled' },
+      ])
+    ).toEqual({ paidCount: 2, payerCount: 3, paidAmount: 333.34, outstandingAmount: 166.66 });
+  });
+});
+
+describe('isSharePayable', () => {
+  const now = new Date('2026-04-29T12:00:00Z');
+  const share = { status: 'pending' as const, reservation_status: 'pending', split_deadline: '2026-04-29T22:00:00Z' };
+
+  it('is payable before the deadline', () => {
+    expect(isSharePayable(share, now)).toBe(true);
+  });
+
+  it('is not payable once paid, settled or past the deadline', () => {
+    expect(isSharePayable({ ...share, status: 'paid' }, now)).toBe(false);
+    expect(isSharePayable({ ...share, reservation_status: 'cancelled' }, now)).toBe(false);
+    expect(isSharePayable(share, new Date('2026-04-30T00:00:00Z'))).toBe(false);
+  });
+});
+
+describe('labels', () => {
+  it('formats share statuses', () => {
+    expect(formatShareStatus('pending')).toBe('Not paid yet');
+    expect(formatShareStatus('covered_by_host')).toBe('Covered by host');
+  });
+
+  it('builds the pay link', () => {
+    expect(sharePayLink('https://tickets.example.com', 'abc123')).toBe('https://tickets.example.com/vip-share/abc123');
+  });
+});
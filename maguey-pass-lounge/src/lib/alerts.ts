@@ -423,6 +423,16 @@ class AlertManager {
     return triggeredAlerts;
   }
 
+  /**
+   * Raise an alert from an external event rather than a rule check. It stays
+   * active under its rule ID until resolved.
+   */
+  async raise(alert: Alert): Promise<void> {
+    this.activeAlerts.set(alert.ruleId, alert);
+    this.addToHistory(alert);
+    await this.notifyAll(alert);
+  }
+
   /**
    * Start automatic checking at specified interval
    */
@@ -780,20 +790,43 @@ export async function sendAlert(
     resolved: false,
   };
   
-  // Get all notifiers from the alert manager and send
-  const notifiers = [new ConsoleNotifier()];
-  
-  for (const notifier of notifiers) {
-    try {
-      await notifier.notify(alert);
-    } catch (err) {
-      logger.error(`Failed to send alert via ${notifier.name}`, err);
-    }
-  }
+  // Send through every notifier registered with the alert manager
+  await alertManager.raise(alert);
   
   logger.warn(`Manual alert sent: ${rule.name}`, { details });
 }
 
+/**
+ * Alert owners to a new Stripe dispute. Each dispute is its own alert (rule
+ * ID payment-dispute-<stripe id>) so it can be acknowledged and resolved on
+ * its own; see resolvePaymentDisputeAlert.
+ */
+export async function sendPaymentDisputeAlert(dispute: {
+  stripeDisputeId: string;
+  amount: number;
+  reason: string | null;
+  evidenceDueBy: string | null;
+}): Promise<void> {
+  const reason = dispute.reason ? dispute.reason.replace(/_/g, ' ') : 'no reason given';
+  const dueBy = dispute.evidenceDueBy
+    ? ` Evidence due ${new Date(dispute.evidenceDueBy).toLocaleDateString()}.`
+    : '';
+
+  await sendAlert(
+    {
+      id: `payment-dispute-${dispute.stripeDisputeId}`,
+      name: 'Payment Dispute Opened',
+      severity: AlertSeverity.Critical,
+      description: 'A customer disputed a payment; its tickets have been voided',
+    },
+    `$${dispute.amount.toFixed(2)} disputed (${reason}).${dueBy} Tickets on the order are voided until the dispute closes.`
+  );
+}
+
+export function resolvePaymentDisputeAlert(stripeDisputeId: string): void {
+  alertManager.resolveAlert(`payment-dispute-${stripeDisputeId}`);
+}
+
 // ============================================
 // PREDEFINED ALERT RULES (matching interface spec)
 // ============================================
@@ -0,0 +1,59 @@
+import { supabase } from '@/lib/supabase';
+import type { BottleMenuItem, CartLine, VipTab } from '@/lib/bottle-service';
+
+/** Items on the event's bottle menu that can be ordered right now */
+export async function getBottleMenu(eventId: string): Promise<BottleMenuItem[]> {
+  const { data, error } = await supabase
+    .from('vip_bottle_menu_items')
+    .select('id, event_id, category, name, description, price_cents, is_available, sort_order')
+    .eq('event_id', eventId)
+    .eq('is_available', true)
+    .order('category')
+    .order('sort_order')
+    .order('name');
+
+  if (error) {
+    console.error('getBottleMenu error:', error);
+    throw new Error(error.message);
+  }
+
+  return (data || []) as BottleMenuItem[];
+}
+
+/** The reservation's running tab and orders, or null for an unknown reservation */
+export async function getVipTab(reservationId: string): Promise<VipTab | null> {
+  // Type assertion needed since get_vip_tab is not in the generated types
+  const { data, error } = await (supabase.rpc as any)('get_vip_tab', { p_reservation_id: reservationId });
+
+  if (error) {
+    console.error('getVipTab error:', error);
+    throw new Error(error.message);
+  }
+
+  return (data as VipTab | null) ?? null;
+}
+
+/**
+ * Send the cart to the bottle service board. Prices come from the menu at
+ * the time of ordering; only checked-in tables with an open tab can order.
+ */
+export async function placeBottleOrder(
+  reservationId: string,
+  cart: CartLine[],
+  options: { notes?: string; placedBy?: string } = {}
+): Promise<{ id: string; order_number: string; subtotal_cents: number }> {
+  // Type assertion needed since place_vip_bottle_order is not in the generated types
+  const { data, error } = await (supabase.rpc as any)('place_vip_bottle_order', {
+    p_reservation_id: reservationId,
+    p_items: cart.map((line) => ({ menu_item_id: line.menuItemId, quantity: line.quantity })),
+    p_notes: options.notes || null,
+    p_placed_by: options.placedBy || null,
+  });
+
+  if (error) {
+    console.error('placeBottleOrder error:', error);
+    throw new Error(error.message);
+  }
+
+  return data as { id: string; order_number: string; subtotal_cents: number };
+}
@@ -0,0 +1,154 @@
+/**
+ * VIP bottle service rules shared by the guest dashboard and the scanner.
+ *
+ * A checked-in table orders from the event's bottle menu; servers deliver
+ * from the bottle service board. Delivered orders run up a tab that is
+ * settled at the end of the night for the larger of the orders and the
+ * table's minimum spend (see 20260414000000_vip_bottle_service.sql).
+ */
+
+export type BottleOrderStatus = 'placed' | 'preparing' | 'delivered' | 'cancelled';
+
+export type VipTabStatus = 'open' | 'settling' | 'settled' | 'failed';
+
+export type BottleMenuCategory = 'bottle' | 'champagne' | 'mixer' | 'food' | 'other';
+
+/** A vip_bottle_menu_items row */
+export interface BottleMenuItem {
+  id: string;
+  event_id: string;
+  category: BottleMenuCategory;
+  name: string;
+  description: string;
+  price_cents: number;
+  is_available: boolean;
+  sort_order: number;
+}
+
+export interface CartLine {
+  menuItemId: string;
+  quantity: number;
+}
+
+export interface BottleOrderSummary {
+  id: string;
+  order_number: string;
+  status: BottleOrderStatus;
+  placed_by_name: string | null;
+  subtotal_cents: number;
+  placed_at: string;
+  delivered_at: string | null;
+  items: Array<{ name: string; quantity: number; line_total_cents: number }> | null;
+}
+
+/** The running tab shown on the guest dashboard (get_vip_tab) */
+export interface VipTab {
+  reservation_id: string;
+  status: VipTabStatus;
+  minimum_spend_cents: number;
+  delivered_cents: number;
+  pending_cents: number;
+  charged_cents: number | null;
+  settlement_method: 'card' | 'venue' | 'none' | null;
+  settled_at: string | null;
+  orders: BottleOrderSummary[];
+}
+
+export interface TabProgress {
+  /** Delivered orders, in dollars */
+  spent: number;
+  minimum: number;
+  /** Left to spend before the minimum is met; 0 once it is */
+  remainingToMinimum: number;
+  /** 0-100, for the progress bar */
+  percent: number;
+  /** What the table would be charged if the tab closed now */
+  amountDue: number;
+}
+
+export const MAX_ITEM_QUANTITY = 20;
+
+export const MENU_CATEGORIES: Array<{ value: BottleMenuCategory; label: string }> = [
+  { value: 'bottle', label: 'Bottles' },
+  { value: 'champagne', label: 'Champagne' },
+  { value: 'mixer', label: 'Mixers' },
+  { value: 'food', label: 'Food' },
+  { value: 'other', label: 'Other' },
+];
+
+// ─── Cart ────────────────────────────────────────────────────────────────────
+
+/** Add one of an item, or change its quantity; 0 removes it */
+export function setCartQuantity(cart: CartLine[], menuItemId: string, quantity: number): CartLine[] {
+  const clamped = Math.max(0, Math.min(MAX_ITEM_QUANTITY, Math.floor(quantity)));
+  if (clamped === 0) return cart.filter((line) => line.menuItemId !== menuItemId);
+  if (!cart.some((line) => line.menuItemId === menuItemId)) {
+    return [...cart, { menuItemId, quantity: clamped }];
+  }
+  return cart.map((line) => (line.menuItemId === menuItemId ? { ...line, quantity: clamped } : line));
+}
+
+/** Cart total in cents. Items missing from the menu are ignored. */
+export function cartTotalCents(cart: CartLine[], menu: Pick<BottleMenuItem, 'id' | 'price_cents'>[]): number {
+  const prices = new Map(menu.map((item) => [item.id, item.price_cents]));
+  return cart.reduce((total, line) => total + (prices.get(line.menuItemId) ?? 0) * line.quantity, 0);
+}
+
+export function cartItemCount(cart: CartLine[]): number {
+  return cart.reduce((count, line) => count + line.quantity, 0);
+}
+
+// ─── Tab ─────────────────────────────────────────────────────────────────────
+
+/** What a table owes in cents: delivered orders, topped up to the minimum */
+export function tabAmountDueCents(deliveredCents: number, minimumSpendCents: number): number {
+  return Math.max(deliveredCents, minimumSpendCents, 0);
+}
+
+export function summarizeTab(tab: Pick<VipTab, 'delivered_cents' | 'minimum_spend_cents'>): TabProgress {
+  const { delivered_cents: delivered, minimum_spend_cents: minimum } = tab;
+  return {
+    spent: delivered / 100,
+    minimum: minimum / 100,
+    remainingToMinimum: Math.max(minimum - delivered, 0) / 100,
+    percent: minimum > 0 ? Math.min(100, Math.round((delivered / minimum) * 100)) : 100,
+    amountDue: tabAmountDueCents(delivered, minimum) / 100,
+  };
+}
+
+/** Whether the table can place orders from the dashboard */
+export function canOrder(reservationStatus: string, tab: Pick<VipTab, 'status'> | null): boolean {
+  return reservationStatus === 'checked_in' && (tab === null || tab.status === 'open');
+}
+
+// ─── Labels ──────────────────────────────────────────────────────────────────
+
+export function formatCents(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+export function formatBottleOrderStatus(status: BottleOrderStatus): string {
+  switch (status) {
+    case 'placed':
+      return 'Order placed';
+    case 'preparing':
+      return 'On its way';
+    case 'delivered':
+      return 'Delivered';
+    case 'cancelled':
+      return 'Cancelled';
+  }
+}
+
+export function formatTabStatus(status: VipTabStatus): string {
+  switch (status) {
+    case 'open':
+      return 'Open';
+    case 'settling':
+      return 'Closing';
+    case 'settled':
+      return 'Settled';
+    case 'failed':
+      return 'Payment failed';
+  }
+}
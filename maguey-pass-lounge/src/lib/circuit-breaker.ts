@@ -24,6 +24,7 @@
 
 import { createLogger } from './logger';
 import { metrics } from './monitoring';
+import { PurchaseRiskError } from './errors';
 
 const logger = createLogger({ module: 'circuit-breaker' });
 
@@ -443,6 +444,8 @@ export const stripeCircuit = new CircuitBreaker('stripe', {
   failureThreshold: 5,
   resetTimeoutMs: 30000, // 30 seconds
   halfOpenRequests: 2,
+  // Purchases refused by risk scoring are answered by a healthy service
+  ignoreErrors: [PurchaseRiskError],
   onStateChange: (from, to) => {
     if (to === 'OPEN') {
       logger.error('Stripe circuit breaker OPENED - payment processing unavailable');
@@ -0,0 +1,81 @@
+import { supabase } from "@/lib/supabase";
+import { resolvePaymentDisputeAlert, sendPaymentDisputeAlert } from "@/lib/alerts";
+import { isDisputeOpen, type DisputeEvidence, type PaymentDispute } from "@/lib/disputes";
+
+function toPaymentDispute(row: PaymentDispute): PaymentDispute {
+  return { ...row, amount: Number(row.amount) };
+}
+
+export async function fetchPaymentDisputes(): Promise<PaymentDispute[]> {
+  const { data, error } = await supabase
+    .from("payment_disputes")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(200);
+
+  if (error) {
+    console.error("fetchPaymentDisputes error:", error);
+    throw new Error(error.message);
+  }
+
+  return ((data || []) as PaymentDispute[]).map(toPaymentDispute);
+}
+
+export async function getDisputeEvidence(disputeId: string): Promise<DisputeEvidence> {
+  // Type assertion needed since get_dispute_evidence is not in the generated types
+  const { data, error } = await (supabase.rpc as any)("get_dispute_evidence", { p_dispute_id: disputeId });
+
+  if (error) {
+    console.error("getDisputeEvidence error:", error);
+    throw new Error(error.message);
+  }
+
+  return data as DisputeEvidence;
+}
+
+/**
+ * Raise an alert for each open dispute no console has alerted on yet.
+ * The claim is atomic, so with several consoles open each dispute is
+ * alerted once. Returns the number of alerts raised.
+ */
+export async function syncDisputeAlerts(): Promise<number> {
+  const { data, error } = await supabase.rpc("claim_dispute_alerts");
+  if (error) {
+    console.error("claim_dispute_alerts error:", error);
+    return 0;
+  }
+
+  const claimed = ((data || []) as PaymentDispute[]).map(toPaymentDispute);
+  for (const dispute of claimed) {
+    await sendPaymentDisputeAlert({
+      stripeDisputeId: dispute.stripe_dispute_id,
+      amount: dispute.amount,
+      reason: dispute.reason,
+      evidenceDueBy: dispute.evidence_due_by,
+    });
+  }
+  return claimed.length;
+}
+
+export function resolveClosedDisputeAlerts(disputes: PaymentDispute[]): void {
+  for (const dispute of disputes) {
+    if (!isDisputeOpen(dispute.status)) {
+      resolvePaymentDisputeAlert(dispute.stripe_dispute_id);
+    }
+  }
+}
+
+/**
+ * Calls onChange whenever a dispute is recorded or updated. `key` keeps the
+ * channels of different listeners apart.
+ */
+export function subscribeToPaymentDisputes(key: string, onChange: () => void): () => void {
+  const channel = supabase
+    .channel(`payment-disputes-${key}`)
+    .on("postgres_changes", { event: "*", schema: "public", table: "payment_disputes" }, () => onChange())
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
@@ -0,0 +1,181 @@
+/**
+ * Payment dispute helpers for the admin disputes page.
+ *
+ * Disputes are recorded by stripe-webhook (see
+ * 20260411000000_payment_disputes.sql), which voids the order's tickets and
+ * VIP guest passes until the dispute closes. These helpers label statuses and
+ * flatten the evidence returned by get_dispute_evidence into a timeline that
+ * can be exported for Stripe.
+ */
+
+export interface PaymentDispute {
+  id: string;
+  stripe_dispute_id: string;
+  stripe_charge_id: string | null;
+  stripe_payment_intent_id: string | null;
+  order_id: string | null;
+  vip_reservation_id: string | null;
+  event_id: string | null;
+  amount: number;
+  currency: string;
+  reason: string | null;
+  status: string;
+  evidence_due_by: string | null;
+  closed_at: string | null;
+  alerted_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** JSON returned by the get_dispute_evidence RPC */
+export interface DisputeEvidence {
+  dispute: PaymentDispute;
+  event: { id: string; name: string } | null;
+  order: Record<string, unknown> | null;
+  vip_reservation: Record<string, unknown> | null;
+  tickets: Array<Record<string, unknown> & { id: string; ticket_id?: string }>;
+  emails: Array<{
+    id: string;
+    email_type: string;
+    recipient_email: string;
+    subject: string;
+    status: string;
+    attempt_count: number;
+    last_error: string | null;
+    created_at: string;
+    updated_at: string;
+    delivery_events: Array<{ event_type: string; created_at: string }>;
+  }>;
+  scans: Array<{
+    ticket_id: string;
+    scan_result: string;
+    scanned_at: string;
+    scanned_by: string | null;
+    metadata: Record<string, unknown> | null;
+  }>;
+  vip_scans: Array<{
+    pass_id: string;
+    scan_type: string;
+    scanned_at: string;
+    scanned_by: string | null;
+  }>;
+  id_verifications: Array<{
+    ticket_id: string;
+    verification_type: string;
+    is_verified: boolean;
+    skipped: boolean;
+    verified_by: string | null;
+    verified_at: string;
+    has_photo: boolean;
+    notes: string | null;
+  }>;
+}
+
+export type EvidenceKind = "purchase" | "email" | "scan" | "id_check";
+
+export interface EvidenceTimelineEntry {
+  at: string;
+  kind: EvidenceKind;
+  description: string;
+  /** Ticket code, pass id or email address the entry is about */
+  subject: string;
+}
+
+// ─── Status ──────────────────────────────────────────────────────────────────
+
+const CLOSED_STATUSES = ["won", "lost", "warning_closed"];
+const NEEDS_RESPONSE_STATUSES = ["needs_response", "warning_needs_response"];
+
+export function isDisputeOpen(status: string): boolean {
+  return !CLOSED_STATUSES.includes(status);
+}
+
+/** Stripe is waiting on evidence from us */
+export function needsResponse(status: string): boolean {
+  return NEEDS_RESPONSE_STATUSES.includes(status);
+}
+
+/** "warning_needs_response" → "Inquiry: needs response" */
+export function formatDisputeStatus(status: string): string {
+  const label = status.replace(/^warning_/, "").replace(/_/g, " ");
+  const capitalized = label.charAt(0).toUpperCase() + label.slice(1);
+  return status.startsWith("warning_") ? `Inquiry: ${label}` : capitalized;
+}
+
+/** Whole days until the evidence deadline (negative once missed), or null without one */
+export function daysUntilDue(evidenceDueBy: string | null, now: Date = new Date()): number | null {
+  if (!evidenceDueBy) return null;
+  return Math.floor((new Date(evidenceDueBy).getTime() - now.getTime()) / 86_400_000);
+}
+
+// ─── Evidence ────────────────────────────────────────────────────────────────
+
+/**
+ * Everything that happened to the order, oldest first: the purchase, each
+ * email and delivery event, every scan at the door and ID checks.
+ */
+export function buildEvidenceTimeline(evidence: DisputeEvidence): EvidenceTimelineEntry[] {
+  const entries: EvidenceTimelineEntry[] = [];
+  const ticketCodes = new Map(evidence.tickets.map((ticket) => [ticket.id, ticket.ticket_id ?? ticket.id]));
+  const ticketCode = (ticketId: string) => ticketCodes.get(ticketId) ?? ticketId;
+
+  const purchase = evidence.order ?? evidence.vip_reservation;
+  if (purchase) {
+    const email = String(purchase.customer_email ?? purchase.purchaser_email ?? "");
+    entries.push({
+      at: String(purchase.paid_at ?? purchase.created_at),
+      kind: "purchase",
+      description: evidence.order
+        ? `Order paid: ${evidence.tickets.length} ticket(s)`
+        : "VIP table reservation paid",
+      subject: email,
+    });
+  }
+
+  for (const email of evidence.emails) {
+    entries.push({
+      at: email.created_at,
+      kind: "email",
+      description: `${email.subject} (${email.status}${email.last_error ? `: ${email.last_error}` : ""})`,
+      subject: email.recipient_email,
+    });
+    for (const delivery of email.delivery_events) {
+      entries.push({
+        at: delivery.created_at,
+        kind: "email",
+        description: delivery.event_type.replace(/^email\./, "Email "),
+        subject: email.recipient_email,
+      });
+    }
+  }
+
+  for (const scan of evidence.scans) {
+    entries.push({
+      at: scan.scanned_at,
+      kind: "scan",
+      description: `Scanned: ${scan.scan_result}`,
+      subject: ticketCode(scan.ticket_id),
+    });
+  }
+
+  for (const scan of evidence.vip_scans) {
+    entries.push({
+      at: scan.scanned_at,
+      kind: "scan",
+      description: `VIP pass ${scan.scan_type}`,
+      subject: scan.pass_id,
+    });
+  }
+
+  for (const check of evidence.id_verifications) {
+    const result = check.skipped ? "skipped" : check.is_verified ? "verified" : "failed";
+    entries.push({
+      at: check.verified_at,
+      kind: "id_check",
+      description: `ID check (${check.verification_type}) ${result}${check.has_photo ? ", photo on file" : ""}`,
+      subject: ticketCode(check.ticket_id),
+    });
+  }
+
+  return entries.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+}
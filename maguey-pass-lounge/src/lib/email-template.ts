@@ -4,28 +4,32 @@
  */
 
 import type { TicketData } from './ticket-generator';
+import { DEFAULT_LOCALE, formatCurrency, formatDate, translate, type Locale } from './i18n';
+
+const SUPPORT_EMAIL = 'support@maguey.com';
 
 /**
- * Generate HTML email template for tickets
+ * Generate HTML email template for tickets, in the buyer's locale (orders.locale)
  */
 export function generateTicketEmailHTML(
   tickets: TicketData[],
   customerName: string,
   orderId: string,
-  frontendUrl?: string
+  frontendUrl?: string,
+  locale: Locale = DEFAULT_LOCALE
 ): string {
   const FRONTEND_URL = frontendUrl || 'https://your-site.com';
   const eventName = tickets[0]?.eventName || 'Event';
-  const eventDate = tickets[0]?.eventDate || '';
-  const eventTime = tickets[0]?.eventTime || '';
+  const t = (key: string, params?: Record<string, string | number>) =>
+    translate(locale, `email.ticket.${key}`, params);
 
   return `
 <!DOCTYPE html>
-<html lang="en">
+<html lang="${locale}">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Your Tickets - ${eventName}</title>
+  <title>${t('title', { eventName })}</title>
   <style>
     body {
       font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
@@ -186,83 +190,78 @@ export function generateTicketEmailHTML(
     </div>
 
     <div class="success-message">
-      ✅ Payment Successful! Your tickets are confirmed.
+      ✅ ${t('paymentSuccessful')}
     </div>
 
-    <p>Hi ${customerName},</p>
-    <p>Thank you for your purchase! Your digital tickets for <strong>${eventName}</strong> are ready.</p>
+    <p>${t('greeting', { name: customerName })}</p>
+    <p>${t('intro', { eventName: `<strong>${eventName}</strong>` })}</p>
 
-    ${tickets.map((ticket, index) => `
+    ${tickets.map((ticket) => `
       <div class="ticket">
         ${ticket.eventImage ? `
           <img src="${ticket.eventImage}" alt="${ticket.eventName}" class="ticket-image" />
         ` : ''}
         <div class="ticket-header">
           <h2>${ticket.eventName}</h2>
-          <p style="margin: 5px 0; opacity: 0.9;">${new Date(ticket.eventDate).toLocaleDateString('en-US', { 
-            weekday: 'long', 
-            year: 'numeric', 
-            month: 'long', 
-            day: 'numeric' 
-          })} • ${ticket.eventTime}</p>
+          <p style="margin: 5px 0; opacity: 0.9;">${formatDate(ticket.eventDate, undefined, locale)} • ${ticket.eventTime}</p>
         </div>
 
         <div class="ticket-info">
           <div class="ticket-info-row">
-            <span class="ticket-info-label">Ticket Type:</span>
+            <span class="ticket-info-label">${t('ticketType')}:</span>
             <span class="ticket-info-value">${ticket.ticketType}</span>
           </div>
           <div class="ticket-info-row">
-            <span class="ticket-info-label">Ticket Holder:</span>
+            <span class="ticket-info-label">${t('ticketHolder')}:</span>
             <span class="ticket-info-value">${ticket.ticketHolderName}</span>
           </div>
           <div class="ticket-info-row">
-            <span class="ticket-info-label">Venue:</span>
+            <span class="ticket-info-label">${t('venue')}:</span>
             <span class="ticket-info-value">${ticket.venue}</span>
           </div>
           <div class="ticket-info-row">
-            <span class="ticket-info-label">Address:</span>
+            <span class="ticket-info-label">${t('address')}:</span>
             <span class="ticket-info-value">${ticket.venueAddress}</span>
           </div>
           <div class="ticket-info-row">
-            <span class="ticket-info-label">Price:</span>
-            <span class="ticket-info-value">$${ticket.price.toFixed(2)}</span>
+            <span class="ticket-info-label">${t('price')}:</span>
+            <span class="ticket-info-value">${formatCurrency(ticket.price, locale)}</span>
           </div>
         </div>
 
         <div class="qr-code">
-          <img src="${ticket.qrCodeUrl}" alt="QR Code for ${ticket.ticketId}" />
-          <div class="qr-code-label">Present this QR code at the entrance</div>
+          <img src="${ticket.qrCodeUrl}" alt="${t('qrAlt', { ticketId: ticket.ticketId })}" />
+          <div class="qr-code-label">${t('presentQr')}</div>
         </div>
 
         <div class="ticket-id">
-          Ticket ID: ${ticket.ticketId}
+          ${t('ticketId')}: ${ticket.ticketId}
         </div>
       </div>
     `).join('')}
 
     <div class="important-info">
-      <h3>⚠️ Important Information</h3>
+      <h3>⚠️ ${t('importantInformation')}</h3>
       <ul>
-        <li>Valid government-issued ID required at entrance</li>
-        <li>Arrive 30 minutes before event time</li>
-        <li>Screenshot or download this email for offline access</li>
-        <li>Do not share your QR code with anyone</li>
-        <li>Tickets are non-transferable and non-refundable</li>
+        <li>${t('idRequired')}</li>
+        <li>${t('arriveEarly')}</li>
+        <li>${t('screenshot')}</li>
+        <li>${t('doNotShare')}</li>
+        <li>${t('nonRefundable')}</li>
       </ul>
     </div>
 
     <div style="text-align: center; margin: 30px 0;">
       <a href="${FRONTEND_URL || 'https://your-site.com'}/account" class="button">
-        View My Tickets
+        ${t('viewMyTickets')}
       </a>
     </div>
 
     <div class="footer">
-      <p><strong>Order ID:</strong> ${orderId}</p>
-      <p>If you have any questions, please contact us at support@maguey.com</p>
+      <p><strong>${t('orderId')}:</strong> ${orderId}</p>
+      <p>${t('questions', { email: SUPPORT_EMAIL })}</p>
       <p style="margin-top: 20px; font-size: 12px; color: #999;">
-        This is an automated email. Please do not reply to this message.
+        ${t('automated')}
       </p>
     </div>
   </div>
@@ -278,40 +277,43 @@ export function generateTicketEmailText(
   tickets: TicketData[],
   customerName: string,
   orderId: string,
-  frontendUrl?: string
+  frontendUrl?: string,
+  locale: Locale = DEFAULT_LOCALE
 ): string {
   const eventName = tickets[0]?.eventName || 'Event';
+  const t = (key: string, params?: Record<string, string | number>) =>
+    translate(locale, `email.ticket.${key}`, params);
   
-  let text = `Thank you for your purchase, ${customerName}!\n\n`;
-  text += `Your tickets for ${eventName} are confirmed.\n\n`;
-  text += `Order ID: ${orderId}\n\n`;
-  text += `TICKETS:\n`;
+  let text = `${t('textThanks', { name: customerName })}\n\n`;
+  text += `${t('textConfirmed', { eventName })}\n\n`;
+  text += `${t('orderId')}: ${orderId}\n\n`;
+  text += `${t('textTickets')}:\n`;
   text += `${'='.repeat(50)}\n\n`;
   
   tickets.forEach((ticket, index) => {
-    text += `Ticket ${index + 1}:\n`;
-    text += `  Event: ${ticket.eventName}\n`;
-    text += `  Event ID: ${ticket.eventId}\n`;
-    text += `  Date: ${ticket.eventDate} at ${ticket.eventTime}\n`;
-    text += `  Venue: ${ticket.venue}\n`;
-    text += `  Address: ${ticket.venueAddress}\n`;
-    text += `  Ticket Type: ${ticket.ticketType}\n`;
-    text += `  Ticket Holder: ${ticket.ticketHolderName}\n`;
-    text += `  Ticket ID: ${ticket.ticketId}\n`;
-    text += `  QR Code: ${ticket.qrCodeUrl}\n`;
-    text += `  Price: $${ticket.price.toFixed(2)}\n\n`;
+    text += `${t('textTicket', { number: index + 1 })}:\n`;
+    text += `  ${t('textEvent')}: ${ticket.eventName}\n`;
+    text += `  ${t('textEventId')}: ${ticket.eventId}\n`;
+    text += `  ${t('textDate')}: ${t('textAt', { date: ticket.eventDate, time: ticket.eventTime })}\n`;
+    text += `  ${t('venue')}: ${ticket.venue}\n`;
+    text += `  ${t('address')}: ${ticket.venueAddress}\n`;
+    text += `  ${t('ticketType')}: ${ticket.ticketType}\n`;
+    text += `  ${t('ticketHolder')}: ${ticket.ticketHolderName}\n`;
+    text += `  ${t('ticketId')}: ${ticket.ticketId}\n`;
+    text += `  ${t('textQrCode')}: ${ticket.qrCodeUrl}\n`;
+    text += `  ${t('price')}: ${formatCurrency(ticket.price, locale)}\n\n`;
   });
   
-  text += `\nIMPORTANT INFORMATION:\n`;
-  text += `- Valid government-issued ID required at entrance\n`;
-  text += `- Arrive 30 minutes before event time\n`;
-  text += `- Screenshot this email for offline access\n`;
-  text += `- Do not share your QR code with anyone\n`;
-  text += `- Tickets are non-transferable and non-refundable\n\n`;
+  text += `\n${t('textImportant')}:\n`;
+  text += `- ${t('idRequired')}\n`;
+  text += `- ${t('arriveEarly')}\n`;
+  text += `- ${t('screenshot')}\n`;
+  text += `- ${t('doNotShare')}\n`;
+  text += `- ${t('nonRefundable')}\n\n`;
   
   const FRONTEND_URL = frontendUrl || 'https://your-site.com';
-  text += `View your tickets online: ${FRONTEND_URL}/account\n`;
-  text += `\nIf you have any questions, please contact us at support@maguey.com\n`;
+  text += `${t('textViewOnline', { url: `${FRONTEND_URL}/account` })}\n`;
+  text += `\n${t('questions', { email: SUPPORT_EMAIL })}\n`;
   
   return text;
 }
@@ -1,7 +1,9 @@
 import React from 'react';
 import { toast } from "sonner";
+import { t } from "./i18n";
 
 // Error message catalog - professional/formal tone (per context decision)
+// English source copy; the toast shown to guests comes from errors.* in translations.ts
 export const ERROR_MESSAGES = {
   // Network errors
   network_offline: "Unable to connect. Please check your internet connection.",
@@ -48,7 +50,7 @@ export function showError(
   type: ErrorType | string,
   options: ShowErrorOptions = {}
 ) {
-  const message = ERROR_MESSAGES[type as ErrorType] || ERROR_MESSAGES.generic;
+  const message = t(`errors.${type in ERROR_MESSAGES ? type : "generic"}`);
   const { onRetry, supportEmail = "support@maguey.com" } = options;
 
   toast.error(React.createElement('span', { 'data-cy': type.includes('payment') ? "payment-error" : "error" }, message), {
@@ -56,11 +58,11 @@ export function showError(
     closeButton: true,
     action: onRetry
       ? {
-        label: "Try Again",
+        label: t("common.tryAgain"),
         onClick: onRetry,
       }
       : {
-        label: "Contact Support",
+        label: t("common.contactSupport"),
         onClick: () => window.location.href = `mailto:${supportEmail}`,
       },
   });
@@ -90,6 +90,23 @@ export class PaymentError extends AppError {
   }
 }
 
+/**
+ * Checkout refused by purchase risk scoring (create-checkout-session).
+ * require_login: the guest can retry once signed in; block: no retry.
+ */
+export class PurchaseRiskError extends AppError {
+  code = 'PURCHASE_RISK';
+
+  constructor(
+    message: string,
+    public riskAction: 'require_login' | 'block',
+    details?: unknown
+  ) {
+    super(message, 'PURCHASE_RISK', details);
+    this.name = 'PurchaseRiskError';
+  }
+}
+
 // ============================================
 // VALIDATION ERRORS
 // ============================================
@@ -0,0 +1,57 @@
+import { supabase } from '@/lib/supabase';
+import type { RescheduleChoice, RescheduleResponseDetails } from '@/lib/event-reschedule';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL as string;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY as string;
+
+function getEdgeFunctionUrl(functionName: string): string {
+  const base = import.meta.env.DEV ? '' : SUPABASE_URL;
+  return `${base}/functions/v1/${functionName}`;
+}
+
+/** The holder's response behind a keep-or-refund link, or null for an unknown link */
+export async function getRescheduleResponse(token: string): Promise<RescheduleResponseDetails | null> {
+  // Type assertion needed since get_event_reschedule_response is not in the generated types
+  const { data, error } = await (supabase.rpc as any)('get_event_reschedule_response', { p_token: token });
+
+  if (error) {
+    console.error('getRescheduleResponse error:', error);
+    throw new Error(error.message);
+  }
+  if (!data) return null;
+
+  const { amount_cents, ...details } = data as Omit<RescheduleResponseDetails, 'amount'> & { amount_cents: number };
+  return { ...details, amount: amount_cents / 100 };
+}
+
+/**
+ * Keep the tickets, or refund the whole order or table. Resolves once the
+ * refund has been issued; throws with respond-to-reschedule's message when
+ * it can't be.
+ */
+export async function respondToReschedule(token: string, choice: RescheduleChoice): Promise<void> {
+  if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+    throw new Error('Service configuration missing');
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(getEdgeFunctionUrl('respond-to-reschedule'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': SUPABASE_ANON_KEY,
+        'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+      },
+      body: JSON.stringify({ token, choice }),
+    });
+  } catch {
+    throw new Error('Network error — please check your connection');
+  }
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Could not save your choice');
+  }
+}
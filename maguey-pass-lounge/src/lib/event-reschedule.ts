@@ -0,0 +1,73 @@
+/**
+ * Event reschedule rules for the keep-or-refund page (/reschedule/:token).
+ *
+ * When an owner moves an event, every paid holder is emailed a link to keep
+ * their tickets or ask for a full refund before the deadline. Holders who
+ * don't answer keep their tickets. respond-to-reschedule and the database
+ * enforce the same rules (see 20260420000000_event_reschedules.sql); these
+ * helpers decide what the page offers.
+ */
+
+export type RescheduleChoice = 'keep' | 'refund';
+
+export type RescheduleResponseChoice = RescheduleChoice | 'pending' | 'superseded';
+
+export type RescheduleRefundStatus = 'processing' | 'refunded' | 'failed';
+
+/** What a holder sees on their link (get_event_reschedule_response) */
+export interface RescheduleResponseDetails {
+  response_id: string;
+  holder_name: string | null;
+  holder_email: string;
+  kind: 'order' | 'vip';
+  /** What the holder paid, in dollars */
+  amount: number;
+  choice: RescheduleResponseChoice;
+  refund_status: RescheduleRefundStatus | null;
+  responded_at: string | null;
+  refund_deadline: string;
+  previous_date: string;
+  previous_time: string | null;
+  new_date: string;
+  new_time: string | null;
+  reason: string | null;
+  event_id: string;
+  event_name: string;
+  venue_name: string | null;
+}
+
+/**
+ * Where a holder stands:
+ *   open       - can still keep or ask for a refund
+ *   processing - refund requested and being issued
+ *   refunded   - refund issued; the tickets no longer work
+ *   closed     - the deadline passed, so the tickets were kept
+ *   superseded - the event moved again and a newer link was emailed
+ */
+export type RescheduleResponseState = 'open' | 'processing' | 'refunded' | 'closed' | 'superseded';
+
+export function getRescheduleResponseState(
+  response: Pick<RescheduleResponseDetails, 'choice' | 'refund_status' | 'refund_deadline'>,
+  now: Date = new Date()
+): RescheduleResponseState {
+  if (response.choice === 'superseded') return 'superseded';
+  if (response.refund_status === 'refunded') return 'refunded';
+  if (response.refund_status === 'processing') return 'processing';
+  if (new Date(response.refund_deadline) <= now) return 'closed';
+  return 'open';
+}
+
+/** "Fri, May 8, 2026 · 9:30 PM" for an event date and HH:MM[:SS] time */
+export function formatEventStart(date: string, time: string | null): string {
+  const day = new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+  if (!time) return day;
+
+  const [hours, minutes] = time.split(':').map(Number);
+  const hour12 = hours % 12 === 0 ? 12 : hours % 12;
+  return `${day} · ${hour12}:${String(minutes).padStart(2, '0')} ${hours < 12 ? 'AM' : 'PM'}`;
+}
@@ -26,6 +26,7 @@
  * ```
  */
 
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { supabase } from './supabase';
 import { createLogger } from './logger';
 import { metrics } from './monitoring';
@@ -51,6 +52,8 @@ export interface BaseEvent {
   correlationId?: string;
   causationId?: string;
   schemaVersion: number;
+  /** Store-wide append order (set on rows read back from the database) */
+  globalPosition?: number;
 }
 
 /**
@@ -106,6 +109,7 @@ interface TicketEventRow {
   correlation_id: string | null;
   causation_id: string | null;
   schema_version: number;
+  global_position?: number | string | null;
 }
 
 // ============================================
@@ -128,6 +132,7 @@ function rowToEvent(row: TicketEventRow): BaseEvent {
     correlationId: row.correlation_id ?? undefined,
     causationId: row.causation_id ?? undefined,
     schemaVersion: row.schema_version,
+    globalPosition: row.global_position != null ? Number(row.global_position) : undefined,
   };
 }
 
@@ -332,6 +337,41 @@ export async function getEventsByCorrelationId(
   }
 }
 
+/**
+ * Options for reading the store in global order
+ */
+export interface GetEventsAfterOptions {
+  eventTypes?: string[];
+  limit?: number;
+  /** Client to read with; projections run with the service role */
+  client?: SupabaseClient;
+}
+
+/**
+ * Get events across all aggregates after a global position (for projections).
+ * Events recorded in the last couple of seconds are held back by the RPC so a
+ * late-committing append cannot land behind a checkpoint.
+ */
+export async function getEventsAfter(
+  position: number,
+  options: GetEventsAfterOptions = {}
+): Promise<BaseEvent[]> {
+  const { eventTypes, limit = 500, client = supabase } = options;
+
+  const { data, error } = await client.rpc('get_ticket_events_after', {
+    p_position: position,
+    p_event_types: eventTypes && eventTypes.length > 0 ? eventTypes : null,
+    p_limit: limit,
+  });
+
+  if (error) {
+    logger.error('Failed to get events after position', { position, error: error.message });
+    throw new Error(`Failed to get events after position: ${error.message}`);
+  }
+
+  return ((data as TicketEventRow[] | null) || []).map(rowToEvent);
+}
+
 /**
  * Get the current sequence number for an aggregate
  */
@@ -391,6 +431,11 @@ export interface TicketState {
   transferredTo?: string;
   transferredAt?: Date;
   
+  // Upgrade state
+  upgradeCount: number;
+  upgradedFromTicketTypeName?: string;
+  upgradedAt?: Date;
+  
   // Refund state
   isRefunded: boolean;
   refundId?: string;
@@ -518,6 +563,22 @@ function applyEvent(state: TicketState, event: BaseEvent): TicketState {
       break;
     }
 
+    case 'TicketUpgraded': {
+      const data = event.eventData as {
+        fromTicketTypeName?: string;
+        toTicketTypeId?: string;
+        toTicketTypeName?: string;
+        priceDifference?: number;
+      };
+      newState.ticketTypeId = data.toTicketTypeId;
+      newState.ticketTypeName = data.toTicketTypeName;
+      newState.price = (newState.price || 0) + (data.priceDifference || 0);
+      newState.upgradeCount++;
+      newState.upgradedFromTicketTypeName = newState.upgradedFromTicketTypeName || data.fromTicketTypeName;
+      newState.upgradedAt = event.occurredAt;
+      break;
+    }
+
     case 'TicketIDVerified': {
       const data = event.eventData as { verifiedBy?: string };
       newState.isIDVerified = true;
@@ -558,6 +619,7 @@ function createInitialState(ticketId: string): TicketState {
     exitCount: 0,
     isCurrentlyInside: false,
     isTransferred: false,
+    upgradeCount: 0,
     isRefunded: false,
     isIDVerified: false,
     isFraudFlagged: false,
@@ -781,6 +843,7 @@ export const eventStoreService = {
   getLatestEvent,
   getEventsByType,
   getEventsByCorrelationId,
+  getEventsAfter,
   getCurrentSequence,
   aggregateExists,
   
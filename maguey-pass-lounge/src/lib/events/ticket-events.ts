@@ -47,6 +47,7 @@ export const TicketEventTypes = {
   TICKET_EXPIRED: 'TicketExpired',
   TICKET_TRANSFERRED: 'TicketTransferred',
   TICKET_UPGRADED: 'TicketUpgraded',
+  TICKET_RESOLD: 'TicketResold',
   
   // Scan Events
   TICKET_SCANNED: 'TicketScanned',
@@ -64,6 +65,8 @@ export const TicketEventTypes = {
   TICKET_ID_VERIFICATION_FAILED: 'TicketIDVerificationFailed',
   TICKET_FRAUD_FLAGGED: 'TicketFraudFlagged',
   TICKET_FRAUD_CLEARED: 'TicketFraudCleared',
+  TICKET_DISPUTED: 'TicketDisputed',
+  TICKET_DISPUTE_CLOSED: 'TicketDisputeClosed',
   
   // Admin Events
   TICKET_METADATA_UPDATED: 'TicketMetadataUpdated',
@@ -90,6 +93,7 @@ export type TicketEvent =
   | { type: 'TicketExpired'; data: TicketExpiredData }
   | { type: 'TicketTransferred'; data: TicketTransferredData }
   | { type: 'TicketUpgraded'; data: TicketUpgradedData }
+  | { type: 'TicketResold'; data: TicketResoldData }
   | { type: 'TicketScanned'; data: TicketScannedData }
   | { type: 'TicketReEntry'; data: TicketReEntryData }
   | { type: 'TicketExit'; data: TicketExitData }
@@ -101,6 +105,8 @@ export type TicketEvent =
   | { type: 'TicketIDVerificationFailed'; data: TicketIDVerificationFailedData }
   | { type: 'TicketFraudFlagged'; data: TicketFraudFlaggedData }
   | { type: 'TicketFraudCleared'; data: TicketFraudClearedData }
+  | { type: 'TicketDisputed'; data: TicketDisputedData }
+  | { type: 'TicketDisputeClosed'; data: TicketDisputeClosedData }
   | { type: 'TicketMetadataUpdated'; data: TicketMetadataUpdatedData }
   | { type: 'TicketStatusOverride'; data: TicketStatusOverrideData }
   | { type: 'TicketNoteAdded'; data: TicketNoteAddedData };
@@ -174,6 +180,17 @@ export interface TicketUpgradedData {
   upgradedBy?: string;
 }
 
+/** Appended by stripe-webhook once a resale buyer has paid; the ticket was transferred to them */
+export interface TicketResoldData {
+  listingId: string;
+  fromEmail: string;
+  toEmail: string;
+  toName: string;
+  price: number;
+  faceValue: number;
+  transferId: string;
+}
+
 // Scan Events
 
 export interface TicketScannedData {
@@ -260,6 +277,22 @@ export interface TicketFraudClearedData {
   originalRiskScore: number;
 }
 
+/** Appended by record_payment_dispute; the ticket is voided until the dispute closes */
+export interface TicketDisputedData {
+  disputeId: string;
+  stripeDisputeId: string;
+  reason: string | null;
+  amount: number;
+}
+
+/** Appended by close_payment_dispute; restored is true when the dispute was won */
+export interface TicketDisputeClosedData {
+  disputeId: string;
+  stripeDisputeId: string;
+  outcome: string;
+  restored: boolean;
+}
+
 // Admin Events
 
 export interface TicketMetadataUpdatedData {
@@ -497,6 +530,33 @@ export async function publishTicketTransferred(
   return event as TicketEvent<TicketTransferredData>;
 }
 
+/**
+ * Publish a TicketUpgraded event
+ */
+export async function publishTicketUpgraded(
+  ticketId: string,
+  data: TicketUpgradedData,
+  metadata?: EventMetadata,
+  correlationId?: string
+): Promise<TicketEvent<TicketUpgradedData>> {
+  logger.info('Publishing TicketUpgraded event', { 
+    ticketId, 
+    from: data.fromTicketTypeName, 
+    to: data.toTicketTypeName,
+    priceDifference: data.priceDifference,
+  });
+  
+  const event = await eventStore.append({
+    aggregateId: ticketId,
+    eventType: TicketEventTypes.TICKET_UPGRADED,
+    eventData: data,
+    metadata: metadata || createEventMetadata({ actorType: data.upgradedBy ? 'scanner' : 'user' }),
+    correlationId,
+  });
+  
+  return event as TicketEvent<TicketUpgradedData>;
+}
+
 /**
  * Publish a TicketEmailSent event
  */
@@ -633,6 +693,7 @@ export const ticketEvents = {
   publishRefunded: publishTicketRefunded,
   publishCancelled: publishTicketCancelled,
   publishTransferred: publishTicketTransferred,
+  publishUpgraded: publishTicketUpgraded,
   publishEmailSent: publishTicketEmailSent,
   publishFraudFlagged: publishTicketFraudFlagged,
   publishIDVerified: publishTicketIDVerified,
@@ -1,17 +1,23 @@
 /**
  * Loyalty Service
  * Manages user loyalty points, credits, and membership tiers
+ *
+ * Paid orders earn points and refunds reverse them server-side
+ * (award_order_loyalty / reverse_order_loyalty, called by stripe-webhook);
+ * credits redeemed at checkout are reserved by create-checkout-session.
  */
 
 import { supabase } from './supabase';
 
+export type MembershipTier = 'bronze' | 'silver' | 'gold' | 'platinum';
+
 export interface UserLoyalty {
   id: string;
   user_id: string | null;
   email: string;
   points: number;
   credits: number;
-  membership_tier: 'bronze' | 'silver' | 'gold' | 'platinum';
+  membership_tier: MembershipTier;
   total_orders: number;
   total_spent: number;
   created_at: string;
@@ -184,52 +190,178 @@ export async function redeemCredits(
 
 /**
  * Get loyalty status for a user
+ * Read-only: the record is created server-side on the first paid order
  */
 export async function getLoyaltyStatus(
   userId: string | null,
   email: string
 ): Promise<UserLoyalty | null> {
-  return getOrCreateLoyalty(userId, email);
+  if (userId) {
+    const { data } = await supabase
+      .from('user_loyalty')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (data) {
+      return data as UserLoyalty;
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('user_loyalty')
+    .select('*')
+    .eq('email', email.trim().toLowerCase())
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching loyalty status:', error);
+    return null;
+  }
+
+  return data as UserLoyalty | null;
 }
 
 /**
- * Convert points to credits (e.g., 100 points = $1 credit)
+ * Convert points to credits for the signed-in customer (100 points = $1 credit)
+ * @returns the updated loyalty record
  */
-export async function convertPointsToCredits(
-  userId: string | null,
-  email: string,
-  points: number,
-  conversionRate: number = 100 // points per $1 credit
-): Promise<boolean> {
-  try {
-    const loyalty = await getOrCreateLoyalty(userId, email);
-    if (!loyalty) {
-      return false;
-    }
-    
-    if (loyalty.points < points) {
-      return false; // Insufficient points
-    }
-    
-    const creditsToAdd = points / conversionRate;
-    
-    const { error } = await supabase
-      .from('user_loyalty')
-      .update({
-        points: loyalty.points - points,
-        credits: loyalty.credits + creditsToAdd,
-      })
-      .eq('id', loyalty.id);
-    
-    if (error) {
-      console.error('Error converting points to credits:', error);
-      return false;
-    }
-    
-    return true;
-  } catch (error) {
-    console.error('Error in convertPointsToCredits:', error);
-    return false;
+export async function convertPointsToCredits(points: number): Promise<UserLoyalty> {
+  // Type assertion needed since convert_loyalty_points is not in the generated types
+  const { data, error } = await (supabase.rpc as any)('convert_loyalty_points', { p_points: points });
+
+  if (error) {
+    console.error('Error converting points to credits:', error);
+    throw new Error(error.message);
   }
+
+  return data as UserLoyalty;
 }
 
+// ─── Tiers & ledger ──────────────────────────────────────────────────────────
+
+export const POINTS_PER_CREDIT = 100;
+
+export interface LoyaltyTierRule {
+  tier: MembershipTier;
+  rank: number;
+  min_spent: number;
+  min_orders: number;
+  points_multiplier: number;
+  early_access_hours: number;
+  free_reentry: boolean;
+  skip_line: boolean;
+}
+
+export type LoyaltyLedgerEntryType =
+  | 'earn'
+  | 'reverse'
+  | 'redeem'
+  | 'release'
+  | 'convert'
+  | 'tier_change'
+  | 'adjust';
+
+export interface LoyaltyLedgerEntry {
+  id: string;
+  order_id: string | null;
+  entry_type: LoyaltyLedgerEntryType;
+  points: number;
+  credits: number;
+  amount: number | null;
+  description: string | null;
+  created_at: string;
+}
+
+/**
+ * Tier thresholds and perks, lowest tier first
+ */
+export async function getLoyaltyTiers(): Promise<LoyaltyTierRule[]> {
+  const { data, error } = await supabase
+    .from('loyalty_tiers')
+    .select('*')
+    .order('rank', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching loyalty tiers:', error);
+    return [];
+  }
+
+  return (data || []).map((row) => ({
+    ...row,
+    min_spent: Number(row.min_spent),
+    points_multiplier: Number(row.points_multiplier),
+  })) as LoyaltyTierRule[];
+}
+
+/**
+ * Points and credits history for a loyalty account, newest first
+ */
+export async function getLoyaltyLedger(loyaltyId: string, limit = 50): Promise<LoyaltyLedgerEntry[]> {
+  const { data, error } = await supabase
+    .from('loyalty_ledger')
+    .select('id, order_id, entry_type, points, credits, amount, description, created_at')
+    .eq('loyalty_id', loyaltyId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching loyalty ledger:', error);
+    return [];
+  }
+
+  return (data || []).map((row) => ({
+    ...row,
+    credits: Number(row.credits),
+    amount: row.amount === null ? null : Number(row.amount),
+  })) as LoyaltyLedgerEntry[];
+}
+
+/**
+ * The next tier up and what is still needed to reach it, or null at the top tier
+ */
+export function getNextTierProgress(
+  loyalty: Pick<UserLoyalty, 'membership_tier' | 'total_spent' | 'total_orders'>,
+  tiers: LoyaltyTierRule[]
+): { tier: LoyaltyTierRule; spendRemaining: number; ordersRemaining: number } | null {
+  const current = tiers.find((rule) => rule.tier === loyalty.membership_tier);
+  const next = tiers
+    .filter((rule) => rule.rank > (current?.rank ?? -1))
+    .sort((a, b) => a.rank - b.rank)[0];
+
+  if (!next) return null;
+
+  return {
+    tier: next,
+    spendRemaining: Math.max(0, next.min_spent - Number(loyalty.total_spent)),
+    ordersRemaining: Math.max(0, next.min_orders - loyalty.total_orders),
+  };
+}
+
+/**
+ * Whether tickets can be bought now given the event's on-sale time and the
+ * buyer's early-access window. Mirrors hasOnSaleAccess in
+ * supabase/functions/_shared/loyalty.ts, which enforces it.
+ */
+export function hasOnSaleAccess(
+  onSaleAt: string | null | undefined,
+  earlyAccessHours: number,
+  now: Date = new Date()
+): boolean {
+  if (!onSaleAt) return true;
+  const opensAt = new Date(onSaleAt).getTime() - earlyAccessHours * 60 * 60 * 1000;
+  return now.getTime() >= opensAt;
+}
+
+/**
+ * Credits a checkout can redeem: capped by the balance and the amount still
+ * owed, rounded down to cents. Mirrors loyaltyCreditsToApply server-side.
+ */
+export function loyaltyCreditsToApply(
+  requested: number | null | undefined,
+  balance: number,
+  payableTotal: number
+): number {
+  const credits = Math.min(Number(requested) || 0, balance, payableTotal);
+  return credits > 0 ? Math.floor(credits * 100 + 1e-6) / 100 : 0;
+}
@@ -0,0 +1,21 @@
+import { supabase } from '@/lib/supabase';
+
+export type MarketingChannel = 'email' | 'sms';
+
+export interface UnsubscribeResult {
+  email: string;
+  channel: MarketingChannel;
+}
+
+/**
+ * Stop marketing on the channel a campaign was sent on, from the link in
+ * that campaign. Null for an unknown link; repeating it is harmless.
+ */
+export async function unsubscribeFromMarketing(token: string): Promise<UnsubscribeResult | null> {
+  // Type assertion needed since marketing_unsubscribe is not in the generated types
+  const { data, error } = await (supabase.rpc as any)('marketing_unsubscribe', { p_token: token });
+  if (error) throw new Error(error.message);
+
+  const [result] = (data || []) as UnsubscribeResult[];
+  return result ?? null;
+}
@@ -1,5 +1,6 @@
 import { supabase } from "../supabase";
 import { generateTicketEmailHTML, generateTicketEmailText } from "../email-template";
+import { DEFAULT_LOCALE, resolveLocale, translate } from "../i18n";
 import { emailCircuit } from "../circuit-breaker";
 import { createLogger } from "../logger";
 import { metrics } from "../monitoring";
@@ -88,7 +89,7 @@ export async function resendTicket(
 
   const { data: order, error: orderError } = await client
     .from("orders")
-    .select("id, purchaser_email, purchaser_name, event_id")
+    .select("id, purchaser_email, purchaser_name, event_id, locale")
     .eq("id", orderId)
     .single();
 
@@ -159,10 +160,15 @@ export async function resendTicket(
       Number(ticket.price ?? 0) + Number(ticket.fee_total ?? 0),
   }));
 
-  const subject =
-    ticketPayloads.length === 1
-      ? `Your ticket for ${ticketPayloads[0].eventName}`
-      : `Your tickets for ${ticketPayloads[0].eventName}`;
+  // Resends go out in the language the buyer checked out in.
+  // Type assertion needed since orders.locale is not in the generated types
+  const locale = resolveLocale((order as { locale: string | null }).locale) ?? DEFAULT_LOCALE;
+
+  const subject = translate(
+    locale,
+    ticketPayloads.length === 1 ? "email.ticket.subjectOne" : "email.ticket.subjectMany",
+    { eventName: ticketPayloads[0].eventName }
+  );
 
   const customerName =
     order.purchaser_name ||
@@ -190,13 +196,15 @@ export async function resendTicket(
       ticketPayloads,
       customerName,
       order.id,
-      getFrontendUrl()
+      getFrontendUrl(),
+      locale
     ),
     text: generateTicketEmailText(
       ticketPayloads,
       customerName,
       order.id,
-      getFrontendUrl()
+      getFrontendUrl(),
+      locale
     ),
   });
 }
@@ -21,6 +21,11 @@ import {
   type OrderSagaResult,
 } from "../sagas/order-saga";
 import type { SagaExecution } from "../sagas/saga-engine";
+import {
+  SupabaseSagaStore,
+  rowToSagaExecution,
+  type SagaExecutionRow,
+} from "../sagas/saga-recovery";
 import { cache, CacheKeys } from "../cache";
 import { tracer, traceAsync, traceQuery, getCurrentTraceContext } from "../tracing";
 import { errorTracker } from "../errors/error-tracker";
@@ -794,15 +799,6 @@ export async function createOrderWithSaga(
       stepsCompleted: execution.stepsCompleted,
     });
 
-    // Persist to database if enabled
-    if (options.persistSaga) {
-      try {
-        await persistSagaExecution(execution, options.client ?? supabase);
-      } catch (error) {
-        orderLogger.warn('Failed to persist saga execution', { error });
-      }
-    }
-
     // Call user callback if provided
     if (options.onSagaStateChange) {
       await options.onSagaStateChange(execution);
@@ -810,9 +806,12 @@ export async function createOrderWithSaga(
   };
 
   // Execute the saga
+  // Persisted executions are written before and after every step so the
+  // recovery worker can resume or compensate them if this run dies
   const result = await executeOrderSaga(sagaInput, {
     client: options.client,
     onStateChange,
+    store: options.persistSaga ? new SupabaseSagaStore(options.client ?? supabase) : undefined,
   });
 
   // Track result
@@ -856,35 +855,6 @@ export async function createOrderWithSaga(
   return result;
 }
 
-/**
- * Persist saga execution state to database
- */
-async function persistSagaExecution(
-  execution: SagaExecution<unknown>,
-  client: SupabaseTypedClient
-): Promise<void> {
-  const { error } = await client
-    .from('saga_executions')
-    .upsert({
-      saga_id: execution.sagaId,
-      saga_name: execution.sagaName,
-      status: execution.status,
-      steps_completed: execution.stepsCompleted,
-      current_step: execution.currentStep,
-      context_snapshot: execution.contextSnapshot,
-      error_details: execution.errorDetails,
-      compensation_errors: execution.compensationErrors,
-      started_at: execution.startedAt.toISOString(),
-      completed_at: execution.completedAt?.toISOString(),
-    }, {
-      onConflict: 'saga_id',
-    });
-
-  if (error) {
-    throw error;
-  }
-}
-
 /**
  * Get saga execution details by saga ID
  */
@@ -902,18 +872,7 @@ export async function getSagaExecution(
     return null;
   }
 
-  return {
-    sagaId: data.saga_id,
-    sagaName: data.saga_name,
-    status: data.status,
-    stepsCompleted: data.steps_completed,
-    currentStep: data.current_step,
-    contextSnapshot: data.context_snapshot,
-    errorDetails: data.error_details,
-    compensationErrors: data.compensation_errors,
-    startedAt: new Date(data.started_at),
-    completedAt: data.completed_at ? new Date(data.completed_at) : undefined,
-  };
+  return rowToSagaExecution(data as SagaExecutionRow);
 }
 
 /**
@@ -923,6 +882,8 @@ export async function getRecentSagaExecutions(
   options: {
     sagaName?: string;
     status?: string;
+    /** Match any of these statuses (e.g. everything not finished) */
+    statuses?: string[];
     limit?: number;
   } = {},
   client: SupabaseTypedClient = supabase
@@ -931,14 +892,20 @@ export async function getRecentSagaExecutions(
   sagaName: string;
   status: string;
   stepsCompleted: string[];
+  currentStep?: string;
+  stepsCompensated: string[];
   errorDetails?: { step: string; message: string };
   startedAt: Date;
   completedAt?: Date;
   durationMs?: number;
+  attempts: number;
+  heartbeatAt?: Date;
+  leaseOwner?: string;
+  lastRecoveryAction?: string;
 }>> {
   let query = client
     .from('saga_executions')
-    .select('saga_id, saga_name, status, steps_completed, error_details, started_at, completed_at, duration_ms')
+    .select('saga_id, saga_name, status, steps_completed, current_step, steps_compensated, error_details, started_at, completed_at, duration_ms, attempts, heartbeat_at, lease_owner, last_recovery_action')
     .order('started_at', { ascending: false })
     .limit(options.limit ?? 50);
 
@@ -950,6 +917,10 @@ export async function getRecentSagaExecutions(
     query = query.eq('status', options.status);
   }
 
+  if (options.statuses?.length) {
+    query = query.in('status', options.statuses);
+  }
+
   const { data, error } = await query;
 
   if (error || !data) {
@@ -961,9 +932,15 @@ export async function getRecentSagaExecutions(
     sagaName: row.saga_name,
     status: row.status,
     stepsCompleted: row.steps_completed,
+    currentStep: row.current_step ?? undefined,
+    stepsCompensated: row.steps_compensated ?? [],
     errorDetails: row.error_details,
     startedAt: new Date(row.started_at),
     completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
     durationMs: row.duration_ms,
+    attempts: row.attempts ?? 0,
+    heartbeatAt: row.heartbeat_at ? new Date(row.heartbeat_at) : undefined,
+    leaseOwner: row.lease_owner ?? undefined,
+    lastRecoveryAction: row.last_recovery_action ?? undefined,
   }));
 }
@@ -47,7 +47,7 @@ export interface CreateOrderOptions {
 
 export interface CreateOrderWithSagaOptions {
   client?: SupabaseTypedClient;
-  /** Persist saga execution to database for debugging/recovery */
+  /** Persist each step to saga_executions so the recovery worker can pick up interrupted orders */
   persistSaga?: boolean;
   /** Callback for saga state changes */
   onSagaStateChange?: (execution: SagaExecution<unknown>) => void | Promise<void>;
@@ -1,4 +1,5 @@
 import { showError } from "./error-messages";
+import { PurchaseRiskError } from "./errors";
 
 // Error types for logging/analytics
 export type PaymentErrorType =
@@ -47,6 +48,8 @@ interface HandlePaymentErrorOptions {
   customerEmail?: string;
   paymentType: 'ga_ticket' | 'vip_reservation';
   eventId?: string;
+  /** Called when purchase risk scoring wants the guest signed in first */
+  onLoginRequired?: () => void;
 }
 
 /**
@@ -64,7 +67,24 @@ export function handlePaymentError(
   error: Error | unknown,
   options: HandlePaymentErrorOptions
 ) {
-  const { onRetry, setIsLoading, customerEmail, paymentType, eventId } = options;
+  const { onRetry, setIsLoading, customerEmail, paymentType, eventId, onLoginRequired } = options;
+
+  // Refused by purchase risk scoring: retrying the same checkout won't help
+  if (error instanceof PurchaseRiskError) {
+    console.warn('[Payment Error] Purchase refused by risk scoring', {
+      riskAction: error.riskAction,
+      paymentType,
+      eventId,
+    });
+    if (error.riskAction === 'require_login') {
+      showError('purchase_login_required');
+      onLoginRequired?.();
+    } else {
+      showError('purchase_blocked');
+    }
+    return;
+  }
+
   const errorType = categorizeError(error);
   const errorMessageKey = ERROR_TYPE_MAP[errorType];
 
@@ -0,0 +1,112 @@
+import { supabase } from "@/lib/supabase";
+import { toPriceTierDraft, type PriceTierDraft, type PriceTierRow } from "@/lib/price-tiers";
+
+// Type assertion needed since the tier schedule columns and RPCs are not in
+// the generated types yet
+const priceTiersDb = supabase as any;
+
+export async function fetchPriceTiers(ticketTypeIds: string[]): Promise<Record<string, PriceTierDraft[]>> {
+  const tiersByType: Record<string, PriceTierDraft[]> = {};
+  if (ticketTypeIds.length === 0) return tiersByType;
+
+  const { data, error } = await priceTiersDb
+    .from("ticket_type_price_tiers")
+    .select("*")
+    .in("ticket_type_id", ticketTypeIds)
+    .order("sort_order", { ascending: true });
+
+  if (error) {
+    console.error("fetchPriceTiers error:", error);
+    throw new Error(error.message);
+  }
+
+  for (const row of (data || []) as PriceTierRow[]) {
+    (tiersByType[row.ticket_type_id] ??= []).push(toPriceTierDraft(row));
+  }
+  return tiersByType;
+}
+
+/**
+ * Saves a ticket type's tiers in place. Existing tiers are updated by id so
+ * tickets keep their price_tier_id; only tiers missing from `tiers` are
+ * deleted. tickets_sold is left to the database, which counts sales.
+ */
+export async function savePriceTiers(ticketTypeId: string, tiers: PriceTierDraft[]): Promise<PriceTierDraft[]> {
+  const keepIds = tiers.flatMap((tier) => (tier.id ? [tier.id] : []));
+
+  let deleteQuery = priceTiersDb.from("ticket_type_price_tiers").delete().eq("ticket_type_id", ticketTypeId);
+  if (keepIds.length > 0) {
+    deleteQuery = deleteQuery.not("id", "in", `(${keepIds.join(",")})`);
+  }
+  const { error: deleteError } = await deleteQuery;
+  if (deleteError) throw new Error(deleteError.message);
+
+  // Clear the flags first: the one-active and one-door unique indexes are
+  // checked row by row, so moving either flag in a single pass can collide.
+  const { error: resetError } = await priceTiersDb
+    .from("ticket_type_price_tiers")
+    .update({ is_active: false, is_door_tier: false })
+    .eq("ticket_type_id", ticketTypeId);
+  if (resetError) throw new Error(resetError.message);
+
+  const now = new Date().toISOString();
+  const fields = (tier: PriceTierDraft, index: number) => ({
+    tier_name: tier.tier_name.trim(),
+    price: tier.price,
+    tickets_available: tier.tickets_available,
+    sort_order: index,
+    starts_at: tier.starts_at,
+    ends_at: tier.ends_at,
+    is_door_tier: tier.is_door_tier,
+    updated_at: now,
+  });
+
+  // Inactive tiers first, then the active one
+  const ordered = tiers
+    .map((tier, index) => ({ tier, index }))
+    .sort((a, b) => Number(a.tier.is_active) - Number(b.tier.is_active));
+
+  for (const { tier, index } of ordered) {
+    const row = { ...fields(tier, index), is_active: tier.is_active };
+    const { error } = tier.id
+      ? await priceTiersDb.from("ticket_type_price_tiers").update(row).eq("id", tier.id)
+      : await priceTiersDb.from("ticket_type_price_tiers").insert({ ...row, ticket_type_id: ticketTypeId });
+    if (error) throw new Error(error.message);
+  }
+
+  // Apply any schedule that is already due (e.g. an active tier whose end date was moved into the past)
+  const { error: rollError } = await priceTiersDb.rpc("roll_price_tiers", { p_ticket_type_id: ticketTypeId });
+  if (rollError) console.error("roll_price_tiers error:", rollError);
+
+  const refreshed = await fetchPriceTiers([ticketTypeId]);
+  return refreshed[ticketTypeId] ?? [];
+}
+
+// ─── Reporting ───────────────────────────────────────────────────────────────
+
+export interface PriceTierRevenue {
+  ticket_type_id: string;
+  ticket_type_name: string;
+  /** null = sold at the ticket type's base price */
+  tier_id: string | null;
+  tier_name: string | null;
+  is_door_tier: boolean;
+  tickets_sold: number;
+  revenue: number;
+}
+
+/** Tickets and face-value revenue per price tier, excluding cancelled and refunded tickets */
+export async function getPriceTierRevenue(eventId: string): Promise<PriceTierRevenue[]> {
+  const { data, error } = await priceTiersDb.rpc("get_price_tier_revenue", { p_event_id: eventId });
+
+  if (error) {
+    console.error("getPriceTierRevenue error:", error);
+    throw new Error(error.message);
+  }
+
+  return ((data || []) as PriceTierRevenue[]).map((row) => ({
+    ...row,
+    tickets_sold: Number(row.tickets_sold),
+    revenue: Number(row.revenue),
+  }));
+}
@@ -0,0 +1,146 @@
+/**
+ * Price tier rules shared by the admin pricing page and the event page.
+ *
+ * Rollover itself happens in the database (roll_price_tiers, see
+ * 20260410000000_price_tier_schedule.sql): a tier closes when it sells out,
+ * when its ends_at passes, or when a later tier's starts_at passes. These
+ * helpers only check what an organizer enters and format the countdown.
+ */
+
+export interface PriceTierDraft {
+  id?: string;
+  tier_name: string;
+  price: number;
+  tickets_available: number;
+  tickets_sold: number;
+  sort_order: number;
+  is_active: boolean;
+  /** ISO timestamp; the tier cannot go live before it */
+  starts_at: string | null;
+  /** ISO timestamp; the tier closes at it even if not sold out */
+  ends_at: string | null;
+  /** Charged by the scanner's walk-in sale only */
+  is_door_tier: boolean;
+}
+
+export interface PriceTierRow {
+  id: string;
+  ticket_type_id: string;
+  tier_name: string;
+  price: number | string;
+  tickets_available: number;
+  tickets_sold: number;
+  sort_order: number;
+  is_active: boolean;
+  starts_at: string | null;
+  ends_at: string | null;
+  is_door_tier: boolean | null;
+}
+
+/** Current tier as returned by the get_current_tier_price RPC */
+export interface CurrentPriceTier {
+  tier_price: number;
+  tier_name: string;
+  tier_remaining: number;
+  tier_id: string;
+  tier_ends_at: string | null;
+  next_tier_name: string | null;
+  next_tier_price: number | null;
+}
+
+export function toPriceTierDraft(row: PriceTierRow): PriceTierDraft {
+  return {
+    id: row.id,
+    tier_name: row.tier_name,
+    price: Number(row.price),
+    tickets_available: row.tickets_available,
+    tickets_sold: row.tickets_sold,
+    sort_order: row.sort_order,
+    is_active: row.is_active,
+    starts_at: row.starts_at,
+    ends_at: row.ends_at,
+    is_door_tier: row.is_door_tier ?? false,
+  };
+}
+
+/**
+ * Returns the first problem with a ticket type's tiers, or null when they
+ * can be saved. Online tier names must be unique because stripe-webhook
+ * attributes a sale to its tier by the name recorded at checkout.
+ */
+export function validatePriceTiers(tiers: PriceTierDraft[], now: Date = new Date()): string | null {
+  const onlineNames = new Set<string>();
+
+  for (const tier of tiers) {
+    const name = tier.tier_name.trim();
+    if (!name) return "All tiers must have a name.";
+    if (tier.price < 0) return `${name}: price cannot be negative.`;
+    if (tier.tickets_available < 1) return `${name}: tickets available must be at least 1.`;
+    if (tier.tickets_available < tier.tickets_sold) {
+      return `${name}: tickets available cannot be lower than the ${tier.tickets_sold} already sold.`;
+    }
+    if (tier.starts_at && tier.ends_at && new Date(tier.ends_at) <= new Date(tier.starts_at)) {
+      return `${name}: the end date must be after the start date.`;
+    }
+    if (tier.is_door_tier && tier.is_active) return `${name}: the door tier cannot be the active online tier.`;
+    if (tier.is_active && tier.starts_at && new Date(tier.starts_at) > now) {
+      return `${name}: a tier cannot be active before its start date.`;
+    }
+
+    if (!tier.is_door_tier) {
+      const key = name.toLowerCase();
+      if (onlineNames.has(key)) return `Tier names must be unique ("${name}" is used twice).`;
+      onlineNames.add(key);
+    }
+  }
+
+  if (tiers.filter((tier) => tier.is_door_tier).length > 1) return "Only one tier can be the door price.";
+  if (tiers.filter((tier) => tier.is_active).length > 1) return "Only one tier can be active.";
+
+  return null;
+}
+
+// ─── Countdown ───────────────────────────────────────────────────────────────
+
+export interface Countdown {
+  days: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+/** Time left until `target`, or null once it has passed */
+export function getCountdown(target: Date, now: Date = new Date()): Countdown | null {
+  const remainingMs = target.getTime() - now.getTime();
+  if (remainingMs <= 0) return null;
+
+  const totalSeconds = Math.floor(remainingMs / 1000);
+  return {
+    days: Math.floor(totalSeconds / 86400),
+    hours: Math.floor((totalSeconds % 86400) / 3600),
+    minutes: Math.floor((totalSeconds % 3600) / 60),
+    seconds: totalSeconds % 60,
+  };
+}
+
+/** Compact countdown: "3d 4h", "5h 12m", "12:05" */
+export function formatCountdown(countdown: Countdown): string {
+  if (countdown.days > 0) return `${countdown.days}d ${countdown.hours}h`;
+  if (countdown.hours > 0) return `${countdown.hours}h ${countdown.minutes}m`;
+  return `${countdown.minutes}:${String(countdown.seconds).padStart(2, "0")}`;
+}
+
+// ─── datetime-local inputs ───────────────────────────────────────────────────
+
+/** ISO timestamp → value for an <input type="datetime-local"> in the browser's zone */
+export function toDateTimeLocalValue(iso: string | null): string {
+  if (!iso) return "";
+  const date = new Date(iso);
+  const offsetMs = date.getTimezoneOffset() * 60_000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+/** <input type="datetime-local"> value → ISO timestamp (empty = no schedule) */
+export function fromDateTimeLocalValue(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
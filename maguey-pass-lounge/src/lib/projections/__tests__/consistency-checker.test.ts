@@ -0,0 +1,92 @@
+/**
+ * Projection Consistency Checker Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffProjectionAgainstTickets, projectedStatuses } from '../consistency-checker';
+
+const timeline = [
+  { ticket_id: 'ticket-1', global_position: 1, status: 'valid' as const },
+  { ticket_id: 'ticket-1', global_position: 5, status: 'checked_in' as const },
+  { ticket_id: 'ticket-2', global_position: 2, status: 'valid' as const },
+  { ticket_id: 'ticket-2', global_position: 7, status: 'refunded' as const },
+];
+
+const attendance = { tickets_issued: 2, refunded: 1, cancelled: 0 };
+
+describe('projectedStatuses', () => {
+  it('uses the latest status per ticket regardless of row order', () => {
+    const statuses = projectedStatuses([...timeline].reverse());
+
+    expect(statuses.get('ticket-1')).toBe('checked_in');
+    expect(statuses.get('ticket-2')).toBe('refunded');
+  });
+});
+
+describe('diffProjectionAgainstTickets', () => {
+  it('is consistent when statuses and counts agree', () => {
+    const report = diffProjectionAgainstTickets(
+      'event-1',
+      [
+        { id: 'ticket-1', status: 'scanned' },
+        { id: 'ticket-2', status: 'refunded' },
+      ],
+      timeline,
+      attendance
+    );
+
+    expect(report.consistent).toBe(true);
+    expect(report.ticketsChecked).toBe(2);
+  });
+
+  it('reports tickets whose status drifted from the projection', () => {
+    const report = diffProjectionAgainstTickets(
+      'event-1',
+      [
+        { id: 'ticket-1', status: 'issued' },
+        { id: 'ticket-2', status: 'refunded' },
+      ],
+      timeline,
+      attendance
+    );
+
+    expect(report.consistent).toBe(false);
+    expect(report.issues).toEqual([
+      { kind: 'status_mismatch', ticketId: 'ticket-1', projected: 'checked_in', actual: 'issued' },
+    ]);
+  });
+
+  it('reports tickets missing on either side and count differences', () => {
+    const report = diffProjectionAgainstTickets(
+      'event-1',
+      [
+        { id: 'ticket-1', status: 'checked_in' },
+        { id: 'ticket-3', status: 'issued' },
+      ],
+      timeline,
+      attendance
+    );
+
+    expect(report.issues).toEqual(
+      expect.arrayContaining([
+        { kind: 'missing_from_projection', ticketId: 'ticket-3', projected: null, actual: 'issued' },
+        { kind: 'unknown_ticket', ticketId: 'ticket-2', projected: 'refunded', actual: null },
+        { kind: 'count_mismatch', metric: 'refunded', projected: 1, actual: 0 },
+      ])
+    );
+  });
+
+  it('does not compare statuses it cannot categorize', () => {
+    const report = diffProjectionAgainstTickets(
+      'event-1',
+      [
+        { id: 'ticket-1', status: 'pending' },
+        { id: 'ticket-2', status: 'refunded' },
+      ],
+      timeline,
+      attendance
+    );
+
+    expect(report.consistent).toBe(true);
+  });
+});
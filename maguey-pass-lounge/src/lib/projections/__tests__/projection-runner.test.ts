@@ -0,0 +1,204 @@
+/**
+ * Projection Runner Tests
+ *
+ * Runs the default projections against an in-memory stand-in for the
+ * Supabase tables to cover checkpointing, ticket -> event resolution and
+ * rebuilds.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { BaseEvent } from '../../event-store';
+
+const store: BaseEvent[] = [];
+
+vi.mock('../../event-store', () => ({
+  getEventsAfter: vi.fn(async (position: number, options: { eventTypes?: string[]; limit?: number }) =>
+    store
+      .filter((event) => (event.globalPosition ?? 0) > position)
+      .filter((event) => !options.eventTypes || options.eventTypes.includes(event.eventType))
+      .slice(0, options.limit ?? 500)
+  ),
+}));
+
+import { ProjectionRunner } from '../projection-runner';
+import { defaultProjections, type EventAttendanceRow } from '../read-models';
+
+type Row = Record<string, unknown>;
+
+/**
+ * Just enough of the query builder for the runner
+ */
+function createFakeClient(tables: Record<string, Row[]>) {
+  const rpc = vi.fn(async (name: string, params: { p_projection_name: string }) => {
+    if (name === 'reset_projection') {
+      const checkpoint = tables.projection_checkpoints.find(
+        (row) => row.projection_name === params.p_projection_name
+      )!;
+      tables[checkpoint.read_model_table as string] = [];
+      Object.assign(checkpoint, { last_position: 0, events_applied: 0, status: 'rebuilding' });
+    }
+    return { data: null, error: null };
+  });
+
+  function from(table: string) {
+    const filters: Array<(row: Row) => boolean> = [];
+    let update: Row | null = null;
+
+    const rows = () => (tables[table] ??= []).filter((row) => filters.every((filter) => filter(row)));
+    const result = () => {
+      if (update) rows().forEach((row) => Object.assign(row, update));
+      return { data: rows(), error: null };
+    };
+
+    const builder = {
+      select: () => builder,
+      order: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      in: (column: string, values: unknown[]) => {
+        filters.push((row) => values.includes(row[column]));
+        return builder;
+      },
+      match: (key: Row) => {
+        filters.push((row) => Object.entries(key).every(([column, value]) => row[column] === value));
+        return builder;
+      },
+      update: (changes: Row) => {
+        update = changes;
+        return builder;
+      },
+      upsert: async (upserts: Row[], { onConflict }: { onConflict: string }) => {
+        const columns = onConflict.split(',');
+        for (const upsert of upserts) {
+          const existing = (tables[table] ??= []).find((row) =>
+            columns.every((column) => row[column] === upsert[column])
+          );
+          if (existing) Object.assign(existing, upsert);
+          else tables[table].push({ ...upsert });
+        }
+        return { data: null, error: null };
+      },
+      maybeSingle: async () => ({ data: rows()[0] ?? null, error: null }),
+      then: (resolve: (value: { data: Row[]; error: null }) => unknown) => resolve(result()),
+    };
+
+    return builder;
+  }
+
+  return { client: { from, rpc } as unknown as SupabaseClient, rpc };
+}
+
+function appendEvent(aggregateId: string, eventType: string, eventData: Record<string, unknown> = {}) {
+  const position = store.length + 1;
+  store.push({
+    id: `evt-${position}`,
+    aggregateId,
+    eventType,
+    eventData,
+    metadata: {},
+    sequenceNumber: position,
+    occurredAt: new Date('2026-05-01T22:30:00.000Z'),
+    recordedAt: new Date('2026-05-01T22:30:00.000Z'),
+    schemaVersion: 1,
+    globalPosition: position,
+  });
+}
+
+function checkpointRows(): Row[] {
+  return defaultProjections.map((projection) => ({
+    projection_name: projection.name,
+    read_model_table: projection.table,
+    last_position: 0,
+    events_applied: 0,
+    status: 'live',
+    last_error: null,
+  }));
+}
+
+describe('ProjectionRunner', () => {
+  let tables: Record<string, Row[]>;
+
+  beforeEach(() => {
+    store.length = 0;
+    tables = {
+      projection_checkpoints: checkpointRows(),
+      tickets: [{ id: 'ticket-1', event_id: 'event-1' }],
+    };
+  });
+
+  it('applies new events and advances each checkpoint', async () => {
+    const { client } = createFakeClient(tables);
+    const runner = new ProjectionRunner(defaultProjections, { client });
+
+    appendEvent('ticket-1', 'TicketIssued', { eventId: 'event-1', price: 40, feeTotal: 4 });
+    appendEvent('ticket-1', 'TicketScanned');
+    appendEvent('ticket-1', 'TicketEmailSent', { recipientEmail: 'guest@example.com' });
+
+    const results = await runner.catchUp();
+
+    expect(results.map((result) => [result.projection, result.eventsApplied])).toEqual([
+      ['event_attendance', 2],
+      ['ticket_timeline', 3],
+      ['revenue_by_hour', 1],
+    ]);
+    expect(tables.projection_ticket_timeline).toHaveLength(3);
+    expect(tables.projection_checkpoints.find((row) => row.projection_name === 'ticket_timeline'))
+      .toMatchObject({ last_position: 3, events_applied: 3, status: 'live' });
+  });
+
+  it('only applies events after the checkpoint on the next run', async () => {
+    const { client } = createFakeClient(tables);
+    const runner = new ProjectionRunner(defaultProjections, { client });
+
+    appendEvent('ticket-1', 'TicketScanned');
+    await runner.catchUp('event_attendance');
+    appendEvent('ticket-1', 'TicketExit', { exitCount: 1 });
+    const [result] = await runner.catchUp('event_attendance');
+
+    const attendance = tables.projection_event_attendance[0] as unknown as EventAttendanceRow;
+    expect(result.eventsApplied).toBe(1);
+    expect(attendance).toMatchObject({ event_id: 'event-1', entries: 1, exits: 1, currently_inside: 0 });
+  });
+
+  it('does not double count a batch replayed after a lost checkpoint write', async () => {
+    const { client } = createFakeClient(tables);
+    const runner = new ProjectionRunner(defaultProjections, { client });
+
+    appendEvent('ticket-1', 'TicketScanned');
+    await runner.catchUp('event_attendance');
+    tables.projection_checkpoints[0].last_position = 0;
+    await runner.catchUp('event_attendance');
+
+    expect(tables.projection_event_attendance[0]).toMatchObject({ checked_in: 1, entries: 1 });
+  });
+
+  it('rebuilds a read model from position 0', async () => {
+    const { client, rpc } = createFakeClient(tables);
+    const runner = new ProjectionRunner(defaultProjections, { client, batchSize: 1 });
+
+    appendEvent('ticket-1', 'TicketIssued', { eventId: 'event-1', price: 40, feeTotal: 4 });
+    appendEvent('ticket-1', 'TicketRefunded', { refundAmount: 44 });
+    await runner.catchUp('revenue_by_hour');
+    tables.projection_revenue_hourly[0].net_revenue = 999;
+
+    const result = await runner.rebuild('revenue_by_hour');
+
+    expect(rpc).toHaveBeenCalledWith('reset_projection', { p_projection_name: 'revenue_by_hour' });
+    expect(result.eventsApplied).toBe(2);
+    expect(tables.projection_revenue_hourly).toEqual([
+      expect.objectContaining({ tickets_sold: 1, tickets_refunded: 1, net_revenue: 0 }),
+    ]);
+    expect(tables.projection_checkpoints.find((row) => row.projection_name === 'revenue_by_hour'))
+      .toMatchObject({ status: 'live', last_position: 2 });
+  });
+
+  it('rejects unknown projection names', async () => {
+    const { client } = createFakeClient(tables);
+    const runner = new ProjectionRunner(defaultProjections, { client });
+
+    await expect(runner.rebuild('nope')).rejects.toThrow('Unknown projection: nope');
+  });
+});
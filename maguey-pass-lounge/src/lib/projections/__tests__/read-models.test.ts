@@ -0,0 +1,181 @@
+/**
+ * Read Model Tests
+ *
+ * Tests for the attendance, timeline and hourly revenue reducers
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  eventAttendanceProjection,
+  revenueByHourProjection,
+  ticketTimelineProjection,
+  hourBucket,
+  statusAfterEvent,
+  type EventAttendanceRow,
+  type RevenueHourlyRow,
+} from '../read-models';
+import { foldEvent, type ProjectionEvent } from '../projection-runner';
+
+let position = 0;
+
+function makeEvent(
+  eventType: string,
+  eventData: Record<string, unknown> = {},
+  occurredAt = '2026-05-01T22:15:00.000Z',
+  aggregateId = 'ticket-1'
+): ProjectionEvent {
+  position++;
+  return {
+    id: `evt-${position}`,
+    aggregateId,
+    eventType,
+    eventData,
+    metadata: {},
+    sequenceNumber: position,
+    occurredAt: new Date(occurredAt),
+    recordedAt: new Date(occurredAt),
+    schemaVersion: 1,
+    globalPosition: position,
+  };
+}
+
+const context = { eventId: 'event-1' };
+
+function foldAll<TRow extends { last_position: number }>(
+  projection: typeof eventAttendanceProjection | typeof revenueByHourProjection,
+  events: ProjectionEvent[]
+): TRow | undefined {
+  let row: TRow | undefined;
+  for (const event of events) {
+    const key = projection.keyFor(event, context);
+    if (!key) continue;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    row = (foldEvent(projection as any, row, event, key, context) as TRow | null) ?? row;
+  }
+  return row;
+}
+
+describe('eventAttendanceProjection', () => {
+  it('counts check-ins, re-entries and who is still inside', () => {
+    const row = foldAll<EventAttendanceRow>(eventAttendanceProjection, [
+      makeEvent('TicketIssued', { eventId: 'event-1' }),
+      makeEvent('TicketIssued', { eventId: 'event-1' }, undefined, 'ticket-2'),
+      makeEvent('TicketScanned', {}, '2026-05-01T23:00:00.000Z'),
+      makeEvent('TicketScanned', {}, '2026-05-01T23:05:00.000Z', 'ticket-2'),
+      makeEvent('TicketExit', { exitCount: 1 }),
+      makeEvent('TicketReEntry', { entryCount: 2 }, '2026-05-02T00:30:00.000Z'),
+      makeEvent('TicketExit', { exitCount: 2 }, undefined, 'ticket-2'),
+    ]);
+
+    expect(row).toMatchObject({
+      event_id: 'event-1',
+      tickets_issued: 2,
+      checked_in: 2,
+      entries: 3,
+      exits: 2,
+      currently_inside: 1,
+      first_entry_at: '2026-05-01T23:00:00.000Z',
+      last_entry_at: '2026-05-02T00:30:00.000Z',
+    });
+  });
+
+  it('ignores tickets whose event is unknown', () => {
+    expect(eventAttendanceProjection.keyFor(makeEvent('TicketScanned'), { eventId: null })).toBeNull();
+  });
+});
+
+describe('revenueByHourProjection', () => {
+  it('buckets sales, upgrades and refunds by the hour they happened', () => {
+    const events = [
+      makeEvent('TicketIssued', { price: 40, feeTotal: 4.5 }, '2026-05-01T22:10:00.000Z'),
+      makeEvent('TicketIssued', { price: 40, feeTotal: 4.5 }, '2026-05-01T22:50:00.000Z'),
+      makeEvent('TicketUpgraded', { priceDifference: 25 }, '2026-05-01T22:55:00.000Z'),
+      makeEvent('TicketRefunded', { refundAmount: 44.5 }, '2026-05-01T22:59:59.000Z'),
+    ];
+
+    const row = foldAll<RevenueHourlyRow>(revenueByHourProjection, events);
+
+    expect(row).toMatchObject({
+      hour_start: '2026-05-01T22:00:00.000Z',
+      tickets_sold: 2,
+      tickets_refunded: 1,
+      ticket_revenue: 80,
+      fee_revenue: 9,
+      upgrade_revenue: 25,
+      refunded_amount: 44.5,
+      net_revenue: 69.5,
+    });
+  });
+
+  it('keys later events into a new hour', () => {
+    const event = makeEvent('TicketRefunded', { refundAmount: 10 }, '2026-05-02T01:20:00.000Z');
+    expect(revenueByHourProjection.keyFor(event, context)).toEqual({
+      event_id: 'event-1',
+      hour_start: '2026-05-02T01:00:00.000Z',
+    });
+  });
+
+  it('reads numeric columns that come back as strings', () => {
+    const event = makeEvent('TicketIssued', { price: 10, feeTotal: 1 });
+    const existing = {
+      event_id: 'event-1',
+      hour_start: '2026-05-01T22:00:00.000Z',
+      tickets_sold: 1,
+      tickets_refunded: 0,
+      ticket_revenue: '10.00',
+      fee_revenue: '1.00',
+      upgrade_revenue: '0.00',
+      refunded_amount: '0.00',
+      net_revenue: '11.00',
+      last_position: 0,
+      updated_at: '2026-05-01T22:00:00.000Z',
+    } as unknown as RevenueHourlyRow;
+
+    const row = revenueByHourProjection.apply(existing, event, {}, context);
+
+    expect(row.ticket_revenue).toBe(20);
+    expect(row.net_revenue).toBe(22);
+  });
+});
+
+describe('ticketTimelineProjection', () => {
+  it('writes one row per event with a readable summary and status', () => {
+    const event = makeEvent('TicketScanned', { scannedBy: 'staff-7', gate: 'Gate A' });
+    const key = ticketTimelineProjection.keyFor(event, context)!;
+    const row = ticketTimelineProjection.apply(undefined, event, key, context);
+
+    expect(key).toEqual({ ticket_id: 'ticket-1', global_position: event.globalPosition });
+    expect(row).toMatchObject({
+      event_id: 'event-1',
+      status: 'checked_in',
+      summary: 'Checked in at Gate A',
+      actor_id: 'staff-7',
+    });
+  });
+});
+
+describe('statusAfterEvent', () => {
+  it('leaves the status alone for events that do not change it', () => {
+    expect(statusAfterEvent(makeEvent('TicketUpgraded'))).toBeNull();
+    expect(statusAfterEvent(makeEvent('TicketEmailSent'))).toBeNull();
+  });
+
+  it('follows admin status overrides', () => {
+    expect(statusAfterEvent(makeEvent('TicketStatusOverride', { newStatus: 'cancelled' }))).toBe('cancelled');
+  });
+});
+
+describe('foldEvent', () => {
+  it('skips events the row has already seen', () => {
+    const event = makeEvent('TicketScanned');
+    const once = eventAttendanceProjection.apply(undefined, event, { event_id: 'event-1' }, context);
+
+    expect(foldEvent(eventAttendanceProjection, once, event, { event_id: 'event-1' }, context)).toBeNull();
+  });
+});
+
+describe('hourBucket', () => {
+  it('truncates to the start of the UTC hour', () => {
+    expect(hourBucket(new Date('2026-05-01T22:59:59.999Z'))).toBe('2026-05-01T22:00:00.000Z');
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Projection Consistency Checker
+ *
+ * Diffs the projections for one event against the tickets table, which is
+ * still written directly by checkout, the scanner and refunds. Drift means
+ * either a write path that doesn't append to the event store, or a projection
+ * that needs rebuilding.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../supabase';
+import { createLogger } from '../logger';
+import {
+  categorizeTicketStatus,
+  type EventAttendanceRow,
+  type TicketStatusCategory,
+  type TicketTimelineRow,
+} from './read-models';
+
+const logger = createLogger({ module: 'projection-consistency' });
+
+const PAGE_SIZE = 1000;
+
+// ============================================
+// Types
+// ============================================
+
+export type ConsistencyIssueKind =
+  | 'status_mismatch'
+  | 'missing_from_projection'
+  | 'unknown_ticket'
+  | 'count_mismatch';
+
+export interface ConsistencyIssue {
+  kind: ConsistencyIssueKind;
+  ticketId?: string;
+  metric?: string;
+  projected: string | number | null;
+  actual: string | number | null;
+}
+
+export interface ConsistencyReport {
+  eventId: string;
+  checkedAt: string;
+  ticketsChecked: number;
+  consistent: boolean;
+  issues: ConsistencyIssue[];
+}
+
+/**
+ * Columns of tickets the checker compares against
+ */
+export interface TicketSnapshot {
+  id: string;
+  status: string | null;
+}
+
+// ============================================
+// Diff
+// ============================================
+
+/**
+ * Latest projected status per ticket from its timeline rows
+ */
+export function projectedStatuses(
+  timeline: Pick<TicketTimelineRow, 'ticket_id' | 'global_position' | 'status'>[]
+): Map<string, TicketStatusCategory> {
+  const latest = new Map<string, { position: number; status: TicketStatusCategory }>();
+
+  for (const row of timeline) {
+    if (!row.status) continue;
+    const position = Number(row.global_position);
+    const current = latest.get(row.ticket_id);
+    if (!current || position > current.position) {
+      latest.set(row.ticket_id, { position, status: row.status });
+    }
+  }
+
+  return new Map(Array.from(latest, ([ticketId, { status }]) => [ticketId, status]));
+}
+
+/**
+ * Compare projection state for an event with the tickets table
+ */
+export function diffProjectionAgainstTickets(
+  eventId: string,
+  tickets: TicketSnapshot[],
+  timeline: Pick<TicketTimelineRow, 'ticket_id' | 'global_position' | 'status'>[],
+  attendance: Pick<EventAttendanceRow, 'tickets_issued' | 'refunded' | 'cancelled'> | null,
+  checkedAt: Date = new Date()
+): ConsistencyReport {
+  const issues: ConsistencyIssue[] = [];
+  const projected = projectedStatuses(timeline);
+  const ticketIds = new Set(tickets.map((ticket) => ticket.id));
+
+  for (const ticket of tickets) {
+    const actual = categorizeTicketStatus(ticket.status);
+    const expected = projected.get(ticket.id);
+
+    if (!expected) {
+      issues.push({ kind: 'missing_from_projection', ticketId: ticket.id, projected: null, actual: ticket.status });
+    } else if (actual && actual !== expected) {
+      issues.push({ kind: 'status_mismatch', ticketId: ticket.id, projected: expected, actual: ticket.status });
+    }
+  }
+
+  for (const [ticketId, status] of projected) {
+    if (!ticketIds.has(ticketId)) {
+      issues.push({ kind: 'unknown_ticket', ticketId, projected: status, actual: null });
+    }
+  }
+
+  const countBy = (category: TicketStatusCategory) =>
+    tickets.filter((ticket) => categorizeTicketStatus(ticket.status) === category).length;
+
+  const counts: Array<[string, number, number]> = [
+    ['tickets_issued', attendance?.tickets_issued ?? 0, tickets.length],
+    ['refunded', attendance?.refunded ?? 0, countBy('refunded')],
+    ['cancelled', attendance?.cancelled ?? 0, countBy('cancelled')],
+  ];
+
+  for (const [metric, projectedCount, actualCount] of counts) {
+    if (Number(projectedCount) !== actualCount) {
+      issues.push({ kind: 'count_mismatch', metric, projected: Number(projectedCount), actual: actualCount });
+    }
+  }
+
+  return {
+    eventId,
+    checkedAt: checkedAt.toISOString(),
+    ticketsChecked: tickets.length,
+    consistent: issues.length === 0,
+    issues,
+  };
+}
+
+// ============================================
+// Loading
+// ============================================
+
+async function fetchAllPages<T>(
+  label: string,
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: unknown; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) {
+      throw new Error(`Failed to load ${label}: ${error.message}`);
+    }
+
+    const page = (data as T[] | null) || [];
+    rows.push(...page);
+    if (page.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Load the event's tickets and projections and diff them
+ */
+export async function checkProjectionConsistency(
+  eventId: string,
+  client: SupabaseClient = supabase
+): Promise<ConsistencyReport> {
+  const [tickets, timeline, attendanceResult] = await Promise.all([
+    fetchAllPages<TicketSnapshot>('tickets', (from, to) =>
+      client.from('tickets').select('id, status').eq('event_id', eventId).order('id').range(from, to)
+    ),
+    fetchAllPages<TicketTimelineRow>('ticket timeline', (from, to) =>
+      client
+        .from('projection_ticket_timeline')
+        .select('ticket_id, global_position, status')
+        .eq('event_id', eventId)
+        .not('status', 'is', null)
+        .order('ticket_id')
+        .order('global_position')
+        .range(from, to)
+    ),
+    client
+      .from('projection_event_attendance')
+      .select('tickets_issued, refunded, cancelled')
+      .eq('event_id', eventId)
+      .maybeSingle(),
+  ]);
+
+  if (attendanceResult.error) {
+    throw new Error(`Failed to load attendance projection: ${attendanceResult.error.message}`);
+  }
+
+  const report = diffProjectionAgainstTickets(
+    eventId,
+    tickets,
+    timeline,
+    attendanceResult.data as EventAttendanceRow | null
+  );
+
+  if (!report.consistent) {
+    logger.warn('Projection drift detected', { eventId, issues: report.issues.length });
+  }
+
+  return report;
+}
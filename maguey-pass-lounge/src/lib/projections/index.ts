@@ -0,0 +1,7 @@
+/**
+ * Ticket event projections - persistent read models built from the event store
+ */
+
+export * from './projection-runner';
+export * from './read-models';
+export * from './consistency-checker';
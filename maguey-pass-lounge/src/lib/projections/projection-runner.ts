@@ -0,0 +1,520 @@
+/**
+ * Projection Runner
+ *
+ * Folds the ticket event store into persistent read models. Each projection
+ * reads events after its checkpoint (ticket_events.global_position), applies
+ * them to rows in its own table and then advances the checkpoint.
+ *
+ * Rows remember the last position applied to them, so a batch that is
+ * replayed after a crash between the upsert and the checkpoint write is
+ * skipped instead of counted twice.
+ *
+ * @example
+ * ```typescript
+ * const runner = new ProjectionRunner(defaultProjections, { client: serviceClient });
+ *
+ * // Apply everything appended since the last run
+ * await runner.catchUp();
+ *
+ * // Throw away a read model and replay it from position 0
+ * await runner.rebuild('revenue_by_hour');
+ *
+ * // Follow new appends (realtime, with polling as a fallback)
+ * const stop = runner.start();
+ * ```
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../supabase';
+import { getEventsAfter, type BaseEvent } from '../event-store';
+import { TicketEventTypes } from '../events/ticket-events';
+import { createLogger } from '../logger';
+import { metrics } from '../monitoring';
+
+const logger = createLogger({ module: 'projections' });
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Event as seen by a projection - always read back from the store, so it
+ * has a global position
+ */
+export interface ProjectionEvent extends BaseEvent {
+  globalPosition: number;
+}
+
+/**
+ * Values of a read model's primary key columns
+ */
+export type ProjectionKey = Record<string, string | number>;
+
+/**
+ * Every read model row tracks the last event position folded into it
+ */
+export interface ProjectionRow {
+  last_position: number;
+}
+
+/**
+ * Lookups resolved by the runner before an event is applied
+ */
+export interface ProjectionContext {
+  /** Event (night) the ticket belongs to, if known */
+  eventId: string | null;
+}
+
+/**
+ * A persistent read model built from ticket events
+ */
+export interface Projection<TRow extends ProjectionRow = ProjectionRow> {
+  /** Name in projection_checkpoints */
+  name: string;
+
+  /** Read model table */
+  table: string;
+
+  /** Primary key columns of the table (upsert conflict target) */
+  keyColumns: string[];
+
+  /** Event types the projection reacts to */
+  eventTypes: readonly string[];
+
+  /**
+   * Rows are only ever inserted (one per event), so existing rows are
+   * never loaded before applying
+   */
+  appendOnly?: boolean;
+
+  /** Row the event updates, or null to ignore the event */
+  keyFor: (event: ProjectionEvent, context: ProjectionContext) => ProjectionKey | null;
+
+  /** Fold the event into the row (undefined when the row does not exist yet) */
+  apply: (
+    row: TRow | undefined,
+    event: ProjectionEvent,
+    key: ProjectionKey,
+    context: ProjectionContext
+  ) => TRow;
+}
+
+export type ProjectionStatus = 'live' | 'rebuilding' | 'failed';
+
+/**
+ * Row in projection_checkpoints
+ */
+export interface ProjectionCheckpoint {
+  projection_name: string;
+  read_model_table: string;
+  last_position: number;
+  status: ProjectionStatus;
+  last_error: string | null;
+  events_applied: number;
+  rebuilt_at: string | null;
+  updated_at: string;
+}
+
+/**
+ * Outcome of bringing one projection up to date
+ */
+export interface CatchUpResult {
+  projection: string;
+  eventsApplied: number;
+  lastPosition: number;
+  durationMs: number;
+}
+
+export interface ProjectionRunnerOptions {
+  /** Client used for reads and writes; the runner needs the service role */
+  client?: SupabaseClient;
+  /** Events fetched per round trip. Default: 500 */
+  batchSize?: number;
+  /** Fallback polling interval when following the store. Default: 30s */
+  pollIntervalMs?: number;
+  /**
+   * Delay between a realtime insert and the catch-up it triggers. The
+   * catch-up RPC holds back events younger than 2s, so waiting a little
+   * longer picks the new event up in one pass. Default: 2500ms
+   */
+  settleDelayMs?: number;
+}
+
+// ============================================
+// Folding
+// ============================================
+
+/**
+ * Stable map key for a row key
+ */
+export function serializeKey(key: ProjectionKey): string {
+  return JSON.stringify(Object.keys(key).sort().map((column) => [column, key[column]]));
+}
+
+/**
+ * Apply one event to its row, skipping it when the row already includes it.
+ * Returns the new row, or null when nothing changed.
+ */
+export function foldEvent<TRow extends ProjectionRow>(
+  projection: Projection<TRow>,
+  row: TRow | undefined,
+  event: ProjectionEvent,
+  key: ProjectionKey,
+  context: ProjectionContext
+): TRow | null {
+  if (row && Number(row.last_position) >= event.globalPosition) {
+    return null;
+  }
+
+  return projection.apply(row, event, key, context);
+}
+
+/**
+ * Event id carried by a TicketIssued payload, if any
+ */
+function issuedEventId(event: BaseEvent): string | null {
+  if (event.eventType !== TicketEventTypes.TICKET_ISSUED) return null;
+  const eventId = (event.eventData as { eventId?: unknown }).eventId;
+  return typeof eventId === 'string' && eventId ? eventId : null;
+}
+
+// ============================================
+// Runner
+// ============================================
+
+export class ProjectionRunner {
+  private readonly projections: Map<string, Projection<ProjectionRow>>;
+  private readonly client: SupabaseClient;
+  private readonly batchSize: number;
+  private readonly pollIntervalMs: number;
+  private readonly settleDelayMs: number;
+
+  /** ticket id -> event id; a ticket never moves between events */
+  private readonly ticketEvents = new Map<string, string | null>();
+
+  /** Serializes work per projection so overlapping triggers don't race */
+  private readonly inFlight = new Map<string, Promise<CatchUpResult>>();
+
+  constructor(
+    projections: Projection<ProjectionRow>[],
+    options: ProjectionRunnerOptions = {}
+  ) {
+    this.projections = new Map(projections.map((projection) => [projection.name, projection]));
+    this.client = options.client ?? supabase;
+    this.batchSize = options.batchSize ?? 500;
+    this.pollIntervalMs = options.pollIntervalMs ?? 30_000;
+    this.settleDelayMs = options.settleDelayMs ?? 2_500;
+  }
+
+  /**
+   * Names of the registered projections
+   */
+  get names(): string[] {
+    return Array.from(this.projections.keys());
+  }
+
+  /**
+   * Apply all pending events to one projection, or to every projection
+   */
+  async catchUp(name?: string): Promise<CatchUpResult[]> {
+    const names = name ? [this.requireProjection(name).name] : this.names;
+    const results: CatchUpResult[] = [];
+
+    for (const projectionName of names) {
+      results.push(await this.runExclusive(projectionName, () => this.drain(projectionName)));
+    }
+
+    return results;
+  }
+
+  /**
+   * Empty a projection's read model and replay the store into it from
+   * position 0
+   */
+  async rebuild(name: string): Promise<CatchUpResult> {
+    const projection = this.requireProjection(name);
+
+    return this.runExclusive(projection.name, async () => {
+      logger.info('Rebuilding projection', { projection: projection.name });
+
+      const { error } = await this.client.rpc('reset_projection', {
+        p_projection_name: projection.name,
+      });
+
+      if (error) {
+        throw new Error(`Failed to reset projection ${projection.name}: ${error.message}`);
+      }
+
+      const result = await this.drain(projection.name);
+      metrics.increment('projections.rebuild', 1, { projection: projection.name });
+      return result;
+    });
+  }
+
+  /**
+   * Current checkpoints for all projections
+   */
+  async getCheckpoints(): Promise<ProjectionCheckpoint[]> {
+    const { data, error } = await this.client
+      .from('projection_checkpoints')
+      .select('*')
+      .order('projection_name');
+
+    if (error) {
+      throw new Error(`Failed to load projection checkpoints: ${error.message}`);
+    }
+
+    return (data || []) as ProjectionCheckpoint[];
+  }
+
+  /**
+   * Follow the store: catch up now, again shortly after every append seen over
+   * realtime, and on a slow poll in case realtime drops. Returns a stop function.
+   */
+  start(): () => void {
+    let settleTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const runCatchUp = () => {
+      this.catchUp().catch((error) => {
+        logger.error('Projection catch-up failed', { error });
+      });
+    };
+
+    const channel = this.client
+      .channel('ticket-event-projections')
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'ticket_events',
+      }, () => {
+        if (settleTimer) return;
+        settleTimer = setTimeout(() => {
+          settleTimer = null;
+          runCatchUp();
+        }, this.settleDelayMs);
+      })
+      .subscribe((status) => {
+        logger.debug('Projection subscription status', { status });
+      });
+
+    const poll = setInterval(runCatchUp, this.pollIntervalMs);
+    runCatchUp();
+
+    return () => {
+      clearInterval(poll);
+      if (settleTimer) clearTimeout(settleTimer);
+      this.client.removeChannel(channel);
+    };
+  }
+
+  // ============================================
+  // Internals
+  // ============================================
+
+  private requireProjection(name: string): Projection<ProjectionRow> {
+    const projection = this.projections.get(name);
+    if (!projection) {
+      throw new Error(`Unknown projection: ${name}`);
+    }
+    return projection;
+  }
+
+  private async runExclusive(
+    name: string,
+    work: () => Promise<CatchUpResult>
+  ): Promise<CatchUpResult> {
+    const previous = this.inFlight.get(name);
+    const next = (previous ? previous.catch(() => undefined) : Promise.resolve()).then(work);
+    this.inFlight.set(name, next);
+
+    try {
+      return await next;
+    } finally {
+      if (this.inFlight.get(name) === next) {
+        this.inFlight.delete(name);
+      }
+    }
+  }
+
+  /**
+   * Apply batches until the projection has seen every settled event
+   */
+  private async drain(name: string): Promise<CatchUpResult> {
+    const projection = this.requireProjection(name);
+    const log = logger.child({ projection: name });
+    const startTime = Date.now();
+
+    const checkpoint = await this.loadCheckpoint(name);
+    let position = Number(checkpoint.last_position);
+    let applied = Number(checkpoint.events_applied);
+    let eventsApplied = 0;
+    let status = checkpoint.status;
+
+    try {
+      for (;;) {
+        const events = (await getEventsAfter(position, {
+          eventTypes: [...projection.eventTypes],
+          limit: this.batchSize,
+          client: this.client,
+        })) as ProjectionEvent[];
+
+        if (events.length === 0) break;
+
+        await this.applyBatch(projection, events);
+
+        position = events[events.length - 1].globalPosition;
+        applied += events.length;
+        eventsApplied += events.length;
+
+        // A full batch may have more behind it; stay 'rebuilding' until drained
+        const more = events.length === this.batchSize;
+        status = more ? status : 'live';
+        await this.saveCheckpoint(name, {
+          last_position: position,
+          events_applied: applied,
+          status,
+          last_error: null,
+        });
+
+        if (!more) break;
+      }
+
+      if (status !== 'live') {
+        await this.saveCheckpoint(name, { status: 'live', last_error: null });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log.error('Projection batch failed', { position, error: message });
+      metrics.increment('projections.error', 1, { projection: name });
+      await this.saveCheckpoint(name, { status: 'failed', last_error: message }).catch(() => undefined);
+      throw error;
+    }
+
+    const durationMs = Date.now() - startTime;
+    if (eventsApplied > 0) {
+      log.info('Projection caught up', { eventsApplied, lastPosition: position, durationMs });
+      metrics.increment('projections.events_applied', eventsApplied, { projection: name });
+    }
+    metrics.timing('projections.catch_up.duration', durationMs, { projection: name });
+
+    return { projection: name, eventsApplied, lastPosition: position, durationMs };
+  }
+
+  private async applyBatch(
+    projection: Projection<ProjectionRow>,
+    events: ProjectionEvent[]
+  ): Promise<void> {
+    await this.resolveTicketEvents(events);
+
+    const rows = new Map<string, ProjectionRow | undefined>();
+    const dirty = new Map<string, ProjectionRow>();
+
+    for (const event of events) {
+      const context: ProjectionContext = {
+        eventId: this.ticketEvents.get(event.aggregateId) ?? null,
+      };
+      const key = projection.keyFor(event, context);
+      if (!key) continue;
+
+      const mapKey = serializeKey(key);
+      if (!rows.has(mapKey)) {
+        rows.set(mapKey, projection.appendOnly ? undefined : await this.loadRow(projection, key));
+      }
+
+      const updated = foldEvent(projection, rows.get(mapKey), event, key, context);
+      if (updated) {
+        rows.set(mapKey, updated);
+        dirty.set(mapKey, updated);
+      }
+    }
+
+    if (dirty.size === 0) return;
+
+    const { error } = await this.client
+      .from(projection.table)
+      .upsert(Array.from(dirty.values()), { onConflict: projection.keyColumns.join(',') });
+
+    if (error) {
+      throw new Error(`Failed to write ${projection.table}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Fill the ticket -> event cache for the batch, preferring the id carried
+   * on TicketIssued over a tickets lookup
+   */
+  private async resolveTicketEvents(events: ProjectionEvent[]): Promise<void> {
+    for (const event of events) {
+      const eventId = issuedEventId(event);
+      if (eventId) this.ticketEvents.set(event.aggregateId, eventId);
+    }
+
+    const missing = Array.from(new Set(events.map((event) => event.aggregateId)))
+      .filter((ticketId) => !this.ticketEvents.has(ticketId));
+
+    if (missing.length === 0) return;
+
+    const { data, error } = await this.client
+      .from('tickets')
+      .select('id, event_id')
+      .in('id', missing);
+
+    if (error) {
+      throw new Error(`Failed to resolve ticket events: ${error.message}`);
+    }
+
+    for (const ticket of (data || []) as Array<{ id: string; event_id: string | null }>) {
+      this.ticketEvents.set(ticket.id, ticket.event_id);
+    }
+    // Tickets that no longer exist stay unresolved rather than cached as null,
+    // in case a later TicketIssued payload names their event
+  }
+
+  private async loadRow(
+    projection: Projection<ProjectionRow>,
+    key: ProjectionKey
+  ): Promise<ProjectionRow | undefined> {
+    const { data, error } = await this.client
+      .from(projection.table)
+      .select('*')
+      .match(key)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to read ${projection.table}: ${error.message}`);
+    }
+
+    return (data as ProjectionRow | null) ?? undefined;
+  }
+
+  private async loadCheckpoint(name: string): Promise<ProjectionCheckpoint> {
+    const { data, error } = await this.client
+      .from('projection_checkpoints')
+      .select('*')
+      .eq('projection_name', name)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load checkpoint for ${name}: ${error.message}`);
+    }
+    if (!data) {
+      throw new Error(`No checkpoint row for projection ${name}`);
+    }
+
+    return data as ProjectionCheckpoint;
+  }
+
+  private async saveCheckpoint(
+    name: string,
+    changes: Partial<Pick<ProjectionCheckpoint, 'last_position' | 'events_applied' | 'status' | 'last_error'>>
+  ): Promise<void> {
+    const { error } = await this.client
+      .from('projection_checkpoints')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('projection_name', name);
+
+    if (error) {
+      throw new Error(`Failed to save checkpoint for ${name}: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,392 @@
+/**
+ * Read Models
+ *
+ * The projections maintained from the ticket event store:
+ * - event_attendance: issued / checked in / inside / refunded counters per event
+ * - ticket_timeline: one human-readable row per ticket event
+ * - revenue_by_hour: ticket, fee and upgrade revenue less refunds, per event per hour
+ *
+ * Reducers are pure; persistence and checkpointing live in projection-runner.ts.
+ */
+
+import { TicketEventTypes, type TicketEventType } from '../events/ticket-events';
+import type { Projection, ProjectionEvent, ProjectionRow } from './projection-runner';
+
+// ============================================
+// Shared helpers
+// ============================================
+
+/**
+ * Coarse ticket status used to compare projections with the tickets table
+ */
+export type TicketStatusCategory = 'valid' | 'checked_in' | 'refunded' | 'cancelled' | 'expired';
+
+const STATUS_CATEGORIES: Record<string, TicketStatusCategory> = {
+  issued: 'valid',
+  valid: 'valid',
+  confirmed: 'valid',
+  active: 'valid',
+  transferred: 'valid',
+  checked_in: 'checked_in',
+  scanned: 'checked_in',
+  used: 'checked_in',
+  inside: 'checked_in',
+  outside: 'checked_in',
+  refunded: 'refunded',
+  cancelled: 'cancelled',
+  canceled: 'cancelled',
+  void: 'cancelled',
+  expired: 'expired',
+};
+
+/**
+ * Map a tickets.status (or TicketState status) value to its category.
+ * Unknown values (e.g. pending) return null and are not compared.
+ */
+export function categorizeTicketStatus(status: string | null | undefined): TicketStatusCategory | null {
+  if (!status) return null;
+  return STATUS_CATEGORIES[status.toLowerCase()] ?? null;
+}
+
+/**
+ * Status a ticket is in after the event, or null when the event does not
+ * change it (emails, notes, upgrades at the door, ...)
+ */
+export function statusAfterEvent(event: ProjectionEvent): TicketStatusCategory | null {
+  switch (event.eventType) {
+    case TicketEventTypes.TICKET_ISSUED:
+    case TicketEventTypes.TICKET_CONFIRMED:
+    case TicketEventTypes.TICKET_TRANSFERRED:
+    case TicketEventTypes.TICKET_RESOLD:
+      return 'valid';
+    case TicketEventTypes.TICKET_SCANNED:
+    case TicketEventTypes.TICKET_REENTRY:
+    case TicketEventTypes.TICKET_EXIT:
+      return 'checked_in';
+    case TicketEventTypes.TICKET_REFUNDED:
+      return 'refunded';
+    case TicketEventTypes.TICKET_CANCELLED:
+      return 'cancelled';
+    case TicketEventTypes.TICKET_EXPIRED:
+      return 'expired';
+    case TicketEventTypes.TICKET_STATUS_OVERRIDE:
+      return categorizeTicketStatus((event.eventData as { newStatus?: string }).newStatus);
+    default:
+      return null;
+  }
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+const amount = (value: unknown) => Number(value) || 0;
+
+const formatAmount = (value: unknown) => `$${amount(value).toFixed(2)}`;
+
+/**
+ * Start of the UTC hour the event occurred in
+ */
+export function hourBucket(date: Date): string {
+  const bucket = new Date(date.getTime());
+  bucket.setUTCMinutes(0, 0, 0);
+  return bucket.toISOString();
+}
+
+// ============================================
+// Event attendance
+// ============================================
+
+export interface EventAttendanceRow extends ProjectionRow {
+  event_id: string;
+  tickets_issued: number;
+  checked_in: number;
+  entries: number;
+  exits: number;
+  currently_inside: number;
+  refunded: number;
+  cancelled: number;
+  transferred: number;
+  first_entry_at: string | null;
+  last_entry_at: string | null;
+  updated_at: string;
+}
+
+function emptyAttendance(eventId: string): EventAttendanceRow {
+  return {
+    event_id: eventId,
+    tickets_issued: 0,
+    checked_in: 0,
+    entries: 0,
+    exits: 0,
+    currently_inside: 0,
+    refunded: 0,
+    cancelled: 0,
+    transferred: 0,
+    first_entry_at: null,
+    last_entry_at: null,
+    last_position: 0,
+    updated_at: new Date(0).toISOString(),
+  };
+}
+
+export const eventAttendanceProjection: Projection<EventAttendanceRow> = {
+  name: 'event_attendance',
+  table: 'projection_event_attendance',
+  keyColumns: ['event_id'],
+  eventTypes: [
+    TicketEventTypes.TICKET_ISSUED,
+    TicketEventTypes.TICKET_SCANNED,
+    TicketEventTypes.TICKET_REENTRY,
+    TicketEventTypes.TICKET_EXIT,
+    TicketEventTypes.TICKET_REFUNDED,
+    TicketEventTypes.TICKET_CANCELLED,
+    TicketEventTypes.TICKET_TRANSFERRED,
+    TicketEventTypes.TICKET_RESOLD,
+  ],
+
+  keyFor: (_event, context) => (context.eventId ? { event_id: context.eventId } : null),
+
+  apply: (row, event, key) => {
+    const next = { ...(row ?? emptyAttendance(String(key.event_id))) };
+    const occurredAt = event.occurredAt.toISOString();
+
+    switch (event.eventType) {
+      case TicketEventTypes.TICKET_ISSUED:
+        next.tickets_issued++;
+        break;
+      case TicketEventTypes.TICKET_SCANNED:
+        next.checked_in++;
+        next.entries++;
+        next.first_entry_at = next.first_entry_at ?? occurredAt;
+        next.last_entry_at = occurredAt;
+        break;
+      case TicketEventTypes.TICKET_REENTRY:
+        next.entries++;
+        next.last_entry_at = occurredAt;
+        break;
+      case TicketEventTypes.TICKET_EXIT:
+        next.exits++;
+        break;
+      case TicketEventTypes.TICKET_REFUNDED:
+        next.refunded++;
+        break;
+      case TicketEventTypes.TICKET_CANCELLED:
+        next.cancelled++;
+        break;
+      case TicketEventTypes.TICKET_TRANSFERRED:
+      case TicketEventTypes.TICKET_RESOLD:
+        next.transferred++;
+        break;
+    }
+
+    next.currently_inside = Math.max(0, next.entries - next.exits);
+    next.last_position = event.globalPosition;
+    next.updated_at = event.recordedAt.toISOString();
+    return next;
+  },
+};
+
+// ============================================
+// Ticket timeline
+// ============================================
+
+export interface TicketTimelineRow extends ProjectionRow {
+  ticket_id: string;
+  global_position: number;
+  event_id: string | null;
+  event_type: string;
+  status: TicketStatusCategory | null;
+  summary: string;
+  actor_id: string | null;
+  occurred_at: string;
+}
+
+/**
+ * One-line description of a ticket event for timeline views
+ */
+export function describeTicketEvent(event: ProjectionEvent): string {
+  const data = event.eventData as Record<string, unknown>;
+
+  switch (event.eventType as TicketEventType) {
+    case TicketEventTypes.TICKET_ISSUED:
+      return `Issued ${data.ticketTypeName ?? 'ticket'}${data.attendeeName ? ` to ${data.attendeeName}` : ''}`;
+    case TicketEventTypes.TICKET_RESERVED:
+      return 'Reserved during checkout';
+    case TicketEventTypes.TICKET_CONFIRMED:
+      return 'Payment confirmed';
+    case TicketEventTypes.TICKET_SCANNED:
+      return `Checked in${data.gate ? ` at ${data.gate}` : ''}`;
+    case TicketEventTypes.TICKET_REENTRY:
+      return `Re-entered${data.gate ? ` at ${data.gate}` : ''}`;
+    case TicketEventTypes.TICKET_EXIT:
+      return 'Left the venue';
+    case TicketEventTypes.TICKET_SCAN_REJECTED:
+      return `Scan rejected (${String(data.reason ?? 'unknown').replace(/_/g, ' ')})`;
+    case TicketEventTypes.TICKET_REFUNDED:
+      return `Refunded ${formatAmount(data.refundAmount)}`;
+    case TicketEventTypes.TICKET_CANCELLED:
+      return `Cancelled${data.reason ? `: ${data.reason}` : ''}`;
+    case TicketEventTypes.TICKET_EXPIRED:
+      return 'Expired';
+    case TicketEventTypes.TICKET_TRANSFERRED:
+      return `Transferred to ${data.toName || data.toEmail || 'another guest'}`;
+    case TicketEventTypes.TICKET_RESOLD:
+      return `Resold to ${data.toName || data.toEmail || 'another guest'} for ${formatAmount(data.price)}`;
+    case TicketEventTypes.TICKET_UPGRADED:
+      return `Upgraded from ${data.fromTicketTypeName} to ${data.toTicketTypeName} (+${formatAmount(data.priceDifference)})`;
+    case TicketEventTypes.TICKET_EMAIL_SENT:
+    case TicketEventTypes.TICKET_EMAIL_RESENT:
+      return `Ticket emailed to ${data.recipientEmail}`;
+    case TicketEventTypes.TICKET_EMAIL_FAILED:
+      return `Email to ${data.recipientEmail} failed`;
+    case TicketEventTypes.TICKET_ID_VERIFIED:
+      return 'ID verified';
+    case TicketEventTypes.TICKET_ID_VERIFICATION_FAILED:
+      return `ID verification failed${data.reason ? `: ${data.reason}` : ''}`;
+    case TicketEventTypes.TICKET_FRAUD_FLAGGED:
+      return `Flagged for fraud review (risk ${data.riskScore ?? '?'})`;
+    case TicketEventTypes.TICKET_FRAUD_CLEARED:
+      return 'Fraud flag cleared';
+    case TicketEventTypes.TICKET_DISPUTED:
+      return `Voided: payment disputed${data.reason ? ` (${String(data.reason).replace(/_/g, ' ')})` : ''}`;
+    case TicketEventTypes.TICKET_DISPUTE_CLOSED:
+      return data.restored ? `Dispute ${data.outcome}, ticket restored` : `Dispute ${data.outcome}`;
+    case TicketEventTypes.TICKET_METADATA_UPDATED:
+      return `Updated ${data.field}`;
+    case TicketEventTypes.TICKET_STATUS_OVERRIDE:
+      return `Status changed from ${data.previousStatus} to ${data.newStatus}`;
+    case TicketEventTypes.TICKET_NOTE_ADDED:
+      return `Note: ${data.note}`;
+    default:
+      return event.eventType;
+  }
+}
+
+function eventActor(event: ProjectionEvent): string | null {
+  const data = event.eventData as Record<string, unknown>;
+  const actor = event.metadata?.actorId
+    ?? data.scannedBy
+    ?? data.refundedBy
+    ?? data.cancelledBy
+    ?? data.transferredBy
+    ?? data.upgradedBy
+    ?? data.verifiedBy
+    ?? data.clearedBy
+    ?? data.overriddenBy
+    ?? data.addedBy
+    ?? data.updatedBy;
+  return typeof actor === 'string' && actor ? actor : null;
+}
+
+export const ticketTimelineProjection: Projection<TicketTimelineRow> = {
+  name: 'ticket_timeline',
+  table: 'projection_ticket_timeline',
+  keyColumns: ['ticket_id', 'global_position'],
+  eventTypes: Object.values(TicketEventTypes),
+  appendOnly: true,
+
+  keyFor: (event) => ({ ticket_id: event.aggregateId, global_position: event.globalPosition }),
+
+  apply: (_row, event, _key, context) => ({
+    ticket_id: event.aggregateId,
+    global_position: event.globalPosition,
+    event_id: context.eventId,
+    event_type: event.eventType,
+    status: statusAfterEvent(event),
+    summary: describeTicketEvent(event),
+    actor_id: eventActor(event),
+    occurred_at: event.occurredAt.toISOString(),
+    last_position: event.globalPosition,
+  }),
+};
+
+// ============================================
+// Revenue by hour
+// ============================================
+
+export interface RevenueHourlyRow extends ProjectionRow {
+  event_id: string;
+  hour_start: string;
+  tickets_sold: number;
+  tickets_refunded: number;
+  ticket_revenue: number;
+  fee_revenue: number;
+  upgrade_revenue: number;
+  refunded_amount: number;
+  net_revenue: number;
+  updated_at: string;
+}
+
+export const revenueByHourProjection: Projection<RevenueHourlyRow> = {
+  name: 'revenue_by_hour',
+  table: 'projection_revenue_hourly',
+  keyColumns: ['event_id', 'hour_start'],
+  eventTypes: [
+    TicketEventTypes.TICKET_ISSUED,
+    TicketEventTypes.TICKET_UPGRADED,
+    TicketEventTypes.TICKET_REFUNDED,
+  ],
+
+  keyFor: (event, context) => (context.eventId
+    ? { event_id: context.eventId, hour_start: hourBucket(event.occurredAt) }
+    : null),
+
+  apply: (row, event, key) => {
+    const data = event.eventData as Record<string, unknown>;
+    const next: RevenueHourlyRow = row
+      ? {
+          ...row,
+          ticket_revenue: amount(row.ticket_revenue),
+          fee_revenue: amount(row.fee_revenue),
+          upgrade_revenue: amount(row.upgrade_revenue),
+          refunded_amount: amount(row.refunded_amount),
+        }
+      : {
+          event_id: String(key.event_id),
+          hour_start: String(key.hour_start),
+          tickets_sold: 0,
+          tickets_refunded: 0,
+          ticket_revenue: 0,
+          fee_revenue: 0,
+          upgrade_revenue: 0,
+          refunded_amount: 0,
+          net_revenue: 0,
+          last_position: 0,
+          updated_at: new Date(0).toISOString(),
+        };
+
+    switch (event.eventType) {
+      case TicketEventTypes.TICKET_ISSUED:
+        next.tickets_sold++;
+        next.ticket_revenue = roundCurrency(next.ticket_revenue + amount(data.price));
+        next.fee_revenue = roundCurrency(next.fee_revenue + amount(data.feeTotal));
+        break;
+      case TicketEventTypes.TICKET_UPGRADED:
+        next.upgrade_revenue = roundCurrency(next.upgrade_revenue + amount(data.priceDifference));
+        break;
+      case TicketEventTypes.TICKET_REFUNDED:
+        next.tickets_refunded++;
+        next.refunded_amount = roundCurrency(next.refunded_amount + amount(data.refundAmount));
+        break;
+    }
+
+    next.net_revenue = roundCurrency(
+      next.ticket_revenue + next.fee_revenue + next.upgrade_revenue - next.refunded_amount
+    );
+    next.last_position = event.globalPosition;
+    next.updated_at = event.recordedAt.toISOString();
+    return next;
+  },
+};
+
+// ============================================
+// Registry
+// ============================================
+
+/**
+ * Projections the rebuild tool and worker run by default
+ */
+export const defaultProjections = [
+  eventAttendanceProjection,
+  ticketTimelineProjection,
+  revenueByHourProjection,
+];
@@ -1,68 +1,165 @@
 import { supabase } from "@/lib/supabase";
+import {
+  normalizePromotionCode,
+  toPromotionRule,
+  type PromotionDiscountType,
+  type PromotionRule,
+  type PromotionRuleRow,
+} from "@/lib/promotion-rules";
 
-export interface Promotion {
-  id: string;
-  code: string;
-  discount_type: "amount" | "percent";
+// Type assertion needed since the promotion tables and RPCs are not in the
+// generated types yet
+const promotionsDb = supabase as any;
+
+/**
+ * Candidate promotions for a cart: auto-applied promotions for the event plus
+ * whatever `code` matches. Run them through evaluatePromotions() to price the
+ * cart — create-checkout-session repeats the same evaluation server-side.
+ */
+export async function fetchApplicablePromotions(
+  eventId: string,
+  code?: string | null,
+  customerEmail?: string | null
+): Promise<PromotionRule[]> {
+  const { data, error } = await promotionsDb.rpc("get_applicable_promotions", {
+    p_event_id: eventId,
+    p_code: normalizePromotionCode(code) || null,
+    p_customer_email: customerEmail ?? null,
+  });
+
+  if (error) {
+    console.error("fetchApplicablePromotions error:", error);
+    throw new Error(error.message);
+  }
+
+  return ((data || []) as PromotionRuleRow[]).map(toPromotionRule);
+}
+
+// ─── Admin ───────────────────────────────────────────────────────────────────
+
+export interface PromotionInput {
+  name: string;
+  description?: string | null;
+  /** Shared code; leave empty for auto-applied or bulk-code-only promotions */
+  code?: string | null;
+  discount_type: PromotionDiscountType;
   amount: number;
+  auto_apply: boolean;
+  event_ids: string[] | null;
+  ticket_type_ids: string[] | null;
+  min_quantity: number | null;
+  min_subtotal: number | null;
+  buy_quantity: number | null;
+  get_quantity: number | null;
   usage_limit: number | null;
-  active: boolean;
+  per_customer_limit: number | null;
   valid_from: string | null;
   valid_to: string | null;
+  happy_hour_start: string | null;
+  happy_hour_end: string | null;
+  days_of_week: number[] | null;
+  stackable: boolean;
+  priority: number;
 }
 
-export async function fetchPromotion(code: string): Promise<Promotion | null> {
-  const normalized = code.trim().toUpperCase();
-  if (!normalized) return null;
+export interface AdminPromotion extends PromotionInput {
+  id: string;
+  code: string | null;
+  active: boolean;
+  created_at: string;
+  performance: PromotionPerformance;
+}
 
-  const { data, error } = await supabase
-    .from("promotions")
-    .select("*")
-    .eq("code", normalized)
-    .eq("active", true)
-    .maybeSingle();
+export interface PromotionPerformance {
+  redemptions: number;
+  pending_redemptions: number;
+  unique_customers: number;
+  discount_total: number;
+  revenue: number;
+  generated_codes: number;
+  last_redeemed_at: string | null;
+}
 
-  if (error) {
-    console.error("fetchPromotion error:", error);
-    return null;
-  }
+const EMPTY_PERFORMANCE: PromotionPerformance = {
+  redemptions: 0,
+  pending_redemptions: 0,
+  unique_customers: 0,
+  discount_total: 0,
+  revenue: 0,
+  generated_codes: 0,
+  last_redeemed_at: null,
+};
 
-  if (!data) return null;
+/**
+ * All promotions with their redemption report, newest first
+ */
+export async function listPromotions(): Promise<AdminPromotion[]> {
+  const [{ data: promotions, error }, { data: performance, error: performanceError }] = await Promise.all([
+    promotionsDb.from("promotions").select("*").order("created_at", { ascending: false }),
+    promotionsDb.from("promotion_performance").select("*"),
+  ]);
 
-  const now = new Date();
-  if (data.valid_from && new Date(data.valid_from) > now) {
-    console.warn("Promotion not yet valid");
-    return null;
-  }
-  if (data.valid_to && new Date(data.valid_to) < now) {
-    console.warn("Promotion expired");
-    return null;
-  }
+  if (error) throw new Error(error.message);
+  if (performanceError) console.error("promotion_performance error:", performanceError);
+
+  const performanceById = new Map(
+    (performance || []).map((row) => [
+      row.promotion_id,
+      {
+        redemptions: Number(row.redemptions),
+        pending_redemptions: Number(row.pending_redemptions),
+        unique_customers: Number(row.unique_customers),
+        discount_total: Number(row.discount_total),
+        revenue: Number(row.revenue),
+        generated_codes: Number(row.generated_codes),
+        last_redeemed_at: row.last_redeemed_at,
+      } satisfies PromotionPerformance,
+    ])
+  );
 
-  // Check usage_limit by counting redemptions
-  if (data.usage_limit !== null) {
-    const { count, error: countError } = await supabase
-      .from("orders")
-      .select("id", { count: "exact", head: true })
-      .eq("promo_code_id", data.id)
-      .in("status", ["paid", "pending"]); // Count both paid and pending orders
-
-    if (!countError && count !== null && count >= data.usage_limit) {
-      console.warn("Promotion usage limit reached");
-      return null;
-    }
+  return (promotions || []).map((promotion) => ({
+    ...promotion,
+    amount: Number(promotion.amount),
+    min_subtotal: promotion.min_subtotal === null ? null : Number(promotion.min_subtotal),
+    performance: performanceById.get(promotion.id) ?? EMPTY_PERFORMANCE,
+  }));
+}
+
+export async function createPromotion(input: PromotionInput): Promise<void> {
+  const code = normalizePromotionCode(input.code);
+  const { error } = await promotionsDb.from("promotions").insert({
+    ...input,
+    code: code || null,
+    active: true,
+  });
+
+  if (error) {
+    throw new Error(error.code === "23505" ? `Code ${code} is already in use` : error.message);
   }
+}
 
-  return {
-    id: data.id,
-    code: data.code,
-    discount_type: data.discount_type === "percent" ? "percent" : "amount",
-    amount: Number(data.amount),
-    usage_limit: data.usage_limit,
-    active: data.active,
-    valid_from: data.valid_from,
-    valid_to: data.valid_to,
-  };
+export async function setPromotionActive(promotionId: string, active: boolean): Promise<void> {
+  const { error } = await promotionsDb.from("promotions").update({ active }).eq("id", promotionId);
+  if (error) throw new Error(error.message);
 }
 
+/**
+ * Bulk-create single-use codes (e.g. for a partner giveaway)
+ * @returns the new codes, for CSV export
+ */
+export async function generatePromotionCodes(
+  promotionId: string,
+  count: number,
+  options: { prefix?: string; maxUses?: number; batchLabel?: string } = {}
+): Promise<string[]> {
+  const { data, error } = await promotionsDb.rpc("generate_promotion_codes", {
+    p_promotion_id: promotionId,
+    p_count: count,
+    p_prefix: options.prefix || null,
+    p_max_uses: options.maxUses ?? 1,
+    p_batch_label: options.batchLabel || null,
+  });
 
+  if (error) throw new Error(error.message);
+  return (data || []) as string[];
+}
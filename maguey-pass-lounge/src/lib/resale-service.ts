@@ -0,0 +1,240 @@
+import { supabase } from '@/lib/supabase';
+import {
+  DEFAULT_RESALE_SETTINGS,
+  type EventResaleSettings,
+  type PublicResaleListing,
+  type ResaleListing,
+  type ResaleReportRow,
+} from '@/lib/resale';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL as string;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY as string;
+
+function getEdgeFunctionUrl(functionName: string): string {
+  const base = import.meta.env.DEV ? '' : SUPABASE_URL;
+  return `${base}/functions/v1/${functionName}`;
+}
+
+type EventSettingsRow = { id: string; name: string; event_date: string } & Partial<Record<keyof EventResaleSettings, unknown>>;
+
+const RESALE_SETTINGS_COLUMNS =
+  'resale_enabled, resale_price_cap_percent, resale_cutoff_hours, resale_fee_percent';
+
+function toEventResaleSettings(row: Partial<Record<keyof EventResaleSettings, unknown>> | null): EventResaleSettings {
+  if (!row) return DEFAULT_RESALE_SETTINGS;
+  return {
+    resale_enabled: Boolean(row.resale_enabled),
+    resale_price_cap_percent: Number(row.resale_price_cap_percent ?? DEFAULT_RESALE_SETTINGS.resale_price_cap_percent),
+    resale_cutoff_hours: Number(row.resale_cutoff_hours ?? DEFAULT_RESALE_SETTINGS.resale_cutoff_hours),
+    resale_fee_percent: Number(row.resale_fee_percent ?? DEFAULT_RESALE_SETTINGS.resale_fee_percent),
+  };
+}
+
+function toResaleListing(row: Omit<ResaleListing, 'event_name'> & { event_name?: string | null }): ResaleListing {
+  return {
+    ...row,
+    face_value: Number(row.face_value),
+    price: Number(row.price),
+    fee_percent: Number(row.fee_percent),
+    fee_amount: Number(row.fee_amount),
+    seller_proceeds: Number(row.seller_proceeds),
+    event_name: row.event_name ?? null,
+  };
+}
+
+/**
+ * Call the resale-ticket Edge Function. Sends the signed-in user's access
+ * token so the function knows who is selling or buying.
+ */
+async function callResaleTicket<T>(body: Record<string, unknown>): Promise<T> {
+  if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+    throw new Error('Service configuration missing');
+  }
+
+  const { data: { session } } = await supabase.auth.getSession();
+
+  let response: Response;
+  try {
+    response = await fetch(getEdgeFunctionUrl('resale-ticket'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': SUPABASE_ANON_KEY,
+        'Authorization': `Bearer ${session?.access_token || SUPABASE_ANON_KEY}`,
+      },
+      body: JSON.stringify(body),
+    });
+  } catch {
+    throw new Error('Network error — please check your connection');
+  }
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Resale request failed');
+  }
+
+  return data as T;
+}
+
+// ─── Sellers ─────────────────────────────────────────────────────────────────
+
+/**
+ * List a ticket for resale. The ticket stays valid (and scannable) until it
+ * sells; scanning or transferring it takes the listing down.
+ * @param ticketId - tickets.id (UUID), not the MGY- ticket code
+ */
+export async function createResaleListing(ticketId: string, price: number): Promise<ResaleListing> {
+  const { listing } = await callResaleTicket<{ listing: ResaleListing }>({
+    action: 'list',
+    ticketId,
+    price,
+  });
+  return toResaleListing(listing);
+}
+
+export async function cancelResaleListing(listingId: string): Promise<ResaleListing> {
+  const { listing } = await callResaleTicket<{ listing: ResaleListing }>({
+    action: 'cancel',
+    listingId,
+  });
+  return toResaleListing(listing);
+}
+
+/** The seller's listings, newest first */
+export async function getMyResaleListings(sellerEmail: string): Promise<ResaleListing[]> {
+  const { data, error } = await supabase
+    .from('ticket_resale_listings')
+    .select('*, events(name)')
+    .eq('seller_email', sellerEmail)
+    .order('created_at', { ascending: false })
+    .limit(100);
+
+  if (error) {
+    console.error('getMyResaleListings error:', error);
+    throw new Error(error.message);
+  }
+
+  return ((data || []) as Array<ResaleListing & { events: { name: string } | null }>).map(({ events, ...row }) => ({
+    ...toResaleListing(row),
+    event_name: events?.name ?? null,
+  }));
+}
+
+// ─── Buyers ──────────────────────────────────────────────────────────────────
+
+/** Tickets on sale for an event, cheapest first */
+export async function getEventResaleListings(eventId: string): Promise<PublicResaleListing[]> {
+  // Type assertion needed since get_event_resale_listings is not in the generated types
+  const { data, error } = await (supabase.rpc as any)('get_event_resale_listings', { p_event_id: eventId });
+
+  if (error) {
+    console.error('getEventResaleListings error:', error);
+    throw new Error(error.message);
+  }
+
+  return ((data || []) as PublicResaleListing[]).map((listing) => ({
+    ...listing,
+    face_value: Number(listing.face_value),
+    price: Number(listing.price),
+  }));
+}
+
+/**
+ * Hold the listing for the signed-in user and redirect to Stripe Checkout.
+ * Stripe returns to the Account page with ?resale_purchased=true, or to the
+ * current page with ?resale_canceled=true; the ticket is reissued to the
+ * buyer once stripe-webhook sees the payment.
+ */
+export async function startResaleCheckout(listingId: string, locale?: string): Promise<void> {
+  const { url } = await callResaleTicket<{ url: string }>({
+    action: 'checkout',
+    listingId,
+    successUrl: `${window.location.origin}/account`,
+    cancelUrl: window.location.href,
+    locale,
+  });
+
+  if (!url) {
+    throw new Error('Could not start checkout');
+  }
+
+  window.location.href = url;
+}
+
+// ─── Owners ──────────────────────────────────────────────────────────────────
+
+export async function getEventResaleSettings(eventId: string): Promise<EventResaleSettings> {
+  const { data, error } = await supabase
+    .from('events')
+    .select(RESALE_SETTINGS_COLUMNS)
+    .eq('id', eventId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('getEventResaleSettings error:', error);
+    throw new Error(error.message);
+  }
+
+  return toEventResaleSettings(data);
+}
+
+export async function fetchEventsResaleSettings(): Promise<
+  Array<EventResaleSettings & { id: string; name: string; event_date: string }>
+> {
+  const { data, error } = await supabase
+    .from('events')
+    .select(`id, name, event_date, ${RESALE_SETTINGS_COLUMNS}`)
+    .order('event_date', { ascending: false })
+    .limit(200);
+
+  if (error) {
+    console.error('fetchEventsResaleSettings error:', error);
+    throw new Error(error.message);
+  }
+
+  return ((data || []) as EventSettingsRow[]).map((row) => ({
+    id: row.id,
+    name: row.name,
+    event_date: row.event_date,
+    ...toEventResaleSettings(row),
+  }));
+}
+
+export async function updateEventResaleSettings(eventId: string, settings: EventResaleSettings): Promise<void> {
+  // Type assertion needed since the resale settings columns are not in the generated types
+  const { error } = await (supabase as any)
+    .from('events')
+    .update(settings)
+    .eq('id', eventId);
+
+  if (error) {
+    console.error('updateEventResaleSettings error:', error);
+    throw new Error(error.message);
+  }
+}
+
+/** Resale volume per event (organizers only) */
+export async function fetchResaleReport(eventId?: string): Promise<ResaleReportRow[]> {
+  // Type assertion needed since get_resale_report is not in the generated types
+  const { data, error } = await (supabase.rpc as any)('get_resale_report', { p_event_id: eventId ?? null });
+
+  if (error) {
+    console.error('fetchResaleReport error:', error);
+    throw new Error(error.message);
+  }
+
+  return ((data || []) as ResaleReportRow[]).map((row) => ({
+    ...row,
+    listings: Number(row.listings),
+    active_listings: Number(row.active_listings),
+    sold: Number(row.sold),
+    withdrawn: Number(row.withdrawn),
+    cancelled: Number(row.cancelled),
+    gross_sales: Number(row.gross_sales),
+    face_value_sold: Number(row.face_value_sold),
+    fees: Number(row.fees),
+    seller_payouts: Number(row.seller_payouts),
+    payouts_pending: Number(row.payouts_pending),
+  }));
+}
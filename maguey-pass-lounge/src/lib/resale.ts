@@ -0,0 +1,187 @@
+/**
+ * Ticket resale rules shared by the Account page, the event page and the
+ * admin resale page.
+ *
+ * The database enforces the same rules (create_resale_listing, see
+ * 20260412000000_ticket_resale.sql); these helpers let the UI show the cap,
+ * fee and payout before anything is submitted.
+ */
+
+export interface EventResaleSettings {
+  resale_enabled: boolean;
+  /** Highest price as a percentage of face value (100 = face value) */
+  resale_price_cap_percent: number;
+  /** Resale closes this many hours before the event starts */
+  resale_cutoff_hours: number;
+  /** Share of the price kept by the venue */
+  resale_fee_percent: number;
+}
+
+export type ResaleListingStatus = 'active' | 'pending_payment' | 'sold' | 'cancelled' | 'withdrawn';
+
+/** A seller's own listing (ticket_resale_listings row) */
+export interface ResaleListing {
+  id: string;
+  ticket_id: string;
+  event_id: string;
+  /** Joined from events */
+  event_name: string | null;
+  ticket_type_name: string | null;
+  face_value: number;
+  price: number;
+  fee_percent: number;
+  fee_amount: number;
+  seller_proceeds: number;
+  status: ResaleListingStatus;
+  withdrawn_reason: string | null;
+  reserved_until: string | null;
+  payout_method: 'stripe_refund' | 'loyalty_credit' | null;
+  payout_status: 'pending' | 'paid' | null;
+  created_at: string;
+  sold_at: string | null;
+}
+
+/** What buyers see on the event page (get_event_resale_listings) */
+export interface PublicResaleListing {
+  listing_id: string;
+  ticket_type_name: string | null;
+  face_value: number;
+  price: number;
+  listed_at: string;
+}
+
+/** One row of get_resale_report */
+export interface ResaleReportRow {
+  event_id: string;
+  event_name: string;
+  event_date: string;
+  listings: number;
+  active_listings: number;
+  sold: number;
+  withdrawn: number;
+  cancelled: number;
+  gross_sales: number;
+  face_value_sold: number;
+  fees: number;
+  seller_payouts: number;
+  payouts_pending: number;
+}
+
+export const DEFAULT_RESALE_SETTINGS: EventResaleSettings = {
+  resale_enabled: false,
+  resale_price_cap_percent: 100,
+  resale_cutoff_hours: 2,
+  resale_fee_percent: 10,
+};
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+// ─── Pricing ─────────────────────────────────────────────────────────────────
+
+/** Highest allowed price, rounded down to the cent */
+export function maxResalePrice(faceValue: number, capPercent: number): number {
+  return Math.floor(roundCents(faceValue * capPercent)) / 100;
+}
+
+export function resaleFee(price: number, feePercent: number): number {
+  return roundCents((price * feePercent) / 100);
+}
+
+/** What the seller is paid: the price minus the fee */
+export function sellerProceeds(price: number, feePercent: number): number {
+  return roundCents(price - resaleFee(price, feePercent));
+}
+
+/** Error message for a price the database would reject, or null when it is fine */
+export function validateResalePrice(price: number, faceValue: number, capPercent: number): string | null {
+  if (!Number.isFinite(price) || price <= 0) {
+    return 'Enter a price above $0';
+  }
+  const max = maxResalePrice(faceValue, capPercent);
+  if (price > max) {
+    return `Price can't be more than $${max.toFixed(2)}`;
+  }
+  return null;
+}
+
+// ─── Timing ──────────────────────────────────────────────────────────────────
+
+/** When resale closes: the event start minus the cutoff */
+export function resaleClosesAt(eventDate: string, eventTime: string | null, cutoffHours: number): Date {
+  const start = new Date(`${eventDate}T${eventTime || '00:00'}`);
+  return new Date(start.getTime() - cutoffHours * 3_600_000);
+}
+
+/** Whether the holder can list the ticket right now */
+export function canListForResale(
+  settings: EventResaleSettings | null,
+  eventDate: string,
+  eventTime: string | null,
+  now: Date = new Date()
+): boolean {
+  if (!settings?.resale_enabled) return false;
+  return resaleClosesAt(eventDate, eventTime, settings.resale_cutoff_hours) > now;
+}
+
+// ─── Labels ──────────────────────────────────────────────────────────────────
+
+const WITHDRAWN_REASONS: Record<string, string> = {
+  ticket_scanned: 'ticket was scanned',
+  ticket_cancelled: 'ticket was cancelled',
+  ticket_voided: 'ticket was voided',
+  ticket_transferred: 'ticket was transferred',
+  event_cancelled: 'event was cancelled',
+};
+
+export function formatListingStatus(listing: Pick<ResaleListing, 'status' | 'withdrawn_reason'>): string {
+  switch (listing.status) {
+    case 'active':
+      return 'Listed';
+    case 'pending_payment':
+      return 'Buyer checking out';
+    case 'sold':
+      return 'Sold';
+    case 'cancelled':
+      return 'Cancelled';
+    case 'withdrawn': {
+      const reason = listing.withdrawn_reason?.startsWith('sale_failed')
+        ? 'sale could not be completed'
+        : WITHDRAWN_REASONS[listing.withdrawn_reason ?? ''];
+      return reason ? `Withdrawn: ${reason}` : 'Withdrawn';
+    }
+  }
+}
+
+// ─── Report ──────────────────────────────────────────────────────────────────
+
+/** Sum of every event's report row, for the totals line */
+export function totalResaleReport(rows: ResaleReportRow[]): Omit<ResaleReportRow, 'event_id' | 'event_name' | 'event_date'> {
+  const totals = {
+    listings: 0,
+    active_listings: 0,
+    sold: 0,
+    withdrawn: 0,
+    cancelled: 0,
+    gross_sales: 0,
+    face_value_sold: 0,
+    fees: 0,
+    seller_payouts: 0,
+    payouts_pending: 0,
+  };
+  for (const row of rows) {
+    for (const key of Object.keys(totals) as Array<keyof typeof totals>) {
+      totals[key] += row[key];
+    }
+  }
+  totals.gross_sales = roundCents(totals.gross_sales);
+  totals.face_value_sold = roundCents(totals.face_value_sold);
+  totals.fees = roundCents(totals.fees);
+  totals.seller_payouts = roundCents(totals.seller_payouts);
+  return totals;
+}
+
+/** Average sale price as a percentage of face value, or null with no sales */
+export function averagePriceToFace(row: Pick<ResaleReportRow, 'gross_sales' | 'face_value_sold'>): number | null {
+  if (row.face_value_sold <= 0) return null;
+  return Math.round((row.gross_sales / row.face_value_sold) * 100);
+}
@@ -0,0 +1,245 @@
+/**
+ * Saga Recovery Tests
+ *
+ * Covers resuming and compensating interrupted executions in the engine,
+ * lease fencing, and the worker's choice between the two.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  SagaOrchestrator,
+  SagaFencedError,
+  type SagaExecution,
+  type SagaStep,
+  type SagaStore,
+} from '../saga-engine';
+import {
+  SagaRecoveryWorker,
+  SupabaseSagaStore,
+  planRecovery,
+  type SagaDefinition,
+  type SagaExecutionRow,
+} from '../saga-recovery';
+
+type Context = { log: string[] } & Record<string, unknown>;
+
+function makeStep(name: string, calls: string[], options: Partial<SagaStep<Context>> = {}): SagaStep<Context> {
+  return {
+    name,
+    execute: async (context) => {
+      calls.push(`run:${name}`);
+      return { ...context, log: [...context.log, name] };
+    },
+    compensate: async () => {
+      calls.push(`undo:${name}`);
+    },
+    ...options,
+  };
+}
+
+function makeSaga(calls: string[]) {
+  return new SagaOrchestrator<Context>(
+    [
+      makeStep('Load', calls, { idempotent: true }),
+      makeStep('Reserve', calls),
+      makeStep('Create', calls, { idempotent: true }),
+      makeStep('Notify', calls, { idempotent: true }),
+    ],
+    'TestSaga'
+  );
+}
+
+function interrupted(overrides: Partial<SagaExecution<Context>> = {}): SagaExecution<Context> {
+  return {
+    sagaId: 'saga_1',
+    sagaName: 'TestSaga',
+    status: 'running',
+    stepsCompleted: ['Load', 'Reserve'],
+    currentStep: 'Create',
+    stepsCompensated: [],
+    contextSnapshot: { log: ['Load', 'Reserve'] },
+    startedAt: new Date('2026-05-01T22:00:00.000Z'),
+    attempts: 1,
+    ...overrides,
+  };
+}
+
+function recordingStore(): SagaStore & { saved: SagaExecution<unknown>[] } {
+  const saved: SagaExecution<unknown>[] = [];
+  return {
+    saved,
+    save: async (execution) => {
+      saved.push(structuredClone(execution));
+    },
+  };
+}
+
+describe('SagaOrchestrator.resume', () => {
+  it('re-runs the interrupted step and skips completed ones', async () => {
+    const calls: string[] = [];
+    const store = recordingStore();
+
+    const result = await makeSaga(calls).resume(interrupted(), { log: ['Load', 'Reserve'] }, { store });
+
+    expect(result.success).toBe(true);
+    expect(calls).toEqual(['run:Create', 'run:Notify']);
+    expect(result.completedSteps).toEqual(['Load', 'Reserve', 'Create', 'Notify']);
+    expect(store.saved.at(-1)).toMatchObject({ status: 'completed', currentStep: undefined });
+  });
+
+  it('starts after the current step when it had already completed', async () => {
+    const calls: string[] = [];
+
+    await makeSaga(calls).resume(
+      interrupted({ stepsCompleted: ['Load', 'Reserve', 'Create'], currentStep: 'Create' }),
+      { log: [] }
+    );
+
+    expect(calls).toEqual(['run:Notify']);
+  });
+
+  it('records the step before running it', async () => {
+    const calls: string[] = [];
+    const store = recordingStore();
+
+    await makeSaga(calls).execute({ log: [] }, { store, sagaId: 'saga_2' });
+
+    const beforeReserve = store.saved.find(
+      (execution) => execution.currentStep === 'Reserve' && !execution.stepsCompleted.includes('Reserve')
+    );
+    expect(beforeReserve?.stepsCompleted).toEqual(['Load']);
+  });
+});
+
+describe('SagaOrchestrator.compensate', () => {
+  it('compensates completed steps in reverse, skipping ones already compensated', async () => {
+    const calls: string[] = [];
+
+    const result = await makeSaga(calls).compensate(
+      interrupted({
+        status: 'compensating',
+        stepsCompleted: ['Load', 'Reserve', 'Create'],
+        stepsCompensated: ['Create'],
+      }),
+      { log: [] }
+    );
+
+    expect(calls).toEqual(['undo:Reserve', 'undo:Load']);
+    expect(result.compensatedSteps).toEqual(['Create', 'Reserve', 'Load']);
+  });
+});
+
+describe('lease fencing', () => {
+  it('stops without compensating when the store reports the saga was taken over', async () => {
+    const calls: string[] = [];
+    let writes = 0;
+    const store: SagaStore = {
+      save: async (execution) => {
+        if (++writes > 4) throw new SagaFencedError(execution.sagaId);
+      },
+    };
+
+    const result = await makeSaga(calls).execute({ log: [] }, { store });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeInstanceOf(SagaFencedError);
+    expect(calls).toEqual(['run:Load', 'run:Reserve']);
+  });
+
+  it('maps SAGA_FENCED from record_saga_progress to SagaFencedError', async () => {
+    const client = {
+      rpc: vi.fn(async () => ({ data: null, error: { message: 'SAGA_FENCED: saga saga_1 is owned by worker-2' } })),
+    } as unknown as SupabaseClient;
+
+    await expect(new SupabaseSagaStore(client).save(interrupted())).rejects.toBeInstanceOf(SagaFencedError);
+  });
+});
+
+describe('planRecovery', () => {
+  const steps = makeSaga([]).stepDefinitions;
+
+  it('resumes when the interrupted step is idempotent', () => {
+    expect(planRecovery(interrupted(), steps)).toMatchObject({ action: 'resume', needsReview: false });
+  });
+
+  it('compensates and flags review when a non-idempotent step was interrupted', () => {
+    const plan = planRecovery(interrupted({ stepsCompleted: ['Load'], currentStep: 'Reserve' }), steps);
+
+    expect(plan).toMatchObject({ action: 'compensate', needsReview: true });
+  });
+
+  it('gives up resuming after too many attempts', () => {
+    expect(planRecovery(interrupted({ attempts: 4 }), steps, { maxAttempts: 3 }).action).toBe('compensate');
+  });
+
+  it('finishes an interrupted compensation', () => {
+    expect(planRecovery(interrupted({ status: 'compensating' }), steps).action).toBe('compensate');
+  });
+});
+
+describe('SagaRecoveryWorker', () => {
+  function row(overrides: Partial<SagaExecutionRow> = {}): SagaExecutionRow {
+    return {
+      saga_id: 'saga_1',
+      saga_name: 'TestSaga',
+      status: 'running',
+      steps_completed: ['Load', 'Reserve'],
+      current_step: 'Create',
+      steps_compensated: [],
+      context_snapshot: { log: ['Load', 'Reserve'] },
+      error_details: null,
+      compensation_errors: null,
+      started_at: '2026-05-01T22:00:00.000Z',
+      completed_at: null,
+      attempts: 1,
+      ...overrides,
+    };
+  }
+
+  function setup(claimed: SagaExecutionRow[]) {
+    const calls: string[] = [];
+    const rpc = vi.fn(async (name: string) => {
+      if (name === 'claim_stalled_sagas' || name === 'claim_saga') return { data: claimed, error: null };
+      return { data: null, error: null };
+    });
+    const definition: SagaDefinition<Context> = {
+      name: 'TestSaga',
+      create: () => makeSaga(calls),
+      serialize: (context) => context,
+      hydrate: (snapshot) => snapshot as Context,
+    };
+    const worker = new SagaRecoveryWorker([definition], {
+      client: { rpc } as unknown as SupabaseClient,
+      workerId: 'worker-1',
+    });
+    return { worker, calls, rpc };
+  }
+
+  it('resumes claimed sagas and writes as the lease owner', async () => {
+    const { worker, calls, rpc } = setup([row()]);
+
+    const [outcome] = await worker.recoverStalled();
+
+    expect(outcome).toMatchObject({ action: 'resume', success: true });
+    expect(calls).toEqual(['run:Create', 'run:Notify']);
+    expect(rpc).toHaveBeenCalledWith(
+      'record_saga_progress',
+      expect.objectContaining({ p_lease_owner: 'worker-1', p_recovery_action: 'resume' })
+    );
+  });
+
+  it('skips sagas with no registered definition', async () => {
+    const { worker } = setup([row({ saga_name: 'Unknown' })]);
+
+    const [outcome] = await worker.recoverStalled();
+
+    expect(outcome).toMatchObject({ action: 'skipped', needsReview: true });
+  });
+
+  it('refuses a manual retry once steps have been compensated', async () => {
+    const { worker } = setup([row({ status: 'compensation_failed', steps_compensated: ['Create'] })]);
+
+    await expect(worker.retry('saga_1')).rejects.toThrow('already been partly compensated');
+  });
+});
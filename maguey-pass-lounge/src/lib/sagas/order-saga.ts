@@ -12,6 +12,11 @@
  * 4. Generate Tickets → Cancel Tickets
  * 5. Send Confirmation Email (no compensation - idempotent)
  * 6. Update Waitlist (no compensation - idempotent)
+ *
+ * Every step except ReserveInventory is safe to re-run, so an execution
+ * interrupted there can be resumed by the recovery worker (see
+ * saga-recovery.ts). CreateOrder and GenerateTickets find the rows they
+ * wrote on a previous attempt through the saga ID in the order metadata.
  */
 
 import type { SupabaseClient } from "@supabase/supabase-js";
@@ -27,7 +32,10 @@ import {
   type SagaStep,
   type SagaResult,
   type SagaExecution,
+  type SagaStore,
+  generateSagaId,
 } from "./saga-engine";
+import type { SagaDefinition } from "./saga-recovery";
 
 // ============================================
 // TYPES
@@ -57,6 +65,8 @@ export interface OrderSagaContext {
   input: OrderSagaInput;
   client: SupabaseClient<any>;
   frontendUrl: string;
+  /** Execution ID, stamped on the order so retries can find it */
+  sagaId?: string;
   
   // Computed
   totals?: {
@@ -127,6 +137,7 @@ const logger = createLogger({ module: 'order-saga' });
  */
 const LoadEventStep: SagaStep<OrderSagaContext> = {
   name: 'LoadEvent',
+  idempotent: true,
   
   async execute(context: OrderSagaContext): Promise<OrderSagaContext> {
     const stepLogger = logger.child({ step: 'LoadEvent', eventId: context.input.eventId });
@@ -266,18 +277,37 @@ const ReserveInventoryStep: SagaStep<OrderSagaContext> = {
 /**
  * Step 3: Create Order Record
  * Compensation: Cancel the order (set status to 'cancelled')
+ * Idempotent: reuses the order already created for this saga ID
  */
 const CreateOrderStep: SagaStep<OrderSagaContext> = {
   name: 'CreateOrder',
+  idempotent: true,
   
   async execute(context: OrderSagaContext): Promise<OrderSagaContext> {
     const stepLogger = logger.child({ step: 'CreateOrder' });
-    const timer = startTimer();
     
     if (!context.totals) {
       throw new Error('Totals not calculated');
     }
     
+    if (context.sagaId) {
+      const lookupTimer = startTimer();
+      const { data: existing, error: lookupError } = await context.client
+        .from('orders')
+        .select('*')
+        .eq('metadata->>saga_id', context.sagaId)
+        .maybeSingle();
+      
+      trackDbQuery('select', lookupTimer(), !lookupError, 'orders');
+      
+      if (existing) {
+        stepLogger.info('Reusing order from previous attempt', { orderId: existing.id });
+        return { ...context, order: existing as Order };
+      }
+    }
+    
+    const timer = startTimer();
+    
     // Create order record
     const { data: order, error } = await context.client
       .from('orders')
@@ -290,7 +320,9 @@ const CreateOrderStep: SagaStep<OrderSagaContext> = {
         fees_total: context.totals.fees,
         total: context.totals.total,
         status: 'pending', // Will be updated to 'paid' after tickets are created
-        metadata: context.input.metadata ?? {},
+        metadata: context.sagaId
+          ? { ...context.input.metadata, saga_id: context.sagaId }
+          : context.input.metadata ?? {},
         promo_code_id: context.input.promoCodeId ?? null,
       })
       .select()
@@ -358,9 +390,13 @@ const CreateOrderStep: SagaStep<OrderSagaContext> = {
  * - Prepares all ticket data synchronously first
  * - Generates all QR codes in parallel using Promise.all
  * - Inserts all tickets in a single batch INSERT
+ *
+ * Idempotent: if tickets already exist for the order (a previous attempt
+ * inserted them before being interrupted) they are kept as-is.
  */
 const GenerateTicketsStep: SagaStep<OrderSagaContext> = {
   name: 'GenerateTickets',
+  idempotent: true,
   
   async execute(context: OrderSagaContext): Promise<OrderSagaContext> {
     const stepLogger = logger.child({ step: 'GenerateTickets', orderId: context.order?.id });
@@ -369,6 +405,24 @@ const GenerateTicketsStep: SagaStep<OrderSagaContext> = {
       throw new Error('Order or event not available');
     }
     
+    const existingTimer = startTimer();
+    const { data: existingTickets, error: existingError } = await context.client
+      .from('tickets')
+      .select('*')
+      .eq('order_id', context.order.id);
+    
+    trackDbQuery('select', existingTimer(), !existingError, 'tickets');
+    
+    if (existingTickets?.length) {
+      stepLogger.info('Reusing tickets from previous attempt', { ticketCount: existingTickets.length });
+      await markOrderPaid(context, stepLogger);
+      return {
+        ...context,
+        ticketsData: existingTickets,
+        ticketEmailPayloads: context.ticketEmailPayloads ?? [],
+      };
+    }
+    
     const issuedAt = new Date().toISOString();
     const dateStr = new Date().toISOString().slice(0, 10).replace(/-/g, "");
     const shortOrderId = context.order.id.slice(0, 8).toUpperCase();
@@ -498,19 +552,7 @@ const GenerateTicketsStep: SagaStep<OrderSagaContext> = {
       throw new Error(`Ticket creation failed: ${error.message}`);
     }
     
-    // Update order status to 'paid'
-    const updateTimer = startTimer();
-    const { error: updateError } = await context.client
-      .from('orders')
-      .update({ status: 'paid' })
-      .eq('id', context.order.id);
-    
-    trackDbQuery('update', updateTimer(), !updateError, 'orders');
-    
-    if (updateError) {
-      stepLogger.warn('Failed to update order status', updateError);
-      // Continue anyway - tickets were created
-    }
+    await markOrderPaid(context, stepLogger);
     
     stepLogger.info('Tickets generated (batched)', { 
       ticketCount: ticketEmailPayloads.length,
@@ -557,6 +599,27 @@ const GenerateTicketsStep: SagaStep<OrderSagaContext> = {
   },
 };
 
+/**
+ * Update order status to 'paid' once its tickets exist
+ */
+async function markOrderPaid(
+  context: OrderSagaContext,
+  stepLogger: ReturnType<typeof createLogger>
+): Promise<void> {
+  const updateTimer = startTimer();
+  const { error: updateError } = await context.client
+    .from('orders')
+    .update({ status: 'paid' })
+    .eq('id', context.order!.id);
+  
+  trackDbQuery('update', updateTimer(), !updateError, 'orders');
+  
+  if (updateError) {
+    stepLogger.warn('Failed to update order status', updateError);
+    // Continue anyway - tickets were created
+  }
+}
+
 /**
  * Step 5: Send Confirmation Email
  * No compensation needed - emails are idempotent
@@ -564,6 +627,7 @@ const GenerateTicketsStep: SagaStep<OrderSagaContext> = {
 const SendEmailStep: SagaStep<OrderSagaContext> = {
   name: 'SendEmail',
   critical: false, // Email failure should not fail the order
+  idempotent: true,
   
   async execute(context: OrderSagaContext): Promise<OrderSagaContext> {
     const stepLogger = logger.child({ step: 'SendEmail', orderId: context.order?.id });
@@ -593,6 +657,7 @@ const SendEmailStep: SagaStep<OrderSagaContext> = {
 const UpdateWaitlistStep: SagaStep<OrderSagaContext> = {
   name: 'UpdateWaitlist',
   critical: false, // Waitlist update failure should not fail the order
+  idempotent: true,
   
   async execute(context: OrderSagaContext): Promise<OrderSagaContext> {
     const stepLogger = logger.child({ step: 'UpdateWaitlist' });
@@ -660,6 +725,45 @@ export function createOrderSagaWithBuilder(): SagaOrchestrator<OrderSagaContext>
     .build();
 }
 
+// ============================================
+// RECOVERY
+// ============================================
+
+function defaultFrontendUrl(): string {
+  return import.meta.env?.VITE_FRONTEND_URL ||
+    (typeof window !== 'undefined' ? window.location.origin : 'http://localhost:5173');
+}
+
+/**
+ * Context as stored in saga_executions.context_snapshot (no client)
+ */
+export function serializeOrderSagaContext(
+  context: OrderSagaContext
+): Omit<OrderSagaContext, 'client'> {
+  const { client, ...snapshot } = context;
+  return snapshot;
+}
+
+/**
+ * Lets the recovery worker rebuild an order saga from its snapshot
+ */
+export const orderSagaDefinition: SagaDefinition<OrderSagaContext> = {
+  name: 'OrderCreation',
+  create: createOrderSaga,
+  serialize: serializeOrderSagaContext,
+  hydrate(snapshot, client) {
+    const stored = snapshot as Omit<OrderSagaContext, 'client'>;
+    if (!stored?.input) {
+      throw new Error('Saga snapshot has no order input');
+    }
+    return {
+      ...stored,
+      client,
+      frontendUrl: stored.frontendUrl || defaultFrontendUrl(),
+    };
+  },
+};
+
 // ============================================
 // SAGA EXECUTION HELPER
 // ============================================
@@ -672,6 +776,8 @@ export async function executeOrderSaga(
   options?: {
     client?: SupabaseClient<any>;
     onStateChange?: (execution: SagaExecution<unknown>) => void | Promise<void>;
+    /** Durable store so the recovery worker can pick up interrupted orders */
+    store?: SagaStore;
   }
 ): Promise<OrderSagaResult> {
   const sagaLogger = logger.child({ 
@@ -680,12 +786,13 @@ export async function executeOrderSaga(
   });
   
   const saga = createOrderSaga();
+  const sagaId = generateSagaId();
   
   const initialContext: OrderSagaContext = {
     input,
     client: options?.client ?? supabase,
-    frontendUrl: import.meta.env.VITE_FRONTEND_URL ||
-      (typeof window !== 'undefined' ? window.location.origin : 'http://localhost:5173'),
+    frontendUrl: defaultFrontendUrl(),
+    sagaId,
   };
   
   sagaLogger.info('Executing order saga', {
@@ -694,7 +801,10 @@ export async function executeOrderSaga(
   });
   
   const result = await saga.execute(initialContext, {
+    sagaId,
     onStateChange: options?.onStateChange,
+    store: options?.store,
+    serializeContext: (context) => serializeOrderSagaContext(context as OrderSagaContext),
   });
   
   if (result.success) {
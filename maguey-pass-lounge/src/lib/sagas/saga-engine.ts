@@ -65,6 +65,14 @@ export interface SagaStep<TContext> {
    * Default: 1000 (1 second)
    */
   retryDelayMs?: number;
+
+  /**
+   * Optional: Whether running the step twice has the same effect as once.
+   * Recovery only resumes an execution interrupted inside a step when the
+   * step is idempotent; otherwise it compensates.
+   * Default: false
+   */
+  idempotent?: boolean;
 }
 
 /**
@@ -120,6 +128,7 @@ export interface SagaExecution<TContext> {
   status: SagaStatus;
   stepsCompleted: string[];
   currentStep?: string;
+  stepsCompensated?: string[];
   contextSnapshot: TContext;
   errorDetails?: {
     step: string;
@@ -132,6 +141,31 @@ export interface SagaExecution<TContext> {
   }>;
   startedAt: Date;
   completedAt?: Date;
+  /** Number of times recovery has picked this execution up */
+  attempts?: number;
+}
+
+/**
+ * Durable storage for saga executions.
+ *
+ * `save` is awaited before every step and after every state change, so an
+ * interrupted execution can be resumed from the last recorded step. It should
+ * throw `SagaFencedError` when another worker owns the execution.
+ */
+export interface SagaStore {
+  save(execution: SagaExecution<unknown>): Promise<void>;
+}
+
+/**
+ * Thrown by a SagaStore when the execution has been claimed elsewhere
+ * (or already finished). The orchestrator stops immediately and does not
+ * compensate, since the new owner is responsible for the saga.
+ */
+export class SagaFencedError extends Error {
+  constructor(public readonly sagaId: string, message?: string) {
+    super(message ?? `Saga ${sagaId} is owned by another worker`);
+    this.name = 'SagaFencedError';
+  }
 }
 
 /**
@@ -149,13 +183,19 @@ export interface SagaOptions {
   
   /** Timeout for entire saga in ms */
   timeoutMs?: number;
+
+  /** Durable store written before and after each step */
+  store?: SagaStore;
+
+  /** Turn the context into a storable snapshot (e.g. drop clients) */
+  serializeContext?: (context: unknown) => unknown;
 }
 
 // ============================================
 // SAGA ORCHESTRATOR
 // ============================================
 
-export class SagaOrchestrator<TContext extends Record<string, unknown>> {
+export class SagaOrchestrator<TContext extends object> {
   private logger = createLogger({ module: 'saga-engine' });
   private steps: SagaStep<TContext>[];
   private sagaName: string;
@@ -168,6 +208,20 @@ export class SagaOrchestrator<TContext extends Record<string, unknown>> {
     this.sagaName = sagaName;
   }
 
+  /**
+   * Name of the saga type
+   */
+  get name(): string {
+    return this.sagaName;
+  }
+
+  /**
+   * Step definitions, in execution order
+   */
+  get stepDefinitions(): ReadonlyArray<SagaStep<TContext>> {
+    return this.steps;
+  }
+
   /**
    * Execute the saga with the given initial context
    */
@@ -175,8 +229,7 @@ export class SagaOrchestrator<TContext extends Record<string, unknown>> {
     initialContext: TContext,
     options: SagaOptions = {}
   ): Promise<SagaResult<TContext>> {
-    const sagaTimer = startTimer();
-    const sagaId = options.sagaId || this.generateSagaId();
+    const sagaId = options.sagaId || generateSagaId();
     const sagaLogger = this.logger.child({ sagaId, sagaName: this.sagaName });
     
     sagaLogger.info('Saga execution started', { 
@@ -186,38 +239,122 @@ export class SagaOrchestrator<TContext extends Record<string, unknown>> {
     
     metrics.increment('saga.executions.started', 1, { saga: this.sagaName });
     
-    let context = { ...initialContext };
-    const completedSteps: string[] = [];
-    const compensatedSteps: string[] = [];
-    const compensationErrors: Array<{ step: string; error: Error }> = [];
-    
     // Create execution record
     const execution: SagaExecution<TContext> = {
       sagaId,
       sagaName: this.sagaName,
       status: 'running',
       stepsCompleted: [],
-      contextSnapshot: context,
+      stepsCompensated: [],
+      contextSnapshot: { ...initialContext },
       startedAt: new Date(),
     };
     
-    await this.notifyStateChange(execution, options);
+    return this.runForward(execution, { ...initialContext }, 0, options, sagaLogger);
+  }
+
+  /**
+   * Continue an interrupted execution from where it stopped.
+   *
+   * Steps already in `stepsCompleted` are skipped. When the execution was
+   * interrupted inside a step (`currentStep` not completed), that step runs
+   * again, so only resume through steps marked `idempotent`.
+   */
+  async resume(
+    execution: SagaExecution<TContext>,
+    context: TContext,
+    options: SagaOptions = {}
+  ): Promise<SagaResult<TContext>> {
+    const sagaLogger = this.logger.child({ sagaId: execution.sagaId, sagaName: this.sagaName });
+    const startIndex = this.resumeIndex(execution);
+
+    sagaLogger.info('Saga execution resumed', {
+      fromStep: this.steps[startIndex]?.name ?? null,
+      stepsCompleted: execution.stepsCompleted,
+    });
+    metrics.increment('saga.executions.resumed', 1, { saga: this.sagaName });
+
+    const resumed: SagaExecution<TContext> = {
+      ...execution,
+      status: 'running',
+      stepsCompensated: execution.stepsCompensated ?? [],
+      contextSnapshot: context,
+      errorDetails: undefined,
+      completedAt: undefined,
+    };
+
+    return this.runForward(resumed, { ...context }, startIndex, options, sagaLogger);
+  }
+
+  /**
+   * Roll back an interrupted or failed execution: compensate its completed
+   * steps in reverse order, skipping any already in `stepsCompensated`.
+   */
+  async compensate(
+    execution: SagaExecution<TContext>,
+    context: TContext,
+    options: SagaOptions = {}
+  ): Promise<SagaResult<TContext>> {
+    const sagaTimer = startTimer();
+    const sagaLogger = this.logger.child({ sagaId: execution.sagaId, sagaName: this.sagaName });
+    const failedStep = execution.errorDetails?.step ?? execution.currentStep ?? 'interrupted';
+    const error = new Error(execution.errorDetails?.message ?? 'Saga interrupted before completion');
+
+    const compensating: SagaExecution<TContext> = {
+      ...execution,
+      status: 'compensating',
+      stepsCompensated: execution.stepsCompensated ?? [],
+      contextSnapshot: context,
+      errorDetails: execution.errorDetails ?? { step: failedStep, message: error.message },
+      compensationErrors: undefined,
+    };
+
+    try {
+      await this.persistDuringCompensation(compensating, options, sagaLogger);
+      return await this.runCompensation(
+        compensating, context, failedStep, error, options, sagaLogger, sagaTimer
+      );
+    } catch (fenced) {
+      if (!(fenced instanceof SagaFencedError)) throw fenced;
+      return this.fencedResult(compensating, context, fenced, sagaLogger, sagaTimer);
+    }
+  }
+
+  /**
+   * Run steps from `startIndex`, compensating on the first critical failure
+   */
+  private async runForward(
+    execution: SagaExecution<TContext>,
+    initialContext: TContext,
+    startIndex: number,
+    options: SagaOptions,
+    sagaLogger: ReturnType<typeof createLogger>
+  ): Promise<SagaResult<TContext>> {
+    const sagaTimer = startTimer();
+    const sagaId = execution.sagaId;
+    let context = initialContext;
+    const completedSteps = [...execution.stepsCompleted];
 
     try {
+      await this.persist(execution, options);
+
       // Execute each step in order
-      for (const step of this.steps) {
+      for (const step of this.steps.slice(startIndex)) {
         execution.currentStep = step.name;
-        await this.notifyStateChange(execution, options);
         
         sagaLogger.debug(`Executing step: ${step.name}`);
         const stepTimer = startTimer();
         
         try {
+          // Record the step before it runs so a crash inside it is visible
+          // to recovery, and again once it has completed
+          await this.persist(execution, options);
           context = await this.executeStepWithRetry(step, context, sagaLogger);
           
           completedSteps.push(step.name);
           execution.stepsCompleted = [...completedSteps];
           execution.contextSnapshot = context;
+          await this.persist(execution, options);
           
           const stepDuration = stepTimer();
           metrics.timing('saga.step.duration', stepDuration, { 
@@ -229,6 +366,8 @@ export class SagaOrchestrator<TContext extends Record<string, unknown>> {
           sagaLogger.debug(`Step completed: ${step.name}`, { durationMs: stepDuration });
           
         } catch (error) {
+          if (error instanceof SagaFencedError) throw error;
+
           const stepDuration = stepTimer();
           metrics.timing('saga.step.duration', stepDuration, { 
             saga: this.sagaName, 
@@ -251,82 +390,18 @@ export class SagaOrchestrator<TContext extends Record<string, unknown>> {
             message: error instanceof Error ? error.message : String(error),
             stack: error instanceof Error ? error.stack : undefined,
           };
-          await this.notifyStateChange(execution, options);
-          
-          // Compensate completed steps in reverse order
-          sagaLogger.info('Starting compensation', { 
-            stepsToCompensate: [...completedSteps].reverse() 
-          });
-          
-          for (const completedStep of [...completedSteps].reverse()) {
-            const stepDef = this.steps.find(s => s.name === completedStep);
-            if (!stepDef) continue;
-            
-            try {
-              sagaLogger.debug(`Compensating step: ${completedStep}`);
-              const compensateTimer = startTimer();
-              
-              await stepDef.compensate(context);
-              
-              compensatedSteps.push(completedStep);
-              
-              const compensateDuration = compensateTimer();
-              metrics.timing('saga.compensation.duration', compensateDuration, {
-                saga: this.sagaName,
-                step: completedStep,
-              });
-              
-              sagaLogger.debug(`Step compensated: ${completedStep}`, { 
-                durationMs: compensateDuration 
-              });
-              
-            } catch (compensationError) {
-              sagaLogger.error(`Compensation failed for step: ${completedStep}`, compensationError);
-              compensationErrors.push({
-                step: completedStep,
-                error: compensationError instanceof Error 
-                  ? compensationError 
-                  : new Error(String(compensationError)),
-              });
-            }
-          }
-          
-          // Update execution status
-          execution.status = compensationErrors.length > 0 
-            ? 'compensation_failed' 
-            : 'compensated';
-          execution.compensationErrors = compensationErrors.map(e => ({
-            step: e.step,
-            message: e.error.message,
-          }));
-          execution.completedAt = new Date();
-          await this.notifyStateChange(execution, options);
-          
-          const duration = sagaTimer();
-          metrics.increment('saga.executions.failed', 1, { saga: this.sagaName });
-          metrics.timing('saga.execution.duration', duration, { 
-            saga: this.sagaName,
-            success: 'false',
-          });
-          
-          sagaLogger.error('Saga failed', { 
-            failedStep: step.name,
-            compensatedSteps,
-            compensationErrors: compensationErrors.length,
-            durationMs: duration,
-          });
+          execution.contextSnapshot = context;
+          await this.persistDuringCompensation(execution, options, sagaLogger);
           
-          return {
-            success: false,
+          return await this.runCompensation(
+            execution,
             context,
-            completedSteps,
-            failedStep: step.name,
-            error: error instanceof Error ? error : new Error(String(error)),
-            compensatedSteps,
-            compensationErrors: compensationErrors.length > 0 ? compensationErrors : undefined,
-            durationMs: duration,
-            sagaId,
-          };
+            step.name,
+            error instanceof Error ? error : new Error(String(error)),
+            options,
+            sagaLogger,
+            sagaTimer
+          );
         }
       }
       
@@ -334,7 +409,7 @@ export class SagaOrchestrator<TContext extends Record<string, unknown>> {
       execution.status = 'completed';
       execution.completedAt = new Date();
       execution.currentStep = undefined;
-      await this.notifyStateChange(execution, options);
+      await this.persist(execution, options);
       
       const duration = sagaTimer();
       metrics.increment('saga.executions.completed', 1, { saga: this.sagaName });
@@ -357,17 +432,21 @@ export class SagaOrchestrator<TContext extends Record<string, unknown>> {
       };
       
     } catch (unexpectedError) {
+      if (unexpectedError instanceof SagaFencedError) {
+        return this.fencedResult(execution, context, unexpectedError, sagaLogger, sagaTimer);
+      }
+
       // Handle unexpected errors (should not normally occur)
       const duration = sagaTimer();
       sagaLogger.error('Unexpected saga error', unexpectedError);
       
       execution.status = 'failed';
       execution.errorDetails = {
-        step: 'unknown',
+        step: execution.currentStep ?? 'unknown',
         message: unexpectedError instanceof Error ? unexpectedError.message : String(unexpectedError),
       };
       execution.completedAt = new Date();
-      await this.notifyStateChange(execution, options);
+      await this.persist(execution, options).catch(() => undefined);
       
       return {
         success: false,
@@ -381,6 +460,152 @@ export class SagaOrchestrator<TContext extends Record<string, unknown>> {
     }
   }
 
+  /**
+   * Compensate completed steps in reverse order and record the outcome
+   */
+  private async runCompensation(
+    execution: SagaExecution<TContext>,
+    context: TContext,
+    failedStep: string,
+    error: Error,
+    options: SagaOptions,
+    sagaLogger: ReturnType<typeof createLogger>,
+    sagaTimer: () => number
+  ): Promise<SagaResult<TContext>> {
+    const completedSteps = [...execution.stepsCompleted];
+    const compensatedSteps = [...(execution.stepsCompensated ?? [])];
+    const compensationErrors: Array<{ step: string; error: Error }> = [];
+
+    const stepsToCompensate = [...completedSteps]
+      .reverse()
+      .filter(name => !compensatedSteps.includes(name));
+
+    // Compensate completed steps in reverse order
+    sagaLogger.info('Starting compensation', { stepsToCompensate });
+    
+    for (const completedStep of stepsToCompensate) {
+      const stepDef = this.steps.find(s => s.name === completedStep);
+      if (!stepDef) continue;
+      
+      execution.currentStep = completedStep;
+      await this.persistDuringCompensation(execution, options, sagaLogger);
+
+      try {
+        sagaLogger.debug(`Compensating step: ${completedStep}`);
+        const compensateTimer = startTimer();
+        
+        await stepDef.compensate(context);
+        
+        compensatedSteps.push(completedStep);
+        execution.stepsCompensated = [...compensatedSteps];
+        
+        const compensateDuration = compensateTimer();
+        metrics.timing('saga.compensation.duration', compensateDuration, {
+          saga: this.sagaName,
+          step: completedStep,
+        });
+        
+        sagaLogger.debug(`Step compensated: ${completedStep}`, { 
+          durationMs: compensateDuration 
+        });
+        
+      } catch (compensationError) {
+        sagaLogger.error(`Compensation failed for step: ${completedStep}`, compensationError);
+        compensationErrors.push({
+          step: completedStep,
+          error: compensationError instanceof Error 
+            ? compensationError 
+            : new Error(String(compensationError)),
+        });
+      }
+    }
+    
+    // Update execution status
+    execution.status = compensationErrors.length > 0 
+      ? 'compensation_failed' 
+      : 'compensated';
+    execution.compensationErrors = compensationErrors.map(e => ({
+      step: e.step,
+      message: e.error.message,
+    }));
+    execution.currentStep = undefined;
+    execution.completedAt = new Date();
+    await this.persistDuringCompensation(execution, options, sagaLogger);
+    
+    const duration = sagaTimer();
+    metrics.increment('saga.executions.failed', 1, { saga: this.sagaName });
+    metrics.timing('saga.execution.duration', duration, { 
+      saga: this.sagaName,
+      success: 'false',
+    });
+    
+    sagaLogger.error('Saga failed', { 
+      failedStep,
+      compensatedSteps,
+      compensationErrors: compensationErrors.length,
+      durationMs: duration,
+    });
+    
+    return {
+      success: false,
+      context,
+      completedSteps,
+      failedStep,
+      error,
+      compensatedSteps,
+      compensationErrors: compensationErrors.length > 0 ? compensationErrors : undefined,
+      durationMs: duration,
+      sagaId: execution.sagaId,
+    };
+  }
+
+  /**
+   * Result for an execution that lost its lease: stop without running or
+   * compensating anything further, the new owner carries on
+   */
+  private fencedResult(
+    execution: SagaExecution<TContext>,
+    context: TContext,
+    error: unknown,
+    sagaLogger: ReturnType<typeof createLogger>,
+    sagaTimer: () => number
+  ): SagaResult<TContext> {
+    const fenced = error instanceof Error ? error : new Error(String(error));
+    sagaLogger.warn('Saga stopped: execution is owned elsewhere', { error: fenced.message });
+    metrics.increment('saga.executions.fenced', 1, { saga: this.sagaName });
+
+    return {
+      success: false,
+      context,
+      completedSteps: [...execution.stepsCompleted],
+      failedStep: execution.currentStep,
+      error: fenced,
+      compensatedSteps: execution.stepsCompensated,
+      durationMs: sagaTimer(),
+      sagaId: execution.sagaId,
+    };
+  }
+
+  /**
+   * First step to run when resuming
+   */
+  private resumeIndex(execution: SagaExecution<TContext>): number {
+    const current = execution.currentStep
+      ? this.steps.findIndex(s => s.name === execution.currentStep)
+      : -1;
+
+    if (current >= 0) {
+      // Interrupted inside the step unless it was recorded as completed
+      return execution.stepsCompleted.includes(this.steps[current].name) ? current + 1 : current;
+    }
+
+    const lastCompleted = this.steps.reduce(
+      (last, step, index) => (execution.stepsCompleted.includes(step.name) ? index : last),
+      -1
+    );
+    return lastCompleted + 1;
+  }
+
   /**
    * Execute a step with optional retries
    */
@@ -424,21 +649,23 @@ export class SagaOrchestrator<TContext extends Record<string, unknown>> {
   }
 
   /**
-   * Generate a unique saga ID
-   */
-  private generateSagaId(): string {
-    const timestamp = Date.now().toString(36);
-    const random = Math.random().toString(36).substring(2, 8);
-    return `saga_${timestamp}_${random}`;
-  }
-
-  /**
-   * Notify state change callback
+   * Record a state change: write it to the durable store (if any), then
+   * notify the callback. Store failures propagate; callback failures don't.
    */
-  private async notifyStateChange(
+  private async persist(
     execution: SagaExecution<TContext>,
     options: SagaOptions
   ): Promise<void> {
+    if (options.store) {
+      const snapshot: SagaExecution<unknown> = {
+        ...execution,
+        contextSnapshot: options.serializeContext
+          ? options.serializeContext(execution.contextSnapshot)
+          : execution.contextSnapshot,
+      };
+      await options.store.save(snapshot);
+    }
+
     if (options.onStateChange) {
       try {
         await options.onStateChange(execution as SagaExecution<unknown>);
@@ -448,6 +675,23 @@ export class SagaOrchestrator<TContext extends Record<string, unknown>> {
     }
   }
 
+  /**
+   * Persist while rolling back: losing a write must not stop compensation,
+   * but losing the lease must
+   */
+  private async persistDuringCompensation(
+    execution: SagaExecution<TContext>,
+    options: SagaOptions,
+    sagaLogger: ReturnType<typeof createLogger>
+  ): Promise<void> {
+    try {
+      await this.persist(execution, options);
+    } catch (error) {
+      if (error instanceof SagaFencedError) throw error;
+      sagaLogger.warn('Failed to persist saga state during compensation', { error });
+    }
+  }
+
   /**
    * Helper to delay execution
    */
@@ -456,6 +700,15 @@ export class SagaOrchestrator<TContext extends Record<string, unknown>> {
   }
 }
 
+/**
+ * Generate a unique saga ID
+ */
+export function generateSagaId(): string {
+  const timestamp = Date.now().toString(36);
+  const random = Math.random().toString(36).substring(2, 8);
+  return `saga_${timestamp}_${random}`;
+}
+
 // ============================================
 // UTILITY FUNCTIONS
 // ============================================
@@ -496,7 +749,7 @@ export function createSagaStep<TContext>(
  * Wrap an async function to be used as a saga step execution
  * Preserves the context and adds the result to it
  */
-export function wrapExecution<TContext extends Record<string, unknown>, TResult>(
+export function wrapExecution<TContext extends object, TResult>(
   fn: (context: TContext) => Promise<TResult>,
   resultKey: keyof TContext
 ): (context: TContext) => Promise<TContext> {
@@ -523,7 +776,7 @@ export function wrapExecution<TContext extends Record<string, unknown>, TResult>
  *   .step('SendEmail', sendEmail) // No compensation
  *   .build();
  */
-export class SagaBuilder<TContext extends Record<string, unknown>> {
+export class SagaBuilder<TContext extends object> {
   private steps: SagaStep<TContext>[] = [];
   private sagaName: string;
 
@@ -531,7 +784,7 @@ export class SagaBuilder<TContext extends Record<string, unknown>> {
     this.sagaName = sagaName;
   }
 
-  static create<TContext extends Record<string, unknown>>(
+  static create<TContext extends object>(
     sagaName: string
   ): SagaBuilder<TContext> {
     return new SagaBuilder<TContext>(sagaName);
@@ -0,0 +1,460 @@
+/**
+ * Saga Recovery
+ *
+ * Picks up saga executions that stopped making progress (the browser tab or
+ * worker running them died mid-way) and either resumes them or rolls them
+ * back.
+ *
+ * Executions are written to saga_executions through `record_saga_progress`
+ * before and after every step. A worker takes over a stalled execution by
+ * claiming a lease on its row; from then on writes from any other runner
+ * are rejected (SAGA_FENCED), so the original runner stops if it was only
+ * slow rather than dead, and two workers never drive the same saga.
+ *
+ * @example
+ * const worker = new SagaRecoveryWorker([orderSagaDefinition], {
+ *   client: serviceClient,
+ *   workerId: 'recovery-1',
+ * });
+ *
+ * // One pass over stalled executions
+ * const outcomes = await worker.recoverStalled();
+ *
+ * // Or keep polling
+ * const stop = worker.start();
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../supabase';
+import { createLogger } from '../logger';
+import { metrics } from '../monitoring';
+import {
+  SagaFencedError,
+  type SagaExecution,
+  type SagaOrchestrator,
+  type SagaStatus,
+  type SagaStep,
+  type SagaStore,
+} from './saga-engine';
+
+const logger = createLogger({ module: 'saga-recovery' });
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Everything recovery needs to rebuild a saga from its stored row
+ */
+export interface SagaDefinition<TContext extends object> {
+  /** Matches saga_executions.saga_name */
+  name: string;
+
+  /** Build the orchestrator with the saga's steps */
+  create: () => SagaOrchestrator<TContext>;
+
+  /** Context -> JSON snapshot (drop clients and other live objects) */
+  serialize: (context: TContext) => unknown;
+
+  /** JSON snapshot -> context, re-attaching the client to use */
+  hydrate: (snapshot: unknown, client: SupabaseClient) => TContext;
+}
+
+export type RecoveryAction = 'resume' | 'compensate';
+
+export interface RecoveryPlan {
+  action: RecoveryAction;
+  reason: string;
+  /** The saga may have left side effects recovery cannot undo */
+  needsReview: boolean;
+}
+
+export interface RecoveryOutcome {
+  sagaId: string;
+  sagaName: string;
+  action: RecoveryAction | 'skipped';
+  reason: string;
+  needsReview: boolean;
+  success: boolean;
+  error?: string;
+}
+
+export interface SagaRecoveryOptions {
+  /** Client used for claims and for the resumed steps (service role for the worker) */
+  client?: SupabaseClient;
+
+  /** Lease owner written to claimed rows */
+  workerId?: string;
+
+  /** Running executions with no heartbeat for this long are stalled (default 2 minutes) */
+  staleAfterMs?: number;
+
+  /** How long a claim lasts without a heartbeat (default 5 minutes) */
+  leaseMs?: number;
+
+  /** Claims after which recovery stops resuming and compensates (default 3) */
+  maxAttempts?: number;
+
+  /** Executions claimed per pass (default 10) */
+  batchSize?: number;
+}
+
+/**
+ * Row in saga_executions
+ */
+export interface SagaExecutionRow {
+  saga_id: string;
+  saga_name: string;
+  status: SagaStatus;
+  steps_completed: string[] | null;
+  current_step: string | null;
+  steps_compensated: string[] | null;
+  context_snapshot: unknown;
+  error_details: SagaExecution<unknown>['errorDetails'] | null;
+  compensation_errors: SagaExecution<unknown>['compensationErrors'] | null;
+  started_at: string;
+  completed_at: string | null;
+  attempts: number | null;
+}
+
+// ============================================
+// PLANNING
+// ============================================
+
+/**
+ * Decide what to do with an execution that stopped making progress.
+ *
+ * Resuming re-runs the step that was interrupted, so it is only chosen
+ * when that step is idempotent. Anything already rolling back, or retried
+ * too often, is compensated.
+ */
+export function planRecovery<TContext>(
+  execution: SagaExecution<unknown>,
+  steps: ReadonlyArray<SagaStep<TContext>>,
+  options: { maxAttempts?: number } = {}
+): RecoveryPlan {
+  const maxAttempts = options.maxAttempts ?? 3;
+
+  if (execution.status === 'compensating' || execution.status === 'compensation_failed') {
+    return { action: 'compensate', reason: 'Compensation did not finish', needsReview: false };
+  }
+
+  if (execution.status === 'failed') {
+    return { action: 'compensate', reason: 'Execution failed unexpectedly', needsReview: false };
+  }
+
+  const interrupted = execution.currentStep && !execution.stepsCompleted.includes(execution.currentStep)
+    ? steps.find(step => step.name === execution.currentStep)
+    : undefined;
+
+  if (interrupted && !interrupted.idempotent) {
+    return {
+      action: 'compensate',
+      reason: `Interrupted inside ${interrupted.name}, which is not safe to repeat`,
+      needsReview: true,
+    };
+  }
+
+  if ((execution.attempts ?? 0) > maxAttempts) {
+    return {
+      action: 'compensate',
+      reason: `Still not finished after ${maxAttempts} recovery attempts`,
+      needsReview: false,
+    };
+  }
+
+  return {
+    action: 'resume',
+    reason: interrupted
+      ? `Resuming at ${interrupted.name}`
+      : 'Resuming after the last completed step',
+    needsReview: false,
+  };
+}
+
+/**
+ * Map a saga_executions row to the engine's execution record
+ */
+export function rowToSagaExecution(row: SagaExecutionRow): SagaExecution<unknown> {
+  return {
+    sagaId: row.saga_id,
+    sagaName: row.saga_name,
+    status: row.status,
+    stepsCompleted: row.steps_completed ?? [],
+    currentStep: row.current_step ?? undefined,
+    stepsCompensated: row.steps_compensated ?? [],
+    contextSnapshot: row.context_snapshot,
+    errorDetails: row.error_details ?? undefined,
+    compensationErrors: row.compensation_errors ?? undefined,
+    startedAt: new Date(row.started_at),
+    completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+    attempts: row.attempts ?? 0,
+  };
+}
+
+// ============================================
+// STORE
+// ============================================
+
+/**
+ * Writes executions through `record_saga_progress`, which refreshes the
+ * heartbeat and rejects writes from anyone but the lease owner.
+ */
+export class SupabaseSagaStore implements SagaStore {
+  constructor(
+    private client: SupabaseClient = supabase,
+    private options: {
+      /** Null for the original runner, the worker ID after a claim */
+      leaseOwner?: string | null;
+      leaseSeconds?: number;
+      /** Recorded on the row when a recovery action drives the saga */
+      recoveryAction?: RecoveryAction;
+    } = {}
+  ) {}
+
+  async save(execution: SagaExecution<unknown>): Promise<void> {
+    const { error } = await this.client.rpc('record_saga_progress', {
+      p_saga_id: execution.sagaId,
+      p_saga_name: execution.sagaName,
+      p_status: execution.status,
+      p_steps_completed: execution.stepsCompleted,
+      p_current_step: execution.currentStep ?? null,
+      p_steps_compensated: execution.stepsCompensated ?? [],
+      p_context_snapshot: execution.contextSnapshot ?? {},
+      p_error_details: execution.errorDetails ?? null,
+      p_compensation_errors: execution.compensationErrors ?? null,
+      p_started_at: execution.startedAt.toISOString(),
+      p_completed_at: execution.completedAt?.toISOString() ?? null,
+      p_lease_owner: this.options.leaseOwner ?? null,
+      p_lease_seconds: this.options.leaseSeconds ?? 300,
+      p_recovery_action: this.options.recoveryAction ?? null,
+    });
+
+    if (error) {
+      if (error.message?.startsWith('SAGA_FENCED')) {
+        throw new SagaFencedError(execution.sagaId, error.message);
+      }
+      throw new Error(`Failed to record saga progress: ${error.message}`);
+    }
+  }
+}
+
+// ============================================
+// WORKER
+// ============================================
+
+export class SagaRecoveryWorker {
+  private definitions = new Map<string, SagaDefinition<object>>();
+  private client: SupabaseClient;
+  private workerId: string;
+  private staleAfterMs: number;
+  private leaseMs: number;
+  private maxAttempts: number;
+  private batchSize: number;
+  private running: Promise<RecoveryOutcome[]> | null = null;
+
+  constructor(
+    definitions: SagaDefinition<object>[],
+    options: SagaRecoveryOptions = {}
+  ) {
+    for (const definition of definitions) {
+      this.definitions.set(definition.name, definition);
+    }
+    this.client = options.client ?? supabase;
+    this.workerId = options.workerId ?? `saga-recovery:${Math.random().toString(36).substring(2, 8)}`;
+    this.staleAfterMs = options.staleAfterMs ?? 120_000;
+    this.leaseMs = options.leaseMs ?? 300_000;
+    this.maxAttempts = options.maxAttempts ?? 3;
+    this.batchSize = options.batchSize ?? 10;
+  }
+
+  /**
+   * Claim stalled executions and resume or compensate each one
+   */
+  async recoverStalled(): Promise<RecoveryOutcome[]> {
+    // A slow pass must not overlap the next poll
+    if (this.running) return this.running;
+
+    this.running = (async () => {
+      const { data, error } = await this.client.rpc('claim_stalled_sagas', {
+        p_worker_id: this.workerId,
+        p_stale_seconds: Math.round(this.staleAfterMs / 1000),
+        p_lease_seconds: Math.round(this.leaseMs / 1000),
+        p_limit: this.batchSize,
+      });
+
+      if (error) {
+        throw new Error(`Failed to claim stalled sagas: ${error.message}`);
+      }
+
+      const outcomes: RecoveryOutcome[] = [];
+      for (const row of (data ?? []) as SagaExecutionRow[]) {
+        const execution = rowToSagaExecution(row);
+        const definition = this.definitions.get(execution.sagaName);
+        const plan = definition
+          ? planRecovery(execution, definition.create().stepDefinitions, { maxAttempts: this.maxAttempts })
+          : null;
+        outcomes.push(await this.run(execution, plan));
+      }
+
+      if (outcomes.length) {
+        logger.info('Recovered stalled sagas', {
+          claimed: outcomes.length,
+          resumed: outcomes.filter(o => o.action === 'resume').length,
+          compensated: outcomes.filter(o => o.action === 'compensate').length,
+        });
+      }
+
+      return outcomes;
+    })();
+
+    try {
+      return await this.running;
+    } finally {
+      this.running = null;
+    }
+  }
+
+  /**
+   * Manually resume an execution from its last recorded step
+   */
+  async retry(sagaId: string): Promise<RecoveryOutcome> {
+    const execution = await this.claim(sagaId);
+
+    if (execution.stepsCompensated?.length) {
+      throw new Error(`Saga ${sagaId} has already been partly compensated and cannot be retried`);
+    }
+
+    return this.run(execution, {
+      action: 'resume',
+      reason: 'Manual retry',
+      needsReview: false,
+    });
+  }
+
+  /**
+   * Manually roll back an execution
+   */
+  async compensate(sagaId: string): Promise<RecoveryOutcome> {
+    const execution = await this.claim(sagaId);
+
+    return this.run(execution, {
+      action: 'compensate',
+      reason: 'Manual compensation',
+      needsReview: false,
+    });
+  }
+
+  /**
+   * Recover on an interval. Returns a stop function.
+   */
+  start(intervalMs = 60_000): () => void {
+    const pass = () => {
+      this.recoverStalled().catch((error) => {
+        logger.error('Saga recovery pass failed', { error });
+      });
+    };
+
+    const poll = setInterval(pass, intervalMs);
+    pass();
+
+    return () => clearInterval(poll);
+  }
+
+  // ============================================
+  // INTERNALS
+  // ============================================
+
+  private async claim(sagaId: string): Promise<SagaExecution<unknown>> {
+    const { data, error } = await this.client.rpc('claim_saga', {
+      p_saga_id: sagaId,
+      p_worker_id: this.workerId,
+      p_lease_seconds: Math.round(this.leaseMs / 1000),
+    });
+
+    if (error) {
+      throw new Error(`Could not claim saga ${sagaId}: ${error.message}`);
+    }
+
+    const row = (Array.isArray(data) ? data[0] : data) as SagaExecutionRow | null;
+    if (!row) {
+      throw new Error(`Saga ${sagaId} not found`);
+    }
+
+    return rowToSagaExecution(row);
+  }
+
+  private async run(
+    execution: SagaExecution<unknown>,
+    plan: RecoveryPlan | null
+  ): Promise<RecoveryOutcome> {
+    const sagaLogger = logger.child({ sagaId: execution.sagaId, sagaName: execution.sagaName });
+    const definition = this.definitions.get(execution.sagaName);
+    const base = { sagaId: execution.sagaId, sagaName: execution.sagaName };
+
+    if (!definition || !plan) {
+      sagaLogger.warn('No saga definition registered, leaving execution for review');
+      return {
+        ...base,
+        action: 'skipped',
+        reason: `No definition registered for ${execution.sagaName}`,
+        needsReview: true,
+        success: false,
+      };
+    }
+
+    let context: object;
+    try {
+      context = definition.hydrate(execution.contextSnapshot, this.client);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      sagaLogger.error('Could not restore saga context', { error: message });
+      return { ...base, action: 'skipped', reason: 'Snapshot could not be restored', needsReview: true, success: false, error: message };
+    }
+
+    sagaLogger.info('Recovering saga', {
+      action: plan.action,
+      reason: plan.reason,
+      attempts: execution.attempts,
+    });
+    metrics.increment('saga.recovery.attempts', 1, { saga: execution.sagaName, action: plan.action });
+
+    const saga = definition.create();
+    const options = {
+      store: new SupabaseSagaStore(this.client, {
+        leaseOwner: this.workerId,
+        leaseSeconds: Math.round(this.leaseMs / 1000),
+        recoveryAction: plan.action,
+      }),
+      serializeContext: (value: unknown) => definition.serialize(value as Record<string, unknown>),
+    };
+
+    const result = plan.action === 'resume'
+      ? await saga.resume(execution as SagaExecution<Record<string, unknown>>, context, options)
+      : await saga.compensate(execution as SagaExecution<Record<string, unknown>>, context, options);
+
+    const fenced = result.error instanceof SagaFencedError;
+    const success = plan.action === 'resume'
+      ? result.success
+      : !fenced && !result.compensationErrors?.length;
+
+    metrics.increment('saga.recovery.outcomes', 1, {
+      saga: execution.sagaName,
+      action: plan.action,
+      success: String(success),
+    });
+
+    if (plan.needsReview) {
+      sagaLogger.warn('Recovered saga needs manual review', { reason: plan.reason });
+    }
+
+    return {
+      ...base,
+      action: plan.action,
+      reason: plan.reason,
+      needsReview: plan.needsReview || (!success && !fenced),
+      success,
+      error: success ? undefined : result.error?.message,
+    };
+  }
+}
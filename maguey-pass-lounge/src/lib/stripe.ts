@@ -16,6 +16,11 @@ import { loadStripe, Stripe } from '@stripe/stripe-js';
 import { stripeCircuit, CircuitBreakerError, type CircuitState } from './circuit-breaker';
 import { createLogger } from './logger';
 import { metrics } from './monitoring';
+import { getLocale } from './i18n';
+import { tracer, injectTraceContext } from './tracing';
+import { supabase } from './supabase';
+import { getMetricsDeviceId } from './metrics-sync';
+import { PurchaseRiskError } from './errors';
 
 const logger = createLogger({ module: 'stripe' });
 const stripePublishableKey = import.meta.env.VITE_STRIPE_PUBLISHABLE_KEY || '';
@@ -136,7 +141,19 @@ export async function createCheckoutSession(orderData: {
   vipInviteCode?: string;
   // Promoter referral code (their user UUID) for sales attribution
   referralCode?: string;
-}): Promise<{ url: string; sessionId: string; orderId: string }> {
+  // Marketing campaign the guest arrived from (?cmp=), for campaign sales
+  campaignId?: string;
+  // Promo code applied at Checkout; the server re-evaluates all promotions
+  promoCode?: string;
+  // Loyalty credits to redeem; the server caps them at the customer's balance
+  loyaltyCredits?: number;
+}): Promise<{
+  url: string;
+  sessionId: string;
+  orderId: string;
+  /** The promo code lost to a better offer, which was applied instead */
+  promoCodeNotNeeded?: boolean;
+}> {
   // Check if Stripe key is configured
   if (!stripePublishableKey) {
     throw new Error(
@@ -155,32 +172,51 @@ export async function createCheckoutSession(orderData: {
   }
   
   try {
-    return await stripeCircuit.execute(async () => {
+    // Client span that starts the purchase trace; create-checkout-session continues it
+    return await tracer.withSpan('checkout.createSession', (span) => stripeCircuit.execute(async () => {
       logger.debug('Creating Stripe checkout session', { 
         eventId: orderData.eventId,
         ticketCount: orderData.tickets.length,
         total: orderData.totalAmount,
       });
+      span.setAttributes({
+        'event.id': orderData.eventId,
+        'checkout.ticket_lines': orderData.tickets.length,
+      });
+
+      // Signed-in guests send their own token: purchase risk scoring treats them as verified
+      const { data: { session } } = await supabase.auth.getSession();
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'apikey': supabaseAnonKey,
+        'Authorization': `Bearer ${session?.access_token ?? supabaseAnonKey}`,
+      };
+      injectTraceContext(headers, span.getContext());
 
       const response = await fetch(getEdgeFunctionUrl('create-checkout-session'), {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'apikey': supabaseAnonKey,
-          'Authorization': `Bearer ${supabaseAnonKey}`,
-        },
-        body: JSON.stringify(orderData),
+        headers,
+        // Locale is stored on the order so the confirmation email matches the site language;
+        // the device ID lets purchase risk spot one browser buying under many emails
+        body: JSON.stringify({ ...orderData, deviceId: getMetricsDeviceId(), locale: getLocale() }),
       });
 
       if (!response.ok) {
         let errorMessage = 'Failed to create checkout session';
+        let riskAction: string | undefined;
         try {
           const errorData = await response.json();
           errorMessage = errorData.message || errorData.error || errorMessage;
+          riskAction = errorData.riskAction;
         } catch {
           errorMessage = response.statusText || errorMessage;
         }
 
+        if (riskAction === 'require_login' || riskAction === 'block') {
+          span.setAttribute('checkout.risk_action', riskAction);
+          throw new PurchaseRiskError(errorMessage, riskAction);
+        }
+
         if (response.status === 404) {
           throw new Error('Checkout session endpoint not found. Please ensure the Edge Function is deployed.');
         } else if (response.status === 500) {
@@ -205,7 +241,7 @@ export async function createCheckoutSession(orderData: {
       });
 
       return data;
-    });
+    }), { kind: 'client' });
   } catch (error) {
     if (error instanceof CircuitBreakerError) {
       logger.error('Stripe circuit breaker is open', { 
@@ -218,6 +254,10 @@ export async function createCheckoutSession(orderData: {
       );
     }
     
+    if (error instanceof PurchaseRiskError) {
+      throw error;
+    }
+
     if (error instanceof Error && error.message.includes('\n')) {
       throw error;
     }
@@ -418,6 +458,10 @@ export interface VipPaymentIntentData {
   gaTicketCount?: number;
   gaTicketTypeId?: string;
   gaTicketPrice?: number;
+  // Split the bill: the host pays their share now, invitees pay by link
+  splitPayment?: boolean;
+  invitees?: Array<{ email: string; name?: string }>;
+  splitFallback?: 'charge_host' | 'release';
 }
 
 export interface VipPaymentIntentResponse {
@@ -425,6 +469,9 @@ export interface VipPaymentIntentResponse {
   paymentIntentId: string;
   reservationId: string;
   amount: number;
+  splitPayment?: boolean;
+  splitDeadline?: string | null;
+  tableShareAmount?: number;
 }
 
 export interface VipReservationConfirmation {
@@ -489,7 +536,7 @@ export async function createVipPaymentIntent(
       'apikey': supabaseAnonKey,
       'Authorization': `Bearer ${supabaseAnonKey}`,
     },
-    body: JSON.stringify(data),
+    body: JSON.stringify({ ...data, locale: getLocale() }),
   });
 
   if (!response.ok) {
@@ -63,6 +63,7 @@ export type Event = {
   event_time: string
   status?: 'draft' | 'published' | 'archived' | null // Optional for backward compatibility
   age_restriction?: string | null
+  on_sale_at?: string | null // General on-sale; loyalty tiers with early access can buy before it
   created_at: string
   updated_at: string
 }
@@ -101,6 +102,8 @@ export type Order = {
   payment_provider: string | null
   payment_reference: string | null
   status: string
+  /** Buyer's language at checkout — confirmation emails are sent in it */
+  locale: 'en' | 'es'
   created_at: string
   updated_at: string
 }
@@ -274,6 +277,8 @@ export type VipReservation = {
   amount_paid_cents: number
   stripe_payment_intent_id: string | null
   status: 'pending' | 'confirmed' | 'cancelled' | 'completed' | 'no_show' | 'checked_in'
+  /** Buyer's language at checkout — confirmation emails are sent in it */
+  locale: 'en' | 'es'
   qr_code_token: string
   package_snapshot: Record<string, unknown> | null
   special_requests: string | null
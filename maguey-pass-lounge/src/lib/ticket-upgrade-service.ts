@@ -0,0 +1,100 @@
+import { supabase } from '@/lib/supabase';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL as string;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY as string;
+
+function getEdgeFunctionUrl(functionName: string): string {
+  const base = import.meta.env.DEV ? '' : SUPABASE_URL;
+  return `${base}/functions/v1/${functionName}`;
+}
+
+export interface TicketUpgradeOption {
+  ticket_type_id: string;
+  name: string;
+  category: string;
+  description: string | null;
+  current_price: number;
+  tier_name: string | null;
+  price_difference: number;
+  remaining: number | null;
+}
+
+/**
+ * Call the upgrade-ticket Edge Function. Sends the signed-in user's access
+ * token so the function can check they hold the ticket.
+ */
+async function callUpgradeTicket<T>(body: Record<string, unknown>): Promise<T> {
+  if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+    throw new Error('Service configuration missing');
+  }
+
+  const { data: { session } } = await supabase.auth.getSession();
+
+  let response: Response;
+  try {
+    response = await fetch(getEdgeFunctionUrl('upgrade-ticket'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': SUPABASE_ANON_KEY,
+        'Authorization': `Bearer ${session?.access_token || SUPABASE_ANON_KEY}`,
+      },
+      body: JSON.stringify(body),
+    });
+  } catch {
+    throw new Error('Network error — please check your connection');
+  }
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Upgrade failed');
+  }
+
+  return data as T;
+}
+
+/**
+ * Higher-priced ticket types for the ticket's event, cheapest first.
+ * price_difference is what the holder pays (current tier prices of both types).
+ * @param ticketId - tickets.id (UUID), not the MGY- ticket code
+ */
+export async function getTicketUpgradeOptions(ticketId: string): Promise<TicketUpgradeOption[]> {
+  const { options } = await callUpgradeTicket<{ options: TicketUpgradeOption[] }>({
+    action: 'options',
+    ticketId,
+  });
+
+  return (options || []).map((option) => ({
+    ...option,
+    current_price: Number(option.current_price),
+    price_difference: Number(option.price_difference),
+  }));
+}
+
+/**
+ * Start a Stripe Checkout for the price difference and redirect to it.
+ * Stripe returns to the current page with ?upgraded=true or ?upgrade_canceled=true.
+ * The ticket is swapped (with a new QR code) once stripe-webhook sees the payment.
+ */
+export async function startTicketUpgradeCheckout(
+  ticketId: string,
+  toTicketTypeId: string,
+  locale?: string
+): Promise<void> {
+  const returnUrl = `${window.location.origin}${window.location.pathname}`;
+  const { url } = await callUpgradeTicket<{ url: string }>({
+    action: 'checkout',
+    ticketId,
+    toTicketTypeId,
+    successUrl: returnUrl,
+    cancelUrl: returnUrl,
+    locale,
+  });
+
+  if (!url) {
+    throw new Error('Could not start checkout');
+  }
+
+  window.location.href = url;
+}
@@ -0,0 +1,324 @@
+/**
+ * OTLP/HTTP Exporter
+ *
+ * Sends spans to an OpenTelemetry collector (Jaeger, Tempo, Honeycomb, ...)
+ * as OTLP JSON over HTTP. Spans are queued and sent in batches, failed
+ * batches are retried with exponential backoff, and traces can be sampled
+ * per exporter on top of the tracer's own sampling decision.
+ */
+
+import type { Span, SpanAttributes, SpanKind, SpanStatus } from '../span';
+import type { SpanExporter } from '../tracer';
+import { shouldSample } from '../trace-context';
+
+export interface OtlpExporterConfig {
+  /** Traces endpoint, e.g. http://localhost:4318/v1/traces */
+  endpoint: string;
+  /** Extra request headers (API keys for hosted collectors) */
+  headers?: Record<string, string>;
+  /** Fraction of traces to send (0.0 to 1.0), decided per trace ID */
+  sampleRate?: number;
+  /** Spans per request */
+  maxBatchSize?: number;
+  /** Spans held while the collector is unreachable; the oldest are dropped first */
+  maxQueueSize?: number;
+  /** How long a partial batch waits before it is sent */
+  scheduledDelayMs?: number;
+  /** Retries per batch for network errors and retryable status codes */
+  maxRetries?: number;
+  /** First retry delay, doubled on every attempt */
+  retryDelayMs?: number;
+  /** Injected in tests to point at a collector stand-in */
+  fetch?: typeof fetch;
+}
+
+/** Statuses an OTLP collector uses for "try again later" */
+const RETRYABLE_STATUS_CODES = [429, 502, 503, 504];
+
+const OTLP_SPAN_KIND: Record<SpanKind, number> = {
+  internal: 1,
+  server: 2,
+  client: 3,
+  producer: 4,
+  consumer: 5,
+};
+
+const OTLP_STATUS_CODE: Record<SpanStatus, number> = {
+  unset: 0,
+  ok: 1,
+  error: 2,
+};
+
+/** Span attributes that describe the service and move to the OTLP resource */
+const RESOURCE_ATTRIBUTES: Record<string, string> = {
+  'service.name': 'service.name',
+  'service.version': 'service.version',
+  'service.environment': 'deployment.environment',
+};
+
+type OtlpAnyValue =
+  | { stringValue: string }
+  | { intValue: string }
+  | { doubleValue: number }
+  | { boolValue: boolean }
+  | { arrayValue: { values: OtlpAnyValue[] } };
+
+interface OtlpKeyValue {
+  key: string;
+  value: OtlpAnyValue;
+}
+
+export interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  flags?: number;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpKeyValue[];
+  events: Array<{ name: string; timeUnixNano: string; attributes: OtlpKeyValue[] }>;
+  status: { code: number; message?: string };
+}
+
+export interface OtlpTracePayload {
+  resourceSpans: Array<{
+    resource: { attributes: OtlpKeyValue[] };
+    scopeSpans: Array<{
+      scope: { name: string };
+      spans: OtlpSpan[];
+    }>;
+  }>;
+}
+
+function toAnyValue(value: string | number | boolean | string[]): OtlpAnyValue {
+  if (Array.isArray(value)) {
+    return { arrayValue: { values: value.map(item => ({ stringValue: item })) } };
+  }
+  if (typeof value === 'boolean') {
+    return { boolValue: value };
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+  return { stringValue: value };
+}
+
+function toKeyValues(attributes: SpanAttributes | undefined): OtlpKeyValue[] {
+  return Object.entries(attributes || {}).map(([key, value]) => ({ key, value: toAnyValue(value) }));
+}
+
+/** Milliseconds since the epoch as the nanosecond string OTLP JSON expects */
+function toUnixNano(ms: number): string {
+  return `${BigInt(Math.round(ms)) * 1_000_000n}`;
+}
+
+/**
+ * Encode spans as an OTLP/JSON ExportTraceServiceRequest, one resource per
+ * service so spans from several apps can share a request
+ */
+export function toOtlpPayload(spans: Span[]): OtlpTracePayload {
+  const byService = new Map<string, { resource: SpanAttributes; spans: OtlpSpan[] }>();
+
+  for (const span of spans) {
+    const resource: SpanAttributes = {};
+    const attributes: SpanAttributes = {};
+    for (const [key, value] of Object.entries(span.attributes)) {
+      if (key in RESOURCE_ATTRIBUTES) {
+        resource[RESOURCE_ATTRIBUTES[key]] = value;
+      } else {
+        attributes[key] = value;
+      }
+    }
+
+    const serviceName = String(resource['service.name'] ?? 'unknown_service');
+    if (!byService.has(serviceName)) {
+      byService.set(serviceName, { resource: { ...resource, 'service.name': serviceName }, spans: [] });
+    }
+
+    byService.get(serviceName)!.spans.push({
+      traceId: span.traceId,
+      spanId: span.spanId,
+      ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+      ...(span.traceFlags !== undefined ? { flags: span.traceFlags } : {}),
+      name: span.name,
+      kind: OTLP_SPAN_KIND[span.kind],
+      startTimeUnixNano: toUnixNano(span.startTime),
+      endTimeUnixNano: toUnixNano(span.endTime ?? span.startTime),
+      attributes: toKeyValues(attributes),
+      events: span.events.map(event => ({
+        name: event.name,
+        timeUnixNano: toUnixNano(event.timestamp),
+        attributes: toKeyValues(event.attributes),
+      })),
+      status: {
+        code: OTLP_STATUS_CODE[span.status],
+        ...(span.statusMessage ? { message: span.statusMessage } : {}),
+      },
+    });
+  }
+
+  return {
+    resourceSpans: [...byService.values()].map(({ resource, spans: serviceSpans }) => ({
+      resource: { attributes: toKeyValues(resource) },
+      scopeSpans: [{ scope: { name: 'maguey-tracing' }, spans: serviceSpans }],
+    })),
+  };
+}
+
+/**
+ * Parse OTEL_EXPORTER_OTLP_HEADERS style "key1=value1,key2=value2"
+ */
+export function parseOtlpHeaders(value: string | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const pair of (value || '').split(',')) {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) continue;
+    const key = pair.slice(0, separator).trim();
+    const headerValue = pair.slice(separator + 1).trim();
+    if (key) {
+      headers[key] = decodeURIComponent(headerValue);
+    }
+  }
+  return headers;
+}
+
+/**
+ * The traces URL for a collector base URL (OTEL_EXPORTER_OTLP_ENDPOINT
+ * semantics: /v1/traces is appended unless it is already there)
+ */
+export function otlpTracesUrl(endpoint: string): string {
+  const trimmed = endpoint.replace(/\/+$/, '');
+  return trimmed.endsWith('/v1/traces') ? trimmed : `${trimmed}/v1/traces`;
+}
+
+export class OtlpHttpExporter implements SpanExporter {
+  private config: Required<Omit<OtlpExporterConfig, 'fetch'>>;
+  private fetchImpl: typeof fetch;
+  private queue: Span[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private inFlight: Promise<void> = Promise.resolve();
+  private droppedSpans = 0;
+
+  constructor(config: OtlpExporterConfig) {
+    this.config = {
+      endpoint: config.endpoint,
+      headers: config.headers || {},
+      sampleRate: config.sampleRate ?? 1.0,
+      maxBatchSize: config.maxBatchSize ?? 512,
+      maxQueueSize: config.maxQueueSize ?? 2048,
+      scheduledDelayMs: config.scheduledDelayMs ?? 5000,
+      maxRetries: config.maxRetries ?? 3,
+      retryDelayMs: config.retryDelayMs ?? 1000,
+    };
+    this.fetchImpl = config.fetch || ((input, init) => fetch(input, init));
+  }
+
+  /**
+   * Queue spans; a full batch is sent straight away, a partial one after
+   * scheduledDelayMs
+   */
+  async export(spans: Span[]): Promise<void> {
+    for (const span of spans) {
+      // Respect the upstream decision, then thin out further if configured
+      const upstreamSampled = span.traceFlags === undefined || (span.traceFlags & 0x01) === 0x01;
+      if (upstreamSampled && shouldSample(span.traceId, this.config.sampleRate)) {
+        this.queue.push(span);
+      }
+    }
+
+    if (this.queue.length > this.config.maxQueueSize) {
+      const overflow = this.queue.length - this.config.maxQueueSize;
+      this.queue.splice(0, overflow);
+      this.droppedSpans += overflow;
+      console.warn(`[OtlpHttpExporter] Queue full, dropped ${overflow} spans`);
+    }
+
+    if (this.queue.length >= this.config.maxBatchSize) {
+      await this.drain(true);
+    }
+    if (this.queue.length > 0 && !this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.forceFlush().catch(err => {
+          console.error('[OtlpHttpExporter] Scheduled flush failed:', err);
+        });
+      }, this.config.scheduledDelayMs);
+    }
+  }
+
+  /**
+   * Send everything queued, batch by batch
+   */
+  async forceFlush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.drain(false);
+  }
+
+  async shutdown(): Promise<void> {
+    await this.forceFlush();
+  }
+
+  /** Spans lost to a full queue or a batch that ran out of retries */
+  getDroppedSpanCount(): number {
+    return this.droppedSpans;
+  }
+
+  private async drain(fullBatchesOnly: boolean): Promise<void> {
+    const minimum = fullBatchesOnly ? this.config.maxBatchSize : 1;
+
+    // Batches go out one at a time so retries never reorder them
+    this.inFlight = this.inFlight.then(async () => {
+      while (this.queue.length >= minimum) {
+        const batch = this.queue.splice(0, this.config.maxBatchSize);
+        const sent = await this.sendBatch(batch);
+        if (!sent) {
+          this.droppedSpans += batch.length;
+        }
+      }
+    });
+
+    await this.inFlight;
+  }
+
+  private async sendBatch(batch: Span[]): Promise<boolean> {
+    const body = JSON.stringify(toOtlpPayload(batch));
+
+    for (let attempt = 0; attempt <= this.config.maxRetries; attempt++) {
+      if (attempt > 0) {
+        const delay = this.config.retryDelayMs * Math.pow(2, attempt - 1);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+
+      try {
+        const response = await this.fetchImpl(this.config.endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...this.config.headers },
+          body,
+          // Lets the last batch leave while the page navigates to Stripe Checkout
+          keepalive: body.length < 60_000,
+        });
+
+        if (response.ok) {
+          return true;
+        }
+        if (!RETRYABLE_STATUS_CODES.includes(response.status)) {
+          console.error(`[OtlpHttpExporter] Collector rejected ${batch.length} spans: HTTP ${response.status}`);
+          return false;
+        }
+      } catch (error) {
+        // Network error: collector down or unreachable, worth retrying
+        if (attempt === this.config.maxRetries) {
+          console.error('[OtlpHttpExporter] Error sending spans:', error);
+        }
+      }
+    }
+
+    console.error(`[OtlpHttpExporter] Giving up on ${batch.length} spans after ${this.config.maxRetries} retries`);
+    return false;
+  }
+}
@@ -0,0 +1,87 @@
+import { supabase } from '@/lib/supabase';
+import type { PaymentShare, PaymentShareDetails } from '@/lib/vip-split-payment';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL as string;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY as string;
+
+function getEdgeFunctionUrl(functionName: string): string {
+  const base = import.meta.env.DEV ? '' : SUPABASE_URL;
+  return `${base}/functions/v1/${functionName}`;
+}
+
+type ShareRow = Omit<PaymentShare, 'amount'> & { amount_cents: number };
+
+function toPaymentShare({ amount_cents, ...row }: ShareRow): PaymentShare {
+  return { ...row, amount: amount_cents / 100 };
+}
+
+/** The invitee's share behind a pay link, or null for an unknown link */
+export async function getVipPaymentShare(payToken: string): Promise<PaymentShareDetails | null> {
+  // Type assertion needed since get_vip_payment_share is not in the generated types
+  const { data, error } = await (supabase.rpc as any)('get_vip_payment_share', { p_token: payToken });
+
+  if (error) {
+    console.error('getVipPaymentShare error:', error);
+    throw new Error(error.message);
+  }
+  if (!data) return null;
+
+  const { amount_cents, ...details } = data as Omit<PaymentShareDetails, 'amount'> & { amount_cents: number };
+  return { ...details, amount: amount_cents / 100 };
+}
+
+/**
+ * Redirect the invitee to Stripe Checkout for their share. Stripe returns to
+ * the pay link page with ?share_paid=true or ?share_canceled=true; the guest
+ * pass is emailed once stripe-webhook sees the payment.
+ */
+export async function startSharePayment(payToken: string, locale?: string): Promise<void> {
+  if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+    throw new Error('Service configuration missing');
+  }
+
+  const returnUrl = `${window.location.origin}${window.location.pathname}`;
+
+  let response: Response;
+  try {
+    response = await fetch(getEdgeFunctionUrl('vip-split-payment'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': SUPABASE_ANON_KEY,
+        'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+      },
+      body: JSON.stringify({ token: payToken, successUrl: returnUrl, cancelUrl: returnUrl, locale }),
+    });
+  } catch {
+    throw new Error('Network error — please check your connection');
+  }
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Could not start payment');
+  }
+  if (!data.url) {
+    throw new Error('Could not start payment');
+  }
+
+  window.location.href = data.url;
+}
+
+/** Every payer's share of a split reservation, host first */
+export async function getReservationShares(reservationId: string): Promise<PaymentShare[]> {
+  const { data, error } = await supabase
+    .from('vip_payment_shares')
+    .select('id, reservation_id, payer_email, payer_name, is_host, amount_cents, status, pay_token, paid_at')
+    .eq('reservation_id', reservationId)
+    .order('is_host', { ascending: false })
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('getReservationShares error:', error);
+    throw new Error(error.message);
+  }
+
+  return ((data || []) as ShareRow[]).map(toPaymentShare);
+}
@@ -0,0 +1,156 @@
+/**
+ * VIP split payment rules shared by the booking form, the invitee pay page,
+ * the guest dashboard and the scanner.
+ *
+ * The host pays their share when booking; each invitee pays theirs from an
+ * emailed link before the deadline. The database and create-vip-payment-intent
+ * enforce the same rules (see 20260413000000_vip_split_payment.sql); these
+ * helpers let the UI show the shares before anything is submitted.
+ */
+
+export type SplitFallback = 'charge_host' | 'release';
+
+export type PaymentShareStatus = 'pending' | 'paid' | 'covered_by_host' | 'cancelled' | 'refunded';
+
+export interface SplitInvitee {
+  name: string;
+  email: string;
+}
+
+/** A vip_payment_shares row */
+export interface PaymentShare {
+  id: string;
+  reservation_id: string;
+  payer_email: string;
+  payer_name: string | null;
+  is_host: boolean;
+  /** Share of the table price in dollars */
+  amount: number;
+  status: PaymentShareStatus;
+  pay_token: string;
+  paid_at: string | null;
+}
+
+/** What an invitee sees on their pay link (get_vip_payment_share) */
+export interface PaymentShareDetails {
+  share_id: string;
+  reservation_id: string;
+  payer_name: string | null;
+  payer_email: string;
+  amount: number;
+  status: PaymentShareStatus;
+  host_name: string | null;
+  reservation_status: string;
+  split_deadline: string;
+  table_number: number | null;
+  event_id: string;
+  event_name: string;
+  event_date: string;
+  event_time: string | null;
+}
+
+export interface SplitProgress {
+  paidCount: number;
+  payerCount: number;
+  paidAmount: number;
+  outstandingAmount: number;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// ─── Amounts ─────────────────────────────────────────────────────────────────
+
+/**
+ * Split a table price (in cents) between the host and their invitees.
+ * Leftover cents go to the host, who is always first.
+ */
+export function splitTableAmount(totalCents: number, payers: number): number[] {
+  if (payers <= 0) return [];
+  const base = Math.floor(totalCents / payers);
+  const shares = Array<number>(payers).fill(base);
+  shares[0] += totalCents - base * payers;
+  return shares;
+}
+
+/** Dollar amount each payer owes, host first */
+export function splitSharesInDollars(tablePrice: number, payers: number): number[] {
+  return splitTableAmount(Math.round(tablePrice * 100), payers).map((cents) => cents / 100);
+}
+
+// ─── Invitees ────────────────────────────────────────────────────────────────
+
+/**
+ * Error message for an invitee list create-vip-payment-intent would reject,
+ * or null when it is fine. maxInvitees is the table capacity minus the host.
+ */
+export function validateInvitees(invitees: SplitInvitee[], hostEmail: string, maxInvitees: number): string | null {
+  if (invitees.length === 0) {
+    return 'Add at least one guest to split with';
+  }
+  if (invitees.length > maxInvitees) {
+    return `This table can be split with at most ${maxInvitees} guest${maxInvitees === 1 ? '' : 's'}`;
+  }
+
+  const seen = new Set<string>();
+  for (const invitee of invitees) {
+    const email = invitee.email.trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(email)) {
+      return `Invalid email: ${invitee.email.trim() || '(empty)'}`;
+    }
+    if (email === hostEmail.trim().toLowerCase()) {
+      return "You can't invite yourself to split the table";
+    }
+    if (seen.has(email)) {
+      return `${invitee.email.trim()} is listed more than once`;
+    }
+    seen.add(email);
+  }
+  return null;
+}
+
+// ─── Progress ────────────────────────────────────────────────────────────────
+
+/** How much of the table has been paid; covered shares count as paid */
+export function summarizeShares(shares: Pick<PaymentShare, 'amount' | 'status'>[]): SplitProgress {
+  const payers = shares.filter((share) => share.status !== 'cancelled');
+  const paid = payers.filter((share) => share.status === 'paid' || share.status === 'covered_by_host');
+  const sum = (rows: typeof payers) => Math.round(rows.reduce((total, row) => total + row.amount * 100, 0)) / 100;
+
+  return {
+    paidCount: paid.length,
+    payerCount: payers.length,
+    paidAmount: sum(paid),
+    outstandingAmount: sum(payers.filter((share) => share.status === 'pending')),
+  };
+}
+
+/** Whether an invitee can still pay from their link */
+export function isSharePayable(
+  share: Pick<PaymentShareDetails, 'status' | 'reservation_status' | 'split_deadline'>,
+  now: Date = new Date()
+): boolean {
+  return share.status === 'pending'
+    && share.reservation_status === 'pending'
+    && new Date(share.split_deadline) > now;
+}
+
+// ─── Labels ──────────────────────────────────────────────────────────────────
+
+export function formatShareStatus(status: PaymentShareStatus): string {
+  switch (status) {
+    case 'pending':
+      return 'Not paid yet';
+    case 'paid':
+      return 'Paid';
+    case 'covered_by_host':
+      return 'Covered by host';
+    case 'cancelled':
+      return 'Cancelled';
+    case 'refunded':
+      return 'Refunded';
+  }
+}
+
+export function sharePayLink(origin: string, payToken: string): string {
+  return `${origin}/vip-share/${payToken}`;
+}
@@ -4,6 +4,9 @@
  */
 
 import type { TableReservation, TableGuestPass } from './vip-tables-service';
+import { DEFAULT_LOCALE, formatCurrency, formatDate, translate, type Locale } from './i18n';
+
+const SUPPORT_EMAIL = 'support@maguey.com';
 
 interface VipTableEmailData {
   reservation: TableReservation;
@@ -14,6 +17,13 @@ interface VipTableEmailData {
   venueName: string;
   venueAddress?: string;
   eventImageUrl?: string;
+  /** Buyer's chosen language (vip_reservations.locale) */
+  locale?: Locale;
+}
+
+function vipTranslator(locale: Locale) {
+  return (key: string, params?: Record<string, string | number>) =>
+    translate(locale, `email.vip.${key}`, params);
 }
 
 /**
@@ -30,19 +40,16 @@ export function generateVipTableEmailHTML(data: VipTableEmailData, frontendUrl?:
     venueName,
     venueAddress,
     eventImageUrl,
+    locale = DEFAULT_LOCALE,
   } = data;
+  const t = vipTranslator(locale);
 
-  const formattedDate = new Date(eventDate).toLocaleDateString('en-US', {
-    weekday: 'long',
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-  });
+  const formattedDate = formatDate(eventDate, undefined, locale);
 
   const tierLabel = {
-    premium: 'Premium',
-    standard: 'Standard',
-    regular: 'Regular',
+    premium: t('tierPremium'),
+    standard: t('tierStandard'),
+    regular: t('tierRegular'),
   }[reservation.vip_table?.tier || 'regular'];
 
   const tierColor = {
@@ -55,8 +62,8 @@ export function generateVipTableEmailHTML(data: VipTableEmailData, frontendUrl?:
   const qrCodeSections = guestPasses.map((pass, index) => `
     <div style="display: inline-block; width: 200px; margin: 10px; text-align: center; vertical-align: top;">
       <div style="background-color: white; border-radius: 8px; padding: 15px; border: 2px solid #e0e0e0;">
-        <img src="${pass.qr_code_url}" alt="Guest ${pass.guest_number} QR Code" style="width: 150px; height: 150px; margin-bottom: 10px;" />
-        <div style="font-weight: bold; color: #333; font-size: 14px;">Guest ${pass.guest_number}</div>
+        <img src="${pass.qr_code_url}" alt="${t('guestQrAlt', { number: pass.guest_number })}" style="width: 150px; height: 150px; margin-bottom: 10px;" />
+        <div style="font-weight: bold; color: #333; font-size: 14px;">${t('guestNumber', { number: pass.guest_number })}</div>
         <div style="color: #666; font-size: 11px; font-family: monospace;">${pass.pass_id}</div>
       </div>
     </div>
@@ -64,11 +71,11 @@ export function generateVipTableEmailHTML(data: VipTableEmailData, frontendUrl?:
 
   return `
 <!DOCTYPE html>
-<html lang="en">
+<html lang="${locale}">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>VIP Table Reservation - ${eventName}</title>
+  <title>${t('title', { eventName })}</title>
   <style>
     body {
       font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
@@ -238,78 +245,77 @@ export function generateVipTableEmailHTML(data: VipTableEmailData, frontendUrl?:
   <div class="container">
     <div class="header">
       <div class="crown">👑</div>
-      <h1>VIP TABLE RESERVATION</h1>
-      <p style="margin: 0; opacity: 0.9;">Your exclusive table is confirmed</p>
+      <h1>${t('heading')}</h1>
+      <p style="margin: 0; opacity: 0.9;">${t('subheading')}</p>
     </div>
 
     <div class="success-banner">
-      ✅ Payment Successful - Your VIP Table is Reserved!
+      ✅ ${t('paymentSuccessful')}
     </div>
 
     ${eventImageUrl ? `<img src="${eventImageUrl}" alt="${eventName}" class="event-image" />` : ''}
 
     <div class="content">
-      <p>Dear ${reservation.customer_first_name},</p>
-      <p>Thank you for your VIP table reservation! Your exclusive table for <strong>${eventName}</strong> is confirmed.</p>
+      <p>${t('greeting', { name: reservation.customer_first_name })}</p>
+      <p>${t('intro', { eventName: `<strong>${eventName}</strong>` })}</p>
 
       <div class="reservation-details">
         <div style="display: flex; justify-content: space-between; align-items: center; margin-bottom: 15px;">
           <div>
-            <div style="font-size: 12px; color: #666;">RESERVATION NUMBER</div>
+            <div style="font-size: 12px; color: #666;">${t('reservationNumber').toUpperCase()}</div>
             <div class="reservation-number">${reservation.reservation_number}</div>
           </div>
-          <span class="tier-badge">${tierLabel} Table</span>
+          <span class="tier-badge">${t('tierTable', { tier: tierLabel })}</span>
         </div>
         
         <div class="detail-grid">
           <div class="detail-item">
-            <div class="detail-label">Event</div>
+            <div class="detail-label">${t('event')}</div>
             <div class="detail-value">${eventName}</div>
           </div>
           <div class="detail-item">
-            <div class="detail-label">Date</div>
+            <div class="detail-label">${t('date')}</div>
             <div class="detail-value">${formattedDate}</div>
           </div>
           <div class="detail-item">
-            <div class="detail-label">Time</div>
+            <div class="detail-label">${t('time')}</div>
             <div class="detail-value">${eventTime}</div>
           </div>
           <div class="detail-item">
-            <div class="detail-label">Table</div>
-            <div class="detail-value">${reservation.vip_table?.table_name || 'VIP Table'}</div>
+            <div class="detail-label">${t('table')}</div>
+            <div class="detail-value">${reservation.vip_table?.table_name || t('defaultTable')}</div>
           </div>
           <div class="detail-item">
-            <div class="detail-label">Location</div>
-            <div class="detail-value">${reservation.vip_table?.floor_section || 'VIP Section'}</div>
+            <div class="detail-label">${t('location')}</div>
+            <div class="detail-value">${reservation.vip_table?.floor_section || t('defaultLocation')}</div>
           </div>
           <div class="detail-item">
-            <div class="detail-label">Guests</div>
-            <div class="detail-value">${reservation.guest_count} people</div>
+            <div class="detail-label">${t('guests')}</div>
+            <div class="detail-value">${t('people', { count: reservation.guest_count })}</div>
           </div>
           <div class="detail-item" style="grid-column: span 2;">
-            <div class="detail-label">Bottle Service</div>
-            <div class="detail-value">${reservation.vip_table?.bottle_service_description || 'Included'}</div>
+            <div class="detail-label">${t('bottleService')}</div>
+            <div class="detail-value">${reservation.vip_table?.bottle_service_description || t('included')}</div>
           </div>
           ${reservation.bottle_choice ? `
           <div class="detail-item" style="grid-column: span 2;">
-            <div class="detail-label">Your Bottle Choice</div>
+            <div class="detail-label">${t('bottleChoice')}</div>
             <div class="detail-value">${reservation.bottle_choice}</div>
           </div>
           ` : ''}
         </div>
 
         <div style="text-align: right; padding-top: 15px; border-top: 1px solid ${tierColor}30;">
-          <div style="font-size: 14px; color: #666;">Total Paid</div>
-          <div class="total-amount">$${Number(reservation.total_amount).toFixed(2)}</div>
+          <div style="font-size: 14px; color: #666;">${t('totalPaid')}</div>
+          <div class="total-amount">${formatCurrency(Number(reservation.total_amount), locale)}</div>
         </div>
       </div>
     </div>
 
     <div class="qr-section">
-      <h2>🎫 Guest Entry Passes</h2>
+      <h2>🎫 ${t('guestPasses')}</h2>
       <p class="qr-instruction">
-        Each guest needs their own QR code to enter. 
-        Share these with your guests or show them from your phone at the door.
+        ${t('guestPassesInstruction')}
       </p>
       <div class="qr-codes">
         ${qrCodeSections}
@@ -318,33 +324,33 @@ export function generateVipTableEmailHTML(data: VipTableEmailData, frontendUrl?:
 
     <div class="content">
       <div class="important-info">
-        <h3>⚠️ Important Information</h3>
+        <h3>⚠️ ${t('importantInformation')}</h3>
         <ul>
-          <li><strong>Arrive 30 minutes early</strong> for table setup and VIP check-in</li>
-          <li>Valid <strong>government-issued ID required</strong> for all guests</li>
-          <li>Each guest <strong>scans their own QR code</strong> at entry</li>
-          <li><strong>Screenshot the QR codes</strong> for offline access</li>
-          <li>Your table will be held for 1 hour after doors open</li>
+          <li>${t('arriveEarly')}</li>
+          <li>${t('idRequired')}</li>
+          <li>${t('ownQr')}</li>
+          <li>${t('screenshot')}</li>
+          <li>${t('tableHeld')}</li>
         </ul>
       </div>
 
       <div class="no-refund-warning">
-        ⛔ <strong>No Refunds:</strong> All VIP table reservations are final and non-refundable.
+        ⛔ <strong>${t('noRefunds')}:</strong> ${t('noRefundsDescription')}
       </div>
 
       <div style="text-align: center; margin: 30px 0;">
         <a href="${FRONTEND_URL}/vip-confirmation?reservationId=${reservation.id}" class="button">
-          View Reservation Online
+          ${t('viewOnline')}
         </a>
       </div>
     </div>
 
     <div class="footer">
-      <p><strong>Venue:</strong> ${venueName}${venueAddress ? ` • ${venueAddress}` : ''}</p>
-      <p><strong>Contact Phone:</strong> ${reservation.customer_phone}</p>
+      <p><strong>${t('venue')}:</strong> ${venueName}${venueAddress ? ` • ${venueAddress}` : ''}</p>
+      <p><strong>${t('contactPhone')}:</strong> ${reservation.customer_phone}</p>
       <p style="margin-top: 20px; font-size: 12px; color: #999;">
-        If you have any questions, please contact us at support@maguey.com<br>
-        This is an automated email. Please do not reply to this message.
+        ${t('questions', { email: SUPPORT_EMAIL })}<br>
+        ${t('automated')}
       </p>
     </div>
   </div>
@@ -365,61 +371,58 @@ export function generateVipTableEmailText(data: VipTableEmailData, frontendUrl?:
     eventTime,
     venueName,
     venueAddress,
+    locale = DEFAULT_LOCALE,
   } = data;
   const FRONTEND_URL = frontendUrl || 'https://your-site.com';
+  const t = vipTranslator(locale);
 
-  const formattedDate = new Date(eventDate).toLocaleDateString('en-US', {
-    weekday: 'long',
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-  });
+  const formattedDate = formatDate(eventDate, undefined, locale);
 
-  let text = `VIP TABLE RESERVATION CONFIRMED\n`;
+  let text = `${t('textConfirmed')}\n`;
   text += `${'='.repeat(50)}\n\n`;
-  text += `Dear ${reservation.customer_first_name},\n\n`;
-  text += `Your VIP table for ${eventName} is confirmed!\n\n`;
+  text += `${t('greeting', { name: reservation.customer_first_name })}\n\n`;
+  text += `${t('textTableConfirmed', { eventName })}\n\n`;
   
-  text += `RESERVATION DETAILS\n`;
+  text += `${t('textDetails')}\n`;
   text += `${'-'.repeat(30)}\n`;
-  text += `Reservation Number: ${reservation.reservation_number}\n`;
-  text += `Event: ${eventName}\n`;
-  text += `Date: ${formattedDate}\n`;
-  text += `Time: ${eventTime}\n`;
-  text += `Table: ${reservation.vip_table?.table_name}\n`;
-  text += `Location: ${reservation.vip_table?.floor_section}\n`;
-  text += `Guests: ${reservation.guest_count}\n`;
-  text += `Bottle Service: ${reservation.vip_table?.bottle_service_description}\n`;
+  text += `${t('reservationNumber')}: ${reservation.reservation_number}\n`;
+  text += `${t('event')}: ${eventName}\n`;
+  text += `${t('date')}: ${formattedDate}\n`;
+  text += `${t('time')}: ${eventTime}\n`;
+  text += `${t('table')}: ${reservation.vip_table?.table_name}\n`;
+  text += `${t('location')}: ${reservation.vip_table?.floor_section}\n`;
+  text += `${t('guests')}: ${reservation.guest_count}\n`;
+  text += `${t('bottleService')}: ${reservation.vip_table?.bottle_service_description}\n`;
   if (reservation.bottle_choice) {
-    text += `Your Bottle Choice: ${reservation.bottle_choice}\n`;
+    text += `${t('bottleChoice')}: ${reservation.bottle_choice}\n`;
   }
-  text += `Total Paid: $${Number(reservation.total_amount).toFixed(2)}\n\n`;
+  text += `${t('totalPaid')}: ${formatCurrency(Number(reservation.total_amount), locale)}\n\n`;
 
-  text += `GUEST ENTRY PASSES\n`;
+  text += `${t('textGuestPasses')}\n`;
   text += `${'-'.repeat(30)}\n`;
   guestPasses.forEach((pass) => {
-    text += `Guest ${pass.guest_number}: ${pass.pass_id}\n`;
+    text += `${t('guestNumber', { number: pass.guest_number })}: ${pass.pass_id}\n`;
   });
   text += `\n`;
 
-  text += `IMPORTANT INFORMATION\n`;
+  text += `${t('textImportant')}\n`;
   text += `${'-'.repeat(30)}\n`;
-  text += `• Arrive 30 minutes early for table setup\n`;
-  text += `• Valid government-issued ID required for all guests\n`;
-  text += `• Each guest scans their own QR code at entry\n`;
-  text += `• Your table will be held for 1 hour after doors open\n\n`;
+  text += `• ${t('arriveEarly')}\n`;
+  text += `• ${t('idRequired')}\n`;
+  text += `• ${t('ownQr')}\n`;
+  text += `• ${t('tableHeld')}\n\n`;
 
-  text += `⛔ NO REFUNDS: All VIP table reservations are final.\n\n`;
+  text += `⛔ ${t('textNoRefunds')}\n\n`;
 
-  text += `View your reservation online: ${FRONTEND_URL}/vip-confirmation?reservationId=${reservation.id}\n\n`;
+  text += `${t('textViewOnline', { url: `${FRONTEND_URL}/vip-confirmation?reservationId=${reservation.id}` })}\n\n`;
 
-  text += `VENUE\n`;
+  text += `${t('textVenue')}\n`;
   text += `${'-'.repeat(30)}\n`;
   text += `${venueName}\n`;
   if (venueAddress) text += `${venueAddress}\n`;
   text += `\n`;
 
-  text += `If you have questions, contact us at support@maguey.com\n`;
+  text += `${t('questions', { email: SUPPORT_EMAIL })}\n`;
 
   return text;
 }
@@ -0,0 +1,80 @@
+import { supabase } from '@/lib/supabase';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL as string;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY as string;
+
+function getEdgeFunctionUrl(functionName: string): string {
+  const base = import.meta.env.DEV ? '' : SUPABASE_URL;
+  return `${base}/functions/v1/${functionName}`;
+}
+
+export type WalletPlatform = 'apple' | 'google';
+
+export type WalletPassRequest =
+  | { kind: 'ticket'; ticketId: string; qrCode?: string | null }
+  | { kind: 'vip_guest_pass'; token: string };
+
+/**
+ * Call the wallet-pass Edge Function. Sends the signed-in user's access
+ * token so the holder can get a ticket pass without its QR value.
+ */
+async function requestWalletPass(
+  pass: WalletPassRequest,
+  platform: WalletPlatform
+): Promise<Response> {
+  if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+    throw new Error('Service configuration missing');
+  }
+
+  const { data: { session } } = await supabase.auth.getSession();
+
+  let response: Response;
+  try {
+    response = await fetch(getEdgeFunctionUrl('wallet-pass'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': SUPABASE_ANON_KEY,
+        'Authorization': `Bearer ${session?.access_token || SUPABASE_ANON_KEY}`,
+      },
+      body: JSON.stringify({ ...pass, platform }),
+    });
+  } catch {
+    throw new Error('Network error — please check your connection');
+  }
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Could not create wallet pass');
+  }
+
+  return response;
+}
+
+/**
+ * Download a signed .pkpass. Safari on iOS opens it straight into Wallet.
+ */
+export async function addToAppleWallet(pass: WalletPassRequest): Promise<void> {
+  const response = await requestWalletPass(pass, 'apple');
+  const blob = await response.blob();
+
+  const url = URL.createObjectURL(
+    new Blob([blob], { type: 'application/vnd.apple.pkpass' })
+  );
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'maguey-ticket.pkpass';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 10000);
+}
+
+/**
+ * Open the "Save to Google Wallet" page for this pass.
+ */
+export async function addToGoogleWallet(pass: WalletPassRequest): Promise<void> {
+  const response = await requestWalletPass(pass, 'google');
+  const { saveUrl } = await response.json();
+  window.location.href = saveUrl;
+}
@@ -1,8 +1,10 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
 import "./index.css";
+import { getLocale } from "./lib/i18n";
 import { ErrorBoundary, setupErrorTracking } from "./lib/errors/index";
 import { initSentry } from "./lib/sentry";
+import { startMetricsSync } from "./lib/metrics-sync";
 
 // Initialize Sentry first (before any errors can occur)
 initSentry();
@@ -10,6 +12,12 @@ initSentry();
 // Initialize error tracking
 setupErrorTracking();
 
+// Flush order and payment metrics to the server for the monitoring history
+startMetricsSync();
+
+// Apply the detected language (?lang=, saved choice or browser) before first render
+document.documentElement.lang = getLocale();
+
 const rootElement = document.getElementById("root");
 if (!rootElement) {
   console.error('Root element not found');
@@ -1,5 +1,5 @@
-import { Link, useNavigate } from "react-router-dom";
-import { Music, Ticket, User, Mail, Calendar, LogOut, Loader2, Download, ExternalLink, Send, ArrowRightLeft, Bell } from "lucide-react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { Music, Ticket, User, Mail, Calendar, LogOut, Loader2, Download, ExternalLink, Send, ArrowRightLeft, Bell, ArrowUpCircle, Tag } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -10,16 +10,23 @@ import { Switch } from "@/components/ui/switch";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/lib/supabase";
 import { toast } from "sonner";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { getUserTickets, type UserTicket } from "@/lib/orders-service";
 import { EmailVerificationBanner } from "@/components/auth/EmailVerificationBanner";
 import { VIPReservationsSection } from "@/components/dashboard/VIPReservationsSection";
+import { UpgradeTicketDialog } from "@/components/dashboard/UpgradeTicketDialog";
+import { LoyaltySection } from "@/components/dashboard/LoyaltySection";
+import { SellTicketDialog } from "@/components/dashboard/SellTicketDialog";
 import { transferTicket, getSentTransfers, type TicketTransfer } from "@/lib/ticket-transfer-service";
+import { cancelResaleListing, getMyResaleListings } from "@/lib/resale-service";
+import { formatListingStatus, type ResaleListing } from "@/lib/resale";
+import { formatCurrency } from "@/lib/i18n";
 import QRCode from "react-qr-code";
 
 const Account = () => {
   const { user, signOut, loading } = useAuth();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [isSigningOut, setIsSigningOut] = useState(false);
   const [tickets, setTickets] = useState<UserTicket[]>([]);
   const [ticketsLoading, setTicketsLoading] = useState(true);
@@ -29,6 +36,10 @@ const Account = () => {
   const [transferToEmail, setTransferToEmail] = useState('');
   const [transferToName, setTransferToName] = useState('');
   const [transferLoading, setTransferLoading] = useState(false);
+  const [upgradeTicket, setUpgradeTicket] = useState<UserTicket | null>(null);
+  const [sellTicket, setSellTicket] = useState<UserTicket | null>(null);
+  const [resaleListings, setResaleListings] = useState<ResaleListing[]>([]);
+  const [cancellingListingId, setCancellingListingId] = useState<string | null>(null);
   const [reminderEmailsEnabled, setReminderEmailsEnabled] = useState(true);
   const [reminderToggleLoading, setReminderToggleLoading] = useState(false);
 
@@ -53,6 +64,22 @@ const Account = () => {
     setReminderToggleLoading(false);
   };
 
+  // Returning from the upgrade Stripe Checkout
+  useEffect(() => {
+    if (searchParams.get('upgraded') === 'true') {
+      toast.success('Payment received! Your upgraded ticket and new QR code will appear shortly.');
+    } else if (searchParams.get('upgrade_canceled') === 'true') {
+      toast.info('Upgrade canceled. Your ticket has not changed.');
+    } else if (searchParams.get('resale_purchased') === 'true') {
+      toast.success('Payment received! Your resale ticket will appear here shortly.');
+    } else if (searchParams.get('resale_canceled') === 'true') {
+      toast.info('Purchase canceled. You have not been charged.');
+    } else {
+      return;
+    }
+    setSearchParams({}, { replace: true });
+  }, [searchParams, setSearchParams]);
+
   // Get user display name
   const userName = user?.user_metadata?.first_name && user?.user_metadata?.last_name
     ? `${user.user_metadata.first_name} ${user.user_metadata.last_name}`
@@ -91,6 +118,36 @@ const Account = () => {
     getSentTransfers(userEmail).then(setSentTransfers);
   }, [userEmail]);
 
+  const loadResaleListings = useCallback(() => {
+    if (!userEmail) return;
+    getMyResaleListings(userEmail)
+      .then(setResaleListings)
+      .catch((error) => console.error('Error loading resale listings:', error));
+  }, [userEmail]);
+
+  useEffect(() => {
+    loadResaleListings();
+  }, [loadResaleListings]);
+
+  const openListingByTicketId = new Map(
+    resaleListings
+      .filter((listing) => listing.status === 'active' || listing.status === 'pending_payment')
+      .map((listing) => [listing.ticket_id, listing])
+  );
+
+  const handleCancelListing = async (listingId: string) => {
+    setCancellingListingId(listingId);
+    try {
+      await cancelResaleListing(listingId);
+      toast.success('Listing cancelled');
+      loadResaleListings();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel listing');
+    } finally {
+      setCancellingListingId(null);
+    }
+  };
+
   const handleSignOut = async () => {
     setIsSigningOut(true);
     try {
@@ -335,6 +392,11 @@ const Account = () => {
           </div>
         </Card>
 
+        {/* Loyalty: tier, points, credits and ledger */}
+        <div className="mb-8">
+          <LoyaltySection userId={user?.id ?? null} email={userEmail} />
+        </div>
+
         {/* Upcoming Tickets */}
         <div className="mb-8">
           <div className="flex items-center gap-3 mb-4">
@@ -448,6 +510,34 @@ const Account = () => {
                           <Send className="w-4 h-4 mr-2" />
                           Transfer
                         </Button>
+                        <Button
+                          variant="ghost"
+                          className="justify-center text-muted-foreground hover:text-foreground"
+                          onClick={() => setUpgradeTicket(ticket)}
+                        >
+                          <ArrowUpCircle className="w-4 h-4 mr-2" />
+                          Upgrade
+                        </Button>
+                        {openListingByTicketId.has(ticket.id) ? (
+                          <Button
+                            variant="ghost"
+                            className="justify-center text-muted-foreground hover:text-foreground"
+                            onClick={() => handleCancelListing(openListingByTicketId.get(ticket.id)!.id)}
+                            disabled={cancellingListingId !== null}
+                          >
+                            <Tag className="w-4 h-4 mr-2" />
+                            Cancel Listing ({formatCurrency(openListingByTicketId.get(ticket.id)!.price)})
+                          </Button>
+                        ) : (
+                          <Button
+                            variant="ghost"
+                            className="justify-center text-muted-foreground hover:text-foreground"
+                            onClick={() => setSellTicket(ticket)}
+                          >
+                            <Tag className="w-4 h-4 mr-2" />
+                            Sell
+                          </Button>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -511,6 +601,55 @@ const Account = () => {
           </div>
         )}
 
+        {/* Resale Listings — tickets the user has put up for sale */}
+        {resaleListings.length > 0 && (
+          <div className="mb-8">
+            <div className="flex items-center gap-3 mb-4">
+              <Tag className="w-6 h-6 text-muted-foreground" />
+              <h2 className="text-xl font-bold text-muted-foreground">Resale Listings</h2>
+            </div>
+            <div className="space-y-3">
+              {resaleListings.map((listing) => (
+                <Card key={listing.id} className="p-4 border-border/30 bg-card/40">
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <p className="font-semibold">
+                        {listing.event_name || 'Event'} • {listing.ticket_type_name || 'Ticket'}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        Listed for {formatCurrency(listing.price)} • You receive{' '}
+                        {formatCurrency(listing.seller_proceeds)}
+                        {listing.status === 'sold' && listing.payout_status === 'pending' && ' (payout pending)'}
+                        {listing.status === 'sold' && listing.payout_method === 'loyalty_credit' && ' as loyalty credits'}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Badge
+                        variant="outline"
+                        className={listing.status === 'sold'
+                          ? 'border-green-500/50 text-green-500'
+                          : 'border-muted-foreground/30 text-muted-foreground'}
+                      >
+                        {formatListingStatus(listing)}
+                      </Badge>
+                      {listing.status === 'active' && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleCancelListing(listing.id)}
+                          disabled={cancellingListingId !== null}
+                        >
+                          {cancellingListingId === listing.id ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Cancel'}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </Card>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Past Tickets */}
         {!ticketsLoading && pastTickets.length > 0 && (
           <div>
@@ -543,6 +682,19 @@ const Account = () => {
         )}
       </div>
 
+      <UpgradeTicketDialog
+        ticket={upgradeTicket}
+        open={upgradeTicket !== null}
+        onOpenChange={(open) => !open && setUpgradeTicket(null)}
+      />
+
+      <SellTicketDialog
+        ticket={sellTicket}
+        open={sellTicket !== null}
+        onOpenChange={(open) => !open && setSellTicket(null)}
+        onListed={loadResaleListings}
+      />
+
       {/* Transfer Ticket Dialog */}
       <Dialog open={transferDialogOpen} onOpenChange={setTransferDialogOpen}>
         <DialogContent className="sm:max-w-md">
@@ -11,6 +11,7 @@ import {
 } from "lucide-react";
 import { CheckoutStepper, CHECKOUT_STEPS } from "@/components/checkout/CheckoutStepper";
 import { FadeTransition, AnimatedStep } from "@/components/checkout/FadeTransition";
+import { ResaleListings } from "@/components/checkout/ResaleListings";
 import { usePersistedForm } from "@/hooks/use-persisted-form";
 import { showError, showNetworkError } from "@/lib/error-messages";
 import { CustomCursor } from "@/components/CustomCursor";
@@ -36,11 +37,25 @@ import {
   type EventAvailability,
 } from "@/lib/events-service";
 import { useEventsRealtime } from "@/hooks/useEventsRealtime";
+import { fetchApplicablePromotions } from "@/lib/promotions-service";
 import {
-  fetchPromotion,
-  type Promotion,
-} from "@/lib/promotions-service";
+  getLoyaltyStatus,
+  getLoyaltyTiers,
+  hasOnSaleAccess,
+  loyaltyCreditsToApply,
+  type UserLoyalty,
+} from "@/lib/loyalty-service";
+import {
+  evaluatePromotions,
+  normalizePromotionCode,
+  type PromotionCart,
+  type PromotionRejection,
+  type PromotionRule,
+} from "@/lib/promotion-rules";
 import { supabase } from "@/lib/supabase";
+import { LanguageSwitcher } from "@/components/LanguageSwitcher";
+import { useLocale } from "@/hooks/use-locale";
+import { formatCurrency, formatDate as formatLocaleDate, formatTime, t as translateNow, WHOLE_DOLLARS } from "@/lib/i18n";
 
 // VIP Reservation type for invite code linking
 interface VIPInviteReservation {
@@ -54,21 +69,51 @@ interface VIPInviteReservation {
   } | null;
 }
 
-// Form validation schema
+// Form validation schema (messages are translation keys, rendered with t())
 const checkoutSchema = z.object({
-  firstName: z.string().min(2, "First name must be at least 2 characters"),
-  lastName: z.string().min(2, "Last name must be at least 2 characters"),
-  email: z.string().email("Please enter a valid email address"),
+  firstName: z.string().min(2, "checkout.firstNameMin"),
+  lastName: z.string().min(2, "checkout.lastNameMin"),
+  email: z.string().email("checkout.emailInvalid"),
   phone: z.string().optional(),
 });
 
 type CheckoutFormData = z.infer<typeof checkoutSchema>;
 
+const PROMO_REJECTION_KEYS: Record<PromotionRejection, string> = {
+  not_found: "checkout.promoInvalid",
+  not_started: "checkout.promoNotStarted",
+  expired: "checkout.promoExpired",
+  outside_hours: "checkout.promoOutsideHours",
+  not_for_event: "checkout.promoNotForEvent",
+  not_for_ticket_type: "checkout.promoNotForTickets",
+  min_quantity: "checkout.promoMinQuantity",
+  min_subtotal: "checkout.promoMinSubtotal",
+  usage_limit: "checkout.promoUsedUp",
+  customer_limit: "checkout.promoCustomerLimit",
+  code_used: "checkout.promoCodeUsed",
+  no_discount: "checkout.promoNoDiscount",
+  not_combinable: "checkout.promoNotCombinable",
+};
+
+const toPromotionCart = (
+  eventId: string,
+  selectedTickets: Record<string, { price: number; fee: number; quantity: number }>
+): PromotionCart => ({
+  eventId,
+  lines: Object.entries(selectedTickets).map(([ticketTypeId, ticket]) => ({
+    ticketTypeId,
+    quantity: ticket.quantity,
+    unitPrice: Number(ticket.price),
+    unitFee: Number(ticket.fee),
+  })),
+});
+
 const Checkout = () => {
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   const { user } = useAuth();
   const { isEmbed } = useEmbed();
+  const { locale, t } = useLocale();
 
   const handleRecommendedEventClick = async (eventId: string, e: React.MouseEvent) => {
     e.preventDefault();
@@ -92,9 +137,15 @@ const Checkout = () => {
   const [recommendedEvents, setRecommendedEvents] = useState<Event[]>([]);
   const [highlightedTicketId, setHighlightedTicketId] = useState<string | null>(null);
   const [promoCode, setPromoCode] = useState("");
-  const [promoApplied, setPromoApplied] = useState<Promotion | null>(null);
+  // Auto-applied promotions plus whatever the entered code matched (see promotion-rules.ts)
+  const [promotionRules, setPromotionRules] = useState<PromotionRule[]>([]);
+  const [appliedPromoCode, setAppliedPromoCode] = useState<string | null>(null);
   const [isApplyingPromo, setIsApplyingPromo] = useState(false);
   const [promoError, setPromoError] = useState<string | null>(null);
+  const [promoNotNeeded, setPromoNotNeeded] = useState(false);
+  const [loyalty, setLoyalty] = useState<UserLoyalty | null>(null);
+  const [earlyAccessHours, setEarlyAccessHours] = useState(0);
+  const [useLoyaltyCredits, setUseLoyaltyCredits] = useState(false);
   const [ageConfirmed, setAgeConfirmed] = useState(false);
 
   // Checkout step management: 1=Tickets, 2=Details, 3=Payment
@@ -161,6 +212,10 @@ const Checkout = () => {
     if (ref) {
       sessionStorage.setItem("maguey_referral", ref);
     }
+    const cmp = searchParams.get("cmp");
+    if (cmp) {
+      sessionStorage.setItem("maguey_campaign", cmp);
+    }
   }, [searchParams]);
 
   // Detect VIP invite code from URL
@@ -208,8 +263,9 @@ const Checkout = () => {
     const ticketId = searchParams.get("ticket");
     const quantityParam = searchParams.get("quantity");
 
+    // Non-hook t keeps the locale out of this effect's deps (no refetch on language switch)
     if (!eventId) {
-      setError("No event selected");
+      setError(translateNow("checkout.noEventSelected"));
       setEventLoading(false);
       return;
     }
@@ -218,7 +274,7 @@ const Checkout = () => {
     getEventWithTicketsAndAvailability(eventId)
       .then((eventData) => {
         if (!eventData) {
-          setError("Event not found");
+          setError(translateNow("checkout.eventNotFound"));
           setEvent(null);
           setAvailability(null);
           setEventLoading(false);
@@ -263,7 +319,7 @@ const Checkout = () => {
       })
       .catch((err) => {
         console.error("Error fetching event:", err);
-        setError("Failed to load event");
+        setError(translateNow("checkout.failedToLoadEvent"));
         setEvent(null);
         setAvailability(null);
         setEventLoading(false);
@@ -276,6 +332,49 @@ const Checkout = () => {
     return availability.ticketTypes.find(t => t.ticketTypeCode === ticketCode);
   };
 
+  // Auto-applied promotions for this event (happy hour, multi-buy deals, ...)
+  const eventId = event?.id;
+  useEffect(() => {
+    if (!eventId) return;
+
+    let cancelled = false;
+    fetchApplicablePromotions(eventId, null, userEmail || null)
+      .then((rules) => {
+        if (cancelled) return;
+        setPromotionRules(rules);
+        setAppliedPromoCode(null);
+      })
+      .catch((err) => {
+        // Codes can still be applied; the server re-evaluates at payment anyway
+        console.error("Error loading promotions:", err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [eventId, userEmail]);
+
+  // Signed-in members: credit balance and early on-sale access for their tier
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userEmail) {
+      setLoyalty(null);
+      setEarlyAccessHours(0);
+      return;
+    }
+
+    let cancelled = false;
+    Promise.all([getLoyaltyStatus(userId ?? null, userEmail), getLoyaltyTiers()]).then(([status, tiers]) => {
+      if (cancelled) return;
+      setLoyalty(status);
+      setEarlyAccessHours(tiers.find((rule) => rule.tier === status?.membership_tier)?.early_access_hours ?? 0);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, userEmail]);
+
   const promoAdjustedTotals = useMemo(() => {
     let subtotalAmount = 0;
     let feeAmount = 0;
@@ -287,23 +386,33 @@ const Checkout = () => {
       }
     });
 
-    let promoDiscount = 0;
-    if (promoApplied) {
-      if (promoApplied.discount_type === "amount") {
-        promoDiscount = promoApplied.amount;
-      } else {
-        promoDiscount = (subtotalAmount + feeAmount) * (promoApplied.amount / 100);
-      }
-    }
-    promoDiscount = Math.min(promoDiscount, subtotalAmount + feeAmount);
+    // Preview only — create-checkout-session runs the same evaluation and is authoritative
+    const evaluation = evaluatePromotions(
+      toPromotionCart(eventId ?? "", selectedTickets),
+      promotionRules,
+      { code: appliedPromoCode }
+    );
+
+    // Loyalty credits cover what is left after promotions
+    const loyaltyCredits = useLoyaltyCredits && loyalty
+      ? loyaltyCreditsToApply(Number(loyalty.credits), Number(loyalty.credits), subtotalAmount + feeAmount - evaluation.discount)
+      : 0;
 
     return {
       subtotal: subtotalAmount,
       fee: feeAmount,
-      discount: promoDiscount,
-      total: subtotalAmount + feeAmount - promoDiscount,
+      discount: evaluation.discount,
+      applied: evaluation.applied,
+      codeRejection: evaluation.codeRejection,
+      loyaltyCredits,
+      total: subtotalAmount + feeAmount - evaluation.discount - loyaltyCredits,
     };
-  }, [selectedTickets, promoApplied]);
+  }, [eventId, selectedTickets, promotionRules, appliedPromoCode, useLoyaltyCredits, loyalty]);
+
+  const isOnSale = hasOnSaleAccess(event?.on_sale_at, earlyAccessHours);
+  const isEarlyAccess = isOnSale && !hasOnSaleAccess(event?.on_sale_at, 0);
+  const formatOnSaleDate = (onSaleAt: string) =>
+    formatLocaleDate(onSaleAt, { weekday: "short", month: "short", day: "numeric", hour: "numeric", minute: "2-digit" }, locale);
 
   // Update totals when selection or promo changes
   useEffect(() => {
@@ -323,33 +432,13 @@ const Checkout = () => {
     setRecommendedEvents(filtered);
   }, [event, realtimeEvents]);
 
-  // Format date for display
-  const formatDate = (dateString: string, timeString: string) => {
-    if (!event) return { day: '', month: '', dayNum: '', full: '' };
-    const date = new Date(dateString);
-    const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-    const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-    let formattedTime = timeString;
-    if (timeString) {
-      const [hourStr, minuteStr] = timeString.split(":");
-      if (hourStr && minuteStr) {
-        const dateTime = new Date();
-        dateTime.setHours(Number(hourStr), Number(minuteStr));
-        formattedTime = dateTime.toLocaleTimeString("en-US", {
-          hour: "numeric",
-          minute: "2-digit",
-        });
-      }
-    }
-    return {
-      day: days[date.getDay()],
-      month: months[date.getMonth()],
-      dayNum: date.getDate(),
-      full: `${days[date.getDay()]}, ${months[date.getMonth()]} ${date.getDate()} at ${formattedTime}`,
-    };
-  };
-
-  const dateInfo = event ? formatDate(event.event_date, event.event_time) : { day: '', month: '', dayNum: '', full: '' };
+  // e.g. "Fri, Dec 26 at 9:00 PM" / "vie, 26 dic a las 9:00 p. m."
+  const eventDateTime = event
+    ? t("checkout.dateAtTime", {
+        date: formatLocaleDate(event.event_date, { weekday: "short", month: "short", day: "numeric" }, locale),
+        time: formatTime(event.event_time, locale) || event.event_time,
+      })
+    : "";
   const eventImageUrl = event?.image_url || "/placeholder.svg";
   const eventVenue = event?.venue_name || "Maguey Nightclub";
   const eventCity = event?.city || "Wilmington, DE";
@@ -408,51 +497,86 @@ const Checkout = () => {
     }
   };
 
+  const promoRejectionMessage = (rejection: PromotionRejection, rule?: PromotionRule) =>
+    t(PROMO_REJECTION_KEYS[rejection], {
+      count: rule?.minQuantity ?? 0,
+      amount: formatCurrency(rule?.minSubtotal ?? 0, locale),
+    });
+
   const handleApplyPromo = async () => {
     setPromoError(null);
-    if (!promoCode.trim()) {
-      setPromoApplied(null);
+    setPromoNotNeeded(false);
+    const code = normalizePromotionCode(promoCode);
+    if (!code || !eventId) {
+      setAppliedPromoCode(null);
       return;
     }
 
     setIsApplyingPromo(true);
     try {
-      const promotion = await fetchPromotion(promoCode);
-      if (!promotion) {
-        setPromoApplied(null);
-        setPromoError("This promo code is invalid or expired.");
+      const rules = await fetchApplicablePromotions(eventId, code, userEmail || null);
+      const evaluation = evaluatePromotions(toPromotionCart(eventId, selectedTickets), rules, { code });
+      setPromotionRules(rules);
+
+      // A better offer is already applied; say so instead of failing the code
+      if (evaluation.codeRejection === "not_combinable") {
+        setAppliedPromoCode(null);
+        setPromoNotNeeded(true);
+        return;
+      }
+      if (evaluation.codeRejection) {
+        setAppliedPromoCode(null);
+        setPromoError(
+          promoRejectionMessage(
+            evaluation.codeRejection,
+            rules.find((rule) => normalizePromotionCode(rule.code) === code)
+          )
+        );
         return;
       }
-      setPromoApplied(promotion);
+      setAppliedPromoCode(code);
       setPromoError(null);
-      toast.success(`Promo ${promotion.code} applied.`);
+      toast.success(t("checkout.promoApplied", { code }));
     } catch (err) {
       console.error("Apply promo error:", err);
-      setPromoApplied(null);
-      setPromoError("Failed to validate promo code.");
+      setAppliedPromoCode(null);
+      setPromoError(t("checkout.promoValidateFailed"));
     } finally {
       setIsApplyingPromo(false);
     }
   };
 
   const resetPromo = () => {
-    setPromoApplied(null);
+    setAppliedPromoCode(null);
     setPromoCode("");
     setPromoError(null);
+    setPromoNotNeeded(false);
   };
 
+  // An applied code can stop qualifying when the cart changes (e.g. below its minimum),
+  // or stop being needed when a better offer kicks in
+  const appliedPromoNotNeeded =
+    appliedPromoCode !== null && promoAdjustedTotals.codeRejection === "not_combinable";
+  const appliedPromoRejection =
+    appliedPromoCode && promoAdjustedTotals.codeRejection && !appliedPromoNotNeeded
+      ? promoRejectionMessage(
+          promoAdjustedTotals.codeRejection,
+          promotionRules.find((rule) => normalizePromotionCode(rule.code) === appliedPromoCode)
+        )
+      : null;
+
   const getTicketDisplayName = (ticketName: string) => {
     if (ticketName.toLowerCase().includes('female')) {
-      return 'Female - General Admission';
+      return t('event.femaleGeneralAdmission');
     }
     if (ticketName.toLowerCase().includes('male')) {
-      return 'Male - General Admission';
+      return t('event.maleGeneralAdmission');
     }
     if (ticketName.toLowerCase().includes('expedited')) {
-      return 'Expedited Entry Admission';
+      return t('event.expeditedEntry');
     }
     if (ticketName.toLowerCase().includes('vip')) {
-      return 'VIP - General Admission';
+      return t('event.vipGeneralAdmission');
     }
     return ticketName;
   };
@@ -461,13 +585,18 @@ const Checkout = () => {
     const ticketsWithQuantity = Object.entries(selectedTickets).filter(([_, ticket]) => ticket.quantity > 0);
 
     if (ticketsWithQuantity.length === 0 || !event) {
-      setError("Please select at least one ticket");
+      setError(t("checkout.selectTicket"));
       showError('validation_error', { onRetry: handleCheckout });
       return;
     }
 
     if (event.age_restriction && !ageConfirmed) {
-      setError("Please confirm age verification to continue");
+      setError(t("checkout.confirmAge"));
+      return;
+    }
+
+    if (!isOnSale && event.on_sale_at) {
+      setError(t("checkout.notOnSaleYet", { date: formatOnSaleDate(event.on_sale_at) }));
       return;
     }
 
@@ -515,7 +644,7 @@ const Checkout = () => {
             const availabilityResult = await availabilityResponse.json();
 
             if (!availabilityResult.available) {
-              const errorMsg = availabilityResult.errors?.join(', ') || 'Tickets are no longer available';
+              const errorMsg = availabilityResult.errors?.join(', ') || t('checkout.ticketsUnavailable');
               console.warn('Availability check indicates tickets unavailable:', errorMsg);
               // Show warning but don't block - let payment page handle it
               toast.warning(errorMsg);
@@ -540,8 +669,12 @@ const Checkout = () => {
         tickets: ticketsParam,
       });
 
-      if (promoApplied) {
-        params.set("promoCode", promoApplied.code);
+      if (appliedPromoCode) {
+        params.set("promoCode", appliedPromoCode);
+      }
+
+      if (promoAdjustedTotals.loyaltyCredits > 0) {
+        params.set("loyaltyCredits", String(promoAdjustedTotals.loyaltyCredits));
       }
 
       // Add VIP invite code if present
@@ -555,6 +688,12 @@ const Checkout = () => {
         params.set("ref", referralCode);
       }
 
+      // And the marketing campaign the guest came from
+      const campaignId = sessionStorage.getItem("maguey_campaign");
+      if (campaignId) {
+        params.set("cmp", campaignId);
+      }
+
       const paymentUrl = `/payment?${params.toString()}`;
 
       // Reset loading state before navigation
@@ -563,7 +702,7 @@ const Checkout = () => {
       // Navigate to payment page
       navigate(paymentUrl);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : "Failed to process checkout";
+      const errorMessage = err instanceof Error ? err.message : t("checkout.checkoutFailed");
       setError(errorMessage);
       // Use showError for network errors with retry
       if (err instanceof TypeError && err.message.includes('fetch')) {
@@ -621,9 +760,9 @@ const Checkout = () => {
       <div className="min-h-screen bg-forest-950 flex items-center justify-center">
         <div className="text-center">
           <AlertCircle className="w-12 h-12 text-red-400 mx-auto mb-4" />
-          <h2 className="font-serif text-2xl text-stone-100 mb-2">Event Not Found</h2>
-          <p className="text-stone-400 mb-4">{error || "The event you're looking for doesn't exist"}</p>
-          <Button onClick={() => navigate('/')} className="bg-copper-400 hover:bg-copper-500 text-forest-950">Back to Events</Button>
+          <h2 className="font-serif text-2xl text-stone-100 mb-2">{t("checkout.eventNotFoundTitle")}</h2>
+          <p className="text-stone-400 mb-4">{error || t("checkout.eventNotFoundDescription")}</p>
+          <Button onClick={() => navigate('/')} className="bg-copper-400 hover:bg-copper-500 text-forest-950">{t("common.backToEvents")}</Button>
         </div>
       </div>
     );
@@ -631,7 +770,7 @@ const Checkout = () => {
 
   return (
     <div className="min-h-screen bg-forest-950 text-stone-300 overflow-x-hidden">
-      <h1 className="sr-only">Checkout</h1>
+      <h1 className="sr-only">{t("checkout.title")}</h1>
 
       {/* Custom Cursor */}
       <CustomCursor />
@@ -658,6 +797,7 @@ const Checkout = () => {
                 MAGUEY <span className="text-copper-400">/</span> DE
               </Link>
               <div className="flex items-center gap-4">
+                <LanguageSwitcher className="text-stone-400" />
                 <AuthButton />
               </div>
             </div>
@@ -676,16 +816,20 @@ const Checkout = () => {
                 </div>
                 <div>
                   <p className="text-stone-100 font-medium">
-                    You're invited to {vipReservation.purchaser_name}'s VIP Table!
+                    {t("checkout.vipInvite", { name: vipReservation.purchaser_name })}
                   </p>
                   <p className="text-sm text-stone-400">
-                    Table {vipReservation.table_number} • {vipLinkedCount}/{vipReservation.event_vip_tables?.capacity || 6} guests confirmed
+                    {t("checkout.vipInviteGuests", {
+                      table: vipReservation.table_number,
+                      linked: vipLinkedCount,
+                      capacity: vipReservation.event_vip_tables?.capacity || 6,
+                    })}
                   </p>
                 </div>
               </div>
               <div className="flex items-center gap-2 text-sm text-purple-300">
                 <Wine className="w-4 h-4" />
-                <span>Purchase your ticket to join the party!</span>
+                <span>{t("checkout.vipInviteCta")}</span>
               </div>
             </div>
           </div>
@@ -707,7 +851,7 @@ const Checkout = () => {
           {/* Welcome back indicator for returning visitors */}
           {hasPersistedData && !user && (
             <div className="text-sm text-stone-500 mt-2">
-              Welcome back! Your details have been remembered.
+              {t("checkout.welcomeBack")}
             </div>
           )}
         </div>
@@ -738,15 +882,29 @@ const Checkout = () => {
                     {event.name.toUpperCase()}
                   </h1>
                   <p className="text-lg text-copper-400 mb-2">
-                    {dateInfo.full}
+                    {eventDateTime}
                   </p>
                   <p className="text-stone-400">
-                    at {eventVenue}
+                    {t("checkout.atVenue", { venue: eventVenue })}
                   </p>
                   {event.age_restriction && (
                     <Badge className="mt-3 bg-red-600/20 text-red-400 border border-red-500/30 px-3 py-1 text-xs flex items-center gap-1.5 w-fit">
                       <ShieldAlert className="w-3.5 h-3.5" />
-                      {event.age_restriction} Event — Valid ID Required
+                      {t("checkout.ageEventBadge", { age: event.age_restriction })}
+                    </Badge>
+                  )}
+                  {!isOnSale && event.on_sale_at && (
+                    <Alert data-cy="not-on-sale" className="mt-4 bg-forest-900/60 border-copper-400/30">
+                      <Clock className="w-4 h-4 text-copper-400" />
+                      <AlertDescription className="text-stone-300">
+                        {t("checkout.notOnSaleYet", { date: formatOnSaleDate(event.on_sale_at) })}
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                  {isEarlyAccess && loyalty && (
+                    <Badge data-cy="early-access" className="mt-3 bg-copper-400/20 text-copper-400 border border-copper-400/30 px-3 py-1 text-xs flex items-center gap-1.5 w-fit">
+                      <Crown className="w-3.5 h-3.5" />
+                      {t("checkout.earlyAccess", { tier: t(`checkout.loyaltyTier.${loyalty.membership_tier}`) })}
                     </Badge>
                   )}
                 </div>
@@ -766,10 +924,10 @@ const Checkout = () => {
 
                     // Category order and badge styles
                     const categoryConfig: Record<string, { label: string; badgeClass: string }> = {
-                      vip: { label: 'VIP', badgeClass: 'bg-copper-400/20 text-copper-400 border-copper-400/30' },
-                      service: { label: 'Service', badgeClass: 'bg-purple-400/20 text-purple-400 border-purple-400/30' },
-                      section: { label: 'Section', badgeClass: 'bg-blue-400/20 text-blue-400 border-blue-400/30' },
-                      general: { label: 'General', badgeClass: 'bg-stone-400/20 text-stone-400 border-stone-400/30' },
+                      vip: { label: t('event.categoryVip'), badgeClass: 'bg-copper-400/20 text-copper-400 border-copper-400/30' },
+                      service: { label: t('event.categoryService'), badgeClass: 'bg-purple-400/20 text-purple-400 border-purple-400/30' },
+                      section: { label: t('event.categorySection'), badgeClass: 'bg-blue-400/20 text-blue-400 border-blue-400/30' },
+                      general: { label: t('event.categoryGeneralShort'), badgeClass: 'bg-stone-400/20 text-stone-400 border-stone-400/30' },
                     };
 
                     const categoryOrder = ['vip', 'service', 'section', 'general'];
@@ -830,7 +988,7 @@ const Checkout = () => {
                                       )}
                                       {isSoldOut && (
                                         <Badge className="bg-red-500/20 text-red-400 border-red-500/50 text-xs">
-                                          Sold Out
+                                          {t("common.soldOut")}
                                         </Badge>
                                       )}
                                       <Button
@@ -848,11 +1006,11 @@ const Checkout = () => {
                                     )}
                                     <div className="flex items-center gap-2 mt-0.5">
                                       <p className="text-xs text-stone-500">
-                                        (Includes fees & taxes)
+                                        {t("checkout.includesFees")}
                                       </p>
                                       {ticketAvail && ticketAvail.total > 0 && (
                                         <p className="text-xs text-stone-500">
-                                          • {ticketAvail.sold}/{ticketAvail.total} sold
+                                          {t("checkout.soldCount", { sold: ticketAvail.sold, total: ticketAvail.total })}
                                         </p>
                                       )}
                                     </div>
@@ -860,7 +1018,7 @@ const Checkout = () => {
                                   <div className="flex items-center gap-3">
                                     <div className="text-right">
                                       <p className="text-base font-semibold text-stone-100">
-                                        ${totalPrice.toFixed(0)}
+                                        {formatCurrency(totalPrice, locale, WHOLE_DOLLARS)}
                                       </p>
                                     </div>
                                     {!isSelected && (
@@ -870,7 +1028,7 @@ const Checkout = () => {
                                         className="w-9 h-9 rounded-full bg-copper-400 hover:bg-copper-500 text-forest-950 p-0 flex items-center justify-center shrink-0 disabled:opacity-50 disabled:cursor-not-allowed"
                                         onClick={() => selectTicket(ticket.id)}
                                         disabled={isSoldOut}
-                                        aria-label={`Add ${getTicketDisplayName(ticket.name)}`}
+                                        aria-label={t("checkout.addTicket", { name: getTicketDisplayName(ticket.name) })}
                                       >
                                         <Plus className="w-4 h-4" />
                                       </Button>
@@ -883,7 +1041,7 @@ const Checkout = () => {
                                           size="icon"
                                           className="w-7 h-7 border-white/20 hover:bg-white/10"
                                           onClick={() => updateQuantity(ticket.id, -1)}
-                                          aria-label={`Remove ${getTicketDisplayName(ticket.name)}`}
+                                          aria-label={t("checkout.removeTicket", { name: getTicketDisplayName(ticket.name) })}
                                           disabled={ticketQuantity <= 0}
                                         >
                                           <Minus className="w-3.5 h-3.5 text-stone-300" />
@@ -895,7 +1053,7 @@ const Checkout = () => {
                                           size="icon"
                                           className="w-7 h-7 border-white/20 hover:bg-white/10"
                                           onClick={() => updateQuantity(ticket.id, 1)}
-                                          aria-label={`Add ${getTicketDisplayName(ticket.name)}`}
+                                          aria-label={t("checkout.addTicket", { name: getTicketDisplayName(ticket.name) })}
                                           disabled={ticketQuantity >= effectiveMaxQuantity || isSoldOut}
                                         >
                                           <Plus className="w-3.5 h-3.5 text-stone-300" />
@@ -916,6 +1074,9 @@ const Checkout = () => {
                     });
                   })()}
 
+                  {/* Resale tickets from other guests */}
+                  {event?.id && <ResaleListings eventId={event.id} />}
+
                   {/* VIP Table Reservation CTA */}
                   {event?.id && (
                     <div className="mt-6 relative overflow-hidden rounded-sm glass-panel border border-copper-400/20">
@@ -933,27 +1094,27 @@ const Checkout = () => {
                           {/* Content */}
                           <div className="flex-1 min-w-0">
                             <div className="flex items-center gap-2 mb-1">
-                              <h3 className="font-serif text-lg text-stone-100">VIP Experience</h3>
+                              <h3 className="font-serif text-lg text-stone-100">{t("checkout.vipExperience")}</h3>
                               <span className="px-2 py-0.5 text-[10px] font-medium uppercase tracking-wider bg-copper-400/20 text-copper-400 rounded-full border border-copper-400/30">
-                                Premium
+                                {t("checkout.premium")}
                               </span>
                             </div>
                             <p className="text-stone-400 text-sm mb-4">
-                              Elevate your night with bottle service • Tables from $600
+                              {t("checkout.vipExperienceDescription", { price: formatCurrency(600, locale, WHOLE_DOLLARS) })}
                             </p>
 
                             <Link
                               to={`/events/${event.id}/vip-tables`}
                               className="inline-flex items-center justify-center gap-2 w-full py-3 px-6 bg-copper-400 hover:bg-copper-500 text-forest-950 font-semibold rounded-sm transition-all duration-200 group"
                             >
-                              <span>Reserve Your Table</span>
+                              <span>{t("common.reserveYourTable")}</span>
                               <ArrowRight className="w-4 h-4 transition-transform group-hover:translate-x-1" />
                             </Link>
                           </div>
                         </div>
 
                         <p className="mt-4 text-stone-500 text-xs text-center border-t border-white/5 pt-4">
-                          Table reservation does not include event entry. All guests must purchase GA tickets.
+                          {t("event.tableNoEntry")}
                         </p>
                       </div>
                     </div>
@@ -970,7 +1131,7 @@ const Checkout = () => {
               <div className="glass-panel rounded-sm p-6 space-y-6">
                 <div className="flex items-center gap-3 mb-4">
                   <User className="w-6 h-6 text-copper-400" />
-                  <h2 className="font-serif text-2xl text-stone-100">Guest Information</h2>
+                  <h2 className="font-serif text-2xl text-stone-100">{t("checkout.guestInformation")}</h2>
                 </div>
 
                 <form onSubmit={handleSubmit((data) => {
@@ -983,44 +1144,44 @@ const Checkout = () => {
                 })} className="space-y-4">
                   <div className="grid sm:grid-cols-2 gap-4">
                     <div className="space-y-2">
-                      <Label htmlFor="firstName" className="text-stone-300">First Name</Label>
+                      <Label htmlFor="firstName" className="text-stone-300">{t("checkout.firstName")}</Label>
                       <Input
                         id="firstName"
                         {...register("firstName")}
-                        placeholder="Enter your first name"
+                        placeholder={t("checkout.firstNamePlaceholder")}
                         className="bg-forest-950 border-white/10 text-stone-100 placeholder:text-stone-600"
                       />
                       {errors.firstName && (
-                        <p className="text-red-400 text-xs">{errors.firstName.message}</p>
+                        <p className="text-red-400 text-xs">{t(errors.firstName.message)}</p>
                       )}
                     </div>
                     <div className="space-y-2">
-                      <Label htmlFor="lastName" className="text-stone-300">Last Name</Label>
+                      <Label htmlFor="lastName" className="text-stone-300">{t("checkout.lastName")}</Label>
                       <Input
                         id="lastName"
                         {...register("lastName")}
-                        placeholder="Enter your last name"
+                        placeholder={t("checkout.lastNamePlaceholder")}
                         className="bg-forest-950 border-white/10 text-stone-100 placeholder:text-stone-600"
                       />
                       {errors.lastName && (
-                        <p className="text-red-400 text-xs">{errors.lastName.message}</p>
+                        <p className="text-red-400 text-xs">{t(errors.lastName.message)}</p>
                       )}
                     </div>
                   </div>
 
                   <div className="space-y-2">
-                    <Label htmlFor="email" className="text-stone-300">Email Address</Label>
+                    <Label htmlFor="email" className="text-stone-300">{t("checkout.email")}</Label>
                     <Input
                       id="email"
                       type="email"
                       {...register("email")}
-                      placeholder="Enter your email"
+                      placeholder={t("checkout.emailPlaceholder")}
                       className="bg-forest-950 border-white/10 text-stone-100 placeholder:text-stone-600"
                     />
                     {errors.email && (
-                      <p className="text-red-400 text-xs">{errors.email.message}</p>
+                      <p className="text-red-400 text-xs">{t(errors.email.message)}</p>
                     )}
-                    <p className="text-stone-500 text-xs">Your tickets will be sent to this email</p>
+                    <p className="text-stone-500 text-xs">{t("checkout.emailHint")}</p>
                   </div>
 
                   {/* Age Verification Acknowledgment */}
@@ -1039,9 +1200,9 @@ const Checkout = () => {
                         >
                           <span className="flex items-center gap-1.5 font-semibold text-amber-400 mb-1">
                             <ShieldAlert className="w-4 h-4" />
-                            Age Verification Required
+                            {t("checkout.ageVerificationRequired")}
                           </span>
-                          I confirm that I am {event.age_restriction === "21+" ? "21" : "18"}+ years of age and will present valid government-issued photo ID at the venue upon entry.
+                          {t("checkout.ageConfirmation", { age: event.age_restriction === "21+" ? "21" : "18" })}
                         </label>
                       </div>
                     </div>
@@ -1054,35 +1215,35 @@ const Checkout = () => {
                       onClick={() => setCheckoutStep(1)}
                       className="flex-1 border-white/20 text-stone-300 hover:bg-white/10"
                     >
-                      Back to Tickets
+                      {t("checkout.backToTickets")}
                     </Button>
                     <LoadingButton
                       type="submit"
                       isLoading={isLoading}
                       disabled={!!(event?.age_restriction && !ageConfirmed)}
-                      loadingText="Processing..."
+                      loadingText={t("common.processing")}
                       className="flex-1 bg-copper-400 hover:bg-copper-500 text-forest-950 font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
                     >
-                      Continue to Payment
+                      {t("checkout.continueToPayment")}
                     </LoadingButton>
                   </div>
                 </form>
 
                 {/* Order Summary in Step 2 */}
                 <div className="pt-4 border-t border-white/10">
-                  <h3 className="text-sm font-medium text-stone-300 mb-3">Order Summary</h3>
+                  <h3 className="text-sm font-medium text-stone-300 mb-3">{t("checkout.orderSummary")}</h3>
                   <div className="space-y-2 text-sm">
                     {Object.entries(selectedTickets).map(([ticketId, ticket]) => (
                       ticket.quantity > 0 && (
                         <div key={ticketId} className="flex justify-between text-stone-400">
                           <span>{ticket.quantity}x {ticket.name}</span>
-                          <span>${((ticket.price + ticket.fee) * ticket.quantity).toFixed(2)}</span>
+                          <span>{formatCurrency((ticket.price + ticket.fee) * ticket.quantity, locale)}</span>
                         </div>
                       )
                     ))}
                     <div className="flex justify-between text-stone-100 font-semibold pt-2 border-t border-white/10">
-                      <span>Total</span>
-                      <span>${total.toFixed(2)}</span>
+                      <span>{t("common.total")}</span>
+                      <span>{formatCurrency(total, locale)}</span>
                     </div>
                   </div>
                 </div>
@@ -1094,8 +1255,8 @@ const Checkout = () => {
           <FadeTransition show={checkoutStep === 3} className="mt-8">
             <div className="max-w-md mx-auto text-center py-12">
               <Loader2 className="w-12 h-12 text-copper-400 animate-spin mx-auto mb-4" />
-              <h2 className="font-serif text-2xl text-stone-100 mb-2">Preparing Payment</h2>
-              <p className="text-stone-400">Please wait while we set up your secure checkout...</p>
+              <h2 className="font-serif text-2xl text-stone-100 mb-2">{t("checkout.preparingPayment")}</h2>
+              <p className="text-stone-400">{t("checkout.preparingPaymentDescription")}</p>
             </div>
           </FadeTransition>
         </div>
@@ -1116,33 +1277,49 @@ const Checkout = () => {
                     </div>
                   </div>
                   <div className="text-right">
-                    <p className="text-sm text-stone-400">Total due</p>
-                    <p className="text-2xl font-semibold text-stone-100">${total.toFixed(2)}</p>
+                    <p className="text-sm text-stone-400">{t("checkout.totalDue")}</p>
+                    <p className="text-2xl font-semibold text-stone-100">{formatCurrency(total, locale)}</p>
                   </div>
                 </div>
 
                 <div className="space-y-2 text-sm text-stone-400">
                   <div className="flex justify-between">
-                    <span>Subtotal</span>
-                    <span>${subtotal.toFixed(2)}</span>
+                    <span>{t("checkout.subtotal")}</span>
+                    <span>{formatCurrency(subtotal, locale)}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span>Fees</span>
-                    <span>${serviceFee.toFixed(2)}</span>
+                    <span>{t("checkout.fees")}</span>
+                    <span>{formatCurrency(serviceFee, locale)}</span>
                   </div>
-                  {promoApplied && (
-                    <div data-cy="promo-discount-line" className="flex justify-between text-emerald-400">
-                      <span>Promo ({promoApplied.code})</span>
-                      <span>- ${promoAdjustedTotals.discount.toFixed(2)}</span>
+                  {promoAdjustedTotals.applied.map((applied) => (
+                    <div key={applied.promotionId} data-cy="promo-discount-line" className="flex justify-between text-emerald-400">
+                      <span>{applied.code ? t("checkout.promo", { code: applied.code }) : applied.name}</span>
+                      <span>- {formatCurrency(applied.discount, locale)}</span>
+                    </div>
+                  ))}
+                  {promoAdjustedTotals.loyaltyCredits > 0 && (
+                    <div data-cy="loyalty-credit-line" className="flex justify-between text-emerald-400">
+                      <span>{t("checkout.loyaltyCredit")}</span>
+                      <span>- {formatCurrency(promoAdjustedTotals.loyaltyCredits, locale)}</span>
                     </div>
                   )}
+                  {loyalty && Number(loyalty.credits) > 0 && (
+                    <label className="flex items-center gap-2 pt-1 cursor-pointer">
+                      <Checkbox
+                        data-cy="loyalty-credit-toggle"
+                        checked={useLoyaltyCredits}
+                        onCheckedChange={(checked) => setUseLoyaltyCredits(checked === true)}
+                      />
+                      <span>{t("checkout.useLoyaltyCredit", { amount: formatCurrency(Number(loyalty.credits), locale) })}</span>
+                    </label>
+                  )}
                   <div className="flex flex-col gap-2 pt-2">
                     <div className="flex flex-col sm:flex-row gap-2">
                       <Input
                         data-cy="promo-input"
                         value={promoCode}
                         onChange={(e) => setPromoCode(e.target.value)}
-                        placeholder="Promo code"
+                        placeholder={t("checkout.promoPlaceholder")}
                         className="bg-forest-950 border-white/10 text-stone-100 placeholder:text-stone-600 sm:flex-1"
                       />
                       <Button
@@ -1153,9 +1330,9 @@ const Checkout = () => {
                         onClick={handleApplyPromo}
                         disabled={isApplyingPromo || isLoading}
                       >
-                        {isApplyingPromo ? "Checking..." : "Apply"}
+                        {isApplyingPromo ? t("checkout.checking") : t("checkout.apply")}
                       </Button>
-                      {promoApplied && (
+                      {appliedPromoCode && (
                         <Button
                           type="button"
                           variant="ghost"
@@ -1163,12 +1340,15 @@ const Checkout = () => {
                           className="text-stone-500 hover:text-stone-300"
                           onClick={resetPromo}
                         >
-                          Clear
+                          {t("checkout.clear")}
                         </Button>
                       )}
                     </div>
-                    {promoError && (
-                      <p data-cy="promo-error" className="text-xs text-red-400">{promoError}</p>
+                    {(promoError || appliedPromoRejection) && (
+                      <p data-cy="promo-error" className="text-xs text-red-400">{promoError || appliedPromoRejection}</p>
+                    )}
+                    {!promoError && !appliedPromoRejection && (promoNotNeeded || appliedPromoNotNeeded) && (
+                      <p data-cy="promo-not-needed" className="text-xs text-stone-400">{t("checkout.promoNotCombinable")}</p>
                     )}
                   </div>
                 </div>
@@ -1182,10 +1362,10 @@ const Checkout = () => {
                     // Advance to Step 2: Customer Details
                     setCheckoutStep(2);
                   }}
-                  disabled={totalQuantity === 0}
+                  disabled={totalQuantity === 0 || !isOnSale}
                   className="w-full bg-copper-400 hover:bg-copper-500 text-forest-950 font-semibold py-3 px-6 rounded-sm flex items-center justify-between disabled:opacity-50"
                 >
-                  <span>Continue to Details</span>
+                  <span>{t("checkout.continueToDetails")}</span>
                   <ArrowRight className="w-5 h-5" />
                 </Button>
               </div>
@@ -1202,7 +1382,7 @@ const Checkout = () => {
               <div>
                 <div className="flex items-center gap-3">
                   <h2 className="font-serif text-2xl lg:text-3xl text-stone-100">
-                    More <span className="italic text-copper-400">Events</span>
+                    {t("checkout.moreEvents")} <span className="italic text-copper-400">{t("checkout.moreEventsHighlight")}</span>
                   </h2>
                   {/* Live indicator for real-time event updates */}
                   {eventsIsLive && (
@@ -1211,14 +1391,14 @@ const Checkout = () => {
                         <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-green-400 opacity-75" />
                         <span className="relative inline-flex rounded-full h-2 w-2 bg-green-500" />
                       </span>
-                      <span className="text-xs text-stone-500">Live</span>
+                      <span className="text-xs text-stone-500">{t("checkout.live")}</span>
                     </div>
                   )}
                 </div>
-                <p className="text-sm text-stone-500 mt-1">Discover more experiences tailored for you</p>
+                <p className="text-sm text-stone-500 mt-1">{t("checkout.moreEventsDescription")}</p>
               </div>
               <Link to="/" className="font-mono text-xs uppercase tracking-widest text-copper-400 hover:text-copper-300">
-                View All
+                {t("checkout.viewAll")}
               </Link>
             </div>
             <div className="relative overflow-hidden">
@@ -1251,23 +1431,9 @@ const Checkout = () => {
                           {recEvent.name}
                         </h3>
                         <p className="text-xs text-stone-400 mt-1">
-                          {new Date(recEvent.event_date).toLocaleDateString("en-US", {
-                            weekday: "short",
-                            month: "short",
-                            day: "numeric",
-                          })}
+                          {formatLocaleDate(recEvent.event_date, { weekday: "short", month: "short", day: "numeric" }, locale)}
                           {" "}•{" "}
-                          {(() => {
-                            if (!recEvent.event_time) return "10:00 PM";
-                            const [hourStr, minuteStr] = recEvent.event_time.split(":");
-                            if (!hourStr || !minuteStr) return recEvent.event_time;
-                            const time = new Date();
-                            time.setHours(Number(hourStr), Number(minuteStr));
-                            return time.toLocaleTimeString("en-US", {
-                              hour: "numeric",
-                              minute: "2-digit",
-                            });
-                          })()}
+                          {formatTime(recEvent.event_time || "22:00", locale)}
                         </p>
                       </div>
                     </div>
@@ -1276,7 +1442,7 @@ const Checkout = () => {
                         {recEvent.venue_name || "Maguey Nightclub"}, {recEvent.city || "Wilmington"}
                       </div>
                       <div className="inline-flex w-full items-center justify-center bg-copper-400 hover:bg-copper-500 text-forest-950 text-sm font-semibold py-2 rounded-sm transition">
-                        View Event
+                        {t("checkout.viewEvent")}
                       </div>
                     </div>
                   </div>
@@ -1296,7 +1462,7 @@ const Checkout = () => {
                 MAGUEY <span className="text-copper-400">/</span> DE
               </h3>
               <p className="text-stone-500 text-sm mb-4">
-                Wilmington's Premier Latin Nightlife Experience
+                {t("checkout.tagline")}
               </p>
               <div className="flex gap-3">
                 <a href="https://instagram.com/magueynightclub" target="_blank" rel="noopener noreferrer" className="text-stone-500 hover:text-copper-400 transition-colors">
@@ -1309,29 +1475,29 @@ const Checkout = () => {
             </div>
 
             <div>
-              <h4 className="font-mono text-xs uppercase tracking-widest text-stone-300 mb-4">Company</h4>
+              <h4 className="font-mono text-xs uppercase tracking-widest text-stone-300 mb-4">{t("checkout.company")}</h4>
               <ul className="space-y-2 text-sm text-stone-500">
-                <li><Link to="/about" className="hover:text-copper-400 transition-colors">About</Link></li>
-                <li><Link to="/blog" className="hover:text-copper-400 transition-colors">Blog</Link></li>
-                <li><Link to="/" className="hover:text-copper-400 transition-colors">Discover</Link></li>
-                <li><Link to="/support" className="hover:text-copper-400 transition-colors">Fan Support</Link></li>
+                <li><Link to="/about" className="hover:text-copper-400 transition-colors">{t("checkout.about")}</Link></li>
+                <li><Link to="/blog" className="hover:text-copper-400 transition-colors">{t("checkout.blog")}</Link></li>
+                <li><Link to="/" className="hover:text-copper-400 transition-colors">{t("checkout.discover")}</Link></li>
+                <li><Link to="/support" className="hover:text-copper-400 transition-colors">{t("checkout.fanSupport")}</Link></li>
               </ul>
             </div>
 
             <div>
-              <h4 className="font-mono text-xs uppercase tracking-widest text-stone-300 mb-4">Legal</h4>
+              <h4 className="font-mono text-xs uppercase tracking-widest text-stone-300 mb-4">{t("checkout.legal")}</h4>
               <ul className="space-y-2 text-sm text-stone-500">
-                <li><Link to="/privacy" className="hover:text-copper-400 transition-colors">Privacy Policy</Link></li>
-                <li><Link to="/terms" className="hover:text-copper-400 transition-colors">Terms</Link></li>
-                <li><Link to="/cookies" className="hover:text-copper-400 transition-colors">Cookie Policy</Link></li>
-                <li><Link to="/manage-cookies" className="hover:text-copper-400 transition-colors">Manage Cookies</Link></li>
+                <li><Link to="/privacy" className="hover:text-copper-400 transition-colors">{t("checkout.privacyPolicy")}</Link></li>
+                <li><Link to="/terms" className="hover:text-copper-400 transition-colors">{t("checkout.terms")}</Link></li>
+                <li><Link to="/cookies" className="hover:text-copper-400 transition-colors">{t("checkout.cookiePolicy")}</Link></li>
+                <li><Link to="/manage-cookies" className="hover:text-copper-400 transition-colors">{t("checkout.manageCookies")}</Link></li>
               </ul>
             </div>
 
           </div>
 
           <div className="pt-8 border-t border-white/5 text-center text-sm text-stone-600">
-            <p>&copy; {new Date().getFullYear()} Maguey. All rights reserved.</p>
+            <p>&copy; {new Date().getFullYear()} Maguey. {t("common.allRightsReserved")}</p>
           </div>
         </div>
       </footer>
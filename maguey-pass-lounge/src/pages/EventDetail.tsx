@@ -11,28 +11,35 @@ import { VIPTableSection } from "@/components/VIPTableSection";
 import ShareButton from "@/components/ShareButton";
 import { getMarketingEventUrl } from "@/lib/marketingSiteConfig";
 import { supabase } from "@/lib/supabase";
-
-interface PriceTierInfo {
-  tier_price: number;
-  tier_name: string;
-  tier_remaining: number;
-}
+import { LanguageSwitcher } from "@/components/LanguageSwitcher";
+import { useLocale } from "@/hooks/use-locale";
+import { formatCurrency, formatDate, formatTime, WHOLE_DOLLARS } from "@/lib/i18n";
+import { getCountdown, formatCountdown, type CurrentPriceTier } from "@/lib/price-tiers";
 
 const EventDetail = () => {
   const { eventId } = useParams();
   const [searchParams] = useSearchParams();
+  const { locale, t } = useLocale();
   const [event, setEvent] = useState<EventWithTickets | null>(null);
   const [availability, setAvailability] = useState<EventAvailability | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   // Map of ticketTypeId → active price tier (null = no tiers, use base price)
-  const [priceTiers, setPriceTiers] = useState<Record<string, PriceTierInfo | null>>({});
+  const [priceTiers, setPriceTiers] = useState<Record<string, CurrentPriceTier | null>>({});
+  // Bumped when a tier's countdown runs out so the next tier is loaded
+  const [tierReloadKey, setTierReloadKey] = useState(0);
+  const [now, setNow] = useState(() => new Date());
 
-  // Capture promoter referral code from ?ref= param and persist through checkout
+  // Capture promoter referral code from ?ref= param and persist through checkout,
+  // and the marketing campaign from ?cmp= (campaign ticket links)
   useEffect(() => {
     const ref = searchParams.get("ref");
     if (ref) {
       sessionStorage.setItem("maguey_referral", ref);
     }
+    const cmp = searchParams.get("cmp");
+    if (cmp) {
+      sessionStorage.setItem("maguey_campaign", cmp);
+    }
   }, [searchParams]);
 
   // Load event data
@@ -60,21 +67,38 @@ const EventDetail = () => {
     if (!event?.ticketTypes?.length) return;
 
     async function loadTiers() {
-      const results: Record<string, PriceTierInfo | null> = {};
+      const results: Record<string, CurrentPriceTier | null> = {};
       await Promise.all(
         event!.ticketTypes.map(async (tt) => {
           const { data } = await supabase.rpc("get_current_tier_price", {
             p_ticket_type_id: tt.id,
           });
           // data is an array of 0 or 1 rows
-          results[tt.id] = data && data.length > 0 ? (data[0] as PriceTierInfo) : null;
+          results[tt.id] = data && data.length > 0 ? (data[0] as CurrentPriceTier) : null;
         })
       );
       setPriceTiers(results);
     }
 
     loadTiers().catch(console.error);
-  }, [event]);
+  }, [event, tierReloadKey]);
+
+  // Tick once a second while any tier has a scheduled end, and reload when one passes
+  useEffect(() => {
+    const endTimes = Object.values(priceTiers)
+      .map((tier) => (tier?.tier_ends_at ? new Date(tier.tier_ends_at).getTime() : null))
+      .filter((time): time is number => time !== null && time > Date.now());
+    if (endTimes.length === 0) return;
+
+    const timer = setInterval(() => {
+      const current = new Date();
+      setNow(current);
+      if (endTimes.some((time) => time <= current.getTime())) {
+        setTierReloadKey((key) => key + 1);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [priceTiers]);
 
 
   // Helper to get availability for a ticket type
@@ -108,39 +132,10 @@ const EventDetail = () => {
     return <Navigate to="/" replace />;
   }
 
-  // Format date for display
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    const days = ['SUNDAY', 'MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY'];
-    const months = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
-    return {
-      day: days[date.getDay()],
-      month: months[date.getMonth()],
-      dayNum: date.getDate(),
-    };
-  };
-
-  // Format date for VIP component (e.g., "Friday, December 26, 2025")
-  const formatDateForVIP = (dateString: string) => {
-    const date = new Date(dateString);
-    const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-    const months = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
-    return `${days[date.getDay()]}, ${months[date.getMonth()]} ${date.getDate()}, ${date.getFullYear()}`;
-  };
-
-  const dateInfo = formatDate(event.event_date);
-
-  const getFormattedTime = (time: string) => {
-    if (!time) return "";
-    const [hourStr, minuteStr] = time.split(":");
-    if (!hourStr || !minuteStr) return time;
-    const date = new Date();
-    date.setHours(Number(hourStr), Number(minuteStr));
-    return date.toLocaleTimeString("en-US", {
-      hour: "numeric",
-      minute: "2-digit",
-    });
-  };
+  // e.g. "FRIDAY, DEC 26" / "VIERNES, 26 DIC"
+  const displayDate = formatDate(event.event_date, { weekday: 'long', month: 'short', day: 'numeric' }, locale)
+    .replace(/\./g, '')
+    .toUpperCase();
 
   const eventImage = event.image_url || "/placeholder.svg";
   const venueName = event.venue_name || "Maguey Nightclub";
@@ -159,13 +154,13 @@ const EventDetail = () => {
   const getTicketDisplayName = (ticketName: string) => {
     // Format ticket names to match Wynn style
     if (ticketName.toLowerCase().includes('female')) {
-      return 'FEMALE - GENERAL ADMISSION';
+      return t('event.femaleGeneralAdmission').toUpperCase();
     }
     if (ticketName.toLowerCase().includes('male')) {
-      return 'MALE - GENERAL ADMISSION';
+      return t('event.maleGeneralAdmission').toUpperCase();
     }
     if (ticketName.toLowerCase().includes('expedited')) {
-      return 'EXPEDITED ENTRY ADMISSION';
+      return t('event.expeditedEntry').toUpperCase();
     }
     // Removed VIP - GENERAL ADMISSION - we only want GA tickets + VIP table reservations
     return ticketName.toUpperCase();
@@ -179,9 +174,12 @@ const EventDetail = () => {
           <div className="flex items-center justify-between">
             <Link to="/" className="flex items-center gap-2 text-muted-foreground hover:text-foreground transition-colors">
               <Music className="w-6 h-6 text-primary" />
-              <span className="text-sm">← Back to Events</span>
+              <span className="text-sm">← {t("common.backToEvents")}</span>
             </Link>
-            <AuthButton />
+            <div className="flex items-center gap-4">
+              <LanguageSwitcher className="text-muted-foreground" />
+              <AuthButton />
+            </div>
           </div>
         </div>
       </header>
@@ -205,10 +203,10 @@ const EventDetail = () => {
             
             <div className="flex flex-col md:flex-row md:items-center gap-3 mb-4">
               <div className="text-white text-base md:text-lg font-semibold tracking-wide">
-                {dateInfo.day}, {dateInfo.month} {dateInfo.dayNum}
+                {displayDate}
               </div>
               <div className="text-white text-sm md:text-base">
-                Start Time @ {getFormattedTime(event.event_time)}
+                {t("event.startTime", { time: formatTime(event.event_time, locale) })}
               </div>
             </div>
 
@@ -219,7 +217,7 @@ const EventDetail = () => {
               {event.age_restriction && (
                 <Badge className="bg-red-600/90 text-white border-none px-3 py-1.5 text-xs md:text-sm flex items-center gap-1.5">
                   <ShieldAlert className="w-3.5 h-3.5" />
-                  {event.age_restriction} ONLY
+                  {t("event.ageOnly", { age: event.age_restriction })}
                 </Badge>
               )}
             </div>
@@ -232,7 +230,7 @@ const EventDetail = () => {
                   document.getElementById('tickets')?.scrollIntoView({ behavior: 'smooth' });
                 }}
               >
-                BUY TICKETS
+                {t("common.buyTickets").toUpperCase()}
               </Button>
             </div>
           </div>
@@ -248,7 +246,7 @@ const EventDetail = () => {
             <div className="bg-white/90 backdrop-blur-sm rounded-lg p-8" style={{
               backgroundImage: `repeating-linear-gradient(45deg, transparent, transparent 14px, rgba(0,0,0,0.02) 14px, rgba(0,0,0,0.02) 28px)`
             }}>
-              <h2 className="text-2xl font-bold text-foreground mb-6 tracking-wide">LOCATION TYPE</h2>
+              <h2 className="text-2xl font-bold text-foreground mb-6 tracking-wide">{t("event.locationType").toUpperCase()}</h2>
 
               {/* Group tickets by category */}
               {(() => {
@@ -264,10 +262,10 @@ const EventDetail = () => {
 
                 // Category display order and labels
                 const categoryOrder: Array<{ key: string; label: string; badgeClass: string }> = [
-                  { key: 'vip', label: 'VIP', badgeClass: 'bg-yellow-500/20 text-yellow-700 border-yellow-500/50' },
-                  { key: 'service', label: 'Service', badgeClass: 'bg-purple-500/20 text-purple-700 border-purple-500/50' },
-                  { key: 'section', label: 'Sections', badgeClass: 'bg-blue-500/20 text-blue-700 border-blue-500/50' },
-                  { key: 'general', label: 'General Admission', badgeClass: 'bg-gray-500/20 text-gray-700 border-gray-500/50' },
+                  { key: 'vip', label: t('event.categoryVip'), badgeClass: 'bg-yellow-500/20 text-yellow-700 border-yellow-500/50' },
+                  { key: 'service', label: t('event.categoryService'), badgeClass: 'bg-purple-500/20 text-purple-700 border-purple-500/50' },
+                  { key: 'section', label: t('event.categorySections'), badgeClass: 'bg-blue-500/20 text-blue-700 border-blue-500/50' },
+                  { key: 'general', label: t('event.categoryGeneral'), badgeClass: 'bg-gray-500/20 text-gray-700 border-gray-500/50' },
                 ];
 
                 return (
@@ -302,13 +300,13 @@ const EventDetail = () => {
                                 {label}
                               </Badge>
                               <span className="text-sm text-muted-foreground">
-                                {sortedTickets.length} {sortedTickets.length === 1 ? 'option' : 'options'}
+                                {t(sortedTickets.length === 1 ? 'event.option' : 'event.options', { count: sortedTickets.length })}
                               </span>
                             </div>
                           )}
               <div className="space-y-4">
                             {sortedTickets.map((ticket) => {
-                  const totalPrice = (ticket.price + ticket.fee).toFixed(2);
+                  const totalPrice = formatCurrency(ticket.price + ticket.fee, locale);
                               const ticketAvail = getTicketAvailability(ticket.code);
                               const isSoldOut = ticketAvail ? ticketAvail.available <= 0 : false;
                               const isLowStock = ticketAvail ? ticketAvail.available > 0 && ticketAvail.available <= 5 : false;
@@ -316,10 +314,11 @@ const EventDetail = () => {
                   const tierInfo = priceTiers[ticket.id];
                   const activeTierPrice = tierInfo ? tierInfo.tier_price : null;
                   const tierDisplayPrice = activeTierPrice !== null
-                    ? (activeTierPrice + ticket.fee).toFixed(2)
+                    ? formatCurrency(activeTierPrice + ticket.fee, locale)
                     : totalPrice;
                   const isEarlyBird = activeTierPrice !== null && activeTierPrice < ticket.price;
                   const tierRemaining = tierInfo?.tier_remaining ?? null;
+                  const tierCountdown = tierInfo?.tier_ends_at ? getCountdown(new Date(tierInfo.tier_ends_at), now) : null;
 
                   return (
                     <div
@@ -347,7 +346,7 @@ const EventDetail = () => {
                             </div>
                             {isSoldOut && (
                               <Badge className="bg-red-500/10 text-red-600 border-red-500/20 text-xs font-medium">
-                                Sold Out
+                                {t("common.soldOut")}
                               </Badge>
                             )}
                           </div>
@@ -363,11 +362,11 @@ const EventDetail = () => {
                           <div className="pt-2 space-y-1">
                             <div className="flex items-baseline gap-2 flex-wrap">
                               <span className="text-3xl font-bold text-foreground">
-                                ${tierDisplayPrice}
+                                {tierDisplayPrice}
                               </span>
                               {isEarlyBird && (
                                 <span className="text-base text-muted-foreground line-through">
-                                  ${totalPrice}
+                                  {totalPrice}
                                 </span>
                               )}
                             </div>
@@ -380,11 +379,21 @@ const EventDetail = () => {
                                 </span>
                                 {tierRemaining !== null && tierRemaining <= 20 && tierRemaining > 0 && (
                                   <span className="text-xs text-amber-500">
-                                    — Only {tierRemaining} left at this price!
+                                    — {t("event.onlyLeft", { count: tierRemaining })}
                                   </span>
                                 )}
                               </div>
                             )}
+                            {tierInfo && tierCountdown && (
+                              <div className="text-xs text-muted-foreground tabular-nums">
+                                {t("event.priceEndsIn", { time: formatCountdown(tierCountdown) })}
+                                {tierInfo.next_tier_price !== null && (
+                                  <> · {t("event.nextTierPrice", {
+                                    price: formatCurrency(Number(tierInfo.next_tier_price) + ticket.fee, locale),
+                                  })}</>
+                                )}
+                              </div>
+                            )}
                           </div>
                         </div>
 
@@ -395,7 +404,7 @@ const EventDetail = () => {
                             disabled={isSoldOut}
                             className="bg-[#8B2635] hover:bg-[#7a1f2d] text-white px-8 py-6 text-sm font-semibold tracking-wider uppercase shadow-md hover:shadow-xl transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
                           >
-                            {isSoldOut ? 'SOLD OUT' : 'BUY TICKETS'}
+                            {(isSoldOut ? t("common.soldOut") : t("common.buyTickets")).toUpperCase()}
                           </Button>
                         </div>
                       </div>
@@ -416,19 +425,19 @@ const EventDetail = () => {
                   <div className="flex flex-col gap-4">
                     <div className="flex items-center gap-2">
                       <Wine className="w-5 h-5 text-amber-400" />
-                      <h3 className="text-lg font-bold text-amber-400">VIP Bottle Service</h3>
+                      <h3 className="text-lg font-bold text-amber-400">{t("event.vipBottleService")}</h3>
                     </div>
                     <p className="text-gray-300 text-sm">
-                      Reserve a premium table with bottle service for your group • Starting at $600
+                      {t("event.vipBottleServiceDescription", { price: formatCurrency(600, locale, WHOLE_DOLLARS) })}
                     </p>
                     <Link 
                       to={`/events/${event.id}/vip-tables`}
                       className="w-full py-4 px-6 bg-amber-500 hover:bg-amber-400 text-black font-bold text-lg rounded-lg transition-all shadow-lg hover:shadow-xl text-center"
                     >
-                      Reserve Your Table
+                      {t("common.reserveYourTable")}
                     </Link>
                     <p className="text-amber-500/70 text-xs text-center">
-                      ⚠️ Table reservation does not include event entry. All guests must purchase GA tickets.
+                      ⚠️ {t("event.tableNoEntry")}
                     </p>
                   </div>
                 </div>
@@ -501,7 +510,7 @@ const EventDetail = () => {
                   <div className="flex items-start gap-3">
                     <ShieldAlert className="w-5 h-5 text-red-600 mt-0.5 flex-shrink-0" />
                     <p className="text-sm text-foreground leading-relaxed font-medium">
-                      ALL GUESTS MUST BE AT LEAST {event.age_restriction === "21+" ? "21" : "18"} YEARS OF AGE WITH A VALID GOVERNMENT ISSUED ID TO BE PRESENTED AT THE TIME OF CHECK-IN.
+                      {t("event.ageNotice", { age: event.age_restriction === "21+" ? "21" : "18" }).toUpperCase()}
                     </p>
                   </div>
                 </div>
@@ -512,7 +521,7 @@ const EventDetail = () => {
                 <ShareButton
                   url={eventId ? getMarketingEventUrl(eventId) : window.location.href}
                   title={event.name}
-                  text={`${event.name} at ${venueName} — ${dateInfo.day}, ${dateInfo.month} ${dateInfo.dayNum}`}
+                  text={t("event.shareText", { name: event.name, venue: venueName, date: displayDate })}
                 />
               </div>
 
@@ -534,13 +543,13 @@ const EventDetail = () => {
                   to="/policies" 
                   className="block text-[#8B2635] hover:underline text-sm font-medium"
                 >
-                  Frequently Asked Questions
+                  {t("event.faq")}
                 </Link>
                 <Link 
                   to="/policies" 
                   className="block text-[#8B2635] hover:underline text-sm font-medium"
                 >
-                  Policies
+                  {t("event.policies")}
                 </Link>
               </div>
             </div>
@@ -551,7 +560,7 @@ const EventDetail = () => {
       {/* Event Description Section */}
       <section className="py-12 bg-background">
         <div className="container mx-auto px-4 max-w-4xl">
-          <h2 className="text-3xl font-bold mb-6">About This Event</h2>
+          <h2 className="text-3xl font-bold mb-6">{t("event.aboutThisEvent")}</h2>
           <p className="text-muted-foreground leading-relaxed text-lg">
             {event.description}
           </p>
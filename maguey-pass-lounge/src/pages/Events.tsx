@@ -60,12 +60,17 @@ const Events = () => {
   const [searchParams] = useSearchParams();
   const [events, setEvents] = useState<Event[]>([]);
 
-  // Capture promoter referral code from ?ref= param and persist through checkout
+  // Capture promoter referral code from ?ref= param and persist through checkout,
+  // and the marketing campaign from ?cmp= (campaign ticket links)
   useEffect(() => {
     const ref = searchParams.get("ref");
     if (ref) {
       sessionStorage.setItem("maguey_referral", ref);
     }
+    const cmp = searchParams.get("cmp");
+    if (cmp) {
+      sessionStorage.setItem("maguey_campaign", cmp);
+    }
   }, [searchParams]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -38,6 +38,7 @@ const Payment = () => {
   const [eventLoading, setEventLoading] = useState(true);
   const [tickets, setTickets] = useState<Array<{ id: string; name: string; quantity: number; price: number; fee: number }>>([]);
   const [promoCode, setPromoCode] = useState("");
+  const [loyaltyCredits, setLoyaltyCredits] = useState(0);
 
   const fees = useMemo(() => {
     let subtotal = 0;
@@ -79,6 +80,11 @@ const Payment = () => {
         setPromoCode(promoParam);
       }
 
+      const creditsParam = Number(searchParams.get("loyaltyCredits"));
+      if (creditsParam > 0) {
+        setLoyaltyCredits(creditsParam);
+      }
+
       // Check for VIP invite code (for linking GA tickets to VIP reservation)
       const vipParam = searchParams.get("vipInviteCode");
       // We'll use this when creating the checkout session
@@ -156,6 +162,9 @@ const Payment = () => {
       // Get promoter referral code (URL param takes precedence over sessionStorage)
       const referralCode = searchParams.get("ref") || sessionStorage.getItem("maguey_referral") || undefined;
 
+      // Marketing campaign the guest came from, same precedence
+      const campaignId = searchParams.get("cmp") || sessionStorage.getItem("maguey_campaign") || undefined;
+
       const session = await createCheckoutSession({
         eventId,
         tickets: stripeTickets,
@@ -167,6 +176,9 @@ const Payment = () => {
         cancelUrl,
         vipInviteCode,
         referralCode,
+        campaignId,
+        promoCode: promoCode || undefined,
+        loyaltyCredits: loyaltyCredits || undefined,
       });
 
       toast.success("Redirecting to Stripe...", { id: toastId });
@@ -183,10 +195,13 @@ const Payment = () => {
         customerEmail: user?.email,
         paymentType: 'ga_ticket',
         eventId: searchParams.get("event") || undefined,
+        // Back to this checkout once signed in
+        onLoginRequired: () =>
+          navigate("/login", { state: { from: { pathname: `/payment?${searchParams.toString()}` } } }),
       });
       setIsLoading(false);
     }
-  }, [searchParams, tickets, user, fees]);
+  }, [searchParams, tickets, user, fees, promoCode, loyaltyCredits, navigate]);
 
   if (eventLoading) {
     return (
@@ -308,6 +323,18 @@ const Payment = () => {
                       <span className="text-stone-100">${(fees.xsFees + fees.processingFees + fees.entertainmentTax).toFixed(2)}</span>
                     </div>
                   )}
+                  {promoCode && (
+                    <div className="flex items-center gap-2 text-emerald-400">
+                      <span>Promo {promoCode}</span>
+                      <span>discount applied at Stripe Checkout</span>
+                    </div>
+                  )}
+                  {loyaltyCredits > 0 && (
+                    <div className="flex items-center gap-2 text-emerald-400">
+                      <span>Loyalty credit -${loyaltyCredits.toFixed(2)}</span>
+                      <span>applied at Stripe Checkout</span>
+                    </div>
+                  )}
                   <div className="flex items-center gap-2 font-semibold">
                     <span className="text-stone-100">Total</span>
                     <span className="text-copper-400">${fees.total.toFixed(2)}</span>
@@ -0,0 +1,241 @@
+// Reschedule Response - Holder keeps their tickets or asks for a refund after an event moves
+import { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { Calendar, CalendarClock, CheckCircle, Clock, Loader2, RotateCcw, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  formatEventStart,
+  getRescheduleResponseState,
+  type RescheduleChoice,
+  type RescheduleResponseDetails,
+} from '@/lib/event-reschedule';
+import { getRescheduleResponse, respondToReschedule } from '@/lib/event-reschedule-service';
+
+export default function RescheduleResponse() {
+  const { token } = useParams();
+  const [response, setResponse] = useState<RescheduleResponseDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState<RescheduleChoice | null>(null);
+  const [confirmRefund, setConfirmRefund] = useState(false);
+
+  useEffect(() => {
+    loadResponse();
+  }, [token]);
+
+  const loadResponse = async () => {
+    if (!token) {
+      setError('Invalid link');
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const data = await getRescheduleResponse(token);
+      if (!data) {
+        setError('This link is not valid');
+      } else {
+        setResponse(data);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load this link');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleChoice = async (choice: RescheduleChoice) => {
+    if (!token) return;
+    setSubmitting(choice);
+    try {
+      await respondToReschedule(token, choice);
+      toast.success(choice === 'keep' ? "You're all set for the new date" : 'Your refund is on its way');
+      setConfirmRefund(false);
+      await loadResponse();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not save your choice');
+      await loadResponse();
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-zinc-950 via-amber-950/20 to-zinc-950 flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-2 border-amber-500 border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  if (error || !response) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-zinc-950 via-red-950/20 to-zinc-950 flex items-center justify-center p-6">
+        <div className="text-center">
+          <XCircle className="w-16 h-16 text-red-500 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-white mb-2">Invalid Link</h1>
+          <p className="text-gray-400 mb-6">{error}</p>
+          <Link
+            to="/"
+            className="inline-flex items-center gap-2 bg-zinc-800 text-white px-6 py-3 rounded-xl hover:bg-zinc-700 transition-colors"
+          >
+            Go Home
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const state = getRescheduleResponseState(response);
+  const isVip = response.kind === 'vip';
+  const what = isVip ? 'table' : 'tickets';
+  const deadline = new Date(response.refund_deadline).toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-zinc-950 via-amber-950/20 to-zinc-950 p-4 sm:p-6 flex items-center">
+      <div className="max-w-md w-full mx-auto">
+        <div className="bg-gradient-to-br from-amber-900/30 to-zinc-900 rounded-3xl border border-amber-500/30 overflow-hidden shadow-2xl shadow-amber-500/10">
+          {/* Header */}
+          <div className="bg-gradient-to-r from-amber-500 to-yellow-500 p-6 text-center">
+            <div className="flex items-center justify-center gap-2 mb-2">
+              <CalendarClock className="w-6 h-6 text-black" />
+              <span className="text-black font-bold text-lg uppercase tracking-wider">Event Rescheduled</span>
+            </div>
+            <p className="text-black/70 text-sm font-medium">
+              {response.holder_name ? `Hi ${response.holder_name.split(' ')[0]}` : 'Your booking has moved'}
+            </p>
+          </div>
+
+          <div className="p-6 space-y-5">
+            <div>
+              <h1 className="text-2xl font-bold text-white">{response.event_name}</h1>
+              <div className="mt-3 space-y-1 text-sm">
+                <p className="flex items-center gap-2 text-gray-500 line-through">
+                  <Calendar className="w-4 h-4" />
+                  {formatEventStart(response.previous_date, response.previous_time)}
+                </p>
+                <p className="flex items-center gap-2 text-white font-medium">
+                  <Calendar className="w-4 h-4 text-amber-400" />
+                  {formatEventStart(response.new_date, response.new_time)}
+                </p>
+              </div>
+              {response.reason && (
+                <p className="mt-3 text-sm text-gray-400 italic">"{response.reason}"</p>
+              )}
+            </div>
+
+            <div className="bg-zinc-900/60 rounded-2xl border border-zinc-800 p-4 flex items-center justify-between">
+              <span className="text-gray-400">You paid</span>
+              <span className="text-2xl font-bold text-amber-400">${response.amount.toFixed(2)}</span>
+            </div>
+
+            {state === 'open' ? (
+              <>
+                <p className="text-sm text-gray-300">
+                  Your {what} {isVip ? 'carries' : 'carry'} over to the new date. If you can't make it, you can get a full refund instead.
+                </p>
+                <p className="flex items-center gap-2 text-sm text-gray-400">
+                  <Clock className="w-4 h-4 text-amber-400" />
+                  Refunds available until {deadline}
+                </p>
+
+                {response.choice === 'keep' && (
+                  <div className="flex items-start gap-3 text-emerald-400">
+                    <CheckCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+                    <p className="text-sm">You're keeping your {what}. You can still change your mind until the deadline.</p>
+                  </div>
+                )}
+                {response.refund_status === 'failed' && (
+                  <div className="flex items-start gap-3 text-red-400">
+                    <XCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+                    <p className="text-sm">Your refund didn't go through. Please try again or contact us.</p>
+                  </div>
+                )}
+
+                {response.choice !== 'keep' && (
+                  <button
+                    onClick={() => handleChoice('keep')}
+                    disabled={submitting !== null}
+                    className="w-full bg-gradient-to-r from-amber-500 to-yellow-500 text-black font-bold py-4 rounded-xl flex items-center justify-center gap-2 hover:opacity-90 transition-opacity disabled:opacity-60"
+                  >
+                    {submitting === 'keep' ? <Loader2 className="w-5 h-5 animate-spin" /> : <CheckCircle className="w-5 h-5" />}
+                    Keep My {isVip ? 'Table' : 'Tickets'}
+                  </button>
+                )}
+
+                {confirmRefund ? (
+                  <div className="space-y-3 rounded-2xl border border-red-500/30 bg-red-950/20 p-4">
+                    <p className="text-sm text-gray-300">
+                      Refund ${response.amount.toFixed(2)} to the card you paid with? Your {what} will stop working right away.
+                    </p>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => setConfirmRefund(false)}
+                        disabled={submitting !== null}
+                        className="flex-1 bg-zinc-800 text-white py-3 rounded-xl hover:bg-zinc-700 transition-colors disabled:opacity-60"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => handleChoice('refund')}
+                        disabled={submitting !== null}
+                        className="flex-1 bg-red-600 text-white font-semibold py-3 rounded-xl flex items-center justify-center gap-2 hover:bg-red-500 transition-colors disabled:opacity-60"
+                      >
+                        {submitting === 'refund' && <Loader2 className="w-4 h-4 animate-spin" />}
+                        Refund Me
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => setConfirmRefund(true)}
+                    disabled={submitting !== null}
+                    className="w-full bg-zinc-800 text-white py-3 rounded-xl flex items-center justify-center gap-2 hover:bg-zinc-700 transition-colors disabled:opacity-60"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                    I Can't Make It — Refund Me
+                  </button>
+                )}
+              </>
+            ) : state === 'refunded' || state === 'processing' ? (
+              <div className="flex items-start gap-3 text-emerald-400">
+                <CheckCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+                <p className="text-sm">
+                  {state === 'refunded'
+                    ? `Your refund has been issued to the card you paid with and can take 5-10 business days to appear. A confirmation was emailed to ${response.holder_email}.`
+                    : 'Your refund is being processed.'}
+                </p>
+              </div>
+            ) : state === 'superseded' ? (
+              <div className="flex items-start gap-3 text-gray-400">
+                <CalendarClock className="w-5 h-5 flex-shrink-0 mt-0.5 text-amber-400" />
+                <p className="text-sm">
+                  This event has been rescheduled again. Use the link in the newest email we sent to {response.holder_email}.
+                </p>
+              </div>
+            ) : (
+              <div className="flex items-start gap-3 text-gray-400">
+                <CheckCircle className="w-5 h-5 flex-shrink-0 mt-0.5 text-emerald-400" />
+                <p className="text-sm">
+                  The refund deadline has passed. Your {what} {isVip ? 'is' : 'are'} valid for the new date.
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="text-center mt-6">
+          <Link to={`/event/${response.event_id}`} className="text-sm text-amber-400 hover:underline">
+            View event
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
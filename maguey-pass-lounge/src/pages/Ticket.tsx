@@ -1,21 +1,28 @@
-import { Link, useParams, useNavigate } from "react-router-dom";
-import { Calendar, MapPin, User, QrCode, Download, Share2, Loader2, AlertCircle, Wallet, ArrowLeft } from "lucide-react";
+import { Link, useParams, useNavigate, useSearchParams } from "react-router-dom";
+import { Calendar, MapPin, User, QrCode, Download, Share2, Loader2, AlertCircle, Wallet, ArrowLeft, ArrowUpCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useState, useEffect, useRef } from "react";
 import { getTicketById, type UserTicket } from "@/lib/orders-service";
+import { addToAppleWallet, addToGoogleWallet, type WalletPlatform } from "@/lib/wallet-pass-service";
 import { toast } from "sonner";
 import html2canvas from 'html2canvas';
 import QRCode from 'react-qr-code';
 import { CustomCursor } from "@/components/CustomCursor";
+import { UpgradeTicketDialog } from "@/components/dashboard/UpgradeTicketDialog";
+import { useAuth } from "@/contexts/AuthContext";
 
 const Ticket = () => {
   const { ticketId } = useParams();
   const navigate = useNavigate();
+  const { user } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [ticket, setTicket] = useState<UserTicket | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isDownloading, setIsDownloading] = useState(false);
+  const [walletLoading, setWalletLoading] = useState<WalletPlatform | null>(null);
+  const [upgradeOpen, setUpgradeOpen] = useState(false);
   const ticketRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -48,6 +55,18 @@ const Ticket = () => {
     loadTicket();
   }, [ticketId]);
 
+  // Returning from the upgrade Stripe Checkout
+  useEffect(() => {
+    if (searchParams.get('upgraded') === 'true') {
+      toast.success('Payment received! Your upgraded ticket and new QR code will appear shortly.');
+    } else if (searchParams.get('upgrade_canceled') === 'true') {
+      toast.info('Upgrade canceled. Your ticket has not changed.');
+    } else {
+      return;
+    }
+    setSearchParams({}, { replace: true });
+  }, [searchParams, setSearchParams]);
+
   const formatTicketDisplayName = (rawName: string) => {
     const name = rawName.toLowerCase();
     if (name.includes("female") && name.includes("general")) {
@@ -158,24 +177,23 @@ const Ticket = () => {
     }
   };
 
-  // Add to Apple Wallet
-  const handleAddToAppleWallet = () => {
+  // Add to Apple Wallet / Google Wallet
+  const handleAddToWallet = async (platform: WalletPlatform) => {
     if (!ticket) return;
-    toast.info('Apple Wallet integration coming soon!', {
-      description: 'We are working on adding Apple Wallet support for your tickets.',
-    });
-    // TODO: Implement Apple Wallet pass generation
-    // This requires a backend service to generate .pkpass files
-  };
-
-  // Add to Google Wallet
-  const handleAddToGoogleWallet = () => {
-    if (!ticket) return;
-    toast.info('Google Wallet integration coming soon!', {
-      description: 'We are working on adding Google Wallet support for your tickets.',
-    });
-    // TODO: Implement Google Wallet pass generation
-    // This requires Google Wallet API integration
+    setWalletLoading(platform);
+    try {
+      const pass = { kind: 'ticket' as const, ticketId: ticket.ticket_id, qrCode: ticket.qr_code_value };
+      if (platform === 'apple') {
+        await addToAppleWallet(pass);
+      } else {
+        await addToGoogleWallet(pass);
+      }
+    } catch (err) {
+      console.error('Error adding ticket to wallet:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to add ticket to wallet');
+    } finally {
+      setWalletLoading(null);
+    }
   };
 
   if (loading) {
@@ -203,6 +221,10 @@ const Ticket = () => {
   }
 
   const displayTicketType = formatTicketDisplayName(ticket.ticket_type_name);
+  // Upgrades are bought by the signed-in holder before the ticket is used
+  const canUpgrade = !!user?.email
+    && user.email.toLowerCase() === ticket.attendee_email?.toLowerCase()
+    && ['issued', 'valid', 'confirmed'].includes(ticket.status);
   const venueAddress = ticket.venue_address 
     ? `${ticket.venue_address}, ${ticket.city || ''}`.trim()
     : ticket.city || '123 Main St, Wilmington, DE 19801';
@@ -425,21 +447,42 @@ const Ticket = () => {
             <Button 
               variant="outline" 
               className="w-full border-white/20 text-stone-300 hover:bg-white/10 rounded-sm"
-              onClick={handleAddToAppleWallet}
+              onClick={() => handleAddToWallet('apple')}
+              disabled={walletLoading !== null}
             >
-              <Wallet className="w-4 h-4 mr-2" />
+              {walletLoading === 'apple' ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Wallet className="w-4 h-4 mr-2" />
+              )}
               Apple Wallet
             </Button>
             <Button 
               variant="outline" 
               className="w-full border-white/20 text-stone-300 hover:bg-white/10 rounded-sm"
-              onClick={handleAddToGoogleWallet}
+              onClick={() => handleAddToWallet('google')}
+              disabled={walletLoading !== null}
             >
-              <Wallet className="w-4 h-4 mr-2" />
+              {walletLoading === 'google' ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Wallet className="w-4 h-4 mr-2" />
+              )}
               Google Wallet
             </Button>
           </div>
 
+          {canUpgrade && (
+            <Button
+              variant="outline"
+              className="w-full border-copper-400/50 text-copper-400 hover:bg-copper-400/10 rounded-sm"
+              onClick={() => setUpgradeOpen(true)}
+            >
+              <ArrowUpCircle className="w-4 h-4 mr-2" />
+              Upgrade Ticket
+            </Button>
+          )}
+
           {/* Important Info */}
           <div className="glass-panel rounded-sm p-4">
             <h3 className="font-semibold mb-2 text-sm text-stone-200">Important Information</h3>
@@ -463,6 +506,12 @@ const Ticket = () => {
           </div>
         </div>
       </div>
+
+      <UpgradeTicketDialog
+        ticket={ticket}
+        open={upgradeOpen}
+        onOpenChange={setUpgradeOpen}
+      />
     </div>
   );
 };
@@ -0,0 +1,100 @@
+// Unsubscribe - Stop marketing emails or texts from the link in a campaign
+import { useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { BellOff, CheckCircle, Loader2, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { unsubscribeFromMarketing, type UnsubscribeResult } from '@/lib/marketing-unsubscribe-service';
+
+export default function Unsubscribe() {
+  const { token } = useParams();
+  const [result, setResult] = useState<UnsubscribeResult | null>(null);
+  const [error, setError] = useState(token ? '' : 'Invalid link');
+  const [submitting, setSubmitting] = useState(false);
+
+  // Unsubscribing waits for a click: mail scanners open links on their own
+  const handleUnsubscribe = async () => {
+    if (!token) return;
+    setSubmitting(true);
+    try {
+      const data = await unsubscribeFromMarketing(token);
+      if (!data) {
+        setError('This link is not valid');
+      } else {
+        setResult(data);
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not unsubscribe you');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-zinc-950 via-red-950/20 to-zinc-950 flex items-center justify-center p-6">
+        <div className="text-center">
+          <XCircle className="w-16 h-16 text-red-500 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-white mb-2">Invalid Link</h1>
+          <p className="text-gray-400 mb-6">{error}</p>
+          <Link
+            to="/"
+            className="inline-flex items-center gap-2 bg-zinc-800 text-white px-6 py-3 rounded-xl hover:bg-zinc-700 transition-colors"
+          >
+            Go Home
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const what = result?.channel === 'sms' ? 'texts' : 'emails';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-zinc-950 via-amber-950/20 to-zinc-950 p-4 sm:p-6 flex items-center">
+      <div className="max-w-md w-full mx-auto">
+        <div className="bg-gradient-to-br from-amber-900/30 to-zinc-900 rounded-3xl border border-amber-500/30 overflow-hidden shadow-2xl shadow-amber-500/10">
+          {/* Header */}
+          <div className="bg-gradient-to-r from-amber-500 to-yellow-500 p-6 text-center">
+            <div className="flex items-center justify-center gap-2">
+              <BellOff className="w-6 h-6 text-black" />
+              <span className="text-black font-bold text-lg uppercase tracking-wider">Unsubscribe</span>
+            </div>
+          </div>
+
+          <div className="p-6 space-y-5">
+            {result ? (
+              <div className="flex items-start gap-3 text-emerald-400">
+                <CheckCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+                <div>
+                  <p className="font-medium">You're unsubscribed</p>
+                  <p className="text-sm text-gray-400 mt-1">
+                    {result.email} won't get any more marketing {what} from Maguey. Tickets and order emails still
+                    arrive as usual.
+                  </p>
+                </div>
+              </div>
+            ) : (
+              <>
+                <p className="text-sm text-gray-300">
+                  Stop getting Maguey event news and offers from this list? Tickets and order emails aren't affected.
+                </p>
+                <button
+                  onClick={handleUnsubscribe}
+                  disabled={submitting}
+                  className="w-full flex items-center justify-center gap-2 bg-gradient-to-r from-amber-500 to-yellow-500 text-black font-bold py-3 rounded-xl hover:opacity-90 transition-opacity disabled:opacity-50"
+                >
+                  {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                  Unsubscribe
+                </button>
+              </>
+            )}
+
+            <Link to="/events" className="block text-center text-sm text-gray-400 hover:text-white transition-colors">
+              See upcoming events
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,13 +2,14 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { useParams, useSearchParams, useNavigate, Link } from 'react-router-dom';
-import { ArrowLeft, Wine, Users, Calendar, Phone, Mail, User, PartyPopper, MessageSquare, CreditCard, MapPin, Clock, Sparkles, ChevronDown, Check, Loader2, Lock, Shield, AlertCircle, CheckCircle2, Crown, QrCode } from 'lucide-react';
+import { ArrowLeft, Wine, Users, Calendar, Phone, Mail, User, PartyPopper, MessageSquare, CreditCard, MapPin, Clock, Sparkles, ChevronDown, Check, Loader2, Lock, Shield, AlertCircle, CheckCircle2, Crown, QrCode, Split, Plus, X } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
 import { VipProgressIndicator } from '@/components/vip/VipProgressIndicator';
 import { CustomCursor } from '@/components/CustomCursor';
 import { Elements, PaymentElement, useStripe, useElements } from '@stripe/react-stripe-js';
 import { getStripe, createVipPaymentIntent, confirmVipPayment, type VipReservationConfirmation } from '@/lib/stripe';
 import { toast } from 'sonner';
+import { splitSharesInDollars, validateInvitees, type SplitFallback, type SplitInvitee } from '@/lib/vip-split-payment';
 
 // Custom VIP-styled Select Component
 interface VIPSelectOption {
@@ -360,13 +361,21 @@ export default function VIPBookingForm() {
   const [buyGuestTickets, setBuyGuestTickets] = useState(false);
   const [guestTicketCount, setGuestTicketCount] = useState(0);
 
+  // Split the bill (OPTIONAL — invitees pay their share of the table by link)
+  const [splitBill, setSplitBill] = useState(false);
+  const [invitees, setInvitees] = useState<SplitInvitee[]>([{ name: '', email: '' }]);
+  const [splitFallback, setSplitFallback] = useState<SplitFallback>('charge_host');
+  const [splitDeadline, setSplitDeadline] = useState<string | null>(null);
+
   // Derived price calculations
   const maxGuestTickets = Math.max(0, parseInt(tableCapacity || '6') - 1);
   const selectedTierPrice = ticketTiers.find(t => t.id === selectedTicketTier)?.price || 0;
   const selectedTierName = ticketTiers.find(t => t.id === selectedTicketTier)?.name || 'General Admission';
   const vipPrice = parseFloat(tablePrice || '0');
+  const tableShares = splitBill ? splitSharesInDollars(vipPrice, invitees.length + 1) : [vipPrice];
+  const hostTableShare = tableShares[0];
   const guestTicketTotal = buyGuestTickets ? guestTicketCount * selectedTierPrice : 0;
-  const totalAmount = vipPrice + selectedTierPrice + guestTicketTotal;
+  const totalAmount = hostTableShare + selectedTierPrice + guestTicketTotal;
 
   const [formData, setFormData] = useState<BookingFormData>({
     firstName: '',
@@ -466,6 +475,14 @@ export default function VIPBookingForm() {
       return;
     }
 
+    if (splitBill) {
+      const inviteeError = validateInvitees(invitees, formData.email, maxGuestTickets);
+      if (inviteeError) {
+        setError(inviteeError);
+        return;
+      }
+    }
+
     // Initialize payment instead of navigating
     await initializePayment();
   };
@@ -493,10 +510,8 @@ export default function VIPBookingForm() {
         throw new Error('Selected ticket tier not found');
       }
 
-      // Calculate total amount: VIP table + GA ticket
       const vipPrice = parseFloat(tablePrice);
       const ticketPrice = selectedTier.price;
-      const totalAmount = vipPrice + ticketPrice;
 
       const result = await createVipPaymentIntent({
         eventId,
@@ -523,9 +538,16 @@ export default function VIPBookingForm() {
         gaTicketCount: buyGuestTickets ? guestTicketCount : 0,
         gaTicketTypeId: buyGuestTickets && guestTicketCount > 0 ? selectedTier.id : undefined,
         gaTicketPrice: buyGuestTickets && guestTicketCount > 0 ? ticketPrice : undefined,
+        // Split the bill (OPTIONAL)
+        ...(splitBill && {
+          splitPayment: true,
+          invitees: invitees.map(invitee => ({ name: invitee.name.trim(), email: invitee.email.trim() })),
+          splitFallback,
+        }),
       });
 
       setClientSecret(result.clientSecret);
+      setSplitDeadline(result.splitDeadline ?? null);
       setPaymentIntentId(result.paymentIntentId);
       setReservationId(result.reservationId);
       setShowPayment(true);
@@ -542,7 +564,9 @@ export default function VIPBookingForm() {
   const handlePaymentSuccess = async (reservation: VipReservationConfirmation) => {
     setConfirmedReservation(reservation);
     setPaymentComplete(true);
-    toast.success('Payment successful! Your reservation is confirmed.');
+    toast.success(splitBill
+      ? 'Payment successful! Your guests have been emailed their pay links.'
+      : 'Payment successful! Your reservation is confirmed.');
 
     // Fetch the invite code (may take a moment to be generated by webhook)
     const fetchInviteCode = async (attempts = 0) => {
@@ -563,6 +587,10 @@ export default function VIPBookingForm() {
     fetchInviteCode();
   };
 
+  const updateInvitee = (index: number, field: keyof SplitInvitee, value: string) => {
+    setInvitees(prev => prev.map((invitee, i) => (i === index ? { ...invitee, [field]: value } : invitee)));
+  };
+
   const handlePaymentError = (errorMessage: string) => {
     setError(errorMessage);
     toast.error(errorMessage);
@@ -721,8 +749,8 @@ export default function VIPBookingForm() {
 
                 <div className="pt-4 border-t border-white/5 space-y-2">
                   <div className="flex justify-between items-center text-sm">
-                    <span className="text-stone-500">VIP Table {tableNumber}</span>
-                    <span className="text-stone-300">${vipPrice.toFixed(2)}</span>
+                    <span className="text-stone-500">{splitBill ? `Your Share of VIP Table ${tableNumber}` : `VIP Table ${tableNumber}`}</span>
+                    <span className="text-stone-300">${hostTableShare.toFixed(2)}</span>
                   </div>
                   <div className="flex justify-between items-center text-sm">
                     <span className="text-stone-500">Entry Ticket (Host)</span>
@@ -755,6 +783,25 @@ export default function VIPBookingForm() {
               </div>
             </div>
 
+            {/* Split Payment Pending */}
+            {splitBill && (
+              <div data-cy="vip-split-pending" className="bg-teal-500/5 border border-teal-500/20 rounded-sm p-6 mb-6">
+                <h3 className="font-semibold text-stone-200 mb-3 flex items-center gap-2">
+                  <Split className="w-4 h-4 text-teal-400" />
+                  Waiting on Your Guests
+                </h3>
+                <p className="text-sm text-stone-400 mb-3">
+                  We've emailed {invitees.length} guest{invitees.length !== 1 ? 's' : ''} a link to pay their ${tableShares[1]?.toFixed(2)} share.
+                  Your table is held until {splitDeadline ? new Date(splitDeadline).toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' }) : 'the deadline'}.
+                </p>
+                <p className="text-xs text-stone-500">
+                  {splitFallback === 'charge_host'
+                    ? 'Any unpaid shares will be charged to your card at the deadline.'
+                    : 'If anyone has not paid by the deadline, the table is released and every share is refunded.'}
+                </p>
+              </div>
+            )}
+
             {/* Invite Link Section */}
             {inviteCode && (
               <div data-cy="vip-invite-link" className="bg-gradient-to-r from-purple-500/10 to-pink-500/10 border border-purple-500/30 rounded-sm p-6 mb-6">
@@ -1155,10 +1202,11 @@ export default function VIPBookingForm() {
                       <span className="text-xs text-stone-600 font-normal ml-1">OPTIONAL</span>
                     </h2>
 
-                    <label className="flex items-start gap-3 cursor-pointer group mb-3">
+                    <label className={`flex items-start gap-3 group mb-3 ${splitBill ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}>
                       <input
                         type="checkbox"
                         checked={buyGuestTickets}
+                        disabled={splitBill}
                         onChange={(e) => {
                           setBuyGuestTickets(e.target.checked);
                           if (!e.target.checked) setGuestTicketCount(0);
@@ -1205,6 +1253,104 @@ export default function VIPBookingForm() {
                     )}
                   </div>
 
+                  {/* Split the Bill — Optional */}
+                  <div className="bg-white/[0.02] backdrop-blur-sm rounded-sm p-6 border border-white/5">
+                    <h2 className="text-lg text-stone-100 mb-4 flex items-center gap-3" style={{ fontFamily: "'Times New Roman', Georgia, serif" }}>
+                      <div className="w-8 h-8 rounded-full bg-teal-400/10 border border-teal-400/20 flex items-center justify-center">
+                        <Split className="w-4 h-4 text-teal-400" />
+                      </div>
+                      <span className="font-light tracking-wide">Split the Bill</span>
+                      <span className="text-xs text-stone-600 font-normal ml-1">OPTIONAL</span>
+                    </h2>
+
+                    <label className={`flex items-start gap-3 group mb-3 ${buyGuestTickets ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}>
+                      <input
+                        type="checkbox"
+                        data-cy="vip-split-checkbox"
+                        checked={splitBill}
+                        disabled={buyGuestTickets}
+                        onChange={(e) => setSplitBill(e.target.checked)}
+                        className="mt-1 w-5 h-5 rounded bg-forest-900 border-white/20 text-teal-400 focus:ring-teal-400/50 cursor-pointer"
+                      />
+                      <div>
+                        <span className="text-sm text-stone-200 group-hover:text-stone-100 transition-colors font-medium">
+                          Split the table price with your guests
+                        </span>
+                        <p className="text-xs text-stone-500 mt-1">
+                          You pay your share now; each guest gets an email link to pay theirs and receives their own VIP pass.
+                        </p>
+                      </div>
+                    </label>
+
+                    {splitBill && (
+                      <div className="mt-4 space-y-4 pl-8">
+                        {invitees.map((invitee, index) => (
+                          <div key={index} className="flex items-center gap-2">
+                            <input
+                              type="text"
+                              value={invitee.name}
+                              onChange={(e) => updateInvitee(index, 'name', e.target.value)}
+                              placeholder="Guest name"
+                              className="flex-1 min-w-0 bg-forest-900 border border-white/10 rounded-sm px-3 py-2 text-sm text-stone-100 placeholder-stone-600 focus:border-teal-400/50 focus:outline-none"
+                            />
+                            <input
+                              type="email"
+                              value={invitee.email}
+                              onChange={(e) => updateInvitee(index, 'email', e.target.value)}
+                              placeholder="guest@email.com"
+                              className="flex-1 min-w-0 bg-forest-900 border border-white/10 rounded-sm px-3 py-2 text-sm text-stone-100 placeholder-stone-600 focus:border-teal-400/50 focus:outline-none"
+                            />
+                            <button
+                              type="button"
+                              onClick={() => setInvitees(prev => prev.filter((_, i) => i !== index))}
+                              disabled={invitees.length === 1}
+                              className="p-2 text-stone-500 hover:text-red-400 disabled:opacity-30 disabled:hover:text-stone-500 transition-colors"
+                              aria-label="Remove guest"
+                            >
+                              <X className="w-4 h-4" />
+                            </button>
+                          </div>
+                        ))}
+
+                        {invitees.length < maxGuestTickets && (
+                          <button
+                            type="button"
+                            onClick={() => setInvitees(prev => [...prev, { name: '', email: '' }])}
+                            className="text-sm text-teal-400 hover:text-teal-300 flex items-center gap-1"
+                          >
+                            <Plus className="w-4 h-4" />
+                            Add guest
+                          </button>
+                        )}
+
+                        <div className="space-y-2">
+                          <p className="text-sm text-stone-400 font-medium">If someone hasn't paid by the deadline (48 hours, or 12 hours before the event)</p>
+                          {([
+                            ['charge_host', 'Charge the rest to my card'],
+                            ['release', 'Release the table and refund everyone'],
+                          ] as const).map(([value, label]) => (
+                            <label key={value} className="flex items-center gap-2 text-sm text-stone-300 cursor-pointer">
+                              <input
+                                type="radio"
+                                name="splitFallback"
+                                value={value}
+                                checked={splitFallback === value}
+                                onChange={() => setSplitFallback(value)}
+                                className="w-4 h-4 bg-forest-900 border-white/20 text-teal-400 focus:ring-teal-400/50"
+                              />
+                              {label}
+                            </label>
+                          ))}
+                        </div>
+
+                        <div className="flex justify-between items-center p-3 bg-teal-500/10 border border-teal-500/20 rounded-sm">
+                          <span className="text-stone-300">{invitees.length + 1} payers × ~${(tableShares[1] ?? hostTableShare).toFixed(2)}</span>
+                          <span className="font-semibold text-teal-400">You pay ${hostTableShare.toFixed(2)}</span>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
                   {/* Terms & Conditions */}
                   <div className="bg-copper-400/5 border border-copper-400/20 rounded-sm p-6">
                     <h3 className="font-semibold text-stone-200 mb-3">Important Information</h3>
@@ -1391,6 +1537,13 @@ export default function VIPBookingForm() {
                       <span className="text-stone-300">${tablePrice}</span>
                     </div>
 
+                    {splitBill && (
+                      <div className="flex justify-between items-center text-sm">
+                        <span className="text-stone-500">Paid by Guests ({invitees.length})</span>
+                        <span className="text-teal-400">−${(vipPrice - hostTableShare).toFixed(2)}</span>
+                      </div>
+                    )}
+
                     {selectedTicketTier && (
                       <div className="flex justify-between items-center text-sm">
                         <span className="text-stone-500">Entry Ticket (Host)</span>
@@ -1,9 +1,12 @@
 // VIP Guest Dashboard - Shows guest list for VIP table bookers
 import { useState, useEffect } from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { ArrowLeft, Users, Crown, Calendar, MapPin, Check, Copy, Wine, Loader2, UserCheck, Clock } from 'lucide-react';
+import { ArrowLeft, Users, Crown, Calendar, MapPin, Check, Copy, Wine, Loader2, UserCheck, Clock, Split } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
+import { formatShareStatus, sharePayLink, summarizeShares, type PaymentShare } from '@/lib/vip-split-payment';
+import { getReservationShares } from '@/lib/vip-split-payment-service';
 import { CustomCursor } from '@/components/CustomCursor';
+import BottleServicePanel from '@/components/vip/BottleServicePanel';
 import { toast } from 'sonner';
 
 interface LinkedTicket {
@@ -27,6 +30,9 @@ interface VIPReservation {
   purchaser_email: string;
   status: string;
   invite_code: string | null;
+  payment_mode: 'full' | 'split' | null;
+  split_deadline: string | null;
+  split_fallback: 'charge_host' | 'release' | null;
   created_at: string;
   event_vip_tables: {
     capacity: number;
@@ -50,6 +56,8 @@ export default function VIPGuestDashboard() {
   const [linkedTickets, setLinkedTickets] = useState<LinkedTicket[]>([]);
   const [event, setEvent] = useState<Event | null>(null);
   const [inviteLinkCopied, setInviteLinkCopied] = useState(false);
+  const [shares, setShares] = useState<PaymentShare[]>([]);
+  const [copiedShareId, setCopiedShareId] = useState<string | null>(null);
 
   useEffect(() => {
     loadData();
@@ -96,6 +104,11 @@ export default function VIPGuestDashboard() {
       if (!ticketsError && tickets) {
         setLinkedTickets(tickets);
       }
+
+      // Who has paid their share of a split table
+      if ((res as VIPReservation).payment_mode === 'split') {
+        setShares(await getReservationShares(reservationId));
+      }
     } catch (err) {
       console.error('Error loading data:', err);
     } finally {
@@ -113,6 +126,13 @@ export default function VIPGuestDashboard() {
     setTimeout(() => setInviteLinkCopied(false), 2000);
   };
 
+  const copySharePayLink = (share: PaymentShare) => {
+    navigator.clipboard.writeText(sharePayLink(window.location.origin, share.pay_token));
+    setCopiedShareId(share.id);
+    toast.success(`Pay link for ${share.payer_name || share.payer_email} copied!`);
+    setTimeout(() => setCopiedShareId(null), 2000);
+  };
+
   const formatDate = (dateStr: string) => {
     if (!dateStr) return '';
     const date = new Date(dateStr);
@@ -131,6 +151,7 @@ export default function VIPGuestDashboard() {
   const capacity = reservation?.event_vip_tables?.capacity || 6;
   const linkedCount = linkedTickets.length;
   const remainingSpots = capacity - linkedCount;
+  const splitProgress = summarizeShares(shares);
 
   if (loading) {
     return (
@@ -265,6 +286,70 @@ export default function VIPGuestDashboard() {
           )}
         </div>
 
+        {/* Split Payment Status */}
+        {shares.length > 0 && (
+          <div className="bg-white/[0.02] backdrop-blur-sm rounded-sm border border-white/5 mb-6">
+            <div className="p-4 border-b border-white/5 flex items-center justify-between">
+              <h3 className="text-stone-200 font-medium flex items-center gap-2">
+                <Split className="w-5 h-5 text-teal-400" />
+                Split Payment
+              </h3>
+              <span className="text-sm text-stone-400">
+                {splitProgress.paidCount} / {splitProgress.payerCount} paid
+              </span>
+            </div>
+            {reservation.status === 'pending' && reservation.split_deadline && (
+              <p className="px-4 pt-3 text-xs text-stone-500">
+                ${splitProgress.outstandingAmount.toFixed(2)} outstanding. Due {new Date(reservation.split_deadline).toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                {reservation.split_fallback === 'charge_host'
+                  ? ' — unpaid shares will then be charged to your card.'
+                  : ' — if anyone has not paid, the table is released and everyone refunded.'}
+              </p>
+            )}
+            <div className="divide-y divide-white/5">
+              {shares.map((share) => (
+                <div key={share.id} className="p-4 flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-stone-200 font-medium truncate">
+                      {share.payer_name || share.payer_email}
+                      {share.is_host && <span className="ml-2 text-xs text-copper-400">(You)</span>}
+                    </p>
+                    <p className="text-sm text-stone-500">${share.amount.toFixed(2)}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className={`px-2 py-1 rounded-full text-xs ${share.status === 'paid' || share.status === 'covered_by_host'
+                      ? 'bg-green-500/20 text-green-400'
+                      : share.status === 'pending'
+                        ? 'bg-copper-400/20 text-copper-400'
+                        : 'bg-stone-500/20 text-stone-400'
+                      }`}>
+                      {formatShareStatus(share.status)}
+                    </span>
+                    {share.status === 'pending' && !share.is_host && (
+                      <button
+                        onClick={() => copySharePayLink(share)}
+                        className="p-2 text-stone-400 hover:text-teal-400 transition-colors"
+                        aria-label="Copy pay link"
+                      >
+                        {copiedShareId === share.id ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Bottle Service */}
+        {['confirmed', 'checked_in', 'completed'].includes(reservation.status) && (
+          <BottleServicePanel
+            reservationId={reservation.id}
+            reservationStatus={reservation.status}
+            eventId={reservation.event_id}
+          />
+        )}
+
         {/* Invite Link */}
         {reservation.invite_code && (
           <div className="bg-gradient-to-r from-purple-500/10 to-pink-500/10 border border-purple-500/30 rounded-sm p-6 mb-6">
@@ -1,7 +1,9 @@
 import { useState, useEffect } from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { Wine, Calendar, MapPin, Users, Clock, Crown, CheckCircle, XCircle, Sparkles } from 'lucide-react';
+import { Wine, Calendar, MapPin, Users, Clock, Crown, CheckCircle, XCircle, Sparkles, Wallet, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
 import { supabase } from '@/lib/supabase';
+import { addToAppleWallet, addToGoogleWallet, type WalletPlatform } from '@/lib/wallet-pass-service';
 import { QRCodeSVG } from 'qrcode.react';
 
 interface PassData {
@@ -44,6 +46,7 @@ export default function VIPPassView() {
   const [reservation, setReservation] = useState<ReservationData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
+  const [walletLoading, setWalletLoading] = useState<WalletPlatform | null>(null);
 
   useEffect(() => {
     loadPass();
@@ -80,6 +83,24 @@ export default function VIPPassView() {
     });
   };
 
+  const handleAddToWallet = async (platform: WalletPlatform) => {
+    if (!token) return;
+    setWalletLoading(platform);
+    try {
+      const walletPass = { kind: 'vip_guest_pass' as const, token };
+      if (platform === 'apple') {
+        await addToAppleWallet(walletPass);
+      } else {
+        await addToGoogleWallet(walletPass);
+      }
+    } catch (err) {
+      console.error('Error adding pass to wallet:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to add pass to wallet');
+    } finally {
+      setWalletLoading(null);
+    }
+  };
+
   const formatTier = (tier: string) => {
     return tier?.replace('_', ' ').replace(/\b\w/g, (l: string) => l.toUpperCase()) || 'Standard';
   };
@@ -270,6 +291,23 @@ export default function VIPPassView() {
         </div>
 
         {/* Add to Wallet / Save CTA */}
+        <div className="mt-4 grid grid-cols-2 gap-3">
+          {(['apple', 'google'] as const).map((platform) => (
+            <button
+              key={platform}
+              onClick={() => handleAddToWallet(platform)}
+              disabled={walletLoading !== null}
+              className="flex items-center justify-center gap-2 bg-zinc-900 border border-amber-500/30 text-amber-400 text-sm font-medium px-4 py-3 rounded-xl hover:bg-zinc-800 transition-colors disabled:opacity-50"
+            >
+              {walletLoading === platform ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Wallet className="w-4 h-4" />
+              )}
+              {platform === 'apple' ? 'Apple Wallet' : 'Google Wallet'}
+            </button>
+          ))}
+        </div>
         <div className="mt-4 text-center">
           <p className="text-gray-500 text-xs">
             Screenshot this pass for offline access
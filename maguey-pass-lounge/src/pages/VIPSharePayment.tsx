@@ -0,0 +1,186 @@
+// VIP Share Payment - Invitee pays their share of a split VIP table
+import { useState, useEffect } from 'react';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
+import { Crown, Calendar, Clock, CheckCircle, XCircle, CreditCard, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { getLocale } from '@/lib/i18n';
+import { isSharePayable, type PaymentShareDetails } from '@/lib/vip-split-payment';
+import { getVipPaymentShare, startSharePayment } from '@/lib/vip-split-payment-service';
+
+export default function VIPSharePayment() {
+  const { token } = useParams();
+  const [searchParams] = useSearchParams();
+  const [share, setShare] = useState<PaymentShareDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [paying, setPaying] = useState(false);
+
+  const justPaid = searchParams.get('share_paid') === 'true';
+
+  useEffect(() => {
+    loadShare();
+  }, [token]);
+
+  useEffect(() => {
+    if (searchParams.get('share_canceled') === 'true') {
+      toast.info('Payment canceled — your share is still unpaid.');
+    }
+  }, [searchParams]);
+
+  const loadShare = async () => {
+    if (!token) {
+      setError('Invalid payment link');
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const data = await getVipPaymentShare(token);
+      if (!data) {
+        setError('Payment link not found');
+      } else {
+        setShare(data);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load this payment link');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePay = async () => {
+    if (!token) return;
+    setPaying(true);
+    try {
+      await startSharePayment(token, getLocale());
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not start payment');
+      setPaying(false);
+    }
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+      year: 'numeric'
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-zinc-950 via-amber-950/20 to-zinc-950 flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-2 border-amber-500 border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  if (error || !share) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-zinc-950 via-red-950/20 to-zinc-950 flex items-center justify-center p-6">
+        <div className="text-center">
+          <XCircle className="w-16 h-16 text-red-500 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-white mb-2">Invalid Link</h1>
+          <p className="text-gray-400 mb-6">{error}</p>
+          <Link
+            to="/"
+            className="inline-flex items-center gap-2 bg-zinc-800 text-white px-6 py-3 rounded-xl hover:bg-zinc-700 transition-colors"
+          >
+            Go Home
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  // Stripe redirects back before the webhook records the payment
+  const paid = share.status === 'paid' || share.status === 'covered_by_host' || justPaid;
+  const payable = !justPaid && isSharePayable(share);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-zinc-950 via-amber-950/20 to-zinc-950 p-4 sm:p-6 flex items-center">
+      <div className="max-w-md w-full mx-auto">
+        <div className="bg-gradient-to-br from-amber-900/30 to-zinc-900 rounded-3xl border border-amber-500/30 overflow-hidden shadow-2xl shadow-amber-500/10">
+          {/* Header */}
+          <div className="bg-gradient-to-r from-amber-500 to-yellow-500 p-6 text-center">
+            <div className="flex items-center justify-center gap-2 mb-2">
+              <Crown className="w-6 h-6 text-black" />
+              <span className="text-black font-bold text-lg uppercase tracking-wider">Split VIP Table</span>
+            </div>
+            <p className="text-black/70 text-sm font-medium">
+              {share.host_name ? `Invited by ${share.host_name}` : 'You have been invited'}
+            </p>
+          </div>
+
+          <div className="p-6 space-y-5">
+            <div>
+              <h1 className="text-2xl font-bold text-white">{share.event_name}</h1>
+              <div className="mt-2 space-y-1 text-sm text-gray-400">
+                <p className="flex items-center gap-2">
+                  <Calendar className="w-4 h-4 text-amber-400" />
+                  {formatDate(share.event_date)}
+                </p>
+                {share.table_number && (
+                  <p className="flex items-center gap-2">
+                    <Crown className="w-4 h-4 text-amber-400" />
+                    Table {share.table_number}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <div className="bg-zinc-900/60 rounded-2xl border border-zinc-800 p-4 flex items-center justify-between">
+              <span className="text-gray-400">Your share</span>
+              <span className="text-2xl font-bold text-amber-400">${share.amount.toFixed(2)}</span>
+            </div>
+
+            {paid ? (
+              <div className="flex items-start gap-3 text-emerald-400">
+                <CheckCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+                <p className="text-sm">
+                  {share.status === 'covered_by_host'
+                    ? 'Your host covered this share. Your VIP pass comes with the table.'
+                    : `You're paid up. Your VIP pass has been emailed to ${share.payer_email}.`}
+                </p>
+              </div>
+            ) : payable ? (
+              <>
+                <p className="flex items-center gap-2 text-sm text-gray-400">
+                  <Clock className="w-4 h-4 text-amber-400" />
+                  Pay by {new Date(share.split_deadline).toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                </p>
+                <button
+                  onClick={handlePay}
+                  disabled={paying}
+                  className="w-full bg-gradient-to-r from-amber-500 to-yellow-500 text-black font-bold py-4 rounded-xl flex items-center justify-center gap-2 hover:opacity-90 transition-opacity disabled:opacity-60"
+                >
+                  {paying ? <Loader2 className="w-5 h-5 animate-spin" /> : <CreditCard className="w-5 h-5" />}
+                  Pay My Share
+                </button>
+                <p className="text-xs text-gray-500 text-center">
+                  You'll get your own VIP pass once you pay. Entry tickets are sold separately.
+                </p>
+              </>
+            ) : (
+              <div className="flex items-start gap-3 text-gray-400">
+                <XCircle className="w-5 h-5 flex-shrink-0 mt-0.5 text-red-400" />
+                <p className="text-sm">
+                  {share.status === 'refunded' || share.status === 'cancelled' || share.reservation_status === 'cancelled'
+                    ? 'This table was released. You have not been charged, or your payment has been refunded.'
+                    : 'The deadline to pay for this table has passed.'}
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="text-center mt-6">
+          <Link to={`/event/${share.event_id}`} className="text-sm text-amber-400 hover:underline">
+            View event
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,3 +1,4 @@
+import { useEffect } from "react";
 import { Routes, Route } from "react-router-dom";
 import { AdminSidebar } from "@/components/admin/AdminSidebar";
 import DashboardHome from "./DashboardHome";
@@ -7,8 +8,33 @@ import Reports from "./Reports";
 import GuestListManager from "./GuestListManager";
 import VIPTableManager from "./VIPTableManager";
 import EventManagement from "./EventManagement";
+import PromotionManagement from "./PromotionManagement";
+import SagaRecovery from "./SagaRecovery";
+import Disputes from "./Disputes";
+import Resale from "./Resale";
+import { useToast } from "@/hooks/use-toast";
+import { subscribeToPaymentDisputes, syncDisputeAlerts } from "@/lib/disputes-service";
 
 const AdminDashboard = () => {
+  const { toast } = useToast();
+
+  // Stripe disputes are recorded by the webhook; the console raises the alerts
+  useEffect(() => {
+    const raiseAlerts = async () => {
+      const newDisputes = await syncDisputeAlerts();
+      if (newDisputes > 0) {
+        toast({
+          title: newDisputes === 1 ? "New payment dispute" : `${newDisputes} new payment disputes`,
+          description: "The tickets were voided. See Disputes to export evidence for Stripe.",
+          variant: "destructive",
+        });
+      }
+    };
+
+    raiseAlerts();
+    return subscribeToPaymentDisputes("alerts", raiseAlerts);
+  }, [toast]);
+
   return (
     <div className="min-h-screen bg-background text-foreground">
       <div className="flex flex-col lg:flex-row">
@@ -21,7 +47,11 @@ const AdminDashboard = () => {
             <Route path="guest-lists" element={<GuestListManager />} />
             <Route path="vip-tables" element={<VIPTableManager />} />
             <Route path="events" element={<EventManagement />} />
+            <Route path="promotions" element={<PromotionManagement />} />
             <Route path="reports" element={<Reports />} />
+            <Route path="sagas" element={<SagaRecovery />} />
+            <Route path="disputes" element={<Disputes />} />
+            <Route path="resale" element={<Resale />} />
           </Routes>
         </main>
       </div>
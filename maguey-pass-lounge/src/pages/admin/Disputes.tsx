@@ -0,0 +1,282 @@
+import { useState, useEffect, useCallback } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Download, ExternalLink, FileText, Loader2, RefreshCw } from "lucide-react";
+import { toCsv, downloadCsv } from "@/lib/csv";
+import {
+  buildEvidenceTimeline,
+  daysUntilDue,
+  formatDisputeStatus,
+  isDisputeOpen,
+  needsResponse,
+  type DisputeEvidence,
+  type EvidenceTimelineEntry,
+  type PaymentDispute,
+} from "@/lib/disputes";
+import {
+  fetchPaymentDisputes,
+  getDisputeEvidence,
+  resolveClosedDisputeAlerts,
+  subscribeToPaymentDisputes,
+} from "@/lib/disputes-service";
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+const KIND_LABELS: Record<EvidenceTimelineEntry["kind"], string> = {
+  purchase: "Purchase",
+  email: "Email",
+  scan: "Door scan",
+  id_check: "ID check",
+};
+
+function statusVariant(status: string): "default" | "secondary" | "destructive" | "outline" {
+  if (needsResponse(status) || status === "lost") return "destructive";
+  if (status === "won" || status === "warning_closed") return "secondary";
+  return "outline";
+}
+
+function DueDate({ dispute }: { dispute: PaymentDispute }) {
+  const days = daysUntilDue(dispute.evidence_due_by);
+  if (days === null || !isDisputeOpen(dispute.status)) {
+    return <span className="text-muted-foreground">—</span>;
+  }
+
+  const urgent = needsResponse(dispute.status) && days <= 2;
+  return (
+    <div>
+      <div className={urgent ? "font-medium text-destructive" : undefined}>
+        {format(new Date(dispute.evidence_due_by!), "MMM d")}
+      </div>
+      <div className="text-xs text-muted-foreground">
+        {days < 0 ? "Deadline passed" : days === 0 ? "Due today" : `${days} day${days === 1 ? "" : "s"} left`}
+      </div>
+    </div>
+  );
+}
+
+function downloadJson(value: unknown, filename: string): void {
+  const blob = new Blob([JSON.stringify(value, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.setAttribute("download", filename);
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// ─── Component ───────────────────────────────────────────────────────────────
+
+export default function Disputes() {
+  const [disputes, setDisputes] = useState<PaymentDispute[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [evidence, setEvidence] = useState<DisputeEvidence | null>(null);
+  const [isLoadingEvidence, setIsLoadingEvidence] = useState(false);
+  const { toast } = useToast();
+
+  const loadDisputes = useCallback(async () => {
+    try {
+      const rows = await fetchPaymentDisputes();
+      setDisputes(rows);
+      resolveClosedDisputeAlerts(rows);
+    } catch (error) {
+      toast({
+        title: "Error loading disputes",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+    setIsLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    loadDisputes();
+    return subscribeToPaymentDisputes("page", loadDisputes);
+  }, [loadDisputes]);
+
+  async function handleShowEvidence(dispute: PaymentDispute) {
+    if (selectedId === dispute.id) {
+      setSelectedId(null);
+      setEvidence(null);
+      return;
+    }
+
+    setSelectedId(dispute.id);
+    setEvidence(null);
+    setIsLoadingEvidence(true);
+    try {
+      setEvidence(await getDisputeEvidence(dispute.id));
+    } catch (error) {
+      setSelectedId(null);
+      toast({
+        title: "Error loading evidence",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+    setIsLoadingEvidence(false);
+  }
+
+  function handleExportCsv(data: DisputeEvidence) {
+    const csv = toCsv(buildEvidenceTimeline(data), [
+      { key: "at", header: "Time", format: (value) => new Date(value).toISOString() },
+      { key: "kind", header: "Type", format: (value: EvidenceTimelineEntry["kind"]) => KIND_LABELS[value] },
+      { key: "subject", header: "Ticket / Recipient" },
+      { key: "description", header: "Details" },
+    ]);
+    downloadCsv(csv, `dispute-${data.dispute.stripe_dispute_id}-timeline.csv`);
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const timeline = evidence ? buildEvidenceTimeline(evidence) : [];
+
+  return (
+    <div className="space-y-4 max-w-6xl">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Disputes</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Chargebacks and inquiries from Stripe. Tickets and VIP guest passes on a disputed payment are
+            voided at the door until the dispute closes, and restored if it is won. Export the evidence to
+            respond in the Stripe dashboard.
+          </p>
+        </div>
+        <Button variant="outline" onClick={loadDisputes} className="gap-1.5 shrink-0">
+          <RefreshCw className="w-4 h-4" />
+          Refresh
+        </Button>
+      </div>
+
+      {disputes.length === 0 ? (
+        <p className="text-muted-foreground py-8 text-center">No disputes.</p>
+      ) : (
+        <div className="rounded-md border border-border overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-muted/40">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-muted-foreground">Dispute</th>
+                <th className="px-3 py-2 text-left font-medium text-muted-foreground">Reason</th>
+                <th className="px-3 py-2 text-left font-medium text-muted-foreground">Status</th>
+                <th className="px-3 py-2 text-left font-medium text-muted-foreground">Evidence due</th>
+                <th className="px-3 py-2 text-right font-medium text-muted-foreground">Amount</th>
+                <th className="px-3 py-2 w-32"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {disputes.map((dispute) => (
+                <tr key={dispute.id} className={selectedId === dispute.id ? "bg-muted/30" : undefined}>
+                  <td className="px-3 py-2">
+                    <div className="font-mono text-xs">{dispute.stripe_dispute_id}</div>
+                    <div className="text-xs text-muted-foreground">
+                      Opened {formatDistanceToNow(new Date(dispute.created_at), { addSuffix: true })}
+                    </div>
+                    {!dispute.order_id && !dispute.vip_reservation_id && (
+                      <div className="text-xs text-destructive">No matching order</div>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 capitalize">{dispute.reason?.replace(/_/g, " ") || "—"}</td>
+                  <td className="px-3 py-2">
+                    <Badge variant={statusVariant(dispute.status)} className="text-xs">
+                      {formatDisputeStatus(dispute.status)}
+                    </Badge>
+                  </td>
+                  <td className="px-3 py-2">
+                    <DueDate dispute={dispute} />
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    ${dispute.amount.toFixed(2)} <span className="text-xs uppercase text-muted-foreground">{dispute.currency}</span>
+                  </td>
+                  <td className="px-3 py-2">
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleShowEvidence(dispute)}
+                        title="Evidence"
+                      >
+                        {isLoadingEvidence && selectedId === dispute.id ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                          <FileText className="w-4 h-4" />
+                        )}
+                      </Button>
+                      <Button size="sm" variant="ghost" asChild title="Open in Stripe">
+                        <a
+                          href={`https://dashboard.stripe.com/disputes/${dispute.stripe_dispute_id}`}
+                          target="_blank"
+                          rel="noreferrer"
+                        >
+                          <ExternalLink className="w-4 h-4" />
+                        </a>
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {evidence && (
+        <div className="rounded-md border border-border p-4 space-y-4">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h2 className="text-lg font-semibold">Evidence for {evidence.dispute.stripe_dispute_id}</h2>
+              <p className="text-sm text-muted-foreground">
+                {evidence.event?.name ?? "Unknown event"} · {evidence.tickets.length} ticket(s) ·{" "}
+                {evidence.emails.length} email(s) · {evidence.scans.length + evidence.vip_scans.length} scan(s) ·{" "}
+                {evidence.id_verifications.length} ID check(s)
+              </p>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <Button variant="outline" size="sm" className="gap-1.5" onClick={() => handleExportCsv(evidence)}>
+                <Download className="w-4 h-4" />
+                Timeline CSV
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1.5"
+                onClick={() => downloadJson(evidence, `dispute-${evidence.dispute.stripe_dispute_id}-evidence.json`)}
+              >
+                <Download className="w-4 h-4" />
+                Full JSON
+              </Button>
+            </div>
+          </div>
+
+          {timeline.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No records found for this payment.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <tbody className="divide-y divide-border">
+                {timeline.map((entry, index) => (
+                  <tr key={index}>
+                    <td className="py-1.5 pr-3 whitespace-nowrap text-muted-foreground">
+                      {format(new Date(entry.at), "MMM d, h:mm a")}
+                    </td>
+                    <td className="py-1.5 pr-3">
+                      <Badge variant="outline" className="text-xs">{KIND_LABELS[entry.kind]}</Badge>
+                    </td>
+                    <td className="py-1.5 pr-3 font-mono text-xs">{entry.subject}</td>
+                    <td className="py-1.5">{entry.description}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,7 +3,20 @@ import { supabase } from "@/lib/supabase";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
+import {
+  validatePriceTiers,
+  toDateTimeLocalValue,
+  fromDateTimeLocalValue,
+  type PriceTierDraft,
+} from "@/lib/price-tiers";
+import {
+  fetchPriceTiers,
+  savePriceTiers,
+  getPriceTierRevenue,
+  type PriceTierRevenue,
+} from "@/lib/price-tiers-service";
 import {
   ChevronDown,
   ChevronRight,
@@ -16,14 +29,7 @@ import {
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
-interface PriceTier {
-  id?: string;
-  tier_name: string;
-  price: number;
-  tickets_available: number;
-  tickets_sold: number;
-  sort_order: number;
-  is_active: boolean;
+interface PriceTier extends PriceTierDraft {
   _dirty?: boolean; // local-only flag
 }
 
@@ -44,10 +50,35 @@ interface EventRow {
   name: string;
   event_date: string;
   ticketTypes: TicketTypeWithTiers[];
+  revenue: PriceTierRevenue[];
   expanded: boolean;
   loading: boolean;
 }
 
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function formatMoney(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+function formatTierRevenue(revenue: PriceTierRevenue[], tierId: string | undefined): string {
+  const sales = tierId ? revenue.find((row) => row.tier_id === tierId) : undefined;
+  return sales ? formatMoney(sales.revenue) : "—";
+}
+
+/** Sales of a ticket type with no tier attached (base price, or sold before tier tracking) */
+function BaseSalesNote({ revenue, ticketTypeId }: { revenue: PriceTierRevenue[]; ticketTypeId: string }) {
+  const sales = revenue.find((row) => row.ticket_type_id === ticketTypeId && row.tier_id === null);
+  if (!sales) return null;
+
+  return (
+    <p className="text-xs text-muted-foreground">
+      {sales.tickets_sold} ticket{sales.tickets_sold !== 1 ? "s" : ""} sold at the base price or before tier
+      tracking · {formatMoney(sales.revenue)}
+    </p>
+  );
+}
+
 // ─── Component ───────────────────────────────────────────────────────────────
 
 const EventManagement = () => {
@@ -74,6 +105,7 @@ const EventManagement = () => {
         (data || []).map((e) => ({
           ...e,
           ticketTypes: [],
+          revenue: [],
           expanded: false,
           loading: false,
         }))
@@ -109,28 +141,19 @@ const EventManagement = () => {
 
     const ticketTypeIds = (ttData || []).map((t) => t.id);
     let tiersMap: Record<string, PriceTier[]> = {};
+    let revenue: PriceTierRevenue[] = [];
 
-    if (ticketTypeIds.length > 0) {
-      const { data: tiersData } = await supabase
-        .from("ticket_type_price_tiers")
-        .select("*")
-        .in("ticket_type_id", ticketTypeIds)
-        .order("sort_order", { ascending: true });
-
-      if (tiersData) {
-        for (const tier of tiersData) {
-          if (!tiersMap[tier.ticket_type_id]) tiersMap[tier.ticket_type_id] = [];
-          tiersMap[tier.ticket_type_id].push({
-            id: tier.id,
-            tier_name: tier.tier_name,
-            price: Number(tier.price),
-            tickets_available: tier.tickets_available,
-            tickets_sold: tier.tickets_sold,
-            sort_order: tier.sort_order,
-            is_active: tier.is_active,
-          });
-        }
-      }
+    try {
+      [tiersMap, revenue] = await Promise.all([
+        fetchPriceTiers(ticketTypeIds),
+        getPriceTierRevenue(eventId).catch((err) => {
+          // Reporting is optional; tiers can still be edited without it
+          console.error("Error loading tier revenue:", err);
+          return [];
+        }),
+      ]);
+    } catch (err: any) {
+      toast({ title: "Error loading pricing tiers", description: err.message, variant: "destructive" });
     }
 
     setEvents((prev) =>
@@ -139,6 +162,7 @@ const EventManagement = () => {
         return {
           ...e,
           loading: false,
+          revenue,
           ticketTypes: (ttData || []).map((tt) => ({
             ...tt,
             total_inventory: tt.total_inventory ?? null,
@@ -187,6 +211,9 @@ const EventManagement = () => {
                   tickets_sold: 0,
                   sort_order: nextSort,
                   is_active: isFirstTier, // first tier auto-active
+                  starts_at: null,
+                  ends_at: null,
+                  is_door_tier: false,
                   _dirty: true,
                 },
               ],
@@ -202,7 +229,7 @@ const EventManagement = () => {
     ttId: string,
     tierIndex: number,
     field: keyof PriceTier,
-    value: string | number | boolean
+    value: string | number | boolean | null
   ) {
     setEvents((prev) =>
       prev.map((e) => {
@@ -243,6 +270,30 @@ const EventManagement = () => {
     );
   }
 
+  /** Only one tier per ticket type can be the door price, and it is never the online tier */
+  function setDoorTier(eventId: string, ttId: string, tierIndex: number, isDoorTier: boolean) {
+    setEvents((prev) =>
+      prev.map((e) => {
+        if (e.id !== eventId) return e;
+        return {
+          ...e,
+          ticketTypes: e.ticketTypes.map((tt) => {
+            if (tt.id !== ttId) return tt;
+            return {
+              ...tt,
+              tiers: tt.tiers.map((tier, i) => {
+                if (i === tierIndex) {
+                  return { ...tier, is_door_tier: isDoorTier, is_active: isDoorTier ? false : tier.is_active, _dirty: true };
+                }
+                return isDoorTier && tier.is_door_tier ? { ...tier, is_door_tier: false, _dirty: true } : tier;
+              }),
+            };
+          }),
+        };
+      })
+    );
+  }
+
   function removeTier(eventId: string, ttId: string, tierIndex: number) {
     setEvents((prev) =>
       prev.map((e) => {
@@ -263,25 +314,9 @@ const EventManagement = () => {
     const tt = event?.ticketTypes.find((t) => t.id === ttId);
     if (!tt) return;
 
-    // Validate
-    for (const tier of tt.tiers) {
-      if (!tier.tier_name.trim()) {
-        toast({ title: "Tier name required", description: "All tiers must have a name.", variant: "destructive" });
-        return;
-      }
-      if (tier.price < 0) {
-        toast({ title: "Invalid price", description: "Price cannot be negative.", variant: "destructive" });
-        return;
-      }
-      if (tier.tickets_available < 1) {
-        toast({ title: "Invalid quantity", description: "Tickets available must be at least 1.", variant: "destructive" });
-        return;
-      }
-    }
-
-    const activeCount = tt.tiers.filter((t) => t.is_active).length;
-    if (tt.tiers.length > 0 && activeCount !== 1) {
-      toast({ title: "Exactly one tier must be active", description: "Please select one tier as the active tier.", variant: "destructive" });
+    const validationError = validatePriceTiers(tt.tiers);
+    if (validationError) {
+      toast({ title: "Invalid pricing tiers", description: validationError, variant: "destructive" });
       return;
     }
 
@@ -296,68 +331,19 @@ const EventManagement = () => {
     );
 
     try {
-      // Upsert all tiers
-      const tiersToSave = tt.tiers.map((tier, idx) => ({
-        ...(tier.id ? { id: tier.id } : {}),
-        ticket_type_id: ttId,
-        tier_name: tier.tier_name.trim(),
-        price: tier.price,
-        tickets_available: tier.tickets_available,
-        tickets_sold: tier.tickets_sold,
-        sort_order: idx,
-        is_active: tier.is_active,
-        updated_at: new Date().toISOString(),
-      }));
-
-      // Delete existing tiers first (simplest approach to handle removals)
-      const { error: deleteError } = await supabase
-        .from("ticket_type_price_tiers")
-        .delete()
-        .eq("ticket_type_id", ttId);
-
-      if (deleteError) throw deleteError;
-
-      if (tiersToSave.length > 0) {
-        const { error: insertError } = await supabase
-          .from("ticket_type_price_tiers")
-          .insert(tiersToSave.map(({ id: _id, ...rest }) => rest)); // strip id for fresh insert
-
-        if (insertError) throw insertError;
-      }
-
-      // Reload tiers for this ticket type
-      const { data: refreshed } = await supabase
-        .from("ticket_type_price_tiers")
-        .select("*")
-        .eq("ticket_type_id", ttId)
-        .order("sort_order", { ascending: true });
+      const saved = await savePriceTiers(ttId, tt.tiers);
 
       setEvents((prev) =>
         prev.map((e) => {
           if (e.id !== eventId) return e;
           return {
             ...e,
-            ticketTypes: e.ticketTypes.map((t) => {
-              if (t.id !== ttId) return t;
-              return {
-                ...t,
-                saving: false,
-                tiers: (refreshed || []).map((tier) => ({
-                  id: tier.id,
-                  tier_name: tier.tier_name,
-                  price: Number(tier.price),
-                  tickets_available: tier.tickets_available,
-                  tickets_sold: tier.tickets_sold,
-                  sort_order: tier.sort_order,
-                  is_active: tier.is_active,
-                })),
-              };
-            }),
+            ticketTypes: e.ticketTypes.map((t) => (t.id === ttId ? { ...t, saving: false, tiers: saved } : t)),
           };
         })
       );
 
-      toast({ title: "Pricing tiers saved", description: `${tiersToSave.length} tiers saved for ${tt.name}.` });
+      toast({ title: "Pricing tiers saved", description: `${tt.tiers.length} tiers saved for ${tt.name}.` });
     } catch (err: any) {
       toast({ title: "Error saving tiers", description: err.message, variant: "destructive" });
       setEvents((prev) =>
@@ -382,12 +368,14 @@ const EventManagement = () => {
   }
 
   return (
-    <div className="space-y-4 max-w-4xl">
+    <div className="space-y-4 max-w-6xl">
       <div>
         <h1 className="text-2xl font-bold">Event Pricing Tiers</h1>
         <p className="text-sm text-muted-foreground mt-1">
           Configure early-bird and dynamic pricing tiers per ticket type. The active tier price is
-          fetched server-side at checkout — customers cannot tamper with it.
+          fetched server-side at checkout — customers cannot tamper with it. Tiers roll over when they
+          sell out, at their end date, or when the next tier's start date arrives. The door tier is
+          only charged by walk-in sales on the scanner.
         </p>
       </div>
 
@@ -458,7 +446,7 @@ const EventManagement = () => {
                   {tt.expanded && (
                     <div className="mt-4 space-y-3">
                       {tt.tiers.length > 0 && (
-                        <div className="rounded-md border border-border overflow-hidden">
+                        <div className="rounded-md border border-border overflow-x-auto">
                           <table className="w-full text-sm">
                             <thead className="bg-muted/40">
                               <tr>
@@ -466,7 +454,11 @@ const EventManagement = () => {
                                 <th className="px-3 py-2 text-left font-medium text-muted-foreground">Price ($)</th>
                                 <th className="px-3 py-2 text-left font-medium text-muted-foreground"># Tickets</th>
                                 <th className="px-3 py-2 text-left font-medium text-muted-foreground">Sold</th>
+                                <th className="px-3 py-2 text-left font-medium text-muted-foreground">Starts</th>
+                                <th className="px-3 py-2 text-left font-medium text-muted-foreground">Ends</th>
+                                <th className="px-3 py-2 text-left font-medium text-muted-foreground">Door</th>
                                 <th className="px-3 py-2 text-left font-medium text-muted-foreground">Status</th>
+                                <th className="px-3 py-2 text-right font-medium text-muted-foreground">Revenue</th>
                                 <th className="px-3 py-2 w-10"></th>
                               </tr>
                             </thead>
@@ -515,7 +507,38 @@ const EventManagement = () => {
                                   </td>
                                   <td className="px-3 py-2 text-muted-foreground">{tier.tickets_sold}</td>
                                   <td className="px-3 py-2">
-                                    {tier.is_active ? (
+                                    <Input
+                                      type="datetime-local"
+                                      value={toDateTimeLocalValue(tier.starts_at)}
+                                      onChange={(e) =>
+                                        updateTierField(event.id, tt.id, idx, "starts_at", fromDateTimeLocalValue(e.target.value))
+                                      }
+                                      disabled={tier.is_door_tier}
+                                      className="h-8 text-sm w-48"
+                                    />
+                                  </td>
+                                  <td className="px-3 py-2">
+                                    <Input
+                                      type="datetime-local"
+                                      value={toDateTimeLocalValue(tier.ends_at)}
+                                      onChange={(e) =>
+                                        updateTierField(event.id, tt.id, idx, "ends_at", fromDateTimeLocalValue(e.target.value))
+                                      }
+                                      disabled={tier.is_door_tier}
+                                      className="h-8 text-sm w-48"
+                                    />
+                                  </td>
+                                  <td className="px-3 py-2">
+                                    <Checkbox
+                                      checked={tier.is_door_tier}
+                                      onCheckedChange={(checked) => setDoorTier(event.id, tt.id, idx, checked === true)}
+                                      aria-label="Door price"
+                                    />
+                                  </td>
+                                  <td className="px-3 py-2">
+                                    {tier.is_door_tier ? (
+                                      <Badge variant="secondary" className="text-xs">Door</Badge>
+                                    ) : tier.is_active ? (
                                       <Badge className="bg-green-600/90 text-white text-xs border-none">Active</Badge>
                                     ) : (
                                       <button
@@ -526,11 +549,15 @@ const EventManagement = () => {
                                       </button>
                                     )}
                                   </td>
+                                  <td className="px-3 py-2 text-right whitespace-nowrap">
+                                    {formatTierRevenue(event.revenue, tier.id)}
+                                  </td>
                                   <td className="px-3 py-2">
                                     <button
                                       onClick={() => removeTier(event.id, tt.id, idx)}
-                                      className="text-destructive hover:text-destructive/80 transition-colors"
-                                      title="Remove tier"
+                                      disabled={tier.tickets_sold > 0}
+                                      className="text-destructive hover:text-destructive/80 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                                      title={tier.tickets_sold > 0 ? "Tiers with sales can't be removed" : "Remove tier"}
                                     >
                                       <Trash2 className="w-4 h-4" />
                                     </button>
@@ -542,6 +569,8 @@ const EventManagement = () => {
                         </div>
                       )}
 
+                      <BaseSalesNote revenue={event.revenue} ticketTypeId={tt.id} />
+
                       {tt.tiers.length === 0 && (
                         <p className="text-sm text-muted-foreground">
                           No tiers configured. Add a tier below to enable dynamic pricing. Without tiers, the base
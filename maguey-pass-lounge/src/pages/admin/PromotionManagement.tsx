@@ -0,0 +1,665 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/lib/supabase";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Loader2, KeyRound, Pause, Play } from "lucide-react";
+import { toCsv, downloadCsv } from "@/lib/csv";
+import {
+  listPromotions,
+  createPromotion,
+  setPromotionActive,
+  generatePromotionCodes,
+  type AdminPromotion,
+  type PromotionInput,
+} from "@/lib/promotions-service";
+import type { PromotionDiscountType } from "@/lib/promotion-rules";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+interface EventOption {
+  id: string;
+  name: string;
+  event_date: string;
+}
+
+interface TicketTypeOption {
+  id: string;
+  name: string;
+  event_id: string;
+}
+
+/** Form inputs are kept as strings; empty = no limit / not set */
+interface PromotionForm {
+  name: string;
+  description: string;
+  code: string;
+  discount_type: PromotionDiscountType;
+  amount: string;
+  auto_apply: boolean;
+  event_ids: string[];
+  ticket_type_ids: string[];
+  min_quantity: string;
+  min_subtotal: string;
+  buy_quantity: string;
+  get_quantity: string;
+  usage_limit: string;
+  per_customer_limit: string;
+  valid_from: string;
+  valid_to: string;
+  happy_hour_start: string;
+  happy_hour_end: string;
+  days_of_week: number[];
+  stackable: boolean;
+  priority: string;
+}
+
+const EMPTY_FORM: PromotionForm = {
+  name: "",
+  description: "",
+  code: "",
+  discount_type: "percent",
+  amount: "10",
+  auto_apply: false,
+  event_ids: [],
+  ticket_type_ids: [],
+  min_quantity: "",
+  min_subtotal: "",
+  buy_quantity: "",
+  get_quantity: "",
+  usage_limit: "",
+  per_customer_limit: "",
+  valid_from: "",
+  valid_to: "",
+  happy_hour_start: "",
+  happy_hour_end: "",
+  days_of_week: [],
+  stackable: false,
+  priority: "0",
+};
+
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const intOrNull = (value: string) => (value.trim() ? parseInt(value, 10) : null);
+const numberOrNull = (value: string) => (value.trim() ? parseFloat(value) : null);
+
+function toPromotionInput(form: PromotionForm): PromotionInput {
+  return {
+    name: form.name.trim(),
+    description: form.description.trim() || null,
+    code: form.code,
+    discount_type: form.discount_type,
+    amount: parseFloat(form.amount) || 0,
+    auto_apply: form.auto_apply,
+    event_ids: form.event_ids.length > 0 ? form.event_ids : null,
+    ticket_type_ids: form.ticket_type_ids.length > 0 ? form.ticket_type_ids : null,
+    min_quantity: intOrNull(form.min_quantity),
+    min_subtotal: numberOrNull(form.min_subtotal),
+    buy_quantity: form.discount_type === "buy_x_get_y" ? intOrNull(form.buy_quantity) : null,
+    get_quantity: form.discount_type === "buy_x_get_y" ? intOrNull(form.get_quantity) : null,
+    usage_limit: intOrNull(form.usage_limit),
+    per_customer_limit: intOrNull(form.per_customer_limit),
+    valid_from: form.valid_from ? new Date(form.valid_from).toISOString() : null,
+    valid_to: form.valid_to ? new Date(form.valid_to).toISOString() : null,
+    happy_hour_start: form.happy_hour_start || null,
+    happy_hour_end: form.happy_hour_end || null,
+    days_of_week: form.days_of_week.length > 0 ? form.days_of_week : null,
+    stackable: form.stackable,
+    priority: parseInt(form.priority, 10) || 0,
+  };
+}
+
+function validateForm(form: PromotionForm): string | null {
+  if (!form.name.trim()) return "Name is required";
+  if (!(parseFloat(form.amount) > 0)) return "Discount must be greater than zero";
+  if (form.discount_type === "percent" && parseFloat(form.amount) > 100) return "Percent can't exceed 100";
+  if (form.discount_type === "buy_x_get_y" && (!intOrNull(form.buy_quantity) || !intOrNull(form.get_quantity))) {
+    return "Buy and get quantities are required";
+  }
+  if (Boolean(form.happy_hour_start) !== Boolean(form.happy_hour_end)) {
+    return "Happy hour needs both a start and an end time";
+  }
+  return null;
+}
+
+function describeDiscount(promotion: AdminPromotion): string {
+  switch (promotion.discount_type) {
+    case "amount":
+      return `$${promotion.amount.toFixed(2)} off`;
+    case "percent":
+      return `${promotion.amount}% off`;
+    case "buy_x_get_y":
+      return `Buy ${promotion.buy_quantity} get ${promotion.get_quantity} ${
+        promotion.amount >= 100 ? "free" : `${promotion.amount}% off`
+      }`;
+  }
+}
+
+function describeSchedule(promotion: AdminPromotion): string | null {
+  const parts: string[] = [];
+  if (promotion.days_of_week?.length) {
+    parts.push(promotion.days_of_week.map((day) => DAY_LABELS[day]).join(", "));
+  }
+  if (promotion.happy_hour_start && promotion.happy_hour_end) {
+    parts.push(`${promotion.happy_hour_start.slice(0, 5)}–${promotion.happy_hour_end.slice(0, 5)}`);
+  }
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
+
+// ─── Component ───────────────────────────────────────────────────────────────
+
+const PromotionManagement = () => {
+  const [promotions, setPromotions] = useState<AdminPromotion[]>([]);
+  const [events, setEvents] = useState<EventOption[]>([]);
+  const [ticketTypes, setTicketTypes] = useState<TicketTypeOption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [createOpen, setCreateOpen] = useState(false);
+  const [form, setForm] = useState<PromotionForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [codesFor, setCodesFor] = useState<AdminPromotion | null>(null);
+  const [codeCount, setCodeCount] = useState("50");
+  const [codePrefix, setCodePrefix] = useState("");
+  const [generating, setGenerating] = useState(false);
+  const { toast } = useToast();
+
+  const loadPromotions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setPromotions(await listPromotions());
+    } catch (error) {
+      toast({
+        title: "Error loading promotions",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+    setIsLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    loadPromotions();
+  }, [loadPromotions]);
+
+  // Events and ticket types for scoping
+  useEffect(() => {
+    supabase
+      .from("events")
+      .select("id, name, event_date")
+      .order("event_date", { ascending: false })
+      .limit(50)
+      .then(({ data }) => setEvents(data || []));
+  }, []);
+
+  useEffect(() => {
+    if (form.event_ids.length === 0) {
+      setTicketTypes([]);
+      return;
+    }
+    supabase
+      .from("ticket_types")
+      .select("id, name, event_id")
+      .in("event_id", form.event_ids)
+      .order("price", { ascending: true })
+      .then(({ data }) => setTicketTypes(data || []));
+  }, [form.event_ids]);
+
+  const updateForm = <K extends keyof PromotionForm>(field: K, value: PromotionForm[K]) =>
+    setForm((prev) => ({ ...prev, [field]: value }));
+
+  const toggleInList = <K extends "event_ids" | "ticket_type_ids" | "days_of_week">(
+    field: K,
+    value: PromotionForm[K][number]
+  ) =>
+    setForm((prev) => {
+      const list = prev[field] as Array<typeof value>;
+      const next = list.includes(value) ? list.filter((item) => item !== value) : [...list, value];
+      return {
+        ...prev,
+        [field]: next,
+        // Ticket type scope only makes sense within the selected events
+        ...(field === "event_ids" && { ticket_type_ids: [] }),
+      };
+    });
+
+  async function handleCreate() {
+    const validationError = validateForm(form);
+    if (validationError) {
+      toast({ title: validationError, variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await createPromotion(toPromotionInput(form));
+      toast({ title: "Promotion created" });
+      setCreateOpen(false);
+      setForm(EMPTY_FORM);
+      await loadPromotions();
+    } catch (error) {
+      toast({
+        title: "Error creating promotion",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+    setSaving(false);
+  }
+
+  async function handleToggleActive(promotion: AdminPromotion) {
+    try {
+      await setPromotionActive(promotion.id, !promotion.active);
+      setPromotions((prev) =>
+        prev.map((p) => (p.id === promotion.id ? { ...p, active: !promotion.active } : p))
+      );
+    } catch (error) {
+      toast({
+        title: "Error updating promotion",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  }
+
+  async function handleGenerateCodes() {
+    if (!codesFor) return;
+    const count = parseInt(codeCount, 10);
+    if (!count || count < 1 || count > 5000) {
+      toast({ title: "Enter between 1 and 5000 codes", variant: "destructive" });
+      return;
+    }
+
+    setGenerating(true);
+    try {
+      const codes = await generatePromotionCodes(codesFor.id, count, {
+        prefix: codePrefix,
+        batchLabel: `${new Date().toISOString().slice(0, 10)} x${count}`,
+      });
+      downloadCsv(
+        toCsv(codes.map((code) => ({ code })), [{ key: "code", header: "Code" }]),
+        `${(codesFor.name || "promotion").replace(/\W+/g, "-").toLowerCase()}-codes.csv`
+      );
+      toast({ title: `${codes.length} single-use codes generated`, description: "CSV downloaded" });
+      setCodesFor(null);
+      await loadPromotions();
+    } catch (error) {
+      toast({
+        title: "Error generating codes",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+    setGenerating(false);
+  }
+
+  const totals = promotions.reduce(
+    (sum, promotion) => ({
+      redemptions: sum.redemptions + promotion.performance.redemptions,
+      discount: sum.discount + promotion.performance.discount_total,
+      revenue: sum.revenue + promotion.performance.revenue,
+    }),
+    { redemptions: 0, discount: 0, revenue: 0 }
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 max-w-6xl">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Promotions</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Codes, auto-applied deals, happy hours and multi-buy offers. Discounts are recalculated
+            server-side at checkout, so the rules below are what customers actually get.
+          </p>
+        </div>
+        <Button onClick={() => setCreateOpen(true)} className="gap-1.5 shrink-0">
+          <Plus className="w-4 h-4" />
+          New Promotion
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <div className="rounded-lg border border-border p-4">
+          <p className="text-xs text-muted-foreground">Redemptions</p>
+          <p className="text-xl font-semibold">{totals.redemptions}</p>
+        </div>
+        <div className="rounded-lg border border-border p-4">
+          <p className="text-xs text-muted-foreground">Discount given</p>
+          <p className="text-xl font-semibold">${totals.discount.toFixed(2)}</p>
+        </div>
+        <div className="rounded-lg border border-border p-4">
+          <p className="text-xs text-muted-foreground">Revenue from promo orders</p>
+          <p className="text-xl font-semibold">${totals.revenue.toFixed(2)}</p>
+        </div>
+      </div>
+
+      {promotions.length === 0 ? (
+        <p className="text-muted-foreground py-8 text-center">No promotions yet.</p>
+      ) : (
+        <div className="rounded-md border border-border overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-muted/40">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-muted-foreground">Promotion</th>
+                <th className="px-3 py-2 text-left font-medium text-muted-foreground">Discount</th>
+                <th className="px-3 py-2 text-left font-medium text-muted-foreground">Rules</th>
+                <th className="px-3 py-2 text-right font-medium text-muted-foreground">Used</th>
+                <th className="px-3 py-2 text-right font-medium text-muted-foreground">Discount</th>
+                <th className="px-3 py-2 text-right font-medium text-muted-foreground">Revenue</th>
+                <th className="px-3 py-2 w-40"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {promotions.map((promotion) => {
+                const schedule = describeSchedule(promotion);
+                return (
+                  <tr key={promotion.id} className={promotion.active ? "" : "opacity-60"}>
+                    <td className="px-3 py-2">
+                      <div className="font-medium">{promotion.name || promotion.code}</div>
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {promotion.code && (
+                          <Badge variant="outline" className="text-xs font-mono">{promotion.code}</Badge>
+                        )}
+                        {promotion.auto_apply && <Badge variant="secondary" className="text-xs">Auto</Badge>}
+                        {promotion.performance.generated_codes > 0 && (
+                          <Badge variant="outline" className="text-xs">
+                            {promotion.performance.generated_codes} single-use codes
+                          </Badge>
+                        )}
+                        {!promotion.active && <Badge variant="destructive" className="text-xs">Paused</Badge>}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2">{describeDiscount(promotion)}</td>
+                    <td className="px-3 py-2 text-xs text-muted-foreground space-y-0.5">
+                      <div>
+                        {promotion.event_ids ? `${promotion.event_ids.length} event(s)` : "All events"}
+                        {promotion.ticket_type_ids && ` · ${promotion.ticket_type_ids.length} ticket type(s)`}
+                      </div>
+                      {(promotion.min_quantity || promotion.min_subtotal) && (
+                        <div>
+                          Min {promotion.min_quantity ? `${promotion.min_quantity} tickets` : ""}
+                          {promotion.min_quantity && promotion.min_subtotal ? " / " : ""}
+                          {promotion.min_subtotal ? `$${promotion.min_subtotal.toFixed(2)}` : ""}
+                        </div>
+                      )}
+                      {schedule && <div>{schedule}</div>}
+                      <div>
+                        {promotion.usage_limit ? `${promotion.usage_limit} total` : "Unlimited"}
+                        {promotion.per_customer_limit && ` · ${promotion.per_customer_limit} per customer`}
+                        {promotion.stackable && " · Stackable"}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {promotion.performance.redemptions}
+                      {promotion.performance.pending_redemptions > 0 && (
+                        <span className="text-xs text-muted-foreground">
+                          {" "}(+{promotion.performance.pending_redemptions} pending)
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right">${promotion.performance.discount_total.toFixed(2)}</td>
+                    <td className="px-3 py-2 text-right">${promotion.performance.revenue.toFixed(2)}</td>
+                    <td className="px-3 py-2">
+                      <div className="flex justify-end gap-1">
+                        <Button size="sm" variant="ghost" onClick={() => setCodesFor(promotion)} title="Generate codes">
+                          <KeyRound className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleToggleActive(promotion)}
+                          title={promotion.active ? "Pause" : "Resume"}
+                        >
+                          {promotion.active ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Create promotion */}
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New Promotion</DialogTitle>
+            <DialogDescription>
+              Leave the code empty for an auto-applied deal, or to hand out generated single-use codes.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1.5">
+              <Label>Name</Label>
+              <Input value={form.name} onChange={(e) => updateForm("name", e.target.value)} placeholder="Friday happy hour" />
+            </div>
+            <div className="space-y-1.5">
+              <Label>Code</Label>
+              <Input
+                value={form.code}
+                onChange={(e) => updateForm("code", e.target.value.toUpperCase())}
+                placeholder="e.g. SUMMER10"
+                className="font-mono"
+              />
+            </div>
+            <div className="col-span-2 space-y-1.5">
+              <Label>Description</Label>
+              <Textarea value={form.description} onChange={(e) => updateForm("description", e.target.value)} rows={2} />
+            </div>
+
+            <div className="space-y-1.5">
+              <Label>Discount</Label>
+              <Select
+                value={form.discount_type}
+                onValueChange={(value) => updateForm("discount_type", value as PromotionDiscountType)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percent">Percent off</SelectItem>
+                  <SelectItem value="amount">Amount off order</SelectItem>
+                  <SelectItem value="buy_x_get_y">Buy X get Y</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label>
+                {form.discount_type === "amount"
+                  ? "Amount ($)"
+                  : form.discount_type === "percent"
+                    ? "Percent off"
+                    : "Percent off the free tickets (100 = free)"}
+              </Label>
+              <Input type="number" min={0} step={0.01} value={form.amount} onChange={(e) => updateForm("amount", e.target.value)} />
+            </div>
+            {form.discount_type === "buy_x_get_y" && (
+              <>
+                <div className="space-y-1.5">
+                  <Label>Buy</Label>
+                  <Input type="number" min={1} value={form.buy_quantity} onChange={(e) => updateForm("buy_quantity", e.target.value)} />
+                </div>
+                <div className="space-y-1.5">
+                  <Label>Get</Label>
+                  <Input type="number" min={1} value={form.get_quantity} onChange={(e) => updateForm("get_quantity", e.target.value)} />
+                </div>
+              </>
+            )}
+
+            <div className="col-span-2 space-y-1.5">
+              <Label>Events (none selected = all events)</Label>
+              <div className="max-h-32 overflow-y-auto rounded-md border border-border p-2 space-y-1">
+                {events.map((event) => (
+                  <label key={event.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.event_ids.includes(event.id)}
+                      onCheckedChange={() => toggleInList("event_ids", event.id)}
+                    />
+                    {event.name}
+                    <span className="text-muted-foreground text-xs">
+                      {new Date(event.event_date).toLocaleDateString("en-US", { month: "short", day: "numeric" })}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            {ticketTypes.length > 0 && (
+              <div className="col-span-2 space-y-1.5">
+                <Label>Ticket types (none selected = all ticket types)</Label>
+                <div className="flex flex-wrap gap-3 rounded-md border border-border p-2">
+                  {ticketTypes.map((ticketType) => (
+                    <label key={ticketType.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={form.ticket_type_ids.includes(ticketType.id)}
+                        onCheckedChange={() => toggleInList("ticket_type_ids", ticketType.id)}
+                      />
+                      {ticketType.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-1.5">
+              <Label>Min tickets</Label>
+              <Input type="number" min={1} value={form.min_quantity} onChange={(e) => updateForm("min_quantity", e.target.value)} />
+            </div>
+            <div className="space-y-1.5">
+              <Label>Min subtotal ($)</Label>
+              <Input type="number" min={0} step={0.01} value={form.min_subtotal} onChange={(e) => updateForm("min_subtotal", e.target.value)} />
+            </div>
+            <div className="space-y-1.5">
+              <Label>Total uses</Label>
+              <Input type="number" min={1} value={form.usage_limit} onChange={(e) => updateForm("usage_limit", e.target.value)} placeholder="Unlimited" />
+            </div>
+            <div className="space-y-1.5">
+              <Label>Uses per customer</Label>
+              <Input type="number" min={1} value={form.per_customer_limit} onChange={(e) => updateForm("per_customer_limit", e.target.value)} placeholder="Unlimited" />
+            </div>
+            <div className="space-y-1.5">
+              <Label>Valid from</Label>
+              <Input type="datetime-local" value={form.valid_from} onChange={(e) => updateForm("valid_from", e.target.value)} />
+            </div>
+            <div className="space-y-1.5">
+              <Label>Valid until</Label>
+              <Input type="datetime-local" value={form.valid_to} onChange={(e) => updateForm("valid_to", e.target.value)} />
+            </div>
+
+            <div className="space-y-1.5">
+              <Label>Happy hour start (venue time)</Label>
+              <Input type="time" value={form.happy_hour_start} onChange={(e) => updateForm("happy_hour_start", e.target.value)} />
+            </div>
+            <div className="space-y-1.5">
+              <Label>Happy hour end</Label>
+              <Input type="time" value={form.happy_hour_end} onChange={(e) => updateForm("happy_hour_end", e.target.value)} />
+            </div>
+            <div className="col-span-2 space-y-1.5">
+              <Label>Days (none selected = every day)</Label>
+              <div className="flex gap-3">
+                {DAY_LABELS.map((label, day) => (
+                  <label key={label} className="flex items-center gap-1.5 text-sm">
+                    <Checkbox
+                      checked={form.days_of_week.includes(day)}
+                      onCheckedChange={() => toggleInList("days_of_week", day)}
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={form.auto_apply} onCheckedChange={(checked) => updateForm("auto_apply", checked === true)} />
+              Apply automatically (no code needed)
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={form.stackable} onCheckedChange={(checked) => updateForm("stackable", checked === true)} />
+              Can be combined with other stackable promotions
+            </label>
+            <div className="space-y-1.5">
+              <Label>Priority (higher applies first)</Label>
+              <Input type="number" value={form.priority} onChange={(e) => updateForm("priority", e.target.value)} />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Create Promotion
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Bulk single-use codes */}
+      <Dialog open={codesFor !== null} onOpenChange={(open) => !open && setCodesFor(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Generate Single-Use Codes</DialogTitle>
+            <DialogDescription>
+              {codesFor?.name || codesFor?.code}. Each code works once; the list downloads as CSV.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1.5">
+              <Label>How many</Label>
+              <Input type="number" min={1} max={5000} value={codeCount} onChange={(e) => setCodeCount(e.target.value)} />
+            </div>
+            <div className="space-y-1.5">
+              <Label>Prefix</Label>
+              <Input
+                value={codePrefix}
+                onChange={(e) => setCodePrefix(e.target.value.toUpperCase())}
+                placeholder="e.g. RADIO"
+                className="font-mono"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCodesFor(null)} disabled={generating}>
+              Cancel
+            </Button>
+            <Button onClick={handleGenerateCodes} disabled={generating}>
+              {generating && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Generate &amp; Download
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default PromotionManagement;
@@ -0,0 +1,313 @@
+import { useState, useEffect, useCallback } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { Download, Loader2, RefreshCw, Save } from "lucide-react";
+import { toCsv, downloadCsv } from "@/lib/csv";
+import {
+  averagePriceToFace,
+  totalResaleReport,
+  type EventResaleSettings,
+  type ResaleReportRow,
+} from "@/lib/resale";
+import {
+  fetchEventsResaleSettings,
+  fetchResaleReport,
+  updateEventResaleSettings,
+} from "@/lib/resale-service";
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+type EventSettingsRow = EventResaleSettings & { id: string; name: string; event_date: string };
+
+const money = (value: number) => `$${value.toFixed(2)}`;
+
+function validateSettings(settings: EventResaleSettings): string | null {
+  const cap = settings.resale_price_cap_percent;
+  if (!Number.isFinite(cap) || cap <= 0 || cap > 100) return "Price cap must be between 1% and 100% of face value";
+  const cutoff = settings.resale_cutoff_hours;
+  if (!Number.isInteger(cutoff) || cutoff < 0) return "Cutoff must be a whole number of hours";
+  const fee = settings.resale_fee_percent;
+  if (!Number.isFinite(fee) || fee < 0 || fee >= 100) return "Fee must be between 0% and 99%";
+  return null;
+}
+
+// ─── Component ───────────────────────────────────────────────────────────────
+
+export default function Resale() {
+  const [events, setEvents] = useState<EventSettingsRow[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, EventResaleSettings>>({});
+  const [report, setReport] = useState<ResaleReportRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const load = useCallback(async () => {
+    try {
+      const [eventRows, reportRows] = await Promise.all([fetchEventsResaleSettings(), fetchResaleReport()]);
+      setEvents(eventRows);
+      setReport(reportRows);
+      setDrafts({});
+    } catch (error) {
+      toast({
+        title: "Error loading resale",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+    setIsLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  function updateDraft(event: EventSettingsRow, patch: Partial<EventResaleSettings>) {
+    setDrafts((prev) => ({
+      ...prev,
+      [event.id]: { ...(prev[event.id] ?? event), ...patch },
+    }));
+  }
+
+  async function handleSave(event: EventSettingsRow) {
+    const draft = drafts[event.id];
+    if (!draft) return;
+
+    const invalid = validateSettings(draft);
+    if (invalid) {
+      toast({ title: "Invalid settings", description: invalid, variant: "destructive" });
+      return;
+    }
+
+    setSavingId(event.id);
+    try {
+      await updateEventResaleSettings(event.id, draft);
+      setEvents((prev) => prev.map((row) => (row.id === event.id ? { ...row, ...draft } : row)));
+      setDrafts((prev) => {
+        const next = { ...prev };
+        delete next[event.id];
+        return next;
+      });
+      toast({ title: "Resale settings saved", description: event.name });
+    } catch (error) {
+      toast({
+        title: "Error saving settings",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+    setSavingId(null);
+  }
+
+  function handleExportCsv() {
+    const csv = toCsv(report, [
+      { key: "event_name", header: "Event" },
+      { key: "event_date", header: "Date" },
+      { key: "listings", header: "Listings" },
+      { key: "active_listings", header: "Active" },
+      { key: "sold", header: "Sold" },
+      { key: "withdrawn", header: "Withdrawn" },
+      { key: "cancelled", header: "Cancelled" },
+      { key: "gross_sales", header: "Gross Sales", format: (value: number) => value.toFixed(2) },
+      { key: "face_value_sold", header: "Face Value Sold", format: (value: number) => value.toFixed(2) },
+      { key: "fees", header: "Fees", format: (value: number) => value.toFixed(2) },
+      { key: "seller_payouts", header: "Seller Payouts", format: (value: number) => value.toFixed(2) },
+      { key: "payouts_pending", header: "Payouts Pending" },
+    ]);
+    downloadCsv(csv, `resale-report-${format(new Date(), "yyyy-MM-dd")}.csv`);
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const totals = totalResaleReport(report);
+  const totalsPriceToFace = averagePriceToFace(totals);
+
+  return (
+    <div className="space-y-6 max-w-6xl">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Resale</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Guests can resell tickets to each other at up to the price cap. The buyer gets a new QR code and
+            the seller is refunded the price minus the fee. Listings close at the cutoff before the event and
+            come down automatically if the ticket is scanned, transferred or refunded.
+          </p>
+        </div>
+        <Button variant="outline" onClick={load} className="gap-1.5 shrink-0">
+          <RefreshCw className="w-4 h-4" />
+          Refresh
+        </Button>
+      </div>
+
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold">Event settings</h2>
+        {events.length === 0 ? (
+          <p className="text-muted-foreground py-8 text-center">No events.</p>
+        ) : (
+          <div className="rounded-md border border-border overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/40">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-muted-foreground">Event</th>
+                  <th className="px-3 py-2 text-left font-medium text-muted-foreground">Resale</th>
+                  <th className="px-3 py-2 text-left font-medium text-muted-foreground">Price cap (% of face)</th>
+                  <th className="px-3 py-2 text-left font-medium text-muted-foreground">Closes (hours before)</th>
+                  <th className="px-3 py-2 text-left font-medium text-muted-foreground">Fee %</th>
+                  <th className="px-3 py-2 w-20"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {events.map((event) => {
+                  const settings = drafts[event.id] ?? event;
+                  return (
+                    <tr key={event.id}>
+                      <td className="px-3 py-2">
+                        <div className="font-medium">{event.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {format(new Date(`${event.event_date}T00:00`), "MMM d, yyyy")}
+                        </div>
+                      </td>
+                      <td className="px-3 py-2">
+                        <Switch
+                          checked={settings.resale_enabled}
+                          onCheckedChange={(checked) => updateDraft(event, { resale_enabled: checked })}
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <Input
+                          type="number"
+                          min={1}
+                          max={100}
+                          step="0.01"
+                          className="w-24 h-8"
+                          value={settings.resale_price_cap_percent}
+                          onChange={(e) => updateDraft(event, { resale_price_cap_percent: Number(e.target.value) })}
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <Input
+                          type="number"
+                          min={0}
+                          step="1"
+                          className="w-24 h-8"
+                          value={settings.resale_cutoff_hours}
+                          onChange={(e) => updateDraft(event, { resale_cutoff_hours: Number(e.target.value) })}
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <Input
+                          type="number"
+                          min={0}
+                          max={99}
+                          step="0.01"
+                          className="w-24 h-8"
+                          value={settings.resale_fee_percent}
+                          onChange={(e) => updateDraft(event, { resale_fee_percent: Number(e.target.value) })}
+                        />
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleSave(event)}
+                          disabled={!drafts[event.id] || savingId !== null}
+                          title="Save"
+                        >
+                          {savingId === event.id ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <Save className="w-4 h-4" />
+                          )}
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <section className="space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <h2 className="text-lg font-semibold">Resale volume</h2>
+          <Button variant="outline" size="sm" className="gap-1.5" onClick={handleExportCsv} disabled={report.length === 0}>
+            <Download className="w-4 h-4" />
+            Export CSV
+          </Button>
+        </div>
+        {report.length === 0 ? (
+          <p className="text-muted-foreground py-8 text-center">No resale listings yet.</p>
+        ) : (
+          <div className="rounded-md border border-border overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/40">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-muted-foreground">Event</th>
+                  <th className="px-3 py-2 text-right font-medium text-muted-foreground">Listings</th>
+                  <th className="px-3 py-2 text-right font-medium text-muted-foreground">Active</th>
+                  <th className="px-3 py-2 text-right font-medium text-muted-foreground">Sold</th>
+                  <th className="px-3 py-2 text-right font-medium text-muted-foreground">Withdrawn</th>
+                  <th className="px-3 py-2 text-right font-medium text-muted-foreground">Gross</th>
+                  <th className="px-3 py-2 text-right font-medium text-muted-foreground">% of face</th>
+                  <th className="px-3 py-2 text-right font-medium text-muted-foreground">Fees</th>
+                  <th className="px-3 py-2 text-right font-medium text-muted-foreground">Seller payouts</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {report.map((row) => {
+                  const priceToFace = averagePriceToFace(row);
+                  return (
+                    <tr key={row.event_id}>
+                      <td className="px-3 py-2">
+                        <div className="font-medium">{row.event_name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {format(new Date(`${row.event_date}T00:00`), "MMM d, yyyy")}
+                        </div>
+                      </td>
+                      <td className="px-3 py-2 text-right">{row.listings}</td>
+                      <td className="px-3 py-2 text-right">{row.active_listings}</td>
+                      <td className="px-3 py-2 text-right">{row.sold}</td>
+                      <td className="px-3 py-2 text-right">{row.withdrawn + row.cancelled}</td>
+                      <td className="px-3 py-2 text-right">{money(row.gross_sales)}</td>
+                      <td className="px-3 py-2 text-right">{priceToFace === null ? "—" : `${priceToFace}%`}</td>
+                      <td className="px-3 py-2 text-right">{money(row.fees)}</td>
+                      <td className="px-3 py-2 text-right">
+                        {money(row.seller_payouts)}
+                        {row.payouts_pending > 0 && (
+                          <div className="text-xs text-destructive">{row.payouts_pending} pending</div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+              <tfoot className="bg-muted/40 font-medium">
+                <tr>
+                  <td className="px-3 py-2">Total</td>
+                  <td className="px-3 py-2 text-right">{totals.listings}</td>
+                  <td className="px-3 py-2 text-right">{totals.active_listings}</td>
+                  <td className="px-3 py-2 text-right">{totals.sold}</td>
+                  <td className="px-3 py-2 text-right">{totals.withdrawn + totals.cancelled}</td>
+                  <td className="px-3 py-2 text-right">{money(totals.gross_sales)}</td>
+                  <td className="px-3 py-2 text-right">{totalsPriceToFace === null ? "—" : `${totalsPriceToFace}%`}</td>
+                  <td className="px-3 py-2 text-right">{money(totals.fees)}</td>
+                  <td className="px-3 py-2 text-right">{money(totals.seller_payouts)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, RefreshCw, RotateCcw, Undo2 } from "lucide-react";
+import { getRecentSagaExecutions } from "@/lib/orders-service";
+import { SagaRecoveryWorker, type RecoveryOutcome } from "@/lib/sagas/saga-recovery";
+import { orderSagaDefinition } from "@/lib/sagas/order-saga";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+type SagaRow = Awaited<ReturnType<typeof getRecentSagaExecutions>>[number];
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** Unfinished statuses an operator may need to act on */
+const STUCK_STATUSES = ["running", "compensating", "failed", "compensation_failed"];
+
+/** Matches the worker's default staleness threshold */
+const STALE_AFTER_MS = 2 * 60 * 1000;
+
+function isStalled(saga: SagaRow): boolean {
+  if (saga.status !== "running" && saga.status !== "compensating") return true;
+  const heartbeat = saga.heartbeatAt ?? saga.startedAt;
+  return Date.now() - heartbeat.getTime() > STALE_AFTER_MS;
+}
+
+function statusVariant(status: string): "default" | "secondary" | "destructive" | "outline" {
+  if (status === "failed" || status === "compensation_failed") return "destructive";
+  if (status === "compensating") return "secondary";
+  return "outline";
+}
+
+function describeOutcome(outcome: RecoveryOutcome): string {
+  if (outcome.success) {
+    return outcome.action === "resume" ? "Saga completed" : "Saga rolled back";
+  }
+  return outcome.error ?? outcome.reason;
+}
+
+// ─── Component ───────────────────────────────────────────────────────────────
+
+export default function SagaRecovery() {
+  const [sagas, setSagas] = useState<SagaRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busySagaId, setBusySagaId] = useState<string | null>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const worker = useMemo(
+    () =>
+      new SagaRecoveryWorker([orderSagaDefinition], {
+        client: supabase,
+        workerId: `admin:${user?.id ?? "unknown"}`,
+      }),
+    [user?.id]
+  );
+
+  const loadSagas = useCallback(async () => {
+    setIsLoading(true);
+    setSagas(await getRecentSagaExecutions({ statuses: STUCK_STATUSES, limit: 100 }));
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadSagas();
+  }, [loadSagas]);
+
+  async function handleAction(saga: SagaRow, action: "retry" | "compensate") {
+    if (
+      action === "compensate" &&
+      !window.confirm("Roll back this saga? Its order and tickets will be cancelled and inventory released.")
+    ) {
+      return;
+    }
+
+    setBusySagaId(saga.sagaId);
+    try {
+      const outcome = action === "retry"
+        ? await worker.retry(saga.sagaId)
+        : await worker.compensate(saga.sagaId);
+      toast({
+        title: describeOutcome(outcome),
+        description: outcome.needsReview ? "Check the order by hand, recovery could not confirm it is clean." : undefined,
+        variant: outcome.success ? undefined : "destructive",
+      });
+      await loadSagas();
+    } catch (error) {
+      toast({
+        title: action === "retry" ? "Error retrying saga" : "Error compensating saga",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+    setBusySagaId(null);
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 max-w-6xl">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Stuck Sagas</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Order sagas that did not finish. The recovery worker resumes or rolls back stalled ones
+            automatically; use these actions for the ones it left for review.
+          </p>
+        </div>
+        <Button variant="outline" onClick={loadSagas} className="gap-1.5 shrink-0">
+          <RefreshCw className="w-4 h-4" />
+          Refresh
+        </Button>
+      </div>
+
+      {sagas.length === 0 ? (
+        <p className="text-muted-foreground py-8 text-center">No stuck sagas.</p>
+      ) : (
+        <div className="rounded-md border border-border overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-muted/40">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-muted-foreground">Saga</th>
+                <th className="px-3 py-2 text-left font-medium text-muted-foreground">Status</th>
+                <th className="px-3 py-2 text-left font-medium text-muted-foreground">Progress</th>
+                <th className="px-3 py-2 text-left font-medium text-muted-foreground">Error</th>
+                <th className="px-3 py-2 text-right font-medium text-muted-foreground">Attempts</th>
+                <th className="px-3 py-2 w-40"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {sagas.map((saga) => {
+                const stalled = isStalled(saga);
+                const busy = busySagaId === saga.sagaId;
+                return (
+                  <tr key={saga.sagaId}>
+                    <td className="px-3 py-2">
+                      <div className="font-medium">{saga.sagaName}</div>
+                      <div className="text-xs text-muted-foreground font-mono">{saga.sagaId}</div>
+                      <div className="text-xs text-muted-foreground">
+                        Started {formatDistanceToNow(saga.startedAt, { addSuffix: true })}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2">
+                      <div className="flex flex-wrap gap-1">
+                        <Badge variant={statusVariant(saga.status)} className="text-xs">
+                          {saga.status.replace(/_/g, " ")}
+                        </Badge>
+                        {stalled && (saga.status === "running" || saga.status === "compensating") && (
+                          <Badge variant="destructive" className="text-xs">Stalled</Badge>
+                        )}
+                      </div>
+                      {saga.heartbeatAt && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          Last heartbeat {formatDistanceToNow(saga.heartbeatAt, { addSuffix: true })}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-xs text-muted-foreground space-y-0.5">
+                      <div>Done: {saga.stepsCompleted.join(" → ") || "—"}</div>
+                      {saga.currentStep && <div>At: {saga.currentStep}</div>}
+                      {saga.stepsCompensated.length > 0 && (
+                        <div>Rolled back: {saga.stepsCompensated.join(", ")}</div>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-xs">
+                      {saga.errorDetails ? (
+                        <>
+                          <span className="font-medium">{saga.errorDetails.step}:</span> {saga.errorDetails.message}
+                        </>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {saga.attempts}
+                      {saga.lastRecoveryAction && (
+                        <div className="text-xs text-muted-foreground">last: {saga.lastRecoveryAction}</div>
+                      )}
+                    </td>
+                    <td className="px-3 py-2">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={!stalled || busy || saga.stepsCompensated.length > 0}
+                          onClick={() => handleAction(saga, "retry")}
+                          title="Retry from the last completed step"
+                        >
+                          {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={!stalled || busy}
+                          onClick={() => handleAction(saga, "compensate")}
+                          title="Compensate (roll back)"
+                        >
+                          <Undo2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
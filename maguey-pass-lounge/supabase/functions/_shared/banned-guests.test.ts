@@ -0,0 +1,30 @@
+/**
+ * Banned Guests Tests
+ *
+ * Covers the name key shared with the scanner's ban matching.
+ *
+ * To run: deno test --allow-net --allow-env banned-guests.test.ts
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { banNameKey } from "./banned-guests.ts";
+
+// ============================================
+// banNameKey
+// ============================================
+
+Deno.test("banNameKey - ignores case, accents and punctuation", () => {
+  assertEquals(banNameKey("  José  O'Neil "), "jose oneil");
+  assertEquals(banNameKey("JOSE ONEIL"), "jose oneil");
+});
+
+Deno.test("banNameKey - keeps only the first and last name", () => {
+  assertEquals(banNameKey("Maria Elena Martinez"), "maria martinez");
+  assertEquals(banNameKey("Jean-Luc Picard"), "jeanluc picard");
+});
+
+Deno.test("banNameKey - single and empty names", () => {
+  assertEquals(banNameKey("Prince"), "prince");
+  assertEquals(banNameKey(""), "");
+  assertEquals(banNameKey(null), "");
+});
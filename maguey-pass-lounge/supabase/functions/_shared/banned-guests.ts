@@ -0,0 +1,70 @@
+/**
+ * Banned Guests
+ *
+ * Used by create-checkout-session to refuse purchases from guests whose
+ * ban is set to block purchases (banned_guests.block_purchases, see
+ * 20260422000000_banned_guests.sql). Door checks live in the scanner.
+ *
+ * banNameKey must build the same key as the scanner's banNameKey in
+ * src/lib/banned-guests.ts: bans are stored with it and
+ * match_banned_guest compares it as-is.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type BanMatchedOn = "email" | "phone" | "name_dob" | "name";
+
+export interface PurchaseBan {
+  id: string;
+  matched_on: BanMatchedOn;
+}
+
+/** First and last name, lowercased without accents or punctuation */
+export function banNameKey(name: string | null | undefined): string {
+  const tokens = (name || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/['\u2019-]/g, "")
+    .replace(/[^a-z]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean);
+  if (tokens.length <= 1) return tokens.join("");
+  return `${tokens[0]} ${tokens[tokens.length - 1]}`;
+}
+
+/**
+ * The ban that refuses this purchase, or null. Checkout is not blocked
+ * when the lookup fails.
+ */
+export async function findPurchaseBan(
+  supabase: SupabaseClient,
+  params: { email: string; name?: string | null; eventId?: string | null }
+): Promise<PurchaseBan | null> {
+  const { data, error } = await supabase.rpc("match_banned_guest", {
+    p_email: params.email,
+    p_name_key: banNameKey(params.name) || null,
+    p_purchases_only: true,
+  });
+  if (error) {
+    console.error("[banned-guests] Ban lookup failed:", error.message);
+    return null;
+  }
+
+  const ban = ((data || []) as PurchaseBan[])[0];
+  if (!ban) return null;
+
+  const { error: logError } = await supabase.from("banned_guest_matches").insert({
+    banned_guest_id: ban.id,
+    context: "checkout",
+    matched_on: ban.matched_on,
+    outcome: "rejected",
+    event_id: params.eventId ?? null,
+  });
+  if (logError) {
+    console.error("[banned-guests] Failed to record match:", logError.message);
+  }
+
+  return { id: ban.id, matched_on: ban.matched_on };
+}
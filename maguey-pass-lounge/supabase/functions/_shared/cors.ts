@@ -50,7 +50,8 @@ export function getAllowedOrigin(requestOrigin: string | null): string {
  * @param extraAllowedHeaders Optional additional headers to allow (comma-separated string)
  */
 export function getCorsHeaders(req: Request, extraAllowedHeaders?: string) {
-  const baseHeaders = "authorization, x-client-info, apikey, content-type";
+  // traceparent/tracestate carry the browser's trace into the function (see tracing.ts)
+  const baseHeaders = "authorization, x-client-info, apikey, content-type, traceparent, tracestate";
   const allowHeaders = extraAllowedHeaders
     ? `${baseHeaders}, ${extraAllowedHeaders}`
     : baseHeaders;
@@ -0,0 +1,128 @@
+/**
+ * Event Reschedule Tests
+ *
+ * Covers RPC error mapping and the localized keep-or-refund and refund
+ * confirmation emails.
+ *
+ * To run: deno test --allow-net --allow-env event-reschedule.test.ts
+ */
+
+import {
+  assert,
+  assertEquals,
+} from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  buildRescheduledEmail,
+  buildRescheduleRefundedEmail,
+  formatEventStart,
+  toRescheduleError,
+  type RescheduledEvent,
+  type RescheduleHolder,
+} from "./event-reschedule.ts";
+
+// ============================================
+// Fixtures
+// ============================================
+
+const HOLDER: RescheduleHolder = {
+  id: "response-1",
+  order_id: "order-1",
+  vip_reservation_id: null,
+  holder_email: "luis@example.com",
+  holder_name: "Luis Garcia",
+  locale: "en",
+  amount_cents: 5500,
+  response_token: "abc123",
+};
+
+const EVENT: RescheduledEvent = {
+  reschedule_id: "reschedule-1",
+  event_id: "event-1",
+  event_name: "Reggaeton Night",
+  venue_name: "Maguey Delaware",
+  previous_date: "2026-05-01",
+  previous_time: "22:00:00",
+  new_date: "2026-05-08",
+  new_time: "21:30",
+  refund_deadline: "2026-05-05T04:00:00Z",
+  reason: null,
+  responses: [HOLDER],
+  superseded_responses: 0,
+  reminders_reset: 0,
+  split_tables_skipped: 0,
+};
+
+// ============================================
+// toRescheduleError
+// ============================================
+
+Deno.test("toRescheduleError - passes validation messages through as 400", () => {
+  const error = toRescheduleError("Refund deadline must be between now and the new start time");
+  assertEquals(error?.status, 400);
+  assertEquals(error?.message, "Refund deadline must be between now and the new start time");
+});
+
+Deno.test("toRescheduleError - maps events that can't move to 409", () => {
+  assertEquals(toRescheduleError("Event is cancelled")?.status, 409);
+  assertEquals(toRescheduleError("Event has already started")?.status, 409);
+});
+
+Deno.test("toRescheduleError - maps late and repeated refunds to 409", () => {
+  assertEquals(toRescheduleError("The refund deadline has passed")?.status, 409);
+  assertEquals(toRescheduleError("Refund already requested")?.status, 409);
+  assertEquals(toRescheduleError("This event has been rescheduled again")?.status, 409);
+});
+
+Deno.test("toRescheduleError - unknown links are 404", () => {
+  assertEquals(toRescheduleError("Reschedule response not found")?.status, 404);
+});
+
+Deno.test("toRescheduleError - leaves unexpected errors alone", () => {
+  assertEquals(toRescheduleError("connection reset"), null);
+});
+
+// ============================================
+// Emails
+// ============================================
+
+Deno.test("formatEventStart - includes the time when there is one", () => {
+  assert(formatEventStart("2026-05-08", "21:30:00", "en").includes("9:30"));
+  assertEquals(formatEventStart("2026-05-08", null, "en"), "Friday, May 8, 2026");
+});
+
+Deno.test("buildRescheduledEmail - shows both dates, the refund and the link", () => {
+  const { subject, html } = buildRescheduledEmail(EVENT, HOLDER);
+  assertEquals(subject, "Reggaeton Night has moved to a new date");
+  assert(html.includes("Hi Luis,"));
+  assert(html.includes("Friday, May 1, 2026"));
+  assert(html.includes("Friday, May 8, 2026"));
+  assert(html.includes("full refund of $55.00"));
+  assert(html.includes("you keep your tickets"));
+  assert(html.includes("/reschedule/abc123"));
+});
+
+Deno.test("buildRescheduledEmail - includes the venue's note only when given", () => {
+  assert(!buildRescheduledEmail(EVENT, HOLDER).html.includes("Note from the venue"));
+  const { html } = buildRescheduledEmail({ ...EVENT, reason: "Artist travel delay" }, HOLDER);
+  assert(html.includes("Note from the venue"));
+  assert(html.includes("Artist travel delay"));
+});
+
+Deno.test("buildRescheduledEmail - is localized", () => {
+  const { subject, html } = buildRescheduledEmail(EVENT, { ...HOLDER, locale: "es-MX" });
+  assertEquals(subject, "Reggaeton Night cambió de fecha");
+  assert(html.includes('lang="es"'));
+  assert(html.includes("Hola Luis,"));
+});
+
+Deno.test("buildRescheduleRefundedEmail - confirms the amount", () => {
+  const { subject, html } = buildRescheduleRefundedEmail({
+    locale: "en",
+    holderName: "Luis Garcia",
+    eventName: "Reggaeton Night",
+    amountCents: 5500,
+  });
+  assertEquals(subject, "Your refund for Reggaeton Night");
+  assert(html.includes("$55.00"));
+  assert(html.includes("no longer work"));
+});
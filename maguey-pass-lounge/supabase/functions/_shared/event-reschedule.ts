@@ -0,0 +1,345 @@
+/**
+ * Event Reschedule
+ *
+ * Shared by reschedule-event (the owner moves the event) and
+ * respond-to-reschedule (a holder keeps their tickets or asks for a refund).
+ *
+ * Lifecycle (see 20260420000000_event_reschedules.sql):
+ *   reschedule_event         -> event moved, one pending response per paid
+ *                               order / VIP reservation, reminders re-armed;
+ *                               every holder is emailed a keep-or-refund link
+ *   record_reschedule_choice -> keep, or refund (processing)
+ *   refundRescheduleResponse -> Stripe refund, then void_refunded_payment
+ *                               voids the tickets / passes; the response is
+ *                               refunded or failed
+ * Holders who don't answer by the refund deadline keep their tickets.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import Stripe from "https://esm.sh/stripe@12.0.0?target=deno";
+import {
+  emailTranslator,
+  formatEmailCurrency,
+  formatEmailDate,
+  resolveLocale,
+  type Locale,
+} from "./translations.ts";
+import { getTicketSiteUrl } from "./ticket-upgrades.ts";
+
+export type RescheduleChoice = "keep" | "refund";
+
+/** A holder's response as returned inside reschedule_event */
+export interface RescheduleHolder {
+  id: string;
+  order_id: string | null;
+  vip_reservation_id: string | null;
+  holder_email: string;
+  holder_name: string | null;
+  locale: string | null;
+  amount_cents: number;
+  response_token: string;
+}
+
+/** Row returned by reschedule_event */
+export interface RescheduledEvent {
+  reschedule_id: string;
+  event_id: string;
+  event_name: string;
+  venue_name: string | null;
+  previous_date: string;
+  previous_time: string | null;
+  new_date: string;
+  new_time: string | null;
+  refund_deadline: string;
+  reason: string | null;
+  responses: RescheduleHolder[];
+  superseded_responses: number;
+  reminders_reset: number;
+  split_tables_skipped: number;
+}
+
+/** An event_reschedule_responses row, as returned by record_reschedule_choice */
+export interface RescheduleResponse {
+  id: string;
+  reschedule_id: string;
+  order_id: string | null;
+  vip_reservation_id: string | null;
+  holder_email: string;
+  holder_name: string | null;
+  locale: string;
+  amount_cents: number;
+  stripe_payment_intent_id: string;
+  choice: RescheduleChoice | "pending" | "superseded";
+  refund_status: "processing" | "refunded" | "failed" | null;
+}
+
+/** Validation failure that should be returned to the caller as-is */
+export class RescheduleError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "RescheduleError";
+  }
+}
+
+/**
+ * Map a reschedule RPC error to a caller-facing error with an HTTP status.
+ * Returns null for unexpected errors, which should surface as a 500.
+ */
+export function toRescheduleError(message: string): RescheduleError | null {
+  if (message.includes("Event not found")) {
+    return new RescheduleError("Event not found", 404);
+  }
+  if (message.includes("Reschedule response not found")) {
+    return new RescheduleError("This link is not valid", 404);
+  }
+  if (message.includes("Event is cancelled")) {
+    return new RescheduleError("A cancelled event can't be rescheduled", 409);
+  }
+  if (message.includes("already started")) {
+    return new RescheduleError("This event has already started", 409);
+  }
+  if (
+    message.includes("must be in the future")
+    || message.includes("same as the current date")
+    || message.includes("Refund deadline must be")
+  ) {
+    return new RescheduleError(message, 400);
+  }
+  if (message.includes("rescheduled again")) {
+    return new RescheduleError("This event has been rescheduled again — check your email for the newest link", 409);
+  }
+  if (message.includes("Refund already requested")) {
+    return new RescheduleError("Your refund has already been requested", 409);
+  }
+  if (message.includes("refund deadline has passed")) {
+    return new RescheduleError("The deadline to ask for a refund has passed", 409);
+  }
+  if (message.includes("Only owners")) {
+    return new RescheduleError("Only owners can reschedule events", 403);
+  }
+  return null;
+}
+
+/** Link a holder uses to keep their tickets or ask for a refund */
+export function rescheduleResponseUrl(responseToken: string): string {
+  return `${getTicketSiteUrl()}/reschedule/${responseToken}`;
+}
+
+/**
+ * "Saturday, March 14 at 10:00 PM" for an event date and its HH:MM[:SS]
+ * time, or just the date when there is no time
+ */
+export function formatEventStart(date: string, time: string | null, locale: Locale): string {
+  if (!time) return formatEmailDate(date, locale);
+  return formatEmailDate(`${date}T${time.slice(0, 5)}:00`, locale, {
+    weekday: "long", month: "long", day: "numeric", year: "numeric", hour: "numeric", minute: "2-digit",
+  });
+}
+
+function emailShell(locale: string, subject: string, heading: string, body: string, automated: string): string {
+  return `
+<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+  <meta charset="UTF-8">
+  <title>${subject}</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; background: #f5f5f5;">
+  <div style="background: white; border-radius: 8px; padding: 30px; box-shadow: 0 2px 4px rgba(0,0,0,0.1);">
+    <div style="text-align: center; margin-bottom: 30px; border-bottom: 2px solid #e0e0e0; padding-bottom: 20px;">
+      <h1 style="color: #8B0000; margin: 0;">MAGUEY</h1>
+      <h2 style="margin: 10px 0 0;">${heading}</h2>
+    </div>
+    ${body}
+    <p style="margin-top: 30px; font-size: 12px; color: #999; text-align: center;">${automated}</p>
+  </div>
+</body>
+</html>
+  `.trim();
+}
+
+function button(href: string, label: string): string {
+  return `
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${href}" style="display: inline-block; padding: 12px 24px; background: #8B0000; color: white; text-decoration: none; border-radius: 6px; font-weight: 600;">
+        ${label}
+      </a>
+    </div>`;
+}
+
+/**
+ * Localized email telling a holder the new date and offering a refund until
+ * the deadline
+ */
+export function buildRescheduledEmail(
+  event: RescheduledEvent,
+  holder: RescheduleHolder
+): { subject: string; html: string } {
+  const locale = resolveLocale(holder.locale);
+  const t = emailTranslator(locale);
+  const firstName = (holder.holder_name || "").split(" ")[0] || "Guest";
+  const subject = t("reschedule.subject", { eventName: event.event_name });
+  const deadline = formatEmailDate(event.refund_deadline, locale, {
+    weekday: "long", month: "long", day: "numeric", hour: "numeric", minute: "2-digit",
+  });
+
+  const body = `
+    <p>${t("reschedule.greeting", { name: firstName })}</p>
+    <p style="font-size: 18px; font-weight: 600;">${t("reschedule.intro", { eventName: event.event_name })}</p>
+    <p><strong>${t("reschedule.previousDate")}:</strong> <span style="text-decoration: line-through;">${formatEventStart(event.previous_date, event.previous_time, locale)}</span></p>
+    <p><strong>${t("reschedule.newDate")}:</strong> ${formatEventStart(event.new_date, event.new_time, locale)}</p>
+    ${event.reason ? `<p><strong>${t("reschedule.venueNote")}:</strong> ${event.reason}</p>` : ""}
+    <p>${t("reschedule.refundOffer", {
+      amount: formatEmailCurrency(holder.amount_cents / 100, locale),
+      deadline,
+    })}</p>
+    <p>${t("reschedule.keepByDefault")}</p>
+    ${button(rescheduleResponseUrl(holder.response_token), t("reschedule.choose"))}`;
+
+  return { subject, html: emailShell(locale, subject, t("reschedule.heading"), body, t("reschedule.automated")) };
+}
+
+/**
+ * Localized confirmation once a holder's refund has gone through
+ */
+export function buildRescheduleRefundedEmail(params: {
+  locale: string | null;
+  holderName: string | null;
+  eventName: string;
+  amountCents: number;
+}): { subject: string; html: string } {
+  const locale = resolveLocale(params.locale);
+  const t = emailTranslator(locale);
+  const firstName = (params.holderName || "").split(" ")[0] || "Guest";
+  const subject = t("reschedule.refundedSubject", { eventName: params.eventName });
+
+  const body = `
+    <p>${t("reschedule.greeting", { name: firstName })}</p>
+    <p style="font-size: 18px; font-weight: 600;">${t("reschedule.refundedIntro", { eventName: params.eventName })}</p>
+    <p><strong>${t("reschedule.refundedAmount")}:</strong> ${formatEmailCurrency(params.amountCents / 100, locale)}</p>
+    <p>${t("reschedule.refundedNote")}</p>`;
+
+  return { subject, html: emailShell(locale, subject, t("reschedule.refundedHeading"), body, t("reschedule.automated")) };
+}
+
+export async function queueRescheduleEmail(
+  supabase: SupabaseClient,
+  emailType: "event_rescheduled" | "event_reschedule_refunded",
+  recipient: string,
+  email: { subject: string; html: string },
+  relatedId: string
+): Promise<boolean> {
+  const { error } = await supabase.from("email_queue").insert({
+    email_type: emailType,
+    recipient_email: recipient,
+    subject: email.subject,
+    html_body: email.html,
+    related_id: relatedId,
+    status: "pending",
+    attempt_count: 0,
+    max_attempts: 5,
+    next_retry_at: new Date().toISOString(),
+  });
+  if (error) {
+    console.error(`[event-reschedule] Failed to queue ${emailType} email:`, error.message);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Email every holder their keep-or-refund link. Returns how many emails
+ * were queued; never throws — the event has already moved.
+ */
+export async function announceReschedule(
+  supabase: SupabaseClient,
+  event: RescheduledEvent
+): Promise<number> {
+  let queued = 0;
+  for (const holder of event.responses) {
+    const sent = await queueRescheduleEmail(
+      supabase,
+      "event_rescheduled",
+      holder.holder_email,
+      buildRescheduledEmail(event, holder),
+      holder.id
+    );
+    if (sent) queued++;
+  }
+  return queued;
+}
+
+/**
+ * Refund a holder who chose a refund and void what they paid for. The
+ * idempotency key makes a retried request return the same Stripe refund.
+ * Returns false when Stripe refused; the response is left failed so the
+ * holder can try again or the owner can refund from Stripe.
+ */
+export async function refundRescheduleResponse(
+  supabase: SupabaseClient,
+  response: RescheduleResponse,
+  eventName: string
+): Promise<boolean> {
+  const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") || "", {
+    apiVersion: "2023-10-16",
+  });
+
+  let refundId: string;
+  try {
+    const refund = await stripe.refunds.create(
+      {
+        payment_intent: response.stripe_payment_intent_id,
+        reason: "requested_by_customer",
+        metadata: { type: "event_reschedule", responseId: response.id },
+      },
+      { idempotencyKey: `event-reschedule-${response.id}` }
+    );
+    refundId = refund.id;
+  } catch (refundError) {
+    console.error("[event-reschedule] Refund failed:", refundError);
+    await supabase
+      .from("event_reschedule_responses")
+      .update({
+        refund_status: "failed",
+        refund_error: refundError instanceof Error ? refundError.message : String(refundError),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", response.id);
+    return false;
+  }
+
+  // charge.refunded does the same when the webhook arrives; both are no-ops
+  // the second time
+  const { error: voidError } = await supabase.rpc("void_refunded_payment", {
+    p_payment_intent_id: response.stripe_payment_intent_id,
+    p_refund_id: refundId,
+    p_reason: "Refunded after the event was rescheduled",
+  });
+  if (voidError) {
+    console.error("[event-reschedule] Failed to void refunded payment:", voidError.message);
+  }
+
+  await supabase
+    .from("event_reschedule_responses")
+    .update({
+      refund_status: "refunded",
+      refund_id: refundId,
+      refunded_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", response.id);
+
+  await queueRescheduleEmail(
+    supabase,
+    "event_reschedule_refunded",
+    response.holder_email,
+    buildRescheduleRefundedEmail({
+      locale: response.locale,
+      holderName: response.holder_name,
+      eventName,
+      amountCents: response.amount_cents,
+    }),
+    response.id
+  );
+  return true;
+}
@@ -0,0 +1,71 @@
+/**
+ * Loyalty Tests
+ *
+ * Covers the early on-sale access window, whose loyalty account a checkout
+ * may use and how many credits it may redeem.
+ *
+ * To run: deno test --allow-net --allow-env loyalty.test.ts
+ */
+
+import {
+  assert,
+  assertEquals,
+} from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { hasOnSaleAccess, loyaltyCreditsToApply, verifiedLoyaltyEmail } from "./loyalty.ts";
+
+// ============================================
+// verifiedLoyaltyEmail
+// ============================================
+
+Deno.test("verifiedLoyaltyEmail - the signed-in user's own email", () => {
+  assertEquals(verifiedLoyaltyEmail({ email: "Ana@Example.com" }, " ana@example.com"), "ana@example.com");
+});
+
+Deno.test("verifiedLoyaltyEmail - guests and other people's emails get no loyalty", () => {
+  assertEquals(verifiedLoyaltyEmail(null, "ana@example.com"), null);
+  assertEquals(verifiedLoyaltyEmail({ email: "mallory@example.com" }, "ana@example.com"), null);
+  assertEquals(verifiedLoyaltyEmail({ email: null }, "ana@example.com"), null);
+});
+
+// ============================================
+// hasOnSaleAccess
+// ============================================
+
+const ON_SALE_AT = "2026-05-01T15:00:00.000Z";
+
+Deno.test("hasOnSaleAccess - events without an on-sale time are always open", () => {
+  assert(hasOnSaleAccess(null, 0));
+  assert(hasOnSaleAccess(undefined, 0));
+});
+
+Deno.test("hasOnSaleAccess - general sale opens at on_sale_at", () => {
+  assertEquals(hasOnSaleAccess(ON_SALE_AT, 0, new Date("2026-05-01T14:59:59.000Z")), false);
+  assert(hasOnSaleAccess(ON_SALE_AT, 0, new Date("2026-05-01T15:00:00.000Z")));
+});
+
+Deno.test("hasOnSaleAccess - early access tiers get in ahead of the on-sale", () => {
+  const dayBefore = new Date("2026-04-30T16:00:00.000Z");
+  assert(hasOnSaleAccess(ON_SALE_AT, 24, dayBefore));
+  assertEquals(hasOnSaleAccess(ON_SALE_AT, 0, dayBefore), false);
+  assertEquals(hasOnSaleAccess(ON_SALE_AT, 24, new Date("2026-04-30T14:00:00.000Z")), false);
+});
+
+// ============================================
+// loyaltyCreditsToApply
+// ============================================
+
+Deno.test("loyaltyCreditsToApply - capped by balance and amount still owed", () => {
+  assertEquals(loyaltyCreditsToApply(10, 25, 80), 10);
+  assertEquals(loyaltyCreditsToApply(50, 25, 80), 25);
+  assertEquals(loyaltyCreditsToApply(50, 25, 12.5), 12.5);
+});
+
+Deno.test("loyaltyCreditsToApply - nothing requested or nothing owed redeems zero", () => {
+  assertEquals(loyaltyCreditsToApply(undefined, 25, 80), 0);
+  assertEquals(loyaltyCreditsToApply(-5, 25, 80), 0);
+  assertEquals(loyaltyCreditsToApply(10, 25, 0), 0);
+});
+
+Deno.test("loyaltyCreditsToApply - rounds down to whole cents", () => {
+  assertEquals(loyaltyCreditsToApply(3.337, 25, 80), 3.33);
+});
@@ -0,0 +1,96 @@
+/**
+ * Loyalty
+ *
+ * Server-side helpers for the loyalty program (see 20260407000000_loyalty_program.sql).
+ * create-checkout-session uses them for early on-sale access and credit
+ * redemption; earning and reversing points happens in the award/reverse RPCs
+ * called from stripe-webhook.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type LoyaltyTier = "bronze" | "silver" | "gold" | "platinum";
+
+export interface LoyaltyStanding {
+  tier: LoyaltyTier;
+  credits: number;
+  earlyAccessHours: number;
+}
+
+const NO_STANDING: LoyaltyStanding = { tier: "bronze", credits: 0, earlyAccessHours: 0 };
+
+/**
+ * The purchaser email whose loyalty account a checkout may use: only the
+ * signed-in user's own, never one typed into the order form.
+ */
+export function verifiedLoyaltyEmail(
+  user: { email?: string | null } | null | undefined,
+  customerEmail: string
+): string | null {
+  const email = user?.email?.trim().toLowerCase();
+  if (!email || email !== customerEmail.trim().toLowerCase()) return null;
+  return email;
+}
+
+/**
+ * Tier, credit balance and early-access window for a purchaser email.
+ * Customers without a loyalty record, or without a verified email, are
+ * treated as bronze with no credits.
+ */
+export async function getLoyaltyStanding(
+  supabase: SupabaseClient,
+  email: string | null
+): Promise<LoyaltyStanding> {
+  if (!email) return NO_STANDING;
+
+  const { data: account, error } = await supabase
+    .from("user_loyalty")
+    .select("credits, membership_tier")
+    .eq("email", email.trim().toLowerCase())
+    .maybeSingle();
+
+  if (error) {
+    console.error("Loyalty lookup error:", error);
+    return NO_STANDING;
+  }
+  if (!account) return NO_STANDING;
+
+  const { data: tier } = await supabase
+    .from("loyalty_tiers")
+    .select("early_access_hours")
+    .eq("tier", account.membership_tier)
+    .maybeSingle();
+
+  return {
+    tier: account.membership_tier as LoyaltyTier,
+    credits: Number(account.credits) || 0,
+    earlyAccessHours: Number(tier?.early_access_hours) || 0,
+  };
+}
+
+/**
+ * Whether tickets can be bought now: the event has no on-sale time, it has
+ * passed, or the buyer's tier opens sales early enough.
+ */
+export function hasOnSaleAccess(
+  onSaleAt: string | null | undefined,
+  earlyAccessHours: number,
+  now: Date = new Date()
+): boolean {
+  if (!onSaleAt) return true;
+  const opensAt = new Date(onSaleAt).getTime() - earlyAccessHours * 60 * 60 * 1000;
+  return now.getTime() >= opensAt;
+}
+
+/**
+ * Credits actually redeemed: what the guest asked for, capped by their
+ * balance and by what is still owed after promotions. Rounded to cents.
+ */
+export function loyaltyCreditsToApply(
+  requested: number | null | undefined,
+  balance: number,
+  payableTotal: number
+): number {
+  const credits = Math.min(Number(requested) || 0, balance, payableTotal);
+  return credits > 0 ? Math.floor(credits * 100 + 1e-6) / 100 : 0;
+}
@@ -0,0 +1,70 @@
+/**
+ * Payment Disputes Tests
+ *
+ * Covers the record_payment_dispute parameters built from a Stripe dispute
+ * and when a refund counts as full.
+ *
+ * To run: deno test --allow-net --allow-env payment-disputes.test.ts
+ */
+
+import {
+  assert,
+  assertEquals,
+} from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  expandableId,
+  isFullyRefunded,
+  toDisputeParams,
+  type StripeDisputeLike,
+} from "./payment-disputes.ts";
+
+const DISPUTE: StripeDisputeLike = {
+  id: "dp_123",
+  charge: "ch_123",
+  payment_intent: "pi_123",
+  amount: 8450,
+  currency: "usd",
+  reason: "fraudulent",
+  status: "needs_response",
+  evidence_details: { due_by: 1780000000 },
+};
+
+Deno.test("toDisputeParams converts cents and the evidence deadline", () => {
+  assertEquals(toDisputeParams(DISPUTE), {
+    p_stripe_dispute_id: "dp_123",
+    p_charge_id: "ch_123",
+    p_payment_intent_id: "pi_123",
+    p_amount: 84.5,
+    p_currency: "usd",
+    p_reason: "fraudulent",
+    p_status: "needs_response",
+    p_evidence_due_by: new Date(1780000000 * 1000).toISOString(),
+  });
+});
+
+Deno.test("toDisputeParams accepts expanded objects and a missing deadline", () => {
+  const params = toDisputeParams({
+    ...DISPUTE,
+    charge: { id: "ch_456" },
+    payment_intent: null,
+    evidence_details: null,
+  });
+
+  assertEquals(params.p_charge_id, "ch_456");
+  assertEquals(params.p_payment_intent_id, null);
+  assertEquals(params.p_evidence_due_by, null);
+});
+
+Deno.test("expandableId handles ids, objects and nulls", () => {
+  assertEquals(expandableId("pi_1"), "pi_1");
+  assertEquals(expandableId({ id: "pi_2" }), "pi_2");
+  assertEquals(expandableId(null), null);
+});
+
+Deno.test("isFullyRefunded ignores partial refunds", () => {
+  const charge = { id: "ch_1", payment_intent: "pi_1", amount: 5000, amount_refunded: 1000 };
+
+  assertEquals(isFullyRefunded(charge), false);
+  assert(isFullyRefunded({ ...charge, amount_refunded: 5000 }));
+  assert(isFullyRefunded({ ...charge, refunded: true }));
+});
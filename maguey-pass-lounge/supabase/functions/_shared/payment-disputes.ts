@@ -0,0 +1,130 @@
+/**
+ * Payment Disputes
+ *
+ * Used by stripe-webhook for charge.dispute.created / updated / closed and
+ * charge.refunded. The voiding itself happens in the database (see
+ * 20260411000000_payment_disputes.sql):
+ *   record_payment_dispute -> tickets voided, VIP guest passes cancelled
+ *   close_payment_dispute  -> won: restored, lost: tickets cancelled
+ *   void_refunded_payment  -> full refunds issued outside the app
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+/** Stripe expandable field: an id, or the object when expanded */
+type Expandable = string | { id: string } | null | undefined;
+
+/** The parts of a Stripe Dispute object the webhook uses */
+export interface StripeDisputeLike {
+  id: string;
+  charge: Expandable;
+  payment_intent: Expandable;
+  /** Cents */
+  amount: number;
+  currency: string;
+  reason: string | null;
+  status: string;
+  evidence_details?: { due_by: number | null } | null;
+}
+
+/** The parts of a Stripe Charge object the webhook uses */
+export interface StripeChargeLike {
+  id: string;
+  payment_intent: Expandable;
+  /** Cents */
+  amount: number;
+  /** Cents, cumulative across partial refunds */
+  amount_refunded: number;
+  refunded?: boolean;
+  refunds?: { data?: Array<{ id: string; reason?: string | null }> } | null;
+}
+
+/** Row returned by record_payment_dispute */
+export interface RecordedDispute {
+  dispute_id: string;
+  is_new: boolean;
+  order_id: string | null;
+  vip_reservation_id: string | null;
+  event_id: string | null;
+  tickets_voided: number;
+  passes_voided: number;
+}
+
+/** Row returned by void_refunded_payment */
+export interface VoidedPayment {
+  order_id: string | null;
+  vip_reservation_id: string | null;
+  tickets_voided: number;
+  passes_voided: number;
+}
+
+export function expandableId(value: Expandable): string | null {
+  if (!value) return null;
+  return typeof value === "string" ? value : value.id;
+}
+
+/** Parameters for record_payment_dispute; Stripe amounts are in cents and due_by in epoch seconds */
+export function toDisputeParams(dispute: StripeDisputeLike) {
+  const dueBy = dispute.evidence_details?.due_by;
+  return {
+    p_stripe_dispute_id: dispute.id,
+    p_charge_id: expandableId(dispute.charge),
+    p_payment_intent_id: expandableId(dispute.payment_intent),
+    p_amount: dispute.amount / 100,
+    p_currency: dispute.currency,
+    p_reason: dispute.reason,
+    p_status: dispute.status,
+    p_evidence_due_by: dueBy ? new Date(dueBy * 1000).toISOString() : null,
+  };
+}
+
+/** True once nothing is left of the charge; partial refunds do not void tickets */
+export function isFullyRefunded(charge: StripeChargeLike): boolean {
+  return charge.refunded === true || (charge.amount > 0 && charge.amount_refunded >= charge.amount);
+}
+
+export async function recordPaymentDispute(
+  supabase: SupabaseClient,
+  dispute: StripeDisputeLike
+): Promise<RecordedDispute> {
+  const { data, error } = await supabase.rpc("record_payment_dispute", toDisputeParams(dispute));
+  if (error) throw new Error(error.message);
+  return data as RecordedDispute;
+}
+
+/**
+ * Close a dispute. Returns null when the dispute was never recorded (e.g. it
+ * was opened before disputes were tracked).
+ */
+export async function closePaymentDispute(
+  supabase: SupabaseClient,
+  dispute: StripeDisputeLike
+): Promise<{ dispute_id: string; restored: boolean; holds_released: number } | null> {
+  const { data, error } = await supabase.rpc("close_payment_dispute", {
+    p_stripe_dispute_id: dispute.id,
+    p_status: dispute.status,
+  });
+  if (error) throw new Error(error.message);
+  return data?.found ? data : null;
+}
+
+/**
+ * Void the tickets and passes of a fully refunded charge. Returns null for
+ * partial refunds and charges without a payment intent.
+ */
+export async function voidRefundedPayment(
+  supabase: SupabaseClient,
+  charge: StripeChargeLike
+): Promise<VoidedPayment | null> {
+  const paymentIntentId = expandableId(charge.payment_intent);
+  if (!paymentIntentId || !isFullyRefunded(charge)) return null;
+
+  const refund = charge.refunds?.data?.[0];
+  const { data, error } = await supabase.rpc("void_refunded_payment", {
+    p_payment_intent_id: paymentIntentId,
+    p_refund_id: refund?.id ?? charge.id,
+    p_reason: refund?.reason ? `Refunded in Stripe (${refund.reason})` : null,
+  });
+  if (error) throw new Error(error.message);
+  return data as VoidedPayment;
+}
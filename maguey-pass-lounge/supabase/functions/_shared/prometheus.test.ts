@@ -0,0 +1,135 @@
+/**
+ * Prometheus Exposition Tests
+ *
+ * Covers metric naming, label escaping, histogram rendering, stale gauges
+ * and the scrape token check.
+ *
+ * To run: deno test --allow-net --allow-env prometheus.test.ts
+ */
+
+import {
+  assert,
+  assertEquals,
+  assertStringIncludes,
+} from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  formatLabels,
+  isAuthorizedScrape,
+  renderPrometheus,
+  toPrometheusName,
+  type MetricTotalRow,
+} from "./prometheus.ts";
+
+// ============================================
+// Fixtures
+// ============================================
+
+const NOW = Date.parse("2026-04-16T22:00:00Z");
+
+function row(overrides: Partial<MetricTotalRow>): MetricTotalRow {
+  return {
+    app: "gate-scanner",
+    name: "ticket.scans.total",
+    labels: {},
+    metric_type: "counter",
+    value: 0,
+    count: 0,
+    buckets: {},
+    updated_at: new Date(NOW).toISOString(),
+    ...overrides,
+  };
+}
+
+// ============================================
+// Naming and labels
+// ============================================
+
+Deno.test("toPrometheusName - prefixes and suffixes counters once", () => {
+  assertEquals(toPrometheusName("orders.created", "counter"), "maguey_orders_created_total");
+  assertEquals(toPrometheusName("ticket.scans.total", "counter"), "maguey_ticket_scans_total");
+  assertEquals(toPrometheusName("queue.depth", "gauge"), "maguey_queue_depth");
+});
+
+Deno.test("formatLabels - sorts keys and escapes values", () => {
+  assertEquals(formatLabels({}), "");
+  assertEquals(
+    formatLabels({ path: '/api/"orders"', event_id: "e1", "bad-key": "a\\b\nc" }),
+    '{bad_key="a\\\\b\\nc",event_id="e1",path="/api/\\"orders\\""}',
+  );
+});
+
+// ============================================
+// Rendering
+// ============================================
+
+Deno.test("renderPrometheus - one family per metric with an app label", () => {
+  const output = renderPrometheus([
+    row({ labels: { result: "valid" }, value: 40 }),
+    row({ labels: { result: "invalid" }, value: 2 }),
+    row({ app: "pass-lounge", name: "orders.created", labels: { success: "true" }, value: 12 }),
+  ], NOW);
+
+  assertEquals(output.split("\n").filter((line) => line.startsWith("# TYPE")), [
+    "# TYPE maguey_orders_created_total counter",
+    "# TYPE maguey_ticket_scans_total counter",
+  ]);
+  assertStringIncludes(output, 'maguey_ticket_scans_total{app="gate-scanner",result="valid"} 40');
+  assertStringIncludes(output, 'maguey_orders_created_total{app="pass-lounge",success="true"} 12');
+});
+
+Deno.test("renderPrometheus - histograms get sorted buckets, +Inf, sum and count", () => {
+  const output = renderPrometheus([
+    row({
+      name: "ticket.scan.duration",
+      metric_type: "histogram",
+      value: 930,
+      count: 5,
+      buckets: { "1000": 5, "100": 3, "250": 4 },
+    }),
+  ], NOW);
+
+  assertEquals(output.trim().split("\n"), [
+    "# TYPE maguey_ticket_scan_duration histogram",
+    'maguey_ticket_scan_duration_bucket{app="gate-scanner",le="100"} 3',
+    'maguey_ticket_scan_duration_bucket{app="gate-scanner",le="250"} 4',
+    'maguey_ticket_scan_duration_bucket{app="gate-scanner",le="1000"} 5',
+    'maguey_ticket_scan_duration_bucket{app="gate-scanner",le="+Inf"} 5',
+    'maguey_ticket_scan_duration_sum{app="gate-scanner"} 930',
+    'maguey_ticket_scan_duration_count{app="gate-scanner"} 5',
+  ]);
+});
+
+Deno.test("renderPrometheus - leaves out gauges nobody reported recently", () => {
+  const output = renderPrometheus([
+    row({ name: "active_users", metric_type: "gauge", value: 8 }),
+    row({
+      name: "queue.depth",
+      metric_type: "gauge",
+      value: 3,
+      updated_at: new Date(NOW - 60 * 60 * 1000).toISOString(),
+    }),
+  ], NOW);
+
+  assertStringIncludes(output, 'maguey_active_users{app="gate-scanner"} 8');
+  assert(!output.includes("maguey_queue_depth"));
+});
+
+Deno.test("renderPrometheus - empty without rows", () => {
+  assertEquals(renderPrometheus([], NOW), "");
+});
+
+// ============================================
+// Scrape auth
+// ============================================
+
+Deno.test("isAuthorizedScrape - needs the configured bearer token", () => {
+  const scrape = (authorization?: string) =>
+    new Request("http://localhost/functions/v1/health-check/metrics", {
+      headers: authorization ? { authorization } : {},
+    });
+
+  assert(isAuthorizedScrape(scrape("Bearer s3cret"), "s3cret"));
+  assert(!isAuthorizedScrape(scrape("Bearer s3cres"), "s3cret"));
+  assert(!isAuthorizedScrape(scrape(), "s3cret"));
+  assert(!isAuthorizedScrape(scrape("Bearer anything"), undefined));
+});
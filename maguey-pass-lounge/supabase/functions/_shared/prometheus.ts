@@ -0,0 +1,128 @@
+/**
+ * Prometheus Exposition
+ *
+ * Renders metric_totals (see 20260416000000_metrics_timeseries.sql) in the
+ * Prometheus text format for the health-check /metrics endpoint. The rows
+ * are running totals of what every device flushed from monitoring.ts, so
+ * counters keep growing across reloads and devices.
+ *
+ * Names follow monitoring.ts with a maguey_ prefix, counters end in _total
+ * (orders.created -> maguey_orders_created_total), and every series carries
+ * an app label for the site that reported it.
+ */
+
+export type MetricType = "counter" | "gauge" | "histogram";
+
+/** Row of metric_totals */
+export interface MetricTotalRow {
+  app: string;
+  name: string;
+  labels: Record<string, string>;
+  metric_type: MetricType;
+  value: number;
+  count: number;
+  /** Histogram bucket upper bound -> observations at or below it */
+  buckets: Record<string, number>;
+  updated_at: string;
+}
+
+/** Gauges nobody has reported for this long are left out (the device went away) */
+export const STALE_GAUGE_MS = 15 * 60 * 1000;
+
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+/**
+ * orders.created -> maguey_orders_created_total
+ */
+export function toPrometheusName(name: string, type: MetricType): string {
+  const base = `maguey_${name.replace(/[^a-zA-Z0-9_:]/g, "_").toLowerCase()}`;
+  return type === "counter" && !base.endsWith("_total") ? `${base}_total` : base;
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+export function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.keys(labels)
+    .sort()
+    .map((key) => `${key.replace(/[^a-zA-Z0-9_]/g, "_")}="${escapeLabelValue(String(labels[key]))}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+/**
+ * The exposition for a set of metric_totals rows, one # TYPE line per
+ * metric family
+ */
+export function renderPrometheus(rows: MetricTotalRow[], now: number = Date.now()): string {
+  const families = new Map<string, { type: MetricType; lines: string[] }>();
+
+  const sorted = [...rows].sort((a, b) =>
+    a.name.localeCompare(b.name) || a.app.localeCompare(b.app) || formatLabels(a.labels).localeCompare(formatLabels(b.labels))
+  );
+
+  for (const row of sorted) {
+    if (row.metric_type === "gauge" && now - new Date(row.updated_at).getTime() > STALE_GAUGE_MS) {
+      continue;
+    }
+
+    const name = toPrometheusName(row.name, row.metric_type);
+    if (!families.has(name)) {
+      families.set(name, { type: row.metric_type, lines: [] });
+    }
+    const family = families.get(name)!;
+    // A name reported as two different types would make the scrape invalid
+    if (family.type !== row.metric_type) continue;
+
+    const labels = { ...row.labels, app: row.app };
+
+    if (row.metric_type !== "histogram") {
+      family.lines.push(`${name}${formatLabels(labels)} ${formatValue(row.value)}`);
+      continue;
+    }
+
+    const bounds = Object.keys(row.buckets || {})
+      .map(Number)
+      .filter((bound) => Number.isFinite(bound))
+      .sort((a, b) => a - b);
+    for (const bound of bounds) {
+      const count = row.buckets[String(bound)];
+      family.lines.push(`${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${formatValue(count)}`);
+    }
+    family.lines.push(`${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${row.count}`);
+    family.lines.push(`${name}_sum${formatLabels(labels)} ${formatValue(row.value)}`);
+    family.lines.push(`${name}_count${formatLabels(labels)} ${row.count}`);
+  }
+
+  const output: string[] = [];
+  for (const [name, family] of families) {
+    output.push(`# TYPE ${name} ${family.type}`, ...family.lines);
+  }
+  return output.length > 0 ? `${output.join("\n")}\n` : "";
+}
+
+/**
+ * Whether a scrape carries the configured bearer token. The endpoint is
+ * disabled (never authorized) while no token is configured.
+ */
+export function isAuthorizedScrape(req: Request, token: string | undefined | null): boolean {
+  if (!token) return false;
+
+  const header = req.headers.get("authorization") || "";
+  const presented = header.startsWith("Bearer ") ? header.slice("Bearer ".length) : "";
+  if (presented.length !== token.length) return false;
+
+  // Compare every character so the response time does not leak the token
+  let mismatch = 0;
+  for (let i = 0; i < token.length; i++) {
+    mismatch |= presented.charCodeAt(i) ^ token.charCodeAt(i);
+  }
+  return mismatch === 0;
+}
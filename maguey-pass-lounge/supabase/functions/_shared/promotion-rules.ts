@@ -0,0 +1,405 @@
+/**
+ * Promotion Rules Engine
+ *
+ * Pure evaluator for promotions: scoping (event / ticket type), minimums,
+ * buy-X-get-Y, happy-hour windows, usage limits and stacking.
+ *
+ * This file exists twice and the copies must stay identical:
+ *   - src/lib/promotion-rules.ts (Checkout preview)
+ *   - supabase/functions/_shared/promotion-rules.ts (create-checkout-session, authoritative)
+ * src/lib/__tests__/promotion-rules.test.ts checks they match. No imports, so
+ * it runs unchanged in the browser and in Deno.
+ *
+ * Usage:
+ *   const rules = rows.map(toPromotionRule); // rows from get_applicable_promotions()
+ *   const result = evaluatePromotions(cart, rules, { code: "SUMMER10" });
+ *   result.discount; // dollars off the order
+ */
+
+/** Happy-hour windows and days of week are evaluated in venue time */
+export const VENUE_TIME_ZONE = "America/New_York";
+
+export type PromotionDiscountType = "amount" | "percent" | "buy_x_get_y";
+
+export interface PromotionRule {
+  id: string;
+  name: string;
+  /** Code the customer entered that matched this promotion (null when auto-applied) */
+  code: string | null;
+  /** promotion_codes.id when a bulk-generated single-use code matched */
+  promotionCodeId: string | null;
+  discountType: PromotionDiscountType;
+  /**
+   * amount: dollars off the order
+   * percent: percent off eligible tickets
+   * buy_x_get_y: percent off the "get" tickets (100 = free)
+   */
+  amount: number;
+  autoApply: boolean;
+  /** null = every event */
+  eventIds: string[] | null;
+  /** null = every ticket type */
+  ticketTypeIds: string[] | null;
+  /** Minimum eligible tickets in the cart */
+  minQuantity: number | null;
+  /** Minimum eligible subtotal (price + fee) */
+  minSubtotal: number | null;
+  buyQuantity: number | null;
+  getQuantity: number | null;
+  validFrom: string | null;
+  validTo: string | null;
+  /** "HH:MM" venue time; a window may cross midnight (22:00 → 02:00) */
+  happyHourStart: string | null;
+  happyHourEnd: string | null;
+  /** 0 = Sunday … 6 = Saturday, venue time; null = every day */
+  daysOfWeek: number[] | null;
+  /** Can be combined with other stackable promotions */
+  stackable: boolean;
+  /** Higher goes first when stacking and wins ties */
+  priority: number;
+  usageLimit: number | null;
+  usageCount: number;
+  perCustomerLimit: number | null;
+  customerUsageCount: number;
+  /** Uses left on the matched single-use code (null for shared codes / auto promos) */
+  codeUsesRemaining: number | null;
+}
+
+export interface PromotionCartLine {
+  ticketTypeId: string;
+  quantity: number;
+  unitPrice: number;
+  unitFee: number;
+}
+
+export interface PromotionCart {
+  eventId: string;
+  lines: PromotionCartLine[];
+}
+
+export type PromotionRejection =
+  | "not_found"
+  | "not_started"
+  | "expired"
+  | "outside_hours"
+  | "not_for_event"
+  | "not_for_ticket_type"
+  | "min_quantity"
+  | "min_subtotal"
+  | "usage_limit"
+  | "customer_limit"
+  | "code_used"
+  | "no_discount"
+  | "not_combinable";
+
+export interface AppliedPromotion {
+  promotionId: string;
+  promotionCodeId: string | null;
+  code: string | null;
+  name: string;
+  discount: number;
+}
+
+export interface PromotionEvaluation {
+  applied: AppliedPromotion[];
+  /** Total dollars off, never more than the cart total */
+  discount: number;
+  /** Why the entered code didn't apply; null when it applied or no code was entered */
+  codeRejection: PromotionRejection | null;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export function normalizePromotionCode(code: string | null | undefined): string {
+  return (code ?? "").trim().toUpperCase();
+}
+
+/** Row returned by the get_applicable_promotions() RPC (numerics may arrive as strings) */
+export interface PromotionRuleRow {
+  id: string;
+  name: string | null;
+  code: string | null;
+  matched_code: string | null;
+  promotion_code_id: string | null;
+  discount_type: PromotionDiscountType;
+  amount: number | string;
+  auto_apply: boolean;
+  event_ids: string[] | null;
+  ticket_type_ids: string[] | null;
+  min_quantity: number | null;
+  min_subtotal: number | string | null;
+  buy_quantity: number | null;
+  get_quantity: number | null;
+  valid_from: string | null;
+  valid_to: string | null;
+  happy_hour_start: string | null;
+  happy_hour_end: string | null;
+  days_of_week: number[] | null;
+  stackable: boolean;
+  priority: number | null;
+  usage_limit: number | null;
+  usage_count: number | string | null;
+  per_customer_limit: number | null;
+  customer_usage_count: number | string | null;
+  code_uses_remaining: number | string | null;
+}
+
+/**
+ * Map a get_applicable_promotions() row to a PromotionRule
+ */
+export function toPromotionRule(row: PromotionRuleRow): PromotionRule {
+  const toNumberOrNull = (value: number | string | null | undefined) =>
+    value === null || value === undefined ? null : Number(value);
+
+  return {
+    id: row.id,
+    name: row.name || row.code || "Promotion",
+    code: row.matched_code ?? null,
+    promotionCodeId: row.promotion_code_id ?? null,
+    discountType: row.discount_type,
+    amount: Number(row.amount),
+    autoApply: Boolean(row.auto_apply),
+    eventIds: row.event_ids ?? null,
+    ticketTypeIds: row.ticket_type_ids ?? null,
+    minQuantity: toNumberOrNull(row.min_quantity),
+    minSubtotal: toNumberOrNull(row.min_subtotal),
+    buyQuantity: toNumberOrNull(row.buy_quantity),
+    getQuantity: toNumberOrNull(row.get_quantity),
+    validFrom: row.valid_from ?? null,
+    validTo: row.valid_to ?? null,
+    happyHourStart: row.happy_hour_start ? String(row.happy_hour_start).slice(0, 5) : null,
+    happyHourEnd: row.happy_hour_end ? String(row.happy_hour_end).slice(0, 5) : null,
+    daysOfWeek: row.days_of_week ?? null,
+    stackable: Boolean(row.stackable),
+    priority: Number(row.priority ?? 0),
+    usageLimit: toNumberOrNull(row.usage_limit),
+    usageCount: Number(row.usage_count ?? 0),
+    perCustomerLimit: toNumberOrNull(row.per_customer_limit),
+    customerUsageCount: Number(row.customer_usage_count ?? 0),
+    codeUsesRemaining: toNumberOrNull(row.code_uses_remaining),
+  };
+}
+
+function eligibleLines(promotion: PromotionRule, cart: PromotionCart): PromotionCartLine[] {
+  return cart.lines.filter(
+    (line) =>
+      line.quantity > 0 &&
+      (!promotion.ticketTypeIds || promotion.ticketTypeIds.includes(line.ticketTypeId))
+  );
+}
+
+const lineTotal = (line: PromotionCartLine) => (line.unitPrice + line.unitFee) * line.quantity;
+
+const cartTotal = (cart: PromotionCart) =>
+  roundCents(cart.lines.reduce((sum, line) => sum + lineTotal(line), 0));
+
+/** Minutes since midnight and weekday (0 = Sunday) in venue time */
+function venueClock(now: Date): { minutes: number; day: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: VENUE_TIME_ZONE,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const get = (type: string) => parts.find((part) => part.type === type)?.value ?? "";
+  const days = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+  return {
+    minutes: Number(get("hour")) * 60 + Number(get("minute")),
+    day: days.indexOf(get("weekday")),
+  };
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+function isWithinSchedule(promotion: PromotionRule, now: Date): boolean {
+  if (!promotion.happyHourStart && !promotion.happyHourEnd && !promotion.daysOfWeek) {
+    return true;
+  }
+
+  const { minutes, day } = venueClock(now);
+  let scheduleDay = day;
+
+  if (promotion.happyHourStart && promotion.happyHourEnd) {
+    const start = toMinutes(promotion.happyHourStart);
+    const end = toMinutes(promotion.happyHourEnd);
+
+    if (start <= end) {
+      if (minutes < start || minutes >= end) return false;
+    } else {
+      // Crosses midnight: the early-morning part belongs to the previous day's window
+      if (minutes < start && minutes >= end) return false;
+      if (minutes < end) scheduleDay = (day + 6) % 7;
+    }
+  }
+
+  return !promotion.daysOfWeek || promotion.daysOfWeek.includes(scheduleDay);
+}
+
+/**
+ * Why a promotion can't be used on this cart, or null if it can
+ */
+export function checkPromotionEligibility(
+  promotion: PromotionRule,
+  cart: PromotionCart,
+  now: Date = new Date()
+): PromotionRejection | null {
+  if (promotion.validFrom && new Date(promotion.validFrom) > now) return "not_started";
+  if (promotion.validTo && new Date(promotion.validTo) < now) return "expired";
+  if (!isWithinSchedule(promotion, now)) return "outside_hours";
+  if (promotion.eventIds && !promotion.eventIds.includes(cart.eventId)) return "not_for_event";
+
+  const lines = eligibleLines(promotion, cart);
+  if (lines.length === 0) return "not_for_ticket_type";
+
+  const quantity = lines.reduce((sum, line) => sum + line.quantity, 0);
+  if (promotion.minQuantity && quantity < promotion.minQuantity) return "min_quantity";
+
+  const subtotal = lines.reduce((sum, line) => sum + lineTotal(line), 0);
+  if (promotion.minSubtotal && subtotal < promotion.minSubtotal) return "min_subtotal";
+
+  if (promotion.usageLimit !== null && promotion.usageCount >= promotion.usageLimit) return "usage_limit";
+  if (promotion.perCustomerLimit !== null && promotion.customerUsageCount >= promotion.perCustomerLimit) {
+    return "customer_limit";
+  }
+  if (promotion.codeUsesRemaining !== null && promotion.codeUsesRemaining <= 0) return "code_used";
+
+  return null;
+}
+
+/**
+ * Dollars a promotion takes off the cart on its own (eligibility not checked)
+ */
+export function calculatePromotionDiscount(promotion: PromotionRule, cart: PromotionCart): number {
+  const lines = eligibleLines(promotion, cart);
+  const subtotal = lines.reduce((sum, line) => sum + lineTotal(line), 0);
+  let discount = 0;
+
+  switch (promotion.discountType) {
+    case "amount":
+      discount = promotion.amount;
+      break;
+    case "percent":
+      discount = subtotal * (promotion.amount / 100);
+      break;
+    case "buy_x_get_y": {
+      const buy = promotion.buyQuantity ?? 0;
+      const get = promotion.getQuantity ?? 0;
+      if (buy <= 0 || get <= 0) break;
+
+      // The cheapest eligible tickets are the "get" ones
+      const unitPrices = lines
+        .flatMap((line) => Array(line.quantity).fill(line.unitPrice + line.unitFee) as number[])
+        .sort((a, b) => a - b);
+      const freeUnits = Math.floor(unitPrices.length / (buy + get)) * get;
+      const freeValue = unitPrices.slice(0, freeUnits).reduce((sum, price) => sum + price, 0);
+      discount = freeValue * (promotion.amount / 100);
+      break;
+    }
+  }
+
+  return roundCents(Math.max(0, Math.min(discount, subtotal)));
+}
+
+/**
+ * Pick the best combination of promotions for a cart.
+ *
+ * Candidates are auto-applied promotions plus whatever the entered code
+ * matched. A non-stackable promotion is never combined with anything; the
+ * stackable ones are applied together in priority order. Whichever option
+ * saves the customer more wins (priority breaks ties). The total discount
+ * never exceeds the cart total.
+ *
+ * "not_combinable" means the code lost to a better offer, which is applied
+ * instead; checkout goes ahead and tells the customer the code wasn't needed.
+ */
+export function evaluatePromotions(
+  cart: PromotionCart,
+  promotions: PromotionRule[],
+  options: { code?: string | null; now?: Date } = {}
+): PromotionEvaluation {
+  const now = options.now ?? new Date();
+  const code = normalizePromotionCode(options.code);
+  const total = cartTotal(cart);
+
+  const codeMatches = code
+    ? promotions.filter((promotion) => normalizePromotionCode(promotion.code) === code)
+    : [];
+  const offered = promotions.filter(
+    (promotion) => promotion.autoApply || codeMatches.includes(promotion)
+  );
+
+  const rejections = new Map<string, PromotionRejection>();
+  const candidates: Array<{ promotion: PromotionRule; discount: number }> = [];
+
+  for (const promotion of offered) {
+    const rejection = checkPromotionEligibility(promotion, cart, now);
+    const discount = rejection ? 0 : calculatePromotionDiscount(promotion, cart);
+
+    if (rejection || discount <= 0) {
+      rejections.set(promotion.id, rejection ?? "no_discount");
+    } else {
+      candidates.push({ promotion, discount });
+    }
+  }
+
+  candidates.sort((a, b) => b.promotion.priority - a.promotion.priority || b.discount - a.discount);
+
+  // Build each option: every stackable promotion together, or one non-stackable alone
+  const buildOption = (picked: typeof candidates) => {
+    let remaining = total;
+    const applied: AppliedPromotion[] = [];
+    for (const { promotion, discount } of picked) {
+      const capped = roundCents(Math.min(discount, remaining));
+      if (capped <= 0) continue;
+      remaining = roundCents(remaining - capped);
+      applied.push({
+        promotionId: promotion.id,
+        promotionCodeId: promotion.promotionCodeId,
+        code: promotion.code,
+        name: promotion.name,
+        discount: capped,
+      });
+    }
+    // Candidates are sorted, so the first one is the option's highest priority
+    return { applied, priority: picked[0]?.promotion.priority ?? 0 };
+  };
+
+  const optionSets = [
+    buildOption(candidates.filter(({ promotion }) => promotion.stackable)),
+    ...candidates
+      .filter(({ promotion }) => !promotion.stackable)
+      .map((candidate) => buildOption([candidate])),
+  ];
+
+  const sumOf = (applied: AppliedPromotion[]) =>
+    roundCents(applied.reduce((sum, promotion) => sum + promotion.discount, 0));
+
+  let best: AppliedPromotion[] = [];
+  let bestPriority = -Infinity;
+  for (const { applied, priority } of optionSets) {
+    const saving = sumOf(applied);
+    if (saving <= 0) continue;
+    if (saving > sumOf(best) || (saving === sumOf(best) && priority > bestPriority)) {
+      best = applied;
+      bestPriority = priority;
+    }
+  }
+
+  let codeRejection: PromotionRejection | null = null;
+  if (code) {
+    if (codeMatches.length === 0) {
+      codeRejection = "not_found";
+    } else if (!best.some((applied) => normalizePromotionCode(applied.code) === code)) {
+      codeRejection = codeMatches
+        .map((promotion) => rejections.get(promotion.id))
+        .find((rejection) => rejection !== undefined) ?? "not_combinable";
+    }
+  }
+
+  return { applied: best, discount: sumOf(best), codeRejection };
+}
@@ -0,0 +1,150 @@
+/**
+ * Purchase Risk Tests
+ *
+ * Covers the risk signals and actions, disposable email domains, name
+ * matching, the sell-out check and review RPC error mapping.
+ *
+ * To run: deno test --allow-net --allow-env purchase-risk.test.ts
+ */
+
+import {
+  assert,
+  assertEquals,
+} from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  evaluatePurchaseRisk,
+  isDisposableEmail,
+  isNearSellOut,
+  namesMatch,
+  NO_VELOCITY,
+  requiresReview,
+  riskActionFor,
+  toPurchaseReviewError,
+  type PurchaseRiskInput,
+} from "./purchase-risk.ts";
+
+// ============================================
+// Fixtures
+// ============================================
+
+const PURCHASE: PurchaseRiskInput = {
+  email: "ana@example.com",
+  authenticated: false,
+  purchaserName: "Ana Lopez",
+  quantity: 2,
+  nearSellOut: false,
+  velocity: { ...NO_VELOCITY, email_orders_24h: 1, device_emails_24h: 1, ip_emails_24h: 1, card_emails_24h: 1 },
+};
+
+const signalTypes = (input: PurchaseRiskInput) =>
+  evaluatePurchaseRisk(input).signals.map((signal) => signal.type);
+
+// ============================================
+// evaluatePurchaseRisk
+// ============================================
+
+Deno.test("an ordinary purchase is allowed", () => {
+  const risk = evaluatePurchaseRisk(PURCHASE);
+  assertEquals(risk.score, 0);
+  assertEquals(risk.action, "allow");
+  assertEquals(risk.signals, []);
+});
+
+Deno.test("many small declines block the purchase as card testing", () => {
+  const risk = evaluatePurchaseRisk({
+    ...PURCHASE,
+    velocity: { ...PURCHASE.velocity, failed_payments_1h: 6, small_failed_payments_1h: 5 },
+  });
+  assertEquals(risk.action, "block");
+  assertEquals(risk.signals.map((signal) => signal.type), ["card_testing"]);
+});
+
+Deno.test("a few declines only add the failed payments signal", () => {
+  assertEquals(
+    signalTypes({ ...PURCHASE, velocity: { ...PURCHASE.velocity, failed_payments_1h: 3, small_failed_payments_1h: 1 } }),
+    ["failed_payments"],
+  );
+});
+
+Deno.test("medium risk asks guests to sign in and signed-in guests for 3D Secure", () => {
+  const risky = { ...PURCHASE, email: "x@mailinator.com", velocity: { ...PURCHASE.velocity, email_orders_24h: 3 } };
+  assertEquals(evaluatePurchaseRisk(risky).score, 40);
+  assertEquals(evaluatePurchaseRisk(risky).action, "require_login");
+  assertEquals(evaluatePurchaseRisk({ ...risky, authenticated: true }).action, "require_3ds");
+});
+
+Deno.test("a shared device and card mismatch hold the order for review", () => {
+  const risk = evaluatePurchaseRisk({
+    ...PURCHASE,
+    cardholderName: "John Smith",
+    velocity: { ...PURCHASE.velocity, device_emails_24h: 4 },
+  });
+  assertEquals(risk.signals.map((signal) => signal.type), ["device_velocity", "name_mismatch"]);
+  assertEquals(risk.action, "hold_for_review");
+});
+
+Deno.test("bulk buys only count when the event is selling out", () => {
+  assertEquals(signalTypes({ ...PURCHASE, quantity: 6 }), []);
+  assertEquals(signalTypes({ ...PURCHASE, quantity: 6, nearSellOut: true }), ["bulk_near_sellout"]);
+  assertEquals(signalTypes({ ...PURCHASE, quantity: 2, nearSellOut: true }), []);
+});
+
+Deno.test("the score is capped at 100", () => {
+  const risk = evaluatePurchaseRisk({
+    ...PURCHASE,
+    email: "x@yopmail.com",
+    velocity: { ...PURCHASE.velocity, small_failed_payments_1h: 9, card_emails_24h: 5, rejected_orders: 1 },
+  });
+  assertEquals(risk.score, 100);
+});
+
+// ============================================
+// Actions
+// ============================================
+
+Deno.test("riskActionFor uses the thresholds", () => {
+  assertEquals(riskActionFor(29, false), "allow");
+  assertEquals(riskActionFor(30, false), "require_login");
+  assertEquals(riskActionFor(49, true), "require_3ds");
+  assertEquals(riskActionFor(50, true), "hold_for_review");
+  assertEquals(riskActionFor(80, true), "block");
+});
+
+Deno.test("paid orders are held for review and block alike", () => {
+  assert(requiresReview("hold_for_review"));
+  assert(requiresReview("block"));
+  assert(!requiresReview("require_3ds"));
+  assert(!requiresReview(null));
+});
+
+// ============================================
+// Helpers
+// ============================================
+
+Deno.test("isDisposableEmail matches the domain and its subdomains", () => {
+  assert(isDisposableEmail("someone@Mailinator.com"));
+  assert(isDisposableEmail("someone@eu.trashmail.com"));
+  assert(!isDisposableEmail("someone@gmail.com"));
+  assert(!isDisposableEmail("not-an-email"));
+});
+
+Deno.test("namesMatch compares first and last names", () => {
+  assert(namesMatch("Ana Lopez", "ANA M LOPEZ GARCIA"));
+  assert(namesMatch("José Núñez", "Jose Nunez"));
+  assert(!namesMatch("Ana Lopez", "John Smith"));
+  assert(namesMatch("Guest User", "John Smith"));
+  assert(namesMatch("Ana Lopez", null));
+});
+
+Deno.test("isNearSellOut leaves unlimited ticket types alone", () => {
+  assert(isNearSellOut(4, 100, 88));
+  assert(!isNearSellOut(4, 100, 50));
+  assert(!isNearSellOut(4, null, 88));
+});
+
+Deno.test("toPurchaseReviewError maps review RPC errors", () => {
+  assertEquals(toPurchaseReviewError("Order not found")?.status, 404);
+  assertEquals(toPurchaseReviewError("Order 123 is not awaiting review")?.status, 409);
+  assertEquals(toPurchaseReviewError("Only owners can review purchases")?.status, 403);
+  assertEquals(toPurchaseReviewError("connection reset"), null);
+});
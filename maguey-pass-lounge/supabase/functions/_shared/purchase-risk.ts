@@ -0,0 +1,442 @@
+/**
+ * Purchase Risk
+ *
+ * Shared by create-checkout-session (scoring before the guest pays),
+ * stripe-webhook (re-scoring with the card once paid, recording declined
+ * attempts) and review-purchase (owners approving or rejecting held orders).
+ *
+ * Lifecycle (see 20260417000000_purchase_risk.sql):
+ *   get_purchase_velocity           -> recent orders and declines for the
+ *                                      email, device, IP and card
+ *   record_checkout_payment_failure -> a declined card attempt in Checkout
+ *   hold_order_for_review           -> tickets voided, order pending review
+ *   resolve_purchase_review         -> approved (tickets restored) or
+ *                                      rejected (refunded by review-purchase)
+ *
+ * Scores add up per signal and are capped at 100:
+ *   < 30 allow, < 50 require login (3D Secure when signed in),
+ *   < 80 hold for review, otherwise block.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import Stripe from "https://esm.sh/stripe@12.0.0?target=deno";
+
+export type PurchaseRiskAction =
+  | "allow"
+  | "require_login"
+  | "require_3ds"
+  | "hold_for_review"
+  | "block";
+
+export type PurchaseRiskSignalType =
+  | "disposable_email"
+  | "email_velocity"
+  | "device_velocity"
+  | "ip_velocity"
+  | "card_velocity"
+  | "failed_payments"
+  | "card_testing"
+  | "name_mismatch"
+  | "bulk_near_sellout"
+  | "prior_rejection";
+
+export interface PurchaseRiskSignal {
+  type: PurchaseRiskSignalType;
+  score: number;
+  description: string;
+}
+
+/** Returned by get_purchase_velocity; counts include the purchase being scored */
+export interface PurchaseVelocity {
+  /** Orders from the email in the last 24 hours */
+  email_orders_24h: number;
+  /** Distinct purchaser emails on the device in the last 24 hours */
+  device_emails_24h: number;
+  /** Distinct purchaser emails from the IP in the last 24 hours */
+  ip_emails_24h: number;
+  /** Distinct emails that paid or tried to pay with the card in the last 24 hours */
+  card_emails_24h: number;
+  /** Declined attempts from the email, device, IP or card in the last hour */
+  failed_payments_1h: number;
+  /** The declined attempts at or under SMALL_PAYMENT_CENTS */
+  small_failed_payments_1h: number;
+  /** Earlier orders from the email, device or card rejected in review */
+  rejected_orders: number;
+}
+
+export interface PurchaseRiskInput {
+  email: string;
+  /** Purchaser signed in to the ticket site */
+  authenticated: boolean;
+  purchaserName: string;
+  /** Name on the card; only known once paid */
+  cardholderName?: string | null;
+  /** Tickets in the order */
+  quantity: number;
+  /** The order takes one of its ticket types close to selling out */
+  nearSellOut: boolean;
+  velocity: PurchaseVelocity;
+}
+
+export interface PurchaseRiskAssessment {
+  score: number;
+  action: PurchaseRiskAction;
+  signals: PurchaseRiskSignal[];
+}
+
+export const RISK_THRESHOLDS = {
+  challenge: 30,
+  review: 50,
+  block: 80,
+} as const;
+
+/** Declines at or under this are treated as card testing ($15) */
+export const SMALL_PAYMENT_CENTS = 1500;
+
+/** Buying at least this many tickets when the type is nearly gone counts as bulk */
+export const BULK_QUANTITY = 4;
+
+/** A ticket type is nearly gone once this share of its inventory is left */
+const SELL_OUT_REMAINING_SHARE = 0.1;
+
+/** Throwaway inbox providers; subdomains match too */
+const DISPOSABLE_EMAIL_DOMAINS = new Set([
+  "10minutemail.com",
+  "burnermail.io",
+  "dispostable.com",
+  "emailondeck.com",
+  "fakeinbox.com",
+  "getnada.com",
+  "guerrillamail.com",
+  "guerrillamail.net",
+  "maildrop.cc",
+  "mailinator.com",
+  "mintemail.com",
+  "mohmal.com",
+  "moakt.com",
+  "sharklasers.com",
+  "temp-mail.org",
+  "tempail.com",
+  "tempmail.com",
+  "throwawaymail.com",
+  "trashmail.com",
+  "yopmail.com",
+]);
+
+/** Names the site fills in when the guest didn't give one */
+const PLACEHOLDER_NAMES = new Set(["guest", "guest user"]);
+
+export function isDisposableEmail(email: string): boolean {
+  const domain = email.trim().toLowerCase().split("@")[1];
+  if (!domain) return false;
+
+  const labels = domain.split(".");
+  for (let i = 0; i < labels.length - 1; i++) {
+    if (DISPOSABLE_EMAIL_DOMAINS.has(labels.slice(i).join("."))) return true;
+  }
+  return false;
+}
+
+function nameTokens(name: string): string[] {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z\s'-]/g, " ")
+    .split(/[\s'-]+/)
+    .filter((token) => token.length > 1);
+}
+
+/**
+ * True when two names share a first or last name ("Ana Lopez" and
+ * "ANA M LOPEZ GARCIA"). Missing and placeholder names match anything.
+ */
+export function namesMatch(a: string | null | undefined, b: string | null | undefined): boolean {
+  if (!a || !b) return true;
+  if (PLACEHOLDER_NAMES.has(a.trim().toLowerCase()) || PLACEHOLDER_NAMES.has(b.trim().toLowerCase())) {
+    return true;
+  }
+
+  const tokensA = nameTokens(a);
+  const tokensB = new Set(nameTokens(b));
+  if (tokensA.length === 0 || tokensB.size === 0) return true;
+  return tokensA.some((token) => tokensB.has(token));
+}
+
+/**
+ * True when buying `quantity` leaves no more than 10% of the ticket type.
+ * Unlimited types (no inventory) never sell out.
+ */
+export function isNearSellOut(
+  quantity: number,
+  totalInventory: number | null | undefined,
+  ticketsSold: number | null | undefined
+): boolean {
+  if (!totalInventory || totalInventory <= 0) return false;
+  const remaining = totalInventory - (ticketsSold ?? 0) - quantity;
+  return remaining <= totalInventory * SELL_OUT_REMAINING_SHARE;
+}
+
+export function riskActionFor(score: number, authenticated: boolean): PurchaseRiskAction {
+  if (score >= RISK_THRESHOLDS.block) return "block";
+  if (score >= RISK_THRESHOLDS.review) return "hold_for_review";
+  if (score >= RISK_THRESHOLDS.challenge) return authenticated ? "require_3ds" : "require_login";
+  return "allow";
+}
+
+/** Once the guest has paid, only a hold is left: blocked orders are held too */
+export function requiresReview(action: PurchaseRiskAction | null | undefined): boolean {
+  return action === "hold_for_review" || action === "block";
+}
+
+export function evaluatePurchaseRisk(input: PurchaseRiskInput): PurchaseRiskAssessment {
+  const { velocity } = input;
+  const signals: PurchaseRiskSignal[] = [];
+  const add = (type: PurchaseRiskSignalType, score: number, description: string) =>
+    signals.push({ type, score, description });
+
+  if (isDisposableEmail(input.email)) {
+    add("disposable_email", 25, "Disposable email address");
+  }
+  if (velocity.email_orders_24h >= 6) {
+    add("email_velocity", 30, `${velocity.email_orders_24h} orders from this email in 24 hours`);
+  } else if (velocity.email_orders_24h >= 3) {
+    add("email_velocity", 15, `${velocity.email_orders_24h} orders from this email in 24 hours`);
+  }
+  if (velocity.device_emails_24h >= 3) {
+    add("device_velocity", 30, `${velocity.device_emails_24h} different emails on this device in 24 hours`);
+  }
+  if (velocity.ip_emails_24h >= 4) {
+    add("ip_velocity", 20, `${velocity.ip_emails_24h} different emails from this IP in 24 hours`);
+  }
+  if (velocity.card_emails_24h >= 3) {
+    add("card_velocity", 40, `Card used by ${velocity.card_emails_24h} different emails in 24 hours`);
+  }
+  if (velocity.small_failed_payments_1h >= 5) {
+    add("card_testing", 80, `${velocity.small_failed_payments_1h} small declined payments in the last hour`);
+  } else if (velocity.failed_payments_1h >= 3) {
+    add("failed_payments", 20, `${velocity.failed_payments_1h} declined payments in the last hour`);
+  }
+  if (!namesMatch(input.purchaserName, input.cardholderName)) {
+    add("name_mismatch", 20, `Cardholder "${input.cardholderName}" does not match purchaser "${input.purchaserName}"`);
+  }
+  if (input.nearSellOut && input.quantity >= BULK_QUANTITY) {
+    add("bulk_near_sellout", 20, `${input.quantity} tickets bought as the event sells out`);
+  }
+  if (velocity.rejected_orders > 0) {
+    add("prior_rejection", 60, `${velocity.rejected_orders} earlier order${velocity.rejected_orders === 1 ? "" : "s"} rejected in review`);
+  }
+
+  const score = Math.min(100, signals.reduce((sum, signal) => sum + signal.score, 0));
+  return { score, action: riskActionFor(score, input.authenticated), signals };
+}
+
+/** Velocity with nothing on record, for when the lookup fails */
+export const NO_VELOCITY: PurchaseVelocity = {
+  email_orders_24h: 0,
+  device_emails_24h: 0,
+  ip_emails_24h: 0,
+  card_emails_24h: 0,
+  failed_payments_1h: 0,
+  small_failed_payments_1h: 0,
+  rejected_orders: 0,
+};
+
+/**
+ * Recent activity for the purchase being scored. A failed lookup is logged
+ * and scored as no history, so checkout keeps working.
+ */
+export async function getPurchaseVelocity(
+  supabase: SupabaseClient,
+  params: {
+    email: string;
+    deviceId?: string | null;
+    clientIp?: string | null;
+    cardFingerprint?: string | null;
+    excludeOrderId?: string | null;
+  }
+): Promise<PurchaseVelocity> {
+  const { data, error } = await supabase.rpc("get_purchase_velocity", {
+    p_email: params.email,
+    p_device_id: params.deviceId ?? null,
+    p_client_ip: params.clientIp ?? null,
+    p_card_fingerprint: params.cardFingerprint ?? null,
+    p_exclude_order_id: params.excludeOrderId ?? null,
+    p_small_payment_cents: SMALL_PAYMENT_CENTS,
+  });
+  if (error) {
+    console.error("[purchase-risk] Velocity lookup failed:", error.message);
+    return NO_VELOCITY;
+  }
+  return { ...NO_VELOCITY, ...(data as Partial<PurchaseVelocity>) };
+}
+
+/** The card behind a payment, for card velocity and the cardholder name */
+export interface PaymentCard {
+  fingerprint: string | null;
+  cardholderName: string | null;
+}
+
+export async function getPaymentCard(paymentIntentId: string): Promise<PaymentCard> {
+  const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") || "", {
+    apiVersion: "2023-10-16",
+  });
+  const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId, {
+    expand: ["latest_charge"],
+  });
+  const charge = paymentIntent.latest_charge as Stripe.Charge | null;
+  return {
+    fingerprint: charge?.payment_method_details?.card?.fingerprint ?? null,
+    cardholderName: charge?.billing_details?.name ?? null,
+  };
+}
+
+/** The parts of an order re-scored once it is paid */
+interface PaidOrderRow {
+  id: string;
+  purchaser_email: string;
+  purchaser_name: string | null;
+  device_id: string | null;
+  client_ip: string | null;
+  risk_score: number | null;
+  risk_action: PurchaseRiskAction | null;
+  risk_signals: PurchaseRiskSignal[] | null;
+  metadata: { tickets?: Array<{ quantity?: number }> } | null;
+}
+
+/**
+ * Re-score a paid ticket order now that the card is known (card velocity,
+ * cardholder name) and hold it for review if either score calls for it.
+ * Checkout already blocked or challenged riskier guests; a paid order can
+ * only be held. Returns whether the order was held, so the webhook can keep
+ * the ticket email back until an owner approves it.
+ */
+export async function assessPaidOrder(
+  supabase: SupabaseClient,
+  orderId: string,
+  paymentIntentId: string | null
+): Promise<{ held: boolean; assessment: PurchaseRiskAssessment | null }> {
+  const { data, error } = await supabase
+    .from("orders")
+    .select("id, purchaser_email, purchaser_name, device_id, client_ip, risk_score, risk_action, risk_signals, metadata")
+    .eq("id", orderId)
+    .maybeSingle();
+  if (error || !data) {
+    console.error("[purchase-risk] Paid order not found:", orderId, error?.message);
+    return { held: false, assessment: null };
+  }
+  const order = data as PaidOrderRow;
+
+  let card: PaymentCard = { fingerprint: null, cardholderName: null };
+  if (paymentIntentId) {
+    try {
+      card = await getPaymentCard(paymentIntentId);
+    } catch (cardError) {
+      console.error("[purchase-risk] Card lookup failed:", cardError);
+    }
+  }
+
+  const velocity = await getPurchaseVelocity(supabase, {
+    email: order.purchaser_email,
+    deviceId: order.device_id,
+    clientIp: order.client_ip,
+    cardFingerprint: card.fingerprint,
+    excludeOrderId: order.id,
+  });
+  const rescored = evaluatePurchaseRisk({
+    email: order.purchaser_email,
+    authenticated: true,
+    purchaserName: order.purchaser_name || "",
+    cardholderName: card.cardholderName,
+    quantity: (order.metadata?.tickets || []).reduce((sum, ticket) => sum + (Number(ticket.quantity) || 0), 0),
+    nearSellOut: (order.risk_signals || []).some((signal) => signal.type === "bulk_near_sellout"),
+    velocity,
+  });
+
+  const assessment = rescored.score >= (order.risk_score ?? 0)
+    ? rescored
+    : { score: order.risk_score ?? 0, action: order.risk_action ?? "allow", signals: order.risk_signals || [] };
+  const held = requiresReview(order.risk_action) || requiresReview(assessment.action);
+
+  const { error: updateError } = await supabase
+    .from("orders")
+    .update({
+      risk_score: assessment.score,
+      risk_action: held ? "hold_for_review" : assessment.action,
+      risk_signals: assessment.signals,
+      card_fingerprint: card.fingerprint,
+    })
+    .eq("id", order.id);
+  if (updateError) {
+    console.error("[purchase-risk] Failed to store paid order risk:", order.id, updateError.message);
+  }
+
+  if (held) {
+    const { error: holdError } = await supabase.rpc("hold_order_for_review", { p_order_id: order.id });
+    if (holdError) {
+      // Tickets stay valid; the order still shows up in the review queue
+      console.error("[purchase-risk] Failed to hold order:", order.id, holdError.message);
+    }
+  }
+
+  return { held, assessment };
+}
+
+/**
+ * Record a declined attempt in Stripe Checkout. The order (from the payment
+ * intent metadata) supplies the email, device and IP it is counted against.
+ */
+export async function recordCheckoutPaymentFailure(
+  supabase: SupabaseClient,
+  paymentIntent: {
+    id: string;
+    amount: number;
+    metadata?: Record<string, string> | null;
+    last_payment_error?: {
+      charge?: string | null;
+      code?: string | null;
+      decline_code?: string | null;
+      message?: string | null;
+      payment_method?: { card?: { fingerprint?: string | null } | null } | null;
+    } | null;
+  }
+): Promise<void> {
+  const failure = paymentIntent.last_payment_error;
+  const { error } = await supabase.rpc("record_checkout_payment_failure", {
+    p_order_id: paymentIntent.metadata?.orderId ?? null,
+    p_payment_intent_id: paymentIntent.id,
+    p_charge_id: failure?.charge ?? null,
+    p_card_fingerprint: failure?.payment_method?.card?.fingerprint ?? null,
+    p_amount_cents: paymentIntent.amount,
+    p_decline_code: failure?.decline_code ?? failure?.code ?? null,
+    p_failure_message: failure?.message ?? null,
+  });
+  if (error) {
+    console.error("[purchase-risk] Failed to record declined payment:", paymentIntent.id, error.message);
+  }
+}
+
+/** Validation failure that should be returned to the caller as-is */
+export class PurchaseReviewError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "PurchaseReviewError";
+  }
+}
+
+/**
+ * Map a review RPC error to a caller-facing error with an HTTP status.
+ * Returns null for unexpected errors, which should surface as a 500.
+ */
+export function toPurchaseReviewError(message: string): PurchaseReviewError | null {
+  if (message.includes("Order not found")) {
+    return new PurchaseReviewError("Order not found", 404);
+  }
+  if (message.includes("not awaiting review")) {
+    return new PurchaseReviewError("This order has already been reviewed", 409);
+  }
+  if (message.includes("Only owners")) {
+    return new PurchaseReviewError("Only owners can review purchases", 403);
+  }
+  return null;
+}
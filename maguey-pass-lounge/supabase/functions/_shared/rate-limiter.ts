@@ -66,6 +66,15 @@ function getLimiter(type: EndpointType): Ratelimit | null {
   }
 }
 
+/**
+ * Client IP from the request headers (Supabase sets x-forwarded-for)
+ */
+export function getClientIp(req: Request): string {
+  return req.headers.get("x-forwarded-for")?.split(",")[0]?.trim()
+    || req.headers.get("x-real-ip")
+    || "unknown";
+}
+
 /**
  * Check rate limit for a request
  *
@@ -103,10 +112,7 @@ export async function checkRateLimit(
     return { allowed: true };
   }
 
-  // Get client IP from headers (Supabase sets x-forwarded-for)
-  const clientIP = req.headers.get("x-forwarded-for")?.split(",")[0]?.trim()
-    || req.headers.get("x-real-ip")
-    || "unknown";
+  const clientIP = getClientIp(req);
 
   try {
     const { success, remaining, reset } = await limiter.limit(clientIP);
@@ -0,0 +1,148 @@
+/**
+ * Restaurant Orders Tests
+ *
+ * Covers server-side cart pricing, the order status state machine, who
+ * can change orders and the localized status notification copy.
+ *
+ * To run: deno test --allow-net --allow-env restaurant-orders.test.ts
+ */
+
+import {
+  assert,
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  buildRestaurantStatusMessage,
+  canManageRestaurantOrders,
+  canTransitionRestaurantOrder,
+  DELIVERY_FEE,
+  priceRestaurantOrder,
+  RestaurantOrderError,
+  type RestaurantMenuItemRow,
+  type RestaurantOrderRow,
+} from "./restaurant-orders.ts";
+
+// ============================================
+// Fixtures
+// ============================================
+
+const MENU: RestaurantMenuItemRow[] = [
+  { id: "taco", name: "Tacos Al Pastor", price: "1.00", sale_price: null, is_available: true },
+  { id: "aguachile", name: "Aguachile", price: "16.99", sale_price: "22.99", is_available: true },
+  { id: "menudo", name: "Pancita De Res", price: 12, sale_price: null, is_available: false },
+];
+
+const ORDER: RestaurantOrderRow = {
+  id: "order-1",
+  order_number: "A1B2C3",
+  customer_name: "Ana Lopez",
+  customer_email: "ana@example.com",
+  customer_phone: "+13025550100",
+  order_type: "pickup",
+  total: "23.99",
+  status: "received",
+  locale: "en",
+};
+
+const TRACK_URL = "https://magueynightclub.com/restaurant/order/order-1";
+
+// ============================================
+// Pricing
+// ============================================
+
+Deno.test("priceRestaurantOrder - uses database prices and merges duplicate lines", () => {
+  const priced = priceRestaurantOrder(
+    [
+      { menuItemId: "taco", quantity: 2 },
+      { menuItemId: "aguachile", quantity: 1 },
+      { menuItemId: "taco", quantity: 1 },
+    ],
+    MENU,
+    "pickup"
+  );
+
+  assertEquals(priced.lines.length, 2);
+  assertEquals(priced.lines[0], { menuItemId: "taco", name: "Tacos Al Pastor", unitPrice: 1, quantity: 3, lineTotal: 3 });
+  // sale_price wins over price
+  assertEquals(priced.lines[1].unitPrice, 22.99);
+  assertEquals(priced.subtotal, 25.99);
+  assertEquals(priced.deliveryFee, 0);
+  assertEquals(priced.total, 25.99);
+});
+
+Deno.test("priceRestaurantOrder - adds the delivery fee", () => {
+  const priced = priceRestaurantOrder([{ menuItemId: "taco", quantity: 1 }], MENU, "delivery");
+  assertEquals(priced.deliveryFee, DELIVERY_FEE);
+  assertEquals(priced.total, 1 + DELIVERY_FEE);
+});
+
+Deno.test("priceRestaurantOrder - rejects empty carts, bad quantities and unknown items", () => {
+  assertThrows(() => priceRestaurantOrder([], MENU, "pickup"), RestaurantOrderError, "empty");
+  assertThrows(() => priceRestaurantOrder([{ menuItemId: "taco", quantity: 0 }], MENU, "pickup"), RestaurantOrderError);
+  assertThrows(() => priceRestaurantOrder([{ menuItemId: "taco", quantity: 1.5 }], MENU, "pickup"), RestaurantOrderError);
+  assertThrows(() => priceRestaurantOrder([{ menuItemId: "nope", quantity: 1 }], MENU, "pickup"), RestaurantOrderError, "not found");
+  assertThrows(() => priceRestaurantOrder([{ menuItemId: "taco", quantity: 51 }], MENU, "pickup"), RestaurantOrderError, "Maximum");
+});
+
+Deno.test("priceRestaurantOrder - rejects unavailable items with 409", () => {
+  const error = assertThrows(
+    () => priceRestaurantOrder([{ menuItemId: "menudo", quantity: 1 }], MENU, "pickup"),
+    RestaurantOrderError
+  ) as RestaurantOrderError;
+  assertEquals(error.status, 409);
+});
+
+// ============================================
+// Status transitions
+// ============================================
+
+Deno.test("canTransitionRestaurantOrder - follows the kitchen flow", () => {
+  assert(canTransitionRestaurantOrder("pending_payment", "received"));
+  assert(canTransitionRestaurantOrder("received", "preparing"));
+  assert(canTransitionRestaurantOrder("preparing", "ready"));
+  assert(canTransitionRestaurantOrder("ready", "completed"));
+  assert(canTransitionRestaurantOrder("preparing", "cancelled"));
+
+  assert(!canTransitionRestaurantOrder("received", "ready"));
+  assert(!canTransitionRestaurantOrder("completed", "cancelled"));
+  assert(!canTransitionRestaurantOrder("cancelled", "received"));
+});
+
+Deno.test("canManageRestaurantOrders - staff only", () => {
+  assert(canManageRestaurantOrders({ app_metadata: { role: "owner" } }));
+  assert(canManageRestaurantOrders({ app_metadata: { role: "employee" } }));
+
+  // Ticket buyers, including one who set a role in their own user_metadata
+  const selfPromoted = { app_metadata: {}, user_metadata: { role: "owner" } };
+  assert(!canManageRestaurantOrders({ app_metadata: {} }));
+  assert(!canManageRestaurantOrders({ app_metadata: { role: "customer" } }));
+  assert(!canManageRestaurantOrders(selfPromoted));
+  assert(!canManageRestaurantOrders(null));
+});
+
+// ============================================
+// Notifications
+// ============================================
+
+Deno.test("buildRestaurantStatusMessage - pickup vs delivery ready copy", () => {
+  const pickup = buildRestaurantStatusMessage(ORDER, "ready", TRACK_URL);
+  const delivery = buildRestaurantStatusMessage({ ...ORDER, order_type: "delivery" }, "ready", TRACK_URL);
+
+  assertEquals(pickup?.subject, "Order #A1B2C3 is ready");
+  assertEquals(pickup?.text, "Your order #A1B2C3 is ready for pickup at Maguey.");
+  assertEquals(delivery?.text, "Your order #A1B2C3 is ready and on its way.");
+  assert(pickup?.sms.endsWith(TRACK_URL));
+  assert(pickup?.html.includes("$23.99"));
+});
+
+Deno.test("buildRestaurantStatusMessage - uses the order's language", () => {
+  const message = buildRestaurantStatusMessage({ ...ORDER, locale: "es" }, "preparing", TRACK_URL);
+  assertEquals(message?.text, "La cocina está preparando tu pedido #A1B2C3.");
+  assert(message?.html.includes('lang="es"'));
+});
+
+Deno.test("buildRestaurantStatusMessage - no notification for pending or completed", () => {
+  assertEquals(buildRestaurantStatusMessage(ORDER, "pending_payment", TRACK_URL), null);
+  assertEquals(buildRestaurantStatusMessage(ORDER, "completed", TRACK_URL), null);
+});
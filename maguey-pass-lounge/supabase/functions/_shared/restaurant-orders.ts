@@ -0,0 +1,345 @@
+/**
+ * Restaurant Orders
+ *
+ * Pricing, status transitions and guest notifications for maguey-nights
+ * restaurant online orders. Used by create-restaurant-checkout,
+ * restaurant-order-status and stripe-webhook.
+ *
+ * Lifecycle (see 20260404000000_restaurant_ordering.sql):
+ *   pending_payment -> received -> preparing -> ready -> completed
+ *   any open status -> cancelled
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { emailTranslator, formatEmailCurrency, resolveLocale } from "./translations.ts";
+
+export type RestaurantOrderType = "pickup" | "delivery";
+
+export type RestaurantOrderStatus =
+  | "pending_payment"
+  | "received"
+  | "preparing"
+  | "ready"
+  | "completed"
+  | "cancelled";
+
+export const DELIVERY_FEE = 5;
+export const MAX_ITEM_QUANTITY = 50;
+
+export const RESTAURANT_STATUS_TRANSITIONS: Record<RestaurantOrderStatus, RestaurantOrderStatus[]> = {
+  pending_payment: ["received", "cancelled"],
+  received: ["preparing", "cancelled"],
+  preparing: ["ready", "cancelled"],
+  ready: ["completed", "cancelled"],
+  completed: [],
+  cancelled: [],
+};
+
+/** Timestamp column stamped when an order enters a status */
+export const STATUS_TIMESTAMP_COLUMNS: Partial<Record<RestaurantOrderStatus, string>> = {
+  received: "paid_at",
+  preparing: "preparing_at",
+  ready: "ready_at",
+  completed: "completed_at",
+  cancelled: "cancelled_at",
+};
+
+export function canTransitionRestaurantOrder(
+  from: RestaurantOrderStatus,
+  to: RestaurantOrderStatus
+): boolean {
+  return RESTAURANT_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/** Roles that can work the kitchen board; read from app_metadata, which users can't edit */
+export const RESTAURANT_STAFF_ROLES = ["owner", "promoter", "employee"];
+
+export function canManageRestaurantOrders(
+  user: { app_metadata?: { role?: unknown } } | null
+): boolean {
+  const role = user?.app_metadata?.role;
+  return typeof role === "string" && RESTAURANT_STAFF_ROLES.includes(role);
+}
+
+/** Validation failure that should be returned to the caller as-is */
+export class RestaurantOrderError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "RestaurantOrderError";
+  }
+}
+
+// ============================================
+// Pricing
+// ============================================
+
+export interface RestaurantCartLine {
+  menuItemId: string;
+  quantity: number;
+}
+
+export interface RestaurantMenuItemRow {
+  id: string;
+  name: string;
+  price: number | string;
+  sale_price: number | string | null;
+  is_available: boolean;
+}
+
+export interface PricedRestaurantLine {
+  menuItemId: string;
+  name: string;
+  unitPrice: number;
+  quantity: number;
+  lineTotal: number;
+}
+
+export interface PricedRestaurantOrder {
+  lines: PricedRestaurantLine[];
+  subtotal: number;
+  deliveryFee: number;
+  total: number;
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Price a cart from database menu rows. Client-sent prices are never used.
+ * Duplicate lines for the same item are merged.
+ */
+export function priceRestaurantOrder(
+  cart: RestaurantCartLine[],
+  menuItems: RestaurantMenuItemRow[],
+  orderType: RestaurantOrderType
+): PricedRestaurantOrder {
+  if (!Array.isArray(cart) || cart.length === 0) {
+    throw new RestaurantOrderError("Your cart is empty");
+  }
+
+  const quantities = new Map<string, number>();
+  for (const line of cart) {
+    if (!line?.menuItemId || !Number.isInteger(line.quantity) || line.quantity < 1) {
+      throw new RestaurantOrderError("Invalid cart item");
+    }
+    quantities.set(line.menuItemId, (quantities.get(line.menuItemId) || 0) + line.quantity);
+  }
+
+  const menuById = new Map(menuItems.map((item) => [item.id, item]));
+  const lines: PricedRestaurantLine[] = [];
+
+  for (const [menuItemId, quantity] of quantities) {
+    const item = menuById.get(menuItemId);
+    if (!item) {
+      throw new RestaurantOrderError(`Menu item not found: ${menuItemId}`);
+    }
+    if (!item.is_available) {
+      throw new RestaurantOrderError(`${item.name} is no longer available`, 409);
+    }
+    if (quantity > MAX_ITEM_QUANTITY) {
+      throw new RestaurantOrderError(`Maximum ${MAX_ITEM_QUANTITY} of ${item.name} per order`);
+    }
+
+    const unitPrice = Number(item.sale_price ?? item.price);
+    lines.push({
+      menuItemId,
+      name: item.name,
+      unitPrice,
+      quantity,
+      lineTotal: roundCents(unitPrice * quantity),
+    });
+  }
+
+  const subtotal = roundCents(lines.reduce((sum, line) => sum + line.lineTotal, 0));
+  const deliveryFee = orderType === "delivery" ? DELIVERY_FEE : 0;
+
+  return { lines, subtotal, deliveryFee, total: roundCents(subtotal + deliveryFee) };
+}
+
+// ============================================
+// Notifications
+// ============================================
+
+export interface RestaurantOrderRow {
+  id: string;
+  order_number: string;
+  customer_name: string;
+  customer_email: string;
+  customer_phone: string;
+  order_type: RestaurantOrderType;
+  total: number | string;
+  status: RestaurantOrderStatus;
+  locale: string | null;
+  stripe_payment_intent_id?: string | null;
+}
+
+export interface RestaurantStatusMessage {
+  subject: string;
+  text: string;
+  html: string;
+  sms: string;
+}
+
+export function getRestaurantSiteUrl(): string {
+  return (Deno.env.get("RESTAURANT_SITE_URL") || "https://magueynightclub.com").replace(/\/$/, "");
+}
+
+/**
+ * Email and SMS copy for a status change, or null when the guest isn't notified
+ * (payment pending, order picked up)
+ */
+export function buildRestaurantStatusMessage(
+  order: RestaurantOrderRow,
+  status: RestaurantOrderStatus,
+  trackUrl: string
+): RestaurantStatusMessage | null {
+  const locale = resolveLocale(order.locale);
+  const t = emailTranslator(locale);
+  const params = { orderNumber: order.order_number };
+
+  const copy: Partial<Record<RestaurantOrderStatus, { subject: string; text: string }>> = {
+    received: { subject: t("restaurant.subjectReceived", params), text: t("restaurant.received", params) },
+    preparing: { subject: t("restaurant.subjectPreparing", params), text: t("restaurant.preparing", params) },
+    ready: {
+      subject: t("restaurant.subjectReady", params),
+      text: t(order.order_type === "delivery" ? "restaurant.readyDelivery" : "restaurant.readyPickup", params),
+    },
+    cancelled: { subject: t("restaurant.subjectCancelled", params), text: t("restaurant.cancelled", params) },
+  };
+
+  const message = copy[status];
+  if (!message) return null;
+
+  const firstName = order.customer_name.split(" ")[0];
+  const html = `
+<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+  <meta charset="UTF-8">
+  <title>${message.subject}</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; background: #f5f5f5;">
+  <div style="background: white; border-radius: 8px; padding: 30px; box-shadow: 0 2px 4px rgba(0,0,0,0.1);">
+    <div style="text-align: center; margin-bottom: 30px; border-bottom: 2px solid #e0e0e0; padding-bottom: 20px;">
+      <h1 style="color: #8B0000; margin: 0;">MAGUEY</h1>
+    </div>
+    <p>${t("restaurant.greeting", { name: firstName })}</p>
+    <p style="font-size: 18px; font-weight: 600;">${message.text}</p>
+    <p><strong>${t("restaurant.total")}:</strong> ${formatEmailCurrency(Number(order.total), locale)}</p>
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${trackUrl}" style="display: inline-block; padding: 12px 24px; background: #8B0000; color: white; text-decoration: none; border-radius: 6px; font-weight: 600;">
+        ${t("restaurant.trackOrder")}
+      </a>
+    </div>
+    <p style="margin-top: 30px; font-size: 12px; color: #999; text-align: center;">${t("restaurant.automated")}</p>
+  </div>
+</body>
+</html>
+  `.trim();
+
+  return {
+    subject: message.subject,
+    text: message.text,
+    html,
+    sms: t("restaurant.sms", { message: message.text, url: trackUrl }),
+  };
+}
+
+/**
+ * Send an SMS through Twilio. Returns false (and logs) when Twilio isn't configured.
+ */
+async function sendSms(to: string, body: string): Promise<boolean> {
+  const accountSid = Deno.env.get("TWILIO_ACCOUNT_SID");
+  const authToken = Deno.env.get("TWILIO_AUTH_TOKEN");
+  const from = Deno.env.get("TWILIO_PHONE_NUMBER");
+
+  if (!accountSid || !authToken || !from) {
+    console.warn("[restaurant-orders] Twilio not configured, skipping SMS");
+    return false;
+  }
+
+  const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+    method: "POST",
+    headers: {
+      "Authorization": `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: new URLSearchParams({ To: to, From: from, Body: body }).toString(),
+  });
+
+  if (!response.ok) {
+    console.error("[restaurant-orders] SMS failed:", await response.text());
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Email (via email_queue) and text the guest about a status change.
+ * Never throws — a failed notification must not undo the status change.
+ */
+export async function notifyRestaurantOrderStatus(
+  supabase: SupabaseClient,
+  order: RestaurantOrderRow,
+  status: RestaurantOrderStatus
+): Promise<void> {
+  const message = buildRestaurantStatusMessage(
+    order,
+    status,
+    `${getRestaurantSiteUrl()}/restaurant/order/${order.id}`
+  );
+  if (!message) return;
+
+  const { error } = await supabase.from("email_queue").insert({
+    email_type: "restaurant_order_status",
+    recipient_email: order.customer_email,
+    subject: message.subject,
+    html_body: message.html,
+    related_id: order.id,
+    status: "pending",
+    attempt_count: 0,
+    max_attempts: 5,
+    next_retry_at: new Date().toISOString(),
+  });
+  if (error) {
+    console.error("[restaurant-orders] Failed to queue status email:", error.message);
+  }
+
+  try {
+    await sendSms(order.customer_phone, message.sms);
+  } catch (smsError) {
+    console.error("[restaurant-orders] SMS error:", smsError);
+  }
+}
+
+/**
+ * Move a paid order into the kitchen queue. Returns null when the order was
+ * already processed (Stripe retries the webhook).
+ */
+export async function markRestaurantOrderPaid(
+  supabase: SupabaseClient,
+  orderId: string,
+  paymentIntentId: string | null
+): Promise<RestaurantOrderRow | null> {
+  const { data, error } = await supabase
+    .from("restaurant_orders")
+    .update({
+      status: "received",
+      paid_at: new Date().toISOString(),
+      stripe_payment_intent_id: paymentIntentId,
+    })
+    .eq("id", orderId)
+    .eq("status", "pending_payment")
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to mark restaurant order paid: ${error.message}`);
+  }
+  if (!data) return null;
+
+  const order = data as RestaurantOrderRow;
+  await notifyRestaurantOrderStatus(supabase, order, "received");
+  return order;
+}
@@ -0,0 +1,96 @@
+/**
+ * Ticket Email
+ *
+ * The order confirmation listing a guest's tickets. Sent by stripe-webhook
+ * once an order is paid, and by review-purchase when an order held for
+ * review is approved.
+ */
+
+import { emailTranslator, formatEmailDate, type Locale } from "./translations.ts";
+
+export interface TicketEmailData {
+  ticketId: string;
+  eventName: string;
+  eventDate: string;
+  eventTime: string;
+  venueName: string;
+  ticketType: string;
+  customerName: string;
+  qrToken: string;
+}
+
+export function buildTicketEmail(
+  customerName: string,
+  orderId: string,
+  tickets: TicketEmailData[],
+  locale: Locale
+): { subject: string; html: string } {
+  const eventName = tickets[0]?.eventName || "Event";
+  const t = emailTranslator(locale);
+
+  const ticketHtml = tickets.map((ticket, index) => `
+    <div style="border: 2px solid #6366f1; border-radius: 8px; padding: 20px; margin: 15px 0; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);">
+      <h3 style="color: white; margin: 0 0 15px 0;">${t('ticket.ticketHeading', { number: index + 1, type: ticket.ticketType })}</h3>
+      <div style="background: white; padding: 15px; border-radius: 6px;">
+        <p style="margin: 5px 0;"><strong>${t('ticket.event')}:</strong> ${ticket.eventName}</p>
+        <p style="margin: 5px 0;"><strong>${t('ticket.date')}:</strong> ${ticket.eventDate ? formatEmailDate(ticket.eventDate, locale) : ''}</p>
+        <p style="margin: 5px 0;"><strong>${t('ticket.time')}:</strong> ${ticket.eventTime}</p>
+        <p style="margin: 5px 0;"><strong>${t('ticket.venue')}:</strong> ${ticket.venueName}</p>
+        <p style="margin: 5px 0;"><strong>${t('ticket.ticketId')}:</strong> <code>${ticket.ticketId}</code></p>
+        <p style="margin: 15px 0 5px 0; font-size: 12px; color: #666;">
+          ${t('ticket.presentAtVenue')}
+        </p>
+      </div>
+    </div>
+  `).join("");
+
+  const html = `
+    <!DOCTYPE html>
+    <html lang="${locale}">
+    <head>
+      <meta charset="UTF-8">
+      <title>${t('ticket.title', { eventName })}</title>
+    </head>
+    <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; background: #f5f5f5;">
+      <div style="background: white; border-radius: 8px; padding: 30px; box-shadow: 0 2px 4px rgba(0,0,0,0.1);">
+        <div style="text-align: center; margin-bottom: 30px; border-bottom: 2px solid #e0e0e0; padding-bottom: 20px;">
+          <h1 style="color: #6366f1; margin: 0;">MAGUEY</h1>
+        </div>
+
+        <div style="background: #10b981; color: white; padding: 15px; border-radius: 6px; text-align: center; margin-bottom: 30px;">
+          ${t('ticket.paymentSuccessful')}
+        </div>
+
+        <p>${t('ticket.greeting', { name: customerName })}</p>
+        <p>${t('ticket.intro', { eventName: `<strong>${eventName}</strong>` })}</p>
+
+        ${ticketHtml}
+
+        <div style="background: #fff3cd; border-left: 4px solid #ffc107; padding: 15px; margin: 20px 0; border-radius: 4px;">
+          <h3 style="margin-top: 0; color: #856404;">${t('ticket.importantInformation')}</h3>
+          <ul style="margin: 10px 0; padding-left: 20px; color: #856404;">
+            <li>${t('ticket.idRequired')}</li>
+            <li>${t('ticket.arriveEarly')}</li>
+            <li>${t('ticket.qrInAccount')}</li>
+            <li>${t('ticket.nonRefundable')}</li>
+          </ul>
+        </div>
+
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="https://tickets.magueynightclub.com/account" style="display: inline-block; padding: 12px 24px; background: #6366f1; color: white; text-decoration: none; border-radius: 6px; font-weight: 600;">
+            ${t('ticket.viewMyTickets')}
+          </a>
+        </div>
+
+        <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e0e0e0; text-align: center; color: #666; font-size: 14px;">
+          <p><strong>${t('ticket.orderId')}:</strong> ${orderId}</p>
+          <p>${t('ticket.questions', { email: 'support@magueynightclub.com' })}</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+
+
+  return { subject: t('ticket.orderConfirmedSubject'), html };
+}
@@ -0,0 +1,113 @@
+/**
+ * Ticket Resale Tests
+ *
+ * Covers RPC error mapping, Stripe amounts and the localized buyer and
+ * seller emails.
+ *
+ * To run: deno test --allow-net --allow-env ticket-resale.test.ts
+ */
+
+import {
+  assert,
+  assertEquals,
+} from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  buildResalePurchasedEmail,
+  buildResaleSoldEmail,
+  toResaleAmountCents,
+  toTicketResaleError,
+  type CompletedResaleSale,
+} from "./ticket-resale.ts";
+
+// ============================================
+// Fixtures
+// ============================================
+
+const SALE: CompletedResaleSale = {
+  listing_id: "listing-1",
+  ticket_id: "5f0c7f7e-0000-4000-8000-000000000001",
+  ticket_code: "MGY-1700000000000-ABC123",
+  event_id: "event-1",
+  event_name: "Reggaeton Night",
+  event_date: "2026-05-01",
+  ticket_type_name: "General Admission",
+  transfer_id: "transfer-1",
+  seller_email: "ana@example.com",
+  seller_name: "Ana Lopez",
+  buyer_email: "luis@example.com",
+  buyer_name: "Luis Garcia",
+  locale: "en",
+  face_value: "40.00",
+  price: "35.00",
+  fee_amount: "3.50",
+  seller_proceeds: "31.50",
+  seller_payment_intent_id: "pi_123",
+};
+
+const TICKET_URL = "https://tickets.example.com/ticket/MGY-1700000000000-ABC123";
+
+// ============================================
+// toTicketResaleError
+// ============================================
+
+Deno.test("toTicketResaleError - maps ownership errors to 403", () => {
+  assertEquals(toTicketResaleError("Ticket not found or not owned by you")?.status, 403);
+  assertEquals(toTicketResaleError("Listing not found or not owned by you")?.status, 403);
+});
+
+Deno.test("toTicketResaleError - shows the cap in dollars for prices above it", () => {
+  const error = toTicketResaleError("Price must be between 0 and the resale cap of 40.00");
+  assertEquals(error?.status, 400);
+  assertEquals(error?.message, "Price must be more than $0 and at most $40.00");
+});
+
+Deno.test("toTicketResaleError - maps closed resale and taken listings to 409", () => {
+  assertEquals(toTicketResaleError("Resale has closed for this event")?.status, 409);
+  assertEquals(toTicketResaleError("Resale is not available for this event")?.status, 409);
+  assertEquals(toTicketResaleError("Listing is no longer available")?.status, 409);
+  assertEquals(toTicketResaleError("A buyer is checking out, try again in a few minutes")?.status, 409);
+});
+
+Deno.test("toTicketResaleError - returns null for unexpected errors", () => {
+  assertEquals(toTicketResaleError("QR signing secret not configured"), null);
+});
+
+// ============================================
+// toResaleAmountCents
+// ============================================
+
+Deno.test("toResaleAmountCents - converts numeric strings and rounds to cents", () => {
+  assertEquals(toResaleAmountCents("31.50"), 3150);
+  assertEquals(toResaleAmountCents(0.1 + 0.2), 30);
+});
+
+// ============================================
+// Emails
+// ============================================
+
+Deno.test("buildResalePurchasedEmail - greets the buyer with the price and ticket link", () => {
+  const email = buildResalePurchasedEmail(SALE, TICKET_URL);
+  assertEquals(email.subject, "Your resale ticket for Reggaeton Night");
+  assert(email.html.includes("Hi Luis,"));
+  assert(email.html.includes("$35.00"));
+  assert(email.html.includes(TICKET_URL));
+});
+
+Deno.test("buildResaleSoldEmail - breaks down the fee and says how the seller is paid", () => {
+  const refunded = buildResaleSoldEmail(SALE, "stripe_refund");
+  assertEquals(refunded.subject, "Your ticket for Reggaeton Night sold");
+  assert(refunded.html.includes("Hi Ana,"));
+  assert(refunded.html.includes("$3.50"));
+  assert(refunded.html.includes("$31.50"));
+  assert(refunded.html.includes("refunded to the card"));
+
+  const credited = buildResaleSoldEmail(SALE, "loyalty_credit");
+  assert(credited.html.includes("loyalty credits"));
+});
+
+Deno.test("buildResaleSoldEmail - Spanish copy for Spanish orders", () => {
+  const email = buildResaleSoldEmail({ ...SALE, locale: "es" }, "loyalty_credit");
+  assertEquals(email.subject, "Tu boleto para Reggaeton Night se vendió");
+  assert(email.html.includes('lang="es"'));
+  assert(email.html.includes("Hola Ana,"));
+});
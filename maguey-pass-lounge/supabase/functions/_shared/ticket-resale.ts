@@ -0,0 +1,352 @@
+/**
+ * Ticket Resale
+ *
+ * Shared by resale-ticket (listing, cancelling, buyer checkout) and
+ * stripe-webhook (completing paid resales and paying the seller).
+ *
+ * Lifecycle (see 20260412000000_ticket_resale.sql):
+ *   create_resale_listing  -> active (price capped at the event's % of face value)
+ *   reserve_resale_listing -> pending_payment (buyer in Stripe Checkout)
+ *   complete_resale_sale   -> sold (ticket transferred to the buyer, new QR)
+ *   record_resale_payout   -> seller paid (refund on their payment, or loyalty credits)
+ *
+ * Listings are withdrawn by database triggers when the ticket is scanned,
+ * cancelled, voided or transferred, or the event is cancelled.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import Stripe from "https://esm.sh/stripe@12.0.0?target=deno";
+import {
+  emailTranslator,
+  formatEmailCurrency,
+  resolveLocale,
+} from "./translations.ts";
+import { getTicketSiteUrl } from "./ticket-upgrades.ts";
+
+export type ResalePayoutMethod = "stripe_refund" | "loyalty_credit";
+
+/** Row returned by complete_resale_sale */
+export interface CompletedResaleSale {
+  listing_id: string;
+  ticket_id: string;
+  ticket_code: string;
+  event_id: string;
+  event_name: string;
+  event_date: string;
+  ticket_type_name: string;
+  transfer_id: string;
+  seller_email: string;
+  seller_name: string | null;
+  buyer_email: string;
+  buyer_name: string | null;
+  locale: string | null;
+  face_value: number | string;
+  price: number | string;
+  fee_amount: number | string;
+  seller_proceeds: number | string;
+  /** The seller's own Stripe payment for the ticket; null means pay in loyalty credits */
+  seller_payment_intent_id: string | null;
+}
+
+/** Validation failure that should be returned to the caller as-is */
+export class TicketResaleError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "TicketResaleError";
+  }
+}
+
+/**
+ * Map a resale RPC error to a caller-facing error with an HTTP status.
+ * Returns null for unexpected errors, which should surface as a 500.
+ */
+export function toTicketResaleError(message: string): TicketResaleError | null {
+  if (message.includes("Listing not found")) {
+    return new TicketResaleError("Listing not found or you don't own this listing", 403);
+  }
+  if (message.includes("not found") || message.includes("not owned")) {
+    return new TicketResaleError("Ticket not found or you don't own this ticket", 403);
+  }
+  if (message.includes("already been used") || message.includes("no longer valid")) {
+    return new TicketResaleError("This ticket can no longer be resold", 409);
+  }
+  if (message.includes("not available for this event")) {
+    return new TicketResaleError("Resale is not available for this event", 409);
+  }
+  if (message.includes("Resale has closed")) {
+    return new TicketResaleError("Resale has closed for this event", 409);
+  }
+  if (message.includes("already listed")) {
+    return new TicketResaleError("This ticket is already listed for resale", 409);
+  }
+  if (message.includes("resale cap")) {
+    const cap = message.match(/resale cap of ([\d.]+)/)?.[1];
+    return new TicketResaleError(
+      cap ? `Price must be more than $0 and at most $${Number(cap).toFixed(2)}` : "Price is above the resale cap",
+      400
+    );
+  }
+  if (message.includes("checking out")) {
+    return new TicketResaleError("A buyer is checking out — try again in a few minutes", 409);
+  }
+  if (message.includes("no longer available") || message.includes("no longer active")) {
+    return new TicketResaleError("This listing is no longer available", 409);
+  }
+  if (message.includes("your own listing")) {
+    return new TicketResaleError("You can't buy your own listing", 400);
+  }
+  return null;
+}
+
+/** Stripe amount (cents) for a resale price or payout */
+export function toResaleAmountCents(amount: number | string): number {
+  return Math.round(Number(amount) * 100);
+}
+
+function emailShell(locale: string, subject: string, heading: string, body: string, automated: string): string {
+  return `
+<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+  <meta charset="UTF-8">
+  <title>${subject}</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; background: #f5f5f5;">
+  <div style="background: white; border-radius: 8px; padding: 30px; box-shadow: 0 2px 4px rgba(0,0,0,0.1);">
+    <div style="text-align: center; margin-bottom: 30px; border-bottom: 2px solid #e0e0e0; padding-bottom: 20px;">
+      <h1 style="color: #8B0000; margin: 0;">MAGUEY</h1>
+      <h2 style="margin: 10px 0 0;">${heading}</h2>
+    </div>
+    ${body}
+    <p style="margin-top: 30px; font-size: 12px; color: #999; text-align: center;">${automated}</p>
+  </div>
+</body>
+</html>
+  `.trim();
+}
+
+/**
+ * Localized email to the buyer of a resale ticket
+ */
+export function buildResalePurchasedEmail(
+  sale: CompletedResaleSale,
+  ticketUrl: string
+): { subject: string; html: string } {
+  const locale = resolveLocale(sale.locale);
+  const t = emailTranslator(locale);
+  const ticketType = sale.ticket_type_name || "General Admission";
+  const firstName = (sale.buyer_name || "").split(" ")[0] || "Guest";
+  const subject = t("resale.purchasedSubject", { eventName: sale.event_name });
+
+  const body = `
+    <p>${t("resale.greeting", { name: firstName })}</p>
+    <p style="font-size: 18px; font-weight: 600;">${t("resale.purchasedIntro", { eventName: sale.event_name, ticketType })}</p>
+    <p><strong>${t("resale.paid")}:</strong> ${formatEmailCurrency(Number(sale.price), locale)}</p>
+    <p>${t("resale.purchasedQr")}</p>
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${ticketUrl}" style="display: inline-block; padding: 12px 24px; background: #8B0000; color: white; text-decoration: none; border-radius: 6px; font-weight: 600;">
+        ${t("resale.viewTicket")}
+      </a>
+    </div>`;
+
+  return { subject, html: emailShell(locale, subject, t("resale.purchasedHeading"), body, t("resale.automated")) };
+}
+
+/**
+ * Localized email to the seller once their ticket sold and the payout went out
+ */
+export function buildResaleSoldEmail(
+  sale: CompletedResaleSale,
+  payoutMethod: ResalePayoutMethod
+): { subject: string; html: string } {
+  const locale = resolveLocale(sale.locale);
+  const t = emailTranslator(locale);
+  const ticketType = sale.ticket_type_name || "General Admission";
+  const firstName = (sale.seller_name || "").split(" ")[0] || "Guest";
+  const subject = t("resale.soldSubject", { eventName: sale.event_name });
+
+  const body = `
+    <p>${t("resale.greeting", { name: firstName })}</p>
+    <p style="font-size: 18px; font-weight: 600;">${t("resale.soldIntro", { eventName: sale.event_name, ticketType })}</p>
+    <p><strong>${t("resale.salePrice")}:</strong> ${formatEmailCurrency(Number(sale.price), locale)}</p>
+    <p><strong>${t("resale.fee")}:</strong> ${formatEmailCurrency(Number(sale.fee_amount), locale)}</p>
+    <p><strong>${t("resale.proceeds")}:</strong> ${formatEmailCurrency(Number(sale.seller_proceeds), locale)}</p>
+    <p>${t(payoutMethod === "stripe_refund" ? "resale.proceedsRefund" : "resale.proceedsCredit")}</p>
+    <p>${t("resale.soldQr")}</p>`;
+
+  return { subject, html: emailShell(locale, subject, t("resale.soldHeading"), body, t("resale.automated")) };
+}
+
+async function queueEmail(
+  supabase: SupabaseClient,
+  emailType: string,
+  recipient: string,
+  email: { subject: string; html: string },
+  relatedId: string
+): Promise<void> {
+  const { error } = await supabase.from("email_queue").insert({
+    email_type: emailType,
+    recipient_email: recipient,
+    subject: email.subject,
+    html_body: email.html,
+    related_id: relatedId,
+    status: "pending",
+    attempt_count: 0,
+    max_attempts: 5,
+    next_retry_at: new Date().toISOString(),
+  });
+  if (error) {
+    console.error(`[ticket-resale] Failed to queue ${emailType} email:`, error.message);
+  }
+}
+
+/**
+ * Record the sale in the ticket event store and email buyer and seller.
+ * Never throws — the sale is already committed.
+ */
+export async function announceResaleSale(
+  supabase: SupabaseClient,
+  sale: CompletedResaleSale,
+  payoutMethod: ResalePayoutMethod
+): Promise<void> {
+  const { error: eventError } = await supabase.rpc("append_ticket_event", {
+    p_aggregate_id: sale.ticket_id,
+    p_event_type: "TicketResold",
+    p_event_data: {
+      listingId: sale.listing_id,
+      fromEmail: sale.seller_email,
+      toEmail: sale.buyer_email,
+      toName: sale.buyer_name || sale.buyer_email,
+      price: Number(sale.price),
+      faceValue: Number(sale.face_value),
+      transferId: sale.transfer_id,
+    },
+    p_metadata: { source: "resale-ticket", payoutMethod },
+    p_correlation_id: null,
+    p_causation_id: null,
+    p_occurred_at: new Date().toISOString(),
+  });
+  if (eventError) {
+    console.error("[ticket-resale] Failed to append ticket event:", eventError.message);
+  }
+
+  await queueEmail(
+    supabase,
+    "resale_ticket_purchased",
+    sale.buyer_email,
+    buildResalePurchasedEmail(sale, `${getTicketSiteUrl()}/ticket/${sale.ticket_code}`),
+    sale.ticket_id
+  );
+  await queueEmail(
+    supabase,
+    "resale_ticket_sold",
+    sale.seller_email,
+    buildResaleSoldEmail(sale, payoutMethod),
+    sale.ticket_id
+  );
+}
+
+/**
+ * Complete a paid resale. Returns null when the sale was already processed
+ * (Stripe retries the webhook). On any other failure an unsold listing is
+ * withdrawn (with the reason) and the error is rethrown for the caller to
+ * refund the buyer.
+ */
+export async function completeResaleSale(
+  supabase: SupabaseClient,
+  listingId: string,
+  paymentIntentId: string | null
+): Promise<CompletedResaleSale | null> {
+  const { data, error } = await supabase.rpc("complete_resale_sale", {
+    p_listing_id: listingId,
+    p_payment_intent_id: paymentIntentId,
+  });
+
+  if (error?.message.includes("already processed")) {
+    return null;
+  }
+
+  if (error) {
+    await supabase
+      .from("ticket_resale_listings")
+      .update({
+        status: "withdrawn",
+        withdrawn_reason: `sale_failed: ${error.message}`,
+        stripe_payment_intent_id: paymentIntentId,
+        closed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", listingId)
+      .eq("status", "pending_payment");
+    throw new Error(error.message);
+  }
+
+  return data as CompletedResaleSale;
+}
+
+/**
+ * Pay the seller their proceeds: a partial refund of their own Stripe payment
+ * when they bought the ticket, otherwise (or if the refund fails) loyalty
+ * credits. Returns how they were paid; the payout stays pending if even the
+ * credit could not be recorded.
+ */
+export async function payResaleSeller(
+  supabase: SupabaseClient,
+  sale: CompletedResaleSale
+): Promise<ResalePayoutMethod> {
+  if (sale.seller_payment_intent_id && Number(sale.seller_proceeds) > 0) {
+    const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") || "", {
+      apiVersion: "2023-10-16",
+    });
+    try {
+      const refund = await stripe.refunds.create(
+        {
+          payment_intent: sale.seller_payment_intent_id,
+          amount: toResaleAmountCents(sale.seller_proceeds),
+          metadata: { type: "ticket_resale_payout", listingId: sale.listing_id },
+        },
+        { idempotencyKey: `resale-payout-${sale.listing_id}` }
+      );
+      const { error } = await supabase.rpc("record_resale_payout", {
+        p_listing_id: sale.listing_id,
+        p_method: "stripe_refund",
+        p_reference: refund.id,
+      });
+      if (error) {
+        console.error("[ticket-resale] Refund issued but not recorded:", refund.id, error.message);
+      }
+      return "stripe_refund";
+    } catch (refundError) {
+      // e.g. the original payment was already refunded — fall back to credits
+      console.error("[ticket-resale] Payout refund failed, paying in loyalty credits:", refundError);
+    }
+  }
+
+  const { error } = await supabase.rpc("record_resale_payout", {
+    p_listing_id: sale.listing_id,
+    p_method: "loyalty_credit",
+    p_reference: null,
+  });
+  if (error) {
+    console.error("[ticket-resale] Failed to credit seller:", sale.listing_id, error.message);
+  }
+  return "loyalty_credit";
+}
+
+/**
+ * Refund a buyer whose resale could not be completed (listing withdrawn
+ * while they paid). Returns false when the refund failed and has to be
+ * issued from Stripe by hand.
+ */
+export async function refundResalePurchase(paymentIntentId: string): Promise<boolean> {
+  const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") || "", {
+    apiVersion: "2023-10-16",
+  });
+  try {
+    await stripe.refunds.create({ payment_intent: paymentIntentId });
+    return true;
+  } catch (refundError) {
+    console.error("[ticket-resale] Refund failed:", refundError);
+    return false;
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Ticket Upgrades Tests
+ *
+ * Covers RPC error mapping, the Stripe amount for a price difference and
+ * the localized upgrade confirmation email.
+ *
+ * To run: deno test --allow-net --allow-env ticket-upgrades.test.ts
+ */
+
+import {
+  assert,
+  assertEquals,
+} from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  buildTicketUpgradeEmail,
+  toTicketUpgradeError,
+  toUpgradeAmountCents,
+  type CompletedTicketUpgrade,
+} from "./ticket-upgrades.ts";
+
+// ============================================
+// Fixtures
+// ============================================
+
+const UPGRADE: CompletedTicketUpgrade = {
+  upgrade_id: "upgrade-1",
+  ticket_id: "5f0c7f7e-0000-4000-8000-000000000001",
+  ticket_code: "MGY-1700000000000-ABC123",
+  attendee_email: "ana@example.com",
+  attendee_name: "Ana Lopez",
+  event_name: "Reggaeton Night",
+  event_date: "2026-05-01",
+  locale: "en",
+  from_ticket_type_id: "ga",
+  from_ticket_type_name: "General Admission",
+  to_ticket_type_id: "vip",
+  to_ticket_type_name: "VIP",
+  price_difference: "25.00",
+  channel: "online",
+  upgraded_by: null,
+  new_qr_token: "token",
+};
+
+const TICKET_URL = "https://tickets.example.com/ticket/MGY-1700000000000-ABC123";
+
+// ============================================
+// toTicketUpgradeError
+// ============================================
+
+Deno.test("toTicketUpgradeError - maps ownership errors to 403", () => {
+  const error = toTicketUpgradeError("Ticket not found or not owned by you");
+  assertEquals(error?.status, 403);
+});
+
+Deno.test("toTicketUpgradeError - maps sold out and started events to 409", () => {
+  assertEquals(toTicketUpgradeError("Upgrade ticket type is sold out")?.status, 409);
+  assertEquals(
+    toTicketUpgradeError("Cannot upgrade online after event has started, upgrade at the door")?.status,
+    409
+  );
+  assertEquals(toTicketUpgradeError("Ticket type changed since the upgrade was requested")?.status, 409);
+});
+
+Deno.test("toTicketUpgradeError - returns null for unexpected errors", () => {
+  assertEquals(toTicketUpgradeError("QR signing secret not configured"), null);
+});
+
+// ============================================
+// toUpgradeAmountCents
+// ============================================
+
+Deno.test("toUpgradeAmountCents - converts numeric strings and rounds to cents", () => {
+  assertEquals(toUpgradeAmountCents("25.00"), 2500);
+  assertEquals(toUpgradeAmountCents(19.995), 2000);
+  assertEquals(toUpgradeAmountCents(0.1 + 0.2), 30);
+});
+
+// ============================================
+// buildTicketUpgradeEmail
+// ============================================
+
+Deno.test("buildTicketUpgradeEmail - English copy with amount paid and ticket link", () => {
+  const email = buildTicketUpgradeEmail(UPGRADE, TICKET_URL);
+  assertEquals(email.subject, "Your ticket for Reggaeton Night was upgraded to VIP");
+  assert(email.html.includes("Hi Ana,"));
+  assert(email.html.includes("$25.00"));
+  assert(email.html.includes(TICKET_URL));
+  assert(email.html.includes("General Admission"));
+});
+
+Deno.test("buildTicketUpgradeEmail - Spanish copy for Spanish orders", () => {
+  const email = buildTicketUpgradeEmail({ ...UPGRADE, locale: "es" }, TICKET_URL);
+  assertEquals(email.subject, "Tu boleto para Reggaeton Night fue mejorado a VIP");
+  assert(email.html.includes('lang="es"'));
+  assert(email.html.includes("Hola Ana,"));
+});
+
+Deno.test("buildTicketUpgradeEmail - comped door upgrades omit the amount paid", () => {
+  const email = buildTicketUpgradeEmail(
+    { ...UPGRADE, price_difference: 0, channel: "door" },
+    TICKET_URL
+  );
+  assert(!email.html.includes("Upgrade Paid"));
+});
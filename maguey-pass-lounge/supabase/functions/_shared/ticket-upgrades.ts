@@ -0,0 +1,240 @@
+/**
+ * Ticket Upgrades
+ *
+ * Shared by upgrade-ticket (quotes, online checkout, door upgrades) and
+ * stripe-webhook (completing paid online upgrades).
+ *
+ * Lifecycle (see 20260405000000_ticket_upgrades.sql):
+ *   request_ticket_upgrade  -> pending (price difference quoted)
+ *   complete_ticket_upgrade -> completed (type swapped, inventory moved, new QR)
+ *   payment or swap failed  -> failed
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import Stripe from "https://esm.sh/stripe@12.0.0?target=deno";
+import {
+  emailTranslator,
+  formatEmailCurrency,
+  resolveLocale,
+} from "./translations.ts";
+
+export type TicketUpgradeChannel = "online" | "door";
+
+export type TicketUpgradePaymentMethod = "stripe" | "cash" | "card_terminal" | "comp";
+
+export const DOOR_PAYMENT_METHODS: TicketUpgradePaymentMethod[] = ["cash", "card_terminal", "comp"];
+
+/** Row returned by complete_ticket_upgrade */
+export interface CompletedTicketUpgrade {
+  upgrade_id: string;
+  ticket_id: string;
+  ticket_code: string;
+  attendee_email: string | null;
+  attendee_name: string | null;
+  event_name: string;
+  event_date: string;
+  locale: string | null;
+  from_ticket_type_id: string;
+  from_ticket_type_name: string | null;
+  to_ticket_type_id: string;
+  to_ticket_type_name: string | null;
+  price_difference: number | string;
+  channel: TicketUpgradeChannel;
+  upgraded_by: string | null;
+  new_qr_token: string;
+}
+
+/** Validation failure that should be returned to the caller as-is */
+export class TicketUpgradeError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "TicketUpgradeError";
+  }
+}
+
+/**
+ * Map an upgrade RPC error to a caller-facing error with an HTTP status.
+ * Returns null for unexpected errors, which should surface as a 500.
+ */
+export function toTicketUpgradeError(message: string): TicketUpgradeError | null {
+  if (message.includes("not found") || message.includes("not owned")) {
+    return new TicketUpgradeError("Ticket not found or you don't own this ticket", 403);
+  }
+  if (message.includes("sold out")) {
+    return new TicketUpgradeError("That ticket type is sold out", 409);
+  }
+  if (message.includes("event has started")) {
+    return new TicketUpgradeError(
+      "Tickets can't be upgraded online after the event has started — ask at the door",
+      409
+    );
+  }
+  if (message.includes("already been used") || message.includes("cancelled or refunded")) {
+    return new TicketUpgradeError("This ticket can no longer be upgraded", 409);
+  }
+  if (message.includes("not available")) {
+    return new TicketUpgradeError("That upgrade is not available for this ticket", 400);
+  }
+  if (message.includes("already processed") || message.includes("type changed")) {
+    return new TicketUpgradeError("This ticket was already upgraded", 409);
+  }
+  return null;
+}
+
+/** Stripe amount (cents) for a price difference */
+export function toUpgradeAmountCents(priceDifference: number | string): number {
+  return Math.round(Number(priceDifference) * 100);
+}
+
+export function getTicketSiteUrl(): string {
+  return (Deno.env.get("SITE_URL") || "https://tickets.magueynightclub.com").replace(/\/$/, "");
+}
+
+/**
+ * Localized confirmation email for a completed upgrade
+ */
+export function buildTicketUpgradeEmail(
+  upgrade: CompletedTicketUpgrade,
+  ticketUrl: string
+): { subject: string; html: string } {
+  const locale = resolveLocale(upgrade.locale);
+  const t = emailTranslator(locale);
+  const ticketType = upgrade.to_ticket_type_name || "VIP";
+  const firstName = (upgrade.attendee_name || "").split(" ")[0] || "Guest";
+  const subject = t("upgrade.subject", { eventName: upgrade.event_name, ticketType });
+  const paid = Number(upgrade.price_difference);
+
+  const html = `
+<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+  <meta charset="UTF-8">
+  <title>${subject}</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; background: #f5f5f5;">
+  <div style="background: white; border-radius: 8px; padding: 30px; box-shadow: 0 2px 4px rgba(0,0,0,0.1);">
+    <div style="text-align: center; margin-bottom: 30px; border-bottom: 2px solid #e0e0e0; padding-bottom: 20px;">
+      <h1 style="color: #8B0000; margin: 0;">MAGUEY</h1>
+      <h2 style="margin: 10px 0 0;">${t("upgrade.heading")}</h2>
+    </div>
+    <p>${t("upgrade.greeting", { name: firstName })}</p>
+    <p style="font-size: 18px; font-weight: 600;">${t("upgrade.intro", { eventName: upgrade.event_name, ticketType })}</p>
+    <p><strong>${t("upgrade.from")}:</strong> ${upgrade.from_ticket_type_name || ""}</p>
+    <p><strong>${t("upgrade.to")}:</strong> ${ticketType}</p>
+    ${paid > 0 ? `<p><strong>${t("upgrade.paid")}:</strong> ${formatEmailCurrency(paid, locale)}</p>` : ""}
+    <p>${t("upgrade.newQr")}</p>
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${ticketUrl}" style="display: inline-block; padding: 12px 24px; background: #8B0000; color: white; text-decoration: none; border-radius: 6px; font-weight: 600;">
+        ${t("upgrade.viewTicket")}
+      </a>
+    </div>
+    <p style="margin-top: 30px; font-size: 12px; color: #999; text-align: center;">${t("upgrade.automated")}</p>
+  </div>
+</body>
+</html>
+  `.trim();
+
+  return { subject, html };
+}
+
+/**
+ * Record the upgrade in the ticket event store and email the holder.
+ * Never throws — the upgrade is already committed.
+ */
+export async function announceTicketUpgrade(
+  supabase: SupabaseClient,
+  upgrade: CompletedTicketUpgrade
+): Promise<void> {
+  const { error: eventError } = await supabase.rpc("append_ticket_event", {
+    p_aggregate_id: upgrade.ticket_id,
+    p_event_type: "TicketUpgraded",
+    p_event_data: {
+      fromTicketTypeId: upgrade.from_ticket_type_id,
+      fromTicketTypeName: upgrade.from_ticket_type_name,
+      toTicketTypeId: upgrade.to_ticket_type_id,
+      toTicketTypeName: upgrade.to_ticket_type_name,
+      priceDifference: Number(upgrade.price_difference),
+      upgradedBy: upgrade.upgraded_by || undefined,
+    },
+    p_metadata: { source: "upgrade-ticket", channel: upgrade.channel, upgradeId: upgrade.upgrade_id },
+    p_correlation_id: null,
+    p_causation_id: null,
+    p_occurred_at: new Date().toISOString(),
+  });
+  if (eventError) {
+    console.error("[ticket-upgrades] Failed to append ticket event:", eventError.message);
+  }
+
+  if (!upgrade.attendee_email) return;
+
+  const email = buildTicketUpgradeEmail(
+    upgrade,
+    `${getTicketSiteUrl()}/ticket/${upgrade.ticket_code}`
+  );
+  const { error: emailError } = await supabase.from("email_queue").insert({
+    email_type: "ticket_upgraded",
+    recipient_email: upgrade.attendee_email,
+    subject: email.subject,
+    html_body: email.html,
+    related_id: upgrade.ticket_id,
+    status: "pending",
+    attempt_count: 0,
+    max_attempts: 5,
+    next_retry_at: new Date().toISOString(),
+  });
+  if (emailError) {
+    console.error("[ticket-upgrades] Failed to queue upgrade email:", emailError.message);
+  }
+}
+
+/**
+ * Complete a pending upgrade. Returns null when the upgrade was already
+ * processed (Stripe retries the webhook). On any other failure the upgrade is
+ * marked failed (with the reason) and the error is rethrown for the caller to
+ * refund/report.
+ */
+export async function completeTicketUpgrade(
+  supabase: SupabaseClient,
+  upgradeId: string,
+  paymentIntentId: string | null
+): Promise<CompletedTicketUpgrade | null> {
+  const { data, error } = await supabase.rpc("complete_ticket_upgrade", {
+    p_upgrade_id: upgradeId,
+    p_payment_intent_id: paymentIntentId,
+  });
+
+  if (error?.message.includes("already processed")) {
+    return null;
+  }
+
+  if (error) {
+    await supabase
+      .from("ticket_upgrades")
+      .update({ status: "failed", failure_reason: error.message, stripe_payment_intent_id: paymentIntentId })
+      .eq("id", upgradeId)
+      .eq("status", "pending");
+    throw new Error(error.message);
+  }
+
+  const upgrade = data as CompletedTicketUpgrade;
+  await announceTicketUpgrade(supabase, upgrade);
+  return upgrade;
+}
+
+/**
+ * Refund a paid online upgrade that could not be applied (e.g. the target
+ * type sold out between checkout and payment). Returns false when the refund
+ * failed and has to be issued from Stripe by hand.
+ */
+export async function refundTicketUpgrade(paymentIntentId: string): Promise<boolean> {
+  const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") || "", {
+    apiVersion: "2023-10-16",
+  });
+  try {
+    await stripe.refunds.create({ payment_intent: paymentIntentId });
+    return true;
+  } catch (refundError) {
+    console.error("[ticket-upgrades] Refund failed:", refundError);
+    return false;
+  }
+}
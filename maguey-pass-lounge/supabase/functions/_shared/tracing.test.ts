@@ -0,0 +1,136 @@
+/**
+ * Edge Function Tracing Tests
+ *
+ * Covers traceparent parsing, continuing and adopting parents, sampling and
+ * the OTLP export with retries.
+ *
+ * To run: deno test --allow-net --allow-env tracing.test.ts
+ */
+
+import {
+  assert,
+  assertEquals,
+} from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  EdgeTracer,
+  formatTraceparent,
+  parseOtlpHeaders,
+  parseTraceparent,
+  traceHandler,
+} from "./tracing.ts";
+
+// ============================================
+// Fixtures
+// ============================================
+
+const COLLECTOR_URL = "http://localhost:4318/v1/traces";
+const PARENT = "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01";
+
+interface ExportBody {
+  resourceSpans: Array<{
+    resource: { attributes: Array<{ key: string; value: { stringValue?: string } }> };
+    scopeSpans: Array<{
+      spans: Array<{ name: string; kind: number; parentSpanId?: string; status: { code: number } }>;
+    }>;
+  }>;
+}
+
+function collector(statuses: number[] = []): { fetch: typeof fetch; bodies: ExportBody[] } {
+  const bodies: ExportBody[] = [];
+  const fetchStub = ((_url: string, init?: RequestInit) => {
+    bodies.push(JSON.parse(String(init?.body)));
+    return Promise.resolve(new Response("{}", { status: statuses.shift() ?? 200 }));
+  }) as typeof fetch;
+  return { fetch: fetchStub, bodies };
+}
+
+function exportedSpans(bodies: ExportBody[]) {
+  return bodies.flatMap((body) => body.resourceSpans[0].scopeSpans[0].spans);
+}
+
+// ============================================
+// Trace context
+// ============================================
+
+Deno.test("parseTraceparent - round trips valid headers", () => {
+  const context = parseTraceparent(PARENT);
+  assertEquals(context, {
+    traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+    spanId: "00f067aa0ba902b7",
+    traceFlags: 1,
+  });
+  assertEquals(formatTraceparent(context!), PARENT);
+});
+
+Deno.test("parseTraceparent - rejects malformed and all-zero IDs", () => {
+  assertEquals(parseTraceparent("garbage"), null);
+  assertEquals(parseTraceparent(null), null);
+  assertEquals(parseTraceparent("00-00000000000000000000000000000000-00f067aa0ba902b7-01"), null);
+  assertEquals(parseTraceparent("00-4bf92f3577b34da6a3ce929d0e0e4736-0000000000000000-01"), null);
+});
+
+Deno.test("parseOtlpHeaders - reads key=value pairs", () => {
+  assertEquals(parseOtlpHeaders("x-api-key=abc, x-team=night%20ops"), { "x-api-key": "abc", "x-team": "night ops" });
+});
+
+// ============================================
+// Spans
+// ============================================
+
+Deno.test("startSpan - continues a traceparent and keeps its sampling decision", () => {
+  const tracer = new EdgeTracer({ serviceName: "test", sampleRate: 0 });
+  const span = tracer.startSpan("child", { parent: PARENT });
+  assertEquals(span.traceId, "4bf92f3577b34da6a3ce929d0e0e4736");
+  assertEquals(span.parentSpanId, "00f067aa0ba902b7");
+  assert(span.sampled);
+});
+
+Deno.test("adoptParent - joins the stored trace once, only for root spans", () => {
+  const tracer = new EdgeTracer({ serviceName: "test" });
+  const root = tracer.startSpan("POST stripe-webhook", { kind: "server" });
+  assert(root.adoptParent(PARENT));
+  assertEquals(root.traceId, "4bf92f3577b34da6a3ce929d0e0e4736");
+  assertEquals(root.adoptParent("00-11111111111111111111111111111111-2222222222222222-01"), false);
+
+  const fresh = tracer.startSpan("POST stripe-webhook");
+  assertEquals(fresh.adoptParent(undefined), false);
+});
+
+// ============================================
+// Export
+// ============================================
+
+Deno.test("traceHandler - exports the server span with the response status", async () => {
+  const { fetch, bodies } = collector();
+  const tracer = new EdgeTracer({ serviceName: "maguey-edge-functions", endpoint: COLLECTOR_URL, fetch });
+  const handler = traceHandler("create-checkout-session", () => Promise.resolve(new Response("{}", { status: 500 })), tracer);
+
+  await handler(new Request("http://localhost/", { method: "POST", headers: { traceparent: PARENT } }));
+
+  const [span] = exportedSpans(bodies);
+  assertEquals(span.name, "POST create-checkout-session");
+  assertEquals(span.kind, 2);
+  assertEquals(span.parentSpanId, "00f067aa0ba902b7");
+  assertEquals(span.status.code, 2);
+  assertEquals(bodies[0].resourceSpans[0].resource.attributes[0].value.stringValue, "maguey-edge-functions");
+});
+
+Deno.test("flush - retries retryable statuses and skips unsampled traces", async () => {
+  const { fetch, bodies } = collector([503]);
+  const tracer = new EdgeTracer({ serviceName: "test", endpoint: COLLECTOR_URL, fetch, retryDelayMs: 0 });
+
+  tracer.startSpan("sampled").end();
+  tracer.startSpan("unsampled", { parent: PARENT.replace(/-01$/, "-00") }).end();
+  await tracer.flush();
+
+  assertEquals(bodies.length, 2);
+  assertEquals(exportedSpans(bodies.slice(1)).map((span) => span.name), ["sampled"]);
+});
+
+Deno.test("flush - does nothing without an endpoint", async () => {
+  const { fetch, bodies } = collector();
+  const tracer = new EdgeTracer({ serviceName: "test", fetch });
+  tracer.startSpan("span").end();
+  await tracer.flush();
+  assertEquals(bodies.length, 0);
+});
@@ -0,0 +1,480 @@
+/**
+ * Distributed tracing for Supabase Edge Functions
+ *
+ * Continues the W3C traceparent sent by the sites, wraps each request in a
+ * server span and sends finished spans to an OpenTelemetry collector as
+ * OTLP/HTTP JSON. The traceparent is handed on (Stripe metadata, email_queue,
+ * tickets) so a purchase can be followed from checkout to the door scan.
+ *
+ * Usage:
+ *   serve(traceHandler("create-checkout-session", async (req, span) => {
+ *     span.setAttribute("event.id", eventId);
+ *     ...
+ *   }));
+ *
+ * Environment:
+ *   OTEL_EXPORTER_OTLP_ENDPOINT         Collector base URL (/v1/traces is appended)
+ *   OTEL_EXPORTER_OTLP_TRACES_ENDPOINT  Full traces URL, wins over the base URL
+ *   OTEL_EXPORTER_OTLP_HEADERS          "key=value,key2=value2" (collector API keys)
+ *   OTEL_TRACES_SAMPLER_ARG             Fraction of new traces to keep (default 1)
+ *   OTEL_SERVICE_NAME                   Defaults to maguey-edge-functions
+ *
+ * Without an endpoint nothing is exported, but trace IDs are still created
+ * and propagated.
+ */
+
+export type SpanKind = "internal" | "server" | "client" | "producer" | "consumer";
+
+export type SpanStatus = "unset" | "ok" | "error";
+
+export type AttributeValue = string | number | boolean;
+
+export interface TraceContext {
+  traceId: string;
+  spanId: string;
+  traceFlags: number;
+}
+
+export interface TracingConfig {
+  serviceName: string;
+  /** Full OTLP traces URL; spans are only exported when set */
+  endpoint?: string | null;
+  headers?: Record<string, string>;
+  /** Fraction of new traces to sample; continued traces keep their parent's decision */
+  sampleRate?: number;
+  maxBatchSize?: number;
+  maxRetries?: number;
+  retryDelayMs?: number;
+  /** Injected in tests to point at a collector stand-in */
+  fetch?: typeof fetch;
+}
+
+interface SpanEvent {
+  name: string;
+  timeMs: number;
+  attributes: Record<string, AttributeValue>;
+}
+
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+/** Statuses an OTLP collector uses for "try again later" */
+const RETRYABLE_STATUS_CODES = [429, 502, 503, 504];
+
+const OTLP_SPAN_KIND: Record<SpanKind, number> = {
+  internal: 1,
+  server: 2,
+  client: 3,
+  producer: 4,
+  consumer: 5,
+};
+
+const OTLP_STATUS_CODE: Record<SpanStatus, number> = {
+  unset: 0,
+  ok: 1,
+  error: 2,
+};
+
+// ============================================
+// W3C Trace Context
+// ============================================
+
+function randomHex(byteLength: number): string {
+  const bytes = new Uint8Array(byteLength);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export function generateTraceId(): string {
+  return randomHex(16);
+}
+
+export function generateSpanId(): string {
+  return randomHex(8);
+}
+
+/**
+ * Parse a traceparent header. Returns null for anything malformed, including
+ * the all-zero IDs the spec marks invalid.
+ */
+export function parseTraceparent(header: string | null | undefined): TraceContext | null {
+  const match = header?.trim().toLowerCase().match(TRACEPARENT_PATTERN);
+  if (!match || /^0+$/.test(match[1]) || /^0+$/.test(match[2])) {
+    return null;
+  }
+  return { traceId: match[1], spanId: match[2], traceFlags: parseInt(match[3], 16) };
+}
+
+export function formatTraceparent(context: TraceContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.traceFlags.toString(16).padStart(2, "0")}`;
+}
+
+/**
+ * Consistent sampling: the same trace ID always gets the same decision, here
+ * and in the sites' tracers
+ */
+export function shouldSample(traceId: string, sampleRate: number): boolean {
+  if (sampleRate >= 1.0) return true;
+  if (sampleRate <= 0.0) return false;
+
+  const hash = parseInt(traceId.substring(0, 8), 16);
+  const threshold = Math.floor(hash / 0xffffffff * 1000000) / 1000000;
+
+  return threshold < sampleRate;
+}
+
+// ============================================
+// Spans
+// ============================================
+
+export class Span {
+  traceId: string;
+  readonly spanId: string;
+  parentSpanId?: string;
+  traceFlags: number;
+  readonly name: string;
+  readonly kind: SpanKind;
+  readonly startTimeMs: number;
+  endTimeMs?: number;
+  status: SpanStatus = "unset";
+  statusMessage?: string;
+  readonly attributes: Record<string, AttributeValue> = {};
+  readonly events: SpanEvent[] = [];
+
+  constructor(
+    private readonly tracer: EdgeTracer,
+    name: string,
+    kind: SpanKind,
+    parent: TraceContext | null,
+    sampleRate: number,
+  ) {
+    this.name = name;
+    this.kind = kind;
+    this.spanId = generateSpanId();
+    this.startTimeMs = Date.now();
+
+    if (parent) {
+      this.traceId = parent.traceId;
+      this.parentSpanId = parent.spanId;
+      this.traceFlags = parent.traceFlags;
+    } else {
+      this.traceId = generateTraceId();
+      this.traceFlags = shouldSample(this.traceId, sampleRate) ? 0x01 : 0x00;
+    }
+  }
+
+  get sampled(): boolean {
+    return (this.traceFlags & 0x01) === 0x01;
+  }
+
+  /** This span as a traceparent, for headers and for storing with records */
+  get traceparent(): string {
+    return formatTraceparent(this);
+  }
+
+  setAttribute(key: string, value: AttributeValue | null | undefined): this {
+    if (value !== null && value !== undefined) {
+      this.attributes[key] = value;
+    }
+    return this;
+  }
+
+  setAttributes(attributes: Record<string, AttributeValue | null | undefined>): this {
+    for (const [key, value] of Object.entries(attributes)) {
+      this.setAttribute(key, value);
+    }
+    return this;
+  }
+
+  addEvent(name: string, attributes: Record<string, AttributeValue> = {}): this {
+    this.events.push({ name, timeMs: Date.now(), attributes });
+    return this;
+  }
+
+  setStatus(status: SpanStatus, message?: string): this {
+    this.status = status;
+    if (message) {
+      this.statusMessage = message;
+    }
+    return this;
+  }
+
+  setError(error: unknown): this {
+    const message = error instanceof Error ? error.message : String(error);
+    this.setStatus("error", message);
+    this.addEvent("exception", {
+      "exception.type": error instanceof Error ? error.name : "Error",
+      "exception.message": message,
+    });
+    return this;
+  }
+
+  /**
+   * Join the trace a stored traceparent belongs to. Webhooks arrive without a
+   * traceparent header, so the parent is only known once the payload has been
+   * read; call this before starting child spans. Ignored when the span
+   * already has a parent or the value is not a valid traceparent.
+   */
+  adoptParent(traceparent: string | null | undefined): boolean {
+    const parent = parseTraceparent(traceparent);
+    if (!parent || this.parentSpanId || this.endTimeMs !== undefined) {
+      return false;
+    }
+    this.traceId = parent.traceId;
+    this.parentSpanId = parent.spanId;
+    this.traceFlags = parent.traceFlags;
+    return true;
+  }
+
+  end(): void {
+    if (this.endTimeMs !== undefined) return;
+    this.endTimeMs = Date.now();
+    if (this.status === "unset") {
+      this.status = "ok";
+    }
+    this.tracer.record(this);
+  }
+}
+
+// ============================================
+// OTLP Encoding
+// ============================================
+
+function toAnyValue(value: AttributeValue) {
+  if (typeof value === "boolean") return { boolValue: value };
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+  return { stringValue: value };
+}
+
+function toKeyValues(attributes: Record<string, AttributeValue>) {
+  return Object.entries(attributes).map(([key, value]) => ({ key, value: toAnyValue(value) }));
+}
+
+function toUnixNano(ms: number): string {
+  return `${BigInt(Math.round(ms)) * 1_000_000n}`;
+}
+
+/**
+ * Encode finished spans as an OTLP/JSON ExportTraceServiceRequest
+ */
+export function toOtlpPayload(spans: Span[], resource: Record<string, AttributeValue>) {
+  return {
+    resourceSpans: [{
+      resource: { attributes: toKeyValues(resource) },
+      scopeSpans: [{
+        scope: { name: "maguey-edge-tracing" },
+        spans: spans.map((span) => ({
+          traceId: span.traceId,
+          spanId: span.spanId,
+          ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+          flags: span.traceFlags,
+          name: span.name,
+          kind: OTLP_SPAN_KIND[span.kind],
+          startTimeUnixNano: toUnixNano(span.startTimeMs),
+          endTimeUnixNano: toUnixNano(span.endTimeMs ?? span.startTimeMs),
+          attributes: toKeyValues(span.attributes),
+          events: span.events.map((event) => ({
+            name: event.name,
+            timeUnixNano: toUnixNano(event.timeMs),
+            attributes: toKeyValues(event.attributes),
+          })),
+          status: {
+            code: OTLP_STATUS_CODE[span.status],
+            ...(span.statusMessage ? { message: span.statusMessage } : {}),
+          },
+        })),
+      }],
+    }],
+  };
+}
+
+// ============================================
+// Tracer
+// ============================================
+
+export class EdgeTracer {
+  readonly config: TracingConfig;
+  private finished: Span[] = [];
+
+  constructor(config: TracingConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Start a span. The parent may be a context or a traceparent string (a
+   * header or a stored value); without one a new trace is started.
+   */
+  startSpan(
+    name: string,
+    options: {
+      kind?: SpanKind;
+      parent?: TraceContext | string | null;
+      attributes?: Record<string, AttributeValue | null | undefined>;
+    } = {},
+  ): Span {
+    const parent = typeof options.parent === "string" ? parseTraceparent(options.parent) : options.parent ?? null;
+    const span = new Span(this, name, options.kind ?? "internal", parent, this.config.sampleRate ?? 1.0);
+    if (options.attributes) {
+      span.setAttributes(options.attributes);
+    }
+    return span;
+  }
+
+  /**
+   * Run a function inside a span, recording errors on it
+   */
+  async withSpan<T>(
+    name: string,
+    fn: (span: Span) => Promise<T>,
+    options: Parameters<EdgeTracer["startSpan"]>[1] = {},
+  ): Promise<T> {
+    const span = this.startSpan(name, options);
+    try {
+      return await fn(span);
+    } catch (error) {
+      span.setError(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /** Called by Span.end() */
+  record(span: Span): void {
+    if (this.config.endpoint && span.sampled) {
+      this.finished.push(span);
+    }
+  }
+
+  /**
+   * Send finished spans to the collector. Never throws: losing spans must not
+   * fail the request they describe.
+   */
+  async flush(): Promise<void> {
+    const endpoint = this.config.endpoint;
+    if (!endpoint || this.finished.length === 0) return;
+
+    const maxBatchSize = this.config.maxBatchSize ?? 256;
+    const resource = { "service.name": this.config.serviceName };
+
+    while (this.finished.length > 0) {
+      const batch = this.finished.splice(0, maxBatchSize);
+      const sent = await this.send(endpoint, JSON.stringify(toOtlpPayload(batch, resource)));
+      if (!sent) {
+        console.error(JSON.stringify({
+          level: "error",
+          message: "Dropped spans the collector did not accept",
+          context: { spans: batch.length, endpoint },
+        }));
+      }
+    }
+  }
+
+  private async send(endpoint: string, body: string): Promise<boolean> {
+    const fetchImpl = this.config.fetch ?? fetch;
+    const maxRetries = this.config.maxRetries ?? 2;
+    const retryDelayMs = this.config.retryDelayMs ?? 250;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      if (attempt > 0) {
+        await new Promise((resolve) => setTimeout(resolve, retryDelayMs * Math.pow(2, attempt - 1)));
+      }
+      try {
+        const response = await fetchImpl(endpoint, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...this.config.headers },
+          body,
+        });
+        if (response.ok) return true;
+        if (!RETRYABLE_STATUS_CODES.includes(response.status)) return false;
+      } catch {
+        // Collector unreachable; retry
+      }
+    }
+    return false;
+  }
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+// Read through globalThis so the site's tests can import this module outside Deno
+function readEnv(name: string): string | undefined {
+  const deno = (globalThis as { Deno?: { env: { get(key: string): string | undefined } } }).Deno;
+  return deno?.env.get(name);
+}
+
+/**
+ * Parse "key1=value1,key2=value2" (OTEL_EXPORTER_OTLP_HEADERS)
+ */
+export function parseOtlpHeaders(value: string | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const pair of (value || "").split(",")) {
+    const separator = pair.indexOf("=");
+    if (separator <= 0) continue;
+    headers[pair.slice(0, separator).trim()] = decodeURIComponent(pair.slice(separator + 1).trim());
+  }
+  return headers;
+}
+
+export function tracingConfigFromEnv(): TracingConfig {
+  const tracesEndpoint = readEnv("OTEL_EXPORTER_OTLP_TRACES_ENDPOINT");
+  const baseEndpoint = readEnv("OTEL_EXPORTER_OTLP_ENDPOINT");
+  const sampleRate = Number(readEnv("OTEL_TRACES_SAMPLER_ARG") ?? "1");
+
+  return {
+    serviceName: readEnv("OTEL_SERVICE_NAME") || "maguey-edge-functions",
+    endpoint: tracesEndpoint || (baseEndpoint ? `${baseEndpoint.replace(/\/+$/, "")}/v1/traces` : null),
+    headers: parseOtlpHeaders(readEnv("OTEL_EXPORTER_OTLP_HEADERS")),
+    sampleRate: isNaN(sampleRate) ? 1.0 : sampleRate,
+  };
+}
+
+let defaultTracer: EdgeTracer | null = null;
+
+export function getTracer(): EdgeTracer {
+  if (!defaultTracer) {
+    defaultTracer = new EdgeTracer(tracingConfigFromEnv());
+  }
+  return defaultTracer;
+}
+
+/**
+ * Wrap a serve() handler in a server span that continues the request's
+ * traceparent. Spans are flushed before the response is returned, since
+ * the isolate may be frozen right after.
+ */
+export function traceHandler(
+  functionName: string,
+  handler: (req: Request, span: Span) => Promise<Response>,
+  tracer?: EdgeTracer,
+): (req: Request) => Promise<Response> {
+  return async (req: Request) => {
+    const activeTracer = tracer ?? getTracer();
+    const span = activeTracer.startSpan(`${req.method} ${functionName}`, {
+      kind: "server",
+      parent: req.headers.get("traceparent"),
+      attributes: {
+        "faas.name": functionName,
+        "http.request.method": req.method,
+      },
+    });
+
+    try {
+      const response = await handler(req, span);
+      span.setAttribute("http.response.status_code", response.status);
+      if (response.status >= 500) {
+        span.setStatus("error", `HTTP ${response.status}`);
+      }
+      return response;
+    } catch (error) {
+      span.setError(error);
+      throw error;
+    } finally {
+      span.end();
+      await activeTracer.flush();
+    }
+  };
+}
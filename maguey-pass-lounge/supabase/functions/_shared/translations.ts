@@ -0,0 +1,510 @@
+/**
+ * Email Translations (English / Spanish)
+ *
+ * Copy of the `email` namespace from src/lib/translations.ts — the edge
+ * functions can't import from the app, so keep the two in sync
+ * (src/lib/__tests__/i18n.test.ts checks they match).
+ *
+ * Usage:
+ *   const t = emailTranslator(resolveLocale(session.metadata?.locale));
+ *   t("ticket.greeting", { name: "Ana" });
+ */
+
+export type Locale = "en" | "es";
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+/** BCP 47 tags used with Intl — prices are always USD */
+const INTL_LOCALES: Record<Locale, string> = {
+  en: "en-US",
+  es: "es-US",
+};
+
+const en = {
+  ticket: {
+    subjectOne: "Your ticket for {eventName}",
+    subjectMany: "Your tickets for {eventName}",
+    title: "Your Tickets - {eventName}",
+    paymentSuccessful: "Payment Successful! Your tickets are confirmed.",
+    greeting: "Hi {name},",
+    intro: "Thank you for your purchase! Your digital tickets for {eventName} are ready.",
+    ticketType: "Ticket Type",
+    ticketHolder: "Ticket Holder",
+    venue: "Venue",
+    address: "Address",
+    price: "Price",
+    presentQr: "Present this QR code at the entrance",
+    qrAlt: "QR Code for {ticketId}",
+    ticketId: "Ticket ID",
+    importantInformation: "Important Information",
+    idRequired: "Valid government-issued ID required at entrance",
+    arriveEarly: "Arrive 30 minutes before event time",
+    screenshot: "Screenshot or download this email for offline access",
+    doNotShare: "Do not share your QR code with anyone",
+    nonRefundable: "Tickets are non-transferable and non-refundable",
+    viewMyTickets: "View My Tickets",
+    orderId: "Order ID",
+    questions: "If you have any questions, please contact us at {email}",
+    automated: "This is an automated email. Please do not reply to this message.",
+    textThanks: "Thank you for your purchase, {name}!",
+    textConfirmed: "Your tickets for {eventName} are confirmed.",
+    textTickets: "TICKETS",
+    textTicket: "Ticket {number}",
+    textEvent: "Event",
+    textEventId: "Event ID",
+    textDate: "Date",
+    textAt: "{date} at {time}",
+    textQrCode: "QR Code",
+    textImportant: "IMPORTANT INFORMATION",
+    textViewOnline: "View your tickets online: {url}",
+    orderConfirmedSubject: "Your Maguey Tickets - Order Confirmed",
+    ticketHeading: "Ticket {number}: {type}",
+    event: "Event",
+    date: "Date",
+    time: "Time",
+    presentAtVenue: "Present this ticket at the venue. A QR code will be available in your account.",
+    qrInAccount: "Your QR code will be in your account dashboard",
+  },
+  vip: {
+    subject: "VIP Table Confirmed - {eventName}",
+    title: "VIP Table Reservation - {eventName}",
+    heading: "VIP TABLE RESERVATION",
+    subheading: "Your exclusive table is confirmed",
+    paymentSuccessful: "Payment Successful - Your VIP Table is Reserved!",
+    greeting: "Dear {name},",
+    intro: "Thank you for your VIP table reservation! Your exclusive table for {eventName} is confirmed.",
+    reservationNumber: "Reservation Number",
+    tierTable: "{tier} Table",
+    tierPremium: "Premium",
+    tierStandard: "Standard",
+    tierRegular: "Regular",
+    event: "Event",
+    date: "Date",
+    time: "Time",
+    table: "Table",
+    defaultTable: "VIP Table",
+    location: "Location",
+    defaultLocation: "VIP Section",
+    guests: "Guests",
+    people: "{count} people",
+    bottleService: "Bottle Service",
+    included: "Included",
+    bottleChoice: "Your Bottle Choice",
+    totalPaid: "Total Paid",
+    guestPasses: "Guest Entry Passes",
+    guestPassesInstruction: "Each guest needs their own QR code to enter. Share these with your guests or show them from your phone at the door.",
+    guestNumber: "Guest {number}",
+    guestQrAlt: "Guest {number} QR Code",
+    importantInformation: "Important Information",
+    arriveEarly: "Arrive 30 minutes early for table setup and VIP check-in",
+    idRequired: "Valid government-issued ID required for all guests",
+    ownQr: "Each guest scans their own QR code at entry",
+    screenshot: "Screenshot the QR codes for offline access",
+    tableHeld: "Your table will be held for 1 hour after doors open",
+    noRefunds: "No Refunds",
+    noRefundsDescription: "All VIP table reservations are final and non-refundable.",
+    viewOnline: "View Reservation Online",
+    venue: "Venue",
+    contactPhone: "Contact Phone",
+    questions: "If you have any questions, please contact us at {email}",
+    automated: "This is an automated email. Please do not reply to this message.",
+    textConfirmed: "VIP TABLE RESERVATION CONFIRMED",
+    textTableConfirmed: "Your VIP table for {eventName} is confirmed!",
+    textDetails: "RESERVATION DETAILS",
+    textGuestPasses: "GUEST ENTRY PASSES",
+    textImportant: "IMPORTANT INFORMATION",
+    textNoRefunds: "NO REFUNDS: All VIP table reservations are final.",
+    textViewOnline: "View your reservation online: {url}",
+    textVenue: "VENUE",
+    tierFrontRow: "Front Row",
+    presentCode: "Present this code at entry",
+    scanAtEntry: "Scan QR code at entry",
+    viewPass: "View Pass Online",
+    inviteHeading: "Invite Your Guests",
+    inviteDescription: "Share this link with your guests so they can purchase their GA tickets and be linked to your VIP table.",
+    tableCapacity: "Table capacity: {count} guests",
+    doorsAt: "Doors at 9 PM",
+    bottlesIncluded: "Bottles Included",
+    bottles: "{count} bottle(s)",
+    ownPass: "Each guest presents their own pass at entry",
+    guestPassesShare: "Each guest needs their own pass to enter. Share these with your guests or show them from your phone at the door.",
+  },
+  restaurant: {
+    subjectReceived: "Order #{orderNumber} received - Maguey Restaurant",
+    subjectPreparing: "Order #{orderNumber} is being prepared",
+    subjectReady: "Order #{orderNumber} is ready",
+    subjectCancelled: "Order #{orderNumber} was cancelled",
+    greeting: "Hi {name},",
+    received: "We received your order #{orderNumber} and sent it to the kitchen.",
+    preparing: "The kitchen is preparing your order #{orderNumber}.",
+    readyPickup: "Your order #{orderNumber} is ready for pickup at Maguey.",
+    readyDelivery: "Your order #{orderNumber} is ready and on its way.",
+    cancelled: "Your order #{orderNumber} was cancelled. Any payment will be refunded to your card.",
+    yourOrder: "Your Order",
+    total: "Total",
+    trackOrder: "Track Your Order",
+    automated: "This is an automated email. Please do not reply to this message.",
+    sms: "Maguey Restaurant: {message} {url}",
+  },
+  upgrade: {
+    subject: "Your ticket for {eventName} was upgraded to {ticketType}",
+    heading: "Ticket Upgraded",
+    greeting: "Hi {name},",
+    intro: "Your ticket for {eventName} is now {ticketType}.",
+    from: "Previous Ticket Type",
+    to: "New Ticket Type",
+    paid: "Upgrade Paid",
+    newQr: "Your ticket has a new QR code. The old one no longer works, so use the ticket in your account at the door.",
+    viewTicket: "View My Ticket",
+    automated: "This is an automated email. Please do not reply to this message.",
+  },
+  resale: {
+    purchasedSubject: "Your resale ticket for {eventName}",
+    purchasedHeading: "Ticket Purchased",
+    greeting: "Hi {name},",
+    purchasedIntro: "You bought a {ticketType} ticket for {eventName} on resale.",
+    paid: "Paid",
+    purchasedQr: "The ticket is in your account with a new QR code. Show it at the door.",
+    viewTicket: "View My Ticket",
+    soldSubject: "Your ticket for {eventName} sold",
+    soldHeading: "Ticket Sold",
+    soldIntro: "Your {ticketType} ticket for {eventName} sold on resale.",
+    salePrice: "Sale Price",
+    fee: "Resale Fee",
+    proceeds: "You Receive",
+    proceedsRefund: "This amount is being refunded to the card you paid with and can take 5-10 business days to appear.",
+    proceedsCredit: "This amount has been added to your loyalty credits for your next purchase.",
+    soldQr: "Your QR code for this ticket no longer works.",
+    automated: "This is an automated email. Please do not reply to this message.",
+  },
+  vipSplit: {
+    greeting: "Hi {name},",
+    inviteSubject: "{hostName} invited you to split a VIP table for {eventName}",
+    inviteHeading: "Your Share of the Table",
+    inviteIntro: "{hostName} booked Table {tableNumber} for {eventName} and is splitting the bill with you.",
+    yourShare: "Your Share",
+    payBy: "Pay By",
+    inviteNote: "Once you pay, you get your own guest pass for the table.",
+    payShare: "Pay My Share",
+    passSubject: "Your VIP guest pass for {eventName}",
+    passHeading: "You're on the Table",
+    passIntro: "Thanks for paying your share of Table {tableNumber} for {eventName}.",
+    paid: "Paid",
+    passNote: "Show this pass at the VIP entrance. The table is confirmed once everyone has paid or the payment deadline passes.",
+    viewPass: "View My Pass",
+    settledSubject: "Your VIP table for {eventName} is confirmed",
+    settledHeading: "Table Confirmed",
+    collectedIntro: "Everyone has paid their share of Table {tableNumber} for {eventName}.",
+    chargedIntro: "Not every share of Table {tableNumber} for {eventName} was paid by the deadline, so the remaining {amount} was charged to your card.",
+    hostPasses: "Passes for the remaining spots at your table:",
+    viewDashboard: "View Guest List",
+    releasedSubject: "Your VIP table for {eventName} was released",
+    releasedHeading: "Table Released",
+    releasedIntro: "Not every share of Table {tableNumber} for {eventName} was paid by the deadline, so the table was released.",
+    releasedRefund: "Your payment of {amount} for the table is being refunded and can take 5-10 business days to appear.",
+    releasedNoCharge: "You have not been charged.",
+    releasedTicketKept: "Your entry ticket is still valid.",
+    automated: "This is an automated email. Please do not reply to this message.",
+  },
+  vipTab: {
+    greeting: "Hi {name},",
+    receiptSubject: "Your VIP table receipt for {eventName}",
+    receiptHeading: "Table Receipt",
+    receiptIntro: "Thanks for celebrating with us at Table {tableNumber} for {eventName}. Here is your bottle service tab.",
+    orders: "Bottle Orders",
+    minimumSpend: "Table Minimum",
+    minimumBalance: "Minimum Spend Balance",
+    total: "Total",
+    chargedCard: "This amount was charged to the card you booked with.",
+    paidVenue: "This tab was paid at the venue.",
+    nothingOwed: "Nothing was owed on this tab.",
+    automated: "This is an automated email. Please do not reply to this message.",
+  },
+  reschedule: {
+    greeting: "Hi {name},",
+    subject: "{eventName} has moved to a new date",
+    heading: "Event Rescheduled",
+    intro: "{eventName} has moved to a new date. Your tickets carry over to the new date, so there is nothing you need to do to keep them.",
+    previousDate: "Was",
+    newDate: "Now",
+    venueNote: "Note from the venue",
+    refundOffer: "If you can't make the new date, you can ask for a full refund of {amount} until {deadline}.",
+    keepByDefault: "If you don't answer by then, you keep your tickets.",
+    choose: "Keep or Refund",
+    refundedSubject: "Your refund for {eventName}",
+    refundedHeading: "Refund Issued",
+    refundedIntro: "As you asked, your order for {eventName} has been refunded after the date change.",
+    refundedAmount: "Refund",
+    refundedNote: "The refund goes back to the card you paid with and can take 5-10 business days to appear. Your tickets for this event no longer work.",
+    automated: "This is an automated email. Please do not reply to this message.",
+  },
+};
+
+export type EmailCatalog = typeof en;
+
+const es: EmailCatalog = {
+  ticket: {
+    subjectOne: "Tu boleto para {eventName}",
+    subjectMany: "Tus boletos para {eventName}",
+    title: "Tus boletos - {eventName}",
+    paymentSuccessful: "¡Pago exitoso! Tus boletos están confirmados.",
+    greeting: "Hola {name},",
+    intro: "¡Gracias por tu compra! Tus boletos digitales para {eventName} están listos.",
+    ticketType: "Tipo de boleto",
+    ticketHolder: "Titular del boleto",
+    venue: "Lugar",
+    address: "Dirección",
+    price: "Precio",
+    presentQr: "Presenta este código QR en la entrada",
+    qrAlt: "Código QR para {ticketId}",
+    ticketId: "ID del boleto",
+    importantInformation: "Información importante",
+    idRequired: "Se requiere identificación oficial vigente en la entrada",
+    arriveEarly: "Llega 30 minutos antes de la hora del evento",
+    screenshot: "Toma captura o descarga este correo para tenerlo sin conexión",
+    doNotShare: "No compartas tu código QR con nadie",
+    nonRefundable: "Los boletos no son transferibles ni reembolsables",
+    viewMyTickets: "Ver mis boletos",
+    orderId: "ID del pedido",
+    questions: "Si tienes alguna pregunta, contáctanos en {email}",
+    automated: "Este es un correo automático. Por favor no respondas a este mensaje.",
+    textThanks: "¡Gracias por tu compra, {name}!",
+    textConfirmed: "Tus boletos para {eventName} están confirmados.",
+    textTickets: "BOLETOS",
+    textTicket: "Boleto {number}",
+    textEvent: "Evento",
+    textEventId: "ID del evento",
+    textDate: "Fecha",
+    textAt: "{date} a las {time}",
+    textQrCode: "Código QR",
+    textImportant: "INFORMACIÓN IMPORTANTE",
+    textViewOnline: "Ve tus boletos en línea: {url}",
+    orderConfirmedSubject: "Tus boletos de Maguey - Pedido confirmado",
+    ticketHeading: "Boleto {number}: {type}",
+    event: "Evento",
+    date: "Fecha",
+    time: "Hora",
+    presentAtVenue: "Presenta este boleto en el lugar. Tu código QR estará disponible en tu cuenta.",
+    qrInAccount: "Tu código QR estará en el panel de tu cuenta",
+  },
+  vip: {
+    subject: "Mesa VIP confirmada - {eventName}",
+    title: "Reservación de mesa VIP - {eventName}",
+    heading: "RESERVACIÓN DE MESA VIP",
+    subheading: "Tu mesa exclusiva está confirmada",
+    paymentSuccessful: "¡Pago exitoso! Tu mesa VIP está reservada",
+    greeting: "Estimado/a {name},",
+    intro: "¡Gracias por tu reservación de mesa VIP! Tu mesa exclusiva para {eventName} está confirmada.",
+    reservationNumber: "Número de reservación",
+    tierTable: "Mesa {tier}",
+    tierPremium: "Premium",
+    tierStandard: "Estándar",
+    tierRegular: "Regular",
+    event: "Evento",
+    date: "Fecha",
+    time: "Hora",
+    table: "Mesa",
+    defaultTable: "Mesa VIP",
+    location: "Ubicación",
+    defaultLocation: "Sección VIP",
+    guests: "Invitados",
+    people: "{count} personas",
+    bottleService: "Servicio de botella",
+    included: "Incluido",
+    bottleChoice: "Tu elección de botella",
+    totalPaid: "Total pagado",
+    guestPasses: "Pases de entrada para invitados",
+    guestPassesInstruction: "Cada invitado necesita su propio código QR para entrar. Compártelos con tus invitados o muéstralos desde tu teléfono en la puerta.",
+    guestNumber: "Invitado {number}",
+    guestQrAlt: "Código QR del invitado {number}",
+    importantInformation: "Información importante",
+    arriveEarly: "Llega 30 minutos antes para preparar tu mesa y hacer el registro VIP",
+    idRequired: "Se requiere identificación oficial vigente para todos los invitados",
+    ownQr: "Cada invitado escanea su propio código QR al entrar",
+    screenshot: "Toma captura de los códigos QR para tenerlos sin conexión",
+    tableHeld: "Tu mesa se guardará por 1 hora después de abrir las puertas",
+    noRefunds: "Sin reembolsos",
+    noRefundsDescription: "Todas las reservaciones de mesa VIP son finales y no reembolsables.",
+    viewOnline: "Ver reservación en línea",
+    venue: "Lugar",
+    contactPhone: "Teléfono de contacto",
+    questions: "Si tienes alguna pregunta, contáctanos en {email}",
+    automated: "Este es un correo automático. Por favor no respondas a este mensaje.",
+    textConfirmed: "RESERVACIÓN DE MESA VIP CONFIRMADA",
+    textTableConfirmed: "¡Tu mesa VIP para {eventName} está confirmada!",
+    textDetails: "DETALLES DE LA RESERVACIÓN",
+    textGuestPasses: "PASES DE ENTRADA",
+    textImportant: "INFORMACIÓN IMPORTANTE",
+    textNoRefunds: "SIN REEMBOLSOS: Todas las reservaciones de mesa VIP son finales.",
+    textViewOnline: "Ve tu reservación en línea: {url}",
+    textVenue: "LUGAR",
+    tierFrontRow: "Primera fila",
+    presentCode: "Presenta este código en la entrada",
+    scanAtEntry: "Escanea el código QR en la entrada",
+    viewPass: "Ver pase en línea",
+    inviteHeading: "Invita a tus invitados",
+    inviteDescription: "Comparte este enlace con tus invitados para que compren sus boletos GA y queden vinculados a tu mesa VIP.",
+    tableCapacity: "Capacidad de la mesa: {count} invitados",
+    doorsAt: "Puertas a las 9 PM",
+    bottlesIncluded: "Botellas incluidas",
+    bottles: "{count} botella(s)",
+    ownPass: "Cada invitado presenta su propio pase al entrar",
+    guestPassesShare: "Cada invitado necesita su propio pase para entrar. Compártelos con tus invitados o muéstralos desde tu teléfono en la puerta.",
+  },
+  restaurant: {
+    subjectReceived: "Pedido #{orderNumber} recibido - Maguey Restaurant",
+    subjectPreparing: "Tu pedido #{orderNumber} se está preparando",
+    subjectReady: "Tu pedido #{orderNumber} está listo",
+    subjectCancelled: "Tu pedido #{orderNumber} fue cancelado",
+    greeting: "Hola {name},",
+    received: "Recibimos tu pedido #{orderNumber} y lo enviamos a la cocina.",
+    preparing: "La cocina está preparando tu pedido #{orderNumber}.",
+    readyPickup: "Tu pedido #{orderNumber} está listo para recoger en Maguey.",
+    readyDelivery: "Tu pedido #{orderNumber} está listo y va en camino.",
+    cancelled: "Tu pedido #{orderNumber} fue cancelado. Cualquier pago será reembolsado a tu tarjeta.",
+    yourOrder: "Tu pedido",
+    total: "Total",
+    trackOrder: "Sigue tu pedido",
+    automated: "Este es un correo automático. Por favor no respondas a este mensaje.",
+    sms: "Maguey Restaurant: {message} {url}",
+  },
+  upgrade: {
+    subject: "Tu boleto para {eventName} fue mejorado a {ticketType}",
+    heading: "Boleto mejorado",
+    greeting: "Hola {name},",
+    intro: "Tu boleto para {eventName} ahora es {ticketType}.",
+    from: "Tipo de boleto anterior",
+    to: "Nuevo tipo de boleto",
+    paid: "Pago de la mejora",
+    newQr: "Tu boleto tiene un nuevo código QR. El anterior ya no funciona, así que usa el boleto de tu cuenta en la puerta.",
+    viewTicket: "Ver mi boleto",
+    automated: "Este es un correo automático. Por favor no respondas a este mensaje.",
+  },
+  resale: {
+    purchasedSubject: "Tu boleto de reventa para {eventName}",
+    purchasedHeading: "Boleto comprado",
+    greeting: "Hola {name},",
+    purchasedIntro: "Compraste un boleto {ticketType} para {eventName} en reventa.",
+    paid: "Pagado",
+    purchasedQr: "El boleto está en tu cuenta con un nuevo código QR. Muéstralo en la puerta.",
+    viewTicket: "Ver mi boleto",
+    soldSubject: "Tu boleto para {eventName} se vendió",
+    soldHeading: "Boleto vendido",
+    soldIntro: "Tu boleto {ticketType} para {eventName} se vendió en reventa.",
+    salePrice: "Precio de venta",
+    fee: "Comisión de reventa",
+    proceeds: "Recibes",
+    proceedsRefund: "Este monto se reembolsará a la tarjeta con la que pagaste y puede tardar de 5 a 10 días hábiles en aparecer.",
+    proceedsCredit: "Este monto se agregó a tus créditos de lealtad para tu próxima compra.",
+    soldQr: "Tu código QR para este boleto ya no funciona.",
+    automated: "Este es un correo automático. Por favor no respondas a este mensaje.",
+  },
+  vipSplit: {
+    greeting: "Hola {name},",
+    inviteSubject: "{hostName} te invitó a dividir una mesa VIP para {eventName}",
+    inviteHeading: "Tu parte de la mesa",
+    inviteIntro: "{hostName} reservó la Mesa {tableNumber} para {eventName} y está dividiendo la cuenta contigo.",
+    yourShare: "Tu parte",
+    payBy: "Paga antes de",
+    inviteNote: "Cuando pagues, recibirás tu propio pase de invitado para la mesa.",
+    payShare: "Pagar mi parte",
+    passSubject: "Tu pase de invitado VIP para {eventName}",
+    passHeading: "Estás en la mesa",
+    passIntro: "Gracias por pagar tu parte de la Mesa {tableNumber} para {eventName}.",
+    paid: "Pagado",
+    passNote: "Muestra este pase en la entrada VIP. La mesa se confirma cuando todos hayan pagado o pase la fecha límite de pago.",
+    viewPass: "Ver mi pase",
+    settledSubject: "Tu mesa VIP para {eventName} está confirmada",
+    settledHeading: "Mesa confirmada",
+    collectedIntro: "Todos pagaron su parte de la Mesa {tableNumber} para {eventName}.",
+    chargedIntro: "No todas las partes de la Mesa {tableNumber} para {eventName} se pagaron a tiempo, así que el resto de {amount} se cargó a tu tarjeta.",
+    hostPasses: "Pases para los lugares restantes de tu mesa:",
+    viewDashboard: "Ver lista de invitados",
+    releasedSubject: "Tu mesa VIP para {eventName} fue liberada",
+    releasedHeading: "Mesa liberada",
+    releasedIntro: "No todas las partes de la Mesa {tableNumber} para {eventName} se pagaron a tiempo, así que la mesa fue liberada.",
+    releasedRefund: "Tu pago de {amount} por la mesa se está reembolsando y puede tardar de 5 a 10 días hábiles en aparecer.",
+    releasedNoCharge: "No se te ha cobrado nada.",
+    releasedTicketKept: "Tu boleto de entrada sigue siendo válido.",
+    automated: "Este es un correo automático. Por favor no respondas a este mensaje.",
+  },
+  vipTab: {
+    greeting: "Hola {name},",
+    receiptSubject: "Tu recibo de mesa VIP para {eventName}",
+    receiptHeading: "Recibo de la mesa",
+    receiptIntro: "Gracias por celebrar con nosotros en la Mesa {tableNumber} para {eventName}. Aquí está la cuenta de tu servicio de botellas.",
+    orders: "Pedidos de botellas",
+    minimumSpend: "Consumo mínimo de la mesa",
+    minimumBalance: "Saldo del consumo mínimo",
+    total: "Total",
+    chargedCard: "Este monto se cargó a la tarjeta con la que reservaste.",
+    paidVenue: "Esta cuenta se pagó en el lugar.",
+    nothingOwed: "No se debía nada en esta cuenta.",
+    automated: "Este es un correo automático. Por favor no respondas a este mensaje.",
+  },
+  reschedule: {
+    greeting: "Hola {name},",
+    subject: "{eventName} cambió de fecha",
+    heading: "Evento reprogramado",
+    intro: "{eventName} cambió de fecha. Tus boletos siguen siendo válidos para la nueva fecha, así que no tienes que hacer nada para conservarlos.",
+    previousDate: "Antes",
+    newDate: "Ahora",
+    venueNote: "Mensaje del lugar",
+    refundOffer: "Si no puedes asistir en la nueva fecha, puedes pedir el reembolso completo de {amount} hasta el {deadline}.",
+    keepByDefault: "Si no respondes antes de esa fecha, conservas tus boletos.",
+    choose: "Conservar o reembolsar",
+    refundedSubject: "Tu reembolso para {eventName}",
+    refundedHeading: "Reembolso emitido",
+    refundedIntro: "Como lo pediste, tu orden para {eventName} fue reembolsada tras el cambio de fecha.",
+    refundedAmount: "Reembolso",
+    refundedNote: "El reembolso se hace a la tarjeta con la que pagaste y puede tardar de 5 a 10 días hábiles en aparecer. Tus boletos para este evento ya no funcionan.",
+    automated: "Este es un correo automático. Por favor no respondas a este mensaje.",
+  },
+};
+
+export const emailTranslations: Record<Locale, EmailCatalog> = { en, es };
+
+/**
+ * Map any language tag ("es-MX", "ES") to a supported locale, defaulting to English
+ */
+export function resolveLocale(value: string | null | undefined): Locale {
+  const language = (value || "").toLowerCase().split(/[-_]/)[0];
+  return language === "es" ? "es" : DEFAULT_LOCALE;
+}
+
+function lookup(catalog: EmailCatalog, key: string): string | undefined {
+  let value: unknown = catalog;
+  for (const part of key.split(".")) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Returns t(key, params) for one locale, falling back to English and then
+ * the key. "{name}" placeholders are replaced from params.
+ */
+export function emailTranslator(locale: Locale) {
+  return (key: string, params?: Record<string, string | number>): string => {
+    const template = lookup(emailTranslations[locale], key) ?? lookup(emailTranslations[DEFAULT_LOCALE], key) ?? key;
+    if (!params) return template;
+    return template.replace(/\{(\w+)\}/g, (match, name) =>
+      params[name] !== undefined ? String(params[name]) : match
+    );
+  };
+}
+
+export function formatEmailCurrency(amount: number, locale: Locale): string {
+  return new Intl.NumberFormat(INTL_LOCALES[locale], { style: "currency", currency: "USD" }).format(amount);
+}
+
+export function formatEmailDate(
+  value: string,
+  locale: Locale,
+  options: Intl.DateTimeFormatOptions = { weekday: "long", year: "numeric", month: "long", day: "numeric" }
+): string {
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00`) : new Date(value);
+  if (isNaN(date.getTime())) return value;
+  return new Intl.DateTimeFormat(INTL_LOCALES[locale], options).format(date);
+}
@@ -0,0 +1,92 @@
+/**
+ * VIP Bottle Service Tests
+ *
+ * Covers the amount owed against the minimum spend, RPC error mapping and
+ * the localized tab receipt.
+ *
+ * To run: deno test --allow-net --allow-env vip-bottle-service.test.ts
+ */
+
+import {
+  assert,
+  assertEquals,
+} from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  buildTabReceiptEmail,
+  tabAmountDue,
+  toVipTabError,
+} from "./vip-bottle-service.ts";
+
+// ============================================
+// Fixtures
+// ============================================
+
+const RECEIPT = {
+  locale: "en",
+  hostName: "Ana Lopez",
+  eventName: "Reggaeton Night",
+  tableNumber: 7,
+  items: [
+    { name: "Don Julio 1942", quantity: 1, line_total_cents: 65000 },
+    { name: "Red Bull", quantity: 4, line_total_cents: 4000 },
+  ],
+  ordersCents: 69000,
+  minimumSpendCents: 100000,
+  chargedCents: 100000,
+  method: "card" as const,
+};
+
+// ============================================
+// tabAmountDue
+// ============================================
+
+Deno.test("tabAmountDue - tops orders up to the minimum spend", () => {
+  assertEquals(tabAmountDue(69000, 100000), 100000);
+});
+
+Deno.test("tabAmountDue - charges the orders once past the minimum", () => {
+  assertEquals(tabAmountDue(125000, 100000), 125000);
+  assertEquals(tabAmountDue(4000, 0), 4000);
+});
+
+// ============================================
+// toVipTabError
+// ============================================
+
+Deno.test("toVipTabError - maps open orders and settled tabs to 409", () => {
+  assertEquals(toVipTabError("Tab still has 2 order(s) to deliver or cancel")?.status, 409);
+  assertEquals(toVipTabError("Tab already settled")?.status, 409);
+  assertEquals(toVipTabError("Tab is already being settled")?.status, 409);
+});
+
+Deno.test("toVipTabError - leaves unexpected errors alone", () => {
+  assertEquals(toVipTabError("connection reset"), null);
+});
+
+// ============================================
+// buildTabReceiptEmail
+// ============================================
+
+Deno.test("buildTabReceiptEmail - lists the orders and the minimum spend balance", () => {
+  const { subject, html } = buildTabReceiptEmail(RECEIPT);
+  assertEquals(subject, "Your VIP table receipt for Reggaeton Night");
+  assert(html.includes("Hi Ana,"));
+  assert(html.includes("1 × Don Julio 1942"));
+  assert(html.includes("Minimum Spend Balance"));
+  assert(html.includes("$310.00"));
+  assert(html.includes("$1,000.00"));
+  assert(html.includes("charged to the card you booked with"));
+});
+
+Deno.test("buildTabReceiptEmail - no balance line past the minimum, paid at the venue", () => {
+  const { html } = buildTabReceiptEmail({ ...RECEIPT, minimumSpendCents: 50000, chargedCents: 69000, method: "venue" });
+  assert(!html.includes("Minimum Spend Balance"));
+  assert(html.includes("paid at the venue"));
+});
+
+Deno.test("buildTabReceiptEmail - is localized", () => {
+  const { subject, html } = buildTabReceiptEmail({ ...RECEIPT, locale: "es-MX" });
+  assertEquals(subject, "Tu recibo de mesa VIP para Reggaeton Night");
+  assert(html.includes('lang="es"'));
+  assert(html.includes("Hola Ana,"));
+});
@@ -0,0 +1,164 @@
+/**
+ * VIP Bottle Service
+ *
+ * Shared by settle-vip-tab (closing a table's tab at the end of the night).
+ *
+ * Lifecycle (see 20260414000000_vip_bottle_service.sql):
+ *   place_vip_bottle_order    -> opens the tab with the table's minimum spend
+ *   begin_vip_tab_settlement  -> tab settling, no more orders; returns the
+ *                                larger of delivered orders and the minimum
+ *   finish_vip_tab_settlement -> settled (card charged, paid at the venue or
+ *                                nothing owed) or failed (card declined)
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  emailTranslator,
+  formatEmailCurrency,
+  resolveLocale,
+} from "./translations.ts";
+
+export type TabSettlementMethod = "card" | "venue";
+
+/** Row returned by begin_vip_tab_settlement */
+export interface VipTabSettlement {
+  tab_id: string;
+  reservation_id: string;
+  orders_cents: number;
+  minimum_spend_cents: number;
+  amount_due_cents: number;
+  stripe_customer_id: string | null;
+  stripe_payment_method_id: string | null;
+  purchaser_email: string;
+  purchaser_name: string | null;
+  locale: string | null;
+  table_number: number | null;
+  event_name: string;
+}
+
+/** A delivered line on the receipt */
+export interface TabReceiptItem {
+  name: string;
+  quantity: number;
+  line_total_cents: number;
+}
+
+/** Validation failure that should be returned to the caller as-is */
+export class VipTabError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "VipTabError";
+  }
+}
+
+/**
+ * Map a tab RPC error to a caller-facing error with an HTTP status.
+ * Returns null for unexpected errors, which should surface as a 500.
+ */
+export function toVipTabError(message: string): VipTabError | null {
+  if (message.includes("Reservation not found")) {
+    return new VipTabError("Reservation not found", 404);
+  }
+  if (message.includes("already settled")) {
+    return new VipTabError("This tab has already been settled", 409);
+  }
+  if (message.includes("already being settled")) {
+    return new VipTabError("This tab is already being settled", 409);
+  }
+  if (message.includes("to deliver or cancel")) {
+    return new VipTabError("Deliver or cancel the table's open orders before settling", 409);
+  }
+  return null;
+}
+
+/** What the table owes: its delivered orders, topped up to the minimum spend */
+export function tabAmountDue(ordersCents: number, minimumSpendCents: number): number {
+  return Math.max(ordersCents, minimumSpendCents, 0);
+}
+
+/**
+ * Localized receipt sent to the host once the tab is settled
+ */
+export function buildTabReceiptEmail(params: {
+  locale: string | null;
+  hostName: string | null;
+  eventName: string;
+  tableNumber: number | null;
+  items: TabReceiptItem[];
+  ordersCents: number;
+  minimumSpendCents: number;
+  chargedCents: number;
+  method: TabSettlementMethod;
+}): { subject: string; html: string } {
+  const locale = resolveLocale(params.locale);
+  const t = emailTranslator(locale);
+  const firstName = (params.hostName || "").split(" ")[0] || "Guest";
+  const subject = t("vipTab.receiptSubject", { eventName: params.eventName });
+  const money = (cents: number) => formatEmailCurrency(cents / 100, locale);
+  const row = (label: string, amount: string, bold = false) => `
+      <tr${bold ? ' style="font-weight: 600;"' : ""}>
+        <td style="padding: 6px 0;">${label}</td>
+        <td style="padding: 6px 0; text-align: right;">${amount}</td>
+      </tr>`;
+
+  const topUp = params.minimumSpendCents - params.ordersCents;
+  const note = params.chargedCents === 0
+    ? t("vipTab.nothingOwed")
+    : params.method === "card" ? t("vipTab.chargedCard") : t("vipTab.paidVenue");
+
+  const body = `
+    <p>${t("vipTab.greeting", { name: firstName })}</p>
+    <p>${t("vipTab.receiptIntro", { tableNumber: params.tableNumber ?? "", eventName: params.eventName })}</p>
+    <table style="width: 100%; border-collapse: collapse; margin: 20px 0;">
+      ${params.items.map((item) => row(`${item.quantity} × ${item.name}`, money(item.line_total_cents))).join("")}
+      ${row(t("vipTab.orders"), money(params.ordersCents), true)}
+      ${params.minimumSpendCents > 0 ? row(t("vipTab.minimumSpend"), money(params.minimumSpendCents)) : ""}
+      ${topUp > 0 ? row(t("vipTab.minimumBalance"), money(topUp)) : ""}
+      ${row(t("vipTab.total"), money(params.chargedCents), true)}
+    </table>
+    <p>${note}</p>`;
+
+  const html = `
+<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+  <meta charset="UTF-8">
+  <title>${subject}</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; background: #f5f5f5;">
+  <div style="background: white; border-radius: 8px; padding: 30px; box-shadow: 0 2px 4px rgba(0,0,0,0.1);">
+    <div style="text-align: center; margin-bottom: 30px; border-bottom: 2px solid #e0e0e0; padding-bottom: 20px;">
+      <h1 style="color: #8B0000; margin: 0;">MAGUEY</h1>
+      <h2 style="margin: 10px 0 0;">${t("vipTab.receiptHeading")}</h2>
+    </div>
+    ${body}
+    <p style="margin-top: 30px; font-size: 12px; color: #999; text-align: center;">${t("vipTab.automated")}</p>
+  </div>
+</body>
+</html>
+  `.trim();
+
+  return { subject, html };
+}
+
+export async function queueTabReceiptEmail(
+  supabase: SupabaseClient,
+  recipient: string,
+  email: { subject: string; html: string },
+  tabId: string
+): Promise<void> {
+  const { error } = await supabase.from("email_queue").insert({
+    email_type: "vip_tab_receipt",
+    recipient_email: recipient,
+    subject: email.subject,
+    html_body: email.html,
+    related_id: tabId,
+    status: "pending",
+    attempt_count: 0,
+    max_attempts: 5,
+    next_retry_at: new Date().toISOString(),
+  });
+  if (error) {
+    console.error("[vip-bottle-service] Failed to queue receipt email:", error.message);
+  }
+}
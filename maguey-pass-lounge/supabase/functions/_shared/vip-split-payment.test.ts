@@ -0,0 +1,214 @@
+/**
+ * VIP Split Payment Tests
+ *
+ * Covers share amounts, invitee validation, RPC error mapping and the
+ * localized invite, pass, settled and released emails.
+ *
+ * To run: deno test --allow-net --allow-env vip-split-payment.test.ts
+ */
+
+import {
+  assert,
+  assertEquals,
+  assertThrows,
+} from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  buildSplitInviteEmail,
+  buildSplitPassEmail,
+  buildSplitReleasedEmail,
+  buildSplitSettledEmail,
+  normalizeInvitees,
+  splitTableAmount,
+  toVipSplitError,
+  VipSplitError,
+  type RecordedSharePayment,
+} from "./vip-split-payment.ts";
+
+// ============================================
+// Fixtures
+// ============================================
+
+const PAYMENT: RecordedSharePayment = {
+  share_id: "share-2",
+  reservation_id: "reservation-1",
+  is_host: false,
+  payer_email: "luis@example.com",
+  payer_name: "Luis Garcia",
+  amount_cents: 16667,
+  host_email: "ana@example.com",
+  host_name: "Ana Lopez",
+  event_id: "event-1",
+  event_name: "Reggaeton Night",
+  event_date: "2026-05-01",
+  table_number: 7,
+  locale: "en",
+  split_deadline: "2026-04-29T22:00:00Z",
+  pass_token: "VIP-PASS-ABCD1234",
+  guest_number: 2,
+  confirmed: false,
+  invite_code: null,
+  host_passes: null,
+};
+
+// ============================================
+// splitTableAmount
+// ============================================
+
+Deno.test("splitTableAmount - splits evenly", () => {
+  assertEquals(splitTableAmount(60000, 4), [15000, 15000, 15000, 15000]);
+});
+
+Deno.test("splitTableAmount - gives leftover cents to the host", () => {
+  const shares = splitTableAmount(50000, 3);
+  assertEquals(shares, [16668, 16666, 16666]);
+  assertEquals(shares.reduce((sum, cents) => sum + cents, 0), 50000);
+});
+
+Deno.test("splitTableAmount - no payers means no shares", () => {
+  assertEquals(splitTableAmount(50000, 0), []);
+});
+
+// ============================================
+// normalizeInvitees
+// ============================================
+
+Deno.test("normalizeInvitees - trims names and emails", () => {
+  assertEquals(
+    normalizeInvitees([{ email: " luis@example.com ", name: " Luis " }], "ana@example.com", 5),
+    [{ email: "luis@example.com", name: "Luis" }]
+  );
+});
+
+Deno.test("normalizeInvitees - rejects an empty list", () => {
+  assertThrows(() => normalizeInvitees([], "ana@example.com", 5), VipSplitError, "at least one guest");
+});
+
+Deno.test("normalizeInvitees - rejects more invitees than the table holds", () => {
+  const invitees = [
+    { email: "a@example.com", name: "" },
+    { email: "b@example.com", name: "" },
+  ];
+  assertThrows(() => normalizeInvitees(invitees, "ana@example.com", 1), VipSplitError, "at most 1");
+});
+
+Deno.test("normalizeInvitees - rejects the host and duplicates", () => {
+  assertThrows(
+    () => normalizeInvitees([{ email: "ANA@example.com", name: "" }], "ana@example.com", 5),
+    VipSplitError,
+    "invite yourself"
+  );
+  assertThrows(
+    () => normalizeInvitees([{ email: "b@example.com" }, { email: "B@example.com" }], "ana@example.com", 5),
+    VipSplitError,
+    "more than once"
+  );
+});
+
+Deno.test("normalizeInvitees - rejects invalid emails", () => {
+  assertThrows(() => normalizeInvitees([{ email: "luis" }], "ana@example.com", 5), VipSplitError, "Invalid email");
+});
+
+// ============================================
+// toVipSplitError
+// ============================================
+
+Deno.test("toVipSplitError - maps a late booking to 409", () => {
+  assertEquals(toVipSplitError("Split payment is not available this close to the event")?.status, 409);
+});
+
+Deno.test("toVipSplitError - maps a settled share to 409", () => {
+  assertEquals(toVipSplitError("Share is no longer payable (cancelled)")?.status, 409);
+  assertEquals(toVipSplitError("Reservation is no longer collecting payments (cancelled)")?.status, 409);
+});
+
+Deno.test("toVipSplitError - leaves unexpected errors alone", () => {
+  assertEquals(toVipSplitError("connection reset"), null);
+});
+
+// ============================================
+// Emails
+// ============================================
+
+Deno.test("buildSplitInviteEmail - includes the share, host and pay link", () => {
+  const { subject, html } = buildSplitInviteEmail({
+    locale: "en",
+    payerName: "Luis Garcia",
+    hostName: "Ana Lopez",
+    eventName: "Reggaeton Night",
+    tableNumber: 7,
+    amountCents: 16667,
+    deadline: PAYMENT.split_deadline,
+    payUrl: "https://tickets.example.com/vip-share/abc123",
+  });
+  assertEquals(subject, "Ana Lopez invited you to split a VIP table for Reggaeton Night");
+  assert(html.includes("Hi Luis,"));
+  assert(html.includes("Table 7"));
+  assert(html.includes("$166.67"));
+  assert(html.includes("https://tickets.example.com/vip-share/abc123"));
+});
+
+Deno.test("buildSplitPassEmail - links the payer's pass", () => {
+  const { subject, html } = buildSplitPassEmail(PAYMENT);
+  assertEquals(subject, "Your VIP guest pass for Reggaeton Night");
+  assert(html.includes("/vip-pass/VIP-PASS-ABCD1234"));
+});
+
+Deno.test("buildSplitPassEmail - is localized", () => {
+  const { subject, html } = buildSplitPassEmail({ ...PAYMENT, locale: "es-MX" });
+  assertEquals(subject, "Tu pase de invitado VIP para Reggaeton Night");
+  assert(html.includes('lang="es"'));
+  assert(html.includes("Hola Luis,"));
+});
+
+Deno.test("buildSplitSettledEmail - says what was charged and lists the host's passes", () => {
+  const { html } = buildSplitSettledEmail({
+    locale: "en",
+    hostName: "Ana Lopez",
+    reservationId: "reservation-1",
+    eventName: "Reggaeton Night",
+    tableNumber: 7,
+    chargedCents: 33333,
+    hostPasses: [{ guest_number: 3, qr_code_token: "VIP-PASS-HOST0003" }],
+  });
+  assert(html.includes("the remaining $333.33 was charged"));
+  assert(html.includes("/vip-pass/VIP-PASS-HOST0003"));
+  assert(html.includes("/vip/dashboard/reservation-1"));
+});
+
+Deno.test("buildSplitSettledEmail - everyone paid", () => {
+  const { html } = buildSplitSettledEmail({
+    locale: "en",
+    hostName: "Ana Lopez",
+    reservationId: "reservation-1",
+    eventName: "Reggaeton Night",
+    tableNumber: 7,
+    chargedCents: null,
+    hostPasses: [],
+  });
+  assert(html.includes("Everyone has paid"));
+  assert(!html.includes("charged"));
+});
+
+Deno.test("buildSplitReleasedEmail - refund for payers, no charge for the rest", () => {
+  const host = buildSplitReleasedEmail({
+    locale: "en",
+    recipientName: "Ana Lopez",
+    isHost: true,
+    eventName: "Reggaeton Night",
+    tableNumber: 7,
+    refundCents: 16668,
+  });
+  assert(host.html.includes("$166.68"));
+  assert(host.html.includes("entry ticket is still valid"));
+
+  const unpaid = buildSplitReleasedEmail({
+    locale: "en",
+    recipientName: "Luis Garcia",
+    isHost: false,
+    eventName: "Reggaeton Night",
+    tableNumber: 7,
+    refundCents: null,
+  });
+  assert(unpaid.html.includes("You have not been charged."));
+  assert(!unpaid.html.includes("entry ticket"));
+});
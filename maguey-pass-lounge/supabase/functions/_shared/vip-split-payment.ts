@@ -0,0 +1,471 @@
+/**
+ * VIP Split Payment
+ *
+ * Shared by create-vip-payment-intent (setting up the split),
+ * vip-split-payment (invitee checkout), stripe-webhook (recording paid
+ * shares) and settle-vip-splits (the deadline worker).
+ *
+ * Lifecycle (see 20260413000000_vip_split_payment.sql):
+ *   create_vip_payment_shares -> reservation pending, one share per payer
+ *   record_vip_share_payment  -> share paid, payer gets a guest pass;
+ *                                the last share confirms the table
+ *   settle_vip_split          -> at the deadline: host_charged (remainder on
+ *                                the host's saved card) or released (table
+ *                                freed, paid shares refunded)
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import Stripe from "https://esm.sh/stripe@12.0.0?target=deno";
+import {
+  emailTranslator,
+  formatEmailCurrency,
+  formatEmailDate,
+  resolveLocale,
+} from "./translations.ts";
+import { getTicketSiteUrl } from "./ticket-upgrades.ts";
+
+export type SplitFallback = "charge_host" | "release";
+
+export interface SplitInvitee {
+  email: string;
+  name: string;
+}
+
+/** Row returned by record_vip_share_payment */
+export interface RecordedSharePayment {
+  share_id: string;
+  reservation_id: string;
+  is_host: boolean;
+  payer_email: string;
+  payer_name: string | null;
+  amount_cents: number;
+  host_email: string;
+  host_name: string | null;
+  event_id: string;
+  event_name: string;
+  event_date: string;
+  table_number: number | null;
+  locale: string | null;
+  split_deadline: string;
+  pass_token: string;
+  guest_number: number;
+  /** True when this payment was the last share and the table is confirmed */
+  confirmed: boolean;
+  invite_code: string | null;
+  host_passes: Array<{ guest_number: number; qr_code_token: string }> | null;
+}
+
+/** Row returned by claim_due_vip_splits */
+export interface DueVipSplit {
+  reservation_id: string;
+  split_fallback: SplitFallback;
+  stripe_customer_id: string | null;
+  stripe_payment_method_id: string | null;
+  outstanding_cents: number;
+  host_email: string;
+  host_name: string | null;
+  event_id: string;
+  event_name: string;
+  event_date: string;
+  table_number: number | null;
+  locale: string | null;
+}
+
+/** A paid share returned by settle_vip_split when the table is released */
+export interface SplitRefund {
+  share_id: string;
+  is_host: boolean;
+  payer_email: string;
+  payer_name: string | null;
+  amount_cents: number;
+  payment_intent_id: string | null;
+}
+
+/** Validation failure that should be returned to the caller as-is */
+export class VipSplitError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "VipSplitError";
+  }
+}
+
+/**
+ * Map a split RPC error to a caller-facing error with an HTTP status.
+ * Returns null for unexpected errors, which should surface as a 500.
+ */
+export function toVipSplitError(message: string): VipSplitError | null {
+  if (message.includes("this close to the event")) {
+    return new VipSplitError("Split payment is not available this close to the event", 409);
+  }
+  if (message.includes("at least one invitee")) {
+    return new VipSplitError("Add at least one guest to split with", 400);
+  }
+  if (message.includes("host cannot also be an invitee")) {
+    return new VipSplitError("You can't invite yourself to split the table", 400);
+  }
+  if (message.includes("idx_vip_payment_shares_payer") || message.includes("duplicate key")) {
+    return new VipSplitError("Each guest can only be invited once", 400);
+  }
+  if (message.includes("no longer payable") || message.includes("no longer collecting")) {
+    return new VipSplitError("This share can no longer be paid", 409);
+  }
+  return null;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Trim and check the host's invitees. Throws VipSplitError for a bad list;
+ * at most maxInvitees (table capacity minus the host).
+ */
+export function normalizeInvitees(
+  invitees: unknown,
+  hostEmail: string,
+  maxInvitees: number
+): SplitInvitee[] {
+  if (!Array.isArray(invitees) || invitees.length === 0) {
+    throw new VipSplitError("Add at least one guest to split with");
+  }
+  if (invitees.length > maxInvitees) {
+    throw new VipSplitError(`This table can be split with at most ${maxInvitees} guests`);
+  }
+
+  const host = hostEmail.trim().toLowerCase();
+  const seen = new Set<string>();
+  return invitees.map((invitee) => {
+    const email = String(invitee?.email || "").trim();
+    const name = String(invitee?.name || "").trim();
+    if (!EMAIL_PATTERN.test(email)) {
+      throw new VipSplitError(`Invalid email address: ${email || "(blank)"}`);
+    }
+    if (email.toLowerCase() === host) {
+      throw new VipSplitError("You can't invite yourself to split the table");
+    }
+    if (seen.has(email.toLowerCase())) {
+      throw new VipSplitError(`${email} is listed more than once`);
+    }
+    seen.add(email.toLowerCase());
+    return { email, name };
+  });
+}
+
+/**
+ * Split the table price evenly between the host and invitees. Cents that
+ * don't divide evenly go to the host, so the shares always add up.
+ * Returns [hostShare, ...inviteeShares].
+ */
+export function splitTableAmount(totalCents: number, payers: number): number[] {
+  if (payers < 1) return [];
+  const base = Math.floor(totalCents / payers);
+  const remainder = totalCents - base * payers;
+  return Array.from({ length: payers }, (_, i) => (i === 0 ? base + remainder : base));
+}
+
+/** Link an invitee uses to pay their share */
+export function sharePayUrl(payToken: string): string {
+  return `${getTicketSiteUrl()}/vip-share/${payToken}`;
+}
+
+function passUrl(passToken: string): string {
+  return `${getTicketSiteUrl()}/vip-pass/${passToken}`;
+}
+
+function emailShell(locale: string, subject: string, heading: string, body: string, automated: string): string {
+  return `
+<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+  <meta charset="UTF-8">
+  <title>${subject}</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; background: #f5f5f5;">
+  <div style="background: white; border-radius: 8px; padding: 30px; box-shadow: 0 2px 4px rgba(0,0,0,0.1);">
+    <div style="text-align: center; margin-bottom: 30px; border-bottom: 2px solid #e0e0e0; padding-bottom: 20px;">
+      <h1 style="color: #8B0000; margin: 0;">MAGUEY</h1>
+      <h2 style="margin: 10px 0 0;">${heading}</h2>
+    </div>
+    ${body}
+    <p style="margin-top: 30px; font-size: 12px; color: #999; text-align: center;">${automated}</p>
+  </div>
+</body>
+</html>
+  `.trim();
+}
+
+function button(href: string, label: string): string {
+  return `
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${href}" style="display: inline-block; padding: 12px 24px; background: #8B0000; color: white; text-decoration: none; border-radius: 6px; font-weight: 600;">
+        ${label}
+      </a>
+    </div>`;
+}
+
+/**
+ * Localized email asking an invitee to pay their share
+ */
+export function buildSplitInviteEmail(params: {
+  locale: string | null;
+  payerName: string | null;
+  hostName: string;
+  eventName: string;
+  tableNumber: number | null;
+  amountCents: number;
+  deadline: string;
+  payUrl: string;
+}): { subject: string; html: string } {
+  const locale = resolveLocale(params.locale);
+  const t = emailTranslator(locale);
+  const firstName = (params.payerName || "").split(" ")[0] || "Guest";
+  const subject = t("vipSplit.inviteSubject", { hostName: params.hostName, eventName: params.eventName });
+  const deadline = formatEmailDate(params.deadline, locale, {
+    weekday: "long", month: "long", day: "numeric", hour: "numeric", minute: "2-digit",
+  });
+
+  const body = `
+    <p>${t("vipSplit.greeting", { name: firstName })}</p>
+    <p style="font-size: 18px; font-weight: 600;">${t("vipSplit.inviteIntro", {
+      hostName: params.hostName,
+      tableNumber: params.tableNumber ?? "",
+      eventName: params.eventName,
+    })}</p>
+    <p><strong>${t("vipSplit.yourShare")}:</strong> ${formatEmailCurrency(params.amountCents / 100, locale)}</p>
+    <p><strong>${t("vipSplit.payBy")}:</strong> ${deadline}</p>
+    <p>${t("vipSplit.inviteNote")}</p>
+    ${button(params.payUrl, t("vipSplit.payShare"))}`;
+
+  return { subject, html: emailShell(locale, subject, t("vipSplit.inviteHeading"), body, t("vipSplit.automated")) };
+}
+
+/**
+ * Localized email with a payer's guest pass once their share is paid
+ */
+export function buildSplitPassEmail(payment: RecordedSharePayment): { subject: string; html: string } {
+  const locale = resolveLocale(payment.locale);
+  const t = emailTranslator(locale);
+  const firstName = (payment.payer_name || "").split(" ")[0] || "Guest";
+  const subject = t("vipSplit.passSubject", { eventName: payment.event_name });
+
+  const body = `
+    <p>${t("vipSplit.greeting", { name: firstName })}</p>
+    <p style="font-size: 18px; font-weight: 600;">${t("vipSplit.passIntro", {
+      tableNumber: payment.table_number ?? "",
+      eventName: payment.event_name,
+    })}</p>
+    <p><strong>${t("vipSplit.paid")}:</strong> ${formatEmailCurrency(payment.amount_cents / 100, locale)}</p>
+    <p>${t("vipSplit.passNote")}</p>
+    ${button(passUrl(payment.pass_token), t("vipSplit.viewPass"))}`;
+
+  return { subject, html: emailShell(locale, subject, t("vipSplit.passHeading"), body, t("vipSplit.automated")) };
+}
+
+/**
+ * Localized email to the host once the table is confirmed, either because
+ * everyone paid or because the remainder was charged to their card
+ */
+export function buildSplitSettledEmail(params: {
+  locale: string | null;
+  hostName: string | null;
+  reservationId: string;
+  eventName: string;
+  tableNumber: number | null;
+  chargedCents: number | null;
+  hostPasses: Array<{ guest_number: number; qr_code_token: string }>;
+}): { subject: string; html: string } {
+  const locale = resolveLocale(params.locale);
+  const t = emailTranslator(locale);
+  const firstName = (params.hostName || "").split(" ")[0] || "Guest";
+  const subject = t("vipSplit.settledSubject", { eventName: params.eventName });
+  const tableNumber = params.tableNumber ?? "";
+
+  const intro = params.chargedCents === null
+    ? t("vipSplit.collectedIntro", { tableNumber, eventName: params.eventName })
+    : t("vipSplit.chargedIntro", {
+      tableNumber,
+      eventName: params.eventName,
+      amount: formatEmailCurrency(params.chargedCents / 100, locale),
+    });
+
+  const passes = params.hostPasses.length === 0 ? "" : `
+    <p>${t("vipSplit.hostPasses")}</p>
+    <ul>
+      ${params.hostPasses.map((pass) => `
+      <li><a href="${passUrl(pass.qr_code_token)}">${t("vip.guestNumber", { number: pass.guest_number })}</a></li>`).join("")}
+    </ul>`;
+
+  const body = `
+    <p>${t("vipSplit.greeting", { name: firstName })}</p>
+    <p style="font-size: 18px; font-weight: 600;">${intro}</p>
+    ${passes}
+    ${button(`${getTicketSiteUrl()}/vip/dashboard/${params.reservationId}`, t("vipSplit.viewDashboard"))}`;
+
+  return { subject, html: emailShell(locale, subject, t("vipSplit.settledHeading"), body, t("vipSplit.automated")) };
+}
+
+/**
+ * Localized email to the host and each invitee when the table is released.
+ * refundCents is what this recipient is getting back; null if they never paid.
+ */
+export function buildSplitReleasedEmail(params: {
+  locale: string | null;
+  recipientName: string | null;
+  isHost: boolean;
+  eventName: string;
+  tableNumber: number | null;
+  refundCents: number | null;
+}): { subject: string; html: string } {
+  const locale = resolveLocale(params.locale);
+  const t = emailTranslator(locale);
+  const firstName = (params.recipientName || "").split(" ")[0] || "Guest";
+  const subject = t("vipSplit.releasedSubject", { eventName: params.eventName });
+
+  const refund = params.refundCents === null
+    ? t("vipSplit.releasedNoCharge")
+    : t("vipSplit.releasedRefund", { amount: formatEmailCurrency(params.refundCents / 100, locale) });
+
+  const body = `
+    <p>${t("vipSplit.greeting", { name: firstName })}</p>
+    <p style="font-size: 18px; font-weight: 600;">${t("vipSplit.releasedIntro", {
+      tableNumber: params.tableNumber ?? "",
+      eventName: params.eventName,
+    })}</p>
+    <p>${refund}</p>
+    ${params.isHost ? `<p>${t("vipSplit.releasedTicketKept")}</p>` : ""}`;
+
+  return { subject, html: emailShell(locale, subject, t("vipSplit.releasedHeading"), body, t("vipSplit.automated")) };
+}
+
+export async function queueSplitEmail(
+  supabase: SupabaseClient,
+  emailType: "vip_split_invite" | "vip_split_pass" | "vip_split_settled" | "vip_split_released",
+  recipient: string,
+  email: { subject: string; html: string },
+  relatedId: string
+): Promise<void> {
+  const { error } = await supabase.from("email_queue").insert({
+    email_type: emailType,
+    recipient_email: recipient,
+    subject: email.subject,
+    html_body: email.html,
+    related_id: relatedId,
+    status: "pending",
+    attempt_count: 0,
+    max_attempts: 5,
+    next_retry_at: new Date().toISOString(),
+  });
+  if (error) {
+    console.error(`[vip-split-payment] Failed to queue ${emailType} email:`, error.message);
+  }
+}
+
+/**
+ * Record a paid share. Returns null when the payment was already recorded
+ * (Stripe retries the webhook); any other failure is rethrown for the
+ * caller to refund the payer.
+ */
+export async function recordVipSharePayment(
+  supabase: SupabaseClient,
+  shareId: string,
+  paymentIntentId: string | null
+): Promise<RecordedSharePayment | null> {
+  const { data, error } = await supabase.rpc("record_vip_share_payment", {
+    p_share_id: shareId,
+    p_payment_intent_id: paymentIntentId,
+  });
+
+  if (error?.message.includes("already processed")) {
+    return null;
+  }
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data as RecordedSharePayment;
+}
+
+/**
+ * Email the payer their pass and, when this was the last share, tell the
+ * host the table is confirmed. Never throws — the payment is recorded.
+ */
+export async function announceSharePayment(
+  supabase: SupabaseClient,
+  payment: RecordedSharePayment
+): Promise<void> {
+  await queueSplitEmail(supabase, "vip_split_pass", payment.payer_email, buildSplitPassEmail(payment), payment.share_id);
+
+  if (payment.confirmed) {
+    await queueSplitEmail(
+      supabase,
+      "vip_split_settled",
+      payment.host_email,
+      buildSplitSettledEmail({
+        locale: payment.locale,
+        hostName: payment.host_name,
+        reservationId: payment.reservation_id,
+        eventName: payment.event_name,
+        tableNumber: payment.table_number,
+        chargedCents: null,
+        hostPasses: payment.host_passes || [],
+      }),
+      payment.reservation_id
+    );
+  }
+}
+
+/**
+ * Send every invitee with an unpaid share their pay link. Called once the
+ * host's own share is paid.
+ */
+export async function sendSplitInvites(
+  supabase: SupabaseClient,
+  hostPayment: RecordedSharePayment
+): Promise<number> {
+  const { data: shares, error } = await supabase
+    .from("vip_payment_shares")
+    .select("id, payer_email, payer_name, amount_cents, pay_token")
+    .eq("reservation_id", hostPayment.reservation_id)
+    .eq("is_host", false)
+    .eq("status", "pending");
+
+  if (error) {
+    console.error("[vip-split-payment] Failed to load invitee shares:", error.message);
+    return 0;
+  }
+
+  for (const share of shares || []) {
+    await queueSplitEmail(
+      supabase,
+      "vip_split_invite",
+      share.payer_email,
+      buildSplitInviteEmail({
+        locale: hostPayment.locale,
+        payerName: share.payer_name,
+        hostName: hostPayment.host_name || hostPayment.host_email,
+        eventName: hostPayment.event_name,
+        tableNumber: hostPayment.table_number,
+        amountCents: share.amount_cents,
+        deadline: hostPayment.split_deadline,
+        payUrl: sharePayUrl(share.pay_token),
+      }),
+      share.id
+    );
+  }
+  return shares?.length || 0;
+}
+
+/**
+ * Refund a share payment that could not be recorded (paid twice, or after
+ * the table was settled). Returns false when the refund failed and has to
+ * be issued from Stripe by hand.
+ */
+export async function refundSharePayment(paymentIntentId: string): Promise<boolean> {
+  const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") || "", {
+    apiVersion: "2023-10-16",
+  });
+  try {
+    await stripe.refunds.create({ payment_intent: paymentIntentId });
+    return true;
+  } catch (refundError) {
+    console.error("[vip-split-payment] Refund failed:", refundError);
+    return false;
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * Wallet pass data loading
+ *
+ * Resolves a GA ticket or VIP guest pass into WalletPassData and keeps the
+ * wallet_passes registry in sync. Shared by wallet-pass (issuing + PassKit
+ * web service) and process-wallet-updates (push on transfer / refund).
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { WalletPassData, WalletPassKind } from "./wallet-pass.ts";
+
+export interface WalletPassRow {
+  id: string;
+  serial_number: string;
+  pass_kind: WalletPassKind;
+  ticket_id: string | null;
+  vip_guest_pass_id: string | null;
+  authentication_token: string;
+  holder_email: string | null;
+  voided: boolean;
+  updated_at: string;
+}
+
+export interface WalletPassSource {
+  rowId: string;
+  holderEmail: string | null;
+  /** The ticket's QR value, which the holder sends to prove they have it */
+  qrCode?: string | null;
+  voided: boolean;
+  data: Omit<WalletPassData, "serialNumber" | "voided">;
+}
+
+// Mirrors DEFAULT_TIERS in the scanner's tier-service.ts
+const DEFAULT_TIER_COLORS: Record<string, string> = {
+  general: "#6b7280",
+  vip: "#fbbf24",
+  premium: "#a855f7",
+  backstage: "#ef4444",
+};
+
+const VOID_TICKET_STATUSES = ["refunded", "void", "cancelled"];
+
+async function getTierColor(supabase: SupabaseClient, tierName: string): Promise<string> {
+  const normalized = tierName.toLowerCase();
+  const { data } = await supabase
+    .from("ticket_tiers")
+    .select("color")
+    .eq("name", normalized)
+    .eq("is_active", true)
+    .maybeSingle();
+
+  return data?.color || DEFAULT_TIER_COLORS[normalized] || DEFAULT_TIER_COLORS.general;
+}
+
+function getEventStartsAt(eventDate: string, eventTime: string | null): string {
+  const dateStr = eventTime ? `${eventDate}T${eventTime}` : `${eventDate}T00:00:00`;
+  const parsed = new Date(dateStr);
+  return Number.isNaN(parsed.getTime()) ? new Date(eventDate).toISOString() : parsed.toISOString();
+}
+
+/**
+ * Load a GA ticket by its public ticket_id (as used in /ticket/:ticketId)
+ * or by row id.
+ */
+export async function loadTicketPassSource(
+  supabase: SupabaseClient,
+  lookup: { ticketId?: string; id?: string }
+): Promise<WalletPassSource | null> {
+  let query = supabase
+    .from("tickets")
+    .select(`
+      id, ticket_id, event_id, status, tier, attendee_name, attendee_email,
+      qr_code_value, ticket_type_name,
+      events ( name, event_date, event_time, venue_name, venue_address ),
+      ticket_types ( name )
+    `);
+
+  query = lookup.id ? query.eq("id", lookup.id) : query.eq("ticket_id", lookup.ticketId);
+  const { data: ticket, error } = await query.maybeSingle();
+  if (error || !ticket) return null;
+
+  const event = (ticket.events || {}) as Record<string, string | null>;
+  const ticketType = (ticket.ticket_types || {}) as Record<string, string | null>;
+  const tierName = ticket.tier || "general";
+
+  return {
+    rowId: ticket.id,
+    holderEmail: ticket.attendee_email,
+    qrCode: ticket.qr_code_value,
+    voided: VOID_TICKET_STATUSES.includes(ticket.status),
+    data: {
+      kind: "ticket",
+      eventId: ticket.event_id,
+      eventName: event.name || "Maguey Event",
+      eventStartsAt: getEventStartsAt(event.event_date || "", event.event_time),
+      venueName: event.venue_name || "Maguey Nightclub",
+      venueAddress: event.venue_address,
+      holderName: ticket.attendee_name || "Guest",
+      admissionLabel: ticket.ticket_type_name || ticketType.name || "General Admission",
+      tierName,
+      tierColor: await getTierColor(supabase, tierName),
+      // Same value Ticket.tsx renders into the QR code
+      barcodeMessage: ticket.qr_code_value || ticket.ticket_id,
+    },
+  };
+}
+
+/**
+ * Load a VIP guest pass by QR token (as used in /vip-pass/:token) or by row id
+ */
+export async function loadVipGuestPassSource(
+  supabase: SupabaseClient,
+  lookup: { token?: string; id?: string },
+  siteUrl: string
+): Promise<WalletPassSource | null> {
+  let query = supabase
+    .from("vip_guest_passes")
+    .select(`
+      id, guest_number, guest_name, qr_code_token, status,
+      vip_reservations (
+        purchaser_name, purchaser_email, status,
+        event_vip_tables ( table_number, tier ),
+        events ( id, name, event_date, event_time, venue_name, venue_address )
+      )
+    `);
+
+  query = lookup.id ? query.eq("id", lookup.id) : query.eq("qr_code_token", lookup.token);
+  const { data: pass, error } = await query.maybeSingle();
+  if (error || !pass) return null;
+
+  const reservation = (pass.vip_reservations || {}) as {
+    purchaser_name?: string;
+    purchaser_email?: string;
+    status?: string;
+    event_vip_tables?: { table_number: number; tier: string } | null;
+    events?: Record<string, string | null> | null;
+  };
+  const table = reservation.event_vip_tables || { table_number: null, tier: null };
+  const event = reservation.events || {};
+  const tableTier = String(table.tier || "vip");
+
+  return {
+    rowId: pass.id,
+    holderEmail: reservation.purchaser_email || null,
+    voided: pass.status === "cancelled" || reservation.status === "cancelled" || reservation.status === "refunded",
+    data: {
+      kind: "vip_guest_pass",
+      eventId: event.id,
+      eventName: event.name || "Maguey Event",
+      eventStartsAt: getEventStartsAt(event.event_date || "", event.event_time),
+      venueName: event.venue_name || "Maguey Nightclub",
+      venueAddress: event.venue_address,
+      holderName: pass.guest_name || reservation.purchaser_name || `Guest ${pass.guest_number}`,
+      admissionLabel: `Table ${table.table_number ?? "-"} • ${tableTier.replace(/_/g, " ")}`,
+      tierName: "VIP",
+      tierColor: await getTierColor(supabase, "vip"),
+      // Same value VIPPassView.tsx renders into the QR code
+      barcodeMessage: `${siteUrl}/vip-pass/${pass.qr_code_token}`,
+    },
+  };
+}
+
+/**
+ * Find or create the live wallet_passes row for a ticket / guest pass.
+ * A pass issued to a previous holder is voided by the transfer trigger, so
+ * the new holder always gets a fresh serial number.
+ */
+export async function getOrCreateWalletPass(
+  supabase: SupabaseClient,
+  kind: WalletPassKind,
+  rowId: string,
+  holderEmail: string | null
+): Promise<WalletPassRow> {
+  const column = kind === "ticket" ? "ticket_id" : "vip_guest_pass_id";
+
+  const { data: existing } = await supabase
+    .from("wallet_passes")
+    .select("*")
+    .eq(column, rowId)
+    .eq("voided", false)
+    .maybeSingle();
+
+  if (existing) return existing as WalletPassRow;
+
+  const { data: created, error } = await supabase
+    .from("wallet_passes")
+    .insert({
+      serial_number: `${kind === "ticket" ? "T" : "V"}-${crypto.randomUUID()}`,
+      pass_kind: kind,
+      [column]: rowId,
+      holder_email: holderEmail,
+    })
+    .select("*")
+    .single();
+
+  if (error || !created) {
+    throw new Error(`Failed to register wallet pass: ${error?.message}`);
+  }
+
+  return created as WalletPassRow;
+}
+
+/**
+ * Build pass data for an existing registry row (PassKit refresh / pushed updates).
+ * A voided pass keeps its own serial as the barcode so it can never carry
+ * the new holder's QR code.
+ */
+export async function loadWalletPassData(
+  supabase: SupabaseClient,
+  pass: WalletPassRow,
+  siteUrl: string
+): Promise<WalletPassData | null> {
+  const source = pass.pass_kind === "ticket"
+    ? await loadTicketPassSource(supabase, { id: pass.ticket_id! })
+    : await loadVipGuestPassSource(supabase, { id: pass.vip_guest_pass_id! }, siteUrl);
+
+  if (!source) return null;
+
+  const voided = pass.voided || source.voided;
+  return {
+    ...source.data,
+    serialNumber: pass.serial_number,
+    voided,
+    barcodeMessage: voided ? pass.serial_number : source.data.barcodeMessage,
+  };
+}
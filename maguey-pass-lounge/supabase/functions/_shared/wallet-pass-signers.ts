@@ -0,0 +1,155 @@
+/**
+ * Production signers and configuration for wallet passes
+ *
+ * Loaded from environment so certificates can be rotated without a deploy:
+ *   APPLE_PASS_TYPE_ID         Pass Type ID (e.g. pass.com.magueynightclub.ticket)
+ *   APPLE_TEAM_ID              Apple Developer team ID
+ *   APPLE_PASS_CERT_PEM        Pass Type ID certificate (PEM)
+ *   APPLE_PASS_KEY_PEM         Private key for the certificate (PEM)
+ *   APPLE_PASS_KEY_PASSPHRASE  Optional key passphrase
+ *   APPLE_WWDR_CERT_PEM        Apple WWDR intermediate certificate (PEM)
+ *   GOOGLE_WALLET_ISSUER_ID    Google Wallet issuer ID
+ *   GOOGLE_WALLET_SERVICE_ACCOUNT_EMAIL
+ *   GOOGLE_WALLET_PRIVATE_KEY  Service account private key (PKCS#8 PEM)
+ *   PUBLIC_SITE_URL            Ticket site origin (default https://tickets.magueynightclub.com)
+ */
+
+import forge from "https://esm.sh/node-forge@1.3.1";
+import {
+  createRsaJwtSigner,
+  type ApplePassConfig,
+  type ApplePassSigner,
+  type GoogleWalletConfig,
+  type JwtSigner,
+} from "./wallet-pass.ts";
+
+const DEFAULT_SITE_URL = "https://tickets.magueynightclub.com";
+const PASS_IMAGES = ["icon.png", "icon@2x.png", "icon@3x.png"];
+
+function readPem(name: string): string | null {
+  const value = Deno.env.get(name);
+  // Secrets set through the dashboard often have escaped newlines
+  return value ? value.replace(/\\n/g, "\n") : null;
+}
+
+/**
+ * Detached PKCS#7 signer using the Pass Type ID certificate
+ */
+export function createPkcs7PassSigner(
+  certPem: string,
+  keyPem: string,
+  wwdrPem: string,
+  passphrase?: string
+): ApplePassSigner {
+  const certificate = forge.pki.certificateFromPem(certPem);
+  const wwdr = forge.pki.certificateFromPem(wwdrPem);
+  const privateKey = passphrase
+    ? forge.pki.decryptRsaPrivateKey(keyPem, passphrase)
+    : forge.pki.privateKeyFromPem(keyPem);
+
+  if (!privateKey) {
+    throw new Error("Unable to read Apple pass private key");
+  }
+
+  return {
+    signManifest(manifest: Uint8Array) {
+      const p7 = forge.pkcs7.createSignedData();
+      p7.content = forge.util.createBuffer(new TextDecoder().decode(manifest), "utf8");
+      p7.addCertificate(certificate);
+      p7.addCertificate(wwdr);
+      p7.addSigner({
+        key: privateKey,
+        certificate,
+        digestAlgorithm: forge.pki.oids.sha256,
+        authenticatedAttributes: [
+          { type: forge.pki.oids.contentType, value: forge.pki.oids.data },
+          { type: forge.pki.oids.messageDigest },
+          { type: forge.pki.oids.signingTime, value: new Date() },
+        ],
+      });
+      p7.sign({ detached: true });
+
+      const der = forge.asn1.toDer(p7.toAsn1()).getBytes();
+      return Promise.resolve(Uint8Array.from(der, (c: string) => c.charCodeAt(0)));
+    },
+  };
+}
+
+/**
+ * Apple signer from environment, or null if Apple Wallet is not configured
+ */
+export function getApplePassSignerFromEnv(): ApplePassSigner | null {
+  const cert = readPem("APPLE_PASS_CERT_PEM");
+  const key = readPem("APPLE_PASS_KEY_PEM");
+  const wwdr = readPem("APPLE_WWDR_CERT_PEM");
+  if (!cert || !key || !wwdr) return null;
+
+  return createPkcs7PassSigner(
+    cert,
+    key,
+    wwdr,
+    Deno.env.get("APPLE_PASS_KEY_PASSPHRASE") || undefined
+  );
+}
+
+/**
+ * Google signer from environment, or null if Google Wallet is not configured
+ */
+export async function getGoogleJwtSignerFromEnv(): Promise<JwtSigner | null> {
+  const key = readPem("GOOGLE_WALLET_PRIVATE_KEY");
+  return key ? await createRsaJwtSigner(key) : null;
+}
+
+export function getSiteUrl(): string {
+  return (Deno.env.get("PUBLIC_SITE_URL") || DEFAULT_SITE_URL).replace(/\/+$/, "");
+}
+
+/**
+ * Apple pass config for a registered pass, or null if Apple Wallet is not configured
+ */
+export function getApplePassConfigFromEnv(authenticationToken?: string): ApplePassConfig | null {
+  const passTypeIdentifier = Deno.env.get("APPLE_PASS_TYPE_ID");
+  const teamIdentifier = Deno.env.get("APPLE_TEAM_ID");
+  if (!passTypeIdentifier || !teamIdentifier) return null;
+
+  return {
+    passTypeIdentifier,
+    teamIdentifier,
+    organizationName: "Maguey Nightclub",
+    // Apple appends /v1/... to this URL (handled by the wallet-pass function)
+    webServiceURL: `${Deno.env.get("SUPABASE_URL")}/functions/v1/wallet-pass`,
+    authenticationToken,
+  };
+}
+
+/**
+ * Google Wallet config, or null if Google Wallet is not configured
+ */
+export function getGoogleWalletConfigFromEnv(): GoogleWalletConfig | null {
+  const issuerId = Deno.env.get("GOOGLE_WALLET_ISSUER_ID");
+  const serviceAccountEmail = Deno.env.get("GOOGLE_WALLET_SERVICE_ACCOUNT_EMAIL");
+  if (!issuerId || !serviceAccountEmail) return null;
+
+  return {
+    issuerId,
+    issuerName: "Maguey Nightclub",
+    serviceAccountEmail,
+    origins: [getSiteUrl()],
+  };
+}
+
+/**
+ * Fetch pass artwork from the ticket site (public/wallet/*.png)
+ */
+export async function loadPassImages(): Promise<Record<string, Uint8Array>> {
+  const images: Record<string, Uint8Array> = {};
+  await Promise.all(
+    PASS_IMAGES.map(async (name) => {
+      const response = await fetch(`${getSiteUrl()}/wallet/${name}`);
+      if (response.ok) {
+        images[name] = new Uint8Array(await response.arrayBuffer());
+      }
+    })
+  );
+  return images;
+}
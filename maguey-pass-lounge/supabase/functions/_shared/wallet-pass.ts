@@ -0,0 +1,413 @@
+/**
+ * Wallet Pass Generator
+ *
+ * Builds Apple Wallet (.pkpass) and Google Wallet (Save to Wallet JWT)
+ * passes for GA tickets and VIP guest passes from the same data that feeds
+ * the ticket email and the Ticket / VIP pass pages.
+ *
+ * Signing is pluggable: callers pass an ApplePassSigner / JwtSigner, so the
+ * generator runs without network or real certificates (see wallet-pass.test.ts).
+ * Production signers live in wallet-pass-signers.ts.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export type WalletPassKind = 'ticket' | 'vip_guest_pass';
+
+export interface WalletPassData {
+  kind: WalletPassKind;
+  serialNumber: string;
+  eventId: string;
+  eventName: string;
+  /** ISO date-time the doors open; used for the lock-screen relevance date */
+  eventStartsAt: string;
+  venueName: string;
+  venueAddress?: string | null;
+  holderName: string;
+  /** e.g. "General Admission" or "Table 4 • Premium" */
+  admissionLabel: string;
+  tierName: string;
+  /** Hex color from ticket_tiers (e.g. #fbbf24) */
+  tierColor: string;
+  /** Exact string the door scanner expects (same value as the QR on the ticket page) */
+  barcodeMessage: string;
+  /** Refunded / transferred-away / cancelled passes are voided */
+  voided: boolean;
+}
+
+export interface ApplePassConfig {
+  passTypeIdentifier: string;
+  teamIdentifier: string;
+  organizationName: string;
+  /** Base URL of the PassKit web service (enables pushed updates) */
+  webServiceURL?: string;
+  authenticationToken?: string;
+}
+
+export interface GoogleWalletConfig {
+  issuerId: string;
+  issuerName: string;
+  /** Service account email that signs the Save JWT */
+  serviceAccountEmail: string;
+  /** Origins allowed to render the Save button */
+  origins: string[];
+}
+
+/** Produces the detached PKCS#7 `signature` file for a pass manifest */
+export interface ApplePassSigner {
+  signManifest(manifest: Uint8Array): Promise<Uint8Array>;
+}
+
+/** Produces an RS256 signature for a JWT signing input */
+export interface JwtSigner {
+  sign(signingInput: string): Promise<Uint8Array>;
+}
+
+// ============================================
+// Encoding Helpers
+// ============================================
+
+const encoder = new TextEncoder();
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function base64UrlEncode(input: Uint8Array | string): string {
+  const bytes = typeof input === 'string' ? encoder.encode(input) : input;
+  let binary = '';
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Convert a ticket tier hex color to the rgb() form PassKit requires
+ */
+export function hexToRgb(hex: string, fallback = 'rgb(107, 114, 128)'): string {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return fallback;
+  const value = parseInt(match[1], 16);
+  return `rgb(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255})`;
+}
+
+function formatDisplayDate(iso: string): string {
+  return new Date(iso).toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: 'America/New_York',
+  });
+}
+
+// ============================================
+// ZIP (stored, no compression)
+// ============================================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const b of bytes) crc = CRC_TABLE[(crc ^ b) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Write a ZIP archive with stored entries. PassKit accepts uncompressed
+ * archives and pass bundles are a few KB, so no deflate dependency is needed.
+ */
+export function createZip(files: Record<string, Uint8Array>): Uint8Array {
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [name, data] of Object.entries(files)) {
+    const nameBytes = encoder.encode(name);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // version needed
+    local.setUint16(8, 0, true); // method: stored
+    local.setUint16(12, 0x21, true); // 1980-01-01
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, nameBytes.length, true);
+    localParts.push(new Uint8Array(local.buffer), nameBytes, data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true); // version made by
+    central.setUint16(6, 20, true); // version needed
+    central.setUint16(14, 0x21, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, nameBytes.length, true);
+    central.setUint32(42, offset, true);
+    centralParts.push(new Uint8Array(central.buffer), nameBytes);
+
+    offset += 30 + nameBytes.length + data.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, p) => sum + p.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, Object.keys(files).length, true);
+  end.setUint16(10, Object.keys(files).length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    out.set(part, position);
+    position += part.length;
+  }
+  return out;
+}
+
+// ============================================
+// Apple Wallet
+// ============================================
+
+/**
+ * Build pass.json for an event ticket style pass
+ */
+export function buildApplePassJson(
+  data: WalletPassData,
+  config: ApplePassConfig
+): Record<string, unknown> {
+  const isVip = data.kind === 'vip_guest_pass';
+
+  const pass: Record<string, unknown> = {
+    formatVersion: 1,
+    passTypeIdentifier: config.passTypeIdentifier,
+    teamIdentifier: config.teamIdentifier,
+    organizationName: config.organizationName,
+    serialNumber: data.serialNumber,
+    description: `${data.eventName} ${isVip ? 'VIP Guest Pass' : 'Ticket'}`,
+    logoText: 'MAGUEY',
+    foregroundColor: 'rgb(255, 255, 255)',
+    labelColor: hexToRgb(data.tierColor),
+    backgroundColor: 'rgb(9, 9, 11)',
+    relevantDate: data.eventStartsAt,
+    voided: data.voided,
+    eventTicket: {
+      headerFields: [
+        { key: 'tier', label: 'TIER', value: data.tierName.toUpperCase() },
+      ],
+      primaryFields: [
+        { key: 'event', label: 'EVENT', value: data.eventName },
+      ],
+      secondaryFields: [
+        { key: 'holder', label: isVip ? 'GUEST' : 'TICKET HOLDER', value: data.holderName },
+        { key: 'admission', label: isVip ? 'TABLE' : 'ADMISSION', value: data.admissionLabel },
+      ],
+      auxiliaryFields: [
+        {
+          key: 'date',
+          label: 'DATE',
+          value: data.eventStartsAt,
+          dateStyle: 'PKDateStyleMedium',
+          timeStyle: 'PKDateStyleShort',
+        },
+        { key: 'venue', label: 'VENUE', value: data.venueName },
+      ],
+      backFields: [
+        ...(data.venueAddress ? [{ key: 'address', label: 'Address', value: data.venueAddress }] : []),
+        {
+          key: 'terms',
+          label: 'Entry',
+          value: isVip
+            ? 'VIP table access pass. A GA ticket and valid ID are still required for entry.'
+            : 'Valid government-issued ID required. Do not share this pass.',
+        },
+        {
+          key: 'status',
+          label: 'Status',
+          value: data.voided ? 'This pass is no longer valid.' : 'Valid',
+          changeMessage: '%@',
+        },
+      ],
+    },
+    barcodes: [
+      {
+        format: 'PKBarcodeFormatQR',
+        message: data.barcodeMessage,
+        messageEncoding: 'iso-8859-1',
+      },
+    ],
+  };
+
+  if (config.webServiceURL && config.authenticationToken) {
+    pass.webServiceURL = config.webServiceURL;
+    pass.authenticationToken = config.authenticationToken;
+  }
+
+  return pass;
+}
+
+/**
+ * Build a signed .pkpass bundle
+ * @param images - PNG assets keyed by file name (icon.png is required by Wallet)
+ */
+export async function createPkpass(
+  data: WalletPassData,
+  config: ApplePassConfig,
+  signer: ApplePassSigner,
+  images: Record<string, Uint8Array> = {}
+): Promise<Uint8Array> {
+  if (!images['icon.png']) {
+    throw new Error('Apple Wallet passes require an icon.png image');
+  }
+
+  const files: Record<string, Uint8Array> = {
+    'pass.json': encoder.encode(JSON.stringify(buildApplePassJson(data, config))),
+    ...images,
+  };
+
+  const manifest: Record<string, string> = {};
+  for (const [name, bytes] of Object.entries(files)) {
+    const digest = await crypto.subtle.digest('SHA-1', bytes);
+    manifest[name] = toHex(new Uint8Array(digest));
+  }
+
+  const manifestBytes = encoder.encode(JSON.stringify(manifest));
+  const signature = await signer.signManifest(manifestBytes);
+
+  return createZip({
+    ...files,
+    'manifest.json': manifestBytes,
+    signature,
+  });
+}
+
+// ============================================
+// Google Wallet
+// ============================================
+
+export function getGoogleClassId(config: GoogleWalletConfig, eventId: string): string {
+  return `${config.issuerId}.event_${eventId.replace(/[^\w.-]/g, '_')}`;
+}
+
+export function getGoogleObjectId(config: GoogleWalletConfig, serialNumber: string): string {
+  return `${config.issuerId}.${serialNumber.replace(/[^\w.-]/g, '_')}`;
+}
+
+/**
+ * Build the eventTicketClass / eventTicketObject pair for an event
+ */
+export function buildGoogleWalletObjects(
+  data: WalletPassData,
+  config: GoogleWalletConfig
+): { eventTicketClass: Record<string, unknown>; eventTicketObject: Record<string, unknown> } {
+  const classId = getGoogleClassId(config, data.eventId);
+
+  const eventTicketClass = {
+    id: classId,
+    issuerName: config.issuerName,
+    reviewStatus: 'UNDER_REVIEW',
+    eventName: { defaultValue: { language: 'en-US', value: data.eventName } },
+    venue: {
+      name: { defaultValue: { language: 'en-US', value: data.venueName } },
+      address: { defaultValue: { language: 'en-US', value: data.venueAddress || data.venueName } },
+    },
+    dateTime: { start: data.eventStartsAt },
+  };
+
+  const eventTicketObject = {
+    id: getGoogleObjectId(config, data.serialNumber),
+    classId,
+    state: data.voided ? 'INACTIVE' : 'ACTIVE',
+    ticketHolderName: data.holderName,
+    ticketType: { defaultValue: { language: 'en-US', value: data.admissionLabel } },
+    hexBackgroundColor: data.tierColor,
+    barcode: {
+      type: 'QR_CODE',
+      value: data.barcodeMessage,
+      alternateText: formatDisplayDate(data.eventStartsAt),
+    },
+  };
+
+  return { eventTicketClass, eventTicketObject };
+}
+
+/**
+ * Create a signed "Save to Google Wallet" JWT.
+ * The class and object are embedded so no prior REST insert is needed.
+ */
+export async function createGoogleSaveJwt(
+  data: WalletPassData,
+  config: GoogleWalletConfig,
+  signer: JwtSigner,
+  issuedAt: number = Math.floor(Date.now() / 1000)
+): Promise<string> {
+  const { eventTicketClass, eventTicketObject } = buildGoogleWalletObjects(data, config);
+
+  const header = { alg: 'RS256', typ: 'JWT' };
+  const claims = {
+    iss: config.serviceAccountEmail,
+    aud: 'google',
+    typ: 'savetowallet',
+    iat: issuedAt,
+    origins: config.origins,
+    payload: {
+      eventTicketClasses: [eventTicketClass],
+      eventTicketObjects: [eventTicketObject],
+    },
+  };
+
+  const signingInput = `${base64UrlEncode(JSON.stringify(header))}.${base64UrlEncode(JSON.stringify(claims))}`;
+  const signature = await signer.sign(signingInput);
+  return `${signingInput}.${base64UrlEncode(signature)}`;
+}
+
+export function getGoogleSaveUrl(jwt: string): string {
+  return `https://pay.google.com/gp/v/save/${jwt}`;
+}
+
+// ============================================
+// RS256 Signer (WebCrypto)
+// ============================================
+
+function pemToDer(pem: string): Uint8Array {
+  const body = pem
+    .replace(/-----BEGIN [^-]+-----/, '')
+    .replace(/-----END [^-]+-----/, '')
+    .replace(/\s+/g, '');
+  return Uint8Array.from(atob(body), (c) => c.charCodeAt(0));
+}
+
+/**
+ * RS256 signer for a PKCS#8 PEM private key (Google service account key)
+ */
+export async function createRsaJwtSigner(privateKeyPem: string): Promise<JwtSigner> {
+  const key = await crypto.subtle.importKey(
+    'pkcs8',
+    pemToDer(privateKeyPem),
+    { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+
+  return {
+    async sign(signingInput: string) {
+      const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', key, encoder.encode(signingInput));
+      return new Uint8Array(signature);
+    },
+  };
+}
@@ -64,14 +64,17 @@ serve(async (req) => {
       );
     }
 
+    // Split payments stay pending until every share is paid or the deadline
+    // settles them (stripe-webhook / settle-vip-splits); only the host's payment is recorded here
+    const isSplit = paymentIntent.metadata?.splitPayment === "true";
+
     // Update reservation to confirmed
     const { data: reservation, error: reservationError } = await supabase
       .from("vip_reservations")
       .update({
-        status: "confirmed",
+        ...(isSplit ? {} : { status: "confirmed", confirmed_at: new Date().toISOString() }),
         stripe_payment_intent_id: paymentIntentId,
         stripe_charge_id: paymentIntent.latest_charge as string || null,
-        confirmed_at: new Date().toISOString(),
       })
       .eq("id", reservationId)
       .eq("purchaser_email", customerEmail)
@@ -146,7 +149,7 @@ serve(async (req) => {
           amount: reservation.amount_paid_cents / 100,
           celebration: packageSnapshot.celebration,
           estimatedArrival: packageSnapshot.estimatedArrival,
-          status: "confirmed",
+          status: reservation.status,
           event: reservation.events,
           table: {
             ...reservation.event_vip_tables,
@@ -1,10 +1,29 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import Stripe from "https://esm.sh/stripe@12.0.0?target=deno";
-import { checkRateLimit } from "../_shared/rate-limiter.ts";
+import { checkRateLimit, getClientIp } from "../_shared/rate-limiter.ts";
 import { getCorsHeaders, handleCorsPreFlight } from "../_shared/cors.ts";
+import { resolveLocale } from "../_shared/translations.ts";
+import {
+  evaluatePromotions,
+  normalizePromotionCode,
+  toPromotionRule,
+} from "../_shared/promotion-rules.ts";
+import {
+  getLoyaltyStanding,
+  hasOnSaleAccess,
+  loyaltyCreditsToApply,
+  verifiedLoyaltyEmail,
+} from "../_shared/loyalty.ts";
+import { traceHandler } from "../_shared/tracing.ts";
+import {
+  evaluatePurchaseRisk,
+  getPurchaseVelocity,
+  isNearSellOut,
+} from "../_shared/purchase-risk.ts";
+import { findPurchaseBan } from "../_shared/banned-guests.ts";
 
-serve(async (req) => {
+serve(traceHandler("create-checkout-session", async (req, span) => {
   const preflightResponse = handleCorsPreFlight(req);
   if (preflightResponse) return preflightResponse;
 
@@ -37,9 +56,18 @@ serve(async (req) => {
       cancelUrl,
       vipInviteCode,
       referralCode,
+      campaignId,
+      promoCode,
+      loyaltyCredits,
+      deviceId,
+      locale: requestedLocale,
     } = await req.json();
 
+    // Site language the guest checked out in — drives Stripe Checkout and email copy
+    const locale = resolveLocale(requestedLocale);
+
     console.log("Creating checkout for:", { eventId, tickets, customerEmail, totalAmount });
+    span.setAttributes({ "event.id": eventId, "checkout.ticket_lines": Array.isArray(tickets) ? tickets.length : 0 });
 
     // Validate required fields
     if (
@@ -58,18 +86,32 @@ serve(async (req) => {
       );
     }
 
+    // Guests banned from the venue with purchases blocked can't buy tickets
+    const purchaseBan = await findPurchaseBan(supabase, { email: customerEmail, name: customerName, eventId });
+    if (purchaseBan) {
+      console.warn("Checkout blocked by banned guest list:", { eventId, customerEmail, matchedOn: purchaseBan.matched_on });
+      span.setAttributes({ "checkout.banned_guest": true });
+      return new Response(
+        JSON.stringify({ error: "We couldn't process this purchase" }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 403 },
+      );
+    }
+
     // Verify event exists and fetch ticket types
     const { data: eventData, error: eventError } = await supabase
       .from("events")
       .select(`
         id, 
         name,
+        on_sale_at,
         ticket_types (
           id,
           name,
           price,
           fee,
-          status
+          status,
+          total_inventory,
+          tickets_sold
         )
       `)
       .eq("id", eventId)
@@ -82,6 +124,21 @@ serve(async (req) => {
       );
     }
 
+    // Loyalty (early access, credits) only for the signed-in holder of the account,
+    // never for an email typed into the order form
+    const jwt = (req.headers.get("Authorization") || "").replace(/^Bearer\s+/i, "");
+    const { data: { user: signedInUser } } = await supabase.auth.getUser(jwt);
+    const loyaltyEmail = verifiedLoyaltyEmail(signedInUser, customerEmail);
+
+    // Loyalty tiers with early access can buy before the general on-sale
+    const loyalty = await getLoyaltyStanding(supabase, loyaltyEmail);
+    if (!hasOnSaleAccess(eventData.on_sale_at, loyalty.earlyAccessHours)) {
+      return new Response(
+        JSON.stringify({ error: "Tickets are not on sale yet", onSaleAt: eventData.on_sale_at }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 403 },
+      );
+    }
+
     // Create a map of ticket types for quick lookup
     const ticketTypesMap = new Map(
       eventData.ticket_types.map((t: any) => [t.id, t])
@@ -116,6 +173,8 @@ serve(async (req) => {
 
     let calculatedTotal = 0;
     let calculatedFees = 0;
+    let ticketQuantity = 0;
+    let nearSellOut = false;
 
     for (const ticketRequest of tickets) {
       const dbTicket = ticketTypesMap.get(ticketRequest.ticketTypeId);
@@ -127,7 +186,14 @@ serve(async (req) => {
         );
       }
 
-      // Fetch active tier price server-side (ignores any client-sent price)
+      // Close any tier whose schedule has passed, then fetch the active tier
+      // price server-side (ignores any client-sent price)
+      const { error: rollError } = await supabase.rpc("roll_price_tiers", {
+        p_ticket_type_id: dbTicket.id,
+      });
+      if (rollError) {
+        console.error("Price tier roll error:", rollError);
+      }
       const { data: tierRows } = await supabase.rpc("get_current_tier_price", {
         p_ticket_type_id: dbTicket.id,
       });
@@ -140,6 +206,8 @@ serve(async (req) => {
 
       calculatedTotal += (unitPrice + unitFee) * quantity;
       calculatedFees += unitFee * quantity;
+      ticketQuantity += quantity;
+      nearSellOut ||= isNearSellOut(quantity, dbTicket.total_inventory, dbTicket.tickets_sold);
 
       // Generate structured metadata for this ticket
       const vipInfo = parseVipInfo(dbTicket.name);
@@ -178,6 +246,104 @@ serve(async (req) => {
       });
     }
 
+    // Purchase risk: velocity of the email, device and IP, declined cards, bulk buys as the event sells out
+    const clientIp = getClientIp(req);
+    const riskDeviceId = typeof deviceId === "string" && deviceId ? deviceId.slice(0, 64) : null;
+    const risk = evaluatePurchaseRisk({
+      email: customerEmail,
+      authenticated: !!signedInUser,
+      purchaserName: customerName,
+      quantity: ticketQuantity,
+      nearSellOut,
+      velocity: await getPurchaseVelocity(supabase, {
+        email: customerEmail,
+        deviceId: riskDeviceId,
+        clientIp: clientIp === "unknown" ? null : clientIp,
+      }),
+    });
+    span.setAttributes({ "checkout.risk_score": risk.score, "checkout.risk_action": risk.action });
+
+    if (risk.action === "block") {
+      console.warn("Checkout blocked by purchase risk:", { eventId, customerEmail, clientIp, signals: risk.signals });
+      return new Response(
+        JSON.stringify({ error: "We couldn't process this purchase", riskAction: risk.action }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 403 },
+      );
+    }
+    if (risk.action === "require_login") {
+      return new Response(
+        JSON.stringify({ error: "Please sign in to complete this purchase", riskAction: risk.action }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 401 },
+      );
+    }
+
+    // Promotions are re-evaluated here against DB prices — the Checkout preview is never trusted
+    const normalizedPromoCode = normalizePromotionCode(promoCode);
+    const { data: promotionRows, error: promotionError } = await supabase.rpc("get_applicable_promotions", {
+      p_event_id: eventId,
+      p_code: normalizedPromoCode || null,
+      p_customer_email: customerEmail,
+    });
+
+    if (promotionError) {
+      console.error("Promotion lookup error:", promotionError);
+      if (normalizedPromoCode) {
+        return new Response(
+          JSON.stringify({ error: "Could not validate promo code" }),
+          { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 500 },
+        );
+      }
+    }
+
+    const promotions = evaluatePromotions(
+      {
+        eventId,
+        lines: secureTicketsMetadata.map((ticket) => ({
+          ticketTypeId: ticket.ticketTypeId,
+          quantity: ticket.quantity,
+          unitPrice: Number(ticket.price),
+          unitFee: Number(ticket.fee),
+        })),
+      },
+      (promotionRows || []).map(toPromotionRule),
+      { code: normalizedPromoCode },
+    );
+
+    // A code that lost to a better offer isn't an error: the better offer is
+    // applied and the response says the code wasn't needed
+    const promoCodeNotNeeded = promotions.codeRejection === "not_combinable";
+    if (normalizedPromoCode && promotions.codeRejection && !promoCodeNotNeeded) {
+      return new Response(
+        JSON.stringify({
+          error: `Promo code ${normalizedPromoCode} can't be applied to this order`,
+          reason: promotions.codeRejection,
+        }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 400 },
+      );
+    }
+
+    // Loyalty credits come off whatever is still owed after promotions
+    const creditsApplied = loyaltyCreditsToApply(
+      loyaltyCredits,
+      loyalty.credits,
+      calculatedTotal - promotions.discount,
+    );
+    const discountTotal = promotions.discount + creditsApplied;
+    const codePromotion = promotions.applied.find((applied) => applied.code);
+
+    // Campaign attribution from a campaign's ticket link (?cmp=); IDs that
+    // don't match a sent campaign are ignored rather than failing checkout
+    let attributedCampaignId: string | null = null;
+    if (typeof campaignId === "string" && /^[0-9a-f-]{36}$/i.test(campaignId)) {
+      const { data: campaign } = await supabase
+        .from("marketing_campaigns")
+        .select("id")
+        .eq("id", campaignId)
+        .in("status", ["sending", "sent"])
+        .maybeSingle();
+      attributedCampaignId = campaign?.id ?? null;
+    }
+
     // Create order in database first
     const { data: order, error: orderError } = await supabase
       .from("orders")
@@ -187,12 +353,22 @@ serve(async (req) => {
         purchaser_name: customerName,
         subtotal: calculatedTotal - calculatedFees,
         fees_total: calculatedFees,
-        total: calculatedTotal,
+        discount_total: discountTotal,
+        total: calculatedTotal - discountTotal,
         payment_provider: "stripe",
         status: "pending",
-        metadata: { tickets: secureTicketsMetadata }, // Store the secure metadata
+        metadata: { tickets: secureTicketsMetadata, promotions: promotions.applied, loyaltyCredits: creditsApplied }, // Store the secure metadata
+        locale,
+        // Held orders are re-checked by stripe-webhook once paid
+        risk_score: risk.score,
+        risk_action: risk.action,
+        risk_signals: risk.signals,
+        device_id: riskDeviceId,
+        client_ip: clientIp === "unknown" ? null : clientIp,
+        ...(codePromotion && { promo_code_id: codePromotion.promotionId }),
         // Promoter referral attribution
         ...(referralCode && { referral_code: referralCode }),
+        ...(attributedCampaignId && { campaign_id: attributedCampaignId }),
       })
       .select()
       .single();
@@ -206,27 +382,104 @@ serve(async (req) => {
     }
 
     console.log("Order created:", order.id);
+    span.setAttribute("order.id", order.id);
 
-    // Create Stripe Checkout Session (hosted payment page)
-    const session = await stripe.checkout.sessions.create({
-      mode: "payment",
-      customer_email: customerEmail,
-      line_items: secureLineItems,
-      success_url: `${successUrl}?session_id={CHECKOUT_SESSION_ID}&orderId=${order.id}&eventId=${eventId}`,
-      cancel_url: `${cancelUrl}?canceled=true&orderId=${order.id}`,
-      metadata: {
-        orderId: order.id,
-        eventId,
-        customerEmail,
-        customerName,
-        // Pass the SECURE, server-generated ticket metadata
-        tickets: JSON.stringify(secureTicketsMetadata),
-        // VIP invite code for linking GA tickets to VIP reservations
-        ...(vipInviteCode && { vipInviteCode }),
-        // Promoter referral attribution
-        ...(referralCode && { referralCode }),
-      },
-    });
+    // Reserve the promotions against their usage limits (re-checked under lock)
+    if (promotions.applied.length > 0) {
+      const { error: reserveError } = await supabase.rpc("reserve_promotion_redemptions", {
+        p_order_id: order.id,
+        p_customer_email: customerEmail,
+        p_redemptions: promotions.applied.map((applied) => ({
+          promotion_id: applied.promotionId,
+          promotion_code_id: applied.promotionCodeId,
+          discount: applied.discount,
+        })),
+      });
+
+      if (reserveError) {
+        console.error("Promotion reservation error:", reserveError);
+        await supabase.from("orders").update({ status: "cancelled" }).eq("id", order.id);
+        return new Response(
+          JSON.stringify({ error: reserveError.message }),
+          { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 409 },
+        );
+      }
+    }
+
+    // Take the redeemed credits off the balance (re-checked under lock)
+    if (creditsApplied > 0 && loyaltyEmail) {
+      const { error: creditsError } = await supabase.rpc("reserve_loyalty_credits", {
+        p_order_id: order.id,
+        p_customer_email: loyaltyEmail,
+        p_amount: creditsApplied,
+      });
+
+      if (creditsError) {
+        console.error("Loyalty credit reservation error:", creditsError);
+        await supabase.from("orders").update({ status: "cancelled" }).eq("id", order.id);
+        await supabase.from("promotion_redemptions").update({ status: "void" }).eq("order_id", order.id);
+        return new Response(
+          JSON.stringify({ error: creditsError.message }),
+          { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 409 },
+        );
+      }
+    }
+
+    const discountNames = promotions.applied.map((applied) => applied.code || applied.name);
+    if (creditsApplied > 0) discountNames.push("Loyalty credit");
+
+    let session;
+    try {
+      // Stripe applies the discount as a one-off coupon so the receipt shows it
+      const coupon = discountTotal > 0
+        ? await stripe.coupons.create({
+          amount_off: Math.round(discountTotal * 100),
+          currency: "usd",
+          duration: "once",
+          max_redemptions: 1,
+          name: discountNames.join(" + ").slice(0, 40),
+        })
+        : null;
+
+      // Create Stripe Checkout Session (hosted payment page)
+      session = await stripe.checkout.sessions.create({
+        mode: "payment",
+        locale,
+        customer_email: customerEmail,
+        line_items: secureLineItems,
+        ...(coupon && { discounts: [{ coupon: coupon.id }] }),
+        // Medium-risk guests who are signed in have to pass 3D Secure
+        ...(risk.action === "require_3ds" && {
+          payment_method_options: { card: { request_three_d_secure: "any" } },
+        }),
+        // Declined attempts are counted against the order (payment_intent.payment_failed)
+        payment_intent_data: { metadata: { type: "ticket_order", orderId: order.id, eventId } },
+        success_url: `${successUrl}?session_id={CHECKOUT_SESSION_ID}&orderId=${order.id}&eventId=${eventId}`,
+        cancel_url: `${cancelUrl}?canceled=true&orderId=${order.id}`,
+        metadata: {
+          orderId: order.id,
+          eventId,
+          customerEmail,
+          customerName,
+          locale,
+          // Pass the SECURE, server-generated ticket metadata
+          tickets: JSON.stringify(secureTicketsMetadata),
+          // VIP invite code for linking GA tickets to VIP reservations
+          ...(vipInviteCode && { vipInviteCode }),
+          // Promoter referral attribution
+          ...(referralCode && { referralCode }),
+          ...(attributedCampaignId && { campaignId: attributedCampaignId }),
+          // Lets the webhook continue this trace when the payment lands
+          traceparent: span.traceparent,
+        },
+      });
+    } catch (stripeError) {
+      // No session means the guest can never pay; give the credits back now
+      if (creditsApplied > 0) {
+        await supabase.rpc("release_loyalty_credits", { p_order_id: order.id });
+      }
+      throw stripeError;
+    }
 
     // Update order with payment reference
     await supabase
@@ -235,6 +488,8 @@ serve(async (req) => {
         payment_reference: session.id,
         metadata: {
           tickets,
+          promotions: promotions.applied,
+          loyaltyCredits: creditsApplied,
           stripeSessionId: session.id,
         },
       })
@@ -245,6 +500,7 @@ serve(async (req) => {
         sessionId: session.id,
         url: session.url,
         orderId: order.id,
+        promoCodeNotNeeded,
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 200 },
     );
@@ -255,4 +511,4 @@ serve(async (req) => {
       { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 500 },
     );
   }
-});
+}));
@@ -0,0 +1,179 @@
+/**
+ * Create Restaurant Checkout
+ *
+ * POST /create-restaurant-checkout
+ *   { items: [{ menuItemId, quantity }], orderType, customer, successUrl, cancelUrl, locale }
+ *   -> { url, orderId }
+ *
+ * Called by maguey-nights RestaurantCheckout.tsx. Prices come from
+ * restaurant_menu_items, never from the client. The order is saved as
+ * pending_payment; stripe-webhook moves it to received once paid.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import Stripe from "https://esm.sh/stripe@12.0.0?target=deno";
+import { checkRateLimit } from "../_shared/rate-limiter.ts";
+import { getCorsHeaders, handleCorsPreFlight } from "../_shared/cors.ts";
+import { resolveLocale } from "../_shared/translations.ts";
+import {
+  priceRestaurantOrder,
+  RestaurantOrderError,
+  type RestaurantCartLine,
+} from "../_shared/restaurant-orders.ts";
+
+serve(async (req) => {
+  const preflightResponse = handleCorsPreFlight(req);
+  if (preflightResponse) return preflightResponse;
+
+  const corsHeaders = getCorsHeaders(req);
+  const json = (body: unknown, status: number) =>
+    new Response(JSON.stringify(body), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status,
+    });
+
+  // Rate limiting
+  const { allowed, response: rateLimitResponse } = await checkRateLimit(req, 'payment');
+  if (!allowed) {
+    return rateLimitResponse!;
+  }
+
+  try {
+    const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") || "", {
+      apiVersion: "2023-10-16",
+    });
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || ""
+    );
+
+    const {
+      items,
+      orderType,
+      customer,
+      successUrl,
+      cancelUrl,
+      locale: requestedLocale,
+    } = await req.json();
+
+    const locale = resolveLocale(requestedLocale);
+    const name = customer?.name?.trim();
+    const email = customer?.email?.trim();
+    const phone = customer?.phone?.trim();
+    const address = customer?.address?.trim() || null;
+
+    if (!name || !email || !phone || !successUrl || !cancelUrl) {
+      return json({ error: "Missing required fields" }, 400);
+    }
+    if (orderType !== "pickup" && orderType !== "delivery") {
+      return json({ error: "orderType must be 'pickup' or 'delivery'" }, 400);
+    }
+    if (orderType === "delivery" && !address) {
+      return json({ error: "Delivery address is required" }, 400);
+    }
+
+    const cart = (items || []) as RestaurantCartLine[];
+    const { data: menuItems, error: menuError } = await supabase
+      .from("restaurant_menu_items")
+      .select("id, name, price, sale_price, is_available")
+      .in("id", cart.map((line) => line.menuItemId).filter(Boolean));
+
+    if (menuError) {
+      throw new Error(`Failed to load menu: ${menuError.message}`);
+    }
+
+    // Validate and price the cart from database prices
+    const priced = priceRestaurantOrder(cart, menuItems || [], orderType);
+
+    // Create order in database first
+    const { data: order, error: orderError } = await supabase
+      .from("restaurant_orders")
+      .insert({
+        customer_name: name,
+        customer_email: email,
+        customer_phone: phone,
+        order_type: orderType,
+        delivery_address: orderType === "delivery" ? address : null,
+        special_instructions: customer?.specialInstructions?.trim() || null,
+        subtotal: priced.subtotal,
+        delivery_fee: priced.deliveryFee,
+        total: priced.total,
+        locale,
+      })
+      .select("id, order_number")
+      .single();
+
+    if (orderError || !order) {
+      console.error("Restaurant order creation error:", orderError);
+      return json({ error: `Failed to create order: ${orderError?.message || "Unknown error"}` }, 500);
+    }
+
+    const { error: itemsError } = await supabase
+      .from("restaurant_order_items")
+      .insert(priced.lines.map((line) => ({
+        order_id: order.id,
+        menu_item_id: line.menuItemId,
+        name: line.name,
+        unit_price: line.unitPrice,
+        quantity: line.quantity,
+        line_total: line.lineTotal,
+      })));
+
+    if (itemsError) {
+      console.error("Restaurant order items error:", itemsError);
+      await supabase.from("restaurant_orders").delete().eq("id", order.id);
+      return json({ error: "Failed to create order" }, 500);
+    }
+
+    const lineItems = priced.lines.map((line) => ({
+      price_data: {
+        currency: "usd",
+        product_data: { name: line.name },
+        unit_amount: Math.round(line.unitPrice * 100),
+      },
+      quantity: line.quantity,
+    }));
+
+    if (priced.deliveryFee > 0) {
+      lineItems.push({
+        price_data: {
+          currency: "usd",
+          product_data: { name: locale === "es" ? "Cargo de entrega" : "Delivery Fee" },
+          unit_amount: Math.round(priced.deliveryFee * 100),
+        },
+        quantity: 1,
+      });
+    }
+
+    // Create Stripe Checkout Session (hosted payment page)
+    const session = await stripe.checkout.sessions.create({
+      mode: "payment",
+      locale,
+      customer_email: email,
+      line_items: lineItems,
+      success_url: `${successUrl.replace(":orderId", order.id)}?session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: `${cancelUrl}?canceled=true`,
+      metadata: {
+        // Tells stripe-webhook this is not a ticket order
+        type: "restaurant_order",
+        orderId: order.id,
+        orderNumber: order.order_number,
+      },
+    });
+
+    await supabase
+      .from("restaurant_orders")
+      .update({ stripe_session_id: session.id })
+      .eq("id", order.id);
+
+    return json({ url: session.url, orderId: order.id, orderNumber: order.order_number }, 200);
+  } catch (error) {
+    if (error instanceof RestaurantOrderError) {
+      return json({ error: error.message }, error.status);
+    }
+    console.error("Restaurant checkout error:", error);
+    return json({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
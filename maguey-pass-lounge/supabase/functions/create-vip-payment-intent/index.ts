@@ -3,6 +3,14 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import Stripe from "https://esm.sh/stripe@12.0.0?target=deno";
 import { checkRateLimit } from "../_shared/rate-limiter.ts";
 import { getCorsHeaders, handleCorsPreFlight } from "../_shared/cors.ts";
+import { resolveLocale } from "../_shared/translations.ts";
+import {
+  normalizeInvitees,
+  splitTableAmount,
+  toVipSplitError,
+  VipSplitError,
+  type SplitInvitee,
+} from "../_shared/vip-split-payment.ts";
 
 serve(async (req) => {
   const preflightResponse = handleCorsPreFlight(req);
@@ -50,8 +58,16 @@ serve(async (req) => {
       gaTicketCount,
       gaTicketTypeId,
       gaTicketPrice,
+      // Split the bill (OPTIONAL — invitees each pay their share by a deadline)
+      splitPayment,
+      invitees: requestedInvitees,
+      splitFallback,
+      locale: requestedLocale,
     } = body;
 
+    // Site language the guest booked in — used for the confirmation email
+    const locale = resolveLocale(requestedLocale);
+
     console.log("Creating unified VIP payment intent for:", { eventId, tableId, customerEmail, ticketTierId });
 
     // Validate required fields (including GA ticket for unified checkout)
@@ -165,14 +181,38 @@ serve(async (req) => {
     }
     const serverTicketPriceCents = Math.round((ticketType.price + (ticketType.fee || 0)) * 100);
 
-    // Guest tickets: validate count against table capacity, use same server-side price
-    const validatedGuestCount = Math.min(
+    // Split the bill: the host pays their share of the table now, invitees pay theirs by link
+    const isSplit = splitPayment === true;
+    let invitees: SplitInvitee[] = [];
+    if (isSplit) {
+      try {
+        invitees = normalizeInvitees(requestedInvitees, customerEmail, (table.capacity || 6) - 1);
+      } catch (inviteeError) {
+        if (!(inviteeError instanceof VipSplitError)) throw inviteeError;
+        return new Response(
+          JSON.stringify({ error: inviteeError.message }),
+          { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: inviteeError.status },
+        );
+      }
+      if (splitFallback !== "charge_host" && splitFallback !== "release") {
+        return new Response(
+          JSON.stringify({ error: "Choose what happens if shares are not paid in time" }),
+          { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 400 },
+        );
+      }
+    }
+    const tableShares = isSplit ? splitTableAmount(vipTablePriceCents, invitees.length + 1) : [vipTablePriceCents];
+    const hostTableCents = tableShares[0];
+
+    // Guest tickets: validate count against table capacity, use same server-side price.
+    // Not offered with a split — invitees buy their own entry.
+    const validatedGuestCount = isSplit ? 0 : Math.min(
       Math.max(0, parseInt(gaTicketCount) || 0),
       (table.capacity || 6) - 1  // Cap at capacity minus host
     );
     const guestTicketsCents = validatedGuestCount * serverTicketPriceCents;
 
-    const totalAmountCents = vipTablePriceCents + serverTicketPriceCents + guestTicketsCents;
+    const totalAmountCents = hostTableCents + serverTicketPriceCents + guestTicketsCents;
 
     // Build package snapshot with booking details (using server-side prices)
     const packageSnapshot = {
@@ -193,6 +233,9 @@ serve(async (req) => {
       guestTicketCount: validatedGuestCount,
       guestTicketTotalCents: guestTicketsCents,
       totalAmount: totalAmountCents / 100,
+      // Split payment
+      splitPayment: isSplit,
+      splitPayers: tableShares.length,
     };
 
     // Create unified VIP checkout (GA ticket + VIP reservation) atomically via RPC
@@ -227,15 +270,63 @@ serve(async (req) => {
     const { ticket_id, reservation_id, unified_qr_token, ticket_token } = checkoutResult;
     console.log("Unified checkout created:", { ticket_id, reservation_id, unified_qr_token });
 
+    // One share per payer; the reservation stays pending until the split is settled
+    let hostShareId: string | null = null;
+    let splitDeadline: string | null = null;
+    if (isSplit) {
+      const { data: shares, error: sharesError } = await supabase.rpc("create_vip_payment_shares", {
+        p_reservation_id: reservation_id,
+        p_host_amount_cents: hostTableCents,
+        p_invitees: invitees.map((invitee, i) => ({
+          email: invitee.email,
+          name: invitee.name,
+          amount_cents: tableShares[i + 1],
+        })),
+        p_fallback: splitFallback,
+      });
+
+      if (sharesError || !shares) {
+        console.error("Split payment setup error:", sharesError);
+        const { error: rollbackError } = await supabase.rpc("rollback_vip_checkout", {
+          p_reservation_id: reservation_id,
+          p_ticket_id: ticket_id,
+          p_table_id: tableId,
+        });
+        if (rollbackError) {
+          console.error("VIP rollback failed:", rollbackError);
+        }
+        const splitError = toVipSplitError(sharesError?.message || "");
+        return new Response(
+          JSON.stringify({ error: splitError?.message || "Failed to set up split payment. Please try again." }),
+          { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: splitError?.status || 500 },
+        );
+      }
+
+      hostShareId = shares.host_share_id;
+      splitDeadline = shares.split_deadline;
+    }
+
     // Create Stripe Payment Intent for combined amount (VIP table + GA ticket)
     let paymentIntent;
+    let stripeCustomerId: string | null = null;
     try {
+      // Save the host's card: split tables charge the remainder to it at the
+      // deadline, and settle-vip-tab charges the bottle service tab to it
+      const customer = await stripe.customers.create({
+        email: customerEmail,
+        name: customerName,
+        metadata: { reservationId: reservation_id },
+      });
+      stripeCustomerId = customer.id;
+
       paymentIntent = await stripe.paymentIntents.create({
         amount: totalAmountCents,
         currency: "usd",
         automatic_payment_methods: {
           enabled: true,
         },
+        customer: stripeCustomerId,
+        setup_future_usage: "off_session",
         metadata: {
           type: "vip_unified",
           reservationId: reservation_id,
@@ -256,9 +347,13 @@ serve(async (req) => {
           gaTicketTypeId: ticketTierId,
           gaTicketPrice: String(serverTicketPriceCents / 100),
           tableCapacity: String(table.capacity || 6),
+          locale,
+          // Split payment: stripe-webhook records the host's share instead of confirming the table
+          splitPayment: isSplit ? "true" : "false",
+          ...(hostShareId ? { hostShareId, hostShareCents: String(hostTableCents) } : {}),
         },
         receipt_email: customerEmail,
-        description: `VIP Table ${table.table_number || tableNumber} (${(table.tier || tableTier || "standard").replace('_', ' ')}) + ${1 + validatedGuestCount} GA Ticket${validatedGuestCount > 0 ? 's' : ''} for ${event.name}`,
+        description: `VIP Table ${table.table_number || tableNumber} (${(table.tier || tableTier || "standard").replace('_', ' ')})${isSplit ? ` host share (1 of ${tableShares.length})` : ""} + ${1 + validatedGuestCount} GA Ticket${validatedGuestCount > 0 ? 's' : ''} for ${event.name}`,
       });
     } catch (stripeError) {
       console.error("Stripe payment intent creation failed:", stripeError);
@@ -282,7 +377,7 @@ serve(async (req) => {
     await Promise.all([
       supabase
         .from("vip_reservations")
-        .update({ stripe_payment_intent_id: paymentIntent.id })
+        .update({ stripe_payment_intent_id: paymentIntent.id, stripe_customer_id: stripeCustomerId, locale })
         .eq("id", reservation_id),
       supabase
         .from("tickets")
@@ -304,6 +399,9 @@ serve(async (req) => {
         ticketAmount: serverTicketPriceCents / 100,
         guestTicketCount: validatedGuestCount,
         guestTicketAmount: guestTicketsCents / 100,
+        splitPayment: isSplit,
+        splitDeadline,
+        tableShareAmount: hostTableCents / 100,
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 200 },
     );
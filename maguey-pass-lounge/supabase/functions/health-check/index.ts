@@ -1,6 +1,12 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { getCorsHeaders, handleCorsPreFlight } from "../_shared/cors.ts";
+import {
+  isAuthorizedScrape,
+  PROMETHEUS_CONTENT_TYPE,
+  renderPrometheus,
+  type MetricTotalRow,
+} from "../_shared/prometheus.ts";
 
 interface ServiceCheck {
   status: 'healthy' | 'unhealthy';
@@ -86,6 +92,49 @@ async function checkResend(): Promise<ServiceCheck> {
   }
 }
 
+/** PostgREST returns at most this many rows per request */
+const METRIC_TOTALS_PAGE_SIZE = 1000;
+
+/**
+ * Prometheus scrape of the metrics every device flushed (GET .../health-check/metrics).
+ * Requires `Authorization: Bearer <METRICS_SCRAPE_TOKEN>`.
+ */
+async function serveMetrics(req: Request, supabase: ReturnType<typeof createClient>): Promise<Response> {
+  if (!isAuthorizedScrape(req, Deno.env.get("METRICS_SCRAPE_TOKEN"))) {
+    return new Response("Unauthorized\n", {
+      status: 401,
+      headers: { "Content-Type": "text/plain", "WWW-Authenticate": "Bearer" },
+    });
+  }
+
+  const rows: MetricTotalRow[] = [];
+  for (let from = 0; ; from += METRIC_TOTALS_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("metric_totals")
+      .select("app, name, labels, metric_type, value, count, buckets, updated_at")
+      .order("name")
+      .order("app")
+      .order("labels")
+      .range(from, from + METRIC_TOTALS_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error("Failed to load metric totals:", error);
+      return new Response("# Error loading metrics\n", {
+        status: 503,
+        headers: { "Content-Type": "text/plain" },
+      });
+    }
+
+    rows.push(...((data ?? []) as MetricTotalRow[]));
+    if (!data || data.length < METRIC_TOTALS_PAGE_SIZE) break;
+  }
+
+  return new Response(renderPrometheus(rows), {
+    status: 200,
+    headers: { "Content-Type": PROMETHEUS_CONTENT_TYPE },
+  });
+}
+
 serve(async (req) => {
   const corsResponse = handleCorsPreFlight(req);
   if (corsResponse) return corsResponse;
@@ -96,6 +145,10 @@ serve(async (req) => {
     Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
   );
 
+  if (new URL(req.url).pathname.endsWith("/metrics")) {
+    return serveMetrics(req, supabase);
+  }
+
   // Run all checks in parallel for performance
   const [database, stripe, resend] = await Promise.all([
     checkDatabase(supabase),
@@ -0,0 +1,132 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getCorsHeaders, handleCorsPreFlight } from "../_shared/cors.ts";
+
+/**
+ * Emails the owner when stripe-webhook records a new dispute, so a
+ * chargeback is seen even when nobody has the admin console open.
+ * Service role only.
+ */
+interface PaymentDisputeNotification {
+  stripeDisputeId: string;
+  amount: number;
+  currency: string;
+  reason: string | null;
+  evidenceDueBy: string | null;
+  orderId: string | null;
+  vipReservationId: string | null;
+  eventId: string | null;
+  ticketsVoided: number;
+  passesVoided: number;
+}
+
+serve(async (req) => {
+  const corsResponse = handleCorsPreFlight(req);
+  if (corsResponse) return corsResponse;
+
+  const json = (body: unknown, status: number) =>
+    new Response(JSON.stringify(body), {
+      headers: { ...getCorsHeaders(req), "Content-Type": "application/json" },
+      status,
+    });
+
+  try {
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
+    const token = (req.headers.get("Authorization") || "").replace(/^Bearer\s+/i, "");
+    if (!serviceKey || token !== serviceKey) {
+      return json({ error: "Unauthorized" }, 401);
+    }
+
+    const resendApiKey = Deno.env.get("RESEND_API_KEY");
+    const ownerEmail = Deno.env.get("OWNER_EMAIL") || "owner@maguey.com";
+
+    const body: PaymentDisputeNotification = await req.json();
+
+    if (!resendApiKey) {
+      console.warn('No RESEND_API_KEY configured, skipping owner dispute email');
+      return json({ success: true, emailSent: false }, 200);
+    }
+
+    const fromEmail = Deno.env.get("EMAIL_FROM_ADDRESS") || "alerts@magueynightclub.com";
+    const formattedAmount = `${body.amount.toFixed(2)} ${body.currency.toUpperCase()}`;
+    const dueBy = body.evidenceDueBy ? new Date(body.evidenceDueBy).toUTCString() : "Not set";
+    const voided = body.orderId
+      ? `${body.ticketsVoided} ticket(s) on order ${body.orderId}`
+      : body.vipReservationId
+      ? `${body.passesVoided} VIP guest pass(es) on reservation ${body.vipReservationId}`
+      : "No matching order or reservation";
+
+    const response = await fetch("https://api.resend.com/emails", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${resendApiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        from: fromEmail,
+        to: [ownerEmail],
+        subject: `[ACTION REQUIRED] Payment dispute opened: ${formattedAmount}`,
+        html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>Payment Dispute Alert</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; background: #f5f5f5;">
+  <div style="background: white; border-radius: 8px; padding: 30px; box-shadow: 0 2px 4px rgba(0,0,0,0.1);">
+    <div style="background: #ef4444; color: white; padding: 15px; border-radius: 6px; text-align: center; margin-bottom: 30px;">
+      <h2 style="margin: 0;">Payment Dispute Alert</h2>
+    </div>
+
+    <p style="color: #333; font-size: 16px;">
+      A customer disputed a payment. The tickets and guest passes it paid for have been <strong>voided</strong>.
+    </p>
+
+    <div style="background: #fef3cd; border-left: 4px solid #ffc107; padding: 20px; margin: 20px 0; border-radius: 4px;">
+      <h3 style="margin-top: 0; color: #856404;">Details</h3>
+      <ul style="margin: 10px 0; padding-left: 20px; color: #856404;">
+        <li><strong>Amount:</strong> ${formattedAmount}</li>
+        <li><strong>Reason:</strong> ${body.reason || "Not given"}</li>
+        <li><strong>Evidence due by:</strong> ${dueBy}</li>
+        <li><strong>Event:</strong> ${body.eventId || "Unknown"}</li>
+        <li><strong>Voided:</strong> ${voided}</li>
+      </ul>
+    </div>
+
+    <div style="background: #fee2e2; border-left: 4px solid #ef4444; padding: 15px 20px; margin: 20px 0; border-radius: 4px;">
+      <h3 style="margin-top: 0; color: #991b1b;">Action Required</h3>
+      <p style="color: #991b1b; margin-bottom: 0;">
+        Export the evidence from Admin &rarr; Disputes and respond in the Stripe Dashboard before the deadline.
+      </p>
+    </div>
+
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="https://dashboard.stripe.com/disputes/${body.stripeDisputeId}" style="display: inline-block; padding: 12px 24px; background: #6366f1; color: white; text-decoration: none; border-radius: 6px; font-weight: 600;">
+        View in Stripe
+      </a>
+    </div>
+
+    <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e0e0e0; text-align: center; color: #666; font-size: 12px;">
+      <p><strong>Stripe Dispute ID:</strong> ${body.stripeDisputeId}</p>
+      <p>This is an automated alert from Maguey Payment System</p>
+    </div>
+  </div>
+</body>
+</html>
+        `.trim(),
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Failed to send owner dispute email:', response.status, errorText);
+      return json({ success: false, emailSent: false }, 502);
+    }
+
+    console.log('Owner dispute email sent to:', ownerEmail);
+    return json({ success: true, emailSent: true }, 200);
+  } catch (error) {
+    console.error('notify-payment-dispute error:', error);
+    return json({ error: error.message }, 500);
+  }
+});
@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { getCorsHeaders, handleCorsPreFlight } from "../_shared/cors.ts";
+import { getTracer, traceHandler } from "../_shared/tracing.ts";
 
 // ============================================
 // Exponential Backoff Calculator
@@ -48,11 +49,13 @@ interface EmailQueueEntry {
   next_retry_at: string;
   last_error: string | null;
   error_context: Record<string, unknown>;
+  /** Trace of whatever queued the email (e.g. the Stripe webhook) */
+  traceparent: string | null;
   created_at: string;
   updated_at: string;
 }
 
-serve(async (req) => {
+serve(traceHandler("process-email-queue", async (req, span) => {
   const corsResponse = handleCorsPreFlight(req);
   if (corsResponse) return corsResponse;
 
@@ -131,6 +134,17 @@ serve(async (req) => {
       continue;
     }
 
+    // Each email continues the trace it was queued from, not this run's
+    const emailSpan = getTracer().startSpan("email.send", {
+      kind: "consumer",
+      parent: email.traceparent ?? span,
+      attributes: {
+        "email.queue_id": email.id,
+        "email.type": email.email_type,
+        "email.attempt": email.attempt_count + 1,
+      },
+    });
+
     try {
       // Send via Resend API
       const response = await fetch("https://api.resend.com/emails", {
@@ -161,6 +175,7 @@ serve(async (req) => {
           .eq('id', email.id);
 
         console.log(`Email ${email.id} sent successfully, Resend ID: ${resendEmailId}`);
+        emailSpan.setAttribute("email.resend_id", resendEmailId);
         processed++;
       } else {
         // API error - extract error message
@@ -170,6 +185,7 @@ serve(async (req) => {
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       const newAttemptCount = email.attempt_count + 1;
+      emailSpan.setError(error);
 
       console.error(
         `Email ${email.id} failed (attempt ${newAttemptCount}/${email.max_attempts}):`,
@@ -219,6 +235,8 @@ serve(async (req) => {
         console.log(`Email ${email.id} scheduled for retry at ${nextRetry.toISOString()}`);
       }
     }
+
+    emailSpan.end();
   }
 
   const result = {
@@ -229,6 +247,7 @@ serve(async (req) => {
   };
 
   console.log(`Queue processing complete:`, result);
+  span.setAttributes({ "email.processed": processed, "email.failed": failed });
 
   return new Response(
     JSON.stringify(result),
@@ -237,4 +256,4 @@ serve(async (req) => {
       headers: { ...getCorsHeaders(req), "Content-Type": "application/json" },
     }
   );
-});
+}));
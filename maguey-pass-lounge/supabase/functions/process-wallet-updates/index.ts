@@ -0,0 +1,244 @@
+/**
+ * Wallet Pass Update Processor
+ *
+ * Drains wallet_pass_updates (filled by triggers when a ticket is
+ * transferred, refunded or voided) and pushes the change to wallets:
+ *   - Apple: empty APNs push to every registered device; the device then
+ *     fetches the new pass from the wallet-pass PassKit web service.
+ *   - Google: PATCH the eventTicketObject state / barcode directly.
+ *
+ * Invoked every minute by pg_cron (see 20260402000000_wallet_passes.sql).
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getCorsHeaders, handleCorsPreFlight } from "../_shared/cors.ts";
+import {
+  base64UrlEncode,
+  buildGoogleWalletObjects,
+  getGoogleObjectId,
+  type JwtSigner,
+} from "../_shared/wallet-pass.ts";
+import { loadWalletPassData, type WalletPassRow } from "../_shared/wallet-pass-data.ts";
+import {
+  getGoogleJwtSignerFromEnv,
+  getGoogleWalletConfigFromEnv,
+  getSiteUrl,
+} from "../_shared/wallet-pass-signers.ts";
+
+const BATCH_SIZE = 25;
+const MAX_ATTEMPTS = 5;
+const APNS_HOST = "https://api.push.apple.com";
+const GOOGLE_WALLET_API = "https://walletobjects.googleapis.com/walletobjects/v1";
+
+interface WalletPassUpdate {
+  id: string;
+  wallet_pass_id: string;
+  reason: "transferred" | "refunded" | "voided" | "updated";
+  attempt_count: number;
+  wallet_passes: WalletPassRow & { google_issued_at: string | null };
+}
+
+// ============================================
+// Apple (APNs with the Pass Type ID certificate)
+// ============================================
+
+let apnsClient: Deno.HttpClient | null | undefined;
+
+function getApnsClient(): Deno.HttpClient | null {
+  if (apnsClient !== undefined) return apnsClient;
+
+  const certChain = Deno.env.get("APPLE_PASS_CERT_PEM")?.replace(/\\n/g, "\n");
+  const privateKey = Deno.env.get("APPLE_PASS_KEY_PEM")?.replace(/\\n/g, "\n");
+  // Pass pushes must be authenticated with the pass certificate, not an APNs auth key
+  apnsClient = certChain && privateKey ? Deno.createHttpClient({ certChain, privateKey }) : null;
+  return apnsClient;
+}
+
+async function pushApple(supabase: SupabaseClient, pass: WalletPassRow): Promise<void> {
+  const { data: registrations } = await supabase
+    .from("wallet_pass_registrations")
+    .select("id, push_token")
+    .eq("wallet_pass_id", pass.id);
+
+  if (!registrations || registrations.length === 0) return;
+
+  const client = getApnsClient();
+  const passTypeId = Deno.env.get("APPLE_PASS_TYPE_ID");
+  if (!client || !passTypeId) {
+    throw new Error("Apple Wallet push is not configured");
+  }
+
+  for (const registration of registrations) {
+    const response = await fetch(`${APNS_HOST}/3/device/${registration.push_token}`, {
+      method: "POST",
+      headers: { "apns-topic": passTypeId },
+      body: "{}",
+      client,
+    });
+
+    // 410: device removed the pass — drop the registration
+    if (response.status === 410) {
+      await supabase.from("wallet_pass_registrations").delete().eq("id", registration.id);
+      continue;
+    }
+    if (!response.ok) {
+      throw new Error(`APNs push failed: ${response.status} ${await response.text()}`);
+    }
+  }
+}
+
+// ============================================
+// Google Wallet REST API
+// ============================================
+
+async function getGoogleAccessToken(serviceAccountEmail: string, signer: JwtSigner): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64UrlEncode(JSON.stringify({ alg: "RS256", typ: "JWT" }));
+  const claims = base64UrlEncode(JSON.stringify({
+    iss: serviceAccountEmail,
+    scope: "https://www.googleapis.com/auth/wallet_object.issuer",
+    aud: "https://oauth2.googleapis.com/token",
+    iat: now,
+    exp: now + 3600,
+  }));
+  const assertion = `${header}.${claims}.${base64UrlEncode(await signer.sign(`${header}.${claims}`))}`;
+
+  const response = await fetch("https://oauth2.googleapis.com/token", {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+      assertion,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Google token exchange failed: ${response.status}`);
+  }
+  return (await response.json()).access_token;
+}
+
+async function patchGoogle(
+  supabase: SupabaseClient,
+  pass: WalletPassRow & { google_issued_at: string | null },
+  accessToken: () => Promise<string>
+): Promise<void> {
+  if (!pass.google_issued_at) return;
+
+  const config = getGoogleWalletConfigFromEnv();
+  if (!config) throw new Error("Google Wallet is not configured");
+
+  const data = await loadWalletPassData(supabase, pass, getSiteUrl());
+  if (!data) return;
+
+  const { eventTicketObject } = buildGoogleWalletObjects(data, config);
+  const response = await fetch(
+    `${GOOGLE_WALLET_API}/eventTicketObject/${encodeURIComponent(getGoogleObjectId(config, pass.serial_number))}`,
+    {
+      method: "PATCH",
+      headers: {
+        Authorization: `Bearer ${await accessToken()}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        state: eventTicketObject.state,
+        ticketHolderName: eventTicketObject.ticketHolderName,
+        barcode: eventTicketObject.barcode,
+      }),
+    }
+  );
+
+  // 404: the guest opened the save link but never saved the pass
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`Google Wallet update failed: ${response.status} ${await response.text()}`);
+  }
+}
+
+// ============================================
+// Queue Processor
+// ============================================
+
+serve(async (req) => {
+  const corsResponse = handleCorsPreFlight(req);
+  if (corsResponse) return corsResponse;
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  const { data: updates, error: fetchError } = await supabase
+    .from("wallet_pass_updates")
+    .select("id, wallet_pass_id, reason, attempt_count, wallet_passes ( * )")
+    .eq("status", "pending")
+    .order("created_at", { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (fetchError) {
+    console.error("[process-wallet-updates] Failed to fetch queue:", fetchError);
+    return new Response(
+      JSON.stringify({ error: fetchError.message }),
+      { status: 500, headers: { ...getCorsHeaders(req), "Content-Type": "application/json" } }
+    );
+  }
+
+  // One OAuth token per run, fetched only if a Google pass needs updating
+  let googleToken: Promise<string> | null = null;
+  const getToken = () => {
+    if (!googleToken) {
+      googleToken = (async () => {
+        const config = getGoogleWalletConfigFromEnv();
+        const signer = await getGoogleJwtSignerFromEnv();
+        if (!config || !signer) throw new Error("Google Wallet is not configured");
+        return getGoogleAccessToken(config.serviceAccountEmail, signer);
+      })();
+    }
+    return googleToken;
+  };
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const update of (updates || []) as WalletPassUpdate[]) {
+    // Claim the row so overlapping cron runs don't double-push
+    const { data: claimed } = await supabase
+      .from("wallet_pass_updates")
+      .update({ status: "processing", attempt_count: update.attempt_count + 1 })
+      .eq("id", update.id)
+      .eq("status", "pending")
+      .select("id");
+
+    if (!claimed || claimed.length === 0) continue;
+
+    try {
+      await pushApple(supabase, update.wallet_passes);
+      await patchGoogle(supabase, update.wallet_passes, getToken);
+
+      await supabase
+        .from("wallet_pass_updates")
+        .update({ status: "sent", processed_at: new Date().toISOString(), last_error: null })
+        .eq("id", update.id);
+      sent++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const exhausted = update.attempt_count + 1 >= MAX_ATTEMPTS;
+      console.error(`[process-wallet-updates] Update ${update.id} (${update.reason}) failed:`, message);
+
+      await supabase
+        .from("wallet_pass_updates")
+        .update({
+          status: exhausted ? "failed" : "pending",
+          last_error: message,
+          processed_at: exhausted ? new Date().toISOString() : null,
+        })
+        .eq("id", update.id);
+      failed++;
+    }
+  }
+
+  return new Response(
+    JSON.stringify({ processed: (updates || []).length, sent, failed }),
+    { status: 200, headers: { ...getCorsHeaders(req), "Content-Type": "application/json" } }
+  );
+});
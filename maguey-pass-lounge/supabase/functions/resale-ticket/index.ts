@@ -0,0 +1,201 @@
+/**
+ * Resale Ticket
+ *
+ * POST /resale-ticket
+ *   { action: "list", ticketId, price }
+ *     -> { listing }
+ *   { action: "cancel", listingId }
+ *     -> { listing }
+ *   { action: "checkout", listingId, buyerName, successUrl, cancelUrl, locale }
+ *     -> { url, listingId }
+ *
+ * ticketId is tickets.id (UUID). All actions need a signed-in user: the
+ * holder lists and cancels, another guest buys. The price is capped at the
+ * event's percentage of face value (see 20260412000000_ticket_resale.sql).
+ *
+ * - checkout: the listing is held for the buyer while they pay through
+ *   Stripe Checkout; stripe-webhook hands the ticket over (new QR) and pays
+ *   the seller once paid, or puts the listing back on sale if the session
+ *   expires.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import Stripe from "https://esm.sh/stripe@12.0.0?target=deno";
+import { checkRateLimit } from "../_shared/rate-limiter.ts";
+import { getCorsHeaders, handleCorsPreFlight } from "../_shared/cors.ts";
+import { resolveLocale } from "../_shared/translations.ts";
+import {
+  toResaleAmountCents,
+  toTicketResaleError,
+  TicketResaleError,
+} from "../_shared/ticket-resale.ts";
+
+// Just over Stripe's 30-minute minimum Checkout session. The listing is held a
+// minute longer so the session always expires before someone else can take it.
+const CHECKOUT_SESSION_MINUTES = 31;
+const CHECKOUT_HOLD_MINUTES = CHECKOUT_SESSION_MINUTES + 1;
+
+interface ResaleRequest {
+  action?: "list" | "cancel" | "checkout";
+  ticketId?: string;
+  listingId?: string;
+  price?: number;
+  buyerName?: string;
+  successUrl?: string;
+  cancelUrl?: string;
+  locale?: string;
+}
+
+interface ReservedListing {
+  listing_id: string;
+  ticket_id: string;
+  event_id: string;
+  event_name: string;
+  event_date: string;
+  ticket_type_name: string | null;
+  price: number | string;
+  reserved_until: string;
+}
+
+serve(async (req) => {
+  const preflightResponse = handleCorsPreFlight(req);
+  if (preflightResponse) return preflightResponse;
+
+  const corsHeaders = getCorsHeaders(req);
+  const json = (body: unknown, status: number) =>
+    new Response(JSON.stringify(body), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status,
+    });
+
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  // Rate limiting: 20 req/min per IP (same tier as payment endpoints)
+  const { allowed, response: rateLimitResponse } = await checkRateLimit(req, "payment");
+  if (!allowed) {
+    return rateLimitResponse!;
+  }
+
+  try {
+    const body = await req.json() as ResaleRequest;
+    const { action } = body;
+
+    if (action !== "list" && action !== "cancel" && action !== "checkout") {
+      return json({ error: "Unknown action" }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || ""
+    );
+
+    const jwt = (req.headers.get("Authorization") || "").replace(/^Bearer\s+/i, "");
+    const { data: { user } } = await supabase.auth.getUser(jwt);
+    if (!user?.email) {
+      return json({ error: "Sign in required" }, 401);
+    }
+
+    if (action === "list") {
+      if (!body.ticketId || typeof body.price !== "number") {
+        return json({ error: "Missing required fields: ticketId, price" }, 400);
+      }
+
+      const { data: listing, error } = await supabase.rpc("create_resale_listing", {
+        p_ticket_id: body.ticketId,
+        p_seller_email: user.email,
+        p_price: body.price,
+      });
+      if (error) {
+        throw toTicketResaleError(error.message) || new Error(error.message);
+      }
+
+      console.log("[resale-ticket] Listed", { ticketId: body.ticketId, listingId: listing?.id, price: body.price });
+      return json({ listing }, 200);
+    }
+
+    if (!body.listingId) {
+      return json({ error: "Missing required field: listingId" }, 400);
+    }
+
+    if (action === "cancel") {
+      const { data: listing, error } = await supabase.rpc("cancel_resale_listing", {
+        p_listing_id: body.listingId,
+        p_seller_email: user.email,
+      });
+      if (error) {
+        throw toTicketResaleError(error.message) || new Error(error.message);
+      }
+      return json({ listing }, 200);
+    }
+
+    // Checkout: hold the listing for this buyer, then send them to Stripe
+    const { successUrl, cancelUrl } = body;
+    if (!successUrl || !cancelUrl) {
+      return json({ error: "Missing required fields: successUrl, cancelUrl" }, 400);
+    }
+
+    const buyerName = body.buyerName?.trim()
+      || user.user_metadata?.full_name
+      || [user.user_metadata?.first_name, user.user_metadata?.last_name].filter(Boolean).join(" ")
+      || user.email;
+
+    const { data: reserved, error: reserveError } = await supabase.rpc("reserve_resale_listing", {
+      p_listing_id: body.listingId,
+      p_buyer_email: user.email,
+      p_buyer_name: buyerName,
+      p_hold_minutes: CHECKOUT_HOLD_MINUTES,
+    });
+    if (reserveError) {
+      throw toTicketResaleError(reserveError.message) || new Error(reserveError.message);
+    }
+
+    const listing = reserved as ReservedListing;
+    const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") || "", {
+      apiVersion: "2023-10-16",
+    });
+
+    const session = await stripe.checkout.sessions.create({
+      mode: "payment",
+      locale: resolveLocale(body.locale),
+      customer_email: user.email,
+      expires_at: Math.floor(Date.now() / 1000) + CHECKOUT_SESSION_MINUTES * 60,
+      line_items: [
+        {
+          price_data: {
+            currency: "usd",
+            product_data: {
+              name: `${listing.ticket_type_name || "Ticket"} (resale)`,
+              description: `${listing.event_name} — ${listing.event_date}`,
+            },
+            unit_amount: toResaleAmountCents(listing.price),
+          },
+          quantity: 1,
+        },
+      ],
+      success_url: `${successUrl}${successUrl.includes("?") ? "&" : "?"}resale_purchased=true`,
+      cancel_url: `${cancelUrl}${cancelUrl.includes("?") ? "&" : "?"}resale_canceled=true`,
+      metadata: {
+        // Tells stripe-webhook this is not a ticket order
+        type: "ticket_resale",
+        listingId: listing.listing_id,
+        ticketId: listing.ticket_id,
+      },
+    });
+
+    await supabase
+      .from("ticket_resale_listings")
+      .update({ stripe_session_id: session.id })
+      .eq("id", listing.listing_id);
+
+    return json({ url: session.url, listingId: listing.listing_id }, 200);
+  } catch (error) {
+    if (error instanceof TicketResaleError) {
+      return json({ error: error.message }, error.status);
+    }
+    console.error("Resale ticket error:", error);
+    return json({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
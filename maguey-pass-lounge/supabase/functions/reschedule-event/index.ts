@@ -0,0 +1,127 @@
+/**
+ * Reschedule Event
+ *
+ * POST /reschedule-event
+ *   { eventId, newDate, newTime, refundDeadline, reason? }
+ *     -> { rescheduleId, holders, emailsQueued, remindersReset, splitTablesSkipped }
+ *
+ * Used by Event Management on the scanner app. Needs manage_events and
+ * refund for the event (see user_has_permission). Moves the
+ * event to the new date (tickets and VIP reservations follow it), re-arms
+ * the 24h and 2h reminders and emails every paid holder a link to keep
+ * their tickets or ask for a refund before refundDeadline (see
+ * _shared/event-reschedule.ts). Refunds are handled by
+ * respond-to-reschedule.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getCorsHeaders, handleCorsPreFlight } from "../_shared/cors.ts";
+import {
+  announceReschedule,
+  toRescheduleError,
+  type RescheduledEvent,
+} from "../_shared/event-reschedule.ts";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^\d{2}:\d{2}(:\d{2})?$/;
+
+interface RescheduleRequest {
+  eventId?: string;
+  newDate?: string;
+  newTime?: string;
+  refundDeadline?: string;
+  reason?: string;
+}
+
+serve(async (req) => {
+  const preflightResponse = handleCorsPreFlight(req);
+  if (preflightResponse) return preflightResponse;
+
+  const corsHeaders = getCorsHeaders(req);
+  const json = (body: unknown, status: number) =>
+    new Response(JSON.stringify(body), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status,
+    });
+
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || ""
+    );
+
+    const jwt = (req.headers.get("Authorization") || "").replace(/^Bearer\s+/i, "");
+    const { data: { user } } = await supabase.auth.getUser(jwt);
+    if (!user) {
+      return json({ error: "Sign in required" }, 401);
+    }
+
+    const { eventId, newDate, newTime, refundDeadline, reason } = await req.json() as RescheduleRequest;
+    if (!eventId || !newDate || !newTime || !refundDeadline) {
+      return json({ error: "Missing required fields: eventId, newDate, newTime, refundDeadline" }, 400);
+    }
+    if (!DATE_PATTERN.test(newDate) || !TIME_PATTERN.test(newTime)) {
+      return json({ error: "newDate must be YYYY-MM-DD and newTime HH:MM" }, 400);
+    }
+    if (isNaN(new Date(refundDeadline).getTime())) {
+      return json({ error: "refundDeadline must be a date and time" }, 400);
+    }
+
+    // Rescheduling moves the event and refunds anyone who asks, so it needs
+    // both permissions for this event (owners have every permission)
+    for (const permission of ["manage_events", "refund"]) {
+      const { data: allowed, error: permissionError } = await supabase.rpc("user_has_permission", {
+        p_user_id: user.id,
+        p_permission: permission,
+        p_event_id: eventId,
+      });
+      if (permissionError) throw new Error(permissionError.message);
+      if (!allowed) {
+        return json({ error: "You need Manage events and Refund tickets for this event to reschedule it" }, 403);
+      }
+    }
+
+    const { data, error: rescheduleError } = await supabase.rpc("reschedule_event", {
+      p_event_id: eventId,
+      p_new_date: newDate,
+      p_new_time: newTime,
+      p_refund_deadline: new Date(refundDeadline).toISOString(),
+      p_reason: reason?.trim() || null,
+      p_rescheduled_by: user.id,
+    });
+    if (rescheduleError) {
+      const error = toRescheduleError(rescheduleError.message);
+      if (error) {
+        return json({ error: error.message }, error.status);
+      }
+      throw new Error(rescheduleError.message);
+    }
+
+    const event = data as RescheduledEvent;
+    const emailsQueued = await announceReschedule(supabase, event);
+
+    console.log("[reschedule-event] Rescheduled", {
+      eventId,
+      from: `${event.previous_date} ${event.previous_time}`,
+      to: `${event.new_date} ${event.new_time}`,
+      holders: event.responses.length,
+      by: user.email,
+    });
+
+    return json({
+      rescheduleId: event.reschedule_id,
+      holders: event.responses.length,
+      emailsQueued,
+      remindersReset: event.reminders_reset,
+      splitTablesSkipped: event.split_tables_skipped,
+    }, 200);
+  } catch (error) {
+    console.error("[reschedule-event] Error:", error);
+    return json({ error: error instanceof Error ? error.message : "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,99 @@
+/**
+ * Respond to Reschedule
+ *
+ * POST /respond-to-reschedule  { token, choice: "keep" | "refund" }
+ *   -> { choice, refundStatus }
+ *
+ * token is the response_token from the holder's link
+ * (/reschedule/:token); the link page reads it with
+ * get_event_reschedule_response. No sign-in is needed — the link is the
+ * credential, like a ticket QR code.
+ *
+ * "refund" refunds the whole order or VIP reservation through Stripe and
+ * voids its tickets and passes. Refunds are only possible until the
+ * reschedule's refund deadline; keeping is the default either way.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { checkRateLimit } from "../_shared/rate-limiter.ts";
+import { getCorsHeaders, handleCorsPreFlight } from "../_shared/cors.ts";
+import {
+  refundRescheduleResponse,
+  toRescheduleError,
+  type RescheduleChoice,
+  type RescheduleResponse,
+} from "../_shared/event-reschedule.ts";
+
+const CHOICES: RescheduleChoice[] = ["keep", "refund"];
+
+serve(async (req) => {
+  const preflightResponse = handleCorsPreFlight(req);
+  if (preflightResponse) return preflightResponse;
+
+  const corsHeaders = getCorsHeaders(req);
+  const json = (body: unknown, status: number) =>
+    new Response(JSON.stringify(body), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status,
+    });
+
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  // Rate limiting: 20 req/min per IP (same tier as payment endpoints)
+  const { allowed, response: rateLimitResponse } = await checkRateLimit(req, "payment");
+  if (!allowed) {
+    return rateLimitResponse!;
+  }
+
+  try {
+    const { token, choice } = await req.json() as { token?: string; choice?: RescheduleChoice };
+    if (!token || !choice) {
+      return json({ error: "Missing required fields: token, choice" }, 400);
+    }
+    if (!CHOICES.includes(choice)) {
+      return json({ error: `choice must be one of: ${CHOICES.join(", ")}` }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || ""
+    );
+
+    const { data, error: choiceError } = await supabase.rpc("record_reschedule_choice", {
+      p_token: token,
+      p_choice: choice,
+    });
+    if (choiceError) {
+      const error = toRescheduleError(choiceError.message);
+      if (error) {
+        return json({ error: error.message }, error.status);
+      }
+      throw new Error(choiceError.message);
+    }
+
+    const response = data as RescheduleResponse;
+    if (choice === "keep") {
+      return json({ choice, refundStatus: null }, 200);
+    }
+
+    const { data: reschedule } = await supabase
+      .from("event_reschedules")
+      .select("events ( name )")
+      .eq("id", response.reschedule_id)
+      .maybeSingle();
+
+    const refunded = await refundRescheduleResponse(supabase, response, reschedule?.events?.name || "your event");
+    if (!refunded) {
+      return json({ error: "We couldn't process your refund. Please try again or contact us." }, 502);
+    }
+
+    console.log("[respond-to-reschedule] Refunded", { responseId: response.id, amountCents: response.amount_cents });
+    return json({ choice, refundStatus: "refunded" }, 200);
+  } catch (error) {
+    console.error("[respond-to-reschedule] Error:", error);
+    return json({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
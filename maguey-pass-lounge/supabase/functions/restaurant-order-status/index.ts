@@ -0,0 +1,122 @@
+/**
+ * Restaurant Order Status
+ *
+ * POST /restaurant-order-status  { orderId, status }
+ *   -> { order }
+ *
+ * Used by the scanner app's kitchen board to move orders through
+ * received -> preparing -> ready -> completed (or cancelled). Requires a
+ * signed-in staff member (app_metadata role owner, promoter or employee).
+ * The guest is emailed/texted on each change, and a cancelled paid order
+ * is refunded in full.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import Stripe from "https://esm.sh/stripe@12.0.0?target=deno";
+import { getCorsHeaders, handleCorsPreFlight } from "../_shared/cors.ts";
+import {
+  canManageRestaurantOrders,
+  canTransitionRestaurantOrder,
+  notifyRestaurantOrderStatus,
+  STATUS_TIMESTAMP_COLUMNS,
+  type RestaurantOrderRow,
+  type RestaurantOrderStatus,
+} from "../_shared/restaurant-orders.ts";
+
+serve(async (req) => {
+  const preflightResponse = handleCorsPreFlight(req);
+  if (preflightResponse) return preflightResponse;
+
+  const corsHeaders = getCorsHeaders(req);
+  const json = (body: unknown, status: number) =>
+    new Response(JSON.stringify(body), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status,
+    });
+
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || ""
+    );
+
+    // Staff only: the anon key alone is not enough
+    const jwt = (req.headers.get("Authorization") || "").replace(/^Bearer\s+/i, "");
+    const { data: { user } } = await supabase.auth.getUser(jwt);
+    if (!user) {
+      return json({ error: "Sign in required" }, 401);
+    }
+    if (!canManageRestaurantOrders(user)) {
+      return json({ error: "Only staff can update restaurant orders" }, 403);
+    }
+
+    const { orderId, status } = await req.json() as { orderId?: string; status?: RestaurantOrderStatus };
+    if (!orderId || !status) {
+      return json({ error: "Missing required fields: orderId, status" }, 400);
+    }
+
+    const { data: current, error: loadError } = await supabase
+      .from("restaurant_orders")
+      .select("*")
+      .eq("id", orderId)
+      .maybeSingle();
+
+    if (loadError) {
+      throw new Error(loadError.message);
+    }
+    if (!current) {
+      return json({ error: "Order not found" }, 404);
+    }
+
+    const order = current as RestaurantOrderRow;
+    if (!canTransitionRestaurantOrder(order.status, status)) {
+      return json({ error: `Cannot move order from ${order.status} to ${status}` }, 409);
+    }
+
+    const timestampColumn = STATUS_TIMESTAMP_COLUMNS[status];
+    const { data: updated, error: updateError } = await supabase
+      .from("restaurant_orders")
+      .update({
+        status,
+        ...(timestampColumn && { [timestampColumn]: new Date().toISOString() }),
+      })
+      .eq("id", orderId)
+      // Another device may have moved the order first
+      .eq("status", order.status)
+      .select("*")
+      .maybeSingle();
+
+    if (updateError) {
+      throw new Error(updateError.message);
+    }
+    if (!updated) {
+      return json({ error: "Order was updated by someone else, refresh and try again" }, 409);
+    }
+
+    let warning: string | undefined;
+    if (status === "cancelled" && order.stripe_payment_intent_id) {
+      const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") || "", {
+        apiVersion: "2023-10-16",
+      });
+      try {
+        await stripe.refunds.create({ payment_intent: order.stripe_payment_intent_id });
+      } catch (refundError) {
+        console.error("[restaurant-order-status] Refund failed:", refundError);
+        warning = "Order cancelled but the refund failed — refund it from Stripe";
+      }
+    }
+
+    await notifyRestaurantOrderStatus(supabase, updated as RestaurantOrderRow, status);
+
+    console.log("[restaurant-order-status] Updated", { orderId, from: order.status, to: status, by: user.email });
+    return json({ order: updated, warning }, 200);
+  } catch (error) {
+    console.error("[restaurant-order-status] Error:", error);
+    return json({ error: error instanceof Error ? error.message : "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,174 @@
+/**
+ * Review Purchase
+ *
+ * POST /review-purchase  { orderId, decision: "approved" | "rejected", notes? }
+ *   -> { review, warning? }
+ *
+ * Used by the purchase review queue on the scanner app's Security Alerts
+ * page. Owners only. Orders are held by stripe-webhook when their purchase
+ * risk calls for it (see _shared/purchase-risk.ts); their tickets are void
+ * until reviewed:
+ *   approved -> tickets restored and the ticket email sent
+ *   rejected -> payment refunded in full; the tickets stay void and are
+ *               marked refunded by the charge.refunded webhook
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import Stripe from "https://esm.sh/stripe@12.0.0?target=deno";
+import { getCorsHeaders, handleCorsPreFlight } from "../_shared/cors.ts";
+import { resolveLocale } from "../_shared/translations.ts";
+import { buildTicketEmail } from "../_shared/ticket-email.ts";
+import { toPurchaseReviewError } from "../_shared/purchase-risk.ts";
+
+type ReviewDecision = "approved" | "rejected";
+const DECISIONS: ReviewDecision[] = ["approved", "rejected"];
+
+/** Row returned by resolve_purchase_review */
+interface ResolvedReview {
+  order_id: string;
+  event_id: string;
+  purchaser_email: string;
+  purchaser_name: string | null;
+  stripe_payment_intent_id: string | null;
+  locale: string | null;
+  review_status: ReviewDecision;
+  tickets_updated: number;
+}
+
+serve(async (req) => {
+  const preflightResponse = handleCorsPreFlight(req);
+  if (preflightResponse) return preflightResponse;
+
+  const corsHeaders = getCorsHeaders(req);
+  const json = (body: unknown, status: number) =>
+    new Response(JSON.stringify(body), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status,
+    });
+
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || ""
+    );
+
+    const jwt = (req.headers.get("Authorization") || "").replace(/^Bearer\s+/i, "");
+    const { data: { user } } = await supabase.auth.getUser(jwt);
+    if (!user) {
+      return json({ error: "Sign in required" }, 401);
+    }
+    if (user.app_metadata?.role !== "owner") {
+      return json({ error: "Only owners can review purchases" }, 403);
+    }
+
+    const { orderId, decision, notes } = await req.json() as {
+      orderId?: string;
+      decision?: ReviewDecision;
+      notes?: string;
+    };
+    if (!orderId || !decision) {
+      return json({ error: "Missing required fields: orderId, decision" }, 400);
+    }
+    if (!DECISIONS.includes(decision)) {
+      return json({ error: `decision must be one of: ${DECISIONS.join(", ")}` }, 400);
+    }
+
+    const { data, error: resolveError } = await supabase.rpc("resolve_purchase_review", {
+      p_order_id: orderId,
+      p_decision: decision,
+      p_notes: notes?.trim() || null,
+      p_reviewed_by: user.id,
+    });
+    if (resolveError) {
+      const reviewError = toPurchaseReviewError(resolveError.message);
+      if (reviewError) {
+        return json({ error: reviewError.message }, reviewError.status);
+      }
+      throw new Error(resolveError.message);
+    }
+
+    const review = data as ResolvedReview;
+    let warning: string | undefined;
+
+    if (decision === "rejected") {
+      if (!review.stripe_payment_intent_id) {
+        warning = "Order rejected but has no payment to refund";
+      } else {
+        const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") || "", {
+          apiVersion: "2023-10-16",
+        });
+        try {
+          await stripe.refunds.create(
+            {
+              payment_intent: review.stripe_payment_intent_id,
+              reason: "fraudulent",
+              metadata: { type: "purchase_review", orderId },
+            },
+            { idempotencyKey: `purchase-review-${orderId}` }
+          );
+        } catch (refundError) {
+          console.error("[review-purchase] Refund failed:", refundError);
+          warning = "Order rejected but the refund failed — refund it from Stripe";
+        }
+      }
+    } else {
+      await sendApprovedTicketEmail(supabase, review);
+    }
+
+    console.log("[review-purchase] Reviewed", { orderId, decision, by: user.email });
+    return json({ review, warning }, 200);
+  } catch (error) {
+    console.error("[review-purchase] Error:", error);
+    return json({ error: error instanceof Error ? error.message : "Internal server error" }, 500);
+  }
+});
+
+/** The confirmation the webhook held back while the order was under review */
+async function sendApprovedTicketEmail(
+  supabase: ReturnType<typeof createClient>,
+  review: ResolvedReview
+): Promise<void> {
+  const { data: tickets, error } = await supabase
+    .from("tickets")
+    .select("ticket_id, qr_token, attendee_name, ticket_types(name), events(name, event_date, event_time, venue_name)")
+    .eq("order_id", review.order_id)
+    .eq("refund_status", "none");
+
+  if (error || !tickets?.length) {
+    console.error("[review-purchase] No tickets to email:", review.order_id, error?.message);
+    return;
+  }
+
+  const customerName = review.purchaser_name || "Guest";
+  const locale = resolveLocale(review.locale);
+  const { subject, html } = buildTicketEmail(customerName, review.order_id, tickets.map((ticket: any) => ({
+    ticketId: ticket.ticket_id,
+    eventName: ticket.events?.name || "Event",
+    eventDate: ticket.events?.event_date || "",
+    eventTime: ticket.events?.event_time || "",
+    venueName: ticket.events?.venue_name || "Maguey Nightclub",
+    ticketType: ticket.ticket_types?.name || "Ticket",
+    customerName: ticket.attendee_name || customerName,
+    qrToken: ticket.qr_token,
+  })), locale);
+
+  const { error: queueError } = await supabase.from("email_queue").insert({
+    email_type: "ga_ticket",
+    recipient_email: review.purchaser_email,
+    subject,
+    html_body: html,
+    related_id: review.order_id,
+    status: "pending",
+    attempt_count: 0,
+    max_attempts: 5,
+    next_retry_at: new Date().toISOString(),
+  });
+  if (queueError) {
+    console.error("[review-purchase] Failed to queue ticket email:", queueError.message);
+  }
+}
@@ -0,0 +1,237 @@
+/**
+ * Settle VIP Splits
+ *
+ * Cron worker (every 15 minutes, see 20260413000000_vip_split_payment.sql).
+ * Claims split reservations past their deadline with unpaid shares and,
+ * depending on the host's choice at booking:
+ *   charge_host -> charges the remainder to the card saved on the host's
+ *                  payment and confirms the table
+ *   release     -> cancels the reservation, puts the table back on sale and
+ *                  refunds every paid share
+ *
+ * A declined off-session charge falls back to release. Claims are leased,
+ * so a run that dies mid-way is picked up again once the lease expires.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import Stripe from "https://esm.sh/stripe@12.0.0?target=deno";
+import { getCorsHeaders, handleCorsPreFlight } from "../_shared/cors.ts";
+import {
+  buildSplitReleasedEmail,
+  buildSplitSettledEmail,
+  queueSplitEmail,
+  type DueVipSplit,
+  type SplitRefund,
+} from "../_shared/vip-split-payment.ts";
+
+const LEASE_SECONDS = 300;
+const BATCH_SIZE = 10;
+
+// ============================================
+// Outcomes
+// ============================================
+
+async function chargeHost(
+  supabase: SupabaseClient,
+  stripe: Stripe,
+  split: DueVipSplit
+): Promise<boolean> {
+  if (!split.stripe_customer_id || !split.stripe_payment_method_id) {
+    console.warn(`[settle-vip-splits] No saved card for ${split.reservation_id}, releasing`);
+    return false;
+  }
+
+  let paymentIntent: Stripe.PaymentIntent;
+  try {
+    paymentIntent = await stripe.paymentIntents.create(
+      {
+        amount: split.outstanding_cents,
+        currency: "usd",
+        customer: split.stripe_customer_id,
+        payment_method: split.stripe_payment_method_id,
+        off_session: true,
+        confirm: true,
+        description: `VIP table remaining balance - ${split.event_name}`,
+        metadata: {
+          type: "vip_split_remainder",
+          reservationId: split.reservation_id,
+        },
+      },
+      // A retried run must not charge the host twice
+      { idempotencyKey: `vip-split-remainder-${split.reservation_id}` }
+    );
+  } catch (chargeError) {
+    console.warn(`[settle-vip-splits] Remainder charge declined for ${split.reservation_id}:`, chargeError);
+    return false;
+  }
+
+  if (paymentIntent.status !== "succeeded") {
+    console.warn(`[settle-vip-splits] Remainder charge ${paymentIntent.id} is ${paymentIntent.status}, releasing`);
+    return false;
+  }
+
+  const { data, error } = await supabase.rpc("settle_vip_split", {
+    p_reservation_id: split.reservation_id,
+    p_outcome: "host_charged",
+    p_payment_intent_id: paymentIntent.id,
+  });
+  if (error?.message.includes("already settled")) {
+    // The last invitee paid while the host was being charged
+    await stripe.refunds.create(
+      { payment_intent: paymentIntent.id },
+      { idempotencyKey: `vip-split-remainder-refund-${split.reservation_id}` }
+    );
+    return true;
+  }
+  if (error) {
+    // The charge went through; leave the lease to expire and retry. The
+    // idempotency key returns the same payment intent next time.
+    throw new Error(`settle host_charged: ${error.message}`);
+  }
+
+  await queueSplitEmail(
+    supabase,
+    "vip_split_settled",
+    split.host_email,
+    buildSplitSettledEmail({
+      locale: split.locale,
+      hostName: split.host_name,
+      reservationId: split.reservation_id,
+      eventName: split.event_name,
+      tableNumber: split.table_number,
+      chargedCents: split.outstanding_cents,
+      hostPasses: data?.host_passes || [],
+    }),
+    split.reservation_id
+  );
+  return true;
+}
+
+async function releaseTable(
+  supabase: SupabaseClient,
+  stripe: Stripe,
+  split: DueVipSplit,
+  errors: string[]
+): Promise<void> {
+  const { data, error } = await supabase.rpc("settle_vip_split", {
+    p_reservation_id: split.reservation_id,
+    p_outcome: "released",
+  });
+  if (error) {
+    throw new Error(`settle released: ${error.message}`);
+  }
+
+  const refunds = (data?.refunds || []) as SplitRefund[];
+  const invitees = (data?.invitees || []) as Array<{ email: string; name: string | null }>;
+  const refundedCents = new Map<string, number>();
+
+  for (const share of refunds) {
+    if (!share.payment_intent_id) continue;
+    try {
+      // The host's payment also covers their entry ticket, so only the
+      // table share is refunded and the ticket stays valid
+      const refund = await stripe.refunds.create(
+        {
+          payment_intent: share.payment_intent_id,
+          amount: share.amount_cents,
+          metadata: { type: "vip_split_release", shareId: share.share_id },
+        },
+        { idempotencyKey: `vip-split-refund-${share.share_id}` }
+      );
+      await supabase.rpc("record_vip_share_refund", {
+        p_share_id: share.share_id,
+        p_refund_id: refund.id,
+      });
+      refundedCents.set(share.payer_email.toLowerCase(), share.amount_cents);
+    } catch (refundError) {
+      const message = refundError instanceof Error ? refundError.message : String(refundError);
+      console.error(`[settle-vip-splits] Refund failed for share ${share.share_id}:`, message);
+      errors.push(`refund ${share.share_id}: ${message}`);
+    }
+  }
+
+  const recipients = [
+    { email: split.host_email, name: split.host_name, isHost: true },
+    ...invitees.map((invitee) => ({ email: invitee.email, name: invitee.name, isHost: false })),
+  ];
+
+  for (const recipient of recipients) {
+    await queueSplitEmail(
+      supabase,
+      "vip_split_released",
+      recipient.email,
+      buildSplitReleasedEmail({
+        locale: split.locale,
+        recipientName: recipient.name,
+        isHost: recipient.isHost,
+        eventName: split.event_name,
+        tableNumber: split.table_number,
+        refundCents: refundedCents.get(recipient.email.toLowerCase()) ?? null,
+      }),
+      split.reservation_id
+    );
+  }
+}
+
+// ============================================
+// Main Handler
+// ============================================
+
+serve(async (req) => {
+  const corsResponse = handleCorsPreFlight(req);
+  if (corsResponse) return corsResponse;
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+  const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") || "", {
+    apiVersion: "2023-10-16",
+  });
+
+  const results = {
+    claimed: 0,
+    hostCharged: 0,
+    released: 0,
+    errors: [] as string[],
+    timestamp: new Date().toISOString(),
+  };
+
+  const { data: due, error: claimError } = await supabase.rpc("claim_due_vip_splits", {
+    p_lease_seconds: LEASE_SECONDS,
+    p_limit: BATCH_SIZE,
+  });
+
+  if (claimError) {
+    console.error("[settle-vip-splits] Claim failed:", claimError.message);
+    results.errors.push(`claim: ${claimError.message}`);
+  }
+
+  for (const split of (due || []) as DueVipSplit[]) {
+    results.claimed++;
+    try {
+      const charged = split.split_fallback === "charge_host"
+        && split.outstanding_cents > 0
+        && await chargeHost(supabase, stripe, split);
+
+      if (charged) {
+        results.hostCharged++;
+      } else {
+        await releaseTable(supabase, stripe, split, results.errors);
+        results.released++;
+      }
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      console.error(`[settle-vip-splits] ${split.reservation_id}:`, message);
+      results.errors.push(`${split.reservation_id}: ${message}`);
+    }
+  }
+
+  console.log("Split settlement run complete:", results);
+
+  return new Response(JSON.stringify(results), {
+    status: 200,
+    headers: { ...getCorsHeaders(req), "Content-Type": "application/json" },
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Settle VIP Tab
+ *
+ * POST /settle-vip-tab  { reservationId, method: "card" | "venue" }
+ *   -> { chargedCents, method, paymentIntentId? }
+ *
+ * Used by the scanner app's bottle service board at the end of the night.
+ * Requires a signed-in staff member. The table owes the larger of its
+ * delivered bottle orders and its minimum spend:
+ *   card  -> charged off-session to the card saved when the table was booked
+ *   venue -> recorded as paid at the venue (cash or the bar's terminal)
+ *
+ * A declined card leaves the tab failed with a 402, so staff can collect at
+ * the venue and settle again with method "venue". The host is emailed a
+ * receipt once the tab is settled.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import Stripe from "https://esm.sh/stripe@12.0.0?target=deno";
+import { getCorsHeaders, handleCorsPreFlight } from "../_shared/cors.ts";
+import {
+  buildTabReceiptEmail,
+  queueTabReceiptEmail,
+  tabAmountDue,
+  toVipTabError,
+  type TabReceiptItem,
+  type TabSettlementMethod,
+  type VipTabSettlement,
+} from "../_shared/vip-bottle-service.ts";
+
+const STAFF_ROLES = ["owner", "promoter", "employee"];
+const METHODS: TabSettlementMethod[] = ["card", "venue"];
+
+serve(async (req) => {
+  const preflightResponse = handleCorsPreFlight(req);
+  if (preflightResponse) return preflightResponse;
+
+  const corsHeaders = getCorsHeaders(req);
+  const json = (body: unknown, status: number) =>
+    new Response(JSON.stringify(body), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status,
+    });
+
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || ""
+    );
+
+    const jwt = (req.headers.get("Authorization") || "").replace(/^Bearer\s+/i, "");
+    const { data: { user } } = await supabase.auth.getUser(jwt);
+    if (!user) {
+      return json({ error: "Sign in required" }, 401);
+    }
+    if (!STAFF_ROLES.includes(user.app_metadata?.role)) {
+      return json({ error: "Only staff can settle tabs" }, 403);
+    }
+
+    const { reservationId, method } = await req.json() as { reservationId?: string; method?: TabSettlementMethod };
+    if (!reservationId || !method) {
+      return json({ error: "Missing required fields: reservationId, method" }, 400);
+    }
+    if (!METHODS.includes(method)) {
+      return json({ error: `method must be one of: ${METHODS.join(", ")}` }, 400);
+    }
+
+    const { data: begun, error: beginError } = await supabase.rpc("begin_vip_tab_settlement", {
+      p_reservation_id: reservationId,
+    });
+    if (beginError) {
+      const tabError = toVipTabError(beginError.message);
+      if (tabError) {
+        return json({ error: tabError.message }, tabError.status);
+      }
+      throw new Error(beginError.message);
+    }
+
+    const tab = begun as VipTabSettlement;
+    const amountDue = tabAmountDue(tab.orders_cents, tab.minimum_spend_cents);
+
+    const finish = async (params: Record<string, unknown>) => {
+      const { error } = await supabase.rpc("finish_vip_tab_settlement", {
+        p_tab_id: tab.tab_id,
+        p_settled_by: user.id,
+        ...params,
+      });
+      if (error) {
+        throw new Error(`finish settlement: ${error.message}`);
+      }
+    };
+
+    let paymentIntentId: string | undefined;
+    if (method === "card" && amountDue > 0) {
+      if (!tab.stripe_customer_id || !tab.stripe_payment_method_id) {
+        await finish({ p_outcome: "failed", p_failure_reason: "No card on file" });
+        return json({ error: "No card on file for this table — collect payment at the venue" }, 402);
+      }
+
+      const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") || "", {
+        apiVersion: "2023-10-16",
+      });
+
+      let declineReason: string | null = null;
+      try {
+        const paymentIntent = await stripe.paymentIntents.create(
+          {
+            amount: amountDue,
+            currency: "usd",
+            customer: tab.stripe_customer_id,
+            payment_method: tab.stripe_payment_method_id,
+            off_session: true,
+            confirm: true,
+            description: tab.table_number
+              ? `VIP Table ${tab.table_number} bottle service - ${tab.event_name}`
+              : `VIP table bottle service - ${tab.event_name}`,
+            metadata: {
+              type: "vip_bottle_tab",
+              reservationId,
+              tabId: tab.tab_id,
+            },
+          },
+          // Settling again after a crash must not charge the table twice
+          { idempotencyKey: `vip-tab-${tab.tab_id}` }
+        );
+        paymentIntentId = paymentIntent.id;
+        if (paymentIntent.status !== "succeeded") {
+          declineReason = `Payment ${paymentIntent.status}`;
+        }
+      } catch (chargeError) {
+        console.warn(`[settle-vip-tab] Charge declined for ${reservationId}:`, chargeError);
+        declineReason = chargeError instanceof Error ? chargeError.message : "Card declined";
+      }
+
+      if (declineReason) {
+        await finish({ p_outcome: "failed", p_payment_intent_id: paymentIntentId ?? null, p_failure_reason: declineReason });
+        return json({ error: `Card declined (${declineReason}) — collect payment at the venue` }, 402);
+      }
+    }
+
+    await finish({
+      p_outcome: "settled",
+      p_method: amountDue === 0 ? "none" : method,
+      p_charged_cents: amountDue,
+      p_payment_intent_id: paymentIntentId ?? null,
+    });
+
+    const { data: items } = await supabase
+      .from("vip_bottle_order_items")
+      .select("name, quantity, line_total_cents, vip_bottle_orders!inner(tab_id, status)")
+      .eq("vip_bottle_orders.tab_id", tab.tab_id)
+      .eq("vip_bottle_orders.status", "delivered");
+
+    await queueTabReceiptEmail(
+      supabase,
+      tab.purchaser_email,
+      buildTabReceiptEmail({
+        locale: tab.locale,
+        hostName: tab.purchaser_name,
+        eventName: tab.event_name,
+        tableNumber: tab.table_number,
+        items: (items || []) as TabReceiptItem[],
+        ordersCents: tab.orders_cents,
+        minimumSpendCents: tab.minimum_spend_cents,
+        chargedCents: amountDue,
+        method,
+      }),
+      tab.tab_id
+    );
+
+    console.log("[settle-vip-tab] Settled", { reservationId, method, amountDue, by: user.email });
+    return json({ chargedCents: amountDue, method, paymentIntentId }, 200);
+  } catch (error) {
+    console.error("[settle-vip-tab] Error:", error);
+    return json({ error: error instanceof Error ? error.message : "Internal server error" }, 500);
+  }
+});
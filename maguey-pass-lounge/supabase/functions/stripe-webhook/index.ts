@@ -4,8 +4,40 @@ import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts";
 
 import QRCode from "https://esm.sh/qrcode@1.5.3";
 import { createLogger, getRequestId } from "../_shared/logger.ts";
-import { initSentry, captureError, setRequestContext } from "../_shared/sentry.ts";
+import { initSentry, captureError, captureMessage, setRequestContext } from "../_shared/sentry.ts";
 import { getCorsHeaders, handleCorsPreFlight } from "../_shared/cors.ts";
+import {
+  emailTranslator,
+  formatEmailCurrency,
+  formatEmailDate,
+  resolveLocale,
+  type Locale,
+} from "../_shared/translations.ts";
+import { markRestaurantOrderPaid } from "../_shared/restaurant-orders.ts";
+import { completeTicketUpgrade, refundTicketUpgrade } from "../_shared/ticket-upgrades.ts";
+import {
+  announceResaleSale,
+  completeResaleSale,
+  payResaleSeller,
+  refundResalePurchase,
+} from "../_shared/ticket-resale.ts";
+import {
+  closePaymentDispute,
+  recordPaymentDispute,
+  toDisputeParams,
+  voidRefundedPayment,
+  type RecordedDispute,
+  type StripeDisputeLike,
+} from "../_shared/payment-disputes.ts";
+import {
+  announceSharePayment,
+  recordVipSharePayment,
+  refundSharePayment,
+  sendSplitInvites,
+} from "../_shared/vip-split-payment.ts";
+import { traceHandler } from "../_shared/tracing.ts";
+import { buildTicketEmail, type TicketEmailData } from "../_shared/ticket-email.ts";
+import { assessPaidOrder, recordCheckoutPaymentFailure } from "../_shared/purchase-risk.ts";
 
 // Initialize Sentry at module level (before serve)
 initSentry();
@@ -87,6 +119,47 @@ async function notifyPaymentFailure(data: PaymentFailureData): Promise<void> {
   }
 }
 
+// ============================================
+// Payment Dispute Notification
+// ============================================
+
+// The owner is emailed from here; the admin console's alert only fires while
+// someone has it open
+async function notifyPaymentDispute(dispute: StripeDisputeLike, recorded: RecordedDispute): Promise<void> {
+  const params = toDisputeParams(dispute);
+  try {
+    const response = await fetch(
+      `${Deno.env.get("SUPABASE_URL")}/functions/v1/notify-payment-dispute`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+        },
+        body: JSON.stringify({
+          stripeDisputeId: dispute.id,
+          amount: params.p_amount,
+          currency: params.p_currency,
+          reason: params.p_reason,
+          evidenceDueBy: params.p_evidence_due_by,
+          orderId: recorded.order_id,
+          vipReservationId: recorded.vip_reservation_id,
+          eventId: recorded.event_id,
+          ticketsVoided: recorded.tickets_voided,
+          passesVoided: recorded.passes_voided,
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      console.log(JSON.stringify({ level: 'error', message: 'Failed to notify payment dispute', context: { response: await response.text() } }));
+    }
+  } catch (error) {
+    console.log(JSON.stringify({ level: 'error', message: 'Error calling notify-payment-dispute', context: { error: error.message } }));
+    // Don't throw - notification failure should not affect webhook response
+  }
+}
+
 // ============================================
 // QR Code Signing (via database RPC — secret stored in Supabase Vault)
 // ============================================
@@ -156,6 +229,8 @@ interface QueueEmailParams {
   subject: string;
   htmlBody: string;
   relatedId?: string;
+  /** Trace the email belongs to, continued by process-email-queue */
+  traceparent?: string;
 }
 
 async function queueEmail(
@@ -170,6 +245,7 @@ async function queueEmail(
       subject: params.subject,
       html_body: params.htmlBody,
       related_id: params.relatedId,
+      traceparent: params.traceparent ?? null,
       status: 'pending',
       attempt_count: 0,
       max_attempts: 5,
@@ -202,21 +278,6 @@ async function queueEmail(
   }
 }
 
-// ============================================
-// Email Service (HTML Generation)
-// ============================================
-
-interface TicketEmailData {
-  ticketId: string;
-  eventName: string;
-  eventDate: string;
-  eventTime: string;
-  venueName: string;
-  ticketType: string;
-  customerName: string;
-  qrToken: string;
-}
-
 // ============================================
 // VIP Confirmation Email
 // ============================================
@@ -246,6 +307,7 @@ interface VipEmailData {
     qrSignature: string;
     qrImageDataUrl?: string; // Base64 QR code image
   }>;
+  locale: Locale;
 }
 
 async function sendVipConfirmationEmail(
@@ -253,19 +315,15 @@ async function sendVipConfirmationEmail(
   data: VipEmailData
 ): Promise<void> {
   const frontendUrl = Deno.env.get("FRONTEND_URL") || "https://tickets.magueynightclub.com";
+  const t = emailTranslator(data.locale);
 
-  const formattedDate = new Date(data.eventDate).toLocaleDateString('en-US', {
-    weekday: 'long',
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-  });
+  const formattedDate = formatEmailDate(data.eventDate, data.locale);
 
   const tierLabel = {
-    premium: 'Premium',
-    front_row: 'Front Row',
-    standard: 'Standard',
-    regular: 'Regular',
+    premium: t('vip.tierPremium'),
+    front_row: t('vip.tierFrontRow'),
+    standard: t('vip.tierStandard'),
+    regular: t('vip.tierRegular'),
   }[data.tier] || 'VIP';
 
   const tierColor = {
@@ -281,18 +339,18 @@ async function sendVipConfirmationEmail(
       <div style="background-color: white; border-radius: 8px; padding: 15px; border: 2px solid #e0e0e0;">
         ${pass.qrImageDataUrl ? `
           <div style="margin-bottom: 10px;">
-            <img src="${pass.qrImageDataUrl}" alt="QR Code for Guest ${pass.passNumber}" style="width: 180px; height: 180px; display: block; margin: 0 auto;" />
+            <img src="${pass.qrImageDataUrl}" alt="${t('vip.guestQrAlt', { number: pass.passNumber })}" style="width: 180px; height: 180px; display: block; margin: 0 auto;" />
           </div>
         ` : `
           <div style="background: #f0f0f0; padding: 10px; border-radius: 4px; margin-bottom: 10px;">
-            <p style="font-size: 11px; color: #666; margin: 0;">Present this code at entry</p>
+            <p style="font-size: 11px; color: #666; margin: 0;">${t('vip.presentCode')}</p>
             <p style="font-size: 10px; font-family: monospace; color: #333; margin: 5px 0 0 0; word-break: break-all;">${pass.qrToken}</p>
           </div>
         `}
-        <div style="font-weight: bold; color: #333; font-size: 14px; margin-bottom: 4px;">Guest ${pass.passNumber}</div>
-        <p style="font-size: 10px; color: #666; margin: 0 0 8px 0;">Scan QR code at entry</p>
+        <div style="font-weight: bold; color: #333; font-size: 14px; margin-bottom: 4px;">${t('vip.guestNumber', { number: pass.passNumber })}</div>
+        <p style="font-size: 10px; color: #666; margin: 0 0 8px 0;">${t('vip.scanAtEntry')}</p>
         <a href="${frontendUrl}/vip-pass/${pass.qrToken}" style="display: inline-block; padding: 6px 12px; background: ${tierColor}; color: white; text-decoration: none; border-radius: 4px; font-size: 11px;">
-          View Pass Online
+          ${t('vip.viewPass')}
         </a>
       </div>
     </div>
@@ -301,86 +359,86 @@ async function sendVipConfirmationEmail(
   // Build invite link section if invite code exists
   const inviteLinkSection = data.inviteCode ? `
     <div style="background: linear-gradient(135deg, #8B5CF6 0%, #EC4899 100%); border-radius: 8px; padding: 20px; margin: 20px 0; color: white;">
-      <h3 style="margin: 0 0 10px 0;">🎉 Invite Your Guests</h3>
+      <h3 style="margin: 0 0 10px 0;">🎉 ${t('vip.inviteHeading')}</h3>
       <p style="margin: 0 0 15px 0; font-size: 14px; opacity: 0.9;">
-        Share this link with your guests so they can purchase their GA tickets and be linked to your VIP table.
+        ${t('vip.inviteDescription')}
       </p>
       <div style="background: rgba(255,255,255,0.2); border-radius: 6px; padding: 12px; font-family: monospace; font-size: 12px; word-break: break-all;">
         ${frontendUrl}/checkout?event=${data.eventId}&vip=${data.inviteCode}
       </div>
       <p style="margin: 10px 0 0 0; font-size: 12px; opacity: 0.8;">
-        Table capacity: ${data.guestCount} guests
+        ${t('vip.tableCapacity', { count: data.guestCount })}
       </p>
     </div>
   ` : '';
 
   const html = `
 <!DOCTYPE html>
-<html lang="en">
+<html lang="${data.locale}">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>VIP Table Reservation - ${data.eventName}</title>
+  <title>${t('vip.title', { eventName: data.eventName })}</title>
 </head>
 <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 700px; margin: 0 auto; padding: 20px; background-color: #f5f5f5;">
   <div style="background-color: #ffffff; border-radius: 12px; padding: 0; box-shadow: 0 4px 6px rgba(0,0,0,0.1); overflow: hidden;">
     <div style="background: linear-gradient(135deg, #1a1a1a 0%, #333333 100%); color: white; text-align: center; padding: 30px;">
       <div style="font-size: 40px; margin-bottom: 10px;">👑</div>
-      <h1 style="color: ${tierColor}; margin: 0 0 10px 0; font-size: 28px;">VIP TABLE RESERVATION</h1>
-      <p style="margin: 0; opacity: 0.9;">Your exclusive table is confirmed</p>
+      <h1 style="color: ${tierColor}; margin: 0 0 10px 0; font-size: 28px;">${t('vip.heading')}</h1>
+      <p style="margin: 0; opacity: 0.9;">${t('vip.subheading')}</p>
     </div>
 
     <div style="background-color: #10b981; color: white; padding: 20px; text-align: center; font-size: 18px; font-weight: bold;">
-      ✅ Payment Successful - Your VIP Table is Reserved!
+      ✅ ${t('vip.paymentSuccessful')}
     </div>
 
     ${data.eventImageUrl ? `<img src="${data.eventImageUrl}" alt="${data.eventName}" style="width: 100%; max-height: 250px; object-fit: cover;" />` : ''}
 
     <div style="padding: 30px;">
-      <p>Dear ${data.customerName.split(' ')[0]},</p>
-      <p>Thank you for your VIP table reservation! Your exclusive table for <strong>${data.eventName}</strong> is confirmed.</p>
+      <p>${t('vip.greeting', { name: data.customerName.split(' ')[0] })}</p>
+      <p>${t('vip.intro', { eventName: `<strong>${data.eventName}</strong>` })}</p>
 
       <div style="background: linear-gradient(135deg, ${tierColor}15 0%, ${tierColor}05 100%); border-left: 4px solid ${tierColor}; border-radius: 8px; padding: 20px; margin: 20px 0;">
         <div style="display: flex; justify-content: space-between; align-items: center; margin-bottom: 15px; flex-wrap: wrap; gap: 10px;">
           <div>
-            <div style="font-size: 12px; color: #666;">RESERVATION</div>
+            <div style="font-size: 12px; color: #666; text-transform: uppercase;">${t('vip.reservationNumber')}</div>
             <div style="font-size: 24px; font-weight: bold; color: ${tierColor}; font-family: monospace;">${data.reservationNumber || data.reservationId.substring(0, 8).toUpperCase()}</div>
           </div>
           <span style="display: inline-block; padding: 6px 16px; background-color: ${tierColor}20; color: ${tierColor}; border-radius: 20px; font-weight: bold; font-size: 14px; border: 2px solid ${tierColor};">
-            ${tierLabel} Table
+            ${t('vip.tierTable', { tier: tierLabel })}
           </span>
         </div>
 
         <div style="display: grid; grid-template-columns: repeat(2, 1fr); gap: 15px; margin: 20px 0;">
           <div style="padding: 10px; background-color: #f8f9fa; border-radius: 6px;">
-            <div style="font-size: 12px; color: #666; text-transform: uppercase;">Event</div>
+            <div style="font-size: 12px; color: #666; text-transform: uppercase;">${t('vip.event')}</div>
             <div style="font-size: 16px; font-weight: 600; color: #333; margin-top: 4px;">${data.eventName}</div>
           </div>
           <div style="padding: 10px; background-color: #f8f9fa; border-radius: 6px;">
-            <div style="font-size: 12px; color: #666; text-transform: uppercase;">Date</div>
+            <div style="font-size: 12px; color: #666; text-transform: uppercase;">${t('vip.date')}</div>
             <div style="font-size: 16px; font-weight: 600; color: #333; margin-top: 4px;">${formattedDate}</div>
           </div>
           <div style="padding: 10px; background-color: #f8f9fa; border-radius: 6px;">
-            <div style="font-size: 12px; color: #666; text-transform: uppercase;">Time</div>
-            <div style="font-size: 16px; font-weight: 600; color: #333; margin-top: 4px;">${data.eventTime || 'Doors at 9 PM'}</div>
+            <div style="font-size: 12px; color: #666; text-transform: uppercase;">${t('vip.time')}</div>
+            <div style="font-size: 16px; font-weight: 600; color: #333; margin-top: 4px;">${data.eventTime || t('vip.doorsAt')}</div>
           </div>
           <div style="padding: 10px; background-color: #f8f9fa; border-radius: 6px;">
-            <div style="font-size: 12px; color: #666; text-transform: uppercase;">Table</div>
-            <div style="font-size: 16px; font-weight: 600; color: #333; margin-top: 4px;">${data.tableName || `Table ${data.tableNumber}`}</div>
+            <div style="font-size: 12px; color: #666; text-transform: uppercase;">${t('vip.table')}</div>
+            <div style="font-size: 16px; font-weight: 600; color: #333; margin-top: 4px;">${data.tableNumber ? `${t('vip.table')} ${data.tableNumber}` : data.tableName}</div>
           </div>
           <div style="padding: 10px; background-color: #f8f9fa; border-radius: 6px;">
-            <div style="font-size: 12px; color: #666; text-transform: uppercase;">Guests</div>
-            <div style="font-size: 16px; font-weight: 600; color: #333; margin-top: 4px;">${data.guestCount} people</div>
+            <div style="font-size: 12px; color: #666; text-transform: uppercase;">${t('vip.guests')}</div>
+            <div style="font-size: 16px; font-weight: 600; color: #333; margin-top: 4px;">${t('vip.people', { count: data.guestCount })}</div>
           </div>
           <div style="padding: 10px; background-color: #f8f9fa; border-radius: 6px;">
-            <div style="font-size: 12px; color: #666; text-transform: uppercase;">Bottles Included</div>
-            <div style="font-size: 16px; font-weight: 600; color: #333; margin-top: 4px;">${data.bottlesIncluded} bottle(s)</div>
+            <div style="font-size: 12px; color: #666; text-transform: uppercase;">${t('vip.bottlesIncluded')}</div>
+            <div style="font-size: 16px; font-weight: 600; color: #333; margin-top: 4px;">${t('vip.bottles', { count: data.bottlesIncluded })}</div>
           </div>
         </div>
 
         <div style="text-align: right; padding-top: 15px; border-top: 1px solid ${tierColor}30;">
-          <div style="font-size: 14px; color: #666;">Total Paid</div>
-          <div style="font-size: 28px; font-weight: bold; color: #10b981;">$${data.totalAmount.toFixed(2)}</div>
+          <div style="font-size: 14px; color: #666;">${t('vip.totalPaid')}</div>
+          <div style="font-size: 28px; font-weight: bold; color: #10b981;">${formatEmailCurrency(data.totalAmount, data.locale)}</div>
         </div>
       </div>
 
@@ -388,9 +446,9 @@ async function sendVipConfirmationEmail(
     </div>
 
     <div style="text-align: center; padding: 30px; background-color: #fafafa; border-top: 1px solid #e0e0e0; border-bottom: 1px solid #e0e0e0;">
-      <h2 style="color: #333; margin-bottom: 10px;">🎫 Guest Entry Passes</h2>
+      <h2 style="color: #333; margin-bottom: 10px;">🎫 ${t('vip.guestPasses')}</h2>
       <p style="color: #666; font-size: 14px; margin-bottom: 20px;">
-        Each guest needs their own pass to enter. Share these with your guests or show them from your phone at the door.
+        ${t('vip.guestPassesShare')}
       </p>
       <div style="text-align: center;">
         ${qrCodeSections}
@@ -399,31 +457,31 @@ async function sendVipConfirmationEmail(
 
     <div style="padding: 30px;">
       <div style="background-color: #fef3cd; border-left: 4px solid #ffc107; padding: 20px; margin: 20px 0; border-radius: 4px;">
-        <h3 style="margin-top: 0; color: #856404;">⚠️ Important Information</h3>
+        <h3 style="margin-top: 0; color: #856404;">⚠️ ${t('vip.importantInformation')}</h3>
         <ul style="margin: 10px 0; padding-left: 20px; color: #856404;">
-          <li><strong>Arrive 30 minutes early</strong> for table setup and VIP check-in</li>
-          <li>Valid <strong>government-issued ID required</strong> for all guests</li>
-          <li>Each guest <strong>presents their own pass</strong> at entry</li>
-          <li>Your table will be held for 1 hour after doors open</li>
+          <li>${t('vip.arriveEarly')}</li>
+          <li>${t('vip.idRequired')}</li>
+          <li>${t('vip.ownPass')}</li>
+          <li>${t('vip.tableHeld')}</li>
         </ul>
       </div>
 
       <div style="background-color: #fee2e2; border-left: 4px solid #ef4444; padding: 15px 20px; margin: 20px 0; border-radius: 4px; color: #991b1b; font-weight: 500;">
-        ⛔ <strong>No Refunds:</strong> All VIP table reservations are final and non-refundable.
+        ⛔ <strong>${t('vip.noRefunds')}:</strong> ${t('vip.noRefundsDescription')}
       </div>
 
       <div style="text-align: center; margin: 30px 0;">
         <a href="${frontendUrl}/vip-confirmation/${data.reservationId}" style="display: inline-block; padding: 14px 28px; background-color: ${tierColor}; color: white; text-decoration: none; border-radius: 8px; font-weight: 600;">
-          View Reservation Online
+          ${t('vip.viewOnline')}
         </a>
       </div>
     </div>
 
     <div style="padding: 30px; text-align: center; color: #666; font-size: 14px; border-top: 1px solid #e0e0e0;">
-      <p><strong>Venue:</strong> ${data.venueName}${data.venueAddress ? ` • ${data.venueAddress}` : ''}</p>
+      <p><strong>${t('vip.venue')}:</strong> ${data.venueName}${data.venueAddress ? ` • ${data.venueAddress}` : ''}</p>
       <p style="margin-top: 20px; font-size: 12px; color: #999;">
-        If you have any questions, please contact us at support@magueynightclub.com<br>
-        This is an automated email. Please do not reply to this message.
+        ${t('vip.questions', { email: 'support@magueynightclub.com' })}<br>
+        ${t('vip.automated')}
       </p>
     </div>
   </div>
@@ -435,7 +493,7 @@ async function sendVipConfirmationEmail(
   await queueEmail(supabase, {
     emailType: 'vip_confirmation',
     recipientEmail: data.customerEmail,
-    subject: `VIP Table Confirmed - ${data.eventName}`,
+    subject: t('vip.subject', { eventName: data.eventName }),
     htmlBody: html,
     relatedId: data.reservationId,
   });
@@ -446,7 +504,9 @@ async function sendTicketEmail(
   to: string,
   customerName: string,
   orderId: string,
-  tickets: TicketEmailData[]
+  tickets: TicketEmailData[],
+  locale: Locale,
+  traceparent?: string
 ): Promise<void> {
   // Skip if no tickets
   if (!tickets.length) {
@@ -454,79 +514,16 @@ async function sendTicketEmail(
     return;
   }
 
-  const eventName = tickets[0]?.eventName || "Event";
-
-  // Generate email HTML (same as before)
-  const ticketHtml = tickets.map((ticket, index) => `
-    <div style="border: 2px solid #6366f1; border-radius: 8px; padding: 20px; margin: 15px 0; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);">
-      <h3 style="color: white; margin: 0 0 15px 0;">Ticket ${index + 1}: ${ticket.ticketType}</h3>
-      <div style="background: white; padding: 15px; border-radius: 6px;">
-        <p style="margin: 5px 0;"><strong>Event:</strong> ${ticket.eventName}</p>
-        <p style="margin: 5px 0;"><strong>Date:</strong> ${ticket.eventDate}</p>
-        <p style="margin: 5px 0;"><strong>Time:</strong> ${ticket.eventTime}</p>
-        <p style="margin: 5px 0;"><strong>Venue:</strong> ${ticket.venueName}</p>
-        <p style="margin: 5px 0;"><strong>Ticket ID:</strong> <code>${ticket.ticketId}</code></p>
-        <p style="margin: 15px 0 5px 0; font-size: 12px; color: #666;">
-          Present this ticket at the venue. A QR code will be available in your account.
-        </p>
-      </div>
-    </div>
-  `).join("");
-
-  const html = `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <meta charset="UTF-8">
-      <title>Your Maguey Tickets</title>
-    </head>
-    <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; background: #f5f5f5;">
-      <div style="background: white; border-radius: 8px; padding: 30px; box-shadow: 0 2px 4px rgba(0,0,0,0.1);">
-        <div style="text-align: center; margin-bottom: 30px; border-bottom: 2px solid #e0e0e0; padding-bottom: 20px;">
-          <h1 style="color: #6366f1; margin: 0;">MAGUEY</h1>
-        </div>
-
-        <div style="background: #10b981; color: white; padding: 15px; border-radius: 6px; text-align: center; margin-bottom: 30px;">
-          Payment Successful! Your tickets are confirmed.
-        </div>
-
-        <p>Hi ${customerName},</p>
-        <p>Thank you for your purchase! Your digital tickets for <strong>${eventName}</strong> are ready.</p>
-
-        ${ticketHtml}
-
-        <div style="background: #fff3cd; border-left: 4px solid #ffc107; padding: 15px; margin: 20px 0; border-radius: 4px;">
-          <h3 style="margin-top: 0; color: #856404;">Important Information</h3>
-          <ul style="margin: 10px 0; padding-left: 20px; color: #856404;">
-            <li>Valid government-issued ID required at entrance</li>
-            <li>Arrive 30 minutes before event time</li>
-            <li>Your QR code will be in your account dashboard</li>
-            <li>Tickets are non-transferable and non-refundable</li>
-          </ul>
-        </div>
-
-        <div style="text-align: center; margin: 30px 0;">
-          <a href="https://tickets.magueynightclub.com/account" style="display: inline-block; padding: 12px 24px; background: #6366f1; color: white; text-decoration: none; border-radius: 6px; font-weight: 600;">
-            View My Tickets
-          </a>
-        </div>
-
-        <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #e0e0e0; text-align: center; color: #666; font-size: 14px;">
-          <p><strong>Order ID:</strong> ${orderId}</p>
-          <p>Questions? Contact us at support@magueynightclub.com</p>
-        </div>
-      </div>
-    </body>
-    </html>
-  `;
+  const { subject, html } = buildTicketEmail(customerName, orderId, tickets, locale);
 
   // Queue email instead of sending directly
   await queueEmail(supabase, {
     emailType: 'ga_ticket',
     recipientEmail: to,
-    subject: `Your Maguey Tickets - Order Confirmed`,
+    subject,
     htmlBody: html,
     relatedId: orderId,
+    traceparent,
   });
 }
 
@@ -608,7 +605,7 @@ function extractTableNumber(displayName: string): number | null {
   return match ? parseInt(match[1], 10) : null;
 }
 
-serve(async (req) => {
+serve(traceHandler("stripe-webhook", async (req, span) => {
   // Handle CORS preflight with stripe-signature header
   const corsResponse = handleCorsPreFlight(req, "stripe-signature");
   if (corsResponse) return corsResponse;
@@ -640,6 +637,10 @@ serve(async (req) => {
     const event = JSON.parse(body);
     const stripeEventId = event.id;
 
+    // Stripe sends no traceparent; ticket checkouts carry the purchase's in metadata
+    span.adoptParent(event.data?.object?.metadata?.traceparent);
+    span.setAttributes({ "stripe.event_id": stripeEventId, "stripe.event_type": event.type });
+
     // Check idempotency BEFORE signature verification
     // This prevents replay attacks and reduces processing load
     const { data: idempotencyCheck, error: idempotencyError } = await supabase
@@ -693,7 +694,113 @@ serve(async (req) => {
 
     logger.info("Webhook event received", { eventType: event.type, stripeEventId });
 
-    if (event.type === "checkout.session.completed") {
+    // Restaurant orders (maguey-nights) reuse Stripe Checkout but carry no tickets
+    const isRestaurantOrder = event.type === "checkout.session.completed"
+      && event.data.object.metadata?.type === "restaurant_order";
+
+    if (isRestaurantOrder) {
+      const session = event.data.object;
+      const order = await markRestaurantOrderPaid(
+        supabase,
+        session.metadata.orderId,
+        session.payment_intent || null
+      );
+      logger.info(order ? "Restaurant order paid" : "Restaurant order already processed", {
+        sessionId: session.id,
+        orderId: session.metadata.orderId,
+      });
+    }
+
+    // Ticket upgrades pay only the price difference for an existing ticket
+    const isTicketUpgrade = event.type === "checkout.session.completed"
+      && event.data.object.metadata?.type === "ticket_upgrade";
+
+    if (isTicketUpgrade) {
+      const session = event.data.object;
+      const upgradeId = session.metadata.upgradeId;
+      const paymentIntentId = session.payment_intent || null;
+      try {
+        const upgrade = await completeTicketUpgrade(supabase, upgradeId, paymentIntentId);
+        logger.info(upgrade ? "Ticket upgrade completed" : "Ticket upgrade already processed", {
+          sessionId: session.id,
+          upgradeId,
+          ticketId: session.metadata.ticketId,
+        });
+      } catch (upgradeError) {
+        // Paid but could not be applied (sold out, ticket changed) — give the money back
+        const refunded = paymentIntentId ? await refundTicketUpgrade(paymentIntentId) : false;
+        logger.error("Ticket upgrade failed after payment", {
+          sessionId: session.id,
+          upgradeId,
+          error: upgradeError instanceof Error ? upgradeError.message : String(upgradeError),
+          refunded,
+        });
+      }
+    }
+
+    // Resales hand an existing ticket to the buyer and pay the seller
+    const isTicketResale = event.type === "checkout.session.completed"
+      && event.data.object.metadata?.type === "ticket_resale";
+
+    if (isTicketResale) {
+      const session = event.data.object;
+      const listingId = session.metadata.listingId;
+      const paymentIntentId = session.payment_intent || null;
+      try {
+        const sale = await completeResaleSale(supabase, listingId, paymentIntentId);
+        if (sale) {
+          const payoutMethod = await payResaleSeller(supabase, sale);
+          await announceResaleSale(supabase, sale, payoutMethod);
+        }
+        logger.info(sale ? "Ticket resale completed" : "Ticket resale already processed", {
+          sessionId: session.id,
+          listingId,
+          ticketId: session.metadata.ticketId,
+        });
+      } catch (resaleError) {
+        // Paid but the listing was withdrawn (ticket scanned, event cancelled) — give the money back
+        const refunded = paymentIntentId ? await refundResalePurchase(paymentIntentId) : false;
+        logger.error("Ticket resale failed after payment", {
+          sessionId: session.id,
+          listingId,
+          error: resaleError instanceof Error ? resaleError.message : String(resaleError),
+          refunded,
+        });
+      }
+    }
+
+    // Invitees paying their share of a split VIP table get their own guest pass
+    const isVipSplitShare = event.type === "checkout.session.completed"
+      && event.data.object.metadata?.type === "vip_split_share";
+
+    if (isVipSplitShare) {
+      const session = event.data.object;
+      const shareId = session.metadata.shareId;
+      const paymentIntentId = session.payment_intent || null;
+      try {
+        const payment = await recordVipSharePayment(supabase, shareId, paymentIntentId);
+        if (payment) {
+          await announceSharePayment(supabase, payment);
+        }
+        logger.info(payment ? "VIP split share paid" : "VIP split share already processed", {
+          sessionId: session.id,
+          shareId,
+          reservationId: session.metadata.reservationId,
+          confirmed: payment?.confirmed ?? null,
+        });
+      } catch (shareError) {
+        // Paid twice, or after the table was settled — give the money back
+        const refunded = paymentIntentId ? await refundSharePayment(paymentIntentId) : false;
+        logger.error("VIP split share could not be recorded after payment", {
+          sessionId: session.id,
+          shareId,
+          error: shareError instanceof Error ? shareError.message : String(shareError),
+          refunded,
+        });
+      }
+    }
+
+    if (event.type === "checkout.session.completed" && !isRestaurantOrder && !isTicketUpgrade && !isTicketResale && !isVipSplitShare) {
       const session = event.data.object;
       logger.info("Checkout session completed", { sessionId: session.id });
 
@@ -703,6 +810,7 @@ serve(async (req) => {
       const customerName = session.metadata?.customerName || "Guest";
       const ticketsData = session.metadata?.tickets;
       const vipInviteCode = session.metadata?.vipInviteCode; // For linking GA tickets to VIP reservations
+      const locale = resolveLocale(session.metadata?.locale); // Guest's site language, for emails
 
       if (!orderId) {
         logger.error("No orderId in session metadata", { sessionId: session.id });
@@ -712,7 +820,11 @@ serve(async (req) => {
       // Update order status to paid
       const { error: orderError } = await supabase
         .from("orders")
-        .update({ status: "paid", updated_at: new Date().toISOString() })
+        .update({
+          status: "paid",
+          stripe_payment_intent_id: session.payment_intent || null,
+          updated_at: new Date().toISOString(),
+        })
         .eq("id", orderId);
 
       if (orderError) {
@@ -721,6 +833,28 @@ serve(async (req) => {
         logger.info("Order updated to paid", { orderId });
       }
 
+      // Promotions reserved by create-checkout-session now count as used
+      const { error: redemptionError } = await supabase
+        .from("promotion_redemptions")
+        .update({ status: "redeemed", redeemed_at: new Date().toISOString() })
+        .eq("order_id", orderId)
+        .eq("status", "pending");
+
+      if (redemptionError) {
+        logger.error("Error marking promotions redeemed", { orderId, error: redemptionError.message });
+      }
+
+      // Loyalty points for the paid order (idempotent, tier multiplier applied server-side)
+      const { data: pointsAwarded, error: loyaltyError } = await supabase.rpc("award_order_loyalty", {
+        p_order_id: orderId,
+      });
+
+      if (loyaltyError) {
+        logger.error("Error awarding loyalty points", { orderId, error: loyaltyError.message });
+      } else {
+        logger.info("Loyalty points awarded", { orderId, points: pointsAwarded });
+      }
+
       // Process tickets/VIP tables
       if (ticketsData && eventId) {
         try {
@@ -929,6 +1063,7 @@ serve(async (req) => {
                   totalAmount: ticket.unitPrice,
                   inviteCode,
                   guestPasses: emailGuestPasses,
+                  locale,
                 }).catch(err => {
                   logger.error('Failed to queue VIP email', {
                     error: err.message,
@@ -963,6 +1098,21 @@ serve(async (req) => {
               // Continue processing - payment succeeded, we've logged the failure for manual resolution
             }
           } else {
+            // Attribute the sale to the tier that was charged at checkout, even if it has since rolled over
+            let priceTierId: string | null = null;
+            if (ticket.priceTierName) {
+              const { data: tierRow } = await supabase
+                .from("ticket_type_price_tiers")
+                .select("id")
+                .eq("ticket_type_id", ticket.ticketTypeId)
+                .eq("tier_name", ticket.priceTierName)
+                .eq("is_door_tier", false)
+                .order("sort_order", { ascending: true })
+                .limit(1)
+                .maybeSingle();
+              priceTierId = tierRow?.id ?? null;
+            }
+
             // This is a regular ticket - create ticket records with retry
             for (let i = 0; i < ticket.quantity; i++) {
               const ticketId = `MGY-${Date.now()}-${Math.random().toString(36).substring(2, 8).toUpperCase()}`;
@@ -984,6 +1134,9 @@ serve(async (req) => {
                 qr_token: qrToken,
                 qr_signature: qrSignature,
                 issued_at: new Date().toISOString(),
+                price_tier_id: priceTierId,
+                // The scanner continues the purchase trace when this ticket is admitted
+                traceparent: span.traceparent,
               };
 
               try {
@@ -1041,11 +1194,12 @@ serve(async (req) => {
             }
 
             // Advance the price tier for this ticket type (fire-and-forget, non-blocking)
-            // Increments tickets_sold and activates the next tier if this one is exhausted
+            // Increments tickets_sold on the charged tier and rolls to the next tier if it is exhausted
             supabase
               .rpc("advance_price_tier", {
                 p_ticket_type_id: ticket.ticketTypeId,
                 p_quantity: ticket.quantity,
+                p_tier_id: priceTierId,
               })
               .then(({ error: tierError }) => {
                 if (tierError) {
@@ -1128,11 +1282,22 @@ serve(async (req) => {
           }
         }
 
+        // Re-score with the card now it is known; held orders keep their tickets
+        // void and the email back until an owner approves them (review-purchase)
+        const risk = await assessPaidOrder(supabase, orderId, session.payment_intent || null);
+        if (risk.held) {
+          logger.warn("Order held for review", {
+            orderId,
+            score: risk.assessment?.score,
+            signals: risk.assessment?.signals.map((signal) => signal.type),
+          });
+        }
+
         // Queue ticket confirmation email (non-blocking)
         // Email is queued for processing by the email queue processor
-        if (createdTickets.length > 0 && customerEmail) {
+        if (createdTickets.length > 0 && customerEmail && !risk.held) {
           console.log("Queueing ticket email to:", customerEmail);
-          sendTicketEmail(supabase, customerEmail, customerName, orderId, createdTickets).catch(err => {
+          sendTicketEmail(supabase, customerEmail, customerName, orderId, createdTickets, locale, span.traceparent).catch(err => {
             console.error('Failed to queue ticket email:', {
               error: err.message,
               orderId,
@@ -1147,13 +1312,171 @@ serve(async (req) => {
     }
   }
 
+    // Unpaid ticket checkouts give back any loyalty credits they reserved
+    if (event.type === "checkout.session.expired" && event.data.object.metadata?.orderId) {
+      const session = event.data.object;
+      const { data: creditsReleased, error: releaseError } = await supabase.rpc("release_loyalty_credits", {
+        p_order_id: session.metadata.orderId,
+      });
+
+      if (releaseError) {
+        logger.error("Error releasing loyalty credits", { orderId: session.metadata.orderId, error: releaseError.message });
+      } else if (creditsReleased > 0) {
+        logger.info("Loyalty credits released", { orderId: session.metadata.orderId, credits: creditsReleased });
+      }
+    }
+
+    // Unpaid resale checkouts put the listing back on sale
+    if (event.type === "checkout.session.expired" && event.data.object.metadata?.type === "ticket_resale") {
+      const session = event.data.object;
+      const { data: released, error: releaseError } = await supabase.rpc("release_resale_listing", {
+        p_listing_id: session.metadata.listingId,
+        p_stripe_session_id: session.id,
+      });
+
+      if (releaseError) {
+        logger.error("Error releasing resale listing", { listingId: session.metadata.listingId, error: releaseError.message });
+      } else if (released) {
+        logger.info("Resale listing back on sale", { listingId: session.metadata.listingId });
+      }
+    }
+
+    // Refunds (full or partial, from the Stripe dashboard or elsewhere) reverse loyalty points;
+    // full refunds also void the tickets
+    if (event.type === "charge.refunded" && event.data.object.payment_intent) {
+      const charge = event.data.object;
+      const { data: refundedOrder } = await supabase
+        .from("orders")
+        .select("id")
+        .eq("stripe_payment_intent_id", charge.payment_intent)
+        .maybeSingle();
+
+      if (refundedOrder) {
+        // amount_refunded is cumulative, so retries and later partial refunds only reverse the difference
+        const { data: pointsReversed, error: reverseError } = await supabase.rpc("reverse_order_loyalty", {
+          p_order_id: refundedOrder.id,
+          p_refunded_total: charge.amount_refunded / 100,
+        });
+
+        if (reverseError) {
+          logger.error("Error reversing loyalty points", { orderId: refundedOrder.id, error: reverseError.message });
+        } else {
+          logger.info("Loyalty points reversed", { orderId: refundedOrder.id, points: pointsReversed });
+        }
+      }
+
+      // A full refund issued outside the app must not leave valid tickets behind
+      const voided = await voidRefundedPayment(supabase, charge);
+      if (voided) {
+        logger.info("Refunded payment voided", { chargeId: charge.id, ...voided });
+      }
+    }
+
+    // Declined cards in ticket Checkout count towards purchase risk (card testing)
+    if (event.type === "payment_intent.payment_failed" && event.data.object.metadata?.type === "ticket_order") {
+      const paymentIntent = event.data.object;
+      await recordCheckoutPaymentFailure(supabase, paymentIntent);
+      logger.info("Declined checkout payment recorded", {
+        paymentIntentId: paymentIntent.id,
+        orderId: paymentIntent.metadata.orderId,
+        declineCode: paymentIntent.last_payment_error?.decline_code,
+      });
+    }
+
+    // Disputes void the tickets and guest passes straight away so a chargeback cannot get in at the door
+    if (event.type === "charge.dispute.created" || event.type === "charge.dispute.updated") {
+      const dispute = event.data.object;
+      const recorded = await recordPaymentDispute(supabase, dispute);
+
+      if (recorded.is_new) {
+        logger.warn("Payment dispute opened", {
+          disputeId: dispute.id,
+          reason: dispute.reason,
+          amount: dispute.amount / 100,
+          ...recorded,
+        });
+        await captureMessage(`Payment dispute opened: ${dispute.id}`, "warning", {
+          reason: dispute.reason,
+          amount: dispute.amount / 100,
+          orderId: recorded.order_id,
+          vipReservationId: recorded.vip_reservation_id,
+          eventId: recorded.event_id,
+        });
+        await notifyPaymentDispute(dispute, recorded);
+      }
+    }
+
+    if (event.type === "charge.dispute.closed") {
+      const dispute = event.data.object;
+      const closed = await closePaymentDispute(supabase, dispute);
+
+      if (closed) {
+        logger.info("Payment dispute closed", { disputeId: dispute.id, status: dispute.status, ...closed });
+      } else {
+        logger.warn("Closed dispute was never recorded", { disputeId: dispute.id, status: dispute.status });
+      }
+    }
+
     // Handle VIP Table Payment Intent Succeeded
     if (event.type === "payment_intent.succeeded") {
     const paymentIntent = event.data.object;
     const metadata = paymentIntent.metadata || {};
 
+    // Split VIP tables: the host has paid their share. Save their card for the
+    // remainder charge and send the invitees their pay links; the table is
+    // confirmed once every share is in (or settle-vip-splits settles it)
+    const isVipSplitHost = metadata.type === "vip_unified" && metadata.splitPayment === "true";
+
+    if (isVipSplitHost && metadata.reservationId && metadata.hostShareId) {
+      const { error: cardError } = await supabase
+        .from("vip_reservations")
+        .update({
+          stripe_customer_id: paymentIntent.customer || null,
+          stripe_payment_method_id: paymentIntent.payment_method || null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", metadata.reservationId);
+
+      if (cardError) {
+        logger.error("Error saving host card for split", { reservationId: metadata.reservationId, error: cardError.message });
+      }
+
+      try {
+        const hostPayment = await recordVipSharePayment(supabase, metadata.hostShareId, paymentIntent.id);
+        if (hostPayment) {
+          await announceSharePayment(supabase, hostPayment);
+          const invited = await sendSplitInvites(supabase, hostPayment);
+          logger.info("VIP split host share paid", { reservationId: metadata.reservationId, invited });
+        } else {
+          logger.info("VIP split host share already processed", { reservationId: metadata.reservationId });
+        }
+      } catch (hostShareError) {
+        // Reservation expired or was cancelled before the webhook arrived — needs a manual look
+        logger.error("VIP split host share could not be recorded", {
+          reservationId: metadata.reservationId,
+          paymentIntentId: paymentIntent.id,
+          error: hostShareError instanceof Error ? hostShareError.message : String(hostShareError),
+        });
+        notifyPaymentFailure({
+          stripeEventId: event.id,
+          stripePaymentIntentId: paymentIntent.id,
+          customerEmail: metadata.customerEmail || '',
+          amountCents: paymentIntent.amount || 0,
+          errorMessage: hostShareError instanceof Error ? hostShareError.message : 'Failed to record VIP split host share',
+          paymentType: 'vip_reservation',
+          eventId: metadata.eventId,
+          metadata: {
+            reservationId: metadata.reservationId,
+            action: 'record_split_host_share',
+          }
+        }).catch(err => {
+          console.error('Failed to send payment failure notification:', err);
+        });
+      }
+    }
+
     // Check if this is a VIP table reservation
-    if ((metadata.type === "vip_table_reservation" || metadata.type === "vip_unified") && metadata.reservationId) {
+    if ((metadata.type === "vip_table_reservation" || metadata.type === "vip_unified") && metadata.reservationId && !isVipSplitHost) {
       console.log("VIP table payment succeeded:", paymentIntent.id);
 
       const reservationId = metadata.reservationId;
@@ -1164,6 +1487,7 @@ serve(async (req) => {
       const gaTicketTypeId = metadata.gaTicketTypeId;
       const gaTicketPrice = parseFloat(metadata.gaTicketPrice || "0");
       const tableCapacity = parseInt(metadata.tableCapacity || "6");
+      const locale = resolveLocale(metadata.locale);
 
       // Generate invite code
       const inviteCode = crypto.randomUUID().substring(0, 8).toUpperCase();
@@ -1177,6 +1501,11 @@ serve(async (req) => {
             .update({
               status: "confirmed",
               invite_code: inviteCode,
+              // Card on file for the end-of-night bottle service tab
+              ...(paymentIntent.customer && {
+                stripe_customer_id: paymentIntent.customer,
+                stripe_payment_method_id: paymentIntent.payment_method || null,
+              }),
               updated_at: new Date().toISOString(),
             })
             .eq("id", reservationId);
@@ -1440,6 +1769,7 @@ serve(async (req) => {
           totalAmount,
           inviteCode,
           guestPasses: emailGuestPasses,
+          locale,
         }).catch(err => {
           console.error('Failed to queue VIP email:', {
             error: err.message,
@@ -1504,4 +1834,4 @@ serve(async (req) => {
     status: 500,
   });
 }
-});
+}));
@@ -0,0 +1,220 @@
+/**
+ * Upgrade Ticket
+ *
+ * POST /upgrade-ticket
+ *   { action: "options", ticketId }
+ *     -> { options: [{ ticket_type_id, name, current_price, price_difference, ... }] }
+ *   { action: "checkout", ticketId, toTicketTypeId, successUrl, cancelUrl, locale }
+ *     -> { url, upgradeId }
+ *   { action: "door", ticketId, toTicketTypeId, paymentMethod }
+ *     -> { upgrade }
+ *
+ * ticketId is tickets.id (UUID). The guest only pays the difference between
+ * the current (tier-aware) prices of the two ticket types.
+ *
+ * - checkout: the signed-in ticket holder pays through Stripe Checkout;
+ *   stripe-webhook completes the upgrade once paid.
+ * - door: gate staff (owner/promoter/employee) take cash/card terminal payment
+ *   or comp the upgrade, and it is applied immediately.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import Stripe from "https://esm.sh/stripe@12.0.0?target=deno";
+import { checkRateLimit } from "../_shared/rate-limiter.ts";
+import { getCorsHeaders, handleCorsPreFlight } from "../_shared/cors.ts";
+import { resolveLocale } from "../_shared/translations.ts";
+import {
+  completeTicketUpgrade,
+  DOOR_PAYMENT_METHODS,
+  toTicketUpgradeError,
+  toUpgradeAmountCents,
+  TicketUpgradeError,
+  type TicketUpgradePaymentMethod,
+} from "../_shared/ticket-upgrades.ts";
+
+const STAFF_ROLES = ["owner", "promoter", "employee"];
+
+interface UpgradeRequest {
+  action?: "options" | "checkout" | "door";
+  ticketId?: string;
+  toTicketTypeId?: string;
+  paymentMethod?: TicketUpgradePaymentMethod;
+  successUrl?: string;
+  cancelUrl?: string;
+  locale?: string;
+}
+
+interface RequestedUpgrade {
+  upgrade_id: string;
+  event_name: string;
+  from_ticket_type_name: string | null;
+  to_ticket_type_name: string | null;
+  price_difference: number | string;
+}
+
+serve(async (req) => {
+  const preflightResponse = handleCorsPreFlight(req);
+  if (preflightResponse) return preflightResponse;
+
+  const corsHeaders = getCorsHeaders(req);
+  const json = (body: unknown, status: number) =>
+    new Response(JSON.stringify(body), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status,
+    });
+
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  // Rate limiting: 20 req/min per IP (same tier as payment endpoints)
+  const { allowed, response: rateLimitResponse } = await checkRateLimit(req, "payment");
+  if (!allowed) {
+    return rateLimitResponse!;
+  }
+
+  try {
+    const body = await req.json() as UpgradeRequest;
+    const { action, ticketId, toTicketTypeId } = body;
+
+    if (!ticketId) {
+      return json({ error: "Missing required field: ticketId" }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || ""
+    );
+
+    if (action === "options") {
+      const { data, error } = await supabase.rpc("get_ticket_upgrade_options", {
+        p_ticket_id: ticketId,
+      });
+      if (error) {
+        throw new Error(error.message);
+      }
+      return json({ options: data || [] }, 200);
+    }
+
+    if (action !== "checkout" && action !== "door") {
+      return json({ error: "Unknown action" }, 400);
+    }
+
+    if (!toTicketTypeId) {
+      return json({ error: "Missing required field: toTicketTypeId" }, 400);
+    }
+
+    // Both actions need a signed-in user: the holder online, staff at the door
+    const jwt = (req.headers.get("Authorization") || "").replace(/^Bearer\s+/i, "");
+    const { data: { user } } = await supabase.auth.getUser(jwt);
+    if (!user) {
+      return json({ error: "Sign in required" }, 401);
+    }
+
+    if (action === "door") {
+      const role = user.app_metadata?.role;
+      if (!STAFF_ROLES.includes(role)) {
+        return json({ error: "Only staff can upgrade tickets at the door" }, 403);
+      }
+      if (!body.paymentMethod || !DOOR_PAYMENT_METHODS.includes(body.paymentMethod)) {
+        return json({ error: `paymentMethod must be one of: ${DOOR_PAYMENT_METHODS.join(", ")}` }, 400);
+      }
+
+      const { data: requested, error: requestError } = await supabase.rpc("request_ticket_upgrade", {
+        p_ticket_id: ticketId,
+        p_to_ticket_type_id: toTicketTypeId,
+        p_channel: "door",
+        p_payment_method: body.paymentMethod,
+        p_requested_by_email: null,
+        p_upgraded_by: user.id,
+      });
+      if (requestError) {
+        throw toTicketUpgradeError(requestError.message) || new Error(requestError.message);
+      }
+
+      let upgrade;
+      try {
+        upgrade = await completeTicketUpgrade(
+          supabase,
+          (requested as RequestedUpgrade).upgrade_id,
+          null
+        );
+      } catch (completeError) {
+        const message = completeError instanceof Error ? completeError.message : String(completeError);
+        throw toTicketUpgradeError(message) || completeError;
+      }
+
+      console.log("[upgrade-ticket] Door upgrade completed", {
+        ticketId,
+        upgradeId: upgrade?.upgrade_id,
+        paymentMethod: body.paymentMethod,
+        by: user.email,
+      });
+      return json({ upgrade }, 200);
+    }
+
+    // Online checkout: holder pays the difference through Stripe
+    const { successUrl, cancelUrl } = body;
+    if (!successUrl || !cancelUrl) {
+      return json({ error: "Missing required fields: successUrl, cancelUrl" }, 400);
+    }
+
+    const { data: requested, error: requestError } = await supabase.rpc("request_ticket_upgrade", {
+      p_ticket_id: ticketId,
+      p_to_ticket_type_id: toTicketTypeId,
+      p_channel: "online",
+      p_payment_method: "stripe",
+      p_requested_by_email: user.email,
+      p_upgraded_by: null,
+    });
+    if (requestError) {
+      throw toTicketUpgradeError(requestError.message) || new Error(requestError.message);
+    }
+
+    const upgrade = requested as RequestedUpgrade;
+    const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") || "", {
+      apiVersion: "2023-10-16",
+    });
+
+    const session = await stripe.checkout.sessions.create({
+      mode: "payment",
+      locale: resolveLocale(body.locale),
+      customer_email: user.email,
+      line_items: [
+        {
+          price_data: {
+            currency: "usd",
+            product_data: {
+              name: `Upgrade to ${upgrade.to_ticket_type_name}`,
+              description: `${upgrade.event_name} — from ${upgrade.from_ticket_type_name}`,
+            },
+            unit_amount: toUpgradeAmountCents(upgrade.price_difference),
+          },
+          quantity: 1,
+        },
+      ],
+      success_url: `${successUrl}${successUrl.includes("?") ? "&" : "?"}upgraded=true`,
+      cancel_url: `${cancelUrl}${cancelUrl.includes("?") ? "&" : "?"}upgrade_canceled=true`,
+      metadata: {
+        // Tells stripe-webhook this is not a ticket order
+        type: "ticket_upgrade",
+        upgradeId: upgrade.upgrade_id,
+        ticketId,
+      },
+    });
+
+    await supabase
+      .from("ticket_upgrades")
+      .update({ stripe_session_id: session.id })
+      .eq("id", upgrade.upgrade_id);
+
+    return json({ url: session.url, upgradeId: upgrade.upgrade_id }, 200);
+  } catch (error) {
+    if (error instanceof TicketUpgradeError) {
+      return json({ error: error.message }, error.status);
+    }
+    console.error("Upgrade ticket error:", error);
+    return json({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -0,0 +1,156 @@
+/**
+ * VIP Split Payment
+ *
+ * POST /vip-split-payment
+ *   { token, successUrl, cancelUrl, locale }
+ *     -> { url, shareId }
+ *
+ * token is the pay_token from the invitee's link (/vip-share/:token); the
+ * link page reads the share with get_vip_payment_share. No sign-in is
+ * needed — the link is the credential, like a ticket QR code.
+ *
+ * The invitee pays their share through Stripe Checkout; stripe-webhook
+ * records it and emails their guest pass. Shares can be paid until the
+ * split deadline, after which settle-vip-splits charges the host or
+ * releases the table (see 20260413000000_vip_split_payment.sql).
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import Stripe from "https://esm.sh/stripe@12.0.0?target=deno";
+import { checkRateLimit } from "../_shared/rate-limiter.ts";
+import { getCorsHeaders, handleCorsPreFlight } from "../_shared/cors.ts";
+import { resolveLocale } from "../_shared/translations.ts";
+
+// Stripe's minimum Checkout session. A payment that lands after the
+// deadline is refunded by stripe-webhook.
+const CHECKOUT_SESSION_MINUTES = 30;
+
+interface SplitPaymentRequest {
+  token?: string;
+  successUrl?: string;
+  cancelUrl?: string;
+  locale?: string;
+}
+
+serve(async (req) => {
+  const preflightResponse = handleCorsPreFlight(req);
+  if (preflightResponse) return preflightResponse;
+
+  const corsHeaders = getCorsHeaders(req);
+  const json = (body: unknown, status: number) =>
+    new Response(JSON.stringify(body), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status,
+    });
+
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  // Rate limiting: 20 req/min per IP (same tier as payment endpoints)
+  const { allowed, response: rateLimitResponse } = await checkRateLimit(req, "payment");
+  if (!allowed) {
+    return rateLimitResponse!;
+  }
+
+  try {
+    const { token, successUrl, cancelUrl, locale } = await req.json() as SplitPaymentRequest;
+    if (!token || !successUrl || !cancelUrl) {
+      return json({ error: "Missing required fields: token, successUrl, cancelUrl" }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") || "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || ""
+    );
+
+    const { data: share, error: shareError } = await supabase
+      .from("vip_payment_shares")
+      .select(`
+        id, reservation_id, payer_email, payer_name, amount_cents, status, is_host,
+        vip_reservations (
+          status, split_settlement, split_deadline, table_number,
+          events ( name, event_date )
+        )
+      `)
+      .eq("pay_token", token)
+      .maybeSingle();
+
+    if (shareError) {
+      throw new Error(shareError.message);
+    }
+    if (!share || share.is_host) {
+      return json({ error: "Payment link not found" }, 404);
+    }
+    if (share.status !== "pending") {
+      return json({ error: share.status === "paid" ? "This share has already been paid" : "This share can no longer be paid" }, 409);
+    }
+
+    const reservation = share.vip_reservations;
+    if (
+      !reservation
+      || reservation.status !== "pending"
+      || reservation.split_settlement
+      || new Date(reservation.split_deadline).getTime() <= Date.now()
+    ) {
+      return json({ error: "The deadline to pay for this table has passed" }, 409);
+    }
+
+    const { data: hostShare } = await supabase
+      .from("vip_payment_shares")
+      .select("status")
+      .eq("reservation_id", share.reservation_id)
+      .eq("is_host", true)
+      .maybeSingle();
+
+    if (hostShare?.status !== "paid") {
+      return json({ error: "The host hasn't completed their booking yet" }, 409);
+    }
+
+    const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") || "", {
+      apiVersion: "2023-10-16",
+    });
+
+    const metadata = {
+      // Tells stripe-webhook this is not a ticket order
+      type: "vip_split_share",
+      shareId: share.id,
+      reservationId: share.reservation_id,
+    };
+
+    const session = await stripe.checkout.sessions.create({
+      mode: "payment",
+      locale: resolveLocale(locale),
+      customer_email: share.payer_email,
+      expires_at: Math.floor(Date.now() / 1000) + CHECKOUT_SESSION_MINUTES * 60,
+      line_items: [
+        {
+          price_data: {
+            currency: "usd",
+            product_data: {
+              name: reservation.table_number ? `VIP Table ${reservation.table_number} share` : "VIP table share",
+              description: `${reservation.events?.name || "Event"} — ${reservation.events?.event_date || ""}`,
+            },
+            unit_amount: share.amount_cents,
+          },
+          quantity: 1,
+        },
+      ],
+      payment_intent_data: { metadata },
+      success_url: `${successUrl}${successUrl.includes("?") ? "&" : "?"}share_paid=true`,
+      cancel_url: `${cancelUrl}${cancelUrl.includes("?") ? "&" : "?"}share_canceled=true`,
+      metadata,
+    });
+
+    await supabase
+      .from("vip_payment_shares")
+      .update({ stripe_session_id: session.id, updated_at: new Date().toISOString() })
+      .eq("id", share.id);
+
+    return json({ url: session.url, shareId: share.id }, 200);
+  } catch (error) {
+    console.error("VIP split payment error:", error);
+    return json({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
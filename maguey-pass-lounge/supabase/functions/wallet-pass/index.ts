@@ -0,0 +1,304 @@
+/**
+ * Wallet Pass Edge Function
+ *
+ * POST /wallet-pass  { kind: "ticket", ticketId, qrCode?, platform }
+ *                    { kind: "vip_guest_pass", token, platform }
+ *   platform "apple"  -> application/vnd.apple.pkpass download
+ *   platform "google" -> { saveUrl } for the Save to Google Wallet button
+ *   A ticket pass needs the ticket's QR value or the holder's JWT; the
+ *   VIP guest pass token already is its QR value.
+ *
+ * Also implements the Apple PassKit web service (webServiceURL points here),
+ * so devices can register for pushes and fetch the latest pass after a
+ * transfer or refund:
+ *   POST/DELETE /v1/devices/:device/registrations/:passTypeId/:serial
+ *   GET         /v1/devices/:device/registrations/:passTypeId
+ *   GET         /v1/passes/:passTypeId/:serial
+ *   POST        /v1/log
+ *
+ * Deploy with --no-verify-jwt: Apple devices authenticate with the
+ * per-pass "ApplePass <token>" header instead of a Supabase JWT.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { checkRateLimit } from "../_shared/rate-limiter.ts";
+import { getCorsHeaders, handleCorsPreFlight } from "../_shared/cors.ts";
+import { createPkpass, createGoogleSaveJwt, getGoogleSaveUrl } from "../_shared/wallet-pass.ts";
+import {
+  getOrCreateWalletPass,
+  loadTicketPassSource,
+  loadVipGuestPassSource,
+  loadWalletPassData,
+  type WalletPassRow,
+  type WalletPassSource,
+} from "../_shared/wallet-pass-data.ts";
+import {
+  getApplePassConfigFromEnv,
+  getApplePassSignerFromEnv,
+  getGoogleJwtSignerFromEnv,
+  getGoogleWalletConfigFromEnv,
+  getSiteUrl,
+  loadPassImages,
+} from "../_shared/wallet-pass-signers.ts";
+
+const PKPASS_CONTENT_TYPE = "application/vnd.apple.pkpass";
+
+function json(body: unknown, status: number, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    headers: { ...headers, "Content-Type": "application/json" },
+    status,
+  });
+}
+
+async function buildPkpassResponse(pass: WalletPassRow, supabase: SupabaseClient, headers: Record<string, string> = {}) {
+  const config = getApplePassConfigFromEnv(pass.authentication_token);
+  const signer = getApplePassSignerFromEnv();
+  if (!config || !signer) {
+    return json({ error: "Apple Wallet is not configured" }, 503, headers);
+  }
+
+  const data = await loadWalletPassData(supabase, pass, getSiteUrl());
+  if (!data) {
+    return json({ error: "Pass not found" }, 404, headers);
+  }
+
+  const pkpass = await createPkpass(data, config, signer, await loadPassImages());
+  return new Response(pkpass, {
+    status: 200,
+    headers: {
+      ...headers,
+      "Content-Type": PKPASS_CONTENT_TYPE,
+      "Content-Disposition": `attachment; filename="maguey-${pass.serial_number}.pkpass"`,
+      "Last-Modified": new Date(pass.updated_at).toUTCString(),
+    },
+  });
+}
+
+// ============================================
+// Issue a pass (called from Ticket.tsx / VIPPassView.tsx)
+// ============================================
+
+/**
+ * The pass carries a scannable QR, so the ticket id alone is not enough:
+ * the caller must send the ticket's QR value or be signed in as the holder.
+ */
+async function isTicketHolder(
+  req: Request,
+  supabase: SupabaseClient,
+  source: WalletPassSource,
+  qrCode: unknown
+): Promise<boolean> {
+  if (typeof qrCode === "string" && source.qrCode && qrCode === source.qrCode) return true;
+  if (!source.holderEmail) return false;
+
+  const jwt = (req.headers.get("Authorization") || "").replace(/^Bearer\s+/i, "");
+  const { data: { user } } = await supabase.auth.getUser(jwt);
+  return !!user?.email && user.email.toLowerCase() === source.holderEmail.toLowerCase();
+}
+
+async function handleIssue(req: Request, supabase: SupabaseClient): Promise<Response> {
+  const corsHeaders = getCorsHeaders(req);
+
+  const { allowed, response: rateLimitResponse } = await checkRateLimit(req, "read");
+  if (!allowed) {
+    return rateLimitResponse!;
+  }
+
+  const { kind, ticketId, qrCode, token, platform } = await req.json();
+
+  if (platform !== "apple" && platform !== "google") {
+    return json({ error: "platform must be 'apple' or 'google'" }, 400, corsHeaders);
+  }
+
+  const source = kind === "ticket" && ticketId
+    ? await loadTicketPassSource(supabase, { ticketId })
+    : kind === "vip_guest_pass" && token
+      ? await loadVipGuestPassSource(supabase, { token }, getSiteUrl())
+      : undefined;
+
+  if (source === undefined) {
+    return json({ error: "Missing required fields: kind and ticketId or token" }, 400, corsHeaders);
+  }
+  if (!source) {
+    return json({ error: "Pass not found" }, 404, corsHeaders);
+  }
+  if (kind === "ticket" && !(await isTicketHolder(req, supabase, source, qrCode))) {
+    return json({ error: "Sign in as the ticket holder to add it to your wallet" }, 403, corsHeaders);
+  }
+  if (source.voided) {
+    return json({ error: "This pass is no longer valid" }, 410, corsHeaders);
+  }
+
+  const pass = await getOrCreateWalletPass(supabase, source.data.kind, source.rowId, source.holderEmail);
+
+  if (platform === "apple") {
+    await supabase.from("wallet_passes").update({ apple_issued_at: new Date().toISOString() }).eq("id", pass.id);
+    return buildPkpassResponse(pass, supabase, corsHeaders);
+  }
+
+  const config = getGoogleWalletConfigFromEnv();
+  const signer = await getGoogleJwtSignerFromEnv();
+  if (!config || !signer) {
+    return json({ error: "Google Wallet is not configured" }, 503, corsHeaders);
+  }
+
+  const jwt = await createGoogleSaveJwt(
+    { ...source.data, serialNumber: pass.serial_number, voided: false },
+    config,
+    signer
+  );
+  await supabase.from("wallet_passes").update({ google_issued_at: new Date().toISOString() }).eq("id", pass.id);
+
+  return json({ saveUrl: getGoogleSaveUrl(jwt) }, 200, corsHeaders);
+}
+
+// ============================================
+// Apple PassKit web service
+// ============================================
+
+async function authenticatePass(
+  req: Request,
+  supabase: SupabaseClient,
+  passTypeId: string,
+  serialNumber: string
+): Promise<WalletPassRow | null> {
+  if (passTypeId !== Deno.env.get("APPLE_PASS_TYPE_ID")) return null;
+
+  const authToken = (req.headers.get("Authorization") || "").replace(/^ApplePass\s+/, "");
+  if (!authToken) return null;
+
+  const { data } = await supabase
+    .from("wallet_passes")
+    .select("*")
+    .eq("serial_number", serialNumber)
+    .eq("authentication_token", authToken)
+    .maybeSingle();
+
+  return (data as WalletPassRow) || null;
+}
+
+async function handlePassKit(req: Request, supabase: SupabaseClient, segments: string[]): Promise<Response> {
+  // POST /v1/log — devices report errors here
+  if (segments[0] === "log" && req.method === "POST") {
+    const { logs } = await req.json().catch(() => ({ logs: [] }));
+    console.warn("[wallet-pass] PassKit device log:", logs);
+    return new Response(null, { status: 200 });
+  }
+
+  // GET /v1/passes/:passTypeId/:serial — latest version of a pass
+  if (segments[0] === "passes" && segments.length === 3 && req.method === "GET") {
+    const pass = await authenticatePass(req, supabase, segments[1], segments[2]);
+    if (!pass) return new Response(null, { status: 401 });
+
+    const ifModifiedSince = req.headers.get("If-Modified-Since");
+    if (ifModifiedSince && new Date(pass.updated_at).getTime() <= new Date(ifModifiedSince).getTime() + 999) {
+      return new Response(null, { status: 304 });
+    }
+    return buildPkpassResponse(pass, supabase);
+  }
+
+  if (segments[0] !== "devices" || segments[2] !== "registrations") {
+    return new Response(null, { status: 404 });
+  }
+
+  const deviceId = segments[1];
+
+  // GET /v1/devices/:device/registrations/:passTypeId?passesUpdatedSince=tag
+  if (segments.length === 4 && req.method === "GET") {
+    const since = new URL(req.url).searchParams.get("passesUpdatedSince");
+    let query = supabase
+      .from("wallet_pass_registrations")
+      .select("wallet_passes!inner ( serial_number, updated_at )")
+      .eq("device_library_identifier", deviceId);
+
+    if (since) {
+      query = query.gt("wallet_passes.updated_at", since);
+    }
+
+    const { data } = await query;
+    const passes = ((data || []) as { wallet_passes: { serial_number: string; updated_at: string } }[])
+      .map((r) => r.wallet_passes);
+    if (passes.length === 0) return new Response(null, { status: 204 });
+
+    const lastUpdated = passes.map((p) => p.updated_at).sort().pop();
+
+    return json({
+      serialNumbers: passes.map((p) => p.serial_number),
+      lastUpdated,
+    }, 200);
+  }
+
+  if (segments.length !== 5) return new Response(null, { status: 404 });
+
+  const pass = await authenticatePass(req, supabase, segments[3], segments[4]);
+  if (!pass) return new Response(null, { status: 401 });
+
+  // POST /v1/devices/:device/registrations/:passTypeId/:serial
+  if (req.method === "POST") {
+    const { pushToken } = await req.json();
+    const { data: existing } = await supabase
+      .from("wallet_pass_registrations")
+      .select("id")
+      .eq("wallet_pass_id", pass.id)
+      .eq("device_library_identifier", deviceId)
+      .maybeSingle();
+
+    const { error } = await supabase
+      .from("wallet_pass_registrations")
+      .upsert(
+        { wallet_pass_id: pass.id, device_library_identifier: deviceId, push_token: pushToken },
+        { onConflict: "wallet_pass_id,device_library_identifier" }
+      );
+
+    if (error) {
+      console.error("[wallet-pass] Registration failed:", error);
+      return new Response(null, { status: 500 });
+    }
+    return new Response(null, { status: existing ? 200 : 201 });
+  }
+
+  // DELETE /v1/devices/:device/registrations/:passTypeId/:serial
+  if (req.method === "DELETE") {
+    await supabase
+      .from("wallet_pass_registrations")
+      .delete()
+      .eq("wallet_pass_id", pass.id)
+      .eq("device_library_identifier", deviceId);
+    return new Response(null, { status: 200 });
+  }
+
+  return new Response(null, { status: 405 });
+}
+
+serve(async (req) => {
+  const preflightResponse = handleCorsPreFlight(req);
+  if (preflightResponse) return preflightResponse;
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL") || "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || ""
+  );
+
+  try {
+    // Path looks like /wallet-pass/v1/... for PassKit requests
+    const path = new URL(req.url).pathname;
+    const passKitMatch = path.match(/\/v1\/(.+)$/);
+    if (passKitMatch) {
+      return await handlePassKit(req, supabase, passKitMatch[1].split("/").map(decodeURIComponent));
+    }
+
+    if (req.method !== "POST") {
+      return json({ error: "Method not allowed" }, 405, getCorsHeaders(req));
+    }
+
+    return await handleIssue(req, supabase);
+  } catch (error) {
+    console.error("[wallet-pass] Error:", error);
+    return json(
+      { error: error instanceof Error ? error.message : "Internal server error" },
+      500,
+      getCorsHeaders(req)
+    );
+  }
+});
@@ -0,0 +1,201 @@
+-- Migration: Apple Wallet / Google Wallet passes
+-- Tracks issued wallet passes for GA tickets and VIP guest passes,
+-- Apple PassKit device registrations, and a queue of pending pass updates
+-- that is filled by triggers when a ticket is transferred, refunded or voided.
+-- The process-wallet-updates Edge Function drains the queue (cron, see below).
+
+BEGIN;
+
+-- 1. Issued passes (one row per ticket / VIP guest pass that was added to a wallet)
+CREATE TABLE IF NOT EXISTS public.wallet_passes (
+  id                   UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  serial_number        TEXT        NOT NULL UNIQUE,
+  pass_kind            TEXT        NOT NULL CHECK (pass_kind IN ('ticket', 'vip_guest_pass')),
+  ticket_id            UUID        REFERENCES public.tickets(id) ON DELETE CASCADE,
+  vip_guest_pass_id    UUID        REFERENCES public.vip_guest_passes(id) ON DELETE CASCADE,
+  -- Shared secret Apple devices send back as "ApplePass <token>"
+  authentication_token TEXT        NOT NULL DEFAULT encode(gen_random_bytes(24), 'hex'),
+  -- Holder the pass was issued to; a transfer voids it and the new holder gets a new pass
+  holder_email         TEXT,
+  voided               BOOLEAN     NOT NULL DEFAULT false,
+  apple_issued_at      TIMESTAMPTZ,
+  google_issued_at     TIMESTAMPTZ,
+  created_at           TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at           TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT wallet_passes_single_source CHECK (
+    (pass_kind = 'ticket' AND ticket_id IS NOT NULL AND vip_guest_pass_id IS NULL) OR
+    (pass_kind = 'vip_guest_pass' AND vip_guest_pass_id IS NOT NULL AND ticket_id IS NULL)
+  )
+);
+
+-- At most one live pass per ticket / guest pass
+CREATE UNIQUE INDEX IF NOT EXISTS idx_wallet_passes_ticket
+  ON public.wallet_passes (ticket_id) WHERE ticket_id IS NOT NULL AND voided = false;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_wallet_passes_vip_guest_pass
+  ON public.wallet_passes (vip_guest_pass_id) WHERE vip_guest_pass_id IS NOT NULL AND voided = false;
+
+-- 2. Apple PassKit device registrations (PassKit web service protocol)
+CREATE TABLE IF NOT EXISTS public.wallet_pass_registrations (
+  id                          UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  wallet_pass_id              UUID        NOT NULL REFERENCES public.wallet_passes(id) ON DELETE CASCADE,
+  device_library_identifier   TEXT        NOT NULL,
+  push_token                  TEXT        NOT NULL,
+  created_at                  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT wallet_pass_registrations_unique UNIQUE (wallet_pass_id, device_library_identifier)
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_pass_registrations_device
+  ON public.wallet_pass_registrations (device_library_identifier);
+
+-- 3. Pending pass updates (drained by process-wallet-updates)
+CREATE TABLE IF NOT EXISTS public.wallet_pass_updates (
+  id              UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  wallet_pass_id  UUID        NOT NULL REFERENCES public.wallet_passes(id) ON DELETE CASCADE,
+  reason          TEXT        NOT NULL CHECK (reason IN ('transferred', 'refunded', 'voided', 'updated')),
+  status          TEXT        NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'sent', 'failed')),
+  attempt_count   INTEGER     NOT NULL DEFAULT 0,
+  last_error      TEXT,
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  processed_at    TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_pass_updates_pending
+  ON public.wallet_pass_updates (created_at) WHERE status = 'pending';
+
+-- Row Level Security: only the service role (Edge Functions) can read/write
+ALTER TABLE public.wallet_passes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.wallet_pass_registrations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.wallet_pass_updates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access on wallet_passes"
+  ON public.wallet_passes
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access on wallet_pass_registrations"
+  ON public.wallet_pass_registrations
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access on wallet_pass_updates"
+  ON public.wallet_pass_updates
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+-- 4. Enqueue pass updates when a ticket is transferred or refunded
+CREATE OR REPLACE FUNCTION public.enqueue_ticket_wallet_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_pass_id UUID;
+  v_reason TEXT;
+BEGIN
+  SELECT id INTO v_pass_id FROM wallet_passes WHERE ticket_id = NEW.id AND voided = false;
+  IF v_pass_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status = 'refunded' THEN
+    v_reason := 'refunded';
+  ELSIF NEW.status IS DISTINCT FROM OLD.status AND NEW.status IN ('void', 'cancelled') THEN
+    v_reason := 'voided';
+  ELSIF NEW.attendee_email IS DISTINCT FROM OLD.attendee_email
+     OR NEW.qr_token IS DISTINCT FROM OLD.qr_token THEN
+    v_reason := 'transferred';
+  ELSIF NEW.attendee_name IS DISTINCT FROM OLD.attendee_name THEN
+    v_reason := 'updated';
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  -- The previous holder's pass must never show the rotated QR code
+  UPDATE wallet_passes
+  SET updated_at = NOW(),
+      voided = (v_reason <> 'updated')
+  WHERE id = v_pass_id;
+
+  INSERT INTO wallet_pass_updates (wallet_pass_id, reason) VALUES (v_pass_id, v_reason);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_ticket_wallet_update ON public.tickets;
+CREATE TRIGGER trg_ticket_wallet_update
+  AFTER UPDATE OF status, attendee_email, attendee_name, qr_token ON public.tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enqueue_ticket_wallet_update();
+
+-- 5. Enqueue pass updates when a VIP guest pass is cancelled or renamed
+CREATE OR REPLACE FUNCTION public.enqueue_vip_guest_pass_wallet_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_pass_id UUID;
+  v_reason TEXT;
+BEGIN
+  SELECT id INTO v_pass_id FROM wallet_passes WHERE vip_guest_pass_id = NEW.id AND voided = false;
+  IF v_pass_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status = 'cancelled' THEN
+    v_reason := 'voided';
+  ELSIF NEW.qr_code_token IS DISTINCT FROM OLD.qr_code_token
+     OR NEW.guest_name IS DISTINCT FROM OLD.guest_name THEN
+    v_reason := 'updated';
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  UPDATE wallet_passes
+  SET updated_at = NOW(),
+      voided = (v_reason = 'voided')
+  WHERE id = v_pass_id;
+
+  INSERT INTO wallet_pass_updates (wallet_pass_id, reason) VALUES (v_pass_id, v_reason);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_vip_guest_pass_wallet_update ON public.vip_guest_passes;
+CREATE TRIGGER trg_vip_guest_pass_wallet_update
+  AFTER UPDATE OF status, guest_name, qr_code_token ON public.vip_guest_passes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enqueue_vip_guest_pass_wallet_update();
+
+COMMIT;
+
+-- =========================================================
+-- pg_cron setup — run manually in Supabase Dashboard > SQL Editor
+-- =========================================================
+--
+-- Requires: pg_cron and pg_net extensions enabled
+-- Schedule: Every minute (* * * * *)
+-- This calls process-wallet-updates which sends APNs pushes to registered
+-- Apple devices and patches Google Wallet objects.
+--
+-- SELECT cron.schedule(
+--   'process-wallet-updates',
+--   '* * * * *',
+--   $$
+--   SELECT net.http_post(
+--     url     := current_setting('app.supabase_url') || '/functions/v1/process-wallet-updates',
+--     headers := jsonb_build_object(
+--       'Content-Type',  'application/json',
+--       'Authorization', 'Bearer ' || current_setting('app.service_role_key')
+--     ),
+--     body    := '{}'::jsonb
+--   );
+--   $$
+-- );
+--
+-- Verify: SELECT jobid, schedule, command, active FROM cron.job;
+-- Remove: SELECT cron.unschedule('process-wallet-updates');
+-- =========================================================
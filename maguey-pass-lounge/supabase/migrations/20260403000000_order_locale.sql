@@ -0,0 +1,18 @@
+-- Migration: Guest language (English / Spanish)
+-- Remembers which site language an order or VIP reservation was placed in,
+-- so confirmation and resend emails go out in the same language.
+
+BEGIN;
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS locale TEXT NOT NULL DEFAULT 'en'
+  CHECK (locale IN ('en', 'es'));
+
+ALTER TABLE public.vip_reservations
+  ADD COLUMN IF NOT EXISTS locale TEXT NOT NULL DEFAULT 'en'
+  CHECK (locale IN ('en', 'es'));
+
+COMMENT ON COLUMN public.orders.locale IS 'Site language at checkout (en/es); used for ticket emails';
+COMMENT ON COLUMN public.vip_reservations.locale IS 'Site language at booking (en/es); used for VIP confirmation emails';
+
+COMMIT;
@@ -0,0 +1,274 @@
+-- Migration: Restaurant online ordering
+-- Menu categories/items for the maguey-nights restaurant pages (edited from
+-- the scanner admin at /restaurant-menu), paid pickup/delivery orders, and
+-- the kitchen order board (/kitchen).
+--
+-- Order lifecycle:
+--   pending_payment -> received (stripe-webhook) -> preparing -> ready -> completed
+--   any open status -> cancelled
+-- Status changes after payment go through the restaurant-order-status Edge
+-- Function, which also emails/texts the guest.
+
+BEGIN;
+
+-- 1. Menu
+CREATE TABLE IF NOT EXISTS public.restaurant_menu_categories (
+  id          TEXT        PRIMARY KEY,            -- slug, e.g. 'tacos'
+  name        TEXT        NOT NULL,               -- display name, may start with an emoji
+  sort_order  INTEGER     NOT NULL DEFAULT 0,
+  is_active   BOOLEAN     NOT NULL DEFAULT true,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.restaurant_menu_items (
+  id           UUID          PRIMARY KEY DEFAULT gen_random_uuid(),
+  category_id  TEXT          NOT NULL REFERENCES public.restaurant_menu_categories(id) ON UPDATE CASCADE,
+  name         TEXT          NOT NULL,
+  description  TEXT          NOT NULL DEFAULT '',
+  price        NUMERIC(10,2) NOT NULL CHECK (price >= 0),
+  -- Special price (e.g. Seafood Sundays); charged instead of price when set
+  sale_price   NUMERIC(10,2) CHECK (sale_price IS NULL OR sale_price >= 0),
+  is_available BOOLEAN       NOT NULL DEFAULT true,
+  sort_order   INTEGER       NOT NULL DEFAULT 0,
+  created_at   TIMESTAMPTZ   NOT NULL DEFAULT NOW(),
+  updated_at   TIMESTAMPTZ   NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_restaurant_menu_items_category
+  ON public.restaurant_menu_items (category_id, sort_order);
+
+-- 2. Orders
+CREATE TABLE IF NOT EXISTS public.restaurant_orders (
+  id                       UUID          PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Short code read out at the pickup counter
+  order_number             TEXT          NOT NULL UNIQUE DEFAULT upper(substr(md5(gen_random_uuid()::text), 1, 6)),
+  customer_name            TEXT          NOT NULL,
+  customer_email           TEXT          NOT NULL,
+  customer_phone           TEXT          NOT NULL,
+  order_type               TEXT          NOT NULL CHECK (order_type IN ('pickup', 'delivery')),
+  delivery_address         TEXT,
+  special_instructions     TEXT,
+  subtotal                 NUMERIC(10,2) NOT NULL,
+  delivery_fee             NUMERIC(10,2) NOT NULL DEFAULT 0,
+  total                    NUMERIC(10,2) NOT NULL,
+  status                   TEXT          NOT NULL DEFAULT 'pending_payment'
+    CHECK (status IN ('pending_payment', 'received', 'preparing', 'ready', 'completed', 'cancelled')),
+  locale                   TEXT          NOT NULL DEFAULT 'en' CHECK (locale IN ('en', 'es')),
+  stripe_session_id        TEXT,
+  stripe_payment_intent_id TEXT,
+  paid_at                  TIMESTAMPTZ,
+  preparing_at             TIMESTAMPTZ,
+  ready_at                 TIMESTAMPTZ,
+  completed_at             TIMESTAMPTZ,
+  cancelled_at             TIMESTAMPTZ,
+  created_at               TIMESTAMPTZ   NOT NULL DEFAULT NOW(),
+  updated_at               TIMESTAMPTZ   NOT NULL DEFAULT NOW(),
+  CONSTRAINT restaurant_orders_delivery_address_check
+    CHECK (order_type = 'pickup' OR delivery_address IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_restaurant_orders_status
+  ON public.restaurant_orders (status, created_at);
+
+CREATE TABLE IF NOT EXISTS public.restaurant_order_items (
+  id           UUID          PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id     UUID          NOT NULL REFERENCES public.restaurant_orders(id) ON DELETE CASCADE,
+  menu_item_id UUID          REFERENCES public.restaurant_menu_items(id) ON DELETE SET NULL,
+  -- Snapshot at purchase time so menu edits don't rewrite past orders
+  name         TEXT          NOT NULL,
+  unit_price   NUMERIC(10,2) NOT NULL,
+  quantity     INTEGER       NOT NULL CHECK (quantity > 0),
+  line_total   NUMERIC(10,2) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_restaurant_order_items_order
+  ON public.restaurant_order_items (order_id);
+
+-- 3. updated_at triggers
+DROP TRIGGER IF EXISTS update_restaurant_menu_categories_updated_at ON public.restaurant_menu_categories;
+CREATE TRIGGER update_restaurant_menu_categories_updated_at
+  BEFORE UPDATE ON public.restaurant_menu_categories
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_restaurant_menu_items_updated_at ON public.restaurant_menu_items;
+CREATE TRIGGER update_restaurant_menu_items_updated_at
+  BEFORE UPDATE ON public.restaurant_menu_items
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_restaurant_orders_updated_at ON public.restaurant_orders;
+CREATE TRIGGER update_restaurant_orders_updated_at
+  BEFORE UPDATE ON public.restaurant_orders
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 4. Row Level Security
+ALTER TABLE public.restaurant_menu_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.restaurant_menu_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.restaurant_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.restaurant_order_items ENABLE ROW LEVEL SECURITY;
+
+-- Menu is public; the pages hide inactive categories and unavailable items
+CREATE POLICY "Anyone can view restaurant menu categories"
+  ON public.restaurant_menu_categories
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can view restaurant menu items"
+  ON public.restaurant_menu_items
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Owners can manage restaurant menu categories"
+  ON public.restaurant_menu_categories
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.user_metadata->>'role' = 'owner' OR auth.users.app_metadata->>'role' = 'owner')
+    )
+  );
+
+CREATE POLICY "Owners can manage restaurant menu items"
+  ON public.restaurant_menu_items
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM auth.users
+      WHERE auth.users.id = auth.uid()
+      AND (auth.users.user_metadata->>'role' = 'owner' OR auth.users.app_metadata->>'role' = 'owner')
+    )
+  );
+
+-- Orders are written by Edge Functions only; staff read them on the kitchen board
+CREATE POLICY "Staff can view restaurant orders"
+  ON public.restaurant_orders
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Staff can view restaurant order items"
+  ON public.restaurant_order_items
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Service role full access on restaurant_orders"
+  ON public.restaurant_orders
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "Service role full access on restaurant_order_items"
+  ON public.restaurant_order_items
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+-- Live updates for the kitchen board and the public menu
+ALTER PUBLICATION supabase_realtime ADD TABLE public.restaurant_orders;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.restaurant_menu_items;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.restaurant_menu_categories;
+
+-- 5. Guest order tracking (the order id in the success URL acts as the secret)
+CREATE OR REPLACE FUNCTION public.get_restaurant_order_status(p_order_id UUID)
+RETURNS JSON AS $$
+  SELECT json_build_object(
+    'id', o.id,
+    'order_number', o.order_number,
+    'status', o.status,
+    'order_type', o.order_type,
+    'customer_name', split_part(o.customer_name, ' ', 1),
+    'subtotal', o.subtotal,
+    'delivery_fee', o.delivery_fee,
+    'total', o.total,
+    'created_at', o.created_at,
+    'paid_at', o.paid_at,
+    'ready_at', o.ready_at,
+    'items', COALESCE(
+      (SELECT json_agg(json_build_object('name', i.name, 'quantity', i.quantity, 'line_total', i.line_total))
+       FROM public.restaurant_order_items i WHERE i.order_id = o.id),
+      '[]'::json
+    )
+  )
+  FROM public.restaurant_orders o
+  WHERE o.id = p_order_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_restaurant_order_status(UUID) TO anon, authenticated;
+
+-- 6. Status notification emails go through the email queue
+ALTER TABLE public.email_queue
+  DROP CONSTRAINT IF EXISTS email_queue_email_type_check;
+
+ALTER TABLE public.email_queue
+  ADD CONSTRAINT email_queue_email_type_check
+  CHECK (email_type IN (
+    'ga_ticket',
+    'vip_confirmation',
+    'ticket_transfer_received',
+    'ticket_transfer_sent',
+    'event_reminder_24h',
+    'event_reminder_2h',
+    'restaurant_order_status'
+  ));
+
+-- 7. Seed the menu that was previously hard-coded in RestaurantMenu.tsx
+INSERT INTO public.restaurant_menu_categories (id, name, sort_order) VALUES
+  ('tacos', '🌮 TACOS', 1),
+  ('appetizers', '🧀 APPETIZERS (Aperitivos)', 2),
+  ('platters', '🍽️ PLATTERS (Platillos)', 3),
+  ('fajitas', '🌶️ FAJITAS', 4),
+  ('antojitos', '🫔 ANTOJITOS (Traditional Mexican)', 5),
+  ('seafood', '🦐 DOMINGOS MARISQUEROS (Seafood Sundays)', 6),
+  ('kids', '👶 KID''S MENU', 7),
+  ('drinks', '🍹 BEBIDAS (Drinks)', 8)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO public.restaurant_menu_items (category_id, name, description, price, sale_price, sort_order)
+SELECT * FROM (VALUES
+  ('tacos', 'Tacos Al Pastor', 'Split grilled pork marinated in red sauce', 1.00, NULL, 1),
+  ('tacos', 'Tacos De Asada', 'Sliced grilled steak', 1.00, NULL, 2),
+  ('tacos', 'Tacos De Carnitas', 'Seasoned fried pork', 1.00, NULL, 3),
+  ('tacos', 'Tacos Campechanos', 'Mixed pastor and grilled steak (asada)', 1.00, NULL, 4),
+  ('tacos', 'Tacos De Lengua', 'Beef tongue tacos - a classic Mexican recipe', 2.50, NULL, 5),
+  ('tacos', 'Tacos De Chorizo', 'Pork sausage seasoned with traditional spices', 2.50, NULL, 6),
+  ('tacos', 'Pollo A La Plancha', 'Seasoned and grilled chicken tacos', 2.50, NULL, 7),
+  ('tacos', 'Tacos Marisqueros (3)', 'Fish or shrimp tacos', 11.99, 17.99, 8),
+  ('appetizers', 'Tres Carnes Nachos', 'Best Nachos In Town! Chorizo, beef & chicken', 14.00, NULL, 1),
+  ('platters', 'El Maguey Carne Asada', 'Grilled beef steak - served with rice and beans', 14.00, NULL, 1),
+  ('platters', 'Bistec A La Mexicana', 'Mexican style beef steak - served with rice and beans', 14.00, NULL, 2),
+  ('platters', 'Pechuga A La Plancha', 'Grilled chicken breast - served with rice and beans', 13.00, NULL, 3),
+  ('platters', 'Auténtico Mole Poblano', 'Our authentic mole poblano sauce with chicken - served with rice and beans', 13.00, NULL, 4),
+  ('platters', 'El Maguey Chilaquiles Verdes O Rojos', 'Green or red chilaquiles con pollo y huevo (grilled chicken and eggs) - served with rice and beans', 13.00, NULL, 5),
+  ('platters', 'Carne Asada', 'Grilled beef - served with rice and beans', 14.00, NULL, 6),
+  ('fajitas', 'Fajitas De Camarón', 'Shrimp fajitas', 15.00, NULL, 1),
+  ('fajitas', 'Fajitas De Pollo', 'Chicken fajitas', 12.00, NULL, 2),
+  ('fajitas', 'Fajitas De Res', 'Beef fajitas', 13.00, NULL, 3),
+  ('fajitas', 'Fajitas Mixtas', 'Pollo, Res Y Camarón - Chicken, beef and shrimp', 16.99, NULL, 4),
+  ('antojitos', 'Quesadilla Casera', 'Steak, chicken or chorizo - served with rice and beans', 11.00, NULL, 1),
+  ('antojitos', 'Cemita Cholula', 'Steak, chicken or chorizo', 10.00, NULL, 2),
+  ('antojitos', 'Torta', 'Steak, chicken or chorizo', 9.00, NULL, 3),
+  ('antojitos', 'Torta Cubana', 'Cuban style torta', 12.00, NULL, 4),
+  ('antojitos', 'El Burrito Diablito', 'Our signature burrito', 10.00, NULL, 5),
+  ('antojitos', 'Pancita De Res (Menudo)', 'Beef stomach soup', 12.00, NULL, 6),
+  ('antojitos', 'Cazuela El Maguey', 'House specialties mix', 35.00, NULL, 7),
+  ('seafood', 'Sea Fries', 'Crispy seafood fries', 4.99, NULL, 1),
+  ('seafood', 'Aguachile', 'House specialty shrimps', 16.99, 22.99, 2),
+  ('seafood', 'Cóctel De Camarón', 'Shrimp cocktail', 12.99, 18.99, 3),
+  ('seafood', 'Caldo De Camarón', 'Shrimp and vegetables soup', 12.99, 18.99, 4),
+  ('seafood', 'Camarones A La Mexicana', 'Mexican style shrimps', 13.99, 21.99, 5),
+  ('seafood', 'Camarones Enchipotlados', 'Shrimps seasoned with chipotle sauce', 13.99, 21.99, 6),
+  ('seafood', 'El Plebe', 'A La Diabla (very spicy) or chipotle seasoned shrimps', 18.99, 22.99, 7),
+  ('seafood', 'La Mamalona', 'Un six bien preparado con Pepino, Jicama, Piña, Tajín y 16 Camarones Jumbo', 38.99, 58.99, 8),
+  ('seafood', 'Caldo Siete Mares', 'Seafood mix soup', 13.99, 21.99, 9),
+  ('kids', 'Kid''s Hot Dogs Con Papas', '2 hot dogs with french fries', 5.00, NULL, 1),
+  ('kids', 'Kid''s Chicken Quesadilla', 'With french fries and rice', 5.00, NULL, 2),
+  ('kids', 'Kid''s Cheeseburger Con Papas', 'With french fries', 5.00, NULL, 3),
+  ('drinks', 'Pina Colada', 'Must be 21+ (Please show ID)', 8.00, NULL, 1),
+  ('drinks', 'Margarita', 'Must be 21+ (Please show ID)', 8.00, NULL, 2),
+  ('drinks', 'El Jarrito Diablito', 'Must be 21+ (Please show ID)', 10.00, NULL, 3)
+) AS seed (category_id, name, description, price, sale_price, sort_order)
+WHERE NOT EXISTS (SELECT 1 FROM public.restaurant_menu_items);
+
+COMMIT;
@@ -0,0 +1,427 @@
+-- Migration: Ticket upgrades (GA → VIP / higher tier)
+-- Creates the ticket_upgrades audit table and the RPCs used by the upgrade-ticket
+-- Edge Function and stripe-webhook:
+--   get_ticket_upgrade_options  → higher-priced ticket types for the same event
+--   request_ticket_upgrade      → quote the price difference and record a pending upgrade
+--   complete_ticket_upgrade     → swap the ticket type against inventory and re-issue the QR
+--
+-- Prices respect the active ticket_type_price_tiers tier (falling back to
+-- ticket_types.price), so the guest pays the current price of the target type
+-- minus the current price of their type.
+
+BEGIN;
+
+-- ============================================
+-- 1. CREATE TICKET_UPGRADES TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.ticket_upgrades (
+  id                       UUID          PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticket_id                UUID          NOT NULL REFERENCES public.tickets(id) ON DELETE CASCADE,
+  event_id                 TEXT          NOT NULL,
+  from_ticket_type_id      UUID          NOT NULL REFERENCES public.ticket_types(id),
+  from_ticket_type_name    TEXT,
+  to_ticket_type_id        UUID          NOT NULL REFERENCES public.ticket_types(id),
+  to_ticket_type_name      TEXT,
+  from_price               NUMERIC(10,2) NOT NULL,
+  to_price                 NUMERIC(10,2) NOT NULL,
+  price_difference         NUMERIC(10,2) NOT NULL CHECK (price_difference >= 0),
+  status                   TEXT          NOT NULL DEFAULT 'pending'
+                             CHECK (status IN ('pending', 'completed', 'failed', 'cancelled')),
+  channel                  TEXT          NOT NULL CHECK (channel IN ('online', 'door')),
+  payment_method           TEXT          NOT NULL
+                             CHECK (payment_method IN ('stripe', 'cash', 'card_terminal', 'comp')),
+  stripe_session_id        TEXT,
+  stripe_payment_intent_id TEXT,
+  requested_by_email       TEXT,
+  upgraded_by              UUID,
+  failure_reason           TEXT,
+  created_at               TIMESTAMPTZ   NOT NULL DEFAULT NOW(),
+  completed_at             TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_ticket_upgrades_ticket_id
+  ON public.ticket_upgrades(ticket_id);
+
+CREATE INDEX IF NOT EXISTS idx_ticket_upgrades_event_status
+  ON public.ticket_upgrades(event_id, status);
+
+COMMENT ON TABLE public.ticket_upgrades IS
+  'Audit log of ticket type upgrades. Online upgrades stay pending until stripe-webhook '
+  'confirms payment; door upgrades are completed immediately by staff.';
+
+-- ============================================
+-- 2. RLS ON TICKET_UPGRADES
+-- ============================================
+
+ALTER TABLE public.ticket_upgrades ENABLE ROW LEVEL SECURITY;
+
+-- Holders can view upgrades they requested
+CREATE POLICY "Holders can view their upgrades"
+  ON public.ticket_upgrades
+  FOR SELECT
+  USING (requested_by_email = (auth.jwt() ->> 'email'));
+
+-- Staff can view all upgrades (door upsell reporting)
+CREATE POLICY "Staff can view all upgrades"
+  ON public.ticket_upgrades
+  FOR SELECT
+  USING ((auth.jwt() -> 'app_metadata' ->> 'role') IN ('owner', 'promoter', 'employee'));
+
+-- No direct INSERT/UPDATE/DELETE — only via the SECURITY DEFINER RPCs below
+
+GRANT SELECT ON public.ticket_upgrades TO authenticated;
+
+-- ============================================
+-- 3. EMAIL QUEUE TYPE
+-- ============================================
+
+ALTER TABLE public.email_queue
+  DROP CONSTRAINT IF EXISTS email_queue_email_type_check;
+
+ALTER TABLE public.email_queue
+  ADD CONSTRAINT email_queue_email_type_check
+  CHECK (email_type IN (
+    'ga_ticket',
+    'vip_confirmation',
+    'ticket_transfer_received',
+    'ticket_transfer_sent',
+    'event_reminder_24h',
+    'event_reminder_2h',
+    'restaurant_order_status',
+    'ticket_upgraded'
+  ));
+
+-- ============================================
+-- 4. TICKET_TYPE_CURRENT_PRICE
+-- ============================================
+
+-- Active tier price, or the base ticket_types.price when the type has no tiers
+CREATE OR REPLACE FUNCTION public.ticket_type_current_price(p_ticket_type_id UUID)
+RETURNS NUMERIC(10,2)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT ptt.price
+       FROM ticket_type_price_tiers ptt
+      WHERE ptt.ticket_type_id = p_ticket_type_id
+        AND ptt.is_active = true
+      LIMIT 1),
+    (SELECT tt.price FROM ticket_types tt WHERE tt.id = p_ticket_type_id)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.ticket_type_current_price TO authenticated, anon;
+
+-- ============================================
+-- 5. GET_TICKET_UPGRADE_OPTIONS RPC
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.get_ticket_upgrade_options(p_ticket_id UUID)
+RETURNS TABLE (
+  ticket_type_id   UUID,
+  name             TEXT,
+  category         TEXT,
+  description      TEXT,
+  current_price    NUMERIC(10,2),
+  tier_name        TEXT,
+  price_difference NUMERIC(10,2),
+  remaining        INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event_id      TEXT;
+  v_from_type_id  UUID;
+  v_from_price    NUMERIC(10,2);
+BEGIN
+  SELECT t.event_id, t.ticket_type_id
+  INTO v_event_id, v_from_type_id
+  FROM tickets t
+  WHERE t.id = p_ticket_id;
+
+  IF v_from_type_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_from_price := ticket_type_current_price(v_from_type_id);
+
+  RETURN QUERY
+  SELECT
+    tt.id,
+    tt.name::TEXT,
+    COALESCE(tt.category, 'general')::TEXT,
+    tt.description::TEXT,
+    ticket_type_current_price(tt.id),
+    (SELECT ptt.tier_name FROM ticket_type_price_tiers ptt
+      WHERE ptt.ticket_type_id = tt.id AND ptt.is_active = true LIMIT 1),
+    ticket_type_current_price(tt.id) - v_from_price,
+    CASE
+      WHEN tt.total_inventory IS NULL THEN NULL
+      ELSE GREATEST(0, tt.total_inventory - COALESCE(tt.tickets_sold, 0))
+    END
+  FROM ticket_types tt
+  WHERE tt.event_id = v_event_id
+    AND tt.id <> v_from_type_id
+    AND ticket_type_current_price(tt.id) > v_from_price
+    AND (tt.total_inventory IS NULL OR COALESCE(tt.tickets_sold, 0) < tt.total_inventory)
+  ORDER BY ticket_type_current_price(tt.id) ASC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_ticket_upgrade_options TO authenticated, anon;
+
+-- ============================================
+-- 6. REQUEST_TICKET_UPGRADE RPC
+-- ============================================
+
+-- Validates the upgrade and records it as pending with the quoted prices.
+-- Called by the upgrade-ticket Edge Function (service role) before payment.
+CREATE OR REPLACE FUNCTION public.request_ticket_upgrade(
+  p_ticket_id          UUID,
+  p_to_ticket_type_id  UUID,
+  p_channel            TEXT,
+  p_payment_method     TEXT,
+  p_requested_by_email TEXT DEFAULT NULL,
+  p_upgraded_by        UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ticket        RECORD;
+  v_to_type       RECORD;
+  v_from_price    NUMERIC(10,2);
+  v_to_price      NUMERIC(10,2);
+  v_difference    NUMERIC(10,2);
+  v_upgrade_id    UUID;
+BEGIN
+  SELECT
+    t.id, t.event_id, t.ticket_type_id, t.status, t.attendee_email,
+    e.name AS event_name, e.event_date::DATE AS event_date, e.event_time::TEXT AS event_time,
+    tt.name AS from_name
+  INTO v_ticket
+  FROM tickets t
+  JOIN events e ON t.event_id = e.id
+  LEFT JOIN ticket_types tt ON t.ticket_type_id = tt.id
+  WHERE t.id = p_ticket_id;
+
+  IF NOT FOUND OR v_ticket.ticket_type_id IS NULL THEN
+    RAISE EXCEPTION 'Ticket not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_channel = 'online' THEN
+    -- Online: only the holder, only before the event starts, only unused tickets
+    IF p_requested_by_email IS NULL
+       OR LOWER(v_ticket.attendee_email) <> LOWER(p_requested_by_email) THEN
+      RAISE EXCEPTION 'Ticket not found or not owned by you'
+        USING ERRCODE = 'P0002';
+    END IF;
+    IF v_ticket.status NOT IN ('issued', 'valid', 'confirmed') THEN
+      RAISE EXCEPTION 'Ticket has already been used or is no longer valid'
+        USING ERRCODE = 'P0003';
+    END IF;
+    IF (v_ticket.event_date + COALESCE(v_ticket.event_time::TIME, '00:00:00'::TIME)) < NOW() THEN
+      RAISE EXCEPTION 'Cannot upgrade online after event has started, upgrade at the door'
+        USING ERRCODE = 'P0004';
+    END IF;
+  ELSIF v_ticket.status IN ('cancelled', 'refunded') THEN
+    -- Door: checked-in guests can still be upsold
+    RAISE EXCEPTION 'Ticket has been cancelled or refunded'
+      USING ERRCODE = 'P0003';
+  END IF;
+
+  SELECT tt.id, tt.name, tt.event_id, tt.total_inventory, COALESCE(tt.tickets_sold, 0) AS tickets_sold
+  INTO v_to_type
+  FROM ticket_types tt
+  WHERE tt.id = p_to_ticket_type_id;
+
+  IF NOT FOUND OR v_to_type.event_id <> v_ticket.event_id THEN
+    RAISE EXCEPTION 'Upgrade option not available for this event'
+      USING ERRCODE = 'P0005';
+  END IF;
+
+  IF v_to_type.total_inventory IS NOT NULL AND v_to_type.tickets_sold >= v_to_type.total_inventory THEN
+    RAISE EXCEPTION 'Upgrade ticket type is sold out'
+      USING ERRCODE = 'P0006';
+  END IF;
+
+  v_from_price := ticket_type_current_price(v_ticket.ticket_type_id);
+  v_to_price := ticket_type_current_price(p_to_ticket_type_id);
+
+  IF v_to_price <= v_from_price THEN
+    RAISE EXCEPTION 'Upgrade option not available for this event'
+      USING ERRCODE = 'P0005';
+  END IF;
+
+  -- Comped door upgrades are recorded at no charge
+  v_difference := CASE WHEN p_payment_method = 'comp' THEN 0 ELSE v_to_price - v_from_price END;
+
+  INSERT INTO ticket_upgrades (
+    ticket_id, event_id,
+    from_ticket_type_id, from_ticket_type_name,
+    to_ticket_type_id, to_ticket_type_name,
+    from_price, to_price, price_difference,
+    channel, payment_method, requested_by_email, upgraded_by
+  ) VALUES (
+    p_ticket_id, v_ticket.event_id,
+    v_ticket.ticket_type_id, v_ticket.from_name,
+    p_to_ticket_type_id, v_to_type.name,
+    v_from_price, v_to_price, v_difference,
+    p_channel, p_payment_method, p_requested_by_email, p_upgraded_by
+  )
+  RETURNING id INTO v_upgrade_id;
+
+  RETURN json_build_object(
+    'upgrade_id',            v_upgrade_id,
+    'event_name',            v_ticket.event_name,
+    'from_ticket_type_name', v_ticket.from_name,
+    'to_ticket_type_name',   v_to_type.name,
+    'from_price',            v_from_price,
+    'to_price',              v_to_price,
+    'price_difference',      v_difference
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.request_ticket_upgrade FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.request_ticket_upgrade TO service_role;
+
+-- ============================================
+-- 7. COMPLETE_TICKET_UPGRADE RPC
+-- ============================================
+
+-- Applies a pending upgrade in one transaction: moves one sale from the old
+-- ticket type to the new one (failing if it sold out since the quote),
+-- advances the new type's price tier, swaps the ticket type and issues a new QR.
+CREATE OR REPLACE FUNCTION public.complete_ticket_upgrade(
+  p_upgrade_id        UUID,
+  p_payment_intent_id TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_upgrade         RECORD;
+  v_ticket          RECORD;
+  v_new_token       UUID;
+  v_signing_secret  TEXT;
+  v_new_signature   TEXT;
+BEGIN
+  SELECT * INTO v_upgrade
+  FROM ticket_upgrades
+  WHERE id = p_upgrade_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Upgrade not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_upgrade.status <> 'pending' THEN
+    RAISE EXCEPTION 'Upgrade already processed'
+      USING ERRCODE = 'P0007';
+  END IF;
+
+  -- Lock the ticket row so a concurrent transfer/scan/upgrade waits for us
+  SELECT
+    t.id, t.ticket_id, t.ticket_type_id, t.status, t.attendee_email, t.attendee_name,
+    e.name AS event_name, e.event_date::DATE AS event_date,
+    o.locale
+  INTO v_ticket
+  FROM tickets t
+  JOIN events e ON t.event_id = e.id
+  LEFT JOIN orders o ON t.order_id = o.id
+  WHERE t.id = v_upgrade.ticket_id
+  FOR UPDATE OF t;
+
+  IF NOT FOUND OR v_ticket.ticket_type_id IS DISTINCT FROM v_upgrade.from_ticket_type_id THEN
+    RAISE EXCEPTION 'Ticket type changed since the upgrade was requested'
+      USING ERRCODE = 'P0008';
+  END IF;
+
+  IF v_ticket.status IN ('cancelled', 'refunded') THEN
+    RAISE EXCEPTION 'Ticket has been cancelled or refunded'
+      USING ERRCODE = 'P0003';
+  END IF;
+
+  -- Take one unit of the new type's inventory (CHECK tickets_sold <= total_inventory backs this up)
+  UPDATE ticket_types
+  SET tickets_sold = COALESCE(tickets_sold, 0) + 1
+  WHERE id = v_upgrade.to_ticket_type_id
+    AND (total_inventory IS NULL OR COALESCE(tickets_sold, 0) < total_inventory);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Upgrade ticket type is sold out'
+      USING ERRCODE = 'P0006';
+  END IF;
+
+  -- Release the unit of the old type
+  UPDATE ticket_types
+  SET tickets_sold = GREATEST(COALESCE(tickets_sold, 0) - 1, 0)
+  WHERE id = v_upgrade.from_ticket_type_id;
+
+  PERFORM advance_price_tier(v_upgrade.to_ticket_type_id, 1);
+
+  -- Re-issue the QR so screenshots of the old ticket type stop working
+  v_new_token := gen_random_uuid();
+
+  v_signing_secret := current_setting('app.qr_signing_secret', true);
+  IF v_signing_secret IS NULL OR v_signing_secret = '' THEN
+    RAISE EXCEPTION 'QR signing secret not configured'
+      USING ERRCODE = 'P0009';
+  END IF;
+
+  v_new_signature := generate_qr_signature(v_new_token::TEXT, v_signing_secret);
+
+  UPDATE tickets SET
+    ticket_type_id = v_upgrade.to_ticket_type_id,
+    price          = COALESCE(price, 0) + v_upgrade.price_difference,
+    qr_token       = v_new_token,
+    qr_signature   = v_new_signature,
+    qr_code_data   = v_new_token::TEXT,
+    qr_code_value  = v_new_token::TEXT
+  WHERE id = v_upgrade.ticket_id;
+
+  UPDATE ticket_upgrades SET
+    status                   = 'completed',
+    stripe_payment_intent_id = COALESCE(p_payment_intent_id, stripe_payment_intent_id),
+    completed_at             = NOW()
+  WHERE id = p_upgrade_id;
+
+  RETURN json_build_object(
+    'upgrade_id',            p_upgrade_id,
+    'ticket_id',             v_upgrade.ticket_id,
+    'ticket_code',           v_ticket.ticket_id,
+    'attendee_email',        v_ticket.attendee_email,
+    'attendee_name',         v_ticket.attendee_name,
+    'event_name',            v_ticket.event_name,
+    'event_date',            v_ticket.event_date,
+    'locale',                v_ticket.locale,
+    'from_ticket_type_id',   v_upgrade.from_ticket_type_id,
+    'from_ticket_type_name', v_upgrade.from_ticket_type_name,
+    'to_ticket_type_id',     v_upgrade.to_ticket_type_id,
+    'to_ticket_type_name',   v_upgrade.to_ticket_type_name,
+    'price_difference',      v_upgrade.price_difference,
+    'channel',               v_upgrade.channel,
+    'upgraded_by',           v_upgrade.upgraded_by,
+    'new_qr_token',          v_new_token
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_ticket_upgrade FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_ticket_upgrade TO service_role;
+
+COMMIT;
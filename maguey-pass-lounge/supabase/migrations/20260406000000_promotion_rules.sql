@@ -0,0 +1,453 @@
+-- Migration: Rule-based promotions
+-- Extends promotions beyond a single fixed code:
+--   • scoping to events / ticket types, minimum quantity and subtotal
+--   • buy-X-get-Y, auto-applied promos (no code), happy-hour windows
+--   • per-customer limits, stacking rules with priority
+--   • bulk-generated single-use codes (promotion_codes)
+--   • redemption tracking and reporting (promotion_redemptions, promotion_performance)
+--
+-- The rules are evaluated by promotion-rules.ts (src/lib and supabase/functions/_shared);
+-- get_applicable_promotions feeds it, create-checkout-session is authoritative.
+
+BEGIN;
+
+-- ============================================
+-- 1. EXTEND PROMOTIONS
+-- ============================================
+
+ALTER TABLE public.promotions
+  ALTER COLUMN code DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS name               TEXT,
+  ADD COLUMN IF NOT EXISTS description        TEXT,
+  ADD COLUMN IF NOT EXISTS auto_apply         BOOLEAN       NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS event_ids          TEXT[],
+  ADD COLUMN IF NOT EXISTS ticket_type_ids    UUID[],
+  ADD COLUMN IF NOT EXISTS min_quantity       INTEGER       CHECK (min_quantity > 0),
+  ADD COLUMN IF NOT EXISTS min_subtotal       NUMERIC(10,2) CHECK (min_subtotal >= 0),
+  ADD COLUMN IF NOT EXISTS buy_quantity       INTEGER       CHECK (buy_quantity > 0),
+  ADD COLUMN IF NOT EXISTS get_quantity       INTEGER       CHECK (get_quantity > 0),
+  ADD COLUMN IF NOT EXISTS per_customer_limit INTEGER       CHECK (per_customer_limit > 0),
+  ADD COLUMN IF NOT EXISTS happy_hour_start   TIME,
+  ADD COLUMN IF NOT EXISTS happy_hour_end     TIME,
+  ADD COLUMN IF NOT EXISTS days_of_week       SMALLINT[],
+  ADD COLUMN IF NOT EXISTS stackable          BOOLEAN       NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS priority           INTEGER       NOT NULL DEFAULT 0;
+
+ALTER TABLE public.promotions
+  DROP CONSTRAINT IF EXISTS promotions_discount_type_check;
+
+ALTER TABLE public.promotions
+  ADD CONSTRAINT promotions_discount_type_check
+  CHECK (discount_type IN ('amount', 'percent', 'buy_x_get_y'));
+
+ALTER TABLE public.promotions
+  ADD CONSTRAINT promotions_buy_x_get_y_check
+  CHECK (discount_type <> 'buy_x_get_y' OR (buy_quantity IS NOT NULL AND get_quantity IS NOT NULL));
+
+ALTER TABLE public.promotions
+  ADD CONSTRAINT promotions_happy_hour_check
+  CHECK ((happy_hour_start IS NULL) = (happy_hour_end IS NULL));
+
+CREATE INDEX IF NOT EXISTS promotions_auto_apply_idx
+  ON public.promotions (auto_apply)
+  WHERE active = true AND auto_apply = true;
+
+COMMENT ON COLUMN public.promotions.amount IS
+  'amount: dollars off the order; percent: percent off eligible tickets; '
+  'buy_x_get_y: percent off the "get" tickets (100 = free)';
+COMMENT ON COLUMN public.promotions.happy_hour_start IS
+  'Venue time (America/New_York). A window may cross midnight, e.g. 22:00 → 02:00';
+COMMENT ON COLUMN public.promotions.days_of_week IS
+  '0 = Sunday … 6 = Saturday, venue time. NULL = every day';
+
+-- ============================================
+-- 2. BULK SINGLE-USE CODES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.promotion_codes (
+  id           UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  promotion_id UUID        NOT NULL REFERENCES public.promotions(id) ON DELETE CASCADE,
+  code         TEXT        NOT NULL UNIQUE,
+  max_uses     INTEGER     NOT NULL DEFAULT 1 CHECK (max_uses > 0),
+  batch_label  TEXT,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_promotion_codes_promotion_id
+  ON public.promotion_codes(promotion_id);
+
+-- ============================================
+-- 3. REDEMPTIONS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.promotion_redemptions (
+  id                UUID          PRIMARY KEY DEFAULT gen_random_uuid(),
+  promotion_id      UUID          NOT NULL REFERENCES public.promotions(id) ON DELETE CASCADE,
+  promotion_code_id UUID          REFERENCES public.promotion_codes(id) ON DELETE SET NULL,
+  order_id          UUID          NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  customer_email    TEXT          NOT NULL,
+  discount_amount   NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0),
+  status            TEXT          NOT NULL DEFAULT 'pending'
+                      CHECK (status IN ('pending', 'redeemed', 'void')),
+  created_at        TIMESTAMPTZ   NOT NULL DEFAULT NOW(),
+  redeemed_at       TIMESTAMPTZ,
+  UNIQUE (promotion_id, order_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_promotion_redemptions_promotion_status
+  ON public.promotion_redemptions(promotion_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_promotion_redemptions_code
+  ON public.promotion_redemptions(promotion_code_id)
+  WHERE promotion_code_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_promotion_redemptions_email
+  ON public.promotion_redemptions(LOWER(customer_email));
+
+COMMENT ON TABLE public.promotion_redemptions IS
+  'One row per promotion applied to an order. Pending until stripe-webhook marks it redeemed. '
+  'Limits count redeemed rows plus pending rows from the last 24 hours (Stripe Checkout '
+  'sessions expire after 24 hours, so older pending rows were abandoned).';
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS discount_total NUMERIC(10,2) NOT NULL DEFAULT 0;
+
+-- Carry over redemptions of the old single-code flow so usage limits keep counting them
+INSERT INTO public.promotion_redemptions (promotion_id, order_id, customer_email, status, created_at, redeemed_at)
+SELECT o.promo_code_id, o.id, COALESCE(o.purchaser_email, ''), 'redeemed', o.created_at, o.created_at
+FROM public.orders o
+WHERE o.promo_code_id IS NOT NULL
+  AND o.status = 'paid'
+ON CONFLICT (promotion_id, order_id) DO NOTHING;
+
+-- ============================================
+-- 4. RLS
+-- ============================================
+
+ALTER TABLE public.promotions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.promotion_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.promotion_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can read promotions (existing code lookups read the table directly)
+CREATE POLICY "promotions_read_public"
+  ON public.promotions FOR SELECT
+  USING (true);
+
+CREATE POLICY "promotions_write_service"
+  ON public.promotions FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+-- Organizers (pass-lounge admins) manage promotions from the browser
+CREATE POLICY "promotions_write_organizer"
+  ON public.promotions FOR ALL
+  USING (
+    auth.role() = 'authenticated'
+    AND (auth.jwt() -> 'user_metadata' ->> 'account_type') = 'organizer'
+  )
+  WITH CHECK (
+    auth.role() = 'authenticated'
+    AND (auth.jwt() -> 'user_metadata' ->> 'account_type') = 'organizer'
+  );
+
+-- Single-use codes are secret: organizers and the service role only
+CREATE POLICY "promotion_codes_service"
+  ON public.promotion_codes FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "promotion_codes_organizer"
+  ON public.promotion_codes FOR ALL
+  USING (
+    auth.role() = 'authenticated'
+    AND (auth.jwt() -> 'user_metadata' ->> 'account_type') = 'organizer'
+  )
+  WITH CHECK (
+    auth.role() = 'authenticated'
+    AND (auth.jwt() -> 'user_metadata' ->> 'account_type') = 'organizer'
+  );
+
+CREATE POLICY "promotion_redemptions_service"
+  ON public.promotion_redemptions FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "promotion_redemptions_read_organizer"
+  ON public.promotion_redemptions FOR SELECT
+  USING (
+    auth.role() = 'authenticated'
+    AND (auth.jwt() -> 'user_metadata' ->> 'account_type') = 'organizer'
+  );
+
+-- ============================================
+-- 5. RPC: get_applicable_promotions
+-- ============================================
+-- Candidate promotions for a cart: auto-applied promotions for the event plus
+-- whatever p_code matches (a shared promotions.code or a promotion_codes code).
+-- Code matches are returned even when out of scope or expired so the evaluator
+-- can say why they don't apply. Usage counts are included for limit checks.
+
+CREATE OR REPLACE FUNCTION public.get_applicable_promotions(
+  p_event_id       TEXT,
+  p_code           TEXT DEFAULT NULL,
+  p_customer_email TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id                   UUID,
+  name                 TEXT,
+  code                 TEXT,
+  matched_code         TEXT,
+  promotion_code_id    UUID,
+  discount_type        TEXT,
+  amount               NUMERIC,
+  auto_apply           BOOLEAN,
+  event_ids            TEXT[],
+  ticket_type_ids      UUID[],
+  min_quantity         INTEGER,
+  min_subtotal         NUMERIC,
+  buy_quantity         INTEGER,
+  get_quantity         INTEGER,
+  valid_from           TIMESTAMPTZ,
+  valid_to             TIMESTAMPTZ,
+  happy_hour_start     TIME,
+  happy_hour_end       TIME,
+  days_of_week         SMALLINT[],
+  stackable            BOOLEAN,
+  priority             INTEGER,
+  usage_limit          INTEGER,
+  usage_count          BIGINT,
+  per_customer_limit   INTEGER,
+  customer_usage_count BIGINT,
+  code_uses_remaining  BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH entered AS (
+    SELECT NULLIF(UPPER(TRIM(p_code)), '') AS code
+  ),
+  live AS (
+    SELECT r.promotion_id, r.promotion_code_id, LOWER(r.customer_email) AS email
+    FROM promotion_redemptions r
+    WHERE r.status = 'redeemed'
+       OR (r.status = 'pending' AND r.created_at > NOW() - INTERVAL '24 hours')
+  )
+  SELECT
+    p.id,
+    p.name,
+    p.code,
+    CASE WHEN UPPER(p.code) = e.code OR pc.id IS NOT NULL THEN e.code END,
+    pc.id,
+    p.discount_type,
+    p.amount,
+    p.auto_apply,
+    p.event_ids,
+    p.ticket_type_ids,
+    p.min_quantity,
+    p.min_subtotal,
+    p.buy_quantity,
+    p.get_quantity,
+    p.valid_from,
+    p.valid_to,
+    p.happy_hour_start,
+    p.happy_hour_end,
+    p.days_of_week,
+    p.stackable,
+    p.priority,
+    p.usage_limit,
+    (SELECT COUNT(*) FROM live l WHERE l.promotion_id = p.id),
+    p.per_customer_limit,
+    (SELECT COUNT(*) FROM live l
+      WHERE l.promotion_id = p.id AND l.email = LOWER(TRIM(p_customer_email))),
+    CASE WHEN pc.id IS NOT NULL THEN
+      pc.max_uses - (SELECT COUNT(*) FROM live l WHERE l.promotion_code_id = pc.id)
+    END
+  FROM promotions p
+  CROSS JOIN entered e
+  LEFT JOIN promotion_codes pc ON pc.promotion_id = p.id AND pc.code = e.code
+  WHERE p.active = true
+    AND (
+      UPPER(p.code) = e.code
+      OR pc.id IS NOT NULL
+      OR (
+        p.auto_apply = true
+        AND (p.event_ids IS NULL OR p_event_id = ANY(p.event_ids))
+        AND (p.valid_to IS NULL OR p.valid_to >= NOW())
+      )
+    );
+$$;
+
+-- ============================================
+-- 6. RPC: reserve_promotion_redemptions
+-- ============================================
+-- Called by create-checkout-session (service role) once the order exists.
+-- Re-checks usage limits under a row lock so two checkouts can't both take
+-- the last use, then records pending redemptions.
+-- p_redemptions: [{ "promotion_id": uuid, "promotion_code_id": uuid | null, "discount": number }]
+
+CREATE OR REPLACE FUNCTION public.reserve_promotion_redemptions(
+  p_order_id       UUID,
+  p_customer_email TEXT,
+  p_redemptions    JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item      RECORD;
+  v_promotion RECORD;
+  v_max_uses  INTEGER;
+  v_used      BIGINT;
+BEGIN
+  FOR v_item IN
+    SELECT *
+    FROM jsonb_to_recordset(p_redemptions)
+      AS x(promotion_id UUID, promotion_code_id UUID, discount NUMERIC)
+  LOOP
+    SELECT * INTO v_promotion
+    FROM promotions
+    WHERE id = v_item.promotion_id
+      AND active = true
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Promotion not available';
+    END IF;
+
+    IF v_promotion.usage_limit IS NOT NULL THEN
+      SELECT COUNT(*) INTO v_used
+      FROM promotion_redemptions
+      WHERE promotion_id = v_item.promotion_id
+        AND (status = 'redeemed' OR (status = 'pending' AND created_at > NOW() - INTERVAL '24 hours'));
+
+      IF v_used >= v_promotion.usage_limit THEN
+        RAISE EXCEPTION 'Promotion usage limit reached';
+      END IF;
+    END IF;
+
+    IF v_promotion.per_customer_limit IS NOT NULL THEN
+      SELECT COUNT(*) INTO v_used
+      FROM promotion_redemptions
+      WHERE promotion_id = v_item.promotion_id
+        AND LOWER(customer_email) = LOWER(TRIM(p_customer_email))
+        AND (status = 'redeemed' OR (status = 'pending' AND created_at > NOW() - INTERVAL '24 hours'));
+
+      IF v_used >= v_promotion.per_customer_limit THEN
+        RAISE EXCEPTION 'Promotion already used by this customer';
+      END IF;
+    END IF;
+
+    IF v_item.promotion_code_id IS NOT NULL THEN
+      SELECT max_uses INTO v_max_uses
+      FROM promotion_codes
+      WHERE id = v_item.promotion_code_id
+      FOR UPDATE;
+
+      SELECT COUNT(*) INTO v_used
+      FROM promotion_redemptions
+      WHERE promotion_code_id = v_item.promotion_code_id
+        AND (status = 'redeemed' OR (status = 'pending' AND created_at > NOW() - INTERVAL '24 hours'));
+
+      IF v_max_uses IS NULL OR v_used >= v_max_uses THEN
+        RAISE EXCEPTION 'Promotion code already used';
+      END IF;
+    END IF;
+
+    INSERT INTO promotion_redemptions (
+      promotion_id, promotion_code_id, order_id, customer_email, discount_amount
+    ) VALUES (
+      v_item.promotion_id, v_item.promotion_code_id, p_order_id,
+      TRIM(p_customer_email), COALESCE(v_item.discount, 0)
+    );
+  END LOOP;
+END;
+$$;
+
+-- ============================================
+-- 7. RPC: generate_promotion_codes
+-- ============================================
+-- Bulk-creates single-use (or N-use) codes for a promotion, e.g. for a
+-- partner giveaway. Returns the new codes so the admin can export them.
+
+CREATE OR REPLACE FUNCTION public.generate_promotion_codes(
+  p_promotion_id UUID,
+  p_count        INTEGER,
+  p_prefix       TEXT DEFAULT NULL,
+  p_max_uses     INTEGER DEFAULT 1,
+  p_batch_label  TEXT DEFAULT NULL
+)
+RETURNS SETOF TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_prefix  TEXT;
+  v_code    TEXT;
+  v_created INTEGER := 0;
+BEGIN
+  IF auth.role() <> 'service_role'
+     AND COALESCE(auth.jwt() -> 'user_metadata' ->> 'account_type', '') <> 'organizer' THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  IF p_count IS NULL OR p_count < 1 OR p_count > 5000 THEN
+    RAISE EXCEPTION 'Count must be between 1 and 5000';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM promotions WHERE id = p_promotion_id) THEN
+    RAISE EXCEPTION 'Promotion not found';
+  END IF;
+
+  v_prefix := NULLIF(regexp_replace(UPPER(COALESCE(p_prefix, '')), '[^A-Z0-9]', '', 'g'), '');
+
+  WHILE v_created < p_count LOOP
+    v_code := COALESCE(v_prefix || '-', '')
+      || UPPER(SUBSTRING(REPLACE(gen_random_uuid()::TEXT, '-', '') FROM 1 FOR 8));
+
+    -- Never shadow a shared promotion code
+    CONTINUE WHEN EXISTS (SELECT 1 FROM promotions WHERE UPPER(code) = v_code);
+
+    INSERT INTO promotion_codes (promotion_id, code, max_uses, batch_label)
+    VALUES (p_promotion_id, v_code, GREATEST(COALESCE(p_max_uses, 1), 1), p_batch_label)
+    ON CONFLICT (code) DO NOTHING;
+
+    IF FOUND THEN
+      v_created := v_created + 1;
+      RETURN NEXT v_code;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- ============================================
+-- 8. REPORTING VIEW
+-- ============================================
+
+CREATE OR REPLACE VIEW public.promotion_performance
+WITH (security_invoker = true) AS
+SELECT
+  p.id AS promotion_id,
+  COUNT(r.id) FILTER (WHERE r.status = 'redeemed') AS redemptions,
+  COUNT(r.id) FILTER (WHERE r.status = 'pending') AS pending_redemptions,
+  COUNT(DISTINCT LOWER(r.customer_email)) FILTER (WHERE r.status = 'redeemed') AS unique_customers,
+  COALESCE(SUM(r.discount_amount) FILTER (WHERE r.status = 'redeemed'), 0) AS discount_total,
+  COALESCE(SUM(o.total) FILTER (WHERE r.status = 'redeemed'), 0) AS revenue,
+  (SELECT COUNT(*) FROM public.promotion_codes pc WHERE pc.promotion_id = p.id) AS generated_codes,
+  MAX(r.redeemed_at) AS last_redeemed_at
+FROM public.promotions p
+LEFT JOIN public.promotion_redemptions r ON r.promotion_id = p.id
+LEFT JOIN public.orders o ON o.id = r.order_id
+GROUP BY p.id;
+
+GRANT EXECUTE ON FUNCTION public.get_applicable_promotions(TEXT, TEXT, TEXT) TO anon, authenticated, service_role;
+REVOKE EXECUTE ON FUNCTION public.reserve_promotion_redemptions(UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_promotion_redemptions(UUID, TEXT, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION public.generate_promotion_codes(UUID, INTEGER, TEXT, INTEGER, TEXT) TO authenticated, service_role;
+GRANT SELECT ON public.promotion_performance TO authenticated;
+
+COMMIT;
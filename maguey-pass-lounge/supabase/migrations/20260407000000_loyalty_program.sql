@@ -0,0 +1,518 @@
+-- Migration: Loyalty program wiring
+-- user_loyalty (20250303000002) existed but nothing earned or spent it. This adds:
+--   • loyalty_tiers: tier promotion thresholds, points multiplier and perks
+--     (early on-sale access, free re-entry, skip-the-line)
+--   • loyalty_ledger: every points/credits movement, shown on the Account page
+--   • award/reverse RPCs called by stripe-webhook on paid orders and refunds
+--   • reserve/release RPCs for credits redeemed as a checkout discount
+--   • convert_loyalty_points for customers, get_ticket_loyalty_perks for the scanner
+--   • events.on_sale_at so early access has something to be early for
+
+BEGIN;
+
+-- ============================================
+-- 1. TIER RULES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.loyalty_tiers (
+  tier               VARCHAR PRIMARY KEY CHECK (tier IN ('bronze', 'silver', 'gold', 'platinum')),
+  rank               SMALLINT      NOT NULL UNIQUE,
+  -- A customer reaches the tier once both thresholds are met
+  min_spent          NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (min_spent >= 0),
+  min_orders         INTEGER       NOT NULL DEFAULT 0 CHECK (min_orders >= 0),
+  points_multiplier  NUMERIC(4,2)  NOT NULL DEFAULT 1 CHECK (points_multiplier > 0),
+  early_access_hours INTEGER       NOT NULL DEFAULT 0 CHECK (early_access_hours >= 0),
+  free_reentry       BOOLEAN       NOT NULL DEFAULT false,
+  skip_line          BOOLEAN       NOT NULL DEFAULT false,
+  updated_at         TIMESTAMPTZ   NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO public.loyalty_tiers
+  (tier, rank, min_spent, min_orders, points_multiplier, early_access_hours, free_reentry, skip_line)
+VALUES
+  ('bronze',   0,    0, 0, 1.00,  0, false, false),
+  ('silver',   1,  200, 2, 1.25,  0, false, false),
+  ('gold',     2,  500, 4, 1.50, 24, true,  false),
+  ('platinum', 3, 1000, 8, 2.00, 48, true,  true)
+ON CONFLICT (tier) DO NOTHING;
+
+COMMENT ON TABLE public.loyalty_tiers IS 'Loyalty tier thresholds and perks; user_loyalty.membership_tier is recomputed from these';
+
+-- Tier follows the highest rule the customer meets (refunds can drop it again)
+CREATE OR REPLACE FUNCTION update_membership_tier()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_tier VARCHAR;
+BEGIN
+  SELECT tier INTO v_tier
+  FROM loyalty_tiers
+  WHERE NEW.total_spent >= min_spent
+    AND NEW.total_orders >= min_orders
+  ORDER BY rank DESC
+  LIMIT 1;
+
+  NEW.membership_tier = COALESCE(v_tier, 'bronze');
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_loyalty_tier ON public.user_loyalty;
+CREATE TRIGGER update_loyalty_tier
+  BEFORE UPDATE ON public.user_loyalty
+  FOR EACH ROW
+  WHEN (
+    OLD.total_spent IS DISTINCT FROM NEW.total_spent
+    OR OLD.total_orders IS DISTINCT FROM NEW.total_orders
+  )
+  EXECUTE FUNCTION update_membership_tier();
+
+-- ============================================
+-- 2. LEDGER
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.loyalty_ledger (
+  id          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  loyalty_id  UUID          NOT NULL REFERENCES public.user_loyalty(id) ON DELETE CASCADE,
+  order_id    UUID          REFERENCES public.orders(id) ON DELETE SET NULL,
+  entry_type  TEXT          NOT NULL
+                CHECK (entry_type IN ('earn', 'reverse', 'redeem', 'release', 'convert', 'tier_change', 'adjust')),
+  points      INTEGER       NOT NULL DEFAULT 0,
+  credits     NUMERIC(10,2) NOT NULL DEFAULT 0,
+  -- Order money the entry relates to: order total for earn, refunded amount for reverse
+  amount      NUMERIC(10,2),
+  description TEXT,
+  created_at  TIMESTAMPTZ   NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_loyalty_ledger_account ON public.loyalty_ledger(loyalty_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_loyalty_ledger_order ON public.loyalty_ledger(order_id);
+
+-- An order earns once and redeems credits once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_loyalty_ledger_order_once
+  ON public.loyalty_ledger(order_id, entry_type)
+  WHERE entry_type IN ('earn', 'redeem', 'release');
+
+CREATE OR REPLACE FUNCTION log_loyalty_tier_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO loyalty_ledger (loyalty_id, entry_type, description)
+  VALUES (NEW.id, 'tier_change', 'Tier changed from ' || OLD.membership_tier || ' to ' || NEW.membership_tier);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS log_loyalty_tier_change ON public.user_loyalty;
+CREATE TRIGGER log_loyalty_tier_change
+  AFTER UPDATE ON public.user_loyalty
+  FOR EACH ROW
+  WHEN (OLD.membership_tier IS DISTINCT FROM NEW.membership_tier)
+  EXECUTE FUNCTION log_loyalty_tier_change();
+
+-- ============================================
+-- 3. ORDERS / EVENTS
+-- ============================================
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS loyalty_credits_applied NUMERIC(10,2) NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.orders.loyalty_credits_applied IS 'Loyalty credits redeemed on this order (included in discount_total)';
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS on_sale_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.events.on_sale_at IS 'When general ticket sales open; NULL = on sale now. Tiers with early_access_hours can buy earlier';
+
+-- ============================================
+-- 4. RLS
+-- ============================================
+
+ALTER TABLE public.loyalty_tiers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.loyalty_ledger ENABLE ROW LEVEL SECURITY;
+
+-- Tier rules and perks are shown to everyone
+CREATE POLICY "loyalty_tiers_read_public"
+  ON public.loyalty_tiers FOR SELECT
+  USING (true);
+
+CREATE POLICY "loyalty_tiers_write_organizer"
+  ON public.loyalty_tiers FOR ALL
+  USING (
+    auth.role() = 'authenticated'
+    AND (auth.jwt() -> 'user_metadata' ->> 'account_type') = 'organizer'
+  )
+  WITH CHECK (
+    auth.role() = 'authenticated'
+    AND (auth.jwt() -> 'user_metadata' ->> 'account_type') = 'organizer'
+  );
+
+CREATE POLICY "loyalty_ledger_service"
+  ON public.loyalty_ledger FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "loyalty_ledger_read_own"
+  ON public.loyalty_ledger FOR SELECT
+  USING (
+    loyalty_id IN (
+      SELECT id FROM public.user_loyalty
+      WHERE user_id = auth.uid()
+         OR LOWER(email) = LOWER(auth.jwt() ->> 'email')
+    )
+  );
+
+-- ============================================
+-- 5. ACCOUNT HELPER
+-- ============================================
+-- Finds (or creates) the loyalty row for an email and locks it.
+
+CREATE OR REPLACE FUNCTION public.lock_loyalty_account(p_email TEXT, p_user_id UUID DEFAULT NULL)
+RETURNS public.user_loyalty
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email   TEXT := LOWER(TRIM(p_email));
+  v_account user_loyalty;
+BEGIN
+  IF p_user_id IS NOT NULL THEN
+    SELECT * INTO v_account FROM user_loyalty WHERE user_id = p_user_id FOR UPDATE;
+    IF FOUND THEN
+      RETURN v_account;
+    END IF;
+  END IF;
+
+  INSERT INTO user_loyalty (user_id, email)
+  VALUES (p_user_id, v_email)
+  ON CONFLICT (email) DO NOTHING;
+
+  SELECT * INTO v_account FROM user_loyalty WHERE LOWER(email) = v_email FOR UPDATE;
+
+  IF v_account.user_id IS NULL AND p_user_id IS NOT NULL THEN
+    UPDATE user_loyalty SET user_id = p_user_id WHERE id = v_account.id
+    RETURNING * INTO v_account;
+  END IF;
+
+  RETURN v_account;
+END;
+$$;
+
+-- ============================================
+-- 6. RPC: award_order_loyalty
+-- ============================================
+-- Called by stripe-webhook once an order is paid. Idempotent: an order earns once.
+-- Points = order total (after discounts) × the customer's current tier multiplier.
+
+CREATE OR REPLACE FUNCTION public.award_order_loyalty(p_order_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order      RECORD;
+  v_account    user_loyalty;
+  v_multiplier NUMERIC;
+  v_points     INTEGER;
+BEGIN
+  SELECT id, user_id, total, status, COALESCE(purchaser_email, customer_email) AS email
+  INTO v_order
+  FROM orders
+  WHERE id = p_order_id;
+
+  IF NOT FOUND OR v_order.status NOT IN ('paid', 'completed') OR v_order.email IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  v_account := lock_loyalty_account(v_order.email, v_order.user_id);
+
+  IF EXISTS (SELECT 1 FROM loyalty_ledger WHERE order_id = p_order_id AND entry_type = 'earn') THEN
+    RETURN 0;
+  END IF;
+
+  SELECT points_multiplier INTO v_multiplier FROM loyalty_tiers WHERE tier = v_account.membership_tier;
+  v_points := FLOOR(COALESCE(v_order.total, 0) * COALESCE(v_multiplier, 1));
+
+  UPDATE user_loyalty
+  SET points       = points + v_points,
+      total_spent  = total_spent + COALESCE(v_order.total, 0),
+      total_orders = total_orders + 1
+  WHERE id = v_account.id;
+
+  INSERT INTO loyalty_ledger (loyalty_id, order_id, entry_type, points, amount, description)
+  VALUES (v_account.id, p_order_id, 'earn', v_points, v_order.total, 'Points earned on order');
+
+  RETURN v_points;
+END;
+$$;
+
+-- ============================================
+-- 7. RPC: reverse_order_loyalty
+-- ============================================
+-- Called on refunds with the order's CUMULATIVE refunded amount, so Stripe
+-- retrying charge.refunded (or a later partial refund) only reverses the delta.
+-- Points and credits spent on the order are returned pro rata.
+
+CREATE OR REPLACE FUNCTION public.reverse_order_loyalty(p_order_id UUID, p_refunded_total NUMERIC)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order            RECORD;
+  v_earn             loyalty_ledger;
+  v_account          user_loyalty;
+  v_refunded         NUMERIC;
+  v_already_refunded NUMERIC;
+  v_already_points   INTEGER;
+  v_already_credits  NUMERIC;
+  v_redeemed_credits NUMERIC;
+  v_delta            NUMERIC;
+  v_fully_refunded   BOOLEAN;
+  v_points           INTEGER;
+  v_credits          NUMERIC;
+BEGIN
+  SELECT id, total INTO v_order FROM orders WHERE id = p_order_id;
+  IF NOT FOUND OR COALESCE(v_order.total, 0) <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  SELECT * INTO v_earn FROM loyalty_ledger WHERE order_id = p_order_id AND entry_type = 'earn';
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  SELECT * INTO v_account FROM user_loyalty WHERE id = v_earn.loyalty_id FOR UPDATE;
+
+  SELECT COALESCE(SUM(amount), 0), COALESCE(SUM(-points), 0), COALESCE(SUM(credits), 0)
+  INTO v_already_refunded, v_already_points, v_already_credits
+  FROM loyalty_ledger
+  WHERE order_id = p_order_id AND entry_type = 'reverse';
+
+  v_refunded := LEAST(GREATEST(p_refunded_total, 0), v_order.total);
+  v_delta := v_refunded - v_already_refunded;
+  IF v_delta <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  v_fully_refunded := v_refunded >= v_order.total;
+
+  SELECT COALESCE(SUM(-credits), 0) INTO v_redeemed_credits
+  FROM loyalty_ledger
+  WHERE order_id = p_order_id AND entry_type IN ('redeem', 'release');
+
+  IF v_fully_refunded THEN
+    v_points := v_earn.points - v_already_points;
+    v_credits := v_redeemed_credits - v_already_credits;
+  ELSE
+    v_points := ROUND(v_earn.points * v_delta / v_order.total);
+    v_credits := ROUND(v_redeemed_credits * v_delta / v_order.total, 2);
+  END IF;
+
+  -- Points already converted to credits can't be clawed back below zero
+  v_points := LEAST(GREATEST(v_points, 0), v_account.points);
+
+  UPDATE user_loyalty
+  SET points       = points - v_points,
+      credits      = credits + GREATEST(v_credits, 0),
+      total_spent  = GREATEST(total_spent - v_delta, 0),
+      total_orders = GREATEST(total_orders - CASE WHEN v_fully_refunded THEN 1 ELSE 0 END, 0)
+  WHERE id = v_account.id;
+
+  INSERT INTO loyalty_ledger (loyalty_id, order_id, entry_type, points, credits, amount, description)
+  VALUES (
+    v_account.id, p_order_id, 'reverse', -v_points, GREATEST(v_credits, 0), v_delta,
+    CASE WHEN v_fully_refunded THEN 'Order refunded' ELSE 'Order partially refunded' END
+  );
+
+  RETURN v_points;
+END;
+$$;
+
+-- Orders marked refunded by staff (not through Stripe) reverse in full
+CREATE OR REPLACE FUNCTION reverse_loyalty_on_order_refund()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM reverse_order_loyalty(NEW.id, NEW.total);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS reverse_loyalty_on_order_refund ON public.orders;
+CREATE TRIGGER reverse_loyalty_on_order_refund
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.status = 'refunded' AND OLD.status IS DISTINCT FROM 'refunded')
+  EXECUTE FUNCTION reverse_loyalty_on_order_refund();
+
+-- ============================================
+-- 8. RPC: reserve_loyalty_credits / release_loyalty_credits
+-- ============================================
+-- create-checkout-session takes the credits off the balance before sending the
+-- guest to Stripe; stripe-webhook gives them back if the session expires unpaid.
+
+CREATE OR REPLACE FUNCTION public.reserve_loyalty_credits(
+  p_order_id       UUID,
+  p_customer_email TEXT,
+  p_amount         NUMERIC
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_account user_loyalty;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid loyalty credit amount';
+  END IF;
+
+  SELECT * INTO v_account
+  FROM user_loyalty
+  WHERE LOWER(email) = LOWER(TRIM(p_customer_email))
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_account.credits < p_amount THEN
+    RAISE EXCEPTION 'Insufficient loyalty credits';
+  END IF;
+
+  UPDATE user_loyalty SET credits = credits - p_amount WHERE id = v_account.id;
+
+  INSERT INTO loyalty_ledger (loyalty_id, order_id, entry_type, credits, description)
+  VALUES (v_account.id, p_order_id, 'redeem', -p_amount, 'Credits applied at checkout');
+
+  UPDATE orders SET loyalty_credits_applied = p_amount WHERE id = p_order_id;
+
+  RETURN v_account.credits - p_amount;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.release_loyalty_credits(p_order_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_redeem loyalty_ledger;
+  v_status TEXT;
+BEGIN
+  SELECT status INTO v_status FROM orders WHERE id = p_order_id;
+  IF v_status IN ('paid', 'completed') THEN
+    RETURN 0;
+  END IF;
+
+  SELECT * INTO v_redeem FROM loyalty_ledger WHERE order_id = p_order_id AND entry_type = 'redeem';
+  IF NOT FOUND
+     OR EXISTS (SELECT 1 FROM loyalty_ledger WHERE order_id = p_order_id AND entry_type = 'release') THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE user_loyalty SET credits = credits - v_redeem.credits WHERE id = v_redeem.loyalty_id;
+
+  INSERT INTO loyalty_ledger (loyalty_id, order_id, entry_type, credits, description)
+  VALUES (v_redeem.loyalty_id, p_order_id, 'release', -v_redeem.credits, 'Checkout not completed, credits returned');
+
+  UPDATE orders SET loyalty_credits_applied = 0 WHERE id = p_order_id;
+
+  RETURN -v_redeem.credits;
+END;
+$$;
+
+-- ============================================
+-- 9. RPC: convert_loyalty_points (customer)
+-- ============================================
+-- 100 points = $1 credit, in whole hundreds, for the signed-in customer.
+
+CREATE OR REPLACE FUNCTION public.convert_loyalty_points(p_points INTEGER)
+RETURNS public.user_loyalty
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email   TEXT := auth.jwt() ->> 'email';
+  v_account user_loyalty;
+BEGIN
+  IF auth.uid() IS NULL OR v_email IS NULL THEN
+    RAISE EXCEPTION 'Sign in to convert points';
+  END IF;
+
+  IF p_points IS NULL OR p_points <= 0 OR p_points % 100 <> 0 THEN
+    RAISE EXCEPTION 'Points must be converted in multiples of 100';
+  END IF;
+
+  v_account := lock_loyalty_account(v_email, auth.uid());
+
+  IF v_account.points < p_points THEN
+    RAISE EXCEPTION 'Not enough points';
+  END IF;
+
+  UPDATE user_loyalty
+  SET points  = points - p_points,
+      credits = credits + (p_points / 100)
+  WHERE id = v_account.id
+  RETURNING * INTO v_account;
+
+  INSERT INTO loyalty_ledger (loyalty_id, entry_type, points, credits, description)
+  VALUES (v_account.id, 'convert', -p_points, p_points / 100, 'Points converted to credits');
+
+  RETURN v_account;
+END;
+$$;
+
+-- ============================================
+-- 10. RPC: get_ticket_loyalty_perks (scanner)
+-- ============================================
+-- Door staff can't read orders or user_loyalty; this returns only the tier and
+-- its door perks for the ticket's purchaser.
+
+CREATE OR REPLACE FUNCTION public.get_ticket_loyalty_perks(p_ticket_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_perks RECORD;
+BEGIN
+  SELECT lt.tier, lt.free_reentry, lt.skip_line
+  INTO v_perks
+  FROM tickets t
+  JOIN orders o ON o.id = t.order_id
+  JOIN user_loyalty ul ON LOWER(ul.email) = LOWER(COALESCE(o.purchaser_email, o.customer_email))
+  JOIN loyalty_tiers lt ON lt.tier = ul.membership_tier
+  WHERE t.id = p_ticket_id;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('tier', NULL, 'free_reentry', FALSE, 'skip_line', FALSE);
+  END IF;
+
+  RETURN json_build_object(
+    'tier', v_perks.tier,
+    'free_reentry', v_perks.free_reentry,
+    'skip_line', v_perks.skip_line
+  );
+END;
+$$;
+
+-- ============================================
+
+REVOKE EXECUTE ON FUNCTION public.lock_loyalty_account(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.award_order_loyalty(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reverse_order_loyalty(UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reserve_loyalty_credits(UUID, TEXT, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_loyalty_credits(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.lock_loyalty_account(TEXT, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.award_order_loyalty(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.reverse_order_loyalty(UUID, NUMERIC) TO service_role;
+GRANT EXECUTE ON FUNCTION public.reserve_loyalty_credits(UUID, TEXT, NUMERIC) TO service_role;
+GRANT EXECUTE ON FUNCTION public.release_loyalty_credits(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.convert_loyalty_points(INTEGER) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_ticket_loyalty_perks(UUID) TO authenticated, service_role;
+
+COMMIT;
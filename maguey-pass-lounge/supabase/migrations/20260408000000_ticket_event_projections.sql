@@ -0,0 +1,249 @@
+-- Migration: Ticket event projections
+-- ticket_events (20250612000000) is only replayed per ticket on demand, so
+-- dashboards read the mutable tickets/orders tables instead. This adds:
+--   • ticket_events.global_position: store-wide append order projections read by
+--   • projection_checkpoints: last position each projection has applied
+--   • read models: per-event attendance, per-ticket timeline, revenue by hour
+--   • get_ticket_events_after for catch-up, reset_projection for rebuilds
+-- The projection runner lives in src/lib/projections.
+
+BEGIN;
+
+-- ============================================
+-- 1. GLOBAL POSITION
+-- ============================================
+-- sequence_number is per aggregate; projections need one order across all tickets
+
+CREATE SEQUENCE IF NOT EXISTS public.ticket_events_global_position_seq;
+
+ALTER TABLE public.ticket_events
+  ADD COLUMN IF NOT EXISTS global_position BIGINT;
+
+-- Backfill existing events in the order they were recorded
+UPDATE public.ticket_events te
+SET global_position = ordered.position
+FROM (
+  SELECT id, ROW_NUMBER() OVER (ORDER BY recorded_at, aggregate_id, sequence_number) AS position
+  FROM public.ticket_events
+) ordered
+WHERE te.id = ordered.id
+  AND te.global_position IS NULL;
+
+SELECT setval(
+  'public.ticket_events_global_position_seq',
+  GREATEST((SELECT COALESCE(MAX(global_position), 0) FROM public.ticket_events), 1),
+  (SELECT COUNT(*) > 0 FROM public.ticket_events)
+);
+
+ALTER TABLE public.ticket_events
+  ALTER COLUMN global_position SET DEFAULT nextval('public.ticket_events_global_position_seq'),
+  ALTER COLUMN global_position SET NOT NULL;
+
+ALTER SEQUENCE public.ticket_events_global_position_seq OWNED BY public.ticket_events.global_position;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ticket_events_global_position
+  ON public.ticket_events(global_position);
+
+COMMENT ON COLUMN public.ticket_events.global_position IS 'Store-wide append order; projections checkpoint against it';
+
+-- ============================================
+-- 2. CHECKPOINTS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.projection_checkpoints (
+  projection_name  VARCHAR PRIMARY KEY,
+  read_model_table VARCHAR     NOT NULL,
+  last_position    BIGINT      NOT NULL DEFAULT 0 CHECK (last_position >= 0),
+  status           VARCHAR     NOT NULL DEFAULT 'live' CHECK (status IN ('live', 'rebuilding', 'failed')),
+  last_error       TEXT,
+  events_applied   BIGINT      NOT NULL DEFAULT 0,
+  rebuilt_at       TIMESTAMPTZ,
+  updated_at       TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO public.projection_checkpoints (projection_name, read_model_table)
+VALUES
+  ('event_attendance', 'projection_event_attendance'),
+  ('ticket_timeline',  'projection_ticket_timeline'),
+  ('revenue_by_hour',  'projection_revenue_hourly')
+ON CONFLICT (projection_name) DO NOTHING;
+
+COMMENT ON TABLE public.projection_checkpoints IS 'Highest ticket_events.global_position applied by each projection';
+
+-- ============================================
+-- 3. READ MODELS
+-- ============================================
+-- Every row carries the last position applied to it so replaying a batch
+-- after a crash between upsert and checkpoint does not double count.
+
+CREATE TABLE IF NOT EXISTS public.projection_event_attendance (
+  event_id          VARCHAR PRIMARY KEY,
+  tickets_issued    INTEGER     NOT NULL DEFAULT 0,
+  checked_in        INTEGER     NOT NULL DEFAULT 0,
+  entries           INTEGER     NOT NULL DEFAULT 0,
+  exits             INTEGER     NOT NULL DEFAULT 0,
+  currently_inside  INTEGER     NOT NULL DEFAULT 0,
+  refunded          INTEGER     NOT NULL DEFAULT 0,
+  cancelled         INTEGER     NOT NULL DEFAULT 0,
+  transferred       INTEGER     NOT NULL DEFAULT 0,
+  first_entry_at    TIMESTAMPTZ,
+  last_entry_at     TIMESTAMPTZ,
+  last_position     BIGINT      NOT NULL DEFAULT 0,
+  updated_at        TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.projection_ticket_timeline (
+  ticket_id       UUID        NOT NULL,
+  global_position BIGINT      NOT NULL,
+  event_id        VARCHAR,
+  event_type      VARCHAR(100) NOT NULL,
+  status          VARCHAR,
+  summary         TEXT        NOT NULL,
+  actor_id        TEXT,
+  occurred_at     TIMESTAMPTZ NOT NULL,
+  last_position   BIGINT      NOT NULL,
+  PRIMARY KEY (ticket_id, global_position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_projection_ticket_timeline_event
+  ON public.projection_ticket_timeline(event_id, ticket_id, global_position DESC);
+
+CREATE TABLE IF NOT EXISTS public.projection_revenue_hourly (
+  event_id         VARCHAR       NOT NULL,
+  hour_start       TIMESTAMPTZ   NOT NULL,
+  tickets_sold     INTEGER       NOT NULL DEFAULT 0,
+  tickets_refunded INTEGER       NOT NULL DEFAULT 0,
+  ticket_revenue   NUMERIC(12,2) NOT NULL DEFAULT 0,
+  fee_revenue      NUMERIC(12,2) NOT NULL DEFAULT 0,
+  upgrade_revenue  NUMERIC(12,2) NOT NULL DEFAULT 0,
+  refunded_amount  NUMERIC(12,2) NOT NULL DEFAULT 0,
+  net_revenue      NUMERIC(12,2) NOT NULL DEFAULT 0,
+  last_position    BIGINT        NOT NULL DEFAULT 0,
+  updated_at       TIMESTAMPTZ   NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (event_id, hour_start)
+);
+
+COMMENT ON TABLE public.projection_event_attendance IS 'Read model: attendance counters per event, built from ticket_events';
+COMMENT ON TABLE public.projection_ticket_timeline IS 'Read model: one row per ticket event, for ticket history views';
+COMMENT ON TABLE public.projection_revenue_hourly IS 'Read model: ticket revenue, upgrades and refunds per event per hour';
+
+-- ============================================
+-- 4. ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE public.projection_checkpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.projection_event_attendance ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.projection_ticket_timeline ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.projection_revenue_hourly ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages projection checkpoints"
+  ON public.projection_checkpoints FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "Organizers can view projection checkpoints"
+  ON public.projection_checkpoints FOR SELECT
+  USING (auth.jwt() -> 'user_metadata' ->> 'account_type' = 'organizer');
+
+CREATE POLICY "Service role manages event attendance projection"
+  ON public.projection_event_attendance FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "Organizers can view event attendance projection"
+  ON public.projection_event_attendance FOR SELECT
+  USING (auth.jwt() -> 'user_metadata' ->> 'account_type' = 'organizer');
+
+CREATE POLICY "Service role manages ticket timeline projection"
+  ON public.projection_ticket_timeline FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "Organizers can view ticket timeline projection"
+  ON public.projection_ticket_timeline FOR SELECT
+  USING (auth.jwt() -> 'user_metadata' ->> 'account_type' = 'organizer');
+
+CREATE POLICY "Service role manages revenue projection"
+  ON public.projection_revenue_hourly FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "Organizers can view revenue projection"
+  ON public.projection_revenue_hourly FOR SELECT
+  USING (auth.jwt() -> 'user_metadata' ->> 'account_type' = 'organizer');
+
+-- ============================================
+-- 5. CATCH-UP READS
+-- ============================================
+-- Positions come from a sequence, so a slow transaction can commit a lower
+-- position after a higher one is already visible. Holding back events recorded
+-- in the last few seconds keeps the checkpoint from skipping over them.
+
+CREATE OR REPLACE FUNCTION public.get_ticket_events_after(
+  p_position BIGINT,
+  p_event_types TEXT[] DEFAULT NULL,
+  p_limit INTEGER DEFAULT 500,
+  p_settle_seconds INTEGER DEFAULT 2
+)
+RETURNS SETOF public.ticket_events
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT *
+  FROM ticket_events
+  WHERE global_position > p_position
+    AND (p_event_types IS NULL OR event_type = ANY(p_event_types))
+    AND recorded_at <= NOW() - make_interval(secs => p_settle_seconds)
+  ORDER BY global_position ASC
+  LIMIT LEAST(GREATEST(p_limit, 1), 5000);
+$$;
+
+-- ============================================
+-- 6. REBUILD
+-- ============================================
+-- Empties a read model and rewinds its checkpoint to 0 in one transaction;
+-- the runner then replays the whole store into it.
+
+CREATE OR REPLACE FUNCTION public.reset_projection(p_projection_name TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_table VARCHAR;
+BEGIN
+  SELECT read_model_table INTO v_table
+  FROM projection_checkpoints
+  WHERE projection_name = p_projection_name
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown projection: %', p_projection_name;
+  END IF;
+
+  EXECUTE format('DELETE FROM public.%I', v_table);
+
+  UPDATE projection_checkpoints
+  SET last_position = 0,
+      events_applied = 0,
+      status = 'rebuilding',
+      last_error = NULL,
+      rebuilt_at = NOW(),
+      updated_at = NOW()
+  WHERE projection_name = p_projection_name;
+END;
+$$;
+
+-- ============================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ticket_events;
+
+REVOKE EXECUTE ON FUNCTION public.get_ticket_events_after(BIGINT, TEXT[], INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reset_projection(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_ticket_events_after(BIGINT, TEXT[], INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.reset_projection(TEXT) TO service_role;
+
+COMMIT;
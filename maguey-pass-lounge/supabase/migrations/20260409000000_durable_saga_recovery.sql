@@ -0,0 +1,251 @@
+-- Migration: Durable saga recovery
+-- saga_executions (20250611000000) was written on a best-effort basis, so a
+-- saga whose runner died mid-way stayed 'running' forever with its inventory
+-- reserved. This adds:
+--   • heartbeat and lease columns so stalled executions can be detected and
+--     claimed by exactly one recovery worker
+--   • record_saga_progress: the single write path, rejecting writes from
+--     anyone but the current lease owner (SAGA_FENCED)
+--   • claim_stalled_sagas for the worker, claim_saga for manual retry/compensate
+--   • organizer read access for the admin recovery page
+-- The worker lives in src/lib/sagas/saga-recovery.ts.
+
+BEGIN;
+
+-- ============================================
+-- 1. HEARTBEAT AND LEASE COLUMNS
+-- ============================================
+
+ALTER TABLE public.saga_executions
+  ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS lease_owner TEXT,
+  ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_recovery_action TEXT,
+  ADD COLUMN IF NOT EXISTS last_recovered_at TIMESTAMPTZ;
+
+UPDATE public.saga_executions
+SET heartbeat_at = updated_at;
+
+CREATE INDEX IF NOT EXISTS idx_saga_executions_stalled
+  ON public.saga_executions(heartbeat_at)
+  WHERE status IN ('running', 'compensating');
+
+COMMENT ON COLUMN public.saga_executions.heartbeat_at IS 'Last time the runner recorded progress';
+COMMENT ON COLUMN public.saga_executions.attempts IS 'Number of times recovery has claimed this execution';
+COMMENT ON COLUMN public.saga_executions.lease_owner IS 'Recovery worker driving the saga (NULL = original runner)';
+
+-- ============================================
+-- 2. RECORD PROGRESS (FENCED WRITE)
+-- ============================================
+-- Called before and after every saga step. Once a worker has claimed the row
+-- only that worker may write; completed/compensated rows are final.
+
+CREATE OR REPLACE FUNCTION public.record_saga_progress(
+  p_saga_id TEXT,
+  p_saga_name TEXT,
+  p_status saga_status,
+  p_steps_completed TEXT[],
+  p_current_step TEXT,
+  p_steps_compensated TEXT[],
+  p_context_snapshot JSONB,
+  p_error_details JSONB,
+  p_compensation_errors JSONB,
+  p_started_at TIMESTAMPTZ,
+  p_completed_at TIMESTAMPTZ,
+  p_lease_owner TEXT DEFAULT NULL,
+  p_lease_seconds INTEGER DEFAULT 300,
+  p_recovery_action TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row public.saga_executions%ROWTYPE;
+  v_active BOOLEAN := p_status IN ('running', 'compensating');
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND COALESCE(auth.jwt() -> 'user_metadata' ->> 'account_type', '') <> 'organizer' THEN
+    RAISE EXCEPTION 'Not allowed to record saga progress' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_row
+  FROM public.saga_executions
+  WHERE saga_id = p_saga_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    IF p_lease_owner IS NOT NULL THEN
+      RAISE EXCEPTION 'SAGA_FENCED: saga % does not exist', p_saga_id;
+    END IF;
+
+    INSERT INTO public.saga_executions (
+      saga_id, saga_name, status, steps_completed, current_step, steps_compensated,
+      context_snapshot, error_details, compensation_errors, started_at, completed_at,
+      duration_ms, heartbeat_at
+    )
+    VALUES (
+      p_saga_id, p_saga_name, p_status, COALESCE(p_steps_completed, '{}'), p_current_step,
+      COALESCE(p_steps_compensated, '{}'), COALESCE(p_context_snapshot, '{}'::JSONB),
+      p_error_details, p_compensation_errors, p_started_at, p_completed_at,
+      CASE WHEN p_completed_at IS NOT NULL
+        THEN (EXTRACT(EPOCH FROM (p_completed_at - p_started_at)) * 1000)::INTEGER END,
+      NOW()
+    );
+    RETURN;
+  END IF;
+
+  IF v_row.status IN ('completed', 'compensated') THEN
+    RAISE EXCEPTION 'SAGA_FENCED: saga % is already %', p_saga_id, v_row.status;
+  END IF;
+
+  IF v_row.lease_owner IS DISTINCT FROM p_lease_owner THEN
+    RAISE EXCEPTION 'SAGA_FENCED: saga % is owned by %', p_saga_id, COALESCE(v_row.lease_owner, 'its original runner');
+  END IF;
+
+  UPDATE public.saga_executions
+  SET
+    status = p_status,
+    steps_completed = COALESCE(p_steps_completed, '{}'),
+    current_step = p_current_step,
+    steps_compensated = COALESCE(p_steps_compensated, '{}'),
+    context_snapshot = COALESCE(p_context_snapshot, context_snapshot),
+    error_details = p_error_details,
+    compensation_errors = p_compensation_errors,
+    completed_at = p_completed_at,
+    duration_ms = CASE WHEN p_completed_at IS NOT NULL
+      THEN (EXTRACT(EPOCH FROM (p_completed_at - started_at)) * 1000)::INTEGER END,
+    heartbeat_at = NOW(),
+    lease_expires_at = CASE
+      WHEN p_lease_owner IS NOT NULL AND v_active THEN NOW() + make_interval(secs => p_lease_seconds)
+      ELSE NULL
+    END,
+    last_recovery_action = COALESCE(p_recovery_action, last_recovery_action)
+  WHERE saga_id = p_saga_id;
+END;
+$$;
+
+-- ============================================
+-- 3. CLAIM STALLED EXECUTIONS (WORKER)
+-- ============================================
+-- Running/compensating executions with no heartbeat for p_stale_seconds and
+-- no live lease. SKIP LOCKED lets several workers poll side by side.
+
+CREATE OR REPLACE FUNCTION public.claim_stalled_sagas(
+  p_worker_id TEXT,
+  p_stale_seconds INTEGER DEFAULT 120,
+  p_lease_seconds INTEGER DEFAULT 300,
+  p_limit INTEGER DEFAULT 10
+)
+RETURNS SETOF public.saga_executions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.saga_executions se
+  SET
+    lease_owner = p_worker_id,
+    lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+    heartbeat_at = NOW(),
+    attempts = se.attempts + 1,
+    last_recovered_at = NOW()
+  WHERE se.id IN (
+    SELECT id
+    FROM public.saga_executions
+    WHERE status IN ('running', 'compensating')
+      AND heartbeat_at < NOW() - make_interval(secs => p_stale_seconds)
+      AND (lease_expires_at IS NULL OR lease_expires_at < NOW())
+    ORDER BY heartbeat_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING se.*;
+END;
+$$;
+
+-- ============================================
+-- 4. CLAIM ONE EXECUTION (MANUAL ACTIONS)
+-- ============================================
+-- Used by the admin page's retry/compensate buttons. Executions that are
+-- still heartbeating are left alone so a live runner is never fenced off.
+
+CREATE OR REPLACE FUNCTION public.claim_saga(
+  p_saga_id TEXT,
+  p_worker_id TEXT,
+  p_lease_seconds INTEGER DEFAULT 300,
+  p_min_idle_seconds INTEGER DEFAULT 60
+)
+RETURNS SETOF public.saga_executions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row public.saga_executions%ROWTYPE;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND COALESCE(auth.jwt() -> 'user_metadata' ->> 'account_type', '') <> 'organizer' THEN
+    RAISE EXCEPTION 'Not allowed to claim sagas' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_row
+  FROM public.saga_executions
+  WHERE saga_id = p_saga_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Saga % not found', p_saga_id;
+  END IF;
+
+  IF v_row.status NOT IN ('running', 'compensating', 'failed', 'compensation_failed') THEN
+    RAISE EXCEPTION 'Saga % is % and needs no recovery', p_saga_id, v_row.status;
+  END IF;
+
+  IF v_row.status IN ('running', 'compensating') AND (
+    v_row.heartbeat_at > NOW() - make_interval(secs => p_min_idle_seconds)
+    OR (v_row.lease_expires_at IS NOT NULL AND v_row.lease_expires_at > NOW() AND v_row.lease_owner IS DISTINCT FROM p_worker_id)
+  ) THEN
+    RAISE EXCEPTION 'Saga % is still in progress', p_saga_id;
+  END IF;
+
+  RETURN QUERY
+  UPDATE public.saga_executions
+  SET
+    lease_owner = p_worker_id,
+    lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+    heartbeat_at = NOW(),
+    attempts = attempts + 1,
+    last_recovered_at = NOW()
+  WHERE saga_id = p_saga_id
+  RETURNING *;
+END;
+$$;
+
+-- ============================================
+-- 5. RLS
+-- ============================================
+
+DROP POLICY IF EXISTS "Organizers can view saga executions" ON public.saga_executions;
+CREATE POLICY "Organizers can view saga executions"
+  ON public.saga_executions
+  FOR SELECT
+  TO authenticated
+  USING (auth.jwt() -> 'user_metadata' ->> 'account_type' = 'organizer');
+
+-- ============================================
+-- 6. GRANTS
+-- ============================================
+
+REVOKE ALL ON FUNCTION public.record_saga_progress(TEXT, TEXT, saga_status, TEXT[], TEXT, TEXT[], JSONB, JSONB, JSONB, TIMESTAMPTZ, TIMESTAMPTZ, TEXT, INTEGER, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.claim_stalled_sagas(TEXT, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.claim_saga(TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION public.record_saga_progress(TEXT, TEXT, saga_status, TEXT[], TEXT, TEXT[], JSONB, JSONB, JSONB, TIMESTAMPTZ, TIMESTAMPTZ, TEXT, INTEGER, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.claim_stalled_sagas(TEXT, INTEGER, INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.claim_saga(TEXT, TEXT, INTEGER, INTEGER) TO authenticated, service_role;
+
+COMMIT;
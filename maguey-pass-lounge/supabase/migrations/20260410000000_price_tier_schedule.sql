@@ -0,0 +1,511 @@
+-- Migration: Scheduled price tiers, door pricing and per-tier revenue
+-- Price tiers (20260401000002) only rolled over when the active tier sold
+-- out, and sales were not attributed to the tier they were charged at. This adds:
+--   • starts_at / ends_at on tiers so a tier can switch on a date even if
+--     it has not sold out (Early Bird ends Friday, Standard starts Saturday)
+--   • is_door_tier: a price that only the scanner's walk-in sale charges
+--   • tickets.price_tier_id so revenue can be reported per tier
+--   • roll_price_tiers, run by pg_cron, at checkout and on door sales
+--   • sell_door_tickets for the scanner's walk-in sale
+--   • get_price_tier_revenue for the admin pricing page
+
+BEGIN;
+
+-- ============================================
+-- 1. TIER SCHEDULE AND DOOR TIER COLUMNS
+-- ============================================
+
+ALTER TABLE public.ticket_type_price_tiers
+  ADD COLUMN IF NOT EXISTS starts_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS ends_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS is_door_tier BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.ticket_type_price_tiers
+  DROP CONSTRAINT IF EXISTS price_tiers_schedule_order,
+  ADD CONSTRAINT price_tiers_schedule_order
+    CHECK (starts_at IS NULL OR ends_at IS NULL OR ends_at > starts_at);
+
+-- The door tier is never the online price
+ALTER TABLE public.ticket_type_price_tiers
+  DROP CONSTRAINT IF EXISTS price_tiers_door_not_active,
+  ADD CONSTRAINT price_tiers_door_not_active
+    CHECK (NOT (is_door_tier AND is_active));
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_door_tier_per_ticket_type
+  ON public.ticket_type_price_tiers (ticket_type_id)
+  WHERE is_door_tier = true;
+
+COMMENT ON COLUMN public.ticket_type_price_tiers.starts_at IS 'Tier cannot become active before this time; earlier tiers close when it arrives';
+COMMENT ON COLUMN public.ticket_type_price_tiers.ends_at IS 'Tier closes at this time even if not sold out';
+COMMENT ON COLUMN public.ticket_type_price_tiers.is_door_tier IS 'Price charged by walk-in sales at the door; never sold online';
+
+-- ============================================
+-- 2. TIER ATTRIBUTION ON TICKETS
+-- ============================================
+
+ALTER TABLE public.tickets
+  ADD COLUMN IF NOT EXISTS price_tier_id UUID
+    REFERENCES public.ticket_type_price_tiers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_price_tier
+  ON public.tickets(price_tier_id)
+  WHERE price_tier_id IS NOT NULL;
+
+COMMENT ON COLUMN public.tickets.price_tier_id IS 'Price tier the ticket was charged at (NULL = base ticket type price)';
+
+-- ============================================
+-- 3. ROLL PRICE TIERS
+-- ============================================
+-- A tier is closed once it is sold out, its ends_at has passed, or a later
+-- (non-door) tier's starts_at has passed. The active tier stays until it
+-- closes, then the next open tier by sort_order takes over. Tiers never roll
+-- backwards, so a tier an organizer skipped by hand is not re-activated.
+-- Returns the number of ticket types whose active tier changed.
+
+CREATE OR REPLACE FUNCTION public.roll_price_tiers(p_ticket_type_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_type_id    UUID;
+  v_active     RECORD;
+  v_floor      INTEGER;
+  v_next_id    UUID;
+  v_changed    INTEGER := 0;
+BEGIN
+  FOR v_type_id IN
+    SELECT DISTINCT ticket_type_id
+    FROM ticket_type_price_tiers
+    WHERE NOT is_door_tier
+      AND (p_ticket_type_id IS NULL OR ticket_type_id = p_ticket_type_id)
+  LOOP
+    -- Lock the type's tiers so concurrent rolls and sales serialize
+    PERFORM 1
+    FROM ticket_type_price_tiers
+    WHERE ticket_type_id = v_type_id
+    FOR UPDATE;
+
+    SELECT t.id, t.sort_order, (
+      t.tickets_sold >= t.tickets_available
+      OR (t.ends_at IS NOT NULL AND t.ends_at <= NOW())
+      OR EXISTS (
+        SELECT 1 FROM ticket_type_price_tiers later
+        WHERE later.ticket_type_id = t.ticket_type_id
+          AND NOT later.is_door_tier
+          AND later.sort_order > t.sort_order
+          AND later.starts_at IS NOT NULL
+          AND later.starts_at <= NOW()
+      )
+    ) AS is_closed
+    INTO v_active
+    FROM ticket_type_price_tiers t
+    WHERE t.ticket_type_id = v_type_id
+      AND t.is_active = true;
+
+    IF FOUND AND NOT v_active.is_closed THEN
+      CONTINUE;
+    END IF;
+
+    IF FOUND THEN
+      v_floor := v_active.sort_order;
+    ELSE
+      -- Nothing active: pick up after the last tier that has sold anything
+      SELECT MAX(sort_order) INTO v_floor
+      FROM ticket_type_price_tiers
+      WHERE ticket_type_id = v_type_id
+        AND NOT is_door_tier
+        AND tickets_sold > 0;
+    END IF;
+
+    SELECT t.id INTO v_next_id
+    FROM ticket_type_price_tiers t
+    WHERE t.ticket_type_id = v_type_id
+      AND NOT t.is_door_tier
+      AND (v_floor IS NULL OR t.sort_order > v_floor)
+      AND t.tickets_sold < t.tickets_available
+      AND (t.starts_at IS NULL OR t.starts_at <= NOW())
+      AND (t.ends_at IS NULL OR t.ends_at > NOW())
+      AND NOT EXISTS (
+        SELECT 1 FROM ticket_type_price_tiers later
+        WHERE later.ticket_type_id = t.ticket_type_id
+          AND NOT later.is_door_tier
+          AND later.sort_order > t.sort_order
+          AND later.starts_at IS NOT NULL
+          AND later.starts_at <= NOW()
+      )
+    ORDER BY t.sort_order ASC
+    LIMIT 1;
+
+    IF v_active.id IS NULL AND v_next_id IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    IF v_active.id IS NOT NULL THEN
+      UPDATE ticket_type_price_tiers
+      SET is_active = false, updated_at = NOW()
+      WHERE id = v_active.id;
+    END IF;
+
+    IF v_next_id IS NOT NULL THEN
+      UPDATE ticket_type_price_tiers
+      SET is_active = true, updated_at = NOW()
+      WHERE id = v_next_id;
+    END IF;
+
+    v_changed := v_changed + 1;
+  END LOOP;
+
+  RETURN v_changed;
+END;
+$$;
+
+-- Price lookups only read is_active. The cron job keeps it right for the
+-- event page and ticket_type_current_price (upgrade pricing); checkout and
+-- door sales roll the ticket type first so nobody is charged a closed tier.
+-- Enable with:
+--   SELECT cron.schedule('roll-price-tiers', '* * * * *', 'SELECT public.roll_price_tiers()');
+
+-- ============================================
+-- 4. GET_CURRENT_TIER_PRICE (SCHEDULE-AWARE)
+-- ============================================
+-- Adds when the current price ends (its own ends_at or the next tier's
+-- starts_at, whichever is first) and what it changes to, for the countdown
+-- on the event page. Read-only: the event page calls it anonymously on
+-- every view, so rolling over is left to roll_price_tiers.
+
+DROP FUNCTION IF EXISTS public.get_current_tier_price(UUID);
+
+CREATE FUNCTION public.get_current_tier_price(p_ticket_type_id UUID)
+RETURNS TABLE (
+  tier_price       NUMERIC(10, 2),
+  tier_name        TEXT,
+  tier_remaining   INTEGER,
+  tier_id          UUID,
+  tier_ends_at     TIMESTAMPTZ,
+  next_tier_name   TEXT,
+  next_tier_price  NUMERIC(10, 2)
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    t.price,
+    t.tier_name,
+    GREATEST(0, t.tickets_available - t.tickets_sold) AS tier_remaining,
+    t.id,
+    LEAST(t.ends_at, nxt.starts_at) AS tier_ends_at,
+    nxt.tier_name,
+    nxt.price
+  FROM ticket_type_price_tiers t
+  LEFT JOIN LATERAL (
+    SELECT n.tier_name, n.price, n.starts_at
+    FROM ticket_type_price_tiers n
+    WHERE n.ticket_type_id = t.ticket_type_id
+      AND NOT n.is_door_tier
+      AND n.sort_order > t.sort_order
+    ORDER BY n.sort_order ASC
+    LIMIT 1
+  ) nxt ON true
+  WHERE t.ticket_type_id = p_ticket_type_id
+    AND t.is_active = true
+  LIMIT 1;
+END;
+$$;
+
+-- ============================================
+-- 5. ADVANCE_PRICE_TIER (ATTRIBUTED)
+-- ============================================
+-- p_tier_id is the tier the buyer was charged at. It may no longer be the
+-- active one if the tier rolled between checkout and payment; the sale still
+-- counts against the tier that was charged.
+
+DROP FUNCTION IF EXISTS public.advance_price_tier(UUID, INTEGER);
+
+CREATE FUNCTION public.advance_price_tier(
+  p_ticket_type_id UUID,
+  p_quantity       INTEGER DEFAULT 1,
+  p_tier_id        UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE ticket_type_price_tiers
+  SET
+    tickets_sold = tickets_sold + p_quantity,
+    updated_at   = NOW()
+  WHERE ticket_type_id = p_ticket_type_id
+    AND CASE
+      WHEN p_tier_id IS NOT NULL THEN id = p_tier_id
+      ELSE is_active = true
+    END;
+
+  PERFORM roll_price_tiers(p_ticket_type_id);
+END;
+$$;
+
+-- ============================================
+-- 6. DOOR PRICE
+-- ============================================
+-- The door tier while it has tickets left, otherwise the current online price.
+-- Read-only like get_current_tier_price; sell_door_tickets rolls before
+-- charging.
+
+CREATE OR REPLACE FUNCTION public.get_door_price(p_ticket_type_id UUID)
+RETURNS TABLE (
+  price          NUMERIC(10, 2),
+  tier_id        UUID,
+  tier_name      TEXT,
+  tier_remaining INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT t.price, t.id, t.tier_name, GREATEST(0, t.tickets_available - t.tickets_sold)
+  FROM ticket_type_price_tiers t
+  WHERE t.ticket_type_id = p_ticket_type_id
+    AND t.is_door_tier = true
+    AND t.tickets_sold < t.tickets_available;
+
+  IF NOT FOUND THEN
+    RETURN QUERY
+    SELECT
+      ticket_type_current_price(p_ticket_type_id),
+      t.id,
+      t.tier_name,
+      GREATEST(0, t.tickets_available - t.tickets_sold)
+    FROM (SELECT 1) AS one
+    LEFT JOIN ticket_type_price_tiers t
+      ON t.ticket_type_id = p_ticket_type_id AND t.is_active = true;
+  END IF;
+END;
+$$;
+
+-- ============================================
+-- 7. WALK-IN SALE
+-- ============================================
+-- Gate staff sell tickets to guests at the door. The guest is standing at the
+-- entrance, so tickets are issued already scanned.
+
+CREATE OR REPLACE FUNCTION public.sell_door_tickets(
+  p_ticket_type_id  UUID,
+  p_quantity        INTEGER,
+  p_payment_method  TEXT,
+  p_attendee_name   TEXT DEFAULT NULL,
+  p_attendee_email  TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_type            RECORD;
+  v_door            RECORD;
+  v_signing_secret  TEXT;
+  v_order_id        UUID;
+  v_unit_price      NUMERIC(10, 2);
+  v_tier_id         UUID;
+  v_tier_name       TEXT;
+  v_total           NUMERIC(10, 2);
+  v_token           UUID;
+  v_ticket_ids      TEXT[] := ARRAY[]::TEXT[];
+  v_ticket_id       TEXT;
+  v_name            TEXT := COALESCE(NULLIF(TRIM(p_attendee_name), ''), 'Walk-in guest');
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND COALESCE(auth.jwt() -> 'app_metadata' ->> 'role', '') NOT IN ('owner', 'promoter', 'employee') THEN
+    RAISE EXCEPTION 'Only staff can sell tickets at the door'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity < 1 OR p_quantity > 20 THEN
+    RAISE EXCEPTION 'Quantity must be between 1 and 20'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_payment_method NOT IN ('cash', 'card_terminal', 'comp') THEN
+    RAISE EXCEPTION 'Unknown payment method %', p_payment_method
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  v_signing_secret := current_setting('app.qr_signing_secret', true);
+  IF v_signing_secret IS NULL OR v_signing_secret = '' THEN
+    RAISE EXCEPTION 'QR signing secret not configured'
+      USING ERRCODE = 'P0009';
+  END IF;
+
+  SELECT tt.id, tt.name, tt.event_id, tt.total_inventory, COALESCE(tt.tickets_sold, 0) AS tickets_sold
+  INTO v_type
+  FROM ticket_types tt
+  WHERE tt.id = p_ticket_type_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ticket type not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_type.total_inventory IS NOT NULL AND v_type.tickets_sold + p_quantity > v_type.total_inventory THEN
+    RAISE EXCEPTION 'Only % tickets left', GREATEST(0, v_type.total_inventory - v_type.tickets_sold)
+      USING ERRCODE = 'P0006';
+  END IF;
+
+  PERFORM roll_price_tiers(p_ticket_type_id);
+
+  SELECT t.id, t.tier_name, t.price INTO v_door
+  FROM ticket_type_price_tiers t
+  WHERE t.ticket_type_id = p_ticket_type_id
+    AND t.is_door_tier = true
+    AND t.tickets_sold + p_quantity <= t.tickets_available
+  FOR UPDATE;
+
+  IF FOUND THEN
+    v_unit_price := v_door.price;
+    v_tier_id := v_door.id;
+    v_tier_name := v_door.tier_name;
+  ELSE
+    SELECT t.id, t.tier_name INTO v_tier_id, v_tier_name
+    FROM ticket_type_price_tiers t
+    WHERE t.ticket_type_id = p_ticket_type_id
+      AND t.is_active = true;
+    v_unit_price := ticket_type_current_price(p_ticket_type_id);
+  END IF;
+
+  IF p_payment_method = 'comp' THEN
+    v_unit_price := 0;
+  END IF;
+
+  v_total := v_unit_price * p_quantity;
+
+  INSERT INTO orders (
+    event_id, purchaser_email, purchaser_name, subtotal, fees_total, total, status, metadata
+  ) VALUES (
+    v_type.event_id,
+    COALESCE(NULLIF(LOWER(TRIM(p_attendee_email)), ''), 'door@walk-in.invalid'),
+    v_name,
+    v_total, 0, v_total,
+    'paid',
+    jsonb_build_object(
+      'channel', 'door',
+      'payment_method', p_payment_method,
+      'sold_by', auth.uid(),
+      'price_tier_id', v_tier_id,
+      'price_tier_name', v_tier_name
+    )
+  )
+  RETURNING id INTO v_order_id;
+
+  FOR i IN 1..p_quantity LOOP
+    v_token := gen_random_uuid();
+    v_ticket_id := generate_human_readable_ticket_id(v_type.event_id, v_order_id, i);
+
+    INSERT INTO tickets (
+      order_id, event_id, ticket_type_id, attendee_name, attendee_email,
+      status, is_used, scanned_at, scanned_by, price, fee_total, ticket_id,
+      qr_token, qr_signature, qr_code_value, issued_at, price_tier_id
+    ) VALUES (
+      v_order_id, v_type.event_id, p_ticket_type_id, v_name, NULLIF(LOWER(TRIM(p_attendee_email)), ''),
+      'scanned', true, NOW(), auth.uid(), v_unit_price, 0, v_ticket_id,
+      v_token, generate_qr_signature(v_token::TEXT, v_signing_secret), v_token::TEXT, NOW(), v_tier_id
+    );
+
+    v_ticket_ids := array_append(v_ticket_ids, v_ticket_id);
+  END LOOP;
+
+  UPDATE ticket_types
+  SET tickets_sold = COALESCE(tickets_sold, 0) + p_quantity
+  WHERE id = p_ticket_type_id;
+
+  IF v_tier_id IS NOT NULL THEN
+    PERFORM advance_price_tier(p_ticket_type_id, p_quantity, v_tier_id);
+  END IF;
+
+  RETURN json_build_object(
+    'order_id',         v_order_id,
+    'ticket_type_name', v_type.name,
+    'tier_name',        v_tier_name,
+    'unit_price',       v_unit_price,
+    'total',            v_total,
+    'quantity',         p_quantity,
+    'payment_method',   p_payment_method,
+    'ticket_ids',       v_ticket_ids
+  );
+END;
+$$;
+
+-- ============================================
+-- 8. REVENUE PER TIER
+-- ============================================
+-- Tickets with no price_tier_id were sold at the base price or before
+-- attribution existed; they are reported as a NULL tier per ticket type.
+
+CREATE OR REPLACE FUNCTION public.get_price_tier_revenue(p_event_id TEXT)
+RETURNS TABLE (
+  ticket_type_id   UUID,
+  ticket_type_name TEXT,
+  tier_id          UUID,
+  tier_name        TEXT,
+  is_door_tier     BOOLEAN,
+  tickets_sold     BIGINT,
+  revenue          NUMERIC(12, 2)
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND COALESCE(auth.jwt() -> 'user_metadata' ->> 'account_type', '') <> 'organizer' THEN
+    RAISE EXCEPTION 'Not allowed to view tier revenue' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    tt.id,
+    tt.name::TEXT,
+    ptt.id,
+    ptt.tier_name,
+    COALESCE(ptt.is_door_tier, false),
+    COUNT(t.id),
+    COALESCE(SUM(t.price), 0)::NUMERIC(12, 2)
+  FROM tickets t
+  JOIN ticket_types tt ON tt.id = t.ticket_type_id
+  LEFT JOIN ticket_type_price_tiers ptt ON ptt.id = t.price_tier_id
+  WHERE t.event_id = p_event_id
+    AND t.status NOT IN ('cancelled', 'refunded')
+  GROUP BY tt.id, tt.name, ptt.id, ptt.tier_name, ptt.is_door_tier, ptt.sort_order
+  ORDER BY tt.name, ptt.sort_order NULLS FIRST;
+END;
+$$;
+
+-- ============================================
+-- 9. GRANTS
+-- ============================================
+
+REVOKE ALL ON FUNCTION public.roll_price_tiers(UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.advance_price_tier(UUID, INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.sell_door_tickets(UUID, INTEGER, TEXT, TEXT, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_price_tier_revenue(TEXT) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION public.roll_price_tiers(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_current_tier_price(UUID) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION public.advance_price_tier(UUID, INTEGER, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_door_price(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.sell_door_tickets(UUID, INTEGER, TEXT, TEXT, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_price_tier_revenue(TEXT) TO authenticated, service_role;
+
+COMMIT;
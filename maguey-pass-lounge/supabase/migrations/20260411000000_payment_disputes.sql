@@ -0,0 +1,586 @@
+-- Migration: Stripe disputes, chargebacks and external refunds
+-- stripe-webhook ignored charge.dispute.* events and only reversed loyalty
+-- points on charge.refunded, so a chargebacked or refunded ticket still got
+-- in at the door. This adds:
+--   • payment_disputes, one row per Stripe dispute
+--   • payment_dispute_holds, the tickets and VIP guest passes a dispute voided
+--     and the status to put back if the dispute is won
+--   • record_payment_dispute / close_payment_dispute for the webhook
+--   • void_refunded_payment for full refunds issued outside the app
+--   • get_dispute_evidence and claim_dispute_alerts for the admin disputes page
+--
+-- Voided tickets keep their status and get refund_status = 'voided', which
+-- the scanner rejects. Passes are set to 'cancelled', which
+-- process_vip_scan_with_reentry already rejects.
+
+BEGIN;
+
+-- ============================================
+-- 1. REFUND COLUMNS
+-- ============================================
+-- Added by the scanner's 20250115000001_add_refund_status; repeated here so
+-- this migration does not depend on the order the two apps are deployed in.
+
+ALTER TABLE public.tickets
+  ADD COLUMN IF NOT EXISTS refund_status TEXT DEFAULT 'none',
+  ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS refund_reason TEXT,
+  ADD COLUMN IF NOT EXISTS refund_amount DECIMAL(10, 2);
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS refund_reason TEXT;
+
+-- ============================================
+-- 2. PAYMENT DISPUTES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.payment_disputes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  stripe_dispute_id TEXT NOT NULL UNIQUE,
+  stripe_charge_id TEXT,
+  stripe_payment_intent_id TEXT,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  vip_reservation_id UUID REFERENCES public.vip_reservations(id) ON DELETE SET NULL,
+  event_id VARCHAR REFERENCES public.events(id) ON DELETE SET NULL,
+  amount DECIMAL(10, 2) NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'usd',
+  reason TEXT,
+  -- Stripe's dispute status: warning_needs_response, needs_response,
+  -- under_review, won, lost, warning_closed, ...
+  status TEXT NOT NULL,
+  evidence_due_by TIMESTAMPTZ,
+  closed_at TIMESTAMPTZ,
+  -- Set when an admin console raised the alert for this dispute
+  alerted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_disputes_status ON public.payment_disputes(status);
+CREATE INDEX IF NOT EXISTS idx_payment_disputes_order ON public.payment_disputes(order_id);
+CREATE INDEX IF NOT EXISTS idx_payment_disputes_created ON public.payment_disputes(created_at DESC);
+
+COMMENT ON TABLE public.payment_disputes IS 'Stripe disputes (chargebacks and inquiries) recorded by stripe-webhook';
+
+CREATE TABLE IF NOT EXISTS public.payment_dispute_holds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  dispute_id UUID NOT NULL REFERENCES public.payment_disputes(id) ON DELETE CASCADE,
+  ticket_id UUID REFERENCES public.tickets(id) ON DELETE CASCADE,
+  vip_pass_id UUID REFERENCES public.vip_guest_passes(id) ON DELETE CASCADE,
+  -- tickets.refund_status or vip_guest_passes.status before the hold
+  previous_status TEXT NOT NULL,
+  released_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT payment_dispute_holds_one_target CHECK (num_nonnulls(ticket_id, vip_pass_id) = 1)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_dispute_holds_dispute ON public.payment_dispute_holds(dispute_id);
+
+-- The admin console listens for new disputes to raise alerts
+ALTER PUBLICATION supabase_realtime ADD TABLE public.payment_disputes;
+
+ALTER TABLE public.payment_disputes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payment_dispute_holds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Organizers can view payment disputes" ON public.payment_disputes;
+CREATE POLICY "Organizers can view payment disputes"
+  ON public.payment_disputes
+  FOR SELECT
+  TO authenticated
+  USING (auth.jwt() -> 'user_metadata' ->> 'account_type' = 'organizer');
+
+DROP POLICY IF EXISTS "Organizers can view payment dispute holds" ON public.payment_dispute_holds;
+CREATE POLICY "Organizers can view payment dispute holds"
+  ON public.payment_dispute_holds
+  FOR SELECT
+  TO authenticated
+  USING (auth.jwt() -> 'user_metadata' ->> 'account_type' = 'organizer');
+
+-- ============================================
+-- 3. RECORD DISPUTE
+-- ============================================
+-- Called for charge.dispute.created and charge.dispute.updated. The first
+-- time a dispute is seen, every ticket on the disputed order and every
+-- guest pass on the disputed VIP reservation is voided. Later calls only
+-- refresh the status and evidence deadline, so webhook retries are safe.
+
+CREATE OR REPLACE FUNCTION public.record_payment_dispute(
+  p_stripe_dispute_id TEXT,
+  p_charge_id TEXT,
+  p_payment_intent_id TEXT,
+  p_amount NUMERIC,
+  p_currency TEXT,
+  p_reason TEXT,
+  p_status TEXT,
+  p_evidence_due_by TIMESTAMPTZ
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_dispute payment_disputes;
+  v_order_id UUID;
+  v_reservation_id UUID;
+  v_event_id VARCHAR;
+  v_ticket RECORD;
+  v_pass RECORD;
+  v_tickets_voided INTEGER := 0;
+  v_passes_voided INTEGER := 0;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Not allowed to record disputes' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_dispute FROM payment_disputes WHERE stripe_dispute_id = p_stripe_dispute_id FOR UPDATE;
+
+  IF FOUND THEN
+    UPDATE payment_disputes
+    SET status = p_status,
+        evidence_due_by = COALESCE(p_evidence_due_by, evidence_due_by),
+        updated_at = NOW()
+    WHERE id = v_dispute.id;
+
+    RETURN json_build_object(
+      'dispute_id', v_dispute.id,
+      'is_new', false,
+      'order_id', v_dispute.order_id,
+      'vip_reservation_id', v_dispute.vip_reservation_id,
+      'event_id', v_dispute.event_id,
+      'tickets_voided', 0,
+      'passes_voided', 0
+    );
+  END IF;
+
+  IF p_payment_intent_id IS NOT NULL THEN
+    SELECT id, event_id INTO v_order_id, v_event_id
+    FROM orders
+    WHERE stripe_payment_intent_id = p_payment_intent_id
+    LIMIT 1;
+
+    SELECT id INTO v_reservation_id
+    FROM vip_reservations
+    WHERE stripe_payment_intent_id = p_payment_intent_id
+    LIMIT 1;
+
+    IF v_event_id IS NULL AND v_reservation_id IS NOT NULL THEN
+      SELECT event_id INTO v_event_id FROM vip_reservations WHERE id = v_reservation_id;
+    END IF;
+  END IF;
+
+  INSERT INTO payment_disputes (
+    stripe_dispute_id, stripe_charge_id, stripe_payment_intent_id,
+    order_id, vip_reservation_id, event_id,
+    amount, currency, reason, status, evidence_due_by
+  ) VALUES (
+    p_stripe_dispute_id, p_charge_id, p_payment_intent_id,
+    v_order_id, v_reservation_id, v_event_id,
+    p_amount, COALESCE(p_currency, 'usd'), p_reason, p_status, p_evidence_due_by
+  )
+  RETURNING * INTO v_dispute;
+
+  FOR v_ticket IN
+    SELECT id, COALESCE(refund_status, 'none') AS refund_status
+    FROM tickets
+    WHERE order_id = v_order_id
+      AND COALESCE(refund_status, 'none') IN ('none', 'partial_refund')
+      AND status NOT IN ('cancelled', 'refunded')
+    FOR UPDATE
+  LOOP
+    INSERT INTO payment_dispute_holds (dispute_id, ticket_id, previous_status)
+    VALUES (v_dispute.id, v_ticket.id, v_ticket.refund_status);
+
+    UPDATE tickets
+    SET refund_status = 'voided',
+        refund_reason = 'Payment disputed (' || COALESCE(p_reason, 'no reason given') || ')',
+        updated_at = NOW()
+    WHERE id = v_ticket.id;
+
+    PERFORM append_ticket_event(
+      v_ticket.id,
+      'TicketDisputed',
+      jsonb_build_object(
+        'disputeId', v_dispute.id,
+        'stripeDisputeId', p_stripe_dispute_id,
+        'reason', p_reason,
+        'amount', p_amount
+      ),
+      jsonb_build_object('source', 'stripe-webhook')
+    );
+
+    v_tickets_voided := v_tickets_voided + 1;
+  END LOOP;
+
+  FOR v_pass IN
+    SELECT id, status::TEXT AS status
+    FROM vip_guest_passes
+    WHERE reservation_id = v_reservation_id
+      AND status <> 'cancelled'
+    FOR UPDATE
+  LOOP
+    INSERT INTO payment_dispute_holds (dispute_id, vip_pass_id, previous_status)
+    VALUES (v_dispute.id, v_pass.id, v_pass.status);
+
+    UPDATE vip_guest_passes SET status = 'cancelled', updated_at = NOW() WHERE id = v_pass.id;
+
+    v_passes_voided := v_passes_voided + 1;
+  END LOOP;
+
+  RETURN json_build_object(
+    'dispute_id', v_dispute.id,
+    'is_new', true,
+    'order_id', v_order_id,
+    'vip_reservation_id', v_reservation_id,
+    'event_id', v_event_id,
+    'tickets_voided', v_tickets_voided,
+    'passes_voided', v_passes_voided
+  );
+END;
+$$;
+
+-- ============================================
+-- 4. CLOSE DISPUTE
+-- ============================================
+-- won / warning_closed: the money stays with us, so held tickets and passes
+-- get their previous status back. lost: the tickets are cancelled for good.
+
+CREATE OR REPLACE FUNCTION public.close_payment_dispute(
+  p_stripe_dispute_id TEXT,
+  p_status TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_dispute payment_disputes;
+  v_hold RECORD;
+  v_won BOOLEAN := p_status <> 'lost';
+  v_released INTEGER := 0;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Not allowed to close disputes' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_dispute FROM payment_disputes WHERE stripe_dispute_id = p_stripe_dispute_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('found', false);
+  END IF;
+
+  UPDATE payment_disputes
+  SET status = p_status,
+      closed_at = COALESCE(closed_at, NOW()),
+      updated_at = NOW()
+  WHERE id = v_dispute.id;
+
+  FOR v_hold IN
+    SELECT * FROM payment_dispute_holds
+    WHERE dispute_id = v_dispute.id AND released_at IS NULL
+    FOR UPDATE
+  LOOP
+    IF v_hold.ticket_id IS NOT NULL THEN
+      IF v_won THEN
+        UPDATE tickets
+        SET refund_status = v_hold.previous_status,
+            refund_reason = NULL,
+            updated_at = NOW()
+        WHERE id = v_hold.ticket_id AND refund_status = 'voided';
+      ELSE
+        UPDATE tickets
+        SET status = 'cancelled',
+            refund_reason = 'Chargeback lost (' || COALESCE(v_dispute.reason, 'no reason given') || ')',
+            updated_at = NOW()
+        WHERE id = v_hold.ticket_id AND status NOT IN ('cancelled', 'refunded');
+
+        IF FOUND THEN
+          PERFORM append_ticket_event(
+            v_hold.ticket_id,
+            'TicketCancelled',
+            jsonb_build_object('reason', 'Chargeback lost', 'refundInitiated', false),
+            jsonb_build_object('source', 'stripe-webhook')
+          );
+        END IF;
+      END IF;
+
+      PERFORM append_ticket_event(
+        v_hold.ticket_id,
+        'TicketDisputeClosed',
+        jsonb_build_object(
+          'disputeId', v_dispute.id,
+          'stripeDisputeId', p_stripe_dispute_id,
+          'outcome', p_status,
+          'restored', v_won
+        ),
+        jsonb_build_object('source', 'stripe-webhook')
+      );
+    ELSIF v_won THEN
+      UPDATE vip_guest_passes
+      SET status = v_hold.previous_status, updated_at = NOW()
+      WHERE id = v_hold.vip_pass_id AND status = 'cancelled';
+    END IF;
+
+    UPDATE payment_dispute_holds SET released_at = NOW() WHERE id = v_hold.id;
+    v_released := v_released + 1;
+  END LOOP;
+
+  RETURN json_build_object(
+    'found', true,
+    'dispute_id', v_dispute.id,
+    'event_id', v_dispute.event_id,
+    'restored', v_won,
+    'holds_released', v_released
+  );
+END;
+$$;
+
+-- ============================================
+-- 5. EXTERNAL REFUNDS
+-- ============================================
+-- Called for charge.refunded once the whole charge has been refunded (from
+-- the Stripe dashboard or any other tool). Partial refunds leave tickets
+-- alone since there is no way to tell which ticket was refunded.
+-- Tickets already refunded in the scanner are skipped.
+
+CREATE OR REPLACE FUNCTION public.void_refunded_payment(
+  p_payment_intent_id TEXT,
+  p_refund_id TEXT,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id UUID;
+  v_reservation_id UUID;
+  v_ticket RECORD;
+  v_reason TEXT := COALESCE(p_reason, 'Refunded in Stripe');
+  v_tickets_voided INTEGER := 0;
+  v_passes_voided INTEGER := 0;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Not allowed to void refunded payments' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT id INTO v_order_id FROM orders WHERE stripe_payment_intent_id = p_payment_intent_id LIMIT 1;
+  SELECT id INTO v_reservation_id FROM vip_reservations WHERE stripe_payment_intent_id = p_payment_intent_id LIMIT 1;
+
+  IF v_order_id IS NOT NULL THEN
+    UPDATE orders
+    SET refunded_at = COALESCE(refunded_at, NOW()),
+        refund_reason = COALESCE(refund_reason, v_reason),
+        updated_at = NOW()
+    WHERE id = v_order_id;
+
+    FOR v_ticket IN
+      SELECT id, price
+      FROM tickets
+      WHERE order_id = v_order_id
+        AND COALESCE(refund_status, 'none') IN ('none', 'partial_refund', 'voided')
+        AND status NOT IN ('cancelled', 'refunded')
+      FOR UPDATE
+    LOOP
+      UPDATE tickets
+      SET status = 'refunded',
+          refund_status = 'refunded',
+          refunded_at = NOW(),
+          refund_amount = v_ticket.price,
+          refund_reason = v_reason,
+          updated_at = NOW()
+      WHERE id = v_ticket.id;
+
+      PERFORM append_ticket_event(
+        v_ticket.id,
+        'TicketRefunded',
+        jsonb_build_object(
+          'refundId', p_refund_id,
+          'refundAmount', v_ticket.price,
+          'refundReason', v_reason
+        ),
+        jsonb_build_object('source', 'stripe-webhook')
+      );
+
+      v_tickets_voided := v_tickets_voided + 1;
+    END LOOP;
+  END IF;
+
+  IF v_reservation_id IS NOT NULL THEN
+    UPDATE vip_guest_passes
+    SET status = 'cancelled', updated_at = NOW()
+    WHERE reservation_id = v_reservation_id AND status <> 'cancelled';
+    GET DIAGNOSTICS v_passes_voided = ROW_COUNT;
+
+    UPDATE vip_reservations
+    SET status = 'cancelled', updated_at = NOW()
+    WHERE id = v_reservation_id AND status <> 'cancelled';
+  END IF;
+
+  RETURN json_build_object(
+    'order_id', v_order_id,
+    'vip_reservation_id', v_reservation_id,
+    'tickets_voided', v_tickets_voided,
+    'passes_voided', v_passes_voided
+  );
+END;
+$$;
+
+-- ============================================
+-- 6. DISPUTE EVIDENCE
+-- ============================================
+-- Everything an owner needs to answer Stripe in one document: the order or
+-- reservation, the tickets, what was emailed and whether it was delivered,
+-- every scan, and ID checks at the door. ID numbers and photos are left out.
+
+CREATE OR REPLACE FUNCTION public.get_dispute_evidence(p_dispute_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_dispute payment_disputes;
+  v_ticket_ids UUID[];
+  v_pass_ids UUID[];
+  v_related_ids UUID[];
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND COALESCE(auth.jwt() -> 'user_metadata' ->> 'account_type', '') <> 'organizer' THEN
+    RAISE EXCEPTION 'Not allowed to view dispute evidence' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_dispute FROM payment_disputes WHERE id = p_dispute_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dispute not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT COALESCE(array_agg(id), '{}') INTO v_ticket_ids FROM tickets WHERE order_id = v_dispute.order_id;
+  SELECT COALESCE(array_agg(id), '{}') INTO v_pass_ids FROM vip_guest_passes WHERE reservation_id = v_dispute.vip_reservation_id;
+  v_related_ids := v_ticket_ids
+    || CASE WHEN v_dispute.order_id IS NOT NULL THEN ARRAY[v_dispute.order_id] ELSE '{}'::UUID[] END
+    || CASE WHEN v_dispute.vip_reservation_id IS NOT NULL THEN ARRAY[v_dispute.vip_reservation_id] ELSE '{}'::UUID[] END;
+
+  RETURN json_build_object(
+    'dispute', to_jsonb(v_dispute),
+    'event', (SELECT jsonb_build_object('id', e.id, 'name', e.name) FROM events e WHERE e.id = v_dispute.event_id),
+    'order', (SELECT to_jsonb(o) FROM orders o WHERE o.id = v_dispute.order_id),
+    'vip_reservation', (
+      SELECT to_jsonb(r) - 'qr_code_token'
+      FROM vip_reservations r
+      WHERE r.id = v_dispute.vip_reservation_id
+    ),
+    'tickets', COALESCE((
+      SELECT jsonb_agg(to_jsonb(t) - ARRAY['qr_token', 'qr_signature', 'qr_code_value', 'nfc_tag_id', 'nfc_signature'] ORDER BY t.created_at)
+      FROM tickets t
+      WHERE t.id = ANY(v_ticket_ids)
+    ), '[]'::jsonb),
+    'emails', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', q.id,
+        'email_type', q.email_type,
+        'recipient_email', q.recipient_email,
+        'subject', q.subject,
+        'status', q.status,
+        'attempt_count', q.attempt_count,
+        'last_error', q.last_error,
+        'created_at', q.created_at,
+        'updated_at', q.updated_at,
+        'delivery_events', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object('event_type', d.event_type, 'created_at', d.created_at) ORDER BY d.created_at)
+          FROM email_delivery_status d
+          WHERE d.resend_email_id = q.resend_email_id
+        ), '[]'::jsonb)
+      ) ORDER BY q.created_at)
+      FROM email_queue q
+      WHERE q.related_id = ANY(v_related_ids)
+    ), '[]'::jsonb),
+    'scans', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'ticket_id', s.ticket_id,
+        'scan_result', s.scan_result,
+        'scanned_at', s.scanned_at,
+        'scanned_by', s.scanned_by,
+        'metadata', s.metadata
+      ) ORDER BY s.scanned_at)
+      FROM scan_logs s
+      WHERE s.ticket_id = ANY(v_ticket_ids)
+    ), '[]'::jsonb),
+    'vip_scans', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'pass_id', v.pass_id,
+        'scan_type', v.scan_type,
+        'scanned_at', v.scanned_at,
+        'scanned_by', v.scanned_by
+      ) ORDER BY v.scanned_at)
+      FROM vip_scan_logs v
+      WHERE v.pass_id = ANY(v_pass_ids)
+    ), '[]'::jsonb),
+    'id_verifications', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'ticket_id', i.ticket_id,
+        'verification_type', i.verification_type,
+        'is_verified', i.is_verified,
+        'skipped', i.skipped,
+        'verified_by', i.verified_by,
+        'verified_at', i.verified_at,
+        'has_photo', i.photo_url IS NOT NULL,
+        'notes', i.notes
+      ) ORDER BY i.verified_at)
+      FROM id_verifications i
+      WHERE i.ticket_id = ANY(v_ticket_ids)
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+-- ============================================
+-- 7. DISPUTE ALERTS
+-- ============================================
+-- The webhook emails the owner (notify-payment-dispute) but cannot reach the
+-- app's alert notifiers, so the admin console raises those. Claiming marks the
+-- disputes alerted in the same statement, so two open consoles do not both
+-- send the alert.
+
+CREATE OR REPLACE FUNCTION public.claim_dispute_alerts()
+RETURNS SETOF public.payment_disputes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND COALESCE(auth.jwt() -> 'user_metadata' ->> 'account_type', '') <> 'organizer' THEN
+    RAISE EXCEPTION 'Not allowed to claim dispute alerts' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  UPDATE payment_disputes
+  SET alerted_at = NOW()
+  WHERE alerted_at IS NULL
+    AND closed_at IS NULL
+  RETURNING *;
+END;
+$$;
+
+-- ============================================
+-- 8. GRANTS
+-- ============================================
+
+REVOKE ALL ON FUNCTION public.record_payment_dispute(TEXT, TEXT, TEXT, NUMERIC, TEXT, TEXT, TEXT, TIMESTAMPTZ) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.close_payment_dispute(TEXT, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.void_refunded_payment(TEXT, TEXT, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_dispute_evidence(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.claim_dispute_alerts() FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION public.record_payment_dispute(TEXT, TEXT, TEXT, NUMERIC, TEXT, TEXT, TEXT, TIMESTAMPTZ) TO service_role;
+GRANT EXECUTE ON FUNCTION public.close_payment_dispute(TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.void_refunded_payment(TEXT, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_dispute_evidence(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.claim_dispute_alerts() TO authenticated, service_role;
+
+COMMIT;
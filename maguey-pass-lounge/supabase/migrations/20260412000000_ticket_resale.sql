@@ -0,0 +1,977 @@
+-- Migration: Face-value-capped ticket resale
+-- Lets a ticket holder list their ticket for another guest to buy through
+-- Stripe, built on transfer_ticket_atomic:
+--   • per-event resale settings on events (allowed, price cap, cutoff, fee)
+--   • ticket_resale_listings: one row per listing, with the sale and payout
+--   • create/cancel/reserve/release/complete RPCs used by the resale-ticket
+--     Edge Function and stripe-webhook
+--   • triggers that withdraw open listings once the ticket is scanned,
+--     cancelled, voided or transferred, or the event is cancelled
+--   • get_resale_report for the admin resale page
+--   • record_payment_dispute / void_refunded_payment follow resold tickets:
+--     the buyer's payment now backs the ticket, not the seller's order
+--
+-- The seller is paid the sale price minus the event's resale fee, as a
+-- partial refund of their original Stripe payment when they bought the
+-- ticket themselves, otherwise as loyalty credits.
+
+BEGIN;
+
+-- ============================================
+-- 1. EVENT RESALE SETTINGS
+-- ============================================
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS resale_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS resale_price_cap_percent NUMERIC(5,2) NOT NULL DEFAULT 100
+    CHECK (resale_price_cap_percent > 0 AND resale_price_cap_percent <= 100),
+  ADD COLUMN IF NOT EXISTS resale_cutoff_hours INTEGER NOT NULL DEFAULT 2
+    CHECK (resale_cutoff_hours >= 0),
+  ADD COLUMN IF NOT EXISTS resale_fee_percent NUMERIC(5,2) NOT NULL DEFAULT 10
+    CHECK (resale_fee_percent >= 0 AND resale_fee_percent < 100);
+
+COMMENT ON COLUMN public.events.resale_enabled IS 'Whether ticket holders can list tickets for resale';
+COMMENT ON COLUMN public.events.resale_price_cap_percent IS 'Highest resale price as a percentage of face value (100 = face value)';
+COMMENT ON COLUMN public.events.resale_cutoff_hours IS 'Resale closes this many hours before the event starts';
+COMMENT ON COLUMN public.events.resale_fee_percent IS 'Share of the resale price kept by the venue; the seller is paid the rest';
+
+-- ============================================
+-- 2. TICKET_RESALE_LISTINGS TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.ticket_resale_listings (
+  id                       UUID          PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticket_id                UUID          NOT NULL REFERENCES public.tickets(id) ON DELETE CASCADE,
+  event_id                 VARCHAR       NOT NULL REFERENCES public.events(id),
+  seller_email             TEXT          NOT NULL,
+  seller_name              TEXT,
+  ticket_type_name         TEXT,
+  face_value               NUMERIC(10,2) NOT NULL,
+  price                    NUMERIC(10,2) NOT NULL CHECK (price > 0),
+  -- Fee snapshot at listing time, so later setting changes don't move the payout
+  fee_percent              NUMERIC(5,2)  NOT NULL,
+  fee_amount               NUMERIC(10,2) NOT NULL,
+  seller_proceeds          NUMERIC(10,2) NOT NULL,
+  status                   TEXT          NOT NULL DEFAULT 'active'
+                             CHECK (status IN ('active', 'pending_payment', 'sold', 'cancelled', 'withdrawn')),
+  withdrawn_reason         TEXT,
+  buyer_email              TEXT,
+  buyer_name               TEXT,
+  reserved_until           TIMESTAMPTZ,
+  stripe_session_id        TEXT,
+  stripe_payment_intent_id TEXT,
+  payout_method            TEXT          CHECK (payout_method IN ('stripe_refund', 'loyalty_credit')),
+  payout_status            TEXT          CHECK (payout_status IN ('pending', 'paid')),
+  payout_reference         TEXT,
+  created_at               TIMESTAMPTZ   NOT NULL DEFAULT NOW(),
+  updated_at               TIMESTAMPTZ   NOT NULL DEFAULT NOW(),
+  sold_at                  TIMESTAMPTZ,
+  paid_out_at              TIMESTAMPTZ,
+  closed_at                TIMESTAMPTZ
+);
+
+-- A ticket can only be on sale once at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ticket_resale_listings_open_ticket
+  ON public.ticket_resale_listings(ticket_id)
+  WHERE status IN ('active', 'pending_payment');
+
+CREATE INDEX IF NOT EXISTS idx_ticket_resale_listings_event_status
+  ON public.ticket_resale_listings(event_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_ticket_resale_listings_seller
+  ON public.ticket_resale_listings(LOWER(seller_email));
+
+CREATE INDEX IF NOT EXISTS idx_ticket_resale_listings_payment_intent
+  ON public.ticket_resale_listings(stripe_payment_intent_id)
+  WHERE stripe_payment_intent_id IS NOT NULL;
+
+COMMENT ON TABLE public.ticket_resale_listings IS
+  'Resale listings. active → pending_payment (buyer in Stripe Checkout) → sold; '
+  'cancelled by the seller or withdrawn when the ticket or event stops being valid.';
+
+ALTER TABLE public.ticket_resale_listings ENABLE ROW LEVEL SECURITY;
+
+-- Sellers see their own listings (Account page); buyers browse through get_event_resale_listings
+CREATE POLICY "Sellers can view their resale listings"
+  ON public.ticket_resale_listings
+  FOR SELECT
+  USING (LOWER(seller_email) = LOWER(auth.jwt() ->> 'email'));
+
+CREATE POLICY "Organizers can view resale listings"
+  ON public.ticket_resale_listings
+  FOR SELECT
+  USING (auth.jwt() -> 'user_metadata' ->> 'account_type' = 'organizer');
+
+-- No direct INSERT/UPDATE/DELETE — only via the SECURITY DEFINER RPCs below
+
+GRANT SELECT ON public.ticket_resale_listings TO authenticated;
+
+-- ============================================
+-- 3. EMAIL QUEUE TYPES
+-- ============================================
+
+ALTER TABLE public.email_queue
+  DROP CONSTRAINT IF EXISTS email_queue_email_type_check;
+
+ALTER TABLE public.email_queue
+  ADD CONSTRAINT email_queue_email_type_check
+  CHECK (email_type IN (
+    'ga_ticket',
+    'vip_confirmation',
+    'ticket_transfer_received',
+    'ticket_transfer_sent',
+    'event_reminder_24h',
+    'event_reminder_2h',
+    'restaurant_order_status',
+    'ticket_upgraded',
+    'resale_ticket_purchased',
+    'resale_ticket_sold'
+  ));
+
+-- ============================================
+-- 4. RESALE_CLOSES_AT
+-- ============================================
+
+-- When resale closes for an event: its start minus the cutoff
+CREATE OR REPLACE FUNCTION public.resale_closes_at(p_event_id VARCHAR)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (e.event_date::DATE + COALESCE(e.event_time::TIME, '00:00:00'::TIME))
+         - make_interval(hours => e.resale_cutoff_hours)
+  FROM events e
+  WHERE e.id = p_event_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.resale_closes_at TO authenticated, anon;
+
+-- ============================================
+-- 5. CREATE_RESALE_LISTING RPC
+-- ============================================
+
+-- Called by resale-ticket (service role) for the signed-in holder.
+CREATE OR REPLACE FUNCTION public.create_resale_listing(
+  p_ticket_id    UUID,
+  p_seller_email TEXT,
+  p_price        NUMERIC
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ticket     RECORD;
+  v_max_price  NUMERIC(10,2);
+  v_fee        NUMERIC(10,2);
+  v_listing    ticket_resale_listings;
+BEGIN
+  SELECT
+    t.id, t.event_id, t.status, t.is_used, t.refund_status, t.price,
+    t.attendee_email, t.attendee_name, t.ticket_type_name,
+    e.resale_enabled, e.resale_price_cap_percent, e.resale_fee_percent,
+    e.cancellation_status
+  INTO v_ticket
+  FROM tickets t
+  JOIN events e ON t.event_id = e.id
+  WHERE t.id = p_ticket_id
+  FOR UPDATE OF t;
+
+  IF NOT FOUND OR LOWER(v_ticket.attendee_email) IS DISTINCT FROM LOWER(p_seller_email) THEN
+    RAISE EXCEPTION 'Ticket not found or not owned by you'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_ticket.status NOT IN ('issued', 'valid', 'confirmed')
+     OR COALESCE(v_ticket.is_used, false)
+     OR COALESCE(v_ticket.refund_status, 'none') <> 'none' THEN
+    RAISE EXCEPTION 'Ticket has already been used or is no longer valid'
+      USING ERRCODE = 'P0003';
+  END IF;
+
+  IF NOT v_ticket.resale_enabled OR v_ticket.cancellation_status = 'cancelled' THEN
+    RAISE EXCEPTION 'Resale is not available for this event'
+      USING ERRCODE = 'P0004';
+  END IF;
+
+  IF resale_closes_at(v_ticket.event_id) <= NOW() THEN
+    RAISE EXCEPTION 'Resale has closed for this event'
+      USING ERRCODE = 'P0004';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM ticket_resale_listings
+    WHERE ticket_id = p_ticket_id AND status IN ('active', 'pending_payment')
+  ) THEN
+    RAISE EXCEPTION 'Ticket is already listed for resale'
+      USING ERRCODE = 'P0005';
+  END IF;
+
+  v_max_price := FLOOR(v_ticket.price * v_ticket.resale_price_cap_percent) / 100;
+
+  IF p_price IS NULL OR p_price <= 0 OR p_price > v_max_price THEN
+    RAISE EXCEPTION 'Price must be between 0 and the resale cap of %', v_max_price
+      USING ERRCODE = 'P0006';
+  END IF;
+
+  v_fee := ROUND(p_price * v_ticket.resale_fee_percent / 100, 2);
+
+  INSERT INTO ticket_resale_listings (
+    ticket_id, event_id, seller_email, seller_name, ticket_type_name,
+    face_value, price, fee_percent, fee_amount, seller_proceeds
+  ) VALUES (
+    p_ticket_id, v_ticket.event_id, v_ticket.attendee_email, v_ticket.attendee_name, v_ticket.ticket_type_name,
+    v_ticket.price, ROUND(p_price, 2), v_ticket.resale_fee_percent, v_fee, ROUND(p_price, 2) - v_fee
+  )
+  RETURNING * INTO v_listing;
+
+  RETURN row_to_json(v_listing);
+END;
+$$;
+
+-- ============================================
+-- 6. CANCEL_RESALE_LISTING RPC
+-- ============================================
+
+-- The seller takes an unsold listing down. A listing with a buyer in
+-- checkout can't be cancelled until the checkout expires.
+CREATE OR REPLACE FUNCTION public.cancel_resale_listing(
+  p_listing_id   UUID,
+  p_seller_email TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_listing ticket_resale_listings;
+BEGIN
+  SELECT * INTO v_listing
+  FROM ticket_resale_listings
+  WHERE id = p_listing_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR LOWER(v_listing.seller_email) IS DISTINCT FROM LOWER(p_seller_email) THEN
+    RAISE EXCEPTION 'Listing not found or not owned by you'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_listing.status = 'pending_payment' AND v_listing.reserved_until > NOW() THEN
+    RAISE EXCEPTION 'A buyer is checking out, try again in a few minutes'
+      USING ERRCODE = 'P0007';
+  END IF;
+
+  IF v_listing.status NOT IN ('active', 'pending_payment') THEN
+    RAISE EXCEPTION 'Listing is no longer active'
+      USING ERRCODE = 'P0008';
+  END IF;
+
+  UPDATE ticket_resale_listings
+  SET status = 'cancelled',
+      closed_at = NOW(),
+      updated_at = NOW()
+  WHERE id = p_listing_id
+  RETURNING * INTO v_listing;
+
+  RETURN row_to_json(v_listing);
+END;
+$$;
+
+-- ============================================
+-- 7. GET_EVENT_RESALE_LISTINGS RPC
+-- ============================================
+
+-- What buyers see on the event page: no seller details. A listing whose
+-- checkout hold has lapsed is available again.
+CREATE OR REPLACE FUNCTION public.get_event_resale_listings(p_event_id VARCHAR)
+RETURNS TABLE (
+  listing_id       UUID,
+  ticket_type_name TEXT,
+  face_value       NUMERIC(10,2),
+  price            NUMERIC(10,2),
+  listed_at        TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT l.id, l.ticket_type_name, l.face_value, l.price, l.created_at
+  FROM ticket_resale_listings l
+  JOIN events e ON e.id = l.event_id
+  WHERE l.event_id = p_event_id
+    AND e.resale_enabled
+    AND COALESCE(e.cancellation_status, 'active') <> 'cancelled'
+    AND resale_closes_at(l.event_id) > NOW()
+    AND (l.status = 'active' OR (l.status = 'pending_payment' AND l.reserved_until <= NOW()))
+  ORDER BY l.price ASC, l.created_at ASC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_event_resale_listings TO authenticated, anon;
+
+-- ============================================
+-- 8. RESERVE / RELEASE RPCs
+-- ============================================
+
+-- Holds a listing for one buyer while they pay in Stripe Checkout. The hold
+-- matches the Checkout session expiry, so a lapsed hold can be taken over.
+CREATE OR REPLACE FUNCTION public.reserve_resale_listing(
+  p_listing_id   UUID,
+  p_buyer_email  TEXT,
+  p_buyer_name   TEXT,
+  p_hold_minutes INTEGER DEFAULT 30
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_listing  ticket_resale_listings;
+  v_event    RECORD;
+BEGIN
+  SELECT * INTO v_listing
+  FROM ticket_resale_listings
+  WHERE id = p_listing_id
+  FOR UPDATE;
+
+  IF NOT FOUND
+     OR NOT (v_listing.status = 'active'
+             OR (v_listing.status = 'pending_payment' AND v_listing.reserved_until <= NOW())) THEN
+    RAISE EXCEPTION 'Listing is no longer available'
+      USING ERRCODE = 'P0008';
+  END IF;
+
+  IF LOWER(v_listing.seller_email) = LOWER(p_buyer_email) THEN
+    RAISE EXCEPTION 'Cannot buy your own listing'
+      USING ERRCODE = 'P0009';
+  END IF;
+
+  SELECT e.name, e.event_date::DATE AS event_date, e.resale_enabled, e.cancellation_status
+  INTO v_event
+  FROM events e
+  WHERE e.id = v_listing.event_id;
+
+  IF NOT v_event.resale_enabled
+     OR COALESCE(v_event.cancellation_status, 'active') = 'cancelled'
+     OR resale_closes_at(v_listing.event_id) <= NOW() THEN
+    RAISE EXCEPTION 'Resale has closed for this event'
+      USING ERRCODE = 'P0004';
+  END IF;
+
+  UPDATE ticket_resale_listings
+  SET status = 'pending_payment',
+      buyer_email = p_buyer_email,
+      buyer_name = p_buyer_name,
+      reserved_until = NOW() + make_interval(mins => p_hold_minutes),
+      stripe_session_id = NULL,
+      updated_at = NOW()
+  WHERE id = p_listing_id
+  RETURNING * INTO v_listing;
+
+  RETURN json_build_object(
+    'listing_id',       v_listing.id,
+    'ticket_id',        v_listing.ticket_id,
+    'event_id',         v_listing.event_id,
+    'event_name',       v_event.name,
+    'event_date',       v_event.event_date,
+    'ticket_type_name', v_listing.ticket_type_name,
+    'price',            v_listing.price,
+    'reserved_until',   v_listing.reserved_until
+  );
+END;
+$$;
+
+-- Puts a listing back on sale when its Checkout session expires unpaid.
+-- The session id guards against releasing a newer buyer's hold.
+CREATE OR REPLACE FUNCTION public.release_resale_listing(
+  p_listing_id        UUID,
+  p_stripe_session_id TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE ticket_resale_listings
+  SET status = 'active',
+      buyer_email = NULL,
+      buyer_name = NULL,
+      reserved_until = NULL,
+      stripe_session_id = NULL,
+      updated_at = NOW()
+  WHERE id = p_listing_id
+    AND status = 'pending_payment'
+    AND stripe_session_id = p_stripe_session_id;
+
+  RETURN FOUND;
+END;
+$$;
+
+-- ============================================
+-- 9. COMPLETE_RESALE_SALE RPC
+-- ============================================
+
+-- Called by stripe-webhook once the buyer has paid. Hands the ticket over
+-- with transfer_ticket_atomic (new QR, ticket_transfers audit row) and marks
+-- the listing sold with the seller's payout pending. Returns where the
+-- payout should go: the seller's own Stripe payment if they bought the
+-- ticket, otherwise NULL for loyalty credits.
+CREATE OR REPLACE FUNCTION public.complete_resale_sale(
+  p_listing_id        UUID,
+  p_payment_intent_id TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_listing           ticket_resale_listings;
+  v_transfer          JSON;
+  v_ticket            RECORD;
+  v_seller_payment_id TEXT;
+BEGIN
+  SELECT * INTO v_listing
+  FROM ticket_resale_listings
+  WHERE id = p_listing_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Listing not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_listing.status = 'sold' THEN
+    RAISE EXCEPTION 'Resale already processed'
+      USING ERRCODE = 'P0010';
+  END IF;
+
+  -- Withdrawn or cancelled while the buyer was paying: the caller refunds them
+  IF v_listing.status <> 'pending_payment' THEN
+    RAISE EXCEPTION 'Listing is no longer available (%)', COALESCE(v_listing.withdrawn_reason, v_listing.status)
+      USING ERRCODE = 'P0008';
+  END IF;
+
+  -- Mark sold first so the withdraw trigger leaves this listing alone when the holder changes
+  UPDATE ticket_resale_listings
+  SET status = 'sold',
+      stripe_payment_intent_id = p_payment_intent_id,
+      sold_at = NOW(),
+      closed_at = NOW(),
+      payout_status = 'pending',
+      updated_at = NOW()
+  WHERE id = p_listing_id;
+
+  v_transfer := transfer_ticket_atomic(
+    v_listing.ticket_id,
+    v_listing.seller_email,
+    v_listing.buyer_email,
+    COALESCE(v_listing.buyer_name, v_listing.buyer_email)
+  );
+
+  SELECT t.ticket_id AS ticket_code, o.stripe_payment_intent_id, o.customer_email, o.locale
+  INTO v_ticket
+  FROM tickets t
+  LEFT JOIN orders o ON t.order_id = o.id
+  WHERE t.id = v_listing.ticket_id;
+
+  IF LOWER(v_ticket.customer_email) = LOWER(v_listing.seller_email) THEN
+    v_seller_payment_id := v_ticket.stripe_payment_intent_id;
+  END IF;
+
+  UPDATE ticket_resale_listings
+  SET payout_method = CASE WHEN v_seller_payment_id IS NULL THEN 'loyalty_credit' ELSE 'stripe_refund' END
+  WHERE id = p_listing_id;
+
+  RETURN json_build_object(
+    'listing_id',               p_listing_id,
+    'ticket_id',                v_listing.ticket_id,
+    'ticket_code',              v_ticket.ticket_code,
+    'event_id',                 v_listing.event_id,
+    'event_name',               v_transfer ->> 'event_name',
+    'event_date',               v_transfer ->> 'event_date',
+    'ticket_type_name',         v_transfer ->> 'ticket_type_name',
+    'transfer_id',              v_transfer ->> 'transfer_id',
+    'seller_email',             v_listing.seller_email,
+    'seller_name',              v_listing.seller_name,
+    'buyer_email',              v_listing.buyer_email,
+    'buyer_name',               v_listing.buyer_name,
+    'locale',                   v_ticket.locale,
+    'face_value',               v_listing.face_value,
+    'price',                    v_listing.price,
+    'fee_amount',               v_listing.fee_amount,
+    'seller_proceeds',          v_listing.seller_proceeds,
+    'seller_payment_intent_id', v_seller_payment_id
+  );
+END;
+$$;
+
+-- ============================================
+-- 10. RECORD_RESALE_PAYOUT RPC
+-- ============================================
+
+-- Records how the seller was paid. loyalty_credit adds the proceeds to the
+-- seller's loyalty balance here; stripe_refund records the Stripe refund id
+-- issued by the caller. Paying out twice is a no-op.
+CREATE OR REPLACE FUNCTION public.record_resale_payout(
+  p_listing_id UUID,
+  p_method     TEXT,
+  p_reference  TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_listing ticket_resale_listings;
+  v_account user_loyalty;
+BEGIN
+  SELECT * INTO v_listing
+  FROM ticket_resale_listings
+  WHERE id = p_listing_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_listing.status <> 'sold' THEN
+    RAISE EXCEPTION 'Listing not found or not sold'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_listing.payout_status = 'paid' THEN
+    RETURN row_to_json(v_listing);
+  END IF;
+
+  IF p_method = 'loyalty_credit' THEN
+    v_account := lock_loyalty_account(v_listing.seller_email);
+
+    UPDATE user_loyalty SET credits = credits + v_listing.seller_proceeds WHERE id = v_account.id;
+
+    INSERT INTO loyalty_ledger (loyalty_id, entry_type, credits, amount, description)
+    VALUES (
+      v_account.id, 'adjust', v_listing.seller_proceeds, v_listing.price,
+      'Resale of ' || COALESCE(v_listing.ticket_type_name, 'ticket') || ' (after ' || v_listing.fee_percent || '% fee)'
+    );
+  END IF;
+
+  UPDATE ticket_resale_listings
+  SET payout_method = p_method,
+      payout_status = 'paid',
+      payout_reference = p_reference,
+      paid_out_at = NOW(),
+      updated_at = NOW()
+  WHERE id = p_listing_id
+  RETURNING * INTO v_listing;
+
+  RETURN row_to_json(v_listing);
+END;
+$$;
+
+-- ============================================
+-- 11. AUTOMATIC WITHDRAWAL
+-- ============================================
+
+CREATE OR REPLACE FUNCTION withdraw_resale_listings_on_ticket_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reason TEXT;
+BEGIN
+  IF COALESCE(NEW.is_used, false) OR NEW.status IN ('scanned', 'checked_in', 'used') THEN
+    v_reason := 'ticket_scanned';
+  ELSIF NEW.status NOT IN ('issued', 'valid', 'confirmed') THEN
+    v_reason := 'ticket_cancelled';
+  ELSIF COALESCE(NEW.refund_status, 'none') <> 'none' THEN
+    v_reason := 'ticket_voided';
+  ELSIF LOWER(NEW.attendee_email) IS DISTINCT FROM LOWER(OLD.attendee_email) THEN
+    v_reason := 'ticket_transferred';
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  UPDATE ticket_resale_listings
+  SET status = 'withdrawn',
+      withdrawn_reason = v_reason,
+      closed_at = NOW(),
+      updated_at = NOW()
+  WHERE ticket_id = NEW.id
+    AND status IN ('active', 'pending_payment');
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS withdraw_resale_listings_on_ticket_change ON public.tickets;
+CREATE TRIGGER withdraw_resale_listings_on_ticket_change
+  AFTER UPDATE OF status, is_used, refund_status, attendee_email ON public.tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION withdraw_resale_listings_on_ticket_change();
+
+CREATE OR REPLACE FUNCTION withdraw_resale_listings_on_event_cancel()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE ticket_resale_listings
+  SET status = 'withdrawn',
+      withdrawn_reason = 'event_cancelled',
+      closed_at = NOW(),
+      updated_at = NOW()
+  WHERE event_id = NEW.id
+    AND status IN ('active', 'pending_payment');
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS withdraw_resale_listings_on_event_cancel ON public.events;
+CREATE TRIGGER withdraw_resale_listings_on_event_cancel
+  AFTER UPDATE OF cancellation_status ON public.events
+  FOR EACH ROW
+  WHEN (NEW.cancellation_status = 'cancelled' AND OLD.cancellation_status IS DISTINCT FROM 'cancelled')
+  EXECUTE FUNCTION withdraw_resale_listings_on_event_cancel();
+
+-- ============================================
+-- 12. RESALE REPORT
+-- ============================================
+
+-- Resale volume per event for the admin resale page (all events, or one)
+CREATE OR REPLACE FUNCTION public.get_resale_report(p_event_id VARCHAR DEFAULT NULL)
+RETURNS TABLE (
+  event_id          VARCHAR,
+  event_name        TEXT,
+  event_date        DATE,
+  listings          INTEGER,
+  active_listings   INTEGER,
+  sold              INTEGER,
+  withdrawn         INTEGER,
+  cancelled         INTEGER,
+  gross_sales       NUMERIC(10,2),
+  face_value_sold   NUMERIC(10,2),
+  fees              NUMERIC(10,2),
+  seller_payouts    NUMERIC(10,2),
+  payouts_pending   INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND COALESCE(auth.jwt() -> 'user_metadata' ->> 'account_type', '') <> 'organizer' THEN
+    RAISE EXCEPTION 'Not allowed to view the resale report' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    e.id::VARCHAR,
+    e.name::TEXT,
+    e.event_date::DATE,
+    COUNT(l.id)::INTEGER,
+    COUNT(l.id) FILTER (WHERE l.status IN ('active', 'pending_payment'))::INTEGER,
+    COUNT(l.id) FILTER (WHERE l.status = 'sold')::INTEGER,
+    COUNT(l.id) FILTER (WHERE l.status = 'withdrawn')::INTEGER,
+    COUNT(l.id) FILTER (WHERE l.status = 'cancelled')::INTEGER,
+    COALESCE(SUM(l.price) FILTER (WHERE l.status = 'sold'), 0)::NUMERIC(10,2),
+    COALESCE(SUM(l.face_value) FILTER (WHERE l.status = 'sold'), 0)::NUMERIC(10,2),
+    COALESCE(SUM(l.fee_amount) FILTER (WHERE l.status = 'sold'), 0)::NUMERIC(10,2),
+    COALESCE(SUM(l.seller_proceeds) FILTER (WHERE l.status = 'sold'), 0)::NUMERIC(10,2),
+    COUNT(l.id) FILTER (WHERE l.status = 'sold' AND l.payout_status = 'pending')::INTEGER
+  FROM events e
+  JOIN ticket_resale_listings l ON l.event_id = e.id
+  WHERE p_event_id IS NULL OR e.id = p_event_id
+  GROUP BY e.id, e.name, e.event_date
+  ORDER BY e.event_date DESC;
+END;
+$$;
+
+-- ============================================
+-- 13. DISPUTES AND REFUNDS FOLLOW RESOLD TICKETS
+-- ============================================
+-- A resold ticket is backed by the buyer's payment (on the listing), not the
+-- seller's order. Same as 20260411000000_payment_disputes.sql except for the
+-- ticket selection: the order's tickets minus those resold, plus the ticket
+-- bought with this payment on resale.
+
+CREATE OR REPLACE FUNCTION resale_ticket_ids_for_payment(p_payment_intent_id TEXT, p_order_id UUID)
+RETURNS UUID[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(t.id), '{}')
+  FROM tickets t
+  WHERE (
+      t.order_id = p_order_id
+      AND NOT EXISTS (
+        SELECT 1 FROM ticket_resale_listings l
+        WHERE l.ticket_id = t.id AND l.status = 'sold'
+      )
+    )
+    OR t.id IN (
+      SELECT l.ticket_id FROM ticket_resale_listings l
+      WHERE l.stripe_payment_intent_id = p_payment_intent_id AND l.status = 'sold'
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_payment_dispute(
+  p_stripe_dispute_id TEXT,
+  p_charge_id TEXT,
+  p_payment_intent_id TEXT,
+  p_amount NUMERIC,
+  p_currency TEXT,
+  p_reason TEXT,
+  p_status TEXT,
+  p_evidence_due_by TIMESTAMPTZ
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_dispute payment_disputes;
+  v_order_id UUID;
+  v_reservation_id UUID;
+  v_event_id VARCHAR;
+  v_ticket RECORD;
+  v_pass RECORD;
+  v_tickets_voided INTEGER := 0;
+  v_passes_voided INTEGER := 0;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Not allowed to record disputes' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_dispute FROM payment_disputes WHERE stripe_dispute_id = p_stripe_dispute_id FOR UPDATE;
+
+  IF FOUND THEN
+    UPDATE payment_disputes
+    SET status = p_status,
+        evidence_due_by = COALESCE(p_evidence_due_by, evidence_due_by),
+        updated_at = NOW()
+    WHERE id = v_dispute.id;
+
+    RETURN json_build_object(
+      'dispute_id', v_dispute.id,
+      'is_new', false,
+      'order_id', v_dispute.order_id,
+      'vip_reservation_id', v_dispute.vip_reservation_id,
+      'event_id', v_dispute.event_id,
+      'tickets_voided', 0,
+      'passes_voided', 0
+    );
+  END IF;
+
+  IF p_payment_intent_id IS NOT NULL THEN
+    SELECT id, event_id INTO v_order_id, v_event_id
+    FROM orders
+    WHERE stripe_payment_intent_id = p_payment_intent_id
+    LIMIT 1;
+
+    SELECT id INTO v_reservation_id
+    FROM vip_reservations
+    WHERE stripe_payment_intent_id = p_payment_intent_id
+    LIMIT 1;
+
+    IF v_event_id IS NULL AND v_reservation_id IS NOT NULL THEN
+      SELECT event_id INTO v_event_id FROM vip_reservations WHERE id = v_reservation_id;
+    END IF;
+
+    IF v_event_id IS NULL THEN
+      SELECT l.event_id INTO v_event_id
+      FROM ticket_resale_listings l
+      WHERE l.stripe_payment_intent_id = p_payment_intent_id
+      LIMIT 1;
+    END IF;
+  END IF;
+
+  INSERT INTO payment_disputes (
+    stripe_dispute_id, stripe_charge_id, stripe_payment_intent_id,
+    order_id, vip_reservation_id, event_id,
+    amount, currency, reason, status, evidence_due_by
+  ) VALUES (
+    p_stripe_dispute_id, p_charge_id, p_payment_intent_id,
+    v_order_id, v_reservation_id, v_event_id,
+    p_amount, COALESCE(p_currency, 'usd'), p_reason, p_status, p_evidence_due_by
+  )
+  RETURNING * INTO v_dispute;
+
+  FOR v_ticket IN
+    SELECT id, COALESCE(refund_status, 'none') AS refund_status
+    FROM tickets
+    WHERE id = ANY (resale_ticket_ids_for_payment(p_payment_intent_id, v_order_id))
+      AND COALESCE(refund_status, 'none') IN ('none', 'partial_refund')
+      AND status NOT IN ('cancelled', 'refunded')
+    FOR UPDATE
+  LOOP
+    INSERT INTO payment_dispute_holds (dispute_id, ticket_id, previous_status)
+    VALUES (v_dispute.id, v_ticket.id, v_ticket.refund_status);
+
+    UPDATE tickets
+    SET refund_status = 'voided',
+        refund_reason = 'Payment disputed (' || COALESCE(p_reason, 'no reason given') || ')',
+        updated_at = NOW()
+    WHERE id = v_ticket.id;
+
+    PERFORM append_ticket_event(
+      v_ticket.id,
+      'TicketDisputed',
+      jsonb_build_object(
+        'disputeId', v_dispute.id,
+        'stripeDisputeId', p_stripe_dispute_id,
+        'reason', p_reason,
+        'amount', p_amount
+      ),
+      jsonb_build_object('source', 'stripe-webhook')
+    );
+
+    v_tickets_voided := v_tickets_voided + 1;
+  END LOOP;
+
+  FOR v_pass IN
+    SELECT id, status::TEXT AS status
+    FROM vip_guest_passes
+    WHERE reservation_id = v_reservation_id
+      AND status <> 'cancelled'
+    FOR UPDATE
+  LOOP
+    INSERT INTO payment_dispute_holds (dispute_id, vip_pass_id, previous_status)
+    VALUES (v_dispute.id, v_pass.id, v_pass.status);
+
+    UPDATE vip_guest_passes SET status = 'cancelled', updated_at = NOW() WHERE id = v_pass.id;
+
+    v_passes_voided := v_passes_voided + 1;
+  END LOOP;
+
+  RETURN json_build_object(
+    'dispute_id', v_dispute.id,
+    'is_new', true,
+    'order_id', v_order_id,
+    'vip_reservation_id', v_reservation_id,
+    'event_id', v_event_id,
+    'tickets_voided', v_tickets_voided,
+    'passes_voided', v_passes_voided
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.void_refunded_payment(
+  p_payment_intent_id TEXT,
+  p_refund_id TEXT,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id UUID;
+  v_reservation_id UUID;
+  v_ticket RECORD;
+  v_reason TEXT := COALESCE(p_reason, 'Refunded in Stripe');
+  v_tickets_voided INTEGER := 0;
+  v_passes_voided INTEGER := 0;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Not allowed to void refunded payments' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT id INTO v_order_id FROM orders WHERE stripe_payment_intent_id = p_payment_intent_id LIMIT 1;
+  SELECT id INTO v_reservation_id FROM vip_reservations WHERE stripe_payment_intent_id = p_payment_intent_id LIMIT 1;
+
+  IF v_order_id IS NOT NULL THEN
+    UPDATE orders
+    SET refunded_at = COALESCE(refunded_at, NOW()),
+        refund_reason = COALESCE(refund_reason, v_reason),
+        updated_at = NOW()
+    WHERE id = v_order_id;
+  END IF;
+
+  FOR v_ticket IN
+    SELECT id, price
+    FROM tickets
+    WHERE id = ANY (resale_ticket_ids_for_payment(p_payment_intent_id, v_order_id))
+      AND COALESCE(refund_status, 'none') IN ('none', 'partial_refund', 'voided')
+      AND status NOT IN ('cancelled', 'refunded')
+    FOR UPDATE
+  LOOP
+    UPDATE tickets
+    SET status = 'refunded',
+        refund_status = 'refunded',
+        refunded_at = NOW(),
+        refund_amount = v_ticket.price,
+        refund_reason = v_reason,
+        updated_at = NOW()
+    WHERE id = v_ticket.id;
+
+    PERFORM append_ticket_event(
+      v_ticket.id,
+      'TicketRefunded',
+      jsonb_build_object(
+        'refundId', p_refund_id,
+        'refundAmount', v_ticket.price,
+        'refundReason', v_reason
+      ),
+      jsonb_build_object('source', 'stripe-webhook')
+    );
+
+    v_tickets_voided := v_tickets_voided + 1;
+  END LOOP;
+
+  IF v_reservation_id IS NOT NULL THEN
+    UPDATE vip_guest_passes
+    SET status = 'cancelled', updated_at = NOW()
+    WHERE reservation_id = v_reservation_id AND status <> 'cancelled';
+    GET DIAGNOSTICS v_passes_voided = ROW_COUNT;
+
+    UPDATE vip_reservations
+    SET status = 'cancelled', updated_at = NOW()
+    WHERE id = v_reservation_id AND status <> 'cancelled';
+  END IF;
+
+  RETURN json_build_object(
+    'order_id', v_order_id,
+    'vip_reservation_id', v_reservation_id,
+    'tickets_voided', v_tickets_voided,
+    'passes_voided', v_passes_voided
+  );
+END;
+$$;
+
+-- ============================================
+-- 14. GRANTS
+-- ============================================
+
+REVOKE ALL ON FUNCTION public.create_resale_listing(UUID, TEXT, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.cancel_resale_listing(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.reserve_resale_listing(UUID, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.release_resale_listing(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.complete_resale_sale(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.record_resale_payout(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.get_resale_report(VARCHAR) FROM PUBLIC;
+REVOKE ALL ON FUNCTION resale_ticket_ids_for_payment(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.create_resale_listing(UUID, TEXT, NUMERIC) TO service_role;
+GRANT EXECUTE ON FUNCTION public.cancel_resale_listing(UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.reserve_resale_listing(UUID, TEXT, TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.release_resale_listing(UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.complete_resale_sale(UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.record_resale_payout(UUID, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_resale_report(VARCHAR) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION resale_ticket_ids_for_payment(TEXT, UUID) TO service_role;
+
+COMMIT;
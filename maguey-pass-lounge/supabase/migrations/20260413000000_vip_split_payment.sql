@@ -0,0 +1,781 @@
+-- Migration: Split payment for VIP table reservations
+-- Lets the host split the table among invited guests instead of paying it
+-- all up front:
+--   • split columns on vip_reservations (mode, deadline, fallback, settlement,
+--     the host's saved Stripe card for charging the remainder)
+--   • vip_payment_shares: one row per payer (host + invitees) with a private
+--     pay link token and the Stripe payment that covered it
+--   • create/get/record RPCs used by create-vip-payment-intent,
+--     vip-split-payment and stripe-webhook; every paid share gets its own
+--     guest pass, and the reservation confirms once all shares are in
+--   • claim_due_vip_splits / settle_vip_split for the settle-vip-splits
+--     worker: at the deadline the host is charged the remainder, or the
+--     table is released and the paid shares refunded
+--   • expire_pending_vip_reservations leaves split reservations alone once
+--     the host has paid their share
+--
+-- A split reservation stays 'pending' until it is settled. The deadline is
+-- 48 hours after booking or 12 hours before the event, whichever is sooner.
+
+BEGIN;
+
+-- ============================================
+-- 1. VIP_RESERVATIONS SPLIT COLUMNS
+-- ============================================
+
+ALTER TABLE public.vip_reservations
+  ADD COLUMN IF NOT EXISTS payment_mode TEXT NOT NULL DEFAULT 'full'
+    CHECK (payment_mode IN ('full', 'split')),
+  ADD COLUMN IF NOT EXISTS split_deadline TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS split_fallback TEXT
+    CHECK (split_fallback IN ('charge_host', 'release')),
+  ADD COLUMN IF NOT EXISTS split_settlement TEXT
+    CHECK (split_settlement IN ('collected', 'host_charged', 'released')),
+  ADD COLUMN IF NOT EXISTS split_settled_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS split_settling_until TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS stripe_customer_id TEXT,
+  ADD COLUMN IF NOT EXISTS stripe_payment_method_id TEXT;
+
+COMMENT ON COLUMN public.vip_reservations.payment_mode IS 'full = host paid the whole table; split = each payer pays a share (vip_payment_shares)';
+COMMENT ON COLUMN public.vip_reservations.split_deadline IS 'When unpaid shares are settled by split_fallback';
+COMMENT ON COLUMN public.vip_reservations.split_fallback IS 'At the deadline: charge_host charges the host the remainder, release frees the table and refunds';
+COMMENT ON COLUMN public.vip_reservations.split_settlement IS 'How the split ended: collected (everyone paid), host_charged or released';
+COMMENT ON COLUMN public.vip_reservations.split_settling_until IS 'Lease held by the settle-vip-splits worker while it charges or refunds';
+COMMENT ON COLUMN public.vip_reservations.stripe_payment_method_id IS 'Host card saved off-session for the remainder charge';
+
+CREATE INDEX IF NOT EXISTS idx_vip_reservations_split_due
+  ON public.vip_reservations(split_deadline)
+  WHERE payment_mode = 'split' AND split_settlement IS NULL;
+
+-- ============================================
+-- 2. VIP_PAYMENT_SHARES TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.vip_payment_shares (
+  id                       UUID         PRIMARY KEY DEFAULT gen_random_uuid(),
+  reservation_id           UUID         NOT NULL REFERENCES public.vip_reservations(id) ON DELETE CASCADE,
+  payer_email              TEXT         NOT NULL,
+  payer_name               TEXT,
+  is_host                  BOOLEAN      NOT NULL DEFAULT false,
+  amount_cents             INTEGER      NOT NULL CHECK (amount_cents > 0),
+  -- Secret in the payer's link; the link is the only thing needed to pay
+  pay_token                TEXT         NOT NULL UNIQUE DEFAULT encode(gen_random_bytes(16), 'hex'),
+  status                   TEXT         NOT NULL DEFAULT 'pending'
+                             CHECK (status IN ('pending', 'paid', 'covered_by_host', 'cancelled', 'refunded')),
+  stripe_session_id        TEXT,
+  stripe_payment_intent_id TEXT,
+  stripe_refund_id         TEXT,
+  guest_pass_id            UUID         REFERENCES public.vip_guest_passes(id) ON DELETE SET NULL,
+  paid_at                  TIMESTAMPTZ,
+  refunded_at              TIMESTAMPTZ,
+  created_at               TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+  updated_at               TIMESTAMPTZ  NOT NULL DEFAULT NOW()
+);
+
+-- One host share per reservation, one share per invitee
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vip_payment_shares_host
+  ON public.vip_payment_shares(reservation_id)
+  WHERE is_host;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vip_payment_shares_payer
+  ON public.vip_payment_shares(reservation_id, LOWER(payer_email));
+
+CREATE INDEX IF NOT EXISTS idx_vip_payment_shares_payment_intent
+  ON public.vip_payment_shares(stripe_payment_intent_id)
+  WHERE stripe_payment_intent_id IS NOT NULL;
+
+COMMENT ON TABLE public.vip_payment_shares IS
+  'Split VIP table payments. pending → paid (own payment) or covered_by_host (remainder charge); '
+  'cancelled or refunded when the table is released.';
+
+ALTER TABLE public.vip_payment_shares ENABLE ROW LEVEL SECURITY;
+
+-- The host follows the split on the guest dashboard
+CREATE POLICY "Hosts can view their reservation shares"
+  ON public.vip_payment_shares
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.vip_reservations r
+      WHERE r.id = vip_payment_shares.reservation_id
+        AND LOWER(r.purchaser_email) = LOWER(auth.jwt() ->> 'email')
+    )
+  );
+
+CREATE POLICY "Payers can view their own shares"
+  ON public.vip_payment_shares
+  FOR SELECT
+  USING (LOWER(payer_email) = LOWER(auth.jwt() ->> 'email'));
+
+CREATE POLICY "Organizers can view payment shares"
+  ON public.vip_payment_shares
+  FOR SELECT
+  USING (auth.jwt() -> 'user_metadata' ->> 'account_type' = 'organizer');
+
+-- Door staff see who has paid when scanning a table pass
+CREATE POLICY "Staff can view payment shares"
+  ON public.vip_payment_shares
+  FOR SELECT
+  USING ((auth.jwt() -> 'app_metadata' ->> 'role') IN ('owner', 'promoter', 'employee'));
+
+-- No direct INSERT/UPDATE/DELETE — only via the SECURITY DEFINER RPCs below
+
+GRANT SELECT ON public.vip_payment_shares TO authenticated;
+
+-- ============================================
+-- 3. EMAIL QUEUE TYPES
+-- ============================================
+
+ALTER TABLE public.email_queue
+  DROP CONSTRAINT IF EXISTS email_queue_email_type_check;
+
+ALTER TABLE public.email_queue
+  ADD CONSTRAINT email_queue_email_type_check
+  CHECK (email_type IN (
+    'ga_ticket',
+    'vip_confirmation',
+    'ticket_transfer_received',
+    'ticket_transfer_sent',
+    'event_reminder_24h',
+    'event_reminder_2h',
+    'restaurant_order_status',
+    'ticket_upgraded',
+    'resale_ticket_purchased',
+    'resale_ticket_sold',
+    'vip_split_invite',
+    'vip_split_pass',
+    'vip_split_settled',
+    'vip_split_released'
+  ));
+
+-- ============================================
+-- 4. ISSUE_VIP_SPLIT_PASS HELPER
+-- ============================================
+
+-- Issues the next guest pass on a reservation, signed like the passes
+-- stripe-webhook issues for fully paid tables.
+CREATE OR REPLACE FUNCTION issue_vip_split_pass(
+  p_reservation_id UUID,
+  p_guest_name     TEXT
+)
+RETURNS vip_guest_passes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_number INTEGER;
+  v_token  TEXT;
+  v_pass   vip_guest_passes;
+BEGIN
+  SELECT COALESCE(MAX(guest_number), 0) + 1 INTO v_number
+  FROM vip_guest_passes
+  WHERE reservation_id = p_reservation_id;
+
+  v_token := 'VIP-PASS-' || UPPER(SUBSTRING(gen_random_uuid()::TEXT, 1, 8));
+
+  INSERT INTO vip_guest_passes (reservation_id, guest_number, guest_name, qr_code_token, qr_signature, status)
+  VALUES (
+    p_reservation_id,
+    v_number,
+    p_guest_name,
+    v_token,
+    generate_vip_pass_signature(v_token, p_reservation_id, v_number),
+    'issued'
+  )
+  RETURNING * INTO v_pass;
+
+  RETURN v_pass;
+END;
+$$;
+
+-- Fills the table up to capacity with passes for the host and confirms the
+-- reservation with an invite code. Returns the new passes.
+CREATE OR REPLACE FUNCTION confirm_vip_split_reservation(
+  p_reservation_id UUID,
+  p_settlement     TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reservation RECORD;
+  v_capacity    INTEGER;
+  v_issued      INTEGER;
+  v_pass        vip_guest_passes;
+  v_passes      JSON[] := '{}';
+  v_invite_code TEXT;
+BEGIN
+  SELECT r.id, r.purchaser_name, r.invite_code, t.capacity
+  INTO v_reservation
+  FROM vip_reservations r
+  LEFT JOIN event_vip_tables t ON r.event_vip_table_id = t.id
+  WHERE r.id = p_reservation_id;
+
+  v_capacity := COALESCE(v_reservation.capacity, 6);
+
+  SELECT COUNT(*) INTO v_issued
+  FROM vip_guest_passes
+  WHERE reservation_id = p_reservation_id AND status <> 'cancelled';
+
+  FOR i IN 1..GREATEST(v_capacity - v_issued, 0) LOOP
+    v_pass := issue_vip_split_pass(p_reservation_id, NULL);
+    v_passes := v_passes || json_build_object(
+      'guest_number', v_pass.guest_number,
+      'qr_code_token', v_pass.qr_code_token
+    );
+  END LOOP;
+
+  v_invite_code := COALESCE(v_reservation.invite_code, UPPER(SUBSTRING(gen_random_uuid()::TEXT, 1, 8)));
+
+  UPDATE vip_reservations
+  SET status = 'confirmed',
+      invite_code = v_invite_code,
+      split_settlement = p_settlement,
+      split_settled_at = NOW(),
+      split_settling_until = NULL,
+      updated_at = NOW()
+  WHERE id = p_reservation_id;
+
+  RETURN json_build_object(
+    'invite_code', v_invite_code,
+    'host_passes', array_to_json(v_passes)
+  );
+END;
+$$;
+
+-- ============================================
+-- 5. CREATE_VIP_PAYMENT_SHARES RPC
+-- ============================================
+
+-- Called by create-vip-payment-intent (service role) right after
+-- create_unified_vip_checkout. p_invitees is a JSON array of
+-- { email, name, amount_cents }. Fails when the event is too close to
+-- leave the invitees time to pay.
+CREATE OR REPLACE FUNCTION public.create_vip_payment_shares(
+  p_reservation_id   UUID,
+  p_host_amount_cents INTEGER,
+  p_invitees         JSONB,
+  p_fallback         TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reservation RECORD;
+  v_event_start TIMESTAMPTZ;
+  v_deadline    TIMESTAMPTZ;
+  v_host_share  vip_payment_shares;
+  v_invitee     JSONB;
+BEGIN
+  IF p_fallback NOT IN ('charge_host', 'release') THEN
+    RAISE EXCEPTION 'Unknown split fallback %', p_fallback
+      USING ERRCODE = 'P0006';
+  END IF;
+
+  SELECT r.id, r.status, r.event_id, r.purchaser_email, r.purchaser_name,
+         e.event_date, e.event_time
+  INTO v_reservation
+  FROM vip_reservations r
+  JOIN events e ON r.event_id = e.id
+  WHERE r.id = p_reservation_id
+  FOR UPDATE OF r;
+
+  IF NOT FOUND OR v_reservation.status <> 'pending' THEN
+    RAISE EXCEPTION 'Reservation not found or no longer pending'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF jsonb_typeof(p_invitees) <> 'array' OR jsonb_array_length(p_invitees) = 0 THEN
+    RAISE EXCEPTION 'Split payment needs at least one invitee'
+      USING ERRCODE = 'P0006';
+  END IF;
+
+  v_event_start := v_reservation.event_date::DATE + COALESCE(v_reservation.event_time::TIME, '00:00:00'::TIME);
+  v_deadline := LEAST(NOW() + INTERVAL '48 hours', v_event_start - INTERVAL '12 hours');
+
+  IF v_deadline < NOW() + INTERVAL '1 hour' THEN
+    RAISE EXCEPTION 'Split payment is not available this close to the event'
+      USING ERRCODE = 'P0004';
+  END IF;
+
+  UPDATE vip_reservations
+  SET payment_mode = 'split',
+      split_deadline = v_deadline,
+      split_fallback = p_fallback,
+      updated_at = NOW()
+  WHERE id = p_reservation_id;
+
+  INSERT INTO vip_payment_shares (reservation_id, payer_email, payer_name, is_host, amount_cents)
+  VALUES (p_reservation_id, v_reservation.purchaser_email, v_reservation.purchaser_name, true, p_host_amount_cents)
+  RETURNING * INTO v_host_share;
+
+  FOR v_invitee IN SELECT * FROM jsonb_array_elements(p_invitees) LOOP
+    IF LOWER(v_invitee ->> 'email') = LOWER(v_reservation.purchaser_email) THEN
+      RAISE EXCEPTION 'The host cannot also be an invitee'
+        USING ERRCODE = 'P0009';
+    END IF;
+
+    INSERT INTO vip_payment_shares (reservation_id, payer_email, payer_name, amount_cents)
+    VALUES (
+      p_reservation_id,
+      v_invitee ->> 'email',
+      NULLIF(TRIM(v_invitee ->> 'name'), ''),
+      (v_invitee ->> 'amount_cents')::INTEGER
+    );
+  END LOOP;
+
+  RETURN json_build_object(
+    'host_share_id',  v_host_share.id,
+    'split_deadline', v_deadline
+  );
+END;
+$$;
+
+-- ============================================
+-- 6. GET_VIP_PAYMENT_SHARE RPC
+-- ============================================
+
+-- What the pay link page shows. The token is the only credential.
+CREATE OR REPLACE FUNCTION public.get_vip_payment_share(p_token TEXT)
+RETURNS JSON
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT json_build_object(
+    'share_id',           s.id,
+    'reservation_id',     s.reservation_id,
+    'payer_name',         s.payer_name,
+    'payer_email',        s.payer_email,
+    'amount_cents',       s.amount_cents,
+    'status',             s.status,
+    'host_name',          r.purchaser_name,
+    'reservation_status', r.status,
+    'split_deadline',     r.split_deadline,
+    'table_number',       COALESCE(t.table_number, r.table_number),
+    'event_id',           e.id,
+    'event_name',         e.name,
+    'event_date',         e.event_date,
+    'event_time',         e.event_time
+  )
+  FROM vip_payment_shares s
+  JOIN vip_reservations r ON s.reservation_id = r.id
+  JOIN events e ON r.event_id = e.id
+  LEFT JOIN event_vip_tables t ON r.event_vip_table_id = t.id
+  WHERE s.pay_token = p_token
+    AND NOT s.is_host;
+$$;
+
+-- ============================================
+-- 7. RECORD_VIP_SHARE_PAYMENT RPC
+-- ============================================
+
+-- Called by stripe-webhook once a payer has paid: the host's share with the
+-- booking payment, invitees' through their pay link Checkout. Issues the
+-- payer's guest pass; when every share is in, the table is confirmed and
+-- the host gets the remaining passes.
+CREATE OR REPLACE FUNCTION public.record_vip_share_payment(
+  p_share_id          UUID,
+  p_payment_intent_id TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_share       vip_payment_shares;
+  v_reservation RECORD;
+  v_pass        vip_guest_passes;
+  v_confirmed   JSON;
+BEGIN
+  SELECT * INTO v_share
+  FROM vip_payment_shares
+  WHERE id = p_share_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Share not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_share.status = 'paid' AND v_share.stripe_payment_intent_id = p_payment_intent_id THEN
+    RAISE EXCEPTION 'Share payment already processed'
+      USING ERRCODE = 'P0010';
+  END IF;
+
+  SELECT r.id, r.status, r.split_settlement, r.split_deadline, r.purchaser_email, r.purchaser_name,
+         r.event_id, r.locale, COALESCE(t.table_number, r.table_number) AS table_number,
+         e.name AS event_name, e.event_date
+  INTO v_reservation
+  FROM vip_reservations r
+  JOIN events e ON r.event_id = e.id
+  LEFT JOIN event_vip_tables t ON r.event_vip_table_id = t.id
+  WHERE r.id = v_share.reservation_id
+  FOR UPDATE OF r;
+
+  -- Paid twice, or after the table was settled: the caller refunds this payment
+  IF v_share.status <> 'pending' THEN
+    RAISE EXCEPTION 'Share is no longer payable (%)', v_share.status
+      USING ERRCODE = 'P0008';
+  END IF;
+
+  IF v_reservation.status <> 'pending' OR v_reservation.split_settlement IS NOT NULL THEN
+    RAISE EXCEPTION 'Reservation is no longer collecting payments (%)', v_reservation.status
+      USING ERRCODE = 'P0008';
+  END IF;
+
+  v_pass := issue_vip_split_pass(v_share.reservation_id, COALESCE(v_share.payer_name, v_share.payer_email));
+
+  UPDATE vip_payment_shares
+  SET status = 'paid',
+      stripe_payment_intent_id = p_payment_intent_id,
+      guest_pass_id = v_pass.id,
+      paid_at = NOW(),
+      updated_at = NOW()
+  WHERE id = p_share_id;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM vip_payment_shares
+    WHERE reservation_id = v_share.reservation_id AND status = 'pending'
+  ) THEN
+    v_confirmed := confirm_vip_split_reservation(v_share.reservation_id, 'collected');
+  END IF;
+
+  RETURN json_build_object(
+    'share_id',       v_share.id,
+    'reservation_id', v_share.reservation_id,
+    'is_host',        v_share.is_host,
+    'payer_email',    v_share.payer_email,
+    'payer_name',     v_share.payer_name,
+    'amount_cents',   v_share.amount_cents,
+    'host_email',     v_reservation.purchaser_email,
+    'host_name',      v_reservation.purchaser_name,
+    'event_id',       v_reservation.event_id,
+    'event_name',     v_reservation.event_name,
+    'event_date',     v_reservation.event_date,
+    'table_number',   v_reservation.table_number,
+    'locale',         v_reservation.locale,
+    'split_deadline', v_reservation.split_deadline,
+    'pass_token',     v_pass.qr_code_token,
+    'guest_number',   v_pass.guest_number,
+    'confirmed',      v_confirmed IS NOT NULL,
+    'invite_code',    v_confirmed ->> 'invite_code',
+    'host_passes',    v_confirmed -> 'host_passes'
+  );
+END;
+$$;
+
+-- ============================================
+-- 8. CLAIM_DUE_VIP_SPLITS (WORKER)
+-- ============================================
+-- Split reservations past their deadline whose host has paid. The lease
+-- keeps a second worker from charging or refunding the same table while
+-- the first is talking to Stripe; SKIP LOCKED lets workers poll side by side.
+
+CREATE OR REPLACE FUNCTION public.claim_due_vip_splits(
+  p_lease_seconds INTEGER DEFAULT 300,
+  p_limit         INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  reservation_id           UUID,
+  split_fallback           TEXT,
+  stripe_customer_id       TEXT,
+  stripe_payment_method_id TEXT,
+  outstanding_cents        INTEGER,
+  host_email               TEXT,
+  host_name                TEXT,
+  event_id                 VARCHAR,
+  event_name               TEXT,
+  event_date               DATE,
+  table_number             INTEGER,
+  locale                   TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE vip_reservations r
+    SET split_settling_until = NOW() + make_interval(secs => p_lease_seconds)
+    WHERE r.id IN (
+      SELECT vr.id
+      FROM vip_reservations vr
+      WHERE vr.payment_mode = 'split'
+        AND vr.status = 'pending'
+        AND vr.split_settlement IS NULL
+        AND vr.split_deadline <= NOW()
+        AND (vr.split_settling_until IS NULL OR vr.split_settling_until < NOW())
+        AND EXISTS (
+          SELECT 1 FROM vip_payment_shares s
+          WHERE s.reservation_id = vr.id AND s.is_host AND s.status = 'paid'
+        )
+      ORDER BY vr.split_deadline
+      LIMIT p_limit
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING r.*
+  )
+  SELECT
+    c.id,
+    c.split_fallback,
+    c.stripe_customer_id,
+    c.stripe_payment_method_id,
+    COALESCE((
+      SELECT SUM(s.amount_cents)::INTEGER FROM vip_payment_shares s
+      WHERE s.reservation_id = c.id AND s.status = 'pending'
+    ), 0),
+    c.purchaser_email::TEXT,
+    c.purchaser_name::TEXT,
+    c.event_id,
+    e.name::TEXT,
+    e.event_date::DATE,
+    COALESCE(t.table_number, c.table_number)::INTEGER,
+    c.locale::TEXT
+  FROM claimed c
+  JOIN events e ON c.event_id = e.id
+  LEFT JOIN event_vip_tables t ON c.event_vip_table_id = t.id;
+END;
+$$;
+
+-- ============================================
+-- 9. SETTLE_VIP_SPLIT RPC
+-- ============================================
+
+-- host_charged: the remainder was charged to the host's saved card; the
+-- unpaid shares are marked covered and the table confirms.
+-- released: the reservation is cancelled, its passes voided and the table
+-- put back on sale. Returns the paid shares for the caller to refund.
+CREATE OR REPLACE FUNCTION public.settle_vip_split(
+  p_reservation_id    UUID,
+  p_outcome           TEXT,
+  p_payment_intent_id TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reservation vip_reservations;
+  v_confirmed   JSON;
+  v_refunds     JSON;
+  v_invitees    JSON;
+BEGIN
+  SELECT * INTO v_reservation
+  FROM vip_reservations
+  WHERE id = p_reservation_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_reservation.payment_mode <> 'split' THEN
+    RAISE EXCEPTION 'Split reservation not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_reservation.split_settlement IS NOT NULL THEN
+    RAISE EXCEPTION 'Split already settled (%)', v_reservation.split_settlement
+      USING ERRCODE = 'P0010';
+  END IF;
+
+  IF p_outcome = 'host_charged' THEN
+    UPDATE vip_payment_shares
+    SET status = 'covered_by_host',
+        stripe_payment_intent_id = p_payment_intent_id,
+        paid_at = NOW(),
+        updated_at = NOW()
+    WHERE reservation_id = p_reservation_id AND status = 'pending';
+
+    v_confirmed := confirm_vip_split_reservation(p_reservation_id, 'host_charged');
+
+    RETURN json_build_object(
+      'outcome',     'host_charged',
+      'invite_code', v_confirmed ->> 'invite_code',
+      'host_passes', v_confirmed -> 'host_passes'
+    );
+  END IF;
+
+  IF p_outcome <> 'released' THEN
+    RAISE EXCEPTION 'Unknown split outcome %', p_outcome
+      USING ERRCODE = 'P0006';
+  END IF;
+
+  -- Invitees who had not paid are told the table was released too
+  SELECT COALESCE(json_agg(json_build_object('email', payer_email, 'name', payer_name)), '[]'::JSON)
+  INTO v_invitees
+  FROM vip_payment_shares
+  WHERE reservation_id = p_reservation_id AND NOT is_host;
+
+  UPDATE vip_payment_shares
+  SET status = 'cancelled', updated_at = NOW()
+  WHERE reservation_id = p_reservation_id AND status = 'pending';
+
+  SELECT COALESCE(json_agg(json_build_object(
+    'share_id',          id,
+    'is_host',           is_host,
+    'payer_email',       payer_email,
+    'payer_name',        payer_name,
+    'amount_cents',      amount_cents,
+    'payment_intent_id', stripe_payment_intent_id
+  )), '[]'::JSON)
+  INTO v_refunds
+  FROM vip_payment_shares
+  WHERE reservation_id = p_reservation_id AND status = 'paid';
+
+  UPDATE vip_guest_passes
+  SET status = 'cancelled', updated_at = NOW()
+  WHERE reservation_id = p_reservation_id AND status = 'issued';
+
+  UPDATE vip_reservations
+  SET status = 'cancelled',
+      split_settlement = 'released',
+      split_settled_at = NOW(),
+      split_settling_until = NULL,
+      updated_at = NOW()
+  WHERE id = p_reservation_id;
+
+  UPDATE event_vip_tables
+  SET is_available = true, updated_at = NOW()
+  WHERE id = v_reservation.event_vip_table_id;
+
+  RETURN json_build_object(
+    'outcome',  'released',
+    'refunds',  v_refunds,
+    'invitees', v_invitees
+  );
+END;
+$$;
+
+-- Records the refund of a paid share after the table was released
+CREATE OR REPLACE FUNCTION public.record_vip_share_refund(
+  p_share_id  UUID,
+  p_refund_id TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE vip_payment_shares
+  SET status = 'refunded',
+      stripe_refund_id = p_refund_id,
+      refunded_at = NOW(),
+      updated_at = NOW()
+  WHERE id = p_share_id AND status = 'paid';
+
+  RETURN FOUND;
+END;
+$$;
+
+-- ============================================
+-- 10. PENDING RESERVATION EXPIRY
+-- ============================================
+-- Same as before, except split reservations whose host has paid stay
+-- pending until settle-vip-splits settles them at the deadline.
+
+CREATE OR REPLACE FUNCTION expire_pending_vip_reservations()
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_expired_count INTEGER;
+  v_released_count INTEGER;
+BEGIN
+  -- Mark old pending reservations as expired
+  WITH expired AS (
+    UPDATE vip_reservations
+    SET status = 'expired', updated_at = NOW()
+    WHERE status = 'pending'
+      AND created_at < NOW() - INTERVAL '30 minutes'
+      AND NOT (
+        payment_mode = 'split'
+        AND EXISTS (
+          SELECT 1 FROM vip_payment_shares s
+          WHERE s.reservation_id = vip_reservations.id AND s.is_host AND s.status = 'paid'
+        )
+      )
+    RETURNING id, event_vip_table_id
+  )
+  SELECT COUNT(*) INTO v_expired_count FROM expired;
+
+  -- Release table availability for expired reservations
+  WITH released AS (
+    UPDATE event_vip_tables t
+    SET is_available = TRUE, updated_at = NOW()
+    FROM vip_reservations r
+    WHERE r.event_vip_table_id = t.id
+      AND r.status = 'expired'
+      AND t.is_available = FALSE
+      AND r.updated_at > NOW() - INTERVAL '1 minute' -- Just expired
+    RETURNING t.id
+  )
+  SELECT COUNT(*) INTO v_released_count FROM released;
+
+  RETURN json_build_object(
+    'success', TRUE,
+    'expired_reservations', v_expired_count,
+    'released_tables', v_released_count,
+    'executed_at', NOW()
+  );
+END;
+$$;
+
+-- ============================================
+-- 11. GRANTS
+-- ============================================
+
+REVOKE ALL ON FUNCTION issue_vip_split_pass(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION confirm_vip_split_reservation(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.create_vip_payment_shares(UUID, INTEGER, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.record_vip_share_payment(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.claim_due_vip_splits(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.settle_vip_split(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.record_vip_share_refund(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION expire_pending_vip_reservations() FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.create_vip_payment_shares(UUID, INTEGER, JSONB, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_vip_payment_share(TEXT) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION public.record_vip_share_payment(UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.claim_due_vip_splits(INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.settle_vip_split(UUID, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.record_vip_share_refund(UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION expire_pending_vip_reservations TO service_role;
+
+COMMIT;
+
+-- =========================================================
+-- pg_cron setup — run manually in Supabase Dashboard > SQL Editor
+-- =========================================================
+--
+-- Requires: pg_cron and pg_net extensions enabled
+-- Schedule: Every 15 minutes (*/15 * * * *)
+-- This calls settle-vip-splits, which charges the host or releases split
+-- tables whose deadline has passed.
+--
+-- SELECT cron.schedule(
+--   'settle-vip-splits',
+--   '*/15 * * * *',
+--   $$
+--   SELECT net.http_post(
+--     url     := current_setting('app.supabase_url') || '/functions/v1/settle-vip-splits',
+--     headers := jsonb_build_object(
+--       'Content-Type',  'application/json',
+--       'Authorization', 'Bearer ' || current_setting('app.service_role_key')
+--     ),
+--     body    := '{}'::jsonb
+--   );
+--   $$
+-- );
+--
+-- Verify: SELECT jobid, schedule, command, active FROM cron.job;
+-- Remove: SELECT cron.unschedule('settle-vip-splits');
+-- =========================================================
@@ -0,0 +1,714 @@
+-- Migration: In-night bottle service for VIP tables
+-- Lets a checked-in table order bottles from its guest dashboard and keeps a
+-- running tab against the table's minimum spend:
+--   • event_vip_tables.minimum_spend_cents (0 = no minimum)
+--   • vip_bottle_menu_items: the bottle menu for each event, edited from the
+--     scanner admin at /bottle-menu
+--   • vip_table_tabs: one tab per reservation, opened with the first order
+--     (or at settlement) with the table's minimum spend snapshotted
+--   • vip_bottle_orders / vip_bottle_order_items: orders placed from
+--     /vip/dashboard/:id and fulfilled by servers on the /bottle-service board
+--   • settle-vip-tab closes a tab at the end of the night: it charges the
+--     larger of the delivered orders and the minimum spend to the card saved
+--     with the booking, or records that it was paid at the venue
+--
+-- Order lifecycle:
+--   placed -> preparing -> delivered
+--   placed / preparing -> cancelled
+-- Tab lifecycle:
+--   open -> settling -> settled
+--                    -> failed (card declined; settle again at the venue)
+--
+-- Only delivered orders count toward the tab. Bottles included with the
+-- table price do not count toward the minimum spend.
+
+BEGIN;
+
+-- ============================================
+-- 1. MINIMUM SPEND PER TABLE
+-- ============================================
+
+ALTER TABLE public.event_vip_tables
+  ADD COLUMN IF NOT EXISTS minimum_spend_cents INTEGER NOT NULL DEFAULT 0
+    CHECK (minimum_spend_cents >= 0);
+
+COMMENT ON COLUMN public.event_vip_tables.minimum_spend_cents IS 'Least a table is charged for in-night bottle orders; 0 = no minimum';
+
+-- ============================================
+-- 2. BOTTLE MENU
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.vip_bottle_menu_items (
+  id           UUID         PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id     VARCHAR(255) NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  category     TEXT         NOT NULL DEFAULT 'bottle'
+    CHECK (category IN ('bottle', 'champagne', 'mixer', 'food', 'other')),
+  name         TEXT         NOT NULL,
+  description  TEXT         NOT NULL DEFAULT '',
+  price_cents  INTEGER      NOT NULL CHECK (price_cents >= 0),
+  is_available BOOLEAN      NOT NULL DEFAULT true,
+  sort_order   INTEGER      NOT NULL DEFAULT 0,
+  created_at   TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+  updated_at   TIMESTAMPTZ  NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vip_bottle_menu_items_event
+  ON public.vip_bottle_menu_items (event_id, category, sort_order);
+
+-- ============================================
+-- 3. TABS AND ORDERS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.vip_table_tabs (
+  id                       UUID         PRIMARY KEY DEFAULT gen_random_uuid(),
+  reservation_id           UUID         NOT NULL UNIQUE REFERENCES public.vip_reservations(id) ON DELETE CASCADE,
+  event_id                 VARCHAR(255) NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  minimum_spend_cents      INTEGER      NOT NULL DEFAULT 0,
+  status                   TEXT         NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'settling', 'settled', 'failed')),
+  -- Delivered orders at the time the tab was closed
+  orders_cents             INTEGER,
+  charged_cents            INTEGER,
+  settlement_method        TEXT
+    CHECK (settlement_method IN ('card', 'venue', 'none')),
+  stripe_payment_intent_id TEXT,
+  failure_reason           TEXT,
+  settling_started_at      TIMESTAMPTZ,
+  settled_at               TIMESTAMPTZ,
+  settled_by               UUID         REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at               TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+  updated_at               TIMESTAMPTZ  NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vip_table_tabs_event
+  ON public.vip_table_tabs (event_id, status);
+
+CREATE TABLE IF NOT EXISTS public.vip_bottle_orders (
+  id              UUID         PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Short code servers read out at the table
+  order_number    TEXT         NOT NULL UNIQUE DEFAULT upper(substr(md5(gen_random_uuid()::text), 1, 6)),
+  reservation_id  UUID         NOT NULL REFERENCES public.vip_reservations(id) ON DELETE CASCADE,
+  tab_id          UUID         NOT NULL REFERENCES public.vip_table_tabs(id) ON DELETE CASCADE,
+  event_id        VARCHAR(255) NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  status          TEXT         NOT NULL DEFAULT 'placed'
+    CHECK (status IN ('placed', 'preparing', 'delivered', 'cancelled')),
+  placed_by_name  TEXT,
+  notes           TEXT,
+  subtotal_cents  INTEGER      NOT NULL CHECK (subtotal_cents >= 0),
+  placed_at       TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+  preparing_at    TIMESTAMPTZ,
+  delivered_at    TIMESTAMPTZ,
+  cancelled_at    TIMESTAMPTZ,
+  handled_by      UUID         REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at      TIMESTAMPTZ  NOT NULL DEFAULT NOW(),
+  updated_at      TIMESTAMPTZ  NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vip_bottle_orders_open
+  ON public.vip_bottle_orders (event_id, status, placed_at);
+
+CREATE INDEX IF NOT EXISTS idx_vip_bottle_orders_tab
+  ON public.vip_bottle_orders (tab_id);
+
+CREATE TABLE IF NOT EXISTS public.vip_bottle_order_items (
+  id               UUID    PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id         UUID    NOT NULL REFERENCES public.vip_bottle_orders(id) ON DELETE CASCADE,
+  menu_item_id     UUID    REFERENCES public.vip_bottle_menu_items(id) ON DELETE SET NULL,
+  -- Snapshot at order time so menu edits don't rewrite the tab
+  name             TEXT    NOT NULL,
+  unit_price_cents INTEGER NOT NULL,
+  quantity         INTEGER NOT NULL CHECK (quantity BETWEEN 1 AND 20),
+  line_total_cents INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_vip_bottle_order_items_order
+  ON public.vip_bottle_order_items (order_id);
+
+-- ============================================
+-- 4. UPDATED_AT TRIGGERS
+-- ============================================
+
+DROP TRIGGER IF EXISTS update_vip_bottle_menu_items_updated_at ON public.vip_bottle_menu_items;
+CREATE TRIGGER update_vip_bottle_menu_items_updated_at
+  BEFORE UPDATE ON public.vip_bottle_menu_items
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_vip_table_tabs_updated_at ON public.vip_table_tabs;
+CREATE TRIGGER update_vip_table_tabs_updated_at
+  BEFORE UPDATE ON public.vip_table_tabs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_vip_bottle_orders_updated_at ON public.vip_bottle_orders;
+CREATE TRIGGER update_vip_bottle_orders_updated_at
+  BEFORE UPDATE ON public.vip_bottle_orders
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- 5. ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE public.vip_bottle_menu_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.vip_table_tabs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.vip_bottle_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.vip_bottle_order_items ENABLE ROW LEVEL SECURITY;
+
+-- Menu is public; the dashboard hides unavailable items
+CREATE POLICY "Anyone can view the bottle menu"
+  ON public.vip_bottle_menu_items
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Owners can manage the bottle menu"
+  ON public.vip_bottle_menu_items
+  FOR ALL
+  TO authenticated
+  USING ((auth.jwt() -> 'app_metadata' ->> 'role') = 'owner')
+  WITH CHECK ((auth.jwt() -> 'app_metadata' ->> 'role') = 'owner');
+
+-- Tabs and orders are written through the RPCs below; guests read their
+-- own with get_vip_tab, staff read them on the bottle service board
+CREATE POLICY "Staff can view tabs"
+  ON public.vip_table_tabs
+  FOR SELECT
+  USING ((auth.jwt() -> 'app_metadata' ->> 'role') IN ('owner', 'promoter', 'employee'));
+
+CREATE POLICY "Staff can view bottle orders"
+  ON public.vip_bottle_orders
+  FOR SELECT
+  USING ((auth.jwt() -> 'app_metadata' ->> 'role') IN ('owner', 'promoter', 'employee'));
+
+CREATE POLICY "Staff can view bottle order items"
+  ON public.vip_bottle_order_items
+  FOR SELECT
+  USING ((auth.jwt() -> 'app_metadata' ->> 'role') IN ('owner', 'promoter', 'employee'));
+
+GRANT SELECT ON public.vip_bottle_menu_items TO anon, authenticated;
+GRANT INSERT, UPDATE, DELETE ON public.vip_bottle_menu_items TO authenticated;
+GRANT SELECT ON public.vip_table_tabs TO authenticated;
+GRANT SELECT ON public.vip_bottle_orders TO authenticated;
+GRANT SELECT ON public.vip_bottle_order_items TO authenticated;
+
+-- Live updates for the bottle service board
+ALTER PUBLICATION supabase_realtime ADD TABLE public.vip_bottle_orders;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.vip_table_tabs;
+
+-- ============================================
+-- 6. EMAIL QUEUE TYPES
+-- ============================================
+
+ALTER TABLE public.email_queue
+  DROP CONSTRAINT IF EXISTS email_queue_email_type_check;
+
+ALTER TABLE public.email_queue
+  ADD CONSTRAINT email_queue_email_type_check
+  CHECK (email_type IN (
+    'ga_ticket',
+    'vip_confirmation',
+    'ticket_transfer_received',
+    'ticket_transfer_sent',
+    'event_reminder_24h',
+    'event_reminder_2h',
+    'restaurant_order_status',
+    'ticket_upgraded',
+    'resale_ticket_purchased',
+    'resale_ticket_sold',
+    'vip_split_invite',
+    'vip_split_pass',
+    'vip_split_settled',
+    'vip_split_released',
+    'vip_tab_receipt'
+  ));
+
+-- ============================================
+-- 7. OPEN_VIP_TAB HELPER
+-- ============================================
+
+-- Returns the reservation's tab, opening it with the table's minimum spend
+-- the first time. Locks the tab row for the caller's transaction.
+CREATE OR REPLACE FUNCTION open_vip_tab(p_reservation_id UUID)
+RETURNS vip_table_tabs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tab vip_table_tabs;
+BEGIN
+  INSERT INTO vip_table_tabs (reservation_id, event_id, minimum_spend_cents)
+  SELECT r.id, r.event_id, COALESCE(t.minimum_spend_cents, 0)
+  FROM vip_reservations r
+  LEFT JOIN event_vip_tables t ON r.event_vip_table_id = t.id
+  WHERE r.id = p_reservation_id
+  ON CONFLICT (reservation_id) DO NOTHING;
+
+  SELECT * INTO v_tab
+  FROM vip_table_tabs
+  WHERE reservation_id = p_reservation_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reservation not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_tab;
+END;
+$$;
+
+-- Delivered / still-open order totals for a tab
+CREATE OR REPLACE FUNCTION vip_tab_totals(p_tab_id UUID)
+RETURNS TABLE (delivered_cents INTEGER, pending_cents INTEGER, open_orders INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE(SUM(subtotal_cents) FILTER (WHERE status = 'delivered'), 0)::INTEGER,
+    COALESCE(SUM(subtotal_cents) FILTER (WHERE status IN ('placed', 'preparing')), 0)::INTEGER,
+    COUNT(*) FILTER (WHERE status IN ('placed', 'preparing'))::INTEGER
+  FROM vip_bottle_orders
+  WHERE tab_id = p_tab_id;
+$$;
+
+-- ============================================
+-- 8. PLACE_VIP_BOTTLE_ORDER RPC
+-- ============================================
+
+-- Called from the guest dashboard. The reservation id in the dashboard URL
+-- acts as the secret, as it does for the rest of that page. Only checked-in
+-- tables with an open tab can order.
+CREATE OR REPLACE FUNCTION public.place_vip_bottle_order(
+  p_reservation_id UUID,
+  p_items          JSONB,
+  p_notes          TEXT DEFAULT NULL,
+  p_placed_by      TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reservation vip_reservations;
+  v_tab         vip_table_tabs;
+  v_order_id    UUID;
+  v_item        JSONB;
+  v_menu_item   vip_bottle_menu_items;
+  v_quantity    INTEGER;
+  v_subtotal    INTEGER := 0;
+BEGIN
+  SELECT * INTO v_reservation
+  FROM vip_reservations
+  WHERE id = p_reservation_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reservation not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_reservation.status <> 'checked_in' THEN
+    RAISE EXCEPTION 'Bottle service opens once your table has checked in'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Add at least one item to the order'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF jsonb_array_length(p_items) > 20 THEN
+    RAISE EXCEPTION 'An order can have at most 20 items'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  v_tab := open_vip_tab(p_reservation_id);
+
+  IF v_tab.status <> 'open' THEN
+    RAISE EXCEPTION 'This table''s tab is closed'
+      USING ERRCODE = 'P0010';
+  END IF;
+
+  INSERT INTO vip_bottle_orders (reservation_id, tab_id, event_id, placed_by_name, notes, subtotal_cents)
+  VALUES (
+    p_reservation_id,
+    v_tab.id,
+    v_reservation.event_id,
+    NULLIF(TRIM(p_placed_by), ''),
+    NULLIF(TRIM(p_notes), ''),
+    0
+  )
+  RETURNING id INTO v_order_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := COALESCE((v_item ->> 'quantity')::INTEGER, 0);
+    IF v_quantity < 1 OR v_quantity > 20 THEN
+      RAISE EXCEPTION 'Quantity must be between 1 and 20'
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    SELECT * INTO v_menu_item
+    FROM vip_bottle_menu_items
+    WHERE id = (v_item ->> 'menu_item_id')::UUID
+      AND event_id = v_reservation.event_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Menu item not found'
+        USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT v_menu_item.is_available THEN
+      RAISE EXCEPTION '% is no longer available', v_menu_item.name
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    INSERT INTO vip_bottle_order_items (order_id, menu_item_id, name, unit_price_cents, quantity, line_total_cents)
+    VALUES (v_order_id, v_menu_item.id, v_menu_item.name, v_menu_item.price_cents, v_quantity, v_menu_item.price_cents * v_quantity);
+
+    v_subtotal := v_subtotal + v_menu_item.price_cents * v_quantity;
+  END LOOP;
+
+  UPDATE vip_bottle_orders
+  SET subtotal_cents = v_subtotal
+  WHERE id = v_order_id;
+
+  RETURN (
+    SELECT json_build_object(
+      'id',             o.id,
+      'order_number',   o.order_number,
+      'status',         o.status,
+      'subtotal_cents', o.subtotal_cents,
+      'placed_at',      o.placed_at
+    )
+    FROM vip_bottle_orders o
+    WHERE o.id = v_order_id
+  );
+END;
+$$;
+
+-- ============================================
+-- 9. UPDATE_VIP_BOTTLE_ORDER_STATUS RPC
+-- ============================================
+
+-- Servers move orders along from the bottle service board
+CREATE OR REPLACE FUNCTION public.update_vip_bottle_order_status(
+  p_order_id UUID,
+  p_status   TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order vip_bottle_orders;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND COALESCE(auth.jwt() -> 'app_metadata' ->> 'role', '') NOT IN ('owner', 'promoter', 'employee') THEN
+    RAISE EXCEPTION 'Only staff can update bottle orders'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM vip_bottle_orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT (
+    (v_order.status = 'placed' AND p_status IN ('preparing', 'delivered', 'cancelled'))
+    OR (v_order.status = 'preparing' AND p_status IN ('delivered', 'cancelled'))
+  ) THEN
+    RAISE EXCEPTION 'Cannot move order from % to %', v_order.status, p_status
+      USING ERRCODE = 'P0010';
+  END IF;
+
+  UPDATE vip_bottle_orders
+  SET status = p_status,
+      preparing_at = CASE WHEN p_status = 'preparing' THEN NOW() ELSE preparing_at END,
+      delivered_at = CASE WHEN p_status = 'delivered' THEN NOW() ELSE delivered_at END,
+      cancelled_at = CASE WHEN p_status = 'cancelled' THEN NOW() ELSE cancelled_at END,
+      handled_by = auth.uid()
+  WHERE id = p_order_id;
+
+  RETURN json_build_object('id', p_order_id, 'status', p_status);
+END;
+$$;
+
+-- ============================================
+-- 10. GET_VIP_TAB RPC
+-- ============================================
+
+-- The running tab on the guest dashboard. Reservations that have not
+-- ordered yet get the table's minimum spend and no orders.
+CREATE OR REPLACE FUNCTION public.get_vip_tab(p_reservation_id UUID)
+RETURNS JSON
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT json_build_object(
+    'reservation_id',      r.id,
+    'status',              COALESCE(tab.status, 'open'),
+    'minimum_spend_cents', COALESCE(tab.minimum_spend_cents, t.minimum_spend_cents, 0),
+    'delivered_cents',     COALESCE(totals.delivered_cents, 0),
+    'pending_cents',       COALESCE(totals.pending_cents, 0),
+    'charged_cents',       tab.charged_cents,
+    'settlement_method',   tab.settlement_method,
+    'settled_at',          tab.settled_at,
+    'orders', COALESCE((
+      SELECT json_agg(json_build_object(
+        'id',             o.id,
+        'order_number',   o.order_number,
+        'status',         o.status,
+        'placed_by_name', o.placed_by_name,
+        'subtotal_cents', o.subtotal_cents,
+        'placed_at',      o.placed_at,
+        'delivered_at',   o.delivered_at,
+        'items', (
+          SELECT json_agg(json_build_object('name', i.name, 'quantity', i.quantity, 'line_total_cents', i.line_total_cents))
+          FROM vip_bottle_order_items i
+          WHERE i.order_id = o.id
+        )
+      ) ORDER BY o.placed_at DESC)
+      FROM vip_bottle_orders o
+      WHERE o.tab_id = tab.id
+    ), '[]'::JSON)
+  )
+  FROM vip_reservations r
+  LEFT JOIN event_vip_tables t ON r.event_vip_table_id = t.id
+  LEFT JOIN vip_table_tabs tab ON tab.reservation_id = r.id
+  LEFT JOIN LATERAL vip_tab_totals(tab.id) totals ON true
+  WHERE r.id = p_reservation_id;
+$$;
+
+-- ============================================
+-- 11. GET_EVENT_VIP_TABS RPC
+-- ============================================
+
+-- Every table that checked in for the event (or has a tab), for the
+-- settlement list on the bottle service board
+CREATE OR REPLACE FUNCTION public.get_event_vip_tabs(p_event_id VARCHAR)
+RETURNS TABLE (
+  reservation_id      UUID,
+  table_number        INTEGER,
+  purchaser_name      TEXT,
+  purchaser_email     TEXT,
+  reservation_status  TEXT,
+  minimum_spend_cents INTEGER,
+  delivered_cents     INTEGER,
+  pending_cents       INTEGER,
+  open_orders         INTEGER,
+  tab_status          TEXT,
+  charged_cents       INTEGER,
+  settlement_method   TEXT,
+  failure_reason      TEXT,
+  settled_at          TIMESTAMPTZ,
+  has_card            BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND COALESCE(auth.jwt() -> 'app_metadata' ->> 'role', '') NOT IN ('owner', 'promoter', 'employee') THEN
+    RAISE EXCEPTION 'Not allowed to view tabs' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    r.id,
+    COALESCE(t.table_number, r.table_number)::INTEGER,
+    r.purchaser_name::TEXT,
+    r.purchaser_email::TEXT,
+    r.status::TEXT,
+    COALESCE(tab.minimum_spend_cents, t.minimum_spend_cents, 0)::INTEGER,
+    COALESCE(totals.delivered_cents, 0),
+    COALESCE(totals.pending_cents, 0),
+    COALESCE(totals.open_orders, 0),
+    COALESCE(tab.status, 'open'),
+    tab.charged_cents,
+    tab.settlement_method,
+    tab.failure_reason,
+    tab.settled_at,
+    (r.stripe_customer_id IS NOT NULL AND r.stripe_payment_method_id IS NOT NULL)
+  FROM vip_reservations r
+  LEFT JOIN event_vip_tables t ON r.event_vip_table_id = t.id
+  LEFT JOIN vip_table_tabs tab ON tab.reservation_id = r.id
+  LEFT JOIN LATERAL vip_tab_totals(tab.id) totals ON true
+  WHERE r.event_id = p_event_id
+    AND (r.status IN ('checked_in', 'completed') OR tab.id IS NOT NULL)
+  ORDER BY COALESCE(t.table_number, r.table_number);
+END;
+$$;
+
+-- ============================================
+-- 12. TAB SETTLEMENT RPCS
+-- ============================================
+
+-- Called by settle-vip-tab before charging. Moves the tab to 'settling' so
+-- no more orders can be placed, and returns what is owed. A settlement that
+-- died part way can be retried after five minutes; the Stripe idempotency
+-- key keeps the card from being charged twice.
+CREATE OR REPLACE FUNCTION public.begin_vip_tab_settlement(p_reservation_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tab         vip_table_tabs;
+  v_totals      RECORD;
+  v_reservation RECORD;
+BEGIN
+  v_tab := open_vip_tab(p_reservation_id);
+
+  IF v_tab.status = 'settled' THEN
+    RAISE EXCEPTION 'Tab already settled'
+      USING ERRCODE = 'P0010';
+  END IF;
+
+  IF v_tab.status = 'settling' AND v_tab.settling_started_at > NOW() - INTERVAL '5 minutes' THEN
+    RAISE EXCEPTION 'Tab is already being settled'
+      USING ERRCODE = 'P0010';
+  END IF;
+
+  SELECT * INTO v_totals FROM vip_tab_totals(v_tab.id);
+
+  IF v_totals.open_orders > 0 THEN
+    RAISE EXCEPTION 'Tab still has % order(s) to deliver or cancel', v_totals.open_orders
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE vip_table_tabs
+  SET status = 'settling',
+      settling_started_at = NOW(),
+      orders_cents = v_totals.delivered_cents,
+      failure_reason = NULL
+  WHERE id = v_tab.id;
+
+  SELECT r.purchaser_email, r.purchaser_name, r.locale, r.stripe_customer_id, r.stripe_payment_method_id,
+         COALESCE(t.table_number, r.table_number) AS table_number, e.name AS event_name
+  INTO v_reservation
+  FROM vip_reservations r
+  JOIN events e ON r.event_id = e.id
+  LEFT JOIN event_vip_tables t ON r.event_vip_table_id = t.id
+  WHERE r.id = p_reservation_id;
+
+  RETURN json_build_object(
+    'tab_id',                   v_tab.id,
+    'reservation_id',           p_reservation_id,
+    'orders_cents',             v_totals.delivered_cents,
+    'minimum_spend_cents',      v_tab.minimum_spend_cents,
+    'amount_due_cents',         GREATEST(v_totals.delivered_cents, v_tab.minimum_spend_cents),
+    'stripe_customer_id',       v_reservation.stripe_customer_id,
+    'stripe_payment_method_id', v_reservation.stripe_payment_method_id,
+    'purchaser_email',          v_reservation.purchaser_email,
+    'purchaser_name',           v_reservation.purchaser_name,
+    'locale',                   v_reservation.locale,
+    'table_number',             v_reservation.table_number,
+    'event_name',               v_reservation.event_name
+  );
+END;
+$$;
+
+-- Records how the tab ended: settled (charged, paid at the venue or nothing
+-- owed) or failed (card declined; the tab can be settled again)
+CREATE OR REPLACE FUNCTION public.finish_vip_tab_settlement(
+  p_tab_id            UUID,
+  p_outcome           TEXT,
+  p_method            TEXT DEFAULT NULL,
+  p_charged_cents     INTEGER DEFAULT NULL,
+  p_payment_intent_id TEXT DEFAULT NULL,
+  p_failure_reason    TEXT DEFAULT NULL,
+  p_settled_by        UUID DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_outcome NOT IN ('settled', 'failed') THEN
+    RAISE EXCEPTION 'Unknown tab outcome %', p_outcome
+      USING ERRCODE = 'P0006';
+  END IF;
+
+  UPDATE vip_table_tabs
+  SET status = p_outcome,
+      settlement_method = CASE WHEN p_outcome = 'settled' THEN p_method END,
+      charged_cents = CASE WHEN p_outcome = 'settled' THEN p_charged_cents END,
+      stripe_payment_intent_id = COALESCE(p_payment_intent_id, stripe_payment_intent_id),
+      failure_reason = p_failure_reason,
+      settled_at = CASE WHEN p_outcome = 'settled' THEN NOW() END,
+      settled_by = p_settled_by,
+      settling_started_at = NULL
+  WHERE id = p_tab_id AND status = 'settling';
+
+  RETURN FOUND;
+END;
+$$;
+
+-- ============================================
+-- 13. COPY_VIP_BOTTLE_MENU RPC
+-- ============================================
+
+-- Start an event's menu from another event's. Skips items the target event
+-- already has by name.
+CREATE OR REPLACE FUNCTION public.copy_vip_bottle_menu(
+  p_from_event_id VARCHAR,
+  p_to_event_id   VARCHAR
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_copied INTEGER;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND COALESCE(auth.jwt() -> 'app_metadata' ->> 'role', '') <> 'owner' THEN
+    RAISE EXCEPTION 'Only owners can edit the bottle menu' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO vip_bottle_menu_items (event_id, category, name, description, price_cents, is_available, sort_order)
+  SELECT p_to_event_id, src.category, src.name, src.description, src.price_cents, src.is_available, src.sort_order
+  FROM vip_bottle_menu_items src
+  WHERE src.event_id = p_from_event_id
+    AND NOT EXISTS (
+      SELECT 1 FROM vip_bottle_menu_items dst
+      WHERE dst.event_id = p_to_event_id AND LOWER(dst.name) = LOWER(src.name)
+    );
+
+  GET DIAGNOSTICS v_copied = ROW_COUNT;
+  RETURN v_copied;
+END;
+$$;
+
+-- ============================================
+-- 14. PERMISSIONS
+-- ============================================
+
+REVOKE ALL ON FUNCTION open_vip_tab(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION vip_tab_totals(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.begin_vip_tab_settlement(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.finish_vip_tab_settlement(UUID, TEXT, TEXT, INTEGER, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.place_vip_bottle_order(UUID, JSONB, TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_vip_tab(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.update_vip_bottle_order_status(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_event_vip_tabs(VARCHAR) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.copy_vip_bottle_menu(VARCHAR, VARCHAR) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.begin_vip_tab_settlement(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.finish_vip_tab_settlement(UUID, TEXT, TEXT, INTEGER, TEXT, TEXT, UUID) TO service_role;
+
+COMMIT;
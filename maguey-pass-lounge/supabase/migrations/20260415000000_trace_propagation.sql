@@ -0,0 +1,30 @@
+-- Migration: carry the purchase trace through queued work
+-- A ticket purchase spans several hops that do not share a request: the
+-- browser, create-checkout-session, the Stripe webhook, process-email-queue
+-- and, hours later, the door scan. The W3C traceparent travels in the
+-- Checkout session metadata as far as the webhook; these columns carry it
+-- the rest of the way:
+--   • email_queue.traceparent, continued by process-email-queue
+--   • tickets.traceparent, continued by the scanner when the ticket is admitted
+--
+-- Both are nullable; rows written before tracing, or by paths that do not
+-- trace yet, simply start a new trace when processed.
+
+BEGIN;
+
+-- ============================================
+-- 1. COLUMNS
+-- ============================================
+
+ALTER TABLE public.email_queue
+  ADD COLUMN IF NOT EXISTS traceparent TEXT;
+
+ALTER TABLE public.tickets
+  ADD COLUMN IF NOT EXISTS traceparent TEXT;
+
+COMMENT ON COLUMN public.email_queue.traceparent IS
+  'W3C traceparent of the span that queued the email';
+COMMENT ON COLUMN public.tickets.traceparent IS
+  'W3C traceparent of the span that issued the ticket (purchase trace)';
+
+COMMIT;
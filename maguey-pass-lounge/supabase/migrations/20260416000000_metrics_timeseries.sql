@@ -0,0 +1,287 @@
+-- Migration: persistent time-series for the in-browser metrics registry
+-- monitoring.ts keeps counters, gauges and histograms in memory, so every
+-- reload starts from zero and each device only sees its own session.
+-- metrics-sync.ts in the ticket site and the scanner now flushes what each
+-- device recorded since its last flush:
+--   • metric_samples: one row per labelled series per flush (counter
+--     increase, latest gauge value, or new histogram observations), kept for
+--     the historical charts on the scanner's monitoring pages
+--   • metric_totals: running totals per series, read by the health-check
+--     /metrics endpoint so Prometheus counters never go backwards when old
+--     samples are pruned
+--   • record_metric_samples: the flush RPC; the ticket site flushes for
+--     guests too, so it is open to anon and validates and caps its input
+--   • get_metric_history: bucketed series for a time range, owners only
+--   • prune_metric_samples: drops samples past the retention window
+--
+-- Gauges in metric_totals hold the most recent value any device reported.
+
+BEGIN;
+
+-- ============================================
+-- 1. METRIC_SAMPLES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.metric_samples (
+  id BIGSERIAL PRIMARY KEY,
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  app TEXT NOT NULL CHECK (app IN ('pass-lounge', 'gate-scanner')),
+  device_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  metric_type TEXT NOT NULL CHECK (metric_type IN ('counter', 'gauge', 'histogram')),
+  labels JSONB NOT NULL DEFAULT '{}'::jsonb,
+  value DOUBLE PRECISION NOT NULL,
+  count BIGINT,
+  buckets JSONB
+);
+
+CREATE INDEX IF NOT EXISTS idx_metric_samples_name_recorded
+  ON public.metric_samples (name, recorded_at);
+CREATE INDEX IF NOT EXISTS idx_metric_samples_recorded
+  ON public.metric_samples (recorded_at);
+
+COMMENT ON COLUMN public.metric_samples.value IS
+  'Counter increase, gauge value, or sum of new histogram observations';
+COMMENT ON COLUMN public.metric_samples.buckets IS
+  'Histogram only: bucket upper bound (ms) -> new observations at or below it';
+
+-- ============================================
+-- 2. METRIC_TOTALS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.metric_totals (
+  app TEXT NOT NULL,
+  name TEXT NOT NULL,
+  labels JSONB NOT NULL DEFAULT '{}'::jsonb,
+  metric_type TEXT NOT NULL CHECK (metric_type IN ('counter', 'gauge', 'histogram')),
+  value DOUBLE PRECISION NOT NULL DEFAULT 0,
+  count BIGINT NOT NULL DEFAULT 0,
+  buckets JSONB NOT NULL DEFAULT '{}'::jsonb,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (app, name, labels)
+);
+
+-- No direct access — written by record_metric_samples, read through
+-- get_metric_history and the health-check function (service role)
+ALTER TABLE public.metric_samples ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.metric_totals ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- 3. RECORD_METRIC_SAMPLES
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.record_metric_samples(
+  p_app TEXT,
+  p_device_id TEXT,
+  p_samples JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sample   JSONB;
+  v_type     TEXT;
+  v_labels   JSONB;
+  v_value    DOUBLE PRECISION;
+  v_count    BIGINT;
+  v_buckets  JSONB;
+  v_recorded INTEGER := 0;
+BEGIN
+  IF p_app IS NULL OR p_app NOT IN ('pass-lounge', 'gate-scanner') THEN
+    RAISE EXCEPTION 'Unknown app %', p_app
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_device_id IS NULL OR p_device_id !~ '^[A-Za-z0-9_-]{1,64}$' THEN
+    RAISE EXCEPTION 'Invalid device id'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF jsonb_typeof(p_samples) IS DISTINCT FROM 'array' OR jsonb_array_length(p_samples) > 500 THEN
+    RAISE EXCEPTION 'Expected an array of at most 500 samples'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  FOR v_sample IN SELECT * FROM jsonb_array_elements(p_samples)
+  LOOP
+    v_type := v_sample ->> 'type';
+    v_labels := COALESCE(v_sample -> 'labels', '{}'::jsonb);
+
+    -- Skip anything that would not make a valid series
+    CONTINUE WHEN jsonb_typeof(v_sample) IS DISTINCT FROM 'object'
+      OR COALESCE(v_sample ->> 'name', '') !~ '^[A-Za-z_][A-Za-z0-9_.:-]{0,99}$'
+      OR v_type IS NULL OR v_type NOT IN ('counter', 'gauge', 'histogram')
+      OR jsonb_typeof(v_sample -> 'value') IS DISTINCT FROM 'number'
+      OR jsonb_typeof(v_labels) IS DISTINCT FROM 'object';
+    CONTINUE WHEN (SELECT COUNT(*) FROM jsonb_each(v_labels)) > 10
+      OR EXISTS (
+        SELECT 1 FROM jsonb_each(v_labels) AS l
+        WHERE jsonb_typeof(l.value) <> 'string' OR length(l.key) > 64 OR length(l.value #>> '{}') > 200
+      );
+
+    v_value := (v_sample ->> 'value')::DOUBLE PRECISION;
+    v_count := NULL;
+    v_buckets := NULL;
+
+    IF v_type = 'counter' THEN
+      -- Counters only go up
+      CONTINUE WHEN v_value < 0;
+    ELSIF v_type = 'histogram' THEN
+      CONTINUE WHEN jsonb_typeof(v_sample -> 'count') IS DISTINCT FROM 'number'
+        OR (v_sample ->> 'count')::NUMERIC < 1;
+      v_count := (v_sample ->> 'count')::BIGINT;
+      v_buckets := CASE
+        WHEN jsonb_typeof(v_sample -> 'buckets') = 'object' THEN v_sample -> 'buckets'
+        ELSE '{}'::jsonb
+      END;
+    END IF;
+
+    INSERT INTO public.metric_samples (app, device_id, name, metric_type, labels, value, count, buckets)
+    VALUES (p_app, p_device_id, v_sample ->> 'name', v_type, v_labels, v_value, v_count, v_buckets);
+
+    INSERT INTO public.metric_totals AS t (app, name, labels, metric_type, value, count, buckets)
+    VALUES (p_app, v_sample ->> 'name', v_labels, v_type, v_value, COALESCE(v_count, 0), COALESCE(v_buckets, '{}'::jsonb))
+    ON CONFLICT (app, name, labels) DO UPDATE SET
+      metric_type = EXCLUDED.metric_type,
+      value = CASE
+        WHEN EXCLUDED.metric_type = 'gauge' THEN EXCLUDED.value
+        ELSE t.value + EXCLUDED.value
+      END,
+      count = t.count + EXCLUDED.count,
+      buckets = (
+        SELECT COALESCE(
+          jsonb_object_agg(k.key, COALESCE((t.buckets ->> k.key)::NUMERIC, 0) + COALESCE((EXCLUDED.buckets ->> k.key)::NUMERIC, 0)),
+          '{}'::jsonb
+        )
+        FROM jsonb_object_keys(t.buckets || EXCLUDED.buckets) AS k(key)
+      ),
+      updated_at = NOW();
+
+    v_recorded := v_recorded + 1;
+  END LOOP;
+
+  RETURN v_recorded;
+END;
+$$;
+
+-- ============================================
+-- 4. GET_METRIC_HISTORY
+-- ============================================
+
+-- One row per metric per time bucket, summed across devices: counters give
+-- the increase in the bucket, gauges the average reported value, and
+-- histograms the sum and count of observations (total / observations is
+-- the mean).
+CREATE OR REPLACE FUNCTION public.get_metric_history(
+  p_names TEXT[],
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_bucket_seconds INTEGER,
+  p_app TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  bucket_start TIMESTAMPTZ,
+  metric_name TEXT,
+  metric_type TEXT,
+  total DOUBLE PRECISION,
+  observations BIGINT,
+  devices INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND COALESCE(auth.jwt() -> 'app_metadata' ->> 'role', '') <> 'owner' THEN
+    RAISE EXCEPTION 'Only owners can view metric history'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_from IS NULL OR p_to IS NULL OR p_to <= p_from THEN
+    RAISE EXCEPTION 'Invalid time range'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  IF p_bucket_seconds IS NULL OR p_bucket_seconds < 60
+     OR EXTRACT(EPOCH FROM (p_to - p_from)) / p_bucket_seconds > 1000 THEN
+    RAISE EXCEPTION 'Buckets must be at least a minute and at most 1000 per range'
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    date_bin(make_interval(secs => p_bucket_seconds), s.recorded_at, p_from) AS bucket_start,
+    s.name,
+    s.metric_type,
+    CASE WHEN s.metric_type = 'gauge' THEN AVG(s.value) ELSE SUM(s.value) END,
+    COALESCE(SUM(s.count), 0)::BIGINT,
+    COUNT(DISTINCT s.device_id)::INTEGER
+  FROM public.metric_samples s
+  WHERE s.name = ANY(p_names)
+    AND s.recorded_at >= p_from
+    AND s.recorded_at < p_to
+    AND (p_app IS NULL OR s.app = p_app)
+  GROUP BY 1, s.name, s.metric_type
+  ORDER BY 1, s.name;
+END;
+$$;
+
+-- ============================================
+-- 5. PRUNE_METRIC_SAMPLES
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.prune_metric_samples(
+  p_retention INTERVAL DEFAULT INTERVAL '30 days'
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deleted INTEGER;
+BEGIN
+  DELETE FROM public.metric_samples
+  WHERE recorded_at < NOW() - p_retention;
+
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted;
+END;
+$$;
+
+-- ============================================
+-- 6. GRANTS
+-- ============================================
+
+REVOKE ALL ON FUNCTION public.record_metric_samples(TEXT, TEXT, JSONB) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_metric_history(TEXT[], TIMESTAMPTZ, TIMESTAMPTZ, INTEGER, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.prune_metric_samples(INTERVAL) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.record_metric_samples(TEXT, TEXT, JSONB) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_metric_history(TEXT[], TIMESTAMPTZ, TIMESTAMPTZ, INTEGER, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.prune_metric_samples(INTERVAL) TO service_role;
+
+COMMIT;
+
+-- =========================================================
+-- pg_cron setup — run manually in Supabase Dashboard > SQL Editor
+-- =========================================================
+--
+-- Requires: pg_cron extension enabled
+-- Schedule: Daily at 04:30 UTC (30 4 * * *)
+-- Keeps 30 days of samples for the history charts; metric_totals, and so
+-- the Prometheus counters, are unaffected.
+--
+-- SELECT cron.schedule(
+--   'prune-metric-samples',
+--   '30 4 * * *',
+--   $$ SELECT public.prune_metric_samples(); $$
+-- );
+--
+-- Verify: SELECT jobid, schedule, command, active FROM cron.job;
+-- Remove: SELECT cron.unschedule('prune-metric-samples');
+-- =========================================================
@@ -0,0 +1,413 @@
+-- Migration: purchase-time fraud scoring and card-testing defense
+-- fraud_detection_logs only scores scans; checkouts were only rate limited
+-- per IP. create-checkout-session now scores every purchase (see
+-- supabase/functions/_shared/purchase-risk.ts) and stripe-webhook re-scores
+-- it once the card is known:
+--   • orders: risk score, action and signals, plus the device, IP and card
+--     fingerprint they are counted against, and the review outcome
+--   • checkout_payment_failures: declined card attempts in ticket Checkout
+--     (payment_intent.payment_failed), for card-testing detection
+--   • get_purchase_velocity: recent orders and declines for an email,
+--     device, IP and card
+--   • hold_order_for_review: voids a paid order's tickets until an owner
+--     looks at it (refund_status 'voided', like disputed payments)
+--   • resolve_purchase_review: approve (tickets restored) or reject (tickets
+--     stay void; review-purchase refunds the payment)
+--   • get_purchase_reviews: the review queue on the scanner's Security
+--     Alerts page, owners only
+
+BEGIN;
+
+-- ============================================
+-- 1. ORDER RISK COLUMNS
+-- ============================================
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS risk_score SMALLINT,
+  ADD COLUMN IF NOT EXISTS risk_action TEXT
+    CHECK (risk_action IN ('allow', 'require_login', 'require_3ds', 'hold_for_review', 'block')),
+  ADD COLUMN IF NOT EXISTS risk_signals JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS device_id TEXT,
+  ADD COLUMN IF NOT EXISTS client_ip TEXT,
+  ADD COLUMN IF NOT EXISTS card_fingerprint TEXT,
+  ADD COLUMN IF NOT EXISTS review_status TEXT
+    CHECK (review_status IN ('pending', 'approved', 'rejected')),
+  ADD COLUMN IF NOT EXISTS reviewed_by UUID,
+  ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS review_notes TEXT;
+
+COMMENT ON COLUMN public.orders.risk_score IS
+  'Purchase risk 0-100 from create-checkout-session, raised by stripe-webhook once the card is known';
+COMMENT ON COLUMN public.orders.device_id IS
+  'Anonymous browser ID sent by the ticket site';
+
+CREATE INDEX IF NOT EXISTS idx_orders_email_created
+  ON public.orders (lower(purchaser_email), created_at);
+CREATE INDEX IF NOT EXISTS idx_orders_device_created
+  ON public.orders (device_id, created_at) WHERE device_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_orders_client_ip_created
+  ON public.orders (client_ip, created_at) WHERE client_ip IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_orders_card_created
+  ON public.orders (card_fingerprint, created_at) WHERE card_fingerprint IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_orders_review_pending
+  ON public.orders (created_at) WHERE review_status = 'pending';
+
+-- ============================================
+-- 2. CHECKOUT_PAYMENT_FAILURES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.checkout_payment_failures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  stripe_payment_intent_id TEXT NOT NULL,
+  -- One row per declined attempt; webhook retries are ignored
+  stripe_charge_id TEXT UNIQUE,
+  purchaser_email TEXT,
+  device_id TEXT,
+  client_ip TEXT,
+  card_fingerprint TEXT,
+  amount_cents INTEGER NOT NULL,
+  decline_code TEXT,
+  failure_message TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_checkout_payment_failures_created
+  ON public.checkout_payment_failures (created_at);
+CREATE INDEX IF NOT EXISTS idx_checkout_payment_failures_card
+  ON public.checkout_payment_failures (card_fingerprint) WHERE card_fingerprint IS NOT NULL;
+
+-- Written and read by the edge functions only
+ALTER TABLE public.checkout_payment_failures ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.record_checkout_payment_failure(
+  p_order_id UUID,
+  p_payment_intent_id TEXT,
+  p_charge_id TEXT,
+  p_card_fingerprint TEXT,
+  p_amount_cents INTEGER,
+  p_decline_code TEXT,
+  p_failure_message TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Not allowed to record payment failures' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id;
+
+  INSERT INTO checkout_payment_failures (
+    order_id, stripe_payment_intent_id, stripe_charge_id, purchaser_email,
+    device_id, client_ip, card_fingerprint, amount_cents, decline_code, failure_message
+  ) VALUES (
+    v_order.id, p_payment_intent_id, p_charge_id, v_order.purchaser_email,
+    v_order.device_id, v_order.client_ip, p_card_fingerprint, p_amount_cents,
+    p_decline_code, left(p_failure_message, 500)
+  )
+  ON CONFLICT (stripe_charge_id) DO NOTHING;
+END;
+$$;
+
+-- ============================================
+-- 3. GET_PURCHASE_VELOCITY
+-- ============================================
+-- Counts include the purchase being scored: distinct emails count the
+-- purchaser's own email, so 1 means nobody else used the device, IP or card.
+
+CREATE OR REPLACE FUNCTION public.get_purchase_velocity(
+  p_email TEXT,
+  p_device_id TEXT DEFAULT NULL,
+  p_client_ip TEXT DEFAULT NULL,
+  p_card_fingerprint TEXT DEFAULT NULL,
+  p_exclude_order_id UUID DEFAULT NULL,
+  p_small_payment_cents INTEGER DEFAULT 1500
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email TEXT := lower(trim(p_email));
+  v_day_ago TIMESTAMPTZ := NOW() - INTERVAL '24 hours';
+  v_hour_ago TIMESTAMPTZ := NOW() - INTERVAL '1 hour';
+  v_result JSONB;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Not allowed to read purchase velocity' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  WITH recent_orders AS (
+    SELECT lower(purchaser_email) AS email, device_id, client_ip, card_fingerprint
+    FROM orders
+    WHERE created_at > v_day_ago
+      AND id IS DISTINCT FROM p_exclude_order_id
+  ),
+  recent_failures AS (
+    SELECT lower(purchaser_email) AS email, amount_cents, card_fingerprint
+    FROM checkout_payment_failures
+    WHERE created_at > v_hour_ago
+      AND (
+        lower(purchaser_email) = v_email
+        OR device_id = p_device_id
+        OR client_ip = p_client_ip
+        OR card_fingerprint = p_card_fingerprint
+      )
+  )
+  SELECT jsonb_build_object(
+    'email_orders_24h',
+      1 + (SELECT COUNT(*) FROM recent_orders WHERE email = v_email),
+    'device_emails_24h',
+      CASE WHEN p_device_id IS NULL THEN 1 ELSE (
+        SELECT COUNT(DISTINCT email) FROM (
+          SELECT email FROM recent_orders WHERE device_id = p_device_id
+          UNION SELECT v_email
+        ) emails
+      ) END,
+    'ip_emails_24h',
+      CASE WHEN p_client_ip IS NULL THEN 1 ELSE (
+        SELECT COUNT(DISTINCT email) FROM (
+          SELECT email FROM recent_orders WHERE client_ip = p_client_ip
+          UNION SELECT v_email
+        ) emails
+      ) END,
+    'card_emails_24h',
+      CASE WHEN p_card_fingerprint IS NULL THEN 1 ELSE (
+        SELECT COUNT(DISTINCT email) FROM (
+          SELECT email FROM recent_orders WHERE card_fingerprint = p_card_fingerprint
+          UNION
+          SELECT lower(purchaser_email) FROM checkout_payment_failures
+          WHERE card_fingerprint = p_card_fingerprint AND created_at > v_day_ago AND purchaser_email IS NOT NULL
+          UNION SELECT v_email
+        ) emails
+      ) END,
+    'failed_payments_1h',
+      (SELECT COUNT(*) FROM recent_failures),
+    'small_failed_payments_1h',
+      (SELECT COUNT(*) FROM recent_failures WHERE amount_cents <= p_small_payment_cents),
+    'rejected_orders',
+      (
+        SELECT COUNT(*) FROM orders
+        WHERE review_status = 'rejected'
+          AND id IS DISTINCT FROM p_exclude_order_id
+          AND (
+            lower(purchaser_email) = v_email
+            OR device_id = p_device_id
+            OR card_fingerprint = p_card_fingerprint
+          )
+      )
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
+
+-- ============================================
+-- 4. HOLD_ORDER_FOR_REVIEW
+-- ============================================
+-- Held tickets are voided the same way as disputed ones, so the scanner
+-- (online and offline cache) turns them away until the order is approved.
+
+CREATE OR REPLACE FUNCTION public.hold_order_for_review(p_order_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_held INTEGER;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Not allowed to hold orders' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE orders
+  SET review_status = 'pending',
+      updated_at = NOW()
+  WHERE id = p_order_id
+    AND review_status IS NULL;
+
+  UPDATE tickets
+  SET refund_status = 'voided',
+      refund_reason = 'Payment under review',
+      updated_at = NOW()
+  WHERE order_id = p_order_id
+    AND COALESCE(refund_status, 'none') = 'none'
+    AND status NOT IN ('cancelled', 'refunded');
+
+  GET DIAGNOSTICS v_held = ROW_COUNT;
+  RETURN v_held;
+END;
+$$;
+
+-- ============================================
+-- 5. RESOLVE_PURCHASE_REVIEW
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.resolve_purchase_review(
+  p_order_id UUID,
+  p_decision TEXT,
+  p_notes TEXT DEFAULT NULL,
+  p_reviewed_by UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+  v_tickets INTEGER;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND COALESCE(auth.jwt() -> 'app_metadata' ->> 'role', '') <> 'owner' THEN
+    RAISE EXCEPTION 'Only owners can review purchases'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_decision NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Decision must be approved or rejected';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+  IF v_order.review_status IS DISTINCT FROM 'pending' THEN
+    RAISE EXCEPTION 'Order % is not awaiting review', p_order_id;
+  END IF;
+
+  UPDATE orders
+  SET review_status = p_decision,
+      reviewed_by = COALESCE(p_reviewed_by, auth.uid()),
+      reviewed_at = NOW(),
+      review_notes = p_notes,
+      updated_at = NOW()
+  WHERE id = p_order_id;
+
+  IF p_decision = 'approved' THEN
+    -- Only the review hold is lifted; a dispute opened meanwhile keeps its own
+    UPDATE tickets
+    SET refund_status = 'none',
+        refund_reason = NULL,
+        updated_at = NOW()
+    WHERE order_id = p_order_id
+      AND refund_status = 'voided'
+      AND refund_reason = 'Payment under review';
+  ELSE
+    UPDATE tickets
+    SET refund_reason = 'Rejected in payment review',
+        updated_at = NOW()
+    WHERE order_id = p_order_id
+      AND refund_status = 'voided'
+      AND refund_reason = 'Payment under review';
+  END IF;
+
+  GET DIAGNOSTICS v_tickets = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'order_id', v_order.id,
+    'event_id', v_order.event_id,
+    'purchaser_email', v_order.purchaser_email,
+    'purchaser_name', v_order.purchaser_name,
+    'stripe_payment_intent_id', v_order.stripe_payment_intent_id,
+    'locale', v_order.locale,
+    'review_status', p_decision,
+    'tickets_updated', v_tickets
+  );
+END;
+$$;
+
+-- ============================================
+-- 6. GET_PURCHASE_REVIEWS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.get_purchase_reviews(
+  p_status TEXT DEFAULT 'pending',
+  p_limit INTEGER DEFAULT 100
+)
+RETURNS TABLE (
+  order_id UUID,
+  created_at TIMESTAMPTZ,
+  event_id TEXT,
+  event_name TEXT,
+  purchaser_email TEXT,
+  purchaser_name TEXT,
+  total NUMERIC,
+  ticket_count INTEGER,
+  risk_score SMALLINT,
+  risk_action TEXT,
+  risk_signals JSONB,
+  device_id TEXT,
+  client_ip TEXT,
+  card_fingerprint TEXT,
+  review_status TEXT,
+  reviewed_at TIMESTAMPTZ,
+  review_notes TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND COALESCE(auth.jwt() -> 'app_metadata' ->> 'role', '') <> 'owner' THEN
+    RAISE EXCEPTION 'Only owners can review purchases'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.created_at,
+    o.event_id::TEXT,
+    e.name::TEXT,
+    o.purchaser_email::TEXT,
+    o.purchaser_name::TEXT,
+    o.total::NUMERIC,
+    (SELECT COUNT(*)::INTEGER FROM tickets t WHERE t.order_id = o.id),
+    o.risk_score,
+    o.risk_action,
+    o.risk_signals,
+    o.device_id,
+    o.client_ip,
+    o.card_fingerprint,
+    o.review_status,
+    o.reviewed_at,
+    o.review_notes
+  FROM orders o
+  LEFT JOIN events e ON e.id = o.event_id
+  WHERE o.review_status = p_status
+  ORDER BY CASE WHEN p_status = 'pending' THEN o.created_at END ASC,
+           o.reviewed_at DESC NULLS LAST
+  LIMIT LEAST(GREATEST(p_limit, 1), 500);
+END;
+$$;
+
+-- ============================================
+-- 7. GRANTS
+-- ============================================
+
+REVOKE ALL ON FUNCTION public.record_checkout_payment_failure(UUID, TEXT, TEXT, TEXT, INTEGER, TEXT, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_purchase_velocity(TEXT, TEXT, TEXT, TEXT, UUID, INTEGER) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.hold_order_for_review(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.resolve_purchase_review(UUID, TEXT, TEXT, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_purchase_reviews(TEXT, INTEGER) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION public.record_checkout_payment_failure(UUID, TEXT, TEXT, TEXT, INTEGER, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_purchase_velocity(TEXT, TEXT, TEXT, TEXT, UUID, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.hold_order_for_review(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.resolve_purchase_review(UUID, TEXT, TEXT, UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_purchase_reviews(TEXT, INTEGER) TO authenticated, service_role;
+
+COMMIT;
@@ -0,0 +1,423 @@
+-- Migration: event rescheduling with a keep-or-refund window
+-- Changing an event's date in the scanner's Event Management used to just
+-- edit the row. Owners now reschedule through the reschedule-event Edge
+-- Function (see _shared/event-reschedule.ts):
+--   • event_reschedules: every date change with the old and new date and
+--     the deadline for holders to ask for a refund
+--   • event_reschedule_responses: one row per paid order and per VIP
+--     reservation, with the token for the holder's keep-or-refund link
+--     (/reschedule/:token on the ticket site). No answer by the deadline
+--     counts as keeping the tickets
+--   • reschedule_event: moves the event (tickets and reservations follow
+--     their event), opens the responses and clears event_reminder_log so
+--     send-event-reminders schedules reminders for the new date
+--   • get_event_reschedule_response / record_reschedule_choice: the
+--     holder's link page and respond-to-reschedule
+--   • email_queue types for the reschedule and refund emails
+--
+-- Split VIP tables with paid invitee shares are not offered a refund here;
+-- each payer paid separately, so reschedule_event reports them for the
+-- owner to handle.
+
+BEGIN;
+
+-- ============================================
+-- 1. RESCHEDULES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.event_reschedules (
+  id               UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id         UUID        NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  previous_date    DATE        NOT NULL,
+  previous_time    TEXT,
+  new_date         DATE        NOT NULL,
+  new_time         TEXT,
+  refund_deadline  TIMESTAMPTZ NOT NULL,
+  reason           TEXT,
+  rescheduled_by   UUID        REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_reschedules_event
+  ON public.event_reschedules(event_id, created_at DESC);
+
+COMMENT ON TABLE public.event_reschedules IS 'Date changes made with reschedule_event, newest last';
+COMMENT ON COLUMN public.event_reschedules.refund_deadline IS 'Holders can ask for a refund until this time; after it, unanswered holders keep their tickets';
+
+-- ============================================
+-- 2. HOLDER RESPONSES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.event_reschedule_responses (
+  id                       UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  reschedule_id            UUID        NOT NULL REFERENCES public.event_reschedules(id) ON DELETE CASCADE,
+  order_id                 UUID        REFERENCES public.orders(id) ON DELETE SET NULL,
+  vip_reservation_id       UUID        REFERENCES public.vip_reservations(id) ON DELETE SET NULL,
+  holder_email             TEXT        NOT NULL,
+  holder_name              TEXT,
+  locale                   TEXT        NOT NULL DEFAULT 'en',
+  amount_cents             INTEGER     NOT NULL CHECK (amount_cents >= 0),
+  stripe_payment_intent_id TEXT        NOT NULL,
+  response_token           TEXT        NOT NULL UNIQUE DEFAULT encode(gen_random_bytes(16), 'hex'),
+  -- superseded: the event was rescheduled again before the holder answered
+  choice                   TEXT        NOT NULL DEFAULT 'pending'
+                                       CHECK (choice IN ('pending', 'keep', 'refund', 'superseded')),
+  refund_status            TEXT        CHECK (refund_status IN ('processing', 'refunded', 'failed')),
+  refund_id                TEXT,
+  refund_error             TEXT,
+  responded_at             TIMESTAMPTZ,
+  refunded_at              TIMESTAMPTZ,
+  created_at               TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at               TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT event_reschedule_responses_one_target CHECK (num_nonnulls(order_id, vip_reservation_id) <= 1)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_reschedule_responses_reschedule
+  ON public.event_reschedule_responses(reschedule_id);
+CREATE INDEX IF NOT EXISTS idx_event_reschedule_responses_order
+  ON public.event_reschedule_responses(order_id);
+CREATE INDEX IF NOT EXISTS idx_event_reschedule_responses_reservation
+  ON public.event_reschedule_responses(vip_reservation_id);
+
+COMMENT ON COLUMN public.event_reschedule_responses.response_token IS 'Credential in the holder''s keep-or-refund link (/reschedule/:token)';
+
+-- ============================================
+-- 3. RLS
+-- ============================================
+-- Owners and promoters read the kept / refunded report from Event
+-- Management; every write goes through the functions below.
+
+ALTER TABLE public.event_reschedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.event_reschedule_responses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view event reschedules" ON public.event_reschedules;
+CREATE POLICY "Staff can view event reschedules"
+  ON public.event_reschedules
+  FOR SELECT
+  TO authenticated
+  USING (auth.jwt() -> 'app_metadata' ->> 'role' IN ('owner', 'promoter'));
+
+DROP POLICY IF EXISTS "Staff can view event reschedule responses" ON public.event_reschedule_responses;
+CREATE POLICY "Staff can view event reschedule responses"
+  ON public.event_reschedule_responses
+  FOR SELECT
+  TO authenticated
+  USING (auth.jwt() -> 'app_metadata' ->> 'role' IN ('owner', 'promoter'));
+
+-- ============================================
+-- 4. RESCHEDULE_EVENT RPC
+-- ============================================
+
+-- Called by reschedule-event once it has checked the caller is an owner.
+-- Tickets and VIP reservations point at the event, so moving the event's
+-- date moves them. Returns the responses for the Edge Function to email.
+CREATE OR REPLACE FUNCTION public.reschedule_event(
+  p_event_id        UUID,
+  p_new_date        DATE,
+  p_new_time        TEXT,
+  p_refund_deadline TIMESTAMPTZ,
+  p_reason          TEXT DEFAULT NULL,
+  p_rescheduled_by  UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event           RECORD;
+  v_old_start       TIMESTAMPTZ;
+  v_new_start       TIMESTAMPTZ;
+  v_reschedule_id   UUID;
+  v_superseded      INTEGER := 0;
+  v_reminders_reset INTEGER := 0;
+  v_split_skipped   INTEGER := 0;
+  v_responses       JSON;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Only owners can reschedule events' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT id, name, event_date, event_time, venue_name, cancellation_status
+  INTO v_event
+  FROM events
+  WHERE id = p_event_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+  IF COALESCE(v_event.cancellation_status, 'active') = 'cancelled' THEN
+    RAISE EXCEPTION 'Event is cancelled';
+  END IF;
+
+  -- Same start-time arithmetic as can_cancel_event
+  v_old_start := (v_event.event_date || ' ' || COALESCE(v_event.event_time::TEXT, '00:00:00'))::TIMESTAMPTZ;
+  v_new_start := (p_new_date || ' ' || COALESCE(p_new_time, v_event.event_time::TEXT, '00:00:00'))::TIMESTAMPTZ;
+
+  IF v_old_start <= NOW() THEN
+    RAISE EXCEPTION 'Event has already started';
+  END IF;
+  IF v_new_start <= NOW() THEN
+    RAISE EXCEPTION 'New date must be in the future';
+  END IF;
+  IF v_new_start = v_old_start THEN
+    RAISE EXCEPTION 'New date is the same as the current date';
+  END IF;
+  IF p_refund_deadline <= NOW() OR p_refund_deadline > v_new_start THEN
+    RAISE EXCEPTION 'Refund deadline must be between now and the new start time';
+  END IF;
+
+  -- Holders who had not answered an earlier reschedule answer this one
+  UPDATE event_reschedule_responses rr
+  SET choice = 'superseded', updated_at = NOW()
+  FROM event_reschedules r
+  WHERE rr.reschedule_id = r.id
+    AND r.event_id = p_event_id
+    AND rr.choice = 'pending';
+  GET DIAGNOSTICS v_superseded = ROW_COUNT;
+
+  INSERT INTO event_reschedules (
+    event_id, previous_date, previous_time, new_date, new_time,
+    refund_deadline, reason, rescheduled_by
+  )
+  VALUES (
+    p_event_id, v_event.event_date, v_event.event_time::TEXT, p_new_date,
+    COALESCE(p_new_time, v_event.event_time::TEXT), p_refund_deadline,
+    NULLIF(TRIM(p_reason), ''), p_rescheduled_by
+  )
+  RETURNING id INTO v_reschedule_id;
+
+  UPDATE events
+  SET event_date = p_new_date,
+      event_time = COALESCE(p_new_time, event_time::TEXT),
+      updated_at = NOW()
+  WHERE id = p_event_id;
+
+  -- Paid orders that still have a valid ticket
+  INSERT INTO event_reschedule_responses (
+    reschedule_id, order_id, holder_email, holder_name, locale,
+    amount_cents, stripe_payment_intent_id
+  )
+  SELECT v_reschedule_id, o.id, o.purchaser_email, o.purchaser_name, COALESCE(o.locale, 'en'),
+         ROUND(o.total * 100)::INTEGER, o.stripe_payment_intent_id
+  FROM orders o
+  WHERE o.event_id::TEXT = p_event_id::TEXT
+    AND o.status = 'paid'
+    AND o.refunded_at IS NULL
+    AND o.stripe_payment_intent_id IS NOT NULL
+    AND EXISTS (
+      SELECT 1 FROM tickets t
+      WHERE t.order_id = o.id
+        AND t.status NOT IN ('cancelled', 'refunded')
+        AND COALESCE(t.refund_status, 'none') = 'none'
+    );
+
+  -- Confirmed VIP tables paid on their own payment (a table booked with
+  -- tickets shares the order's payment and is answered with the order)
+  INSERT INTO event_reschedule_responses (
+    reschedule_id, vip_reservation_id, holder_email, holder_name, locale,
+    amount_cents, stripe_payment_intent_id
+  )
+  SELECT v_reschedule_id, r.id, r.purchaser_email, r.purchaser_name, COALESCE(r.locale, 'en'),
+         r.amount_paid_cents, r.stripe_payment_intent_id
+  FROM vip_reservations r
+  WHERE r.event_id::TEXT = p_event_id::TEXT
+    AND r.status::TEXT = 'confirmed'
+    AND COALESCE(r.amount_paid_cents, 0) > 0
+    AND r.stripe_payment_intent_id IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM orders o WHERE o.stripe_payment_intent_id = r.stripe_payment_intent_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM vip_payment_shares s
+      WHERE s.reservation_id = r.id AND NOT s.is_host AND s.status = 'paid'
+    );
+
+  SELECT COUNT(*) INTO v_split_skipped
+  FROM vip_reservations r
+  WHERE r.event_id::TEXT = p_event_id::TEXT
+    AND r.status::TEXT IN ('pending', 'confirmed')
+    AND EXISTS (
+      SELECT 1 FROM vip_payment_shares s
+      WHERE s.reservation_id = r.id AND NOT s.is_host AND s.status = 'paid'
+    );
+
+  -- send-event-reminders skips tickets with a log row; clearing them sends
+  -- the 24h and 2h reminders again before the new date
+  DELETE FROM event_reminder_log WHERE event_id::TEXT = p_event_id::TEXT;
+  GET DIAGNOSTICS v_reminders_reset = ROW_COUNT;
+
+  SELECT COALESCE(json_agg(json_build_object(
+    'id',             rr.id,
+    'order_id',       rr.order_id,
+    'vip_reservation_id', rr.vip_reservation_id,
+    'holder_email',   rr.holder_email,
+    'holder_name',    rr.holder_name,
+    'locale',         rr.locale,
+    'amount_cents',   rr.amount_cents,
+    'response_token', rr.response_token
+  ) ORDER BY rr.created_at), '[]'::json)
+  INTO v_responses
+  FROM event_reschedule_responses rr
+  WHERE rr.reschedule_id = v_reschedule_id;
+
+  RETURN json_build_object(
+    'reschedule_id',        v_reschedule_id,
+    'event_id',             p_event_id,
+    'event_name',           v_event.name,
+    'venue_name',           v_event.venue_name,
+    'previous_date',        v_event.event_date,
+    'previous_time',        v_event.event_time::TEXT,
+    'new_date',             p_new_date,
+    'new_time',             COALESCE(p_new_time, v_event.event_time::TEXT),
+    'refund_deadline',      p_refund_deadline,
+    'reason',               NULLIF(TRIM(p_reason), ''),
+    'responses',            v_responses,
+    'superseded_responses', v_superseded,
+    'reminders_reset',      v_reminders_reset,
+    'split_tables_skipped', v_split_skipped
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.reschedule_event IS
+  'Moves an event to a new date, opens keep-or-refund responses for paid holders and re-arms reminders';
+
+-- ============================================
+-- 5. HOLDER LINK
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.get_event_reschedule_response(p_token TEXT)
+RETURNS JSON
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT json_build_object(
+    'response_id',     rr.id,
+    'holder_name',     rr.holder_name,
+    'holder_email',    rr.holder_email,
+    'kind',            CASE WHEN rr.vip_reservation_id IS NOT NULL THEN 'vip' ELSE 'order' END,
+    'amount_cents',    rr.amount_cents,
+    'choice',          rr.choice,
+    'refund_status',   rr.refund_status,
+    'responded_at',    rr.responded_at,
+    'refund_deadline', r.refund_deadline,
+    'previous_date',   r.previous_date,
+    'previous_time',   r.previous_time,
+    'new_date',        r.new_date,
+    'new_time',        r.new_time,
+    'reason',          r.reason,
+    'event_id',        e.id,
+    'event_name',      e.name,
+    'venue_name',      e.venue_name
+  )
+  FROM event_reschedule_responses rr
+  JOIN event_reschedules r ON rr.reschedule_id = r.id
+  JOIN events e ON r.event_id = e.id
+  WHERE rr.response_token = p_token;
+$$;
+
+-- Called by respond-to-reschedule. Holders can change their mind until the
+-- deadline, except after a refund has gone through. A refund is marked
+-- processing before Stripe is called, so a second click cannot refund
+-- twice; a refund that failed can be asked for again.
+CREATE OR REPLACE FUNCTION public.record_reschedule_choice(
+  p_token  TEXT,
+  p_choice TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_response event_reschedule_responses;
+  v_deadline TIMESTAMPTZ;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Not allowed to record reschedule choices' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  IF p_choice NOT IN ('keep', 'refund') THEN
+    RAISE EXCEPTION 'Choice must be keep or refund';
+  END IF;
+
+  SELECT rr.* INTO v_response
+  FROM event_reschedule_responses rr
+  WHERE rr.response_token = p_token
+  FOR UPDATE;
+
+  IF v_response.id IS NULL THEN
+    RAISE EXCEPTION 'Reschedule response not found';
+  END IF;
+
+  SELECT refund_deadline INTO v_deadline FROM event_reschedules WHERE id = v_response.reschedule_id;
+
+  IF v_response.choice = 'superseded' THEN
+    RAISE EXCEPTION 'This event has been rescheduled again';
+  END IF;
+  IF v_response.choice = 'refund' AND v_response.refund_status IN ('processing', 'refunded') THEN
+    RAISE EXCEPTION 'Refund already requested';
+  END IF;
+  IF v_response.choice = 'keep' AND p_choice = 'keep' THEN
+    RETURN row_to_json(v_response);
+  END IF;
+  IF p_choice = 'refund' AND v_deadline <= NOW() THEN
+    RAISE EXCEPTION 'The refund deadline has passed';
+  END IF;
+
+  UPDATE event_reschedule_responses
+  SET choice = p_choice,
+      responded_at = COALESCE(responded_at, NOW()),
+      refund_status = CASE WHEN p_choice = 'refund' THEN 'processing' ELSE NULL END,
+      refund_error = NULL,
+      updated_at = NOW()
+  WHERE id = v_response.id
+  RETURNING * INTO v_response;
+
+  RETURN row_to_json(v_response);
+END;
+$$;
+
+-- ============================================
+-- 6. EMAIL QUEUE TYPES
+-- ============================================
+
+ALTER TABLE public.email_queue
+  DROP CONSTRAINT IF EXISTS email_queue_email_type_check;
+
+ALTER TABLE public.email_queue
+  ADD CONSTRAINT email_queue_email_type_check
+  CHECK (email_type IN (
+    'ga_ticket',
+    'vip_confirmation',
+    'ticket_transfer_received',
+    'ticket_transfer_sent',
+    'event_reminder_24h',
+    'event_reminder_2h',
+    'restaurant_order_status',
+    'ticket_upgraded',
+    'resale_ticket_purchased',
+    'resale_ticket_sold',
+    'vip_split_invite',
+    'vip_split_pass',
+    'vip_split_settled',
+    'vip_split_released',
+    'vip_tab_receipt',
+    'event_rescheduled',
+    'event_reschedule_refunded'
+  ));
+
+-- ============================================
+-- 7. GRANTS
+-- ============================================
+
+REVOKE ALL ON FUNCTION public.reschedule_event(UUID, DATE, TEXT, TIMESTAMPTZ, TEXT, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_event_reschedule_response(TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.record_reschedule_choice(TEXT, TEXT) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION public.reschedule_event(UUID, DATE, TEXT, TIMESTAMPTZ, TEXT, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_event_reschedule_response(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_reschedule_choice(TEXT, TEXT) TO service_role;
+
+COMMIT;
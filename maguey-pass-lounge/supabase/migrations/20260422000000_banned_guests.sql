@@ -0,0 +1,262 @@
+-- Migration: venue-wide banned guest list
+-- Security used to keep banned patrons on a paper list. Owners now keep it
+-- in the scanner's Banned Guests page and it is checked at every door:
+--   • banned_guests: name, date of birth, email, phone, photo, reason,
+--     expiry and who added it. Bans are lifted rather than deleted so the
+--     history stays
+--   • banned-guest-photos: private storage bucket for the photos
+--   • match_banned_guest: the active bans matching a guest by email, phone
+--     or name (plus date of birth when an ID was scanned). Runs with the
+--     caller's rights, so only staff and the service role see anything
+--   • banned_guest_matches: every time a ban matched at a scan, guest list
+--     check-in, ID check or checkout, and whether staff cleared it
+--
+-- Names are compared on a key of the first and last name with accents,
+-- case and punctuation removed. The scanner and create-checkout-session
+-- build the key the same way (banNameKey in src/lib/banned-guests.ts and
+-- _shared/banned-guests.ts). A name match without a date of birth to
+-- compare is only a possible match: door staff check the guest's ID and
+-- photo before turning them away.
+
+BEGIN;
+
+-- ============================================
+-- 1. BANNED GUESTS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.banned_guests (
+  id             UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  full_name      TEXT        NOT NULL,
+  name_key       TEXT        NOT NULL CHECK (name_key <> ''),
+  date_of_birth  DATE,
+  email          TEXT,
+  email_key      TEXT        GENERATED ALWAYS AS (NULLIF(lower(btrim(email)), '')) STORED,
+  phone          TEXT,
+  phone_key      TEXT        GENERATED ALWAYS AS (
+                   CASE WHEN length(regexp_replace(coalesce(phone, ''), '\D', '', 'g')) >= 7
+                     THEN right(regexp_replace(phone, '\D', '', 'g'), 10)
+                   END
+                 ) STORED,
+  photo_path     TEXT,
+  reason         TEXT        NOT NULL CHECK (btrim(reason) <> ''),
+  expires_at     TIMESTAMPTZ,
+  block_purchases BOOLEAN    NOT NULL DEFAULT false,
+  added_by       UUID        REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+  lifted_at      TIMESTAMPTZ,
+  lifted_by      UUID        REFERENCES auth.users(id) ON DELETE SET NULL,
+  lift_reason    TEXT
+);
+
+COMMENT ON COLUMN public.banned_guests.name_key IS
+  'First and last name, lowercased without accents or punctuation (banNameKey)';
+COMMENT ON COLUMN public.banned_guests.photo_path IS
+  'Object path in the banned-guest-photos bucket';
+COMMENT ON COLUMN public.banned_guests.expires_at IS
+  'The ban ends at this time; NULL bans for good';
+COMMENT ON COLUMN public.banned_guests.block_purchases IS
+  'Also refuse ticket purchases by this email or name at checkout';
+
+CREATE INDEX IF NOT EXISTS idx_banned_guests_name_key
+  ON public.banned_guests (name_key) WHERE lifted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_banned_guests_email_key
+  ON public.banned_guests (email_key) WHERE lifted_at IS NULL AND email_key IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_banned_guests_phone_key
+  ON public.banned_guests (phone_key) WHERE lifted_at IS NULL AND phone_key IS NOT NULL;
+
+-- ============================================
+-- 2. MATCH LOG
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.banned_guest_matches (
+  id                  UUID        PRIMARY KEY DEFAULT gen_random_uuid(),
+  banned_guest_id     UUID        NOT NULL REFERENCES public.banned_guests(id) ON DELETE CASCADE,
+  context             TEXT        NOT NULL CHECK (context IN ('scan', 'guest_list', 'id_check', 'checkout')),
+  matched_on          TEXT        NOT NULL CHECK (matched_on IN ('email', 'phone', 'name_dob', 'name')),
+  outcome             TEXT        NOT NULL CHECK (outcome IN ('rejected', 'cleared')),
+  ticket_id           UUID,
+  guest_list_entry_id UUID,
+  event_id            UUID,
+  staff_user_id       UUID        REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at          TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.banned_guest_matches.outcome IS
+  'rejected: turned away or purchase refused; cleared: staff checked ID and it was someone else';
+
+CREATE INDEX IF NOT EXISTS idx_banned_guest_matches_ban
+  ON public.banned_guest_matches (banned_guest_id, created_at DESC);
+
+-- ============================================
+-- 3. RLS
+-- ============================================
+-- Door staff read the list (the scanner keeps an offline copy); only
+-- owners change it. Ticket site customers are authenticated too, so every
+-- policy checks the staff role.
+
+ALTER TABLE public.banned_guests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.banned_guest_matches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view banned guests" ON public.banned_guests;
+CREATE POLICY "Staff can view banned guests"
+  ON public.banned_guests
+  FOR SELECT
+  TO authenticated
+  USING (auth.jwt() -> 'app_metadata' ->> 'role' IN ('owner', 'promoter', 'employee'));
+
+DROP POLICY IF EXISTS "Owners can add banned guests" ON public.banned_guests;
+CREATE POLICY "Owners can add banned guests"
+  ON public.banned_guests
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.jwt() -> 'app_metadata' ->> 'role' = 'owner');
+
+DROP POLICY IF EXISTS "Owners can update banned guests" ON public.banned_guests;
+CREATE POLICY "Owners can update banned guests"
+  ON public.banned_guests
+  FOR UPDATE
+  TO authenticated
+  USING (auth.jwt() -> 'app_metadata' ->> 'role' = 'owner')
+  WITH CHECK (auth.jwt() -> 'app_metadata' ->> 'role' = 'owner');
+
+DROP POLICY IF EXISTS "Staff can view banned guest matches" ON public.banned_guest_matches;
+CREATE POLICY "Staff can view banned guest matches"
+  ON public.banned_guest_matches
+  FOR SELECT
+  TO authenticated
+  USING (auth.jwt() -> 'app_metadata' ->> 'role' IN ('owner', 'promoter'));
+
+DROP POLICY IF EXISTS "Staff can record banned guest matches" ON public.banned_guest_matches;
+CREATE POLICY "Staff can record banned guest matches"
+  ON public.banned_guest_matches
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.jwt() -> 'app_metadata' ->> 'role' IN ('owner', 'promoter', 'employee'));
+
+CREATE OR REPLACE FUNCTION public.touch_banned_guest()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_touch_banned_guest ON public.banned_guests;
+CREATE TRIGGER trg_touch_banned_guest
+  BEFORE UPDATE ON public.banned_guests
+  FOR EACH ROW EXECUTE FUNCTION public.touch_banned_guest();
+
+-- ============================================
+-- 4. PHOTO BUCKET
+-- ============================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'banned-guest-photos',
+  'banned-guest-photos',
+  false,
+  5242880,
+  ARRAY['image/jpeg', 'image/png', 'image/webp']
+)
+ON CONFLICT (id) DO UPDATE SET
+  public = false,
+  file_size_limit = 5242880,
+  allowed_mime_types = ARRAY['image/jpeg', 'image/png', 'image/webp'];
+
+DROP POLICY IF EXISTS "banned_guest_photos_read" ON storage.objects;
+CREATE POLICY "banned_guest_photos_read"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'banned-guest-photos'
+    AND auth.jwt() -> 'app_metadata' ->> 'role' IN ('owner', 'promoter', 'employee')
+  );
+
+DROP POLICY IF EXISTS "banned_guest_photos_write" ON storage.objects;
+CREATE POLICY "banned_guest_photos_write"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'banned-guest-photos'
+    AND auth.jwt() -> 'app_metadata' ->> 'role' = 'owner'
+  );
+
+DROP POLICY IF EXISTS "banned_guest_photos_remove" ON storage.objects;
+CREATE POLICY "banned_guest_photos_remove"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'banned-guest-photos'
+    AND auth.jwt() -> 'app_metadata' ->> 'role' = 'owner'
+  );
+
+-- ============================================
+-- 5. MATCH_BANNED_GUEST
+-- ============================================
+-- Strongest match first: email, phone, name with the same date of birth,
+-- then name alone. A name whose date of birth differs from the ban's is
+-- not a match.
+
+CREATE OR REPLACE FUNCTION public.match_banned_guest(
+  p_email TEXT DEFAULT NULL,
+  p_phone TEXT DEFAULT NULL,
+  p_name_key TEXT DEFAULT NULL,
+  p_date_of_birth DATE DEFAULT NULL,
+  p_purchases_only BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  id UUID,
+  full_name TEXT,
+  date_of_birth DATE,
+  reason TEXT,
+  photo_path TEXT,
+  expires_at TIMESTAMPTZ,
+  matched_on TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH candidate AS (
+    SELECT
+      NULLIF(lower(btrim(p_email)), '') AS email_key,
+      CASE WHEN length(regexp_replace(coalesce(p_phone, ''), '\D', '', 'g')) >= 7
+        THEN right(regexp_replace(p_phone, '\D', '', 'g'), 10)
+      END AS phone_key,
+      NULLIF(btrim(p_name_key), '') AS name_key
+  ),
+  matches AS (
+    SELECT
+      b.*,
+      CASE
+        WHEN c.email_key IS NOT NULL AND b.email_key = c.email_key THEN 'email'
+        WHEN c.phone_key IS NOT NULL AND b.phone_key = c.phone_key THEN 'phone'
+        WHEN c.name_key IS NOT NULL AND b.name_key = c.name_key
+          AND p_date_of_birth IS NOT NULL AND b.date_of_birth = p_date_of_birth THEN 'name_dob'
+        WHEN c.name_key IS NOT NULL AND b.name_key = c.name_key
+          AND (p_date_of_birth IS NULL OR b.date_of_birth IS NULL) THEN 'name'
+      END AS matched_on
+    FROM banned_guests b
+    CROSS JOIN candidate c
+    WHERE b.lifted_at IS NULL
+      AND (b.expires_at IS NULL OR b.expires_at > now())
+      AND (NOT p_purchases_only OR b.block_purchases)
+  )
+  SELECT m.id, m.full_name, m.date_of_birth, m.reason, m.photo_path, m.expires_at, m.matched_on
+  FROM matches m
+  WHERE m.matched_on IS NOT NULL
+  ORDER BY array_position(ARRAY['email', 'phone', 'name_dob', 'name'], m.matched_on), m.created_at DESC;
+$$;
+
+-- ============================================
+-- 6. GRANTS
+-- ============================================
+
+REVOKE ALL ON FUNCTION public.match_banned_guest(TEXT, TEXT, TEXT, DATE, BOOLEAN) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION public.match_banned_guest(TEXT, TEXT, TEXT, DATE, BOOLEAN) TO authenticated, service_role;
+
+COMMIT;